@@ -57,6 +57,41 @@ export type Expense = Prisma.ExpenseModel
  * 
  */
 export type InventoryItem = Prisma.InventoryItemModel
+/**
+ * Model InventoryMovement
+ * 
+ */
+export type InventoryMovement = Prisma.InventoryMovementModel
+/**
+ * Model ProductStockLevel
+ * 
+ */
+export type ProductStockLevel = Prisma.ProductStockLevelModel
+/**
+ * Model ProductPieceWeight
+ * 
+ */
+export type ProductPieceWeight = Prisma.ProductPieceWeightModel
+/**
+ * Model ProductPriceRecord
+ * 
+ */
+export type ProductPriceRecord = Prisma.ProductPriceRecordModel
+/**
+ * Model StorageLocation
+ * 
+ */
+export type StorageLocation = Prisma.StorageLocationModel
+/**
+ * Model ShelfLifeOverride
+ * 
+ */
+export type ShelfLifeOverride = Prisma.ShelfLifeOverrideModel
+/**
+ * Model InvoiceItemMapping
+ * 
+ */
+export type InvoiceItemMapping = Prisma.InvoiceItemMappingModel
 /**
  * Model Notification
  * 
@@ -117,6 +152,31 @@ export type Recipe = Prisma.RecipeModel
  * 
  */
 export type RecipeIngredient = Prisma.RecipeIngredientModel
+/**
+ * Model Household
+ * 
+ */
+export type Household = Prisma.HouseholdModel
+/**
+ * Model HouseholdMember
+ * 
+ */
+export type HouseholdMember = Prisma.HouseholdMemberModel
+/**
+ * Model HouseholdInvitation
+ * 
+ */
+export type HouseholdInvitation = Prisma.HouseholdInvitationModel
+/**
+ * Model ShoppingList
+ * 
+ */
+export type ShoppingList = Prisma.ShoppingListModel
+/**
+ * Model ShoppingListItem
+ * 
+ */
+export type ShoppingListItem = Prisma.ShoppingListItemModel
 /**
  * Model User
  * 
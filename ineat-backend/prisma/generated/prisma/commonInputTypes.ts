@@ -168,6 +168,13 @@ export type EnumExpiryDateSourceFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumExpiryDateSourceFilter<$PrismaModel> | $Enums.ExpiryDateSource
 }
 
+export type EnumExpiryKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.ExpiryKind | Prisma.EnumExpiryKindFieldRefInput<$PrismaModel>
+  in?: $Enums.ExpiryKind[] | Prisma.ListEnumExpiryKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ExpiryKind[] | Prisma.ListEnumExpiryKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumExpiryKindFilter<$PrismaModel> | $Enums.ExpiryKind
+}
+
 export type EnumPackageStatusNullableFilter<$PrismaModel = never> = {
   equals?: $Enums.PackageStatus | Prisma.EnumPackageStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.PackageStatus[] | Prisma.ListEnumPackageStatusFieldRefInput<$PrismaModel> | null
@@ -217,6 +224,16 @@ export type EnumExpiryDateSourceWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumExpiryDateSourceFilter<$PrismaModel>
 }
 
+export type EnumExpiryKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ExpiryKind | Prisma.EnumExpiryKindFieldRefInput<$PrismaModel>
+  in?: $Enums.ExpiryKind[] | Prisma.ListEnumExpiryKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ExpiryKind[] | Prisma.ListEnumExpiryKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumExpiryKindWithAggregatesFilter<$PrismaModel> | $Enums.ExpiryKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumExpiryKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumExpiryKindFilter<$PrismaModel>
+}
+
 export type EnumPackageStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.PackageStatus | Prisma.EnumPackageStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.PackageStatus[] | Prisma.ListEnumPackageStatusFieldRefInput<$PrismaModel> | null
@@ -253,11 +270,79 @@ export type FloatNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatNullableFilter<$PrismaModel>
 }
 
-export type EnumNotificationTypeFilter<$PrismaModel = never> = {
-  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
-  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
-  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel> | $Enums.NotificationType
+export type EnumInventoryMovementReasonFilter<$PrismaModel = never> = {
+  equals?: $Enums.InventoryMovementReason | Prisma.EnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  in?: $Enums.InventoryMovementReason[] | Prisma.ListEnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InventoryMovementReason[] | Prisma.ListEnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInventoryMovementReasonFilter<$PrismaModel> | $Enums.InventoryMovementReason
+}
+
+export type EnumWasteReasonNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.WasteReason | Prisma.EnumWasteReasonFieldRefInput<$PrismaModel> | null
+  in?: $Enums.WasteReason[] | Prisma.ListEnumWasteReasonFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.WasteReason[] | Prisma.ListEnumWasteReasonFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumWasteReasonNullableFilter<$PrismaModel> | $Enums.WasteReason | null
+}
+
+export type EnumInventoryMovementReasonWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InventoryMovementReason | Prisma.EnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  in?: $Enums.InventoryMovementReason[] | Prisma.ListEnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InventoryMovementReason[] | Prisma.ListEnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInventoryMovementReasonWithAggregatesFilter<$PrismaModel> | $Enums.InventoryMovementReason
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInventoryMovementReasonFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInventoryMovementReasonFilter<$PrismaModel>
+}
+
+export type EnumWasteReasonNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WasteReason | Prisma.EnumWasteReasonFieldRefInput<$PrismaModel> | null
+  in?: $Enums.WasteReason[] | Prisma.ListEnumWasteReasonFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.WasteReason[] | Prisma.ListEnumWasteReasonFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumWasteReasonNullableWithAggregatesFilter<$PrismaModel> | $Enums.WasteReason | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWasteReasonNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWasteReasonNullableFilter<$PrismaModel>
+}
+
+export type EnumProductPriceSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProductPriceSource | Prisma.EnumProductPriceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.ProductPriceSource[] | Prisma.ListEnumProductPriceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProductPriceSource[] | Prisma.ListEnumProductPriceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProductPriceSourceFilter<$PrismaModel> | $Enums.ProductPriceSource
+}
+
+export type EnumProductPriceSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProductPriceSource | Prisma.EnumProductPriceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.ProductPriceSource[] | Prisma.ListEnumProductPriceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProductPriceSource[] | Prisma.ListEnumProductPriceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProductPriceSourceWithAggregatesFilter<$PrismaModel> | $Enums.ProductPriceSource
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumProductPriceSourceFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumProductPriceSourceFilter<$PrismaModel>
+}
+
+export type JsonFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
 }
 
 export type IntFilter<$PrismaModel = never> = {
@@ -271,14 +356,31 @@ export type IntFilter<$PrismaModel = never> = {
   not?: Prisma.NestedIntFilter<$PrismaModel> | number
 }
 
-export type EnumNotificationTypeWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
-  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
-  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumNotificationTypeWithAggregatesFilter<$PrismaModel> | $Enums.NotificationType
+export type JsonWithAggregatesFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
+    Required<JsonWithAggregatesFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
+
+export type JsonWithAggregatesFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
   _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
-  _max?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+  _min?: Prisma.NestedJsonFilter<$PrismaModel>
+  _max?: Prisma.NestedJsonFilter<$PrismaModel>
 }
 
 export type IntWithAggregatesFilter<$PrismaModel = never> = {
@@ -297,6 +399,23 @@ export type IntWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedIntFilter<$PrismaModel>
 }
 
+export type EnumNotificationTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel> | $Enums.NotificationType
+}
+
+export type EnumNotificationTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNotificationTypeWithAggregatesFilter<$PrismaModel> | $Enums.NotificationType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+}
+
 export type EnumNotificationChannelFilter<$PrismaModel = never> = {
   equals?: $Enums.NotificationChannel | Prisma.EnumNotificationChannelFieldRefInput<$PrismaModel>
   in?: $Enums.NotificationChannel[] | Prisma.ListEnumNotificationChannelFieldRefInput<$PrismaModel>
@@ -528,57 +647,6 @@ export type EnumInvoiceProcessingEventStatusWithAggregatesFilter<$PrismaModel =
   _max?: Prisma.NestedEnumInvoiceProcessingEventStatusFilter<$PrismaModel>
 }
 
-export type JsonFilter<$PrismaModel = never> =
-| Prisma.PatchUndefined<
-    Prisma.Either<Required<JsonFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonFilterBase<$PrismaModel>>, 'path'>>,
-    Required<JsonFilterBase<$PrismaModel>>
-  >
-| Prisma.OptionalFlat<Omit<Required<JsonFilterBase<$PrismaModel>>, 'path'>>
-
-export type JsonFilterBase<$PrismaModel = never> = {
-  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
-  path?: string[]
-  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
-  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
-}
-
-export type JsonWithAggregatesFilter<$PrismaModel = never> =
-| Prisma.PatchUndefined<
-    Prisma.Either<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, Exclude<keyof Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>,
-    Required<JsonWithAggregatesFilterBase<$PrismaModel>>
-  >
-| Prisma.OptionalFlat<Omit<Required<JsonWithAggregatesFilterBase<$PrismaModel>>, 'path'>>
-
-export type JsonWithAggregatesFilterBase<$PrismaModel = never> = {
-  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
-  path?: string[]
-  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
-  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
-  _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedJsonFilter<$PrismaModel>
-  _max?: Prisma.NestedJsonFilter<$PrismaModel>
-}
-
 export type EnumDocumentTypeFilter<$PrismaModel = never> = {
   equals?: $Enums.DocumentType | Prisma.EnumDocumentTypeFieldRefInput<$PrismaModel>
   in?: $Enums.DocumentType[] | Prisma.ListEnumDocumentTypeFieldRefInput<$PrismaModel>
@@ -664,6 +732,13 @@ export type EnumRecipeSourceWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumRecipeSourceFilter<$PrismaModel>
 }
 
+export type EnumUnitTypeNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.UnitType | Prisma.EnumUnitTypeFieldRefInput<$PrismaModel> | null
+  in?: $Enums.UnitType[] | Prisma.ListEnumUnitTypeFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.UnitType[] | Prisma.ListEnumUnitTypeFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumUnitTypeNullableFilter<$PrismaModel> | $Enums.UnitType | null
+}
+
 export type EnumRecipeIngredientSourceFilter<$PrismaModel = never> = {
   equals?: $Enums.RecipeIngredientSource | Prisma.EnumRecipeIngredientSourceFieldRefInput<$PrismaModel>
   in?: $Enums.RecipeIngredientSource[] | Prisma.ListEnumRecipeIngredientSourceFieldRefInput<$PrismaModel>
@@ -671,6 +746,16 @@ export type EnumRecipeIngredientSourceFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumRecipeIngredientSourceFilter<$PrismaModel> | $Enums.RecipeIngredientSource
 }
 
+export type EnumUnitTypeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.UnitType | Prisma.EnumUnitTypeFieldRefInput<$PrismaModel> | null
+  in?: $Enums.UnitType[] | Prisma.ListEnumUnitTypeFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.UnitType[] | Prisma.ListEnumUnitTypeFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumUnitTypeNullableWithAggregatesFilter<$PrismaModel> | $Enums.UnitType | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumUnitTypeNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumUnitTypeNullableFilter<$PrismaModel>
+}
+
 export type EnumRecipeIngredientSourceWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.RecipeIngredientSource | Prisma.EnumRecipeIngredientSourceFieldRefInput<$PrismaModel>
   in?: $Enums.RecipeIngredientSource[] | Prisma.ListEnumRecipeIngredientSourceFieldRefInput<$PrismaModel>
@@ -681,6 +766,40 @@ export type EnumRecipeIngredientSourceWithAggregatesFilter<$PrismaModel = never>
   _max?: Prisma.NestedEnumRecipeIngredientSourceFilter<$PrismaModel>
 }
 
+export type EnumHouseholdRoleFilter<$PrismaModel = never> = {
+  equals?: $Enums.HouseholdRole | Prisma.EnumHouseholdRoleFieldRefInput<$PrismaModel>
+  in?: $Enums.HouseholdRole[] | Prisma.ListEnumHouseholdRoleFieldRefInput<$PrismaModel>
+  notIn?: $Enums.HouseholdRole[] | Prisma.ListEnumHouseholdRoleFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumHouseholdRoleFilter<$PrismaModel> | $Enums.HouseholdRole
+}
+
+export type EnumHouseholdRoleWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.HouseholdRole | Prisma.EnumHouseholdRoleFieldRefInput<$PrismaModel>
+  in?: $Enums.HouseholdRole[] | Prisma.ListEnumHouseholdRoleFieldRefInput<$PrismaModel>
+  notIn?: $Enums.HouseholdRole[] | Prisma.ListEnumHouseholdRoleFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumHouseholdRoleWithAggregatesFilter<$PrismaModel> | $Enums.HouseholdRole
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumHouseholdRoleFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumHouseholdRoleFilter<$PrismaModel>
+}
+
+export type EnumShoppingListItemSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.ShoppingListItemSource | Prisma.EnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.ShoppingListItemSource[] | Prisma.ListEnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ShoppingListItemSource[] | Prisma.ListEnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumShoppingListItemSourceFilter<$PrismaModel> | $Enums.ShoppingListItemSource
+}
+
+export type EnumShoppingListItemSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ShoppingListItemSource | Prisma.EnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.ShoppingListItemSource[] | Prisma.ListEnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ShoppingListItemSource[] | Prisma.ListEnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumShoppingListItemSourceWithAggregatesFilter<$PrismaModel> | $Enums.ShoppingListItemSource
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumShoppingListItemSourceFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumShoppingListItemSourceFilter<$PrismaModel>
+}
+
 export type EnumPrimaryGoalNullableFilter<$PrismaModel = never> = {
   equals?: $Enums.PrimaryGoal | Prisma.EnumPrimaryGoalFieldRefInput<$PrismaModel> | null
   in?: $Enums.PrimaryGoal[] | Prisma.ListEnumPrimaryGoalFieldRefInput<$PrismaModel> | null
@@ -984,6 +1103,13 @@ export type NestedEnumExpiryDateSourceFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumExpiryDateSourceFilter<$PrismaModel> | $Enums.ExpiryDateSource
 }
 
+export type NestedEnumExpiryKindFilter<$PrismaModel = never> = {
+  equals?: $Enums.ExpiryKind | Prisma.EnumExpiryKindFieldRefInput<$PrismaModel>
+  in?: $Enums.ExpiryKind[] | Prisma.ListEnumExpiryKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ExpiryKind[] | Prisma.ListEnumExpiryKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumExpiryKindFilter<$PrismaModel> | $Enums.ExpiryKind
+}
+
 export type NestedEnumPackageStatusNullableFilter<$PrismaModel = never> = {
   equals?: $Enums.PackageStatus | Prisma.EnumPackageStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.PackageStatus[] | Prisma.ListEnumPackageStatusFieldRefInput<$PrismaModel> | null
@@ -1033,6 +1159,16 @@ export type NestedEnumExpiryDateSourceWithAggregatesFilter<$PrismaModel = never>
   _max?: Prisma.NestedEnumExpiryDateSourceFilter<$PrismaModel>
 }
 
+export type NestedEnumExpiryKindWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ExpiryKind | Prisma.EnumExpiryKindFieldRefInput<$PrismaModel>
+  in?: $Enums.ExpiryKind[] | Prisma.ListEnumExpiryKindFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ExpiryKind[] | Prisma.ListEnumExpiryKindFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumExpiryKindWithAggregatesFilter<$PrismaModel> | $Enums.ExpiryKind
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumExpiryKindFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumExpiryKindFilter<$PrismaModel>
+}
+
 export type NestedEnumPackageStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.PackageStatus | Prisma.EnumPackageStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.PackageStatus[] | Prisma.ListEnumPackageStatusFieldRefInput<$PrismaModel> | null
@@ -1069,21 +1205,79 @@ export type NestedFloatNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatNullableFilter<$PrismaModel>
 }
 
-export type NestedEnumNotificationTypeFilter<$PrismaModel = never> = {
-  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
-  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
-  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel> | $Enums.NotificationType
+export type NestedEnumInventoryMovementReasonFilter<$PrismaModel = never> = {
+  equals?: $Enums.InventoryMovementReason | Prisma.EnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  in?: $Enums.InventoryMovementReason[] | Prisma.ListEnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InventoryMovementReason[] | Prisma.ListEnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInventoryMovementReasonFilter<$PrismaModel> | $Enums.InventoryMovementReason
 }
 
-export type NestedEnumNotificationTypeWithAggregatesFilter<$PrismaModel = never> = {
-  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
-  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
-  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumNotificationTypeWithAggregatesFilter<$PrismaModel> | $Enums.NotificationType
+export type NestedEnumWasteReasonNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.WasteReason | Prisma.EnumWasteReasonFieldRefInput<$PrismaModel> | null
+  in?: $Enums.WasteReason[] | Prisma.ListEnumWasteReasonFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.WasteReason[] | Prisma.ListEnumWasteReasonFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumWasteReasonNullableFilter<$PrismaModel> | $Enums.WasteReason | null
+}
+
+export type NestedEnumInventoryMovementReasonWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InventoryMovementReason | Prisma.EnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  in?: $Enums.InventoryMovementReason[] | Prisma.ListEnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InventoryMovementReason[] | Prisma.ListEnumInventoryMovementReasonFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInventoryMovementReasonWithAggregatesFilter<$PrismaModel> | $Enums.InventoryMovementReason
   _count?: Prisma.NestedIntFilter<$PrismaModel>
-  _min?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
-  _max?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInventoryMovementReasonFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInventoryMovementReasonFilter<$PrismaModel>
+}
+
+export type NestedEnumWasteReasonNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WasteReason | Prisma.EnumWasteReasonFieldRefInput<$PrismaModel> | null
+  in?: $Enums.WasteReason[] | Prisma.ListEnumWasteReasonFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.WasteReason[] | Prisma.ListEnumWasteReasonFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumWasteReasonNullableWithAggregatesFilter<$PrismaModel> | $Enums.WasteReason | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWasteReasonNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWasteReasonNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumProductPriceSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProductPriceSource | Prisma.EnumProductPriceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.ProductPriceSource[] | Prisma.ListEnumProductPriceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProductPriceSource[] | Prisma.ListEnumProductPriceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProductPriceSourceFilter<$PrismaModel> | $Enums.ProductPriceSource
+}
+
+export type NestedEnumProductPriceSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProductPriceSource | Prisma.EnumProductPriceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.ProductPriceSource[] | Prisma.ListEnumProductPriceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProductPriceSource[] | Prisma.ListEnumProductPriceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProductPriceSourceWithAggregatesFilter<$PrismaModel> | $Enums.ProductPriceSource
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumProductPriceSourceFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumProductPriceSourceFilter<$PrismaModel>
+}
+
+export type NestedJsonFilter<$PrismaModel = never> =
+| Prisma.PatchUndefined<
+    Prisma.Either<Required<NestedJsonFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>,
+    Required<NestedJsonFilterBase<$PrismaModel>>
+  >
+| Prisma.OptionalFlat<Omit<Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>
+
+export type NestedJsonFilterBase<$PrismaModel = never> = {
+  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
+  path?: string[]
+  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
+  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
+  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
+  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
+  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
 }
 
 export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
@@ -1102,6 +1296,23 @@ export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedIntFilter<$PrismaModel>
 }
 
+export type NestedEnumNotificationTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel> | $Enums.NotificationType
+}
+
+export type NestedEnumNotificationTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.NotificationType | Prisma.EnumNotificationTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NotificationType[] | Prisma.ListEnumNotificationTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNotificationTypeWithAggregatesFilter<$PrismaModel> | $Enums.NotificationType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumNotificationTypeFilter<$PrismaModel>
+}
+
 export type NestedEnumNotificationChannelFilter<$PrismaModel = never> = {
   equals?: $Enums.NotificationChannel | Prisma.EnumNotificationChannelFieldRefInput<$PrismaModel>
   in?: $Enums.NotificationChannel[] | Prisma.ListEnumNotificationChannelFieldRefInput<$PrismaModel>
@@ -1295,30 +1506,6 @@ export type NestedEnumInvoiceProcessingEventStatusWithAggregatesFilter<$PrismaMo
   _max?: Prisma.NestedEnumInvoiceProcessingEventStatusFilter<$PrismaModel>
 }
 
-export type NestedJsonFilter<$PrismaModel = never> =
-| Prisma.PatchUndefined<
-    Prisma.Either<Required<NestedJsonFilterBase<$PrismaModel>>, Exclude<keyof Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>,
-    Required<NestedJsonFilterBase<$PrismaModel>>
-  >
-| Prisma.OptionalFlat<Omit<Required<NestedJsonFilterBase<$PrismaModel>>, 'path'>>
-
-export type NestedJsonFilterBase<$PrismaModel = never> = {
-  equals?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
-  path?: string[]
-  mode?: Prisma.QueryMode | Prisma.EnumQueryModeFieldRefInput<$PrismaModel>
-  string_contains?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_starts_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  string_ends_with?: string | Prisma.StringFieldRefInput<$PrismaModel>
-  array_starts_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_ends_with?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  array_contains?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | null
-  lt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  lte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gt?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  gte?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel>
-  not?: runtime.InputJsonValue | Prisma.JsonFieldRefInput<$PrismaModel> | Prisma.JsonNullValueFilter
-}
-
 export type NestedEnumDocumentTypeFilter<$PrismaModel = never> = {
   equals?: $Enums.DocumentType | Prisma.EnumDocumentTypeFieldRefInput<$PrismaModel>
   in?: $Enums.DocumentType[] | Prisma.ListEnumDocumentTypeFieldRefInput<$PrismaModel>
@@ -1404,6 +1591,13 @@ export type NestedEnumRecipeSourceWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumRecipeSourceFilter<$PrismaModel>
 }
 
+export type NestedEnumUnitTypeNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.UnitType | Prisma.EnumUnitTypeFieldRefInput<$PrismaModel> | null
+  in?: $Enums.UnitType[] | Prisma.ListEnumUnitTypeFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.UnitType[] | Prisma.ListEnumUnitTypeFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumUnitTypeNullableFilter<$PrismaModel> | $Enums.UnitType | null
+}
+
 export type NestedEnumRecipeIngredientSourceFilter<$PrismaModel = never> = {
   equals?: $Enums.RecipeIngredientSource | Prisma.EnumRecipeIngredientSourceFieldRefInput<$PrismaModel>
   in?: $Enums.RecipeIngredientSource[] | Prisma.ListEnumRecipeIngredientSourceFieldRefInput<$PrismaModel>
@@ -1411,6 +1605,16 @@ export type NestedEnumRecipeIngredientSourceFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumRecipeIngredientSourceFilter<$PrismaModel> | $Enums.RecipeIngredientSource
 }
 
+export type NestedEnumUnitTypeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.UnitType | Prisma.EnumUnitTypeFieldRefInput<$PrismaModel> | null
+  in?: $Enums.UnitType[] | Prisma.ListEnumUnitTypeFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.UnitType[] | Prisma.ListEnumUnitTypeFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumUnitTypeNullableWithAggregatesFilter<$PrismaModel> | $Enums.UnitType | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumUnitTypeNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumUnitTypeNullableFilter<$PrismaModel>
+}
+
 export type NestedEnumRecipeIngredientSourceWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.RecipeIngredientSource | Prisma.EnumRecipeIngredientSourceFieldRefInput<$PrismaModel>
   in?: $Enums.RecipeIngredientSource[] | Prisma.ListEnumRecipeIngredientSourceFieldRefInput<$PrismaModel>
@@ -1421,6 +1625,40 @@ export type NestedEnumRecipeIngredientSourceWithAggregatesFilter<$PrismaModel =
   _max?: Prisma.NestedEnumRecipeIngredientSourceFilter<$PrismaModel>
 }
 
+export type NestedEnumHouseholdRoleFilter<$PrismaModel = never> = {
+  equals?: $Enums.HouseholdRole | Prisma.EnumHouseholdRoleFieldRefInput<$PrismaModel>
+  in?: $Enums.HouseholdRole[] | Prisma.ListEnumHouseholdRoleFieldRefInput<$PrismaModel>
+  notIn?: $Enums.HouseholdRole[] | Prisma.ListEnumHouseholdRoleFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumHouseholdRoleFilter<$PrismaModel> | $Enums.HouseholdRole
+}
+
+export type NestedEnumHouseholdRoleWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.HouseholdRole | Prisma.EnumHouseholdRoleFieldRefInput<$PrismaModel>
+  in?: $Enums.HouseholdRole[] | Prisma.ListEnumHouseholdRoleFieldRefInput<$PrismaModel>
+  notIn?: $Enums.HouseholdRole[] | Prisma.ListEnumHouseholdRoleFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumHouseholdRoleWithAggregatesFilter<$PrismaModel> | $Enums.HouseholdRole
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumHouseholdRoleFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumHouseholdRoleFilter<$PrismaModel>
+}
+
+export type NestedEnumShoppingListItemSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.ShoppingListItemSource | Prisma.EnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.ShoppingListItemSource[] | Prisma.ListEnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ShoppingListItemSource[] | Prisma.ListEnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumShoppingListItemSourceFilter<$PrismaModel> | $Enums.ShoppingListItemSource
+}
+
+export type NestedEnumShoppingListItemSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ShoppingListItemSource | Prisma.EnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.ShoppingListItemSource[] | Prisma.ListEnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ShoppingListItemSource[] | Prisma.ListEnumShoppingListItemSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumShoppingListItemSourceWithAggregatesFilter<$PrismaModel> | $Enums.ShoppingListItemSource
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumShoppingListItemSourceFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumShoppingListItemSourceFilter<$PrismaModel>
+}
+
 export type NestedEnumPrimaryGoalNullableFilter<$PrismaModel = never> = {
   equals?: $Enums.PrimaryGoal | Prisma.EnumPrimaryGoalFieldRefInput<$PrismaModel> | null
   in?: $Enums.PrimaryGoal[] | Prisma.ListEnumPrimaryGoalFieldRefInput<$PrismaModel> | null
@@ -9,6 +9,35 @@
 * 🟢 You can import this file directly.
 */
 
+export const ProductPriceSource = {
+  MANUAL: 'MANUAL',
+  INVOICE: 'INVOICE'
+} as const
+
+export type ProductPriceSource = (typeof ProductPriceSource)[keyof typeof ProductPriceSource]
+
+
+export const InventoryMovementReason = {
+  ADDED: 'ADDED',
+  CONSUMED: 'CONSUMED',
+  WASTED: 'WASTED',
+  COOKED: 'COOKED',
+  ADJUSTED: 'ADJUSTED'
+} as const
+
+export type InventoryMovementReason = (typeof InventoryMovementReason)[keyof typeof InventoryMovementReason]
+
+
+export const WasteReason = {
+  EXPIRED: 'EXPIRED',
+  SPOILED: 'SPOILED',
+  LEFTOVER: 'LEFTOVER',
+  OTHER: 'OTHER'
+} as const
+
+export type WasteReason = (typeof WasteReason)[keyof typeof WasteReason]
+
+
 export const ExpiryDateSource = {
   MANUAL: 'MANUAL',
   ESTIMATED: 'ESTIMATED'
@@ -17,6 +46,14 @@ export const ExpiryDateSource = {
 export type ExpiryDateSource = (typeof ExpiryDateSource)[keyof typeof ExpiryDateSource]
 
 
+export const ExpiryKind = {
+  USE_BY: 'USE_BY',
+  BEST_BEFORE: 'BEST_BEFORE'
+} as const
+
+export type ExpiryKind = (typeof ExpiryKind)[keyof typeof ExpiryKind]
+
+
 export const PackageStatus = {
   UNOPENED: 'UNOPENED',
   OPENED: 'OPENED'
@@ -33,6 +70,24 @@ export const PreparationStatus = {
 export type PreparationStatus = (typeof PreparationStatus)[keyof typeof PreparationStatus]
 
 
+export const HouseholdRole = {
+  OWNER: 'OWNER',
+  ADMIN: 'ADMIN',
+  MEMBER: 'MEMBER'
+} as const
+
+export type HouseholdRole = (typeof HouseholdRole)[keyof typeof HouseholdRole]
+
+
+export const ShoppingListItemSource = {
+  MANUAL: 'MANUAL',
+  RECIPE: 'RECIPE',
+  OUT_OF_STOCK: 'OUT_OF_STOCK'
+} as const
+
+export type ShoppingListItemSource = (typeof ShoppingListItemSource)[keyof typeof ShoppingListItemSource]
+
+
 export const DocumentType = {
   RECEIPT_IMAGE: 'RECEIPT_IMAGE',
   INVOICE_PDF: 'INVOICE_PDF',
@@ -81,7 +136,8 @@ export type InvoiceProcessingStage = (typeof InvoiceProcessingStage)[keyof typeo
 export const InvoiceProcessingEventStatus = {
   STARTED: 'STARTED',
   COMPLETED: 'COMPLETED',
-  FAILED: 'FAILED'
+  FAILED: 'FAILED',
+  REVERTED: 'REVERTED'
 } as const
 
 export type InvoiceProcessingEventStatus = (typeof InvoiceProcessingEventStatus)[keyof typeof InvoiceProcessingEventStatus]
@@ -90,6 +146,7 @@ export type InvoiceProcessingEventStatus = (typeof InvoiceProcessingEventStatus)
 export const NotificationType = {
   EXPIRY: 'EXPIRY',
   BUDGET: 'BUDGET',
+  LOW_STOCK: 'LOW_STOCK',
   SYSTEM: 'SYSTEM'
 } as const
 
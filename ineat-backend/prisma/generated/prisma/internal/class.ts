@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.1.0",
   "engineVersion": "ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"./generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Budget {\n  id          String    @id\n  userId      String\n  amount      Float\n  periodStart DateTime\n  periodEnd   DateTime\n  isActive    Boolean   @default(true)\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime\n  User        User      @relation(fields: [userId], references: [id])\n  Expense     Expense[]\n\n  @@index([periodStart, periodEnd])\n  @@index([userId])\n}\n\nmodel Category {\n  id             String     @id\n  name           String\n  parentId       String?\n  icon           String?\n  slug           String     @unique\n  Category       Category?  @relation(\"CategoryToCategory\", fields: [parentId], references: [id])\n  other_Category Category[] @relation(\"CategoryToCategory\")\n  Product        Product[]\n}\n\nmodel Expense {\n  id            String       @id\n  userId        String\n  budgetId      String\n  amount        Float\n  date          DateTime\n  source        String?\n  receiptId     String?\n  invoiceId     String?\n  invoiceItemId String?      @unique\n  notes         String?\n  createdAt     DateTime     @default(now())\n  updatedAt     DateTime\n  category      String?\n  Budget        Budget       @relation(fields: [budgetId], references: [id])\n  Invoice       Invoice?     @relation(fields: [invoiceId], references: [id], onDelete: SetNull)\n  InvoiceItem   InvoiceItem? @relation(fields: [invoiceItemId], references: [id], onDelete: SetNull)\n  User          User         @relation(fields: [userId], references: [id])\n\n  @@index([budgetId])\n  @@index([category])\n  @@index([date])\n  @@index([invoiceId])\n  @@index([userId])\n}\n\nmodel InventoryItem {\n  id                String             @id\n  userId            String\n  productId         String\n  quantity          Float\n  expiryDate        DateTime?\n  expiryDateSource  ExpiryDateSource   @default(MANUAL)\n  packageStatus     PackageStatus?\n  preparationStatus PreparationStatus?\n  purchaseDate      DateTime\n  purchasePrice     Float?\n  storageLocation   String?\n  createdAt         DateTime           @default(now())\n  updatedAt         DateTime\n  notes             String?\n  Product           Product            @relation(fields: [productId], references: [id])\n  User              User               @relation(fields: [userId], references: [id])\n\n  @@index([expiryDate])\n  @@index([productId])\n  @@index([userId])\n  @@index([userId, createdAt])\n  @@index([userId, expiryDate])\n  @@index([userId, storageLocation])\n  @@index([userId, productId, storageLocation, expiryDate])\n}\n\nenum ExpiryDateSource {\n  MANUAL\n  ESTIMATED\n}\n\nenum PackageStatus {\n  UNOPENED\n  OPENED\n}\n\nenum PreparationStatus {\n  RAW\n  COOKED\n}\n\nmodel Notification {\n  id                String                 @id\n  userId            String\n  type              NotificationType\n  title             String\n  message           String\n  isRead            Boolean                @default(false)\n  referenceId       String?\n  referenceType     String?\n  deduplicationKey  String                 @unique @db.VarChar(32)\n  dismissedAt       DateTime?\n  resolvedAt        DateTime?\n  lastOccurredAt    DateTime               @default(now())\n  occurrenceVersion Int                    @default(1)\n  createdAt         DateTime               @default(now())\n  updatedAt         DateTime\n  User              User                   @relation(fields: [userId], references: [id])\n  deliveries        NotificationDelivery[]\n\n  @@index([isRead])\n  @@index([type])\n  @@index([userId])\n  @@index([userId, resolvedAt, dismissedAt])\n}\n\nmodel NotificationDelivery {\n  id                String                     @id\n  notificationId    String\n  channel           NotificationChannel\n  occurrenceVersion Int\n  status            NotificationDeliveryStatus @default(PENDING)\n  attemptCount      Int                        @default(0)\n  providerMessageId String?\n  errorMessage      String?\n  nextAttemptAt     DateTime?\n  sentAt            DateTime?\n  createdAt         DateTime                   @default(now())\n  updatedAt         DateTime\n  Notification      Notification               @relation(fields: [notificationId], references: [id], onDelete: Cascade)\n\n  @@unique([notificationId, channel, occurrenceVersion])\n  @@index([status, nextAttemptAt])\n}\n\nmodel NotificationPreferences {\n  userId              String   @id\n  inAppEnabled        Boolean  @default(true)\n  emailEnabled        Boolean  @default(false)\n  pushEnabled         Boolean  @default(false)\n  weeklyDigestEnabled Boolean  @default(true)\n  dailyDigestEnabled  Boolean  @default(false)\n  expiry              Boolean  @default(true)\n  budget              Boolean  @default(true)\n  system              Boolean  @default(true)\n  createdAt           DateTime @default(now())\n  updatedAt           DateTime\n  User                User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n}\n\nmodel EmailDigestDelivery {\n  id                String    @id\n  userId            String\n  type              String\n  periodKey         String\n  status            String    @default(\"PENDING\")\n  attemptCount      Int       @default(0)\n  providerMessageId String?\n  errorMessage      String?\n  sentAt            DateTime?\n  createdAt         DateTime  @default(now())\n  updatedAt         DateTime\n  User              User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, type, periodKey])\n  @@index([status, updatedAt])\n  @@index([userId])\n}\n\nmodel Product {\n  id               String             @id\n  barcode          String?            @unique\n  name             String\n  brand            String?\n  categoryId       String\n  nutriscore       NutriScore?\n  ecoscore         Ecoscore?\n  novascore        Novascore?\n  unitType         UnitType\n  nutrients        Json?\n  imageUrl         String?\n  externalId       String?\n  createdAt        DateTime           @default(now())\n  updatedAt        DateTime\n  ingredients      String?\n  InventoryItem    InventoryItem[]\n  InvoiceItem      InvoiceItem[]\n  Category         Category           @relation(fields: [categoryId], references: [id])\n  ReceiptItem      ReceiptItem[]\n  RecipeIngredient RecipeIngredient[]\n\n  @@index([brand])\n  @@index([name])\n}\n\nmodel Invoice {\n  id                  String                   @id\n  userId              String\n  pdfUrl              String\n  status              InvoiceStatus            @default(PROCESSING)\n  processingStage     InvoiceProcessingStage   @default(UPLOADED)\n  processingProgress  Int                      @default(10)\n  processingAttempt   Int                      @default(1)\n  stageStartedAt      DateTime?\n  stageCompletedAt    DateTime?\n  processingErrorCode String?\n  rawAnalysisData     Json?\n  merchantName        String?\n  totalAmount         Float?\n  purchaseDate        DateTime?\n  invoiceNumber       String?\n  orderNumber         String?\n  analysisProvider    String?\n  analysisConfidence  Float?\n  processingTime      Int?\n  errorMessage        String?\n  createdAt           DateTime                 @default(now())\n  updatedAt           DateTime\n  Expense             Expense[]\n  InvoiceItem         InvoiceItem[]\n  ProcessingEvent     InvoiceProcessingEvent[]\n  User                User                     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([createdAt])\n  @@index([purchaseDate])\n  @@index([status])\n  @@index([processingStage])\n  @@index([userId])\n  @@index([userId, createdAt])\n  @@index([userId, status, createdAt])\n  @@index([userId, purchaseDate])\n  @@index([userId, totalAmount])\n}\n\nmodel InvoiceProcessingEvent {\n  id          String                       @id\n  invoiceId   String\n  stage       InvoiceProcessingStage\n  status      InvoiceProcessingEventStatus\n  attempt     Int                          @default(1)\n  startedAt   DateTime\n  completedAt DateTime?\n  durationMs  Int?\n  errorCode   String?\n  createdAt   DateTime                     @default(now())\n  Invoice     Invoice                      @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n\n  @@index([invoiceId, createdAt])\n  @@index([stage, status])\n}\n\nmodel InvoiceItem {\n  id                      String    @id\n  invoiceId               String\n  productId               String?\n  detectedName            String\n  quantity                Float     @default(1)\n  unitPrice               Float?\n  totalPrice              Float?\n  confidence              Float\n  validated               Boolean   @default(false)\n  productCode             String?\n  category                String?\n  discount                Float?\n  selectedEan             String?\n  suggestedEans           Json      @default(\"[]\")\n  externalProductProvider String?\n  externalProductStatus   String?\n  externalProductData     Json?\n  externalProductError    String?\n  expiryDate              DateTime?\n  storageLocation         String?\n  notes                   String?\n  createdAt               DateTime  @default(now())\n  updatedAt               DateTime\n  Expense                 Expense?\n  Invoice                 Invoice   @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n  Product                 Product?  @relation(fields: [productId], references: [id])\n\n  @@index([invoiceId])\n  @@index([externalProductStatus])\n  @@index([productCode])\n  @@index([productId])\n  @@index([validated])\n}\n\nmodel Receipt {\n  id               String        @id\n  userId           String\n  documentType     DocumentType  @default(RECEIPT_IMAGE)\n  imageUrl         String?\n  pdfUrl           String?\n  status           ReceiptStatus @default(PROCESSING)\n  rawOcrData       Json?\n  merchantName     String?\n  totalAmount      Float?\n  purchaseDate     DateTime?\n  invoiceNumber    String?\n  orderNumber      String?\n  ocrProvider      String?\n  ocrConfidence    Float?\n  processingTime   Int?\n  errorMessage     String?\n  createdAt        DateTime      @default(now())\n  updatedAt        DateTime\n  merchantAddress  String?\n  merchantLocation String?\n  User             User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n  ReceiptItem      ReceiptItem[]\n\n  @@index([createdAt])\n  @@index([documentType])\n  @@index([purchaseDate])\n  @@index([status])\n  @@index([userId])\n  @@index([userId, createdAt])\n  @@index([userId, status, createdAt])\n  @@index([userId, purchaseDate])\n  @@index([userId, totalAmount])\n}\n\nmodel ReceiptItem {\n  id              String    @id\n  receiptId       String\n  productId       String?\n  detectedName    String\n  quantity        Int       @default(1)\n  unitPrice       Float?\n  totalPrice      Float?\n  confidence      Float\n  validated       Boolean   @default(false)\n  productCode     String?\n  category        String?\n  discount        Float?\n  createdAt       DateTime  @default(now())\n  updatedAt       DateTime\n  expiryDate      DateTime?\n  notes           String?\n  storageLocation String?\n  selectedEan     String?\n  suggestedEans   Json      @default(\"[]\")\n  Product         Product?  @relation(fields: [productId], references: [id])\n  Receipt         Receipt   @relation(fields: [receiptId], references: [id], onDelete: Cascade)\n\n  @@index([productCode])\n  @@index([productId])\n  @@index([receiptId])\n  @@index([validated])\n}\n\nmodel Recipe {\n  id                 String             @id\n  userId             String?\n  name               String\n  description        String?\n  instructions       String\n  preparationTime    Int?\n  cookingTime        Int?\n  servings           Int\n  difficulty         RecipeDifficulty\n  imageUrl           String?\n  type               RecipeType         @default(MAIN)\n  source             RecipeSource       @default(MANUAL)\n  basicIngredients   Json               @default(\"[]\")\n  missingIngredients Json               @default(\"[]\")\n  steps              Json               @default(\"[]\")\n  doneAt             DateTime?\n  isFavorite         Boolean            @default(false)\n  createdAt          DateTime           @default(now())\n  updatedAt          DateTime\n  RecipeIngredient   RecipeIngredient[]\n  User               User?              @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@index([userId, createdAt])\n  @@index([userId, type])\n  @@index([userId, isFavorite])\n}\n\nmodel RecipeIngredient {\n  id        String                 @id\n  recipeId  String\n  productId String?\n  name      String\n  quantity  Float?\n  unit      String\n  notes     String?\n  source    RecipeIngredientSource @default(INVENTORY)\n  Product   Product?               @relation(fields: [productId], references: [id])\n  Recipe    Recipe                 @relation(fields: [recipeId], references: [id], onDelete: Cascade)\n\n  @@index([productId])\n  @@index([recipeId])\n  @@index([source])\n}\n\nmodel User {\n  id                           String                   @id\n  email                        String                   @unique\n  name                         String\n  emailVerified                Boolean                  @default(false)\n  welcomeEmailSentAt           DateTime?\n  firstName                    String                   @default(\"\")\n  lastName                     String                   @default(\"\")\n  defaultServings              Int                      @default(4)\n  primaryGoal                  PrimaryGoal?\n  profileOnboardingCompletedAt DateTime?\n  preferences                  Json                     @default(\"{}\")\n  createdAt                    DateTime                 @default(now())\n  updatedAt                    DateTime\n  role                         UserRole                 @default(USER)\n  accountStatus                AccountStatus            @default(ACTIVE)\n  accountStatusChangedAt       DateTime?\n  suspendedUntil               DateTime?\n  moderationReason             String?\n  deletionScheduledAt          DateTime?\n  statusBeforeDeletion         AccountStatus?\n  subscriptionPlan             SubscriptionPlan         @default(FREE)\n  subscriptionStatus           SubscriptionStatus       @default(ACTIVE)\n  trialStartedAt               DateTime?\n  trialEndsAt                  DateTime?\n  trialUsedAt                  DateTime?\n  trialStartedEmailSentAt      DateTime?\n  trialReminderEmailSentAt     DateTime?\n  trialExpiredEmailSentAt      DateTime?\n  currentPeriodStartedAt       DateTime?\n  currentPeriodEndsAt          DateTime?\n  stripeCustomerId             String?                  @unique\n  stripeSubscriptionId         String?                  @unique\n  stripePriceId                String?\n  billingInterval              BillingInterval?\n  cancelAtPeriodEnd            Boolean                  @default(false)\n  subscriptionCancelledAt      DateTime?\n  lastStripeEventAt            DateTime?\n  avatarUrl                    String?\n  Budget                       Budget[]\n  Expense                      Expense[]\n  EmailDigestDelivery          EmailDigestDelivery[]\n  InventoryItem                InventoryItem[]\n  Invoice                      Invoice[]\n  Notification                 Notification[]\n  NotificationPreferences      NotificationPreferences?\n  Recipe                       Recipe[]\n  Receipt                      Receipt[]\n  UsageQuota                   UsageQuota[]\n  UsageEvent                   UsageEvent[]\n  sessions                     Session[]\n  accounts                     Account[]\n  AdminAuditLog                AdminAuditLog[]          @relation(\"AdminAuditActor\")\n\n  @@index([accountStatus])\n  @@index([deletionScheduledAt])\n  @@map(\"User\")\n}\n\nmodel AdminAuditLog {\n  id            String   @id\n  adminUserId   String\n  action        String\n  resourceType  String\n  resourceId    String\n  previousValue Json?\n  newValue      Json?\n  reason        String\n  ipAddress     String?\n  sessionId     String?\n  createdAt     DateTime @default(now())\n  AdminUser     User     @relation(\"AdminAuditActor\", fields: [adminUserId], references: [id], onDelete: Restrict)\n\n  @@index([adminUserId, createdAt])\n  @@index([resourceType, resourceId, createdAt])\n  @@index([action, createdAt])\n  @@index([createdAt])\n}\n\nmodel StripeWebhookEvent {\n  id            String    @id\n  stripeEventId String    @unique\n  type          String\n  status        String\n  errorMessage  String?\n  createdAt     DateTime  @default(now())\n  processedAt   DateTime?\n\n  @@index([status])\n  @@index([type])\n}\n\nmodel ResendWebhookEvent {\n  id           String   @id\n  type         String\n  emailId      String?\n  emailType    String?\n  recipientRef String?\n  eventAt      DateTime\n  processedAt  DateTime @default(now())\n\n  @@index([type, eventAt])\n}\n\nmodel EmailSuppression {\n  recipientRef String   @id\n  reason       String\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime @updatedAt\n}\n\nmodel UsageQuota {\n  id                 String    @id\n  userId             String\n  usageType          UsageType\n  periodStart        DateTime\n  periodEnd          DateTime\n  usedCount          Int       @default(0)\n  limit              Int\n  createdAt          DateTime  @default(now())\n  updatedAt          DateTime\n  warningEmailSentAt DateTime?\n  reachedEmailSentAt DateTime?\n  User               User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, usageType, periodStart, periodEnd])\n  @@index([periodEnd])\n  @@index([usageType])\n  @@index([userId])\n}\n\nmodel UsageEvent {\n  id             String    @id\n  userId         String\n  usageType      UsageType\n  idempotencyKey String?   @unique\n  occurredAt     DateTime  @default(now())\n  User           User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([usageType, occurredAt])\n  @@index([userId, occurredAt])\n}\n\nmodel Session {\n  id        String   @id\n  expiresAt DateTime\n  token     String   @unique\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  ipAddress String?\n  userAgent String?\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@map(\"session\")\n}\n\nmodel Account {\n  id                    String    @id\n  accountId             String\n  providerId            String\n  userId                String\n  user                  User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  accessToken           String?\n  refreshToken          String?\n  idToken               String?\n  accessTokenExpiresAt  DateTime?\n  refreshTokenExpiresAt DateTime?\n  scope                 String?\n  password              String?\n  createdAt             DateTime  @default(now())\n  updatedAt             DateTime  @updatedAt\n\n  @@index([providerId, accountId])\n  @@index([userId])\n  @@map(\"account\")\n}\n\nmodel Verification {\n  id         String   @id\n  identifier String\n  value      String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  @@index([identifier])\n  @@map(\"verification\")\n}\n\nenum DocumentType {\n  RECEIPT_IMAGE\n  INVOICE_PDF\n  INVOICE_HTML\n}\n\nenum Ecoscore {\n  A\n  B\n  C\n  D\n  E\n}\n\nenum InvoiceStatus {\n  PROCESSING\n  COMPLETED\n  FAILED\n  VALIDATED\n}\n\nenum InvoiceProcessingStage {\n  UPLOADED\n  QUEUED\n  EXTRACTING\n  ANALYZING\n  NORMALIZING\n  ENRICHING\n  READY_FOR_REVIEW\n  FAILED\n  VALIDATED\n}\n\nenum InvoiceProcessingEventStatus {\n  STARTED\n  COMPLETED\n  FAILED\n}\n\nenum NotificationType {\n  EXPIRY\n  BUDGET\n  SYSTEM\n}\n\nenum NotificationChannel {\n  EMAIL\n  PUSH\n}\n\nenum NotificationDeliveryStatus {\n  PENDING\n  PROCESSING\n  SENT\n  FAILED\n  SUPPRESSED\n  SKIPPED\n}\n\nenum Novascore {\n  GROUP_1\n  GROUP_2\n  GROUP_3\n  GROUP_4\n}\n\nenum NutriScore {\n  A\n  B\n  C\n  D\n  E\n}\n\nenum PrimaryGoal {\n  REDUCE_WASTE\n  SAVE_MONEY\n  EAT_BETTER\n  FIND_MEAL_IDEAS\n}\n\nenum ReceiptStatus {\n  PROCESSING\n  COMPLETED\n  FAILED\n  VALIDATED\n}\n\nenum RecipeDifficulty {\n  EASY\n  MEDIUM\n  HARD\n}\n\nenum RecipeIngredientSource {\n  INVENTORY\n  BASIC\n  MISSING\n}\n\nenum RecipeSource {\n  AI\n  MANUAL\n}\n\nenum RecipeType {\n  STARTER\n  MAIN\n  DESSERT\n}\n\nenum SubscriptionPlan {\n  FREE\n  TRIAL\n  PREMIUM\n}\n\nenum SubscriptionStatus {\n  ACTIVE\n  EXPIRED\n  CANCELLED\n}\n\nenum BillingInterval {\n  MONTHLY\n  YEARLY\n}\n\nenum UnitType {\n  KG\n  G\n  L\n  ML\n  UNIT\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\nenum AccountStatus {\n  ACTIVE\n  SUSPENDED\n  BANNED\n  PENDING_DELETION\n  ANONYMIZED\n}\n\nenum UsageType {\n  AI_RECIPE_GENERATION\n  DRIVE_IMPORT\n}\n",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"./generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel Budget {\n  id          String    @id\n  userId      String\n  amount      Float\n  periodStart DateTime\n  periodEnd   DateTime\n  isActive    Boolean   @default(true)\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime\n  User        User      @relation(fields: [userId], references: [id])\n  Expense     Expense[]\n\n  @@index([periodStart, periodEnd])\n  @@index([userId])\n}\n\nmodel Category {\n  id             String     @id\n  name           String\n  parentId       String?\n  icon           String?\n  slug           String     @unique\n  Category       Category?  @relation(\"CategoryToCategory\", fields: [parentId], references: [id])\n  other_Category Category[] @relation(\"CategoryToCategory\")\n  Product        Product[]\n}\n\nmodel Expense {\n  id            String       @id\n  userId        String\n  budgetId      String\n  amount        Float\n  date          DateTime\n  source        String?\n  receiptId     String?\n  invoiceId     String?\n  invoiceItemId String?      @unique\n  notes         String?\n  createdAt     DateTime     @default(now())\n  updatedAt     DateTime\n  category      String?\n  Budget        Budget       @relation(fields: [budgetId], references: [id])\n  Invoice       Invoice?     @relation(fields: [invoiceId], references: [id], onDelete: SetNull)\n  InvoiceItem   InvoiceItem? @relation(fields: [invoiceItemId], references: [id], onDelete: SetNull)\n  User          User         @relation(fields: [userId], references: [id])\n\n  @@index([budgetId])\n  @@index([category])\n  @@index([date])\n  @@index([invoiceId])\n  @@index([userId])\n}\n\nmodel InventoryItem {\n  id                 String             @id\n  userId             String\n  productId          String\n  quantity           Float\n  expiryDate         DateTime?\n  expiryDateSource   ExpiryDateSource   @default(MANUAL)\n  expiryKind         ExpiryKind         @default(USE_BY)\n  packageStatus      PackageStatus?\n  preparationStatus  PreparationStatus?\n  purchaseDate       DateTime\n  purchasePrice      Float?\n  storageLocation    String?\n  thawedAt           DateTime?\n  frozenAt           DateTime?\n  stocktakeFlaggedAt DateTime?\n  deletedAt          DateTime?\n  recipeId           String?\n  invoiceItemId      String?            @unique\n  createdAt          DateTime           @default(now())\n  updatedAt          DateTime\n  notes              String?\n  Product            Product            @relation(fields: [productId], references: [id])\n  Recipe             Recipe?            @relation(fields: [recipeId], references: [id], onDelete: SetNull)\n  InvoiceItem        InvoiceItem?       @relation(fields: [invoiceItemId], references: [id], onDelete: SetNull)\n  User               User               @relation(fields: [userId], references: [id])\n\n  @@index([expiryDate])\n  @@index([productId])\n  @@index([userId])\n  @@index([userId, createdAt])\n  @@index([userId, expiryDate])\n  @@index([userId, storageLocation])\n  @@index([userId, productId, storageLocation, expiryDate])\n  @@index([recipeId])\n  @@index([deletedAt])\n}\n\nmodel InventoryMovement {\n  id              String                  @id\n  userId          String\n  productId       String\n  inventoryItemId String?\n  recipeId        String?\n  reason          InventoryMovementReason\n  quantityDelta   Float\n  storageLocation String?\n  notes           String?\n  wasteReason     WasteReason?\n  valueLost       Float?\n  occurredAt      DateTime                @default(now())\n  Product         Product                 @relation(fields: [productId], references: [id])\n  Recipe          Recipe?                 @relation(fields: [recipeId], references: [id], onDelete: SetNull)\n  User            User                    @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId, occurredAt])\n  @@index([userId, productId, occurredAt])\n  @@index([userId, reason, occurredAt])\n  @@index([inventoryItemId])\n  @@index([recipeId])\n}\n\nmodel ProductStockLevel {\n  id              String   @id\n  userId          String\n  productId       String\n  minimumQuantity Float\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime\n  User            User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  Product         Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, productId])\n}\n\nmodel ProductPieceWeight {\n  id          String   @id\n  userId      String\n  productId   String\n  pieceWeight Float\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime\n  User        User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  Product     Product  @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, productId])\n}\n\nmodel ProductPriceRecord {\n  id            String             @id\n  userId        String\n  productId     String\n  source        ProductPriceSource\n  invoiceItemId String?            @unique\n  merchantName  String?\n  quantity      Float\n  totalPrice    Float\n  purchasedAt   DateTime\n  createdAt     DateTime           @default(now())\n  User          User               @relation(fields: [userId], references: [id], onDelete: Cascade)\n  Product       Product            @relation(fields: [productId], references: [id], onDelete: Cascade)\n  InvoiceItem   InvoiceItem?       @relation(fields: [invoiceItemId], references: [id], onDelete: Cascade)\n\n  @@index([userId, productId, purchasedAt])\n}\n\nmodel StorageLocation {\n  id           String   @id\n  userId       String\n  name         String\n  storageGroup String\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime\n  User         User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, name])\n}\n\nmodel ShelfLifeOverride {\n  id            String   @id\n  userId        String\n  productId     String?\n  label         String\n  keywords      Json     @default(\"[]\")\n  daysByStorage Json     @default(\"{}\")\n  defaultDays   Int\n  createdAt     DateTime @default(now())\n  updatedAt     DateTime\n  User          User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  Product       Product? @relation(fields: [productId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n}\n\nmodel InvoiceItemMapping {\n  id              String   @id\n  userId          String\n  merchantKey     String   @default(\"\")\n  detectedNameKey String\n  productId       String?\n  category        String?\n  storageLocation String?\n  selectedEan     String?\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime\n  User            User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  Product         Product? @relation(fields: [productId], references: [id], onDelete: SetNull)\n\n  @@unique([userId, merchantKey, detectedNameKey])\n}\n\nenum ProductPriceSource {\n  MANUAL\n  INVOICE\n}\n\nenum InventoryMovementReason {\n  ADDED\n  CONSUMED\n  WASTED\n  COOKED\n  ADJUSTED\n}\n\nenum WasteReason {\n  EXPIRED\n  SPOILED\n  LEFTOVER\n  OTHER\n}\n\nenum ExpiryDateSource {\n  MANUAL\n  ESTIMATED\n}\n\nenum ExpiryKind {\n  USE_BY\n  BEST_BEFORE\n}\n\nenum PackageStatus {\n  UNOPENED\n  OPENED\n}\n\nenum PreparationStatus {\n  RAW\n  COOKED\n}\n\nmodel Notification {\n  id                String                 @id\n  userId            String\n  type              NotificationType\n  title             String\n  message           String\n  isRead            Boolean                @default(false)\n  referenceId       String?\n  referenceType     String?\n  deduplicationKey  String                 @unique @db.VarChar(32)\n  dismissedAt       DateTime?\n  resolvedAt        DateTime?\n  lastOccurredAt    DateTime               @default(now())\n  occurrenceVersion Int                    @default(1)\n  createdAt         DateTime               @default(now())\n  updatedAt         DateTime\n  User              User                   @relation(fields: [userId], references: [id])\n  deliveries        NotificationDelivery[]\n\n  @@index([isRead])\n  @@index([type])\n  @@index([userId])\n  @@index([userId, resolvedAt, dismissedAt])\n}\n\nmodel NotificationDelivery {\n  id                String                     @id\n  notificationId    String\n  channel           NotificationChannel\n  occurrenceVersion Int\n  status            NotificationDeliveryStatus @default(PENDING)\n  attemptCount      Int                        @default(0)\n  providerMessageId String?\n  errorMessage      String?\n  nextAttemptAt     DateTime?\n  sentAt            DateTime?\n  createdAt         DateTime                   @default(now())\n  updatedAt         DateTime\n  Notification      Notification               @relation(fields: [notificationId], references: [id], onDelete: Cascade)\n\n  @@unique([notificationId, channel, occurrenceVersion])\n  @@index([status, nextAttemptAt])\n}\n\nmodel NotificationPreferences {\n  userId              String   @id\n  inAppEnabled        Boolean  @default(true)\n  emailEnabled        Boolean  @default(false)\n  pushEnabled         Boolean  @default(false)\n  weeklyDigestEnabled Boolean  @default(true)\n  dailyDigestEnabled  Boolean  @default(false)\n  expiry              Boolean  @default(true)\n  budget              Boolean  @default(true)\n  lowStock            Boolean  @default(true)\n  system              Boolean  @default(true)\n  createdAt           DateTime @default(now())\n  updatedAt           DateTime\n  User                User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n}\n\nmodel EmailDigestDelivery {\n  id                String    @id\n  userId            String\n  type              String\n  periodKey         String\n  status            String    @default(\"PENDING\")\n  attemptCount      Int       @default(0)\n  providerMessageId String?\n  errorMessage      String?\n  sentAt            DateTime?\n  createdAt         DateTime  @default(now())\n  updatedAt         DateTime\n  User              User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, type, periodKey])\n  @@index([status, updatedAt])\n  @@index([userId])\n}\n\nmodel Product {\n  id                 String               @id\n  barcode            String?              @unique\n  name               String\n  brand              String?\n  categoryId         String\n  nutriscore         NutriScore?\n  ecoscore           Ecoscore?\n  novascore          Novascore?\n  unitType           UnitType\n  nutrients          Json?\n  imageUrl           String?\n  externalId         String?\n  createdAt          DateTime             @default(now())\n  updatedAt          DateTime\n  ingredients        String?\n  allergens          String[]             @default([])\n  InventoryItem      InventoryItem[]\n  InventoryMovement  InventoryMovement[]\n  InvoiceItem        InvoiceItem[]\n  Category           Category             @relation(fields: [categoryId], references: [id])\n  ReceiptItem        ReceiptItem[]\n  RecipeIngredient   RecipeIngredient[]\n  ShoppingListItem   ShoppingListItem[]\n  ProductStockLevel  ProductStockLevel[]\n  ProductPieceWeight ProductPieceWeight[]\n  ProductPriceRecord ProductPriceRecord[]\n  ShelfLifeOverride  ShelfLifeOverride[]\n  InvoiceItemMapping InvoiceItemMapping[]\n\n  @@index([brand])\n  @@index([name])\n}\n\nmodel Invoice {\n  id                  String                   @id\n  userId              String\n  pdfUrl              String\n  status              InvoiceStatus            @default(PROCESSING)\n  processingStage     InvoiceProcessingStage   @default(UPLOADED)\n  processingProgress  Int                      @default(10)\n  processingAttempt   Int                      @default(1)\n  stageStartedAt      DateTime?\n  stageCompletedAt    DateTime?\n  processingErrorCode String?\n  rawAnalysisData     Json?\n  merchantName        String?\n  totalAmount         Float?\n  purchaseDate        DateTime?\n  invoiceNumber       String?\n  orderNumber         String?\n  analysisProvider    String?\n  analysisConfidence  Float?\n  processingTime      Int?\n  errorMessage        String?\n  fileHash            String?\n  duplicateOfId       String?\n  duplicateAllowed    Boolean                  @default(false)\n  createdAt           DateTime                 @default(now())\n  updatedAt           DateTime\n  Expense             Expense[]\n  InvoiceItem         InvoiceItem[]\n  ProcessingEvent     InvoiceProcessingEvent[]\n  DuplicateOf         Invoice?                 @relation(\"InvoiceDuplicates\", fields: [duplicateOfId], references: [id], onDelete: SetNull)\n  Duplicates          Invoice[]                @relation(\"InvoiceDuplicates\")\n  User                User                     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([createdAt])\n  @@index([purchaseDate])\n  @@index([status])\n  @@index([processingStage])\n  @@index([userId])\n  @@index([userId, createdAt])\n  @@index([userId, status, createdAt])\n  @@index([userId, purchaseDate])\n  @@index([userId, totalAmount])\n  @@index([userId, fileHash])\n}\n\nmodel InvoiceProcessingEvent {\n  id          String                       @id\n  invoiceId   String\n  stage       InvoiceProcessingStage\n  status      InvoiceProcessingEventStatus\n  attempt     Int                          @default(1)\n  startedAt   DateTime\n  completedAt DateTime?\n  durationMs  Int?\n  errorCode   String?\n  createdAt   DateTime                     @default(now())\n  Invoice     Invoice                      @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n\n  @@index([invoiceId, createdAt])\n  @@index([stage, status])\n}\n\nmodel InvoiceItem {\n  id                      String              @id\n  invoiceId               String\n  productId               String?\n  detectedName            String\n  originalDetectedName    String\n  resolvedFromHistory     Boolean             @default(false)\n  quantity                Float               @default(1)\n  unitPrice               Float?\n  totalPrice              Float?\n  confidence              Float\n  validated               Boolean             @default(false)\n  productCode             String?\n  category                String?\n  discount                Float?\n  selectedEan             String?\n  suggestedEans           Json                @default(\"[]\")\n  externalProductProvider String?\n  externalProductStatus   String?\n  externalProductData     Json?\n  externalProductError    String?\n  expiryDate              DateTime?\n  storageLocation         String?\n  notes                   String?\n  createdAt               DateTime            @default(now())\n  updatedAt               DateTime\n  Expense                 Expense?\n  InventoryItem           InventoryItem?\n  ProductPriceRecord      ProductPriceRecord?\n  Invoice                 Invoice             @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n  Product                 Product?            @relation(fields: [productId], references: [id])\n\n  @@index([invoiceId])\n  @@index([externalProductStatus])\n  @@index([productCode])\n  @@index([productId])\n  @@index([validated])\n}\n\nmodel Receipt {\n  id               String        @id\n  userId           String\n  documentType     DocumentType  @default(RECEIPT_IMAGE)\n  imageUrl         String?\n  pdfUrl           String?\n  status           ReceiptStatus @default(PROCESSING)\n  rawOcrData       Json?\n  merchantName     String?\n  totalAmount      Float?\n  purchaseDate     DateTime?\n  invoiceNumber    String?\n  orderNumber      String?\n  ocrProvider      String?\n  ocrConfidence    Float?\n  processingTime   Int?\n  errorMessage     String?\n  createdAt        DateTime      @default(now())\n  updatedAt        DateTime\n  merchantAddress  String?\n  merchantLocation String?\n  User             User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n  ReceiptItem      ReceiptItem[]\n\n  @@index([createdAt])\n  @@index([documentType])\n  @@index([purchaseDate])\n  @@index([status])\n  @@index([userId])\n  @@index([userId, createdAt])\n  @@index([userId, status, createdAt])\n  @@index([userId, purchaseDate])\n  @@index([userId, totalAmount])\n}\n\nmodel ReceiptItem {\n  id              String    @id\n  receiptId       String\n  productId       String?\n  detectedName    String\n  quantity        Int       @default(1)\n  unitPrice       Float?\n  totalPrice      Float?\n  confidence      Float\n  validated       Boolean   @default(false)\n  productCode     String?\n  category        String?\n  discount        Float?\n  createdAt       DateTime  @default(now())\n  updatedAt       DateTime\n  expiryDate      DateTime?\n  notes           String?\n  storageLocation String?\n  selectedEan     String?\n  suggestedEans   Json      @default(\"[]\")\n  Product         Product?  @relation(fields: [productId], references: [id])\n  Receipt         Receipt   @relation(fields: [receiptId], references: [id], onDelete: Cascade)\n\n  @@index([productCode])\n  @@index([productId])\n  @@index([receiptId])\n  @@index([validated])\n}\n\nmodel Recipe {\n  id                 String              @id\n  userId             String?\n  name               String\n  description        String?\n  instructions       String\n  preparationTime    Int?\n  cookingTime        Int?\n  servings           Int\n  difficulty         RecipeDifficulty\n  imageUrl           String?\n  type               RecipeType          @default(MAIN)\n  source             RecipeSource        @default(MANUAL)\n  basicIngredients   Json                @default(\"[]\")\n  missingIngredients Json                @default(\"[]\")\n  steps              Json                @default(\"[]\")\n  doneAt             DateTime?\n  isFavorite         Boolean             @default(false)\n  createdAt          DateTime            @default(now())\n  updatedAt          DateTime\n  RecipeIngredient   RecipeIngredient[]\n  InventoryItem      InventoryItem[]\n  InventoryMovement  InventoryMovement[]\n  ShoppingListItem   ShoppingListItem[]\n  User               User?               @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@index([userId, createdAt])\n  @@index([userId, type])\n  @@index([userId, isFavorite])\n}\n\nmodel RecipeIngredient {\n  id        String                 @id\n  recipeId  String\n  productId String?\n  name      String\n  quantity  Float?\n  unit      String\n  unitType  UnitType?\n  notes     String?\n  source    RecipeIngredientSource @default(INVENTORY)\n  Product   Product?               @relation(fields: [productId], references: [id])\n  Recipe    Recipe                 @relation(fields: [recipeId], references: [id], onDelete: Cascade)\n\n  @@index([productId])\n  @@index([recipeId])\n  @@index([source])\n}\n\nmodel Household {\n  id                  String                @id\n  name                String\n  ownerId             String                @unique\n  createdAt           DateTime              @default(now())\n  updatedAt           DateTime\n  Owner               User                  @relation(\"HouseholdOwner\", fields: [ownerId], references: [id], onDelete: Cascade)\n  ActiveUsers         User[]                @relation(\"ActiveHousehold\")\n  HouseholdMember     HouseholdMember[]\n  HouseholdInvitation HouseholdInvitation[]\n}\n\nmodel HouseholdMember {\n  id          String        @id\n  householdId String\n  userId      String\n  role        HouseholdRole @default(MEMBER)\n  joinedAt    DateTime      @default(now())\n  Household   Household     @relation(fields: [householdId], references: [id], onDelete: Cascade)\n  User        User          @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([householdId, userId])\n  @@index([userId])\n}\n\nmodel HouseholdInvitation {\n  id          String        @id\n  householdId String\n  email       String\n  role        HouseholdRole @default(MEMBER)\n  token       String        @unique\n  invitedById String\n  expiresAt   DateTime\n  acceptedAt  DateTime?\n  createdAt   DateTime      @default(now())\n  Household   Household     @relation(fields: [householdId], references: [id], onDelete: Cascade)\n  InvitedBy   User          @relation(fields: [invitedById], references: [id], onDelete: Cascade)\n\n  @@index([householdId])\n  @@index([email])\n}\n\nenum HouseholdRole {\n  OWNER\n  ADMIN\n  MEMBER\n}\n\nmodel ShoppingList {\n  id               String             @id\n  userId           String             @unique\n  createdAt        DateTime           @default(now())\n  updatedAt        DateTime\n  ShoppingListItem ShoppingListItem[]\n  User             User               @relation(fields: [userId], references: [id], onDelete: Cascade)\n}\n\nmodel ShoppingListItem {\n  id             String                 @id\n  shoppingListId String\n  productId      String?\n  recipeId       String?\n  name           String\n  quantity       Float?\n  unit           String?\n  notes          String?\n  source         ShoppingListItemSource @default(MANUAL)\n  checkedAt      DateTime?\n  createdAt      DateTime               @default(now())\n  updatedAt      DateTime\n  Product        Product?               @relation(fields: [productId], references: [id], onDelete: SetNull)\n  Recipe         Recipe?                @relation(fields: [recipeId], references: [id], onDelete: SetNull)\n  ShoppingList   ShoppingList           @relation(fields: [shoppingListId], references: [id], onDelete: Cascade)\n\n  @@index([shoppingListId, checkedAt])\n  @@index([productId])\n  @@index([recipeId])\n}\n\nenum ShoppingListItemSource {\n  MANUAL\n  RECIPE\n  OUT_OF_STOCK\n}\n\nmodel User {\n  id                           String                   @id\n  email                        String                   @unique\n  name                         String\n  emailVerified                Boolean                  @default(false)\n  welcomeEmailSentAt           DateTime?\n  firstName                    String                   @default(\"\")\n  lastName                     String                   @default(\"\")\n  defaultServings              Int                      @default(4)\n  primaryGoal                  PrimaryGoal?\n  profileOnboardingCompletedAt DateTime?\n  preferences                  Json                     @default(\"{}\")\n  createdAt                    DateTime                 @default(now())\n  updatedAt                    DateTime\n  role                         UserRole                 @default(USER)\n  accountStatus                AccountStatus            @default(ACTIVE)\n  accountStatusChangedAt       DateTime?\n  suspendedUntil               DateTime?\n  moderationReason             String?\n  deletionScheduledAt          DateTime?\n  statusBeforeDeletion         AccountStatus?\n  subscriptionPlan             SubscriptionPlan         @default(FREE)\n  subscriptionStatus           SubscriptionStatus       @default(ACTIVE)\n  trialStartedAt               DateTime?\n  trialEndsAt                  DateTime?\n  trialUsedAt                  DateTime?\n  trialStartedEmailSentAt      DateTime?\n  trialReminderEmailSentAt     DateTime?\n  trialExpiredEmailSentAt      DateTime?\n  currentPeriodStartedAt       DateTime?\n  currentPeriodEndsAt          DateTime?\n  stripeCustomerId             String?                  @unique\n  stripeSubscriptionId         String?                  @unique\n  stripePriceId                String?\n  billingInterval              BillingInterval?\n  cancelAtPeriodEnd            Boolean                  @default(false)\n  subscriptionCancelledAt      DateTime?\n  lastStripeEventAt            DateTime?\n  avatarUrl                    String?\n  activeHouseholdId            String?\n  storageLocationsSeededAt     DateTime?\n  Budget                       Budget[]\n  Expense                      Expense[]\n  EmailDigestDelivery          EmailDigestDelivery[]\n  ActiveHousehold              Household?               @relation(\"ActiveHousehold\", fields: [activeHouseholdId], references: [id], onDelete: SetNull)\n  OwnedHousehold               Household?               @relation(\"HouseholdOwner\")\n  HouseholdMember              HouseholdMember[]\n  HouseholdInvitation          HouseholdInvitation[]\n  InventoryItem                InventoryItem[]\n  InventoryMovement            InventoryMovement[]\n  ProductStockLevel            ProductStockLevel[]\n  ProductPieceWeight           ProductPieceWeight[]\n  ProductPriceRecord           ProductPriceRecord[]\n  StorageLocation              StorageLocation[]\n  ShelfLifeOverride            ShelfLifeOverride[]\n  InvoiceItemMapping           InvoiceItemMapping[]\n  Invoice                      Invoice[]\n  Notification                 Notification[]\n  NotificationPreferences      NotificationPreferences?\n  Recipe                       Recipe[]\n  Receipt                      Receipt[]\n  ShoppingList                 ShoppingList?\n  UsageQuota                   UsageQuota[]\n  UsageEvent                   UsageEvent[]\n  sessions                     Session[]\n  accounts                     Account[]\n  AdminAuditLog                AdminAuditLog[]          @relation(\"AdminAuditActor\")\n\n  @@index([accountStatus])\n  @@index([deletionScheduledAt])\n  @@map(\"User\")\n}\n\nmodel AdminAuditLog {\n  id            String   @id\n  adminUserId   String\n  action        String\n  resourceType  String\n  resourceId    String\n  previousValue Json?\n  newValue      Json?\n  reason        String\n  ipAddress     String?\n  sessionId     String?\n  createdAt     DateTime @default(now())\n  AdminUser     User     @relation(\"AdminAuditActor\", fields: [adminUserId], references: [id], onDelete: Restrict)\n\n  @@index([adminUserId, createdAt])\n  @@index([resourceType, resourceId, createdAt])\n  @@index([action, createdAt])\n  @@index([createdAt])\n}\n\nmodel StripeWebhookEvent {\n  id            String    @id\n  stripeEventId String    @unique\n  type          String\n  status        String\n  errorMessage  String?\n  createdAt     DateTime  @default(now())\n  processedAt   DateTime?\n\n  @@index([status])\n  @@index([type])\n}\n\nmodel ResendWebhookEvent {\n  id           String   @id\n  type         String\n  emailId      String?\n  emailType    String?\n  recipientRef String?\n  eventAt      DateTime\n  processedAt  DateTime @default(now())\n\n  @@index([type, eventAt])\n}\n\nmodel EmailSuppression {\n  recipientRef String   @id\n  reason       String\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime @updatedAt\n}\n\nmodel UsageQuota {\n  id                 String    @id\n  userId             String\n  usageType          UsageType\n  periodStart        DateTime\n  periodEnd          DateTime\n  usedCount          Int       @default(0)\n  limit              Int\n  createdAt          DateTime  @default(now())\n  updatedAt          DateTime\n  warningEmailSentAt DateTime?\n  reachedEmailSentAt DateTime?\n  User               User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, usageType, periodStart, periodEnd])\n  @@index([periodEnd])\n  @@index([usageType])\n  @@index([userId])\n}\n\nmodel UsageEvent {\n  id             String    @id\n  userId         String\n  usageType      UsageType\n  idempotencyKey String?   @unique\n  occurredAt     DateTime  @default(now())\n  User           User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([usageType, occurredAt])\n  @@index([userId, occurredAt])\n}\n\nmodel Session {\n  id        String   @id\n  expiresAt DateTime\n  token     String   @unique\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  ipAddress String?\n  userAgent String?\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@map(\"session\")\n}\n\nmodel Account {\n  id                    String    @id\n  accountId             String\n  providerId            String\n  userId                String\n  user                  User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  accessToken           String?\n  refreshToken          String?\n  idToken               String?\n  accessTokenExpiresAt  DateTime?\n  refreshTokenExpiresAt DateTime?\n  scope                 String?\n  password              String?\n  createdAt             DateTime  @default(now())\n  updatedAt             DateTime  @updatedAt\n\n  @@index([providerId, accountId])\n  @@index([userId])\n  @@map(\"account\")\n}\n\nmodel Verification {\n  id         String   @id\n  identifier String\n  value      String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @updatedAt\n\n  @@index([identifier])\n  @@map(\"verification\")\n}\n\nenum DocumentType {\n  RECEIPT_IMAGE\n  INVOICE_PDF\n  INVOICE_HTML\n}\n\nenum Ecoscore {\n  A\n  B\n  C\n  D\n  E\n}\n\nenum InvoiceStatus {\n  PROCESSING\n  COMPLETED\n  FAILED\n  VALIDATED\n}\n\nenum InvoiceProcessingStage {\n  UPLOADED\n  QUEUED\n  EXTRACTING\n  ANALYZING\n  NORMALIZING\n  ENRICHING\n  READY_FOR_REVIEW\n  FAILED\n  VALIDATED\n}\n\nenum InvoiceProcessingEventStatus {\n  STARTED\n  COMPLETED\n  FAILED\n  REVERTED\n}\n\nenum NotificationType {\n  EXPIRY\n  BUDGET\n  LOW_STOCK\n  SYSTEM\n}\n\nenum NotificationChannel {\n  EMAIL\n  PUSH\n}\n\nenum NotificationDeliveryStatus {\n  PENDING\n  PROCESSING\n  SENT\n  FAILED\n  SUPPRESSED\n  SKIPPED\n}\n\nenum Novascore {\n  GROUP_1\n  GROUP_2\n  GROUP_3\n  GROUP_4\n}\n\nenum NutriScore {\n  A\n  B\n  C\n  D\n  E\n}\n\nenum PrimaryGoal {\n  REDUCE_WASTE\n  SAVE_MONEY\n  EAT_BETTER\n  FIND_MEAL_IDEAS\n}\n\nenum ReceiptStatus {\n  PROCESSING\n  COMPLETED\n  FAILED\n  VALIDATED\n}\n\nenum RecipeDifficulty {\n  EASY\n  MEDIUM\n  HARD\n}\n\nenum RecipeIngredientSource {\n  INVENTORY\n  BASIC\n  MISSING\n}\n\nenum RecipeSource {\n  AI\n  MANUAL\n}\n\nenum RecipeType {\n  STARTER\n  MAIN\n  DESSERT\n}\n\nenum SubscriptionPlan {\n  FREE\n  TRIAL\n  PREMIUM\n}\n\nenum SubscriptionStatus {\n  ACTIVE\n  EXPIRED\n  CANCELLED\n}\n\nenum BillingInterval {\n  MONTHLY\n  YEARLY\n}\n\nenum UnitType {\n  KG\n  G\n  L\n  ML\n  UNIT\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\nenum AccountStatus {\n  ACTIVE\n  SUSPENDED\n  BANNED\n  PENDING_DELETION\n  ANONYMIZED\n}\n\nenum UsageType {\n  AI_RECIPE_GENERATION\n  DRIVE_IMPORT\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Budget\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"periodStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"periodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"BudgetToUser\"},{\"name\":\"Expense\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"BudgetToExpense\"}],\"dbName\":null},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"icon\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToCategory\"},{\"name\":\"other_Category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToCategory\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CategoryToProduct\"}],\"dbName\":null},\"Expense\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"budgetId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"receiptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invoiceItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Budget\",\"kind\":\"object\",\"type\":\"Budget\",\"relationName\":\"BudgetToExpense\"},{\"name\":\"Invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"ExpenseToInvoice\"},{\"name\":\"InvoiceItem\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"ExpenseToInvoiceItem\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ExpenseToUser\"}],\"dbName\":null},\"InventoryItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"expiryDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiryDateSource\",\"kind\":\"enum\",\"type\":\"ExpiryDateSource\"},{\"name\":\"packageStatus\",\"kind\":\"enum\",\"type\":\"PackageStatus\"},{\"name\":\"preparationStatus\",\"kind\":\"enum\",\"type\":\"PreparationStatus\"},{\"name\":\"purchaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"purchasePrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"storageLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"InventoryItemToProduct\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InventoryItemToUser\"}],\"dbName\":null},\"Notification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isRead\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"referenceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"referenceType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deduplicationKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dismissedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resolvedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastOccurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"occurrenceVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationToUser\"},{\"name\":\"deliveries\",\"kind\":\"object\",\"type\":\"NotificationDelivery\",\"relationName\":\"NotificationToNotificationDelivery\"}],\"dbName\":null},\"NotificationDelivery\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notificationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"channel\",\"kind\":\"enum\",\"type\":\"NotificationChannel\"},{\"name\":\"occurrenceVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"NotificationDeliveryStatus\"},{\"name\":\"attemptCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"providerMessageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nextAttemptAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Notification\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToNotificationDelivery\"}],\"dbName\":null},\"NotificationPreferences\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inAppEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"pushEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"weeklyDigestEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"dailyDigestEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"expiry\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"budget\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"system\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationPreferencesToUser\"}],\"dbName\":null},\"EmailDigestDelivery\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"periodKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attemptCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"providerMessageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"EmailDigestDeliveryToUser\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"barcode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"brand\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nutriscore\",\"kind\":\"enum\",\"type\":\"NutriScore\"},{\"name\":\"ecoscore\",\"kind\":\"enum\",\"type\":\"Ecoscore\"},{\"name\":\"novascore\",\"kind\":\"enum\",\"type\":\"Novascore\"},{\"name\":\"unitType\",\"kind\":\"enum\",\"type\":\"UnitType\"},{\"name\":\"nutrients\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"externalId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ingredients\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"InventoryItem\",\"kind\":\"object\",\"type\":\"InventoryItem\",\"relationName\":\"InventoryItemToProduct\"},{\"name\":\"InvoiceItem\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"InvoiceItemToProduct\"},{\"name\":\"Category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToProduct\"},{\"name\":\"ReceiptItem\",\"kind\":\"object\",\"type\":\"ReceiptItem\",\"relationName\":\"ProductToReceiptItem\"},{\"name\":\"RecipeIngredient\",\"kind\":\"object\",\"type\":\"RecipeIngredient\",\"relationName\":\"ProductToRecipeIngredient\"}],\"dbName\":null},\"Invoice\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pdfUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InvoiceStatus\"},{\"name\":\"processingStage\",\"kind\":\"enum\",\"type\":\"InvoiceProcessingStage\"},{\"name\":\"processingProgress\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"processingAttempt\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"stageStartedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"stageCompletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processingErrorCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawAnalysisData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"merchantName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"purchaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"invoiceNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analysisProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analysisConfidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"processingTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Expense\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToInvoice\"},{\"name\":\"InvoiceItem\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"InvoiceToInvoiceItem\"},{\"name\":\"ProcessingEvent\",\"kind\":\"object\",\"type\":\"InvoiceProcessingEvent\",\"relationName\":\"InvoiceToInvoiceProcessingEvent\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InvoiceToUser\"}],\"dbName\":null},\"InvoiceProcessingEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stage\",\"kind\":\"enum\",\"type\":\"InvoiceProcessingStage\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InvoiceProcessingEventStatus\"},{\"name\":\"attempt\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"durationMs\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceProcessingEvent\"}],\"dbName\":null},\"InvoiceItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"detectedName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"totalPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"confidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"validated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"productCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"selectedEan\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"suggestedEans\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"externalProductProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"externalProductStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"externalProductData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"externalProductError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiryDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"storageLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Expense\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToInvoiceItem\"},{\"name\":\"Invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceItem\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"InvoiceItemToProduct\"}],\"dbName\":null},\"Receipt\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentType\",\"kind\":\"enum\",\"type\":\"DocumentType\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pdfUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ReceiptStatus\"},{\"name\":\"rawOcrData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"merchantName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"purchaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"invoiceNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ocrProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ocrConfidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"processingTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"merchantAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"merchantLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReceiptToUser\"},{\"name\":\"ReceiptItem\",\"kind\":\"object\",\"type\":\"ReceiptItem\",\"relationName\":\"ReceiptToReceiptItem\"}],\"dbName\":null},\"ReceiptItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"receiptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"detectedName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"totalPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"confidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"validated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"productCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiryDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"storageLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"selectedEan\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"suggestedEans\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToReceiptItem\"},{\"name\":\"Receipt\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptToReceiptItem\"}],\"dbName\":null},\"Recipe\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instructions\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"preparationTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cookingTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"servings\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"difficulty\",\"kind\":\"enum\",\"type\":\"RecipeDifficulty\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"RecipeType\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"RecipeSource\"},{\"name\":\"basicIngredients\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"missingIngredients\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"steps\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"doneAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isFavorite\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"RecipeIngredient\",\"kind\":\"object\",\"type\":\"RecipeIngredient\",\"relationName\":\"RecipeToRecipeIngredient\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RecipeToUser\"}],\"dbName\":null},\"RecipeIngredient\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recipeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"unit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"RecipeIngredientSource\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToRecipeIngredient\"},{\"name\":\"Recipe\",\"kind\":\"object\",\"type\":\"Recipe\",\"relationName\":\"RecipeToRecipeIngredient\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"welcomeEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"defaultServings\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"primaryGoal\",\"kind\":\"enum\",\"type\":\"PrimaryGoal\"},{\"name\":\"profileOnboardingCompletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"preferences\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"accountStatus\",\"kind\":\"enum\",\"type\":\"AccountStatus\"},{\"name\":\"accountStatusChangedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"suspendedUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"moderationReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deletionScheduledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"statusBeforeDeletion\",\"kind\":\"enum\",\"type\":\"AccountStatus\"},{\"name\":\"subscriptionPlan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"subscriptionStatus\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"trialStartedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialEndsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialStartedEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialReminderEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialExpiredEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currentPeriodStartedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currentPeriodEndsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeSubscriptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripePriceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"billingInterval\",\"kind\":\"enum\",\"type\":\"BillingInterval\"},{\"name\":\"cancelAtPeriodEnd\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"subscriptionCancelledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastStripeEventAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"avatarUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Budget\",\"kind\":\"object\",\"type\":\"Budget\",\"relationName\":\"BudgetToUser\"},{\"name\":\"Expense\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToUser\"},{\"name\":\"EmailDigestDelivery\",\"kind\":\"object\",\"type\":\"EmailDigestDelivery\",\"relationName\":\"EmailDigestDeliveryToUser\"},{\"name\":\"InventoryItem\",\"kind\":\"object\",\"type\":\"InventoryItem\",\"relationName\":\"InventoryItemToUser\"},{\"name\":\"Invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToUser\"},{\"name\":\"Notification\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToUser\"},{\"name\":\"NotificationPreferences\",\"kind\":\"object\",\"type\":\"NotificationPreferences\",\"relationName\":\"NotificationPreferencesToUser\"},{\"name\":\"Recipe\",\"kind\":\"object\",\"type\":\"Recipe\",\"relationName\":\"RecipeToUser\"},{\"name\":\"Receipt\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptToUser\"},{\"name\":\"UsageQuota\",\"kind\":\"object\",\"type\":\"UsageQuota\",\"relationName\":\"UsageQuotaToUser\"},{\"name\":\"UsageEvent\",\"kind\":\"object\",\"type\":\"UsageEvent\",\"relationName\":\"UsageEventToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"AdminAuditLog\",\"kind\":\"object\",\"type\":\"AdminAuditLog\",\"relationName\":\"AdminAuditActor\"}],\"dbName\":\"User\"},\"AdminAuditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"adminUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resourceType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resourceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousValue\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"newValue\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"AdminUser\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AdminAuditActor\"}],\"dbName\":null},\"StripeWebhookEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeEventId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ResendWebhookEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recipientRef\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"eventAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"EmailSuppression\":{\"fields\":[{\"name\":\"recipientRef\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"UsageQuota\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"usageType\",\"kind\":\"enum\",\"type\":\"UsageType\"},{\"name\":\"periodStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"periodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"usedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"limit\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"warningEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reachedEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UsageQuotaToUser\"}],\"dbName\":null},\"UsageEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"usageType\",\"kind\":\"enum\",\"type\":\"UsageType\"},{\"name\":\"idempotencyKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"occurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UsageEventToUser\"}],\"dbName\":null},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":\"session\"},\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"idToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refreshTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"account\"},\"Verification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"verification\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Budget\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"periodStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"periodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"BudgetToUser\"},{\"name\":\"Expense\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"BudgetToExpense\"}],\"dbName\":null},\"Category\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"icon\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToCategory\"},{\"name\":\"other_Category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToCategory\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"CategoryToProduct\"}],\"dbName\":null},\"Expense\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"budgetId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"receiptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invoiceItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Budget\",\"kind\":\"object\",\"type\":\"Budget\",\"relationName\":\"BudgetToExpense\"},{\"name\":\"Invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"ExpenseToInvoice\"},{\"name\":\"InvoiceItem\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"ExpenseToInvoiceItem\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ExpenseToUser\"}],\"dbName\":null},\"InventoryItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"expiryDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiryDateSource\",\"kind\":\"enum\",\"type\":\"ExpiryDateSource\"},{\"name\":\"expiryKind\",\"kind\":\"enum\",\"type\":\"ExpiryKind\"},{\"name\":\"packageStatus\",\"kind\":\"enum\",\"type\":\"PackageStatus\"},{\"name\":\"preparationStatus\",\"kind\":\"enum\",\"type\":\"PreparationStatus\"},{\"name\":\"purchaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"purchasePrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"storageLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thawedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"frozenAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"stocktakeFlaggedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"recipeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invoiceItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"InventoryItemToProduct\"},{\"name\":\"Recipe\",\"kind\":\"object\",\"type\":\"Recipe\",\"relationName\":\"InventoryItemToRecipe\"},{\"name\":\"InvoiceItem\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"InventoryItemToInvoiceItem\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InventoryItemToUser\"}],\"dbName\":null},\"InventoryMovement\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inventoryItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recipeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"enum\",\"type\":\"InventoryMovementReason\"},{\"name\":\"quantityDelta\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"storageLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"wasteReason\",\"kind\":\"enum\",\"type\":\"WasteReason\"},{\"name\":\"valueLost\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"occurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"InventoryMovementToProduct\"},{\"name\":\"Recipe\",\"kind\":\"object\",\"type\":\"Recipe\",\"relationName\":\"InventoryMovementToRecipe\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InventoryMovementToUser\"}],\"dbName\":null},\"ProductStockLevel\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"minimumQuantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ProductStockLevelToUser\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToProductStockLevel\"}],\"dbName\":null},\"ProductPieceWeight\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pieceWeight\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ProductPieceWeightToUser\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToProductPieceWeight\"}],\"dbName\":null},\"ProductPriceRecord\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"ProductPriceSource\"},{\"name\":\"invoiceItemId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"merchantName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"totalPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"purchasedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ProductPriceRecordToUser\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToProductPriceRecord\"},{\"name\":\"InvoiceItem\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"InvoiceItemToProductPriceRecord\"}],\"dbName\":null},\"StorageLocation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"storageGroup\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"StorageLocationToUser\"}],\"dbName\":null},\"ShelfLifeOverride\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"label\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keywords\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"daysByStorage\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"defaultDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ShelfLifeOverrideToUser\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToShelfLifeOverride\"}],\"dbName\":null},\"InvoiceItemMapping\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"merchantKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"detectedNameKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"storageLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"selectedEan\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InvoiceItemMappingToUser\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"InvoiceItemMappingToProduct\"}],\"dbName\":null},\"Notification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isRead\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"referenceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"referenceType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deduplicationKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dismissedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"resolvedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastOccurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"occurrenceVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationToUser\"},{\"name\":\"deliveries\",\"kind\":\"object\",\"type\":\"NotificationDelivery\",\"relationName\":\"NotificationToNotificationDelivery\"}],\"dbName\":null},\"NotificationDelivery\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notificationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"channel\",\"kind\":\"enum\",\"type\":\"NotificationChannel\"},{\"name\":\"occurrenceVersion\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"NotificationDeliveryStatus\"},{\"name\":\"attemptCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"providerMessageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nextAttemptAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Notification\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToNotificationDelivery\"}],\"dbName\":null},\"NotificationPreferences\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inAppEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"emailEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"pushEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"weeklyDigestEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"dailyDigestEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"expiry\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"budget\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"lowStock\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"system\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationPreferencesToUser\"}],\"dbName\":null},\"EmailDigestDelivery\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"periodKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attemptCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"providerMessageId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"EmailDigestDeliveryToUser\"}],\"dbName\":null},\"Product\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"barcode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"brand\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"categoryId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nutriscore\",\"kind\":\"enum\",\"type\":\"NutriScore\"},{\"name\":\"ecoscore\",\"kind\":\"enum\",\"type\":\"Ecoscore\"},{\"name\":\"novascore\",\"kind\":\"enum\",\"type\":\"Novascore\"},{\"name\":\"unitType\",\"kind\":\"enum\",\"type\":\"UnitType\"},{\"name\":\"nutrients\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"externalId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ingredients\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"allergens\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"InventoryItem\",\"kind\":\"object\",\"type\":\"InventoryItem\",\"relationName\":\"InventoryItemToProduct\"},{\"name\":\"InventoryMovement\",\"kind\":\"object\",\"type\":\"InventoryMovement\",\"relationName\":\"InventoryMovementToProduct\"},{\"name\":\"InvoiceItem\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"InvoiceItemToProduct\"},{\"name\":\"Category\",\"kind\":\"object\",\"type\":\"Category\",\"relationName\":\"CategoryToProduct\"},{\"name\":\"ReceiptItem\",\"kind\":\"object\",\"type\":\"ReceiptItem\",\"relationName\":\"ProductToReceiptItem\"},{\"name\":\"RecipeIngredient\",\"kind\":\"object\",\"type\":\"RecipeIngredient\",\"relationName\":\"ProductToRecipeIngredient\"},{\"name\":\"ShoppingListItem\",\"kind\":\"object\",\"type\":\"ShoppingListItem\",\"relationName\":\"ProductToShoppingListItem\"},{\"name\":\"ProductStockLevel\",\"kind\":\"object\",\"type\":\"ProductStockLevel\",\"relationName\":\"ProductToProductStockLevel\"},{\"name\":\"ProductPieceWeight\",\"kind\":\"object\",\"type\":\"ProductPieceWeight\",\"relationName\":\"ProductToProductPieceWeight\"},{\"name\":\"ProductPriceRecord\",\"kind\":\"object\",\"type\":\"ProductPriceRecord\",\"relationName\":\"ProductToProductPriceRecord\"},{\"name\":\"ShelfLifeOverride\",\"kind\":\"object\",\"type\":\"ShelfLifeOverride\",\"relationName\":\"ProductToShelfLifeOverride\"},{\"name\":\"InvoiceItemMapping\",\"kind\":\"object\",\"type\":\"InvoiceItemMapping\",\"relationName\":\"InvoiceItemMappingToProduct\"}],\"dbName\":null},\"Invoice\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pdfUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InvoiceStatus\"},{\"name\":\"processingStage\",\"kind\":\"enum\",\"type\":\"InvoiceProcessingStage\"},{\"name\":\"processingProgress\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"processingAttempt\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"stageStartedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"stageCompletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processingErrorCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rawAnalysisData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"merchantName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"purchaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"invoiceNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analysisProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"analysisConfidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"processingTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"fileHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duplicateOfId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duplicateAllowed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Expense\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToInvoice\"},{\"name\":\"InvoiceItem\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"InvoiceToInvoiceItem\"},{\"name\":\"ProcessingEvent\",\"kind\":\"object\",\"type\":\"InvoiceProcessingEvent\",\"relationName\":\"InvoiceToInvoiceProcessingEvent\"},{\"name\":\"DuplicateOf\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceDuplicates\"},{\"name\":\"Duplicates\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceDuplicates\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InvoiceToUser\"}],\"dbName\":null},\"InvoiceProcessingEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stage\",\"kind\":\"enum\",\"type\":\"InvoiceProcessingStage\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InvoiceProcessingEventStatus\"},{\"name\":\"attempt\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"durationMs\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceProcessingEvent\"}],\"dbName\":null},\"InvoiceItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"detectedName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"originalDetectedName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resolvedFromHistory\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"totalPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"confidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"validated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"productCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"selectedEan\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"suggestedEans\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"externalProductProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"externalProductStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"externalProductData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"externalProductError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiryDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"storageLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Expense\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToInvoiceItem\"},{\"name\":\"InventoryItem\",\"kind\":\"object\",\"type\":\"InventoryItem\",\"relationName\":\"InventoryItemToInvoiceItem\"},{\"name\":\"ProductPriceRecord\",\"kind\":\"object\",\"type\":\"ProductPriceRecord\",\"relationName\":\"InvoiceItemToProductPriceRecord\"},{\"name\":\"Invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceItem\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"InvoiceItemToProduct\"}],\"dbName\":null},\"Receipt\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"documentType\",\"kind\":\"enum\",\"type\":\"DocumentType\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"pdfUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ReceiptStatus\"},{\"name\":\"rawOcrData\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"merchantName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"totalAmount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"purchaseDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"invoiceNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderNumber\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ocrProvider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ocrConfidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"processingTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"merchantAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"merchantLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ReceiptToUser\"},{\"name\":\"ReceiptItem\",\"kind\":\"object\",\"type\":\"ReceiptItem\",\"relationName\":\"ReceiptToReceiptItem\"}],\"dbName\":null},\"ReceiptItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"receiptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"detectedName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"totalPrice\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"confidence\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"validated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"productCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiryDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"storageLocation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"selectedEan\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"suggestedEans\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToReceiptItem\"},{\"name\":\"Receipt\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptToReceiptItem\"}],\"dbName\":null},\"Recipe\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"instructions\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"preparationTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cookingTime\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"servings\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"difficulty\",\"kind\":\"enum\",\"type\":\"RecipeDifficulty\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"RecipeType\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"RecipeSource\"},{\"name\":\"basicIngredients\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"missingIngredients\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"steps\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"doneAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isFavorite\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"RecipeIngredient\",\"kind\":\"object\",\"type\":\"RecipeIngredient\",\"relationName\":\"RecipeToRecipeIngredient\"},{\"name\":\"InventoryItem\",\"kind\":\"object\",\"type\":\"InventoryItem\",\"relationName\":\"InventoryItemToRecipe\"},{\"name\":\"InventoryMovement\",\"kind\":\"object\",\"type\":\"InventoryMovement\",\"relationName\":\"InventoryMovementToRecipe\"},{\"name\":\"ShoppingListItem\",\"kind\":\"object\",\"type\":\"ShoppingListItem\",\"relationName\":\"RecipeToShoppingListItem\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RecipeToUser\"}],\"dbName\":null},\"RecipeIngredient\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recipeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"unit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unitType\",\"kind\":\"enum\",\"type\":\"UnitType\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"RecipeIngredientSource\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToRecipeIngredient\"},{\"name\":\"Recipe\",\"kind\":\"object\",\"type\":\"Recipe\",\"relationName\":\"RecipeToRecipeIngredient\"}],\"dbName\":null},\"Household\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"HouseholdOwner\"},{\"name\":\"ActiveUsers\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ActiveHousehold\"},{\"name\":\"HouseholdMember\",\"kind\":\"object\",\"type\":\"HouseholdMember\",\"relationName\":\"HouseholdToHouseholdMember\"},{\"name\":\"HouseholdInvitation\",\"kind\":\"object\",\"type\":\"HouseholdInvitation\",\"relationName\":\"HouseholdToHouseholdInvitation\"}],\"dbName\":null},\"HouseholdMember\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"householdId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"HouseholdRole\"},{\"name\":\"joinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Household\",\"kind\":\"object\",\"type\":\"Household\",\"relationName\":\"HouseholdToHouseholdMember\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"HouseholdMemberToUser\"}],\"dbName\":null},\"HouseholdInvitation\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"householdId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"HouseholdRole\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"invitedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"acceptedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Household\",\"kind\":\"object\",\"type\":\"Household\",\"relationName\":\"HouseholdToHouseholdInvitation\"},{\"name\":\"InvitedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"HouseholdInvitationToUser\"}],\"dbName\":null},\"ShoppingList\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ShoppingListItem\",\"kind\":\"object\",\"type\":\"ShoppingListItem\",\"relationName\":\"ShoppingListToShoppingListItem\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ShoppingListToUser\"}],\"dbName\":null},\"ShoppingListItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shoppingListId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"productId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recipeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"unit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"enum\",\"type\":\"ShoppingListItemSource\"},{\"name\":\"checkedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Product\",\"kind\":\"object\",\"type\":\"Product\",\"relationName\":\"ProductToShoppingListItem\"},{\"name\":\"Recipe\",\"kind\":\"object\",\"type\":\"Recipe\",\"relationName\":\"RecipeToShoppingListItem\"},{\"name\":\"ShoppingList\",\"kind\":\"object\",\"type\":\"ShoppingList\",\"relationName\":\"ShoppingListToShoppingListItem\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"welcomeEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"defaultServings\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"primaryGoal\",\"kind\":\"enum\",\"type\":\"PrimaryGoal\"},{\"name\":\"profileOnboardingCompletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"preferences\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"accountStatus\",\"kind\":\"enum\",\"type\":\"AccountStatus\"},{\"name\":\"accountStatusChangedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"suspendedUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"moderationReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deletionScheduledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"statusBeforeDeletion\",\"kind\":\"enum\",\"type\":\"AccountStatus\"},{\"name\":\"subscriptionPlan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"subscriptionStatus\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"trialStartedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialEndsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialStartedEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialReminderEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialExpiredEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currentPeriodStartedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currentPeriodEndsAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"stripeCustomerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeSubscriptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripePriceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"billingInterval\",\"kind\":\"enum\",\"type\":\"BillingInterval\"},{\"name\":\"cancelAtPeriodEnd\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"subscriptionCancelledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastStripeEventAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"avatarUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"activeHouseholdId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"storageLocationsSeededAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Budget\",\"kind\":\"object\",\"type\":\"Budget\",\"relationName\":\"BudgetToUser\"},{\"name\":\"Expense\",\"kind\":\"object\",\"type\":\"Expense\",\"relationName\":\"ExpenseToUser\"},{\"name\":\"EmailDigestDelivery\",\"kind\":\"object\",\"type\":\"EmailDigestDelivery\",\"relationName\":\"EmailDigestDeliveryToUser\"},{\"name\":\"ActiveHousehold\",\"kind\":\"object\",\"type\":\"Household\",\"relationName\":\"ActiveHousehold\"},{\"name\":\"OwnedHousehold\",\"kind\":\"object\",\"type\":\"Household\",\"relationName\":\"HouseholdOwner\"},{\"name\":\"HouseholdMember\",\"kind\":\"object\",\"type\":\"HouseholdMember\",\"relationName\":\"HouseholdMemberToUser\"},{\"name\":\"HouseholdInvitation\",\"kind\":\"object\",\"type\":\"HouseholdInvitation\",\"relationName\":\"HouseholdInvitationToUser\"},{\"name\":\"InventoryItem\",\"kind\":\"object\",\"type\":\"InventoryItem\",\"relationName\":\"InventoryItemToUser\"},{\"name\":\"InventoryMovement\",\"kind\":\"object\",\"type\":\"InventoryMovement\",\"relationName\":\"InventoryMovementToUser\"},{\"name\":\"ProductStockLevel\",\"kind\":\"object\",\"type\":\"ProductStockLevel\",\"relationName\":\"ProductStockLevelToUser\"},{\"name\":\"ProductPieceWeight\",\"kind\":\"object\",\"type\":\"ProductPieceWeight\",\"relationName\":\"ProductPieceWeightToUser\"},{\"name\":\"ProductPriceRecord\",\"kind\":\"object\",\"type\":\"ProductPriceRecord\",\"relationName\":\"ProductPriceRecordToUser\"},{\"name\":\"StorageLocation\",\"kind\":\"object\",\"type\":\"StorageLocation\",\"relationName\":\"StorageLocationToUser\"},{\"name\":\"ShelfLifeOverride\",\"kind\":\"object\",\"type\":\"ShelfLifeOverride\",\"relationName\":\"ShelfLifeOverrideToUser\"},{\"name\":\"InvoiceItemMapping\",\"kind\":\"object\",\"type\":\"InvoiceItemMapping\",\"relationName\":\"InvoiceItemMappingToUser\"},{\"name\":\"Invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToUser\"},{\"name\":\"Notification\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToUser\"},{\"name\":\"NotificationPreferences\",\"kind\":\"object\",\"type\":\"NotificationPreferences\",\"relationName\":\"NotificationPreferencesToUser\"},{\"name\":\"Recipe\",\"kind\":\"object\",\"type\":\"Recipe\",\"relationName\":\"RecipeToUser\"},{\"name\":\"Receipt\",\"kind\":\"object\",\"type\":\"Receipt\",\"relationName\":\"ReceiptToUser\"},{\"name\":\"ShoppingList\",\"kind\":\"object\",\"type\":\"ShoppingList\",\"relationName\":\"ShoppingListToUser\"},{\"name\":\"UsageQuota\",\"kind\":\"object\",\"type\":\"UsageQuota\",\"relationName\":\"UsageQuotaToUser\"},{\"name\":\"UsageEvent\",\"kind\":\"object\",\"type\":\"UsageEvent\",\"relationName\":\"UsageEventToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"accounts\",\"kind\":\"object\",\"type\":\"Account\",\"relationName\":\"AccountToUser\"},{\"name\":\"AdminAuditLog\",\"kind\":\"object\",\"type\":\"AdminAuditLog\",\"relationName\":\"AdminAuditActor\"}],\"dbName\":\"User\"},\"AdminAuditLog\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"adminUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resourceType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"resourceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousValue\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"newValue\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"AdminUser\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AdminAuditActor\"}],\"dbName\":null},\"StripeWebhookEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"stripeEventId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ResendWebhookEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recipientRef\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"eventAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"processedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"EmailSuppression\":{\"fields\":[{\"name\":\"recipientRef\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"UsageQuota\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"usageType\",\"kind\":\"enum\",\"type\":\"UsageType\"},{\"name\":\"periodStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"periodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"usedCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"limit\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"warningEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"reachedEmailSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UsageQuotaToUser\"}],\"dbName\":null},\"UsageEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"usageType\",\"kind\":\"enum\",\"type\":\"UsageType\"},{\"name\":\"idempotencyKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"occurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"User\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UsageEventToUser\"}],\"dbName\":null},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"}],\"dbName\":\"session\"},\"Account\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accountId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"providerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AccountToUser\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"idToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refreshTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"scope\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"password\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"account\"},\"Verification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"identifier\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"verification\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -214,6 +214,76 @@ export interface PrismaClient<
     */
   get inventoryItem(): Prisma.InventoryItemDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.inventoryMovement`: Exposes CRUD operations for the **InventoryMovement** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InventoryMovements
+    * const inventoryMovements = await prisma.inventoryMovement.findMany()
+    * ```
+    */
+  get inventoryMovement(): Prisma.InventoryMovementDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.productStockLevel`: Exposes CRUD operations for the **ProductStockLevel** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProductStockLevels
+    * const productStockLevels = await prisma.productStockLevel.findMany()
+    * ```
+    */
+  get productStockLevel(): Prisma.ProductStockLevelDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.productPieceWeight`: Exposes CRUD operations for the **ProductPieceWeight** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProductPieceWeights
+    * const productPieceWeights = await prisma.productPieceWeight.findMany()
+    * ```
+    */
+  get productPieceWeight(): Prisma.ProductPieceWeightDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.productPriceRecord`: Exposes CRUD operations for the **ProductPriceRecord** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProductPriceRecords
+    * const productPriceRecords = await prisma.productPriceRecord.findMany()
+    * ```
+    */
+  get productPriceRecord(): Prisma.ProductPriceRecordDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.storageLocation`: Exposes CRUD operations for the **StorageLocation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more StorageLocations
+    * const storageLocations = await prisma.storageLocation.findMany()
+    * ```
+    */
+  get storageLocation(): Prisma.StorageLocationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shelfLifeOverride`: Exposes CRUD operations for the **ShelfLifeOverride** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShelfLifeOverrides
+    * const shelfLifeOverrides = await prisma.shelfLifeOverride.findMany()
+    * ```
+    */
+  get shelfLifeOverride(): Prisma.ShelfLifeOverrideDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.invoiceItemMapping`: Exposes CRUD operations for the **InvoiceItemMapping** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InvoiceItemMappings
+    * const invoiceItemMappings = await prisma.invoiceItemMapping.findMany()
+    * ```
+    */
+  get invoiceItemMapping(): Prisma.InvoiceItemMappingDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.notification`: Exposes CRUD operations for the **Notification** model.
     * Example usage:
@@ -334,6 +404,56 @@ export interface PrismaClient<
     */
   get recipeIngredient(): Prisma.RecipeIngredientDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.household`: Exposes CRUD operations for the **Household** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Households
+    * const households = await prisma.household.findMany()
+    * ```
+    */
+  get household(): Prisma.HouseholdDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.householdMember`: Exposes CRUD operations for the **HouseholdMember** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more HouseholdMembers
+    * const householdMembers = await prisma.householdMember.findMany()
+    * ```
+    */
+  get householdMember(): Prisma.HouseholdMemberDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.householdInvitation`: Exposes CRUD operations for the **HouseholdInvitation** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more HouseholdInvitations
+    * const householdInvitations = await prisma.householdInvitation.findMany()
+    * ```
+    */
+  get householdInvitation(): Prisma.HouseholdInvitationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shoppingList`: Exposes CRUD operations for the **ShoppingList** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShoppingLists
+    * const shoppingLists = await prisma.shoppingList.findMany()
+    * ```
+    */
+  get shoppingList(): Prisma.ShoppingListDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.shoppingListItem`: Exposes CRUD operations for the **ShoppingListItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ShoppingListItems
+    * const shoppingListItems = await prisma.shoppingListItem.findMany()
+    * ```
+    */
+  get shoppingListItem(): Prisma.ShoppingListItemDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.user`: Exposes CRUD operations for the **User** model.
     * Example usage:
@@ -388,6 +388,13 @@ export const ModelName = {
   Category: 'Category',
   Expense: 'Expense',
   InventoryItem: 'InventoryItem',
+  InventoryMovement: 'InventoryMovement',
+  ProductStockLevel: 'ProductStockLevel',
+  ProductPieceWeight: 'ProductPieceWeight',
+  ProductPriceRecord: 'ProductPriceRecord',
+  StorageLocation: 'StorageLocation',
+  ShelfLifeOverride: 'ShelfLifeOverride',
+  InvoiceItemMapping: 'InvoiceItemMapping',
   Notification: 'Notification',
   NotificationDelivery: 'NotificationDelivery',
   NotificationPreferences: 'NotificationPreferences',
@@ -400,6 +407,11 @@ export const ModelName = {
   ReceiptItem: 'ReceiptItem',
   Recipe: 'Recipe',
   RecipeIngredient: 'RecipeIngredient',
+  Household: 'Household',
+  HouseholdMember: 'HouseholdMember',
+  HouseholdInvitation: 'HouseholdInvitation',
+  ShoppingList: 'ShoppingList',
+  ShoppingListItem: 'ShoppingListItem',
   User: 'User',
   AdminAuditLog: 'AdminAuditLog',
   StripeWebhookEvent: 'StripeWebhookEvent',
@@ -425,7 +437,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "budget" | "category" | "expense" | "inventoryItem" | "notification" | "notificationDelivery" | "notificationPreferences" | "emailDigestDelivery" | "product" | "invoice" | "invoiceProcessingEvent" | "invoiceItem" | "receipt" | "receiptItem" | "recipe" | "recipeIngredient" | "user" | "adminAuditLog" | "stripeWebhookEvent" | "resendWebhookEvent" | "emailSuppression" | "usageQuota" | "usageEvent" | "session" | "account" | "verification"
+    modelProps: "budget" | "category" | "expense" | "inventoryItem" | "inventoryMovement" | "productStockLevel" | "productPieceWeight" | "productPriceRecord" | "storageLocation" | "shelfLifeOverride" | "invoiceItemMapping" | "notification" | "notificationDelivery" | "notificationPreferences" | "emailDigestDelivery" | "product" | "invoice" | "invoiceProcessingEvent" | "invoiceItem" | "receipt" | "receiptItem" | "recipe" | "recipeIngredient" | "household" | "householdMember" | "householdInvitation" | "shoppingList" | "shoppingListItem" | "user" | "adminAuditLog" | "stripeWebhookEvent" | "resendWebhookEvent" | "emailSuppression" | "usageQuota" | "usageEvent" | "session" | "account" | "verification"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -725,6 +737,524 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    InventoryMovement: {
+      payload: Prisma.$InventoryMovementPayload<ExtArgs>
+      fields: Prisma.InventoryMovementFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InventoryMovementFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InventoryMovementFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        findFirst: {
+          args: Prisma.InventoryMovementFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InventoryMovementFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        findMany: {
+          args: Prisma.InventoryMovementFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>[]
+        }
+        create: {
+          args: Prisma.InventoryMovementCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        createMany: {
+          args: Prisma.InventoryMovementCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InventoryMovementCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>[]
+        }
+        delete: {
+          args: Prisma.InventoryMovementDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        update: {
+          args: Prisma.InventoryMovementUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        deleteMany: {
+          args: Prisma.InventoryMovementDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InventoryMovementUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InventoryMovementUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>[]
+        }
+        upsert: {
+          args: Prisma.InventoryMovementUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InventoryMovementPayload>
+        }
+        aggregate: {
+          args: Prisma.InventoryMovementAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInventoryMovement>
+        }
+        groupBy: {
+          args: Prisma.InventoryMovementGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryMovementGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InventoryMovementCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InventoryMovementCountAggregateOutputType> | number
+        }
+      }
+    }
+    ProductStockLevel: {
+      payload: Prisma.$ProductStockLevelPayload<ExtArgs>
+      fields: Prisma.ProductStockLevelFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ProductStockLevelFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ProductStockLevelFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload>
+        }
+        findFirst: {
+          args: Prisma.ProductStockLevelFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ProductStockLevelFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload>
+        }
+        findMany: {
+          args: Prisma.ProductStockLevelFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload>[]
+        }
+        create: {
+          args: Prisma.ProductStockLevelCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload>
+        }
+        createMany: {
+          args: Prisma.ProductStockLevelCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ProductStockLevelCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload>[]
+        }
+        delete: {
+          args: Prisma.ProductStockLevelDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload>
+        }
+        update: {
+          args: Prisma.ProductStockLevelUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload>
+        }
+        deleteMany: {
+          args: Prisma.ProductStockLevelDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ProductStockLevelUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ProductStockLevelUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload>[]
+        }
+        upsert: {
+          args: Prisma.ProductStockLevelUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductStockLevelPayload>
+        }
+        aggregate: {
+          args: Prisma.ProductStockLevelAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateProductStockLevel>
+        }
+        groupBy: {
+          args: Prisma.ProductStockLevelGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProductStockLevelGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ProductStockLevelCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProductStockLevelCountAggregateOutputType> | number
+        }
+      }
+    }
+    ProductPieceWeight: {
+      payload: Prisma.$ProductPieceWeightPayload<ExtArgs>
+      fields: Prisma.ProductPieceWeightFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ProductPieceWeightFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ProductPieceWeightFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload>
+        }
+        findFirst: {
+          args: Prisma.ProductPieceWeightFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ProductPieceWeightFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload>
+        }
+        findMany: {
+          args: Prisma.ProductPieceWeightFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload>[]
+        }
+        create: {
+          args: Prisma.ProductPieceWeightCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload>
+        }
+        createMany: {
+          args: Prisma.ProductPieceWeightCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ProductPieceWeightCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload>[]
+        }
+        delete: {
+          args: Prisma.ProductPieceWeightDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload>
+        }
+        update: {
+          args: Prisma.ProductPieceWeightUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload>
+        }
+        deleteMany: {
+          args: Prisma.ProductPieceWeightDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ProductPieceWeightUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ProductPieceWeightUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload>[]
+        }
+        upsert: {
+          args: Prisma.ProductPieceWeightUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPieceWeightPayload>
+        }
+        aggregate: {
+          args: Prisma.ProductPieceWeightAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateProductPieceWeight>
+        }
+        groupBy: {
+          args: Prisma.ProductPieceWeightGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProductPieceWeightGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ProductPieceWeightCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProductPieceWeightCountAggregateOutputType> | number
+        }
+      }
+    }
+    ProductPriceRecord: {
+      payload: Prisma.$ProductPriceRecordPayload<ExtArgs>
+      fields: Prisma.ProductPriceRecordFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ProductPriceRecordFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ProductPriceRecordFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload>
+        }
+        findFirst: {
+          args: Prisma.ProductPriceRecordFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ProductPriceRecordFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload>
+        }
+        findMany: {
+          args: Prisma.ProductPriceRecordFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload>[]
+        }
+        create: {
+          args: Prisma.ProductPriceRecordCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload>
+        }
+        createMany: {
+          args: Prisma.ProductPriceRecordCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ProductPriceRecordCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload>[]
+        }
+        delete: {
+          args: Prisma.ProductPriceRecordDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload>
+        }
+        update: {
+          args: Prisma.ProductPriceRecordUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload>
+        }
+        deleteMany: {
+          args: Prisma.ProductPriceRecordDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ProductPriceRecordUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ProductPriceRecordUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload>[]
+        }
+        upsert: {
+          args: Prisma.ProductPriceRecordUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProductPriceRecordPayload>
+        }
+        aggregate: {
+          args: Prisma.ProductPriceRecordAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateProductPriceRecord>
+        }
+        groupBy: {
+          args: Prisma.ProductPriceRecordGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProductPriceRecordGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ProductPriceRecordCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ProductPriceRecordCountAggregateOutputType> | number
+        }
+      }
+    }
+    StorageLocation: {
+      payload: Prisma.$StorageLocationPayload<ExtArgs>
+      fields: Prisma.StorageLocationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.StorageLocationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.StorageLocationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload>
+        }
+        findFirst: {
+          args: Prisma.StorageLocationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.StorageLocationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload>
+        }
+        findMany: {
+          args: Prisma.StorageLocationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload>[]
+        }
+        create: {
+          args: Prisma.StorageLocationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload>
+        }
+        createMany: {
+          args: Prisma.StorageLocationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.StorageLocationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload>[]
+        }
+        delete: {
+          args: Prisma.StorageLocationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload>
+        }
+        update: {
+          args: Prisma.StorageLocationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload>
+        }
+        deleteMany: {
+          args: Prisma.StorageLocationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.StorageLocationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.StorageLocationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload>[]
+        }
+        upsert: {
+          args: Prisma.StorageLocationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$StorageLocationPayload>
+        }
+        aggregate: {
+          args: Prisma.StorageLocationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateStorageLocation>
+        }
+        groupBy: {
+          args: Prisma.StorageLocationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StorageLocationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.StorageLocationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.StorageLocationCountAggregateOutputType> | number
+        }
+      }
+    }
+    ShelfLifeOverride: {
+      payload: Prisma.$ShelfLifeOverridePayload<ExtArgs>
+      fields: Prisma.ShelfLifeOverrideFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ShelfLifeOverrideFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ShelfLifeOverrideFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload>
+        }
+        findFirst: {
+          args: Prisma.ShelfLifeOverrideFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ShelfLifeOverrideFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload>
+        }
+        findMany: {
+          args: Prisma.ShelfLifeOverrideFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload>[]
+        }
+        create: {
+          args: Prisma.ShelfLifeOverrideCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload>
+        }
+        createMany: {
+          args: Prisma.ShelfLifeOverrideCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ShelfLifeOverrideCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload>[]
+        }
+        delete: {
+          args: Prisma.ShelfLifeOverrideDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload>
+        }
+        update: {
+          args: Prisma.ShelfLifeOverrideUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload>
+        }
+        deleteMany: {
+          args: Prisma.ShelfLifeOverrideDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ShelfLifeOverrideUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ShelfLifeOverrideUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload>[]
+        }
+        upsert: {
+          args: Prisma.ShelfLifeOverrideUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShelfLifeOverridePayload>
+        }
+        aggregate: {
+          args: Prisma.ShelfLifeOverrideAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShelfLifeOverride>
+        }
+        groupBy: {
+          args: Prisma.ShelfLifeOverrideGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShelfLifeOverrideGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ShelfLifeOverrideCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShelfLifeOverrideCountAggregateOutputType> | number
+        }
+      }
+    }
+    InvoiceItemMapping: {
+      payload: Prisma.$InvoiceItemMappingPayload<ExtArgs>
+      fields: Prisma.InvoiceItemMappingFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceItemMappingFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceItemMappingFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceItemMappingFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceItemMappingFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceItemMappingFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceItemMappingCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceItemMappingCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceItemMappingCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceItemMappingDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload>
+        }
+        update: {
+          args: Prisma.InvoiceItemMappingUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceItemMappingDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceItemMappingUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceItemMappingUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceItemMappingUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceItemMappingPayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceItemMappingAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoiceItemMapping>
+        }
+        groupBy: {
+          args: Prisma.InvoiceItemMappingGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceItemMappingGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceItemMappingCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceItemMappingCountAggregateOutputType> | number
+        }
+      }
+    }
     Notification: {
       payload: Prisma.$NotificationPayload<ExtArgs>
       fields: Prisma.NotificationFieldRefs
@@ -1552,64 +2082,434 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
           result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
         }
         findFirst: {
-          args: Prisma.RecipeIngredientFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload> | null
+          args: Prisma.RecipeIngredientFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.RecipeIngredientFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+        }
+        findMany: {
+          args: Prisma.RecipeIngredientFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>[]
+        }
+        create: {
+          args: Prisma.RecipeIngredientCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+        }
+        createMany: {
+          args: Prisma.RecipeIngredientCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.RecipeIngredientCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>[]
+        }
+        delete: {
+          args: Prisma.RecipeIngredientDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+        }
+        update: {
+          args: Prisma.RecipeIngredientUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+        }
+        deleteMany: {
+          args: Prisma.RecipeIngredientDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.RecipeIngredientUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.RecipeIngredientUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>[]
+        }
+        upsert: {
+          args: Prisma.RecipeIngredientUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+        }
+        aggregate: {
+          args: Prisma.RecipeIngredientAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRecipeIngredient>
+        }
+        groupBy: {
+          args: Prisma.RecipeIngredientGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RecipeIngredientGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.RecipeIngredientCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.RecipeIngredientCountAggregateOutputType> | number
+        }
+      }
+    }
+    Household: {
+      payload: Prisma.$HouseholdPayload<ExtArgs>
+      fields: Prisma.HouseholdFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.HouseholdFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.HouseholdFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload>
+        }
+        findFirst: {
+          args: Prisma.HouseholdFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.HouseholdFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload>
+        }
+        findMany: {
+          args: Prisma.HouseholdFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload>[]
+        }
+        create: {
+          args: Prisma.HouseholdCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload>
+        }
+        createMany: {
+          args: Prisma.HouseholdCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.HouseholdCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload>[]
+        }
+        delete: {
+          args: Prisma.HouseholdDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload>
+        }
+        update: {
+          args: Prisma.HouseholdUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload>
+        }
+        deleteMany: {
+          args: Prisma.HouseholdDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.HouseholdUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.HouseholdUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload>[]
+        }
+        upsert: {
+          args: Prisma.HouseholdUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdPayload>
+        }
+        aggregate: {
+          args: Prisma.HouseholdAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateHousehold>
+        }
+        groupBy: {
+          args: Prisma.HouseholdGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.HouseholdGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.HouseholdCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.HouseholdCountAggregateOutputType> | number
+        }
+      }
+    }
+    HouseholdMember: {
+      payload: Prisma.$HouseholdMemberPayload<ExtArgs>
+      fields: Prisma.HouseholdMemberFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.HouseholdMemberFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.HouseholdMemberFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload>
+        }
+        findFirst: {
+          args: Prisma.HouseholdMemberFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.HouseholdMemberFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload>
+        }
+        findMany: {
+          args: Prisma.HouseholdMemberFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload>[]
+        }
+        create: {
+          args: Prisma.HouseholdMemberCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload>
+        }
+        createMany: {
+          args: Prisma.HouseholdMemberCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.HouseholdMemberCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload>[]
+        }
+        delete: {
+          args: Prisma.HouseholdMemberDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload>
+        }
+        update: {
+          args: Prisma.HouseholdMemberUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload>
+        }
+        deleteMany: {
+          args: Prisma.HouseholdMemberDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.HouseholdMemberUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.HouseholdMemberUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload>[]
+        }
+        upsert: {
+          args: Prisma.HouseholdMemberUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdMemberPayload>
+        }
+        aggregate: {
+          args: Prisma.HouseholdMemberAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateHouseholdMember>
+        }
+        groupBy: {
+          args: Prisma.HouseholdMemberGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.HouseholdMemberGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.HouseholdMemberCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.HouseholdMemberCountAggregateOutputType> | number
+        }
+      }
+    }
+    HouseholdInvitation: {
+      payload: Prisma.$HouseholdInvitationPayload<ExtArgs>
+      fields: Prisma.HouseholdInvitationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.HouseholdInvitationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.HouseholdInvitationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload>
+        }
+        findFirst: {
+          args: Prisma.HouseholdInvitationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.HouseholdInvitationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload>
+        }
+        findMany: {
+          args: Prisma.HouseholdInvitationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload>[]
+        }
+        create: {
+          args: Prisma.HouseholdInvitationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload>
+        }
+        createMany: {
+          args: Prisma.HouseholdInvitationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.HouseholdInvitationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload>[]
+        }
+        delete: {
+          args: Prisma.HouseholdInvitationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload>
+        }
+        update: {
+          args: Prisma.HouseholdInvitationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload>
+        }
+        deleteMany: {
+          args: Prisma.HouseholdInvitationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.HouseholdInvitationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.HouseholdInvitationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload>[]
+        }
+        upsert: {
+          args: Prisma.HouseholdInvitationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$HouseholdInvitationPayload>
+        }
+        aggregate: {
+          args: Prisma.HouseholdInvitationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateHouseholdInvitation>
+        }
+        groupBy: {
+          args: Prisma.HouseholdInvitationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.HouseholdInvitationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.HouseholdInvitationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.HouseholdInvitationCountAggregateOutputType> | number
+        }
+      }
+    }
+    ShoppingList: {
+      payload: Prisma.$ShoppingListPayload<ExtArgs>
+      fields: Prisma.ShoppingListFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ShoppingListFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ShoppingListFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload>
+        }
+        findFirst: {
+          args: Prisma.ShoppingListFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ShoppingListFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload>
+        }
+        findMany: {
+          args: Prisma.ShoppingListFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload>[]
+        }
+        create: {
+          args: Prisma.ShoppingListCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload>
+        }
+        createMany: {
+          args: Prisma.ShoppingListCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ShoppingListCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload>[]
+        }
+        delete: {
+          args: Prisma.ShoppingListDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload>
+        }
+        update: {
+          args: Prisma.ShoppingListUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload>
+        }
+        deleteMany: {
+          args: Prisma.ShoppingListDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ShoppingListUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ShoppingListUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload>[]
+        }
+        upsert: {
+          args: Prisma.ShoppingListUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListPayload>
+        }
+        aggregate: {
+          args: Prisma.ShoppingListAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShoppingList>
+        }
+        groupBy: {
+          args: Prisma.ShoppingListGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShoppingListGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ShoppingListCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShoppingListCountAggregateOutputType> | number
+        }
+      }
+    }
+    ShoppingListItem: {
+      payload: Prisma.$ShoppingListItemPayload<ExtArgs>
+      fields: Prisma.ShoppingListItemFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ShoppingListItemFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ShoppingListItemFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload>
+        }
+        findFirst: {
+          args: Prisma.ShoppingListItemFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.RecipeIngredientFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+          args: Prisma.ShoppingListItemFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload>
         }
         findMany: {
-          args: Prisma.RecipeIngredientFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>[]
+          args: Prisma.ShoppingListItemFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload>[]
         }
         create: {
-          args: Prisma.RecipeIngredientCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+          args: Prisma.ShoppingListItemCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload>
         }
         createMany: {
-          args: Prisma.RecipeIngredientCreateManyArgs<ExtArgs>
+          args: Prisma.ShoppingListItemCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.RecipeIngredientCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>[]
+          args: Prisma.ShoppingListItemCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload>[]
         }
         delete: {
-          args: Prisma.RecipeIngredientDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+          args: Prisma.ShoppingListItemDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload>
         }
         update: {
-          args: Prisma.RecipeIngredientUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+          args: Prisma.ShoppingListItemUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload>
         }
         deleteMany: {
-          args: Prisma.RecipeIngredientDeleteManyArgs<ExtArgs>
+          args: Prisma.ShoppingListItemDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.RecipeIngredientUpdateManyArgs<ExtArgs>
+          args: Prisma.ShoppingListItemUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.RecipeIngredientUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>[]
+          args: Prisma.ShoppingListItemUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload>[]
         }
         upsert: {
-          args: Prisma.RecipeIngredientUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecipeIngredientPayload>
+          args: Prisma.ShoppingListItemUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ShoppingListItemPayload>
         }
         aggregate: {
-          args: Prisma.RecipeIngredientAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateRecipeIngredient>
+          args: Prisma.ShoppingListItemAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateShoppingListItem>
         }
         groupBy: {
-          args: Prisma.RecipeIngredientGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.RecipeIngredientGroupByOutputType>[]
+          args: Prisma.ShoppingListItemGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShoppingListItemGroupByOutputType>[]
         }
         count: {
-          args: Prisma.RecipeIngredientCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.RecipeIngredientCountAggregateOutputType> | number
+          args: Prisma.ShoppingListItemCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ShoppingListItemCountAggregateOutputType> | number
         }
       }
     }
@@ -2443,11 +3343,18 @@ export const InventoryItemScalarFieldEnum = {
   quantity: 'quantity',
   expiryDate: 'expiryDate',
   expiryDateSource: 'expiryDateSource',
+  expiryKind: 'expiryKind',
   packageStatus: 'packageStatus',
   preparationStatus: 'preparationStatus',
   purchaseDate: 'purchaseDate',
   purchasePrice: 'purchasePrice',
   storageLocation: 'storageLocation',
+  thawedAt: 'thawedAt',
+  frozenAt: 'frozenAt',
+  stocktakeFlaggedAt: 'stocktakeFlaggedAt',
+  deletedAt: 'deletedAt',
+  recipeId: 'recipeId',
+  invoiceItemId: 'invoiceItemId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   notes: 'notes'
@@ -2456,6 +3363,107 @@ export const InventoryItemScalarFieldEnum = {
 export type InventoryItemScalarFieldEnum = (typeof InventoryItemScalarFieldEnum)[keyof typeof InventoryItemScalarFieldEnum]
 
 
+export const InventoryMovementScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  inventoryItemId: 'inventoryItemId',
+  recipeId: 'recipeId',
+  reason: 'reason',
+  quantityDelta: 'quantityDelta',
+  storageLocation: 'storageLocation',
+  notes: 'notes',
+  wasteReason: 'wasteReason',
+  valueLost: 'valueLost',
+  occurredAt: 'occurredAt'
+} as const
+
+export type InventoryMovementScalarFieldEnum = (typeof InventoryMovementScalarFieldEnum)[keyof typeof InventoryMovementScalarFieldEnum]
+
+
+export const ProductStockLevelScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  minimumQuantity: 'minimumQuantity',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProductStockLevelScalarFieldEnum = (typeof ProductStockLevelScalarFieldEnum)[keyof typeof ProductStockLevelScalarFieldEnum]
+
+
+export const ProductPieceWeightScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  pieceWeight: 'pieceWeight',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProductPieceWeightScalarFieldEnum = (typeof ProductPieceWeightScalarFieldEnum)[keyof typeof ProductPieceWeightScalarFieldEnum]
+
+
+export const ProductPriceRecordScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  source: 'source',
+  invoiceItemId: 'invoiceItemId',
+  merchantName: 'merchantName',
+  quantity: 'quantity',
+  totalPrice: 'totalPrice',
+  purchasedAt: 'purchasedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type ProductPriceRecordScalarFieldEnum = (typeof ProductPriceRecordScalarFieldEnum)[keyof typeof ProductPriceRecordScalarFieldEnum]
+
+
+export const StorageLocationScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  storageGroup: 'storageGroup',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type StorageLocationScalarFieldEnum = (typeof StorageLocationScalarFieldEnum)[keyof typeof StorageLocationScalarFieldEnum]
+
+
+export const ShelfLifeOverrideScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  label: 'label',
+  keywords: 'keywords',
+  daysByStorage: 'daysByStorage',
+  defaultDays: 'defaultDays',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShelfLifeOverrideScalarFieldEnum = (typeof ShelfLifeOverrideScalarFieldEnum)[keyof typeof ShelfLifeOverrideScalarFieldEnum]
+
+
+export const InvoiceItemMappingScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  merchantKey: 'merchantKey',
+  detectedNameKey: 'detectedNameKey',
+  productId: 'productId',
+  category: 'category',
+  storageLocation: 'storageLocation',
+  selectedEan: 'selectedEan',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type InvoiceItemMappingScalarFieldEnum = (typeof InvoiceItemMappingScalarFieldEnum)[keyof typeof InvoiceItemMappingScalarFieldEnum]
+
+
 export const NotificationScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -2504,6 +3512,7 @@ export const NotificationPreferencesScalarFieldEnum = {
   dailyDigestEnabled: 'dailyDigestEnabled',
   expiry: 'expiry',
   budget: 'budget',
+  lowStock: 'lowStock',
   system: 'system',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -2544,7 +3553,8 @@ export const ProductScalarFieldEnum = {
   externalId: 'externalId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  ingredients: 'ingredients'
+  ingredients: 'ingredients',
+  allergens: 'allergens'
 } as const
 
 export type ProductScalarFieldEnum = (typeof ProductScalarFieldEnum)[keyof typeof ProductScalarFieldEnum]
@@ -2571,6 +3581,9 @@ export const InvoiceScalarFieldEnum = {
   analysisConfidence: 'analysisConfidence',
   processingTime: 'processingTime',
   errorMessage: 'errorMessage',
+  fileHash: 'fileHash',
+  duplicateOfId: 'duplicateOfId',
+  duplicateAllowed: 'duplicateAllowed',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -2599,6 +3612,8 @@ export const InvoiceItemScalarFieldEnum = {
   invoiceId: 'invoiceId',
   productId: 'productId',
   detectedName: 'detectedName',
+  originalDetectedName: 'originalDetectedName',
+  resolvedFromHistory: 'resolvedFromHistory',
   quantity: 'quantity',
   unitPrice: 'unitPrice',
   totalPrice: 'totalPrice',
@@ -2706,6 +3721,7 @@ export const RecipeIngredientScalarFieldEnum = {
   name: 'name',
   quantity: 'quantity',
   unit: 'unit',
+  unitType: 'unitType',
   notes: 'notes',
   source: 'source'
 } as const
@@ -2713,6 +3729,71 @@ export const RecipeIngredientScalarFieldEnum = {
 export type RecipeIngredientScalarFieldEnum = (typeof RecipeIngredientScalarFieldEnum)[keyof typeof RecipeIngredientScalarFieldEnum]
 
 
+export const HouseholdScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  ownerId: 'ownerId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type HouseholdScalarFieldEnum = (typeof HouseholdScalarFieldEnum)[keyof typeof HouseholdScalarFieldEnum]
+
+
+export const HouseholdMemberScalarFieldEnum = {
+  id: 'id',
+  householdId: 'householdId',
+  userId: 'userId',
+  role: 'role',
+  joinedAt: 'joinedAt'
+} as const
+
+export type HouseholdMemberScalarFieldEnum = (typeof HouseholdMemberScalarFieldEnum)[keyof typeof HouseholdMemberScalarFieldEnum]
+
+
+export const HouseholdInvitationScalarFieldEnum = {
+  id: 'id',
+  householdId: 'householdId',
+  email: 'email',
+  role: 'role',
+  token: 'token',
+  invitedById: 'invitedById',
+  expiresAt: 'expiresAt',
+  acceptedAt: 'acceptedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type HouseholdInvitationScalarFieldEnum = (typeof HouseholdInvitationScalarFieldEnum)[keyof typeof HouseholdInvitationScalarFieldEnum]
+
+
+export const ShoppingListScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShoppingListScalarFieldEnum = (typeof ShoppingListScalarFieldEnum)[keyof typeof ShoppingListScalarFieldEnum]
+
+
+export const ShoppingListItemScalarFieldEnum = {
+  id: 'id',
+  shoppingListId: 'shoppingListId',
+  productId: 'productId',
+  recipeId: 'recipeId',
+  name: 'name',
+  quantity: 'quantity',
+  unit: 'unit',
+  notes: 'notes',
+  source: 'source',
+  checkedAt: 'checkedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShoppingListItemScalarFieldEnum = (typeof ShoppingListItemScalarFieldEnum)[keyof typeof ShoppingListItemScalarFieldEnum]
+
+
 export const UserScalarFieldEnum = {
   id: 'id',
   email: 'email',
@@ -2751,7 +3832,9 @@ export const UserScalarFieldEnum = {
   cancelAtPeriodEnd: 'cancelAtPeriodEnd',
   subscriptionCancelledAt: 'subscriptionCancelledAt',
   lastStripeEventAt: 'lastStripeEventAt',
-  avatarUrl: 'avatarUrl'
+  avatarUrl: 'avatarUrl',
+  activeHouseholdId: 'activeHouseholdId',
+  storageLocationsSeededAt: 'storageLocationsSeededAt'
 } as const
 
 export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
@@ -2891,19 +3974,19 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
-export const NullableJsonNullValueInput = {
-  DbNull: DbNull,
+export const JsonNullValueInput = {
   JsonNull: JsonNull
 } as const
 
-export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
 
 
-export const JsonNullValueInput = {
+export const NullableJsonNullValueInput = {
+  DbNull: DbNull,
   JsonNull: JsonNull
 } as const
 
-export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
 
 
 export const QueryMode = {
@@ -3000,6 +4083,20 @@ export type ListEnumExpiryDateSourceFieldRefInput<$PrismaModel> = FieldRefInputT
     
 
 
+/**
+ * Reference to a field of type 'ExpiryKind'
+ */
+export type EnumExpiryKindFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ExpiryKind'>
+    
+
+
+/**
+ * Reference to a field of type 'ExpiryKind[]'
+ */
+export type ListEnumExpiryKindFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ExpiryKind[]'>
+    
+
+
 /**
  * Reference to a field of type 'PackageStatus'
  */
@@ -3029,16 +4126,58 @@ export type ListEnumPreparationStatusFieldRefInput<$PrismaModel> = FieldRefInput
 
 
 /**
- * Reference to a field of type 'NotificationType'
+ * Reference to a field of type 'InventoryMovementReason'
  */
-export type EnumNotificationTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NotificationType'>
+export type EnumInventoryMovementReasonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InventoryMovementReason'>
     
 
 
 /**
- * Reference to a field of type 'NotificationType[]'
+ * Reference to a field of type 'InventoryMovementReason[]'
  */
-export type ListEnumNotificationTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NotificationType[]'>
+export type ListEnumInventoryMovementReasonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InventoryMovementReason[]'>
+    
+
+
+/**
+ * Reference to a field of type 'WasteReason'
+ */
+export type EnumWasteReasonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WasteReason'>
+    
+
+
+/**
+ * Reference to a field of type 'WasteReason[]'
+ */
+export type ListEnumWasteReasonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WasteReason[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ProductPriceSource'
+ */
+export type EnumProductPriceSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ProductPriceSource'>
+    
+
+
+/**
+ * Reference to a field of type 'ProductPriceSource[]'
+ */
+export type ListEnumProductPriceSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ProductPriceSource[]'>
+    
+
+
+/**
+ * Reference to a field of type 'Json'
+ */
+export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
+    
+
+
+/**
+ * Reference to a field of type 'QueryMode'
+ */
+export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
     
 
 
@@ -3056,6 +4195,20 @@ export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel,
     
 
 
+/**
+ * Reference to a field of type 'NotificationType'
+ */
+export type EnumNotificationTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NotificationType'>
+    
+
+
+/**
+ * Reference to a field of type 'NotificationType[]'
+ */
+export type ListEnumNotificationTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NotificationType[]'>
+    
+
+
 /**
  * Reference to a field of type 'NotificationChannel'
  */
@@ -3140,20 +4293,6 @@ export type ListEnumUnitTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$Pri
     
 
 
-/**
- * Reference to a field of type 'Json'
- */
-export type JsonFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Json'>
-    
-
-
-/**
- * Reference to a field of type 'QueryMode'
- */
-export type EnumQueryModeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'QueryMode'>
-    
-
-
 /**
  * Reference to a field of type 'InvoiceStatus'
  */
@@ -3280,6 +4419,34 @@ export type ListEnumRecipeIngredientSourceFieldRefInput<$PrismaModel> = FieldRef
     
 
 
+/**
+ * Reference to a field of type 'HouseholdRole'
+ */
+export type EnumHouseholdRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'HouseholdRole'>
+    
+
+
+/**
+ * Reference to a field of type 'HouseholdRole[]'
+ */
+export type ListEnumHouseholdRoleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'HouseholdRole[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ShoppingListItemSource'
+ */
+export type EnumShoppingListItemSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ShoppingListItemSource'>
+    
+
+
+/**
+ * Reference to a field of type 'ShoppingListItemSource[]'
+ */
+export type ListEnumShoppingListItemSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ShoppingListItemSource[]'>
+    
+
+
 /**
  * Reference to a field of type 'PrimaryGoal'
  */
@@ -3476,6 +4643,13 @@ export type GlobalOmitConfig = {
   category?: Prisma.CategoryOmit
   expense?: Prisma.ExpenseOmit
   inventoryItem?: Prisma.InventoryItemOmit
+  inventoryMovement?: Prisma.InventoryMovementOmit
+  productStockLevel?: Prisma.ProductStockLevelOmit
+  productPieceWeight?: Prisma.ProductPieceWeightOmit
+  productPriceRecord?: Prisma.ProductPriceRecordOmit
+  storageLocation?: Prisma.StorageLocationOmit
+  shelfLifeOverride?: Prisma.ShelfLifeOverrideOmit
+  invoiceItemMapping?: Prisma.InvoiceItemMappingOmit
   notification?: Prisma.NotificationOmit
   notificationDelivery?: Prisma.NotificationDeliveryOmit
   notificationPreferences?: Prisma.NotificationPreferencesOmit
@@ -3488,6 +4662,11 @@ export type GlobalOmitConfig = {
   receiptItem?: Prisma.ReceiptItemOmit
   recipe?: Prisma.RecipeOmit
   recipeIngredient?: Prisma.RecipeIngredientOmit
+  household?: Prisma.HouseholdOmit
+  householdMember?: Prisma.HouseholdMemberOmit
+  householdInvitation?: Prisma.HouseholdInvitationOmit
+  shoppingList?: Prisma.ShoppingListOmit
+  shoppingListItem?: Prisma.ShoppingListItemOmit
   user?: Prisma.UserOmit
   adminAuditLog?: Prisma.AdminAuditLogOmit
   stripeWebhookEvent?: Prisma.StripeWebhookEventOmit
@@ -55,6 +55,13 @@ export const ModelName = {
   Category: 'Category',
   Expense: 'Expense',
   InventoryItem: 'InventoryItem',
+  InventoryMovement: 'InventoryMovement',
+  ProductStockLevel: 'ProductStockLevel',
+  ProductPieceWeight: 'ProductPieceWeight',
+  ProductPriceRecord: 'ProductPriceRecord',
+  StorageLocation: 'StorageLocation',
+  ShelfLifeOverride: 'ShelfLifeOverride',
+  InvoiceItemMapping: 'InvoiceItemMapping',
   Notification: 'Notification',
   NotificationDelivery: 'NotificationDelivery',
   NotificationPreferences: 'NotificationPreferences',
@@ -67,6 +74,11 @@ export const ModelName = {
   ReceiptItem: 'ReceiptItem',
   Recipe: 'Recipe',
   RecipeIngredient: 'RecipeIngredient',
+  Household: 'Household',
+  HouseholdMember: 'HouseholdMember',
+  HouseholdInvitation: 'HouseholdInvitation',
+  ShoppingList: 'ShoppingList',
+  ShoppingListItem: 'ShoppingListItem',
   User: 'User',
   AdminAuditLog: 'AdminAuditLog',
   StripeWebhookEvent: 'StripeWebhookEvent',
@@ -146,11 +158,18 @@ export const InventoryItemScalarFieldEnum = {
   quantity: 'quantity',
   expiryDate: 'expiryDate',
   expiryDateSource: 'expiryDateSource',
+  expiryKind: 'expiryKind',
   packageStatus: 'packageStatus',
   preparationStatus: 'preparationStatus',
   purchaseDate: 'purchaseDate',
   purchasePrice: 'purchasePrice',
   storageLocation: 'storageLocation',
+  thawedAt: 'thawedAt',
+  frozenAt: 'frozenAt',
+  stocktakeFlaggedAt: 'stocktakeFlaggedAt',
+  deletedAt: 'deletedAt',
+  recipeId: 'recipeId',
+  invoiceItemId: 'invoiceItemId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   notes: 'notes'
@@ -159,6 +178,107 @@ export const InventoryItemScalarFieldEnum = {
 export type InventoryItemScalarFieldEnum = (typeof InventoryItemScalarFieldEnum)[keyof typeof InventoryItemScalarFieldEnum]
 
 
+export const InventoryMovementScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  inventoryItemId: 'inventoryItemId',
+  recipeId: 'recipeId',
+  reason: 'reason',
+  quantityDelta: 'quantityDelta',
+  storageLocation: 'storageLocation',
+  notes: 'notes',
+  wasteReason: 'wasteReason',
+  valueLost: 'valueLost',
+  occurredAt: 'occurredAt'
+} as const
+
+export type InventoryMovementScalarFieldEnum = (typeof InventoryMovementScalarFieldEnum)[keyof typeof InventoryMovementScalarFieldEnum]
+
+
+export const ProductStockLevelScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  minimumQuantity: 'minimumQuantity',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProductStockLevelScalarFieldEnum = (typeof ProductStockLevelScalarFieldEnum)[keyof typeof ProductStockLevelScalarFieldEnum]
+
+
+export const ProductPieceWeightScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  pieceWeight: 'pieceWeight',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ProductPieceWeightScalarFieldEnum = (typeof ProductPieceWeightScalarFieldEnum)[keyof typeof ProductPieceWeightScalarFieldEnum]
+
+
+export const ProductPriceRecordScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  source: 'source',
+  invoiceItemId: 'invoiceItemId',
+  merchantName: 'merchantName',
+  quantity: 'quantity',
+  totalPrice: 'totalPrice',
+  purchasedAt: 'purchasedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type ProductPriceRecordScalarFieldEnum = (typeof ProductPriceRecordScalarFieldEnum)[keyof typeof ProductPriceRecordScalarFieldEnum]
+
+
+export const StorageLocationScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  name: 'name',
+  storageGroup: 'storageGroup',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type StorageLocationScalarFieldEnum = (typeof StorageLocationScalarFieldEnum)[keyof typeof StorageLocationScalarFieldEnum]
+
+
+export const ShelfLifeOverrideScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  productId: 'productId',
+  label: 'label',
+  keywords: 'keywords',
+  daysByStorage: 'daysByStorage',
+  defaultDays: 'defaultDays',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShelfLifeOverrideScalarFieldEnum = (typeof ShelfLifeOverrideScalarFieldEnum)[keyof typeof ShelfLifeOverrideScalarFieldEnum]
+
+
+export const InvoiceItemMappingScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  merchantKey: 'merchantKey',
+  detectedNameKey: 'detectedNameKey',
+  productId: 'productId',
+  category: 'category',
+  storageLocation: 'storageLocation',
+  selectedEan: 'selectedEan',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type InvoiceItemMappingScalarFieldEnum = (typeof InvoiceItemMappingScalarFieldEnum)[keyof typeof InvoiceItemMappingScalarFieldEnum]
+
+
 export const NotificationScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
@@ -207,6 +327,7 @@ export const NotificationPreferencesScalarFieldEnum = {
   dailyDigestEnabled: 'dailyDigestEnabled',
   expiry: 'expiry',
   budget: 'budget',
+  lowStock: 'lowStock',
   system: 'system',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -247,7 +368,8 @@ export const ProductScalarFieldEnum = {
   externalId: 'externalId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  ingredients: 'ingredients'
+  ingredients: 'ingredients',
+  allergens: 'allergens'
 } as const
 
 export type ProductScalarFieldEnum = (typeof ProductScalarFieldEnum)[keyof typeof ProductScalarFieldEnum]
@@ -274,6 +396,9 @@ export const InvoiceScalarFieldEnum = {
   analysisConfidence: 'analysisConfidence',
   processingTime: 'processingTime',
   errorMessage: 'errorMessage',
+  fileHash: 'fileHash',
+  duplicateOfId: 'duplicateOfId',
+  duplicateAllowed: 'duplicateAllowed',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -302,6 +427,8 @@ export const InvoiceItemScalarFieldEnum = {
   invoiceId: 'invoiceId',
   productId: 'productId',
   detectedName: 'detectedName',
+  originalDetectedName: 'originalDetectedName',
+  resolvedFromHistory: 'resolvedFromHistory',
   quantity: 'quantity',
   unitPrice: 'unitPrice',
   totalPrice: 'totalPrice',
@@ -409,6 +536,7 @@ export const RecipeIngredientScalarFieldEnum = {
   name: 'name',
   quantity: 'quantity',
   unit: 'unit',
+  unitType: 'unitType',
   notes: 'notes',
   source: 'source'
 } as const
@@ -416,6 +544,71 @@ export const RecipeIngredientScalarFieldEnum = {
 export type RecipeIngredientScalarFieldEnum = (typeof RecipeIngredientScalarFieldEnum)[keyof typeof RecipeIngredientScalarFieldEnum]
 
 
+export const HouseholdScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  ownerId: 'ownerId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type HouseholdScalarFieldEnum = (typeof HouseholdScalarFieldEnum)[keyof typeof HouseholdScalarFieldEnum]
+
+
+export const HouseholdMemberScalarFieldEnum = {
+  id: 'id',
+  householdId: 'householdId',
+  userId: 'userId',
+  role: 'role',
+  joinedAt: 'joinedAt'
+} as const
+
+export type HouseholdMemberScalarFieldEnum = (typeof HouseholdMemberScalarFieldEnum)[keyof typeof HouseholdMemberScalarFieldEnum]
+
+
+export const HouseholdInvitationScalarFieldEnum = {
+  id: 'id',
+  householdId: 'householdId',
+  email: 'email',
+  role: 'role',
+  token: 'token',
+  invitedById: 'invitedById',
+  expiresAt: 'expiresAt',
+  acceptedAt: 'acceptedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type HouseholdInvitationScalarFieldEnum = (typeof HouseholdInvitationScalarFieldEnum)[keyof typeof HouseholdInvitationScalarFieldEnum]
+
+
+export const ShoppingListScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShoppingListScalarFieldEnum = (typeof ShoppingListScalarFieldEnum)[keyof typeof ShoppingListScalarFieldEnum]
+
+
+export const ShoppingListItemScalarFieldEnum = {
+  id: 'id',
+  shoppingListId: 'shoppingListId',
+  productId: 'productId',
+  recipeId: 'recipeId',
+  name: 'name',
+  quantity: 'quantity',
+  unit: 'unit',
+  notes: 'notes',
+  source: 'source',
+  checkedAt: 'checkedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ShoppingListItemScalarFieldEnum = (typeof ShoppingListItemScalarFieldEnum)[keyof typeof ShoppingListItemScalarFieldEnum]
+
+
 export const UserScalarFieldEnum = {
   id: 'id',
   email: 'email',
@@ -454,7 +647,9 @@ export const UserScalarFieldEnum = {
   cancelAtPeriodEnd: 'cancelAtPeriodEnd',
   subscriptionCancelledAt: 'subscriptionCancelledAt',
   lastStripeEventAt: 'lastStripeEventAt',
-  avatarUrl: 'avatarUrl'
+  avatarUrl: 'avatarUrl',
+  activeHouseholdId: 'activeHouseholdId',
+  storageLocationsSeededAt: 'storageLocationsSeededAt'
 } as const
 
 export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
@@ -594,19 +789,19 @@ export const SortOrder = {
 export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
 
 
-export const NullableJsonNullValueInput = {
-  DbNull: 'DbNull',
+export const JsonNullValueInput = {
   JsonNull: 'JsonNull'
 } as const
 
-export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
 
 
-export const JsonNullValueInput = {
+export const NullableJsonNullValueInput = {
+  DbNull: 'DbNull',
   JsonNull: 'JsonNull'
 } as const
 
-export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
 
 
 export const QueryMode = {
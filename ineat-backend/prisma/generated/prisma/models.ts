@@ -12,6 +12,13 @@ export type * from './models/Budget'
 export type * from './models/Category'
 export type * from './models/Expense'
 export type * from './models/InventoryItem'
+export type * from './models/InventoryMovement'
+export type * from './models/ProductStockLevel'
+export type * from './models/ProductPieceWeight'
+export type * from './models/ProductPriceRecord'
+export type * from './models/StorageLocation'
+export type * from './models/ShelfLifeOverride'
+export type * from './models/InvoiceItemMapping'
 export type * from './models/Notification'
 export type * from './models/NotificationDelivery'
 export type * from './models/NotificationPreferences'
@@ -24,6 +31,11 @@ export type * from './models/Receipt'
 export type * from './models/ReceiptItem'
 export type * from './models/Recipe'
 export type * from './models/RecipeIngredient'
+export type * from './models/Household'
+export type * from './models/HouseholdMember'
+export type * from './models/HouseholdInvitation'
+export type * from './models/ShoppingList'
+export type * from './models/ShoppingListItem'
 export type * from './models/User'
 export type * from './models/AdminAuditLog'
 export type * from './models/StripeWebhookEvent'
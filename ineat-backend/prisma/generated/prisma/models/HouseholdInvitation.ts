@@ -0,0 +1,1624 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `HouseholdInvitation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model HouseholdInvitation
+ * 
+ */
+export type HouseholdInvitationModel = runtime.Types.Result.DefaultSelection<Prisma.$HouseholdInvitationPayload>
+
+export type AggregateHouseholdInvitation = {
+  _count: HouseholdInvitationCountAggregateOutputType | null
+  _min: HouseholdInvitationMinAggregateOutputType | null
+  _max: HouseholdInvitationMaxAggregateOutputType | null
+}
+
+export type HouseholdInvitationMinAggregateOutputType = {
+  id: string | null
+  householdId: string | null
+  email: string | null
+  role: $Enums.HouseholdRole | null
+  token: string | null
+  invitedById: string | null
+  expiresAt: Date | null
+  acceptedAt: Date | null
+  createdAt: Date | null
+}
+
+export type HouseholdInvitationMaxAggregateOutputType = {
+  id: string | null
+  householdId: string | null
+  email: string | null
+  role: $Enums.HouseholdRole | null
+  token: string | null
+  invitedById: string | null
+  expiresAt: Date | null
+  acceptedAt: Date | null
+  createdAt: Date | null
+}
+
+export type HouseholdInvitationCountAggregateOutputType = {
+  id: number
+  householdId: number
+  email: number
+  role: number
+  token: number
+  invitedById: number
+  expiresAt: number
+  acceptedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type HouseholdInvitationMinAggregateInputType = {
+  id?: true
+  householdId?: true
+  email?: true
+  role?: true
+  token?: true
+  invitedById?: true
+  expiresAt?: true
+  acceptedAt?: true
+  createdAt?: true
+}
+
+export type HouseholdInvitationMaxAggregateInputType = {
+  id?: true
+  householdId?: true
+  email?: true
+  role?: true
+  token?: true
+  invitedById?: true
+  expiresAt?: true
+  acceptedAt?: true
+  createdAt?: true
+}
+
+export type HouseholdInvitationCountAggregateInputType = {
+  id?: true
+  householdId?: true
+  email?: true
+  role?: true
+  token?: true
+  invitedById?: true
+  expiresAt?: true
+  acceptedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type HouseholdInvitationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which HouseholdInvitation to aggregate.
+   */
+  where?: Prisma.HouseholdInvitationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of HouseholdInvitations to fetch.
+   */
+  orderBy?: Prisma.HouseholdInvitationOrderByWithRelationInput | Prisma.HouseholdInvitationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.HouseholdInvitationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` HouseholdInvitations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` HouseholdInvitations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned HouseholdInvitations
+  **/
+  _count?: true | HouseholdInvitationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: HouseholdInvitationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: HouseholdInvitationMaxAggregateInputType
+}
+
+export type GetHouseholdInvitationAggregateType<T extends HouseholdInvitationAggregateArgs> = {
+      [P in keyof T & keyof AggregateHouseholdInvitation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateHouseholdInvitation[P]>
+    : Prisma.GetScalarType<T[P], AggregateHouseholdInvitation[P]>
+}
+
+
+
+
+export type HouseholdInvitationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.HouseholdInvitationWhereInput
+  orderBy?: Prisma.HouseholdInvitationOrderByWithAggregationInput | Prisma.HouseholdInvitationOrderByWithAggregationInput[]
+  by: Prisma.HouseholdInvitationScalarFieldEnum[] | Prisma.HouseholdInvitationScalarFieldEnum
+  having?: Prisma.HouseholdInvitationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: HouseholdInvitationCountAggregateInputType | true
+  _min?: HouseholdInvitationMinAggregateInputType
+  _max?: HouseholdInvitationMaxAggregateInputType
+}
+
+export type HouseholdInvitationGroupByOutputType = {
+  id: string
+  householdId: string
+  email: string
+  role: $Enums.HouseholdRole
+  token: string
+  invitedById: string
+  expiresAt: Date
+  acceptedAt: Date | null
+  createdAt: Date
+  _count: HouseholdInvitationCountAggregateOutputType | null
+  _min: HouseholdInvitationMinAggregateOutputType | null
+  _max: HouseholdInvitationMaxAggregateOutputType | null
+}
+
+type GetHouseholdInvitationGroupByPayload<T extends HouseholdInvitationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<HouseholdInvitationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof HouseholdInvitationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], HouseholdInvitationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], HouseholdInvitationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type HouseholdInvitationWhereInput = {
+  AND?: Prisma.HouseholdInvitationWhereInput | Prisma.HouseholdInvitationWhereInput[]
+  OR?: Prisma.HouseholdInvitationWhereInput[]
+  NOT?: Prisma.HouseholdInvitationWhereInput | Prisma.HouseholdInvitationWhereInput[]
+  id?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  householdId?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  email?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  role?: Prisma.EnumHouseholdRoleFilter<"HouseholdInvitation"> | $Enums.HouseholdRole
+  token?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  invitedById?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  expiresAt?: Prisma.DateTimeFilter<"HouseholdInvitation"> | Date | string
+  acceptedAt?: Prisma.DateTimeNullableFilter<"HouseholdInvitation"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"HouseholdInvitation"> | Date | string
+  Household?: Prisma.XOR<Prisma.HouseholdScalarRelationFilter, Prisma.HouseholdWhereInput>
+  InvitedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type HouseholdInvitationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  Household?: Prisma.HouseholdOrderByWithRelationInput
+  InvitedBy?: Prisma.UserOrderByWithRelationInput
+}
+
+export type HouseholdInvitationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  token?: string
+  AND?: Prisma.HouseholdInvitationWhereInput | Prisma.HouseholdInvitationWhereInput[]
+  OR?: Prisma.HouseholdInvitationWhereInput[]
+  NOT?: Prisma.HouseholdInvitationWhereInput | Prisma.HouseholdInvitationWhereInput[]
+  householdId?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  email?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  role?: Prisma.EnumHouseholdRoleFilter<"HouseholdInvitation"> | $Enums.HouseholdRole
+  invitedById?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  expiresAt?: Prisma.DateTimeFilter<"HouseholdInvitation"> | Date | string
+  acceptedAt?: Prisma.DateTimeNullableFilter<"HouseholdInvitation"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"HouseholdInvitation"> | Date | string
+  Household?: Prisma.XOR<Prisma.HouseholdScalarRelationFilter, Prisma.HouseholdWhereInput>
+  InvitedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "token">
+
+export type HouseholdInvitationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.HouseholdInvitationCountOrderByAggregateInput
+  _max?: Prisma.HouseholdInvitationMaxOrderByAggregateInput
+  _min?: Prisma.HouseholdInvitationMinOrderByAggregateInput
+}
+
+export type HouseholdInvitationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.HouseholdInvitationScalarWhereWithAggregatesInput | Prisma.HouseholdInvitationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.HouseholdInvitationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.HouseholdInvitationScalarWhereWithAggregatesInput | Prisma.HouseholdInvitationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"HouseholdInvitation"> | string
+  householdId?: Prisma.StringWithAggregatesFilter<"HouseholdInvitation"> | string
+  email?: Prisma.StringWithAggregatesFilter<"HouseholdInvitation"> | string
+  role?: Prisma.EnumHouseholdRoleWithAggregatesFilter<"HouseholdInvitation"> | $Enums.HouseholdRole
+  token?: Prisma.StringWithAggregatesFilter<"HouseholdInvitation"> | string
+  invitedById?: Prisma.StringWithAggregatesFilter<"HouseholdInvitation"> | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"HouseholdInvitation"> | Date | string
+  acceptedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"HouseholdInvitation"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"HouseholdInvitation"> | Date | string
+}
+
+export type HouseholdInvitationCreateInput = {
+  id: string
+  email: string
+  role?: $Enums.HouseholdRole
+  token: string
+  expiresAt: Date | string
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+  Household: Prisma.HouseholdCreateNestedOneWithoutHouseholdInvitationInput
+  InvitedBy: Prisma.UserCreateNestedOneWithoutHouseholdInvitationInput
+}
+
+export type HouseholdInvitationUncheckedCreateInput = {
+  id: string
+  householdId: string
+  email: string
+  role?: $Enums.HouseholdRole
+  token: string
+  invitedById: string
+  expiresAt: Date | string
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type HouseholdInvitationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Household?: Prisma.HouseholdUpdateOneRequiredWithoutHouseholdInvitationNestedInput
+  InvitedBy?: Prisma.UserUpdateOneRequiredWithoutHouseholdInvitationNestedInput
+}
+
+export type HouseholdInvitationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  householdId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdInvitationCreateManyInput = {
+  id: string
+  householdId: string
+  email: string
+  role?: $Enums.HouseholdRole
+  token: string
+  invitedById: string
+  expiresAt: Date | string
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type HouseholdInvitationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdInvitationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  householdId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdInvitationListRelationFilter = {
+  every?: Prisma.HouseholdInvitationWhereInput
+  some?: Prisma.HouseholdInvitationWhereInput
+  none?: Prisma.HouseholdInvitationWhereInput
+}
+
+export type HouseholdInvitationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type HouseholdInvitationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type HouseholdInvitationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type HouseholdInvitationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  email?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  token?: Prisma.SortOrder
+  invitedById?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  acceptedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type HouseholdInvitationCreateNestedManyWithoutHouseholdInput = {
+  create?: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutHouseholdInput, Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput> | Prisma.HouseholdInvitationCreateWithoutHouseholdInput[] | Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput[]
+  connectOrCreate?: Prisma.HouseholdInvitationCreateOrConnectWithoutHouseholdInput | Prisma.HouseholdInvitationCreateOrConnectWithoutHouseholdInput[]
+  createMany?: Prisma.HouseholdInvitationCreateManyHouseholdInputEnvelope
+  connect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+}
+
+export type HouseholdInvitationUncheckedCreateNestedManyWithoutHouseholdInput = {
+  create?: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutHouseholdInput, Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput> | Prisma.HouseholdInvitationCreateWithoutHouseholdInput[] | Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput[]
+  connectOrCreate?: Prisma.HouseholdInvitationCreateOrConnectWithoutHouseholdInput | Prisma.HouseholdInvitationCreateOrConnectWithoutHouseholdInput[]
+  createMany?: Prisma.HouseholdInvitationCreateManyHouseholdInputEnvelope
+  connect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+}
+
+export type HouseholdInvitationUpdateManyWithoutHouseholdNestedInput = {
+  create?: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutHouseholdInput, Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput> | Prisma.HouseholdInvitationCreateWithoutHouseholdInput[] | Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput[]
+  connectOrCreate?: Prisma.HouseholdInvitationCreateOrConnectWithoutHouseholdInput | Prisma.HouseholdInvitationCreateOrConnectWithoutHouseholdInput[]
+  upsert?: Prisma.HouseholdInvitationUpsertWithWhereUniqueWithoutHouseholdInput | Prisma.HouseholdInvitationUpsertWithWhereUniqueWithoutHouseholdInput[]
+  createMany?: Prisma.HouseholdInvitationCreateManyHouseholdInputEnvelope
+  set?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  disconnect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  delete?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  connect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  update?: Prisma.HouseholdInvitationUpdateWithWhereUniqueWithoutHouseholdInput | Prisma.HouseholdInvitationUpdateWithWhereUniqueWithoutHouseholdInput[]
+  updateMany?: Prisma.HouseholdInvitationUpdateManyWithWhereWithoutHouseholdInput | Prisma.HouseholdInvitationUpdateManyWithWhereWithoutHouseholdInput[]
+  deleteMany?: Prisma.HouseholdInvitationScalarWhereInput | Prisma.HouseholdInvitationScalarWhereInput[]
+}
+
+export type HouseholdInvitationUncheckedUpdateManyWithoutHouseholdNestedInput = {
+  create?: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutHouseholdInput, Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput> | Prisma.HouseholdInvitationCreateWithoutHouseholdInput[] | Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput[]
+  connectOrCreate?: Prisma.HouseholdInvitationCreateOrConnectWithoutHouseholdInput | Prisma.HouseholdInvitationCreateOrConnectWithoutHouseholdInput[]
+  upsert?: Prisma.HouseholdInvitationUpsertWithWhereUniqueWithoutHouseholdInput | Prisma.HouseholdInvitationUpsertWithWhereUniqueWithoutHouseholdInput[]
+  createMany?: Prisma.HouseholdInvitationCreateManyHouseholdInputEnvelope
+  set?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  disconnect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  delete?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  connect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  update?: Prisma.HouseholdInvitationUpdateWithWhereUniqueWithoutHouseholdInput | Prisma.HouseholdInvitationUpdateWithWhereUniqueWithoutHouseholdInput[]
+  updateMany?: Prisma.HouseholdInvitationUpdateManyWithWhereWithoutHouseholdInput | Prisma.HouseholdInvitationUpdateManyWithWhereWithoutHouseholdInput[]
+  deleteMany?: Prisma.HouseholdInvitationScalarWhereInput | Prisma.HouseholdInvitationScalarWhereInput[]
+}
+
+export type HouseholdInvitationCreateNestedManyWithoutInvitedByInput = {
+  create?: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutInvitedByInput, Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput> | Prisma.HouseholdInvitationCreateWithoutInvitedByInput[] | Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput[]
+  connectOrCreate?: Prisma.HouseholdInvitationCreateOrConnectWithoutInvitedByInput | Prisma.HouseholdInvitationCreateOrConnectWithoutInvitedByInput[]
+  createMany?: Prisma.HouseholdInvitationCreateManyInvitedByInputEnvelope
+  connect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+}
+
+export type HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput = {
+  create?: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutInvitedByInput, Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput> | Prisma.HouseholdInvitationCreateWithoutInvitedByInput[] | Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput[]
+  connectOrCreate?: Prisma.HouseholdInvitationCreateOrConnectWithoutInvitedByInput | Prisma.HouseholdInvitationCreateOrConnectWithoutInvitedByInput[]
+  createMany?: Prisma.HouseholdInvitationCreateManyInvitedByInputEnvelope
+  connect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+}
+
+export type HouseholdInvitationUpdateManyWithoutInvitedByNestedInput = {
+  create?: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutInvitedByInput, Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput> | Prisma.HouseholdInvitationCreateWithoutInvitedByInput[] | Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput[]
+  connectOrCreate?: Prisma.HouseholdInvitationCreateOrConnectWithoutInvitedByInput | Prisma.HouseholdInvitationCreateOrConnectWithoutInvitedByInput[]
+  upsert?: Prisma.HouseholdInvitationUpsertWithWhereUniqueWithoutInvitedByInput | Prisma.HouseholdInvitationUpsertWithWhereUniqueWithoutInvitedByInput[]
+  createMany?: Prisma.HouseholdInvitationCreateManyInvitedByInputEnvelope
+  set?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  disconnect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  delete?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  connect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  update?: Prisma.HouseholdInvitationUpdateWithWhereUniqueWithoutInvitedByInput | Prisma.HouseholdInvitationUpdateWithWhereUniqueWithoutInvitedByInput[]
+  updateMany?: Prisma.HouseholdInvitationUpdateManyWithWhereWithoutInvitedByInput | Prisma.HouseholdInvitationUpdateManyWithWhereWithoutInvitedByInput[]
+  deleteMany?: Prisma.HouseholdInvitationScalarWhereInput | Prisma.HouseholdInvitationScalarWhereInput[]
+}
+
+export type HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput = {
+  create?: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutInvitedByInput, Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput> | Prisma.HouseholdInvitationCreateWithoutInvitedByInput[] | Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput[]
+  connectOrCreate?: Prisma.HouseholdInvitationCreateOrConnectWithoutInvitedByInput | Prisma.HouseholdInvitationCreateOrConnectWithoutInvitedByInput[]
+  upsert?: Prisma.HouseholdInvitationUpsertWithWhereUniqueWithoutInvitedByInput | Prisma.HouseholdInvitationUpsertWithWhereUniqueWithoutInvitedByInput[]
+  createMany?: Prisma.HouseholdInvitationCreateManyInvitedByInputEnvelope
+  set?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  disconnect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  delete?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  connect?: Prisma.HouseholdInvitationWhereUniqueInput | Prisma.HouseholdInvitationWhereUniqueInput[]
+  update?: Prisma.HouseholdInvitationUpdateWithWhereUniqueWithoutInvitedByInput | Prisma.HouseholdInvitationUpdateWithWhereUniqueWithoutInvitedByInput[]
+  updateMany?: Prisma.HouseholdInvitationUpdateManyWithWhereWithoutInvitedByInput | Prisma.HouseholdInvitationUpdateManyWithWhereWithoutInvitedByInput[]
+  deleteMany?: Prisma.HouseholdInvitationScalarWhereInput | Prisma.HouseholdInvitationScalarWhereInput[]
+}
+
+export type HouseholdInvitationCreateWithoutHouseholdInput = {
+  id: string
+  email: string
+  role?: $Enums.HouseholdRole
+  token: string
+  expiresAt: Date | string
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+  InvitedBy: Prisma.UserCreateNestedOneWithoutHouseholdInvitationInput
+}
+
+export type HouseholdInvitationUncheckedCreateWithoutHouseholdInput = {
+  id: string
+  email: string
+  role?: $Enums.HouseholdRole
+  token: string
+  invitedById: string
+  expiresAt: Date | string
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type HouseholdInvitationCreateOrConnectWithoutHouseholdInput = {
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+  create: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutHouseholdInput, Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput>
+}
+
+export type HouseholdInvitationCreateManyHouseholdInputEnvelope = {
+  data: Prisma.HouseholdInvitationCreateManyHouseholdInput | Prisma.HouseholdInvitationCreateManyHouseholdInput[]
+  skipDuplicates?: boolean
+}
+
+export type HouseholdInvitationUpsertWithWhereUniqueWithoutHouseholdInput = {
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+  update: Prisma.XOR<Prisma.HouseholdInvitationUpdateWithoutHouseholdInput, Prisma.HouseholdInvitationUncheckedUpdateWithoutHouseholdInput>
+  create: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutHouseholdInput, Prisma.HouseholdInvitationUncheckedCreateWithoutHouseholdInput>
+}
+
+export type HouseholdInvitationUpdateWithWhereUniqueWithoutHouseholdInput = {
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+  data: Prisma.XOR<Prisma.HouseholdInvitationUpdateWithoutHouseholdInput, Prisma.HouseholdInvitationUncheckedUpdateWithoutHouseholdInput>
+}
+
+export type HouseholdInvitationUpdateManyWithWhereWithoutHouseholdInput = {
+  where: Prisma.HouseholdInvitationScalarWhereInput
+  data: Prisma.XOR<Prisma.HouseholdInvitationUpdateManyMutationInput, Prisma.HouseholdInvitationUncheckedUpdateManyWithoutHouseholdInput>
+}
+
+export type HouseholdInvitationScalarWhereInput = {
+  AND?: Prisma.HouseholdInvitationScalarWhereInput | Prisma.HouseholdInvitationScalarWhereInput[]
+  OR?: Prisma.HouseholdInvitationScalarWhereInput[]
+  NOT?: Prisma.HouseholdInvitationScalarWhereInput | Prisma.HouseholdInvitationScalarWhereInput[]
+  id?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  householdId?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  email?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  role?: Prisma.EnumHouseholdRoleFilter<"HouseholdInvitation"> | $Enums.HouseholdRole
+  token?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  invitedById?: Prisma.StringFilter<"HouseholdInvitation"> | string
+  expiresAt?: Prisma.DateTimeFilter<"HouseholdInvitation"> | Date | string
+  acceptedAt?: Prisma.DateTimeNullableFilter<"HouseholdInvitation"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"HouseholdInvitation"> | Date | string
+}
+
+export type HouseholdInvitationCreateWithoutInvitedByInput = {
+  id: string
+  email: string
+  role?: $Enums.HouseholdRole
+  token: string
+  expiresAt: Date | string
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+  Household: Prisma.HouseholdCreateNestedOneWithoutHouseholdInvitationInput
+}
+
+export type HouseholdInvitationUncheckedCreateWithoutInvitedByInput = {
+  id: string
+  householdId: string
+  email: string
+  role?: $Enums.HouseholdRole
+  token: string
+  expiresAt: Date | string
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type HouseholdInvitationCreateOrConnectWithoutInvitedByInput = {
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+  create: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutInvitedByInput, Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput>
+}
+
+export type HouseholdInvitationCreateManyInvitedByInputEnvelope = {
+  data: Prisma.HouseholdInvitationCreateManyInvitedByInput | Prisma.HouseholdInvitationCreateManyInvitedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type HouseholdInvitationUpsertWithWhereUniqueWithoutInvitedByInput = {
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+  update: Prisma.XOR<Prisma.HouseholdInvitationUpdateWithoutInvitedByInput, Prisma.HouseholdInvitationUncheckedUpdateWithoutInvitedByInput>
+  create: Prisma.XOR<Prisma.HouseholdInvitationCreateWithoutInvitedByInput, Prisma.HouseholdInvitationUncheckedCreateWithoutInvitedByInput>
+}
+
+export type HouseholdInvitationUpdateWithWhereUniqueWithoutInvitedByInput = {
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+  data: Prisma.XOR<Prisma.HouseholdInvitationUpdateWithoutInvitedByInput, Prisma.HouseholdInvitationUncheckedUpdateWithoutInvitedByInput>
+}
+
+export type HouseholdInvitationUpdateManyWithWhereWithoutInvitedByInput = {
+  where: Prisma.HouseholdInvitationScalarWhereInput
+  data: Prisma.XOR<Prisma.HouseholdInvitationUpdateManyMutationInput, Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByInput>
+}
+
+export type HouseholdInvitationCreateManyHouseholdInput = {
+  id: string
+  email: string
+  role?: $Enums.HouseholdRole
+  token: string
+  invitedById: string
+  expiresAt: Date | string
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type HouseholdInvitationUpdateWithoutHouseholdInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  InvitedBy?: Prisma.UserUpdateOneRequiredWithoutHouseholdInvitationNestedInput
+}
+
+export type HouseholdInvitationUncheckedUpdateWithoutHouseholdInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdInvitationUncheckedUpdateManyWithoutHouseholdInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  invitedById?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdInvitationCreateManyInvitedByInput = {
+  id: string
+  householdId: string
+  email: string
+  role?: $Enums.HouseholdRole
+  token: string
+  expiresAt: Date | string
+  acceptedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type HouseholdInvitationUpdateWithoutInvitedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Household?: Prisma.HouseholdUpdateOneRequiredWithoutHouseholdInvitationNestedInput
+}
+
+export type HouseholdInvitationUncheckedUpdateWithoutInvitedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  householdId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdInvitationUncheckedUpdateManyWithoutInvitedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  householdId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type HouseholdInvitationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  householdId?: boolean
+  email?: boolean
+  role?: boolean
+  token?: boolean
+  invitedById?: boolean
+  expiresAt?: boolean
+  acceptedAt?: boolean
+  createdAt?: boolean
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  InvitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["householdInvitation"]>
+
+export type HouseholdInvitationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  householdId?: boolean
+  email?: boolean
+  role?: boolean
+  token?: boolean
+  invitedById?: boolean
+  expiresAt?: boolean
+  acceptedAt?: boolean
+  createdAt?: boolean
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  InvitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["householdInvitation"]>
+
+export type HouseholdInvitationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  householdId?: boolean
+  email?: boolean
+  role?: boolean
+  token?: boolean
+  invitedById?: boolean
+  expiresAt?: boolean
+  acceptedAt?: boolean
+  createdAt?: boolean
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  InvitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["householdInvitation"]>
+
+export type HouseholdInvitationSelectScalar = {
+  id?: boolean
+  householdId?: boolean
+  email?: boolean
+  role?: boolean
+  token?: boolean
+  invitedById?: boolean
+  expiresAt?: boolean
+  acceptedAt?: boolean
+  createdAt?: boolean
+}
+
+export type HouseholdInvitationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "householdId" | "email" | "role" | "token" | "invitedById" | "expiresAt" | "acceptedAt" | "createdAt", ExtArgs["result"]["householdInvitation"]>
+export type HouseholdInvitationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  InvitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type HouseholdInvitationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  InvitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type HouseholdInvitationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  InvitedBy?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $HouseholdInvitationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "HouseholdInvitation"
+  objects: {
+    Household: Prisma.$HouseholdPayload<ExtArgs>
+    InvitedBy: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    householdId: string
+    email: string
+    role: $Enums.HouseholdRole
+    token: string
+    invitedById: string
+    expiresAt: Date
+    acceptedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["householdInvitation"]>
+  composites: {}
+}
+
+export type HouseholdInvitationGetPayload<S extends boolean | null | undefined | HouseholdInvitationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload, S>
+
+export type HouseholdInvitationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<HouseholdInvitationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: HouseholdInvitationCountAggregateInputType | true
+  }
+
+export interface HouseholdInvitationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['HouseholdInvitation'], meta: { name: 'HouseholdInvitation' } }
+  /**
+   * Find zero or one HouseholdInvitation that matches the filter.
+   * @param {HouseholdInvitationFindUniqueArgs} args - Arguments to find a HouseholdInvitation
+   * @example
+   * // Get one HouseholdInvitation
+   * const householdInvitation = await prisma.householdInvitation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends HouseholdInvitationFindUniqueArgs>(args: Prisma.SelectSubset<T, HouseholdInvitationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__HouseholdInvitationClient<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one HouseholdInvitation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {HouseholdInvitationFindUniqueOrThrowArgs} args - Arguments to find a HouseholdInvitation
+   * @example
+   * // Get one HouseholdInvitation
+   * const householdInvitation = await prisma.householdInvitation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends HouseholdInvitationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, HouseholdInvitationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__HouseholdInvitationClient<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first HouseholdInvitation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdInvitationFindFirstArgs} args - Arguments to find a HouseholdInvitation
+   * @example
+   * // Get one HouseholdInvitation
+   * const householdInvitation = await prisma.householdInvitation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends HouseholdInvitationFindFirstArgs>(args?: Prisma.SelectSubset<T, HouseholdInvitationFindFirstArgs<ExtArgs>>): Prisma.Prisma__HouseholdInvitationClient<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first HouseholdInvitation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdInvitationFindFirstOrThrowArgs} args - Arguments to find a HouseholdInvitation
+   * @example
+   * // Get one HouseholdInvitation
+   * const householdInvitation = await prisma.householdInvitation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends HouseholdInvitationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, HouseholdInvitationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__HouseholdInvitationClient<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more HouseholdInvitations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdInvitationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all HouseholdInvitations
+   * const householdInvitations = await prisma.householdInvitation.findMany()
+   * 
+   * // Get first 10 HouseholdInvitations
+   * const householdInvitations = await prisma.householdInvitation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const householdInvitationWithIdOnly = await prisma.householdInvitation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends HouseholdInvitationFindManyArgs>(args?: Prisma.SelectSubset<T, HouseholdInvitationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a HouseholdInvitation.
+   * @param {HouseholdInvitationCreateArgs} args - Arguments to create a HouseholdInvitation.
+   * @example
+   * // Create one HouseholdInvitation
+   * const HouseholdInvitation = await prisma.householdInvitation.create({
+   *   data: {
+   *     // ... data to create a HouseholdInvitation
+   *   }
+   * })
+   * 
+   */
+  create<T extends HouseholdInvitationCreateArgs>(args: Prisma.SelectSubset<T, HouseholdInvitationCreateArgs<ExtArgs>>): Prisma.Prisma__HouseholdInvitationClient<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many HouseholdInvitations.
+   * @param {HouseholdInvitationCreateManyArgs} args - Arguments to create many HouseholdInvitations.
+   * @example
+   * // Create many HouseholdInvitations
+   * const householdInvitation = await prisma.householdInvitation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends HouseholdInvitationCreateManyArgs>(args?: Prisma.SelectSubset<T, HouseholdInvitationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many HouseholdInvitations and returns the data saved in the database.
+   * @param {HouseholdInvitationCreateManyAndReturnArgs} args - Arguments to create many HouseholdInvitations.
+   * @example
+   * // Create many HouseholdInvitations
+   * const householdInvitation = await prisma.householdInvitation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many HouseholdInvitations and only return the `id`
+   * const householdInvitationWithIdOnly = await prisma.householdInvitation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends HouseholdInvitationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, HouseholdInvitationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a HouseholdInvitation.
+   * @param {HouseholdInvitationDeleteArgs} args - Arguments to delete one HouseholdInvitation.
+   * @example
+   * // Delete one HouseholdInvitation
+   * const HouseholdInvitation = await prisma.householdInvitation.delete({
+   *   where: {
+   *     // ... filter to delete one HouseholdInvitation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends HouseholdInvitationDeleteArgs>(args: Prisma.SelectSubset<T, HouseholdInvitationDeleteArgs<ExtArgs>>): Prisma.Prisma__HouseholdInvitationClient<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one HouseholdInvitation.
+   * @param {HouseholdInvitationUpdateArgs} args - Arguments to update one HouseholdInvitation.
+   * @example
+   * // Update one HouseholdInvitation
+   * const householdInvitation = await prisma.householdInvitation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends HouseholdInvitationUpdateArgs>(args: Prisma.SelectSubset<T, HouseholdInvitationUpdateArgs<ExtArgs>>): Prisma.Prisma__HouseholdInvitationClient<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more HouseholdInvitations.
+   * @param {HouseholdInvitationDeleteManyArgs} args - Arguments to filter HouseholdInvitations to delete.
+   * @example
+   * // Delete a few HouseholdInvitations
+   * const { count } = await prisma.householdInvitation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends HouseholdInvitationDeleteManyArgs>(args?: Prisma.SelectSubset<T, HouseholdInvitationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more HouseholdInvitations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdInvitationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many HouseholdInvitations
+   * const householdInvitation = await prisma.householdInvitation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends HouseholdInvitationUpdateManyArgs>(args: Prisma.SelectSubset<T, HouseholdInvitationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more HouseholdInvitations and returns the data updated in the database.
+   * @param {HouseholdInvitationUpdateManyAndReturnArgs} args - Arguments to update many HouseholdInvitations.
+   * @example
+   * // Update many HouseholdInvitations
+   * const householdInvitation = await prisma.householdInvitation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more HouseholdInvitations and only return the `id`
+   * const householdInvitationWithIdOnly = await prisma.householdInvitation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends HouseholdInvitationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, HouseholdInvitationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one HouseholdInvitation.
+   * @param {HouseholdInvitationUpsertArgs} args - Arguments to update or create a HouseholdInvitation.
+   * @example
+   * // Update or create a HouseholdInvitation
+   * const householdInvitation = await prisma.householdInvitation.upsert({
+   *   create: {
+   *     // ... data to create a HouseholdInvitation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the HouseholdInvitation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends HouseholdInvitationUpsertArgs>(args: Prisma.SelectSubset<T, HouseholdInvitationUpsertArgs<ExtArgs>>): Prisma.Prisma__HouseholdInvitationClient<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of HouseholdInvitations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdInvitationCountArgs} args - Arguments to filter HouseholdInvitations to count.
+   * @example
+   * // Count the number of HouseholdInvitations
+   * const count = await prisma.householdInvitation.count({
+   *   where: {
+   *     // ... the filter for the HouseholdInvitations we want to count
+   *   }
+   * })
+  **/
+  count<T extends HouseholdInvitationCountArgs>(
+    args?: Prisma.Subset<T, HouseholdInvitationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], HouseholdInvitationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a HouseholdInvitation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdInvitationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends HouseholdInvitationAggregateArgs>(args: Prisma.Subset<T, HouseholdInvitationAggregateArgs>): Prisma.PrismaPromise<GetHouseholdInvitationAggregateType<T>>
+
+  /**
+   * Group by HouseholdInvitation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdInvitationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends HouseholdInvitationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: HouseholdInvitationGroupByArgs['orderBy'] }
+      : { orderBy?: HouseholdInvitationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, HouseholdInvitationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetHouseholdInvitationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the HouseholdInvitation model
+ */
+readonly fields: HouseholdInvitationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for HouseholdInvitation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__HouseholdInvitationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  Household<T extends Prisma.HouseholdDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.HouseholdDefaultArgs<ExtArgs>>): Prisma.Prisma__HouseholdClient<runtime.Types.Result.GetResult<Prisma.$HouseholdPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  InvitedBy<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the HouseholdInvitation model
+ */
+export interface HouseholdInvitationFieldRefs {
+  readonly id: Prisma.FieldRef<"HouseholdInvitation", 'String'>
+  readonly householdId: Prisma.FieldRef<"HouseholdInvitation", 'String'>
+  readonly email: Prisma.FieldRef<"HouseholdInvitation", 'String'>
+  readonly role: Prisma.FieldRef<"HouseholdInvitation", 'HouseholdRole'>
+  readonly token: Prisma.FieldRef<"HouseholdInvitation", 'String'>
+  readonly invitedById: Prisma.FieldRef<"HouseholdInvitation", 'String'>
+  readonly expiresAt: Prisma.FieldRef<"HouseholdInvitation", 'DateTime'>
+  readonly acceptedAt: Prisma.FieldRef<"HouseholdInvitation", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"HouseholdInvitation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * HouseholdInvitation findUnique
+ */
+export type HouseholdInvitationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdInvitation to fetch.
+   */
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+}
+
+/**
+ * HouseholdInvitation findUniqueOrThrow
+ */
+export type HouseholdInvitationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdInvitation to fetch.
+   */
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+}
+
+/**
+ * HouseholdInvitation findFirst
+ */
+export type HouseholdInvitationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdInvitation to fetch.
+   */
+  where?: Prisma.HouseholdInvitationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of HouseholdInvitations to fetch.
+   */
+  orderBy?: Prisma.HouseholdInvitationOrderByWithRelationInput | Prisma.HouseholdInvitationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for HouseholdInvitations.
+   */
+  cursor?: Prisma.HouseholdInvitationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` HouseholdInvitations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` HouseholdInvitations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of HouseholdInvitations.
+   */
+  distinct?: Prisma.HouseholdInvitationScalarFieldEnum | Prisma.HouseholdInvitationScalarFieldEnum[]
+}
+
+/**
+ * HouseholdInvitation findFirstOrThrow
+ */
+export type HouseholdInvitationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdInvitation to fetch.
+   */
+  where?: Prisma.HouseholdInvitationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of HouseholdInvitations to fetch.
+   */
+  orderBy?: Prisma.HouseholdInvitationOrderByWithRelationInput | Prisma.HouseholdInvitationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for HouseholdInvitations.
+   */
+  cursor?: Prisma.HouseholdInvitationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` HouseholdInvitations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` HouseholdInvitations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of HouseholdInvitations.
+   */
+  distinct?: Prisma.HouseholdInvitationScalarFieldEnum | Prisma.HouseholdInvitationScalarFieldEnum[]
+}
+
+/**
+ * HouseholdInvitation findMany
+ */
+export type HouseholdInvitationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdInvitations to fetch.
+   */
+  where?: Prisma.HouseholdInvitationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of HouseholdInvitations to fetch.
+   */
+  orderBy?: Prisma.HouseholdInvitationOrderByWithRelationInput | Prisma.HouseholdInvitationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing HouseholdInvitations.
+   */
+  cursor?: Prisma.HouseholdInvitationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` HouseholdInvitations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` HouseholdInvitations.
+   */
+  skip?: number
+  distinct?: Prisma.HouseholdInvitationScalarFieldEnum | Prisma.HouseholdInvitationScalarFieldEnum[]
+}
+
+/**
+ * HouseholdInvitation create
+ */
+export type HouseholdInvitationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a HouseholdInvitation.
+   */
+  data: Prisma.XOR<Prisma.HouseholdInvitationCreateInput, Prisma.HouseholdInvitationUncheckedCreateInput>
+}
+
+/**
+ * HouseholdInvitation createMany
+ */
+export type HouseholdInvitationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many HouseholdInvitations.
+   */
+  data: Prisma.HouseholdInvitationCreateManyInput | Prisma.HouseholdInvitationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * HouseholdInvitation createManyAndReturn
+ */
+export type HouseholdInvitationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * The data used to create many HouseholdInvitations.
+   */
+  data: Prisma.HouseholdInvitationCreateManyInput | Prisma.HouseholdInvitationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * HouseholdInvitation update
+ */
+export type HouseholdInvitationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a HouseholdInvitation.
+   */
+  data: Prisma.XOR<Prisma.HouseholdInvitationUpdateInput, Prisma.HouseholdInvitationUncheckedUpdateInput>
+  /**
+   * Choose, which HouseholdInvitation to update.
+   */
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+}
+
+/**
+ * HouseholdInvitation updateMany
+ */
+export type HouseholdInvitationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update HouseholdInvitations.
+   */
+  data: Prisma.XOR<Prisma.HouseholdInvitationUpdateManyMutationInput, Prisma.HouseholdInvitationUncheckedUpdateManyInput>
+  /**
+   * Filter which HouseholdInvitations to update
+   */
+  where?: Prisma.HouseholdInvitationWhereInput
+  /**
+   * Limit how many HouseholdInvitations to update.
+   */
+  limit?: number
+}
+
+/**
+ * HouseholdInvitation updateManyAndReturn
+ */
+export type HouseholdInvitationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * The data used to update HouseholdInvitations.
+   */
+  data: Prisma.XOR<Prisma.HouseholdInvitationUpdateManyMutationInput, Prisma.HouseholdInvitationUncheckedUpdateManyInput>
+  /**
+   * Filter which HouseholdInvitations to update
+   */
+  where?: Prisma.HouseholdInvitationWhereInput
+  /**
+   * Limit how many HouseholdInvitations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * HouseholdInvitation upsert
+ */
+export type HouseholdInvitationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the HouseholdInvitation to update in case it exists.
+   */
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+  /**
+   * In case the HouseholdInvitation found by the `where` argument doesn't exist, create a new HouseholdInvitation with this data.
+   */
+  create: Prisma.XOR<Prisma.HouseholdInvitationCreateInput, Prisma.HouseholdInvitationUncheckedCreateInput>
+  /**
+   * In case the HouseholdInvitation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.HouseholdInvitationUpdateInput, Prisma.HouseholdInvitationUncheckedUpdateInput>
+}
+
+/**
+ * HouseholdInvitation delete
+ */
+export type HouseholdInvitationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  /**
+   * Filter which HouseholdInvitation to delete.
+   */
+  where: Prisma.HouseholdInvitationWhereUniqueInput
+}
+
+/**
+ * HouseholdInvitation deleteMany
+ */
+export type HouseholdInvitationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which HouseholdInvitations to delete
+   */
+  where?: Prisma.HouseholdInvitationWhereInput
+  /**
+   * Limit how many HouseholdInvitations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * HouseholdInvitation without action
+ */
+export type HouseholdInvitationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+}
@@ -0,0 +1,1470 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `HouseholdMember` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model HouseholdMember
+ * 
+ */
+export type HouseholdMemberModel = runtime.Types.Result.DefaultSelection<Prisma.$HouseholdMemberPayload>
+
+export type AggregateHouseholdMember = {
+  _count: HouseholdMemberCountAggregateOutputType | null
+  _min: HouseholdMemberMinAggregateOutputType | null
+  _max: HouseholdMemberMaxAggregateOutputType | null
+}
+
+export type HouseholdMemberMinAggregateOutputType = {
+  id: string | null
+  householdId: string | null
+  userId: string | null
+  role: $Enums.HouseholdRole | null
+  joinedAt: Date | null
+}
+
+export type HouseholdMemberMaxAggregateOutputType = {
+  id: string | null
+  householdId: string | null
+  userId: string | null
+  role: $Enums.HouseholdRole | null
+  joinedAt: Date | null
+}
+
+export type HouseholdMemberCountAggregateOutputType = {
+  id: number
+  householdId: number
+  userId: number
+  role: number
+  joinedAt: number
+  _all: number
+}
+
+
+export type HouseholdMemberMinAggregateInputType = {
+  id?: true
+  householdId?: true
+  userId?: true
+  role?: true
+  joinedAt?: true
+}
+
+export type HouseholdMemberMaxAggregateInputType = {
+  id?: true
+  householdId?: true
+  userId?: true
+  role?: true
+  joinedAt?: true
+}
+
+export type HouseholdMemberCountAggregateInputType = {
+  id?: true
+  householdId?: true
+  userId?: true
+  role?: true
+  joinedAt?: true
+  _all?: true
+}
+
+export type HouseholdMemberAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which HouseholdMember to aggregate.
+   */
+  where?: Prisma.HouseholdMemberWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of HouseholdMembers to fetch.
+   */
+  orderBy?: Prisma.HouseholdMemberOrderByWithRelationInput | Prisma.HouseholdMemberOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.HouseholdMemberWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` HouseholdMembers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` HouseholdMembers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned HouseholdMembers
+  **/
+  _count?: true | HouseholdMemberCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: HouseholdMemberMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: HouseholdMemberMaxAggregateInputType
+}
+
+export type GetHouseholdMemberAggregateType<T extends HouseholdMemberAggregateArgs> = {
+      [P in keyof T & keyof AggregateHouseholdMember]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateHouseholdMember[P]>
+    : Prisma.GetScalarType<T[P], AggregateHouseholdMember[P]>
+}
+
+
+
+
+export type HouseholdMemberGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.HouseholdMemberWhereInput
+  orderBy?: Prisma.HouseholdMemberOrderByWithAggregationInput | Prisma.HouseholdMemberOrderByWithAggregationInput[]
+  by: Prisma.HouseholdMemberScalarFieldEnum[] | Prisma.HouseholdMemberScalarFieldEnum
+  having?: Prisma.HouseholdMemberScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: HouseholdMemberCountAggregateInputType | true
+  _min?: HouseholdMemberMinAggregateInputType
+  _max?: HouseholdMemberMaxAggregateInputType
+}
+
+export type HouseholdMemberGroupByOutputType = {
+  id: string
+  householdId: string
+  userId: string
+  role: $Enums.HouseholdRole
+  joinedAt: Date
+  _count: HouseholdMemberCountAggregateOutputType | null
+  _min: HouseholdMemberMinAggregateOutputType | null
+  _max: HouseholdMemberMaxAggregateOutputType | null
+}
+
+type GetHouseholdMemberGroupByPayload<T extends HouseholdMemberGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<HouseholdMemberGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof HouseholdMemberGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], HouseholdMemberGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], HouseholdMemberGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type HouseholdMemberWhereInput = {
+  AND?: Prisma.HouseholdMemberWhereInput | Prisma.HouseholdMemberWhereInput[]
+  OR?: Prisma.HouseholdMemberWhereInput[]
+  NOT?: Prisma.HouseholdMemberWhereInput | Prisma.HouseholdMemberWhereInput[]
+  id?: Prisma.StringFilter<"HouseholdMember"> | string
+  householdId?: Prisma.StringFilter<"HouseholdMember"> | string
+  userId?: Prisma.StringFilter<"HouseholdMember"> | string
+  role?: Prisma.EnumHouseholdRoleFilter<"HouseholdMember"> | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFilter<"HouseholdMember"> | Date | string
+  Household?: Prisma.XOR<Prisma.HouseholdScalarRelationFilter, Prisma.HouseholdWhereInput>
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type HouseholdMemberOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  joinedAt?: Prisma.SortOrder
+  Household?: Prisma.HouseholdOrderByWithRelationInput
+  User?: Prisma.UserOrderByWithRelationInput
+}
+
+export type HouseholdMemberWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  householdId_userId?: Prisma.HouseholdMemberHouseholdIdUserIdCompoundUniqueInput
+  AND?: Prisma.HouseholdMemberWhereInput | Prisma.HouseholdMemberWhereInput[]
+  OR?: Prisma.HouseholdMemberWhereInput[]
+  NOT?: Prisma.HouseholdMemberWhereInput | Prisma.HouseholdMemberWhereInput[]
+  householdId?: Prisma.StringFilter<"HouseholdMember"> | string
+  userId?: Prisma.StringFilter<"HouseholdMember"> | string
+  role?: Prisma.EnumHouseholdRoleFilter<"HouseholdMember"> | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFilter<"HouseholdMember"> | Date | string
+  Household?: Prisma.XOR<Prisma.HouseholdScalarRelationFilter, Prisma.HouseholdWhereInput>
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "householdId_userId">
+
+export type HouseholdMemberOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  joinedAt?: Prisma.SortOrder
+  _count?: Prisma.HouseholdMemberCountOrderByAggregateInput
+  _max?: Prisma.HouseholdMemberMaxOrderByAggregateInput
+  _min?: Prisma.HouseholdMemberMinOrderByAggregateInput
+}
+
+export type HouseholdMemberScalarWhereWithAggregatesInput = {
+  AND?: Prisma.HouseholdMemberScalarWhereWithAggregatesInput | Prisma.HouseholdMemberScalarWhereWithAggregatesInput[]
+  OR?: Prisma.HouseholdMemberScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.HouseholdMemberScalarWhereWithAggregatesInput | Prisma.HouseholdMemberScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"HouseholdMember"> | string
+  householdId?: Prisma.StringWithAggregatesFilter<"HouseholdMember"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"HouseholdMember"> | string
+  role?: Prisma.EnumHouseholdRoleWithAggregatesFilter<"HouseholdMember"> | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeWithAggregatesFilter<"HouseholdMember"> | Date | string
+}
+
+export type HouseholdMemberCreateInput = {
+  id: string
+  role?: $Enums.HouseholdRole
+  joinedAt?: Date | string
+  Household: Prisma.HouseholdCreateNestedOneWithoutHouseholdMemberInput
+  User: Prisma.UserCreateNestedOneWithoutHouseholdMemberInput
+}
+
+export type HouseholdMemberUncheckedCreateInput = {
+  id: string
+  householdId: string
+  userId: string
+  role?: $Enums.HouseholdRole
+  joinedAt?: Date | string
+}
+
+export type HouseholdMemberUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Household?: Prisma.HouseholdUpdateOneRequiredWithoutHouseholdMemberNestedInput
+  User?: Prisma.UserUpdateOneRequiredWithoutHouseholdMemberNestedInput
+}
+
+export type HouseholdMemberUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  householdId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdMemberCreateManyInput = {
+  id: string
+  householdId: string
+  userId: string
+  role?: $Enums.HouseholdRole
+  joinedAt?: Date | string
+}
+
+export type HouseholdMemberUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdMemberUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  householdId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdMemberListRelationFilter = {
+  every?: Prisma.HouseholdMemberWhereInput
+  some?: Prisma.HouseholdMemberWhereInput
+  none?: Prisma.HouseholdMemberWhereInput
+}
+
+export type HouseholdMemberOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type HouseholdMemberHouseholdIdUserIdCompoundUniqueInput = {
+  householdId: string
+  userId: string
+}
+
+export type HouseholdMemberCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  joinedAt?: Prisma.SortOrder
+}
+
+export type HouseholdMemberMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  joinedAt?: Prisma.SortOrder
+}
+
+export type HouseholdMemberMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  householdId?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  role?: Prisma.SortOrder
+  joinedAt?: Prisma.SortOrder
+}
+
+export type HouseholdMemberCreateNestedManyWithoutHouseholdInput = {
+  create?: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutHouseholdInput, Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput> | Prisma.HouseholdMemberCreateWithoutHouseholdInput[] | Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput[]
+  connectOrCreate?: Prisma.HouseholdMemberCreateOrConnectWithoutHouseholdInput | Prisma.HouseholdMemberCreateOrConnectWithoutHouseholdInput[]
+  createMany?: Prisma.HouseholdMemberCreateManyHouseholdInputEnvelope
+  connect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+}
+
+export type HouseholdMemberUncheckedCreateNestedManyWithoutHouseholdInput = {
+  create?: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutHouseholdInput, Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput> | Prisma.HouseholdMemberCreateWithoutHouseholdInput[] | Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput[]
+  connectOrCreate?: Prisma.HouseholdMemberCreateOrConnectWithoutHouseholdInput | Prisma.HouseholdMemberCreateOrConnectWithoutHouseholdInput[]
+  createMany?: Prisma.HouseholdMemberCreateManyHouseholdInputEnvelope
+  connect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+}
+
+export type HouseholdMemberUpdateManyWithoutHouseholdNestedInput = {
+  create?: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutHouseholdInput, Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput> | Prisma.HouseholdMemberCreateWithoutHouseholdInput[] | Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput[]
+  connectOrCreate?: Prisma.HouseholdMemberCreateOrConnectWithoutHouseholdInput | Prisma.HouseholdMemberCreateOrConnectWithoutHouseholdInput[]
+  upsert?: Prisma.HouseholdMemberUpsertWithWhereUniqueWithoutHouseholdInput | Prisma.HouseholdMemberUpsertWithWhereUniqueWithoutHouseholdInput[]
+  createMany?: Prisma.HouseholdMemberCreateManyHouseholdInputEnvelope
+  set?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  disconnect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  delete?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  connect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  update?: Prisma.HouseholdMemberUpdateWithWhereUniqueWithoutHouseholdInput | Prisma.HouseholdMemberUpdateWithWhereUniqueWithoutHouseholdInput[]
+  updateMany?: Prisma.HouseholdMemberUpdateManyWithWhereWithoutHouseholdInput | Prisma.HouseholdMemberUpdateManyWithWhereWithoutHouseholdInput[]
+  deleteMany?: Prisma.HouseholdMemberScalarWhereInput | Prisma.HouseholdMemberScalarWhereInput[]
+}
+
+export type HouseholdMemberUncheckedUpdateManyWithoutHouseholdNestedInput = {
+  create?: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutHouseholdInput, Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput> | Prisma.HouseholdMemberCreateWithoutHouseholdInput[] | Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput[]
+  connectOrCreate?: Prisma.HouseholdMemberCreateOrConnectWithoutHouseholdInput | Prisma.HouseholdMemberCreateOrConnectWithoutHouseholdInput[]
+  upsert?: Prisma.HouseholdMemberUpsertWithWhereUniqueWithoutHouseholdInput | Prisma.HouseholdMemberUpsertWithWhereUniqueWithoutHouseholdInput[]
+  createMany?: Prisma.HouseholdMemberCreateManyHouseholdInputEnvelope
+  set?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  disconnect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  delete?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  connect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  update?: Prisma.HouseholdMemberUpdateWithWhereUniqueWithoutHouseholdInput | Prisma.HouseholdMemberUpdateWithWhereUniqueWithoutHouseholdInput[]
+  updateMany?: Prisma.HouseholdMemberUpdateManyWithWhereWithoutHouseholdInput | Prisma.HouseholdMemberUpdateManyWithWhereWithoutHouseholdInput[]
+  deleteMany?: Prisma.HouseholdMemberScalarWhereInput | Prisma.HouseholdMemberScalarWhereInput[]
+}
+
+export type EnumHouseholdRoleFieldUpdateOperationsInput = {
+  set?: $Enums.HouseholdRole
+}
+
+export type HouseholdMemberCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutUserInput, Prisma.HouseholdMemberUncheckedCreateWithoutUserInput> | Prisma.HouseholdMemberCreateWithoutUserInput[] | Prisma.HouseholdMemberUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.HouseholdMemberCreateOrConnectWithoutUserInput | Prisma.HouseholdMemberCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.HouseholdMemberCreateManyUserInputEnvelope
+  connect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+}
+
+export type HouseholdMemberUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutUserInput, Prisma.HouseholdMemberUncheckedCreateWithoutUserInput> | Prisma.HouseholdMemberCreateWithoutUserInput[] | Prisma.HouseholdMemberUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.HouseholdMemberCreateOrConnectWithoutUserInput | Prisma.HouseholdMemberCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.HouseholdMemberCreateManyUserInputEnvelope
+  connect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+}
+
+export type HouseholdMemberUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutUserInput, Prisma.HouseholdMemberUncheckedCreateWithoutUserInput> | Prisma.HouseholdMemberCreateWithoutUserInput[] | Prisma.HouseholdMemberUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.HouseholdMemberCreateOrConnectWithoutUserInput | Prisma.HouseholdMemberCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.HouseholdMemberUpsertWithWhereUniqueWithoutUserInput | Prisma.HouseholdMemberUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.HouseholdMemberCreateManyUserInputEnvelope
+  set?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  disconnect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  delete?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  connect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  update?: Prisma.HouseholdMemberUpdateWithWhereUniqueWithoutUserInput | Prisma.HouseholdMemberUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.HouseholdMemberUpdateManyWithWhereWithoutUserInput | Prisma.HouseholdMemberUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.HouseholdMemberScalarWhereInput | Prisma.HouseholdMemberScalarWhereInput[]
+}
+
+export type HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutUserInput, Prisma.HouseholdMemberUncheckedCreateWithoutUserInput> | Prisma.HouseholdMemberCreateWithoutUserInput[] | Prisma.HouseholdMemberUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.HouseholdMemberCreateOrConnectWithoutUserInput | Prisma.HouseholdMemberCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.HouseholdMemberUpsertWithWhereUniqueWithoutUserInput | Prisma.HouseholdMemberUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.HouseholdMemberCreateManyUserInputEnvelope
+  set?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  disconnect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  delete?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  connect?: Prisma.HouseholdMemberWhereUniqueInput | Prisma.HouseholdMemberWhereUniqueInput[]
+  update?: Prisma.HouseholdMemberUpdateWithWhereUniqueWithoutUserInput | Prisma.HouseholdMemberUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.HouseholdMemberUpdateManyWithWhereWithoutUserInput | Prisma.HouseholdMemberUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.HouseholdMemberScalarWhereInput | Prisma.HouseholdMemberScalarWhereInput[]
+}
+
+export type HouseholdMemberCreateWithoutHouseholdInput = {
+  id: string
+  role?: $Enums.HouseholdRole
+  joinedAt?: Date | string
+  User: Prisma.UserCreateNestedOneWithoutHouseholdMemberInput
+}
+
+export type HouseholdMemberUncheckedCreateWithoutHouseholdInput = {
+  id: string
+  userId: string
+  role?: $Enums.HouseholdRole
+  joinedAt?: Date | string
+}
+
+export type HouseholdMemberCreateOrConnectWithoutHouseholdInput = {
+  where: Prisma.HouseholdMemberWhereUniqueInput
+  create: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutHouseholdInput, Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput>
+}
+
+export type HouseholdMemberCreateManyHouseholdInputEnvelope = {
+  data: Prisma.HouseholdMemberCreateManyHouseholdInput | Prisma.HouseholdMemberCreateManyHouseholdInput[]
+  skipDuplicates?: boolean
+}
+
+export type HouseholdMemberUpsertWithWhereUniqueWithoutHouseholdInput = {
+  where: Prisma.HouseholdMemberWhereUniqueInput
+  update: Prisma.XOR<Prisma.HouseholdMemberUpdateWithoutHouseholdInput, Prisma.HouseholdMemberUncheckedUpdateWithoutHouseholdInput>
+  create: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutHouseholdInput, Prisma.HouseholdMemberUncheckedCreateWithoutHouseholdInput>
+}
+
+export type HouseholdMemberUpdateWithWhereUniqueWithoutHouseholdInput = {
+  where: Prisma.HouseholdMemberWhereUniqueInput
+  data: Prisma.XOR<Prisma.HouseholdMemberUpdateWithoutHouseholdInput, Prisma.HouseholdMemberUncheckedUpdateWithoutHouseholdInput>
+}
+
+export type HouseholdMemberUpdateManyWithWhereWithoutHouseholdInput = {
+  where: Prisma.HouseholdMemberScalarWhereInput
+  data: Prisma.XOR<Prisma.HouseholdMemberUpdateManyMutationInput, Prisma.HouseholdMemberUncheckedUpdateManyWithoutHouseholdInput>
+}
+
+export type HouseholdMemberScalarWhereInput = {
+  AND?: Prisma.HouseholdMemberScalarWhereInput | Prisma.HouseholdMemberScalarWhereInput[]
+  OR?: Prisma.HouseholdMemberScalarWhereInput[]
+  NOT?: Prisma.HouseholdMemberScalarWhereInput | Prisma.HouseholdMemberScalarWhereInput[]
+  id?: Prisma.StringFilter<"HouseholdMember"> | string
+  householdId?: Prisma.StringFilter<"HouseholdMember"> | string
+  userId?: Prisma.StringFilter<"HouseholdMember"> | string
+  role?: Prisma.EnumHouseholdRoleFilter<"HouseholdMember"> | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFilter<"HouseholdMember"> | Date | string
+}
+
+export type HouseholdMemberCreateWithoutUserInput = {
+  id: string
+  role?: $Enums.HouseholdRole
+  joinedAt?: Date | string
+  Household: Prisma.HouseholdCreateNestedOneWithoutHouseholdMemberInput
+}
+
+export type HouseholdMemberUncheckedCreateWithoutUserInput = {
+  id: string
+  householdId: string
+  role?: $Enums.HouseholdRole
+  joinedAt?: Date | string
+}
+
+export type HouseholdMemberCreateOrConnectWithoutUserInput = {
+  where: Prisma.HouseholdMemberWhereUniqueInput
+  create: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutUserInput, Prisma.HouseholdMemberUncheckedCreateWithoutUserInput>
+}
+
+export type HouseholdMemberCreateManyUserInputEnvelope = {
+  data: Prisma.HouseholdMemberCreateManyUserInput | Prisma.HouseholdMemberCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type HouseholdMemberUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.HouseholdMemberWhereUniqueInput
+  update: Prisma.XOR<Prisma.HouseholdMemberUpdateWithoutUserInput, Prisma.HouseholdMemberUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.HouseholdMemberCreateWithoutUserInput, Prisma.HouseholdMemberUncheckedCreateWithoutUserInput>
+}
+
+export type HouseholdMemberUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.HouseholdMemberWhereUniqueInput
+  data: Prisma.XOR<Prisma.HouseholdMemberUpdateWithoutUserInput, Prisma.HouseholdMemberUncheckedUpdateWithoutUserInput>
+}
+
+export type HouseholdMemberUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.HouseholdMemberScalarWhereInput
+  data: Prisma.XOR<Prisma.HouseholdMemberUpdateManyMutationInput, Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserInput>
+}
+
+export type HouseholdMemberCreateManyHouseholdInput = {
+  id: string
+  userId: string
+  role?: $Enums.HouseholdRole
+  joinedAt?: Date | string
+}
+
+export type HouseholdMemberUpdateWithoutHouseholdInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutHouseholdMemberNestedInput
+}
+
+export type HouseholdMemberUncheckedUpdateWithoutHouseholdInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdMemberUncheckedUpdateManyWithoutHouseholdInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdMemberCreateManyUserInput = {
+  id: string
+  householdId: string
+  role?: $Enums.HouseholdRole
+  joinedAt?: Date | string
+}
+
+export type HouseholdMemberUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Household?: Prisma.HouseholdUpdateOneRequiredWithoutHouseholdMemberNestedInput
+}
+
+export type HouseholdMemberUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  householdId?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type HouseholdMemberUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  householdId?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumHouseholdRoleFieldUpdateOperationsInput | $Enums.HouseholdRole
+  joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type HouseholdMemberSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  householdId?: boolean
+  userId?: boolean
+  role?: boolean
+  joinedAt?: boolean
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["householdMember"]>
+
+export type HouseholdMemberSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  householdId?: boolean
+  userId?: boolean
+  role?: boolean
+  joinedAt?: boolean
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["householdMember"]>
+
+export type HouseholdMemberSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  householdId?: boolean
+  userId?: boolean
+  role?: boolean
+  joinedAt?: boolean
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["householdMember"]>
+
+export type HouseholdMemberSelectScalar = {
+  id?: boolean
+  householdId?: boolean
+  userId?: boolean
+  role?: boolean
+  joinedAt?: boolean
+}
+
+export type HouseholdMemberOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "householdId" | "userId" | "role" | "joinedAt", ExtArgs["result"]["householdMember"]>
+export type HouseholdMemberInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type HouseholdMemberIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type HouseholdMemberIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Household?: boolean | Prisma.HouseholdDefaultArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $HouseholdMemberPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "HouseholdMember"
+  objects: {
+    Household: Prisma.$HouseholdPayload<ExtArgs>
+    User: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    householdId: string
+    userId: string
+    role: $Enums.HouseholdRole
+    joinedAt: Date
+  }, ExtArgs["result"]["householdMember"]>
+  composites: {}
+}
+
+export type HouseholdMemberGetPayload<S extends boolean | null | undefined | HouseholdMemberDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload, S>
+
+export type HouseholdMemberCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<HouseholdMemberFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: HouseholdMemberCountAggregateInputType | true
+  }
+
+export interface HouseholdMemberDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['HouseholdMember'], meta: { name: 'HouseholdMember' } }
+  /**
+   * Find zero or one HouseholdMember that matches the filter.
+   * @param {HouseholdMemberFindUniqueArgs} args - Arguments to find a HouseholdMember
+   * @example
+   * // Get one HouseholdMember
+   * const householdMember = await prisma.householdMember.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends HouseholdMemberFindUniqueArgs>(args: Prisma.SelectSubset<T, HouseholdMemberFindUniqueArgs<ExtArgs>>): Prisma.Prisma__HouseholdMemberClient<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one HouseholdMember that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {HouseholdMemberFindUniqueOrThrowArgs} args - Arguments to find a HouseholdMember
+   * @example
+   * // Get one HouseholdMember
+   * const householdMember = await prisma.householdMember.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends HouseholdMemberFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, HouseholdMemberFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__HouseholdMemberClient<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first HouseholdMember that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdMemberFindFirstArgs} args - Arguments to find a HouseholdMember
+   * @example
+   * // Get one HouseholdMember
+   * const householdMember = await prisma.householdMember.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends HouseholdMemberFindFirstArgs>(args?: Prisma.SelectSubset<T, HouseholdMemberFindFirstArgs<ExtArgs>>): Prisma.Prisma__HouseholdMemberClient<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first HouseholdMember that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdMemberFindFirstOrThrowArgs} args - Arguments to find a HouseholdMember
+   * @example
+   * // Get one HouseholdMember
+   * const householdMember = await prisma.householdMember.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends HouseholdMemberFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, HouseholdMemberFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__HouseholdMemberClient<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more HouseholdMembers that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdMemberFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all HouseholdMembers
+   * const householdMembers = await prisma.householdMember.findMany()
+   * 
+   * // Get first 10 HouseholdMembers
+   * const householdMembers = await prisma.householdMember.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const householdMemberWithIdOnly = await prisma.householdMember.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends HouseholdMemberFindManyArgs>(args?: Prisma.SelectSubset<T, HouseholdMemberFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a HouseholdMember.
+   * @param {HouseholdMemberCreateArgs} args - Arguments to create a HouseholdMember.
+   * @example
+   * // Create one HouseholdMember
+   * const HouseholdMember = await prisma.householdMember.create({
+   *   data: {
+   *     // ... data to create a HouseholdMember
+   *   }
+   * })
+   * 
+   */
+  create<T extends HouseholdMemberCreateArgs>(args: Prisma.SelectSubset<T, HouseholdMemberCreateArgs<ExtArgs>>): Prisma.Prisma__HouseholdMemberClient<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many HouseholdMembers.
+   * @param {HouseholdMemberCreateManyArgs} args - Arguments to create many HouseholdMembers.
+   * @example
+   * // Create many HouseholdMembers
+   * const householdMember = await prisma.householdMember.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends HouseholdMemberCreateManyArgs>(args?: Prisma.SelectSubset<T, HouseholdMemberCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many HouseholdMembers and returns the data saved in the database.
+   * @param {HouseholdMemberCreateManyAndReturnArgs} args - Arguments to create many HouseholdMembers.
+   * @example
+   * // Create many HouseholdMembers
+   * const householdMember = await prisma.householdMember.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many HouseholdMembers and only return the `id`
+   * const householdMemberWithIdOnly = await prisma.householdMember.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends HouseholdMemberCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, HouseholdMemberCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a HouseholdMember.
+   * @param {HouseholdMemberDeleteArgs} args - Arguments to delete one HouseholdMember.
+   * @example
+   * // Delete one HouseholdMember
+   * const HouseholdMember = await prisma.householdMember.delete({
+   *   where: {
+   *     // ... filter to delete one HouseholdMember
+   *   }
+   * })
+   * 
+   */
+  delete<T extends HouseholdMemberDeleteArgs>(args: Prisma.SelectSubset<T, HouseholdMemberDeleteArgs<ExtArgs>>): Prisma.Prisma__HouseholdMemberClient<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one HouseholdMember.
+   * @param {HouseholdMemberUpdateArgs} args - Arguments to update one HouseholdMember.
+   * @example
+   * // Update one HouseholdMember
+   * const householdMember = await prisma.householdMember.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends HouseholdMemberUpdateArgs>(args: Prisma.SelectSubset<T, HouseholdMemberUpdateArgs<ExtArgs>>): Prisma.Prisma__HouseholdMemberClient<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more HouseholdMembers.
+   * @param {HouseholdMemberDeleteManyArgs} args - Arguments to filter HouseholdMembers to delete.
+   * @example
+   * // Delete a few HouseholdMembers
+   * const { count } = await prisma.householdMember.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends HouseholdMemberDeleteManyArgs>(args?: Prisma.SelectSubset<T, HouseholdMemberDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more HouseholdMembers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdMemberUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many HouseholdMembers
+   * const householdMember = await prisma.householdMember.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends HouseholdMemberUpdateManyArgs>(args: Prisma.SelectSubset<T, HouseholdMemberUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more HouseholdMembers and returns the data updated in the database.
+   * @param {HouseholdMemberUpdateManyAndReturnArgs} args - Arguments to update many HouseholdMembers.
+   * @example
+   * // Update many HouseholdMembers
+   * const householdMember = await prisma.householdMember.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more HouseholdMembers and only return the `id`
+   * const householdMemberWithIdOnly = await prisma.householdMember.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends HouseholdMemberUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, HouseholdMemberUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one HouseholdMember.
+   * @param {HouseholdMemberUpsertArgs} args - Arguments to update or create a HouseholdMember.
+   * @example
+   * // Update or create a HouseholdMember
+   * const householdMember = await prisma.householdMember.upsert({
+   *   create: {
+   *     // ... data to create a HouseholdMember
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the HouseholdMember we want to update
+   *   }
+   * })
+   */
+  upsert<T extends HouseholdMemberUpsertArgs>(args: Prisma.SelectSubset<T, HouseholdMemberUpsertArgs<ExtArgs>>): Prisma.Prisma__HouseholdMemberClient<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of HouseholdMembers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdMemberCountArgs} args - Arguments to filter HouseholdMembers to count.
+   * @example
+   * // Count the number of HouseholdMembers
+   * const count = await prisma.householdMember.count({
+   *   where: {
+   *     // ... the filter for the HouseholdMembers we want to count
+   *   }
+   * })
+  **/
+  count<T extends HouseholdMemberCountArgs>(
+    args?: Prisma.Subset<T, HouseholdMemberCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], HouseholdMemberCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a HouseholdMember.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdMemberAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends HouseholdMemberAggregateArgs>(args: Prisma.Subset<T, HouseholdMemberAggregateArgs>): Prisma.PrismaPromise<GetHouseholdMemberAggregateType<T>>
+
+  /**
+   * Group by HouseholdMember.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {HouseholdMemberGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends HouseholdMemberGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: HouseholdMemberGroupByArgs['orderBy'] }
+      : { orderBy?: HouseholdMemberGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, HouseholdMemberGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetHouseholdMemberGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the HouseholdMember model
+ */
+readonly fields: HouseholdMemberFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for HouseholdMember.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__HouseholdMemberClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  Household<T extends Prisma.HouseholdDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.HouseholdDefaultArgs<ExtArgs>>): Prisma.Prisma__HouseholdClient<runtime.Types.Result.GetResult<Prisma.$HouseholdPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the HouseholdMember model
+ */
+export interface HouseholdMemberFieldRefs {
+  readonly id: Prisma.FieldRef<"HouseholdMember", 'String'>
+  readonly householdId: Prisma.FieldRef<"HouseholdMember", 'String'>
+  readonly userId: Prisma.FieldRef<"HouseholdMember", 'String'>
+  readonly role: Prisma.FieldRef<"HouseholdMember", 'HouseholdRole'>
+  readonly joinedAt: Prisma.FieldRef<"HouseholdMember", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * HouseholdMember findUnique
+ */
+export type HouseholdMemberFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdMember to fetch.
+   */
+  where: Prisma.HouseholdMemberWhereUniqueInput
+}
+
+/**
+ * HouseholdMember findUniqueOrThrow
+ */
+export type HouseholdMemberFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdMember to fetch.
+   */
+  where: Prisma.HouseholdMemberWhereUniqueInput
+}
+
+/**
+ * HouseholdMember findFirst
+ */
+export type HouseholdMemberFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdMember to fetch.
+   */
+  where?: Prisma.HouseholdMemberWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of HouseholdMembers to fetch.
+   */
+  orderBy?: Prisma.HouseholdMemberOrderByWithRelationInput | Prisma.HouseholdMemberOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for HouseholdMembers.
+   */
+  cursor?: Prisma.HouseholdMemberWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` HouseholdMembers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` HouseholdMembers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of HouseholdMembers.
+   */
+  distinct?: Prisma.HouseholdMemberScalarFieldEnum | Prisma.HouseholdMemberScalarFieldEnum[]
+}
+
+/**
+ * HouseholdMember findFirstOrThrow
+ */
+export type HouseholdMemberFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdMember to fetch.
+   */
+  where?: Prisma.HouseholdMemberWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of HouseholdMembers to fetch.
+   */
+  orderBy?: Prisma.HouseholdMemberOrderByWithRelationInput | Prisma.HouseholdMemberOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for HouseholdMembers.
+   */
+  cursor?: Prisma.HouseholdMemberWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` HouseholdMembers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` HouseholdMembers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of HouseholdMembers.
+   */
+  distinct?: Prisma.HouseholdMemberScalarFieldEnum | Prisma.HouseholdMemberScalarFieldEnum[]
+}
+
+/**
+ * HouseholdMember findMany
+ */
+export type HouseholdMemberFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  /**
+   * Filter, which HouseholdMembers to fetch.
+   */
+  where?: Prisma.HouseholdMemberWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of HouseholdMembers to fetch.
+   */
+  orderBy?: Prisma.HouseholdMemberOrderByWithRelationInput | Prisma.HouseholdMemberOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing HouseholdMembers.
+   */
+  cursor?: Prisma.HouseholdMemberWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` HouseholdMembers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` HouseholdMembers.
+   */
+  skip?: number
+  distinct?: Prisma.HouseholdMemberScalarFieldEnum | Prisma.HouseholdMemberScalarFieldEnum[]
+}
+
+/**
+ * HouseholdMember create
+ */
+export type HouseholdMemberCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  /**
+   * The data needed to create a HouseholdMember.
+   */
+  data: Prisma.XOR<Prisma.HouseholdMemberCreateInput, Prisma.HouseholdMemberUncheckedCreateInput>
+}
+
+/**
+ * HouseholdMember createMany
+ */
+export type HouseholdMemberCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many HouseholdMembers.
+   */
+  data: Prisma.HouseholdMemberCreateManyInput | Prisma.HouseholdMemberCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * HouseholdMember createManyAndReturn
+ */
+export type HouseholdMemberCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * The data used to create many HouseholdMembers.
+   */
+  data: Prisma.HouseholdMemberCreateManyInput | Prisma.HouseholdMemberCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * HouseholdMember update
+ */
+export type HouseholdMemberUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  /**
+   * The data needed to update a HouseholdMember.
+   */
+  data: Prisma.XOR<Prisma.HouseholdMemberUpdateInput, Prisma.HouseholdMemberUncheckedUpdateInput>
+  /**
+   * Choose, which HouseholdMember to update.
+   */
+  where: Prisma.HouseholdMemberWhereUniqueInput
+}
+
+/**
+ * HouseholdMember updateMany
+ */
+export type HouseholdMemberUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update HouseholdMembers.
+   */
+  data: Prisma.XOR<Prisma.HouseholdMemberUpdateManyMutationInput, Prisma.HouseholdMemberUncheckedUpdateManyInput>
+  /**
+   * Filter which HouseholdMembers to update
+   */
+  where?: Prisma.HouseholdMemberWhereInput
+  /**
+   * Limit how many HouseholdMembers to update.
+   */
+  limit?: number
+}
+
+/**
+ * HouseholdMember updateManyAndReturn
+ */
+export type HouseholdMemberUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * The data used to update HouseholdMembers.
+   */
+  data: Prisma.XOR<Prisma.HouseholdMemberUpdateManyMutationInput, Prisma.HouseholdMemberUncheckedUpdateManyInput>
+  /**
+   * Filter which HouseholdMembers to update
+   */
+  where?: Prisma.HouseholdMemberWhereInput
+  /**
+   * Limit how many HouseholdMembers to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * HouseholdMember upsert
+ */
+export type HouseholdMemberUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  /**
+   * The filter to search for the HouseholdMember to update in case it exists.
+   */
+  where: Prisma.HouseholdMemberWhereUniqueInput
+  /**
+   * In case the HouseholdMember found by the `where` argument doesn't exist, create a new HouseholdMember with this data.
+   */
+  create: Prisma.XOR<Prisma.HouseholdMemberCreateInput, Prisma.HouseholdMemberUncheckedCreateInput>
+  /**
+   * In case the HouseholdMember was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.HouseholdMemberUpdateInput, Prisma.HouseholdMemberUncheckedUpdateInput>
+}
+
+/**
+ * HouseholdMember delete
+ */
+export type HouseholdMemberDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  /**
+   * Filter which HouseholdMember to delete.
+   */
+  where: Prisma.HouseholdMemberWhereUniqueInput
+}
+
+/**
+ * HouseholdMember deleteMany
+ */
+export type HouseholdMemberDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which HouseholdMembers to delete
+   */
+  where?: Prisma.HouseholdMemberWhereInput
+  /**
+   * Limit how many HouseholdMembers to delete.
+   */
+  limit?: number
+}
+
+/**
+ * HouseholdMember without action
+ */
+export type HouseholdMemberDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+}
@@ -43,11 +43,18 @@ export type InventoryItemMinAggregateOutputType = {
   quantity: number | null
   expiryDate: Date | null
   expiryDateSource: $Enums.ExpiryDateSource | null
+  expiryKind: $Enums.ExpiryKind | null
   packageStatus: $Enums.PackageStatus | null
   preparationStatus: $Enums.PreparationStatus | null
   purchaseDate: Date | null
   purchasePrice: number | null
   storageLocation: string | null
+  thawedAt: Date | null
+  frozenAt: Date | null
+  stocktakeFlaggedAt: Date | null
+  deletedAt: Date | null
+  recipeId: string | null
+  invoiceItemId: string | null
   createdAt: Date | null
   updatedAt: Date | null
   notes: string | null
@@ -60,11 +67,18 @@ export type InventoryItemMaxAggregateOutputType = {
   quantity: number | null
   expiryDate: Date | null
   expiryDateSource: $Enums.ExpiryDateSource | null
+  expiryKind: $Enums.ExpiryKind | null
   packageStatus: $Enums.PackageStatus | null
   preparationStatus: $Enums.PreparationStatus | null
   purchaseDate: Date | null
   purchasePrice: number | null
   storageLocation: string | null
+  thawedAt: Date | null
+  frozenAt: Date | null
+  stocktakeFlaggedAt: Date | null
+  deletedAt: Date | null
+  recipeId: string | null
+  invoiceItemId: string | null
   createdAt: Date | null
   updatedAt: Date | null
   notes: string | null
@@ -77,11 +91,18 @@ export type InventoryItemCountAggregateOutputType = {
   quantity: number
   expiryDate: number
   expiryDateSource: number
+  expiryKind: number
   packageStatus: number
   preparationStatus: number
   purchaseDate: number
   purchasePrice: number
   storageLocation: number
+  thawedAt: number
+  frozenAt: number
+  stocktakeFlaggedAt: number
+  deletedAt: number
+  recipeId: number
+  invoiceItemId: number
   createdAt: number
   updatedAt: number
   notes: number
@@ -106,11 +127,18 @@ export type InventoryItemMinAggregateInputType = {
   quantity?: true
   expiryDate?: true
   expiryDateSource?: true
+  expiryKind?: true
   packageStatus?: true
   preparationStatus?: true
   purchaseDate?: true
   purchasePrice?: true
   storageLocation?: true
+  thawedAt?: true
+  frozenAt?: true
+  stocktakeFlaggedAt?: true
+  deletedAt?: true
+  recipeId?: true
+  invoiceItemId?: true
   createdAt?: true
   updatedAt?: true
   notes?: true
@@ -123,11 +151,18 @@ export type InventoryItemMaxAggregateInputType = {
   quantity?: true
   expiryDate?: true
   expiryDateSource?: true
+  expiryKind?: true
   packageStatus?: true
   preparationStatus?: true
   purchaseDate?: true
   purchasePrice?: true
   storageLocation?: true
+  thawedAt?: true
+  frozenAt?: true
+  stocktakeFlaggedAt?: true
+  deletedAt?: true
+  recipeId?: true
+  invoiceItemId?: true
   createdAt?: true
   updatedAt?: true
   notes?: true
@@ -140,11 +175,18 @@ export type InventoryItemCountAggregateInputType = {
   quantity?: true
   expiryDate?: true
   expiryDateSource?: true
+  expiryKind?: true
   packageStatus?: true
   preparationStatus?: true
   purchaseDate?: true
   purchasePrice?: true
   storageLocation?: true
+  thawedAt?: true
+  frozenAt?: true
+  stocktakeFlaggedAt?: true
+  deletedAt?: true
+  recipeId?: true
+  invoiceItemId?: true
   createdAt?: true
   updatedAt?: true
   notes?: true
@@ -244,11 +286,18 @@ export type InventoryItemGroupByOutputType = {
   quantity: number
   expiryDate: Date | null
   expiryDateSource: $Enums.ExpiryDateSource
+  expiryKind: $Enums.ExpiryKind
   packageStatus: $Enums.PackageStatus | null
   preparationStatus: $Enums.PreparationStatus | null
   purchaseDate: Date
   purchasePrice: number | null
   storageLocation: string | null
+  thawedAt: Date | null
+  frozenAt: Date | null
+  stocktakeFlaggedAt: Date | null
+  deletedAt: Date | null
+  recipeId: string | null
+  invoiceItemId: string | null
   createdAt: Date
   updatedAt: Date
   notes: string | null
@@ -284,15 +333,24 @@ export type InventoryItemWhereInput = {
   quantity?: Prisma.FloatFilter<"InventoryItem"> | number
   expiryDate?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFilter<"InventoryItem"> | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFilter<"InventoryItem"> | $Enums.ExpiryKind
   packageStatus?: Prisma.EnumPackageStatusNullableFilter<"InventoryItem"> | $Enums.PackageStatus | null
   preparationStatus?: Prisma.EnumPreparationStatusNullableFilter<"InventoryItem"> | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFilter<"InventoryItem"> | Date | string
   purchasePrice?: Prisma.FloatNullableFilter<"InventoryItem"> | number | null
   storageLocation?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
+  thawedAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  frozenAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  stocktakeFlaggedAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  recipeId?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
+  invoiceItemId?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"InventoryItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"InventoryItem"> | Date | string
   notes?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
   Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+  Recipe?: Prisma.XOR<Prisma.RecipeNullableScalarRelationFilter, Prisma.RecipeWhereInput> | null
+  InvoiceItem?: Prisma.XOR<Prisma.InvoiceItemNullableScalarRelationFilter, Prisma.InvoiceItemWhereInput> | null
   User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
 }
 
@@ -303,20 +361,30 @@ export type InventoryItemOrderByWithRelationInput = {
   quantity?: Prisma.SortOrder
   expiryDate?: Prisma.SortOrderInput | Prisma.SortOrder
   expiryDateSource?: Prisma.SortOrder
+  expiryKind?: Prisma.SortOrder
   packageStatus?: Prisma.SortOrderInput | Prisma.SortOrder
   preparationStatus?: Prisma.SortOrderInput | Prisma.SortOrder
   purchaseDate?: Prisma.SortOrder
   purchasePrice?: Prisma.SortOrderInput | Prisma.SortOrder
   storageLocation?: Prisma.SortOrderInput | Prisma.SortOrder
+  thawedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  frozenAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  stocktakeFlaggedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   notes?: Prisma.SortOrderInput | Prisma.SortOrder
   Product?: Prisma.ProductOrderByWithRelationInput
+  Recipe?: Prisma.RecipeOrderByWithRelationInput
+  InvoiceItem?: Prisma.InvoiceItemOrderByWithRelationInput
   User?: Prisma.UserOrderByWithRelationInput
 }
 
 export type InventoryItemWhereUniqueInput = Prisma.AtLeast<{
   id?: string
+  invoiceItemId?: string
   AND?: Prisma.InventoryItemWhereInput | Prisma.InventoryItemWhereInput[]
   OR?: Prisma.InventoryItemWhereInput[]
   NOT?: Prisma.InventoryItemWhereInput | Prisma.InventoryItemWhereInput[]
@@ -325,17 +393,25 @@ export type InventoryItemWhereUniqueInput = Prisma.AtLeast<{
   quantity?: Prisma.FloatFilter<"InventoryItem"> | number
   expiryDate?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFilter<"InventoryItem"> | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFilter<"InventoryItem"> | $Enums.ExpiryKind
   packageStatus?: Prisma.EnumPackageStatusNullableFilter<"InventoryItem"> | $Enums.PackageStatus | null
   preparationStatus?: Prisma.EnumPreparationStatusNullableFilter<"InventoryItem"> | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFilter<"InventoryItem"> | Date | string
   purchasePrice?: Prisma.FloatNullableFilter<"InventoryItem"> | number | null
   storageLocation?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
+  thawedAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  frozenAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  stocktakeFlaggedAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  recipeId?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"InventoryItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"InventoryItem"> | Date | string
   notes?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
   Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+  Recipe?: Prisma.XOR<Prisma.RecipeNullableScalarRelationFilter, Prisma.RecipeWhereInput> | null
+  InvoiceItem?: Prisma.XOR<Prisma.InvoiceItemNullableScalarRelationFilter, Prisma.InvoiceItemWhereInput> | null
   User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
-}, "id">
+}, "id" | "invoiceItemId">
 
 export type InventoryItemOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -344,11 +420,18 @@ export type InventoryItemOrderByWithAggregationInput = {
   quantity?: Prisma.SortOrder
   expiryDate?: Prisma.SortOrderInput | Prisma.SortOrder
   expiryDateSource?: Prisma.SortOrder
+  expiryKind?: Prisma.SortOrder
   packageStatus?: Prisma.SortOrderInput | Prisma.SortOrder
   preparationStatus?: Prisma.SortOrderInput | Prisma.SortOrder
   purchaseDate?: Prisma.SortOrder
   purchasePrice?: Prisma.SortOrderInput | Prisma.SortOrder
   storageLocation?: Prisma.SortOrderInput | Prisma.SortOrder
+  thawedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  frozenAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  stocktakeFlaggedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   notes?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -369,11 +452,18 @@ export type InventoryItemScalarWhereWithAggregatesInput = {
   quantity?: Prisma.FloatWithAggregatesFilter<"InventoryItem"> | number
   expiryDate?: Prisma.DateTimeNullableWithAggregatesFilter<"InventoryItem"> | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceWithAggregatesFilter<"InventoryItem"> | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindWithAggregatesFilter<"InventoryItem"> | $Enums.ExpiryKind
   packageStatus?: Prisma.EnumPackageStatusNullableWithAggregatesFilter<"InventoryItem"> | $Enums.PackageStatus | null
   preparationStatus?: Prisma.EnumPreparationStatusNullableWithAggregatesFilter<"InventoryItem"> | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeWithAggregatesFilter<"InventoryItem"> | Date | string
   purchasePrice?: Prisma.FloatNullableWithAggregatesFilter<"InventoryItem"> | number | null
   storageLocation?: Prisma.StringNullableWithAggregatesFilter<"InventoryItem"> | string | null
+  thawedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InventoryItem"> | Date | string | null
+  frozenAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InventoryItem"> | Date | string | null
+  stocktakeFlaggedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InventoryItem"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"InventoryItem"> | Date | string | null
+  recipeId?: Prisma.StringNullableWithAggregatesFilter<"InventoryItem"> | string | null
+  invoiceItemId?: Prisma.StringNullableWithAggregatesFilter<"InventoryItem"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"InventoryItem"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"InventoryItem"> | Date | string
   notes?: Prisma.StringNullableWithAggregatesFilter<"InventoryItem"> | string | null
@@ -384,15 +474,22 @@ export type InventoryItemCreateInput = {
   quantity: number
   expiryDate?: Date | string | null
   expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
   packageStatus?: $Enums.PackageStatus | null
   preparationStatus?: $Enums.PreparationStatus | null
   purchaseDate: Date | string
   purchasePrice?: number | null
   storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt: Date | string
   notes?: string | null
   Product: Prisma.ProductCreateNestedOneWithoutInventoryItemInput
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutInventoryItemInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedOneWithoutInventoryItemInput
   User: Prisma.UserCreateNestedOneWithoutInventoryItemInput
 }
 
@@ -403,11 +500,18 @@ export type InventoryItemUncheckedCreateInput = {
   quantity: number
   expiryDate?: Date | string | null
   expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
   packageStatus?: $Enums.PackageStatus | null
   preparationStatus?: $Enums.PreparationStatus | null
   purchaseDate: Date | string
   purchasePrice?: number | null
   storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  recipeId?: string | null
+  invoiceItemId?: string | null
   createdAt?: Date | string
   updatedAt: Date | string
   notes?: string | null
@@ -418,15 +522,22 @@ export type InventoryItemUpdateInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   Product?: Prisma.ProductUpdateOneRequiredWithoutInventoryItemNestedInput
+  Recipe?: Prisma.RecipeUpdateOneWithoutInventoryItemNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateOneWithoutInventoryItemNestedInput
   User?: Prisma.UserUpdateOneRequiredWithoutInventoryItemNestedInput
 }
 
@@ -437,11 +548,18 @@ export type InventoryItemUncheckedUpdateInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -454,11 +572,18 @@ export type InventoryItemCreateManyInput = {
   quantity: number
   expiryDate?: Date | string | null
   expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
   packageStatus?: $Enums.PackageStatus | null
   preparationStatus?: $Enums.PreparationStatus | null
   purchaseDate: Date | string
   purchasePrice?: number | null
   storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  recipeId?: string | null
+  invoiceItemId?: string | null
   createdAt?: Date | string
   updatedAt: Date | string
   notes?: string | null
@@ -469,11 +594,16 @@ export type InventoryItemUpdateManyMutationInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -486,11 +616,18 @@ export type InventoryItemUncheckedUpdateManyInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -503,11 +640,18 @@ export type InventoryItemCountOrderByAggregateInput = {
   quantity?: Prisma.SortOrder
   expiryDate?: Prisma.SortOrder
   expiryDateSource?: Prisma.SortOrder
+  expiryKind?: Prisma.SortOrder
   packageStatus?: Prisma.SortOrder
   preparationStatus?: Prisma.SortOrder
   purchaseDate?: Prisma.SortOrder
   purchasePrice?: Prisma.SortOrder
   storageLocation?: Prisma.SortOrder
+  thawedAt?: Prisma.SortOrder
+  frozenAt?: Prisma.SortOrder
+  stocktakeFlaggedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
+  recipeId?: Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   notes?: Prisma.SortOrder
@@ -525,11 +669,18 @@ export type InventoryItemMaxOrderByAggregateInput = {
   quantity?: Prisma.SortOrder
   expiryDate?: Prisma.SortOrder
   expiryDateSource?: Prisma.SortOrder
+  expiryKind?: Prisma.SortOrder
   packageStatus?: Prisma.SortOrder
   preparationStatus?: Prisma.SortOrder
   purchaseDate?: Prisma.SortOrder
   purchasePrice?: Prisma.SortOrder
   storageLocation?: Prisma.SortOrder
+  thawedAt?: Prisma.SortOrder
+  frozenAt?: Prisma.SortOrder
+  stocktakeFlaggedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
+  recipeId?: Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   notes?: Prisma.SortOrder
@@ -542,11 +693,18 @@ export type InventoryItemMinOrderByAggregateInput = {
   quantity?: Prisma.SortOrder
   expiryDate?: Prisma.SortOrder
   expiryDateSource?: Prisma.SortOrder
+  expiryKind?: Prisma.SortOrder
   packageStatus?: Prisma.SortOrder
   preparationStatus?: Prisma.SortOrder
   purchaseDate?: Prisma.SortOrder
   purchasePrice?: Prisma.SortOrder
   storageLocation?: Prisma.SortOrder
+  thawedAt?: Prisma.SortOrder
+  frozenAt?: Prisma.SortOrder
+  stocktakeFlaggedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
+  recipeId?: Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   notes?: Prisma.SortOrder
@@ -567,6 +725,11 @@ export type InventoryItemOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type InventoryItemNullableScalarRelationFilter = {
+  is?: Prisma.InventoryItemWhereInput | null
+  isNot?: Prisma.InventoryItemWhereInput | null
+}
+
 export type NullableDateTimeFieldUpdateOperationsInput = {
   set?: Date | string | null
 }
@@ -575,6 +738,10 @@ export type EnumExpiryDateSourceFieldUpdateOperationsInput = {
   set?: $Enums.ExpiryDateSource
 }
 
+export type EnumExpiryKindFieldUpdateOperationsInput = {
+  set?: $Enums.ExpiryKind
+}
+
 export type NullableEnumPackageStatusFieldUpdateOperationsInput = {
   set?: $Enums.PackageStatus | null
 }
@@ -633,6 +800,80 @@ export type InventoryItemUncheckedUpdateManyWithoutProductNestedInput = {
   deleteMany?: Prisma.InventoryItemScalarWhereInput | Prisma.InventoryItemScalarWhereInput[]
 }
 
+export type InventoryItemCreateNestedOneWithoutInvoiceItemInput = {
+  create?: Prisma.XOR<Prisma.InventoryItemCreateWithoutInvoiceItemInput, Prisma.InventoryItemUncheckedCreateWithoutInvoiceItemInput>
+  connectOrCreate?: Prisma.InventoryItemCreateOrConnectWithoutInvoiceItemInput
+  connect?: Prisma.InventoryItemWhereUniqueInput
+}
+
+export type InventoryItemUncheckedCreateNestedOneWithoutInvoiceItemInput = {
+  create?: Prisma.XOR<Prisma.InventoryItemCreateWithoutInvoiceItemInput, Prisma.InventoryItemUncheckedCreateWithoutInvoiceItemInput>
+  connectOrCreate?: Prisma.InventoryItemCreateOrConnectWithoutInvoiceItemInput
+  connect?: Prisma.InventoryItemWhereUniqueInput
+}
+
+export type InventoryItemUpdateOneWithoutInvoiceItemNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryItemCreateWithoutInvoiceItemInput, Prisma.InventoryItemUncheckedCreateWithoutInvoiceItemInput>
+  connectOrCreate?: Prisma.InventoryItemCreateOrConnectWithoutInvoiceItemInput
+  upsert?: Prisma.InventoryItemUpsertWithoutInvoiceItemInput
+  disconnect?: Prisma.InventoryItemWhereInput | boolean
+  delete?: Prisma.InventoryItemWhereInput | boolean
+  connect?: Prisma.InventoryItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryItemUpdateToOneWithWhereWithoutInvoiceItemInput, Prisma.InventoryItemUpdateWithoutInvoiceItemInput>, Prisma.InventoryItemUncheckedUpdateWithoutInvoiceItemInput>
+}
+
+export type InventoryItemUncheckedUpdateOneWithoutInvoiceItemNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryItemCreateWithoutInvoiceItemInput, Prisma.InventoryItemUncheckedCreateWithoutInvoiceItemInput>
+  connectOrCreate?: Prisma.InventoryItemCreateOrConnectWithoutInvoiceItemInput
+  upsert?: Prisma.InventoryItemUpsertWithoutInvoiceItemInput
+  disconnect?: Prisma.InventoryItemWhereInput | boolean
+  delete?: Prisma.InventoryItemWhereInput | boolean
+  connect?: Prisma.InventoryItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InventoryItemUpdateToOneWithWhereWithoutInvoiceItemInput, Prisma.InventoryItemUpdateWithoutInvoiceItemInput>, Prisma.InventoryItemUncheckedUpdateWithoutInvoiceItemInput>
+}
+
+export type InventoryItemCreateNestedManyWithoutRecipeInput = {
+  create?: Prisma.XOR<Prisma.InventoryItemCreateWithoutRecipeInput, Prisma.InventoryItemUncheckedCreateWithoutRecipeInput> | Prisma.InventoryItemCreateWithoutRecipeInput[] | Prisma.InventoryItemUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.InventoryItemCreateOrConnectWithoutRecipeInput | Prisma.InventoryItemCreateOrConnectWithoutRecipeInput[]
+  createMany?: Prisma.InventoryItemCreateManyRecipeInputEnvelope
+  connect?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+}
+
+export type InventoryItemUncheckedCreateNestedManyWithoutRecipeInput = {
+  create?: Prisma.XOR<Prisma.InventoryItemCreateWithoutRecipeInput, Prisma.InventoryItemUncheckedCreateWithoutRecipeInput> | Prisma.InventoryItemCreateWithoutRecipeInput[] | Prisma.InventoryItemUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.InventoryItemCreateOrConnectWithoutRecipeInput | Prisma.InventoryItemCreateOrConnectWithoutRecipeInput[]
+  createMany?: Prisma.InventoryItemCreateManyRecipeInputEnvelope
+  connect?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+}
+
+export type InventoryItemUpdateManyWithoutRecipeNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryItemCreateWithoutRecipeInput, Prisma.InventoryItemUncheckedCreateWithoutRecipeInput> | Prisma.InventoryItemCreateWithoutRecipeInput[] | Prisma.InventoryItemUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.InventoryItemCreateOrConnectWithoutRecipeInput | Prisma.InventoryItemCreateOrConnectWithoutRecipeInput[]
+  upsert?: Prisma.InventoryItemUpsertWithWhereUniqueWithoutRecipeInput | Prisma.InventoryItemUpsertWithWhereUniqueWithoutRecipeInput[]
+  createMany?: Prisma.InventoryItemCreateManyRecipeInputEnvelope
+  set?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+  disconnect?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+  delete?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+  connect?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+  update?: Prisma.InventoryItemUpdateWithWhereUniqueWithoutRecipeInput | Prisma.InventoryItemUpdateWithWhereUniqueWithoutRecipeInput[]
+  updateMany?: Prisma.InventoryItemUpdateManyWithWhereWithoutRecipeInput | Prisma.InventoryItemUpdateManyWithWhereWithoutRecipeInput[]
+  deleteMany?: Prisma.InventoryItemScalarWhereInput | Prisma.InventoryItemScalarWhereInput[]
+}
+
+export type InventoryItemUncheckedUpdateManyWithoutRecipeNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryItemCreateWithoutRecipeInput, Prisma.InventoryItemUncheckedCreateWithoutRecipeInput> | Prisma.InventoryItemCreateWithoutRecipeInput[] | Prisma.InventoryItemUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.InventoryItemCreateOrConnectWithoutRecipeInput | Prisma.InventoryItemCreateOrConnectWithoutRecipeInput[]
+  upsert?: Prisma.InventoryItemUpsertWithWhereUniqueWithoutRecipeInput | Prisma.InventoryItemUpsertWithWhereUniqueWithoutRecipeInput[]
+  createMany?: Prisma.InventoryItemCreateManyRecipeInputEnvelope
+  set?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+  disconnect?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+  delete?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+  connect?: Prisma.InventoryItemWhereUniqueInput | Prisma.InventoryItemWhereUniqueInput[]
+  update?: Prisma.InventoryItemUpdateWithWhereUniqueWithoutRecipeInput | Prisma.InventoryItemUpdateWithWhereUniqueWithoutRecipeInput[]
+  updateMany?: Prisma.InventoryItemUpdateManyWithWhereWithoutRecipeInput | Prisma.InventoryItemUpdateManyWithWhereWithoutRecipeInput[]
+  deleteMany?: Prisma.InventoryItemScalarWhereInput | Prisma.InventoryItemScalarWhereInput[]
+}
+
 export type InventoryItemCreateNestedManyWithoutUserInput = {
   create?: Prisma.XOR<Prisma.InventoryItemCreateWithoutUserInput, Prisma.InventoryItemUncheckedCreateWithoutUserInput> | Prisma.InventoryItemCreateWithoutUserInput[] | Prisma.InventoryItemUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.InventoryItemCreateOrConnectWithoutUserInput | Prisma.InventoryItemCreateOrConnectWithoutUserInput[]
@@ -680,14 +921,21 @@ export type InventoryItemCreateWithoutProductInput = {
   quantity: number
   expiryDate?: Date | string | null
   expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
   packageStatus?: $Enums.PackageStatus | null
   preparationStatus?: $Enums.PreparationStatus | null
   purchaseDate: Date | string
   purchasePrice?: number | null
   storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt: Date | string
   notes?: string | null
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutInventoryItemInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedOneWithoutInventoryItemInput
   User: Prisma.UserCreateNestedOneWithoutInventoryItemInput
 }
 
@@ -697,11 +945,18 @@ export type InventoryItemUncheckedCreateWithoutProductInput = {
   quantity: number
   expiryDate?: Date | string | null
   expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
   packageStatus?: $Enums.PackageStatus | null
   preparationStatus?: $Enums.PreparationStatus | null
   purchaseDate: Date | string
   purchasePrice?: number | null
   storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  recipeId?: string | null
+  invoiceItemId?: string | null
   createdAt?: Date | string
   updatedAt: Date | string
   notes?: string | null
@@ -743,30 +998,224 @@ export type InventoryItemScalarWhereInput = {
   quantity?: Prisma.FloatFilter<"InventoryItem"> | number
   expiryDate?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFilter<"InventoryItem"> | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFilter<"InventoryItem"> | $Enums.ExpiryKind
   packageStatus?: Prisma.EnumPackageStatusNullableFilter<"InventoryItem"> | $Enums.PackageStatus | null
   preparationStatus?: Prisma.EnumPreparationStatusNullableFilter<"InventoryItem"> | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFilter<"InventoryItem"> | Date | string
   purchasePrice?: Prisma.FloatNullableFilter<"InventoryItem"> | number | null
   storageLocation?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
+  thawedAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  frozenAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  stocktakeFlaggedAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"InventoryItem"> | Date | string | null
+  recipeId?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
+  invoiceItemId?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"InventoryItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"InventoryItem"> | Date | string
   notes?: Prisma.StringNullableFilter<"InventoryItem"> | string | null
 }
 
+export type InventoryItemCreateWithoutInvoiceItemInput = {
+  id: string
+  quantity: number
+  expiryDate?: Date | string | null
+  expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
+  packageStatus?: $Enums.PackageStatus | null
+  preparationStatus?: $Enums.PreparationStatus | null
+  purchaseDate: Date | string
+  purchasePrice?: number | null
+  storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  notes?: string | null
+  Product: Prisma.ProductCreateNestedOneWithoutInventoryItemInput
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutInventoryItemInput
+  User: Prisma.UserCreateNestedOneWithoutInventoryItemInput
+}
+
+export type InventoryItemUncheckedCreateWithoutInvoiceItemInput = {
+  id: string
+  userId: string
+  productId: string
+  quantity: number
+  expiryDate?: Date | string | null
+  expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
+  packageStatus?: $Enums.PackageStatus | null
+  preparationStatus?: $Enums.PreparationStatus | null
+  purchaseDate: Date | string
+  purchasePrice?: number | null
+  storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  recipeId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  notes?: string | null
+}
+
+export type InventoryItemCreateOrConnectWithoutInvoiceItemInput = {
+  where: Prisma.InventoryItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryItemCreateWithoutInvoiceItemInput, Prisma.InventoryItemUncheckedCreateWithoutInvoiceItemInput>
+}
+
+export type InventoryItemUpsertWithoutInvoiceItemInput = {
+  update: Prisma.XOR<Prisma.InventoryItemUpdateWithoutInvoiceItemInput, Prisma.InventoryItemUncheckedUpdateWithoutInvoiceItemInput>
+  create: Prisma.XOR<Prisma.InventoryItemCreateWithoutInvoiceItemInput, Prisma.InventoryItemUncheckedCreateWithoutInvoiceItemInput>
+  where?: Prisma.InventoryItemWhereInput
+}
+
+export type InventoryItemUpdateToOneWithWhereWithoutInvoiceItemInput = {
+  where?: Prisma.InventoryItemWhereInput
+  data: Prisma.XOR<Prisma.InventoryItemUpdateWithoutInvoiceItemInput, Prisma.InventoryItemUncheckedUpdateWithoutInvoiceItemInput>
+}
+
+export type InventoryItemUpdateWithoutInvoiceItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
+  packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
+  preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
+  purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  Product?: Prisma.ProductUpdateOneRequiredWithoutInventoryItemNestedInput
+  Recipe?: Prisma.RecipeUpdateOneWithoutInventoryItemNestedInput
+  User?: Prisma.UserUpdateOneRequiredWithoutInventoryItemNestedInput
+}
+
+export type InventoryItemUncheckedUpdateWithoutInvoiceItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
+  packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
+  preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
+  purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type InventoryItemCreateWithoutRecipeInput = {
+  id: string
+  quantity: number
+  expiryDate?: Date | string | null
+  expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
+  packageStatus?: $Enums.PackageStatus | null
+  preparationStatus?: $Enums.PreparationStatus | null
+  purchaseDate: Date | string
+  purchasePrice?: number | null
+  storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  notes?: string | null
+  Product: Prisma.ProductCreateNestedOneWithoutInventoryItemInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedOneWithoutInventoryItemInput
+  User: Prisma.UserCreateNestedOneWithoutInventoryItemInput
+}
+
+export type InventoryItemUncheckedCreateWithoutRecipeInput = {
+  id: string
+  userId: string
+  productId: string
+  quantity: number
+  expiryDate?: Date | string | null
+  expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
+  packageStatus?: $Enums.PackageStatus | null
+  preparationStatus?: $Enums.PreparationStatus | null
+  purchaseDate: Date | string
+  purchasePrice?: number | null
+  storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  invoiceItemId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  notes?: string | null
+}
+
+export type InventoryItemCreateOrConnectWithoutRecipeInput = {
+  where: Prisma.InventoryItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryItemCreateWithoutRecipeInput, Prisma.InventoryItemUncheckedCreateWithoutRecipeInput>
+}
+
+export type InventoryItemCreateManyRecipeInputEnvelope = {
+  data: Prisma.InventoryItemCreateManyRecipeInput | Prisma.InventoryItemCreateManyRecipeInput[]
+  skipDuplicates?: boolean
+}
+
+export type InventoryItemUpsertWithWhereUniqueWithoutRecipeInput = {
+  where: Prisma.InventoryItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.InventoryItemUpdateWithoutRecipeInput, Prisma.InventoryItemUncheckedUpdateWithoutRecipeInput>
+  create: Prisma.XOR<Prisma.InventoryItemCreateWithoutRecipeInput, Prisma.InventoryItemUncheckedCreateWithoutRecipeInput>
+}
+
+export type InventoryItemUpdateWithWhereUniqueWithoutRecipeInput = {
+  where: Prisma.InventoryItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.InventoryItemUpdateWithoutRecipeInput, Prisma.InventoryItemUncheckedUpdateWithoutRecipeInput>
+}
+
+export type InventoryItemUpdateManyWithWhereWithoutRecipeInput = {
+  where: Prisma.InventoryItemScalarWhereInput
+  data: Prisma.XOR<Prisma.InventoryItemUpdateManyMutationInput, Prisma.InventoryItemUncheckedUpdateManyWithoutRecipeInput>
+}
+
 export type InventoryItemCreateWithoutUserInput = {
   id: string
   quantity: number
   expiryDate?: Date | string | null
   expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
   packageStatus?: $Enums.PackageStatus | null
   preparationStatus?: $Enums.PreparationStatus | null
   purchaseDate: Date | string
   purchasePrice?: number | null
   storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
   createdAt?: Date | string
   updatedAt: Date | string
   notes?: string | null
   Product: Prisma.ProductCreateNestedOneWithoutInventoryItemInput
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutInventoryItemInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedOneWithoutInventoryItemInput
 }
 
 export type InventoryItemUncheckedCreateWithoutUserInput = {
@@ -775,11 +1224,18 @@ export type InventoryItemUncheckedCreateWithoutUserInput = {
   quantity: number
   expiryDate?: Date | string | null
   expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
   packageStatus?: $Enums.PackageStatus | null
   preparationStatus?: $Enums.PreparationStatus | null
   purchaseDate: Date | string
   purchasePrice?: number | null
   storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  recipeId?: string | null
+  invoiceItemId?: string | null
   createdAt?: Date | string
   updatedAt: Date | string
   notes?: string | null
@@ -817,11 +1273,18 @@ export type InventoryItemCreateManyProductInput = {
   quantity: number
   expiryDate?: Date | string | null
   expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
   packageStatus?: $Enums.PackageStatus | null
   preparationStatus?: $Enums.PreparationStatus | null
   purchaseDate: Date | string
   purchasePrice?: number | null
   storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  recipeId?: string | null
+  invoiceItemId?: string | null
   createdAt?: Date | string
   updatedAt: Date | string
   notes?: string | null
@@ -832,14 +1295,21 @@ export type InventoryItemUpdateWithoutProductInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  Recipe?: Prisma.RecipeUpdateOneWithoutInventoryItemNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateOneWithoutInventoryItemNestedInput
   User?: Prisma.UserUpdateOneRequiredWithoutInventoryItemNestedInput
 }
 
@@ -849,11 +1319,18 @@ export type InventoryItemUncheckedUpdateWithoutProductInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -865,11 +1342,110 @@ export type InventoryItemUncheckedUpdateManyWithoutProductInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type InventoryItemCreateManyRecipeInput = {
+  id: string
+  userId: string
+  productId: string
+  quantity: number
+  expiryDate?: Date | string | null
+  expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
+  packageStatus?: $Enums.PackageStatus | null
+  preparationStatus?: $Enums.PreparationStatus | null
+  purchaseDate: Date | string
+  purchasePrice?: number | null
+  storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  invoiceItemId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  notes?: string | null
+}
+
+export type InventoryItemUpdateWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
+  packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
+  preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
+  purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  Product?: Prisma.ProductUpdateOneRequiredWithoutInventoryItemNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateOneWithoutInventoryItemNestedInput
+  User?: Prisma.UserUpdateOneRequiredWithoutInventoryItemNestedInput
+}
+
+export type InventoryItemUncheckedUpdateWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
+  packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
+  preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
+  purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+export type InventoryItemUncheckedUpdateManyWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
+  packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
+  preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
+  purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -881,11 +1457,18 @@ export type InventoryItemCreateManyUserInput = {
   quantity: number
   expiryDate?: Date | string | null
   expiryDateSource?: $Enums.ExpiryDateSource
+  expiryKind?: $Enums.ExpiryKind
   packageStatus?: $Enums.PackageStatus | null
   preparationStatus?: $Enums.PreparationStatus | null
   purchaseDate: Date | string
   purchasePrice?: number | null
   storageLocation?: string | null
+  thawedAt?: Date | string | null
+  frozenAt?: Date | string | null
+  stocktakeFlaggedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  recipeId?: string | null
+  invoiceItemId?: string | null
   createdAt?: Date | string
   updatedAt: Date | string
   notes?: string | null
@@ -896,15 +1479,22 @@ export type InventoryItemUpdateWithoutUserInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   Product?: Prisma.ProductUpdateOneRequiredWithoutInventoryItemNestedInput
+  Recipe?: Prisma.RecipeUpdateOneWithoutInventoryItemNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateOneWithoutInventoryItemNestedInput
 }
 
 export type InventoryItemUncheckedUpdateWithoutUserInput = {
@@ -913,11 +1503,18 @@ export type InventoryItemUncheckedUpdateWithoutUserInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -929,11 +1526,18 @@ export type InventoryItemUncheckedUpdateManyWithoutUserInput = {
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   expiryDateSource?: Prisma.EnumExpiryDateSourceFieldUpdateOperationsInput | $Enums.ExpiryDateSource
+  expiryKind?: Prisma.EnumExpiryKindFieldUpdateOperationsInput | $Enums.ExpiryKind
   packageStatus?: Prisma.NullableEnumPackageStatusFieldUpdateOperationsInput | $Enums.PackageStatus | null
   preparationStatus?: Prisma.NullableEnumPreparationStatusFieldUpdateOperationsInput | $Enums.PreparationStatus | null
   purchaseDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   purchasePrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  thawedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  frozenAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stocktakeFlaggedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -948,15 +1552,24 @@ export type InventoryItemSelect<ExtArgs extends runtime.Types.Extensions.Interna
   quantity?: boolean
   expiryDate?: boolean
   expiryDateSource?: boolean
+  expiryKind?: boolean
   packageStatus?: boolean
   preparationStatus?: boolean
   purchaseDate?: boolean
   purchasePrice?: boolean
   storageLocation?: boolean
+  thawedAt?: boolean
+  frozenAt?: boolean
+  stocktakeFlaggedAt?: boolean
+  deletedAt?: boolean
+  recipeId?: boolean
+  invoiceItemId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   notes?: boolean
   Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryItem$RecipeArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.InventoryItem$InvoiceItemArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["inventoryItem"]>
 
@@ -967,15 +1580,24 @@ export type InventoryItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types
   quantity?: boolean
   expiryDate?: boolean
   expiryDateSource?: boolean
+  expiryKind?: boolean
   packageStatus?: boolean
   preparationStatus?: boolean
   purchaseDate?: boolean
   purchasePrice?: boolean
   storageLocation?: boolean
+  thawedAt?: boolean
+  frozenAt?: boolean
+  stocktakeFlaggedAt?: boolean
+  deletedAt?: boolean
+  recipeId?: boolean
+  invoiceItemId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   notes?: boolean
   Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryItem$RecipeArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.InventoryItem$InvoiceItemArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["inventoryItem"]>
 
@@ -986,15 +1608,24 @@ export type InventoryItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types
   quantity?: boolean
   expiryDate?: boolean
   expiryDateSource?: boolean
+  expiryKind?: boolean
   packageStatus?: boolean
   preparationStatus?: boolean
   purchaseDate?: boolean
   purchasePrice?: boolean
   storageLocation?: boolean
+  thawedAt?: boolean
+  frozenAt?: boolean
+  stocktakeFlaggedAt?: boolean
+  deletedAt?: boolean
+  recipeId?: boolean
+  invoiceItemId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   notes?: boolean
   Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryItem$RecipeArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.InventoryItem$InvoiceItemArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["inventoryItem"]>
 
@@ -1005,27 +1636,40 @@ export type InventoryItemSelectScalar = {
   quantity?: boolean
   expiryDate?: boolean
   expiryDateSource?: boolean
+  expiryKind?: boolean
   packageStatus?: boolean
   preparationStatus?: boolean
   purchaseDate?: boolean
   purchasePrice?: boolean
   storageLocation?: boolean
+  thawedAt?: boolean
+  frozenAt?: boolean
+  stocktakeFlaggedAt?: boolean
+  deletedAt?: boolean
+  recipeId?: boolean
+  invoiceItemId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   notes?: boolean
 }
 
-export type InventoryItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "productId" | "quantity" | "expiryDate" | "expiryDateSource" | "packageStatus" | "preparationStatus" | "purchaseDate" | "purchasePrice" | "storageLocation" | "createdAt" | "updatedAt" | "notes", ExtArgs["result"]["inventoryItem"]>
+export type InventoryItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "productId" | "quantity" | "expiryDate" | "expiryDateSource" | "expiryKind" | "packageStatus" | "preparationStatus" | "purchaseDate" | "purchasePrice" | "storageLocation" | "thawedAt" | "frozenAt" | "stocktakeFlaggedAt" | "deletedAt" | "recipeId" | "invoiceItemId" | "createdAt" | "updatedAt" | "notes", ExtArgs["result"]["inventoryItem"]>
 export type InventoryItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryItem$RecipeArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.InventoryItem$InvoiceItemArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }
 export type InventoryItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryItem$RecipeArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.InventoryItem$InvoiceItemArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }
 export type InventoryItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryItem$RecipeArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.InventoryItem$InvoiceItemArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }
 
@@ -1033,6 +1677,8 @@ export type $InventoryItemPayload<ExtArgs extends runtime.Types.Extensions.Inter
   name: "InventoryItem"
   objects: {
     Product: Prisma.$ProductPayload<ExtArgs>
+    Recipe: Prisma.$RecipePayload<ExtArgs> | null
+    InvoiceItem: Prisma.$InvoiceItemPayload<ExtArgs> | null
     User: Prisma.$UserPayload<ExtArgs>
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
@@ -1042,11 +1688,18 @@ export type $InventoryItemPayload<ExtArgs extends runtime.Types.Extensions.Inter
     quantity: number
     expiryDate: Date | null
     expiryDateSource: $Enums.ExpiryDateSource
+    expiryKind: $Enums.ExpiryKind
     packageStatus: $Enums.PackageStatus | null
     preparationStatus: $Enums.PreparationStatus | null
     purchaseDate: Date
     purchasePrice: number | null
     storageLocation: string | null
+    thawedAt: Date | null
+    frozenAt: Date | null
+    stocktakeFlaggedAt: Date | null
+    deletedAt: Date | null
+    recipeId: string | null
+    invoiceItemId: string | null
     createdAt: Date
     updatedAt: Date
     notes: string | null
@@ -1445,6 +2098,8 @@ readonly fields: InventoryItemFieldRefs;
 export interface Prisma__InventoryItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   Product<T extends Prisma.ProductDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProductDefaultArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  Recipe<T extends Prisma.InventoryItem$RecipeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryItem$RecipeArgs<ExtArgs>>): Prisma.Prisma__RecipeClient<runtime.Types.Result.GetResult<Prisma.$RecipePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  InvoiceItem<T extends Prisma.InventoryItem$InvoiceItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryItem$InvoiceItemArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
@@ -1481,11 +2136,18 @@ export interface InventoryItemFieldRefs {
   readonly quantity: Prisma.FieldRef<"InventoryItem", 'Float'>
   readonly expiryDate: Prisma.FieldRef<"InventoryItem", 'DateTime'>
   readonly expiryDateSource: Prisma.FieldRef<"InventoryItem", 'ExpiryDateSource'>
+  readonly expiryKind: Prisma.FieldRef<"InventoryItem", 'ExpiryKind'>
   readonly packageStatus: Prisma.FieldRef<"InventoryItem", 'PackageStatus'>
   readonly preparationStatus: Prisma.FieldRef<"InventoryItem", 'PreparationStatus'>
   readonly purchaseDate: Prisma.FieldRef<"InventoryItem", 'DateTime'>
   readonly purchasePrice: Prisma.FieldRef<"InventoryItem", 'Float'>
   readonly storageLocation: Prisma.FieldRef<"InventoryItem", 'String'>
+  readonly thawedAt: Prisma.FieldRef<"InventoryItem", 'DateTime'>
+  readonly frozenAt: Prisma.FieldRef<"InventoryItem", 'DateTime'>
+  readonly stocktakeFlaggedAt: Prisma.FieldRef<"InventoryItem", 'DateTime'>
+  readonly deletedAt: Prisma.FieldRef<"InventoryItem", 'DateTime'>
+  readonly recipeId: Prisma.FieldRef<"InventoryItem", 'String'>
+  readonly invoiceItemId: Prisma.FieldRef<"InventoryItem", 'String'>
   readonly createdAt: Prisma.FieldRef<"InventoryItem", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"InventoryItem", 'DateTime'>
   readonly notes: Prisma.FieldRef<"InventoryItem", 'String'>
@@ -1884,6 +2546,44 @@ export type InventoryItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions
   limit?: number
 }
 
+/**
+ * InventoryItem.Recipe
+ */
+export type InventoryItem$RecipeArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recipe
+   */
+  select?: Prisma.RecipeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recipe
+   */
+  omit?: Prisma.RecipeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecipeInclude<ExtArgs> | null
+  where?: Prisma.RecipeWhereInput
+}
+
+/**
+ * InventoryItem.InvoiceItem
+ */
+export type InventoryItem$InvoiceItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItem
+   */
+  select?: Prisma.InvoiceItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItem
+   */
+  omit?: Prisma.InvoiceItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemInclude<ExtArgs> | null
+  where?: Prisma.InvoiceItemWhereInput
+}
+
 /**
  * InventoryItem without action
  */
@@ -0,0 +1,1986 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `InventoryMovement` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model InventoryMovement
+ * 
+ */
+export type InventoryMovementModel = runtime.Types.Result.DefaultSelection<Prisma.$InventoryMovementPayload>
+
+export type AggregateInventoryMovement = {
+  _count: InventoryMovementCountAggregateOutputType | null
+  _avg: InventoryMovementAvgAggregateOutputType | null
+  _sum: InventoryMovementSumAggregateOutputType | null
+  _min: InventoryMovementMinAggregateOutputType | null
+  _max: InventoryMovementMaxAggregateOutputType | null
+}
+
+export type InventoryMovementAvgAggregateOutputType = {
+  quantityDelta: number | null
+  valueLost: number | null
+}
+
+export type InventoryMovementSumAggregateOutputType = {
+  quantityDelta: number | null
+  valueLost: number | null
+}
+
+export type InventoryMovementMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  inventoryItemId: string | null
+  recipeId: string | null
+  reason: $Enums.InventoryMovementReason | null
+  quantityDelta: number | null
+  storageLocation: string | null
+  notes: string | null
+  wasteReason: $Enums.WasteReason | null
+  valueLost: number | null
+  occurredAt: Date | null
+}
+
+export type InventoryMovementMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  inventoryItemId: string | null
+  recipeId: string | null
+  reason: $Enums.InventoryMovementReason | null
+  quantityDelta: number | null
+  storageLocation: string | null
+  notes: string | null
+  wasteReason: $Enums.WasteReason | null
+  valueLost: number | null
+  occurredAt: Date | null
+}
+
+export type InventoryMovementCountAggregateOutputType = {
+  id: number
+  userId: number
+  productId: number
+  inventoryItemId: number
+  recipeId: number
+  reason: number
+  quantityDelta: number
+  storageLocation: number
+  notes: number
+  wasteReason: number
+  valueLost: number
+  occurredAt: number
+  _all: number
+}
+
+
+export type InventoryMovementAvgAggregateInputType = {
+  quantityDelta?: true
+  valueLost?: true
+}
+
+export type InventoryMovementSumAggregateInputType = {
+  quantityDelta?: true
+  valueLost?: true
+}
+
+export type InventoryMovementMinAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  inventoryItemId?: true
+  recipeId?: true
+  reason?: true
+  quantityDelta?: true
+  storageLocation?: true
+  notes?: true
+  wasteReason?: true
+  valueLost?: true
+  occurredAt?: true
+}
+
+export type InventoryMovementMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  inventoryItemId?: true
+  recipeId?: true
+  reason?: true
+  quantityDelta?: true
+  storageLocation?: true
+  notes?: true
+  wasteReason?: true
+  valueLost?: true
+  occurredAt?: true
+}
+
+export type InventoryMovementCountAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  inventoryItemId?: true
+  recipeId?: true
+  reason?: true
+  quantityDelta?: true
+  storageLocation?: true
+  notes?: true
+  wasteReason?: true
+  valueLost?: true
+  occurredAt?: true
+  _all?: true
+}
+
+export type InventoryMovementAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InventoryMovement to aggregate.
+   */
+  where?: Prisma.InventoryMovementWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryMovements to fetch.
+   */
+  orderBy?: Prisma.InventoryMovementOrderByWithRelationInput | Prisma.InventoryMovementOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InventoryMovementWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryMovements from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryMovements.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned InventoryMovements
+  **/
+  _count?: true | InventoryMovementCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: InventoryMovementAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: InventoryMovementSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InventoryMovementMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InventoryMovementMaxAggregateInputType
+}
+
+export type GetInventoryMovementAggregateType<T extends InventoryMovementAggregateArgs> = {
+      [P in keyof T & keyof AggregateInventoryMovement]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInventoryMovement[P]>
+    : Prisma.GetScalarType<T[P], AggregateInventoryMovement[P]>
+}
+
+
+
+
+export type InventoryMovementGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryMovementWhereInput
+  orderBy?: Prisma.InventoryMovementOrderByWithAggregationInput | Prisma.InventoryMovementOrderByWithAggregationInput[]
+  by: Prisma.InventoryMovementScalarFieldEnum[] | Prisma.InventoryMovementScalarFieldEnum
+  having?: Prisma.InventoryMovementScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InventoryMovementCountAggregateInputType | true
+  _avg?: InventoryMovementAvgAggregateInputType
+  _sum?: InventoryMovementSumAggregateInputType
+  _min?: InventoryMovementMinAggregateInputType
+  _max?: InventoryMovementMaxAggregateInputType
+}
+
+export type InventoryMovementGroupByOutputType = {
+  id: string
+  userId: string
+  productId: string
+  inventoryItemId: string | null
+  recipeId: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation: string | null
+  notes: string | null
+  wasteReason: $Enums.WasteReason | null
+  valueLost: number | null
+  occurredAt: Date
+  _count: InventoryMovementCountAggregateOutputType | null
+  _avg: InventoryMovementAvgAggregateOutputType | null
+  _sum: InventoryMovementSumAggregateOutputType | null
+  _min: InventoryMovementMinAggregateOutputType | null
+  _max: InventoryMovementMaxAggregateOutputType | null
+}
+
+type GetInventoryMovementGroupByPayload<T extends InventoryMovementGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InventoryMovementGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InventoryMovementGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InventoryMovementGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InventoryMovementGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InventoryMovementWhereInput = {
+  AND?: Prisma.InventoryMovementWhereInput | Prisma.InventoryMovementWhereInput[]
+  OR?: Prisma.InventoryMovementWhereInput[]
+  NOT?: Prisma.InventoryMovementWhereInput | Prisma.InventoryMovementWhereInput[]
+  id?: Prisma.StringFilter<"InventoryMovement"> | string
+  userId?: Prisma.StringFilter<"InventoryMovement"> | string
+  productId?: Prisma.StringFilter<"InventoryMovement"> | string
+  inventoryItemId?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  recipeId?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFilter<"InventoryMovement"> | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFilter<"InventoryMovement"> | number
+  storageLocation?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  notes?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  wasteReason?: Prisma.EnumWasteReasonNullableFilter<"InventoryMovement"> | $Enums.WasteReason | null
+  valueLost?: Prisma.FloatNullableFilter<"InventoryMovement"> | number | null
+  occurredAt?: Prisma.DateTimeFilter<"InventoryMovement"> | Date | string
+  Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+  Recipe?: Prisma.XOR<Prisma.RecipeNullableScalarRelationFilter, Prisma.RecipeWhereInput> | null
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type InventoryMovementOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  inventoryItemId?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  quantityDelta?: Prisma.SortOrder
+  storageLocation?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  wasteReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  valueLost?: Prisma.SortOrderInput | Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  Product?: Prisma.ProductOrderByWithRelationInput
+  Recipe?: Prisma.RecipeOrderByWithRelationInput
+  User?: Prisma.UserOrderByWithRelationInput
+}
+
+export type InventoryMovementWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.InventoryMovementWhereInput | Prisma.InventoryMovementWhereInput[]
+  OR?: Prisma.InventoryMovementWhereInput[]
+  NOT?: Prisma.InventoryMovementWhereInput | Prisma.InventoryMovementWhereInput[]
+  userId?: Prisma.StringFilter<"InventoryMovement"> | string
+  productId?: Prisma.StringFilter<"InventoryMovement"> | string
+  inventoryItemId?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  recipeId?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFilter<"InventoryMovement"> | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFilter<"InventoryMovement"> | number
+  storageLocation?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  notes?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  wasteReason?: Prisma.EnumWasteReasonNullableFilter<"InventoryMovement"> | $Enums.WasteReason | null
+  valueLost?: Prisma.FloatNullableFilter<"InventoryMovement"> | number | null
+  occurredAt?: Prisma.DateTimeFilter<"InventoryMovement"> | Date | string
+  Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+  Recipe?: Prisma.XOR<Prisma.RecipeNullableScalarRelationFilter, Prisma.RecipeWhereInput> | null
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id">
+
+export type InventoryMovementOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  inventoryItemId?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  quantityDelta?: Prisma.SortOrder
+  storageLocation?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  wasteReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  valueLost?: Prisma.SortOrderInput | Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+  _count?: Prisma.InventoryMovementCountOrderByAggregateInput
+  _avg?: Prisma.InventoryMovementAvgOrderByAggregateInput
+  _max?: Prisma.InventoryMovementMaxOrderByAggregateInput
+  _min?: Prisma.InventoryMovementMinOrderByAggregateInput
+  _sum?: Prisma.InventoryMovementSumOrderByAggregateInput
+}
+
+export type InventoryMovementScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InventoryMovementScalarWhereWithAggregatesInput | Prisma.InventoryMovementScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InventoryMovementScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InventoryMovementScalarWhereWithAggregatesInput | Prisma.InventoryMovementScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"InventoryMovement"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"InventoryMovement"> | string
+  productId?: Prisma.StringWithAggregatesFilter<"InventoryMovement"> | string
+  inventoryItemId?: Prisma.StringNullableWithAggregatesFilter<"InventoryMovement"> | string | null
+  recipeId?: Prisma.StringNullableWithAggregatesFilter<"InventoryMovement"> | string | null
+  reason?: Prisma.EnumInventoryMovementReasonWithAggregatesFilter<"InventoryMovement"> | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatWithAggregatesFilter<"InventoryMovement"> | number
+  storageLocation?: Prisma.StringNullableWithAggregatesFilter<"InventoryMovement"> | string | null
+  notes?: Prisma.StringNullableWithAggregatesFilter<"InventoryMovement"> | string | null
+  wasteReason?: Prisma.EnumWasteReasonNullableWithAggregatesFilter<"InventoryMovement"> | $Enums.WasteReason | null
+  valueLost?: Prisma.FloatNullableWithAggregatesFilter<"InventoryMovement"> | number | null
+  occurredAt?: Prisma.DateTimeWithAggregatesFilter<"InventoryMovement"> | Date | string
+}
+
+export type InventoryMovementCreateInput = {
+  id: string
+  inventoryItemId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+  Product: Prisma.ProductCreateNestedOneWithoutInventoryMovementInput
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutInventoryMovementInput
+  User: Prisma.UserCreateNestedOneWithoutInventoryMovementInput
+}
+
+export type InventoryMovementUncheckedCreateInput = {
+  id: string
+  userId: string
+  productId: string
+  inventoryItemId?: string | null
+  recipeId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+}
+
+export type InventoryMovementUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneRequiredWithoutInventoryMovementNestedInput
+  Recipe?: Prisma.RecipeUpdateOneWithoutInventoryMovementNestedInput
+  User?: Prisma.UserUpdateOneRequiredWithoutInventoryMovementNestedInput
+}
+
+export type InventoryMovementUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryMovementCreateManyInput = {
+  id: string
+  userId: string
+  productId: string
+  inventoryItemId?: string | null
+  recipeId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+}
+
+export type InventoryMovementUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryMovementUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryMovementCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  inventoryItemId?: Prisma.SortOrder
+  recipeId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  quantityDelta?: Prisma.SortOrder
+  storageLocation?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  wasteReason?: Prisma.SortOrder
+  valueLost?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+}
+
+export type InventoryMovementAvgOrderByAggregateInput = {
+  quantityDelta?: Prisma.SortOrder
+  valueLost?: Prisma.SortOrder
+}
+
+export type InventoryMovementMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  inventoryItemId?: Prisma.SortOrder
+  recipeId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  quantityDelta?: Prisma.SortOrder
+  storageLocation?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  wasteReason?: Prisma.SortOrder
+  valueLost?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+}
+
+export type InventoryMovementMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  inventoryItemId?: Prisma.SortOrder
+  recipeId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  quantityDelta?: Prisma.SortOrder
+  storageLocation?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  wasteReason?: Prisma.SortOrder
+  valueLost?: Prisma.SortOrder
+  occurredAt?: Prisma.SortOrder
+}
+
+export type InventoryMovementSumOrderByAggregateInput = {
+  quantityDelta?: Prisma.SortOrder
+  valueLost?: Prisma.SortOrder
+}
+
+export type InventoryMovementListRelationFilter = {
+  every?: Prisma.InventoryMovementWhereInput
+  some?: Prisma.InventoryMovementWhereInput
+  none?: Prisma.InventoryMovementWhereInput
+}
+
+export type InventoryMovementOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type EnumInventoryMovementReasonFieldUpdateOperationsInput = {
+  set?: $Enums.InventoryMovementReason
+}
+
+export type NullableEnumWasteReasonFieldUpdateOperationsInput = {
+  set?: $Enums.WasteReason | null
+}
+
+export type InventoryMovementCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutProductInput, Prisma.InventoryMovementUncheckedCreateWithoutProductInput> | Prisma.InventoryMovementCreateWithoutProductInput[] | Prisma.InventoryMovementUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutProductInput | Prisma.InventoryMovementCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.InventoryMovementCreateManyProductInputEnvelope
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+}
+
+export type InventoryMovementUncheckedCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutProductInput, Prisma.InventoryMovementUncheckedCreateWithoutProductInput> | Prisma.InventoryMovementCreateWithoutProductInput[] | Prisma.InventoryMovementUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutProductInput | Prisma.InventoryMovementCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.InventoryMovementCreateManyProductInputEnvelope
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+}
+
+export type InventoryMovementUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutProductInput, Prisma.InventoryMovementUncheckedCreateWithoutProductInput> | Prisma.InventoryMovementCreateWithoutProductInput[] | Prisma.InventoryMovementUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutProductInput | Prisma.InventoryMovementCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.InventoryMovementUpsertWithWhereUniqueWithoutProductInput | Prisma.InventoryMovementUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.InventoryMovementCreateManyProductInputEnvelope
+  set?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  disconnect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  delete?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  update?: Prisma.InventoryMovementUpdateWithWhereUniqueWithoutProductInput | Prisma.InventoryMovementUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.InventoryMovementUpdateManyWithWhereWithoutProductInput | Prisma.InventoryMovementUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.InventoryMovementScalarWhereInput | Prisma.InventoryMovementScalarWhereInput[]
+}
+
+export type InventoryMovementUncheckedUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutProductInput, Prisma.InventoryMovementUncheckedCreateWithoutProductInput> | Prisma.InventoryMovementCreateWithoutProductInput[] | Prisma.InventoryMovementUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutProductInput | Prisma.InventoryMovementCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.InventoryMovementUpsertWithWhereUniqueWithoutProductInput | Prisma.InventoryMovementUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.InventoryMovementCreateManyProductInputEnvelope
+  set?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  disconnect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  delete?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  update?: Prisma.InventoryMovementUpdateWithWhereUniqueWithoutProductInput | Prisma.InventoryMovementUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.InventoryMovementUpdateManyWithWhereWithoutProductInput | Prisma.InventoryMovementUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.InventoryMovementScalarWhereInput | Prisma.InventoryMovementScalarWhereInput[]
+}
+
+export type InventoryMovementCreateNestedManyWithoutRecipeInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutRecipeInput, Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput> | Prisma.InventoryMovementCreateWithoutRecipeInput[] | Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutRecipeInput | Prisma.InventoryMovementCreateOrConnectWithoutRecipeInput[]
+  createMany?: Prisma.InventoryMovementCreateManyRecipeInputEnvelope
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+}
+
+export type InventoryMovementUncheckedCreateNestedManyWithoutRecipeInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutRecipeInput, Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput> | Prisma.InventoryMovementCreateWithoutRecipeInput[] | Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutRecipeInput | Prisma.InventoryMovementCreateOrConnectWithoutRecipeInput[]
+  createMany?: Prisma.InventoryMovementCreateManyRecipeInputEnvelope
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+}
+
+export type InventoryMovementUpdateManyWithoutRecipeNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutRecipeInput, Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput> | Prisma.InventoryMovementCreateWithoutRecipeInput[] | Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutRecipeInput | Prisma.InventoryMovementCreateOrConnectWithoutRecipeInput[]
+  upsert?: Prisma.InventoryMovementUpsertWithWhereUniqueWithoutRecipeInput | Prisma.InventoryMovementUpsertWithWhereUniqueWithoutRecipeInput[]
+  createMany?: Prisma.InventoryMovementCreateManyRecipeInputEnvelope
+  set?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  disconnect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  delete?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  update?: Prisma.InventoryMovementUpdateWithWhereUniqueWithoutRecipeInput | Prisma.InventoryMovementUpdateWithWhereUniqueWithoutRecipeInput[]
+  updateMany?: Prisma.InventoryMovementUpdateManyWithWhereWithoutRecipeInput | Prisma.InventoryMovementUpdateManyWithWhereWithoutRecipeInput[]
+  deleteMany?: Prisma.InventoryMovementScalarWhereInput | Prisma.InventoryMovementScalarWhereInput[]
+}
+
+export type InventoryMovementUncheckedUpdateManyWithoutRecipeNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutRecipeInput, Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput> | Prisma.InventoryMovementCreateWithoutRecipeInput[] | Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutRecipeInput | Prisma.InventoryMovementCreateOrConnectWithoutRecipeInput[]
+  upsert?: Prisma.InventoryMovementUpsertWithWhereUniqueWithoutRecipeInput | Prisma.InventoryMovementUpsertWithWhereUniqueWithoutRecipeInput[]
+  createMany?: Prisma.InventoryMovementCreateManyRecipeInputEnvelope
+  set?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  disconnect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  delete?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  update?: Prisma.InventoryMovementUpdateWithWhereUniqueWithoutRecipeInput | Prisma.InventoryMovementUpdateWithWhereUniqueWithoutRecipeInput[]
+  updateMany?: Prisma.InventoryMovementUpdateManyWithWhereWithoutRecipeInput | Prisma.InventoryMovementUpdateManyWithWhereWithoutRecipeInput[]
+  deleteMany?: Prisma.InventoryMovementScalarWhereInput | Prisma.InventoryMovementScalarWhereInput[]
+}
+
+export type InventoryMovementCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutUserInput, Prisma.InventoryMovementUncheckedCreateWithoutUserInput> | Prisma.InventoryMovementCreateWithoutUserInput[] | Prisma.InventoryMovementUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutUserInput | Prisma.InventoryMovementCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.InventoryMovementCreateManyUserInputEnvelope
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+}
+
+export type InventoryMovementUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutUserInput, Prisma.InventoryMovementUncheckedCreateWithoutUserInput> | Prisma.InventoryMovementCreateWithoutUserInput[] | Prisma.InventoryMovementUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutUserInput | Prisma.InventoryMovementCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.InventoryMovementCreateManyUserInputEnvelope
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+}
+
+export type InventoryMovementUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutUserInput, Prisma.InventoryMovementUncheckedCreateWithoutUserInput> | Prisma.InventoryMovementCreateWithoutUserInput[] | Prisma.InventoryMovementUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutUserInput | Prisma.InventoryMovementCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.InventoryMovementUpsertWithWhereUniqueWithoutUserInput | Prisma.InventoryMovementUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.InventoryMovementCreateManyUserInputEnvelope
+  set?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  disconnect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  delete?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  update?: Prisma.InventoryMovementUpdateWithWhereUniqueWithoutUserInput | Prisma.InventoryMovementUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.InventoryMovementUpdateManyWithWhereWithoutUserInput | Prisma.InventoryMovementUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.InventoryMovementScalarWhereInput | Prisma.InventoryMovementScalarWhereInput[]
+}
+
+export type InventoryMovementUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.InventoryMovementCreateWithoutUserInput, Prisma.InventoryMovementUncheckedCreateWithoutUserInput> | Prisma.InventoryMovementCreateWithoutUserInput[] | Prisma.InventoryMovementUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InventoryMovementCreateOrConnectWithoutUserInput | Prisma.InventoryMovementCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.InventoryMovementUpsertWithWhereUniqueWithoutUserInput | Prisma.InventoryMovementUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.InventoryMovementCreateManyUserInputEnvelope
+  set?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  disconnect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  delete?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  connect?: Prisma.InventoryMovementWhereUniqueInput | Prisma.InventoryMovementWhereUniqueInput[]
+  update?: Prisma.InventoryMovementUpdateWithWhereUniqueWithoutUserInput | Prisma.InventoryMovementUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.InventoryMovementUpdateManyWithWhereWithoutUserInput | Prisma.InventoryMovementUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.InventoryMovementScalarWhereInput | Prisma.InventoryMovementScalarWhereInput[]
+}
+
+export type InventoryMovementCreateWithoutProductInput = {
+  id: string
+  inventoryItemId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutInventoryMovementInput
+  User: Prisma.UserCreateNestedOneWithoutInventoryMovementInput
+}
+
+export type InventoryMovementUncheckedCreateWithoutProductInput = {
+  id: string
+  userId: string
+  inventoryItemId?: string | null
+  recipeId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+}
+
+export type InventoryMovementCreateOrConnectWithoutProductInput = {
+  where: Prisma.InventoryMovementWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryMovementCreateWithoutProductInput, Prisma.InventoryMovementUncheckedCreateWithoutProductInput>
+}
+
+export type InventoryMovementCreateManyProductInputEnvelope = {
+  data: Prisma.InventoryMovementCreateManyProductInput | Prisma.InventoryMovementCreateManyProductInput[]
+  skipDuplicates?: boolean
+}
+
+export type InventoryMovementUpsertWithWhereUniqueWithoutProductInput = {
+  where: Prisma.InventoryMovementWhereUniqueInput
+  update: Prisma.XOR<Prisma.InventoryMovementUpdateWithoutProductInput, Prisma.InventoryMovementUncheckedUpdateWithoutProductInput>
+  create: Prisma.XOR<Prisma.InventoryMovementCreateWithoutProductInput, Prisma.InventoryMovementUncheckedCreateWithoutProductInput>
+}
+
+export type InventoryMovementUpdateWithWhereUniqueWithoutProductInput = {
+  where: Prisma.InventoryMovementWhereUniqueInput
+  data: Prisma.XOR<Prisma.InventoryMovementUpdateWithoutProductInput, Prisma.InventoryMovementUncheckedUpdateWithoutProductInput>
+}
+
+export type InventoryMovementUpdateManyWithWhereWithoutProductInput = {
+  where: Prisma.InventoryMovementScalarWhereInput
+  data: Prisma.XOR<Prisma.InventoryMovementUpdateManyMutationInput, Prisma.InventoryMovementUncheckedUpdateManyWithoutProductInput>
+}
+
+export type InventoryMovementScalarWhereInput = {
+  AND?: Prisma.InventoryMovementScalarWhereInput | Prisma.InventoryMovementScalarWhereInput[]
+  OR?: Prisma.InventoryMovementScalarWhereInput[]
+  NOT?: Prisma.InventoryMovementScalarWhereInput | Prisma.InventoryMovementScalarWhereInput[]
+  id?: Prisma.StringFilter<"InventoryMovement"> | string
+  userId?: Prisma.StringFilter<"InventoryMovement"> | string
+  productId?: Prisma.StringFilter<"InventoryMovement"> | string
+  inventoryItemId?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  recipeId?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFilter<"InventoryMovement"> | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFilter<"InventoryMovement"> | number
+  storageLocation?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  notes?: Prisma.StringNullableFilter<"InventoryMovement"> | string | null
+  wasteReason?: Prisma.EnumWasteReasonNullableFilter<"InventoryMovement"> | $Enums.WasteReason | null
+  valueLost?: Prisma.FloatNullableFilter<"InventoryMovement"> | number | null
+  occurredAt?: Prisma.DateTimeFilter<"InventoryMovement"> | Date | string
+}
+
+export type InventoryMovementCreateWithoutRecipeInput = {
+  id: string
+  inventoryItemId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+  Product: Prisma.ProductCreateNestedOneWithoutInventoryMovementInput
+  User: Prisma.UserCreateNestedOneWithoutInventoryMovementInput
+}
+
+export type InventoryMovementUncheckedCreateWithoutRecipeInput = {
+  id: string
+  userId: string
+  productId: string
+  inventoryItemId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+}
+
+export type InventoryMovementCreateOrConnectWithoutRecipeInput = {
+  where: Prisma.InventoryMovementWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryMovementCreateWithoutRecipeInput, Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput>
+}
+
+export type InventoryMovementCreateManyRecipeInputEnvelope = {
+  data: Prisma.InventoryMovementCreateManyRecipeInput | Prisma.InventoryMovementCreateManyRecipeInput[]
+  skipDuplicates?: boolean
+}
+
+export type InventoryMovementUpsertWithWhereUniqueWithoutRecipeInput = {
+  where: Prisma.InventoryMovementWhereUniqueInput
+  update: Prisma.XOR<Prisma.InventoryMovementUpdateWithoutRecipeInput, Prisma.InventoryMovementUncheckedUpdateWithoutRecipeInput>
+  create: Prisma.XOR<Prisma.InventoryMovementCreateWithoutRecipeInput, Prisma.InventoryMovementUncheckedCreateWithoutRecipeInput>
+}
+
+export type InventoryMovementUpdateWithWhereUniqueWithoutRecipeInput = {
+  where: Prisma.InventoryMovementWhereUniqueInput
+  data: Prisma.XOR<Prisma.InventoryMovementUpdateWithoutRecipeInput, Prisma.InventoryMovementUncheckedUpdateWithoutRecipeInput>
+}
+
+export type InventoryMovementUpdateManyWithWhereWithoutRecipeInput = {
+  where: Prisma.InventoryMovementScalarWhereInput
+  data: Prisma.XOR<Prisma.InventoryMovementUpdateManyMutationInput, Prisma.InventoryMovementUncheckedUpdateManyWithoutRecipeInput>
+}
+
+export type InventoryMovementCreateWithoutUserInput = {
+  id: string
+  inventoryItemId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+  Product: Prisma.ProductCreateNestedOneWithoutInventoryMovementInput
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutInventoryMovementInput
+}
+
+export type InventoryMovementUncheckedCreateWithoutUserInput = {
+  id: string
+  productId: string
+  inventoryItemId?: string | null
+  recipeId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+}
+
+export type InventoryMovementCreateOrConnectWithoutUserInput = {
+  where: Prisma.InventoryMovementWhereUniqueInput
+  create: Prisma.XOR<Prisma.InventoryMovementCreateWithoutUserInput, Prisma.InventoryMovementUncheckedCreateWithoutUserInput>
+}
+
+export type InventoryMovementCreateManyUserInputEnvelope = {
+  data: Prisma.InventoryMovementCreateManyUserInput | Prisma.InventoryMovementCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type InventoryMovementUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.InventoryMovementWhereUniqueInput
+  update: Prisma.XOR<Prisma.InventoryMovementUpdateWithoutUserInput, Prisma.InventoryMovementUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.InventoryMovementCreateWithoutUserInput, Prisma.InventoryMovementUncheckedCreateWithoutUserInput>
+}
+
+export type InventoryMovementUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.InventoryMovementWhereUniqueInput
+  data: Prisma.XOR<Prisma.InventoryMovementUpdateWithoutUserInput, Prisma.InventoryMovementUncheckedUpdateWithoutUserInput>
+}
+
+export type InventoryMovementUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.InventoryMovementScalarWhereInput
+  data: Prisma.XOR<Prisma.InventoryMovementUpdateManyMutationInput, Prisma.InventoryMovementUncheckedUpdateManyWithoutUserInput>
+}
+
+export type InventoryMovementCreateManyProductInput = {
+  id: string
+  userId: string
+  inventoryItemId?: string | null
+  recipeId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+}
+
+export type InventoryMovementUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Recipe?: Prisma.RecipeUpdateOneWithoutInventoryMovementNestedInput
+  User?: Prisma.UserUpdateOneRequiredWithoutInventoryMovementNestedInput
+}
+
+export type InventoryMovementUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryMovementUncheckedUpdateManyWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryMovementCreateManyRecipeInput = {
+  id: string
+  userId: string
+  productId: string
+  inventoryItemId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+}
+
+export type InventoryMovementUpdateWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneRequiredWithoutInventoryMovementNestedInput
+  User?: Prisma.UserUpdateOneRequiredWithoutInventoryMovementNestedInput
+}
+
+export type InventoryMovementUncheckedUpdateWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryMovementUncheckedUpdateManyWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryMovementCreateManyUserInput = {
+  id: string
+  productId: string
+  inventoryItemId?: string | null
+  recipeId?: string | null
+  reason: $Enums.InventoryMovementReason
+  quantityDelta: number
+  storageLocation?: string | null
+  notes?: string | null
+  wasteReason?: $Enums.WasteReason | null
+  valueLost?: number | null
+  occurredAt?: Date | string
+}
+
+export type InventoryMovementUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneRequiredWithoutInventoryMovementNestedInput
+  Recipe?: Prisma.RecipeUpdateOneWithoutInventoryMovementNestedInput
+}
+
+export type InventoryMovementUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InventoryMovementUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  inventoryItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.EnumInventoryMovementReasonFieldUpdateOperationsInput | $Enums.InventoryMovementReason
+  quantityDelta?: Prisma.FloatFieldUpdateOperationsInput | number
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  wasteReason?: Prisma.NullableEnumWasteReasonFieldUpdateOperationsInput | $Enums.WasteReason | null
+  valueLost?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  occurredAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type InventoryMovementSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  inventoryItemId?: boolean
+  recipeId?: boolean
+  reason?: boolean
+  quantityDelta?: boolean
+  storageLocation?: boolean
+  notes?: boolean
+  wasteReason?: boolean
+  valueLost?: boolean
+  occurredAt?: boolean
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryMovement$RecipeArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["inventoryMovement"]>
+
+export type InventoryMovementSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  inventoryItemId?: boolean
+  recipeId?: boolean
+  reason?: boolean
+  quantityDelta?: boolean
+  storageLocation?: boolean
+  notes?: boolean
+  wasteReason?: boolean
+  valueLost?: boolean
+  occurredAt?: boolean
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryMovement$RecipeArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["inventoryMovement"]>
+
+export type InventoryMovementSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  inventoryItemId?: boolean
+  recipeId?: boolean
+  reason?: boolean
+  quantityDelta?: boolean
+  storageLocation?: boolean
+  notes?: boolean
+  wasteReason?: boolean
+  valueLost?: boolean
+  occurredAt?: boolean
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryMovement$RecipeArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["inventoryMovement"]>
+
+export type InventoryMovementSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  inventoryItemId?: boolean
+  recipeId?: boolean
+  reason?: boolean
+  quantityDelta?: boolean
+  storageLocation?: boolean
+  notes?: boolean
+  wasteReason?: boolean
+  valueLost?: boolean
+  occurredAt?: boolean
+}
+
+export type InventoryMovementOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "productId" | "inventoryItemId" | "recipeId" | "reason" | "quantityDelta" | "storageLocation" | "notes" | "wasteReason" | "valueLost" | "occurredAt", ExtArgs["result"]["inventoryMovement"]>
+export type InventoryMovementInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryMovement$RecipeArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type InventoryMovementIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryMovement$RecipeArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type InventoryMovementIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  Recipe?: boolean | Prisma.InventoryMovement$RecipeArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $InventoryMovementPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "InventoryMovement"
+  objects: {
+    Product: Prisma.$ProductPayload<ExtArgs>
+    Recipe: Prisma.$RecipePayload<ExtArgs> | null
+    User: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    productId: string
+    inventoryItemId: string | null
+    recipeId: string | null
+    reason: $Enums.InventoryMovementReason
+    quantityDelta: number
+    storageLocation: string | null
+    notes: string | null
+    wasteReason: $Enums.WasteReason | null
+    valueLost: number | null
+    occurredAt: Date
+  }, ExtArgs["result"]["inventoryMovement"]>
+  composites: {}
+}
+
+export type InventoryMovementGetPayload<S extends boolean | null | undefined | InventoryMovementDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload, S>
+
+export type InventoryMovementCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InventoryMovementFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InventoryMovementCountAggregateInputType | true
+  }
+
+export interface InventoryMovementDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['InventoryMovement'], meta: { name: 'InventoryMovement' } }
+  /**
+   * Find zero or one InventoryMovement that matches the filter.
+   * @param {InventoryMovementFindUniqueArgs} args - Arguments to find a InventoryMovement
+   * @example
+   * // Get one InventoryMovement
+   * const inventoryMovement = await prisma.inventoryMovement.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InventoryMovementFindUniqueArgs>(args: Prisma.SelectSubset<T, InventoryMovementFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InventoryMovementClient<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one InventoryMovement that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InventoryMovementFindUniqueOrThrowArgs} args - Arguments to find a InventoryMovement
+   * @example
+   * // Get one InventoryMovement
+   * const inventoryMovement = await prisma.inventoryMovement.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InventoryMovementFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InventoryMovementFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InventoryMovementClient<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InventoryMovement that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryMovementFindFirstArgs} args - Arguments to find a InventoryMovement
+   * @example
+   * // Get one InventoryMovement
+   * const inventoryMovement = await prisma.inventoryMovement.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InventoryMovementFindFirstArgs>(args?: Prisma.SelectSubset<T, InventoryMovementFindFirstArgs<ExtArgs>>): Prisma.Prisma__InventoryMovementClient<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InventoryMovement that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryMovementFindFirstOrThrowArgs} args - Arguments to find a InventoryMovement
+   * @example
+   * // Get one InventoryMovement
+   * const inventoryMovement = await prisma.inventoryMovement.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InventoryMovementFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InventoryMovementFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InventoryMovementClient<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more InventoryMovements that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryMovementFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all InventoryMovements
+   * const inventoryMovements = await prisma.inventoryMovement.findMany()
+   * 
+   * // Get first 10 InventoryMovements
+   * const inventoryMovements = await prisma.inventoryMovement.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const inventoryMovementWithIdOnly = await prisma.inventoryMovement.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends InventoryMovementFindManyArgs>(args?: Prisma.SelectSubset<T, InventoryMovementFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a InventoryMovement.
+   * @param {InventoryMovementCreateArgs} args - Arguments to create a InventoryMovement.
+   * @example
+   * // Create one InventoryMovement
+   * const InventoryMovement = await prisma.inventoryMovement.create({
+   *   data: {
+   *     // ... data to create a InventoryMovement
+   *   }
+   * })
+   * 
+   */
+  create<T extends InventoryMovementCreateArgs>(args: Prisma.SelectSubset<T, InventoryMovementCreateArgs<ExtArgs>>): Prisma.Prisma__InventoryMovementClient<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many InventoryMovements.
+   * @param {InventoryMovementCreateManyArgs} args - Arguments to create many InventoryMovements.
+   * @example
+   * // Create many InventoryMovements
+   * const inventoryMovement = await prisma.inventoryMovement.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InventoryMovementCreateManyArgs>(args?: Prisma.SelectSubset<T, InventoryMovementCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many InventoryMovements and returns the data saved in the database.
+   * @param {InventoryMovementCreateManyAndReturnArgs} args - Arguments to create many InventoryMovements.
+   * @example
+   * // Create many InventoryMovements
+   * const inventoryMovement = await prisma.inventoryMovement.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many InventoryMovements and only return the `id`
+   * const inventoryMovementWithIdOnly = await prisma.inventoryMovement.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InventoryMovementCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InventoryMovementCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a InventoryMovement.
+   * @param {InventoryMovementDeleteArgs} args - Arguments to delete one InventoryMovement.
+   * @example
+   * // Delete one InventoryMovement
+   * const InventoryMovement = await prisma.inventoryMovement.delete({
+   *   where: {
+   *     // ... filter to delete one InventoryMovement
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InventoryMovementDeleteArgs>(args: Prisma.SelectSubset<T, InventoryMovementDeleteArgs<ExtArgs>>): Prisma.Prisma__InventoryMovementClient<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one InventoryMovement.
+   * @param {InventoryMovementUpdateArgs} args - Arguments to update one InventoryMovement.
+   * @example
+   * // Update one InventoryMovement
+   * const inventoryMovement = await prisma.inventoryMovement.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InventoryMovementUpdateArgs>(args: Prisma.SelectSubset<T, InventoryMovementUpdateArgs<ExtArgs>>): Prisma.Prisma__InventoryMovementClient<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more InventoryMovements.
+   * @param {InventoryMovementDeleteManyArgs} args - Arguments to filter InventoryMovements to delete.
+   * @example
+   * // Delete a few InventoryMovements
+   * const { count } = await prisma.inventoryMovement.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InventoryMovementDeleteManyArgs>(args?: Prisma.SelectSubset<T, InventoryMovementDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InventoryMovements.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryMovementUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many InventoryMovements
+   * const inventoryMovement = await prisma.inventoryMovement.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InventoryMovementUpdateManyArgs>(args: Prisma.SelectSubset<T, InventoryMovementUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InventoryMovements and returns the data updated in the database.
+   * @param {InventoryMovementUpdateManyAndReturnArgs} args - Arguments to update many InventoryMovements.
+   * @example
+   * // Update many InventoryMovements
+   * const inventoryMovement = await prisma.inventoryMovement.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more InventoryMovements and only return the `id`
+   * const inventoryMovementWithIdOnly = await prisma.inventoryMovement.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InventoryMovementUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InventoryMovementUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one InventoryMovement.
+   * @param {InventoryMovementUpsertArgs} args - Arguments to update or create a InventoryMovement.
+   * @example
+   * // Update or create a InventoryMovement
+   * const inventoryMovement = await prisma.inventoryMovement.upsert({
+   *   create: {
+   *     // ... data to create a InventoryMovement
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the InventoryMovement we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InventoryMovementUpsertArgs>(args: Prisma.SelectSubset<T, InventoryMovementUpsertArgs<ExtArgs>>): Prisma.Prisma__InventoryMovementClient<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of InventoryMovements.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryMovementCountArgs} args - Arguments to filter InventoryMovements to count.
+   * @example
+   * // Count the number of InventoryMovements
+   * const count = await prisma.inventoryMovement.count({
+   *   where: {
+   *     // ... the filter for the InventoryMovements we want to count
+   *   }
+   * })
+  **/
+  count<T extends InventoryMovementCountArgs>(
+    args?: Prisma.Subset<T, InventoryMovementCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InventoryMovementCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a InventoryMovement.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryMovementAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InventoryMovementAggregateArgs>(args: Prisma.Subset<T, InventoryMovementAggregateArgs>): Prisma.PrismaPromise<GetInventoryMovementAggregateType<T>>
+
+  /**
+   * Group by InventoryMovement.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InventoryMovementGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InventoryMovementGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InventoryMovementGroupByArgs['orderBy'] }
+      : { orderBy?: InventoryMovementGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InventoryMovementGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInventoryMovementGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the InventoryMovement model
+ */
+readonly fields: InventoryMovementFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for InventoryMovement.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InventoryMovementClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  Product<T extends Prisma.ProductDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProductDefaultArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  Recipe<T extends Prisma.InventoryMovement$RecipeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InventoryMovement$RecipeArgs<ExtArgs>>): Prisma.Prisma__RecipeClient<runtime.Types.Result.GetResult<Prisma.$RecipePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the InventoryMovement model
+ */
+export interface InventoryMovementFieldRefs {
+  readonly id: Prisma.FieldRef<"InventoryMovement", 'String'>
+  readonly userId: Prisma.FieldRef<"InventoryMovement", 'String'>
+  readonly productId: Prisma.FieldRef<"InventoryMovement", 'String'>
+  readonly inventoryItemId: Prisma.FieldRef<"InventoryMovement", 'String'>
+  readonly recipeId: Prisma.FieldRef<"InventoryMovement", 'String'>
+  readonly reason: Prisma.FieldRef<"InventoryMovement", 'InventoryMovementReason'>
+  readonly quantityDelta: Prisma.FieldRef<"InventoryMovement", 'Float'>
+  readonly storageLocation: Prisma.FieldRef<"InventoryMovement", 'String'>
+  readonly notes: Prisma.FieldRef<"InventoryMovement", 'String'>
+  readonly wasteReason: Prisma.FieldRef<"InventoryMovement", 'WasteReason'>
+  readonly valueLost: Prisma.FieldRef<"InventoryMovement", 'Float'>
+  readonly occurredAt: Prisma.FieldRef<"InventoryMovement", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * InventoryMovement findUnique
+ */
+export type InventoryMovementFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryMovement to fetch.
+   */
+  where: Prisma.InventoryMovementWhereUniqueInput
+}
+
+/**
+ * InventoryMovement findUniqueOrThrow
+ */
+export type InventoryMovementFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryMovement to fetch.
+   */
+  where: Prisma.InventoryMovementWhereUniqueInput
+}
+
+/**
+ * InventoryMovement findFirst
+ */
+export type InventoryMovementFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryMovement to fetch.
+   */
+  where?: Prisma.InventoryMovementWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryMovements to fetch.
+   */
+  orderBy?: Prisma.InventoryMovementOrderByWithRelationInput | Prisma.InventoryMovementOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InventoryMovements.
+   */
+  cursor?: Prisma.InventoryMovementWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryMovements from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryMovements.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InventoryMovements.
+   */
+  distinct?: Prisma.InventoryMovementScalarFieldEnum | Prisma.InventoryMovementScalarFieldEnum[]
+}
+
+/**
+ * InventoryMovement findFirstOrThrow
+ */
+export type InventoryMovementFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryMovement to fetch.
+   */
+  where?: Prisma.InventoryMovementWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryMovements to fetch.
+   */
+  orderBy?: Prisma.InventoryMovementOrderByWithRelationInput | Prisma.InventoryMovementOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InventoryMovements.
+   */
+  cursor?: Prisma.InventoryMovementWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryMovements from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryMovements.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InventoryMovements.
+   */
+  distinct?: Prisma.InventoryMovementScalarFieldEnum | Prisma.InventoryMovementScalarFieldEnum[]
+}
+
+/**
+ * InventoryMovement findMany
+ */
+export type InventoryMovementFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  /**
+   * Filter, which InventoryMovements to fetch.
+   */
+  where?: Prisma.InventoryMovementWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InventoryMovements to fetch.
+   */
+  orderBy?: Prisma.InventoryMovementOrderByWithRelationInput | Prisma.InventoryMovementOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing InventoryMovements.
+   */
+  cursor?: Prisma.InventoryMovementWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InventoryMovements from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InventoryMovements.
+   */
+  skip?: number
+  distinct?: Prisma.InventoryMovementScalarFieldEnum | Prisma.InventoryMovementScalarFieldEnum[]
+}
+
+/**
+ * InventoryMovement create
+ */
+export type InventoryMovementCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  /**
+   * The data needed to create a InventoryMovement.
+   */
+  data: Prisma.XOR<Prisma.InventoryMovementCreateInput, Prisma.InventoryMovementUncheckedCreateInput>
+}
+
+/**
+ * InventoryMovement createMany
+ */
+export type InventoryMovementCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many InventoryMovements.
+   */
+  data: Prisma.InventoryMovementCreateManyInput | Prisma.InventoryMovementCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InventoryMovement createManyAndReturn
+ */
+export type InventoryMovementCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * The data used to create many InventoryMovements.
+   */
+  data: Prisma.InventoryMovementCreateManyInput | Prisma.InventoryMovementCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InventoryMovement update
+ */
+export type InventoryMovementUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  /**
+   * The data needed to update a InventoryMovement.
+   */
+  data: Prisma.XOR<Prisma.InventoryMovementUpdateInput, Prisma.InventoryMovementUncheckedUpdateInput>
+  /**
+   * Choose, which InventoryMovement to update.
+   */
+  where: Prisma.InventoryMovementWhereUniqueInput
+}
+
+/**
+ * InventoryMovement updateMany
+ */
+export type InventoryMovementUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update InventoryMovements.
+   */
+  data: Prisma.XOR<Prisma.InventoryMovementUpdateManyMutationInput, Prisma.InventoryMovementUncheckedUpdateManyInput>
+  /**
+   * Filter which InventoryMovements to update
+   */
+  where?: Prisma.InventoryMovementWhereInput
+  /**
+   * Limit how many InventoryMovements to update.
+   */
+  limit?: number
+}
+
+/**
+ * InventoryMovement updateManyAndReturn
+ */
+export type InventoryMovementUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * The data used to update InventoryMovements.
+   */
+  data: Prisma.XOR<Prisma.InventoryMovementUpdateManyMutationInput, Prisma.InventoryMovementUncheckedUpdateManyInput>
+  /**
+   * Filter which InventoryMovements to update
+   */
+  where?: Prisma.InventoryMovementWhereInput
+  /**
+   * Limit how many InventoryMovements to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InventoryMovement upsert
+ */
+export type InventoryMovementUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  /**
+   * The filter to search for the InventoryMovement to update in case it exists.
+   */
+  where: Prisma.InventoryMovementWhereUniqueInput
+  /**
+   * In case the InventoryMovement found by the `where` argument doesn't exist, create a new InventoryMovement with this data.
+   */
+  create: Prisma.XOR<Prisma.InventoryMovementCreateInput, Prisma.InventoryMovementUncheckedCreateInput>
+  /**
+   * In case the InventoryMovement was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InventoryMovementUpdateInput, Prisma.InventoryMovementUncheckedUpdateInput>
+}
+
+/**
+ * InventoryMovement delete
+ */
+export type InventoryMovementDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  /**
+   * Filter which InventoryMovement to delete.
+   */
+  where: Prisma.InventoryMovementWhereUniqueInput
+}
+
+/**
+ * InventoryMovement deleteMany
+ */
+export type InventoryMovementDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InventoryMovements to delete
+   */
+  where?: Prisma.InventoryMovementWhereInput
+  /**
+   * Limit how many InventoryMovements to delete.
+   */
+  limit?: number
+}
+
+/**
+ * InventoryMovement.Recipe
+ */
+export type InventoryMovement$RecipeArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recipe
+   */
+  select?: Prisma.RecipeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recipe
+   */
+  omit?: Prisma.RecipeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecipeInclude<ExtArgs> | null
+  where?: Prisma.RecipeWhereInput
+}
+
+/**
+ * InventoryMovement without action
+ */
+export type InventoryMovementDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+}
@@ -62,6 +62,9 @@ export type InvoiceMinAggregateOutputType = {
   analysisConfidence: number | null
   processingTime: number | null
   errorMessage: string | null
+  fileHash: string | null
+  duplicateOfId: string | null
+  duplicateAllowed: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -86,6 +89,9 @@ export type InvoiceMaxAggregateOutputType = {
   analysisConfidence: number | null
   processingTime: number | null
   errorMessage: string | null
+  fileHash: string | null
+  duplicateOfId: string | null
+  duplicateAllowed: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -111,6 +117,9 @@ export type InvoiceCountAggregateOutputType = {
   analysisConfidence: number
   processingTime: number
   errorMessage: number
+  fileHash: number
+  duplicateOfId: number
+  duplicateAllowed: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -153,6 +162,9 @@ export type InvoiceMinAggregateInputType = {
   analysisConfidence?: true
   processingTime?: true
   errorMessage?: true
+  fileHash?: true
+  duplicateOfId?: true
+  duplicateAllowed?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -177,6 +189,9 @@ export type InvoiceMaxAggregateInputType = {
   analysisConfidence?: true
   processingTime?: true
   errorMessage?: true
+  fileHash?: true
+  duplicateOfId?: true
+  duplicateAllowed?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -202,6 +217,9 @@ export type InvoiceCountAggregateInputType = {
   analysisConfidence?: true
   processingTime?: true
   errorMessage?: true
+  fileHash?: true
+  duplicateOfId?: true
+  duplicateAllowed?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -314,6 +332,9 @@ export type InvoiceGroupByOutputType = {
   analysisConfidence: number | null
   processingTime: number | null
   errorMessage: string | null
+  fileHash: string | null
+  duplicateOfId: string | null
+  duplicateAllowed: boolean
   createdAt: Date
   updatedAt: Date
   _count: InvoiceCountAggregateOutputType | null
@@ -362,11 +383,16 @@ export type InvoiceWhereInput = {
   analysisConfidence?: Prisma.FloatNullableFilter<"Invoice"> | number | null
   processingTime?: Prisma.IntNullableFilter<"Invoice"> | number | null
   errorMessage?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  fileHash?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  duplicateOfId?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  duplicateAllowed?: Prisma.BoolFilter<"Invoice"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
   Expense?: Prisma.ExpenseListRelationFilter
   InvoiceItem?: Prisma.InvoiceItemListRelationFilter
   ProcessingEvent?: Prisma.InvoiceProcessingEventListRelationFilter
+  DuplicateOf?: Prisma.XOR<Prisma.InvoiceNullableScalarRelationFilter, Prisma.InvoiceWhereInput> | null
+  Duplicates?: Prisma.InvoiceListRelationFilter
   User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
 }
 
@@ -391,11 +417,16 @@ export type InvoiceOrderByWithRelationInput = {
   analysisConfidence?: Prisma.SortOrderInput | Prisma.SortOrder
   processingTime?: Prisma.SortOrderInput | Prisma.SortOrder
   errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  fileHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateAllowed?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   Expense?: Prisma.ExpenseOrderByRelationAggregateInput
   InvoiceItem?: Prisma.InvoiceItemOrderByRelationAggregateInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventOrderByRelationAggregateInput
+  DuplicateOf?: Prisma.InvoiceOrderByWithRelationInput
+  Duplicates?: Prisma.InvoiceOrderByRelationAggregateInput
   User?: Prisma.UserOrderByWithRelationInput
 }
 
@@ -423,11 +454,16 @@ export type InvoiceWhereUniqueInput = Prisma.AtLeast<{
   analysisConfidence?: Prisma.FloatNullableFilter<"Invoice"> | number | null
   processingTime?: Prisma.IntNullableFilter<"Invoice"> | number | null
   errorMessage?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  fileHash?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  duplicateOfId?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  duplicateAllowed?: Prisma.BoolFilter<"Invoice"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
   Expense?: Prisma.ExpenseListRelationFilter
   InvoiceItem?: Prisma.InvoiceItemListRelationFilter
   ProcessingEvent?: Prisma.InvoiceProcessingEventListRelationFilter
+  DuplicateOf?: Prisma.XOR<Prisma.InvoiceNullableScalarRelationFilter, Prisma.InvoiceWhereInput> | null
+  Duplicates?: Prisma.InvoiceListRelationFilter
   User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
 }, "id">
 
@@ -452,6 +488,9 @@ export type InvoiceOrderByWithAggregationInput = {
   analysisConfidence?: Prisma.SortOrderInput | Prisma.SortOrder
   processingTime?: Prisma.SortOrderInput | Prisma.SortOrder
   errorMessage?: Prisma.SortOrderInput | Prisma.SortOrder
+  fileHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrderInput | Prisma.SortOrder
+  duplicateAllowed?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.InvoiceCountOrderByAggregateInput
@@ -485,6 +524,9 @@ export type InvoiceScalarWhereWithAggregatesInput = {
   analysisConfidence?: Prisma.FloatNullableWithAggregatesFilter<"Invoice"> | number | null
   processingTime?: Prisma.IntNullableWithAggregatesFilter<"Invoice"> | number | null
   errorMessage?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  fileHash?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  duplicateOfId?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  duplicateAllowed?: Prisma.BoolWithAggregatesFilter<"Invoice"> | boolean
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Invoice"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Invoice"> | Date | string
 }
@@ -509,11 +551,15 @@ export type InvoiceCreateInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseCreateNestedManyWithoutInvoiceInput
   InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventCreateNestedManyWithoutInvoiceInput
+  DuplicateOf?: Prisma.InvoiceCreateNestedOneWithoutDuplicatesInput
+  Duplicates?: Prisma.InvoiceCreateNestedManyWithoutDuplicateOfInput
   User: Prisma.UserCreateNestedOneWithoutInvoiceInput
 }
 
@@ -538,11 +584,15 @@ export type InvoiceUncheckedCreateInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateOfId?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutInvoiceInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedCreateNestedManyWithoutInvoiceInput
+  Duplicates?: Prisma.InvoiceUncheckedCreateNestedManyWithoutDuplicateOfInput
 }
 
 export type InvoiceUpdateInput = {
@@ -565,11 +615,15 @@ export type InvoiceUpdateInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUpdateManyWithoutInvoiceNestedInput
   InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUpdateManyWithoutInvoiceNestedInput
+  DuplicateOf?: Prisma.InvoiceUpdateOneWithoutDuplicatesNestedInput
+  Duplicates?: Prisma.InvoiceUpdateManyWithoutDuplicateOfNestedInput
   User?: Prisma.UserUpdateOneRequiredWithoutInvoiceNestedInput
 }
 
@@ -594,11 +648,15 @@ export type InvoiceUncheckedUpdateInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutInvoiceNestedInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedUpdateManyWithoutInvoiceNestedInput
+  Duplicates?: Prisma.InvoiceUncheckedUpdateManyWithoutDuplicateOfNestedInput
 }
 
 export type InvoiceCreateManyInput = {
@@ -622,6 +680,9 @@ export type InvoiceCreateManyInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateOfId?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
 }
@@ -646,6 +707,8 @@ export type InvoiceUpdateManyMutationInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -671,6 +734,9 @@ export type InvoiceUncheckedUpdateManyInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -680,6 +746,16 @@ export type InvoiceNullableScalarRelationFilter = {
   isNot?: Prisma.InvoiceWhereInput | null
 }
 
+export type InvoiceListRelationFilter = {
+  every?: Prisma.InvoiceWhereInput
+  some?: Prisma.InvoiceWhereInput
+  none?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
 export type InvoiceCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   userId?: Prisma.SortOrder
@@ -701,6 +777,9 @@ export type InvoiceCountOrderByAggregateInput = {
   analysisConfidence?: Prisma.SortOrder
   processingTime?: Prisma.SortOrder
   errorMessage?: Prisma.SortOrder
+  fileHash?: Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrder
+  duplicateAllowed?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -733,6 +812,9 @@ export type InvoiceMaxOrderByAggregateInput = {
   analysisConfidence?: Prisma.SortOrder
   processingTime?: Prisma.SortOrder
   errorMessage?: Prisma.SortOrder
+  fileHash?: Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrder
+  duplicateAllowed?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -757,6 +839,9 @@ export type InvoiceMinOrderByAggregateInput = {
   analysisConfidence?: Prisma.SortOrder
   processingTime?: Prisma.SortOrder
   errorMessage?: Prisma.SortOrder
+  fileHash?: Prisma.SortOrder
+  duplicateOfId?: Prisma.SortOrder
+  duplicateAllowed?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -774,16 +859,6 @@ export type InvoiceScalarRelationFilter = {
   isNot?: Prisma.InvoiceWhereInput
 }
 
-export type InvoiceListRelationFilter = {
-  every?: Prisma.InvoiceWhereInput
-  some?: Prisma.InvoiceWhereInput
-  none?: Prisma.InvoiceWhereInput
-}
-
-export type InvoiceOrderByRelationAggregateInput = {
-  _count?: Prisma.SortOrder
-}
-
 export type InvoiceCreateNestedOneWithoutExpenseInput = {
   create?: Prisma.XOR<Prisma.InvoiceCreateWithoutExpenseInput, Prisma.InvoiceUncheckedCreateWithoutExpenseInput>
   connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutExpenseInput
@@ -800,6 +875,26 @@ export type InvoiceUpdateOneWithoutExpenseNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutExpenseInput, Prisma.InvoiceUpdateWithoutExpenseInput>, Prisma.InvoiceUncheckedUpdateWithoutExpenseInput>
 }
 
+export type InvoiceCreateNestedOneWithoutDuplicatesInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicatesInput, Prisma.InvoiceUncheckedCreateWithoutDuplicatesInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutDuplicatesInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceCreateNestedManyWithoutDuplicateOfInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicateOfInput, Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput> | Prisma.InvoiceCreateWithoutDuplicateOfInput[] | Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput[]
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutDuplicateOfInput | Prisma.InvoiceCreateOrConnectWithoutDuplicateOfInput[]
+  createMany?: Prisma.InvoiceCreateManyDuplicateOfInputEnvelope
+  connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+}
+
+export type InvoiceUncheckedCreateNestedManyWithoutDuplicateOfInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicateOfInput, Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput> | Prisma.InvoiceCreateWithoutDuplicateOfInput[] | Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput[]
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutDuplicateOfInput | Prisma.InvoiceCreateOrConnectWithoutDuplicateOfInput[]
+  createMany?: Prisma.InvoiceCreateManyDuplicateOfInputEnvelope
+  connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+}
+
 export type EnumInvoiceStatusFieldUpdateOperationsInput = {
   set?: $Enums.InvoiceStatus
 }
@@ -816,6 +911,44 @@ export type NullableIntFieldUpdateOperationsInput = {
   divide?: number
 }
 
+export type InvoiceUpdateOneWithoutDuplicatesNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicatesInput, Prisma.InvoiceUncheckedCreateWithoutDuplicatesInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutDuplicatesInput
+  upsert?: Prisma.InvoiceUpsertWithoutDuplicatesInput
+  disconnect?: Prisma.InvoiceWhereInput | boolean
+  delete?: Prisma.InvoiceWhereInput | boolean
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutDuplicatesInput, Prisma.InvoiceUpdateWithoutDuplicatesInput>, Prisma.InvoiceUncheckedUpdateWithoutDuplicatesInput>
+}
+
+export type InvoiceUpdateManyWithoutDuplicateOfNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicateOfInput, Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput> | Prisma.InvoiceCreateWithoutDuplicateOfInput[] | Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput[]
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutDuplicateOfInput | Prisma.InvoiceCreateOrConnectWithoutDuplicateOfInput[]
+  upsert?: Prisma.InvoiceUpsertWithWhereUniqueWithoutDuplicateOfInput | Prisma.InvoiceUpsertWithWhereUniqueWithoutDuplicateOfInput[]
+  createMany?: Prisma.InvoiceCreateManyDuplicateOfInputEnvelope
+  set?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  disconnect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  delete?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  update?: Prisma.InvoiceUpdateWithWhereUniqueWithoutDuplicateOfInput | Prisma.InvoiceUpdateWithWhereUniqueWithoutDuplicateOfInput[]
+  updateMany?: Prisma.InvoiceUpdateManyWithWhereWithoutDuplicateOfInput | Prisma.InvoiceUpdateManyWithWhereWithoutDuplicateOfInput[]
+  deleteMany?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
+}
+
+export type InvoiceUncheckedUpdateManyWithoutDuplicateOfNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicateOfInput, Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput> | Prisma.InvoiceCreateWithoutDuplicateOfInput[] | Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput[]
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutDuplicateOfInput | Prisma.InvoiceCreateOrConnectWithoutDuplicateOfInput[]
+  upsert?: Prisma.InvoiceUpsertWithWhereUniqueWithoutDuplicateOfInput | Prisma.InvoiceUpsertWithWhereUniqueWithoutDuplicateOfInput[]
+  createMany?: Prisma.InvoiceCreateManyDuplicateOfInputEnvelope
+  set?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  disconnect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  delete?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  update?: Prisma.InvoiceUpdateWithWhereUniqueWithoutDuplicateOfInput | Prisma.InvoiceUpdateWithWhereUniqueWithoutDuplicateOfInput[]
+  updateMany?: Prisma.InvoiceUpdateManyWithWhereWithoutDuplicateOfInput | Prisma.InvoiceUpdateManyWithWhereWithoutDuplicateOfInput[]
+  deleteMany?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
+}
+
 export type InvoiceCreateNestedOneWithoutProcessingEventInput = {
   create?: Prisma.XOR<Prisma.InvoiceCreateWithoutProcessingEventInput, Prisma.InvoiceUncheckedCreateWithoutProcessingEventInput>
   connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutProcessingEventInput
@@ -906,10 +1039,14 @@ export type InvoiceCreateWithoutExpenseInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventCreateNestedManyWithoutInvoiceInput
+  DuplicateOf?: Prisma.InvoiceCreateNestedOneWithoutDuplicatesInput
+  Duplicates?: Prisma.InvoiceCreateNestedManyWithoutDuplicateOfInput
   User: Prisma.UserCreateNestedOneWithoutInvoiceInput
 }
 
@@ -934,10 +1071,14 @@ export type InvoiceUncheckedCreateWithoutExpenseInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateOfId?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedCreateNestedManyWithoutInvoiceInput
+  Duplicates?: Prisma.InvoiceUncheckedCreateNestedManyWithoutDuplicateOfInput
 }
 
 export type InvoiceCreateOrConnectWithoutExpenseInput = {
@@ -976,10 +1117,14 @@ export type InvoiceUpdateWithoutExpenseInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUpdateManyWithoutInvoiceNestedInput
+  DuplicateOf?: Prisma.InvoiceUpdateOneWithoutDuplicatesNestedInput
+  Duplicates?: Prisma.InvoiceUpdateManyWithoutDuplicateOfNestedInput
   User?: Prisma.UserUpdateOneRequiredWithoutInvoiceNestedInput
 }
 
@@ -1004,10 +1149,273 @@ export type InvoiceUncheckedUpdateWithoutExpenseInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedUpdateManyWithoutInvoiceNestedInput
+  Duplicates?: Prisma.InvoiceUncheckedUpdateManyWithoutDuplicateOfNestedInput
+}
+
+export type InvoiceCreateWithoutDuplicatesInput = {
+  id: string
+  pdfUrl: string
+  status?: $Enums.InvoiceStatus
+  processingStage?: $Enums.InvoiceProcessingStage
+  processingProgress?: number
+  processingAttempt?: number
+  stageStartedAt?: Date | string | null
+  stageCompletedAt?: Date | string | null
+  processingErrorCode?: string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: string | null
+  totalAmount?: number | null
+  purchaseDate?: Date | string | null
+  invoiceNumber?: string | null
+  orderNumber?: string | null
+  analysisProvider?: string | null
+  analysisConfidence?: number | null
+  processingTime?: number | null
+  errorMessage?: string | null
+  fileHash?: string | null
+  duplicateAllowed?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutInvoiceInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  ProcessingEvent?: Prisma.InvoiceProcessingEventCreateNestedManyWithoutInvoiceInput
+  DuplicateOf?: Prisma.InvoiceCreateNestedOneWithoutDuplicatesInput
+  User: Prisma.UserCreateNestedOneWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutDuplicatesInput = {
+  id: string
+  userId: string
+  pdfUrl: string
+  status?: $Enums.InvoiceStatus
+  processingStage?: $Enums.InvoiceProcessingStage
+  processingProgress?: number
+  processingAttempt?: number
+  stageStartedAt?: Date | string | null
+  stageCompletedAt?: Date | string | null
+  processingErrorCode?: string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: string | null
+  totalAmount?: number | null
+  purchaseDate?: Date | string | null
+  invoiceNumber?: string | null
+  orderNumber?: string | null
+  analysisProvider?: string | null
+  analysisConfidence?: number | null
+  processingTime?: number | null
+  errorMessage?: string | null
+  fileHash?: string | null
+  duplicateOfId?: string | null
+  duplicateAllowed?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutInvoiceInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceCreateOrConnectWithoutDuplicatesInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicatesInput, Prisma.InvoiceUncheckedCreateWithoutDuplicatesInput>
+}
+
+export type InvoiceCreateWithoutDuplicateOfInput = {
+  id: string
+  pdfUrl: string
+  status?: $Enums.InvoiceStatus
+  processingStage?: $Enums.InvoiceProcessingStage
+  processingProgress?: number
+  processingAttempt?: number
+  stageStartedAt?: Date | string | null
+  stageCompletedAt?: Date | string | null
+  processingErrorCode?: string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: string | null
+  totalAmount?: number | null
+  purchaseDate?: Date | string | null
+  invoiceNumber?: string | null
+  orderNumber?: string | null
+  analysisProvider?: string | null
+  analysisConfidence?: number | null
+  processingTime?: number | null
+  errorMessage?: string | null
+  fileHash?: string | null
+  duplicateAllowed?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutInvoiceInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  ProcessingEvent?: Prisma.InvoiceProcessingEventCreateNestedManyWithoutInvoiceInput
+  Duplicates?: Prisma.InvoiceCreateNestedManyWithoutDuplicateOfInput
+  User: Prisma.UserCreateNestedOneWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutDuplicateOfInput = {
+  id: string
+  userId: string
+  pdfUrl: string
+  status?: $Enums.InvoiceStatus
+  processingStage?: $Enums.InvoiceProcessingStage
+  processingProgress?: number
+  processingAttempt?: number
+  stageStartedAt?: Date | string | null
+  stageCompletedAt?: Date | string | null
+  processingErrorCode?: string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: string | null
+  totalAmount?: number | null
+  purchaseDate?: Date | string | null
+  invoiceNumber?: string | null
+  orderNumber?: string | null
+  analysisProvider?: string | null
+  analysisConfidence?: number | null
+  processingTime?: number | null
+  errorMessage?: string | null
+  fileHash?: string | null
+  duplicateAllowed?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutInvoiceInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedCreateNestedManyWithoutInvoiceInput
+  Duplicates?: Prisma.InvoiceUncheckedCreateNestedManyWithoutDuplicateOfInput
+}
+
+export type InvoiceCreateOrConnectWithoutDuplicateOfInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicateOfInput, Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput>
+}
+
+export type InvoiceCreateManyDuplicateOfInputEnvelope = {
+  data: Prisma.InvoiceCreateManyDuplicateOfInput | Prisma.InvoiceCreateManyDuplicateOfInput[]
+  skipDuplicates?: boolean
+}
+
+export type InvoiceUpsertWithoutDuplicatesInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutDuplicatesInput, Prisma.InvoiceUncheckedUpdateWithoutDuplicatesInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicatesInput, Prisma.InvoiceUncheckedCreateWithoutDuplicatesInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutDuplicatesInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutDuplicatesInput, Prisma.InvoiceUncheckedUpdateWithoutDuplicatesInput>
+}
+
+export type InvoiceUpdateWithoutDuplicatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  pdfUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInvoiceStatusFieldUpdateOperationsInput | $Enums.InvoiceStatus
+  processingStage?: Prisma.EnumInvoiceProcessingStageFieldUpdateOperationsInput | $Enums.InvoiceProcessingStage
+  processingProgress?: Prisma.IntFieldUpdateOperationsInput | number
+  processingAttempt?: Prisma.IntFieldUpdateOperationsInput | number
+  stageStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stageCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processingErrorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  purchaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  invoiceNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Expense?: Prisma.ExpenseUpdateManyWithoutInvoiceNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  ProcessingEvent?: Prisma.InvoiceProcessingEventUpdateManyWithoutInvoiceNestedInput
+  DuplicateOf?: Prisma.InvoiceUpdateOneWithoutDuplicatesNestedInput
+  User?: Prisma.UserUpdateOneRequiredWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutDuplicatesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  pdfUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInvoiceStatusFieldUpdateOperationsInput | $Enums.InvoiceStatus
+  processingStage?: Prisma.EnumInvoiceProcessingStageFieldUpdateOperationsInput | $Enums.InvoiceProcessingStage
+  processingProgress?: Prisma.IntFieldUpdateOperationsInput | number
+  processingAttempt?: Prisma.IntFieldUpdateOperationsInput | number
+  stageStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stageCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processingErrorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  purchaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  invoiceNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutInvoiceNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceUpsertWithWhereUniqueWithoutDuplicateOfInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutDuplicateOfInput, Prisma.InvoiceUncheckedUpdateWithoutDuplicateOfInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutDuplicateOfInput, Prisma.InvoiceUncheckedCreateWithoutDuplicateOfInput>
+}
+
+export type InvoiceUpdateWithWhereUniqueWithoutDuplicateOfInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutDuplicateOfInput, Prisma.InvoiceUncheckedUpdateWithoutDuplicateOfInput>
+}
+
+export type InvoiceUpdateManyWithWhereWithoutDuplicateOfInput = {
+  where: Prisma.InvoiceScalarWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateManyMutationInput, Prisma.InvoiceUncheckedUpdateManyWithoutDuplicateOfInput>
+}
+
+export type InvoiceScalarWhereInput = {
+  AND?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
+  OR?: Prisma.InvoiceScalarWhereInput[]
+  NOT?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
+  id?: Prisma.StringFilter<"Invoice"> | string
+  userId?: Prisma.StringFilter<"Invoice"> | string
+  pdfUrl?: Prisma.StringFilter<"Invoice"> | string
+  status?: Prisma.EnumInvoiceStatusFilter<"Invoice"> | $Enums.InvoiceStatus
+  processingStage?: Prisma.EnumInvoiceProcessingStageFilter<"Invoice"> | $Enums.InvoiceProcessingStage
+  processingProgress?: Prisma.IntFilter<"Invoice"> | number
+  processingAttempt?: Prisma.IntFilter<"Invoice"> | number
+  stageStartedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  stageCompletedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  processingErrorCode?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  rawAnalysisData?: Prisma.JsonNullableFilter<"Invoice">
+  merchantName?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  totalAmount?: Prisma.FloatNullableFilter<"Invoice"> | number | null
+  purchaseDate?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  invoiceNumber?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  orderNumber?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  analysisProvider?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  analysisConfidence?: Prisma.FloatNullableFilter<"Invoice"> | number | null
+  processingTime?: Prisma.IntNullableFilter<"Invoice"> | number | null
+  errorMessage?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  fileHash?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  duplicateOfId?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  duplicateAllowed?: Prisma.BoolFilter<"Invoice"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
 }
 
 export type InvoiceCreateWithoutProcessingEventInput = {
@@ -1030,10 +1438,14 @@ export type InvoiceCreateWithoutProcessingEventInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseCreateNestedManyWithoutInvoiceInput
   InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  DuplicateOf?: Prisma.InvoiceCreateNestedOneWithoutDuplicatesInput
+  Duplicates?: Prisma.InvoiceCreateNestedManyWithoutDuplicateOfInput
   User: Prisma.UserCreateNestedOneWithoutInvoiceInput
 }
 
@@ -1058,10 +1470,14 @@ export type InvoiceUncheckedCreateWithoutProcessingEventInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateOfId?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutInvoiceInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  Duplicates?: Prisma.InvoiceUncheckedCreateNestedManyWithoutDuplicateOfInput
 }
 
 export type InvoiceCreateOrConnectWithoutProcessingEventInput = {
@@ -1100,10 +1516,14 @@ export type InvoiceUpdateWithoutProcessingEventInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUpdateManyWithoutInvoiceNestedInput
   InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  DuplicateOf?: Prisma.InvoiceUpdateOneWithoutDuplicatesNestedInput
+  Duplicates?: Prisma.InvoiceUpdateManyWithoutDuplicateOfNestedInput
   User?: Prisma.UserUpdateOneRequiredWithoutInvoiceNestedInput
 }
 
@@ -1128,10 +1548,14 @@ export type InvoiceUncheckedUpdateWithoutProcessingEventInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutInvoiceNestedInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  Duplicates?: Prisma.InvoiceUncheckedUpdateManyWithoutDuplicateOfNestedInput
 }
 
 export type InvoiceCreateWithoutInvoiceItemInput = {
@@ -1154,10 +1578,14 @@ export type InvoiceCreateWithoutInvoiceItemInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseCreateNestedManyWithoutInvoiceInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventCreateNestedManyWithoutInvoiceInput
+  DuplicateOf?: Prisma.InvoiceCreateNestedOneWithoutDuplicatesInput
+  Duplicates?: Prisma.InvoiceCreateNestedManyWithoutDuplicateOfInput
   User: Prisma.UserCreateNestedOneWithoutInvoiceInput
 }
 
@@ -1182,10 +1610,14 @@ export type InvoiceUncheckedCreateWithoutInvoiceItemInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateOfId?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutInvoiceInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedCreateNestedManyWithoutInvoiceInput
+  Duplicates?: Prisma.InvoiceUncheckedCreateNestedManyWithoutDuplicateOfInput
 }
 
 export type InvoiceCreateOrConnectWithoutInvoiceItemInput = {
@@ -1224,10 +1656,14 @@ export type InvoiceUpdateWithoutInvoiceItemInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUpdateManyWithoutInvoiceNestedInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUpdateManyWithoutInvoiceNestedInput
+  DuplicateOf?: Prisma.InvoiceUpdateOneWithoutDuplicatesNestedInput
+  Duplicates?: Prisma.InvoiceUpdateManyWithoutDuplicateOfNestedInput
   User?: Prisma.UserUpdateOneRequiredWithoutInvoiceNestedInput
 }
 
@@ -1252,10 +1688,14 @@ export type InvoiceUncheckedUpdateWithoutInvoiceItemInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutInvoiceNestedInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedUpdateManyWithoutInvoiceNestedInput
+  Duplicates?: Prisma.InvoiceUncheckedUpdateManyWithoutDuplicateOfNestedInput
 }
 
 export type InvoiceCreateWithoutUserInput = {
@@ -1278,11 +1718,15 @@ export type InvoiceCreateWithoutUserInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseCreateNestedManyWithoutInvoiceInput
   InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventCreateNestedManyWithoutInvoiceInput
+  DuplicateOf?: Prisma.InvoiceCreateNestedOneWithoutDuplicatesInput
+  Duplicates?: Prisma.InvoiceCreateNestedManyWithoutDuplicateOfInput
 }
 
 export type InvoiceUncheckedCreateWithoutUserInput = {
@@ -1305,11 +1749,15 @@ export type InvoiceUncheckedCreateWithoutUserInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateOfId?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutInvoiceInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedCreateNestedManyWithoutInvoiceInput
+  Duplicates?: Prisma.InvoiceUncheckedCreateNestedManyWithoutDuplicateOfInput
 }
 
 export type InvoiceCreateOrConnectWithoutUserInput = {
@@ -1338,32 +1786,120 @@ export type InvoiceUpdateManyWithWhereWithoutUserInput = {
   data: Prisma.XOR<Prisma.InvoiceUpdateManyMutationInput, Prisma.InvoiceUncheckedUpdateManyWithoutUserInput>
 }
 
-export type InvoiceScalarWhereInput = {
-  AND?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
-  OR?: Prisma.InvoiceScalarWhereInput[]
-  NOT?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
-  id?: Prisma.StringFilter<"Invoice"> | string
-  userId?: Prisma.StringFilter<"Invoice"> | string
-  pdfUrl?: Prisma.StringFilter<"Invoice"> | string
-  status?: Prisma.EnumInvoiceStatusFilter<"Invoice"> | $Enums.InvoiceStatus
-  processingStage?: Prisma.EnumInvoiceProcessingStageFilter<"Invoice"> | $Enums.InvoiceProcessingStage
-  processingProgress?: Prisma.IntFilter<"Invoice"> | number
-  processingAttempt?: Prisma.IntFilter<"Invoice"> | number
-  stageStartedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
-  stageCompletedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
-  processingErrorCode?: Prisma.StringNullableFilter<"Invoice"> | string | null
-  rawAnalysisData?: Prisma.JsonNullableFilter<"Invoice">
-  merchantName?: Prisma.StringNullableFilter<"Invoice"> | string | null
-  totalAmount?: Prisma.FloatNullableFilter<"Invoice"> | number | null
-  purchaseDate?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
-  invoiceNumber?: Prisma.StringNullableFilter<"Invoice"> | string | null
-  orderNumber?: Prisma.StringNullableFilter<"Invoice"> | string | null
-  analysisProvider?: Prisma.StringNullableFilter<"Invoice"> | string | null
-  analysisConfidence?: Prisma.FloatNullableFilter<"Invoice"> | number | null
-  processingTime?: Prisma.IntNullableFilter<"Invoice"> | number | null
-  errorMessage?: Prisma.StringNullableFilter<"Invoice"> | string | null
-  createdAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
-  updatedAt?: Prisma.DateTimeFilter<"Invoice"> | Date | string
+export type InvoiceCreateManyDuplicateOfInput = {
+  id: string
+  userId: string
+  pdfUrl: string
+  status?: $Enums.InvoiceStatus
+  processingStage?: $Enums.InvoiceProcessingStage
+  processingProgress?: number
+  processingAttempt?: number
+  stageStartedAt?: Date | string | null
+  stageCompletedAt?: Date | string | null
+  processingErrorCode?: string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: string | null
+  totalAmount?: number | null
+  purchaseDate?: Date | string | null
+  invoiceNumber?: string | null
+  orderNumber?: string | null
+  analysisProvider?: string | null
+  analysisConfidence?: number | null
+  processingTime?: number | null
+  errorMessage?: string | null
+  fileHash?: string | null
+  duplicateAllowed?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type InvoiceUpdateWithoutDuplicateOfInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  pdfUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInvoiceStatusFieldUpdateOperationsInput | $Enums.InvoiceStatus
+  processingStage?: Prisma.EnumInvoiceProcessingStageFieldUpdateOperationsInput | $Enums.InvoiceProcessingStage
+  processingProgress?: Prisma.IntFieldUpdateOperationsInput | number
+  processingAttempt?: Prisma.IntFieldUpdateOperationsInput | number
+  stageStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stageCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processingErrorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  purchaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  invoiceNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Expense?: Prisma.ExpenseUpdateManyWithoutInvoiceNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  ProcessingEvent?: Prisma.InvoiceProcessingEventUpdateManyWithoutInvoiceNestedInput
+  Duplicates?: Prisma.InvoiceUpdateManyWithoutDuplicateOfNestedInput
+  User?: Prisma.UserUpdateOneRequiredWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutDuplicateOfInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  pdfUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInvoiceStatusFieldUpdateOperationsInput | $Enums.InvoiceStatus
+  processingStage?: Prisma.EnumInvoiceProcessingStageFieldUpdateOperationsInput | $Enums.InvoiceProcessingStage
+  processingProgress?: Prisma.IntFieldUpdateOperationsInput | number
+  processingAttempt?: Prisma.IntFieldUpdateOperationsInput | number
+  stageStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stageCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processingErrorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  purchaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  invoiceNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutInvoiceNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedUpdateManyWithoutInvoiceNestedInput
+  Duplicates?: Prisma.InvoiceUncheckedUpdateManyWithoutDuplicateOfNestedInput
+}
+
+export type InvoiceUncheckedUpdateManyWithoutDuplicateOfInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  pdfUrl?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumInvoiceStatusFieldUpdateOperationsInput | $Enums.InvoiceStatus
+  processingStage?: Prisma.EnumInvoiceProcessingStageFieldUpdateOperationsInput | $Enums.InvoiceProcessingStage
+  processingProgress?: Prisma.IntFieldUpdateOperationsInput | number
+  processingAttempt?: Prisma.IntFieldUpdateOperationsInput | number
+  stageStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stageCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  processingErrorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rawAnalysisData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  totalAmount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  purchaseDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  invoiceNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  orderNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type InvoiceCreateManyUserInput = {
@@ -1386,6 +1922,9 @@ export type InvoiceCreateManyUserInput = {
   analysisConfidence?: number | null
   processingTime?: number | null
   errorMessage?: string | null
+  fileHash?: string | null
+  duplicateOfId?: string | null
+  duplicateAllowed?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
 }
@@ -1410,11 +1949,15 @@ export type InvoiceUpdateWithoutUserInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUpdateManyWithoutInvoiceNestedInput
   InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUpdateManyWithoutInvoiceNestedInput
+  DuplicateOf?: Prisma.InvoiceUpdateOneWithoutDuplicatesNestedInput
+  Duplicates?: Prisma.InvoiceUpdateManyWithoutDuplicateOfNestedInput
 }
 
 export type InvoiceUncheckedUpdateWithoutUserInput = {
@@ -1437,11 +1980,15 @@ export type InvoiceUncheckedUpdateWithoutUserInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutInvoiceNestedInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
   ProcessingEvent?: Prisma.InvoiceProcessingEventUncheckedUpdateManyWithoutInvoiceNestedInput
+  Duplicates?: Prisma.InvoiceUncheckedUpdateManyWithoutDuplicateOfNestedInput
 }
 
 export type InvoiceUncheckedUpdateManyWithoutUserInput = {
@@ -1464,6 +2011,9 @@ export type InvoiceUncheckedUpdateManyWithoutUserInput = {
   analysisConfidence?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   processingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   errorMessage?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  duplicateAllowed?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -1477,12 +2027,14 @@ export type InvoiceCountOutputType = {
   Expense: number
   InvoiceItem: number
   ProcessingEvent: number
+  Duplicates: number
 }
 
 export type InvoiceCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   Expense?: boolean | InvoiceCountOutputTypeCountExpenseArgs
   InvoiceItem?: boolean | InvoiceCountOutputTypeCountInvoiceItemArgs
   ProcessingEvent?: boolean | InvoiceCountOutputTypeCountProcessingEventArgs
+  Duplicates?: boolean | InvoiceCountOutputTypeCountDuplicatesArgs
 }
 
 /**
@@ -1516,6 +2068,13 @@ export type InvoiceCountOutputTypeCountProcessingEventArgs<ExtArgs extends runti
   where?: Prisma.InvoiceProcessingEventWhereInput
 }
 
+/**
+ * InvoiceCountOutputType without action
+ */
+export type InvoiceCountOutputTypeCountDuplicatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceWhereInput
+}
+
 
 export type InvoiceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1538,11 +2097,16 @@ export type InvoiceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   analysisConfidence?: boolean
   processingTime?: boolean
   errorMessage?: boolean
+  fileHash?: boolean
+  duplicateOfId?: boolean
+  duplicateAllowed?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   Expense?: boolean | Prisma.Invoice$ExpenseArgs<ExtArgs>
   InvoiceItem?: boolean | Prisma.Invoice$InvoiceItemArgs<ExtArgs>
   ProcessingEvent?: boolean | Prisma.Invoice$ProcessingEventArgs<ExtArgs>
+  DuplicateOf?: boolean | Prisma.Invoice$DuplicateOfArgs<ExtArgs>
+  Duplicates?: boolean | Prisma.Invoice$DuplicatesArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   _count?: boolean | Prisma.InvoiceCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["invoice"]>
@@ -1568,8 +2132,12 @@ export type InvoiceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   analysisConfidence?: boolean
   processingTime?: boolean
   errorMessage?: boolean
+  fileHash?: boolean
+  duplicateOfId?: boolean
+  duplicateAllowed?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  DuplicateOf?: boolean | Prisma.Invoice$DuplicateOfArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["invoice"]>
 
@@ -1594,8 +2162,12 @@ export type InvoiceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   analysisConfidence?: boolean
   processingTime?: boolean
   errorMessage?: boolean
+  fileHash?: boolean
+  duplicateOfId?: boolean
+  duplicateAllowed?: boolean
   createdAt?: boolean
   updatedAt?: boolean
+  DuplicateOf?: boolean | Prisma.Invoice$DuplicateOfArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["invoice"]>
 
@@ -1620,22 +2192,29 @@ export type InvoiceSelectScalar = {
   analysisConfidence?: boolean
   processingTime?: boolean
   errorMessage?: boolean
+  fileHash?: boolean
+  duplicateOfId?: boolean
+  duplicateAllowed?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type InvoiceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "pdfUrl" | "status" | "processingStage" | "processingProgress" | "processingAttempt" | "stageStartedAt" | "stageCompletedAt" | "processingErrorCode" | "rawAnalysisData" | "merchantName" | "totalAmount" | "purchaseDate" | "invoiceNumber" | "orderNumber" | "analysisProvider" | "analysisConfidence" | "processingTime" | "errorMessage" | "createdAt" | "updatedAt", ExtArgs["result"]["invoice"]>
+export type InvoiceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "pdfUrl" | "status" | "processingStage" | "processingProgress" | "processingAttempt" | "stageStartedAt" | "stageCompletedAt" | "processingErrorCode" | "rawAnalysisData" | "merchantName" | "totalAmount" | "purchaseDate" | "invoiceNumber" | "orderNumber" | "analysisProvider" | "analysisConfidence" | "processingTime" | "errorMessage" | "fileHash" | "duplicateOfId" | "duplicateAllowed" | "createdAt" | "updatedAt", ExtArgs["result"]["invoice"]>
 export type InvoiceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   Expense?: boolean | Prisma.Invoice$ExpenseArgs<ExtArgs>
   InvoiceItem?: boolean | Prisma.Invoice$InvoiceItemArgs<ExtArgs>
   ProcessingEvent?: boolean | Prisma.Invoice$ProcessingEventArgs<ExtArgs>
+  DuplicateOf?: boolean | Prisma.Invoice$DuplicateOfArgs<ExtArgs>
+  Duplicates?: boolean | Prisma.Invoice$DuplicatesArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   _count?: boolean | Prisma.InvoiceCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type InvoiceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  DuplicateOf?: boolean | Prisma.Invoice$DuplicateOfArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }
 export type InvoiceIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  DuplicateOf?: boolean | Prisma.Invoice$DuplicateOfArgs<ExtArgs>
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }
 
@@ -1645,6 +2224,8 @@ export type $InvoicePayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     Expense: Prisma.$ExpensePayload<ExtArgs>[]
     InvoiceItem: Prisma.$InvoiceItemPayload<ExtArgs>[]
     ProcessingEvent: Prisma.$InvoiceProcessingEventPayload<ExtArgs>[]
+    DuplicateOf: Prisma.$InvoicePayload<ExtArgs> | null
+    Duplicates: Prisma.$InvoicePayload<ExtArgs>[]
     User: Prisma.$UserPayload<ExtArgs>
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
@@ -1668,6 +2249,9 @@ export type $InvoicePayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     analysisConfidence: number | null
     processingTime: number | null
     errorMessage: string | null
+    fileHash: string | null
+    duplicateOfId: string | null
+    duplicateAllowed: boolean
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["invoice"]>
@@ -2067,6 +2651,8 @@ export interface Prisma__InvoiceClient<T, Null = never, ExtArgs extends runtime.
   Expense<T extends Prisma.Invoice$ExpenseArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$ExpenseArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpensePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   InvoiceItem<T extends Prisma.Invoice$InvoiceItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$InvoiceItemArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   ProcessingEvent<T extends Prisma.Invoice$ProcessingEventArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$ProcessingEventArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceProcessingEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  DuplicateOf<T extends Prisma.Invoice$DuplicateOfArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$DuplicateOfArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  Duplicates<T extends Prisma.Invoice$DuplicatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$DuplicatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
@@ -2117,6 +2703,9 @@ export interface InvoiceFieldRefs {
   readonly analysisConfidence: Prisma.FieldRef<"Invoice", 'Float'>
   readonly processingTime: Prisma.FieldRef<"Invoice", 'Int'>
   readonly errorMessage: Prisma.FieldRef<"Invoice", 'String'>
+  readonly fileHash: Prisma.FieldRef<"Invoice", 'String'>
+  readonly duplicateOfId: Prisma.FieldRef<"Invoice", 'String'>
+  readonly duplicateAllowed: Prisma.FieldRef<"Invoice", 'Boolean'>
   readonly createdAt: Prisma.FieldRef<"Invoice", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Invoice", 'DateTime'>
 }
@@ -2586,6 +3175,49 @@ export type Invoice$ProcessingEventArgs<ExtArgs extends runtime.Types.Extensions
   distinct?: Prisma.InvoiceProcessingEventScalarFieldEnum | Prisma.InvoiceProcessingEventScalarFieldEnum[]
 }
 
+/**
+ * Invoice.DuplicateOf
+ */
+export type Invoice$DuplicateOfArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  where?: Prisma.InvoiceWhereInput
+}
+
+/**
+ * Invoice.Duplicates
+ */
+export type Invoice$DuplicatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  where?: Prisma.InvoiceWhereInput
+  orderBy?: Prisma.InvoiceOrderByWithRelationInput | Prisma.InvoiceOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceScalarFieldEnum | Prisma.InvoiceScalarFieldEnum[]
+}
+
 /**
  * Invoice without action
  */
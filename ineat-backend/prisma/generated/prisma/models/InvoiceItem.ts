@@ -47,6 +47,8 @@ export type InvoiceItemMinAggregateOutputType = {
   invoiceId: string | null
   productId: string | null
   detectedName: string | null
+  originalDetectedName: string | null
+  resolvedFromHistory: boolean | null
   quantity: number | null
   unitPrice: number | null
   totalPrice: number | null
@@ -71,6 +73,8 @@ export type InvoiceItemMaxAggregateOutputType = {
   invoiceId: string | null
   productId: string | null
   detectedName: string | null
+  originalDetectedName: string | null
+  resolvedFromHistory: boolean | null
   quantity: number | null
   unitPrice: number | null
   totalPrice: number | null
@@ -95,6 +99,8 @@ export type InvoiceItemCountAggregateOutputType = {
   invoiceId: number
   productId: number
   detectedName: number
+  originalDetectedName: number
+  resolvedFromHistory: number
   quantity: number
   unitPrice: number
   totalPrice: number
@@ -139,6 +145,8 @@ export type InvoiceItemMinAggregateInputType = {
   invoiceId?: true
   productId?: true
   detectedName?: true
+  originalDetectedName?: true
+  resolvedFromHistory?: true
   quantity?: true
   unitPrice?: true
   totalPrice?: true
@@ -163,6 +171,8 @@ export type InvoiceItemMaxAggregateInputType = {
   invoiceId?: true
   productId?: true
   detectedName?: true
+  originalDetectedName?: true
+  resolvedFromHistory?: true
   quantity?: true
   unitPrice?: true
   totalPrice?: true
@@ -187,6 +197,8 @@ export type InvoiceItemCountAggregateInputType = {
   invoiceId?: true
   productId?: true
   detectedName?: true
+  originalDetectedName?: true
+  resolvedFromHistory?: true
   quantity?: true
   unitPrice?: true
   totalPrice?: true
@@ -300,6 +312,8 @@ export type InvoiceItemGroupByOutputType = {
   invoiceId: string
   productId: string | null
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory: boolean
   quantity: number
   unitPrice: number | null
   totalPrice: number | null
@@ -349,6 +363,8 @@ export type InvoiceItemWhereInput = {
   invoiceId?: Prisma.StringFilter<"InvoiceItem"> | string
   productId?: Prisma.StringNullableFilter<"InvoiceItem"> | string | null
   detectedName?: Prisma.StringFilter<"InvoiceItem"> | string
+  originalDetectedName?: Prisma.StringFilter<"InvoiceItem"> | string
+  resolvedFromHistory?: Prisma.BoolFilter<"InvoiceItem"> | boolean
   quantity?: Prisma.FloatFilter<"InvoiceItem"> | number
   unitPrice?: Prisma.FloatNullableFilter<"InvoiceItem"> | number | null
   totalPrice?: Prisma.FloatNullableFilter<"InvoiceItem"> | number | null
@@ -369,6 +385,8 @@ export type InvoiceItemWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"InvoiceItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"InvoiceItem"> | Date | string
   Expense?: Prisma.XOR<Prisma.ExpenseNullableScalarRelationFilter, Prisma.ExpenseWhereInput> | null
+  InventoryItem?: Prisma.XOR<Prisma.InventoryItemNullableScalarRelationFilter, Prisma.InventoryItemWhereInput> | null
+  ProductPriceRecord?: Prisma.XOR<Prisma.ProductPriceRecordNullableScalarRelationFilter, Prisma.ProductPriceRecordWhereInput> | null
   Invoice?: Prisma.XOR<Prisma.InvoiceScalarRelationFilter, Prisma.InvoiceWhereInput>
   Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
 }
@@ -378,6 +396,8 @@ export type InvoiceItemOrderByWithRelationInput = {
   invoiceId?: Prisma.SortOrder
   productId?: Prisma.SortOrderInput | Prisma.SortOrder
   detectedName?: Prisma.SortOrder
+  originalDetectedName?: Prisma.SortOrder
+  resolvedFromHistory?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrderInput | Prisma.SortOrder
   totalPrice?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -398,6 +418,8 @@ export type InvoiceItemOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   Expense?: Prisma.ExpenseOrderByWithRelationInput
+  InventoryItem?: Prisma.InventoryItemOrderByWithRelationInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordOrderByWithRelationInput
   Invoice?: Prisma.InvoiceOrderByWithRelationInput
   Product?: Prisma.ProductOrderByWithRelationInput
 }
@@ -410,6 +432,8 @@ export type InvoiceItemWhereUniqueInput = Prisma.AtLeast<{
   invoiceId?: Prisma.StringFilter<"InvoiceItem"> | string
   productId?: Prisma.StringNullableFilter<"InvoiceItem"> | string | null
   detectedName?: Prisma.StringFilter<"InvoiceItem"> | string
+  originalDetectedName?: Prisma.StringFilter<"InvoiceItem"> | string
+  resolvedFromHistory?: Prisma.BoolFilter<"InvoiceItem"> | boolean
   quantity?: Prisma.FloatFilter<"InvoiceItem"> | number
   unitPrice?: Prisma.FloatNullableFilter<"InvoiceItem"> | number | null
   totalPrice?: Prisma.FloatNullableFilter<"InvoiceItem"> | number | null
@@ -430,6 +454,8 @@ export type InvoiceItemWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"InvoiceItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"InvoiceItem"> | Date | string
   Expense?: Prisma.XOR<Prisma.ExpenseNullableScalarRelationFilter, Prisma.ExpenseWhereInput> | null
+  InventoryItem?: Prisma.XOR<Prisma.InventoryItemNullableScalarRelationFilter, Prisma.InventoryItemWhereInput> | null
+  ProductPriceRecord?: Prisma.XOR<Prisma.ProductPriceRecordNullableScalarRelationFilter, Prisma.ProductPriceRecordWhereInput> | null
   Invoice?: Prisma.XOR<Prisma.InvoiceScalarRelationFilter, Prisma.InvoiceWhereInput>
   Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
 }, "id">
@@ -439,6 +465,8 @@ export type InvoiceItemOrderByWithAggregationInput = {
   invoiceId?: Prisma.SortOrder
   productId?: Prisma.SortOrderInput | Prisma.SortOrder
   detectedName?: Prisma.SortOrder
+  originalDetectedName?: Prisma.SortOrder
+  resolvedFromHistory?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrderInput | Prisma.SortOrder
   totalPrice?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -473,6 +501,8 @@ export type InvoiceItemScalarWhereWithAggregatesInput = {
   invoiceId?: Prisma.StringWithAggregatesFilter<"InvoiceItem"> | string
   productId?: Prisma.StringNullableWithAggregatesFilter<"InvoiceItem"> | string | null
   detectedName?: Prisma.StringWithAggregatesFilter<"InvoiceItem"> | string
+  originalDetectedName?: Prisma.StringWithAggregatesFilter<"InvoiceItem"> | string
+  resolvedFromHistory?: Prisma.BoolWithAggregatesFilter<"InvoiceItem"> | boolean
   quantity?: Prisma.FloatWithAggregatesFilter<"InvoiceItem"> | number
   unitPrice?: Prisma.FloatNullableWithAggregatesFilter<"InvoiceItem"> | number | null
   totalPrice?: Prisma.FloatNullableWithAggregatesFilter<"InvoiceItem"> | number | null
@@ -497,6 +527,8 @@ export type InvoiceItemScalarWhereWithAggregatesInput = {
 export type InvoiceItemCreateInput = {
   id: string
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -517,6 +549,8 @@ export type InvoiceItemCreateInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseCreateNestedOneWithoutInvoiceItemInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedOneWithoutInvoiceItemInput
   Invoice: Prisma.InvoiceCreateNestedOneWithoutInvoiceItemInput
   Product?: Prisma.ProductCreateNestedOneWithoutInvoiceItemInput
 }
@@ -526,6 +560,8 @@ export type InvoiceItemUncheckedCreateInput = {
   invoiceId: string
   productId?: string | null
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -546,11 +582,15 @@ export type InvoiceItemUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseUncheckedCreateNestedOneWithoutInvoiceItemInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedOneWithoutInvoiceItemInput
 }
 
 export type InvoiceItemUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -571,6 +611,8 @@ export type InvoiceItemUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUpdateOneWithoutInvoiceItemNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateOneWithoutInvoiceItemNestedInput
   Invoice?: Prisma.InvoiceUpdateOneRequiredWithoutInvoiceItemNestedInput
   Product?: Prisma.ProductUpdateOneWithoutInvoiceItemNestedInput
 }
@@ -580,6 +622,8 @@ export type InvoiceItemUncheckedUpdateInput = {
   invoiceId?: Prisma.StringFieldUpdateOperationsInput | string
   productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -600,6 +644,8 @@ export type InvoiceItemUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUncheckedUpdateOneWithoutInvoiceItemNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateOneWithoutInvoiceItemNestedInput
 }
 
 export type InvoiceItemCreateManyInput = {
@@ -607,6 +653,8 @@ export type InvoiceItemCreateManyInput = {
   invoiceId: string
   productId?: string | null
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -631,6 +679,8 @@ export type InvoiceItemCreateManyInput = {
 export type InvoiceItemUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -657,6 +707,8 @@ export type InvoiceItemUncheckedUpdateManyInput = {
   invoiceId?: Prisma.StringFieldUpdateOperationsInput | string
   productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -698,6 +750,8 @@ export type InvoiceItemCountOrderByAggregateInput = {
   invoiceId?: Prisma.SortOrder
   productId?: Prisma.SortOrder
   detectedName?: Prisma.SortOrder
+  originalDetectedName?: Prisma.SortOrder
+  resolvedFromHistory?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
   totalPrice?: Prisma.SortOrder
@@ -732,6 +786,8 @@ export type InvoiceItemMaxOrderByAggregateInput = {
   invoiceId?: Prisma.SortOrder
   productId?: Prisma.SortOrder
   detectedName?: Prisma.SortOrder
+  originalDetectedName?: Prisma.SortOrder
+  resolvedFromHistory?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
   totalPrice?: Prisma.SortOrder
@@ -756,6 +812,8 @@ export type InvoiceItemMinOrderByAggregateInput = {
   invoiceId?: Prisma.SortOrder
   productId?: Prisma.SortOrder
   detectedName?: Prisma.SortOrder
+  originalDetectedName?: Prisma.SortOrder
+  resolvedFromHistory?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unitPrice?: Prisma.SortOrder
   totalPrice?: Prisma.SortOrder
@@ -799,6 +857,38 @@ export type InvoiceItemUpdateOneWithoutExpenseNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceItemUpdateToOneWithWhereWithoutExpenseInput, Prisma.InvoiceItemUpdateWithoutExpenseInput>, Prisma.InvoiceItemUncheckedUpdateWithoutExpenseInput>
 }
 
+export type InvoiceItemCreateNestedOneWithoutInventoryItemInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemCreateWithoutInventoryItemInput, Prisma.InvoiceItemUncheckedCreateWithoutInventoryItemInput>
+  connectOrCreate?: Prisma.InvoiceItemCreateOrConnectWithoutInventoryItemInput
+  connect?: Prisma.InvoiceItemWhereUniqueInput
+}
+
+export type InvoiceItemUpdateOneWithoutInventoryItemNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemCreateWithoutInventoryItemInput, Prisma.InvoiceItemUncheckedCreateWithoutInventoryItemInput>
+  connectOrCreate?: Prisma.InvoiceItemCreateOrConnectWithoutInventoryItemInput
+  upsert?: Prisma.InvoiceItemUpsertWithoutInventoryItemInput
+  disconnect?: Prisma.InvoiceItemWhereInput | boolean
+  delete?: Prisma.InvoiceItemWhereInput | boolean
+  connect?: Prisma.InvoiceItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceItemUpdateToOneWithWhereWithoutInventoryItemInput, Prisma.InvoiceItemUpdateWithoutInventoryItemInput>, Prisma.InvoiceItemUncheckedUpdateWithoutInventoryItemInput>
+}
+
+export type InvoiceItemCreateNestedOneWithoutProductPriceRecordInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemCreateWithoutProductPriceRecordInput, Prisma.InvoiceItemUncheckedCreateWithoutProductPriceRecordInput>
+  connectOrCreate?: Prisma.InvoiceItemCreateOrConnectWithoutProductPriceRecordInput
+  connect?: Prisma.InvoiceItemWhereUniqueInput
+}
+
+export type InvoiceItemUpdateOneWithoutProductPriceRecordNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemCreateWithoutProductPriceRecordInput, Prisma.InvoiceItemUncheckedCreateWithoutProductPriceRecordInput>
+  connectOrCreate?: Prisma.InvoiceItemCreateOrConnectWithoutProductPriceRecordInput
+  upsert?: Prisma.InvoiceItemUpsertWithoutProductPriceRecordInput
+  disconnect?: Prisma.InvoiceItemWhereInput | boolean
+  delete?: Prisma.InvoiceItemWhereInput | boolean
+  connect?: Prisma.InvoiceItemWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceItemUpdateToOneWithWhereWithoutProductPriceRecordInput, Prisma.InvoiceItemUpdateWithoutProductPriceRecordInput>, Prisma.InvoiceItemUncheckedUpdateWithoutProductPriceRecordInput>
+}
+
 export type InvoiceItemCreateNestedManyWithoutProductInput = {
   create?: Prisma.XOR<Prisma.InvoiceItemCreateWithoutProductInput, Prisma.InvoiceItemUncheckedCreateWithoutProductInput> | Prisma.InvoiceItemCreateWithoutProductInput[] | Prisma.InvoiceItemUncheckedCreateWithoutProductInput[]
   connectOrCreate?: Prisma.InvoiceItemCreateOrConnectWithoutProductInput | Prisma.InvoiceItemCreateOrConnectWithoutProductInput[]
@@ -886,6 +976,8 @@ export type InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput = {
 export type InvoiceItemCreateWithoutExpenseInput = {
   id: string
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -905,6 +997,8 @@ export type InvoiceItemCreateWithoutExpenseInput = {
   notes?: string | null
   createdAt?: Date | string
   updatedAt: Date | string
+  InventoryItem?: Prisma.InventoryItemCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedOneWithoutInvoiceItemInput
   Invoice: Prisma.InvoiceCreateNestedOneWithoutInvoiceItemInput
   Product?: Prisma.ProductCreateNestedOneWithoutInvoiceItemInput
 }
@@ -914,6 +1008,8 @@ export type InvoiceItemUncheckedCreateWithoutExpenseInput = {
   invoiceId: string
   productId?: string | null
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -933,6 +1029,8 @@ export type InvoiceItemUncheckedCreateWithoutExpenseInput = {
   notes?: string | null
   createdAt?: Date | string
   updatedAt: Date | string
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedOneWithoutInvoiceItemInput
 }
 
 export type InvoiceItemCreateOrConnectWithoutExpenseInput = {
@@ -954,6 +1052,8 @@ export type InvoiceItemUpdateToOneWithWhereWithoutExpenseInput = {
 export type InvoiceItemUpdateWithoutExpenseInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -973,6 +1073,8 @@ export type InvoiceItemUpdateWithoutExpenseInput = {
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  InventoryItem?: Prisma.InventoryItemUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateOneWithoutInvoiceItemNestedInput
   Invoice?: Prisma.InvoiceUpdateOneRequiredWithoutInvoiceItemNestedInput
   Product?: Prisma.ProductUpdateOneWithoutInvoiceItemNestedInput
 }
@@ -982,6 +1084,280 @@ export type InvoiceItemUncheckedUpdateWithoutExpenseInput = {
   invoiceId?: Prisma.StringFieldUpdateOperationsInput | string
   productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  confidence?: Prisma.FloatFieldUpdateOperationsInput | number
+  validated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  productCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  suggestedEans?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  externalProductProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalProductStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalProductData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  externalProductError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateOneWithoutInvoiceItemNestedInput
+}
+
+export type InvoiceItemCreateWithoutInventoryItemInput = {
+  id: string
+  detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
+  quantity?: number
+  unitPrice?: number | null
+  totalPrice?: number | null
+  confidence: number
+  validated?: boolean
+  productCode?: string | null
+  category?: string | null
+  discount?: number | null
+  selectedEan?: string | null
+  suggestedEans?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  externalProductProvider?: string | null
+  externalProductStatus?: string | null
+  externalProductData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  externalProductError?: string | null
+  expiryDate?: Date | string | null
+  storageLocation?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Expense?: Prisma.ExpenseCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedOneWithoutInvoiceItemInput
+  Invoice: Prisma.InvoiceCreateNestedOneWithoutInvoiceItemInput
+  Product?: Prisma.ProductCreateNestedOneWithoutInvoiceItemInput
+}
+
+export type InvoiceItemUncheckedCreateWithoutInventoryItemInput = {
+  id: string
+  invoiceId: string
+  productId?: string | null
+  detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
+  quantity?: number
+  unitPrice?: number | null
+  totalPrice?: number | null
+  confidence: number
+  validated?: boolean
+  productCode?: string | null
+  category?: string | null
+  discount?: number | null
+  selectedEan?: string | null
+  suggestedEans?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  externalProductProvider?: string | null
+  externalProductStatus?: string | null
+  externalProductData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  externalProductError?: string | null
+  expiryDate?: Date | string | null
+  storageLocation?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Expense?: Prisma.ExpenseUncheckedCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedOneWithoutInvoiceItemInput
+}
+
+export type InvoiceItemCreateOrConnectWithoutInventoryItemInput = {
+  where: Prisma.InvoiceItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceItemCreateWithoutInventoryItemInput, Prisma.InvoiceItemUncheckedCreateWithoutInventoryItemInput>
+}
+
+export type InvoiceItemUpsertWithoutInventoryItemInput = {
+  update: Prisma.XOR<Prisma.InvoiceItemUpdateWithoutInventoryItemInput, Prisma.InvoiceItemUncheckedUpdateWithoutInventoryItemInput>
+  create: Prisma.XOR<Prisma.InvoiceItemCreateWithoutInventoryItemInput, Prisma.InvoiceItemUncheckedCreateWithoutInventoryItemInput>
+  where?: Prisma.InvoiceItemWhereInput
+}
+
+export type InvoiceItemUpdateToOneWithWhereWithoutInventoryItemInput = {
+  where?: Prisma.InvoiceItemWhereInput
+  data: Prisma.XOR<Prisma.InvoiceItemUpdateWithoutInventoryItemInput, Prisma.InvoiceItemUncheckedUpdateWithoutInventoryItemInput>
+}
+
+export type InvoiceItemUpdateWithoutInventoryItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  confidence?: Prisma.FloatFieldUpdateOperationsInput | number
+  validated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  productCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  suggestedEans?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  externalProductProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalProductStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalProductData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  externalProductError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Expense?: Prisma.ExpenseUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateOneWithoutInvoiceItemNestedInput
+  Invoice?: Prisma.InvoiceUpdateOneRequiredWithoutInvoiceItemNestedInput
+  Product?: Prisma.ProductUpdateOneWithoutInvoiceItemNestedInput
+}
+
+export type InvoiceItemUncheckedUpdateWithoutInventoryItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  confidence?: Prisma.FloatFieldUpdateOperationsInput | number
+  validated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  productCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  suggestedEans?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  externalProductProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalProductStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalProductData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  externalProductError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Expense?: Prisma.ExpenseUncheckedUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateOneWithoutInvoiceItemNestedInput
+}
+
+export type InvoiceItemCreateWithoutProductPriceRecordInput = {
+  id: string
+  detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
+  quantity?: number
+  unitPrice?: number | null
+  totalPrice?: number | null
+  confidence: number
+  validated?: boolean
+  productCode?: string | null
+  category?: string | null
+  discount?: number | null
+  selectedEan?: string | null
+  suggestedEans?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  externalProductProvider?: string | null
+  externalProductStatus?: string | null
+  externalProductData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  externalProductError?: string | null
+  expiryDate?: Date | string | null
+  storageLocation?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Expense?: Prisma.ExpenseCreateNestedOneWithoutInvoiceItemInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedOneWithoutInvoiceItemInput
+  Invoice: Prisma.InvoiceCreateNestedOneWithoutInvoiceItemInput
+  Product?: Prisma.ProductCreateNestedOneWithoutInvoiceItemInput
+}
+
+export type InvoiceItemUncheckedCreateWithoutProductPriceRecordInput = {
+  id: string
+  invoiceId: string
+  productId?: string | null
+  detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
+  quantity?: number
+  unitPrice?: number | null
+  totalPrice?: number | null
+  confidence: number
+  validated?: boolean
+  productCode?: string | null
+  category?: string | null
+  discount?: number | null
+  selectedEan?: string | null
+  suggestedEans?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  externalProductProvider?: string | null
+  externalProductStatus?: string | null
+  externalProductData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  externalProductError?: string | null
+  expiryDate?: Date | string | null
+  storageLocation?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Expense?: Prisma.ExpenseUncheckedCreateNestedOneWithoutInvoiceItemInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedOneWithoutInvoiceItemInput
+}
+
+export type InvoiceItemCreateOrConnectWithoutProductPriceRecordInput = {
+  where: Prisma.InvoiceItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceItemCreateWithoutProductPriceRecordInput, Prisma.InvoiceItemUncheckedCreateWithoutProductPriceRecordInput>
+}
+
+export type InvoiceItemUpsertWithoutProductPriceRecordInput = {
+  update: Prisma.XOR<Prisma.InvoiceItemUpdateWithoutProductPriceRecordInput, Prisma.InvoiceItemUncheckedUpdateWithoutProductPriceRecordInput>
+  create: Prisma.XOR<Prisma.InvoiceItemCreateWithoutProductPriceRecordInput, Prisma.InvoiceItemUncheckedCreateWithoutProductPriceRecordInput>
+  where?: Prisma.InvoiceItemWhereInput
+}
+
+export type InvoiceItemUpdateToOneWithWhereWithoutProductPriceRecordInput = {
+  where?: Prisma.InvoiceItemWhereInput
+  data: Prisma.XOR<Prisma.InvoiceItemUpdateWithoutProductPriceRecordInput, Prisma.InvoiceItemUncheckedUpdateWithoutProductPriceRecordInput>
+}
+
+export type InvoiceItemUpdateWithoutProductPriceRecordInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  confidence?: Prisma.FloatFieldUpdateOperationsInput | number
+  validated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  productCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discount?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  suggestedEans?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  externalProductProvider?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalProductStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalProductData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  externalProductError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  expiryDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Expense?: Prisma.ExpenseUpdateOneWithoutInvoiceItemNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateOneWithoutInvoiceItemNestedInput
+  Invoice?: Prisma.InvoiceUpdateOneRequiredWithoutInvoiceItemNestedInput
+  Product?: Prisma.ProductUpdateOneWithoutInvoiceItemNestedInput
+}
+
+export type InvoiceItemUncheckedUpdateWithoutProductPriceRecordInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  invoiceId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1001,11 +1377,15 @@ export type InvoiceItemUncheckedUpdateWithoutExpenseInput = {
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Expense?: Prisma.ExpenseUncheckedUpdateOneWithoutInvoiceItemNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateOneWithoutInvoiceItemNestedInput
 }
 
 export type InvoiceItemCreateWithoutProductInput = {
   id: string
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -1026,6 +1406,8 @@ export type InvoiceItemCreateWithoutProductInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseCreateNestedOneWithoutInvoiceItemInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedOneWithoutInvoiceItemInput
   Invoice: Prisma.InvoiceCreateNestedOneWithoutInvoiceItemInput
 }
 
@@ -1033,6 +1415,8 @@ export type InvoiceItemUncheckedCreateWithoutProductInput = {
   id: string
   invoiceId: string
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -1053,6 +1437,8 @@ export type InvoiceItemUncheckedCreateWithoutProductInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseUncheckedCreateNestedOneWithoutInvoiceItemInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedOneWithoutInvoiceItemInput
 }
 
 export type InvoiceItemCreateOrConnectWithoutProductInput = {
@@ -1089,6 +1475,8 @@ export type InvoiceItemScalarWhereInput = {
   invoiceId?: Prisma.StringFilter<"InvoiceItem"> | string
   productId?: Prisma.StringNullableFilter<"InvoiceItem"> | string | null
   detectedName?: Prisma.StringFilter<"InvoiceItem"> | string
+  originalDetectedName?: Prisma.StringFilter<"InvoiceItem"> | string
+  resolvedFromHistory?: Prisma.BoolFilter<"InvoiceItem"> | boolean
   quantity?: Prisma.FloatFilter<"InvoiceItem"> | number
   unitPrice?: Prisma.FloatNullableFilter<"InvoiceItem"> | number | null
   totalPrice?: Prisma.FloatNullableFilter<"InvoiceItem"> | number | null
@@ -1113,6 +1501,8 @@ export type InvoiceItemScalarWhereInput = {
 export type InvoiceItemCreateWithoutInvoiceInput = {
   id: string
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -1133,6 +1523,8 @@ export type InvoiceItemCreateWithoutInvoiceInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseCreateNestedOneWithoutInvoiceItemInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedOneWithoutInvoiceItemInput
   Product?: Prisma.ProductCreateNestedOneWithoutInvoiceItemInput
 }
 
@@ -1140,6 +1532,8 @@ export type InvoiceItemUncheckedCreateWithoutInvoiceInput = {
   id: string
   productId?: string | null
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -1160,6 +1554,8 @@ export type InvoiceItemUncheckedCreateWithoutInvoiceInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   Expense?: Prisma.ExpenseUncheckedCreateNestedOneWithoutInvoiceItemInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedOneWithoutInvoiceItemInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedOneWithoutInvoiceItemInput
 }
 
 export type InvoiceItemCreateOrConnectWithoutInvoiceInput = {
@@ -1192,6 +1588,8 @@ export type InvoiceItemCreateManyProductInput = {
   id: string
   invoiceId: string
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -1216,6 +1614,8 @@ export type InvoiceItemCreateManyProductInput = {
 export type InvoiceItemUpdateWithoutProductInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1236,6 +1636,8 @@ export type InvoiceItemUpdateWithoutProductInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUpdateOneWithoutInvoiceItemNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateOneWithoutInvoiceItemNestedInput
   Invoice?: Prisma.InvoiceUpdateOneRequiredWithoutInvoiceItemNestedInput
 }
 
@@ -1243,6 +1645,8 @@ export type InvoiceItemUncheckedUpdateWithoutProductInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   invoiceId?: Prisma.StringFieldUpdateOperationsInput | string
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1263,12 +1667,16 @@ export type InvoiceItemUncheckedUpdateWithoutProductInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUncheckedUpdateOneWithoutInvoiceItemNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateOneWithoutInvoiceItemNestedInput
 }
 
 export type InvoiceItemUncheckedUpdateManyWithoutProductInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   invoiceId?: Prisma.StringFieldUpdateOperationsInput | string
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1294,6 +1702,8 @@ export type InvoiceItemCreateManyInvoiceInput = {
   id: string
   productId?: string | null
   detectedName: string
+  originalDetectedName: string
+  resolvedFromHistory?: boolean
   quantity?: number
   unitPrice?: number | null
   totalPrice?: number | null
@@ -1318,6 +1728,8 @@ export type InvoiceItemCreateManyInvoiceInput = {
 export type InvoiceItemUpdateWithoutInvoiceInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1338,6 +1750,8 @@ export type InvoiceItemUpdateWithoutInvoiceInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUpdateOneWithoutInvoiceItemNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateOneWithoutInvoiceItemNestedInput
   Product?: Prisma.ProductUpdateOneWithoutInvoiceItemNestedInput
 }
 
@@ -1345,6 +1759,8 @@ export type InvoiceItemUncheckedUpdateWithoutInvoiceInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1365,12 +1781,16 @@ export type InvoiceItemUncheckedUpdateWithoutInvoiceInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   Expense?: Prisma.ExpenseUncheckedUpdateOneWithoutInvoiceItemNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateOneWithoutInvoiceItemNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateOneWithoutInvoiceItemNestedInput
 }
 
 export type InvoiceItemUncheckedUpdateManyWithoutInvoiceInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   detectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  originalDetectedName?: Prisma.StringFieldUpdateOperationsInput | string
+  resolvedFromHistory?: Prisma.BoolFieldUpdateOperationsInput | boolean
   quantity?: Prisma.FloatFieldUpdateOperationsInput | number
   unitPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   totalPrice?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
@@ -1399,6 +1819,8 @@ export type InvoiceItemSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   invoiceId?: boolean
   productId?: boolean
   detectedName?: boolean
+  originalDetectedName?: boolean
+  resolvedFromHistory?: boolean
   quantity?: boolean
   unitPrice?: boolean
   totalPrice?: boolean
@@ -1419,6 +1841,8 @@ export type InvoiceItemSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   createdAt?: boolean
   updatedAt?: boolean
   Expense?: boolean | Prisma.InvoiceItem$ExpenseArgs<ExtArgs>
+  InventoryItem?: boolean | Prisma.InvoiceItem$InventoryItemArgs<ExtArgs>
+  ProductPriceRecord?: boolean | Prisma.InvoiceItem$ProductPriceRecordArgs<ExtArgs>
   Invoice?: boolean | Prisma.InvoiceDefaultArgs<ExtArgs>
   Product?: boolean | Prisma.InvoiceItem$ProductArgs<ExtArgs>
 }, ExtArgs["result"]["invoiceItem"]>
@@ -1428,6 +1852,8 @@ export type InvoiceItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
   invoiceId?: boolean
   productId?: boolean
   detectedName?: boolean
+  originalDetectedName?: boolean
+  resolvedFromHistory?: boolean
   quantity?: boolean
   unitPrice?: boolean
   totalPrice?: boolean
@@ -1456,6 +1882,8 @@ export type InvoiceItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
   invoiceId?: boolean
   productId?: boolean
   detectedName?: boolean
+  originalDetectedName?: boolean
+  resolvedFromHistory?: boolean
   quantity?: boolean
   unitPrice?: boolean
   totalPrice?: boolean
@@ -1484,6 +1912,8 @@ export type InvoiceItemSelectScalar = {
   invoiceId?: boolean
   productId?: boolean
   detectedName?: boolean
+  originalDetectedName?: boolean
+  resolvedFromHistory?: boolean
   quantity?: boolean
   unitPrice?: boolean
   totalPrice?: boolean
@@ -1505,9 +1935,11 @@ export type InvoiceItemSelectScalar = {
   updatedAt?: boolean
 }
 
-export type InvoiceItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "invoiceId" | "productId" | "detectedName" | "quantity" | "unitPrice" | "totalPrice" | "confidence" | "validated" | "productCode" | "category" | "discount" | "selectedEan" | "suggestedEans" | "externalProductProvider" | "externalProductStatus" | "externalProductData" | "externalProductError" | "expiryDate" | "storageLocation" | "notes" | "createdAt" | "updatedAt", ExtArgs["result"]["invoiceItem"]>
+export type InvoiceItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "invoiceId" | "productId" | "detectedName" | "originalDetectedName" | "resolvedFromHistory" | "quantity" | "unitPrice" | "totalPrice" | "confidence" | "validated" | "productCode" | "category" | "discount" | "selectedEan" | "suggestedEans" | "externalProductProvider" | "externalProductStatus" | "externalProductData" | "externalProductError" | "expiryDate" | "storageLocation" | "notes" | "createdAt" | "updatedAt", ExtArgs["result"]["invoiceItem"]>
 export type InvoiceItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   Expense?: boolean | Prisma.InvoiceItem$ExpenseArgs<ExtArgs>
+  InventoryItem?: boolean | Prisma.InvoiceItem$InventoryItemArgs<ExtArgs>
+  ProductPriceRecord?: boolean | Prisma.InvoiceItem$ProductPriceRecordArgs<ExtArgs>
   Invoice?: boolean | Prisma.InvoiceDefaultArgs<ExtArgs>
   Product?: boolean | Prisma.InvoiceItem$ProductArgs<ExtArgs>
 }
@@ -1524,6 +1956,8 @@ export type $InvoiceItemPayload<ExtArgs extends runtime.Types.Extensions.Interna
   name: "InvoiceItem"
   objects: {
     Expense: Prisma.$ExpensePayload<ExtArgs> | null
+    InventoryItem: Prisma.$InventoryItemPayload<ExtArgs> | null
+    ProductPriceRecord: Prisma.$ProductPriceRecordPayload<ExtArgs> | null
     Invoice: Prisma.$InvoicePayload<ExtArgs>
     Product: Prisma.$ProductPayload<ExtArgs> | null
   }
@@ -1532,6 +1966,8 @@ export type $InvoiceItemPayload<ExtArgs extends runtime.Types.Extensions.Interna
     invoiceId: string
     productId: string | null
     detectedName: string
+    originalDetectedName: string
+    resolvedFromHistory: boolean
     quantity: number
     unitPrice: number | null
     totalPrice: number | null
@@ -1946,6 +2382,8 @@ readonly fields: InvoiceItemFieldRefs;
 export interface Prisma__InvoiceItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   Expense<T extends Prisma.InvoiceItem$ExpenseArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InvoiceItem$ExpenseArgs<ExtArgs>>): Prisma.Prisma__ExpenseClient<runtime.Types.Result.GetResult<Prisma.$ExpensePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  InventoryItem<T extends Prisma.InvoiceItem$InventoryItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InvoiceItem$InventoryItemArgs<ExtArgs>>): Prisma.Prisma__InventoryItemClient<runtime.Types.Result.GetResult<Prisma.$InventoryItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  ProductPriceRecord<T extends Prisma.InvoiceItem$ProductPriceRecordArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InvoiceItem$ProductPriceRecordArgs<ExtArgs>>): Prisma.Prisma__ProductPriceRecordClient<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   Invoice<T extends Prisma.InvoiceDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InvoiceDefaultArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   Product<T extends Prisma.InvoiceItem$ProductArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InvoiceItem$ProductArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
@@ -1981,6 +2419,8 @@ export interface InvoiceItemFieldRefs {
   readonly invoiceId: Prisma.FieldRef<"InvoiceItem", 'String'>
   readonly productId: Prisma.FieldRef<"InvoiceItem", 'String'>
   readonly detectedName: Prisma.FieldRef<"InvoiceItem", 'String'>
+  readonly originalDetectedName: Prisma.FieldRef<"InvoiceItem", 'String'>
+  readonly resolvedFromHistory: Prisma.FieldRef<"InvoiceItem", 'Boolean'>
   readonly quantity: Prisma.FieldRef<"InvoiceItem", 'Float'>
   readonly unitPrice: Prisma.FieldRef<"InvoiceItem", 'Float'>
   readonly totalPrice: Prisma.FieldRef<"InvoiceItem", 'Float'>
@@ -2414,6 +2854,44 @@ export type InvoiceItem$ExpenseArgs<ExtArgs extends runtime.Types.Extensions.Int
   where?: Prisma.ExpenseWhereInput
 }
 
+/**
+ * InvoiceItem.InventoryItem
+ */
+export type InvoiceItem$InventoryItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryItem
+   */
+  select?: Prisma.InventoryItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryItem
+   */
+  omit?: Prisma.InventoryItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryItemInclude<ExtArgs> | null
+  where?: Prisma.InventoryItemWhereInput
+}
+
+/**
+ * InvoiceItem.ProductPriceRecord
+ */
+export type InvoiceItem$ProductPriceRecordArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  where?: Prisma.ProductPriceRecordWhereInput
+}
+
 /**
  * InvoiceItem.Product
  */
@@ -0,0 +1,1691 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `InvoiceItemMapping` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model InvoiceItemMapping
+ * 
+ */
+export type InvoiceItemMappingModel = runtime.Types.Result.DefaultSelection<Prisma.$InvoiceItemMappingPayload>
+
+export type AggregateInvoiceItemMapping = {
+  _count: InvoiceItemMappingCountAggregateOutputType | null
+  _min: InvoiceItemMappingMinAggregateOutputType | null
+  _max: InvoiceItemMappingMaxAggregateOutputType | null
+}
+
+export type InvoiceItemMappingMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  merchantKey: string | null
+  detectedNameKey: string | null
+  productId: string | null
+  category: string | null
+  storageLocation: string | null
+  selectedEan: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type InvoiceItemMappingMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  merchantKey: string | null
+  detectedNameKey: string | null
+  productId: string | null
+  category: string | null
+  storageLocation: string | null
+  selectedEan: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type InvoiceItemMappingCountAggregateOutputType = {
+  id: number
+  userId: number
+  merchantKey: number
+  detectedNameKey: number
+  productId: number
+  category: number
+  storageLocation: number
+  selectedEan: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type InvoiceItemMappingMinAggregateInputType = {
+  id?: true
+  userId?: true
+  merchantKey?: true
+  detectedNameKey?: true
+  productId?: true
+  category?: true
+  storageLocation?: true
+  selectedEan?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type InvoiceItemMappingMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  merchantKey?: true
+  detectedNameKey?: true
+  productId?: true
+  category?: true
+  storageLocation?: true
+  selectedEan?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type InvoiceItemMappingCountAggregateInputType = {
+  id?: true
+  userId?: true
+  merchantKey?: true
+  detectedNameKey?: true
+  productId?: true
+  category?: true
+  storageLocation?: true
+  selectedEan?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type InvoiceItemMappingAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InvoiceItemMapping to aggregate.
+   */
+  where?: Prisma.InvoiceItemMappingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InvoiceItemMappings to fetch.
+   */
+  orderBy?: Prisma.InvoiceItemMappingOrderByWithRelationInput | Prisma.InvoiceItemMappingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.InvoiceItemMappingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InvoiceItemMappings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InvoiceItemMappings.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned InvoiceItemMappings
+  **/
+  _count?: true | InvoiceItemMappingCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: InvoiceItemMappingMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: InvoiceItemMappingMaxAggregateInputType
+}
+
+export type GetInvoiceItemMappingAggregateType<T extends InvoiceItemMappingAggregateArgs> = {
+      [P in keyof T & keyof AggregateInvoiceItemMapping]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateInvoiceItemMapping[P]>
+    : Prisma.GetScalarType<T[P], AggregateInvoiceItemMapping[P]>
+}
+
+
+
+
+export type InvoiceItemMappingGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceItemMappingWhereInput
+  orderBy?: Prisma.InvoiceItemMappingOrderByWithAggregationInput | Prisma.InvoiceItemMappingOrderByWithAggregationInput[]
+  by: Prisma.InvoiceItemMappingScalarFieldEnum[] | Prisma.InvoiceItemMappingScalarFieldEnum
+  having?: Prisma.InvoiceItemMappingScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: InvoiceItemMappingCountAggregateInputType | true
+  _min?: InvoiceItemMappingMinAggregateInputType
+  _max?: InvoiceItemMappingMaxAggregateInputType
+}
+
+export type InvoiceItemMappingGroupByOutputType = {
+  id: string
+  userId: string
+  merchantKey: string
+  detectedNameKey: string
+  productId: string | null
+  category: string | null
+  storageLocation: string | null
+  selectedEan: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: InvoiceItemMappingCountAggregateOutputType | null
+  _min: InvoiceItemMappingMinAggregateOutputType | null
+  _max: InvoiceItemMappingMaxAggregateOutputType | null
+}
+
+type GetInvoiceItemMappingGroupByPayload<T extends InvoiceItemMappingGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<InvoiceItemMappingGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof InvoiceItemMappingGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], InvoiceItemMappingGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], InvoiceItemMappingGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type InvoiceItemMappingWhereInput = {
+  AND?: Prisma.InvoiceItemMappingWhereInput | Prisma.InvoiceItemMappingWhereInput[]
+  OR?: Prisma.InvoiceItemMappingWhereInput[]
+  NOT?: Prisma.InvoiceItemMappingWhereInput | Prisma.InvoiceItemMappingWhereInput[]
+  id?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  userId?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  merchantKey?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  detectedNameKey?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  productId?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  category?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  storageLocation?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  selectedEan?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"InvoiceItemMapping"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InvoiceItemMapping"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
+}
+
+export type InvoiceItemMappingOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  merchantKey?: Prisma.SortOrder
+  detectedNameKey?: Prisma.SortOrder
+  productId?: Prisma.SortOrderInput | Prisma.SortOrder
+  category?: Prisma.SortOrderInput | Prisma.SortOrder
+  storageLocation?: Prisma.SortOrderInput | Prisma.SortOrder
+  selectedEan?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  User?: Prisma.UserOrderByWithRelationInput
+  Product?: Prisma.ProductOrderByWithRelationInput
+}
+
+export type InvoiceItemMappingWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId_merchantKey_detectedNameKey?: Prisma.InvoiceItemMappingUserIdMerchantKeyDetectedNameKeyCompoundUniqueInput
+  AND?: Prisma.InvoiceItemMappingWhereInput | Prisma.InvoiceItemMappingWhereInput[]
+  OR?: Prisma.InvoiceItemMappingWhereInput[]
+  NOT?: Prisma.InvoiceItemMappingWhereInput | Prisma.InvoiceItemMappingWhereInput[]
+  userId?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  merchantKey?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  detectedNameKey?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  productId?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  category?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  storageLocation?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  selectedEan?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"InvoiceItemMapping"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InvoiceItemMapping"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
+}, "id" | "userId_merchantKey_detectedNameKey">
+
+export type InvoiceItemMappingOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  merchantKey?: Prisma.SortOrder
+  detectedNameKey?: Prisma.SortOrder
+  productId?: Prisma.SortOrderInput | Prisma.SortOrder
+  category?: Prisma.SortOrderInput | Prisma.SortOrder
+  storageLocation?: Prisma.SortOrderInput | Prisma.SortOrder
+  selectedEan?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.InvoiceItemMappingCountOrderByAggregateInput
+  _max?: Prisma.InvoiceItemMappingMaxOrderByAggregateInput
+  _min?: Prisma.InvoiceItemMappingMinOrderByAggregateInput
+}
+
+export type InvoiceItemMappingScalarWhereWithAggregatesInput = {
+  AND?: Prisma.InvoiceItemMappingScalarWhereWithAggregatesInput | Prisma.InvoiceItemMappingScalarWhereWithAggregatesInput[]
+  OR?: Prisma.InvoiceItemMappingScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.InvoiceItemMappingScalarWhereWithAggregatesInput | Prisma.InvoiceItemMappingScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"InvoiceItemMapping"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"InvoiceItemMapping"> | string
+  merchantKey?: Prisma.StringWithAggregatesFilter<"InvoiceItemMapping"> | string
+  detectedNameKey?: Prisma.StringWithAggregatesFilter<"InvoiceItemMapping"> | string
+  productId?: Prisma.StringNullableWithAggregatesFilter<"InvoiceItemMapping"> | string | null
+  category?: Prisma.StringNullableWithAggregatesFilter<"InvoiceItemMapping"> | string | null
+  storageLocation?: Prisma.StringNullableWithAggregatesFilter<"InvoiceItemMapping"> | string | null
+  selectedEan?: Prisma.StringNullableWithAggregatesFilter<"InvoiceItemMapping"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"InvoiceItemMapping"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"InvoiceItemMapping"> | Date | string
+}
+
+export type InvoiceItemMappingCreateInput = {
+  id: string
+  merchantKey?: string
+  detectedNameKey: string
+  category?: string | null
+  storageLocation?: string | null
+  selectedEan?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutInvoiceItemMappingInput
+  Product?: Prisma.ProductCreateNestedOneWithoutInvoiceItemMappingInput
+}
+
+export type InvoiceItemMappingUncheckedCreateInput = {
+  id: string
+  userId: string
+  merchantKey?: string
+  detectedNameKey: string
+  productId?: string | null
+  category?: string | null
+  storageLocation?: string | null
+  selectedEan?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type InvoiceItemMappingUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutInvoiceItemMappingNestedInput
+  Product?: Prisma.ProductUpdateOneWithoutInvoiceItemMappingNestedInput
+}
+
+export type InvoiceItemMappingUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceItemMappingCreateManyInput = {
+  id: string
+  userId: string
+  merchantKey?: string
+  detectedNameKey: string
+  productId?: string | null
+  category?: string | null
+  storageLocation?: string | null
+  selectedEan?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type InvoiceItemMappingUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceItemMappingUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceItemMappingUserIdMerchantKeyDetectedNameKeyCompoundUniqueInput = {
+  userId: string
+  merchantKey: string
+  detectedNameKey: string
+}
+
+export type InvoiceItemMappingCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  merchantKey?: Prisma.SortOrder
+  detectedNameKey?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  storageLocation?: Prisma.SortOrder
+  selectedEan?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InvoiceItemMappingMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  merchantKey?: Prisma.SortOrder
+  detectedNameKey?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  storageLocation?: Prisma.SortOrder
+  selectedEan?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InvoiceItemMappingMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  merchantKey?: Prisma.SortOrder
+  detectedNameKey?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  storageLocation?: Prisma.SortOrder
+  selectedEan?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type InvoiceItemMappingListRelationFilter = {
+  every?: Prisma.InvoiceItemMappingWhereInput
+  some?: Prisma.InvoiceItemMappingWhereInput
+  none?: Prisma.InvoiceItemMappingWhereInput
+}
+
+export type InvoiceItemMappingOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type InvoiceItemMappingCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutProductInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput> | Prisma.InvoiceItemMappingCreateWithoutProductInput[] | Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.InvoiceItemMappingCreateOrConnectWithoutProductInput | Prisma.InvoiceItemMappingCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.InvoiceItemMappingCreateManyProductInputEnvelope
+  connect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+}
+
+export type InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutProductInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput> | Prisma.InvoiceItemMappingCreateWithoutProductInput[] | Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.InvoiceItemMappingCreateOrConnectWithoutProductInput | Prisma.InvoiceItemMappingCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.InvoiceItemMappingCreateManyProductInputEnvelope
+  connect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+}
+
+export type InvoiceItemMappingUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutProductInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput> | Prisma.InvoiceItemMappingCreateWithoutProductInput[] | Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.InvoiceItemMappingCreateOrConnectWithoutProductInput | Prisma.InvoiceItemMappingCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.InvoiceItemMappingUpsertWithWhereUniqueWithoutProductInput | Prisma.InvoiceItemMappingUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.InvoiceItemMappingCreateManyProductInputEnvelope
+  set?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  disconnect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  delete?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  connect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  update?: Prisma.InvoiceItemMappingUpdateWithWhereUniqueWithoutProductInput | Prisma.InvoiceItemMappingUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.InvoiceItemMappingUpdateManyWithWhereWithoutProductInput | Prisma.InvoiceItemMappingUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.InvoiceItemMappingScalarWhereInput | Prisma.InvoiceItemMappingScalarWhereInput[]
+}
+
+export type InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutProductInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput> | Prisma.InvoiceItemMappingCreateWithoutProductInput[] | Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.InvoiceItemMappingCreateOrConnectWithoutProductInput | Prisma.InvoiceItemMappingCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.InvoiceItemMappingUpsertWithWhereUniqueWithoutProductInput | Prisma.InvoiceItemMappingUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.InvoiceItemMappingCreateManyProductInputEnvelope
+  set?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  disconnect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  delete?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  connect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  update?: Prisma.InvoiceItemMappingUpdateWithWhereUniqueWithoutProductInput | Prisma.InvoiceItemMappingUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.InvoiceItemMappingUpdateManyWithWhereWithoutProductInput | Prisma.InvoiceItemMappingUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.InvoiceItemMappingScalarWhereInput | Prisma.InvoiceItemMappingScalarWhereInput[]
+}
+
+export type InvoiceItemMappingCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutUserInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput> | Prisma.InvoiceItemMappingCreateWithoutUserInput[] | Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InvoiceItemMappingCreateOrConnectWithoutUserInput | Prisma.InvoiceItemMappingCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.InvoiceItemMappingCreateManyUserInputEnvelope
+  connect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+}
+
+export type InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutUserInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput> | Prisma.InvoiceItemMappingCreateWithoutUserInput[] | Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InvoiceItemMappingCreateOrConnectWithoutUserInput | Prisma.InvoiceItemMappingCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.InvoiceItemMappingCreateManyUserInputEnvelope
+  connect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+}
+
+export type InvoiceItemMappingUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutUserInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput> | Prisma.InvoiceItemMappingCreateWithoutUserInput[] | Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InvoiceItemMappingCreateOrConnectWithoutUserInput | Prisma.InvoiceItemMappingCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.InvoiceItemMappingUpsertWithWhereUniqueWithoutUserInput | Prisma.InvoiceItemMappingUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.InvoiceItemMappingCreateManyUserInputEnvelope
+  set?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  disconnect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  delete?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  connect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  update?: Prisma.InvoiceItemMappingUpdateWithWhereUniqueWithoutUserInput | Prisma.InvoiceItemMappingUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.InvoiceItemMappingUpdateManyWithWhereWithoutUserInput | Prisma.InvoiceItemMappingUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.InvoiceItemMappingScalarWhereInput | Prisma.InvoiceItemMappingScalarWhereInput[]
+}
+
+export type InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutUserInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput> | Prisma.InvoiceItemMappingCreateWithoutUserInput[] | Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.InvoiceItemMappingCreateOrConnectWithoutUserInput | Prisma.InvoiceItemMappingCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.InvoiceItemMappingUpsertWithWhereUniqueWithoutUserInput | Prisma.InvoiceItemMappingUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.InvoiceItemMappingCreateManyUserInputEnvelope
+  set?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  disconnect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  delete?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  connect?: Prisma.InvoiceItemMappingWhereUniqueInput | Prisma.InvoiceItemMappingWhereUniqueInput[]
+  update?: Prisma.InvoiceItemMappingUpdateWithWhereUniqueWithoutUserInput | Prisma.InvoiceItemMappingUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.InvoiceItemMappingUpdateManyWithWhereWithoutUserInput | Prisma.InvoiceItemMappingUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.InvoiceItemMappingScalarWhereInput | Prisma.InvoiceItemMappingScalarWhereInput[]
+}
+
+export type InvoiceItemMappingCreateWithoutProductInput = {
+  id: string
+  merchantKey?: string
+  detectedNameKey: string
+  category?: string | null
+  storageLocation?: string | null
+  selectedEan?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutInvoiceItemMappingInput
+}
+
+export type InvoiceItemMappingUncheckedCreateWithoutProductInput = {
+  id: string
+  userId: string
+  merchantKey?: string
+  detectedNameKey: string
+  category?: string | null
+  storageLocation?: string | null
+  selectedEan?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type InvoiceItemMappingCreateOrConnectWithoutProductInput = {
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutProductInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput>
+}
+
+export type InvoiceItemMappingCreateManyProductInputEnvelope = {
+  data: Prisma.InvoiceItemMappingCreateManyProductInput | Prisma.InvoiceItemMappingCreateManyProductInput[]
+  skipDuplicates?: boolean
+}
+
+export type InvoiceItemMappingUpsertWithWhereUniqueWithoutProductInput = {
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+  update: Prisma.XOR<Prisma.InvoiceItemMappingUpdateWithoutProductInput, Prisma.InvoiceItemMappingUncheckedUpdateWithoutProductInput>
+  create: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutProductInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutProductInput>
+}
+
+export type InvoiceItemMappingUpdateWithWhereUniqueWithoutProductInput = {
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+  data: Prisma.XOR<Prisma.InvoiceItemMappingUpdateWithoutProductInput, Prisma.InvoiceItemMappingUncheckedUpdateWithoutProductInput>
+}
+
+export type InvoiceItemMappingUpdateManyWithWhereWithoutProductInput = {
+  where: Prisma.InvoiceItemMappingScalarWhereInput
+  data: Prisma.XOR<Prisma.InvoiceItemMappingUpdateManyMutationInput, Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductInput>
+}
+
+export type InvoiceItemMappingScalarWhereInput = {
+  AND?: Prisma.InvoiceItemMappingScalarWhereInput | Prisma.InvoiceItemMappingScalarWhereInput[]
+  OR?: Prisma.InvoiceItemMappingScalarWhereInput[]
+  NOT?: Prisma.InvoiceItemMappingScalarWhereInput | Prisma.InvoiceItemMappingScalarWhereInput[]
+  id?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  userId?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  merchantKey?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  detectedNameKey?: Prisma.StringFilter<"InvoiceItemMapping"> | string
+  productId?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  category?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  storageLocation?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  selectedEan?: Prisma.StringNullableFilter<"InvoiceItemMapping"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"InvoiceItemMapping"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"InvoiceItemMapping"> | Date | string
+}
+
+export type InvoiceItemMappingCreateWithoutUserInput = {
+  id: string
+  merchantKey?: string
+  detectedNameKey: string
+  category?: string | null
+  storageLocation?: string | null
+  selectedEan?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Product?: Prisma.ProductCreateNestedOneWithoutInvoiceItemMappingInput
+}
+
+export type InvoiceItemMappingUncheckedCreateWithoutUserInput = {
+  id: string
+  merchantKey?: string
+  detectedNameKey: string
+  productId?: string | null
+  category?: string | null
+  storageLocation?: string | null
+  selectedEan?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type InvoiceItemMappingCreateOrConnectWithoutUserInput = {
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutUserInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput>
+}
+
+export type InvoiceItemMappingCreateManyUserInputEnvelope = {
+  data: Prisma.InvoiceItemMappingCreateManyUserInput | Prisma.InvoiceItemMappingCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type InvoiceItemMappingUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+  update: Prisma.XOR<Prisma.InvoiceItemMappingUpdateWithoutUserInput, Prisma.InvoiceItemMappingUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.InvoiceItemMappingCreateWithoutUserInput, Prisma.InvoiceItemMappingUncheckedCreateWithoutUserInput>
+}
+
+export type InvoiceItemMappingUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+  data: Prisma.XOR<Prisma.InvoiceItemMappingUpdateWithoutUserInput, Prisma.InvoiceItemMappingUncheckedUpdateWithoutUserInput>
+}
+
+export type InvoiceItemMappingUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.InvoiceItemMappingScalarWhereInput
+  data: Prisma.XOR<Prisma.InvoiceItemMappingUpdateManyMutationInput, Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserInput>
+}
+
+export type InvoiceItemMappingCreateManyProductInput = {
+  id: string
+  userId: string
+  merchantKey?: string
+  detectedNameKey: string
+  category?: string | null
+  storageLocation?: string | null
+  selectedEan?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type InvoiceItemMappingUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutInvoiceItemMappingNestedInput
+}
+
+export type InvoiceItemMappingUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceItemMappingUncheckedUpdateManyWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceItemMappingCreateManyUserInput = {
+  id: string
+  merchantKey?: string
+  detectedNameKey: string
+  productId?: string | null
+  category?: string | null
+  storageLocation?: string | null
+  selectedEan?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type InvoiceItemMappingUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneWithoutInvoiceItemMappingNestedInput
+}
+
+export type InvoiceItemMappingUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type InvoiceItemMappingUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string
+  detectedNameKey?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  category?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  selectedEan?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type InvoiceItemMappingSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  merchantKey?: boolean
+  detectedNameKey?: boolean
+  productId?: boolean
+  category?: boolean
+  storageLocation?: boolean
+  selectedEan?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.InvoiceItemMapping$ProductArgs<ExtArgs>
+}, ExtArgs["result"]["invoiceItemMapping"]>
+
+export type InvoiceItemMappingSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  merchantKey?: boolean
+  detectedNameKey?: boolean
+  productId?: boolean
+  category?: boolean
+  storageLocation?: boolean
+  selectedEan?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.InvoiceItemMapping$ProductArgs<ExtArgs>
+}, ExtArgs["result"]["invoiceItemMapping"]>
+
+export type InvoiceItemMappingSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  merchantKey?: boolean
+  detectedNameKey?: boolean
+  productId?: boolean
+  category?: boolean
+  storageLocation?: boolean
+  selectedEan?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.InvoiceItemMapping$ProductArgs<ExtArgs>
+}, ExtArgs["result"]["invoiceItemMapping"]>
+
+export type InvoiceItemMappingSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  merchantKey?: boolean
+  detectedNameKey?: boolean
+  productId?: boolean
+  category?: boolean
+  storageLocation?: boolean
+  selectedEan?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type InvoiceItemMappingOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "merchantKey" | "detectedNameKey" | "productId" | "category" | "storageLocation" | "selectedEan" | "createdAt" | "updatedAt", ExtArgs["result"]["invoiceItemMapping"]>
+export type InvoiceItemMappingInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.InvoiceItemMapping$ProductArgs<ExtArgs>
+}
+export type InvoiceItemMappingIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.InvoiceItemMapping$ProductArgs<ExtArgs>
+}
+export type InvoiceItemMappingIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.InvoiceItemMapping$ProductArgs<ExtArgs>
+}
+
+export type $InvoiceItemMappingPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "InvoiceItemMapping"
+  objects: {
+    User: Prisma.$UserPayload<ExtArgs>
+    Product: Prisma.$ProductPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    merchantKey: string
+    detectedNameKey: string
+    productId: string | null
+    category: string | null
+    storageLocation: string | null
+    selectedEan: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["invoiceItemMapping"]>
+  composites: {}
+}
+
+export type InvoiceItemMappingGetPayload<S extends boolean | null | undefined | InvoiceItemMappingDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload, S>
+
+export type InvoiceItemMappingCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<InvoiceItemMappingFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: InvoiceItemMappingCountAggregateInputType | true
+  }
+
+export interface InvoiceItemMappingDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['InvoiceItemMapping'], meta: { name: 'InvoiceItemMapping' } }
+  /**
+   * Find zero or one InvoiceItemMapping that matches the filter.
+   * @param {InvoiceItemMappingFindUniqueArgs} args - Arguments to find a InvoiceItemMapping
+   * @example
+   * // Get one InvoiceItemMapping
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends InvoiceItemMappingFindUniqueArgs>(args: Prisma.SelectSubset<T, InvoiceItemMappingFindUniqueArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemMappingClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one InvoiceItemMapping that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {InvoiceItemMappingFindUniqueOrThrowArgs} args - Arguments to find a InvoiceItemMapping
+   * @example
+   * // Get one InvoiceItemMapping
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends InvoiceItemMappingFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, InvoiceItemMappingFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemMappingClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InvoiceItemMapping that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceItemMappingFindFirstArgs} args - Arguments to find a InvoiceItemMapping
+   * @example
+   * // Get one InvoiceItemMapping
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends InvoiceItemMappingFindFirstArgs>(args?: Prisma.SelectSubset<T, InvoiceItemMappingFindFirstArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemMappingClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first InvoiceItemMapping that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceItemMappingFindFirstOrThrowArgs} args - Arguments to find a InvoiceItemMapping
+   * @example
+   * // Get one InvoiceItemMapping
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends InvoiceItemMappingFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, InvoiceItemMappingFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemMappingClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more InvoiceItemMappings that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceItemMappingFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all InvoiceItemMappings
+   * const invoiceItemMappings = await prisma.invoiceItemMapping.findMany()
+   * 
+   * // Get first 10 InvoiceItemMappings
+   * const invoiceItemMappings = await prisma.invoiceItemMapping.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const invoiceItemMappingWithIdOnly = await prisma.invoiceItemMapping.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends InvoiceItemMappingFindManyArgs>(args?: Prisma.SelectSubset<T, InvoiceItemMappingFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a InvoiceItemMapping.
+   * @param {InvoiceItemMappingCreateArgs} args - Arguments to create a InvoiceItemMapping.
+   * @example
+   * // Create one InvoiceItemMapping
+   * const InvoiceItemMapping = await prisma.invoiceItemMapping.create({
+   *   data: {
+   *     // ... data to create a InvoiceItemMapping
+   *   }
+   * })
+   * 
+   */
+  create<T extends InvoiceItemMappingCreateArgs>(args: Prisma.SelectSubset<T, InvoiceItemMappingCreateArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemMappingClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many InvoiceItemMappings.
+   * @param {InvoiceItemMappingCreateManyArgs} args - Arguments to create many InvoiceItemMappings.
+   * @example
+   * // Create many InvoiceItemMappings
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends InvoiceItemMappingCreateManyArgs>(args?: Prisma.SelectSubset<T, InvoiceItemMappingCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many InvoiceItemMappings and returns the data saved in the database.
+   * @param {InvoiceItemMappingCreateManyAndReturnArgs} args - Arguments to create many InvoiceItemMappings.
+   * @example
+   * // Create many InvoiceItemMappings
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many InvoiceItemMappings and only return the `id`
+   * const invoiceItemMappingWithIdOnly = await prisma.invoiceItemMapping.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends InvoiceItemMappingCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, InvoiceItemMappingCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a InvoiceItemMapping.
+   * @param {InvoiceItemMappingDeleteArgs} args - Arguments to delete one InvoiceItemMapping.
+   * @example
+   * // Delete one InvoiceItemMapping
+   * const InvoiceItemMapping = await prisma.invoiceItemMapping.delete({
+   *   where: {
+   *     // ... filter to delete one InvoiceItemMapping
+   *   }
+   * })
+   * 
+   */
+  delete<T extends InvoiceItemMappingDeleteArgs>(args: Prisma.SelectSubset<T, InvoiceItemMappingDeleteArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemMappingClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one InvoiceItemMapping.
+   * @param {InvoiceItemMappingUpdateArgs} args - Arguments to update one InvoiceItemMapping.
+   * @example
+   * // Update one InvoiceItemMapping
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends InvoiceItemMappingUpdateArgs>(args: Prisma.SelectSubset<T, InvoiceItemMappingUpdateArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemMappingClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more InvoiceItemMappings.
+   * @param {InvoiceItemMappingDeleteManyArgs} args - Arguments to filter InvoiceItemMappings to delete.
+   * @example
+   * // Delete a few InvoiceItemMappings
+   * const { count } = await prisma.invoiceItemMapping.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends InvoiceItemMappingDeleteManyArgs>(args?: Prisma.SelectSubset<T, InvoiceItemMappingDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InvoiceItemMappings.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceItemMappingUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many InvoiceItemMappings
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends InvoiceItemMappingUpdateManyArgs>(args: Prisma.SelectSubset<T, InvoiceItemMappingUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more InvoiceItemMappings and returns the data updated in the database.
+   * @param {InvoiceItemMappingUpdateManyAndReturnArgs} args - Arguments to update many InvoiceItemMappings.
+   * @example
+   * // Update many InvoiceItemMappings
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more InvoiceItemMappings and only return the `id`
+   * const invoiceItemMappingWithIdOnly = await prisma.invoiceItemMapping.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends InvoiceItemMappingUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, InvoiceItemMappingUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one InvoiceItemMapping.
+   * @param {InvoiceItemMappingUpsertArgs} args - Arguments to update or create a InvoiceItemMapping.
+   * @example
+   * // Update or create a InvoiceItemMapping
+   * const invoiceItemMapping = await prisma.invoiceItemMapping.upsert({
+   *   create: {
+   *     // ... data to create a InvoiceItemMapping
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the InvoiceItemMapping we want to update
+   *   }
+   * })
+   */
+  upsert<T extends InvoiceItemMappingUpsertArgs>(args: Prisma.SelectSubset<T, InvoiceItemMappingUpsertArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemMappingClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of InvoiceItemMappings.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceItemMappingCountArgs} args - Arguments to filter InvoiceItemMappings to count.
+   * @example
+   * // Count the number of InvoiceItemMappings
+   * const count = await prisma.invoiceItemMapping.count({
+   *   where: {
+   *     // ... the filter for the InvoiceItemMappings we want to count
+   *   }
+   * })
+  **/
+  count<T extends InvoiceItemMappingCountArgs>(
+    args?: Prisma.Subset<T, InvoiceItemMappingCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], InvoiceItemMappingCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a InvoiceItemMapping.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceItemMappingAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends InvoiceItemMappingAggregateArgs>(args: Prisma.Subset<T, InvoiceItemMappingAggregateArgs>): Prisma.PrismaPromise<GetInvoiceItemMappingAggregateType<T>>
+
+  /**
+   * Group by InvoiceItemMapping.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {InvoiceItemMappingGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends InvoiceItemMappingGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: InvoiceItemMappingGroupByArgs['orderBy'] }
+      : { orderBy?: InvoiceItemMappingGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, InvoiceItemMappingGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetInvoiceItemMappingGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the InvoiceItemMapping model
+ */
+readonly fields: InvoiceItemMappingFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for InvoiceItemMapping.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InvoiceItemMappingClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  Product<T extends Prisma.InvoiceItemMapping$ProductArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InvoiceItemMapping$ProductArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the InvoiceItemMapping model
+ */
+export interface InvoiceItemMappingFieldRefs {
+  readonly id: Prisma.FieldRef<"InvoiceItemMapping", 'String'>
+  readonly userId: Prisma.FieldRef<"InvoiceItemMapping", 'String'>
+  readonly merchantKey: Prisma.FieldRef<"InvoiceItemMapping", 'String'>
+  readonly detectedNameKey: Prisma.FieldRef<"InvoiceItemMapping", 'String'>
+  readonly productId: Prisma.FieldRef<"InvoiceItemMapping", 'String'>
+  readonly category: Prisma.FieldRef<"InvoiceItemMapping", 'String'>
+  readonly storageLocation: Prisma.FieldRef<"InvoiceItemMapping", 'String'>
+  readonly selectedEan: Prisma.FieldRef<"InvoiceItemMapping", 'String'>
+  readonly createdAt: Prisma.FieldRef<"InvoiceItemMapping", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"InvoiceItemMapping", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * InvoiceItemMapping findUnique
+ */
+export type InvoiceItemMappingFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  /**
+   * Filter, which InvoiceItemMapping to fetch.
+   */
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+}
+
+/**
+ * InvoiceItemMapping findUniqueOrThrow
+ */
+export type InvoiceItemMappingFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  /**
+   * Filter, which InvoiceItemMapping to fetch.
+   */
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+}
+
+/**
+ * InvoiceItemMapping findFirst
+ */
+export type InvoiceItemMappingFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  /**
+   * Filter, which InvoiceItemMapping to fetch.
+   */
+  where?: Prisma.InvoiceItemMappingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InvoiceItemMappings to fetch.
+   */
+  orderBy?: Prisma.InvoiceItemMappingOrderByWithRelationInput | Prisma.InvoiceItemMappingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InvoiceItemMappings.
+   */
+  cursor?: Prisma.InvoiceItemMappingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InvoiceItemMappings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InvoiceItemMappings.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InvoiceItemMappings.
+   */
+  distinct?: Prisma.InvoiceItemMappingScalarFieldEnum | Prisma.InvoiceItemMappingScalarFieldEnum[]
+}
+
+/**
+ * InvoiceItemMapping findFirstOrThrow
+ */
+export type InvoiceItemMappingFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  /**
+   * Filter, which InvoiceItemMapping to fetch.
+   */
+  where?: Prisma.InvoiceItemMappingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InvoiceItemMappings to fetch.
+   */
+  orderBy?: Prisma.InvoiceItemMappingOrderByWithRelationInput | Prisma.InvoiceItemMappingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for InvoiceItemMappings.
+   */
+  cursor?: Prisma.InvoiceItemMappingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InvoiceItemMappings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InvoiceItemMappings.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of InvoiceItemMappings.
+   */
+  distinct?: Prisma.InvoiceItemMappingScalarFieldEnum | Prisma.InvoiceItemMappingScalarFieldEnum[]
+}
+
+/**
+ * InvoiceItemMapping findMany
+ */
+export type InvoiceItemMappingFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  /**
+   * Filter, which InvoiceItemMappings to fetch.
+   */
+  where?: Prisma.InvoiceItemMappingWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of InvoiceItemMappings to fetch.
+   */
+  orderBy?: Prisma.InvoiceItemMappingOrderByWithRelationInput | Prisma.InvoiceItemMappingOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing InvoiceItemMappings.
+   */
+  cursor?: Prisma.InvoiceItemMappingWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` InvoiceItemMappings from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` InvoiceItemMappings.
+   */
+  skip?: number
+  distinct?: Prisma.InvoiceItemMappingScalarFieldEnum | Prisma.InvoiceItemMappingScalarFieldEnum[]
+}
+
+/**
+ * InvoiceItemMapping create
+ */
+export type InvoiceItemMappingCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  /**
+   * The data needed to create a InvoiceItemMapping.
+   */
+  data: Prisma.XOR<Prisma.InvoiceItemMappingCreateInput, Prisma.InvoiceItemMappingUncheckedCreateInput>
+}
+
+/**
+ * InvoiceItemMapping createMany
+ */
+export type InvoiceItemMappingCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many InvoiceItemMappings.
+   */
+  data: Prisma.InvoiceItemMappingCreateManyInput | Prisma.InvoiceItemMappingCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * InvoiceItemMapping createManyAndReturn
+ */
+export type InvoiceItemMappingCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * The data used to create many InvoiceItemMappings.
+   */
+  data: Prisma.InvoiceItemMappingCreateManyInput | Prisma.InvoiceItemMappingCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InvoiceItemMapping update
+ */
+export type InvoiceItemMappingUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  /**
+   * The data needed to update a InvoiceItemMapping.
+   */
+  data: Prisma.XOR<Prisma.InvoiceItemMappingUpdateInput, Prisma.InvoiceItemMappingUncheckedUpdateInput>
+  /**
+   * Choose, which InvoiceItemMapping to update.
+   */
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+}
+
+/**
+ * InvoiceItemMapping updateMany
+ */
+export type InvoiceItemMappingUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update InvoiceItemMappings.
+   */
+  data: Prisma.XOR<Prisma.InvoiceItemMappingUpdateManyMutationInput, Prisma.InvoiceItemMappingUncheckedUpdateManyInput>
+  /**
+   * Filter which InvoiceItemMappings to update
+   */
+  where?: Prisma.InvoiceItemMappingWhereInput
+  /**
+   * Limit how many InvoiceItemMappings to update.
+   */
+  limit?: number
+}
+
+/**
+ * InvoiceItemMapping updateManyAndReturn
+ */
+export type InvoiceItemMappingUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * The data used to update InvoiceItemMappings.
+   */
+  data: Prisma.XOR<Prisma.InvoiceItemMappingUpdateManyMutationInput, Prisma.InvoiceItemMappingUncheckedUpdateManyInput>
+  /**
+   * Filter which InvoiceItemMappings to update
+   */
+  where?: Prisma.InvoiceItemMappingWhereInput
+  /**
+   * Limit how many InvoiceItemMappings to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * InvoiceItemMapping upsert
+ */
+export type InvoiceItemMappingUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  /**
+   * The filter to search for the InvoiceItemMapping to update in case it exists.
+   */
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+  /**
+   * In case the InvoiceItemMapping found by the `where` argument doesn't exist, create a new InvoiceItemMapping with this data.
+   */
+  create: Prisma.XOR<Prisma.InvoiceItemMappingCreateInput, Prisma.InvoiceItemMappingUncheckedCreateInput>
+  /**
+   * In case the InvoiceItemMapping was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.InvoiceItemMappingUpdateInput, Prisma.InvoiceItemMappingUncheckedUpdateInput>
+}
+
+/**
+ * InvoiceItemMapping delete
+ */
+export type InvoiceItemMappingDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  /**
+   * Filter which InvoiceItemMapping to delete.
+   */
+  where: Prisma.InvoiceItemMappingWhereUniqueInput
+}
+
+/**
+ * InvoiceItemMapping deleteMany
+ */
+export type InvoiceItemMappingDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which InvoiceItemMappings to delete
+   */
+  where?: Prisma.InvoiceItemMappingWhereInput
+  /**
+   * Limit how many InvoiceItemMappings to delete.
+   */
+  limit?: number
+}
+
+/**
+ * InvoiceItemMapping.Product
+ */
+export type InvoiceItemMapping$ProductArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Product
+   */
+  select?: Prisma.ProductSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Product
+   */
+  omit?: Prisma.ProductOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductInclude<ExtArgs> | null
+  where?: Prisma.ProductWhereInput
+}
+
+/**
+ * InvoiceItemMapping without action
+ */
+export type InvoiceItemMappingDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+}
@@ -33,6 +33,7 @@ export type NotificationPreferencesMinAggregateOutputType = {
   dailyDigestEnabled: boolean | null
   expiry: boolean | null
   budget: boolean | null
+  lowStock: boolean | null
   system: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -47,6 +48,7 @@ export type NotificationPreferencesMaxAggregateOutputType = {
   dailyDigestEnabled: boolean | null
   expiry: boolean | null
   budget: boolean | null
+  lowStock: boolean | null
   system: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -61,6 +63,7 @@ export type NotificationPreferencesCountAggregateOutputType = {
   dailyDigestEnabled: number
   expiry: number
   budget: number
+  lowStock: number
   system: number
   createdAt: number
   updatedAt: number
@@ -77,6 +80,7 @@ export type NotificationPreferencesMinAggregateInputType = {
   dailyDigestEnabled?: true
   expiry?: true
   budget?: true
+  lowStock?: true
   system?: true
   createdAt?: true
   updatedAt?: true
@@ -91,6 +95,7 @@ export type NotificationPreferencesMaxAggregateInputType = {
   dailyDigestEnabled?: true
   expiry?: true
   budget?: true
+  lowStock?: true
   system?: true
   createdAt?: true
   updatedAt?: true
@@ -105,6 +110,7 @@ export type NotificationPreferencesCountAggregateInputType = {
   dailyDigestEnabled?: true
   expiry?: true
   budget?: true
+  lowStock?: true
   system?: true
   createdAt?: true
   updatedAt?: true
@@ -192,6 +198,7 @@ export type NotificationPreferencesGroupByOutputType = {
   dailyDigestEnabled: boolean
   expiry: boolean
   budget: boolean
+  lowStock: boolean
   system: boolean
   createdAt: Date
   updatedAt: Date
@@ -227,6 +234,7 @@ export type NotificationPreferencesWhereInput = {
   dailyDigestEnabled?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
   expiry?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
   budget?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
+  lowStock?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
   system?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
   createdAt?: Prisma.DateTimeFilter<"NotificationPreferences"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"NotificationPreferences"> | Date | string
@@ -242,6 +250,7 @@ export type NotificationPreferencesOrderByWithRelationInput = {
   dailyDigestEnabled?: Prisma.SortOrder
   expiry?: Prisma.SortOrder
   budget?: Prisma.SortOrder
+  lowStock?: Prisma.SortOrder
   system?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -260,6 +269,7 @@ export type NotificationPreferencesWhereUniqueInput = Prisma.AtLeast<{
   dailyDigestEnabled?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
   expiry?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
   budget?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
+  lowStock?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
   system?: Prisma.BoolFilter<"NotificationPreferences"> | boolean
   createdAt?: Prisma.DateTimeFilter<"NotificationPreferences"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"NotificationPreferences"> | Date | string
@@ -275,6 +285,7 @@ export type NotificationPreferencesOrderByWithAggregationInput = {
   dailyDigestEnabled?: Prisma.SortOrder
   expiry?: Prisma.SortOrder
   budget?: Prisma.SortOrder
+  lowStock?: Prisma.SortOrder
   system?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -295,6 +306,7 @@ export type NotificationPreferencesScalarWhereWithAggregatesInput = {
   dailyDigestEnabled?: Prisma.BoolWithAggregatesFilter<"NotificationPreferences"> | boolean
   expiry?: Prisma.BoolWithAggregatesFilter<"NotificationPreferences"> | boolean
   budget?: Prisma.BoolWithAggregatesFilter<"NotificationPreferences"> | boolean
+  lowStock?: Prisma.BoolWithAggregatesFilter<"NotificationPreferences"> | boolean
   system?: Prisma.BoolWithAggregatesFilter<"NotificationPreferences"> | boolean
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"NotificationPreferences"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"NotificationPreferences"> | Date | string
@@ -308,6 +320,7 @@ export type NotificationPreferencesCreateInput = {
   dailyDigestEnabled?: boolean
   expiry?: boolean
   budget?: boolean
+  lowStock?: boolean
   system?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
@@ -323,6 +336,7 @@ export type NotificationPreferencesUncheckedCreateInput = {
   dailyDigestEnabled?: boolean
   expiry?: boolean
   budget?: boolean
+  lowStock?: boolean
   system?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
@@ -336,6 +350,7 @@ export type NotificationPreferencesUpdateInput = {
   dailyDigestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   expiry?: Prisma.BoolFieldUpdateOperationsInput | boolean
   budget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lowStock?: Prisma.BoolFieldUpdateOperationsInput | boolean
   system?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -351,6 +366,7 @@ export type NotificationPreferencesUncheckedUpdateInput = {
   dailyDigestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   expiry?: Prisma.BoolFieldUpdateOperationsInput | boolean
   budget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lowStock?: Prisma.BoolFieldUpdateOperationsInput | boolean
   system?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -365,6 +381,7 @@ export type NotificationPreferencesCreateManyInput = {
   dailyDigestEnabled?: boolean
   expiry?: boolean
   budget?: boolean
+  lowStock?: boolean
   system?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
@@ -378,6 +395,7 @@ export type NotificationPreferencesUpdateManyMutationInput = {
   dailyDigestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   expiry?: Prisma.BoolFieldUpdateOperationsInput | boolean
   budget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lowStock?: Prisma.BoolFieldUpdateOperationsInput | boolean
   system?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -392,6 +410,7 @@ export type NotificationPreferencesUncheckedUpdateManyInput = {
   dailyDigestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   expiry?: Prisma.BoolFieldUpdateOperationsInput | boolean
   budget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lowStock?: Prisma.BoolFieldUpdateOperationsInput | boolean
   system?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -406,6 +425,7 @@ export type NotificationPreferencesCountOrderByAggregateInput = {
   dailyDigestEnabled?: Prisma.SortOrder
   expiry?: Prisma.SortOrder
   budget?: Prisma.SortOrder
+  lowStock?: Prisma.SortOrder
   system?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -420,6 +440,7 @@ export type NotificationPreferencesMaxOrderByAggregateInput = {
   dailyDigestEnabled?: Prisma.SortOrder
   expiry?: Prisma.SortOrder
   budget?: Prisma.SortOrder
+  lowStock?: Prisma.SortOrder
   system?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -434,6 +455,7 @@ export type NotificationPreferencesMinOrderByAggregateInput = {
   dailyDigestEnabled?: Prisma.SortOrder
   expiry?: Prisma.SortOrder
   budget?: Prisma.SortOrder
+  lowStock?: Prisma.SortOrder
   system?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -484,6 +506,7 @@ export type NotificationPreferencesCreateWithoutUserInput = {
   dailyDigestEnabled?: boolean
   expiry?: boolean
   budget?: boolean
+  lowStock?: boolean
   system?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
@@ -497,6 +520,7 @@ export type NotificationPreferencesUncheckedCreateWithoutUserInput = {
   dailyDigestEnabled?: boolean
   expiry?: boolean
   budget?: boolean
+  lowStock?: boolean
   system?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
@@ -526,6 +550,7 @@ export type NotificationPreferencesUpdateWithoutUserInput = {
   dailyDigestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   expiry?: Prisma.BoolFieldUpdateOperationsInput | boolean
   budget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lowStock?: Prisma.BoolFieldUpdateOperationsInput | boolean
   system?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -539,6 +564,7 @@ export type NotificationPreferencesUncheckedUpdateWithoutUserInput = {
   dailyDigestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean
   expiry?: Prisma.BoolFieldUpdateOperationsInput | boolean
   budget?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lowStock?: Prisma.BoolFieldUpdateOperationsInput | boolean
   system?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -555,6 +581,7 @@ export type NotificationPreferencesSelect<ExtArgs extends runtime.Types.Extensio
   dailyDigestEnabled?: boolean
   expiry?: boolean
   budget?: boolean
+  lowStock?: boolean
   system?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -570,6 +597,7 @@ export type NotificationPreferencesSelectCreateManyAndReturn<ExtArgs extends run
   dailyDigestEnabled?: boolean
   expiry?: boolean
   budget?: boolean
+  lowStock?: boolean
   system?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -585,6 +613,7 @@ export type NotificationPreferencesSelectUpdateManyAndReturn<ExtArgs extends run
   dailyDigestEnabled?: boolean
   expiry?: boolean
   budget?: boolean
+  lowStock?: boolean
   system?: boolean
   createdAt?: boolean
   updatedAt?: boolean
@@ -600,12 +629,13 @@ export type NotificationPreferencesSelectScalar = {
   dailyDigestEnabled?: boolean
   expiry?: boolean
   budget?: boolean
+  lowStock?: boolean
   system?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type NotificationPreferencesOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"userId" | "inAppEnabled" | "emailEnabled" | "pushEnabled" | "weeklyDigestEnabled" | "dailyDigestEnabled" | "expiry" | "budget" | "system" | "createdAt" | "updatedAt", ExtArgs["result"]["notificationPreferences"]>
+export type NotificationPreferencesOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"userId" | "inAppEnabled" | "emailEnabled" | "pushEnabled" | "weeklyDigestEnabled" | "dailyDigestEnabled" | "expiry" | "budget" | "lowStock" | "system" | "createdAt" | "updatedAt", ExtArgs["result"]["notificationPreferences"]>
 export type NotificationPreferencesInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
 }
@@ -630,6 +660,7 @@ export type $NotificationPreferencesPayload<ExtArgs extends runtime.Types.Extens
     dailyDigestEnabled: boolean
     expiry: boolean
     budget: boolean
+    lowStock: boolean
     system: boolean
     createdAt: Date
     updatedAt: Date
@@ -1065,6 +1096,7 @@ export interface NotificationPreferencesFieldRefs {
   readonly dailyDigestEnabled: Prisma.FieldRef<"NotificationPreferences", 'Boolean'>
   readonly expiry: Prisma.FieldRef<"NotificationPreferences", 'Boolean'>
   readonly budget: Prisma.FieldRef<"NotificationPreferences", 'Boolean'>
+  readonly lowStock: Prisma.FieldRef<"NotificationPreferences", 'Boolean'>
   readonly system: Prisma.FieldRef<"NotificationPreferences", 'Boolean'>
   readonly createdAt: Prisma.FieldRef<"NotificationPreferences", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"NotificationPreferences", 'DateTime'>
@@ -74,6 +74,7 @@ export type ProductCountAggregateOutputType = {
   createdAt: number
   updatedAt: number
   ingredients: number
+  allergens: number
   _all: number
 }
 
@@ -128,6 +129,7 @@ export type ProductCountAggregateInputType = {
   createdAt?: true
   updatedAt?: true
   ingredients?: true
+  allergens?: true
   _all?: true
 }
 
@@ -219,6 +221,7 @@ export type ProductGroupByOutputType = {
   createdAt: Date
   updatedAt: Date
   ingredients: string | null
+  allergens: string[]
   _count: ProductCountAggregateOutputType | null
   _min: ProductMinAggregateOutputType | null
   _max: ProductMaxAggregateOutputType | null
@@ -258,11 +261,19 @@ export type ProductWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"Product"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Product"> | Date | string
   ingredients?: Prisma.StringNullableFilter<"Product"> | string | null
+  allergens?: Prisma.StringNullableListFilter<"Product">
   InventoryItem?: Prisma.InventoryItemListRelationFilter
+  InventoryMovement?: Prisma.InventoryMovementListRelationFilter
   InvoiceItem?: Prisma.InvoiceItemListRelationFilter
   Category?: Prisma.XOR<Prisma.CategoryScalarRelationFilter, Prisma.CategoryWhereInput>
   ReceiptItem?: Prisma.ReceiptItemListRelationFilter
   RecipeIngredient?: Prisma.RecipeIngredientListRelationFilter
+  ShoppingListItem?: Prisma.ShoppingListItemListRelationFilter
+  ProductStockLevel?: Prisma.ProductStockLevelListRelationFilter
+  ProductPieceWeight?: Prisma.ProductPieceWeightListRelationFilter
+  ProductPriceRecord?: Prisma.ProductPriceRecordListRelationFilter
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideListRelationFilter
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingListRelationFilter
 }
 
 export type ProductOrderByWithRelationInput = {
@@ -281,11 +292,19 @@ export type ProductOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   ingredients?: Prisma.SortOrderInput | Prisma.SortOrder
+  allergens?: Prisma.SortOrder
   InventoryItem?: Prisma.InventoryItemOrderByRelationAggregateInput
+  InventoryMovement?: Prisma.InventoryMovementOrderByRelationAggregateInput
   InvoiceItem?: Prisma.InvoiceItemOrderByRelationAggregateInput
   Category?: Prisma.CategoryOrderByWithRelationInput
   ReceiptItem?: Prisma.ReceiptItemOrderByRelationAggregateInput
   RecipeIngredient?: Prisma.RecipeIngredientOrderByRelationAggregateInput
+  ShoppingListItem?: Prisma.ShoppingListItemOrderByRelationAggregateInput
+  ProductStockLevel?: Prisma.ProductStockLevelOrderByRelationAggregateInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightOrderByRelationAggregateInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordOrderByRelationAggregateInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideOrderByRelationAggregateInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingOrderByRelationAggregateInput
 }
 
 export type ProductWhereUniqueInput = Prisma.AtLeast<{
@@ -307,11 +326,19 @@ export type ProductWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"Product"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Product"> | Date | string
   ingredients?: Prisma.StringNullableFilter<"Product"> | string | null
+  allergens?: Prisma.StringNullableListFilter<"Product">
   InventoryItem?: Prisma.InventoryItemListRelationFilter
+  InventoryMovement?: Prisma.InventoryMovementListRelationFilter
   InvoiceItem?: Prisma.InvoiceItemListRelationFilter
   Category?: Prisma.XOR<Prisma.CategoryScalarRelationFilter, Prisma.CategoryWhereInput>
   ReceiptItem?: Prisma.ReceiptItemListRelationFilter
   RecipeIngredient?: Prisma.RecipeIngredientListRelationFilter
+  ShoppingListItem?: Prisma.ShoppingListItemListRelationFilter
+  ProductStockLevel?: Prisma.ProductStockLevelListRelationFilter
+  ProductPieceWeight?: Prisma.ProductPieceWeightListRelationFilter
+  ProductPriceRecord?: Prisma.ProductPriceRecordListRelationFilter
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideListRelationFilter
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingListRelationFilter
 }, "id" | "barcode">
 
 export type ProductOrderByWithAggregationInput = {
@@ -330,6 +357,7 @@ export type ProductOrderByWithAggregationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   ingredients?: Prisma.SortOrderInput | Prisma.SortOrder
+  allergens?: Prisma.SortOrder
   _count?: Prisma.ProductCountOrderByAggregateInput
   _max?: Prisma.ProductMaxOrderByAggregateInput
   _min?: Prisma.ProductMinOrderByAggregateInput
@@ -354,6 +382,7 @@ export type ProductScalarWhereWithAggregatesInput = {
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Product"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Product"> | Date | string
   ingredients?: Prisma.StringNullableWithAggregatesFilter<"Product"> | string | null
+  allergens?: Prisma.StringNullableListFilter<"Product">
 }
 
 export type ProductCreateInput = {
@@ -371,11 +400,19 @@ export type ProductCreateInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
   Category: Prisma.CategoryCreateNestedOneWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateInput = {
@@ -394,10 +431,18 @@ export type ProductUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductUpdateInput = {
@@ -415,11 +460,19 @@ export type ProductUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
   Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateInput = {
@@ -438,10 +491,18 @@ export type ProductUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductCreateManyInput = {
@@ -460,6 +521,7 @@ export type ProductCreateManyInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
 }
 
 export type ProductUpdateManyMutationInput = {
@@ -477,6 +539,7 @@ export type ProductUpdateManyMutationInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
 }
 
 export type ProductUncheckedUpdateManyInput = {
@@ -495,6 +558,7 @@ export type ProductUncheckedUpdateManyInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
 }
 
 export type ProductListRelationFilter = {
@@ -512,6 +576,19 @@ export type ProductScalarRelationFilter = {
   isNot?: Prisma.ProductWhereInput
 }
 
+export type ProductNullableScalarRelationFilter = {
+  is?: Prisma.ProductWhereInput | null
+  isNot?: Prisma.ProductWhereInput | null
+}
+
+export type StringNullableListFilter<$PrismaModel = never> = {
+  equals?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  has?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  hasEvery?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  hasSome?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
 export type ProductCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   barcode?: Prisma.SortOrder
@@ -528,6 +605,7 @@ export type ProductCountOrderByAggregateInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   ingredients?: Prisma.SortOrder
+  allergens?: Prisma.SortOrder
 }
 
 export type ProductMaxOrderByAggregateInput = {
@@ -564,11 +642,6 @@ export type ProductMinOrderByAggregateInput = {
   ingredients?: Prisma.SortOrder
 }
 
-export type ProductNullableScalarRelationFilter = {
-  is?: Prisma.ProductWhereInput | null
-  isNot?: Prisma.ProductWhereInput | null
-}
-
 export type ProductCreateNestedManyWithoutCategoryInput = {
   create?: Prisma.XOR<Prisma.ProductCreateWithoutCategoryInput, Prisma.ProductUncheckedCreateWithoutCategoryInput> | Prisma.ProductCreateWithoutCategoryInput[] | Prisma.ProductUncheckedCreateWithoutCategoryInput[]
   connectOrCreate?: Prisma.ProductCreateOrConnectWithoutCategoryInput | Prisma.ProductCreateOrConnectWithoutCategoryInput[]
@@ -625,6 +698,98 @@ export type ProductUpdateOneRequiredWithoutInventoryItemNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutInventoryItemInput, Prisma.ProductUpdateWithoutInventoryItemInput>, Prisma.ProductUncheckedUpdateWithoutInventoryItemInput>
 }
 
+export type ProductCreateNestedOneWithoutInventoryMovementInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutInventoryMovementInput, Prisma.ProductUncheckedCreateWithoutInventoryMovementInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutInventoryMovementInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneRequiredWithoutInventoryMovementNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutInventoryMovementInput, Prisma.ProductUncheckedCreateWithoutInventoryMovementInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutInventoryMovementInput
+  upsert?: Prisma.ProductUpsertWithoutInventoryMovementInput
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutInventoryMovementInput, Prisma.ProductUpdateWithoutInventoryMovementInput>, Prisma.ProductUncheckedUpdateWithoutInventoryMovementInput>
+}
+
+export type ProductCreateNestedOneWithoutProductStockLevelInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutProductStockLevelInput, Prisma.ProductUncheckedCreateWithoutProductStockLevelInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutProductStockLevelInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneRequiredWithoutProductStockLevelNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutProductStockLevelInput, Prisma.ProductUncheckedCreateWithoutProductStockLevelInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutProductStockLevelInput
+  upsert?: Prisma.ProductUpsertWithoutProductStockLevelInput
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutProductStockLevelInput, Prisma.ProductUpdateWithoutProductStockLevelInput>, Prisma.ProductUncheckedUpdateWithoutProductStockLevelInput>
+}
+
+export type ProductCreateNestedOneWithoutProductPieceWeightInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutProductPieceWeightInput, Prisma.ProductUncheckedCreateWithoutProductPieceWeightInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutProductPieceWeightInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneRequiredWithoutProductPieceWeightNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutProductPieceWeightInput, Prisma.ProductUncheckedCreateWithoutProductPieceWeightInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutProductPieceWeightInput
+  upsert?: Prisma.ProductUpsertWithoutProductPieceWeightInput
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutProductPieceWeightInput, Prisma.ProductUpdateWithoutProductPieceWeightInput>, Prisma.ProductUncheckedUpdateWithoutProductPieceWeightInput>
+}
+
+export type ProductCreateNestedOneWithoutProductPriceRecordInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutProductPriceRecordInput, Prisma.ProductUncheckedCreateWithoutProductPriceRecordInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutProductPriceRecordInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneRequiredWithoutProductPriceRecordNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutProductPriceRecordInput, Prisma.ProductUncheckedCreateWithoutProductPriceRecordInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutProductPriceRecordInput
+  upsert?: Prisma.ProductUpsertWithoutProductPriceRecordInput
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutProductPriceRecordInput, Prisma.ProductUpdateWithoutProductPriceRecordInput>, Prisma.ProductUncheckedUpdateWithoutProductPriceRecordInput>
+}
+
+export type ProductCreateNestedOneWithoutShelfLifeOverrideInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutShelfLifeOverrideInput, Prisma.ProductUncheckedCreateWithoutShelfLifeOverrideInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutShelfLifeOverrideInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneWithoutShelfLifeOverrideNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutShelfLifeOverrideInput, Prisma.ProductUncheckedCreateWithoutShelfLifeOverrideInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutShelfLifeOverrideInput
+  upsert?: Prisma.ProductUpsertWithoutShelfLifeOverrideInput
+  disconnect?: Prisma.ProductWhereInput | boolean
+  delete?: Prisma.ProductWhereInput | boolean
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutShelfLifeOverrideInput, Prisma.ProductUpdateWithoutShelfLifeOverrideInput>, Prisma.ProductUncheckedUpdateWithoutShelfLifeOverrideInput>
+}
+
+export type ProductCreateNestedOneWithoutInvoiceItemMappingInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutInvoiceItemMappingInput, Prisma.ProductUncheckedCreateWithoutInvoiceItemMappingInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutInvoiceItemMappingInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneWithoutInvoiceItemMappingNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutInvoiceItemMappingInput, Prisma.ProductUncheckedCreateWithoutInvoiceItemMappingInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutInvoiceItemMappingInput
+  upsert?: Prisma.ProductUpsertWithoutInvoiceItemMappingInput
+  disconnect?: Prisma.ProductWhereInput | boolean
+  delete?: Prisma.ProductWhereInput | boolean
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutInvoiceItemMappingInput, Prisma.ProductUpdateWithoutInvoiceItemMappingInput>, Prisma.ProductUncheckedUpdateWithoutInvoiceItemMappingInput>
+}
+
+export type ProductCreateallergensInput = {
+  set: string[]
+}
+
 export type NullableEnumNutriScoreFieldUpdateOperationsInput = {
   set?: $Enums.NutriScore | null
 }
@@ -641,6 +806,11 @@ export type EnumUnitTypeFieldUpdateOperationsInput = {
   set?: $Enums.UnitType
 }
 
+export type ProductUpdateallergensInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
 export type ProductCreateNestedOneWithoutInvoiceItemInput = {
   create?: Prisma.XOR<Prisma.ProductCreateWithoutInvoiceItemInput, Prisma.ProductUncheckedCreateWithoutInvoiceItemInput>
   connectOrCreate?: Prisma.ProductCreateOrConnectWithoutInvoiceItemInput
@@ -689,6 +859,22 @@ export type ProductUpdateOneWithoutRecipeIngredientNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutRecipeIngredientInput, Prisma.ProductUpdateWithoutRecipeIngredientInput>, Prisma.ProductUncheckedUpdateWithoutRecipeIngredientInput>
 }
 
+export type ProductCreateNestedOneWithoutShoppingListItemInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutShoppingListItemInput, Prisma.ProductUncheckedCreateWithoutShoppingListItemInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutShoppingListItemInput
+  connect?: Prisma.ProductWhereUniqueInput
+}
+
+export type ProductUpdateOneWithoutShoppingListItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductCreateWithoutShoppingListItemInput, Prisma.ProductUncheckedCreateWithoutShoppingListItemInput>
+  connectOrCreate?: Prisma.ProductCreateOrConnectWithoutShoppingListItemInput
+  upsert?: Prisma.ProductUpsertWithoutShoppingListItemInput
+  disconnect?: Prisma.ProductWhereInput | boolean
+  delete?: Prisma.ProductWhereInput | boolean
+  connect?: Prisma.ProductWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductUpdateToOneWithWhereWithoutShoppingListItemInput, Prisma.ProductUpdateWithoutShoppingListItemInput>, Prisma.ProductUncheckedUpdateWithoutShoppingListItemInput>
+}
+
 export type ProductCreateWithoutCategoryInput = {
   id: string
   barcode?: string | null
@@ -704,10 +890,18 @@ export type ProductCreateWithoutCategoryInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateWithoutCategoryInput = {
@@ -725,10 +919,18 @@ export type ProductUncheckedCreateWithoutCategoryInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductCreateOrConnectWithoutCategoryInput = {
@@ -776,9 +978,802 @@ export type ProductScalarWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"Product"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Product"> | Date | string
   ingredients?: Prisma.StringNullableFilter<"Product"> | string | null
+  allergens?: Prisma.StringNullableListFilter<"Product">
+}
+
+export type ProductCreateWithoutInventoryItemInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
+  Category: Prisma.CategoryCreateNestedOneWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutInventoryItemInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  categoryId: string
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutInventoryItemInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutInventoryItemInput, Prisma.ProductUncheckedCreateWithoutInventoryItemInput>
+}
+
+export type ProductUpsertWithoutInventoryItemInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutInventoryItemInput, Prisma.ProductUncheckedUpdateWithoutInventoryItemInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutInventoryItemInput, Prisma.ProductUncheckedCreateWithoutInventoryItemInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutInventoryItemInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutInventoryItemInput, Prisma.ProductUncheckedUpdateWithoutInventoryItemInput>
+}
+
+export type ProductUpdateWithoutInventoryItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
+  Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
+}
+
+export type ProductUncheckedUpdateWithoutInventoryItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutInventoryMovementInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
+  Category: Prisma.CategoryCreateNestedOneWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutInventoryMovementInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  categoryId: string
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutInventoryMovementInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutInventoryMovementInput, Prisma.ProductUncheckedCreateWithoutInventoryMovementInput>
+}
+
+export type ProductUpsertWithoutInventoryMovementInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutInventoryMovementInput, Prisma.ProductUncheckedUpdateWithoutInventoryMovementInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutInventoryMovementInput, Prisma.ProductUncheckedCreateWithoutInventoryMovementInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutInventoryMovementInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutInventoryMovementInput, Prisma.ProductUncheckedUpdateWithoutInventoryMovementInput>
+}
+
+export type ProductUpdateWithoutInventoryMovementInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
+  Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
+}
+
+export type ProductUncheckedUpdateWithoutInventoryMovementInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutProductStockLevelInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
+  Category: Prisma.CategoryCreateNestedOneWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutProductStockLevelInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  categoryId: string
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutProductStockLevelInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutProductStockLevelInput, Prisma.ProductUncheckedCreateWithoutProductStockLevelInput>
+}
+
+export type ProductUpsertWithoutProductStockLevelInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutProductStockLevelInput, Prisma.ProductUncheckedUpdateWithoutProductStockLevelInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutProductStockLevelInput, Prisma.ProductUncheckedCreateWithoutProductStockLevelInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutProductStockLevelInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutProductStockLevelInput, Prisma.ProductUncheckedUpdateWithoutProductStockLevelInput>
+}
+
+export type ProductUpdateWithoutProductStockLevelInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
+  Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
+}
+
+export type ProductUncheckedUpdateWithoutProductStockLevelInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutProductPieceWeightInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
+  Category: Prisma.CategoryCreateNestedOneWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutProductPieceWeightInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  categoryId: string
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutProductPieceWeightInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutProductPieceWeightInput, Prisma.ProductUncheckedCreateWithoutProductPieceWeightInput>
+}
+
+export type ProductUpsertWithoutProductPieceWeightInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutProductPieceWeightInput, Prisma.ProductUncheckedUpdateWithoutProductPieceWeightInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutProductPieceWeightInput, Prisma.ProductUncheckedCreateWithoutProductPieceWeightInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutProductPieceWeightInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutProductPieceWeightInput, Prisma.ProductUncheckedUpdateWithoutProductPieceWeightInput>
+}
+
+export type ProductUpdateWithoutProductPieceWeightInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
+  Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
+}
+
+export type ProductUncheckedUpdateWithoutProductPieceWeightInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutProductPriceRecordInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
+  Category: Prisma.CategoryCreateNestedOneWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutProductPriceRecordInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  categoryId: string
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutProductPriceRecordInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutProductPriceRecordInput, Prisma.ProductUncheckedCreateWithoutProductPriceRecordInput>
+}
+
+export type ProductUpsertWithoutProductPriceRecordInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutProductPriceRecordInput, Prisma.ProductUncheckedUpdateWithoutProductPriceRecordInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutProductPriceRecordInput, Prisma.ProductUncheckedCreateWithoutProductPriceRecordInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutProductPriceRecordInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutProductPriceRecordInput, Prisma.ProductUncheckedUpdateWithoutProductPriceRecordInput>
+}
+
+export type ProductUpdateWithoutProductPriceRecordInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
+  Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
+}
+
+export type ProductUncheckedUpdateWithoutProductPriceRecordInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutShelfLifeOverrideInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
+  Category: Prisma.CategoryCreateNestedOneWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutShelfLifeOverrideInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  categoryId: string
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutShelfLifeOverrideInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutShelfLifeOverrideInput, Prisma.ProductUncheckedCreateWithoutShelfLifeOverrideInput>
+}
+
+export type ProductUpsertWithoutShelfLifeOverrideInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutShelfLifeOverrideInput, Prisma.ProductUncheckedUpdateWithoutShelfLifeOverrideInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutShelfLifeOverrideInput, Prisma.ProductUncheckedCreateWithoutShelfLifeOverrideInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutShelfLifeOverrideInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutShelfLifeOverrideInput, Prisma.ProductUncheckedUpdateWithoutShelfLifeOverrideInput>
+}
+
+export type ProductUpdateWithoutShelfLifeOverrideInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
+  Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
 }
 
-export type ProductCreateWithoutInventoryItemInput = {
+export type ProductUncheckedUpdateWithoutShelfLifeOverrideInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutInvoiceItemMappingInput = {
   id: string
   barcode?: string | null
   name: string
@@ -793,13 +1788,21 @@ export type ProductCreateWithoutInventoryItemInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
   Category: Prisma.CategoryCreateNestedOneWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
 }
 
-export type ProductUncheckedCreateWithoutInventoryItemInput = {
+export type ProductUncheckedCreateWithoutInvoiceItemMappingInput = {
   id: string
   barcode?: string | null
   name: string
@@ -815,28 +1818,36 @@ export type ProductUncheckedCreateWithoutInventoryItemInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
 }
 
-export type ProductCreateOrConnectWithoutInventoryItemInput = {
+export type ProductCreateOrConnectWithoutInvoiceItemMappingInput = {
   where: Prisma.ProductWhereUniqueInput
-  create: Prisma.XOR<Prisma.ProductCreateWithoutInventoryItemInput, Prisma.ProductUncheckedCreateWithoutInventoryItemInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutInvoiceItemMappingInput, Prisma.ProductUncheckedCreateWithoutInvoiceItemMappingInput>
 }
 
-export type ProductUpsertWithoutInventoryItemInput = {
-  update: Prisma.XOR<Prisma.ProductUpdateWithoutInventoryItemInput, Prisma.ProductUncheckedUpdateWithoutInventoryItemInput>
-  create: Prisma.XOR<Prisma.ProductCreateWithoutInventoryItemInput, Prisma.ProductUncheckedCreateWithoutInventoryItemInput>
+export type ProductUpsertWithoutInvoiceItemMappingInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutInvoiceItemMappingInput, Prisma.ProductUncheckedUpdateWithoutInvoiceItemMappingInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutInvoiceItemMappingInput, Prisma.ProductUncheckedCreateWithoutInvoiceItemMappingInput>
   where?: Prisma.ProductWhereInput
 }
 
-export type ProductUpdateToOneWithWhereWithoutInventoryItemInput = {
+export type ProductUpdateToOneWithWhereWithoutInvoiceItemMappingInput = {
   where?: Prisma.ProductWhereInput
-  data: Prisma.XOR<Prisma.ProductUpdateWithoutInventoryItemInput, Prisma.ProductUncheckedUpdateWithoutInventoryItemInput>
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutInvoiceItemMappingInput, Prisma.ProductUncheckedUpdateWithoutInvoiceItemMappingInput>
 }
 
-export type ProductUpdateWithoutInventoryItemInput = {
+export type ProductUpdateWithoutInvoiceItemMappingInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -851,13 +1862,21 @@ export type ProductUpdateWithoutInventoryItemInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
   Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
 }
 
-export type ProductUncheckedUpdateWithoutInventoryItemInput = {
+export type ProductUncheckedUpdateWithoutInvoiceItemMappingInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -873,9 +1892,17 @@ export type ProductUncheckedUpdateWithoutInventoryItemInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductCreateWithoutInvoiceItemInput = {
@@ -893,10 +1920,18 @@ export type ProductCreateWithoutInvoiceItemInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
   Category: Prisma.CategoryCreateNestedOneWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateWithoutInvoiceItemInput = {
@@ -915,9 +1950,17 @@ export type ProductUncheckedCreateWithoutInvoiceItemInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductCreateOrConnectWithoutInvoiceItemInput = {
@@ -951,10 +1994,18 @@ export type ProductUpdateWithoutInvoiceItemInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
   Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateWithoutInvoiceItemInput = {
@@ -973,9 +2024,17 @@ export type ProductUncheckedUpdateWithoutInvoiceItemInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductCreateWithoutReceiptItemInput = {
@@ -993,10 +2052,18 @@ export type ProductCreateWithoutReceiptItemInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
   Category: Prisma.CategoryCreateNestedOneWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateWithoutReceiptItemInput = {
@@ -1015,9 +2082,17 @@ export type ProductUncheckedCreateWithoutReceiptItemInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductCreateOrConnectWithoutReceiptItemInput = {
@@ -1051,10 +2126,18 @@ export type ProductUpdateWithoutReceiptItemInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
   Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateWithoutReceiptItemInput = {
@@ -1073,9 +2156,17 @@ export type ProductUncheckedUpdateWithoutReceiptItemInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductCreateWithoutRecipeIngredientInput = {
@@ -1093,10 +2184,18 @@ export type ProductCreateWithoutRecipeIngredientInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
   Category: Prisma.CategoryCreateNestedOneWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
 }
 
 export type ProductUncheckedCreateWithoutRecipeIngredientInput = {
@@ -1115,9 +2214,17 @@ export type ProductUncheckedCreateWithoutRecipeIngredientInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
 }
 
 export type ProductCreateOrConnectWithoutRecipeIngredientInput = {
@@ -1151,10 +2258,18 @@ export type ProductUpdateWithoutRecipeIngredientInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
   Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateWithoutRecipeIngredientInput = {
@@ -1173,9 +2288,149 @@ export type ProductUncheckedUpdateWithoutRecipeIngredientInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
+}
+
+export type ProductCreateWithoutShoppingListItemInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedManyWithoutProductInput
+  Category: Prisma.CategoryCreateNestedOneWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutProductInput
+}
+
+export type ProductUncheckedCreateWithoutShoppingListItemInput = {
+  id: string
+  barcode?: string | null
+  name: string
+  brand?: string | null
+  categoryId: string
+  nutriscore?: $Enums.NutriScore | null
+  ecoscore?: $Enums.Ecoscore | null
+  novascore?: $Enums.Novascore | null
+  unitType: $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: string | null
+  externalId?: string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutProductInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItem?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutProductInput
+  ReceiptItem?: Prisma.ReceiptItemUncheckedCreateNestedManyWithoutProductInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutProductInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutProductInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutProductInput
+}
+
+export type ProductCreateOrConnectWithoutShoppingListItemInput = {
+  where: Prisma.ProductWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductCreateWithoutShoppingListItemInput, Prisma.ProductUncheckedCreateWithoutShoppingListItemInput>
+}
+
+export type ProductUpsertWithoutShoppingListItemInput = {
+  update: Prisma.XOR<Prisma.ProductUpdateWithoutShoppingListItemInput, Prisma.ProductUncheckedUpdateWithoutShoppingListItemInput>
+  create: Prisma.XOR<Prisma.ProductCreateWithoutShoppingListItemInput, Prisma.ProductUncheckedCreateWithoutShoppingListItemInput>
+  where?: Prisma.ProductWhereInput
+}
+
+export type ProductUpdateToOneWithWhereWithoutShoppingListItemInput = {
+  where?: Prisma.ProductWhereInput
+  data: Prisma.XOR<Prisma.ProductUpdateWithoutShoppingListItemInput, Prisma.ProductUncheckedUpdateWithoutShoppingListItemInput>
+}
+
+export type ProductUpdateWithoutShoppingListItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
+  Category?: Prisma.CategoryUpdateOneRequiredWithoutProductNestedInput
+  ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
+}
+
+export type ProductUncheckedUpdateWithoutShoppingListItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  barcode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  brand?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  categoryId?: Prisma.StringFieldUpdateOperationsInput | string
+  nutriscore?: Prisma.NullableEnumNutriScoreFieldUpdateOperationsInput | $Enums.NutriScore | null
+  ecoscore?: Prisma.NullableEnumEcoscoreFieldUpdateOperationsInput | $Enums.Ecoscore | null
+  novascore?: Prisma.NullableEnumNovascoreFieldUpdateOperationsInput | $Enums.Novascore | null
+  unitType?: Prisma.EnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType
+  nutrients?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  externalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductCreateManyCategoryInput = {
@@ -1193,6 +2448,7 @@ export type ProductCreateManyCategoryInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   ingredients?: string | null
+  allergens?: Prisma.ProductCreateallergensInput | string[]
 }
 
 export type ProductUpdateWithoutCategoryInput = {
@@ -1210,10 +2466,18 @@ export type ProductUpdateWithoutCategoryInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUpdateManyWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUpdateManyWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateWithoutCategoryInput = {
@@ -1231,10 +2495,18 @@ export type ProductUncheckedUpdateWithoutCategoryInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutProductNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutProductNestedInput
   InvoiceItem?: Prisma.InvoiceItemUncheckedUpdateManyWithoutProductNestedInput
   ReceiptItem?: Prisma.ReceiptItemUncheckedUpdateManyWithoutProductNestedInput
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutProductNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutProductNestedInput
 }
 
 export type ProductUncheckedUpdateManyWithoutCategoryInput = {
@@ -1252,6 +2524,7 @@ export type ProductUncheckedUpdateManyWithoutCategoryInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ingredients?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergens?: Prisma.ProductUpdateallergensInput | string[]
 }
 
 
@@ -1261,16 +2534,30 @@ export type ProductUncheckedUpdateManyWithoutCategoryInput = {
 
 export type ProductCountOutputType = {
   InventoryItem: number
+  InventoryMovement: number
   InvoiceItem: number
   ReceiptItem: number
   RecipeIngredient: number
+  ShoppingListItem: number
+  ProductStockLevel: number
+  ProductPieceWeight: number
+  ProductPriceRecord: number
+  ShelfLifeOverride: number
+  InvoiceItemMapping: number
 }
 
 export type ProductCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   InventoryItem?: boolean | ProductCountOutputTypeCountInventoryItemArgs
+  InventoryMovement?: boolean | ProductCountOutputTypeCountInventoryMovementArgs
   InvoiceItem?: boolean | ProductCountOutputTypeCountInvoiceItemArgs
   ReceiptItem?: boolean | ProductCountOutputTypeCountReceiptItemArgs
   RecipeIngredient?: boolean | ProductCountOutputTypeCountRecipeIngredientArgs
+  ShoppingListItem?: boolean | ProductCountOutputTypeCountShoppingListItemArgs
+  ProductStockLevel?: boolean | ProductCountOutputTypeCountProductStockLevelArgs
+  ProductPieceWeight?: boolean | ProductCountOutputTypeCountProductPieceWeightArgs
+  ProductPriceRecord?: boolean | ProductCountOutputTypeCountProductPriceRecordArgs
+  ShelfLifeOverride?: boolean | ProductCountOutputTypeCountShelfLifeOverrideArgs
+  InvoiceItemMapping?: boolean | ProductCountOutputTypeCountInvoiceItemMappingArgs
 }
 
 /**
@@ -1290,6 +2577,13 @@ export type ProductCountOutputTypeCountInventoryItemArgs<ExtArgs extends runtime
   where?: Prisma.InventoryItemWhereInput
 }
 
+/**
+ * ProductCountOutputType without action
+ */
+export type ProductCountOutputTypeCountInventoryMovementArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryMovementWhereInput
+}
+
 /**
  * ProductCountOutputType without action
  */
@@ -1311,6 +2605,48 @@ export type ProductCountOutputTypeCountRecipeIngredientArgs<ExtArgs extends runt
   where?: Prisma.RecipeIngredientWhereInput
 }
 
+/**
+ * ProductCountOutputType without action
+ */
+export type ProductCountOutputTypeCountShoppingListItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShoppingListItemWhereInput
+}
+
+/**
+ * ProductCountOutputType without action
+ */
+export type ProductCountOutputTypeCountProductStockLevelArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductStockLevelWhereInput
+}
+
+/**
+ * ProductCountOutputType without action
+ */
+export type ProductCountOutputTypeCountProductPieceWeightArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductPieceWeightWhereInput
+}
+
+/**
+ * ProductCountOutputType without action
+ */
+export type ProductCountOutputTypeCountProductPriceRecordArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductPriceRecordWhereInput
+}
+
+/**
+ * ProductCountOutputType without action
+ */
+export type ProductCountOutputTypeCountShelfLifeOverrideArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShelfLifeOverrideWhereInput
+}
+
+/**
+ * ProductCountOutputType without action
+ */
+export type ProductCountOutputTypeCountInvoiceItemMappingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceItemMappingWhereInput
+}
+
 
 export type ProductSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1328,11 +2664,19 @@ export type ProductSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   createdAt?: boolean
   updatedAt?: boolean
   ingredients?: boolean
+  allergens?: boolean
   InventoryItem?: boolean | Prisma.Product$InventoryItemArgs<ExtArgs>
+  InventoryMovement?: boolean | Prisma.Product$InventoryMovementArgs<ExtArgs>
   InvoiceItem?: boolean | Prisma.Product$InvoiceItemArgs<ExtArgs>
   Category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
   ReceiptItem?: boolean | Prisma.Product$ReceiptItemArgs<ExtArgs>
   RecipeIngredient?: boolean | Prisma.Product$RecipeIngredientArgs<ExtArgs>
+  ShoppingListItem?: boolean | Prisma.Product$ShoppingListItemArgs<ExtArgs>
+  ProductStockLevel?: boolean | Prisma.Product$ProductStockLevelArgs<ExtArgs>
+  ProductPieceWeight?: boolean | Prisma.Product$ProductPieceWeightArgs<ExtArgs>
+  ProductPriceRecord?: boolean | Prisma.Product$ProductPriceRecordArgs<ExtArgs>
+  ShelfLifeOverride?: boolean | Prisma.Product$ShelfLifeOverrideArgs<ExtArgs>
+  InvoiceItemMapping?: boolean | Prisma.Product$InvoiceItemMappingArgs<ExtArgs>
   _count?: boolean | Prisma.ProductCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["product"]>
 
@@ -1352,6 +2696,7 @@ export type ProductSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   createdAt?: boolean
   updatedAt?: boolean
   ingredients?: boolean
+  allergens?: boolean
   Category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["product"]>
 
@@ -1371,6 +2716,7 @@ export type ProductSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   createdAt?: boolean
   updatedAt?: boolean
   ingredients?: boolean
+  allergens?: boolean
   Category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["product"]>
 
@@ -1390,15 +2736,23 @@ export type ProductSelectScalar = {
   createdAt?: boolean
   updatedAt?: boolean
   ingredients?: boolean
+  allergens?: boolean
 }
 
-export type ProductOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "barcode" | "name" | "brand" | "categoryId" | "nutriscore" | "ecoscore" | "novascore" | "unitType" | "nutrients" | "imageUrl" | "externalId" | "createdAt" | "updatedAt" | "ingredients", ExtArgs["result"]["product"]>
+export type ProductOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "barcode" | "name" | "brand" | "categoryId" | "nutriscore" | "ecoscore" | "novascore" | "unitType" | "nutrients" | "imageUrl" | "externalId" | "createdAt" | "updatedAt" | "ingredients" | "allergens", ExtArgs["result"]["product"]>
 export type ProductInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   InventoryItem?: boolean | Prisma.Product$InventoryItemArgs<ExtArgs>
+  InventoryMovement?: boolean | Prisma.Product$InventoryMovementArgs<ExtArgs>
   InvoiceItem?: boolean | Prisma.Product$InvoiceItemArgs<ExtArgs>
   Category?: boolean | Prisma.CategoryDefaultArgs<ExtArgs>
   ReceiptItem?: boolean | Prisma.Product$ReceiptItemArgs<ExtArgs>
   RecipeIngredient?: boolean | Prisma.Product$RecipeIngredientArgs<ExtArgs>
+  ShoppingListItem?: boolean | Prisma.Product$ShoppingListItemArgs<ExtArgs>
+  ProductStockLevel?: boolean | Prisma.Product$ProductStockLevelArgs<ExtArgs>
+  ProductPieceWeight?: boolean | Prisma.Product$ProductPieceWeightArgs<ExtArgs>
+  ProductPriceRecord?: boolean | Prisma.Product$ProductPriceRecordArgs<ExtArgs>
+  ShelfLifeOverride?: boolean | Prisma.Product$ShelfLifeOverrideArgs<ExtArgs>
+  InvoiceItemMapping?: boolean | Prisma.Product$InvoiceItemMappingArgs<ExtArgs>
   _count?: boolean | Prisma.ProductCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ProductIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1412,10 +2766,17 @@ export type $ProductPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
   name: "Product"
   objects: {
     InventoryItem: Prisma.$InventoryItemPayload<ExtArgs>[]
+    InventoryMovement: Prisma.$InventoryMovementPayload<ExtArgs>[]
     InvoiceItem: Prisma.$InvoiceItemPayload<ExtArgs>[]
     Category: Prisma.$CategoryPayload<ExtArgs>
     ReceiptItem: Prisma.$ReceiptItemPayload<ExtArgs>[]
     RecipeIngredient: Prisma.$RecipeIngredientPayload<ExtArgs>[]
+    ShoppingListItem: Prisma.$ShoppingListItemPayload<ExtArgs>[]
+    ProductStockLevel: Prisma.$ProductStockLevelPayload<ExtArgs>[]
+    ProductPieceWeight: Prisma.$ProductPieceWeightPayload<ExtArgs>[]
+    ProductPriceRecord: Prisma.$ProductPriceRecordPayload<ExtArgs>[]
+    ShelfLifeOverride: Prisma.$ShelfLifeOverridePayload<ExtArgs>[]
+    InvoiceItemMapping: Prisma.$InvoiceItemMappingPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1433,6 +2794,7 @@ export type $ProductPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     createdAt: Date
     updatedAt: Date
     ingredients: string | null
+    allergens: string[]
   }, ExtArgs["result"]["product"]>
   composites: {}
 }
@@ -1828,10 +3190,17 @@ readonly fields: ProductFieldRefs;
 export interface Prisma__ProductClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   InventoryItem<T extends Prisma.Product$InventoryItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$InventoryItemArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  InventoryMovement<T extends Prisma.Product$InventoryMovementArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$InventoryMovementArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   InvoiceItem<T extends Prisma.Product$InvoiceItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$InvoiceItemArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   Category<T extends Prisma.CategoryDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CategoryDefaultArgs<ExtArgs>>): Prisma.Prisma__CategoryClient<runtime.Types.Result.GetResult<Prisma.$CategoryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   ReceiptItem<T extends Prisma.Product$ReceiptItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$ReceiptItemArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReceiptItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   RecipeIngredient<T extends Prisma.Product$RecipeIngredientArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$RecipeIngredientArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecipeIngredientPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ShoppingListItem<T extends Prisma.Product$ShoppingListItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$ShoppingListItemArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ProductStockLevel<T extends Prisma.Product$ProductStockLevelArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$ProductStockLevelArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ProductPieceWeight<T extends Prisma.Product$ProductPieceWeightArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$ProductPieceWeightArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ProductPriceRecord<T extends Prisma.Product$ProductPriceRecordArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$ProductPriceRecordArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ShelfLifeOverride<T extends Prisma.Product$ShelfLifeOverrideArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$ShelfLifeOverrideArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  InvoiceItemMapping<T extends Prisma.Product$InvoiceItemMappingArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Product$InvoiceItemMappingArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1876,6 +3245,7 @@ export interface ProductFieldRefs {
   readonly createdAt: Prisma.FieldRef<"Product", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Product", 'DateTime'>
   readonly ingredients: Prisma.FieldRef<"Product", 'String'>
+  readonly allergens: Prisma.FieldRef<"Product", 'String[]'>
 }
     
 
@@ -2295,6 +3665,30 @@ export type Product$InventoryItemArgs<ExtArgs extends runtime.Types.Extensions.I
   distinct?: Prisma.InventoryItemScalarFieldEnum | Prisma.InventoryItemScalarFieldEnum[]
 }
 
+/**
+ * Product.InventoryMovement
+ */
+export type Product$InventoryMovementArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  where?: Prisma.InventoryMovementWhereInput
+  orderBy?: Prisma.InventoryMovementOrderByWithRelationInput | Prisma.InventoryMovementOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryMovementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryMovementScalarFieldEnum | Prisma.InventoryMovementScalarFieldEnum[]
+}
+
 /**
  * Product.InvoiceItem
  */
@@ -2367,6 +3761,150 @@ export type Product$RecipeIngredientArgs<ExtArgs extends runtime.Types.Extension
   distinct?: Prisma.RecipeIngredientScalarFieldEnum | Prisma.RecipeIngredientScalarFieldEnum[]
 }
 
+/**
+ * Product.ShoppingListItem
+ */
+export type Product$ShoppingListItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  where?: Prisma.ShoppingListItemWhereInput
+  orderBy?: Prisma.ShoppingListItemOrderByWithRelationInput | Prisma.ShoppingListItemOrderByWithRelationInput[]
+  cursor?: Prisma.ShoppingListItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShoppingListItemScalarFieldEnum | Prisma.ShoppingListItemScalarFieldEnum[]
+}
+
+/**
+ * Product.ProductStockLevel
+ */
+export type Product$ProductStockLevelArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  where?: Prisma.ProductStockLevelWhereInput
+  orderBy?: Prisma.ProductStockLevelOrderByWithRelationInput | Prisma.ProductStockLevelOrderByWithRelationInput[]
+  cursor?: Prisma.ProductStockLevelWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProductStockLevelScalarFieldEnum | Prisma.ProductStockLevelScalarFieldEnum[]
+}
+
+/**
+ * Product.ProductPieceWeight
+ */
+export type Product$ProductPieceWeightArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  where?: Prisma.ProductPieceWeightWhereInput
+  orderBy?: Prisma.ProductPieceWeightOrderByWithRelationInput | Prisma.ProductPieceWeightOrderByWithRelationInput[]
+  cursor?: Prisma.ProductPieceWeightWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProductPieceWeightScalarFieldEnum | Prisma.ProductPieceWeightScalarFieldEnum[]
+}
+
+/**
+ * Product.ProductPriceRecord
+ */
+export type Product$ProductPriceRecordArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  where?: Prisma.ProductPriceRecordWhereInput
+  orderBy?: Prisma.ProductPriceRecordOrderByWithRelationInput | Prisma.ProductPriceRecordOrderByWithRelationInput[]
+  cursor?: Prisma.ProductPriceRecordWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProductPriceRecordScalarFieldEnum | Prisma.ProductPriceRecordScalarFieldEnum[]
+}
+
+/**
+ * Product.ShelfLifeOverride
+ */
+export type Product$ShelfLifeOverrideArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  orderBy?: Prisma.ShelfLifeOverrideOrderByWithRelationInput | Prisma.ShelfLifeOverrideOrderByWithRelationInput[]
+  cursor?: Prisma.ShelfLifeOverrideWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShelfLifeOverrideScalarFieldEnum | Prisma.ShelfLifeOverrideScalarFieldEnum[]
+}
+
+/**
+ * Product.InvoiceItemMapping
+ */
+export type Product$InvoiceItemMappingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  where?: Prisma.InvoiceItemMappingWhereInput
+  orderBy?: Prisma.InvoiceItemMappingOrderByWithRelationInput | Prisma.InvoiceItemMappingOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceItemMappingWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceItemMappingScalarFieldEnum | Prisma.InvoiceItemMappingScalarFieldEnum[]
+}
+
 /**
  * Product without action
  */
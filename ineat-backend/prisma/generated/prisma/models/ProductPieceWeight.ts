@@ -0,0 +1,1551 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ProductPieceWeight` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ProductPieceWeight
+ * 
+ */
+export type ProductPieceWeightModel = runtime.Types.Result.DefaultSelection<Prisma.$ProductPieceWeightPayload>
+
+export type AggregateProductPieceWeight = {
+  _count: ProductPieceWeightCountAggregateOutputType | null
+  _avg: ProductPieceWeightAvgAggregateOutputType | null
+  _sum: ProductPieceWeightSumAggregateOutputType | null
+  _min: ProductPieceWeightMinAggregateOutputType | null
+  _max: ProductPieceWeightMaxAggregateOutputType | null
+}
+
+export type ProductPieceWeightAvgAggregateOutputType = {
+  pieceWeight: number | null
+}
+
+export type ProductPieceWeightSumAggregateOutputType = {
+  pieceWeight: number | null
+}
+
+export type ProductPieceWeightMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  pieceWeight: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProductPieceWeightMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  pieceWeight: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProductPieceWeightCountAggregateOutputType = {
+  id: number
+  userId: number
+  productId: number
+  pieceWeight: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ProductPieceWeightAvgAggregateInputType = {
+  pieceWeight?: true
+}
+
+export type ProductPieceWeightSumAggregateInputType = {
+  pieceWeight?: true
+}
+
+export type ProductPieceWeightMinAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  pieceWeight?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProductPieceWeightMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  pieceWeight?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProductPieceWeightCountAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  pieceWeight?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ProductPieceWeightAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProductPieceWeight to aggregate.
+   */
+  where?: Prisma.ProductPieceWeightWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductPieceWeights to fetch.
+   */
+  orderBy?: Prisma.ProductPieceWeightOrderByWithRelationInput | Prisma.ProductPieceWeightOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProductPieceWeightWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductPieceWeights from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductPieceWeights.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ProductPieceWeights
+  **/
+  _count?: true | ProductPieceWeightCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ProductPieceWeightAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ProductPieceWeightSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProductPieceWeightMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProductPieceWeightMaxAggregateInputType
+}
+
+export type GetProductPieceWeightAggregateType<T extends ProductPieceWeightAggregateArgs> = {
+      [P in keyof T & keyof AggregateProductPieceWeight]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProductPieceWeight[P]>
+    : Prisma.GetScalarType<T[P], AggregateProductPieceWeight[P]>
+}
+
+
+
+
+export type ProductPieceWeightGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductPieceWeightWhereInput
+  orderBy?: Prisma.ProductPieceWeightOrderByWithAggregationInput | Prisma.ProductPieceWeightOrderByWithAggregationInput[]
+  by: Prisma.ProductPieceWeightScalarFieldEnum[] | Prisma.ProductPieceWeightScalarFieldEnum
+  having?: Prisma.ProductPieceWeightScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProductPieceWeightCountAggregateInputType | true
+  _avg?: ProductPieceWeightAvgAggregateInputType
+  _sum?: ProductPieceWeightSumAggregateInputType
+  _min?: ProductPieceWeightMinAggregateInputType
+  _max?: ProductPieceWeightMaxAggregateInputType
+}
+
+export type ProductPieceWeightGroupByOutputType = {
+  id: string
+  userId: string
+  productId: string
+  pieceWeight: number
+  createdAt: Date
+  updatedAt: Date
+  _count: ProductPieceWeightCountAggregateOutputType | null
+  _avg: ProductPieceWeightAvgAggregateOutputType | null
+  _sum: ProductPieceWeightSumAggregateOutputType | null
+  _min: ProductPieceWeightMinAggregateOutputType | null
+  _max: ProductPieceWeightMaxAggregateOutputType | null
+}
+
+type GetProductPieceWeightGroupByPayload<T extends ProductPieceWeightGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProductPieceWeightGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProductPieceWeightGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProductPieceWeightGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProductPieceWeightGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProductPieceWeightWhereInput = {
+  AND?: Prisma.ProductPieceWeightWhereInput | Prisma.ProductPieceWeightWhereInput[]
+  OR?: Prisma.ProductPieceWeightWhereInput[]
+  NOT?: Prisma.ProductPieceWeightWhereInput | Prisma.ProductPieceWeightWhereInput[]
+  id?: Prisma.StringFilter<"ProductPieceWeight"> | string
+  userId?: Prisma.StringFilter<"ProductPieceWeight"> | string
+  productId?: Prisma.StringFilter<"ProductPieceWeight"> | string
+  pieceWeight?: Prisma.FloatFilter<"ProductPieceWeight"> | number
+  createdAt?: Prisma.DateTimeFilter<"ProductPieceWeight"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProductPieceWeight"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+}
+
+export type ProductPieceWeightOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  pieceWeight?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  User?: Prisma.UserOrderByWithRelationInput
+  Product?: Prisma.ProductOrderByWithRelationInput
+}
+
+export type ProductPieceWeightWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId_productId?: Prisma.ProductPieceWeightUserIdProductIdCompoundUniqueInput
+  AND?: Prisma.ProductPieceWeightWhereInput | Prisma.ProductPieceWeightWhereInput[]
+  OR?: Prisma.ProductPieceWeightWhereInput[]
+  NOT?: Prisma.ProductPieceWeightWhereInput | Prisma.ProductPieceWeightWhereInput[]
+  userId?: Prisma.StringFilter<"ProductPieceWeight"> | string
+  productId?: Prisma.StringFilter<"ProductPieceWeight"> | string
+  pieceWeight?: Prisma.FloatFilter<"ProductPieceWeight"> | number
+  createdAt?: Prisma.DateTimeFilter<"ProductPieceWeight"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProductPieceWeight"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+}, "id" | "userId_productId">
+
+export type ProductPieceWeightOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  pieceWeight?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ProductPieceWeightCountOrderByAggregateInput
+  _avg?: Prisma.ProductPieceWeightAvgOrderByAggregateInput
+  _max?: Prisma.ProductPieceWeightMaxOrderByAggregateInput
+  _min?: Prisma.ProductPieceWeightMinOrderByAggregateInput
+  _sum?: Prisma.ProductPieceWeightSumOrderByAggregateInput
+}
+
+export type ProductPieceWeightScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProductPieceWeightScalarWhereWithAggregatesInput | Prisma.ProductPieceWeightScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProductPieceWeightScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProductPieceWeightScalarWhereWithAggregatesInput | Prisma.ProductPieceWeightScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ProductPieceWeight"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"ProductPieceWeight"> | string
+  productId?: Prisma.StringWithAggregatesFilter<"ProductPieceWeight"> | string
+  pieceWeight?: Prisma.FloatWithAggregatesFilter<"ProductPieceWeight"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ProductPieceWeight"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ProductPieceWeight"> | Date | string
+}
+
+export type ProductPieceWeightCreateInput = {
+  id: string
+  pieceWeight: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutProductPieceWeightInput
+  Product: Prisma.ProductCreateNestedOneWithoutProductPieceWeightInput
+}
+
+export type ProductPieceWeightUncheckedCreateInput = {
+  id: string
+  userId: string
+  productId: string
+  pieceWeight: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductPieceWeightUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutProductPieceWeightNestedInput
+  Product?: Prisma.ProductUpdateOneRequiredWithoutProductPieceWeightNestedInput
+}
+
+export type ProductPieceWeightUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPieceWeightCreateManyInput = {
+  id: string
+  userId: string
+  productId: string
+  pieceWeight: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductPieceWeightUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPieceWeightUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPieceWeightUserIdProductIdCompoundUniqueInput = {
+  userId: string
+  productId: string
+}
+
+export type ProductPieceWeightCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  pieceWeight?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProductPieceWeightAvgOrderByAggregateInput = {
+  pieceWeight?: Prisma.SortOrder
+}
+
+export type ProductPieceWeightMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  pieceWeight?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProductPieceWeightMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  pieceWeight?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProductPieceWeightSumOrderByAggregateInput = {
+  pieceWeight?: Prisma.SortOrder
+}
+
+export type ProductPieceWeightListRelationFilter = {
+  every?: Prisma.ProductPieceWeightWhereInput
+  some?: Prisma.ProductPieceWeightWhereInput
+  none?: Prisma.ProductPieceWeightWhereInput
+}
+
+export type ProductPieceWeightOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ProductPieceWeightCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutProductInput, Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput> | Prisma.ProductPieceWeightCreateWithoutProductInput[] | Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductPieceWeightCreateOrConnectWithoutProductInput | Prisma.ProductPieceWeightCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ProductPieceWeightCreateManyProductInputEnvelope
+  connect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+}
+
+export type ProductPieceWeightUncheckedCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutProductInput, Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput> | Prisma.ProductPieceWeightCreateWithoutProductInput[] | Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductPieceWeightCreateOrConnectWithoutProductInput | Prisma.ProductPieceWeightCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ProductPieceWeightCreateManyProductInputEnvelope
+  connect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+}
+
+export type ProductPieceWeightUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutProductInput, Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput> | Prisma.ProductPieceWeightCreateWithoutProductInput[] | Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductPieceWeightCreateOrConnectWithoutProductInput | Prisma.ProductPieceWeightCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ProductPieceWeightUpsertWithWhereUniqueWithoutProductInput | Prisma.ProductPieceWeightUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ProductPieceWeightCreateManyProductInputEnvelope
+  set?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  disconnect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  delete?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  connect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  update?: Prisma.ProductPieceWeightUpdateWithWhereUniqueWithoutProductInput | Prisma.ProductPieceWeightUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ProductPieceWeightUpdateManyWithWhereWithoutProductInput | Prisma.ProductPieceWeightUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ProductPieceWeightScalarWhereInput | Prisma.ProductPieceWeightScalarWhereInput[]
+}
+
+export type ProductPieceWeightUncheckedUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutProductInput, Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput> | Prisma.ProductPieceWeightCreateWithoutProductInput[] | Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductPieceWeightCreateOrConnectWithoutProductInput | Prisma.ProductPieceWeightCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ProductPieceWeightUpsertWithWhereUniqueWithoutProductInput | Prisma.ProductPieceWeightUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ProductPieceWeightCreateManyProductInputEnvelope
+  set?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  disconnect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  delete?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  connect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  update?: Prisma.ProductPieceWeightUpdateWithWhereUniqueWithoutProductInput | Prisma.ProductPieceWeightUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ProductPieceWeightUpdateManyWithWhereWithoutProductInput | Prisma.ProductPieceWeightUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ProductPieceWeightScalarWhereInput | Prisma.ProductPieceWeightScalarWhereInput[]
+}
+
+export type ProductPieceWeightCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutUserInput, Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput> | Prisma.ProductPieceWeightCreateWithoutUserInput[] | Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductPieceWeightCreateOrConnectWithoutUserInput | Prisma.ProductPieceWeightCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ProductPieceWeightCreateManyUserInputEnvelope
+  connect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+}
+
+export type ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutUserInput, Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput> | Prisma.ProductPieceWeightCreateWithoutUserInput[] | Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductPieceWeightCreateOrConnectWithoutUserInput | Prisma.ProductPieceWeightCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ProductPieceWeightCreateManyUserInputEnvelope
+  connect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+}
+
+export type ProductPieceWeightUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutUserInput, Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput> | Prisma.ProductPieceWeightCreateWithoutUserInput[] | Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductPieceWeightCreateOrConnectWithoutUserInput | Prisma.ProductPieceWeightCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ProductPieceWeightUpsertWithWhereUniqueWithoutUserInput | Prisma.ProductPieceWeightUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ProductPieceWeightCreateManyUserInputEnvelope
+  set?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  disconnect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  delete?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  connect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  update?: Prisma.ProductPieceWeightUpdateWithWhereUniqueWithoutUserInput | Prisma.ProductPieceWeightUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ProductPieceWeightUpdateManyWithWhereWithoutUserInput | Prisma.ProductPieceWeightUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ProductPieceWeightScalarWhereInput | Prisma.ProductPieceWeightScalarWhereInput[]
+}
+
+export type ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutUserInput, Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput> | Prisma.ProductPieceWeightCreateWithoutUserInput[] | Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductPieceWeightCreateOrConnectWithoutUserInput | Prisma.ProductPieceWeightCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ProductPieceWeightUpsertWithWhereUniqueWithoutUserInput | Prisma.ProductPieceWeightUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ProductPieceWeightCreateManyUserInputEnvelope
+  set?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  disconnect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  delete?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  connect?: Prisma.ProductPieceWeightWhereUniqueInput | Prisma.ProductPieceWeightWhereUniqueInput[]
+  update?: Prisma.ProductPieceWeightUpdateWithWhereUniqueWithoutUserInput | Prisma.ProductPieceWeightUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ProductPieceWeightUpdateManyWithWhereWithoutUserInput | Prisma.ProductPieceWeightUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ProductPieceWeightScalarWhereInput | Prisma.ProductPieceWeightScalarWhereInput[]
+}
+
+export type ProductPieceWeightCreateWithoutProductInput = {
+  id: string
+  pieceWeight: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutProductPieceWeightInput
+}
+
+export type ProductPieceWeightUncheckedCreateWithoutProductInput = {
+  id: string
+  userId: string
+  pieceWeight: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductPieceWeightCreateOrConnectWithoutProductInput = {
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutProductInput, Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput>
+}
+
+export type ProductPieceWeightCreateManyProductInputEnvelope = {
+  data: Prisma.ProductPieceWeightCreateManyProductInput | Prisma.ProductPieceWeightCreateManyProductInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProductPieceWeightUpsertWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProductPieceWeightUpdateWithoutProductInput, Prisma.ProductPieceWeightUncheckedUpdateWithoutProductInput>
+  create: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutProductInput, Prisma.ProductPieceWeightUncheckedCreateWithoutProductInput>
+}
+
+export type ProductPieceWeightUpdateWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProductPieceWeightUpdateWithoutProductInput, Prisma.ProductPieceWeightUncheckedUpdateWithoutProductInput>
+}
+
+export type ProductPieceWeightUpdateManyWithWhereWithoutProductInput = {
+  where: Prisma.ProductPieceWeightScalarWhereInput
+  data: Prisma.XOR<Prisma.ProductPieceWeightUpdateManyMutationInput, Prisma.ProductPieceWeightUncheckedUpdateManyWithoutProductInput>
+}
+
+export type ProductPieceWeightScalarWhereInput = {
+  AND?: Prisma.ProductPieceWeightScalarWhereInput | Prisma.ProductPieceWeightScalarWhereInput[]
+  OR?: Prisma.ProductPieceWeightScalarWhereInput[]
+  NOT?: Prisma.ProductPieceWeightScalarWhereInput | Prisma.ProductPieceWeightScalarWhereInput[]
+  id?: Prisma.StringFilter<"ProductPieceWeight"> | string
+  userId?: Prisma.StringFilter<"ProductPieceWeight"> | string
+  productId?: Prisma.StringFilter<"ProductPieceWeight"> | string
+  pieceWeight?: Prisma.FloatFilter<"ProductPieceWeight"> | number
+  createdAt?: Prisma.DateTimeFilter<"ProductPieceWeight"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProductPieceWeight"> | Date | string
+}
+
+export type ProductPieceWeightCreateWithoutUserInput = {
+  id: string
+  pieceWeight: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Product: Prisma.ProductCreateNestedOneWithoutProductPieceWeightInput
+}
+
+export type ProductPieceWeightUncheckedCreateWithoutUserInput = {
+  id: string
+  productId: string
+  pieceWeight: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductPieceWeightCreateOrConnectWithoutUserInput = {
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutUserInput, Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput>
+}
+
+export type ProductPieceWeightCreateManyUserInputEnvelope = {
+  data: Prisma.ProductPieceWeightCreateManyUserInput | Prisma.ProductPieceWeightCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProductPieceWeightUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProductPieceWeightUpdateWithoutUserInput, Prisma.ProductPieceWeightUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ProductPieceWeightCreateWithoutUserInput, Prisma.ProductPieceWeightUncheckedCreateWithoutUserInput>
+}
+
+export type ProductPieceWeightUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProductPieceWeightUpdateWithoutUserInput, Prisma.ProductPieceWeightUncheckedUpdateWithoutUserInput>
+}
+
+export type ProductPieceWeightUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ProductPieceWeightScalarWhereInput
+  data: Prisma.XOR<Prisma.ProductPieceWeightUpdateManyMutationInput, Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ProductPieceWeightCreateManyProductInput = {
+  id: string
+  userId: string
+  pieceWeight: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductPieceWeightUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutProductPieceWeightNestedInput
+}
+
+export type ProductPieceWeightUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPieceWeightUncheckedUpdateManyWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPieceWeightCreateManyUserInput = {
+  id: string
+  productId: string
+  pieceWeight: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductPieceWeightUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneRequiredWithoutProductPieceWeightNestedInput
+}
+
+export type ProductPieceWeightUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPieceWeightUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  pieceWeight?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ProductPieceWeightSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  pieceWeight?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["productPieceWeight"]>
+
+export type ProductPieceWeightSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  pieceWeight?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["productPieceWeight"]>
+
+export type ProductPieceWeightSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  pieceWeight?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["productPieceWeight"]>
+
+export type ProductPieceWeightSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  pieceWeight?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ProductPieceWeightOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "productId" | "pieceWeight" | "createdAt" | "updatedAt", ExtArgs["result"]["productPieceWeight"]>
+export type ProductPieceWeightInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}
+export type ProductPieceWeightIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}
+export type ProductPieceWeightIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}
+
+export type $ProductPieceWeightPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ProductPieceWeight"
+  objects: {
+    User: Prisma.$UserPayload<ExtArgs>
+    Product: Prisma.$ProductPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    productId: string
+    pieceWeight: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["productPieceWeight"]>
+  composites: {}
+}
+
+export type ProductPieceWeightGetPayload<S extends boolean | null | undefined | ProductPieceWeightDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload, S>
+
+export type ProductPieceWeightCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProductPieceWeightFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProductPieceWeightCountAggregateInputType | true
+  }
+
+export interface ProductPieceWeightDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ProductPieceWeight'], meta: { name: 'ProductPieceWeight' } }
+  /**
+   * Find zero or one ProductPieceWeight that matches the filter.
+   * @param {ProductPieceWeightFindUniqueArgs} args - Arguments to find a ProductPieceWeight
+   * @example
+   * // Get one ProductPieceWeight
+   * const productPieceWeight = await prisma.productPieceWeight.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProductPieceWeightFindUniqueArgs>(args: Prisma.SelectSubset<T, ProductPieceWeightFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProductPieceWeightClient<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ProductPieceWeight that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProductPieceWeightFindUniqueOrThrowArgs} args - Arguments to find a ProductPieceWeight
+   * @example
+   * // Get one ProductPieceWeight
+   * const productPieceWeight = await prisma.productPieceWeight.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProductPieceWeightFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProductPieceWeightFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProductPieceWeightClient<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProductPieceWeight that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPieceWeightFindFirstArgs} args - Arguments to find a ProductPieceWeight
+   * @example
+   * // Get one ProductPieceWeight
+   * const productPieceWeight = await prisma.productPieceWeight.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProductPieceWeightFindFirstArgs>(args?: Prisma.SelectSubset<T, ProductPieceWeightFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProductPieceWeightClient<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProductPieceWeight that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPieceWeightFindFirstOrThrowArgs} args - Arguments to find a ProductPieceWeight
+   * @example
+   * // Get one ProductPieceWeight
+   * const productPieceWeight = await prisma.productPieceWeight.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProductPieceWeightFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProductPieceWeightFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProductPieceWeightClient<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ProductPieceWeights that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPieceWeightFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ProductPieceWeights
+   * const productPieceWeights = await prisma.productPieceWeight.findMany()
+   * 
+   * // Get first 10 ProductPieceWeights
+   * const productPieceWeights = await prisma.productPieceWeight.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const productPieceWeightWithIdOnly = await prisma.productPieceWeight.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProductPieceWeightFindManyArgs>(args?: Prisma.SelectSubset<T, ProductPieceWeightFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ProductPieceWeight.
+   * @param {ProductPieceWeightCreateArgs} args - Arguments to create a ProductPieceWeight.
+   * @example
+   * // Create one ProductPieceWeight
+   * const ProductPieceWeight = await prisma.productPieceWeight.create({
+   *   data: {
+   *     // ... data to create a ProductPieceWeight
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProductPieceWeightCreateArgs>(args: Prisma.SelectSubset<T, ProductPieceWeightCreateArgs<ExtArgs>>): Prisma.Prisma__ProductPieceWeightClient<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ProductPieceWeights.
+   * @param {ProductPieceWeightCreateManyArgs} args - Arguments to create many ProductPieceWeights.
+   * @example
+   * // Create many ProductPieceWeights
+   * const productPieceWeight = await prisma.productPieceWeight.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProductPieceWeightCreateManyArgs>(args?: Prisma.SelectSubset<T, ProductPieceWeightCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ProductPieceWeights and returns the data saved in the database.
+   * @param {ProductPieceWeightCreateManyAndReturnArgs} args - Arguments to create many ProductPieceWeights.
+   * @example
+   * // Create many ProductPieceWeights
+   * const productPieceWeight = await prisma.productPieceWeight.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ProductPieceWeights and only return the `id`
+   * const productPieceWeightWithIdOnly = await prisma.productPieceWeight.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProductPieceWeightCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProductPieceWeightCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ProductPieceWeight.
+   * @param {ProductPieceWeightDeleteArgs} args - Arguments to delete one ProductPieceWeight.
+   * @example
+   * // Delete one ProductPieceWeight
+   * const ProductPieceWeight = await prisma.productPieceWeight.delete({
+   *   where: {
+   *     // ... filter to delete one ProductPieceWeight
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProductPieceWeightDeleteArgs>(args: Prisma.SelectSubset<T, ProductPieceWeightDeleteArgs<ExtArgs>>): Prisma.Prisma__ProductPieceWeightClient<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ProductPieceWeight.
+   * @param {ProductPieceWeightUpdateArgs} args - Arguments to update one ProductPieceWeight.
+   * @example
+   * // Update one ProductPieceWeight
+   * const productPieceWeight = await prisma.productPieceWeight.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProductPieceWeightUpdateArgs>(args: Prisma.SelectSubset<T, ProductPieceWeightUpdateArgs<ExtArgs>>): Prisma.Prisma__ProductPieceWeightClient<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ProductPieceWeights.
+   * @param {ProductPieceWeightDeleteManyArgs} args - Arguments to filter ProductPieceWeights to delete.
+   * @example
+   * // Delete a few ProductPieceWeights
+   * const { count } = await prisma.productPieceWeight.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProductPieceWeightDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProductPieceWeightDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProductPieceWeights.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPieceWeightUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ProductPieceWeights
+   * const productPieceWeight = await prisma.productPieceWeight.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProductPieceWeightUpdateManyArgs>(args: Prisma.SelectSubset<T, ProductPieceWeightUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProductPieceWeights and returns the data updated in the database.
+   * @param {ProductPieceWeightUpdateManyAndReturnArgs} args - Arguments to update many ProductPieceWeights.
+   * @example
+   * // Update many ProductPieceWeights
+   * const productPieceWeight = await prisma.productPieceWeight.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ProductPieceWeights and only return the `id`
+   * const productPieceWeightWithIdOnly = await prisma.productPieceWeight.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProductPieceWeightUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProductPieceWeightUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ProductPieceWeight.
+   * @param {ProductPieceWeightUpsertArgs} args - Arguments to update or create a ProductPieceWeight.
+   * @example
+   * // Update or create a ProductPieceWeight
+   * const productPieceWeight = await prisma.productPieceWeight.upsert({
+   *   create: {
+   *     // ... data to create a ProductPieceWeight
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ProductPieceWeight we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProductPieceWeightUpsertArgs>(args: Prisma.SelectSubset<T, ProductPieceWeightUpsertArgs<ExtArgs>>): Prisma.Prisma__ProductPieceWeightClient<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ProductPieceWeights.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPieceWeightCountArgs} args - Arguments to filter ProductPieceWeights to count.
+   * @example
+   * // Count the number of ProductPieceWeights
+   * const count = await prisma.productPieceWeight.count({
+   *   where: {
+   *     // ... the filter for the ProductPieceWeights we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProductPieceWeightCountArgs>(
+    args?: Prisma.Subset<T, ProductPieceWeightCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProductPieceWeightCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ProductPieceWeight.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPieceWeightAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProductPieceWeightAggregateArgs>(args: Prisma.Subset<T, ProductPieceWeightAggregateArgs>): Prisma.PrismaPromise<GetProductPieceWeightAggregateType<T>>
+
+  /**
+   * Group by ProductPieceWeight.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPieceWeightGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProductPieceWeightGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProductPieceWeightGroupByArgs['orderBy'] }
+      : { orderBy?: ProductPieceWeightGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProductPieceWeightGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProductPieceWeightGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ProductPieceWeight model
+ */
+readonly fields: ProductPieceWeightFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ProductPieceWeight.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProductPieceWeightClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  Product<T extends Prisma.ProductDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProductDefaultArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ProductPieceWeight model
+ */
+export interface ProductPieceWeightFieldRefs {
+  readonly id: Prisma.FieldRef<"ProductPieceWeight", 'String'>
+  readonly userId: Prisma.FieldRef<"ProductPieceWeight", 'String'>
+  readonly productId: Prisma.FieldRef<"ProductPieceWeight", 'String'>
+  readonly pieceWeight: Prisma.FieldRef<"ProductPieceWeight", 'Float'>
+  readonly createdAt: Prisma.FieldRef<"ProductPieceWeight", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ProductPieceWeight", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ProductPieceWeight findUnique
+ */
+export type ProductPieceWeightFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPieceWeight to fetch.
+   */
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+}
+
+/**
+ * ProductPieceWeight findUniqueOrThrow
+ */
+export type ProductPieceWeightFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPieceWeight to fetch.
+   */
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+}
+
+/**
+ * ProductPieceWeight findFirst
+ */
+export type ProductPieceWeightFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPieceWeight to fetch.
+   */
+  where?: Prisma.ProductPieceWeightWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductPieceWeights to fetch.
+   */
+  orderBy?: Prisma.ProductPieceWeightOrderByWithRelationInput | Prisma.ProductPieceWeightOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProductPieceWeights.
+   */
+  cursor?: Prisma.ProductPieceWeightWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductPieceWeights from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductPieceWeights.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProductPieceWeights.
+   */
+  distinct?: Prisma.ProductPieceWeightScalarFieldEnum | Prisma.ProductPieceWeightScalarFieldEnum[]
+}
+
+/**
+ * ProductPieceWeight findFirstOrThrow
+ */
+export type ProductPieceWeightFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPieceWeight to fetch.
+   */
+  where?: Prisma.ProductPieceWeightWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductPieceWeights to fetch.
+   */
+  orderBy?: Prisma.ProductPieceWeightOrderByWithRelationInput | Prisma.ProductPieceWeightOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProductPieceWeights.
+   */
+  cursor?: Prisma.ProductPieceWeightWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductPieceWeights from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductPieceWeights.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProductPieceWeights.
+   */
+  distinct?: Prisma.ProductPieceWeightScalarFieldEnum | Prisma.ProductPieceWeightScalarFieldEnum[]
+}
+
+/**
+ * ProductPieceWeight findMany
+ */
+export type ProductPieceWeightFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPieceWeights to fetch.
+   */
+  where?: Prisma.ProductPieceWeightWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductPieceWeights to fetch.
+   */
+  orderBy?: Prisma.ProductPieceWeightOrderByWithRelationInput | Prisma.ProductPieceWeightOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ProductPieceWeights.
+   */
+  cursor?: Prisma.ProductPieceWeightWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductPieceWeights from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductPieceWeights.
+   */
+  skip?: number
+  distinct?: Prisma.ProductPieceWeightScalarFieldEnum | Prisma.ProductPieceWeightScalarFieldEnum[]
+}
+
+/**
+ * ProductPieceWeight create
+ */
+export type ProductPieceWeightCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ProductPieceWeight.
+   */
+  data: Prisma.XOR<Prisma.ProductPieceWeightCreateInput, Prisma.ProductPieceWeightUncheckedCreateInput>
+}
+
+/**
+ * ProductPieceWeight createMany
+ */
+export type ProductPieceWeightCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ProductPieceWeights.
+   */
+  data: Prisma.ProductPieceWeightCreateManyInput | Prisma.ProductPieceWeightCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ProductPieceWeight createManyAndReturn
+ */
+export type ProductPieceWeightCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * The data used to create many ProductPieceWeights.
+   */
+  data: Prisma.ProductPieceWeightCreateManyInput | Prisma.ProductPieceWeightCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProductPieceWeight update
+ */
+export type ProductPieceWeightUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ProductPieceWeight.
+   */
+  data: Prisma.XOR<Prisma.ProductPieceWeightUpdateInput, Prisma.ProductPieceWeightUncheckedUpdateInput>
+  /**
+   * Choose, which ProductPieceWeight to update.
+   */
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+}
+
+/**
+ * ProductPieceWeight updateMany
+ */
+export type ProductPieceWeightUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ProductPieceWeights.
+   */
+  data: Prisma.XOR<Prisma.ProductPieceWeightUpdateManyMutationInput, Prisma.ProductPieceWeightUncheckedUpdateManyInput>
+  /**
+   * Filter which ProductPieceWeights to update
+   */
+  where?: Prisma.ProductPieceWeightWhereInput
+  /**
+   * Limit how many ProductPieceWeights to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProductPieceWeight updateManyAndReturn
+ */
+export type ProductPieceWeightUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * The data used to update ProductPieceWeights.
+   */
+  data: Prisma.XOR<Prisma.ProductPieceWeightUpdateManyMutationInput, Prisma.ProductPieceWeightUncheckedUpdateManyInput>
+  /**
+   * Filter which ProductPieceWeights to update
+   */
+  where?: Prisma.ProductPieceWeightWhereInput
+  /**
+   * Limit how many ProductPieceWeights to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProductPieceWeight upsert
+ */
+export type ProductPieceWeightUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ProductPieceWeight to update in case it exists.
+   */
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+  /**
+   * In case the ProductPieceWeight found by the `where` argument doesn't exist, create a new ProductPieceWeight with this data.
+   */
+  create: Prisma.XOR<Prisma.ProductPieceWeightCreateInput, Prisma.ProductPieceWeightUncheckedCreateInput>
+  /**
+   * In case the ProductPieceWeight was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProductPieceWeightUpdateInput, Prisma.ProductPieceWeightUncheckedUpdateInput>
+}
+
+/**
+ * ProductPieceWeight delete
+ */
+export type ProductPieceWeightDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  /**
+   * Filter which ProductPieceWeight to delete.
+   */
+  where: Prisma.ProductPieceWeightWhereUniqueInput
+}
+
+/**
+ * ProductPieceWeight deleteMany
+ */
+export type ProductPieceWeightDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProductPieceWeights to delete
+   */
+  where?: Prisma.ProductPieceWeightWhereInput
+  /**
+   * Limit how many ProductPieceWeights to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ProductPieceWeight without action
+ */
+export type ProductPieceWeightDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+}
@@ -0,0 +1,1849 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ProductPriceRecord` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ProductPriceRecord
+ * 
+ */
+export type ProductPriceRecordModel = runtime.Types.Result.DefaultSelection<Prisma.$ProductPriceRecordPayload>
+
+export type AggregateProductPriceRecord = {
+  _count: ProductPriceRecordCountAggregateOutputType | null
+  _avg: ProductPriceRecordAvgAggregateOutputType | null
+  _sum: ProductPriceRecordSumAggregateOutputType | null
+  _min: ProductPriceRecordMinAggregateOutputType | null
+  _max: ProductPriceRecordMaxAggregateOutputType | null
+}
+
+export type ProductPriceRecordAvgAggregateOutputType = {
+  quantity: number | null
+  totalPrice: number | null
+}
+
+export type ProductPriceRecordSumAggregateOutputType = {
+  quantity: number | null
+  totalPrice: number | null
+}
+
+export type ProductPriceRecordMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  source: $Enums.ProductPriceSource | null
+  invoiceItemId: string | null
+  merchantName: string | null
+  quantity: number | null
+  totalPrice: number | null
+  purchasedAt: Date | null
+  createdAt: Date | null
+}
+
+export type ProductPriceRecordMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  source: $Enums.ProductPriceSource | null
+  invoiceItemId: string | null
+  merchantName: string | null
+  quantity: number | null
+  totalPrice: number | null
+  purchasedAt: Date | null
+  createdAt: Date | null
+}
+
+export type ProductPriceRecordCountAggregateOutputType = {
+  id: number
+  userId: number
+  productId: number
+  source: number
+  invoiceItemId: number
+  merchantName: number
+  quantity: number
+  totalPrice: number
+  purchasedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ProductPriceRecordAvgAggregateInputType = {
+  quantity?: true
+  totalPrice?: true
+}
+
+export type ProductPriceRecordSumAggregateInputType = {
+  quantity?: true
+  totalPrice?: true
+}
+
+export type ProductPriceRecordMinAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  source?: true
+  invoiceItemId?: true
+  merchantName?: true
+  quantity?: true
+  totalPrice?: true
+  purchasedAt?: true
+  createdAt?: true
+}
+
+export type ProductPriceRecordMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  source?: true
+  invoiceItemId?: true
+  merchantName?: true
+  quantity?: true
+  totalPrice?: true
+  purchasedAt?: true
+  createdAt?: true
+}
+
+export type ProductPriceRecordCountAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  source?: true
+  invoiceItemId?: true
+  merchantName?: true
+  quantity?: true
+  totalPrice?: true
+  purchasedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ProductPriceRecordAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProductPriceRecord to aggregate.
+   */
+  where?: Prisma.ProductPriceRecordWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductPriceRecords to fetch.
+   */
+  orderBy?: Prisma.ProductPriceRecordOrderByWithRelationInput | Prisma.ProductPriceRecordOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProductPriceRecordWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductPriceRecords from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductPriceRecords.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ProductPriceRecords
+  **/
+  _count?: true | ProductPriceRecordCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ProductPriceRecordAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ProductPriceRecordSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProductPriceRecordMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProductPriceRecordMaxAggregateInputType
+}
+
+export type GetProductPriceRecordAggregateType<T extends ProductPriceRecordAggregateArgs> = {
+      [P in keyof T & keyof AggregateProductPriceRecord]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProductPriceRecord[P]>
+    : Prisma.GetScalarType<T[P], AggregateProductPriceRecord[P]>
+}
+
+
+
+
+export type ProductPriceRecordGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductPriceRecordWhereInput
+  orderBy?: Prisma.ProductPriceRecordOrderByWithAggregationInput | Prisma.ProductPriceRecordOrderByWithAggregationInput[]
+  by: Prisma.ProductPriceRecordScalarFieldEnum[] | Prisma.ProductPriceRecordScalarFieldEnum
+  having?: Prisma.ProductPriceRecordScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProductPriceRecordCountAggregateInputType | true
+  _avg?: ProductPriceRecordAvgAggregateInputType
+  _sum?: ProductPriceRecordSumAggregateInputType
+  _min?: ProductPriceRecordMinAggregateInputType
+  _max?: ProductPriceRecordMaxAggregateInputType
+}
+
+export type ProductPriceRecordGroupByOutputType = {
+  id: string
+  userId: string
+  productId: string
+  source: $Enums.ProductPriceSource
+  invoiceItemId: string | null
+  merchantName: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date
+  createdAt: Date
+  _count: ProductPriceRecordCountAggregateOutputType | null
+  _avg: ProductPriceRecordAvgAggregateOutputType | null
+  _sum: ProductPriceRecordSumAggregateOutputType | null
+  _min: ProductPriceRecordMinAggregateOutputType | null
+  _max: ProductPriceRecordMaxAggregateOutputType | null
+}
+
+type GetProductPriceRecordGroupByPayload<T extends ProductPriceRecordGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProductPriceRecordGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProductPriceRecordGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProductPriceRecordGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProductPriceRecordGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProductPriceRecordWhereInput = {
+  AND?: Prisma.ProductPriceRecordWhereInput | Prisma.ProductPriceRecordWhereInput[]
+  OR?: Prisma.ProductPriceRecordWhereInput[]
+  NOT?: Prisma.ProductPriceRecordWhereInput | Prisma.ProductPriceRecordWhereInput[]
+  id?: Prisma.StringFilter<"ProductPriceRecord"> | string
+  userId?: Prisma.StringFilter<"ProductPriceRecord"> | string
+  productId?: Prisma.StringFilter<"ProductPriceRecord"> | string
+  source?: Prisma.EnumProductPriceSourceFilter<"ProductPriceRecord"> | $Enums.ProductPriceSource
+  invoiceItemId?: Prisma.StringNullableFilter<"ProductPriceRecord"> | string | null
+  merchantName?: Prisma.StringNullableFilter<"ProductPriceRecord"> | string | null
+  quantity?: Prisma.FloatFilter<"ProductPriceRecord"> | number
+  totalPrice?: Prisma.FloatFilter<"ProductPriceRecord"> | number
+  purchasedAt?: Prisma.DateTimeFilter<"ProductPriceRecord"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ProductPriceRecord"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+  InvoiceItem?: Prisma.XOR<Prisma.InvoiceItemNullableScalarRelationFilter, Prisma.InvoiceItemWhereInput> | null
+}
+
+export type ProductPriceRecordOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrderInput | Prisma.SortOrder
+  merchantName?: Prisma.SortOrderInput | Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  totalPrice?: Prisma.SortOrder
+  purchasedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  User?: Prisma.UserOrderByWithRelationInput
+  Product?: Prisma.ProductOrderByWithRelationInput
+  InvoiceItem?: Prisma.InvoiceItemOrderByWithRelationInput
+}
+
+export type ProductPriceRecordWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  invoiceItemId?: string
+  AND?: Prisma.ProductPriceRecordWhereInput | Prisma.ProductPriceRecordWhereInput[]
+  OR?: Prisma.ProductPriceRecordWhereInput[]
+  NOT?: Prisma.ProductPriceRecordWhereInput | Prisma.ProductPriceRecordWhereInput[]
+  userId?: Prisma.StringFilter<"ProductPriceRecord"> | string
+  productId?: Prisma.StringFilter<"ProductPriceRecord"> | string
+  source?: Prisma.EnumProductPriceSourceFilter<"ProductPriceRecord"> | $Enums.ProductPriceSource
+  merchantName?: Prisma.StringNullableFilter<"ProductPriceRecord"> | string | null
+  quantity?: Prisma.FloatFilter<"ProductPriceRecord"> | number
+  totalPrice?: Prisma.FloatFilter<"ProductPriceRecord"> | number
+  purchasedAt?: Prisma.DateTimeFilter<"ProductPriceRecord"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ProductPriceRecord"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+  InvoiceItem?: Prisma.XOR<Prisma.InvoiceItemNullableScalarRelationFilter, Prisma.InvoiceItemWhereInput> | null
+}, "id" | "invoiceItemId">
+
+export type ProductPriceRecordOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrderInput | Prisma.SortOrder
+  merchantName?: Prisma.SortOrderInput | Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  totalPrice?: Prisma.SortOrder
+  purchasedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ProductPriceRecordCountOrderByAggregateInput
+  _avg?: Prisma.ProductPriceRecordAvgOrderByAggregateInput
+  _max?: Prisma.ProductPriceRecordMaxOrderByAggregateInput
+  _min?: Prisma.ProductPriceRecordMinOrderByAggregateInput
+  _sum?: Prisma.ProductPriceRecordSumOrderByAggregateInput
+}
+
+export type ProductPriceRecordScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProductPriceRecordScalarWhereWithAggregatesInput | Prisma.ProductPriceRecordScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProductPriceRecordScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProductPriceRecordScalarWhereWithAggregatesInput | Prisma.ProductPriceRecordScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ProductPriceRecord"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"ProductPriceRecord"> | string
+  productId?: Prisma.StringWithAggregatesFilter<"ProductPriceRecord"> | string
+  source?: Prisma.EnumProductPriceSourceWithAggregatesFilter<"ProductPriceRecord"> | $Enums.ProductPriceSource
+  invoiceItemId?: Prisma.StringNullableWithAggregatesFilter<"ProductPriceRecord"> | string | null
+  merchantName?: Prisma.StringNullableWithAggregatesFilter<"ProductPriceRecord"> | string | null
+  quantity?: Prisma.FloatWithAggregatesFilter<"ProductPriceRecord"> | number
+  totalPrice?: Prisma.FloatWithAggregatesFilter<"ProductPriceRecord"> | number
+  purchasedAt?: Prisma.DateTimeWithAggregatesFilter<"ProductPriceRecord"> | Date | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ProductPriceRecord"> | Date | string
+}
+
+export type ProductPriceRecordCreateInput = {
+  id: string
+  source: $Enums.ProductPriceSource
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+  User: Prisma.UserCreateNestedOneWithoutProductPriceRecordInput
+  Product: Prisma.ProductCreateNestedOneWithoutProductPriceRecordInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedOneWithoutProductPriceRecordInput
+}
+
+export type ProductPriceRecordUncheckedCreateInput = {
+  id: string
+  userId: string
+  productId: string
+  source: $Enums.ProductPriceSource
+  invoiceItemId?: string | null
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+}
+
+export type ProductPriceRecordUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutProductPriceRecordNestedInput
+  Product?: Prisma.ProductUpdateOneRequiredWithoutProductPriceRecordNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateOneWithoutProductPriceRecordNestedInput
+}
+
+export type ProductPriceRecordUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPriceRecordCreateManyInput = {
+  id: string
+  userId: string
+  productId: string
+  source: $Enums.ProductPriceSource
+  invoiceItemId?: string | null
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+}
+
+export type ProductPriceRecordUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPriceRecordUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPriceRecordCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrder
+  merchantName?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  totalPrice?: Prisma.SortOrder
+  purchasedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ProductPriceRecordAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  totalPrice?: Prisma.SortOrder
+}
+
+export type ProductPriceRecordMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrder
+  merchantName?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  totalPrice?: Prisma.SortOrder
+  purchasedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ProductPriceRecordMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  invoiceItemId?: Prisma.SortOrder
+  merchantName?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  totalPrice?: Prisma.SortOrder
+  purchasedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ProductPriceRecordSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+  totalPrice?: Prisma.SortOrder
+}
+
+export type ProductPriceRecordListRelationFilter = {
+  every?: Prisma.ProductPriceRecordWhereInput
+  some?: Prisma.ProductPriceRecordWhereInput
+  none?: Prisma.ProductPriceRecordWhereInput
+}
+
+export type ProductPriceRecordOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ProductPriceRecordNullableScalarRelationFilter = {
+  is?: Prisma.ProductPriceRecordWhereInput | null
+  isNot?: Prisma.ProductPriceRecordWhereInput | null
+}
+
+export type EnumProductPriceSourceFieldUpdateOperationsInput = {
+  set?: $Enums.ProductPriceSource
+}
+
+export type ProductPriceRecordCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutProductInput, Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput> | Prisma.ProductPriceRecordCreateWithoutProductInput[] | Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutProductInput | Prisma.ProductPriceRecordCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ProductPriceRecordCreateManyProductInputEnvelope
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+}
+
+export type ProductPriceRecordUncheckedCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutProductInput, Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput> | Prisma.ProductPriceRecordCreateWithoutProductInput[] | Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutProductInput | Prisma.ProductPriceRecordCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ProductPriceRecordCreateManyProductInputEnvelope
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+}
+
+export type ProductPriceRecordUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutProductInput, Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput> | Prisma.ProductPriceRecordCreateWithoutProductInput[] | Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutProductInput | Prisma.ProductPriceRecordCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ProductPriceRecordUpsertWithWhereUniqueWithoutProductInput | Prisma.ProductPriceRecordUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ProductPriceRecordCreateManyProductInputEnvelope
+  set?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  disconnect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  delete?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  update?: Prisma.ProductPriceRecordUpdateWithWhereUniqueWithoutProductInput | Prisma.ProductPriceRecordUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ProductPriceRecordUpdateManyWithWhereWithoutProductInput | Prisma.ProductPriceRecordUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ProductPriceRecordScalarWhereInput | Prisma.ProductPriceRecordScalarWhereInput[]
+}
+
+export type ProductPriceRecordUncheckedUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutProductInput, Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput> | Prisma.ProductPriceRecordCreateWithoutProductInput[] | Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutProductInput | Prisma.ProductPriceRecordCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ProductPriceRecordUpsertWithWhereUniqueWithoutProductInput | Prisma.ProductPriceRecordUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ProductPriceRecordCreateManyProductInputEnvelope
+  set?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  disconnect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  delete?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  update?: Prisma.ProductPriceRecordUpdateWithWhereUniqueWithoutProductInput | Prisma.ProductPriceRecordUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ProductPriceRecordUpdateManyWithWhereWithoutProductInput | Prisma.ProductPriceRecordUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ProductPriceRecordScalarWhereInput | Prisma.ProductPriceRecordScalarWhereInput[]
+}
+
+export type ProductPriceRecordCreateNestedOneWithoutInvoiceItemInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutInvoiceItemInput, Prisma.ProductPriceRecordUncheckedCreateWithoutInvoiceItemInput>
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutInvoiceItemInput
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput
+}
+
+export type ProductPriceRecordUncheckedCreateNestedOneWithoutInvoiceItemInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutInvoiceItemInput, Prisma.ProductPriceRecordUncheckedCreateWithoutInvoiceItemInput>
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutInvoiceItemInput
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput
+}
+
+export type ProductPriceRecordUpdateOneWithoutInvoiceItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutInvoiceItemInput, Prisma.ProductPriceRecordUncheckedCreateWithoutInvoiceItemInput>
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutInvoiceItemInput
+  upsert?: Prisma.ProductPriceRecordUpsertWithoutInvoiceItemInput
+  disconnect?: Prisma.ProductPriceRecordWhereInput | boolean
+  delete?: Prisma.ProductPriceRecordWhereInput | boolean
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductPriceRecordUpdateToOneWithWhereWithoutInvoiceItemInput, Prisma.ProductPriceRecordUpdateWithoutInvoiceItemInput>, Prisma.ProductPriceRecordUncheckedUpdateWithoutInvoiceItemInput>
+}
+
+export type ProductPriceRecordUncheckedUpdateOneWithoutInvoiceItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutInvoiceItemInput, Prisma.ProductPriceRecordUncheckedCreateWithoutInvoiceItemInput>
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutInvoiceItemInput
+  upsert?: Prisma.ProductPriceRecordUpsertWithoutInvoiceItemInput
+  disconnect?: Prisma.ProductPriceRecordWhereInput | boolean
+  delete?: Prisma.ProductPriceRecordWhereInput | boolean
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProductPriceRecordUpdateToOneWithWhereWithoutInvoiceItemInput, Prisma.ProductPriceRecordUpdateWithoutInvoiceItemInput>, Prisma.ProductPriceRecordUncheckedUpdateWithoutInvoiceItemInput>
+}
+
+export type ProductPriceRecordCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutUserInput, Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput> | Prisma.ProductPriceRecordCreateWithoutUserInput[] | Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutUserInput | Prisma.ProductPriceRecordCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ProductPriceRecordCreateManyUserInputEnvelope
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+}
+
+export type ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutUserInput, Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput> | Prisma.ProductPriceRecordCreateWithoutUserInput[] | Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutUserInput | Prisma.ProductPriceRecordCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ProductPriceRecordCreateManyUserInputEnvelope
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+}
+
+export type ProductPriceRecordUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutUserInput, Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput> | Prisma.ProductPriceRecordCreateWithoutUserInput[] | Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutUserInput | Prisma.ProductPriceRecordCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ProductPriceRecordUpsertWithWhereUniqueWithoutUserInput | Prisma.ProductPriceRecordUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ProductPriceRecordCreateManyUserInputEnvelope
+  set?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  disconnect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  delete?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  update?: Prisma.ProductPriceRecordUpdateWithWhereUniqueWithoutUserInput | Prisma.ProductPriceRecordUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ProductPriceRecordUpdateManyWithWhereWithoutUserInput | Prisma.ProductPriceRecordUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ProductPriceRecordScalarWhereInput | Prisma.ProductPriceRecordScalarWhereInput[]
+}
+
+export type ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutUserInput, Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput> | Prisma.ProductPriceRecordCreateWithoutUserInput[] | Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductPriceRecordCreateOrConnectWithoutUserInput | Prisma.ProductPriceRecordCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ProductPriceRecordUpsertWithWhereUniqueWithoutUserInput | Prisma.ProductPriceRecordUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ProductPriceRecordCreateManyUserInputEnvelope
+  set?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  disconnect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  delete?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  connect?: Prisma.ProductPriceRecordWhereUniqueInput | Prisma.ProductPriceRecordWhereUniqueInput[]
+  update?: Prisma.ProductPriceRecordUpdateWithWhereUniqueWithoutUserInput | Prisma.ProductPriceRecordUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ProductPriceRecordUpdateManyWithWhereWithoutUserInput | Prisma.ProductPriceRecordUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ProductPriceRecordScalarWhereInput | Prisma.ProductPriceRecordScalarWhereInput[]
+}
+
+export type ProductPriceRecordCreateWithoutProductInput = {
+  id: string
+  source: $Enums.ProductPriceSource
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+  User: Prisma.UserCreateNestedOneWithoutProductPriceRecordInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedOneWithoutProductPriceRecordInput
+}
+
+export type ProductPriceRecordUncheckedCreateWithoutProductInput = {
+  id: string
+  userId: string
+  source: $Enums.ProductPriceSource
+  invoiceItemId?: string | null
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+}
+
+export type ProductPriceRecordCreateOrConnectWithoutProductInput = {
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutProductInput, Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput>
+}
+
+export type ProductPriceRecordCreateManyProductInputEnvelope = {
+  data: Prisma.ProductPriceRecordCreateManyProductInput | Prisma.ProductPriceRecordCreateManyProductInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProductPriceRecordUpsertWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProductPriceRecordUpdateWithoutProductInput, Prisma.ProductPriceRecordUncheckedUpdateWithoutProductInput>
+  create: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutProductInput, Prisma.ProductPriceRecordUncheckedCreateWithoutProductInput>
+}
+
+export type ProductPriceRecordUpdateWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProductPriceRecordUpdateWithoutProductInput, Prisma.ProductPriceRecordUncheckedUpdateWithoutProductInput>
+}
+
+export type ProductPriceRecordUpdateManyWithWhereWithoutProductInput = {
+  where: Prisma.ProductPriceRecordScalarWhereInput
+  data: Prisma.XOR<Prisma.ProductPriceRecordUpdateManyMutationInput, Prisma.ProductPriceRecordUncheckedUpdateManyWithoutProductInput>
+}
+
+export type ProductPriceRecordScalarWhereInput = {
+  AND?: Prisma.ProductPriceRecordScalarWhereInput | Prisma.ProductPriceRecordScalarWhereInput[]
+  OR?: Prisma.ProductPriceRecordScalarWhereInput[]
+  NOT?: Prisma.ProductPriceRecordScalarWhereInput | Prisma.ProductPriceRecordScalarWhereInput[]
+  id?: Prisma.StringFilter<"ProductPriceRecord"> | string
+  userId?: Prisma.StringFilter<"ProductPriceRecord"> | string
+  productId?: Prisma.StringFilter<"ProductPriceRecord"> | string
+  source?: Prisma.EnumProductPriceSourceFilter<"ProductPriceRecord"> | $Enums.ProductPriceSource
+  invoiceItemId?: Prisma.StringNullableFilter<"ProductPriceRecord"> | string | null
+  merchantName?: Prisma.StringNullableFilter<"ProductPriceRecord"> | string | null
+  quantity?: Prisma.FloatFilter<"ProductPriceRecord"> | number
+  totalPrice?: Prisma.FloatFilter<"ProductPriceRecord"> | number
+  purchasedAt?: Prisma.DateTimeFilter<"ProductPriceRecord"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ProductPriceRecord"> | Date | string
+}
+
+export type ProductPriceRecordCreateWithoutInvoiceItemInput = {
+  id: string
+  source: $Enums.ProductPriceSource
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+  User: Prisma.UserCreateNestedOneWithoutProductPriceRecordInput
+  Product: Prisma.ProductCreateNestedOneWithoutProductPriceRecordInput
+}
+
+export type ProductPriceRecordUncheckedCreateWithoutInvoiceItemInput = {
+  id: string
+  userId: string
+  productId: string
+  source: $Enums.ProductPriceSource
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+}
+
+export type ProductPriceRecordCreateOrConnectWithoutInvoiceItemInput = {
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutInvoiceItemInput, Prisma.ProductPriceRecordUncheckedCreateWithoutInvoiceItemInput>
+}
+
+export type ProductPriceRecordUpsertWithoutInvoiceItemInput = {
+  update: Prisma.XOR<Prisma.ProductPriceRecordUpdateWithoutInvoiceItemInput, Prisma.ProductPriceRecordUncheckedUpdateWithoutInvoiceItemInput>
+  create: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutInvoiceItemInput, Prisma.ProductPriceRecordUncheckedCreateWithoutInvoiceItemInput>
+  where?: Prisma.ProductPriceRecordWhereInput
+}
+
+export type ProductPriceRecordUpdateToOneWithWhereWithoutInvoiceItemInput = {
+  where?: Prisma.ProductPriceRecordWhereInput
+  data: Prisma.XOR<Prisma.ProductPriceRecordUpdateWithoutInvoiceItemInput, Prisma.ProductPriceRecordUncheckedUpdateWithoutInvoiceItemInput>
+}
+
+export type ProductPriceRecordUpdateWithoutInvoiceItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutProductPriceRecordNestedInput
+  Product?: Prisma.ProductUpdateOneRequiredWithoutProductPriceRecordNestedInput
+}
+
+export type ProductPriceRecordUncheckedUpdateWithoutInvoiceItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPriceRecordCreateWithoutUserInput = {
+  id: string
+  source: $Enums.ProductPriceSource
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+  Product: Prisma.ProductCreateNestedOneWithoutProductPriceRecordInput
+  InvoiceItem?: Prisma.InvoiceItemCreateNestedOneWithoutProductPriceRecordInput
+}
+
+export type ProductPriceRecordUncheckedCreateWithoutUserInput = {
+  id: string
+  productId: string
+  source: $Enums.ProductPriceSource
+  invoiceItemId?: string | null
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+}
+
+export type ProductPriceRecordCreateOrConnectWithoutUserInput = {
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutUserInput, Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput>
+}
+
+export type ProductPriceRecordCreateManyUserInputEnvelope = {
+  data: Prisma.ProductPriceRecordCreateManyUserInput | Prisma.ProductPriceRecordCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProductPriceRecordUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProductPriceRecordUpdateWithoutUserInput, Prisma.ProductPriceRecordUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ProductPriceRecordCreateWithoutUserInput, Prisma.ProductPriceRecordUncheckedCreateWithoutUserInput>
+}
+
+export type ProductPriceRecordUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProductPriceRecordUpdateWithoutUserInput, Prisma.ProductPriceRecordUncheckedUpdateWithoutUserInput>
+}
+
+export type ProductPriceRecordUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ProductPriceRecordScalarWhereInput
+  data: Prisma.XOR<Prisma.ProductPriceRecordUpdateManyMutationInput, Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ProductPriceRecordCreateManyProductInput = {
+  id: string
+  userId: string
+  source: $Enums.ProductPriceSource
+  invoiceItemId?: string | null
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+}
+
+export type ProductPriceRecordUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutProductPriceRecordNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateOneWithoutProductPriceRecordNestedInput
+}
+
+export type ProductPriceRecordUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPriceRecordUncheckedUpdateManyWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPriceRecordCreateManyUserInput = {
+  id: string
+  productId: string
+  source: $Enums.ProductPriceSource
+  invoiceItemId?: string | null
+  merchantName?: string | null
+  quantity: number
+  totalPrice: number
+  purchasedAt: Date | string
+  createdAt?: Date | string
+}
+
+export type ProductPriceRecordUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneRequiredWithoutProductPriceRecordNestedInput
+  InvoiceItem?: Prisma.InvoiceItemUpdateOneWithoutProductPriceRecordNestedInput
+}
+
+export type ProductPriceRecordUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductPriceRecordUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.EnumProductPriceSourceFieldUpdateOperationsInput | $Enums.ProductPriceSource
+  invoiceItemId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  merchantName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  quantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  totalPrice?: Prisma.FloatFieldUpdateOperationsInput | number
+  purchasedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ProductPriceRecordSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  source?: boolean
+  invoiceItemId?: boolean
+  merchantName?: boolean
+  quantity?: boolean
+  totalPrice?: boolean
+  purchasedAt?: boolean
+  createdAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.ProductPriceRecord$InvoiceItemArgs<ExtArgs>
+}, ExtArgs["result"]["productPriceRecord"]>
+
+export type ProductPriceRecordSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  source?: boolean
+  invoiceItemId?: boolean
+  merchantName?: boolean
+  quantity?: boolean
+  totalPrice?: boolean
+  purchasedAt?: boolean
+  createdAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.ProductPriceRecord$InvoiceItemArgs<ExtArgs>
+}, ExtArgs["result"]["productPriceRecord"]>
+
+export type ProductPriceRecordSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  source?: boolean
+  invoiceItemId?: boolean
+  merchantName?: boolean
+  quantity?: boolean
+  totalPrice?: boolean
+  purchasedAt?: boolean
+  createdAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.ProductPriceRecord$InvoiceItemArgs<ExtArgs>
+}, ExtArgs["result"]["productPriceRecord"]>
+
+export type ProductPriceRecordSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  source?: boolean
+  invoiceItemId?: boolean
+  merchantName?: boolean
+  quantity?: boolean
+  totalPrice?: boolean
+  purchasedAt?: boolean
+  createdAt?: boolean
+}
+
+export type ProductPriceRecordOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "productId" | "source" | "invoiceItemId" | "merchantName" | "quantity" | "totalPrice" | "purchasedAt" | "createdAt", ExtArgs["result"]["productPriceRecord"]>
+export type ProductPriceRecordInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.ProductPriceRecord$InvoiceItemArgs<ExtArgs>
+}
+export type ProductPriceRecordIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.ProductPriceRecord$InvoiceItemArgs<ExtArgs>
+}
+export type ProductPriceRecordIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+  InvoiceItem?: boolean | Prisma.ProductPriceRecord$InvoiceItemArgs<ExtArgs>
+}
+
+export type $ProductPriceRecordPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ProductPriceRecord"
+  objects: {
+    User: Prisma.$UserPayload<ExtArgs>
+    Product: Prisma.$ProductPayload<ExtArgs>
+    InvoiceItem: Prisma.$InvoiceItemPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    productId: string
+    source: $Enums.ProductPriceSource
+    invoiceItemId: string | null
+    merchantName: string | null
+    quantity: number
+    totalPrice: number
+    purchasedAt: Date
+    createdAt: Date
+  }, ExtArgs["result"]["productPriceRecord"]>
+  composites: {}
+}
+
+export type ProductPriceRecordGetPayload<S extends boolean | null | undefined | ProductPriceRecordDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload, S>
+
+export type ProductPriceRecordCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProductPriceRecordFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProductPriceRecordCountAggregateInputType | true
+  }
+
+export interface ProductPriceRecordDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ProductPriceRecord'], meta: { name: 'ProductPriceRecord' } }
+  /**
+   * Find zero or one ProductPriceRecord that matches the filter.
+   * @param {ProductPriceRecordFindUniqueArgs} args - Arguments to find a ProductPriceRecord
+   * @example
+   * // Get one ProductPriceRecord
+   * const productPriceRecord = await prisma.productPriceRecord.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProductPriceRecordFindUniqueArgs>(args: Prisma.SelectSubset<T, ProductPriceRecordFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProductPriceRecordClient<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ProductPriceRecord that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProductPriceRecordFindUniqueOrThrowArgs} args - Arguments to find a ProductPriceRecord
+   * @example
+   * // Get one ProductPriceRecord
+   * const productPriceRecord = await prisma.productPriceRecord.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProductPriceRecordFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProductPriceRecordFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProductPriceRecordClient<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProductPriceRecord that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPriceRecordFindFirstArgs} args - Arguments to find a ProductPriceRecord
+   * @example
+   * // Get one ProductPriceRecord
+   * const productPriceRecord = await prisma.productPriceRecord.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProductPriceRecordFindFirstArgs>(args?: Prisma.SelectSubset<T, ProductPriceRecordFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProductPriceRecordClient<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProductPriceRecord that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPriceRecordFindFirstOrThrowArgs} args - Arguments to find a ProductPriceRecord
+   * @example
+   * // Get one ProductPriceRecord
+   * const productPriceRecord = await prisma.productPriceRecord.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProductPriceRecordFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProductPriceRecordFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProductPriceRecordClient<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ProductPriceRecords that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPriceRecordFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ProductPriceRecords
+   * const productPriceRecords = await prisma.productPriceRecord.findMany()
+   * 
+   * // Get first 10 ProductPriceRecords
+   * const productPriceRecords = await prisma.productPriceRecord.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const productPriceRecordWithIdOnly = await prisma.productPriceRecord.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProductPriceRecordFindManyArgs>(args?: Prisma.SelectSubset<T, ProductPriceRecordFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ProductPriceRecord.
+   * @param {ProductPriceRecordCreateArgs} args - Arguments to create a ProductPriceRecord.
+   * @example
+   * // Create one ProductPriceRecord
+   * const ProductPriceRecord = await prisma.productPriceRecord.create({
+   *   data: {
+   *     // ... data to create a ProductPriceRecord
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProductPriceRecordCreateArgs>(args: Prisma.SelectSubset<T, ProductPriceRecordCreateArgs<ExtArgs>>): Prisma.Prisma__ProductPriceRecordClient<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ProductPriceRecords.
+   * @param {ProductPriceRecordCreateManyArgs} args - Arguments to create many ProductPriceRecords.
+   * @example
+   * // Create many ProductPriceRecords
+   * const productPriceRecord = await prisma.productPriceRecord.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProductPriceRecordCreateManyArgs>(args?: Prisma.SelectSubset<T, ProductPriceRecordCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ProductPriceRecords and returns the data saved in the database.
+   * @param {ProductPriceRecordCreateManyAndReturnArgs} args - Arguments to create many ProductPriceRecords.
+   * @example
+   * // Create many ProductPriceRecords
+   * const productPriceRecord = await prisma.productPriceRecord.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ProductPriceRecords and only return the `id`
+   * const productPriceRecordWithIdOnly = await prisma.productPriceRecord.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProductPriceRecordCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProductPriceRecordCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ProductPriceRecord.
+   * @param {ProductPriceRecordDeleteArgs} args - Arguments to delete one ProductPriceRecord.
+   * @example
+   * // Delete one ProductPriceRecord
+   * const ProductPriceRecord = await prisma.productPriceRecord.delete({
+   *   where: {
+   *     // ... filter to delete one ProductPriceRecord
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProductPriceRecordDeleteArgs>(args: Prisma.SelectSubset<T, ProductPriceRecordDeleteArgs<ExtArgs>>): Prisma.Prisma__ProductPriceRecordClient<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ProductPriceRecord.
+   * @param {ProductPriceRecordUpdateArgs} args - Arguments to update one ProductPriceRecord.
+   * @example
+   * // Update one ProductPriceRecord
+   * const productPriceRecord = await prisma.productPriceRecord.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProductPriceRecordUpdateArgs>(args: Prisma.SelectSubset<T, ProductPriceRecordUpdateArgs<ExtArgs>>): Prisma.Prisma__ProductPriceRecordClient<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ProductPriceRecords.
+   * @param {ProductPriceRecordDeleteManyArgs} args - Arguments to filter ProductPriceRecords to delete.
+   * @example
+   * // Delete a few ProductPriceRecords
+   * const { count } = await prisma.productPriceRecord.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProductPriceRecordDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProductPriceRecordDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProductPriceRecords.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPriceRecordUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ProductPriceRecords
+   * const productPriceRecord = await prisma.productPriceRecord.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProductPriceRecordUpdateManyArgs>(args: Prisma.SelectSubset<T, ProductPriceRecordUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProductPriceRecords and returns the data updated in the database.
+   * @param {ProductPriceRecordUpdateManyAndReturnArgs} args - Arguments to update many ProductPriceRecords.
+   * @example
+   * // Update many ProductPriceRecords
+   * const productPriceRecord = await prisma.productPriceRecord.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ProductPriceRecords and only return the `id`
+   * const productPriceRecordWithIdOnly = await prisma.productPriceRecord.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProductPriceRecordUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProductPriceRecordUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ProductPriceRecord.
+   * @param {ProductPriceRecordUpsertArgs} args - Arguments to update or create a ProductPriceRecord.
+   * @example
+   * // Update or create a ProductPriceRecord
+   * const productPriceRecord = await prisma.productPriceRecord.upsert({
+   *   create: {
+   *     // ... data to create a ProductPriceRecord
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ProductPriceRecord we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProductPriceRecordUpsertArgs>(args: Prisma.SelectSubset<T, ProductPriceRecordUpsertArgs<ExtArgs>>): Prisma.Prisma__ProductPriceRecordClient<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ProductPriceRecords.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPriceRecordCountArgs} args - Arguments to filter ProductPriceRecords to count.
+   * @example
+   * // Count the number of ProductPriceRecords
+   * const count = await prisma.productPriceRecord.count({
+   *   where: {
+   *     // ... the filter for the ProductPriceRecords we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProductPriceRecordCountArgs>(
+    args?: Prisma.Subset<T, ProductPriceRecordCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProductPriceRecordCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ProductPriceRecord.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPriceRecordAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProductPriceRecordAggregateArgs>(args: Prisma.Subset<T, ProductPriceRecordAggregateArgs>): Prisma.PrismaPromise<GetProductPriceRecordAggregateType<T>>
+
+  /**
+   * Group by ProductPriceRecord.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductPriceRecordGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProductPriceRecordGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProductPriceRecordGroupByArgs['orderBy'] }
+      : { orderBy?: ProductPriceRecordGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProductPriceRecordGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProductPriceRecordGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ProductPriceRecord model
+ */
+readonly fields: ProductPriceRecordFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ProductPriceRecord.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProductPriceRecordClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  Product<T extends Prisma.ProductDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProductDefaultArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  InvoiceItem<T extends Prisma.ProductPriceRecord$InvoiceItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProductPriceRecord$InvoiceItemArgs<ExtArgs>>): Prisma.Prisma__InvoiceItemClient<runtime.Types.Result.GetResult<Prisma.$InvoiceItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ProductPriceRecord model
+ */
+export interface ProductPriceRecordFieldRefs {
+  readonly id: Prisma.FieldRef<"ProductPriceRecord", 'String'>
+  readonly userId: Prisma.FieldRef<"ProductPriceRecord", 'String'>
+  readonly productId: Prisma.FieldRef<"ProductPriceRecord", 'String'>
+  readonly source: Prisma.FieldRef<"ProductPriceRecord", 'ProductPriceSource'>
+  readonly invoiceItemId: Prisma.FieldRef<"ProductPriceRecord", 'String'>
+  readonly merchantName: Prisma.FieldRef<"ProductPriceRecord", 'String'>
+  readonly quantity: Prisma.FieldRef<"ProductPriceRecord", 'Float'>
+  readonly totalPrice: Prisma.FieldRef<"ProductPriceRecord", 'Float'>
+  readonly purchasedAt: Prisma.FieldRef<"ProductPriceRecord", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ProductPriceRecord", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ProductPriceRecord findUnique
+ */
+export type ProductPriceRecordFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPriceRecord to fetch.
+   */
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+}
+
+/**
+ * ProductPriceRecord findUniqueOrThrow
+ */
+export type ProductPriceRecordFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPriceRecord to fetch.
+   */
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+}
+
+/**
+ * ProductPriceRecord findFirst
+ */
+export type ProductPriceRecordFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPriceRecord to fetch.
+   */
+  where?: Prisma.ProductPriceRecordWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductPriceRecords to fetch.
+   */
+  orderBy?: Prisma.ProductPriceRecordOrderByWithRelationInput | Prisma.ProductPriceRecordOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProductPriceRecords.
+   */
+  cursor?: Prisma.ProductPriceRecordWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductPriceRecords from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductPriceRecords.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProductPriceRecords.
+   */
+  distinct?: Prisma.ProductPriceRecordScalarFieldEnum | Prisma.ProductPriceRecordScalarFieldEnum[]
+}
+
+/**
+ * ProductPriceRecord findFirstOrThrow
+ */
+export type ProductPriceRecordFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPriceRecord to fetch.
+   */
+  where?: Prisma.ProductPriceRecordWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductPriceRecords to fetch.
+   */
+  orderBy?: Prisma.ProductPriceRecordOrderByWithRelationInput | Prisma.ProductPriceRecordOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProductPriceRecords.
+   */
+  cursor?: Prisma.ProductPriceRecordWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductPriceRecords from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductPriceRecords.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProductPriceRecords.
+   */
+  distinct?: Prisma.ProductPriceRecordScalarFieldEnum | Prisma.ProductPriceRecordScalarFieldEnum[]
+}
+
+/**
+ * ProductPriceRecord findMany
+ */
+export type ProductPriceRecordFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductPriceRecords to fetch.
+   */
+  where?: Prisma.ProductPriceRecordWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductPriceRecords to fetch.
+   */
+  orderBy?: Prisma.ProductPriceRecordOrderByWithRelationInput | Prisma.ProductPriceRecordOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ProductPriceRecords.
+   */
+  cursor?: Prisma.ProductPriceRecordWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductPriceRecords from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductPriceRecords.
+   */
+  skip?: number
+  distinct?: Prisma.ProductPriceRecordScalarFieldEnum | Prisma.ProductPriceRecordScalarFieldEnum[]
+}
+
+/**
+ * ProductPriceRecord create
+ */
+export type ProductPriceRecordCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ProductPriceRecord.
+   */
+  data: Prisma.XOR<Prisma.ProductPriceRecordCreateInput, Prisma.ProductPriceRecordUncheckedCreateInput>
+}
+
+/**
+ * ProductPriceRecord createMany
+ */
+export type ProductPriceRecordCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ProductPriceRecords.
+   */
+  data: Prisma.ProductPriceRecordCreateManyInput | Prisma.ProductPriceRecordCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ProductPriceRecord createManyAndReturn
+ */
+export type ProductPriceRecordCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * The data used to create many ProductPriceRecords.
+   */
+  data: Prisma.ProductPriceRecordCreateManyInput | Prisma.ProductPriceRecordCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProductPriceRecord update
+ */
+export type ProductPriceRecordUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ProductPriceRecord.
+   */
+  data: Prisma.XOR<Prisma.ProductPriceRecordUpdateInput, Prisma.ProductPriceRecordUncheckedUpdateInput>
+  /**
+   * Choose, which ProductPriceRecord to update.
+   */
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+}
+
+/**
+ * ProductPriceRecord updateMany
+ */
+export type ProductPriceRecordUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ProductPriceRecords.
+   */
+  data: Prisma.XOR<Prisma.ProductPriceRecordUpdateManyMutationInput, Prisma.ProductPriceRecordUncheckedUpdateManyInput>
+  /**
+   * Filter which ProductPriceRecords to update
+   */
+  where?: Prisma.ProductPriceRecordWhereInput
+  /**
+   * Limit how many ProductPriceRecords to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProductPriceRecord updateManyAndReturn
+ */
+export type ProductPriceRecordUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * The data used to update ProductPriceRecords.
+   */
+  data: Prisma.XOR<Prisma.ProductPriceRecordUpdateManyMutationInput, Prisma.ProductPriceRecordUncheckedUpdateManyInput>
+  /**
+   * Filter which ProductPriceRecords to update
+   */
+  where?: Prisma.ProductPriceRecordWhereInput
+  /**
+   * Limit how many ProductPriceRecords to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProductPriceRecord upsert
+ */
+export type ProductPriceRecordUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ProductPriceRecord to update in case it exists.
+   */
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+  /**
+   * In case the ProductPriceRecord found by the `where` argument doesn't exist, create a new ProductPriceRecord with this data.
+   */
+  create: Prisma.XOR<Prisma.ProductPriceRecordCreateInput, Prisma.ProductPriceRecordUncheckedCreateInput>
+  /**
+   * In case the ProductPriceRecord was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProductPriceRecordUpdateInput, Prisma.ProductPriceRecordUncheckedUpdateInput>
+}
+
+/**
+ * ProductPriceRecord delete
+ */
+export type ProductPriceRecordDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  /**
+   * Filter which ProductPriceRecord to delete.
+   */
+  where: Prisma.ProductPriceRecordWhereUniqueInput
+}
+
+/**
+ * ProductPriceRecord deleteMany
+ */
+export type ProductPriceRecordDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProductPriceRecords to delete
+   */
+  where?: Prisma.ProductPriceRecordWhereInput
+  /**
+   * Limit how many ProductPriceRecords to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ProductPriceRecord.InvoiceItem
+ */
+export type ProductPriceRecord$InvoiceItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItem
+   */
+  select?: Prisma.InvoiceItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItem
+   */
+  omit?: Prisma.InvoiceItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemInclude<ExtArgs> | null
+  where?: Prisma.InvoiceItemWhereInput
+}
+
+/**
+ * ProductPriceRecord without action
+ */
+export type ProductPriceRecordDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+}
@@ -0,0 +1,1551 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ProductStockLevel` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ProductStockLevel
+ * 
+ */
+export type ProductStockLevelModel = runtime.Types.Result.DefaultSelection<Prisma.$ProductStockLevelPayload>
+
+export type AggregateProductStockLevel = {
+  _count: ProductStockLevelCountAggregateOutputType | null
+  _avg: ProductStockLevelAvgAggregateOutputType | null
+  _sum: ProductStockLevelSumAggregateOutputType | null
+  _min: ProductStockLevelMinAggregateOutputType | null
+  _max: ProductStockLevelMaxAggregateOutputType | null
+}
+
+export type ProductStockLevelAvgAggregateOutputType = {
+  minimumQuantity: number | null
+}
+
+export type ProductStockLevelSumAggregateOutputType = {
+  minimumQuantity: number | null
+}
+
+export type ProductStockLevelMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  minimumQuantity: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProductStockLevelMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  minimumQuantity: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProductStockLevelCountAggregateOutputType = {
+  id: number
+  userId: number
+  productId: number
+  minimumQuantity: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ProductStockLevelAvgAggregateInputType = {
+  minimumQuantity?: true
+}
+
+export type ProductStockLevelSumAggregateInputType = {
+  minimumQuantity?: true
+}
+
+export type ProductStockLevelMinAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  minimumQuantity?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProductStockLevelMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  minimumQuantity?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProductStockLevelCountAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  minimumQuantity?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ProductStockLevelAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProductStockLevel to aggregate.
+   */
+  where?: Prisma.ProductStockLevelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductStockLevels to fetch.
+   */
+  orderBy?: Prisma.ProductStockLevelOrderByWithRelationInput | Prisma.ProductStockLevelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProductStockLevelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductStockLevels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductStockLevels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ProductStockLevels
+  **/
+  _count?: true | ProductStockLevelCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ProductStockLevelAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ProductStockLevelSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProductStockLevelMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProductStockLevelMaxAggregateInputType
+}
+
+export type GetProductStockLevelAggregateType<T extends ProductStockLevelAggregateArgs> = {
+      [P in keyof T & keyof AggregateProductStockLevel]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProductStockLevel[P]>
+    : Prisma.GetScalarType<T[P], AggregateProductStockLevel[P]>
+}
+
+
+
+
+export type ProductStockLevelGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductStockLevelWhereInput
+  orderBy?: Prisma.ProductStockLevelOrderByWithAggregationInput | Prisma.ProductStockLevelOrderByWithAggregationInput[]
+  by: Prisma.ProductStockLevelScalarFieldEnum[] | Prisma.ProductStockLevelScalarFieldEnum
+  having?: Prisma.ProductStockLevelScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProductStockLevelCountAggregateInputType | true
+  _avg?: ProductStockLevelAvgAggregateInputType
+  _sum?: ProductStockLevelSumAggregateInputType
+  _min?: ProductStockLevelMinAggregateInputType
+  _max?: ProductStockLevelMaxAggregateInputType
+}
+
+export type ProductStockLevelGroupByOutputType = {
+  id: string
+  userId: string
+  productId: string
+  minimumQuantity: number
+  createdAt: Date
+  updatedAt: Date
+  _count: ProductStockLevelCountAggregateOutputType | null
+  _avg: ProductStockLevelAvgAggregateOutputType | null
+  _sum: ProductStockLevelSumAggregateOutputType | null
+  _min: ProductStockLevelMinAggregateOutputType | null
+  _max: ProductStockLevelMaxAggregateOutputType | null
+}
+
+type GetProductStockLevelGroupByPayload<T extends ProductStockLevelGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProductStockLevelGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProductStockLevelGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProductStockLevelGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProductStockLevelGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProductStockLevelWhereInput = {
+  AND?: Prisma.ProductStockLevelWhereInput | Prisma.ProductStockLevelWhereInput[]
+  OR?: Prisma.ProductStockLevelWhereInput[]
+  NOT?: Prisma.ProductStockLevelWhereInput | Prisma.ProductStockLevelWhereInput[]
+  id?: Prisma.StringFilter<"ProductStockLevel"> | string
+  userId?: Prisma.StringFilter<"ProductStockLevel"> | string
+  productId?: Prisma.StringFilter<"ProductStockLevel"> | string
+  minimumQuantity?: Prisma.FloatFilter<"ProductStockLevel"> | number
+  createdAt?: Prisma.DateTimeFilter<"ProductStockLevel"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProductStockLevel"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+}
+
+export type ProductStockLevelOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  minimumQuantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  User?: Prisma.UserOrderByWithRelationInput
+  Product?: Prisma.ProductOrderByWithRelationInput
+}
+
+export type ProductStockLevelWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId_productId?: Prisma.ProductStockLevelUserIdProductIdCompoundUniqueInput
+  AND?: Prisma.ProductStockLevelWhereInput | Prisma.ProductStockLevelWhereInput[]
+  OR?: Prisma.ProductStockLevelWhereInput[]
+  NOT?: Prisma.ProductStockLevelWhereInput | Prisma.ProductStockLevelWhereInput[]
+  userId?: Prisma.StringFilter<"ProductStockLevel"> | string
+  productId?: Prisma.StringFilter<"ProductStockLevel"> | string
+  minimumQuantity?: Prisma.FloatFilter<"ProductStockLevel"> | number
+  createdAt?: Prisma.DateTimeFilter<"ProductStockLevel"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProductStockLevel"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductScalarRelationFilter, Prisma.ProductWhereInput>
+}, "id" | "userId_productId">
+
+export type ProductStockLevelOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  minimumQuantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ProductStockLevelCountOrderByAggregateInput
+  _avg?: Prisma.ProductStockLevelAvgOrderByAggregateInput
+  _max?: Prisma.ProductStockLevelMaxOrderByAggregateInput
+  _min?: Prisma.ProductStockLevelMinOrderByAggregateInput
+  _sum?: Prisma.ProductStockLevelSumOrderByAggregateInput
+}
+
+export type ProductStockLevelScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProductStockLevelScalarWhereWithAggregatesInput | Prisma.ProductStockLevelScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProductStockLevelScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProductStockLevelScalarWhereWithAggregatesInput | Prisma.ProductStockLevelScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ProductStockLevel"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"ProductStockLevel"> | string
+  productId?: Prisma.StringWithAggregatesFilter<"ProductStockLevel"> | string
+  minimumQuantity?: Prisma.FloatWithAggregatesFilter<"ProductStockLevel"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ProductStockLevel"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ProductStockLevel"> | Date | string
+}
+
+export type ProductStockLevelCreateInput = {
+  id: string
+  minimumQuantity: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutProductStockLevelInput
+  Product: Prisma.ProductCreateNestedOneWithoutProductStockLevelInput
+}
+
+export type ProductStockLevelUncheckedCreateInput = {
+  id: string
+  userId: string
+  productId: string
+  minimumQuantity: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductStockLevelUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutProductStockLevelNestedInput
+  Product?: Prisma.ProductUpdateOneRequiredWithoutProductStockLevelNestedInput
+}
+
+export type ProductStockLevelUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductStockLevelCreateManyInput = {
+  id: string
+  userId: string
+  productId: string
+  minimumQuantity: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductStockLevelUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductStockLevelUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductStockLevelUserIdProductIdCompoundUniqueInput = {
+  userId: string
+  productId: string
+}
+
+export type ProductStockLevelCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  minimumQuantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProductStockLevelAvgOrderByAggregateInput = {
+  minimumQuantity?: Prisma.SortOrder
+}
+
+export type ProductStockLevelMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  minimumQuantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProductStockLevelMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  minimumQuantity?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProductStockLevelSumOrderByAggregateInput = {
+  minimumQuantity?: Prisma.SortOrder
+}
+
+export type ProductStockLevelListRelationFilter = {
+  every?: Prisma.ProductStockLevelWhereInput
+  some?: Prisma.ProductStockLevelWhereInput
+  none?: Prisma.ProductStockLevelWhereInput
+}
+
+export type ProductStockLevelOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ProductStockLevelCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutProductInput, Prisma.ProductStockLevelUncheckedCreateWithoutProductInput> | Prisma.ProductStockLevelCreateWithoutProductInput[] | Prisma.ProductStockLevelUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductStockLevelCreateOrConnectWithoutProductInput | Prisma.ProductStockLevelCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ProductStockLevelCreateManyProductInputEnvelope
+  connect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+}
+
+export type ProductStockLevelUncheckedCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutProductInput, Prisma.ProductStockLevelUncheckedCreateWithoutProductInput> | Prisma.ProductStockLevelCreateWithoutProductInput[] | Prisma.ProductStockLevelUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductStockLevelCreateOrConnectWithoutProductInput | Prisma.ProductStockLevelCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ProductStockLevelCreateManyProductInputEnvelope
+  connect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+}
+
+export type ProductStockLevelUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutProductInput, Prisma.ProductStockLevelUncheckedCreateWithoutProductInput> | Prisma.ProductStockLevelCreateWithoutProductInput[] | Prisma.ProductStockLevelUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductStockLevelCreateOrConnectWithoutProductInput | Prisma.ProductStockLevelCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ProductStockLevelUpsertWithWhereUniqueWithoutProductInput | Prisma.ProductStockLevelUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ProductStockLevelCreateManyProductInputEnvelope
+  set?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  disconnect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  delete?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  connect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  update?: Prisma.ProductStockLevelUpdateWithWhereUniqueWithoutProductInput | Prisma.ProductStockLevelUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ProductStockLevelUpdateManyWithWhereWithoutProductInput | Prisma.ProductStockLevelUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ProductStockLevelScalarWhereInput | Prisma.ProductStockLevelScalarWhereInput[]
+}
+
+export type ProductStockLevelUncheckedUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutProductInput, Prisma.ProductStockLevelUncheckedCreateWithoutProductInput> | Prisma.ProductStockLevelCreateWithoutProductInput[] | Prisma.ProductStockLevelUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ProductStockLevelCreateOrConnectWithoutProductInput | Prisma.ProductStockLevelCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ProductStockLevelUpsertWithWhereUniqueWithoutProductInput | Prisma.ProductStockLevelUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ProductStockLevelCreateManyProductInputEnvelope
+  set?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  disconnect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  delete?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  connect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  update?: Prisma.ProductStockLevelUpdateWithWhereUniqueWithoutProductInput | Prisma.ProductStockLevelUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ProductStockLevelUpdateManyWithWhereWithoutProductInput | Prisma.ProductStockLevelUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ProductStockLevelScalarWhereInput | Prisma.ProductStockLevelScalarWhereInput[]
+}
+
+export type ProductStockLevelCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutUserInput, Prisma.ProductStockLevelUncheckedCreateWithoutUserInput> | Prisma.ProductStockLevelCreateWithoutUserInput[] | Prisma.ProductStockLevelUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductStockLevelCreateOrConnectWithoutUserInput | Prisma.ProductStockLevelCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ProductStockLevelCreateManyUserInputEnvelope
+  connect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+}
+
+export type ProductStockLevelUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutUserInput, Prisma.ProductStockLevelUncheckedCreateWithoutUserInput> | Prisma.ProductStockLevelCreateWithoutUserInput[] | Prisma.ProductStockLevelUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductStockLevelCreateOrConnectWithoutUserInput | Prisma.ProductStockLevelCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ProductStockLevelCreateManyUserInputEnvelope
+  connect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+}
+
+export type ProductStockLevelUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutUserInput, Prisma.ProductStockLevelUncheckedCreateWithoutUserInput> | Prisma.ProductStockLevelCreateWithoutUserInput[] | Prisma.ProductStockLevelUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductStockLevelCreateOrConnectWithoutUserInput | Prisma.ProductStockLevelCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ProductStockLevelUpsertWithWhereUniqueWithoutUserInput | Prisma.ProductStockLevelUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ProductStockLevelCreateManyUserInputEnvelope
+  set?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  disconnect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  delete?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  connect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  update?: Prisma.ProductStockLevelUpdateWithWhereUniqueWithoutUserInput | Prisma.ProductStockLevelUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ProductStockLevelUpdateManyWithWhereWithoutUserInput | Prisma.ProductStockLevelUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ProductStockLevelScalarWhereInput | Prisma.ProductStockLevelScalarWhereInput[]
+}
+
+export type ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutUserInput, Prisma.ProductStockLevelUncheckedCreateWithoutUserInput> | Prisma.ProductStockLevelCreateWithoutUserInput[] | Prisma.ProductStockLevelUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ProductStockLevelCreateOrConnectWithoutUserInput | Prisma.ProductStockLevelCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ProductStockLevelUpsertWithWhereUniqueWithoutUserInput | Prisma.ProductStockLevelUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ProductStockLevelCreateManyUserInputEnvelope
+  set?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  disconnect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  delete?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  connect?: Prisma.ProductStockLevelWhereUniqueInput | Prisma.ProductStockLevelWhereUniqueInput[]
+  update?: Prisma.ProductStockLevelUpdateWithWhereUniqueWithoutUserInput | Prisma.ProductStockLevelUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ProductStockLevelUpdateManyWithWhereWithoutUserInput | Prisma.ProductStockLevelUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ProductStockLevelScalarWhereInput | Prisma.ProductStockLevelScalarWhereInput[]
+}
+
+export type ProductStockLevelCreateWithoutProductInput = {
+  id: string
+  minimumQuantity: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutProductStockLevelInput
+}
+
+export type ProductStockLevelUncheckedCreateWithoutProductInput = {
+  id: string
+  userId: string
+  minimumQuantity: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductStockLevelCreateOrConnectWithoutProductInput = {
+  where: Prisma.ProductStockLevelWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutProductInput, Prisma.ProductStockLevelUncheckedCreateWithoutProductInput>
+}
+
+export type ProductStockLevelCreateManyProductInputEnvelope = {
+  data: Prisma.ProductStockLevelCreateManyProductInput | Prisma.ProductStockLevelCreateManyProductInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProductStockLevelUpsertWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ProductStockLevelWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProductStockLevelUpdateWithoutProductInput, Prisma.ProductStockLevelUncheckedUpdateWithoutProductInput>
+  create: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutProductInput, Prisma.ProductStockLevelUncheckedCreateWithoutProductInput>
+}
+
+export type ProductStockLevelUpdateWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ProductStockLevelWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProductStockLevelUpdateWithoutProductInput, Prisma.ProductStockLevelUncheckedUpdateWithoutProductInput>
+}
+
+export type ProductStockLevelUpdateManyWithWhereWithoutProductInput = {
+  where: Prisma.ProductStockLevelScalarWhereInput
+  data: Prisma.XOR<Prisma.ProductStockLevelUpdateManyMutationInput, Prisma.ProductStockLevelUncheckedUpdateManyWithoutProductInput>
+}
+
+export type ProductStockLevelScalarWhereInput = {
+  AND?: Prisma.ProductStockLevelScalarWhereInput | Prisma.ProductStockLevelScalarWhereInput[]
+  OR?: Prisma.ProductStockLevelScalarWhereInput[]
+  NOT?: Prisma.ProductStockLevelScalarWhereInput | Prisma.ProductStockLevelScalarWhereInput[]
+  id?: Prisma.StringFilter<"ProductStockLevel"> | string
+  userId?: Prisma.StringFilter<"ProductStockLevel"> | string
+  productId?: Prisma.StringFilter<"ProductStockLevel"> | string
+  minimumQuantity?: Prisma.FloatFilter<"ProductStockLevel"> | number
+  createdAt?: Prisma.DateTimeFilter<"ProductStockLevel"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProductStockLevel"> | Date | string
+}
+
+export type ProductStockLevelCreateWithoutUserInput = {
+  id: string
+  minimumQuantity: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Product: Prisma.ProductCreateNestedOneWithoutProductStockLevelInput
+}
+
+export type ProductStockLevelUncheckedCreateWithoutUserInput = {
+  id: string
+  productId: string
+  minimumQuantity: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductStockLevelCreateOrConnectWithoutUserInput = {
+  where: Prisma.ProductStockLevelWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutUserInput, Prisma.ProductStockLevelUncheckedCreateWithoutUserInput>
+}
+
+export type ProductStockLevelCreateManyUserInputEnvelope = {
+  data: Prisma.ProductStockLevelCreateManyUserInput | Prisma.ProductStockLevelCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProductStockLevelUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ProductStockLevelWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProductStockLevelUpdateWithoutUserInput, Prisma.ProductStockLevelUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ProductStockLevelCreateWithoutUserInput, Prisma.ProductStockLevelUncheckedCreateWithoutUserInput>
+}
+
+export type ProductStockLevelUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ProductStockLevelWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProductStockLevelUpdateWithoutUserInput, Prisma.ProductStockLevelUncheckedUpdateWithoutUserInput>
+}
+
+export type ProductStockLevelUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ProductStockLevelScalarWhereInput
+  data: Prisma.XOR<Prisma.ProductStockLevelUpdateManyMutationInput, Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ProductStockLevelCreateManyProductInput = {
+  id: string
+  userId: string
+  minimumQuantity: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductStockLevelUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutProductStockLevelNestedInput
+}
+
+export type ProductStockLevelUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductStockLevelUncheckedUpdateManyWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductStockLevelCreateManyUserInput = {
+  id: string
+  productId: string
+  minimumQuantity: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ProductStockLevelUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneRequiredWithoutProductStockLevelNestedInput
+}
+
+export type ProductStockLevelUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProductStockLevelUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.StringFieldUpdateOperationsInput | string
+  minimumQuantity?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ProductStockLevelSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  minimumQuantity?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["productStockLevel"]>
+
+export type ProductStockLevelSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  minimumQuantity?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["productStockLevel"]>
+
+export type ProductStockLevelSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  minimumQuantity?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["productStockLevel"]>
+
+export type ProductStockLevelSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  minimumQuantity?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ProductStockLevelOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "productId" | "minimumQuantity" | "createdAt" | "updatedAt", ExtArgs["result"]["productStockLevel"]>
+export type ProductStockLevelInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}
+export type ProductStockLevelIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}
+export type ProductStockLevelIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ProductDefaultArgs<ExtArgs>
+}
+
+export type $ProductStockLevelPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ProductStockLevel"
+  objects: {
+    User: Prisma.$UserPayload<ExtArgs>
+    Product: Prisma.$ProductPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    productId: string
+    minimumQuantity: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["productStockLevel"]>
+  composites: {}
+}
+
+export type ProductStockLevelGetPayload<S extends boolean | null | undefined | ProductStockLevelDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload, S>
+
+export type ProductStockLevelCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProductStockLevelFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProductStockLevelCountAggregateInputType | true
+  }
+
+export interface ProductStockLevelDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ProductStockLevel'], meta: { name: 'ProductStockLevel' } }
+  /**
+   * Find zero or one ProductStockLevel that matches the filter.
+   * @param {ProductStockLevelFindUniqueArgs} args - Arguments to find a ProductStockLevel
+   * @example
+   * // Get one ProductStockLevel
+   * const productStockLevel = await prisma.productStockLevel.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProductStockLevelFindUniqueArgs>(args: Prisma.SelectSubset<T, ProductStockLevelFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProductStockLevelClient<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ProductStockLevel that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProductStockLevelFindUniqueOrThrowArgs} args - Arguments to find a ProductStockLevel
+   * @example
+   * // Get one ProductStockLevel
+   * const productStockLevel = await prisma.productStockLevel.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProductStockLevelFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProductStockLevelFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProductStockLevelClient<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProductStockLevel that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductStockLevelFindFirstArgs} args - Arguments to find a ProductStockLevel
+   * @example
+   * // Get one ProductStockLevel
+   * const productStockLevel = await prisma.productStockLevel.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProductStockLevelFindFirstArgs>(args?: Prisma.SelectSubset<T, ProductStockLevelFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProductStockLevelClient<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProductStockLevel that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductStockLevelFindFirstOrThrowArgs} args - Arguments to find a ProductStockLevel
+   * @example
+   * // Get one ProductStockLevel
+   * const productStockLevel = await prisma.productStockLevel.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProductStockLevelFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProductStockLevelFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProductStockLevelClient<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ProductStockLevels that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductStockLevelFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ProductStockLevels
+   * const productStockLevels = await prisma.productStockLevel.findMany()
+   * 
+   * // Get first 10 ProductStockLevels
+   * const productStockLevels = await prisma.productStockLevel.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const productStockLevelWithIdOnly = await prisma.productStockLevel.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProductStockLevelFindManyArgs>(args?: Prisma.SelectSubset<T, ProductStockLevelFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ProductStockLevel.
+   * @param {ProductStockLevelCreateArgs} args - Arguments to create a ProductStockLevel.
+   * @example
+   * // Create one ProductStockLevel
+   * const ProductStockLevel = await prisma.productStockLevel.create({
+   *   data: {
+   *     // ... data to create a ProductStockLevel
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProductStockLevelCreateArgs>(args: Prisma.SelectSubset<T, ProductStockLevelCreateArgs<ExtArgs>>): Prisma.Prisma__ProductStockLevelClient<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ProductStockLevels.
+   * @param {ProductStockLevelCreateManyArgs} args - Arguments to create many ProductStockLevels.
+   * @example
+   * // Create many ProductStockLevels
+   * const productStockLevel = await prisma.productStockLevel.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProductStockLevelCreateManyArgs>(args?: Prisma.SelectSubset<T, ProductStockLevelCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ProductStockLevels and returns the data saved in the database.
+   * @param {ProductStockLevelCreateManyAndReturnArgs} args - Arguments to create many ProductStockLevels.
+   * @example
+   * // Create many ProductStockLevels
+   * const productStockLevel = await prisma.productStockLevel.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ProductStockLevels and only return the `id`
+   * const productStockLevelWithIdOnly = await prisma.productStockLevel.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProductStockLevelCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProductStockLevelCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ProductStockLevel.
+   * @param {ProductStockLevelDeleteArgs} args - Arguments to delete one ProductStockLevel.
+   * @example
+   * // Delete one ProductStockLevel
+   * const ProductStockLevel = await prisma.productStockLevel.delete({
+   *   where: {
+   *     // ... filter to delete one ProductStockLevel
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProductStockLevelDeleteArgs>(args: Prisma.SelectSubset<T, ProductStockLevelDeleteArgs<ExtArgs>>): Prisma.Prisma__ProductStockLevelClient<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ProductStockLevel.
+   * @param {ProductStockLevelUpdateArgs} args - Arguments to update one ProductStockLevel.
+   * @example
+   * // Update one ProductStockLevel
+   * const productStockLevel = await prisma.productStockLevel.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProductStockLevelUpdateArgs>(args: Prisma.SelectSubset<T, ProductStockLevelUpdateArgs<ExtArgs>>): Prisma.Prisma__ProductStockLevelClient<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ProductStockLevels.
+   * @param {ProductStockLevelDeleteManyArgs} args - Arguments to filter ProductStockLevels to delete.
+   * @example
+   * // Delete a few ProductStockLevels
+   * const { count } = await prisma.productStockLevel.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProductStockLevelDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProductStockLevelDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProductStockLevels.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductStockLevelUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ProductStockLevels
+   * const productStockLevel = await prisma.productStockLevel.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProductStockLevelUpdateManyArgs>(args: Prisma.SelectSubset<T, ProductStockLevelUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProductStockLevels and returns the data updated in the database.
+   * @param {ProductStockLevelUpdateManyAndReturnArgs} args - Arguments to update many ProductStockLevels.
+   * @example
+   * // Update many ProductStockLevels
+   * const productStockLevel = await prisma.productStockLevel.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ProductStockLevels and only return the `id`
+   * const productStockLevelWithIdOnly = await prisma.productStockLevel.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProductStockLevelUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProductStockLevelUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ProductStockLevel.
+   * @param {ProductStockLevelUpsertArgs} args - Arguments to update or create a ProductStockLevel.
+   * @example
+   * // Update or create a ProductStockLevel
+   * const productStockLevel = await prisma.productStockLevel.upsert({
+   *   create: {
+   *     // ... data to create a ProductStockLevel
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ProductStockLevel we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProductStockLevelUpsertArgs>(args: Prisma.SelectSubset<T, ProductStockLevelUpsertArgs<ExtArgs>>): Prisma.Prisma__ProductStockLevelClient<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ProductStockLevels.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductStockLevelCountArgs} args - Arguments to filter ProductStockLevels to count.
+   * @example
+   * // Count the number of ProductStockLevels
+   * const count = await prisma.productStockLevel.count({
+   *   where: {
+   *     // ... the filter for the ProductStockLevels we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProductStockLevelCountArgs>(
+    args?: Prisma.Subset<T, ProductStockLevelCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProductStockLevelCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ProductStockLevel.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductStockLevelAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProductStockLevelAggregateArgs>(args: Prisma.Subset<T, ProductStockLevelAggregateArgs>): Prisma.PrismaPromise<GetProductStockLevelAggregateType<T>>
+
+  /**
+   * Group by ProductStockLevel.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProductStockLevelGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProductStockLevelGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProductStockLevelGroupByArgs['orderBy'] }
+      : { orderBy?: ProductStockLevelGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProductStockLevelGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProductStockLevelGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ProductStockLevel model
+ */
+readonly fields: ProductStockLevelFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ProductStockLevel.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProductStockLevelClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  Product<T extends Prisma.ProductDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProductDefaultArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ProductStockLevel model
+ */
+export interface ProductStockLevelFieldRefs {
+  readonly id: Prisma.FieldRef<"ProductStockLevel", 'String'>
+  readonly userId: Prisma.FieldRef<"ProductStockLevel", 'String'>
+  readonly productId: Prisma.FieldRef<"ProductStockLevel", 'String'>
+  readonly minimumQuantity: Prisma.FieldRef<"ProductStockLevel", 'Float'>
+  readonly createdAt: Prisma.FieldRef<"ProductStockLevel", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ProductStockLevel", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ProductStockLevel findUnique
+ */
+export type ProductStockLevelFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductStockLevel to fetch.
+   */
+  where: Prisma.ProductStockLevelWhereUniqueInput
+}
+
+/**
+ * ProductStockLevel findUniqueOrThrow
+ */
+export type ProductStockLevelFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductStockLevel to fetch.
+   */
+  where: Prisma.ProductStockLevelWhereUniqueInput
+}
+
+/**
+ * ProductStockLevel findFirst
+ */
+export type ProductStockLevelFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductStockLevel to fetch.
+   */
+  where?: Prisma.ProductStockLevelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductStockLevels to fetch.
+   */
+  orderBy?: Prisma.ProductStockLevelOrderByWithRelationInput | Prisma.ProductStockLevelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProductStockLevels.
+   */
+  cursor?: Prisma.ProductStockLevelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductStockLevels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductStockLevels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProductStockLevels.
+   */
+  distinct?: Prisma.ProductStockLevelScalarFieldEnum | Prisma.ProductStockLevelScalarFieldEnum[]
+}
+
+/**
+ * ProductStockLevel findFirstOrThrow
+ */
+export type ProductStockLevelFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductStockLevel to fetch.
+   */
+  where?: Prisma.ProductStockLevelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductStockLevels to fetch.
+   */
+  orderBy?: Prisma.ProductStockLevelOrderByWithRelationInput | Prisma.ProductStockLevelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProductStockLevels.
+   */
+  cursor?: Prisma.ProductStockLevelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductStockLevels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductStockLevels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProductStockLevels.
+   */
+  distinct?: Prisma.ProductStockLevelScalarFieldEnum | Prisma.ProductStockLevelScalarFieldEnum[]
+}
+
+/**
+ * ProductStockLevel findMany
+ */
+export type ProductStockLevelFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  /**
+   * Filter, which ProductStockLevels to fetch.
+   */
+  where?: Prisma.ProductStockLevelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProductStockLevels to fetch.
+   */
+  orderBy?: Prisma.ProductStockLevelOrderByWithRelationInput | Prisma.ProductStockLevelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ProductStockLevels.
+   */
+  cursor?: Prisma.ProductStockLevelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProductStockLevels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProductStockLevels.
+   */
+  skip?: number
+  distinct?: Prisma.ProductStockLevelScalarFieldEnum | Prisma.ProductStockLevelScalarFieldEnum[]
+}
+
+/**
+ * ProductStockLevel create
+ */
+export type ProductStockLevelCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ProductStockLevel.
+   */
+  data: Prisma.XOR<Prisma.ProductStockLevelCreateInput, Prisma.ProductStockLevelUncheckedCreateInput>
+}
+
+/**
+ * ProductStockLevel createMany
+ */
+export type ProductStockLevelCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ProductStockLevels.
+   */
+  data: Prisma.ProductStockLevelCreateManyInput | Prisma.ProductStockLevelCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ProductStockLevel createManyAndReturn
+ */
+export type ProductStockLevelCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * The data used to create many ProductStockLevels.
+   */
+  data: Prisma.ProductStockLevelCreateManyInput | Prisma.ProductStockLevelCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProductStockLevel update
+ */
+export type ProductStockLevelUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ProductStockLevel.
+   */
+  data: Prisma.XOR<Prisma.ProductStockLevelUpdateInput, Prisma.ProductStockLevelUncheckedUpdateInput>
+  /**
+   * Choose, which ProductStockLevel to update.
+   */
+  where: Prisma.ProductStockLevelWhereUniqueInput
+}
+
+/**
+ * ProductStockLevel updateMany
+ */
+export type ProductStockLevelUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ProductStockLevels.
+   */
+  data: Prisma.XOR<Prisma.ProductStockLevelUpdateManyMutationInput, Prisma.ProductStockLevelUncheckedUpdateManyInput>
+  /**
+   * Filter which ProductStockLevels to update
+   */
+  where?: Prisma.ProductStockLevelWhereInput
+  /**
+   * Limit how many ProductStockLevels to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProductStockLevel updateManyAndReturn
+ */
+export type ProductStockLevelUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * The data used to update ProductStockLevels.
+   */
+  data: Prisma.XOR<Prisma.ProductStockLevelUpdateManyMutationInput, Prisma.ProductStockLevelUncheckedUpdateManyInput>
+  /**
+   * Filter which ProductStockLevels to update
+   */
+  where?: Prisma.ProductStockLevelWhereInput
+  /**
+   * Limit how many ProductStockLevels to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProductStockLevel upsert
+ */
+export type ProductStockLevelUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ProductStockLevel to update in case it exists.
+   */
+  where: Prisma.ProductStockLevelWhereUniqueInput
+  /**
+   * In case the ProductStockLevel found by the `where` argument doesn't exist, create a new ProductStockLevel with this data.
+   */
+  create: Prisma.XOR<Prisma.ProductStockLevelCreateInput, Prisma.ProductStockLevelUncheckedCreateInput>
+  /**
+   * In case the ProductStockLevel was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProductStockLevelUpdateInput, Prisma.ProductStockLevelUncheckedUpdateInput>
+}
+
+/**
+ * ProductStockLevel delete
+ */
+export type ProductStockLevelDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  /**
+   * Filter which ProductStockLevel to delete.
+   */
+  where: Prisma.ProductStockLevelWhereUniqueInput
+}
+
+/**
+ * ProductStockLevel deleteMany
+ */
+export type ProductStockLevelDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProductStockLevels to delete
+   */
+  where?: Prisma.ProductStockLevelWhereInput
+  /**
+   * Limit how many ProductStockLevels to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ProductStockLevel without action
+ */
+export type ProductStockLevelDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+}
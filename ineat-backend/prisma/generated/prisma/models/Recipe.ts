@@ -325,6 +325,9 @@ export type RecipeWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"Recipe"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Recipe"> | Date | string
   RecipeIngredient?: Prisma.RecipeIngredientListRelationFilter
+  InventoryItem?: Prisma.InventoryItemListRelationFilter
+  InventoryMovement?: Prisma.InventoryMovementListRelationFilter
+  ShoppingListItem?: Prisma.ShoppingListItemListRelationFilter
   User?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
 }
 
@@ -349,6 +352,9 @@ export type RecipeOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   RecipeIngredient?: Prisma.RecipeIngredientOrderByRelationAggregateInput
+  InventoryItem?: Prisma.InventoryItemOrderByRelationAggregateInput
+  InventoryMovement?: Prisma.InventoryMovementOrderByRelationAggregateInput
+  ShoppingListItem?: Prisma.ShoppingListItemOrderByRelationAggregateInput
   User?: Prisma.UserOrderByWithRelationInput
 }
 
@@ -376,6 +382,9 @@ export type RecipeWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"Recipe"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Recipe"> | Date | string
   RecipeIngredient?: Prisma.RecipeIngredientListRelationFilter
+  InventoryItem?: Prisma.InventoryItemListRelationFilter
+  InventoryMovement?: Prisma.InventoryMovementListRelationFilter
+  ShoppingListItem?: Prisma.ShoppingListItemListRelationFilter
   User?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
 }, "id">
 
@@ -451,6 +460,9 @@ export type RecipeCreateInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutRecipeInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutRecipeInput
   User?: Prisma.UserCreateNestedOneWithoutRecipeInput
 }
 
@@ -475,6 +487,9 @@ export type RecipeUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutRecipeInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutRecipeInput
 }
 
 export type RecipeUpdateInput = {
@@ -497,6 +512,9 @@ export type RecipeUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutRecipeNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutRecipeNestedInput
   User?: Prisma.UserUpdateOneWithoutRecipeNestedInput
 }
 
@@ -521,6 +539,9 @@ export type RecipeUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutRecipeNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutRecipeNestedInput
 }
 
 export type RecipeCreateManyInput = {
@@ -588,6 +609,11 @@ export type RecipeUncheckedUpdateManyInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
+export type RecipeNullableScalarRelationFilter = {
+  is?: Prisma.RecipeWhereInput | null
+  isNot?: Prisma.RecipeWhereInput | null
+}
+
 export type RecipeCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   userId?: Prisma.SortOrder
@@ -675,6 +701,38 @@ export type RecipeOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type RecipeCreateNestedOneWithoutInventoryItemInput = {
+  create?: Prisma.XOR<Prisma.RecipeCreateWithoutInventoryItemInput, Prisma.RecipeUncheckedCreateWithoutInventoryItemInput>
+  connectOrCreate?: Prisma.RecipeCreateOrConnectWithoutInventoryItemInput
+  connect?: Prisma.RecipeWhereUniqueInput
+}
+
+export type RecipeUpdateOneWithoutInventoryItemNestedInput = {
+  create?: Prisma.XOR<Prisma.RecipeCreateWithoutInventoryItemInput, Prisma.RecipeUncheckedCreateWithoutInventoryItemInput>
+  connectOrCreate?: Prisma.RecipeCreateOrConnectWithoutInventoryItemInput
+  upsert?: Prisma.RecipeUpsertWithoutInventoryItemInput
+  disconnect?: Prisma.RecipeWhereInput | boolean
+  delete?: Prisma.RecipeWhereInput | boolean
+  connect?: Prisma.RecipeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RecipeUpdateToOneWithWhereWithoutInventoryItemInput, Prisma.RecipeUpdateWithoutInventoryItemInput>, Prisma.RecipeUncheckedUpdateWithoutInventoryItemInput>
+}
+
+export type RecipeCreateNestedOneWithoutInventoryMovementInput = {
+  create?: Prisma.XOR<Prisma.RecipeCreateWithoutInventoryMovementInput, Prisma.RecipeUncheckedCreateWithoutInventoryMovementInput>
+  connectOrCreate?: Prisma.RecipeCreateOrConnectWithoutInventoryMovementInput
+  connect?: Prisma.RecipeWhereUniqueInput
+}
+
+export type RecipeUpdateOneWithoutInventoryMovementNestedInput = {
+  create?: Prisma.XOR<Prisma.RecipeCreateWithoutInventoryMovementInput, Prisma.RecipeUncheckedCreateWithoutInventoryMovementInput>
+  connectOrCreate?: Prisma.RecipeCreateOrConnectWithoutInventoryMovementInput
+  upsert?: Prisma.RecipeUpsertWithoutInventoryMovementInput
+  disconnect?: Prisma.RecipeWhereInput | boolean
+  delete?: Prisma.RecipeWhereInput | boolean
+  connect?: Prisma.RecipeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RecipeUpdateToOneWithWhereWithoutInventoryMovementInput, Prisma.RecipeUpdateWithoutInventoryMovementInput>, Prisma.RecipeUncheckedUpdateWithoutInventoryMovementInput>
+}
+
 export type EnumRecipeDifficultyFieldUpdateOperationsInput = {
   set?: $Enums.RecipeDifficulty
 }
@@ -701,6 +759,22 @@ export type RecipeUpdateOneRequiredWithoutRecipeIngredientNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.RecipeUpdateToOneWithWhereWithoutRecipeIngredientInput, Prisma.RecipeUpdateWithoutRecipeIngredientInput>, Prisma.RecipeUncheckedUpdateWithoutRecipeIngredientInput>
 }
 
+export type RecipeCreateNestedOneWithoutShoppingListItemInput = {
+  create?: Prisma.XOR<Prisma.RecipeCreateWithoutShoppingListItemInput, Prisma.RecipeUncheckedCreateWithoutShoppingListItemInput>
+  connectOrCreate?: Prisma.RecipeCreateOrConnectWithoutShoppingListItemInput
+  connect?: Prisma.RecipeWhereUniqueInput
+}
+
+export type RecipeUpdateOneWithoutShoppingListItemNestedInput = {
+  create?: Prisma.XOR<Prisma.RecipeCreateWithoutShoppingListItemInput, Prisma.RecipeUncheckedCreateWithoutShoppingListItemInput>
+  connectOrCreate?: Prisma.RecipeCreateOrConnectWithoutShoppingListItemInput
+  upsert?: Prisma.RecipeUpsertWithoutShoppingListItemInput
+  disconnect?: Prisma.RecipeWhereInput | boolean
+  delete?: Prisma.RecipeWhereInput | boolean
+  connect?: Prisma.RecipeWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.RecipeUpdateToOneWithWhereWithoutShoppingListItemInput, Prisma.RecipeUpdateWithoutShoppingListItemInput>, Prisma.RecipeUncheckedUpdateWithoutShoppingListItemInput>
+}
+
 export type RecipeCreateNestedManyWithoutUserInput = {
   create?: Prisma.XOR<Prisma.RecipeCreateWithoutUserInput, Prisma.RecipeUncheckedCreateWithoutUserInput> | Prisma.RecipeCreateWithoutUserInput[] | Prisma.RecipeUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.RecipeCreateOrConnectWithoutUserInput | Prisma.RecipeCreateOrConnectWithoutUserInput[]
@@ -743,6 +817,238 @@ export type RecipeUncheckedUpdateManyWithoutUserNestedInput = {
   deleteMany?: Prisma.RecipeScalarWhereInput | Prisma.RecipeScalarWhereInput[]
 }
 
+export type RecipeCreateWithoutInventoryItemInput = {
+  id: string
+  name: string
+  description?: string | null
+  instructions: string
+  preparationTime?: number | null
+  cookingTime?: number | null
+  servings: number
+  difficulty: $Enums.RecipeDifficulty
+  imageUrl?: string | null
+  type?: $Enums.RecipeType
+  source?: $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Date | string | null
+  isFavorite?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutRecipeInput
+  User?: Prisma.UserCreateNestedOneWithoutRecipeInput
+}
+
+export type RecipeUncheckedCreateWithoutInventoryItemInput = {
+  id: string
+  userId?: string | null
+  name: string
+  description?: string | null
+  instructions: string
+  preparationTime?: number | null
+  cookingTime?: number | null
+  servings: number
+  difficulty: $Enums.RecipeDifficulty
+  imageUrl?: string | null
+  type?: $Enums.RecipeType
+  source?: $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Date | string | null
+  isFavorite?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutRecipeInput
+}
+
+export type RecipeCreateOrConnectWithoutInventoryItemInput = {
+  where: Prisma.RecipeWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecipeCreateWithoutInventoryItemInput, Prisma.RecipeUncheckedCreateWithoutInventoryItemInput>
+}
+
+export type RecipeUpsertWithoutInventoryItemInput = {
+  update: Prisma.XOR<Prisma.RecipeUpdateWithoutInventoryItemInput, Prisma.RecipeUncheckedUpdateWithoutInventoryItemInput>
+  create: Prisma.XOR<Prisma.RecipeCreateWithoutInventoryItemInput, Prisma.RecipeUncheckedCreateWithoutInventoryItemInput>
+  where?: Prisma.RecipeWhereInput
+}
+
+export type RecipeUpdateToOneWithWhereWithoutInventoryItemInput = {
+  where?: Prisma.RecipeWhereInput
+  data: Prisma.XOR<Prisma.RecipeUpdateWithoutInventoryItemInput, Prisma.RecipeUncheckedUpdateWithoutInventoryItemInput>
+}
+
+export type RecipeUpdateWithoutInventoryItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  preparationTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  cookingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  servings?: Prisma.IntFieldUpdateOperationsInput | number
+  difficulty?: Prisma.EnumRecipeDifficultyFieldUpdateOperationsInput | $Enums.RecipeDifficulty
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumRecipeTypeFieldUpdateOperationsInput | $Enums.RecipeType
+  source?: Prisma.EnumRecipeSourceFieldUpdateOperationsInput | $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isFavorite?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutRecipeNestedInput
+  User?: Prisma.UserUpdateOneWithoutRecipeNestedInput
+}
+
+export type RecipeUncheckedUpdateWithoutInventoryItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  preparationTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  cookingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  servings?: Prisma.IntFieldUpdateOperationsInput | number
+  difficulty?: Prisma.EnumRecipeDifficultyFieldUpdateOperationsInput | $Enums.RecipeDifficulty
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumRecipeTypeFieldUpdateOperationsInput | $Enums.RecipeType
+  source?: Prisma.EnumRecipeSourceFieldUpdateOperationsInput | $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isFavorite?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutRecipeNestedInput
+}
+
+export type RecipeCreateWithoutInventoryMovementInput = {
+  id: string
+  name: string
+  description?: string | null
+  instructions: string
+  preparationTime?: number | null
+  cookingTime?: number | null
+  servings: number
+  difficulty: $Enums.RecipeDifficulty
+  imageUrl?: string | null
+  type?: $Enums.RecipeType
+  source?: $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Date | string | null
+  isFavorite?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutRecipeInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutRecipeInput
+  User?: Prisma.UserCreateNestedOneWithoutRecipeInput
+}
+
+export type RecipeUncheckedCreateWithoutInventoryMovementInput = {
+  id: string
+  userId?: string | null
+  name: string
+  description?: string | null
+  instructions: string
+  preparationTime?: number | null
+  cookingTime?: number | null
+  servings: number
+  difficulty: $Enums.RecipeDifficulty
+  imageUrl?: string | null
+  type?: $Enums.RecipeType
+  source?: $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Date | string | null
+  isFavorite?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutRecipeInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutRecipeInput
+}
+
+export type RecipeCreateOrConnectWithoutInventoryMovementInput = {
+  where: Prisma.RecipeWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecipeCreateWithoutInventoryMovementInput, Prisma.RecipeUncheckedCreateWithoutInventoryMovementInput>
+}
+
+export type RecipeUpsertWithoutInventoryMovementInput = {
+  update: Prisma.XOR<Prisma.RecipeUpdateWithoutInventoryMovementInput, Prisma.RecipeUncheckedUpdateWithoutInventoryMovementInput>
+  create: Prisma.XOR<Prisma.RecipeCreateWithoutInventoryMovementInput, Prisma.RecipeUncheckedCreateWithoutInventoryMovementInput>
+  where?: Prisma.RecipeWhereInput
+}
+
+export type RecipeUpdateToOneWithWhereWithoutInventoryMovementInput = {
+  where?: Prisma.RecipeWhereInput
+  data: Prisma.XOR<Prisma.RecipeUpdateWithoutInventoryMovementInput, Prisma.RecipeUncheckedUpdateWithoutInventoryMovementInput>
+}
+
+export type RecipeUpdateWithoutInventoryMovementInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  preparationTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  cookingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  servings?: Prisma.IntFieldUpdateOperationsInput | number
+  difficulty?: Prisma.EnumRecipeDifficultyFieldUpdateOperationsInput | $Enums.RecipeDifficulty
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumRecipeTypeFieldUpdateOperationsInput | $Enums.RecipeType
+  source?: Prisma.EnumRecipeSourceFieldUpdateOperationsInput | $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isFavorite?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutRecipeNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutRecipeNestedInput
+  User?: Prisma.UserUpdateOneWithoutRecipeNestedInput
+}
+
+export type RecipeUncheckedUpdateWithoutInventoryMovementInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  preparationTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  cookingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  servings?: Prisma.IntFieldUpdateOperationsInput | number
+  difficulty?: Prisma.EnumRecipeDifficultyFieldUpdateOperationsInput | $Enums.RecipeDifficulty
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumRecipeTypeFieldUpdateOperationsInput | $Enums.RecipeType
+  source?: Prisma.EnumRecipeSourceFieldUpdateOperationsInput | $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isFavorite?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutRecipeNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutRecipeNestedInput
+}
+
 export type RecipeCreateWithoutRecipeIngredientInput = {
   id: string
   name: string
@@ -762,6 +1068,9 @@ export type RecipeCreateWithoutRecipeIngredientInput = {
   isFavorite?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutRecipeInput
   User?: Prisma.UserCreateNestedOneWithoutRecipeInput
 }
 
@@ -785,6 +1094,9 @@ export type RecipeUncheckedCreateWithoutRecipeIngredientInput = {
   isFavorite?: boolean
   createdAt?: Date | string
   updatedAt: Date | string
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutRecipeInput
 }
 
 export type RecipeCreateOrConnectWithoutRecipeIngredientInput = {
@@ -822,6 +1134,9 @@ export type RecipeUpdateWithoutRecipeIngredientInput = {
   isFavorite?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutRecipeNestedInput
   User?: Prisma.UserUpdateOneWithoutRecipeNestedInput
 }
 
@@ -845,6 +1160,125 @@ export type RecipeUncheckedUpdateWithoutRecipeIngredientInput = {
   isFavorite?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutRecipeNestedInput
+}
+
+export type RecipeCreateWithoutShoppingListItemInput = {
+  id: string
+  name: string
+  description?: string | null
+  instructions: string
+  preparationTime?: number | null
+  cookingTime?: number | null
+  servings: number
+  difficulty: $Enums.RecipeDifficulty
+  imageUrl?: string | null
+  type?: $Enums.RecipeType
+  source?: $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Date | string | null
+  isFavorite?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutRecipeInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutRecipeInput
+  User?: Prisma.UserCreateNestedOneWithoutRecipeInput
+}
+
+export type RecipeUncheckedCreateWithoutShoppingListItemInput = {
+  id: string
+  userId?: string | null
+  name: string
+  description?: string | null
+  instructions: string
+  preparationTime?: number | null
+  cookingTime?: number | null
+  servings: number
+  difficulty: $Enums.RecipeDifficulty
+  imageUrl?: string | null
+  type?: $Enums.RecipeType
+  source?: $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Date | string | null
+  isFavorite?: boolean
+  createdAt?: Date | string
+  updatedAt: Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutRecipeInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutRecipeInput
+}
+
+export type RecipeCreateOrConnectWithoutShoppingListItemInput = {
+  where: Prisma.RecipeWhereUniqueInput
+  create: Prisma.XOR<Prisma.RecipeCreateWithoutShoppingListItemInput, Prisma.RecipeUncheckedCreateWithoutShoppingListItemInput>
+}
+
+export type RecipeUpsertWithoutShoppingListItemInput = {
+  update: Prisma.XOR<Prisma.RecipeUpdateWithoutShoppingListItemInput, Prisma.RecipeUncheckedUpdateWithoutShoppingListItemInput>
+  create: Prisma.XOR<Prisma.RecipeCreateWithoutShoppingListItemInput, Prisma.RecipeUncheckedCreateWithoutShoppingListItemInput>
+  where?: Prisma.RecipeWhereInput
+}
+
+export type RecipeUpdateToOneWithWhereWithoutShoppingListItemInput = {
+  where?: Prisma.RecipeWhereInput
+  data: Prisma.XOR<Prisma.RecipeUpdateWithoutShoppingListItemInput, Prisma.RecipeUncheckedUpdateWithoutShoppingListItemInput>
+}
+
+export type RecipeUpdateWithoutShoppingListItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  preparationTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  cookingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  servings?: Prisma.IntFieldUpdateOperationsInput | number
+  difficulty?: Prisma.EnumRecipeDifficultyFieldUpdateOperationsInput | $Enums.RecipeDifficulty
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumRecipeTypeFieldUpdateOperationsInput | $Enums.RecipeType
+  source?: Prisma.EnumRecipeSourceFieldUpdateOperationsInput | $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isFavorite?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutRecipeNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutRecipeNestedInput
+  User?: Prisma.UserUpdateOneWithoutRecipeNestedInput
+}
+
+export type RecipeUncheckedUpdateWithoutShoppingListItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.StringFieldUpdateOperationsInput | string
+  preparationTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  cookingTime?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  servings?: Prisma.IntFieldUpdateOperationsInput | number
+  difficulty?: Prisma.EnumRecipeDifficultyFieldUpdateOperationsInput | $Enums.RecipeDifficulty
+  imageUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumRecipeTypeFieldUpdateOperationsInput | $Enums.RecipeType
+  source?: Prisma.EnumRecipeSourceFieldUpdateOperationsInput | $Enums.RecipeSource
+  basicIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  missingIngredients?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  steps?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  doneAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isFavorite?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutRecipeNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutRecipeNestedInput
 }
 
 export type RecipeCreateWithoutUserInput = {
@@ -867,6 +1301,9 @@ export type RecipeCreateWithoutUserInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   RecipeIngredient?: Prisma.RecipeIngredientCreateNestedManyWithoutRecipeInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutRecipeInput
 }
 
 export type RecipeUncheckedCreateWithoutUserInput = {
@@ -889,6 +1326,9 @@ export type RecipeUncheckedCreateWithoutUserInput = {
   createdAt?: Date | string
   updatedAt: Date | string
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedCreateNestedManyWithoutRecipeInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutRecipeInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutRecipeInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutRecipeInput
 }
 
 export type RecipeCreateOrConnectWithoutUserInput = {
@@ -983,6 +1423,9 @@ export type RecipeUpdateWithoutUserInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   RecipeIngredient?: Prisma.RecipeIngredientUpdateManyWithoutRecipeNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutRecipeNestedInput
 }
 
 export type RecipeUncheckedUpdateWithoutUserInput = {
@@ -1005,6 +1448,9 @@ export type RecipeUncheckedUpdateWithoutUserInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   RecipeIngredient?: Prisma.RecipeIngredientUncheckedUpdateManyWithoutRecipeNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutRecipeNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutRecipeNestedInput
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutRecipeNestedInput
 }
 
 export type RecipeUncheckedUpdateManyWithoutUserInput = {
@@ -1035,10 +1481,16 @@ export type RecipeUncheckedUpdateManyWithoutUserInput = {
 
 export type RecipeCountOutputType = {
   RecipeIngredient: number
+  InventoryItem: number
+  InventoryMovement: number
+  ShoppingListItem: number
 }
 
 export type RecipeCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   RecipeIngredient?: boolean | RecipeCountOutputTypeCountRecipeIngredientArgs
+  InventoryItem?: boolean | RecipeCountOutputTypeCountInventoryItemArgs
+  InventoryMovement?: boolean | RecipeCountOutputTypeCountInventoryMovementArgs
+  ShoppingListItem?: boolean | RecipeCountOutputTypeCountShoppingListItemArgs
 }
 
 /**
@@ -1058,6 +1510,27 @@ export type RecipeCountOutputTypeCountRecipeIngredientArgs<ExtArgs extends runti
   where?: Prisma.RecipeIngredientWhereInput
 }
 
+/**
+ * RecipeCountOutputType without action
+ */
+export type RecipeCountOutputTypeCountInventoryItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryItemWhereInput
+}
+
+/**
+ * RecipeCountOutputType without action
+ */
+export type RecipeCountOutputTypeCountInventoryMovementArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryMovementWhereInput
+}
+
+/**
+ * RecipeCountOutputType without action
+ */
+export type RecipeCountOutputTypeCountShoppingListItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShoppingListItemWhereInput
+}
+
 
 export type RecipeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1080,6 +1553,9 @@ export type RecipeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   createdAt?: boolean
   updatedAt?: boolean
   RecipeIngredient?: boolean | Prisma.Recipe$RecipeIngredientArgs<ExtArgs>
+  InventoryItem?: boolean | Prisma.Recipe$InventoryItemArgs<ExtArgs>
+  InventoryMovement?: boolean | Prisma.Recipe$InventoryMovementArgs<ExtArgs>
+  ShoppingListItem?: boolean | Prisma.Recipe$ShoppingListItemArgs<ExtArgs>
   User?: boolean | Prisma.Recipe$UserArgs<ExtArgs>
   _count?: boolean | Prisma.RecipeCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["recipe"]>
@@ -1155,6 +1631,9 @@ export type RecipeSelectScalar = {
 export type RecipeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "name" | "description" | "instructions" | "preparationTime" | "cookingTime" | "servings" | "difficulty" | "imageUrl" | "type" | "source" | "basicIngredients" | "missingIngredients" | "steps" | "doneAt" | "isFavorite" | "createdAt" | "updatedAt", ExtArgs["result"]["recipe"]>
 export type RecipeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   RecipeIngredient?: boolean | Prisma.Recipe$RecipeIngredientArgs<ExtArgs>
+  InventoryItem?: boolean | Prisma.Recipe$InventoryItemArgs<ExtArgs>
+  InventoryMovement?: boolean | Prisma.Recipe$InventoryMovementArgs<ExtArgs>
+  ShoppingListItem?: boolean | Prisma.Recipe$ShoppingListItemArgs<ExtArgs>
   User?: boolean | Prisma.Recipe$UserArgs<ExtArgs>
   _count?: boolean | Prisma.RecipeCountOutputTypeDefaultArgs<ExtArgs>
 }
@@ -1169,6 +1648,9 @@ export type $RecipePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
   name: "Recipe"
   objects: {
     RecipeIngredient: Prisma.$RecipeIngredientPayload<ExtArgs>[]
+    InventoryItem: Prisma.$InventoryItemPayload<ExtArgs>[]
+    InventoryMovement: Prisma.$InventoryMovementPayload<ExtArgs>[]
+    ShoppingListItem: Prisma.$ShoppingListItemPayload<ExtArgs>[]
     User: Prisma.$UserPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
@@ -1586,6 +2068,9 @@ readonly fields: RecipeFieldRefs;
 export interface Prisma__RecipeClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   RecipeIngredient<T extends Prisma.Recipe$RecipeIngredientArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Recipe$RecipeIngredientArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecipeIngredientPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  InventoryItem<T extends Prisma.Recipe$InventoryItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Recipe$InventoryItemArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  InventoryMovement<T extends Prisma.Recipe$InventoryMovementArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Recipe$InventoryMovementArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ShoppingListItem<T extends Prisma.Recipe$ShoppingListItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Recipe$ShoppingListItemArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   User<T extends Prisma.Recipe$UserArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Recipe$UserArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
@@ -2054,6 +2539,78 @@ export type Recipe$RecipeIngredientArgs<ExtArgs extends runtime.Types.Extensions
   distinct?: Prisma.RecipeIngredientScalarFieldEnum | Prisma.RecipeIngredientScalarFieldEnum[]
 }
 
+/**
+ * Recipe.InventoryItem
+ */
+export type Recipe$InventoryItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryItem
+   */
+  select?: Prisma.InventoryItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryItem
+   */
+  omit?: Prisma.InventoryItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryItemInclude<ExtArgs> | null
+  where?: Prisma.InventoryItemWhereInput
+  orderBy?: Prisma.InventoryItemOrderByWithRelationInput | Prisma.InventoryItemOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryItemScalarFieldEnum | Prisma.InventoryItemScalarFieldEnum[]
+}
+
+/**
+ * Recipe.InventoryMovement
+ */
+export type Recipe$InventoryMovementArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  where?: Prisma.InventoryMovementWhereInput
+  orderBy?: Prisma.InventoryMovementOrderByWithRelationInput | Prisma.InventoryMovementOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryMovementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryMovementScalarFieldEnum | Prisma.InventoryMovementScalarFieldEnum[]
+}
+
+/**
+ * Recipe.ShoppingListItem
+ */
+export type Recipe$ShoppingListItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  where?: Prisma.ShoppingListItemWhereInput
+  orderBy?: Prisma.ShoppingListItemOrderByWithRelationInput | Prisma.ShoppingListItemOrderByWithRelationInput[]
+  cursor?: Prisma.ShoppingListItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShoppingListItemScalarFieldEnum | Prisma.ShoppingListItemScalarFieldEnum[]
+}
+
 /**
  * Recipe.User
  */
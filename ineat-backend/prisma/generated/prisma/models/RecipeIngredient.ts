@@ -41,6 +41,7 @@ export type RecipeIngredientMinAggregateOutputType = {
   name: string | null
   quantity: number | null
   unit: string | null
+  unitType: $Enums.UnitType | null
   notes: string | null
   source: $Enums.RecipeIngredientSource | null
 }
@@ -52,6 +53,7 @@ export type RecipeIngredientMaxAggregateOutputType = {
   name: string | null
   quantity: number | null
   unit: string | null
+  unitType: $Enums.UnitType | null
   notes: string | null
   source: $Enums.RecipeIngredientSource | null
 }
@@ -63,6 +65,7 @@ export type RecipeIngredientCountAggregateOutputType = {
   name: number
   quantity: number
   unit: number
+  unitType: number
   notes: number
   source: number
   _all: number
@@ -84,6 +87,7 @@ export type RecipeIngredientMinAggregateInputType = {
   name?: true
   quantity?: true
   unit?: true
+  unitType?: true
   notes?: true
   source?: true
 }
@@ -95,6 +99,7 @@ export type RecipeIngredientMaxAggregateInputType = {
   name?: true
   quantity?: true
   unit?: true
+  unitType?: true
   notes?: true
   source?: true
 }
@@ -106,6 +111,7 @@ export type RecipeIngredientCountAggregateInputType = {
   name?: true
   quantity?: true
   unit?: true
+  unitType?: true
   notes?: true
   source?: true
   _all?: true
@@ -204,6 +210,7 @@ export type RecipeIngredientGroupByOutputType = {
   name: string
   quantity: number | null
   unit: string
+  unitType: $Enums.UnitType | null
   notes: string | null
   source: $Enums.RecipeIngredientSource
   _count: RecipeIngredientCountAggregateOutputType | null
@@ -238,6 +245,7 @@ export type RecipeIngredientWhereInput = {
   name?: Prisma.StringFilter<"RecipeIngredient"> | string
   quantity?: Prisma.FloatNullableFilter<"RecipeIngredient"> | number | null
   unit?: Prisma.StringFilter<"RecipeIngredient"> | string
+  unitType?: Prisma.EnumUnitTypeNullableFilter<"RecipeIngredient"> | $Enums.UnitType | null
   notes?: Prisma.StringNullableFilter<"RecipeIngredient"> | string | null
   source?: Prisma.EnumRecipeIngredientSourceFilter<"RecipeIngredient"> | $Enums.RecipeIngredientSource
   Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
@@ -251,6 +259,7 @@ export type RecipeIngredientOrderByWithRelationInput = {
   name?: Prisma.SortOrder
   quantity?: Prisma.SortOrderInput | Prisma.SortOrder
   unit?: Prisma.SortOrder
+  unitType?: Prisma.SortOrderInput | Prisma.SortOrder
   notes?: Prisma.SortOrderInput | Prisma.SortOrder
   source?: Prisma.SortOrder
   Product?: Prisma.ProductOrderByWithRelationInput
@@ -267,6 +276,7 @@ export type RecipeIngredientWhereUniqueInput = Prisma.AtLeast<{
   name?: Prisma.StringFilter<"RecipeIngredient"> | string
   quantity?: Prisma.FloatNullableFilter<"RecipeIngredient"> | number | null
   unit?: Prisma.StringFilter<"RecipeIngredient"> | string
+  unitType?: Prisma.EnumUnitTypeNullableFilter<"RecipeIngredient"> | $Enums.UnitType | null
   notes?: Prisma.StringNullableFilter<"RecipeIngredient"> | string | null
   source?: Prisma.EnumRecipeIngredientSourceFilter<"RecipeIngredient"> | $Enums.RecipeIngredientSource
   Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
@@ -280,6 +290,7 @@ export type RecipeIngredientOrderByWithAggregationInput = {
   name?: Prisma.SortOrder
   quantity?: Prisma.SortOrderInput | Prisma.SortOrder
   unit?: Prisma.SortOrder
+  unitType?: Prisma.SortOrderInput | Prisma.SortOrder
   notes?: Prisma.SortOrderInput | Prisma.SortOrder
   source?: Prisma.SortOrder
   _count?: Prisma.RecipeIngredientCountOrderByAggregateInput
@@ -299,6 +310,7 @@ export type RecipeIngredientScalarWhereWithAggregatesInput = {
   name?: Prisma.StringWithAggregatesFilter<"RecipeIngredient"> | string
   quantity?: Prisma.FloatNullableWithAggregatesFilter<"RecipeIngredient"> | number | null
   unit?: Prisma.StringWithAggregatesFilter<"RecipeIngredient"> | string
+  unitType?: Prisma.EnumUnitTypeNullableWithAggregatesFilter<"RecipeIngredient"> | $Enums.UnitType | null
   notes?: Prisma.StringNullableWithAggregatesFilter<"RecipeIngredient"> | string | null
   source?: Prisma.EnumRecipeIngredientSourceWithAggregatesFilter<"RecipeIngredient"> | $Enums.RecipeIngredientSource
 }
@@ -308,6 +320,7 @@ export type RecipeIngredientCreateInput = {
   name: string
   quantity?: number | null
   unit: string
+  unitType?: $Enums.UnitType | null
   notes?: string | null
   source?: $Enums.RecipeIngredientSource
   Product?: Prisma.ProductCreateNestedOneWithoutRecipeIngredientInput
@@ -321,6 +334,7 @@ export type RecipeIngredientUncheckedCreateInput = {
   name: string
   quantity?: number | null
   unit: string
+  unitType?: $Enums.UnitType | null
   notes?: string | null
   source?: $Enums.RecipeIngredientSource
 }
@@ -330,6 +344,7 @@ export type RecipeIngredientUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
   Product?: Prisma.ProductUpdateOneWithoutRecipeIngredientNestedInput
@@ -343,6 +358,7 @@ export type RecipeIngredientUncheckedUpdateInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
 }
@@ -354,6 +370,7 @@ export type RecipeIngredientCreateManyInput = {
   name: string
   quantity?: number | null
   unit: string
+  unitType?: $Enums.UnitType | null
   notes?: string | null
   source?: $Enums.RecipeIngredientSource
 }
@@ -363,6 +380,7 @@ export type RecipeIngredientUpdateManyMutationInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
 }
@@ -374,6 +392,7 @@ export type RecipeIngredientUncheckedUpdateManyInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
 }
@@ -395,6 +414,7 @@ export type RecipeIngredientCountOrderByAggregateInput = {
   name?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unit?: Prisma.SortOrder
+  unitType?: Prisma.SortOrder
   notes?: Prisma.SortOrder
   source?: Prisma.SortOrder
 }
@@ -410,6 +430,7 @@ export type RecipeIngredientMaxOrderByAggregateInput = {
   name?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unit?: Prisma.SortOrder
+  unitType?: Prisma.SortOrder
   notes?: Prisma.SortOrder
   source?: Prisma.SortOrder
 }
@@ -421,6 +442,7 @@ export type RecipeIngredientMinOrderByAggregateInput = {
   name?: Prisma.SortOrder
   quantity?: Prisma.SortOrder
   unit?: Prisma.SortOrder
+  unitType?: Prisma.SortOrder
   notes?: Prisma.SortOrder
   source?: Prisma.SortOrder
 }
@@ -513,6 +535,10 @@ export type RecipeIngredientUncheckedUpdateManyWithoutRecipeNestedInput = {
   deleteMany?: Prisma.RecipeIngredientScalarWhereInput | Prisma.RecipeIngredientScalarWhereInput[]
 }
 
+export type NullableEnumUnitTypeFieldUpdateOperationsInput = {
+  set?: $Enums.UnitType | null
+}
+
 export type EnumRecipeIngredientSourceFieldUpdateOperationsInput = {
   set?: $Enums.RecipeIngredientSource
 }
@@ -522,6 +548,7 @@ export type RecipeIngredientCreateWithoutProductInput = {
   name: string
   quantity?: number | null
   unit: string
+  unitType?: $Enums.UnitType | null
   notes?: string | null
   source?: $Enums.RecipeIngredientSource
   Recipe: Prisma.RecipeCreateNestedOneWithoutRecipeIngredientInput
@@ -533,6 +560,7 @@ export type RecipeIngredientUncheckedCreateWithoutProductInput = {
   name: string
   quantity?: number | null
   unit: string
+  unitType?: $Enums.UnitType | null
   notes?: string | null
   source?: $Enums.RecipeIngredientSource
 }
@@ -573,6 +601,7 @@ export type RecipeIngredientScalarWhereInput = {
   name?: Prisma.StringFilter<"RecipeIngredient"> | string
   quantity?: Prisma.FloatNullableFilter<"RecipeIngredient"> | number | null
   unit?: Prisma.StringFilter<"RecipeIngredient"> | string
+  unitType?: Prisma.EnumUnitTypeNullableFilter<"RecipeIngredient"> | $Enums.UnitType | null
   notes?: Prisma.StringNullableFilter<"RecipeIngredient"> | string | null
   source?: Prisma.EnumRecipeIngredientSourceFilter<"RecipeIngredient"> | $Enums.RecipeIngredientSource
 }
@@ -582,6 +611,7 @@ export type RecipeIngredientCreateWithoutRecipeInput = {
   name: string
   quantity?: number | null
   unit: string
+  unitType?: $Enums.UnitType | null
   notes?: string | null
   source?: $Enums.RecipeIngredientSource
   Product?: Prisma.ProductCreateNestedOneWithoutRecipeIngredientInput
@@ -593,6 +623,7 @@ export type RecipeIngredientUncheckedCreateWithoutRecipeInput = {
   name: string
   quantity?: number | null
   unit: string
+  unitType?: $Enums.UnitType | null
   notes?: string | null
   source?: $Enums.RecipeIngredientSource
 }
@@ -629,6 +660,7 @@ export type RecipeIngredientCreateManyProductInput = {
   name: string
   quantity?: number | null
   unit: string
+  unitType?: $Enums.UnitType | null
   notes?: string | null
   source?: $Enums.RecipeIngredientSource
 }
@@ -638,6 +670,7 @@ export type RecipeIngredientUpdateWithoutProductInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
   Recipe?: Prisma.RecipeUpdateOneRequiredWithoutRecipeIngredientNestedInput
@@ -649,6 +682,7 @@ export type RecipeIngredientUncheckedUpdateWithoutProductInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
 }
@@ -659,6 +693,7 @@ export type RecipeIngredientUncheckedUpdateManyWithoutProductInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
 }
@@ -669,6 +704,7 @@ export type RecipeIngredientCreateManyRecipeInput = {
   name: string
   quantity?: number | null
   unit: string
+  unitType?: $Enums.UnitType | null
   notes?: string | null
   source?: $Enums.RecipeIngredientSource
 }
@@ -678,6 +714,7 @@ export type RecipeIngredientUpdateWithoutRecipeInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
   Product?: Prisma.ProductUpdateOneWithoutRecipeIngredientNestedInput
@@ -689,6 +726,7 @@ export type RecipeIngredientUncheckedUpdateWithoutRecipeInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
 }
@@ -699,6 +737,7 @@ export type RecipeIngredientUncheckedUpdateManyWithoutRecipeInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   unit?: Prisma.StringFieldUpdateOperationsInput | string
+  unitType?: Prisma.NullableEnumUnitTypeFieldUpdateOperationsInput | $Enums.UnitType | null
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   source?: Prisma.EnumRecipeIngredientSourceFieldUpdateOperationsInput | $Enums.RecipeIngredientSource
 }
@@ -712,6 +751,7 @@ export type RecipeIngredientSelect<ExtArgs extends runtime.Types.Extensions.Inte
   name?: boolean
   quantity?: boolean
   unit?: boolean
+  unitType?: boolean
   notes?: boolean
   source?: boolean
   Product?: boolean | Prisma.RecipeIngredient$ProductArgs<ExtArgs>
@@ -725,6 +765,7 @@ export type RecipeIngredientSelectCreateManyAndReturn<ExtArgs extends runtime.Ty
   name?: boolean
   quantity?: boolean
   unit?: boolean
+  unitType?: boolean
   notes?: boolean
   source?: boolean
   Product?: boolean | Prisma.RecipeIngredient$ProductArgs<ExtArgs>
@@ -738,6 +779,7 @@ export type RecipeIngredientSelectUpdateManyAndReturn<ExtArgs extends runtime.Ty
   name?: boolean
   quantity?: boolean
   unit?: boolean
+  unitType?: boolean
   notes?: boolean
   source?: boolean
   Product?: boolean | Prisma.RecipeIngredient$ProductArgs<ExtArgs>
@@ -751,11 +793,12 @@ export type RecipeIngredientSelectScalar = {
   name?: boolean
   quantity?: boolean
   unit?: boolean
+  unitType?: boolean
   notes?: boolean
   source?: boolean
 }
 
-export type RecipeIngredientOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "recipeId" | "productId" | "name" | "quantity" | "unit" | "notes" | "source", ExtArgs["result"]["recipeIngredient"]>
+export type RecipeIngredientOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "recipeId" | "productId" | "name" | "quantity" | "unit" | "unitType" | "notes" | "source", ExtArgs["result"]["recipeIngredient"]>
 export type RecipeIngredientInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   Product?: boolean | Prisma.RecipeIngredient$ProductArgs<ExtArgs>
   Recipe?: boolean | Prisma.RecipeDefaultArgs<ExtArgs>
@@ -782,6 +825,7 @@ export type $RecipeIngredientPayload<ExtArgs extends runtime.Types.Extensions.In
     name: string
     quantity: number | null
     unit: string
+    unitType: $Enums.UnitType | null
     notes: string | null
     source: $Enums.RecipeIngredientSource
   }, ExtArgs["result"]["recipeIngredient"]>
@@ -1215,6 +1259,7 @@ export interface RecipeIngredientFieldRefs {
   readonly name: Prisma.FieldRef<"RecipeIngredient", 'String'>
   readonly quantity: Prisma.FieldRef<"RecipeIngredient", 'Float'>
   readonly unit: Prisma.FieldRef<"RecipeIngredient", 'String'>
+  readonly unitType: Prisma.FieldRef<"RecipeIngredient", 'UnitType'>
   readonly notes: Prisma.FieldRef<"RecipeIngredient", 'String'>
   readonly source: Prisma.FieldRef<"RecipeIngredient", 'RecipeIngredientSource'>
 }
@@ -0,0 +1,1683 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShelfLifeOverride` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ShelfLifeOverride
+ * 
+ */
+export type ShelfLifeOverrideModel = runtime.Types.Result.DefaultSelection<Prisma.$ShelfLifeOverridePayload>
+
+export type AggregateShelfLifeOverride = {
+  _count: ShelfLifeOverrideCountAggregateOutputType | null
+  _avg: ShelfLifeOverrideAvgAggregateOutputType | null
+  _sum: ShelfLifeOverrideSumAggregateOutputType | null
+  _min: ShelfLifeOverrideMinAggregateOutputType | null
+  _max: ShelfLifeOverrideMaxAggregateOutputType | null
+}
+
+export type ShelfLifeOverrideAvgAggregateOutputType = {
+  defaultDays: number | null
+}
+
+export type ShelfLifeOverrideSumAggregateOutputType = {
+  defaultDays: number | null
+}
+
+export type ShelfLifeOverrideMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  label: string | null
+  defaultDays: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ShelfLifeOverrideMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  productId: string | null
+  label: string | null
+  defaultDays: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ShelfLifeOverrideCountAggregateOutputType = {
+  id: number
+  userId: number
+  productId: number
+  label: number
+  keywords: number
+  daysByStorage: number
+  defaultDays: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ShelfLifeOverrideAvgAggregateInputType = {
+  defaultDays?: true
+}
+
+export type ShelfLifeOverrideSumAggregateInputType = {
+  defaultDays?: true
+}
+
+export type ShelfLifeOverrideMinAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  label?: true
+  defaultDays?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ShelfLifeOverrideMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  label?: true
+  defaultDays?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ShelfLifeOverrideCountAggregateInputType = {
+  id?: true
+  userId?: true
+  productId?: true
+  label?: true
+  keywords?: true
+  daysByStorage?: true
+  defaultDays?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ShelfLifeOverrideAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShelfLifeOverride to aggregate.
+   */
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShelfLifeOverrides to fetch.
+   */
+  orderBy?: Prisma.ShelfLifeOverrideOrderByWithRelationInput | Prisma.ShelfLifeOverrideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShelfLifeOverrideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShelfLifeOverrides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShelfLifeOverrides.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShelfLifeOverrides
+  **/
+  _count?: true | ShelfLifeOverrideCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ShelfLifeOverrideAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ShelfLifeOverrideSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShelfLifeOverrideMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShelfLifeOverrideMaxAggregateInputType
+}
+
+export type GetShelfLifeOverrideAggregateType<T extends ShelfLifeOverrideAggregateArgs> = {
+      [P in keyof T & keyof AggregateShelfLifeOverride]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShelfLifeOverride[P]>
+    : Prisma.GetScalarType<T[P], AggregateShelfLifeOverride[P]>
+}
+
+
+
+
+export type ShelfLifeOverrideGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  orderBy?: Prisma.ShelfLifeOverrideOrderByWithAggregationInput | Prisma.ShelfLifeOverrideOrderByWithAggregationInput[]
+  by: Prisma.ShelfLifeOverrideScalarFieldEnum[] | Prisma.ShelfLifeOverrideScalarFieldEnum
+  having?: Prisma.ShelfLifeOverrideScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShelfLifeOverrideCountAggregateInputType | true
+  _avg?: ShelfLifeOverrideAvgAggregateInputType
+  _sum?: ShelfLifeOverrideSumAggregateInputType
+  _min?: ShelfLifeOverrideMinAggregateInputType
+  _max?: ShelfLifeOverrideMaxAggregateInputType
+}
+
+export type ShelfLifeOverrideGroupByOutputType = {
+  id: string
+  userId: string
+  productId: string | null
+  label: string
+  keywords: runtime.JsonValue
+  daysByStorage: runtime.JsonValue
+  defaultDays: number
+  createdAt: Date
+  updatedAt: Date
+  _count: ShelfLifeOverrideCountAggregateOutputType | null
+  _avg: ShelfLifeOverrideAvgAggregateOutputType | null
+  _sum: ShelfLifeOverrideSumAggregateOutputType | null
+  _min: ShelfLifeOverrideMinAggregateOutputType | null
+  _max: ShelfLifeOverrideMaxAggregateOutputType | null
+}
+
+type GetShelfLifeOverrideGroupByPayload<T extends ShelfLifeOverrideGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShelfLifeOverrideGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShelfLifeOverrideGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShelfLifeOverrideGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShelfLifeOverrideGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShelfLifeOverrideWhereInput = {
+  AND?: Prisma.ShelfLifeOverrideWhereInput | Prisma.ShelfLifeOverrideWhereInput[]
+  OR?: Prisma.ShelfLifeOverrideWhereInput[]
+  NOT?: Prisma.ShelfLifeOverrideWhereInput | Prisma.ShelfLifeOverrideWhereInput[]
+  id?: Prisma.StringFilter<"ShelfLifeOverride"> | string
+  userId?: Prisma.StringFilter<"ShelfLifeOverride"> | string
+  productId?: Prisma.StringNullableFilter<"ShelfLifeOverride"> | string | null
+  label?: Prisma.StringFilter<"ShelfLifeOverride"> | string
+  keywords?: Prisma.JsonFilter<"ShelfLifeOverride">
+  daysByStorage?: Prisma.JsonFilter<"ShelfLifeOverride">
+  defaultDays?: Prisma.IntFilter<"ShelfLifeOverride"> | number
+  createdAt?: Prisma.DateTimeFilter<"ShelfLifeOverride"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ShelfLifeOverride"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
+}
+
+export type ShelfLifeOverrideOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrderInput | Prisma.SortOrder
+  label?: Prisma.SortOrder
+  keywords?: Prisma.SortOrder
+  daysByStorage?: Prisma.SortOrder
+  defaultDays?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  User?: Prisma.UserOrderByWithRelationInput
+  Product?: Prisma.ProductOrderByWithRelationInput
+}
+
+export type ShelfLifeOverrideWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ShelfLifeOverrideWhereInput | Prisma.ShelfLifeOverrideWhereInput[]
+  OR?: Prisma.ShelfLifeOverrideWhereInput[]
+  NOT?: Prisma.ShelfLifeOverrideWhereInput | Prisma.ShelfLifeOverrideWhereInput[]
+  userId?: Prisma.StringFilter<"ShelfLifeOverride"> | string
+  productId?: Prisma.StringNullableFilter<"ShelfLifeOverride"> | string | null
+  label?: Prisma.StringFilter<"ShelfLifeOverride"> | string
+  keywords?: Prisma.JsonFilter<"ShelfLifeOverride">
+  daysByStorage?: Prisma.JsonFilter<"ShelfLifeOverride">
+  defaultDays?: Prisma.IntFilter<"ShelfLifeOverride"> | number
+  createdAt?: Prisma.DateTimeFilter<"ShelfLifeOverride"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ShelfLifeOverride"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
+}, "id">
+
+export type ShelfLifeOverrideOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrderInput | Prisma.SortOrder
+  label?: Prisma.SortOrder
+  keywords?: Prisma.SortOrder
+  daysByStorage?: Prisma.SortOrder
+  defaultDays?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ShelfLifeOverrideCountOrderByAggregateInput
+  _avg?: Prisma.ShelfLifeOverrideAvgOrderByAggregateInput
+  _max?: Prisma.ShelfLifeOverrideMaxOrderByAggregateInput
+  _min?: Prisma.ShelfLifeOverrideMinOrderByAggregateInput
+  _sum?: Prisma.ShelfLifeOverrideSumOrderByAggregateInput
+}
+
+export type ShelfLifeOverrideScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShelfLifeOverrideScalarWhereWithAggregatesInput | Prisma.ShelfLifeOverrideScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShelfLifeOverrideScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShelfLifeOverrideScalarWhereWithAggregatesInput | Prisma.ShelfLifeOverrideScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShelfLifeOverride"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"ShelfLifeOverride"> | string
+  productId?: Prisma.StringNullableWithAggregatesFilter<"ShelfLifeOverride"> | string | null
+  label?: Prisma.StringWithAggregatesFilter<"ShelfLifeOverride"> | string
+  keywords?: Prisma.JsonWithAggregatesFilter<"ShelfLifeOverride">
+  daysByStorage?: Prisma.JsonWithAggregatesFilter<"ShelfLifeOverride">
+  defaultDays?: Prisma.IntWithAggregatesFilter<"ShelfLifeOverride"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ShelfLifeOverride"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ShelfLifeOverride"> | Date | string
+}
+
+export type ShelfLifeOverrideCreateInput = {
+  id: string
+  label: string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutShelfLifeOverrideInput
+  Product?: Prisma.ProductCreateNestedOneWithoutShelfLifeOverrideInput
+}
+
+export type ShelfLifeOverrideUncheckedCreateInput = {
+  id: string
+  userId: string
+  productId?: string | null
+  label: string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShelfLifeOverrideUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutShelfLifeOverrideNestedInput
+  Product?: Prisma.ProductUpdateOneWithoutShelfLifeOverrideNestedInput
+}
+
+export type ShelfLifeOverrideUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShelfLifeOverrideCreateManyInput = {
+  id: string
+  userId: string
+  productId?: string | null
+  label: string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShelfLifeOverrideUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShelfLifeOverrideUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShelfLifeOverrideCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  keywords?: Prisma.SortOrder
+  daysByStorage?: Prisma.SortOrder
+  defaultDays?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShelfLifeOverrideAvgOrderByAggregateInput = {
+  defaultDays?: Prisma.SortOrder
+}
+
+export type ShelfLifeOverrideMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  defaultDays?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShelfLifeOverrideMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  defaultDays?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShelfLifeOverrideSumOrderByAggregateInput = {
+  defaultDays?: Prisma.SortOrder
+}
+
+export type ShelfLifeOverrideListRelationFilter = {
+  every?: Prisma.ShelfLifeOverrideWhereInput
+  some?: Prisma.ShelfLifeOverrideWhereInput
+  none?: Prisma.ShelfLifeOverrideWhereInput
+}
+
+export type ShelfLifeOverrideOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type IntFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+export type ShelfLifeOverrideCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutProductInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput> | Prisma.ShelfLifeOverrideCreateWithoutProductInput[] | Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ShelfLifeOverrideCreateOrConnectWithoutProductInput | Prisma.ShelfLifeOverrideCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ShelfLifeOverrideCreateManyProductInputEnvelope
+  connect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+}
+
+export type ShelfLifeOverrideUncheckedCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutProductInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput> | Prisma.ShelfLifeOverrideCreateWithoutProductInput[] | Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ShelfLifeOverrideCreateOrConnectWithoutProductInput | Prisma.ShelfLifeOverrideCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ShelfLifeOverrideCreateManyProductInputEnvelope
+  connect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+}
+
+export type ShelfLifeOverrideUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutProductInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput> | Prisma.ShelfLifeOverrideCreateWithoutProductInput[] | Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ShelfLifeOverrideCreateOrConnectWithoutProductInput | Prisma.ShelfLifeOverrideCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ShelfLifeOverrideUpsertWithWhereUniqueWithoutProductInput | Prisma.ShelfLifeOverrideUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ShelfLifeOverrideCreateManyProductInputEnvelope
+  set?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  disconnect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  delete?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  connect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  update?: Prisma.ShelfLifeOverrideUpdateWithWhereUniqueWithoutProductInput | Prisma.ShelfLifeOverrideUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ShelfLifeOverrideUpdateManyWithWhereWithoutProductInput | Prisma.ShelfLifeOverrideUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ShelfLifeOverrideScalarWhereInput | Prisma.ShelfLifeOverrideScalarWhereInput[]
+}
+
+export type ShelfLifeOverrideUncheckedUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutProductInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput> | Prisma.ShelfLifeOverrideCreateWithoutProductInput[] | Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ShelfLifeOverrideCreateOrConnectWithoutProductInput | Prisma.ShelfLifeOverrideCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ShelfLifeOverrideUpsertWithWhereUniqueWithoutProductInput | Prisma.ShelfLifeOverrideUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ShelfLifeOverrideCreateManyProductInputEnvelope
+  set?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  disconnect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  delete?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  connect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  update?: Prisma.ShelfLifeOverrideUpdateWithWhereUniqueWithoutProductInput | Prisma.ShelfLifeOverrideUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ShelfLifeOverrideUpdateManyWithWhereWithoutProductInput | Prisma.ShelfLifeOverrideUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ShelfLifeOverrideScalarWhereInput | Prisma.ShelfLifeOverrideScalarWhereInput[]
+}
+
+export type ShelfLifeOverrideCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutUserInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput> | Prisma.ShelfLifeOverrideCreateWithoutUserInput[] | Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ShelfLifeOverrideCreateOrConnectWithoutUserInput | Prisma.ShelfLifeOverrideCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ShelfLifeOverrideCreateManyUserInputEnvelope
+  connect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+}
+
+export type ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutUserInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput> | Prisma.ShelfLifeOverrideCreateWithoutUserInput[] | Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ShelfLifeOverrideCreateOrConnectWithoutUserInput | Prisma.ShelfLifeOverrideCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.ShelfLifeOverrideCreateManyUserInputEnvelope
+  connect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+}
+
+export type ShelfLifeOverrideUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutUserInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput> | Prisma.ShelfLifeOverrideCreateWithoutUserInput[] | Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ShelfLifeOverrideCreateOrConnectWithoutUserInput | Prisma.ShelfLifeOverrideCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ShelfLifeOverrideUpsertWithWhereUniqueWithoutUserInput | Prisma.ShelfLifeOverrideUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ShelfLifeOverrideCreateManyUserInputEnvelope
+  set?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  disconnect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  delete?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  connect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  update?: Prisma.ShelfLifeOverrideUpdateWithWhereUniqueWithoutUserInput | Prisma.ShelfLifeOverrideUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ShelfLifeOverrideUpdateManyWithWhereWithoutUserInput | Prisma.ShelfLifeOverrideUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ShelfLifeOverrideScalarWhereInput | Prisma.ShelfLifeOverrideScalarWhereInput[]
+}
+
+export type ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutUserInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput> | Prisma.ShelfLifeOverrideCreateWithoutUserInput[] | Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.ShelfLifeOverrideCreateOrConnectWithoutUserInput | Prisma.ShelfLifeOverrideCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.ShelfLifeOverrideUpsertWithWhereUniqueWithoutUserInput | Prisma.ShelfLifeOverrideUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.ShelfLifeOverrideCreateManyUserInputEnvelope
+  set?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  disconnect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  delete?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  connect?: Prisma.ShelfLifeOverrideWhereUniqueInput | Prisma.ShelfLifeOverrideWhereUniqueInput[]
+  update?: Prisma.ShelfLifeOverrideUpdateWithWhereUniqueWithoutUserInput | Prisma.ShelfLifeOverrideUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.ShelfLifeOverrideUpdateManyWithWhereWithoutUserInput | Prisma.ShelfLifeOverrideUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.ShelfLifeOverrideScalarWhereInput | Prisma.ShelfLifeOverrideScalarWhereInput[]
+}
+
+export type ShelfLifeOverrideCreateWithoutProductInput = {
+  id: string
+  label: string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutShelfLifeOverrideInput
+}
+
+export type ShelfLifeOverrideUncheckedCreateWithoutProductInput = {
+  id: string
+  userId: string
+  label: string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShelfLifeOverrideCreateOrConnectWithoutProductInput = {
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutProductInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput>
+}
+
+export type ShelfLifeOverrideCreateManyProductInputEnvelope = {
+  data: Prisma.ShelfLifeOverrideCreateManyProductInput | Prisma.ShelfLifeOverrideCreateManyProductInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShelfLifeOverrideUpsertWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateWithoutProductInput, Prisma.ShelfLifeOverrideUncheckedUpdateWithoutProductInput>
+  create: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutProductInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutProductInput>
+}
+
+export type ShelfLifeOverrideUpdateWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateWithoutProductInput, Prisma.ShelfLifeOverrideUncheckedUpdateWithoutProductInput>
+}
+
+export type ShelfLifeOverrideUpdateManyWithWhereWithoutProductInput = {
+  where: Prisma.ShelfLifeOverrideScalarWhereInput
+  data: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateManyMutationInput, Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutProductInput>
+}
+
+export type ShelfLifeOverrideScalarWhereInput = {
+  AND?: Prisma.ShelfLifeOverrideScalarWhereInput | Prisma.ShelfLifeOverrideScalarWhereInput[]
+  OR?: Prisma.ShelfLifeOverrideScalarWhereInput[]
+  NOT?: Prisma.ShelfLifeOverrideScalarWhereInput | Prisma.ShelfLifeOverrideScalarWhereInput[]
+  id?: Prisma.StringFilter<"ShelfLifeOverride"> | string
+  userId?: Prisma.StringFilter<"ShelfLifeOverride"> | string
+  productId?: Prisma.StringNullableFilter<"ShelfLifeOverride"> | string | null
+  label?: Prisma.StringFilter<"ShelfLifeOverride"> | string
+  keywords?: Prisma.JsonFilter<"ShelfLifeOverride">
+  daysByStorage?: Prisma.JsonFilter<"ShelfLifeOverride">
+  defaultDays?: Prisma.IntFilter<"ShelfLifeOverride"> | number
+  createdAt?: Prisma.DateTimeFilter<"ShelfLifeOverride"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ShelfLifeOverride"> | Date | string
+}
+
+export type ShelfLifeOverrideCreateWithoutUserInput = {
+  id: string
+  label: string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Product?: Prisma.ProductCreateNestedOneWithoutShelfLifeOverrideInput
+}
+
+export type ShelfLifeOverrideUncheckedCreateWithoutUserInput = {
+  id: string
+  productId?: string | null
+  label: string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShelfLifeOverrideCreateOrConnectWithoutUserInput = {
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutUserInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput>
+}
+
+export type ShelfLifeOverrideCreateManyUserInputEnvelope = {
+  data: Prisma.ShelfLifeOverrideCreateManyUserInput | Prisma.ShelfLifeOverrideCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShelfLifeOverrideUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateWithoutUserInput, Prisma.ShelfLifeOverrideUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ShelfLifeOverrideCreateWithoutUserInput, Prisma.ShelfLifeOverrideUncheckedCreateWithoutUserInput>
+}
+
+export type ShelfLifeOverrideUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateWithoutUserInput, Prisma.ShelfLifeOverrideUncheckedUpdateWithoutUserInput>
+}
+
+export type ShelfLifeOverrideUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ShelfLifeOverrideScalarWhereInput
+  data: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateManyMutationInput, Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserInput>
+}
+
+export type ShelfLifeOverrideCreateManyProductInput = {
+  id: string
+  userId: string
+  label: string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShelfLifeOverrideUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutShelfLifeOverrideNestedInput
+}
+
+export type ShelfLifeOverrideUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShelfLifeOverrideUncheckedUpdateManyWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShelfLifeOverrideCreateManyUserInput = {
+  id: string
+  productId?: string | null
+  label: string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays: number
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShelfLifeOverrideUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneWithoutShelfLifeOverrideNestedInput
+}
+
+export type ShelfLifeOverrideUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShelfLifeOverrideUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  label?: Prisma.StringFieldUpdateOperationsInput | string
+  keywords?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  daysByStorage?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  defaultDays?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ShelfLifeOverrideSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  label?: boolean
+  keywords?: boolean
+  daysByStorage?: boolean
+  defaultDays?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ShelfLifeOverride$ProductArgs<ExtArgs>
+}, ExtArgs["result"]["shelfLifeOverride"]>
+
+export type ShelfLifeOverrideSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  label?: boolean
+  keywords?: boolean
+  daysByStorage?: boolean
+  defaultDays?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ShelfLifeOverride$ProductArgs<ExtArgs>
+}, ExtArgs["result"]["shelfLifeOverride"]>
+
+export type ShelfLifeOverrideSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  label?: boolean
+  keywords?: boolean
+  daysByStorage?: boolean
+  defaultDays?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ShelfLifeOverride$ProductArgs<ExtArgs>
+}, ExtArgs["result"]["shelfLifeOverride"]>
+
+export type ShelfLifeOverrideSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  productId?: boolean
+  label?: boolean
+  keywords?: boolean
+  daysByStorage?: boolean
+  defaultDays?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ShelfLifeOverrideOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "productId" | "label" | "keywords" | "daysByStorage" | "defaultDays" | "createdAt" | "updatedAt", ExtArgs["result"]["shelfLifeOverride"]>
+export type ShelfLifeOverrideInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ShelfLifeOverride$ProductArgs<ExtArgs>
+}
+export type ShelfLifeOverrideIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ShelfLifeOverride$ProductArgs<ExtArgs>
+}
+export type ShelfLifeOverrideIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  Product?: boolean | Prisma.ShelfLifeOverride$ProductArgs<ExtArgs>
+}
+
+export type $ShelfLifeOverridePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShelfLifeOverride"
+  objects: {
+    User: Prisma.$UserPayload<ExtArgs>
+    Product: Prisma.$ProductPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    productId: string | null
+    label: string
+    keywords: runtime.JsonValue
+    daysByStorage: runtime.JsonValue
+    defaultDays: number
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["shelfLifeOverride"]>
+  composites: {}
+}
+
+export type ShelfLifeOverrideGetPayload<S extends boolean | null | undefined | ShelfLifeOverrideDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload, S>
+
+export type ShelfLifeOverrideCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShelfLifeOverrideFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShelfLifeOverrideCountAggregateInputType | true
+  }
+
+export interface ShelfLifeOverrideDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShelfLifeOverride'], meta: { name: 'ShelfLifeOverride' } }
+  /**
+   * Find zero or one ShelfLifeOverride that matches the filter.
+   * @param {ShelfLifeOverrideFindUniqueArgs} args - Arguments to find a ShelfLifeOverride
+   * @example
+   * // Get one ShelfLifeOverride
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShelfLifeOverrideFindUniqueArgs>(args: Prisma.SelectSubset<T, ShelfLifeOverrideFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShelfLifeOverrideClient<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShelfLifeOverride that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShelfLifeOverrideFindUniqueOrThrowArgs} args - Arguments to find a ShelfLifeOverride
+   * @example
+   * // Get one ShelfLifeOverride
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShelfLifeOverrideFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShelfLifeOverrideFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShelfLifeOverrideClient<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShelfLifeOverride that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShelfLifeOverrideFindFirstArgs} args - Arguments to find a ShelfLifeOverride
+   * @example
+   * // Get one ShelfLifeOverride
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShelfLifeOverrideFindFirstArgs>(args?: Prisma.SelectSubset<T, ShelfLifeOverrideFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShelfLifeOverrideClient<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShelfLifeOverride that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShelfLifeOverrideFindFirstOrThrowArgs} args - Arguments to find a ShelfLifeOverride
+   * @example
+   * // Get one ShelfLifeOverride
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShelfLifeOverrideFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShelfLifeOverrideFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShelfLifeOverrideClient<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShelfLifeOverrides that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShelfLifeOverrideFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShelfLifeOverrides
+   * const shelfLifeOverrides = await prisma.shelfLifeOverride.findMany()
+   * 
+   * // Get first 10 ShelfLifeOverrides
+   * const shelfLifeOverrides = await prisma.shelfLifeOverride.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shelfLifeOverrideWithIdOnly = await prisma.shelfLifeOverride.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShelfLifeOverrideFindManyArgs>(args?: Prisma.SelectSubset<T, ShelfLifeOverrideFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShelfLifeOverride.
+   * @param {ShelfLifeOverrideCreateArgs} args - Arguments to create a ShelfLifeOverride.
+   * @example
+   * // Create one ShelfLifeOverride
+   * const ShelfLifeOverride = await prisma.shelfLifeOverride.create({
+   *   data: {
+   *     // ... data to create a ShelfLifeOverride
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShelfLifeOverrideCreateArgs>(args: Prisma.SelectSubset<T, ShelfLifeOverrideCreateArgs<ExtArgs>>): Prisma.Prisma__ShelfLifeOverrideClient<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShelfLifeOverrides.
+   * @param {ShelfLifeOverrideCreateManyArgs} args - Arguments to create many ShelfLifeOverrides.
+   * @example
+   * // Create many ShelfLifeOverrides
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShelfLifeOverrideCreateManyArgs>(args?: Prisma.SelectSubset<T, ShelfLifeOverrideCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShelfLifeOverrides and returns the data saved in the database.
+   * @param {ShelfLifeOverrideCreateManyAndReturnArgs} args - Arguments to create many ShelfLifeOverrides.
+   * @example
+   * // Create many ShelfLifeOverrides
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShelfLifeOverrides and only return the `id`
+   * const shelfLifeOverrideWithIdOnly = await prisma.shelfLifeOverride.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShelfLifeOverrideCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShelfLifeOverrideCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShelfLifeOverride.
+   * @param {ShelfLifeOverrideDeleteArgs} args - Arguments to delete one ShelfLifeOverride.
+   * @example
+   * // Delete one ShelfLifeOverride
+   * const ShelfLifeOverride = await prisma.shelfLifeOverride.delete({
+   *   where: {
+   *     // ... filter to delete one ShelfLifeOverride
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShelfLifeOverrideDeleteArgs>(args: Prisma.SelectSubset<T, ShelfLifeOverrideDeleteArgs<ExtArgs>>): Prisma.Prisma__ShelfLifeOverrideClient<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShelfLifeOverride.
+   * @param {ShelfLifeOverrideUpdateArgs} args - Arguments to update one ShelfLifeOverride.
+   * @example
+   * // Update one ShelfLifeOverride
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShelfLifeOverrideUpdateArgs>(args: Prisma.SelectSubset<T, ShelfLifeOverrideUpdateArgs<ExtArgs>>): Prisma.Prisma__ShelfLifeOverrideClient<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShelfLifeOverrides.
+   * @param {ShelfLifeOverrideDeleteManyArgs} args - Arguments to filter ShelfLifeOverrides to delete.
+   * @example
+   * // Delete a few ShelfLifeOverrides
+   * const { count } = await prisma.shelfLifeOverride.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShelfLifeOverrideDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShelfLifeOverrideDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShelfLifeOverrides.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShelfLifeOverrideUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShelfLifeOverrides
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShelfLifeOverrideUpdateManyArgs>(args: Prisma.SelectSubset<T, ShelfLifeOverrideUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShelfLifeOverrides and returns the data updated in the database.
+   * @param {ShelfLifeOverrideUpdateManyAndReturnArgs} args - Arguments to update many ShelfLifeOverrides.
+   * @example
+   * // Update many ShelfLifeOverrides
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShelfLifeOverrides and only return the `id`
+   * const shelfLifeOverrideWithIdOnly = await prisma.shelfLifeOverride.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShelfLifeOverrideUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShelfLifeOverrideUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShelfLifeOverride.
+   * @param {ShelfLifeOverrideUpsertArgs} args - Arguments to update or create a ShelfLifeOverride.
+   * @example
+   * // Update or create a ShelfLifeOverride
+   * const shelfLifeOverride = await prisma.shelfLifeOverride.upsert({
+   *   create: {
+   *     // ... data to create a ShelfLifeOverride
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShelfLifeOverride we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShelfLifeOverrideUpsertArgs>(args: Prisma.SelectSubset<T, ShelfLifeOverrideUpsertArgs<ExtArgs>>): Prisma.Prisma__ShelfLifeOverrideClient<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShelfLifeOverrides.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShelfLifeOverrideCountArgs} args - Arguments to filter ShelfLifeOverrides to count.
+   * @example
+   * // Count the number of ShelfLifeOverrides
+   * const count = await prisma.shelfLifeOverride.count({
+   *   where: {
+   *     // ... the filter for the ShelfLifeOverrides we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShelfLifeOverrideCountArgs>(
+    args?: Prisma.Subset<T, ShelfLifeOverrideCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShelfLifeOverrideCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShelfLifeOverride.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShelfLifeOverrideAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShelfLifeOverrideAggregateArgs>(args: Prisma.Subset<T, ShelfLifeOverrideAggregateArgs>): Prisma.PrismaPromise<GetShelfLifeOverrideAggregateType<T>>
+
+  /**
+   * Group by ShelfLifeOverride.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShelfLifeOverrideGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShelfLifeOverrideGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShelfLifeOverrideGroupByArgs['orderBy'] }
+      : { orderBy?: ShelfLifeOverrideGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShelfLifeOverrideGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShelfLifeOverrideGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShelfLifeOverride model
+ */
+readonly fields: ShelfLifeOverrideFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShelfLifeOverride.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShelfLifeOverrideClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  Product<T extends Prisma.ShelfLifeOverride$ProductArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShelfLifeOverride$ProductArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShelfLifeOverride model
+ */
+export interface ShelfLifeOverrideFieldRefs {
+  readonly id: Prisma.FieldRef<"ShelfLifeOverride", 'String'>
+  readonly userId: Prisma.FieldRef<"ShelfLifeOverride", 'String'>
+  readonly productId: Prisma.FieldRef<"ShelfLifeOverride", 'String'>
+  readonly label: Prisma.FieldRef<"ShelfLifeOverride", 'String'>
+  readonly keywords: Prisma.FieldRef<"ShelfLifeOverride", 'Json'>
+  readonly daysByStorage: Prisma.FieldRef<"ShelfLifeOverride", 'Json'>
+  readonly defaultDays: Prisma.FieldRef<"ShelfLifeOverride", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"ShelfLifeOverride", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ShelfLifeOverride", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShelfLifeOverride findUnique
+ */
+export type ShelfLifeOverrideFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which ShelfLifeOverride to fetch.
+   */
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+}
+
+/**
+ * ShelfLifeOverride findUniqueOrThrow
+ */
+export type ShelfLifeOverrideFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which ShelfLifeOverride to fetch.
+   */
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+}
+
+/**
+ * ShelfLifeOverride findFirst
+ */
+export type ShelfLifeOverrideFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which ShelfLifeOverride to fetch.
+   */
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShelfLifeOverrides to fetch.
+   */
+  orderBy?: Prisma.ShelfLifeOverrideOrderByWithRelationInput | Prisma.ShelfLifeOverrideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShelfLifeOverrides.
+   */
+  cursor?: Prisma.ShelfLifeOverrideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShelfLifeOverrides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShelfLifeOverrides.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShelfLifeOverrides.
+   */
+  distinct?: Prisma.ShelfLifeOverrideScalarFieldEnum | Prisma.ShelfLifeOverrideScalarFieldEnum[]
+}
+
+/**
+ * ShelfLifeOverride findFirstOrThrow
+ */
+export type ShelfLifeOverrideFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which ShelfLifeOverride to fetch.
+   */
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShelfLifeOverrides to fetch.
+   */
+  orderBy?: Prisma.ShelfLifeOverrideOrderByWithRelationInput | Prisma.ShelfLifeOverrideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShelfLifeOverrides.
+   */
+  cursor?: Prisma.ShelfLifeOverrideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShelfLifeOverrides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShelfLifeOverrides.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShelfLifeOverrides.
+   */
+  distinct?: Prisma.ShelfLifeOverrideScalarFieldEnum | Prisma.ShelfLifeOverrideScalarFieldEnum[]
+}
+
+/**
+ * ShelfLifeOverride findMany
+ */
+export type ShelfLifeOverrideFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  /**
+   * Filter, which ShelfLifeOverrides to fetch.
+   */
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShelfLifeOverrides to fetch.
+   */
+  orderBy?: Prisma.ShelfLifeOverrideOrderByWithRelationInput | Prisma.ShelfLifeOverrideOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShelfLifeOverrides.
+   */
+  cursor?: Prisma.ShelfLifeOverrideWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShelfLifeOverrides from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShelfLifeOverrides.
+   */
+  skip?: number
+  distinct?: Prisma.ShelfLifeOverrideScalarFieldEnum | Prisma.ShelfLifeOverrideScalarFieldEnum[]
+}
+
+/**
+ * ShelfLifeOverride create
+ */
+export type ShelfLifeOverrideCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShelfLifeOverride.
+   */
+  data: Prisma.XOR<Prisma.ShelfLifeOverrideCreateInput, Prisma.ShelfLifeOverrideUncheckedCreateInput>
+}
+
+/**
+ * ShelfLifeOverride createMany
+ */
+export type ShelfLifeOverrideCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShelfLifeOverrides.
+   */
+  data: Prisma.ShelfLifeOverrideCreateManyInput | Prisma.ShelfLifeOverrideCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShelfLifeOverride createManyAndReturn
+ */
+export type ShelfLifeOverrideCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShelfLifeOverrides.
+   */
+  data: Prisma.ShelfLifeOverrideCreateManyInput | Prisma.ShelfLifeOverrideCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShelfLifeOverride update
+ */
+export type ShelfLifeOverrideUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShelfLifeOverride.
+   */
+  data: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateInput, Prisma.ShelfLifeOverrideUncheckedUpdateInput>
+  /**
+   * Choose, which ShelfLifeOverride to update.
+   */
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+}
+
+/**
+ * ShelfLifeOverride updateMany
+ */
+export type ShelfLifeOverrideUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShelfLifeOverrides.
+   */
+  data: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateManyMutationInput, Prisma.ShelfLifeOverrideUncheckedUpdateManyInput>
+  /**
+   * Filter which ShelfLifeOverrides to update
+   */
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  /**
+   * Limit how many ShelfLifeOverrides to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShelfLifeOverride updateManyAndReturn
+ */
+export type ShelfLifeOverrideUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * The data used to update ShelfLifeOverrides.
+   */
+  data: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateManyMutationInput, Prisma.ShelfLifeOverrideUncheckedUpdateManyInput>
+  /**
+   * Filter which ShelfLifeOverrides to update
+   */
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  /**
+   * Limit how many ShelfLifeOverrides to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShelfLifeOverride upsert
+ */
+export type ShelfLifeOverrideUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShelfLifeOverride to update in case it exists.
+   */
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+  /**
+   * In case the ShelfLifeOverride found by the `where` argument doesn't exist, create a new ShelfLifeOverride with this data.
+   */
+  create: Prisma.XOR<Prisma.ShelfLifeOverrideCreateInput, Prisma.ShelfLifeOverrideUncheckedCreateInput>
+  /**
+   * In case the ShelfLifeOverride was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShelfLifeOverrideUpdateInput, Prisma.ShelfLifeOverrideUncheckedUpdateInput>
+}
+
+/**
+ * ShelfLifeOverride delete
+ */
+export type ShelfLifeOverrideDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  /**
+   * Filter which ShelfLifeOverride to delete.
+   */
+  where: Prisma.ShelfLifeOverrideWhereUniqueInput
+}
+
+/**
+ * ShelfLifeOverride deleteMany
+ */
+export type ShelfLifeOverrideDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShelfLifeOverrides to delete
+   */
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  /**
+   * Limit how many ShelfLifeOverrides to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShelfLifeOverride.Product
+ */
+export type ShelfLifeOverride$ProductArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Product
+   */
+  select?: Prisma.ProductSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Product
+   */
+  omit?: Prisma.ProductOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductInclude<ExtArgs> | null
+  where?: Prisma.ProductWhereInput
+}
+
+/**
+ * ShelfLifeOverride without action
+ */
+export type ShelfLifeOverrideDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+}
@@ -0,0 +1,1391 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShoppingList` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ShoppingList
+ * 
+ */
+export type ShoppingListModel = runtime.Types.Result.DefaultSelection<Prisma.$ShoppingListPayload>
+
+export type AggregateShoppingList = {
+  _count: ShoppingListCountAggregateOutputType | null
+  _min: ShoppingListMinAggregateOutputType | null
+  _max: ShoppingListMaxAggregateOutputType | null
+}
+
+export type ShoppingListMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ShoppingListMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ShoppingListCountAggregateOutputType = {
+  id: number
+  userId: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ShoppingListMinAggregateInputType = {
+  id?: true
+  userId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ShoppingListMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ShoppingListCountAggregateInputType = {
+  id?: true
+  userId?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ShoppingListAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShoppingList to aggregate.
+   */
+  where?: Prisma.ShoppingListWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShoppingLists to fetch.
+   */
+  orderBy?: Prisma.ShoppingListOrderByWithRelationInput | Prisma.ShoppingListOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShoppingListWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShoppingLists from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShoppingLists.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShoppingLists
+  **/
+  _count?: true | ShoppingListCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShoppingListMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShoppingListMaxAggregateInputType
+}
+
+export type GetShoppingListAggregateType<T extends ShoppingListAggregateArgs> = {
+      [P in keyof T & keyof AggregateShoppingList]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShoppingList[P]>
+    : Prisma.GetScalarType<T[P], AggregateShoppingList[P]>
+}
+
+
+
+
+export type ShoppingListGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShoppingListWhereInput
+  orderBy?: Prisma.ShoppingListOrderByWithAggregationInput | Prisma.ShoppingListOrderByWithAggregationInput[]
+  by: Prisma.ShoppingListScalarFieldEnum[] | Prisma.ShoppingListScalarFieldEnum
+  having?: Prisma.ShoppingListScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShoppingListCountAggregateInputType | true
+  _min?: ShoppingListMinAggregateInputType
+  _max?: ShoppingListMaxAggregateInputType
+}
+
+export type ShoppingListGroupByOutputType = {
+  id: string
+  userId: string
+  createdAt: Date
+  updatedAt: Date
+  _count: ShoppingListCountAggregateOutputType | null
+  _min: ShoppingListMinAggregateOutputType | null
+  _max: ShoppingListMaxAggregateOutputType | null
+}
+
+type GetShoppingListGroupByPayload<T extends ShoppingListGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShoppingListGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShoppingListGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShoppingListGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShoppingListGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShoppingListWhereInput = {
+  AND?: Prisma.ShoppingListWhereInput | Prisma.ShoppingListWhereInput[]
+  OR?: Prisma.ShoppingListWhereInput[]
+  NOT?: Prisma.ShoppingListWhereInput | Prisma.ShoppingListWhereInput[]
+  id?: Prisma.StringFilter<"ShoppingList"> | string
+  userId?: Prisma.StringFilter<"ShoppingList"> | string
+  createdAt?: Prisma.DateTimeFilter<"ShoppingList"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ShoppingList"> | Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemListRelationFilter
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type ShoppingListOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  ShoppingListItem?: Prisma.ShoppingListItemOrderByRelationAggregateInput
+  User?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ShoppingListWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId?: string
+  AND?: Prisma.ShoppingListWhereInput | Prisma.ShoppingListWhereInput[]
+  OR?: Prisma.ShoppingListWhereInput[]
+  NOT?: Prisma.ShoppingListWhereInput | Prisma.ShoppingListWhereInput[]
+  createdAt?: Prisma.DateTimeFilter<"ShoppingList"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ShoppingList"> | Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemListRelationFilter
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "userId">
+
+export type ShoppingListOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ShoppingListCountOrderByAggregateInput
+  _max?: Prisma.ShoppingListMaxOrderByAggregateInput
+  _min?: Prisma.ShoppingListMinOrderByAggregateInput
+}
+
+export type ShoppingListScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShoppingListScalarWhereWithAggregatesInput | Prisma.ShoppingListScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShoppingListScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShoppingListScalarWhereWithAggregatesInput | Prisma.ShoppingListScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShoppingList"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"ShoppingList"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ShoppingList"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ShoppingList"> | Date | string
+}
+
+export type ShoppingListCreateInput = {
+  id: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutShoppingListInput
+  User: Prisma.UserCreateNestedOneWithoutShoppingListInput
+}
+
+export type ShoppingListUncheckedCreateInput = {
+  id: string
+  userId: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutShoppingListInput
+}
+
+export type ShoppingListUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutShoppingListNestedInput
+  User?: Prisma.UserUpdateOneRequiredWithoutShoppingListNestedInput
+}
+
+export type ShoppingListUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutShoppingListNestedInput
+}
+
+export type ShoppingListCreateManyInput = {
+  id: string
+  userId: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShoppingListMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShoppingListMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShoppingListScalarRelationFilter = {
+  is?: Prisma.ShoppingListWhereInput
+  isNot?: Prisma.ShoppingListWhereInput
+}
+
+export type ShoppingListNullableScalarRelationFilter = {
+  is?: Prisma.ShoppingListWhereInput | null
+  isNot?: Prisma.ShoppingListWhereInput | null
+}
+
+export type ShoppingListCreateNestedOneWithoutShoppingListItemInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListCreateWithoutShoppingListItemInput, Prisma.ShoppingListUncheckedCreateWithoutShoppingListItemInput>
+  connectOrCreate?: Prisma.ShoppingListCreateOrConnectWithoutShoppingListItemInput
+  connect?: Prisma.ShoppingListWhereUniqueInput
+}
+
+export type ShoppingListUpdateOneRequiredWithoutShoppingListItemNestedInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListCreateWithoutShoppingListItemInput, Prisma.ShoppingListUncheckedCreateWithoutShoppingListItemInput>
+  connectOrCreate?: Prisma.ShoppingListCreateOrConnectWithoutShoppingListItemInput
+  upsert?: Prisma.ShoppingListUpsertWithoutShoppingListItemInput
+  connect?: Prisma.ShoppingListWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShoppingListUpdateToOneWithWhereWithoutShoppingListItemInput, Prisma.ShoppingListUpdateWithoutShoppingListItemInput>, Prisma.ShoppingListUncheckedUpdateWithoutShoppingListItemInput>
+}
+
+export type ShoppingListCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListCreateWithoutUserInput, Prisma.ShoppingListUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.ShoppingListCreateOrConnectWithoutUserInput
+  connect?: Prisma.ShoppingListWhereUniqueInput
+}
+
+export type ShoppingListUncheckedCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListCreateWithoutUserInput, Prisma.ShoppingListUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.ShoppingListCreateOrConnectWithoutUserInput
+  connect?: Prisma.ShoppingListWhereUniqueInput
+}
+
+export type ShoppingListUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListCreateWithoutUserInput, Prisma.ShoppingListUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.ShoppingListCreateOrConnectWithoutUserInput
+  upsert?: Prisma.ShoppingListUpsertWithoutUserInput
+  disconnect?: Prisma.ShoppingListWhereInput | boolean
+  delete?: Prisma.ShoppingListWhereInput | boolean
+  connect?: Prisma.ShoppingListWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShoppingListUpdateToOneWithWhereWithoutUserInput, Prisma.ShoppingListUpdateWithoutUserInput>, Prisma.ShoppingListUncheckedUpdateWithoutUserInput>
+}
+
+export type ShoppingListUncheckedUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListCreateWithoutUserInput, Prisma.ShoppingListUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.ShoppingListCreateOrConnectWithoutUserInput
+  upsert?: Prisma.ShoppingListUpsertWithoutUserInput
+  disconnect?: Prisma.ShoppingListWhereInput | boolean
+  delete?: Prisma.ShoppingListWhereInput | boolean
+  connect?: Prisma.ShoppingListWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ShoppingListUpdateToOneWithWhereWithoutUserInput, Prisma.ShoppingListUpdateWithoutUserInput>, Prisma.ShoppingListUncheckedUpdateWithoutUserInput>
+}
+
+export type ShoppingListCreateWithoutShoppingListItemInput = {
+  id: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutShoppingListInput
+}
+
+export type ShoppingListUncheckedCreateWithoutShoppingListItemInput = {
+  id: string
+  userId: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListCreateOrConnectWithoutShoppingListItemInput = {
+  where: Prisma.ShoppingListWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShoppingListCreateWithoutShoppingListItemInput, Prisma.ShoppingListUncheckedCreateWithoutShoppingListItemInput>
+}
+
+export type ShoppingListUpsertWithoutShoppingListItemInput = {
+  update: Prisma.XOR<Prisma.ShoppingListUpdateWithoutShoppingListItemInput, Prisma.ShoppingListUncheckedUpdateWithoutShoppingListItemInput>
+  create: Prisma.XOR<Prisma.ShoppingListCreateWithoutShoppingListItemInput, Prisma.ShoppingListUncheckedCreateWithoutShoppingListItemInput>
+  where?: Prisma.ShoppingListWhereInput
+}
+
+export type ShoppingListUpdateToOneWithWhereWithoutShoppingListItemInput = {
+  where?: Prisma.ShoppingListWhereInput
+  data: Prisma.XOR<Prisma.ShoppingListUpdateWithoutShoppingListItemInput, Prisma.ShoppingListUncheckedUpdateWithoutShoppingListItemInput>
+}
+
+export type ShoppingListUpdateWithoutShoppingListItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutShoppingListNestedInput
+}
+
+export type ShoppingListUncheckedUpdateWithoutShoppingListItemInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListCreateWithoutUserInput = {
+  id: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemCreateNestedManyWithoutShoppingListInput
+}
+
+export type ShoppingListUncheckedCreateWithoutUserInput = {
+  id: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedCreateNestedManyWithoutShoppingListInput
+}
+
+export type ShoppingListCreateOrConnectWithoutUserInput = {
+  where: Prisma.ShoppingListWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShoppingListCreateWithoutUserInput, Prisma.ShoppingListUncheckedCreateWithoutUserInput>
+}
+
+export type ShoppingListUpsertWithoutUserInput = {
+  update: Prisma.XOR<Prisma.ShoppingListUpdateWithoutUserInput, Prisma.ShoppingListUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.ShoppingListCreateWithoutUserInput, Prisma.ShoppingListUncheckedCreateWithoutUserInput>
+  where?: Prisma.ShoppingListWhereInput
+}
+
+export type ShoppingListUpdateToOneWithWhereWithoutUserInput = {
+  where?: Prisma.ShoppingListWhereInput
+  data: Prisma.XOR<Prisma.ShoppingListUpdateWithoutUserInput, Prisma.ShoppingListUncheckedUpdateWithoutUserInput>
+}
+
+export type ShoppingListUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemUpdateManyWithoutShoppingListNestedInput
+}
+
+export type ShoppingListUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ShoppingListItem?: Prisma.ShoppingListItemUncheckedUpdateManyWithoutShoppingListNestedInput
+}
+
+
+/**
+ * Count Type ShoppingListCountOutputType
+ */
+
+export type ShoppingListCountOutputType = {
+  ShoppingListItem: number
+}
+
+export type ShoppingListCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  ShoppingListItem?: boolean | ShoppingListCountOutputTypeCountShoppingListItemArgs
+}
+
+/**
+ * ShoppingListCountOutputType without action
+ */
+export type ShoppingListCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListCountOutputType
+   */
+  select?: Prisma.ShoppingListCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ShoppingListCountOutputType without action
+ */
+export type ShoppingListCountOutputTypeCountShoppingListItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShoppingListItemWhereInput
+}
+
+
+export type ShoppingListSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  ShoppingListItem?: boolean | Prisma.ShoppingList$ShoppingListItemArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  _count?: boolean | Prisma.ShoppingListCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shoppingList"]>
+
+export type ShoppingListSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shoppingList"]>
+
+export type ShoppingListSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shoppingList"]>
+
+export type ShoppingListSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ShoppingListOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "createdAt" | "updatedAt", ExtArgs["result"]["shoppingList"]>
+export type ShoppingListInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  ShoppingListItem?: boolean | Prisma.ShoppingList$ShoppingListItemArgs<ExtArgs>
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  _count?: boolean | Prisma.ShoppingListCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ShoppingListIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type ShoppingListIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $ShoppingListPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShoppingList"
+  objects: {
+    ShoppingListItem: Prisma.$ShoppingListItemPayload<ExtArgs>[]
+    User: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["shoppingList"]>
+  composites: {}
+}
+
+export type ShoppingListGetPayload<S extends boolean | null | undefined | ShoppingListDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload, S>
+
+export type ShoppingListCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShoppingListFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShoppingListCountAggregateInputType | true
+  }
+
+export interface ShoppingListDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShoppingList'], meta: { name: 'ShoppingList' } }
+  /**
+   * Find zero or one ShoppingList that matches the filter.
+   * @param {ShoppingListFindUniqueArgs} args - Arguments to find a ShoppingList
+   * @example
+   * // Get one ShoppingList
+   * const shoppingList = await prisma.shoppingList.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShoppingListFindUniqueArgs>(args: Prisma.SelectSubset<T, ShoppingListFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShoppingList that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShoppingListFindUniqueOrThrowArgs} args - Arguments to find a ShoppingList
+   * @example
+   * // Get one ShoppingList
+   * const shoppingList = await prisma.shoppingList.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShoppingListFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShoppingListFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShoppingList that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListFindFirstArgs} args - Arguments to find a ShoppingList
+   * @example
+   * // Get one ShoppingList
+   * const shoppingList = await prisma.shoppingList.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShoppingListFindFirstArgs>(args?: Prisma.SelectSubset<T, ShoppingListFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShoppingList that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListFindFirstOrThrowArgs} args - Arguments to find a ShoppingList
+   * @example
+   * // Get one ShoppingList
+   * const shoppingList = await prisma.shoppingList.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShoppingListFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShoppingListFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShoppingLists that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShoppingLists
+   * const shoppingLists = await prisma.shoppingList.findMany()
+   * 
+   * // Get first 10 ShoppingLists
+   * const shoppingLists = await prisma.shoppingList.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shoppingListWithIdOnly = await prisma.shoppingList.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShoppingListFindManyArgs>(args?: Prisma.SelectSubset<T, ShoppingListFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShoppingList.
+   * @param {ShoppingListCreateArgs} args - Arguments to create a ShoppingList.
+   * @example
+   * // Create one ShoppingList
+   * const ShoppingList = await prisma.shoppingList.create({
+   *   data: {
+   *     // ... data to create a ShoppingList
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShoppingListCreateArgs>(args: Prisma.SelectSubset<T, ShoppingListCreateArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShoppingLists.
+   * @param {ShoppingListCreateManyArgs} args - Arguments to create many ShoppingLists.
+   * @example
+   * // Create many ShoppingLists
+   * const shoppingList = await prisma.shoppingList.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShoppingListCreateManyArgs>(args?: Prisma.SelectSubset<T, ShoppingListCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShoppingLists and returns the data saved in the database.
+   * @param {ShoppingListCreateManyAndReturnArgs} args - Arguments to create many ShoppingLists.
+   * @example
+   * // Create many ShoppingLists
+   * const shoppingList = await prisma.shoppingList.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShoppingLists and only return the `id`
+   * const shoppingListWithIdOnly = await prisma.shoppingList.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShoppingListCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShoppingListCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShoppingList.
+   * @param {ShoppingListDeleteArgs} args - Arguments to delete one ShoppingList.
+   * @example
+   * // Delete one ShoppingList
+   * const ShoppingList = await prisma.shoppingList.delete({
+   *   where: {
+   *     // ... filter to delete one ShoppingList
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShoppingListDeleteArgs>(args: Prisma.SelectSubset<T, ShoppingListDeleteArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShoppingList.
+   * @param {ShoppingListUpdateArgs} args - Arguments to update one ShoppingList.
+   * @example
+   * // Update one ShoppingList
+   * const shoppingList = await prisma.shoppingList.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShoppingListUpdateArgs>(args: Prisma.SelectSubset<T, ShoppingListUpdateArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShoppingLists.
+   * @param {ShoppingListDeleteManyArgs} args - Arguments to filter ShoppingLists to delete.
+   * @example
+   * // Delete a few ShoppingLists
+   * const { count } = await prisma.shoppingList.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShoppingListDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShoppingListDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShoppingLists.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShoppingLists
+   * const shoppingList = await prisma.shoppingList.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShoppingListUpdateManyArgs>(args: Prisma.SelectSubset<T, ShoppingListUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShoppingLists and returns the data updated in the database.
+   * @param {ShoppingListUpdateManyAndReturnArgs} args - Arguments to update many ShoppingLists.
+   * @example
+   * // Update many ShoppingLists
+   * const shoppingList = await prisma.shoppingList.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShoppingLists and only return the `id`
+   * const shoppingListWithIdOnly = await prisma.shoppingList.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShoppingListUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShoppingListUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShoppingList.
+   * @param {ShoppingListUpsertArgs} args - Arguments to update or create a ShoppingList.
+   * @example
+   * // Update or create a ShoppingList
+   * const shoppingList = await prisma.shoppingList.upsert({
+   *   create: {
+   *     // ... data to create a ShoppingList
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShoppingList we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShoppingListUpsertArgs>(args: Prisma.SelectSubset<T, ShoppingListUpsertArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShoppingLists.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListCountArgs} args - Arguments to filter ShoppingLists to count.
+   * @example
+   * // Count the number of ShoppingLists
+   * const count = await prisma.shoppingList.count({
+   *   where: {
+   *     // ... the filter for the ShoppingLists we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShoppingListCountArgs>(
+    args?: Prisma.Subset<T, ShoppingListCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShoppingListCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShoppingList.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShoppingListAggregateArgs>(args: Prisma.Subset<T, ShoppingListAggregateArgs>): Prisma.PrismaPromise<GetShoppingListAggregateType<T>>
+
+  /**
+   * Group by ShoppingList.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShoppingListGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShoppingListGroupByArgs['orderBy'] }
+      : { orderBy?: ShoppingListGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShoppingListGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShoppingListGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShoppingList model
+ */
+readonly fields: ShoppingListFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShoppingList.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShoppingListClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  ShoppingListItem<T extends Prisma.ShoppingList$ShoppingListItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShoppingList$ShoppingListItemArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShoppingList model
+ */
+export interface ShoppingListFieldRefs {
+  readonly id: Prisma.FieldRef<"ShoppingList", 'String'>
+  readonly userId: Prisma.FieldRef<"ShoppingList", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ShoppingList", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ShoppingList", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShoppingList findUnique
+ */
+export type ShoppingListFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingList to fetch.
+   */
+  where: Prisma.ShoppingListWhereUniqueInput
+}
+
+/**
+ * ShoppingList findUniqueOrThrow
+ */
+export type ShoppingListFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingList to fetch.
+   */
+  where: Prisma.ShoppingListWhereUniqueInput
+}
+
+/**
+ * ShoppingList findFirst
+ */
+export type ShoppingListFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingList to fetch.
+   */
+  where?: Prisma.ShoppingListWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShoppingLists to fetch.
+   */
+  orderBy?: Prisma.ShoppingListOrderByWithRelationInput | Prisma.ShoppingListOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShoppingLists.
+   */
+  cursor?: Prisma.ShoppingListWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShoppingLists from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShoppingLists.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShoppingLists.
+   */
+  distinct?: Prisma.ShoppingListScalarFieldEnum | Prisma.ShoppingListScalarFieldEnum[]
+}
+
+/**
+ * ShoppingList findFirstOrThrow
+ */
+export type ShoppingListFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingList to fetch.
+   */
+  where?: Prisma.ShoppingListWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShoppingLists to fetch.
+   */
+  orderBy?: Prisma.ShoppingListOrderByWithRelationInput | Prisma.ShoppingListOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShoppingLists.
+   */
+  cursor?: Prisma.ShoppingListWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShoppingLists from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShoppingLists.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShoppingLists.
+   */
+  distinct?: Prisma.ShoppingListScalarFieldEnum | Prisma.ShoppingListScalarFieldEnum[]
+}
+
+/**
+ * ShoppingList findMany
+ */
+export type ShoppingListFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingLists to fetch.
+   */
+  where?: Prisma.ShoppingListWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShoppingLists to fetch.
+   */
+  orderBy?: Prisma.ShoppingListOrderByWithRelationInput | Prisma.ShoppingListOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShoppingLists.
+   */
+  cursor?: Prisma.ShoppingListWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShoppingLists from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShoppingLists.
+   */
+  skip?: number
+  distinct?: Prisma.ShoppingListScalarFieldEnum | Prisma.ShoppingListScalarFieldEnum[]
+}
+
+/**
+ * ShoppingList create
+ */
+export type ShoppingListCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShoppingList.
+   */
+  data: Prisma.XOR<Prisma.ShoppingListCreateInput, Prisma.ShoppingListUncheckedCreateInput>
+}
+
+/**
+ * ShoppingList createMany
+ */
+export type ShoppingListCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShoppingLists.
+   */
+  data: Prisma.ShoppingListCreateManyInput | Prisma.ShoppingListCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShoppingList createManyAndReturn
+ */
+export type ShoppingListCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShoppingLists.
+   */
+  data: Prisma.ShoppingListCreateManyInput | Prisma.ShoppingListCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShoppingList update
+ */
+export type ShoppingListUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShoppingList.
+   */
+  data: Prisma.XOR<Prisma.ShoppingListUpdateInput, Prisma.ShoppingListUncheckedUpdateInput>
+  /**
+   * Choose, which ShoppingList to update.
+   */
+  where: Prisma.ShoppingListWhereUniqueInput
+}
+
+/**
+ * ShoppingList updateMany
+ */
+export type ShoppingListUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShoppingLists.
+   */
+  data: Prisma.XOR<Prisma.ShoppingListUpdateManyMutationInput, Prisma.ShoppingListUncheckedUpdateManyInput>
+  /**
+   * Filter which ShoppingLists to update
+   */
+  where?: Prisma.ShoppingListWhereInput
+  /**
+   * Limit how many ShoppingLists to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShoppingList updateManyAndReturn
+ */
+export type ShoppingListUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * The data used to update ShoppingLists.
+   */
+  data: Prisma.XOR<Prisma.ShoppingListUpdateManyMutationInput, Prisma.ShoppingListUncheckedUpdateManyInput>
+  /**
+   * Filter which ShoppingLists to update
+   */
+  where?: Prisma.ShoppingListWhereInput
+  /**
+   * Limit how many ShoppingLists to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShoppingList upsert
+ */
+export type ShoppingListUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShoppingList to update in case it exists.
+   */
+  where: Prisma.ShoppingListWhereUniqueInput
+  /**
+   * In case the ShoppingList found by the `where` argument doesn't exist, create a new ShoppingList with this data.
+   */
+  create: Prisma.XOR<Prisma.ShoppingListCreateInput, Prisma.ShoppingListUncheckedCreateInput>
+  /**
+   * In case the ShoppingList was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShoppingListUpdateInput, Prisma.ShoppingListUncheckedUpdateInput>
+}
+
+/**
+ * ShoppingList delete
+ */
+export type ShoppingListDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  /**
+   * Filter which ShoppingList to delete.
+   */
+  where: Prisma.ShoppingListWhereUniqueInput
+}
+
+/**
+ * ShoppingList deleteMany
+ */
+export type ShoppingListDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShoppingLists to delete
+   */
+  where?: Prisma.ShoppingListWhereInput
+  /**
+   * Limit how many ShoppingLists to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShoppingList.ShoppingListItem
+ */
+export type ShoppingList$ShoppingListItemArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  where?: Prisma.ShoppingListItemWhereInput
+  orderBy?: Prisma.ShoppingListItemOrderByWithRelationInput | Prisma.ShoppingListItemOrderByWithRelationInput[]
+  cursor?: Prisma.ShoppingListItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShoppingListItemScalarFieldEnum | Prisma.ShoppingListItemScalarFieldEnum[]
+}
+
+/**
+ * ShoppingList without action
+ */
+export type ShoppingListDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+}
@@ -0,0 +1,1995 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ShoppingListItem` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ShoppingListItem
+ * 
+ */
+export type ShoppingListItemModel = runtime.Types.Result.DefaultSelection<Prisma.$ShoppingListItemPayload>
+
+export type AggregateShoppingListItem = {
+  _count: ShoppingListItemCountAggregateOutputType | null
+  _avg: ShoppingListItemAvgAggregateOutputType | null
+  _sum: ShoppingListItemSumAggregateOutputType | null
+  _min: ShoppingListItemMinAggregateOutputType | null
+  _max: ShoppingListItemMaxAggregateOutputType | null
+}
+
+export type ShoppingListItemAvgAggregateOutputType = {
+  quantity: number | null
+}
+
+export type ShoppingListItemSumAggregateOutputType = {
+  quantity: number | null
+}
+
+export type ShoppingListItemMinAggregateOutputType = {
+  id: string | null
+  shoppingListId: string | null
+  productId: string | null
+  recipeId: string | null
+  name: string | null
+  quantity: number | null
+  unit: string | null
+  notes: string | null
+  source: $Enums.ShoppingListItemSource | null
+  checkedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ShoppingListItemMaxAggregateOutputType = {
+  id: string | null
+  shoppingListId: string | null
+  productId: string | null
+  recipeId: string | null
+  name: string | null
+  quantity: number | null
+  unit: string | null
+  notes: string | null
+  source: $Enums.ShoppingListItemSource | null
+  checkedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ShoppingListItemCountAggregateOutputType = {
+  id: number
+  shoppingListId: number
+  productId: number
+  recipeId: number
+  name: number
+  quantity: number
+  unit: number
+  notes: number
+  source: number
+  checkedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ShoppingListItemAvgAggregateInputType = {
+  quantity?: true
+}
+
+export type ShoppingListItemSumAggregateInputType = {
+  quantity?: true
+}
+
+export type ShoppingListItemMinAggregateInputType = {
+  id?: true
+  shoppingListId?: true
+  productId?: true
+  recipeId?: true
+  name?: true
+  quantity?: true
+  unit?: true
+  notes?: true
+  source?: true
+  checkedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ShoppingListItemMaxAggregateInputType = {
+  id?: true
+  shoppingListId?: true
+  productId?: true
+  recipeId?: true
+  name?: true
+  quantity?: true
+  unit?: true
+  notes?: true
+  source?: true
+  checkedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ShoppingListItemCountAggregateInputType = {
+  id?: true
+  shoppingListId?: true
+  productId?: true
+  recipeId?: true
+  name?: true
+  quantity?: true
+  unit?: true
+  notes?: true
+  source?: true
+  checkedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ShoppingListItemAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShoppingListItem to aggregate.
+   */
+  where?: Prisma.ShoppingListItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShoppingListItems to fetch.
+   */
+  orderBy?: Prisma.ShoppingListItemOrderByWithRelationInput | Prisma.ShoppingListItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ShoppingListItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShoppingListItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShoppingListItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ShoppingListItems
+  **/
+  _count?: true | ShoppingListItemCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ShoppingListItemAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ShoppingListItemSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ShoppingListItemMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ShoppingListItemMaxAggregateInputType
+}
+
+export type GetShoppingListItemAggregateType<T extends ShoppingListItemAggregateArgs> = {
+      [P in keyof T & keyof AggregateShoppingListItem]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateShoppingListItem[P]>
+    : Prisma.GetScalarType<T[P], AggregateShoppingListItem[P]>
+}
+
+
+
+
+export type ShoppingListItemGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShoppingListItemWhereInput
+  orderBy?: Prisma.ShoppingListItemOrderByWithAggregationInput | Prisma.ShoppingListItemOrderByWithAggregationInput[]
+  by: Prisma.ShoppingListItemScalarFieldEnum[] | Prisma.ShoppingListItemScalarFieldEnum
+  having?: Prisma.ShoppingListItemScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ShoppingListItemCountAggregateInputType | true
+  _avg?: ShoppingListItemAvgAggregateInputType
+  _sum?: ShoppingListItemSumAggregateInputType
+  _min?: ShoppingListItemMinAggregateInputType
+  _max?: ShoppingListItemMaxAggregateInputType
+}
+
+export type ShoppingListItemGroupByOutputType = {
+  id: string
+  shoppingListId: string
+  productId: string | null
+  recipeId: string | null
+  name: string
+  quantity: number | null
+  unit: string | null
+  notes: string | null
+  source: $Enums.ShoppingListItemSource
+  checkedAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ShoppingListItemCountAggregateOutputType | null
+  _avg: ShoppingListItemAvgAggregateOutputType | null
+  _sum: ShoppingListItemSumAggregateOutputType | null
+  _min: ShoppingListItemMinAggregateOutputType | null
+  _max: ShoppingListItemMaxAggregateOutputType | null
+}
+
+type GetShoppingListItemGroupByPayload<T extends ShoppingListItemGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ShoppingListItemGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ShoppingListItemGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ShoppingListItemGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ShoppingListItemGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ShoppingListItemWhereInput = {
+  AND?: Prisma.ShoppingListItemWhereInput | Prisma.ShoppingListItemWhereInput[]
+  OR?: Prisma.ShoppingListItemWhereInput[]
+  NOT?: Prisma.ShoppingListItemWhereInput | Prisma.ShoppingListItemWhereInput[]
+  id?: Prisma.StringFilter<"ShoppingListItem"> | string
+  shoppingListId?: Prisma.StringFilter<"ShoppingListItem"> | string
+  productId?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  recipeId?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  name?: Prisma.StringFilter<"ShoppingListItem"> | string
+  quantity?: Prisma.FloatNullableFilter<"ShoppingListItem"> | number | null
+  unit?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  notes?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  source?: Prisma.EnumShoppingListItemSourceFilter<"ShoppingListItem"> | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.DateTimeNullableFilter<"ShoppingListItem"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ShoppingListItem"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ShoppingListItem"> | Date | string
+  Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
+  Recipe?: Prisma.XOR<Prisma.RecipeNullableScalarRelationFilter, Prisma.RecipeWhereInput> | null
+  ShoppingList?: Prisma.XOR<Prisma.ShoppingListScalarRelationFilter, Prisma.ShoppingListWhereInput>
+}
+
+export type ShoppingListItemOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  shoppingListId?: Prisma.SortOrder
+  productId?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrder
+  quantity?: Prisma.SortOrderInput | Prisma.SortOrder
+  unit?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  Product?: Prisma.ProductOrderByWithRelationInput
+  Recipe?: Prisma.RecipeOrderByWithRelationInput
+  ShoppingList?: Prisma.ShoppingListOrderByWithRelationInput
+}
+
+export type ShoppingListItemWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ShoppingListItemWhereInput | Prisma.ShoppingListItemWhereInput[]
+  OR?: Prisma.ShoppingListItemWhereInput[]
+  NOT?: Prisma.ShoppingListItemWhereInput | Prisma.ShoppingListItemWhereInput[]
+  shoppingListId?: Prisma.StringFilter<"ShoppingListItem"> | string
+  productId?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  recipeId?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  name?: Prisma.StringFilter<"ShoppingListItem"> | string
+  quantity?: Prisma.FloatNullableFilter<"ShoppingListItem"> | number | null
+  unit?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  notes?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  source?: Prisma.EnumShoppingListItemSourceFilter<"ShoppingListItem"> | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.DateTimeNullableFilter<"ShoppingListItem"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ShoppingListItem"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ShoppingListItem"> | Date | string
+  Product?: Prisma.XOR<Prisma.ProductNullableScalarRelationFilter, Prisma.ProductWhereInput> | null
+  Recipe?: Prisma.XOR<Prisma.RecipeNullableScalarRelationFilter, Prisma.RecipeWhereInput> | null
+  ShoppingList?: Prisma.XOR<Prisma.ShoppingListScalarRelationFilter, Prisma.ShoppingListWhereInput>
+}, "id">
+
+export type ShoppingListItemOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  shoppingListId?: Prisma.SortOrder
+  productId?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipeId?: Prisma.SortOrderInput | Prisma.SortOrder
+  name?: Prisma.SortOrder
+  quantity?: Prisma.SortOrderInput | Prisma.SortOrder
+  unit?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ShoppingListItemCountOrderByAggregateInput
+  _avg?: Prisma.ShoppingListItemAvgOrderByAggregateInput
+  _max?: Prisma.ShoppingListItemMaxOrderByAggregateInput
+  _min?: Prisma.ShoppingListItemMinOrderByAggregateInput
+  _sum?: Prisma.ShoppingListItemSumOrderByAggregateInput
+}
+
+export type ShoppingListItemScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ShoppingListItemScalarWhereWithAggregatesInput | Prisma.ShoppingListItemScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ShoppingListItemScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ShoppingListItemScalarWhereWithAggregatesInput | Prisma.ShoppingListItemScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ShoppingListItem"> | string
+  shoppingListId?: Prisma.StringWithAggregatesFilter<"ShoppingListItem"> | string
+  productId?: Prisma.StringNullableWithAggregatesFilter<"ShoppingListItem"> | string | null
+  recipeId?: Prisma.StringNullableWithAggregatesFilter<"ShoppingListItem"> | string | null
+  name?: Prisma.StringWithAggregatesFilter<"ShoppingListItem"> | string
+  quantity?: Prisma.FloatNullableWithAggregatesFilter<"ShoppingListItem"> | number | null
+  unit?: Prisma.StringNullableWithAggregatesFilter<"ShoppingListItem"> | string | null
+  notes?: Prisma.StringNullableWithAggregatesFilter<"ShoppingListItem"> | string | null
+  source?: Prisma.EnumShoppingListItemSourceWithAggregatesFilter<"ShoppingListItem"> | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ShoppingListItem"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ShoppingListItem"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ShoppingListItem"> | Date | string
+}
+
+export type ShoppingListItemCreateInput = {
+  id: string
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Product?: Prisma.ProductCreateNestedOneWithoutShoppingListItemInput
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutShoppingListItemInput
+  ShoppingList: Prisma.ShoppingListCreateNestedOneWithoutShoppingListItemInput
+}
+
+export type ShoppingListItemUncheckedCreateInput = {
+  id: string
+  shoppingListId: string
+  productId?: string | null
+  recipeId?: string | null
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListItemUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneWithoutShoppingListItemNestedInput
+  Recipe?: Prisma.RecipeUpdateOneWithoutShoppingListItemNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneRequiredWithoutShoppingListItemNestedInput
+}
+
+export type ShoppingListItemUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shoppingListId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListItemCreateManyInput = {
+  id: string
+  shoppingListId: string
+  productId?: string | null
+  recipeId?: string | null
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListItemUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListItemUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shoppingListId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListItemListRelationFilter = {
+  every?: Prisma.ShoppingListItemWhereInput
+  some?: Prisma.ShoppingListItemWhereInput
+  none?: Prisma.ShoppingListItemWhereInput
+}
+
+export type ShoppingListItemOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ShoppingListItemCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shoppingListId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  recipeId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShoppingListItemAvgOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type ShoppingListItemMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shoppingListId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  recipeId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShoppingListItemMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  shoppingListId?: Prisma.SortOrder
+  productId?: Prisma.SortOrder
+  recipeId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  quantity?: Prisma.SortOrder
+  unit?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  checkedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ShoppingListItemSumOrderByAggregateInput = {
+  quantity?: Prisma.SortOrder
+}
+
+export type ShoppingListItemCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutProductInput, Prisma.ShoppingListItemUncheckedCreateWithoutProductInput> | Prisma.ShoppingListItemCreateWithoutProductInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutProductInput | Prisma.ShoppingListItemCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyProductInputEnvelope
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+}
+
+export type ShoppingListItemUncheckedCreateNestedManyWithoutProductInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutProductInput, Prisma.ShoppingListItemUncheckedCreateWithoutProductInput> | Prisma.ShoppingListItemCreateWithoutProductInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutProductInput | Prisma.ShoppingListItemCreateOrConnectWithoutProductInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyProductInputEnvelope
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+}
+
+export type ShoppingListItemUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutProductInput, Prisma.ShoppingListItemUncheckedCreateWithoutProductInput> | Prisma.ShoppingListItemCreateWithoutProductInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutProductInput | Prisma.ShoppingListItemCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutProductInput | Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyProductInputEnvelope
+  set?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  disconnect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  delete?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  update?: Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutProductInput | Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ShoppingListItemUpdateManyWithWhereWithoutProductInput | Prisma.ShoppingListItemUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ShoppingListItemScalarWhereInput | Prisma.ShoppingListItemScalarWhereInput[]
+}
+
+export type ShoppingListItemUncheckedUpdateManyWithoutProductNestedInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutProductInput, Prisma.ShoppingListItemUncheckedCreateWithoutProductInput> | Prisma.ShoppingListItemCreateWithoutProductInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutProductInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutProductInput | Prisma.ShoppingListItemCreateOrConnectWithoutProductInput[]
+  upsert?: Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutProductInput | Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutProductInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyProductInputEnvelope
+  set?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  disconnect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  delete?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  update?: Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutProductInput | Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutProductInput[]
+  updateMany?: Prisma.ShoppingListItemUpdateManyWithWhereWithoutProductInput | Prisma.ShoppingListItemUpdateManyWithWhereWithoutProductInput[]
+  deleteMany?: Prisma.ShoppingListItemScalarWhereInput | Prisma.ShoppingListItemScalarWhereInput[]
+}
+
+export type ShoppingListItemCreateNestedManyWithoutRecipeInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutRecipeInput, Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput> | Prisma.ShoppingListItemCreateWithoutRecipeInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutRecipeInput | Prisma.ShoppingListItemCreateOrConnectWithoutRecipeInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyRecipeInputEnvelope
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+}
+
+export type ShoppingListItemUncheckedCreateNestedManyWithoutRecipeInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutRecipeInput, Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput> | Prisma.ShoppingListItemCreateWithoutRecipeInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutRecipeInput | Prisma.ShoppingListItemCreateOrConnectWithoutRecipeInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyRecipeInputEnvelope
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+}
+
+export type ShoppingListItemUpdateManyWithoutRecipeNestedInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutRecipeInput, Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput> | Prisma.ShoppingListItemCreateWithoutRecipeInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutRecipeInput | Prisma.ShoppingListItemCreateOrConnectWithoutRecipeInput[]
+  upsert?: Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutRecipeInput | Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutRecipeInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyRecipeInputEnvelope
+  set?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  disconnect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  delete?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  update?: Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutRecipeInput | Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutRecipeInput[]
+  updateMany?: Prisma.ShoppingListItemUpdateManyWithWhereWithoutRecipeInput | Prisma.ShoppingListItemUpdateManyWithWhereWithoutRecipeInput[]
+  deleteMany?: Prisma.ShoppingListItemScalarWhereInput | Prisma.ShoppingListItemScalarWhereInput[]
+}
+
+export type ShoppingListItemUncheckedUpdateManyWithoutRecipeNestedInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutRecipeInput, Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput> | Prisma.ShoppingListItemCreateWithoutRecipeInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutRecipeInput | Prisma.ShoppingListItemCreateOrConnectWithoutRecipeInput[]
+  upsert?: Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutRecipeInput | Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutRecipeInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyRecipeInputEnvelope
+  set?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  disconnect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  delete?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  update?: Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutRecipeInput | Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutRecipeInput[]
+  updateMany?: Prisma.ShoppingListItemUpdateManyWithWhereWithoutRecipeInput | Prisma.ShoppingListItemUpdateManyWithWhereWithoutRecipeInput[]
+  deleteMany?: Prisma.ShoppingListItemScalarWhereInput | Prisma.ShoppingListItemScalarWhereInput[]
+}
+
+export type ShoppingListItemCreateNestedManyWithoutShoppingListInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutShoppingListInput, Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput> | Prisma.ShoppingListItemCreateWithoutShoppingListInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutShoppingListInput | Prisma.ShoppingListItemCreateOrConnectWithoutShoppingListInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyShoppingListInputEnvelope
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+}
+
+export type ShoppingListItemUncheckedCreateNestedManyWithoutShoppingListInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutShoppingListInput, Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput> | Prisma.ShoppingListItemCreateWithoutShoppingListInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutShoppingListInput | Prisma.ShoppingListItemCreateOrConnectWithoutShoppingListInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyShoppingListInputEnvelope
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+}
+
+export type ShoppingListItemUpdateManyWithoutShoppingListNestedInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutShoppingListInput, Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput> | Prisma.ShoppingListItemCreateWithoutShoppingListInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutShoppingListInput | Prisma.ShoppingListItemCreateOrConnectWithoutShoppingListInput[]
+  upsert?: Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutShoppingListInput | Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutShoppingListInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyShoppingListInputEnvelope
+  set?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  disconnect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  delete?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  update?: Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutShoppingListInput | Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutShoppingListInput[]
+  updateMany?: Prisma.ShoppingListItemUpdateManyWithWhereWithoutShoppingListInput | Prisma.ShoppingListItemUpdateManyWithWhereWithoutShoppingListInput[]
+  deleteMany?: Prisma.ShoppingListItemScalarWhereInput | Prisma.ShoppingListItemScalarWhereInput[]
+}
+
+export type ShoppingListItemUncheckedUpdateManyWithoutShoppingListNestedInput = {
+  create?: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutShoppingListInput, Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput> | Prisma.ShoppingListItemCreateWithoutShoppingListInput[] | Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput[]
+  connectOrCreate?: Prisma.ShoppingListItemCreateOrConnectWithoutShoppingListInput | Prisma.ShoppingListItemCreateOrConnectWithoutShoppingListInput[]
+  upsert?: Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutShoppingListInput | Prisma.ShoppingListItemUpsertWithWhereUniqueWithoutShoppingListInput[]
+  createMany?: Prisma.ShoppingListItemCreateManyShoppingListInputEnvelope
+  set?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  disconnect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  delete?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  connect?: Prisma.ShoppingListItemWhereUniqueInput | Prisma.ShoppingListItemWhereUniqueInput[]
+  update?: Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutShoppingListInput | Prisma.ShoppingListItemUpdateWithWhereUniqueWithoutShoppingListInput[]
+  updateMany?: Prisma.ShoppingListItemUpdateManyWithWhereWithoutShoppingListInput | Prisma.ShoppingListItemUpdateManyWithWhereWithoutShoppingListInput[]
+  deleteMany?: Prisma.ShoppingListItemScalarWhereInput | Prisma.ShoppingListItemScalarWhereInput[]
+}
+
+export type EnumShoppingListItemSourceFieldUpdateOperationsInput = {
+  set?: $Enums.ShoppingListItemSource
+}
+
+export type ShoppingListItemCreateWithoutProductInput = {
+  id: string
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutShoppingListItemInput
+  ShoppingList: Prisma.ShoppingListCreateNestedOneWithoutShoppingListItemInput
+}
+
+export type ShoppingListItemUncheckedCreateWithoutProductInput = {
+  id: string
+  shoppingListId: string
+  recipeId?: string | null
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListItemCreateOrConnectWithoutProductInput = {
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutProductInput, Prisma.ShoppingListItemUncheckedCreateWithoutProductInput>
+}
+
+export type ShoppingListItemCreateManyProductInputEnvelope = {
+  data: Prisma.ShoppingListItemCreateManyProductInput | Prisma.ShoppingListItemCreateManyProductInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShoppingListItemUpsertWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShoppingListItemUpdateWithoutProductInput, Prisma.ShoppingListItemUncheckedUpdateWithoutProductInput>
+  create: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutProductInput, Prisma.ShoppingListItemUncheckedCreateWithoutProductInput>
+}
+
+export type ShoppingListItemUpdateWithWhereUniqueWithoutProductInput = {
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShoppingListItemUpdateWithoutProductInput, Prisma.ShoppingListItemUncheckedUpdateWithoutProductInput>
+}
+
+export type ShoppingListItemUpdateManyWithWhereWithoutProductInput = {
+  where: Prisma.ShoppingListItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ShoppingListItemUpdateManyMutationInput, Prisma.ShoppingListItemUncheckedUpdateManyWithoutProductInput>
+}
+
+export type ShoppingListItemScalarWhereInput = {
+  AND?: Prisma.ShoppingListItemScalarWhereInput | Prisma.ShoppingListItemScalarWhereInput[]
+  OR?: Prisma.ShoppingListItemScalarWhereInput[]
+  NOT?: Prisma.ShoppingListItemScalarWhereInput | Prisma.ShoppingListItemScalarWhereInput[]
+  id?: Prisma.StringFilter<"ShoppingListItem"> | string
+  shoppingListId?: Prisma.StringFilter<"ShoppingListItem"> | string
+  productId?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  recipeId?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  name?: Prisma.StringFilter<"ShoppingListItem"> | string
+  quantity?: Prisma.FloatNullableFilter<"ShoppingListItem"> | number | null
+  unit?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  notes?: Prisma.StringNullableFilter<"ShoppingListItem"> | string | null
+  source?: Prisma.EnumShoppingListItemSourceFilter<"ShoppingListItem"> | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.DateTimeNullableFilter<"ShoppingListItem"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"ShoppingListItem"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ShoppingListItem"> | Date | string
+}
+
+export type ShoppingListItemCreateWithoutRecipeInput = {
+  id: string
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Product?: Prisma.ProductCreateNestedOneWithoutShoppingListItemInput
+  ShoppingList: Prisma.ShoppingListCreateNestedOneWithoutShoppingListItemInput
+}
+
+export type ShoppingListItemUncheckedCreateWithoutRecipeInput = {
+  id: string
+  shoppingListId: string
+  productId?: string | null
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListItemCreateOrConnectWithoutRecipeInput = {
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutRecipeInput, Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput>
+}
+
+export type ShoppingListItemCreateManyRecipeInputEnvelope = {
+  data: Prisma.ShoppingListItemCreateManyRecipeInput | Prisma.ShoppingListItemCreateManyRecipeInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShoppingListItemUpsertWithWhereUniqueWithoutRecipeInput = {
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShoppingListItemUpdateWithoutRecipeInput, Prisma.ShoppingListItemUncheckedUpdateWithoutRecipeInput>
+  create: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutRecipeInput, Prisma.ShoppingListItemUncheckedCreateWithoutRecipeInput>
+}
+
+export type ShoppingListItemUpdateWithWhereUniqueWithoutRecipeInput = {
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShoppingListItemUpdateWithoutRecipeInput, Prisma.ShoppingListItemUncheckedUpdateWithoutRecipeInput>
+}
+
+export type ShoppingListItemUpdateManyWithWhereWithoutRecipeInput = {
+  where: Prisma.ShoppingListItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ShoppingListItemUpdateManyMutationInput, Prisma.ShoppingListItemUncheckedUpdateManyWithoutRecipeInput>
+}
+
+export type ShoppingListItemCreateWithoutShoppingListInput = {
+  id: string
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+  Product?: Prisma.ProductCreateNestedOneWithoutShoppingListItemInput
+  Recipe?: Prisma.RecipeCreateNestedOneWithoutShoppingListItemInput
+}
+
+export type ShoppingListItemUncheckedCreateWithoutShoppingListInput = {
+  id: string
+  productId?: string | null
+  recipeId?: string | null
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListItemCreateOrConnectWithoutShoppingListInput = {
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutShoppingListInput, Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput>
+}
+
+export type ShoppingListItemCreateManyShoppingListInputEnvelope = {
+  data: Prisma.ShoppingListItemCreateManyShoppingListInput | Prisma.ShoppingListItemCreateManyShoppingListInput[]
+  skipDuplicates?: boolean
+}
+
+export type ShoppingListItemUpsertWithWhereUniqueWithoutShoppingListInput = {
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.ShoppingListItemUpdateWithoutShoppingListInput, Prisma.ShoppingListItemUncheckedUpdateWithoutShoppingListInput>
+  create: Prisma.XOR<Prisma.ShoppingListItemCreateWithoutShoppingListInput, Prisma.ShoppingListItemUncheckedCreateWithoutShoppingListInput>
+}
+
+export type ShoppingListItemUpdateWithWhereUniqueWithoutShoppingListInput = {
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.ShoppingListItemUpdateWithoutShoppingListInput, Prisma.ShoppingListItemUncheckedUpdateWithoutShoppingListInput>
+}
+
+export type ShoppingListItemUpdateManyWithWhereWithoutShoppingListInput = {
+  where: Prisma.ShoppingListItemScalarWhereInput
+  data: Prisma.XOR<Prisma.ShoppingListItemUpdateManyMutationInput, Prisma.ShoppingListItemUncheckedUpdateManyWithoutShoppingListInput>
+}
+
+export type ShoppingListItemCreateManyProductInput = {
+  id: string
+  shoppingListId: string
+  recipeId?: string | null
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListItemUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Recipe?: Prisma.RecipeUpdateOneWithoutShoppingListItemNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneRequiredWithoutShoppingListItemNestedInput
+}
+
+export type ShoppingListItemUncheckedUpdateWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shoppingListId?: Prisma.StringFieldUpdateOperationsInput | string
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListItemUncheckedUpdateManyWithoutProductInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shoppingListId?: Prisma.StringFieldUpdateOperationsInput | string
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListItemCreateManyRecipeInput = {
+  id: string
+  shoppingListId: string
+  productId?: string | null
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListItemUpdateWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneWithoutShoppingListItemNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneRequiredWithoutShoppingListItemNestedInput
+}
+
+export type ShoppingListItemUncheckedUpdateWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shoppingListId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListItemUncheckedUpdateManyWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  shoppingListId?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListItemCreateManyShoppingListInput = {
+  id: string
+  productId?: string | null
+  recipeId?: string | null
+  name: string
+  quantity?: number | null
+  unit?: string | null
+  notes?: string | null
+  source?: $Enums.ShoppingListItemSource
+  checkedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type ShoppingListItemUpdateWithoutShoppingListInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  Product?: Prisma.ProductUpdateOneWithoutShoppingListItemNestedInput
+  Recipe?: Prisma.RecipeUpdateOneWithoutShoppingListItemNestedInput
+}
+
+export type ShoppingListItemUncheckedUpdateWithoutShoppingListInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ShoppingListItemUncheckedUpdateManyWithoutShoppingListInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  productId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipeId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  quantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  unit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  source?: Prisma.EnumShoppingListItemSourceFieldUpdateOperationsInput | $Enums.ShoppingListItemSource
+  checkedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ShoppingListItemSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shoppingListId?: boolean
+  productId?: boolean
+  recipeId?: boolean
+  name?: boolean
+  quantity?: boolean
+  unit?: boolean
+  notes?: boolean
+  source?: boolean
+  checkedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  Product?: boolean | Prisma.ShoppingListItem$ProductArgs<ExtArgs>
+  Recipe?: boolean | Prisma.ShoppingListItem$RecipeArgs<ExtArgs>
+  ShoppingList?: boolean | Prisma.ShoppingListDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shoppingListItem"]>
+
+export type ShoppingListItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shoppingListId?: boolean
+  productId?: boolean
+  recipeId?: boolean
+  name?: boolean
+  quantity?: boolean
+  unit?: boolean
+  notes?: boolean
+  source?: boolean
+  checkedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  Product?: boolean | Prisma.ShoppingListItem$ProductArgs<ExtArgs>
+  Recipe?: boolean | Prisma.ShoppingListItem$RecipeArgs<ExtArgs>
+  ShoppingList?: boolean | Prisma.ShoppingListDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shoppingListItem"]>
+
+export type ShoppingListItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  shoppingListId?: boolean
+  productId?: boolean
+  recipeId?: boolean
+  name?: boolean
+  quantity?: boolean
+  unit?: boolean
+  notes?: boolean
+  source?: boolean
+  checkedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  Product?: boolean | Prisma.ShoppingListItem$ProductArgs<ExtArgs>
+  Recipe?: boolean | Prisma.ShoppingListItem$RecipeArgs<ExtArgs>
+  ShoppingList?: boolean | Prisma.ShoppingListDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["shoppingListItem"]>
+
+export type ShoppingListItemSelectScalar = {
+  id?: boolean
+  shoppingListId?: boolean
+  productId?: boolean
+  recipeId?: boolean
+  name?: boolean
+  quantity?: boolean
+  unit?: boolean
+  notes?: boolean
+  source?: boolean
+  checkedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ShoppingListItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "shoppingListId" | "productId" | "recipeId" | "name" | "quantity" | "unit" | "notes" | "source" | "checkedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["shoppingListItem"]>
+export type ShoppingListItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Product?: boolean | Prisma.ShoppingListItem$ProductArgs<ExtArgs>
+  Recipe?: boolean | Prisma.ShoppingListItem$RecipeArgs<ExtArgs>
+  ShoppingList?: boolean | Prisma.ShoppingListDefaultArgs<ExtArgs>
+}
+export type ShoppingListItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Product?: boolean | Prisma.ShoppingListItem$ProductArgs<ExtArgs>
+  Recipe?: boolean | Prisma.ShoppingListItem$RecipeArgs<ExtArgs>
+  ShoppingList?: boolean | Prisma.ShoppingListDefaultArgs<ExtArgs>
+}
+export type ShoppingListItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  Product?: boolean | Prisma.ShoppingListItem$ProductArgs<ExtArgs>
+  Recipe?: boolean | Prisma.ShoppingListItem$RecipeArgs<ExtArgs>
+  ShoppingList?: boolean | Prisma.ShoppingListDefaultArgs<ExtArgs>
+}
+
+export type $ShoppingListItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ShoppingListItem"
+  objects: {
+    Product: Prisma.$ProductPayload<ExtArgs> | null
+    Recipe: Prisma.$RecipePayload<ExtArgs> | null
+    ShoppingList: Prisma.$ShoppingListPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    shoppingListId: string
+    productId: string | null
+    recipeId: string | null
+    name: string
+    quantity: number | null
+    unit: string | null
+    notes: string | null
+    source: $Enums.ShoppingListItemSource
+    checkedAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["shoppingListItem"]>
+  composites: {}
+}
+
+export type ShoppingListItemGetPayload<S extends boolean | null | undefined | ShoppingListItemDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload, S>
+
+export type ShoppingListItemCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ShoppingListItemFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ShoppingListItemCountAggregateInputType | true
+  }
+
+export interface ShoppingListItemDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ShoppingListItem'], meta: { name: 'ShoppingListItem' } }
+  /**
+   * Find zero or one ShoppingListItem that matches the filter.
+   * @param {ShoppingListItemFindUniqueArgs} args - Arguments to find a ShoppingListItem
+   * @example
+   * // Get one ShoppingListItem
+   * const shoppingListItem = await prisma.shoppingListItem.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ShoppingListItemFindUniqueArgs>(args: Prisma.SelectSubset<T, ShoppingListItemFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ShoppingListItemClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ShoppingListItem that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ShoppingListItemFindUniqueOrThrowArgs} args - Arguments to find a ShoppingListItem
+   * @example
+   * // Get one ShoppingListItem
+   * const shoppingListItem = await prisma.shoppingListItem.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ShoppingListItemFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ShoppingListItemFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShoppingListItemClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShoppingListItem that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListItemFindFirstArgs} args - Arguments to find a ShoppingListItem
+   * @example
+   * // Get one ShoppingListItem
+   * const shoppingListItem = await prisma.shoppingListItem.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ShoppingListItemFindFirstArgs>(args?: Prisma.SelectSubset<T, ShoppingListItemFindFirstArgs<ExtArgs>>): Prisma.Prisma__ShoppingListItemClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ShoppingListItem that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListItemFindFirstOrThrowArgs} args - Arguments to find a ShoppingListItem
+   * @example
+   * // Get one ShoppingListItem
+   * const shoppingListItem = await prisma.shoppingListItem.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ShoppingListItemFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ShoppingListItemFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ShoppingListItemClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ShoppingListItems that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListItemFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ShoppingListItems
+   * const shoppingListItems = await prisma.shoppingListItem.findMany()
+   * 
+   * // Get first 10 ShoppingListItems
+   * const shoppingListItems = await prisma.shoppingListItem.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const shoppingListItemWithIdOnly = await prisma.shoppingListItem.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ShoppingListItemFindManyArgs>(args?: Prisma.SelectSubset<T, ShoppingListItemFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ShoppingListItem.
+   * @param {ShoppingListItemCreateArgs} args - Arguments to create a ShoppingListItem.
+   * @example
+   * // Create one ShoppingListItem
+   * const ShoppingListItem = await prisma.shoppingListItem.create({
+   *   data: {
+   *     // ... data to create a ShoppingListItem
+   *   }
+   * })
+   * 
+   */
+  create<T extends ShoppingListItemCreateArgs>(args: Prisma.SelectSubset<T, ShoppingListItemCreateArgs<ExtArgs>>): Prisma.Prisma__ShoppingListItemClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ShoppingListItems.
+   * @param {ShoppingListItemCreateManyArgs} args - Arguments to create many ShoppingListItems.
+   * @example
+   * // Create many ShoppingListItems
+   * const shoppingListItem = await prisma.shoppingListItem.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ShoppingListItemCreateManyArgs>(args?: Prisma.SelectSubset<T, ShoppingListItemCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ShoppingListItems and returns the data saved in the database.
+   * @param {ShoppingListItemCreateManyAndReturnArgs} args - Arguments to create many ShoppingListItems.
+   * @example
+   * // Create many ShoppingListItems
+   * const shoppingListItem = await prisma.shoppingListItem.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ShoppingListItems and only return the `id`
+   * const shoppingListItemWithIdOnly = await prisma.shoppingListItem.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ShoppingListItemCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ShoppingListItemCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ShoppingListItem.
+   * @param {ShoppingListItemDeleteArgs} args - Arguments to delete one ShoppingListItem.
+   * @example
+   * // Delete one ShoppingListItem
+   * const ShoppingListItem = await prisma.shoppingListItem.delete({
+   *   where: {
+   *     // ... filter to delete one ShoppingListItem
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ShoppingListItemDeleteArgs>(args: Prisma.SelectSubset<T, ShoppingListItemDeleteArgs<ExtArgs>>): Prisma.Prisma__ShoppingListItemClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ShoppingListItem.
+   * @param {ShoppingListItemUpdateArgs} args - Arguments to update one ShoppingListItem.
+   * @example
+   * // Update one ShoppingListItem
+   * const shoppingListItem = await prisma.shoppingListItem.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ShoppingListItemUpdateArgs>(args: Prisma.SelectSubset<T, ShoppingListItemUpdateArgs<ExtArgs>>): Prisma.Prisma__ShoppingListItemClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ShoppingListItems.
+   * @param {ShoppingListItemDeleteManyArgs} args - Arguments to filter ShoppingListItems to delete.
+   * @example
+   * // Delete a few ShoppingListItems
+   * const { count } = await prisma.shoppingListItem.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ShoppingListItemDeleteManyArgs>(args?: Prisma.SelectSubset<T, ShoppingListItemDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShoppingListItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListItemUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ShoppingListItems
+   * const shoppingListItem = await prisma.shoppingListItem.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ShoppingListItemUpdateManyArgs>(args: Prisma.SelectSubset<T, ShoppingListItemUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ShoppingListItems and returns the data updated in the database.
+   * @param {ShoppingListItemUpdateManyAndReturnArgs} args - Arguments to update many ShoppingListItems.
+   * @example
+   * // Update many ShoppingListItems
+   * const shoppingListItem = await prisma.shoppingListItem.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ShoppingListItems and only return the `id`
+   * const shoppingListItemWithIdOnly = await prisma.shoppingListItem.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ShoppingListItemUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ShoppingListItemUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ShoppingListItem.
+   * @param {ShoppingListItemUpsertArgs} args - Arguments to update or create a ShoppingListItem.
+   * @example
+   * // Update or create a ShoppingListItem
+   * const shoppingListItem = await prisma.shoppingListItem.upsert({
+   *   create: {
+   *     // ... data to create a ShoppingListItem
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ShoppingListItem we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ShoppingListItemUpsertArgs>(args: Prisma.SelectSubset<T, ShoppingListItemUpsertArgs<ExtArgs>>): Prisma.Prisma__ShoppingListItemClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListItemPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ShoppingListItems.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListItemCountArgs} args - Arguments to filter ShoppingListItems to count.
+   * @example
+   * // Count the number of ShoppingListItems
+   * const count = await prisma.shoppingListItem.count({
+   *   where: {
+   *     // ... the filter for the ShoppingListItems we want to count
+   *   }
+   * })
+  **/
+  count<T extends ShoppingListItemCountArgs>(
+    args?: Prisma.Subset<T, ShoppingListItemCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ShoppingListItemCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ShoppingListItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListItemAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ShoppingListItemAggregateArgs>(args: Prisma.Subset<T, ShoppingListItemAggregateArgs>): Prisma.PrismaPromise<GetShoppingListItemAggregateType<T>>
+
+  /**
+   * Group by ShoppingListItem.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ShoppingListItemGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ShoppingListItemGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ShoppingListItemGroupByArgs['orderBy'] }
+      : { orderBy?: ShoppingListItemGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ShoppingListItemGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetShoppingListItemGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ShoppingListItem model
+ */
+readonly fields: ShoppingListItemFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ShoppingListItem.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ShoppingListItemClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  Product<T extends Prisma.ShoppingListItem$ProductArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShoppingListItem$ProductArgs<ExtArgs>>): Prisma.Prisma__ProductClient<runtime.Types.Result.GetResult<Prisma.$ProductPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  Recipe<T extends Prisma.ShoppingListItem$RecipeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShoppingListItem$RecipeArgs<ExtArgs>>): Prisma.Prisma__RecipeClient<runtime.Types.Result.GetResult<Prisma.$RecipePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  ShoppingList<T extends Prisma.ShoppingListDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ShoppingListDefaultArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ShoppingListItem model
+ */
+export interface ShoppingListItemFieldRefs {
+  readonly id: Prisma.FieldRef<"ShoppingListItem", 'String'>
+  readonly shoppingListId: Prisma.FieldRef<"ShoppingListItem", 'String'>
+  readonly productId: Prisma.FieldRef<"ShoppingListItem", 'String'>
+  readonly recipeId: Prisma.FieldRef<"ShoppingListItem", 'String'>
+  readonly name: Prisma.FieldRef<"ShoppingListItem", 'String'>
+  readonly quantity: Prisma.FieldRef<"ShoppingListItem", 'Float'>
+  readonly unit: Prisma.FieldRef<"ShoppingListItem", 'String'>
+  readonly notes: Prisma.FieldRef<"ShoppingListItem", 'String'>
+  readonly source: Prisma.FieldRef<"ShoppingListItem", 'ShoppingListItemSource'>
+  readonly checkedAt: Prisma.FieldRef<"ShoppingListItem", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ShoppingListItem", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ShoppingListItem", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ShoppingListItem findUnique
+ */
+export type ShoppingListItemFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingListItem to fetch.
+   */
+  where: Prisma.ShoppingListItemWhereUniqueInput
+}
+
+/**
+ * ShoppingListItem findUniqueOrThrow
+ */
+export type ShoppingListItemFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingListItem to fetch.
+   */
+  where: Prisma.ShoppingListItemWhereUniqueInput
+}
+
+/**
+ * ShoppingListItem findFirst
+ */
+export type ShoppingListItemFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingListItem to fetch.
+   */
+  where?: Prisma.ShoppingListItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShoppingListItems to fetch.
+   */
+  orderBy?: Prisma.ShoppingListItemOrderByWithRelationInput | Prisma.ShoppingListItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShoppingListItems.
+   */
+  cursor?: Prisma.ShoppingListItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShoppingListItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShoppingListItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShoppingListItems.
+   */
+  distinct?: Prisma.ShoppingListItemScalarFieldEnum | Prisma.ShoppingListItemScalarFieldEnum[]
+}
+
+/**
+ * ShoppingListItem findFirstOrThrow
+ */
+export type ShoppingListItemFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingListItem to fetch.
+   */
+  where?: Prisma.ShoppingListItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShoppingListItems to fetch.
+   */
+  orderBy?: Prisma.ShoppingListItemOrderByWithRelationInput | Prisma.ShoppingListItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ShoppingListItems.
+   */
+  cursor?: Prisma.ShoppingListItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShoppingListItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShoppingListItems.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ShoppingListItems.
+   */
+  distinct?: Prisma.ShoppingListItemScalarFieldEnum | Prisma.ShoppingListItemScalarFieldEnum[]
+}
+
+/**
+ * ShoppingListItem findMany
+ */
+export type ShoppingListItemFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  /**
+   * Filter, which ShoppingListItems to fetch.
+   */
+  where?: Prisma.ShoppingListItemWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ShoppingListItems to fetch.
+   */
+  orderBy?: Prisma.ShoppingListItemOrderByWithRelationInput | Prisma.ShoppingListItemOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ShoppingListItems.
+   */
+  cursor?: Prisma.ShoppingListItemWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ShoppingListItems from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ShoppingListItems.
+   */
+  skip?: number
+  distinct?: Prisma.ShoppingListItemScalarFieldEnum | Prisma.ShoppingListItemScalarFieldEnum[]
+}
+
+/**
+ * ShoppingListItem create
+ */
+export type ShoppingListItemCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ShoppingListItem.
+   */
+  data: Prisma.XOR<Prisma.ShoppingListItemCreateInput, Prisma.ShoppingListItemUncheckedCreateInput>
+}
+
+/**
+ * ShoppingListItem createMany
+ */
+export type ShoppingListItemCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ShoppingListItems.
+   */
+  data: Prisma.ShoppingListItemCreateManyInput | Prisma.ShoppingListItemCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ShoppingListItem createManyAndReturn
+ */
+export type ShoppingListItemCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * The data used to create many ShoppingListItems.
+   */
+  data: Prisma.ShoppingListItemCreateManyInput | Prisma.ShoppingListItemCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShoppingListItem update
+ */
+export type ShoppingListItemUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ShoppingListItem.
+   */
+  data: Prisma.XOR<Prisma.ShoppingListItemUpdateInput, Prisma.ShoppingListItemUncheckedUpdateInput>
+  /**
+   * Choose, which ShoppingListItem to update.
+   */
+  where: Prisma.ShoppingListItemWhereUniqueInput
+}
+
+/**
+ * ShoppingListItem updateMany
+ */
+export type ShoppingListItemUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ShoppingListItems.
+   */
+  data: Prisma.XOR<Prisma.ShoppingListItemUpdateManyMutationInput, Prisma.ShoppingListItemUncheckedUpdateManyInput>
+  /**
+   * Filter which ShoppingListItems to update
+   */
+  where?: Prisma.ShoppingListItemWhereInput
+  /**
+   * Limit how many ShoppingListItems to update.
+   */
+  limit?: number
+}
+
+/**
+ * ShoppingListItem updateManyAndReturn
+ */
+export type ShoppingListItemUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * The data used to update ShoppingListItems.
+   */
+  data: Prisma.XOR<Prisma.ShoppingListItemUpdateManyMutationInput, Prisma.ShoppingListItemUncheckedUpdateManyInput>
+  /**
+   * Filter which ShoppingListItems to update
+   */
+  where?: Prisma.ShoppingListItemWhereInput
+  /**
+   * Limit how many ShoppingListItems to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ShoppingListItem upsert
+ */
+export type ShoppingListItemUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ShoppingListItem to update in case it exists.
+   */
+  where: Prisma.ShoppingListItemWhereUniqueInput
+  /**
+   * In case the ShoppingListItem found by the `where` argument doesn't exist, create a new ShoppingListItem with this data.
+   */
+  create: Prisma.XOR<Prisma.ShoppingListItemCreateInput, Prisma.ShoppingListItemUncheckedCreateInput>
+  /**
+   * In case the ShoppingListItem was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ShoppingListItemUpdateInput, Prisma.ShoppingListItemUncheckedUpdateInput>
+}
+
+/**
+ * ShoppingListItem delete
+ */
+export type ShoppingListItemDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+  /**
+   * Filter which ShoppingListItem to delete.
+   */
+  where: Prisma.ShoppingListItemWhereUniqueInput
+}
+
+/**
+ * ShoppingListItem deleteMany
+ */
+export type ShoppingListItemDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ShoppingListItems to delete
+   */
+  where?: Prisma.ShoppingListItemWhereInput
+  /**
+   * Limit how many ShoppingListItems to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ShoppingListItem.Product
+ */
+export type ShoppingListItem$ProductArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Product
+   */
+  select?: Prisma.ProductSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Product
+   */
+  omit?: Prisma.ProductOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductInclude<ExtArgs> | null
+  where?: Prisma.ProductWhereInput
+}
+
+/**
+ * ShoppingListItem.Recipe
+ */
+export type ShoppingListItem$RecipeArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Recipe
+   */
+  select?: Prisma.RecipeSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Recipe
+   */
+  omit?: Prisma.RecipeOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecipeInclude<ExtArgs> | null
+  where?: Prisma.RecipeWhereInput
+}
+
+/**
+ * ShoppingListItem without action
+ */
+export type ShoppingListItemDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingListItem
+   */
+  select?: Prisma.ShoppingListItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingListItem
+   */
+  omit?: Prisma.ShoppingListItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListItemInclude<ExtArgs> | null
+}
@@ -0,0 +1,1381 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `StorageLocation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model StorageLocation
+ * 
+ */
+export type StorageLocationModel = runtime.Types.Result.DefaultSelection<Prisma.$StorageLocationPayload>
+
+export type AggregateStorageLocation = {
+  _count: StorageLocationCountAggregateOutputType | null
+  _min: StorageLocationMinAggregateOutputType | null
+  _max: StorageLocationMaxAggregateOutputType | null
+}
+
+export type StorageLocationMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  name: string | null
+  storageGroup: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type StorageLocationMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  name: string | null
+  storageGroup: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type StorageLocationCountAggregateOutputType = {
+  id: number
+  userId: number
+  name: number
+  storageGroup: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type StorageLocationMinAggregateInputType = {
+  id?: true
+  userId?: true
+  name?: true
+  storageGroup?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type StorageLocationMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  name?: true
+  storageGroup?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type StorageLocationCountAggregateInputType = {
+  id?: true
+  userId?: true
+  name?: true
+  storageGroup?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type StorageLocationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which StorageLocation to aggregate.
+   */
+  where?: Prisma.StorageLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StorageLocations to fetch.
+   */
+  orderBy?: Prisma.StorageLocationOrderByWithRelationInput | Prisma.StorageLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.StorageLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StorageLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StorageLocations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned StorageLocations
+  **/
+  _count?: true | StorageLocationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: StorageLocationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: StorageLocationMaxAggregateInputType
+}
+
+export type GetStorageLocationAggregateType<T extends StorageLocationAggregateArgs> = {
+      [P in keyof T & keyof AggregateStorageLocation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateStorageLocation[P]>
+    : Prisma.GetScalarType<T[P], AggregateStorageLocation[P]>
+}
+
+
+
+
+export type StorageLocationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StorageLocationWhereInput
+  orderBy?: Prisma.StorageLocationOrderByWithAggregationInput | Prisma.StorageLocationOrderByWithAggregationInput[]
+  by: Prisma.StorageLocationScalarFieldEnum[] | Prisma.StorageLocationScalarFieldEnum
+  having?: Prisma.StorageLocationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: StorageLocationCountAggregateInputType | true
+  _min?: StorageLocationMinAggregateInputType
+  _max?: StorageLocationMaxAggregateInputType
+}
+
+export type StorageLocationGroupByOutputType = {
+  id: string
+  userId: string
+  name: string
+  storageGroup: string
+  createdAt: Date
+  updatedAt: Date
+  _count: StorageLocationCountAggregateOutputType | null
+  _min: StorageLocationMinAggregateOutputType | null
+  _max: StorageLocationMaxAggregateOutputType | null
+}
+
+type GetStorageLocationGroupByPayload<T extends StorageLocationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<StorageLocationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof StorageLocationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], StorageLocationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], StorageLocationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type StorageLocationWhereInput = {
+  AND?: Prisma.StorageLocationWhereInput | Prisma.StorageLocationWhereInput[]
+  OR?: Prisma.StorageLocationWhereInput[]
+  NOT?: Prisma.StorageLocationWhereInput | Prisma.StorageLocationWhereInput[]
+  id?: Prisma.StringFilter<"StorageLocation"> | string
+  userId?: Prisma.StringFilter<"StorageLocation"> | string
+  name?: Prisma.StringFilter<"StorageLocation"> | string
+  storageGroup?: Prisma.StringFilter<"StorageLocation"> | string
+  createdAt?: Prisma.DateTimeFilter<"StorageLocation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"StorageLocation"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type StorageLocationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  storageGroup?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  User?: Prisma.UserOrderByWithRelationInput
+}
+
+export type StorageLocationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId_name?: Prisma.StorageLocationUserIdNameCompoundUniqueInput
+  AND?: Prisma.StorageLocationWhereInput | Prisma.StorageLocationWhereInput[]
+  OR?: Prisma.StorageLocationWhereInput[]
+  NOT?: Prisma.StorageLocationWhereInput | Prisma.StorageLocationWhereInput[]
+  userId?: Prisma.StringFilter<"StorageLocation"> | string
+  name?: Prisma.StringFilter<"StorageLocation"> | string
+  storageGroup?: Prisma.StringFilter<"StorageLocation"> | string
+  createdAt?: Prisma.DateTimeFilter<"StorageLocation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"StorageLocation"> | Date | string
+  User?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "userId_name">
+
+export type StorageLocationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  storageGroup?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.StorageLocationCountOrderByAggregateInput
+  _max?: Prisma.StorageLocationMaxOrderByAggregateInput
+  _min?: Prisma.StorageLocationMinOrderByAggregateInput
+}
+
+export type StorageLocationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.StorageLocationScalarWhereWithAggregatesInput | Prisma.StorageLocationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.StorageLocationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.StorageLocationScalarWhereWithAggregatesInput | Prisma.StorageLocationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"StorageLocation"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"StorageLocation"> | string
+  name?: Prisma.StringWithAggregatesFilter<"StorageLocation"> | string
+  storageGroup?: Prisma.StringWithAggregatesFilter<"StorageLocation"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"StorageLocation"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"StorageLocation"> | Date | string
+}
+
+export type StorageLocationCreateInput = {
+  id: string
+  name: string
+  storageGroup: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+  User: Prisma.UserCreateNestedOneWithoutStorageLocationInput
+}
+
+export type StorageLocationUncheckedCreateInput = {
+  id: string
+  userId: string
+  name: string
+  storageGroup: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type StorageLocationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  storageGroup?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  User?: Prisma.UserUpdateOneRequiredWithoutStorageLocationNestedInput
+}
+
+export type StorageLocationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  storageGroup?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StorageLocationCreateManyInput = {
+  id: string
+  userId: string
+  name: string
+  storageGroup: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type StorageLocationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  storageGroup?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StorageLocationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  storageGroup?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StorageLocationUserIdNameCompoundUniqueInput = {
+  userId: string
+  name: string
+}
+
+export type StorageLocationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  storageGroup?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type StorageLocationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  storageGroup?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type StorageLocationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  storageGroup?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type StorageLocationListRelationFilter = {
+  every?: Prisma.StorageLocationWhereInput
+  some?: Prisma.StorageLocationWhereInput
+  none?: Prisma.StorageLocationWhereInput
+}
+
+export type StorageLocationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type StorageLocationCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.StorageLocationCreateWithoutUserInput, Prisma.StorageLocationUncheckedCreateWithoutUserInput> | Prisma.StorageLocationCreateWithoutUserInput[] | Prisma.StorageLocationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.StorageLocationCreateOrConnectWithoutUserInput | Prisma.StorageLocationCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.StorageLocationCreateManyUserInputEnvelope
+  connect?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+}
+
+export type StorageLocationUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.StorageLocationCreateWithoutUserInput, Prisma.StorageLocationUncheckedCreateWithoutUserInput> | Prisma.StorageLocationCreateWithoutUserInput[] | Prisma.StorageLocationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.StorageLocationCreateOrConnectWithoutUserInput | Prisma.StorageLocationCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.StorageLocationCreateManyUserInputEnvelope
+  connect?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+}
+
+export type StorageLocationUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.StorageLocationCreateWithoutUserInput, Prisma.StorageLocationUncheckedCreateWithoutUserInput> | Prisma.StorageLocationCreateWithoutUserInput[] | Prisma.StorageLocationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.StorageLocationCreateOrConnectWithoutUserInput | Prisma.StorageLocationCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.StorageLocationUpsertWithWhereUniqueWithoutUserInput | Prisma.StorageLocationUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.StorageLocationCreateManyUserInputEnvelope
+  set?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+  disconnect?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+  delete?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+  connect?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+  update?: Prisma.StorageLocationUpdateWithWhereUniqueWithoutUserInput | Prisma.StorageLocationUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.StorageLocationUpdateManyWithWhereWithoutUserInput | Prisma.StorageLocationUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.StorageLocationScalarWhereInput | Prisma.StorageLocationScalarWhereInput[]
+}
+
+export type StorageLocationUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.StorageLocationCreateWithoutUserInput, Prisma.StorageLocationUncheckedCreateWithoutUserInput> | Prisma.StorageLocationCreateWithoutUserInput[] | Prisma.StorageLocationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.StorageLocationCreateOrConnectWithoutUserInput | Prisma.StorageLocationCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.StorageLocationUpsertWithWhereUniqueWithoutUserInput | Prisma.StorageLocationUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.StorageLocationCreateManyUserInputEnvelope
+  set?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+  disconnect?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+  delete?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+  connect?: Prisma.StorageLocationWhereUniqueInput | Prisma.StorageLocationWhereUniqueInput[]
+  update?: Prisma.StorageLocationUpdateWithWhereUniqueWithoutUserInput | Prisma.StorageLocationUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.StorageLocationUpdateManyWithWhereWithoutUserInput | Prisma.StorageLocationUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.StorageLocationScalarWhereInput | Prisma.StorageLocationScalarWhereInput[]
+}
+
+export type StorageLocationCreateWithoutUserInput = {
+  id: string
+  name: string
+  storageGroup: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type StorageLocationUncheckedCreateWithoutUserInput = {
+  id: string
+  name: string
+  storageGroup: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type StorageLocationCreateOrConnectWithoutUserInput = {
+  where: Prisma.StorageLocationWhereUniqueInput
+  create: Prisma.XOR<Prisma.StorageLocationCreateWithoutUserInput, Prisma.StorageLocationUncheckedCreateWithoutUserInput>
+}
+
+export type StorageLocationCreateManyUserInputEnvelope = {
+  data: Prisma.StorageLocationCreateManyUserInput | Prisma.StorageLocationCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type StorageLocationUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.StorageLocationWhereUniqueInput
+  update: Prisma.XOR<Prisma.StorageLocationUpdateWithoutUserInput, Prisma.StorageLocationUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.StorageLocationCreateWithoutUserInput, Prisma.StorageLocationUncheckedCreateWithoutUserInput>
+}
+
+export type StorageLocationUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.StorageLocationWhereUniqueInput
+  data: Prisma.XOR<Prisma.StorageLocationUpdateWithoutUserInput, Prisma.StorageLocationUncheckedUpdateWithoutUserInput>
+}
+
+export type StorageLocationUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.StorageLocationScalarWhereInput
+  data: Prisma.XOR<Prisma.StorageLocationUpdateManyMutationInput, Prisma.StorageLocationUncheckedUpdateManyWithoutUserInput>
+}
+
+export type StorageLocationScalarWhereInput = {
+  AND?: Prisma.StorageLocationScalarWhereInput | Prisma.StorageLocationScalarWhereInput[]
+  OR?: Prisma.StorageLocationScalarWhereInput[]
+  NOT?: Prisma.StorageLocationScalarWhereInput | Prisma.StorageLocationScalarWhereInput[]
+  id?: Prisma.StringFilter<"StorageLocation"> | string
+  userId?: Prisma.StringFilter<"StorageLocation"> | string
+  name?: Prisma.StringFilter<"StorageLocation"> | string
+  storageGroup?: Prisma.StringFilter<"StorageLocation"> | string
+  createdAt?: Prisma.DateTimeFilter<"StorageLocation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"StorageLocation"> | Date | string
+}
+
+export type StorageLocationCreateManyUserInput = {
+  id: string
+  name: string
+  storageGroup: string
+  createdAt?: Date | string
+  updatedAt: Date | string
+}
+
+export type StorageLocationUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  storageGroup?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StorageLocationUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  storageGroup?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StorageLocationUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  storageGroup?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type StorageLocationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  storageGroup?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["storageLocation"]>
+
+export type StorageLocationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  storageGroup?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["storageLocation"]>
+
+export type StorageLocationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  storageGroup?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["storageLocation"]>
+
+export type StorageLocationSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  name?: boolean
+  storageGroup?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type StorageLocationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "name" | "storageGroup" | "createdAt" | "updatedAt", ExtArgs["result"]["storageLocation"]>
+export type StorageLocationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type StorageLocationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type StorageLocationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  User?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $StorageLocationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "StorageLocation"
+  objects: {
+    User: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    name: string
+    storageGroup: string
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["storageLocation"]>
+  composites: {}
+}
+
+export type StorageLocationGetPayload<S extends boolean | null | undefined | StorageLocationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload, S>
+
+export type StorageLocationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<StorageLocationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: StorageLocationCountAggregateInputType | true
+  }
+
+export interface StorageLocationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['StorageLocation'], meta: { name: 'StorageLocation' } }
+  /**
+   * Find zero or one StorageLocation that matches the filter.
+   * @param {StorageLocationFindUniqueArgs} args - Arguments to find a StorageLocation
+   * @example
+   * // Get one StorageLocation
+   * const storageLocation = await prisma.storageLocation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends StorageLocationFindUniqueArgs>(args: Prisma.SelectSubset<T, StorageLocationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__StorageLocationClient<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one StorageLocation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {StorageLocationFindUniqueOrThrowArgs} args - Arguments to find a StorageLocation
+   * @example
+   * // Get one StorageLocation
+   * const storageLocation = await prisma.storageLocation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends StorageLocationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, StorageLocationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__StorageLocationClient<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first StorageLocation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StorageLocationFindFirstArgs} args - Arguments to find a StorageLocation
+   * @example
+   * // Get one StorageLocation
+   * const storageLocation = await prisma.storageLocation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends StorageLocationFindFirstArgs>(args?: Prisma.SelectSubset<T, StorageLocationFindFirstArgs<ExtArgs>>): Prisma.Prisma__StorageLocationClient<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first StorageLocation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StorageLocationFindFirstOrThrowArgs} args - Arguments to find a StorageLocation
+   * @example
+   * // Get one StorageLocation
+   * const storageLocation = await prisma.storageLocation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends StorageLocationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, StorageLocationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__StorageLocationClient<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more StorageLocations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StorageLocationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all StorageLocations
+   * const storageLocations = await prisma.storageLocation.findMany()
+   * 
+   * // Get first 10 StorageLocations
+   * const storageLocations = await prisma.storageLocation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const storageLocationWithIdOnly = await prisma.storageLocation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends StorageLocationFindManyArgs>(args?: Prisma.SelectSubset<T, StorageLocationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a StorageLocation.
+   * @param {StorageLocationCreateArgs} args - Arguments to create a StorageLocation.
+   * @example
+   * // Create one StorageLocation
+   * const StorageLocation = await prisma.storageLocation.create({
+   *   data: {
+   *     // ... data to create a StorageLocation
+   *   }
+   * })
+   * 
+   */
+  create<T extends StorageLocationCreateArgs>(args: Prisma.SelectSubset<T, StorageLocationCreateArgs<ExtArgs>>): Prisma.Prisma__StorageLocationClient<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many StorageLocations.
+   * @param {StorageLocationCreateManyArgs} args - Arguments to create many StorageLocations.
+   * @example
+   * // Create many StorageLocations
+   * const storageLocation = await prisma.storageLocation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends StorageLocationCreateManyArgs>(args?: Prisma.SelectSubset<T, StorageLocationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many StorageLocations and returns the data saved in the database.
+   * @param {StorageLocationCreateManyAndReturnArgs} args - Arguments to create many StorageLocations.
+   * @example
+   * // Create many StorageLocations
+   * const storageLocation = await prisma.storageLocation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many StorageLocations and only return the `id`
+   * const storageLocationWithIdOnly = await prisma.storageLocation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends StorageLocationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, StorageLocationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a StorageLocation.
+   * @param {StorageLocationDeleteArgs} args - Arguments to delete one StorageLocation.
+   * @example
+   * // Delete one StorageLocation
+   * const StorageLocation = await prisma.storageLocation.delete({
+   *   where: {
+   *     // ... filter to delete one StorageLocation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends StorageLocationDeleteArgs>(args: Prisma.SelectSubset<T, StorageLocationDeleteArgs<ExtArgs>>): Prisma.Prisma__StorageLocationClient<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one StorageLocation.
+   * @param {StorageLocationUpdateArgs} args - Arguments to update one StorageLocation.
+   * @example
+   * // Update one StorageLocation
+   * const storageLocation = await prisma.storageLocation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends StorageLocationUpdateArgs>(args: Prisma.SelectSubset<T, StorageLocationUpdateArgs<ExtArgs>>): Prisma.Prisma__StorageLocationClient<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more StorageLocations.
+   * @param {StorageLocationDeleteManyArgs} args - Arguments to filter StorageLocations to delete.
+   * @example
+   * // Delete a few StorageLocations
+   * const { count } = await prisma.storageLocation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends StorageLocationDeleteManyArgs>(args?: Prisma.SelectSubset<T, StorageLocationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more StorageLocations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StorageLocationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many StorageLocations
+   * const storageLocation = await prisma.storageLocation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends StorageLocationUpdateManyArgs>(args: Prisma.SelectSubset<T, StorageLocationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more StorageLocations and returns the data updated in the database.
+   * @param {StorageLocationUpdateManyAndReturnArgs} args - Arguments to update many StorageLocations.
+   * @example
+   * // Update many StorageLocations
+   * const storageLocation = await prisma.storageLocation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more StorageLocations and only return the `id`
+   * const storageLocationWithIdOnly = await prisma.storageLocation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends StorageLocationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, StorageLocationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one StorageLocation.
+   * @param {StorageLocationUpsertArgs} args - Arguments to update or create a StorageLocation.
+   * @example
+   * // Update or create a StorageLocation
+   * const storageLocation = await prisma.storageLocation.upsert({
+   *   create: {
+   *     // ... data to create a StorageLocation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the StorageLocation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends StorageLocationUpsertArgs>(args: Prisma.SelectSubset<T, StorageLocationUpsertArgs<ExtArgs>>): Prisma.Prisma__StorageLocationClient<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of StorageLocations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StorageLocationCountArgs} args - Arguments to filter StorageLocations to count.
+   * @example
+   * // Count the number of StorageLocations
+   * const count = await prisma.storageLocation.count({
+   *   where: {
+   *     // ... the filter for the StorageLocations we want to count
+   *   }
+   * })
+  **/
+  count<T extends StorageLocationCountArgs>(
+    args?: Prisma.Subset<T, StorageLocationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], StorageLocationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a StorageLocation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StorageLocationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends StorageLocationAggregateArgs>(args: Prisma.Subset<T, StorageLocationAggregateArgs>): Prisma.PrismaPromise<GetStorageLocationAggregateType<T>>
+
+  /**
+   * Group by StorageLocation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {StorageLocationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends StorageLocationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: StorageLocationGroupByArgs['orderBy'] }
+      : { orderBy?: StorageLocationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, StorageLocationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetStorageLocationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the StorageLocation model
+ */
+readonly fields: StorageLocationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for StorageLocation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__StorageLocationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  User<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the StorageLocation model
+ */
+export interface StorageLocationFieldRefs {
+  readonly id: Prisma.FieldRef<"StorageLocation", 'String'>
+  readonly userId: Prisma.FieldRef<"StorageLocation", 'String'>
+  readonly name: Prisma.FieldRef<"StorageLocation", 'String'>
+  readonly storageGroup: Prisma.FieldRef<"StorageLocation", 'String'>
+  readonly createdAt: Prisma.FieldRef<"StorageLocation", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"StorageLocation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * StorageLocation findUnique
+ */
+export type StorageLocationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which StorageLocation to fetch.
+   */
+  where: Prisma.StorageLocationWhereUniqueInput
+}
+
+/**
+ * StorageLocation findUniqueOrThrow
+ */
+export type StorageLocationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which StorageLocation to fetch.
+   */
+  where: Prisma.StorageLocationWhereUniqueInput
+}
+
+/**
+ * StorageLocation findFirst
+ */
+export type StorageLocationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which StorageLocation to fetch.
+   */
+  where?: Prisma.StorageLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StorageLocations to fetch.
+   */
+  orderBy?: Prisma.StorageLocationOrderByWithRelationInput | Prisma.StorageLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for StorageLocations.
+   */
+  cursor?: Prisma.StorageLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StorageLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StorageLocations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of StorageLocations.
+   */
+  distinct?: Prisma.StorageLocationScalarFieldEnum | Prisma.StorageLocationScalarFieldEnum[]
+}
+
+/**
+ * StorageLocation findFirstOrThrow
+ */
+export type StorageLocationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which StorageLocation to fetch.
+   */
+  where?: Prisma.StorageLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StorageLocations to fetch.
+   */
+  orderBy?: Prisma.StorageLocationOrderByWithRelationInput | Prisma.StorageLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for StorageLocations.
+   */
+  cursor?: Prisma.StorageLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StorageLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StorageLocations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of StorageLocations.
+   */
+  distinct?: Prisma.StorageLocationScalarFieldEnum | Prisma.StorageLocationScalarFieldEnum[]
+}
+
+/**
+ * StorageLocation findMany
+ */
+export type StorageLocationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  /**
+   * Filter, which StorageLocations to fetch.
+   */
+  where?: Prisma.StorageLocationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of StorageLocations to fetch.
+   */
+  orderBy?: Prisma.StorageLocationOrderByWithRelationInput | Prisma.StorageLocationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing StorageLocations.
+   */
+  cursor?: Prisma.StorageLocationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` StorageLocations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` StorageLocations.
+   */
+  skip?: number
+  distinct?: Prisma.StorageLocationScalarFieldEnum | Prisma.StorageLocationScalarFieldEnum[]
+}
+
+/**
+ * StorageLocation create
+ */
+export type StorageLocationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a StorageLocation.
+   */
+  data: Prisma.XOR<Prisma.StorageLocationCreateInput, Prisma.StorageLocationUncheckedCreateInput>
+}
+
+/**
+ * StorageLocation createMany
+ */
+export type StorageLocationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many StorageLocations.
+   */
+  data: Prisma.StorageLocationCreateManyInput | Prisma.StorageLocationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * StorageLocation createManyAndReturn
+ */
+export type StorageLocationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * The data used to create many StorageLocations.
+   */
+  data: Prisma.StorageLocationCreateManyInput | Prisma.StorageLocationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * StorageLocation update
+ */
+export type StorageLocationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a StorageLocation.
+   */
+  data: Prisma.XOR<Prisma.StorageLocationUpdateInput, Prisma.StorageLocationUncheckedUpdateInput>
+  /**
+   * Choose, which StorageLocation to update.
+   */
+  where: Prisma.StorageLocationWhereUniqueInput
+}
+
+/**
+ * StorageLocation updateMany
+ */
+export type StorageLocationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update StorageLocations.
+   */
+  data: Prisma.XOR<Prisma.StorageLocationUpdateManyMutationInput, Prisma.StorageLocationUncheckedUpdateManyInput>
+  /**
+   * Filter which StorageLocations to update
+   */
+  where?: Prisma.StorageLocationWhereInput
+  /**
+   * Limit how many StorageLocations to update.
+   */
+  limit?: number
+}
+
+/**
+ * StorageLocation updateManyAndReturn
+ */
+export type StorageLocationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * The data used to update StorageLocations.
+   */
+  data: Prisma.XOR<Prisma.StorageLocationUpdateManyMutationInput, Prisma.StorageLocationUncheckedUpdateManyInput>
+  /**
+   * Filter which StorageLocations to update
+   */
+  where?: Prisma.StorageLocationWhereInput
+  /**
+   * Limit how many StorageLocations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * StorageLocation upsert
+ */
+export type StorageLocationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the StorageLocation to update in case it exists.
+   */
+  where: Prisma.StorageLocationWhereUniqueInput
+  /**
+   * In case the StorageLocation found by the `where` argument doesn't exist, create a new StorageLocation with this data.
+   */
+  create: Prisma.XOR<Prisma.StorageLocationCreateInput, Prisma.StorageLocationUncheckedCreateInput>
+  /**
+   * In case the StorageLocation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.StorageLocationUpdateInput, Prisma.StorageLocationUncheckedUpdateInput>
+}
+
+/**
+ * StorageLocation delete
+ */
+export type StorageLocationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  /**
+   * Filter which StorageLocation to delete.
+   */
+  where: Prisma.StorageLocationWhereUniqueInput
+}
+
+/**
+ * StorageLocation deleteMany
+ */
+export type StorageLocationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which StorageLocations to delete
+   */
+  where?: Prisma.StorageLocationWhereInput
+  /**
+   * Limit how many StorageLocations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * StorageLocation without action
+ */
+export type StorageLocationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+}
@@ -72,6 +72,8 @@ export type UserMinAggregateOutputType = {
   subscriptionCancelledAt: Date | null
   lastStripeEventAt: Date | null
   avatarUrl: string | null
+  activeHouseholdId: string | null
+  storageLocationsSeededAt: Date | null
 }
 
 export type UserMaxAggregateOutputType = {
@@ -112,6 +114,8 @@ export type UserMaxAggregateOutputType = {
   subscriptionCancelledAt: Date | null
   lastStripeEventAt: Date | null
   avatarUrl: string | null
+  activeHouseholdId: string | null
+  storageLocationsSeededAt: Date | null
 }
 
 export type UserCountAggregateOutputType = {
@@ -153,6 +157,8 @@ export type UserCountAggregateOutputType = {
   subscriptionCancelledAt: number
   lastStripeEventAt: number
   avatarUrl: number
+  activeHouseholdId: number
+  storageLocationsSeededAt: number
   _all: number
 }
 
@@ -203,6 +209,8 @@ export type UserMinAggregateInputType = {
   subscriptionCancelledAt?: true
   lastStripeEventAt?: true
   avatarUrl?: true
+  activeHouseholdId?: true
+  storageLocationsSeededAt?: true
 }
 
 export type UserMaxAggregateInputType = {
@@ -243,6 +251,8 @@ export type UserMaxAggregateInputType = {
   subscriptionCancelledAt?: true
   lastStripeEventAt?: true
   avatarUrl?: true
+  activeHouseholdId?: true
+  storageLocationsSeededAt?: true
 }
 
 export type UserCountAggregateInputType = {
@@ -284,6 +294,8 @@ export type UserCountAggregateInputType = {
   subscriptionCancelledAt?: true
   lastStripeEventAt?: true
   avatarUrl?: true
+  activeHouseholdId?: true
+  storageLocationsSeededAt?: true
   _all?: true
 }
 
@@ -412,6 +424,8 @@ export type UserGroupByOutputType = {
   subscriptionCancelledAt: Date | null
   lastStripeEventAt: Date | null
   avatarUrl: string | null
+  activeHouseholdId: string | null
+  storageLocationsSeededAt: Date | null
   _count: UserCountAggregateOutputType | null
   _avg: UserAvgAggregateOutputType | null
   _sum: UserSumAggregateOutputType | null
@@ -476,15 +490,29 @@ export type UserWhereInput = {
   subscriptionCancelledAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   lastStripeEventAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   avatarUrl?: Prisma.StringNullableFilter<"User"> | string | null
+  activeHouseholdId?: Prisma.StringNullableFilter<"User"> | string | null
+  storageLocationsSeededAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   Budget?: Prisma.BudgetListRelationFilter
   Expense?: Prisma.ExpenseListRelationFilter
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryListRelationFilter
+  ActiveHousehold?: Prisma.XOR<Prisma.HouseholdNullableScalarRelationFilter, Prisma.HouseholdWhereInput> | null
+  OwnedHousehold?: Prisma.XOR<Prisma.HouseholdNullableScalarRelationFilter, Prisma.HouseholdWhereInput> | null
+  HouseholdMember?: Prisma.HouseholdMemberListRelationFilter
+  HouseholdInvitation?: Prisma.HouseholdInvitationListRelationFilter
   InventoryItem?: Prisma.InventoryItemListRelationFilter
+  InventoryMovement?: Prisma.InventoryMovementListRelationFilter
+  ProductStockLevel?: Prisma.ProductStockLevelListRelationFilter
+  ProductPieceWeight?: Prisma.ProductPieceWeightListRelationFilter
+  ProductPriceRecord?: Prisma.ProductPriceRecordListRelationFilter
+  StorageLocation?: Prisma.StorageLocationListRelationFilter
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideListRelationFilter
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingListRelationFilter
   Invoice?: Prisma.InvoiceListRelationFilter
   Notification?: Prisma.NotificationListRelationFilter
   NotificationPreferences?: Prisma.XOR<Prisma.NotificationPreferencesNullableScalarRelationFilter, Prisma.NotificationPreferencesWhereInput> | null
   Recipe?: Prisma.RecipeListRelationFilter
   Receipt?: Prisma.ReceiptListRelationFilter
+  ShoppingList?: Prisma.XOR<Prisma.ShoppingListNullableScalarRelationFilter, Prisma.ShoppingListWhereInput> | null
   UsageQuota?: Prisma.UsageQuotaListRelationFilter
   UsageEvent?: Prisma.UsageEventListRelationFilter
   sessions?: Prisma.SessionListRelationFilter
@@ -531,15 +559,29 @@ export type UserOrderByWithRelationInput = {
   subscriptionCancelledAt?: Prisma.SortOrderInput | Prisma.SortOrder
   lastStripeEventAt?: Prisma.SortOrderInput | Prisma.SortOrder
   avatarUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  activeHouseholdId?: Prisma.SortOrderInput | Prisma.SortOrder
+  storageLocationsSeededAt?: Prisma.SortOrderInput | Prisma.SortOrder
   Budget?: Prisma.BudgetOrderByRelationAggregateInput
   Expense?: Prisma.ExpenseOrderByRelationAggregateInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryOrderByRelationAggregateInput
+  ActiveHousehold?: Prisma.HouseholdOrderByWithRelationInput
+  OwnedHousehold?: Prisma.HouseholdOrderByWithRelationInput
+  HouseholdMember?: Prisma.HouseholdMemberOrderByRelationAggregateInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationOrderByRelationAggregateInput
   InventoryItem?: Prisma.InventoryItemOrderByRelationAggregateInput
+  InventoryMovement?: Prisma.InventoryMovementOrderByRelationAggregateInput
+  ProductStockLevel?: Prisma.ProductStockLevelOrderByRelationAggregateInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightOrderByRelationAggregateInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordOrderByRelationAggregateInput
+  StorageLocation?: Prisma.StorageLocationOrderByRelationAggregateInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideOrderByRelationAggregateInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingOrderByRelationAggregateInput
   Invoice?: Prisma.InvoiceOrderByRelationAggregateInput
   Notification?: Prisma.NotificationOrderByRelationAggregateInput
   NotificationPreferences?: Prisma.NotificationPreferencesOrderByWithRelationInput
   Recipe?: Prisma.RecipeOrderByRelationAggregateInput
   Receipt?: Prisma.ReceiptOrderByRelationAggregateInput
+  ShoppingList?: Prisma.ShoppingListOrderByWithRelationInput
   UsageQuota?: Prisma.UsageQuotaOrderByRelationAggregateInput
   UsageEvent?: Prisma.UsageEventOrderByRelationAggregateInput
   sessions?: Prisma.SessionOrderByRelationAggregateInput
@@ -589,15 +631,29 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   subscriptionCancelledAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   lastStripeEventAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   avatarUrl?: Prisma.StringNullableFilter<"User"> | string | null
+  activeHouseholdId?: Prisma.StringNullableFilter<"User"> | string | null
+  storageLocationsSeededAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   Budget?: Prisma.BudgetListRelationFilter
   Expense?: Prisma.ExpenseListRelationFilter
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryListRelationFilter
+  ActiveHousehold?: Prisma.XOR<Prisma.HouseholdNullableScalarRelationFilter, Prisma.HouseholdWhereInput> | null
+  OwnedHousehold?: Prisma.XOR<Prisma.HouseholdNullableScalarRelationFilter, Prisma.HouseholdWhereInput> | null
+  HouseholdMember?: Prisma.HouseholdMemberListRelationFilter
+  HouseholdInvitation?: Prisma.HouseholdInvitationListRelationFilter
   InventoryItem?: Prisma.InventoryItemListRelationFilter
+  InventoryMovement?: Prisma.InventoryMovementListRelationFilter
+  ProductStockLevel?: Prisma.ProductStockLevelListRelationFilter
+  ProductPieceWeight?: Prisma.ProductPieceWeightListRelationFilter
+  ProductPriceRecord?: Prisma.ProductPriceRecordListRelationFilter
+  StorageLocation?: Prisma.StorageLocationListRelationFilter
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideListRelationFilter
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingListRelationFilter
   Invoice?: Prisma.InvoiceListRelationFilter
   Notification?: Prisma.NotificationListRelationFilter
   NotificationPreferences?: Prisma.XOR<Prisma.NotificationPreferencesNullableScalarRelationFilter, Prisma.NotificationPreferencesWhereInput> | null
   Recipe?: Prisma.RecipeListRelationFilter
   Receipt?: Prisma.ReceiptListRelationFilter
+  ShoppingList?: Prisma.XOR<Prisma.ShoppingListNullableScalarRelationFilter, Prisma.ShoppingListWhereInput> | null
   UsageQuota?: Prisma.UsageQuotaListRelationFilter
   UsageEvent?: Prisma.UsageEventListRelationFilter
   sessions?: Prisma.SessionListRelationFilter
@@ -644,6 +700,8 @@ export type UserOrderByWithAggregationInput = {
   subscriptionCancelledAt?: Prisma.SortOrderInput | Prisma.SortOrder
   lastStripeEventAt?: Prisma.SortOrderInput | Prisma.SortOrder
   avatarUrl?: Prisma.SortOrderInput | Prisma.SortOrder
+  activeHouseholdId?: Prisma.SortOrderInput | Prisma.SortOrder
+  storageLocationsSeededAt?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.UserCountOrderByAggregateInput
   _avg?: Prisma.UserAvgOrderByAggregateInput
   _max?: Prisma.UserMaxOrderByAggregateInput
@@ -693,6 +751,8 @@ export type UserScalarWhereWithAggregatesInput = {
   subscriptionCancelledAt?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
   lastStripeEventAt?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
   avatarUrl?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  activeHouseholdId?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null
+  storageLocationsSeededAt?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
 }
 
 export type UserCreateInput = {
@@ -734,15 +794,28 @@ export type UserCreateInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -789,15 +862,28 @@ export type UserUncheckedCreateInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -844,15 +930,28 @@ export type UserUpdateInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -899,15 +998,28 @@ export type UserUncheckedUpdateInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -954,6 +1066,8 @@ export type UserCreateManyInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
 }
 
 export type UserUpdateManyMutationInput = {
@@ -995,6 +1109,7 @@ export type UserUpdateManyMutationInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type UserUncheckedUpdateManyInput = {
@@ -1036,6 +1151,8 @@ export type UserUncheckedUpdateManyInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type UserScalarRelationFilter = {
@@ -1048,6 +1165,16 @@ export type UserNullableScalarRelationFilter = {
   isNot?: Prisma.UserWhereInput | null
 }
 
+export type UserListRelationFilter = {
+  every?: Prisma.UserWhereInput
+  some?: Prisma.UserWhereInput
+  none?: Prisma.UserWhereInput
+}
+
+export type UserOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
 export type UserCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   email?: Prisma.SortOrder
@@ -1087,6 +1214,8 @@ export type UserCountOrderByAggregateInput = {
   subscriptionCancelledAt?: Prisma.SortOrder
   lastStripeEventAt?: Prisma.SortOrder
   avatarUrl?: Prisma.SortOrder
+  activeHouseholdId?: Prisma.SortOrder
+  storageLocationsSeededAt?: Prisma.SortOrder
 }
 
 export type UserAvgOrderByAggregateInput = {
@@ -1131,6 +1260,8 @@ export type UserMaxOrderByAggregateInput = {
   subscriptionCancelledAt?: Prisma.SortOrder
   lastStripeEventAt?: Prisma.SortOrder
   avatarUrl?: Prisma.SortOrder
+  activeHouseholdId?: Prisma.SortOrder
+  storageLocationsSeededAt?: Prisma.SortOrder
 }
 
 export type UserMinOrderByAggregateInput = {
@@ -1171,6 +1302,8 @@ export type UserMinOrderByAggregateInput = {
   subscriptionCancelledAt?: Prisma.SortOrder
   lastStripeEventAt?: Prisma.SortOrder
   avatarUrl?: Prisma.SortOrder
+  activeHouseholdId?: Prisma.SortOrder
+  storageLocationsSeededAt?: Prisma.SortOrder
 }
 
 export type UserSumOrderByAggregateInput = {
@@ -1219,6 +1352,104 @@ export type UserUpdateOneRequiredWithoutInventoryItemNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInventoryItemInput, Prisma.UserUpdateWithoutInventoryItemInput>, Prisma.UserUncheckedUpdateWithoutInventoryItemInput>
 }
 
+export type UserCreateNestedOneWithoutInventoryMovementInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInventoryMovementInput, Prisma.UserUncheckedCreateWithoutInventoryMovementInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInventoryMovementInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutInventoryMovementNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInventoryMovementInput, Prisma.UserUncheckedCreateWithoutInventoryMovementInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInventoryMovementInput
+  upsert?: Prisma.UserUpsertWithoutInventoryMovementInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInventoryMovementInput, Prisma.UserUpdateWithoutInventoryMovementInput>, Prisma.UserUncheckedUpdateWithoutInventoryMovementInput>
+}
+
+export type UserCreateNestedOneWithoutProductStockLevelInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutProductStockLevelInput, Prisma.UserUncheckedCreateWithoutProductStockLevelInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutProductStockLevelInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutProductStockLevelNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutProductStockLevelInput, Prisma.UserUncheckedCreateWithoutProductStockLevelInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutProductStockLevelInput
+  upsert?: Prisma.UserUpsertWithoutProductStockLevelInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutProductStockLevelInput, Prisma.UserUpdateWithoutProductStockLevelInput>, Prisma.UserUncheckedUpdateWithoutProductStockLevelInput>
+}
+
+export type UserCreateNestedOneWithoutProductPieceWeightInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutProductPieceWeightInput, Prisma.UserUncheckedCreateWithoutProductPieceWeightInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutProductPieceWeightInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutProductPieceWeightNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutProductPieceWeightInput, Prisma.UserUncheckedCreateWithoutProductPieceWeightInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutProductPieceWeightInput
+  upsert?: Prisma.UserUpsertWithoutProductPieceWeightInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutProductPieceWeightInput, Prisma.UserUpdateWithoutProductPieceWeightInput>, Prisma.UserUncheckedUpdateWithoutProductPieceWeightInput>
+}
+
+export type UserCreateNestedOneWithoutProductPriceRecordInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutProductPriceRecordInput, Prisma.UserUncheckedCreateWithoutProductPriceRecordInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutProductPriceRecordInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutProductPriceRecordNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutProductPriceRecordInput, Prisma.UserUncheckedCreateWithoutProductPriceRecordInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutProductPriceRecordInput
+  upsert?: Prisma.UserUpsertWithoutProductPriceRecordInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutProductPriceRecordInput, Prisma.UserUpdateWithoutProductPriceRecordInput>, Prisma.UserUncheckedUpdateWithoutProductPriceRecordInput>
+}
+
+export type UserCreateNestedOneWithoutStorageLocationInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutStorageLocationInput, Prisma.UserUncheckedCreateWithoutStorageLocationInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutStorageLocationInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutStorageLocationNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutStorageLocationInput, Prisma.UserUncheckedCreateWithoutStorageLocationInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutStorageLocationInput
+  upsert?: Prisma.UserUpsertWithoutStorageLocationInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutStorageLocationInput, Prisma.UserUpdateWithoutStorageLocationInput>, Prisma.UserUncheckedUpdateWithoutStorageLocationInput>
+}
+
+export type UserCreateNestedOneWithoutShelfLifeOverrideInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutShelfLifeOverrideInput, Prisma.UserUncheckedCreateWithoutShelfLifeOverrideInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutShelfLifeOverrideInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutShelfLifeOverrideNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutShelfLifeOverrideInput, Prisma.UserUncheckedCreateWithoutShelfLifeOverrideInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutShelfLifeOverrideInput
+  upsert?: Prisma.UserUpsertWithoutShelfLifeOverrideInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutShelfLifeOverrideInput, Prisma.UserUpdateWithoutShelfLifeOverrideInput>, Prisma.UserUncheckedUpdateWithoutShelfLifeOverrideInput>
+}
+
+export type UserCreateNestedOneWithoutInvoiceItemMappingInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvoiceItemMappingInput, Prisma.UserUncheckedCreateWithoutInvoiceItemMappingInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvoiceItemMappingInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutInvoiceItemMappingNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvoiceItemMappingInput, Prisma.UserUncheckedCreateWithoutInvoiceItemMappingInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvoiceItemMappingInput
+  upsert?: Prisma.UserUpsertWithoutInvoiceItemMappingInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInvoiceItemMappingInput, Prisma.UserUpdateWithoutInvoiceItemMappingInput>, Prisma.UserUncheckedUpdateWithoutInvoiceItemMappingInput>
+}
+
 export type UserCreateNestedOneWithoutNotificationInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutNotificationInput, Prisma.UserUncheckedCreateWithoutNotificationInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutNotificationInput
@@ -1305,6 +1536,104 @@ export type UserUpdateOneWithoutRecipeNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutRecipeInput, Prisma.UserUpdateWithoutRecipeInput>, Prisma.UserUncheckedUpdateWithoutRecipeInput>
 }
 
+export type UserCreateNestedOneWithoutOwnedHouseholdInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutOwnedHouseholdInput, Prisma.UserUncheckedCreateWithoutOwnedHouseholdInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutOwnedHouseholdInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedManyWithoutActiveHouseholdInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutActiveHouseholdInput, Prisma.UserUncheckedCreateWithoutActiveHouseholdInput> | Prisma.UserCreateWithoutActiveHouseholdInput[] | Prisma.UserUncheckedCreateWithoutActiveHouseholdInput[]
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutActiveHouseholdInput | Prisma.UserCreateOrConnectWithoutActiveHouseholdInput[]
+  createMany?: Prisma.UserCreateManyActiveHouseholdInputEnvelope
+  connect?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+}
+
+export type UserUncheckedCreateNestedManyWithoutActiveHouseholdInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutActiveHouseholdInput, Prisma.UserUncheckedCreateWithoutActiveHouseholdInput> | Prisma.UserCreateWithoutActiveHouseholdInput[] | Prisma.UserUncheckedCreateWithoutActiveHouseholdInput[]
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutActiveHouseholdInput | Prisma.UserCreateOrConnectWithoutActiveHouseholdInput[]
+  createMany?: Prisma.UserCreateManyActiveHouseholdInputEnvelope
+  connect?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+}
+
+export type UserUpdateOneRequiredWithoutOwnedHouseholdNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutOwnedHouseholdInput, Prisma.UserUncheckedCreateWithoutOwnedHouseholdInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutOwnedHouseholdInput
+  upsert?: Prisma.UserUpsertWithoutOwnedHouseholdInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutOwnedHouseholdInput, Prisma.UserUpdateWithoutOwnedHouseholdInput>, Prisma.UserUncheckedUpdateWithoutOwnedHouseholdInput>
+}
+
+export type UserUpdateManyWithoutActiveHouseholdNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutActiveHouseholdInput, Prisma.UserUncheckedCreateWithoutActiveHouseholdInput> | Prisma.UserCreateWithoutActiveHouseholdInput[] | Prisma.UserUncheckedCreateWithoutActiveHouseholdInput[]
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutActiveHouseholdInput | Prisma.UserCreateOrConnectWithoutActiveHouseholdInput[]
+  upsert?: Prisma.UserUpsertWithWhereUniqueWithoutActiveHouseholdInput | Prisma.UserUpsertWithWhereUniqueWithoutActiveHouseholdInput[]
+  createMany?: Prisma.UserCreateManyActiveHouseholdInputEnvelope
+  set?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+  disconnect?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+  delete?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+  connect?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+  update?: Prisma.UserUpdateWithWhereUniqueWithoutActiveHouseholdInput | Prisma.UserUpdateWithWhereUniqueWithoutActiveHouseholdInput[]
+  updateMany?: Prisma.UserUpdateManyWithWhereWithoutActiveHouseholdInput | Prisma.UserUpdateManyWithWhereWithoutActiveHouseholdInput[]
+  deleteMany?: Prisma.UserScalarWhereInput | Prisma.UserScalarWhereInput[]
+}
+
+export type UserUncheckedUpdateManyWithoutActiveHouseholdNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutActiveHouseholdInput, Prisma.UserUncheckedCreateWithoutActiveHouseholdInput> | Prisma.UserCreateWithoutActiveHouseholdInput[] | Prisma.UserUncheckedCreateWithoutActiveHouseholdInput[]
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutActiveHouseholdInput | Prisma.UserCreateOrConnectWithoutActiveHouseholdInput[]
+  upsert?: Prisma.UserUpsertWithWhereUniqueWithoutActiveHouseholdInput | Prisma.UserUpsertWithWhereUniqueWithoutActiveHouseholdInput[]
+  createMany?: Prisma.UserCreateManyActiveHouseholdInputEnvelope
+  set?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+  disconnect?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+  delete?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+  connect?: Prisma.UserWhereUniqueInput | Prisma.UserWhereUniqueInput[]
+  update?: Prisma.UserUpdateWithWhereUniqueWithoutActiveHouseholdInput | Prisma.UserUpdateWithWhereUniqueWithoutActiveHouseholdInput[]
+  updateMany?: Prisma.UserUpdateManyWithWhereWithoutActiveHouseholdInput | Prisma.UserUpdateManyWithWhereWithoutActiveHouseholdInput[]
+  deleteMany?: Prisma.UserScalarWhereInput | Prisma.UserScalarWhereInput[]
+}
+
+export type UserCreateNestedOneWithoutHouseholdMemberInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutHouseholdMemberInput, Prisma.UserUncheckedCreateWithoutHouseholdMemberInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutHouseholdMemberInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutHouseholdMemberNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutHouseholdMemberInput, Prisma.UserUncheckedCreateWithoutHouseholdMemberInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutHouseholdMemberInput
+  upsert?: Prisma.UserUpsertWithoutHouseholdMemberInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutHouseholdMemberInput, Prisma.UserUpdateWithoutHouseholdMemberInput>, Prisma.UserUncheckedUpdateWithoutHouseholdMemberInput>
+}
+
+export type UserCreateNestedOneWithoutHouseholdInvitationInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutHouseholdInvitationInput, Prisma.UserUncheckedCreateWithoutHouseholdInvitationInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutHouseholdInvitationInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutHouseholdInvitationNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutHouseholdInvitationInput, Prisma.UserUncheckedCreateWithoutHouseholdInvitationInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutHouseholdInvitationInput
+  upsert?: Prisma.UserUpsertWithoutHouseholdInvitationInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutHouseholdInvitationInput, Prisma.UserUpdateWithoutHouseholdInvitationInput>, Prisma.UserUncheckedUpdateWithoutHouseholdInvitationInput>
+}
+
+export type UserCreateNestedOneWithoutShoppingListInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutShoppingListInput, Prisma.UserUncheckedCreateWithoutShoppingListInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutShoppingListInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutShoppingListNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutShoppingListInput, Prisma.UserUncheckedCreateWithoutShoppingListInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutShoppingListInput
+  upsert?: Prisma.UserUpsertWithoutShoppingListInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutShoppingListInput, Prisma.UserUpdateWithoutShoppingListInput>, Prisma.UserUncheckedUpdateWithoutShoppingListInput>
+}
+
 export type NullableEnumPrimaryGoalFieldUpdateOperationsInput = {
   set?: $Enums.PrimaryGoal | null
 }
@@ -1442,14 +1771,27 @@ export type UserCreateWithoutBudgetInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -1496,14 +1838,27 @@ export type UserUncheckedCreateWithoutBudgetInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -1566,14 +1921,27 @@ export type UserUpdateWithoutBudgetInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -1620,14 +1988,27 @@ export type UserUncheckedUpdateWithoutBudgetInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -1674,14 +2055,27 @@ export type UserCreateWithoutExpenseInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -1728,14 +2122,27 @@ export type UserUncheckedCreateWithoutExpenseInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -1798,14 +2205,27 @@ export type UserUpdateWithoutExpenseInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -1852,14 +2272,27 @@ export type UserUncheckedUpdateWithoutExpenseInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -1906,14 +2339,27 @@ export type UserCreateWithoutInventoryItemInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -1960,14 +2406,27 @@ export type UserUncheckedCreateWithoutInventoryItemInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -2030,14 +2489,27 @@ export type UserUpdateWithoutInventoryItemInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -2084,14 +2556,27 @@ export type UserUncheckedUpdateWithoutInventoryItemInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -2099,7 +2584,7 @@ export type UserUncheckedUpdateWithoutInventoryItemInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutNotificationInput = {
+export type UserCreateWithoutInventoryMovementInput = {
   id: string
   email: string
   name: string
@@ -2138,14 +2623,27 @@ export type UserCreateWithoutNotificationInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -2153,7 +2651,7 @@ export type UserCreateWithoutNotificationInput = {
   AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutNotificationInput = {
+export type UserUncheckedCreateWithoutInventoryMovementInput = {
   id: string
   email: string
   name: string
@@ -2192,14 +2690,27 @@ export type UserUncheckedCreateWithoutNotificationInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -2207,23 +2718,23 @@ export type UserUncheckedCreateWithoutNotificationInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutNotificationInput = {
+export type UserCreateOrConnectWithoutInventoryMovementInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationInput, Prisma.UserUncheckedCreateWithoutNotificationInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInventoryMovementInput, Prisma.UserUncheckedCreateWithoutInventoryMovementInput>
 }
 
-export type UserUpsertWithoutNotificationInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutNotificationInput, Prisma.UserUncheckedUpdateWithoutNotificationInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationInput, Prisma.UserUncheckedCreateWithoutNotificationInput>
+export type UserUpsertWithoutInventoryMovementInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutInventoryMovementInput, Prisma.UserUncheckedUpdateWithoutInventoryMovementInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInventoryMovementInput, Prisma.UserUncheckedCreateWithoutInventoryMovementInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutNotificationInput = {
+export type UserUpdateToOneWithWhereWithoutInventoryMovementInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutNotificationInput, Prisma.UserUncheckedUpdateWithoutNotificationInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutInventoryMovementInput, Prisma.UserUncheckedUpdateWithoutInventoryMovementInput>
 }
 
-export type UserUpdateWithoutNotificationInput = {
+export type UserUpdateWithoutInventoryMovementInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2262,14 +2773,27 @@ export type UserUpdateWithoutNotificationInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -2277,7 +2801,7 @@ export type UserUpdateWithoutNotificationInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutNotificationInput = {
+export type UserUncheckedUpdateWithoutInventoryMovementInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2316,14 +2840,27 @@ export type UserUncheckedUpdateWithoutNotificationInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -2331,7 +2868,7 @@ export type UserUncheckedUpdateWithoutNotificationInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutNotificationPreferencesInput = {
+export type UserCreateWithoutProductStockLevelInput = {
   id: string
   email: string
   name: string
@@ -2370,14 +2907,27 @@ export type UserCreateWithoutNotificationPreferencesInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -2385,7 +2935,7 @@ export type UserCreateWithoutNotificationPreferencesInput = {
   AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutNotificationPreferencesInput = {
+export type UserUncheckedCreateWithoutProductStockLevelInput = {
   id: string
   email: string
   name: string
@@ -2424,14 +2974,27 @@ export type UserUncheckedCreateWithoutNotificationPreferencesInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -2439,23 +3002,23 @@ export type UserUncheckedCreateWithoutNotificationPreferencesInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutNotificationPreferencesInput = {
+export type UserCreateOrConnectWithoutProductStockLevelInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationPreferencesInput, Prisma.UserUncheckedCreateWithoutNotificationPreferencesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutProductStockLevelInput, Prisma.UserUncheckedCreateWithoutProductStockLevelInput>
 }
 
-export type UserUpsertWithoutNotificationPreferencesInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutNotificationPreferencesInput, Prisma.UserUncheckedUpdateWithoutNotificationPreferencesInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationPreferencesInput, Prisma.UserUncheckedCreateWithoutNotificationPreferencesInput>
+export type UserUpsertWithoutProductStockLevelInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutProductStockLevelInput, Prisma.UserUncheckedUpdateWithoutProductStockLevelInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutProductStockLevelInput, Prisma.UserUncheckedCreateWithoutProductStockLevelInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutNotificationPreferencesInput = {
+export type UserUpdateToOneWithWhereWithoutProductStockLevelInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutNotificationPreferencesInput, Prisma.UserUncheckedUpdateWithoutNotificationPreferencesInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutProductStockLevelInput, Prisma.UserUncheckedUpdateWithoutProductStockLevelInput>
 }
 
-export type UserUpdateWithoutNotificationPreferencesInput = {
+export type UserUpdateWithoutProductStockLevelInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2494,14 +3057,27 @@ export type UserUpdateWithoutNotificationPreferencesInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -2509,7 +3085,7 @@ export type UserUpdateWithoutNotificationPreferencesInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutNotificationPreferencesInput = {
+export type UserUncheckedUpdateWithoutProductStockLevelInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2548,14 +3124,27 @@ export type UserUncheckedUpdateWithoutNotificationPreferencesInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -2563,7 +3152,7 @@ export type UserUncheckedUpdateWithoutNotificationPreferencesInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutEmailDigestDeliveryInput = {
+export type UserCreateWithoutProductPieceWeightInput = {
   id: string
   email: string
   name: string
@@ -2602,14 +3191,27 @@ export type UserCreateWithoutEmailDigestDeliveryInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -2617,7 +3219,7 @@ export type UserCreateWithoutEmailDigestDeliveryInput = {
   AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutEmailDigestDeliveryInput = {
+export type UserUncheckedCreateWithoutProductPieceWeightInput = {
   id: string
   email: string
   name: string
@@ -2656,14 +3258,27 @@ export type UserUncheckedCreateWithoutEmailDigestDeliveryInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -2671,23 +3286,23 @@ export type UserUncheckedCreateWithoutEmailDigestDeliveryInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutEmailDigestDeliveryInput = {
+export type UserCreateOrConnectWithoutProductPieceWeightInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutEmailDigestDeliveryInput, Prisma.UserUncheckedCreateWithoutEmailDigestDeliveryInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutProductPieceWeightInput, Prisma.UserUncheckedCreateWithoutProductPieceWeightInput>
 }
 
-export type UserUpsertWithoutEmailDigestDeliveryInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutEmailDigestDeliveryInput, Prisma.UserUncheckedUpdateWithoutEmailDigestDeliveryInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutEmailDigestDeliveryInput, Prisma.UserUncheckedCreateWithoutEmailDigestDeliveryInput>
+export type UserUpsertWithoutProductPieceWeightInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutProductPieceWeightInput, Prisma.UserUncheckedUpdateWithoutProductPieceWeightInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutProductPieceWeightInput, Prisma.UserUncheckedCreateWithoutProductPieceWeightInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutEmailDigestDeliveryInput = {
+export type UserUpdateToOneWithWhereWithoutProductPieceWeightInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutEmailDigestDeliveryInput, Prisma.UserUncheckedUpdateWithoutEmailDigestDeliveryInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutProductPieceWeightInput, Prisma.UserUncheckedUpdateWithoutProductPieceWeightInput>
 }
 
-export type UserUpdateWithoutEmailDigestDeliveryInput = {
+export type UserUpdateWithoutProductPieceWeightInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2726,14 +3341,27 @@ export type UserUpdateWithoutEmailDigestDeliveryInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -2741,7 +3369,7 @@ export type UserUpdateWithoutEmailDigestDeliveryInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutEmailDigestDeliveryInput = {
+export type UserUncheckedUpdateWithoutProductPieceWeightInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2780,14 +3408,27 @@ export type UserUncheckedUpdateWithoutEmailDigestDeliveryInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -2795,7 +3436,7 @@ export type UserUncheckedUpdateWithoutEmailDigestDeliveryInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutInvoiceInput = {
+export type UserCreateWithoutProductPriceRecordInput = {
   id: string
   email: string
   name: string
@@ -2834,14 +3475,27 @@ export type UserCreateWithoutInvoiceInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -2849,7 +3503,7 @@ export type UserCreateWithoutInvoiceInput = {
   AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutInvoiceInput = {
+export type UserUncheckedCreateWithoutProductPriceRecordInput = {
   id: string
   email: string
   name: string
@@ -2888,14 +3542,27 @@ export type UserUncheckedCreateWithoutInvoiceInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -2903,23 +3570,23 @@ export type UserUncheckedCreateWithoutInvoiceInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutInvoiceInput = {
+export type UserCreateOrConnectWithoutProductPriceRecordInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutInvoiceInput, Prisma.UserUncheckedCreateWithoutInvoiceInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutProductPriceRecordInput, Prisma.UserUncheckedCreateWithoutProductPriceRecordInput>
 }
 
-export type UserUpsertWithoutInvoiceInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutInvoiceInput, Prisma.UserUncheckedUpdateWithoutInvoiceInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutInvoiceInput, Prisma.UserUncheckedCreateWithoutInvoiceInput>
+export type UserUpsertWithoutProductPriceRecordInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutProductPriceRecordInput, Prisma.UserUncheckedUpdateWithoutProductPriceRecordInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutProductPriceRecordInput, Prisma.UserUncheckedCreateWithoutProductPriceRecordInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutInvoiceInput = {
+export type UserUpdateToOneWithWhereWithoutProductPriceRecordInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutInvoiceInput, Prisma.UserUncheckedUpdateWithoutInvoiceInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutProductPriceRecordInput, Prisma.UserUncheckedUpdateWithoutProductPriceRecordInput>
 }
 
-export type UserUpdateWithoutInvoiceInput = {
+export type UserUpdateWithoutProductPriceRecordInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2958,14 +3625,27 @@ export type UserUpdateWithoutInvoiceInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -2973,7 +3653,7 @@ export type UserUpdateWithoutInvoiceInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutInvoiceInput = {
+export type UserUncheckedUpdateWithoutProductPriceRecordInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3012,14 +3692,27 @@ export type UserUncheckedUpdateWithoutInvoiceInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -3027,7 +3720,7 @@ export type UserUncheckedUpdateWithoutInvoiceInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutReceiptInput = {
+export type UserCreateWithoutStorageLocationInput = {
   id: string
   email: string
   name: string
@@ -3066,14 +3759,27 @@ export type UserCreateWithoutReceiptInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -3081,7 +3787,7 @@ export type UserCreateWithoutReceiptInput = {
   AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutReceiptInput = {
+export type UserUncheckedCreateWithoutStorageLocationInput = {
   id: string
   email: string
   name: string
@@ -3120,14 +3826,27 @@ export type UserUncheckedCreateWithoutReceiptInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -3135,23 +3854,23 @@ export type UserUncheckedCreateWithoutReceiptInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutReceiptInput = {
+export type UserCreateOrConnectWithoutStorageLocationInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutReceiptInput, Prisma.UserUncheckedCreateWithoutReceiptInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutStorageLocationInput, Prisma.UserUncheckedCreateWithoutStorageLocationInput>
 }
 
-export type UserUpsertWithoutReceiptInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutReceiptInput, Prisma.UserUncheckedUpdateWithoutReceiptInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutReceiptInput, Prisma.UserUncheckedCreateWithoutReceiptInput>
+export type UserUpsertWithoutStorageLocationInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutStorageLocationInput, Prisma.UserUncheckedUpdateWithoutStorageLocationInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutStorageLocationInput, Prisma.UserUncheckedCreateWithoutStorageLocationInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutReceiptInput = {
+export type UserUpdateToOneWithWhereWithoutStorageLocationInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutReceiptInput, Prisma.UserUncheckedUpdateWithoutReceiptInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutStorageLocationInput, Prisma.UserUncheckedUpdateWithoutStorageLocationInput>
 }
 
-export type UserUpdateWithoutReceiptInput = {
+export type UserUpdateWithoutStorageLocationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3190,14 +3909,27 @@ export type UserUpdateWithoutReceiptInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -3205,7 +3937,7 @@ export type UserUpdateWithoutReceiptInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutReceiptInput = {
+export type UserUncheckedUpdateWithoutStorageLocationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3244,14 +3976,27 @@ export type UserUncheckedUpdateWithoutReceiptInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -3259,7 +4004,7 @@ export type UserUncheckedUpdateWithoutReceiptInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutRecipeInput = {
+export type UserCreateWithoutShelfLifeOverrideInput = {
   id: string
   email: string
   name: string
@@ -3298,14 +4043,27 @@ export type UserCreateWithoutRecipeInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -3313,7 +4071,7 @@ export type UserCreateWithoutRecipeInput = {
   AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutRecipeInput = {
+export type UserUncheckedCreateWithoutShelfLifeOverrideInput = {
   id: string
   email: string
   name: string
@@ -3352,14 +4110,27 @@ export type UserUncheckedCreateWithoutRecipeInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -3367,23 +4138,23 @@ export type UserUncheckedCreateWithoutRecipeInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutRecipeInput = {
+export type UserCreateOrConnectWithoutShelfLifeOverrideInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutRecipeInput, Prisma.UserUncheckedCreateWithoutRecipeInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutShelfLifeOverrideInput, Prisma.UserUncheckedCreateWithoutShelfLifeOverrideInput>
 }
 
-export type UserUpsertWithoutRecipeInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutRecipeInput, Prisma.UserUncheckedUpdateWithoutRecipeInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutRecipeInput, Prisma.UserUncheckedCreateWithoutRecipeInput>
+export type UserUpsertWithoutShelfLifeOverrideInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutShelfLifeOverrideInput, Prisma.UserUncheckedUpdateWithoutShelfLifeOverrideInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutShelfLifeOverrideInput, Prisma.UserUncheckedCreateWithoutShelfLifeOverrideInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutRecipeInput = {
+export type UserUpdateToOneWithWhereWithoutShelfLifeOverrideInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutRecipeInput, Prisma.UserUncheckedUpdateWithoutRecipeInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutShelfLifeOverrideInput, Prisma.UserUncheckedUpdateWithoutShelfLifeOverrideInput>
 }
 
-export type UserUpdateWithoutRecipeInput = {
+export type UserUpdateWithoutShelfLifeOverrideInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3422,14 +4193,27 @@ export type UserUpdateWithoutRecipeInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
@@ -3437,7 +4221,7 @@ export type UserUpdateWithoutRecipeInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutRecipeInput = {
+export type UserUncheckedUpdateWithoutShelfLifeOverrideInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3476,14 +4260,27 @@ export type UserUncheckedUpdateWithoutRecipeInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
@@ -3491,7 +4288,7 @@ export type UserUncheckedUpdateWithoutRecipeInput = {
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutAdminAuditLogInput = {
+export type UserCreateWithoutInvoiceItemMappingInput = {
   id: string
   email: string
   name: string
@@ -3530,22 +4327,35 @@ export type UserCreateWithoutAdminAuditLogInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutAdminAuditLogInput = {
+export type UserUncheckedCreateWithoutInvoiceItemMappingInput = {
   id: string
   email: string
   name: string
@@ -3584,38 +4394,51 @@ export type UserUncheckedCreateWithoutAdminAuditLogInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutAdminAuditLogInput = {
+export type UserCreateOrConnectWithoutInvoiceItemMappingInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutAdminAuditLogInput, Prisma.UserUncheckedCreateWithoutAdminAuditLogInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvoiceItemMappingInput, Prisma.UserUncheckedCreateWithoutInvoiceItemMappingInput>
 }
 
-export type UserUpsertWithoutAdminAuditLogInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutAdminAuditLogInput, Prisma.UserUncheckedUpdateWithoutAdminAuditLogInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutAdminAuditLogInput, Prisma.UserUncheckedCreateWithoutAdminAuditLogInput>
+export type UserUpsertWithoutInvoiceItemMappingInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutInvoiceItemMappingInput, Prisma.UserUncheckedUpdateWithoutInvoiceItemMappingInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvoiceItemMappingInput, Prisma.UserUncheckedCreateWithoutInvoiceItemMappingInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutAdminAuditLogInput = {
+export type UserUpdateToOneWithWhereWithoutInvoiceItemMappingInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutAdminAuditLogInput, Prisma.UserUncheckedUpdateWithoutAdminAuditLogInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutInvoiceItemMappingInput, Prisma.UserUncheckedUpdateWithoutInvoiceItemMappingInput>
 }
 
-export type UserUpdateWithoutAdminAuditLogInput = {
+export type UserUpdateWithoutInvoiceItemMappingInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3654,22 +4477,35 @@ export type UserUpdateWithoutAdminAuditLogInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutAdminAuditLogInput = {
+export type UserUncheckedUpdateWithoutInvoiceItemMappingInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3708,22 +4544,35 @@ export type UserUncheckedUpdateWithoutAdminAuditLogInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutUsageQuotaInput = {
+export type UserCreateWithoutNotificationInput = {
   id: string
   email: string
   name: string
@@ -3762,22 +4611,35 @@ export type UserCreateWithoutUsageQuotaInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
-  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutUsageQuotaInput = {
+export type UserUncheckedCreateWithoutNotificationInput = {
   id: string
   email: string
   name: string
@@ -3816,38 +4678,51 @@ export type UserUncheckedCreateWithoutUsageQuotaInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
-  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutUsageQuotaInput = {
+export type UserCreateOrConnectWithoutNotificationInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutUsageQuotaInput, Prisma.UserUncheckedCreateWithoutUsageQuotaInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationInput, Prisma.UserUncheckedCreateWithoutNotificationInput>
 }
 
-export type UserUpsertWithoutUsageQuotaInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutUsageQuotaInput, Prisma.UserUncheckedUpdateWithoutUsageQuotaInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutUsageQuotaInput, Prisma.UserUncheckedCreateWithoutUsageQuotaInput>
+export type UserUpsertWithoutNotificationInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutNotificationInput, Prisma.UserUncheckedUpdateWithoutNotificationInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationInput, Prisma.UserUncheckedCreateWithoutNotificationInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutUsageQuotaInput = {
+export type UserUpdateToOneWithWhereWithoutNotificationInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutUsageQuotaInput, Prisma.UserUncheckedUpdateWithoutUsageQuotaInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutNotificationInput, Prisma.UserUncheckedUpdateWithoutNotificationInput>
 }
 
-export type UserUpdateWithoutUsageQuotaInput = {
+export type UserUpdateWithoutNotificationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3886,22 +4761,35 @@ export type UserUpdateWithoutUsageQuotaInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
-  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutUsageQuotaInput = {
+export type UserUncheckedUpdateWithoutNotificationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3940,22 +4828,35 @@ export type UserUncheckedUpdateWithoutUsageQuotaInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
-  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutUsageEventInput = {
+export type UserCreateWithoutNotificationPreferencesInput = {
   id: string
   email: string
   name: string
@@ -3994,22 +4895,35 @@ export type UserCreateWithoutUsageEventInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
-  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutUsageEventInput = {
+export type UserUncheckedCreateWithoutNotificationPreferencesInput = {
   id: string
   email: string
   name: string
@@ -4048,38 +4962,51 @@ export type UserUncheckedCreateWithoutUsageEventInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
-  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutUsageEventInput = {
+export type UserCreateOrConnectWithoutNotificationPreferencesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutUsageEventInput, Prisma.UserUncheckedCreateWithoutUsageEventInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationPreferencesInput, Prisma.UserUncheckedCreateWithoutNotificationPreferencesInput>
 }
 
-export type UserUpsertWithoutUsageEventInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutUsageEventInput, Prisma.UserUncheckedUpdateWithoutUsageEventInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutUsageEventInput, Prisma.UserUncheckedCreateWithoutUsageEventInput>
+export type UserUpsertWithoutNotificationPreferencesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutNotificationPreferencesInput, Prisma.UserUncheckedUpdateWithoutNotificationPreferencesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationPreferencesInput, Prisma.UserUncheckedCreateWithoutNotificationPreferencesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutUsageEventInput = {
+export type UserUpdateToOneWithWhereWithoutNotificationPreferencesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutUsageEventInput, Prisma.UserUncheckedUpdateWithoutUsageEventInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutNotificationPreferencesInput, Prisma.UserUncheckedUpdateWithoutNotificationPreferencesInput>
 }
 
-export type UserUpdateWithoutUsageEventInput = {
+export type UserUpdateWithoutNotificationPreferencesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -4118,22 +5045,35 @@ export type UserUpdateWithoutUsageEventInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
-  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutUsageEventInput = {
+export type UserUncheckedUpdateWithoutNotificationPreferencesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -4172,22 +5112,35 @@ export type UserUncheckedUpdateWithoutUsageEventInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
-  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserCreateWithoutSessionsInput = {
+export type UserCreateWithoutEmailDigestDeliveryInput = {
   id: string
   email: string
   name: string
@@ -4226,22 +5179,35 @@ export type UserCreateWithoutSessionsInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
-  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
   AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserUncheckedCreateWithoutSessionsInput = {
+export type UserUncheckedCreateWithoutEmailDigestDeliveryInput = {
   id: string
   email: string
   name: string
@@ -4280,33 +5246,3376 @@ export type UserUncheckedCreateWithoutSessionsInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
-  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
 }
 
-export type UserCreateOrConnectWithoutSessionsInput = {
+export type UserCreateOrConnectWithoutEmailDigestDeliveryInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutEmailDigestDeliveryInput, Prisma.UserUncheckedCreateWithoutEmailDigestDeliveryInput>
 }
 
-export type UserUpsertWithoutSessionsInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutSessionsInput, Prisma.UserUncheckedUpdateWithoutSessionsInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+export type UserUpsertWithoutEmailDigestDeliveryInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutEmailDigestDeliveryInput, Prisma.UserUncheckedUpdateWithoutEmailDigestDeliveryInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutEmailDigestDeliveryInput, Prisma.UserUncheckedCreateWithoutEmailDigestDeliveryInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutSessionsInput = {
+export type UserUpdateToOneWithWhereWithoutEmailDigestDeliveryInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutEmailDigestDeliveryInput, Prisma.UserUncheckedUpdateWithoutEmailDigestDeliveryInput>
+}
+
+export type UserUpdateWithoutEmailDigestDeliveryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutEmailDigestDeliveryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateWithoutInvoiceInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutInvoiceInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutInvoiceInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvoiceInput, Prisma.UserUncheckedCreateWithoutInvoiceInput>
+}
+
+export type UserUpsertWithoutInvoiceInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutInvoiceInput, Prisma.UserUncheckedUpdateWithoutInvoiceInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvoiceInput, Prisma.UserUncheckedCreateWithoutInvoiceInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutInvoiceInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutInvoiceInput, Prisma.UserUncheckedUpdateWithoutInvoiceInput>
+}
+
+export type UserUpdateWithoutInvoiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutInvoiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateWithoutReceiptInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutReceiptInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutReceiptInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutReceiptInput, Prisma.UserUncheckedCreateWithoutReceiptInput>
+}
+
+export type UserUpsertWithoutReceiptInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutReceiptInput, Prisma.UserUncheckedUpdateWithoutReceiptInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutReceiptInput, Prisma.UserUncheckedCreateWithoutReceiptInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutReceiptInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutReceiptInput, Prisma.UserUncheckedUpdateWithoutReceiptInput>
+}
+
+export type UserUpdateWithoutReceiptInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutReceiptInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateWithoutRecipeInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutRecipeInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutRecipeInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutRecipeInput, Prisma.UserUncheckedCreateWithoutRecipeInput>
+}
+
+export type UserUpsertWithoutRecipeInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutRecipeInput, Prisma.UserUncheckedUpdateWithoutRecipeInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutRecipeInput, Prisma.UserUncheckedCreateWithoutRecipeInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutRecipeInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutRecipeInput, Prisma.UserUncheckedUpdateWithoutRecipeInput>
+}
+
+export type UserUpdateWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutRecipeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateWithoutOwnedHouseholdInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutOwnedHouseholdInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutOwnedHouseholdInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutOwnedHouseholdInput, Prisma.UserUncheckedCreateWithoutOwnedHouseholdInput>
+}
+
+export type UserCreateWithoutActiveHouseholdInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutActiveHouseholdInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutActiveHouseholdInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutActiveHouseholdInput, Prisma.UserUncheckedCreateWithoutActiveHouseholdInput>
+}
+
+export type UserCreateManyActiveHouseholdInputEnvelope = {
+  data: Prisma.UserCreateManyActiveHouseholdInput | Prisma.UserCreateManyActiveHouseholdInput[]
+  skipDuplicates?: boolean
+}
+
+export type UserUpsertWithoutOwnedHouseholdInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutOwnedHouseholdInput, Prisma.UserUncheckedUpdateWithoutOwnedHouseholdInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutOwnedHouseholdInput, Prisma.UserUncheckedCreateWithoutOwnedHouseholdInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutOwnedHouseholdInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutOwnedHouseholdInput, Prisma.UserUncheckedUpdateWithoutOwnedHouseholdInput>
+}
+
+export type UserUpdateWithoutOwnedHouseholdInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutOwnedHouseholdInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUpsertWithWhereUniqueWithoutActiveHouseholdInput = {
+  where: Prisma.UserWhereUniqueInput
+  update: Prisma.XOR<Prisma.UserUpdateWithoutActiveHouseholdInput, Prisma.UserUncheckedUpdateWithoutActiveHouseholdInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutActiveHouseholdInput, Prisma.UserUncheckedCreateWithoutActiveHouseholdInput>
+}
+
+export type UserUpdateWithWhereUniqueWithoutActiveHouseholdInput = {
+  where: Prisma.UserWhereUniqueInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutActiveHouseholdInput, Prisma.UserUncheckedUpdateWithoutActiveHouseholdInput>
+}
+
+export type UserUpdateManyWithWhereWithoutActiveHouseholdInput = {
+  where: Prisma.UserScalarWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateManyMutationInput, Prisma.UserUncheckedUpdateManyWithoutActiveHouseholdInput>
+}
+
+export type UserScalarWhereInput = {
+  AND?: Prisma.UserScalarWhereInput | Prisma.UserScalarWhereInput[]
+  OR?: Prisma.UserScalarWhereInput[]
+  NOT?: Prisma.UserScalarWhereInput | Prisma.UserScalarWhereInput[]
+  id?: Prisma.StringFilter<"User"> | string
+  email?: Prisma.StringFilter<"User"> | string
+  name?: Prisma.StringFilter<"User"> | string
+  emailVerified?: Prisma.BoolFilter<"User"> | boolean
+  welcomeEmailSentAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  firstName?: Prisma.StringFilter<"User"> | string
+  lastName?: Prisma.StringFilter<"User"> | string
+  defaultServings?: Prisma.IntFilter<"User"> | number
+  primaryGoal?: Prisma.EnumPrimaryGoalNullableFilter<"User"> | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  preferences?: Prisma.JsonFilter<"User">
+  createdAt?: Prisma.DateTimeFilter<"User"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string
+  role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFilter<"User"> | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  suspendedUntil?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  moderationReason?: Prisma.StringNullableFilter<"User"> | string | null
+  deletionScheduledAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  statusBeforeDeletion?: Prisma.EnumAccountStatusNullableFilter<"User"> | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFilter<"User"> | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFilter<"User"> | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  trialEndsAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  trialUsedAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  trialStartedEmailSentAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  trialReminderEmailSentAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  currentPeriodStartedAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  currentPeriodEndsAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  stripeCustomerId?: Prisma.StringNullableFilter<"User"> | string | null
+  stripeSubscriptionId?: Prisma.StringNullableFilter<"User"> | string | null
+  stripePriceId?: Prisma.StringNullableFilter<"User"> | string | null
+  billingInterval?: Prisma.EnumBillingIntervalNullableFilter<"User"> | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFilter<"User"> | boolean
+  subscriptionCancelledAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  lastStripeEventAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+  avatarUrl?: Prisma.StringNullableFilter<"User"> | string | null
+  activeHouseholdId?: Prisma.StringNullableFilter<"User"> | string | null
+  storageLocationsSeededAt?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
+}
+
+export type UserCreateWithoutHouseholdMemberInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutHouseholdMemberInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutHouseholdMemberInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutHouseholdMemberInput, Prisma.UserUncheckedCreateWithoutHouseholdMemberInput>
+}
+
+export type UserUpsertWithoutHouseholdMemberInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutHouseholdMemberInput, Prisma.UserUncheckedUpdateWithoutHouseholdMemberInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutHouseholdMemberInput, Prisma.UserUncheckedCreateWithoutHouseholdMemberInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutHouseholdMemberInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutHouseholdMemberInput, Prisma.UserUncheckedUpdateWithoutHouseholdMemberInput>
+}
+
+export type UserUpdateWithoutHouseholdMemberInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutHouseholdMemberInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateWithoutHouseholdInvitationInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutHouseholdInvitationInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutHouseholdInvitationInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutHouseholdInvitationInput, Prisma.UserUncheckedCreateWithoutHouseholdInvitationInput>
+}
+
+export type UserUpsertWithoutHouseholdInvitationInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutHouseholdInvitationInput, Prisma.UserUncheckedUpdateWithoutHouseholdInvitationInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutHouseholdInvitationInput, Prisma.UserUncheckedCreateWithoutHouseholdInvitationInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutHouseholdInvitationInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutHouseholdInvitationInput, Prisma.UserUncheckedUpdateWithoutHouseholdInvitationInput>
+}
+
+export type UserUpdateWithoutHouseholdInvitationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutHouseholdInvitationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateWithoutShoppingListInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutShoppingListInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutShoppingListInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutShoppingListInput, Prisma.UserUncheckedCreateWithoutShoppingListInput>
+}
+
+export type UserUpsertWithoutShoppingListInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutShoppingListInput, Prisma.UserUncheckedUpdateWithoutShoppingListInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutShoppingListInput, Prisma.UserUncheckedCreateWithoutShoppingListInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutShoppingListInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutShoppingListInput, Prisma.UserUncheckedUpdateWithoutShoppingListInput>
+}
+
+export type UserUpdateWithoutShoppingListInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutShoppingListInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateWithoutAdminAuditLogInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutAdminAuditLogInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutAdminAuditLogInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutAdminAuditLogInput, Prisma.UserUncheckedCreateWithoutAdminAuditLogInput>
+}
+
+export type UserUpsertWithoutAdminAuditLogInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutAdminAuditLogInput, Prisma.UserUncheckedUpdateWithoutAdminAuditLogInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAdminAuditLogInput, Prisma.UserUncheckedCreateWithoutAdminAuditLogInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutAdminAuditLogInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutAdminAuditLogInput, Prisma.UserUncheckedUpdateWithoutAdminAuditLogInput>
+}
+
+export type UserUpdateWithoutAdminAuditLogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutAdminAuditLogInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutUsageQuotaInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutUsageQuotaInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutUsageQuotaInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutUsageQuotaInput, Prisma.UserUncheckedCreateWithoutUsageQuotaInput>
+}
+
+export type UserUpsertWithoutUsageQuotaInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutUsageQuotaInput, Prisma.UserUncheckedUpdateWithoutUsageQuotaInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutUsageQuotaInput, Prisma.UserUncheckedCreateWithoutUsageQuotaInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutUsageQuotaInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutUsageQuotaInput, Prisma.UserUncheckedUpdateWithoutUsageQuotaInput>
+}
+
+export type UserUpdateWithoutUsageQuotaInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutUsageQuotaInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateWithoutUsageEventInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutUsageEventInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutUsageEventInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutUsageEventInput, Prisma.UserUncheckedCreateWithoutUsageEventInput>
+}
+
+export type UserUpsertWithoutUsageEventInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutUsageEventInput, Prisma.UserUncheckedUpdateWithoutUsageEventInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutUsageEventInput, Prisma.UserUncheckedCreateWithoutUsageEventInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutUsageEventInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutUsageEventInput, Prisma.UserUncheckedUpdateWithoutUsageEventInput>
+}
+
+export type UserUpdateWithoutUsageEventInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutUsageEventInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateWithoutSessionsInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserUncheckedCreateWithoutSessionsInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
+  Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
+  Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
+  InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
+  Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
+  Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
+  Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
+  Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
+  UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedCreateNestedManyWithoutAdminUserInput
+}
+
+export type UserCreateOrConnectWithoutSessionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+}
+
+export type UserUpsertWithoutSessionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSessionsInput, Prisma.UserUncheckedUpdateWithoutSessionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSessionsInput, Prisma.UserUncheckedCreateWithoutSessionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSessionsInput = {
   where?: Prisma.UserWhereInput
   data: Prisma.XOR<Prisma.UserUpdateWithoutSessionsInput, Prisma.UserUncheckedUpdateWithoutSessionsInput>
 }
@@ -4350,15 +8659,28 @@ export type UserUpdateWithoutSessionsInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
@@ -4404,15 +8726,28 @@ export type UserUncheckedUpdateWithoutSessionsInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
@@ -4458,15 +8793,28 @@ export type UserCreateWithoutAccountsInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryCreateNestedManyWithoutUserInput
+  ActiveHousehold?: Prisma.HouseholdCreateNestedOneWithoutActiveUsersInput
+  OwnedHousehold?: Prisma.HouseholdCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput
@@ -4512,15 +8860,28 @@ export type UserUncheckedCreateWithoutAccountsInput = {
   subscriptionCancelledAt?: Date | string | null
   lastStripeEventAt?: Date | string | null
   avatarUrl?: string | null
+  activeHouseholdId?: string | null
+  storageLocationsSeededAt?: Date | string | null
   Budget?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput
   Expense?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedCreateNestedManyWithoutUserInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedCreateNestedOneWithoutOwnerInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedCreateNestedManyWithoutUserInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedCreateNestedManyWithoutInvitedByInput
   InventoryItem?: Prisma.InventoryItemUncheckedCreateNestedManyWithoutUserInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedCreateNestedManyWithoutUserInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedCreateNestedManyWithoutUserInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedCreateNestedManyWithoutUserInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedCreateNestedManyWithoutUserInput
+  StorageLocation?: Prisma.StorageLocationUncheckedCreateNestedManyWithoutUserInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedCreateNestedManyWithoutUserInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedCreateNestedManyWithoutUserInput
   Invoice?: Prisma.InvoiceUncheckedCreateNestedManyWithoutUserInput
   Notification?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedCreateNestedOneWithoutUserInput
   Recipe?: Prisma.RecipeUncheckedCreateNestedManyWithoutUserInput
   Receipt?: Prisma.ReceiptUncheckedCreateNestedManyWithoutUserInput
+  ShoppingList?: Prisma.ShoppingListUncheckedCreateNestedOneWithoutUserInput
   UsageQuota?: Prisma.UsageQuotaUncheckedCreateNestedManyWithoutUserInput
   UsageEvent?: Prisma.UsageEventUncheckedCreateNestedManyWithoutUserInput
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput
@@ -4543,7 +8904,183 @@ export type UserUpdateToOneWithWhereWithoutAccountsInput = {
   data: Prisma.XOR<Prisma.UserUpdateWithoutAccountsInput, Prisma.UserUncheckedUpdateWithoutAccountsInput>
 }
 
-export type UserUpdateWithoutAccountsInput = {
+export type UserUpdateWithoutAccountsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  ActiveHousehold?: Prisma.HouseholdUpdateOneWithoutActiveUsersNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutAccountsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  activeHouseholdId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
+  Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
+  EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
+  InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
+  Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
+  Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
+  Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
+  Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
+  UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
+  UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
+}
+
+export type UserCreateManyActiveHouseholdInput = {
+  id: string
+  email: string
+  name: string
+  emailVerified?: boolean
+  welcomeEmailSentAt?: Date | string | null
+  firstName?: string
+  lastName?: string
+  defaultServings?: number
+  primaryGoal?: $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+  updatedAt: Date | string
+  role?: $Enums.UserRole
+  accountStatus?: $Enums.AccountStatus
+  accountStatusChangedAt?: Date | string | null
+  suspendedUntil?: Date | string | null
+  moderationReason?: string | null
+  deletionScheduledAt?: Date | string | null
+  statusBeforeDeletion?: $Enums.AccountStatus | null
+  subscriptionPlan?: $Enums.SubscriptionPlan
+  subscriptionStatus?: $Enums.SubscriptionStatus
+  trialStartedAt?: Date | string | null
+  trialEndsAt?: Date | string | null
+  trialUsedAt?: Date | string | null
+  trialStartedEmailSentAt?: Date | string | null
+  trialReminderEmailSentAt?: Date | string | null
+  trialExpiredEmailSentAt?: Date | string | null
+  currentPeriodStartedAt?: Date | string | null
+  currentPeriodEndsAt?: Date | string | null
+  stripeCustomerId?: string | null
+  stripeSubscriptionId?: string | null
+  stripePriceId?: string | null
+  billingInterval?: $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: boolean
+  subscriptionCancelledAt?: Date | string | null
+  lastStripeEventAt?: Date | string | null
+  avatarUrl?: string | null
+  storageLocationsSeededAt?: Date | string | null
+}
+
+export type UserUpdateWithoutActiveHouseholdInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -4582,22 +9119,35 @@ export type UserUpdateWithoutAccountsInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput
   AdminAuditLog?: Prisma.AdminAuditLogUpdateManyWithoutAdminUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutAccountsInput = {
+export type UserUncheckedUpdateWithoutActiveHouseholdInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -4636,21 +9186,76 @@ export type UserUncheckedUpdateWithoutAccountsInput = {
   subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   Budget?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput
   Expense?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput
   EmailDigestDelivery?: Prisma.EmailDigestDeliveryUncheckedUpdateManyWithoutUserNestedInput
+  OwnedHousehold?: Prisma.HouseholdUncheckedUpdateOneWithoutOwnerNestedInput
+  HouseholdMember?: Prisma.HouseholdMemberUncheckedUpdateManyWithoutUserNestedInput
+  HouseholdInvitation?: Prisma.HouseholdInvitationUncheckedUpdateManyWithoutInvitedByNestedInput
   InventoryItem?: Prisma.InventoryItemUncheckedUpdateManyWithoutUserNestedInput
+  InventoryMovement?: Prisma.InventoryMovementUncheckedUpdateManyWithoutUserNestedInput
+  ProductStockLevel?: Prisma.ProductStockLevelUncheckedUpdateManyWithoutUserNestedInput
+  ProductPieceWeight?: Prisma.ProductPieceWeightUncheckedUpdateManyWithoutUserNestedInput
+  ProductPriceRecord?: Prisma.ProductPriceRecordUncheckedUpdateManyWithoutUserNestedInput
+  StorageLocation?: Prisma.StorageLocationUncheckedUpdateManyWithoutUserNestedInput
+  ShelfLifeOverride?: Prisma.ShelfLifeOverrideUncheckedUpdateManyWithoutUserNestedInput
+  InvoiceItemMapping?: Prisma.InvoiceItemMappingUncheckedUpdateManyWithoutUserNestedInput
   Invoice?: Prisma.InvoiceUncheckedUpdateManyWithoutUserNestedInput
   Notification?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
   NotificationPreferences?: Prisma.NotificationPreferencesUncheckedUpdateOneWithoutUserNestedInput
   Recipe?: Prisma.RecipeUncheckedUpdateManyWithoutUserNestedInput
   Receipt?: Prisma.ReceiptUncheckedUpdateManyWithoutUserNestedInput
+  ShoppingList?: Prisma.ShoppingListUncheckedUpdateOneWithoutUserNestedInput
   UsageQuota?: Prisma.UsageQuotaUncheckedUpdateManyWithoutUserNestedInput
   UsageEvent?: Prisma.UsageEventUncheckedUpdateManyWithoutUserNestedInput
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput
   AdminAuditLog?: Prisma.AdminAuditLogUncheckedUpdateManyWithoutAdminUserNestedInput
 }
 
+export type UserUncheckedUpdateManyWithoutActiveHouseholdInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  welcomeEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  defaultServings?: Prisma.IntFieldUpdateOperationsInput | number
+  primaryGoal?: Prisma.NullableEnumPrimaryGoalFieldUpdateOperationsInput | $Enums.PrimaryGoal | null
+  profileOnboardingCompletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  preferences?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole
+  accountStatus?: Prisma.EnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus
+  accountStatusChangedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  suspendedUntil?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  moderationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletionScheduledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  statusBeforeDeletion?: Prisma.NullableEnumAccountStatusFieldUpdateOperationsInput | $Enums.AccountStatus | null
+  subscriptionPlan?: Prisma.EnumSubscriptionPlanFieldUpdateOperationsInput | $Enums.SubscriptionPlan
+  subscriptionStatus?: Prisma.EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+  trialStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialStartedEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialReminderEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  trialExpiredEmailSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodStartedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  currentPeriodEndsAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  stripeCustomerId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripeSubscriptionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  stripePriceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  billingInterval?: Prisma.NullableEnumBillingIntervalFieldUpdateOperationsInput | $Enums.BillingInterval | null
+  cancelAtPeriodEnd?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  subscriptionCancelledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastStripeEventAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  storageLocationsSeededAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
 
 /**
  * Count Type UserCountOutputType
@@ -4660,7 +9265,16 @@ export type UserCountOutputType = {
   Budget: number
   Expense: number
   EmailDigestDelivery: number
+  HouseholdMember: number
+  HouseholdInvitation: number
   InventoryItem: number
+  InventoryMovement: number
+  ProductStockLevel: number
+  ProductPieceWeight: number
+  ProductPriceRecord: number
+  StorageLocation: number
+  ShelfLifeOverride: number
+  InvoiceItemMapping: number
   Invoice: number
   Notification: number
   Recipe: number
@@ -4676,7 +9290,16 @@ export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.I
   Budget?: boolean | UserCountOutputTypeCountBudgetArgs
   Expense?: boolean | UserCountOutputTypeCountExpenseArgs
   EmailDigestDelivery?: boolean | UserCountOutputTypeCountEmailDigestDeliveryArgs
+  HouseholdMember?: boolean | UserCountOutputTypeCountHouseholdMemberArgs
+  HouseholdInvitation?: boolean | UserCountOutputTypeCountHouseholdInvitationArgs
   InventoryItem?: boolean | UserCountOutputTypeCountInventoryItemArgs
+  InventoryMovement?: boolean | UserCountOutputTypeCountInventoryMovementArgs
+  ProductStockLevel?: boolean | UserCountOutputTypeCountProductStockLevelArgs
+  ProductPieceWeight?: boolean | UserCountOutputTypeCountProductPieceWeightArgs
+  ProductPriceRecord?: boolean | UserCountOutputTypeCountProductPriceRecordArgs
+  StorageLocation?: boolean | UserCountOutputTypeCountStorageLocationArgs
+  ShelfLifeOverride?: boolean | UserCountOutputTypeCountShelfLifeOverrideArgs
+  InvoiceItemMapping?: boolean | UserCountOutputTypeCountInvoiceItemMappingArgs
   Invoice?: boolean | UserCountOutputTypeCountInvoiceArgs
   Notification?: boolean | UserCountOutputTypeCountNotificationArgs
   Recipe?: boolean | UserCountOutputTypeCountRecipeArgs
@@ -4719,6 +9342,20 @@ export type UserCountOutputTypeCountEmailDigestDeliveryArgs<ExtArgs extends runt
   where?: Prisma.EmailDigestDeliveryWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountHouseholdMemberArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.HouseholdMemberWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountHouseholdInvitationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.HouseholdInvitationWhereInput
+}
+
 /**
  * UserCountOutputType without action
  */
@@ -4726,6 +9363,55 @@ export type UserCountOutputTypeCountInventoryItemArgs<ExtArgs extends runtime.Ty
   where?: Prisma.InventoryItemWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountInventoryMovementArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InventoryMovementWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountProductStockLevelArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductStockLevelWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountProductPieceWeightArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductPieceWeightWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountProductPriceRecordArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProductPriceRecordWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountStorageLocationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.StorageLocationWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountShelfLifeOverrideArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ShelfLifeOverrideWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountInvoiceItemMappingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceItemMappingWhereInput
+}
+
 /**
  * UserCountOutputType without action
  */
@@ -4829,15 +9515,29 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   subscriptionCancelledAt?: boolean
   lastStripeEventAt?: boolean
   avatarUrl?: boolean
+  activeHouseholdId?: boolean
+  storageLocationsSeededAt?: boolean
   Budget?: boolean | Prisma.User$BudgetArgs<ExtArgs>
   Expense?: boolean | Prisma.User$ExpenseArgs<ExtArgs>
   EmailDigestDelivery?: boolean | Prisma.User$EmailDigestDeliveryArgs<ExtArgs>
+  ActiveHousehold?: boolean | Prisma.User$ActiveHouseholdArgs<ExtArgs>
+  OwnedHousehold?: boolean | Prisma.User$OwnedHouseholdArgs<ExtArgs>
+  HouseholdMember?: boolean | Prisma.User$HouseholdMemberArgs<ExtArgs>
+  HouseholdInvitation?: boolean | Prisma.User$HouseholdInvitationArgs<ExtArgs>
   InventoryItem?: boolean | Prisma.User$InventoryItemArgs<ExtArgs>
+  InventoryMovement?: boolean | Prisma.User$InventoryMovementArgs<ExtArgs>
+  ProductStockLevel?: boolean | Prisma.User$ProductStockLevelArgs<ExtArgs>
+  ProductPieceWeight?: boolean | Prisma.User$ProductPieceWeightArgs<ExtArgs>
+  ProductPriceRecord?: boolean | Prisma.User$ProductPriceRecordArgs<ExtArgs>
+  StorageLocation?: boolean | Prisma.User$StorageLocationArgs<ExtArgs>
+  ShelfLifeOverride?: boolean | Prisma.User$ShelfLifeOverrideArgs<ExtArgs>
+  InvoiceItemMapping?: boolean | Prisma.User$InvoiceItemMappingArgs<ExtArgs>
   Invoice?: boolean | Prisma.User$InvoiceArgs<ExtArgs>
   Notification?: boolean | Prisma.User$NotificationArgs<ExtArgs>
   NotificationPreferences?: boolean | Prisma.User$NotificationPreferencesArgs<ExtArgs>
   Recipe?: boolean | Prisma.User$RecipeArgs<ExtArgs>
   Receipt?: boolean | Prisma.User$ReceiptArgs<ExtArgs>
+  ShoppingList?: boolean | Prisma.User$ShoppingListArgs<ExtArgs>
   UsageQuota?: boolean | Prisma.User$UsageQuotaArgs<ExtArgs>
   UsageEvent?: boolean | Prisma.User$UsageEventArgs<ExtArgs>
   sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
@@ -4885,6 +9585,9 @@ export type UserSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   subscriptionCancelledAt?: boolean
   lastStripeEventAt?: boolean
   avatarUrl?: boolean
+  activeHouseholdId?: boolean
+  storageLocationsSeededAt?: boolean
+  ActiveHousehold?: boolean | Prisma.User$ActiveHouseholdArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
 export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -4926,6 +9629,9 @@ export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   subscriptionCancelledAt?: boolean
   lastStripeEventAt?: boolean
   avatarUrl?: boolean
+  activeHouseholdId?: boolean
+  storageLocationsSeededAt?: boolean
+  ActiveHousehold?: boolean | Prisma.User$ActiveHouseholdArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
 export type UserSelectScalar = {
@@ -4967,19 +9673,33 @@ export type UserSelectScalar = {
   subscriptionCancelledAt?: boolean
   lastStripeEventAt?: boolean
   avatarUrl?: boolean
+  activeHouseholdId?: boolean
+  storageLocationsSeededAt?: boolean
 }
 
-export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "name" | "emailVerified" | "welcomeEmailSentAt" | "firstName" | "lastName" | "defaultServings" | "primaryGoal" | "profileOnboardingCompletedAt" | "preferences" | "createdAt" | "updatedAt" | "role" | "accountStatus" | "accountStatusChangedAt" | "suspendedUntil" | "moderationReason" | "deletionScheduledAt" | "statusBeforeDeletion" | "subscriptionPlan" | "subscriptionStatus" | "trialStartedAt" | "trialEndsAt" | "trialUsedAt" | "trialStartedEmailSentAt" | "trialReminderEmailSentAt" | "trialExpiredEmailSentAt" | "currentPeriodStartedAt" | "currentPeriodEndsAt" | "stripeCustomerId" | "stripeSubscriptionId" | "stripePriceId" | "billingInterval" | "cancelAtPeriodEnd" | "subscriptionCancelledAt" | "lastStripeEventAt" | "avatarUrl", ExtArgs["result"]["user"]>
+export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "email" | "name" | "emailVerified" | "welcomeEmailSentAt" | "firstName" | "lastName" | "defaultServings" | "primaryGoal" | "profileOnboardingCompletedAt" | "preferences" | "createdAt" | "updatedAt" | "role" | "accountStatus" | "accountStatusChangedAt" | "suspendedUntil" | "moderationReason" | "deletionScheduledAt" | "statusBeforeDeletion" | "subscriptionPlan" | "subscriptionStatus" | "trialStartedAt" | "trialEndsAt" | "trialUsedAt" | "trialStartedEmailSentAt" | "trialReminderEmailSentAt" | "trialExpiredEmailSentAt" | "currentPeriodStartedAt" | "currentPeriodEndsAt" | "stripeCustomerId" | "stripeSubscriptionId" | "stripePriceId" | "billingInterval" | "cancelAtPeriodEnd" | "subscriptionCancelledAt" | "lastStripeEventAt" | "avatarUrl" | "activeHouseholdId" | "storageLocationsSeededAt", ExtArgs["result"]["user"]>
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   Budget?: boolean | Prisma.User$BudgetArgs<ExtArgs>
   Expense?: boolean | Prisma.User$ExpenseArgs<ExtArgs>
   EmailDigestDelivery?: boolean | Prisma.User$EmailDigestDeliveryArgs<ExtArgs>
+  ActiveHousehold?: boolean | Prisma.User$ActiveHouseholdArgs<ExtArgs>
+  OwnedHousehold?: boolean | Prisma.User$OwnedHouseholdArgs<ExtArgs>
+  HouseholdMember?: boolean | Prisma.User$HouseholdMemberArgs<ExtArgs>
+  HouseholdInvitation?: boolean | Prisma.User$HouseholdInvitationArgs<ExtArgs>
   InventoryItem?: boolean | Prisma.User$InventoryItemArgs<ExtArgs>
+  InventoryMovement?: boolean | Prisma.User$InventoryMovementArgs<ExtArgs>
+  ProductStockLevel?: boolean | Prisma.User$ProductStockLevelArgs<ExtArgs>
+  ProductPieceWeight?: boolean | Prisma.User$ProductPieceWeightArgs<ExtArgs>
+  ProductPriceRecord?: boolean | Prisma.User$ProductPriceRecordArgs<ExtArgs>
+  StorageLocation?: boolean | Prisma.User$StorageLocationArgs<ExtArgs>
+  ShelfLifeOverride?: boolean | Prisma.User$ShelfLifeOverrideArgs<ExtArgs>
+  InvoiceItemMapping?: boolean | Prisma.User$InvoiceItemMappingArgs<ExtArgs>
   Invoice?: boolean | Prisma.User$InvoiceArgs<ExtArgs>
   Notification?: boolean | Prisma.User$NotificationArgs<ExtArgs>
   NotificationPreferences?: boolean | Prisma.User$NotificationPreferencesArgs<ExtArgs>
   Recipe?: boolean | Prisma.User$RecipeArgs<ExtArgs>
   Receipt?: boolean | Prisma.User$ReceiptArgs<ExtArgs>
+  ShoppingList?: boolean | Prisma.User$ShoppingListArgs<ExtArgs>
   UsageQuota?: boolean | Prisma.User$UsageQuotaArgs<ExtArgs>
   UsageEvent?: boolean | Prisma.User$UsageEventArgs<ExtArgs>
   sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>
@@ -4987,8 +9707,12 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   AdminAuditLog?: boolean | Prisma.User$AdminAuditLogArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
-export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
-export type UserIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  ActiveHousehold?: boolean | Prisma.User$ActiveHouseholdArgs<ExtArgs>
+}
+export type UserIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  ActiveHousehold?: boolean | Prisma.User$ActiveHouseholdArgs<ExtArgs>
+}
 
 export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "User"
@@ -4996,12 +9720,24 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     Budget: Prisma.$BudgetPayload<ExtArgs>[]
     Expense: Prisma.$ExpensePayload<ExtArgs>[]
     EmailDigestDelivery: Prisma.$EmailDigestDeliveryPayload<ExtArgs>[]
+    ActiveHousehold: Prisma.$HouseholdPayload<ExtArgs> | null
+    OwnedHousehold: Prisma.$HouseholdPayload<ExtArgs> | null
+    HouseholdMember: Prisma.$HouseholdMemberPayload<ExtArgs>[]
+    HouseholdInvitation: Prisma.$HouseholdInvitationPayload<ExtArgs>[]
     InventoryItem: Prisma.$InventoryItemPayload<ExtArgs>[]
+    InventoryMovement: Prisma.$InventoryMovementPayload<ExtArgs>[]
+    ProductStockLevel: Prisma.$ProductStockLevelPayload<ExtArgs>[]
+    ProductPieceWeight: Prisma.$ProductPieceWeightPayload<ExtArgs>[]
+    ProductPriceRecord: Prisma.$ProductPriceRecordPayload<ExtArgs>[]
+    StorageLocation: Prisma.$StorageLocationPayload<ExtArgs>[]
+    ShelfLifeOverride: Prisma.$ShelfLifeOverridePayload<ExtArgs>[]
+    InvoiceItemMapping: Prisma.$InvoiceItemMappingPayload<ExtArgs>[]
     Invoice: Prisma.$InvoicePayload<ExtArgs>[]
     Notification: Prisma.$NotificationPayload<ExtArgs>[]
     NotificationPreferences: Prisma.$NotificationPreferencesPayload<ExtArgs> | null
     Recipe: Prisma.$RecipePayload<ExtArgs>[]
     Receipt: Prisma.$ReceiptPayload<ExtArgs>[]
+    ShoppingList: Prisma.$ShoppingListPayload<ExtArgs> | null
     UsageQuota: Prisma.$UsageQuotaPayload<ExtArgs>[]
     UsageEvent: Prisma.$UsageEventPayload<ExtArgs>[]
     sessions: Prisma.$SessionPayload<ExtArgs>[]
@@ -5047,6 +9783,8 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     subscriptionCancelledAt: Date | null
     lastStripeEventAt: Date | null
     avatarUrl: string | null
+    activeHouseholdId: string | null
+    storageLocationsSeededAt: Date | null
   }, ExtArgs["result"]["user"]>
   composites: {}
 }
@@ -5444,12 +10182,24 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   Budget<T extends Prisma.User$BudgetArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$BudgetArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BudgetPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   Expense<T extends Prisma.User$ExpenseArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ExpenseArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpensePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   EmailDigestDelivery<T extends Prisma.User$EmailDigestDeliveryArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$EmailDigestDeliveryArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$EmailDigestDeliveryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ActiveHousehold<T extends Prisma.User$ActiveHouseholdArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ActiveHouseholdArgs<ExtArgs>>): Prisma.Prisma__HouseholdClient<runtime.Types.Result.GetResult<Prisma.$HouseholdPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  OwnedHousehold<T extends Prisma.User$OwnedHouseholdArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$OwnedHouseholdArgs<ExtArgs>>): Prisma.Prisma__HouseholdClient<runtime.Types.Result.GetResult<Prisma.$HouseholdPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  HouseholdMember<T extends Prisma.User$HouseholdMemberArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$HouseholdMemberArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$HouseholdMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  HouseholdInvitation<T extends Prisma.User$HouseholdInvitationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$HouseholdInvitationArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$HouseholdInvitationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   InventoryItem<T extends Prisma.User$InventoryItemArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$InventoryItemArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  InventoryMovement<T extends Prisma.User$InventoryMovementArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$InventoryMovementArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InventoryMovementPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ProductStockLevel<T extends Prisma.User$ProductStockLevelArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ProductStockLevelArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductStockLevelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ProductPieceWeight<T extends Prisma.User$ProductPieceWeightArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ProductPieceWeightArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPieceWeightPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ProductPriceRecord<T extends Prisma.User$ProductPriceRecordArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ProductPriceRecordArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProductPriceRecordPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  StorageLocation<T extends Prisma.User$StorageLocationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$StorageLocationArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StorageLocationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ShelfLifeOverride<T extends Prisma.User$ShelfLifeOverrideArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ShelfLifeOverrideArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ShelfLifeOverridePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  InvoiceItemMapping<T extends Prisma.User$InvoiceItemMappingArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$InvoiceItemMappingArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceItemMappingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   Invoice<T extends Prisma.User$InvoiceArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$InvoiceArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   Notification<T extends Prisma.User$NotificationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$NotificationArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   NotificationPreferences<T extends Prisma.User$NotificationPreferencesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$NotificationPreferencesArgs<ExtArgs>>): Prisma.Prisma__NotificationPreferencesClient<runtime.Types.Result.GetResult<Prisma.$NotificationPreferencesPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   Recipe<T extends Prisma.User$RecipeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$RecipeArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RecipePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   Receipt<T extends Prisma.User$ReceiptArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ReceiptArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReceiptPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  ShoppingList<T extends Prisma.User$ShoppingListArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$ShoppingListArgs<ExtArgs>>): Prisma.Prisma__ShoppingListClient<runtime.Types.Result.GetResult<Prisma.$ShoppingListPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   UsageQuota<T extends Prisma.User$UsageQuotaArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$UsageQuotaArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UsageQuotaPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   UsageEvent<T extends Prisma.User$UsageEventArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$UsageEventArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UsageEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   sessions<T extends Prisma.User$sessionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sessionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -5522,6 +10272,8 @@ export interface UserFieldRefs {
   readonly subscriptionCancelledAt: Prisma.FieldRef<"User", 'DateTime'>
   readonly lastStripeEventAt: Prisma.FieldRef<"User", 'DateTime'>
   readonly avatarUrl: Prisma.FieldRef<"User", 'String'>
+  readonly activeHouseholdId: Prisma.FieldRef<"User", 'String'>
+  readonly storageLocationsSeededAt: Prisma.FieldRef<"User", 'DateTime'>
 }
     
 
@@ -5771,6 +10523,10 @@ export type UserCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions
    */
   data: Prisma.UserCreateManyInput | Prisma.UserCreateManyInput[]
   skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIncludeCreateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -5841,6 +10597,10 @@ export type UserUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions
    * Limit how many Users to update.
    */
   limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserIncludeUpdateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -5981,6 +10741,92 @@ export type User$EmailDigestDeliveryArgs<ExtArgs extends runtime.Types.Extension
   distinct?: Prisma.EmailDigestDeliveryScalarFieldEnum | Prisma.EmailDigestDeliveryScalarFieldEnum[]
 }
 
+/**
+ * User.ActiveHousehold
+ */
+export type User$ActiveHouseholdArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Household
+   */
+  select?: Prisma.HouseholdSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Household
+   */
+  omit?: Prisma.HouseholdOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInclude<ExtArgs> | null
+  where?: Prisma.HouseholdWhereInput
+}
+
+/**
+ * User.OwnedHousehold
+ */
+export type User$OwnedHouseholdArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Household
+   */
+  select?: Prisma.HouseholdSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Household
+   */
+  omit?: Prisma.HouseholdOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInclude<ExtArgs> | null
+  where?: Prisma.HouseholdWhereInput
+}
+
+/**
+ * User.HouseholdMember
+ */
+export type User$HouseholdMemberArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdMember
+   */
+  select?: Prisma.HouseholdMemberSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdMember
+   */
+  omit?: Prisma.HouseholdMemberOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdMemberInclude<ExtArgs> | null
+  where?: Prisma.HouseholdMemberWhereInput
+  orderBy?: Prisma.HouseholdMemberOrderByWithRelationInput | Prisma.HouseholdMemberOrderByWithRelationInput[]
+  cursor?: Prisma.HouseholdMemberWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.HouseholdMemberScalarFieldEnum | Prisma.HouseholdMemberScalarFieldEnum[]
+}
+
+/**
+ * User.HouseholdInvitation
+ */
+export type User$HouseholdInvitationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the HouseholdInvitation
+   */
+  select?: Prisma.HouseholdInvitationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the HouseholdInvitation
+   */
+  omit?: Prisma.HouseholdInvitationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.HouseholdInvitationInclude<ExtArgs> | null
+  where?: Prisma.HouseholdInvitationWhereInput
+  orderBy?: Prisma.HouseholdInvitationOrderByWithRelationInput | Prisma.HouseholdInvitationOrderByWithRelationInput[]
+  cursor?: Prisma.HouseholdInvitationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.HouseholdInvitationScalarFieldEnum | Prisma.HouseholdInvitationScalarFieldEnum[]
+}
+
 /**
  * User.InventoryItem
  */
@@ -6005,6 +10851,174 @@ export type User$InventoryItemArgs<ExtArgs extends runtime.Types.Extensions.Inte
   distinct?: Prisma.InventoryItemScalarFieldEnum | Prisma.InventoryItemScalarFieldEnum[]
 }
 
+/**
+ * User.InventoryMovement
+ */
+export type User$InventoryMovementArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InventoryMovement
+   */
+  select?: Prisma.InventoryMovementSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InventoryMovement
+   */
+  omit?: Prisma.InventoryMovementOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InventoryMovementInclude<ExtArgs> | null
+  where?: Prisma.InventoryMovementWhereInput
+  orderBy?: Prisma.InventoryMovementOrderByWithRelationInput | Prisma.InventoryMovementOrderByWithRelationInput[]
+  cursor?: Prisma.InventoryMovementWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InventoryMovementScalarFieldEnum | Prisma.InventoryMovementScalarFieldEnum[]
+}
+
+/**
+ * User.ProductStockLevel
+ */
+export type User$ProductStockLevelArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductStockLevel
+   */
+  select?: Prisma.ProductStockLevelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductStockLevel
+   */
+  omit?: Prisma.ProductStockLevelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductStockLevelInclude<ExtArgs> | null
+  where?: Prisma.ProductStockLevelWhereInput
+  orderBy?: Prisma.ProductStockLevelOrderByWithRelationInput | Prisma.ProductStockLevelOrderByWithRelationInput[]
+  cursor?: Prisma.ProductStockLevelWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProductStockLevelScalarFieldEnum | Prisma.ProductStockLevelScalarFieldEnum[]
+}
+
+/**
+ * User.ProductPieceWeight
+ */
+export type User$ProductPieceWeightArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPieceWeight
+   */
+  select?: Prisma.ProductPieceWeightSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPieceWeight
+   */
+  omit?: Prisma.ProductPieceWeightOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPieceWeightInclude<ExtArgs> | null
+  where?: Prisma.ProductPieceWeightWhereInput
+  orderBy?: Prisma.ProductPieceWeightOrderByWithRelationInput | Prisma.ProductPieceWeightOrderByWithRelationInput[]
+  cursor?: Prisma.ProductPieceWeightWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProductPieceWeightScalarFieldEnum | Prisma.ProductPieceWeightScalarFieldEnum[]
+}
+
+/**
+ * User.ProductPriceRecord
+ */
+export type User$ProductPriceRecordArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProductPriceRecord
+   */
+  select?: Prisma.ProductPriceRecordSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProductPriceRecord
+   */
+  omit?: Prisma.ProductPriceRecordOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProductPriceRecordInclude<ExtArgs> | null
+  where?: Prisma.ProductPriceRecordWhereInput
+  orderBy?: Prisma.ProductPriceRecordOrderByWithRelationInput | Prisma.ProductPriceRecordOrderByWithRelationInput[]
+  cursor?: Prisma.ProductPriceRecordWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProductPriceRecordScalarFieldEnum | Prisma.ProductPriceRecordScalarFieldEnum[]
+}
+
+/**
+ * User.StorageLocation
+ */
+export type User$StorageLocationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the StorageLocation
+   */
+  select?: Prisma.StorageLocationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the StorageLocation
+   */
+  omit?: Prisma.StorageLocationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.StorageLocationInclude<ExtArgs> | null
+  where?: Prisma.StorageLocationWhereInput
+  orderBy?: Prisma.StorageLocationOrderByWithRelationInput | Prisma.StorageLocationOrderByWithRelationInput[]
+  cursor?: Prisma.StorageLocationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.StorageLocationScalarFieldEnum | Prisma.StorageLocationScalarFieldEnum[]
+}
+
+/**
+ * User.ShelfLifeOverride
+ */
+export type User$ShelfLifeOverrideArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShelfLifeOverride
+   */
+  select?: Prisma.ShelfLifeOverrideSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShelfLifeOverride
+   */
+  omit?: Prisma.ShelfLifeOverrideOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShelfLifeOverrideInclude<ExtArgs> | null
+  where?: Prisma.ShelfLifeOverrideWhereInput
+  orderBy?: Prisma.ShelfLifeOverrideOrderByWithRelationInput | Prisma.ShelfLifeOverrideOrderByWithRelationInput[]
+  cursor?: Prisma.ShelfLifeOverrideWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ShelfLifeOverrideScalarFieldEnum | Prisma.ShelfLifeOverrideScalarFieldEnum[]
+}
+
+/**
+ * User.InvoiceItemMapping
+ */
+export type User$InvoiceItemMappingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceItemMapping
+   */
+  select?: Prisma.InvoiceItemMappingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceItemMapping
+   */
+  omit?: Prisma.InvoiceItemMappingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceItemMappingInclude<ExtArgs> | null
+  where?: Prisma.InvoiceItemMappingWhereInput
+  orderBy?: Prisma.InvoiceItemMappingOrderByWithRelationInput | Prisma.InvoiceItemMappingOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceItemMappingWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceItemMappingScalarFieldEnum | Prisma.InvoiceItemMappingScalarFieldEnum[]
+}
+
 /**
  * User.Invoice
  */
@@ -6120,6 +11134,25 @@ export type User$ReceiptArgs<ExtArgs extends runtime.Types.Extensions.InternalAr
   distinct?: Prisma.ReceiptScalarFieldEnum | Prisma.ReceiptScalarFieldEnum[]
 }
 
+/**
+ * User.ShoppingList
+ */
+export type User$ShoppingListArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ShoppingList
+   */
+  select?: Prisma.ShoppingListSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ShoppingList
+   */
+  omit?: Prisma.ShoppingListOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ShoppingListInclude<ExtArgs> | null
+  where?: Prisma.ShoppingListWhereInput
+}
+
 /**
  * User.UsageQuota
  */
@@ -0,0 +1,34 @@
+CREATE TYPE "InventoryMovementReason" AS ENUM ('ADDED', 'CONSUMED', 'WASTED', 'COOKED', 'ADJUSTED');
+
+CREATE TABLE "InventoryMovement" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "inventoryItemId" TEXT,
+    "recipeId" TEXT,
+    "reason" "InventoryMovementReason" NOT NULL,
+    "quantityDelta" DOUBLE PRECISION NOT NULL,
+    "storageLocation" TEXT,
+    "notes" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryMovement_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "InventoryMovement_userId_occurredAt_idx" ON "InventoryMovement"("userId", "occurredAt");
+CREATE INDEX "InventoryMovement_userId_productId_occurredAt_idx" ON "InventoryMovement"("userId", "productId", "occurredAt");
+CREATE INDEX "InventoryMovement_userId_reason_occurredAt_idx" ON "InventoryMovement"("userId", "reason", "occurredAt");
+CREATE INDEX "InventoryMovement_inventoryItemId_idx" ON "InventoryMovement"("inventoryItemId");
+CREATE INDEX "InventoryMovement_recipeId_idx" ON "InventoryMovement"("recipeId");
+
+ALTER TABLE "InventoryMovement"
+ADD CONSTRAINT "InventoryMovement_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "InventoryMovement"
+ADD CONSTRAINT "InventoryMovement_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE "InventoryMovement"
+ADD CONSTRAINT "InventoryMovement_recipeId_fkey"
+FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE SET NULL ON UPDATE CASCADE;
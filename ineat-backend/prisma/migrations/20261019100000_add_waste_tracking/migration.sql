@@ -0,0 +1,4 @@
+CREATE TYPE "WasteReason" AS ENUM ('EXPIRED', 'SPOILED', 'LEFTOVER', 'OTHER');
+
+ALTER TABLE "InventoryMovement" ADD COLUMN "wasteReason" "WasteReason";
+ALTER TABLE "InventoryMovement" ADD COLUMN "valueLost" DOUBLE PRECISION;
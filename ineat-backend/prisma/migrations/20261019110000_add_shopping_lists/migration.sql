@@ -0,0 +1,48 @@
+CREATE TYPE "ShoppingListItemSource" AS ENUM ('MANUAL', 'RECIPE', 'OUT_OF_STOCK');
+
+CREATE TABLE "ShoppingList" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShoppingList_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "ShoppingListItem" (
+    "id" TEXT NOT NULL,
+    "shoppingListId" TEXT NOT NULL,
+    "productId" TEXT,
+    "recipeId" TEXT,
+    "name" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION,
+    "unit" TEXT,
+    "notes" TEXT,
+    "source" "ShoppingListItemSource" NOT NULL DEFAULT 'MANUAL',
+    "checkedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShoppingListItem_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ShoppingList_userId_key" ON "ShoppingList"("userId");
+CREATE INDEX "ShoppingListItem_shoppingListId_checkedAt_idx" ON "ShoppingListItem"("shoppingListId", "checkedAt");
+CREATE INDEX "ShoppingListItem_productId_idx" ON "ShoppingListItem"("productId");
+CREATE INDEX "ShoppingListItem_recipeId_idx" ON "ShoppingListItem"("recipeId");
+
+ALTER TABLE "ShoppingList"
+ADD CONSTRAINT "ShoppingList_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ShoppingListItem"
+ADD CONSTRAINT "ShoppingListItem_shoppingListId_fkey"
+FOREIGN KEY ("shoppingListId") REFERENCES "ShoppingList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ShoppingListItem"
+ADD CONSTRAINT "ShoppingListItem_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "ShoppingListItem"
+ADD CONSTRAINT "ShoppingListItem_recipeId_fkey"
+FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE SET NULL ON UPDATE CASCADE;
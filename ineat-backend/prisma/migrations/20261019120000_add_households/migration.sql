@@ -0,0 +1,68 @@
+CREATE TYPE "HouseholdRole" AS ENUM ('OWNER', 'ADMIN', 'MEMBER');
+
+CREATE TABLE "Household" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Household_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "HouseholdMember" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "HouseholdRole" NOT NULL DEFAULT 'MEMBER',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HouseholdMember_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "HouseholdInvitation" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "HouseholdRole" NOT NULL DEFAULT 'MEMBER',
+    "token" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HouseholdInvitation_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "User" ADD COLUMN "activeHouseholdId" TEXT;
+
+CREATE UNIQUE INDEX "Household_ownerId_key" ON "Household"("ownerId");
+CREATE UNIQUE INDEX "HouseholdMember_householdId_userId_key" ON "HouseholdMember"("householdId", "userId");
+CREATE INDEX "HouseholdMember_userId_idx" ON "HouseholdMember"("userId");
+CREATE UNIQUE INDEX "HouseholdInvitation_token_key" ON "HouseholdInvitation"("token");
+CREATE INDEX "HouseholdInvitation_householdId_idx" ON "HouseholdInvitation"("householdId");
+CREATE INDEX "HouseholdInvitation_email_idx" ON "HouseholdInvitation"("email");
+
+ALTER TABLE "Household"
+ADD CONSTRAINT "Household_ownerId_fkey"
+FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "HouseholdMember"
+ADD CONSTRAINT "HouseholdMember_householdId_fkey"
+FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "HouseholdMember"
+ADD CONSTRAINT "HouseholdMember_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "HouseholdInvitation"
+ADD CONSTRAINT "HouseholdInvitation_householdId_fkey"
+FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "HouseholdInvitation"
+ADD CONSTRAINT "HouseholdInvitation_invitedById_fkey"
+FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "User"
+ADD CONSTRAINT "User_activeHouseholdId_fkey"
+FOREIGN KEY ("activeHouseholdId") REFERENCES "Household"("id") ON DELETE SET NULL ON UPDATE CASCADE;
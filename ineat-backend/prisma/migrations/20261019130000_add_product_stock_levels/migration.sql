@@ -0,0 +1,24 @@
+ALTER TYPE "NotificationType" ADD VALUE 'LOW_STOCK';
+
+ALTER TABLE "NotificationPreferences" ADD COLUMN "lowStock" BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TABLE "ProductStockLevel" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "minimumQuantity" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductStockLevel_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ProductStockLevel_userId_productId_key" ON "ProductStockLevel"("userId", "productId");
+
+ALTER TABLE "ProductStockLevel"
+ADD CONSTRAINT "ProductStockLevel_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProductStockLevel"
+ADD CONSTRAINT "ProductStockLevel_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+CREATE TABLE "StorageLocation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "storageGroup" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StorageLocation_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "StorageLocation_userId_name_key" ON "StorageLocation"("userId", "name");
+
+ALTER TABLE "StorageLocation"
+ADD CONSTRAINT "StorageLocation_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+CREATE TABLE "ShelfLifeOverride" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "productId" TEXT,
+    "label" TEXT NOT NULL,
+    "keywords" JSONB NOT NULL DEFAULT '[]',
+    "daysByStorage" JSONB NOT NULL DEFAULT '{}',
+    "defaultDays" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShelfLifeOverride_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "ShelfLifeOverride_userId_idx" ON "ShelfLifeOverride"("userId");
+
+ALTER TABLE "ShelfLifeOverride"
+ADD CONSTRAINT "ShelfLifeOverride_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ShelfLifeOverride"
+ADD CONSTRAINT "ShelfLifeOverride_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+ALTER TABLE "Product" ADD COLUMN "pieceWeight" DOUBLE PRECISION;
+
+ALTER TABLE "RecipeIngredient" ADD COLUMN "unitType" "UnitType";
@@ -0,0 +1,7 @@
+ALTER TABLE "InventoryItem" ADD COLUMN "recipeId" TEXT;
+
+CREATE INDEX "InventoryItem_recipeId_idx" ON "InventoryItem"("recipeId");
+
+ALTER TABLE "InventoryItem"
+ADD CONSTRAINT "InventoryItem_recipeId_fkey"
+FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE SET NULL ON UPDATE CASCADE;
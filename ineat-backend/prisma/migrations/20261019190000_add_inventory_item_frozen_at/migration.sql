@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "InventoryItem" ADD COLUMN     "frozenAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "InventoryItem" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "InventoryItem_deletedAt_idx" ON "InventoryItem"("deletedAt");
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "ExpiryKind" AS ENUM ('USE_BY', 'BEST_BEFORE');
+
+-- AlterTable
+ALTER TABLE "InventoryItem" ADD COLUMN     "expiryKind" "ExpiryKind" NOT NULL DEFAULT 'USE_BY';
+
+-- Les lots existants des catégories à DDM passent en « à consommer de préférence avant »
+UPDATE "InventoryItem"
+SET "expiryKind" = 'BEST_BEFORE'
+FROM "Product", "Category"
+WHERE "InventoryItem"."productId" = "Product"."id"
+  AND "Product"."categoryId" = "Category"."id"
+  AND "Category"."slug" IN ('epicerie-salee', 'epicerie-sucree', 'surgeles', 'boissons')
+  AND ("InventoryItem"."preparationStatus" IS NULL OR "InventoryItem"."preparationStatus" <> 'COOKED');
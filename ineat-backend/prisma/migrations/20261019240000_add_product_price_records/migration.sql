@@ -0,0 +1,108 @@
+CREATE TYPE "ProductPriceSource" AS ENUM ('MANUAL', 'INVOICE');
+
+CREATE TABLE "ProductPriceRecord" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "source" "ProductPriceSource" NOT NULL,
+    "invoiceItemId" TEXT,
+    "merchantName" TEXT,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "totalPrice" DOUBLE PRECISION NOT NULL,
+    "purchasedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductPriceRecord_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ProductPriceRecord_invoiceItemId_key" ON "ProductPriceRecord"("invoiceItemId");
+
+CREATE INDEX "ProductPriceRecord_userId_productId_purchasedAt_idx" ON "ProductPriceRecord"("userId", "productId", "purchasedAt");
+
+ALTER TABLE "ProductPriceRecord"
+ADD CONSTRAINT "ProductPriceRecord_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProductPriceRecord"
+ADD CONSTRAINT "ProductPriceRecord_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProductPriceRecord"
+ADD CONSTRAINT "ProductPriceRecord_invoiceItemId_fkey"
+FOREIGN KEY ("invoiceItemId") REFERENCES "InvoiceItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the history with validated invoice lines.
+INSERT INTO "ProductPriceRecord" (
+    "id", "userId", "productId", "source", "invoiceItemId", "merchantName",
+    "quantity", "totalPrice", "purchasedAt"
+)
+SELECT
+    CONCAT('invoice-item:', ii."id"),
+    i."userId",
+    ii."productId",
+    'INVOICE',
+    ii."id",
+    i."merchantName",
+    ii."quantity",
+    ii."totalPrice",
+    COALESCE(i."purchaseDate", i."createdAt")
+FROM "InvoiceItem" ii
+JOIN "Invoice" i ON i."id" = ii."invoiceId"
+WHERE ii."validated" = true
+  AND ii."productId" IS NOT NULL
+  AND ii."quantity" > 0
+  AND ii."totalPrice" > 0;
+
+-- Then with prices entered on lots, skipping lots created by those invoices.
+-- The price covers the quantity bought, not what is left: it comes from the
+-- ADDED movements of the lot (merged purchases included) or, for a lot older
+-- than the movement ledger, from its quantity if it was never touched since.
+-- Partly consumed or adjusted lots without that history are skipped, whatever
+-- the unit of the product.
+WITH purchased_lots AS (
+    SELECT
+        inv."id",
+        inv."userId",
+        inv."productId",
+        inv."purchasePrice",
+        inv."purchaseDate",
+        COALESCE(
+            added."quantity",
+            CASE WHEN touched."inventoryItemId" IS NULL THEN inv."quantity" END
+        ) AS "quantity"
+    FROM "InventoryItem" inv
+    LEFT JOIN (
+        SELECT "inventoryItemId", SUM("quantityDelta") AS "quantity"
+        FROM "InventoryMovement"
+        WHERE "reason" = 'ADDED'
+        GROUP BY "inventoryItemId"
+    ) added ON added."inventoryItemId" = inv."id"
+    LEFT JOIN (
+        SELECT DISTINCT "inventoryItemId"
+        FROM "InventoryMovement"
+        WHERE "reason" <> 'ADDED'
+    ) touched ON touched."inventoryItemId" = inv."id"
+)
+INSERT INTO "ProductPriceRecord" (
+    "id", "userId", "productId", "source", "quantity", "totalPrice",
+    "purchasedAt"
+)
+SELECT
+    CONCAT('inventory-item:', lot."id"),
+    lot."userId",
+    lot."productId",
+    'MANUAL',
+    lot."quantity",
+    lot."purchasePrice",
+    lot."purchaseDate"
+FROM purchased_lots lot
+WHERE lot."purchasePrice" > 0
+  AND lot."quantity" > 0
+  AND NOT EXISTS (
+      SELECT 1
+      FROM "ProductPriceRecord" r
+      WHERE r."userId" = lot."userId"
+        AND r."productId" = lot."productId"
+        AND r."source" = 'INVOICE'
+        AND r."purchasedAt"::DATE = lot."purchaseDate"::DATE
+  );
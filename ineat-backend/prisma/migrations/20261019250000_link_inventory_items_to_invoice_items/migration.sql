@@ -0,0 +1,40 @@
+ALTER TYPE "InvoiceProcessingEventStatus" ADD VALUE 'REVERTED';
+
+ALTER TABLE "InventoryItem" ADD COLUMN "invoiceItemId" TEXT;
+
+CREATE UNIQUE INDEX "InventoryItem_invoiceItemId_key" ON "InventoryItem"("invoiceItemId");
+
+ALTER TABLE "InventoryItem"
+ADD CONSTRAINT "InventoryItem_invoiceItemId_fkey"
+FOREIGN KEY ("invoiceItemId") REFERENCES "InvoiceItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Link lots created by earlier invoice validations. A lot matches a validated
+-- line when it has the same product, purchase date and price; ambiguous
+-- matches are left unlinked and reported as missing if the invoice is reverted.
+WITH candidates AS (
+    SELECT ii."id" AS invoice_item_id, lot."id" AS inventory_item_id
+    FROM "InvoiceItem" ii
+    JOIN "Invoice" i ON i."id" = ii."invoiceId"
+    JOIN "InventoryItem" lot
+        ON lot."productId" = ii."productId"
+        AND lot."purchaseDate" = COALESCE(i."purchaseDate", i."createdAt")
+        AND lot."purchasePrice" IS NOT DISTINCT FROM ii."totalPrice"
+        AND lot."createdAt" >= i."createdAt"
+    WHERE ii."validated" = true
+),
+unique_candidates AS (
+    SELECT c.invoice_item_id, c.inventory_item_id
+    FROM candidates c
+    WHERE (
+        SELECT COUNT(*) FROM candidates other
+        WHERE other.invoice_item_id = c.invoice_item_id
+    ) = 1
+    AND (
+        SELECT COUNT(*) FROM candidates other
+        WHERE other.inventory_item_id = c.inventory_item_id
+    ) = 1
+)
+UPDATE "InventoryItem" lot
+SET "invoiceItemId" = uc.invoice_item_id
+FROM unique_candidates uc
+WHERE lot."id" = uc.inventory_item_id;
@@ -0,0 +1,9 @@
+ALTER TABLE "Invoice" ADD COLUMN "fileHash" TEXT;
+ALTER TABLE "Invoice" ADD COLUMN "duplicateOfId" TEXT;
+ALTER TABLE "Invoice" ADD COLUMN "duplicateAllowed" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX "Invoice_userId_fileHash_idx" ON "Invoice"("userId", "fileHash");
+
+ALTER TABLE "Invoice"
+ADD CONSTRAINT "Invoice_duplicateOfId_fkey"
+FOREIGN KEY ("duplicateOfId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
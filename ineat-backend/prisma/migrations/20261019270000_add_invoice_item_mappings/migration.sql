@@ -0,0 +1,32 @@
+-- Keep the name as detected by the analysis so corrections of the line name
+-- still teach the mapping for the raw Drive label.
+ALTER TABLE "InvoiceItem" ADD COLUMN "originalDetectedName" TEXT;
+UPDATE "InvoiceItem" SET "originalDetectedName" = "detectedName";
+ALTER TABLE "InvoiceItem" ALTER COLUMN "originalDetectedName" SET NOT NULL;
+
+ALTER TABLE "InvoiceItem" ADD COLUMN "resolvedFromHistory" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE "InvoiceItemMapping" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "merchantKey" TEXT NOT NULL DEFAULT '',
+    "detectedNameKey" TEXT NOT NULL,
+    "productId" TEXT,
+    "category" TEXT,
+    "storageLocation" TEXT,
+    "selectedEan" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceItemMapping_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "InvoiceItemMapping_userId_merchantKey_detectedNameKey_key" ON "InvoiceItemMapping"("userId", "merchantKey", "detectedNameKey");
+
+ALTER TABLE "InvoiceItemMapping"
+ADD CONSTRAINT "InvoiceItemMapping_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "InvoiceItemMapping"
+ADD CONSTRAINT "InvoiceItemMapping_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE SET NULL ON UPDATE CASCADE;
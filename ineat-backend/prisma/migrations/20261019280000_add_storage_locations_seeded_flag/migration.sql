@@ -0,0 +1,9 @@
+ALTER TABLE "User" ADD COLUMN "storageLocationsSeededAt" TIMESTAMP(3);
+
+-- Users who already own locations received the default list: deleting all of
+-- them must not seed it again.
+UPDATE "User" u
+SET "storageLocationsSeededAt" = CURRENT_TIMESTAMP
+WHERE EXISTS (
+    SELECT 1 FROM "StorageLocation" sl WHERE sl."userId" = u."id"
+);
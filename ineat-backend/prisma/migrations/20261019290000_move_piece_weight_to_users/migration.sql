@@ -0,0 +1,41 @@
+CREATE TABLE "ProductPieceWeight" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "pieceWeight" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductPieceWeight_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ProductPieceWeight_userId_productId_key" ON "ProductPieceWeight"("userId", "productId");
+
+ALTER TABLE "ProductPieceWeight"
+ADD CONSTRAINT "ProductPieceWeight_userId_fkey"
+FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "ProductPieceWeight"
+ADD CONSTRAINT "ProductPieceWeight_productId_fkey"
+FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The piece weight was stored on the shared catalog product. Keep it for every
+-- user currently holding a lot of that product, then drop the shared column.
+INSERT INTO "ProductPieceWeight" (
+    "id", "userId", "productId", "pieceWeight", "updatedAt"
+)
+SELECT
+    CONCAT(lots."userId", ':', p."id"),
+    lots."userId",
+    p."id",
+    p."pieceWeight",
+    CURRENT_TIMESTAMP
+FROM "Product" p
+JOIN (
+    SELECT DISTINCT "userId", "productId"
+    FROM "InventoryItem"
+    WHERE "deletedAt" IS NULL
+) lots ON lots."productId" = p."id"
+WHERE p."pieceWeight" > 0;
+
+ALTER TABLE "Product" DROP COLUMN "pieceWeight";
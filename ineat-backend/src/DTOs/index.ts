@@ -22,6 +22,8 @@ export {
   CategoryBreakdownDto,
   StorageLocationDto,
   RecentActivityDto,
+  WasteStatsDto,
+  InventoryValuationDto,
 } from '../inventory/dto/inventory-stats.dto';
 
 export { QuickAddProductDto } from '../inventory/dto/quick-add-product.dto';
@@ -45,7 +45,7 @@ const adminUserInclude = {
   },
   _count: {
     select: {
-      InventoryItem: true,
+      InventoryItem: { where: { deletedAt: null } },
       Invoice: true,
       Recipe: true,
     },
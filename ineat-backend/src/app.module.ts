@@ -25,6 +25,8 @@ import { EmailModule } from './email/email.module';
 import { RedisModule } from './redis/redis.module';
 import { JobsModule } from './jobs/jobs.module';
 import { SupportModule } from './support/support.module';
+import { ShoppingListModule } from './shopping-list/shopping-list.module';
+import { HouseholdModule } from './household/household.module';
 
 @Module({
   imports: [
@@ -52,6 +54,8 @@ import { SupportModule } from './support/support.module';
     RecipeModule,
     BillingModule,
     SupportModule,
+    ShoppingListModule,
+    HouseholdModule,
   ],
   controllers: [AppController],
   providers: [
@@ -25,6 +25,7 @@ export const authUserSelect = {
   billingInterval: true,
   cancelAtPeriodEnd: true,
   subscriptionCancelledAt: true,
+  activeHouseholdId: true,
 } satisfies Prisma.UserSelect;
 
 export type AuthUser = Prisma.UserGetPayload<{
@@ -16,6 +16,7 @@ import { AdminGuard } from './guards/admin.guard';
 import { PremiumGuard } from './guards/premium.guard';
 import { RoleGuard } from './guards/role.guard';
 import { CapabilityGuard } from './guards/capability.guard';
+import { HouseholdRoleGuard } from './guards/household-role.guard';
 
 @Global()
 @Module({
@@ -31,6 +32,7 @@ import { CapabilityGuard } from './guards/capability.guard';
     BetterAuthSessionService,
     RoleGuard,
     CapabilityGuard,
+    HouseholdRoleGuard,
     AdminGuard,
     PremiumGuard,
   ],
@@ -41,6 +43,7 @@ import { CapabilityGuard } from './guards/capability.guard';
     BetterAuthSessionService,
     RoleGuard,
     CapabilityGuard,
+    HouseholdRoleGuard,
     AdminGuard,
     PremiumGuard,
   ],
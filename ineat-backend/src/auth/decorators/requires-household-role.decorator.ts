@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { HouseholdRole } from '../../../prisma/generated/prisma/client';
+
+export const REQUIRED_HOUSEHOLD_ROLES_KEY = 'requiredHouseholdRoles';
+
+/**
+ * Restreint une route aux rôles donnés dans le foyer actif. Sans foyer actif,
+ * l'utilisateur agit sur ses propres données et la route reste accessible.
+ */
+export const RequiresHouseholdRole = (...roles: HouseholdRole[]) =>
+  SetMetadata(REQUIRED_HOUSEHOLD_ROLES_KEY, roles);
@@ -0,0 +1,80 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { HouseholdRoleGuard } from './household-role.guard';
+
+describe('HouseholdRoleGuard', () => {
+  let guard: HouseholdRoleGuard;
+  let reflector: Reflector;
+
+  beforeEach(() => {
+    reflector = new Reflector();
+    guard = new HouseholdRoleGuard(reflector);
+  });
+
+  const createMockExecutionContext = (
+    user?: any,
+    requiredRoles: string[] = ['OWNER', 'ADMIN'],
+  ): ExecutionContext => {
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => ({ user }),
+      }),
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+    } as unknown as ExecutionContext;
+
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(requiredRoles);
+
+    return context;
+  };
+
+  const household = (role: string) => ({
+    id: 'household-1',
+    name: 'Maison',
+    ownerId: 'owner-1',
+    role,
+  });
+
+  it('laisse passer une route sans rôle requis', () => {
+    const context = createMockExecutionContext(undefined, []);
+
+    expect(guard.canActivate(context)).toBe(true);
+  });
+
+  it('laisse passer un utilisateur sans foyer actif', () => {
+    const context = createMockExecutionContext({
+      id: 'user-1',
+      household: null,
+    });
+
+    expect(guard.canActivate(context)).toBe(true);
+  });
+
+  it('laisse passer un administrateur du foyer', () => {
+    const context = createMockExecutionContext({
+      id: 'user-1',
+      household: household('ADMIN'),
+    });
+
+    expect(guard.canActivate(context)).toBe(true);
+  });
+
+  it('refuse un simple membre du foyer', () => {
+    const context = createMockExecutionContext({
+      id: 'user-1',
+      household: household('MEMBER'),
+    });
+
+    expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
+  });
+
+  it('refuse une requête non authentifiée', () => {
+    const context = createMockExecutionContext(undefined);
+
+    expect(() => guard.canActivate(context)).toThrow(UnauthorizedException);
+  });
+});
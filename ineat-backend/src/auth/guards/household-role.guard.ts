@@ -0,0 +1,44 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { HouseholdRole } from '../../../prisma/generated/prisma/client';
+import { REQUIRED_HOUSEHOLD_ROLES_KEY } from '../decorators/requires-household-role.decorator';
+import { HouseholdScopedUser } from '../../household/household-scope';
+
+@Injectable()
+export class HouseholdRoleGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredRoles = this.reflector.getAllAndOverride<HouseholdRole[]>(
+      REQUIRED_HOUSEHOLD_ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredRoles?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user as HouseholdScopedUser | undefined;
+
+    if (!user) {
+      throw new UnauthorizedException(
+        'Authentification requise pour accéder à cette ressource',
+      );
+    }
+
+    if (user.household && !requiredRoles.includes(user.household.role)) {
+      throw new ForbiddenException(
+        "Votre rôle dans le foyer ne permet pas d'effectuer cette action",
+      );
+    }
+
+    return true;
+  }
+}
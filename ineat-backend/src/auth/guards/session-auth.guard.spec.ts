@@ -8,12 +8,16 @@ import { SessionAuthGuard } from './session-auth.guard';
 import { BetterAuthSessionService } from '../services/better-auth-session.service';
 
 describe('SessionAuthGuard', () => {
-  const createGuard = (user: Record<string, unknown> | null) => {
+  const createGuard = (
+    user: Record<string, unknown> | null,
+    household: Record<string, unknown> | null = null,
+  ) => {
     const reflector = {
       getAllAndOverride: jest.fn().mockReturnValue(false),
     } as unknown as Reflector;
     const sessionService = {
       getAuthenticatedUser: jest.fn().mockResolvedValue(user),
+      getActiveHousehold: jest.fn().mockResolvedValue(household),
     } as unknown as BetterAuthSessionService;
     const request: Record<string, unknown> = {};
     const context = {
@@ -62,6 +66,27 @@ describe('SessionAuthGuard', () => {
     const { guard, context, request } = createGuard(user);
 
     await expect(guard.canActivate(context)).resolves.toBe(true);
-    expect(request.user).toEqual(user);
+    expect(request.user).toEqual({ ...user, household: null });
+  });
+
+  it('rattache le foyer actif au contexte utilisateur', async () => {
+    const household = {
+      id: 'household-1',
+      name: 'Maison',
+      ownerId: 'user-2',
+      role: 'MEMBER',
+    };
+    const { guard, context, request } = createGuard(
+      {
+        id: 'user-1',
+        email: 'jane@example.com',
+        emailVerified: true,
+        activeHouseholdId: 'household-1',
+      },
+      household,
+    );
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(request.user).toMatchObject({ id: 'user-1', household });
   });
 });
@@ -39,7 +39,10 @@ export class SessionAuthGuard {
       });
     }
 
-    request.user = user;
+    request.user = {
+      ...user,
+      household: await this.betterAuthSessionService.getActiveHousehold(user),
+    };
     return true;
   }
 }
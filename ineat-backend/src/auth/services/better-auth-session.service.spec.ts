@@ -63,4 +63,49 @@ describe('BetterAuthSessionService', () => {
       }),
     );
   });
+
+  it("ignore un foyer actif dont l'utilisateur n'est plus membre", async () => {
+    const prisma = {
+      householdMember: { findUnique: jest.fn().mockResolvedValue(null) },
+    };
+    const service = new BetterAuthSessionService(prisma as never);
+
+    await expect(
+      service.getActiveHousehold({
+        id: 'user-id',
+        activeHouseholdId: 'household-1',
+      }),
+    ).resolves.toBeNull();
+    expect(prisma.householdMember.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          householdId_userId: { householdId: 'household-1', userId: 'user-id' },
+        },
+      }),
+    );
+  });
+
+  it('résout le rôle du membre dans son foyer actif', async () => {
+    const prisma = {
+      householdMember: {
+        findUnique: jest.fn().mockResolvedValue({
+          role: 'ADMIN',
+          Household: { id: 'household-1', name: 'Maison', ownerId: 'owner-id' },
+        }),
+      },
+    };
+    const service = new BetterAuthSessionService(prisma as never);
+
+    await expect(
+      service.getActiveHousehold({
+        id: 'user-id',
+        activeHouseholdId: 'household-1',
+      }),
+    ).resolves.toEqual({
+      id: 'household-1',
+      name: 'Maison',
+      ownerId: 'owner-id',
+      role: 'ADMIN',
+    });
+  });
 });
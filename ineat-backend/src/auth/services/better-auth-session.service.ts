@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { Request } from 'express';
 import { PrismaService } from '../../prisma/prisma.service';
 import { authUserSelect } from '../auth-user.select';
+import { ActiveHousehold } from '../../household/household-scope';
 
 const toWebHeaders = (headers: Request['headers']): Headers => {
   const webHeaders = new Headers();
@@ -76,4 +77,34 @@ export class BetterAuthSessionService {
       return null;
     }
   }
+
+  /**
+   * Résout le foyer actif de l'utilisateur. Une appartenance disparue
+   * (membre retiré entre-temps) ramène l'utilisateur sur ses propres données.
+   */
+  async getActiveHousehold(user: {
+    id: string;
+    activeHouseholdId?: string | null;
+  }): Promise<ActiveHousehold | null> {
+    if (!user.activeHouseholdId) {
+      return null;
+    }
+
+    const membership = await this.prisma.householdMember.findUnique({
+      where: {
+        householdId_userId: {
+          householdId: user.activeHouseholdId,
+          userId: user.id,
+        },
+      },
+      select: {
+        role: true,
+        Household: { select: { id: true, name: true, ownerId: true } },
+      },
+    });
+
+    return membership
+      ? { ...membership.Household, role: membership.role }
+      : null;
+  }
 }
@@ -29,6 +29,12 @@ import {
 } from '../schemas/budget.schema';
 import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
 import { SessionAuthGuard } from '../../auth/guards/session-auth.guard';
+import { HouseholdRoleGuard } from '../../auth/guards/household-role.guard';
+import { RequiresHouseholdRole } from '../../auth/decorators/requires-household-role.decorator';
+import {
+  getScopeUserId,
+  HouseholdScopedUser,
+} from '../../household/household-scope';
 
 // Pipes Zod pour validation
 const CreateBudgetPipe = new ZodValidationPipe(CreateBudgetSchema);
@@ -51,7 +57,7 @@ export class BudgetController {
   @Get('current')
   async getCurrentBudget(@Req() req: Request) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const budget = await this.budgetService.getCurrentBudget(userId);
 
       if (!budget) {
@@ -88,7 +94,7 @@ export class BudgetController {
   @Get('exists')
   async checkBudgetExists(@Req() req: Request) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const hasAnyBudget = await this.budgetService.hasAnyBudget(userId);
 
       return {
@@ -114,7 +120,7 @@ export class BudgetController {
     @Query(BudgetFiltersPipe) filters?: BudgetFilters,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const budgets = await this.budgetService.getBudgets(userId, filters);
 
       return {
@@ -133,7 +139,7 @@ export class BudgetController {
   @Get('history')
   async getBudgetHistory(@Req() req: Request) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const budgets = await this.budgetService.getBudgets(userId);
 
       return {
@@ -156,7 +162,7 @@ export class BudgetController {
         throw new BadRequestException('Le mois doit être au format YYYY-MM');
       }
 
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const [year, monthNumber] = month.split('-').map(Number);
       if (monthNumber < 1 || monthNumber > 12) {
         throw new BadRequestException(
@@ -210,7 +216,7 @@ export class BudgetController {
     @Param(BudgetParamsPipe) params: { budgetId: string },
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const { budgetId } = params;
 
       const budget = await this.budgetService.getBudgetById(budgetId, userId);
@@ -244,13 +250,15 @@ export class BudgetController {
    * POST /budget
    */
   @Post()
+  @UseGuards(HouseholdRoleGuard)
+  @RequiresHouseholdRole('OWNER', 'ADMIN')
   @HttpCode(HttpStatus.CREATED)
   async createBudget(
     @Req() req: Request,
     @Body(CreateBudgetPipe) data: CreateBudgetData,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const budget = await this.budgetService.createBudget(userId, data);
 
       return {
@@ -268,13 +276,15 @@ export class BudgetController {
    * POST /budget/monthly
    */
   @Post('monthly')
+  @UseGuards(HouseholdRoleGuard)
+  @RequiresHouseholdRole('OWNER', 'ADMIN')
   @HttpCode(HttpStatus.CREATED)
   async createMonthlyBudget(
     @Req() req: Request,
     @Body() data: { amount: number; year?: number; month?: number },
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const budget = await this.budgetService.createMonthlyBudget(
         userId,
         data.amount,
@@ -296,13 +306,15 @@ export class BudgetController {
    * PUT /budget/:budgetId
    */
   @Put(':budgetId')
+  @UseGuards(HouseholdRoleGuard)
+  @RequiresHouseholdRole('OWNER', 'ADMIN')
   async updateBudget(
     @Req() req: Request,
     @Param(BudgetParamsPipe) params: { budgetId: string },
     @Body(UpdateBudgetPipe) data: UpdateBudgetData,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const { budgetId } = params;
 
       const budget = await this.budgetService.updateBudget(
@@ -334,7 +346,7 @@ export class BudgetController {
     @Param(BudgetParamsPipe) params: { budgetId: string },
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const { budgetId } = params;
 
       const stats = await this.budgetService.getBudgetStats(budgetId, userId);
@@ -361,7 +373,7 @@ export class BudgetController {
     @Param(BudgetParamsPipe) params: { budgetId: string },
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const { budgetId } = params;
 
       const alerts = await this.budgetService.checkBudgetAlerts(
@@ -386,13 +398,15 @@ export class BudgetController {
    * DELETE /budget/:budgetId
    */
   @Delete(':budgetId')
+  @UseGuards(HouseholdRoleGuard)
+  @RequiresHouseholdRole('OWNER', 'ADMIN')
   @HttpCode(HttpStatus.NO_CONTENT)
   async deleteBudget(
     @Req() req: Request,
     @Param(BudgetParamsPipe) params: { budgetId: string },
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const { budgetId } = params;
 
       await this.budgetService.deleteBudget(budgetId, userId);
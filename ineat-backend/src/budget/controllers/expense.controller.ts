@@ -32,6 +32,10 @@ import {
 } from '../schemas/expense.schema';
 import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
 import { SessionAuthGuard } from '../../auth/guards/session-auth.guard';
+import {
+  getScopeUserId,
+  HouseholdScopedUser,
+} from '../../household/household-scope';
 
 // Pipes Zod pour validation
 const CreateExpensePipe = new ZodValidationPipe(CreateExpenseSchema);
@@ -57,7 +61,7 @@ export class ExpenseController {
     @Query('pageSize') pageSize = 20,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const result = await this.expenseService.getExpenses(
         userId,
         filters,
@@ -93,7 +97,7 @@ export class ExpenseController {
     @Param(ExpenseParamsPipe) params: { expenseId: string },
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const { expenseId } = params;
       
       const expense = await this.expenseService.getExpenseById(expenseId, userId);
@@ -124,7 +128,7 @@ export class ExpenseController {
     @Body(CreateExpensePipe) data: CreateExpenseData,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const expense = await this.expenseService.createExpense(userId, data);
       
       return {
@@ -159,7 +163,7 @@ export class ExpenseController {
     },
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const autoOptions = {
         findOrCreateBudget: options?.findOrCreateBudget ?? true,
         defaultBudgetAmount: options?.defaultBudgetAmount,
@@ -193,7 +197,7 @@ export class ExpenseController {
     @Body(UpdateExpensePipe) data: UpdateExpenseData,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const { expenseId } = params;
       
       const expense = await this.expenseService.updateExpense(expenseId, userId, data);
@@ -222,7 +226,7 @@ export class ExpenseController {
     @Param(ExpenseParamsPipe) params: { expenseId: string },
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const { expenseId } = params;
       
       await this.expenseService.deleteExpense(expenseId, userId);
@@ -249,7 +253,7 @@ export class ExpenseController {
     @Query('limit') limit = 10,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const expenses = await this.expenseService.getRecentExpenses(userId, Number(limit));
       
       return {
@@ -271,7 +275,7 @@ export class ExpenseController {
     @Query('budgetId') budgetId?: string,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const stats = await this.expenseService.getExpenseStats(userId, budgetId);
       
       return {
@@ -293,7 +297,7 @@ export class ExpenseController {
     @Query('budgetId') budgetId?: string,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const expenses = await this.expenseService.getExpensesWithoutAmount(userId, budgetId);
       
       return {
@@ -315,7 +319,7 @@ export class ExpenseController {
     @Body() data: { budgetId: string; amount: number },
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const impact = await this.expenseService.calculateExpenseImpact(
         data.budgetId,
         userId,
@@ -344,7 +348,7 @@ export class ExpenseController {
     @Param('budgetId') budgetId: string,
   ) {
     try {
-      const userId = (req.user as { id: string }).id;
+      const userId = getScopeUserId(req.user as HouseholdScopedUser);
       const expenses = await this.expenseService.getBudgetExpenses(budgetId, userId);
       
       return {
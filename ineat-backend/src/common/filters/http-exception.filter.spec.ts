@@ -1,6 +1,7 @@
 import {
   ArgumentsHost,
   BadRequestException,
+  ConflictException,
   InternalServerErrorException,
 } from '@nestjs/common';
 import { HttpExceptionFilter } from './http-exception.filter';
@@ -121,4 +122,28 @@ describe('HttpExceptionFilter', () => {
       requestId: 'req-public',
     });
   });
+
+  it('transmet les détails métier des erreurs 4xx', () => {
+    const { host, json, status } = createHost({
+      'x-request-id': 'req-conflict',
+    });
+
+    filter.catch(
+      new ConflictException({
+        code: 'INVOICE_DUPLICATE',
+        message: 'Cette facture a déjà été importée',
+        details: { duplicateOfId: 'invoice-1' },
+      }),
+      host,
+    );
+
+    expect(status).toHaveBeenCalledWith(409);
+    expect(json).toHaveBeenCalledWith({
+      success: false,
+      code: 'INVOICE_DUPLICATE',
+      message: 'Cette facture a déjà été importée',
+      requestId: 'req-conflict',
+      details: { duplicateOfId: 'invoice-1' },
+    });
+  });
 });
@@ -17,6 +17,7 @@ interface ExceptionResponseBody {
   message?: string | string[];
   error?: string;
   statusCode?: number;
+  details?: Record<string, unknown>;
 }
 
 interface NormalizedErrorResponse {
@@ -24,6 +25,8 @@ interface NormalizedErrorResponse {
   code: string;
   message: string;
   requestId: string;
+  /** Données métier complémentaires, exposées uniquement pour les erreurs 4xx. */
+  details?: Record<string, unknown>;
 }
 
 @Catch()
@@ -91,12 +94,15 @@ export class HttpExceptionFilter implements ExceptionFilter {
           ? responseBody.message || this.getDefaultMessage(status)
           : DEFAULT_ERROR_MESSAGE,
       requestId,
+      ...(status < 500 && responseBody.details
+        ? { details: responseBody.details }
+        : {}),
     };
   }
 
   private normalizeExceptionResponse(
     exceptionResponse: ExceptionResponseBody | string | null,
-  ): Pick<NormalizedErrorResponse, 'code' | 'message'> {
+  ): Pick<NormalizedErrorResponse, 'code' | 'message' | 'details'> {
     if (typeof exceptionResponse === 'string') {
       return {
         code: undefined,
@@ -114,6 +120,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
     return {
       code: exceptionResponse.code,
       message: this.normalizeMessage(exceptionResponse.message),
+      details: exceptionResponse.details,
     };
   }
 
@@ -142,11 +142,14 @@ describe('sendPasswordResetEmail', () => {
         periodKey: '2026-08-02',
         firstName: 'Steve',
         expired: [],
+        toCheck: [
+          { name: 'Riz', quantity: 1, detail: 'DDM dépassée depuis 3 jours' },
+        ],
         expiringSoon: [
           { name: 'Yaourts', quantity: 2, detail: 'expire dans 2 jours' },
         ],
         recentlyAdded: [],
-        totals: { expired: 0, expiringSoon: 1, recentlyAdded: 0 },
+        totals: { expired: 0, toCheck: 1, expiringSoon: 1, recentlyAdded: 0 },
         budget: {
           spent: 75,
           amount: 100,
@@ -23,6 +23,8 @@ import {
   type AccountDeletedEmailInput,
   createSupportRequestEmail,
   type SupportRequestEmailInput,
+  createHouseholdInvitationEmail,
+  type HouseholdInvitationEmailInput,
 } from './email.templates';
 import { ResendEmailTransport } from './resend-email.transport';
 import { EmailSendResult, EmailTransport } from './email.types';
@@ -368,3 +370,19 @@ export const sendAccountDeletedEmail = (
     idempotencyKey: `account-deleted/${input.userId}`,
   });
 };
+
+export const sendHouseholdInvitationEmail = (
+  input: HouseholdInvitationEmailInput & { to: string; invitationId: string },
+  transport: EmailTransport = getDefaultEmailTransport(),
+) => {
+  const template = createHouseholdInvitationEmail(input);
+  return transport.send({
+    to: input.to,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+    type: 'household_invitation',
+    recipientReference: createRecipientReference(input.to),
+    idempotencyKey: `household-invitation/${input.invitationId}`,
+  });
+};
@@ -18,6 +18,7 @@ import {
   sendQuotaEmail,
   sendAccountDeletedEmail,
   sendSupportRequestEmail,
+  sendHouseholdInvitationEmail,
 } from './email-sender';
 import { EmailTransport } from './email.types';
 import type {
@@ -27,6 +28,7 @@ import type {
   QuotaEmailInput,
   WeeklyProductDigestInput,
   SupportRequestEmailInput,
+  HouseholdInvitationEmailInput,
 } from './email.templates';
 
 @Injectable()
@@ -193,6 +195,14 @@ export class EmailService {
     );
   }
 
+  async sendHouseholdInvitation(
+    input: HouseholdInvitationEmailInput & { to: string; invitationId: string },
+  ) {
+    return this.sendObserved('household_invitation', (transport) =>
+      sendHouseholdInvitationEmail(input, transport),
+    );
+  }
+
   private async sendObserved<T>(
     type: string,
     send: (transport: EmailTransport) => Promise<T>,
@@ -20,9 +20,16 @@ export type WeeklyProductDigestItem = {
 export type WeeklyProductDigestInput = {
   firstName?: string | null;
   expired: WeeklyProductDigestItem[];
+  /** Produits dont la DDM est dépassée : consommables après vérification */
+  toCheck: WeeklyProductDigestItem[];
   expiringSoon: WeeklyProductDigestItem[];
   recentlyAdded: WeeklyProductDigestItem[];
-  totals: { expired: number; expiringSoon: number; recentlyAdded: number };
+  totals: {
+    expired: number;
+    toCheck: number;
+    expiringSoon: number;
+    recentlyAdded: number;
+  };
   budget?: {
     spent: number;
     amount: number;
@@ -68,6 +75,13 @@ export type AccountDeletedEmailInput = {
   firstName?: string | null;
 };
 
+export type HouseholdInvitationEmailInput = {
+  householdName: string;
+  inviterName: string;
+  invitationUrl: string;
+  expiresAt: Date;
+};
+
 export type SupportRequestEmailInput = {
   categoryLabel: string;
   message: string;
@@ -351,6 +365,27 @@ export function createQuotaEmail(input: QuotaEmailInput, reached: boolean) {
   };
 }
 
+export function createHouseholdInvitationEmail(
+  input: HouseholdInvitationEmailInput,
+) {
+  const greeting = 'Bonjour,';
+  const body = `${input.inviterName} vous invite à rejoindre le foyer « ${input.householdName} » sur InEat pour partager l'inventaire, le budget et les recettes. L'invitation expire le ${formatFrenchDate(input.expiresAt)}.`;
+  return {
+    subject: `${input.inviterName} vous invite à rejoindre son foyer sur InEat`,
+    text: `${greeting}\n\n${body}\n\nRejoindre le foyer : ${input.invitationUrl}`,
+    html: createTrialEmailLayout({
+      greeting,
+      preview: `Invitation à rejoindre le foyer ${input.householdName}.`,
+      title: 'Rejoignez votre foyer',
+      body,
+      actionLabel: 'Rejoindre le foyer',
+      actionUrl: input.invitationUrl,
+      footer:
+        "Si vous ne connaissez pas l'expéditeur, vous pouvez ignorer cet e-mail.",
+    }),
+  };
+}
+
 const formatMoney = (value: number) =>
   new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(
     value,
@@ -393,6 +428,9 @@ export function createWeeklyProductDigestEmail(
     input.totals.expired
       ? `Produits périmés (${input.totals.expired})\n${itemText(input.expired)}`
       : '',
+    input.totals.toCheck
+      ? `À vérifier avant de consommer (${input.totals.toCheck})\n${itemText(input.toCheck)}`
+      : '',
     input.totals.expiringSoon
       ? `À consommer dans les 7 jours (${input.totals.expiringSoon})\n${itemText(input.expiringSoon)}`
       : '',
@@ -421,6 +459,7 @@ export function createWeeklyProductDigestEmail(
         <h1 style="margin:0 0 12px;font-size:26px;line-height:1.25">Préparez votre semaine avec InEat</h1>
         <p style="margin:0 0 20px;font-size:16px;line-height:1.6">Voici les informations utiles de votre inventaire.</p>
         ${renderDigestSection('À consommer maintenant', input.expired, input.totals.expired, input.inventoryUrl)}
+        ${renderDigestSection('À vérifier avant de consommer', input.toCheck, input.totals.toCheck, input.inventoryUrl)}
         ${renderDigestSection('À consommer dans les 7 jours', input.expiringSoon, input.totals.expiringSoon, input.inventoryUrl)}
         ${budgetHtml}
         ${renderDigestSection('Ajoutés cette semaine', input.recentlyAdded, input.totals.recentlyAdded, input.inventoryUrl)}
@@ -16,7 +16,8 @@ export type TransactionalEmailType =
   | 'quota_warning'
   | 'quota_reached'
   | 'account_deleted'
-  | 'support_request';
+  | 'support_request'
+  | 'household_invitation';
 
 export interface TransactionalEmailMessage {
   to: string;
@@ -0,0 +1,88 @@
+import {
+  IsEmail,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { HouseholdRole } from '../../../prisma/generated/prisma/client';
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+/** Rôles attribuables : la propriété d'un foyer ne se transmet pas. */
+export const ASSIGNABLE_HOUSEHOLD_ROLES = [
+  HouseholdRole.ADMIN,
+  HouseholdRole.MEMBER,
+] as const;
+
+export type AssignableHouseholdRole =
+  (typeof ASSIGNABLE_HOUSEHOLD_ROLES)[number];
+
+export class CreateHouseholdDto {
+  @ApiProperty({
+    description: 'Nom du foyer',
+    example: 'Maison',
+    maxLength: 60,
+  })
+  @Transform(trim)
+  @IsString({ message: 'Le nom du foyer doit être une chaîne de caractères' })
+  @IsNotEmpty({ message: 'Le nom du foyer est requis' })
+  @MaxLength(60, {
+    message: 'Le nom du foyer ne peut pas dépasser 60 caractères',
+  })
+  name: string;
+}
+
+export class UpdateHouseholdDto extends CreateHouseholdDto {}
+
+export class InviteHouseholdMemberDto {
+  @ApiProperty({
+    description: 'Adresse e-mail de la personne invitée',
+    example: 'alex@example.com',
+  })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() : value,
+  )
+  @IsEmail({}, { message: "L'adresse e-mail est invalide" })
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Rôle attribué à la personne invitée',
+    enum: ASSIGNABLE_HOUSEHOLD_ROLES,
+    default: HouseholdRole.MEMBER,
+  })
+  @IsOptional()
+  @IsIn(ASSIGNABLE_HOUSEHOLD_ROLES, {
+    message: 'Le rôle doit être ADMIN ou MEMBER',
+  })
+  role?: AssignableHouseholdRole;
+}
+
+export class UpdateHouseholdMemberDto {
+  @ApiProperty({
+    description: 'Nouveau rôle du membre',
+    enum: ASSIGNABLE_HOUSEHOLD_ROLES,
+  })
+  @IsIn(ASSIGNABLE_HOUSEHOLD_ROLES, {
+    message: 'Le rôle doit être ADMIN ou MEMBER',
+  })
+  role: AssignableHouseholdRole;
+}
+
+export class SetActiveHouseholdDto {
+  @ApiProperty({
+    description: 'Foyer à activer, ou null pour revenir à ses propres données',
+    example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+    nullable: true,
+    type: String,
+  })
+  @ValidateIf((dto: SetActiveHouseholdDto) => dto.householdId !== null)
+  @IsUUID('4', { message: "L'ID du foyer doit être un UUID valide" })
+  householdId: string | null;
+}
@@ -0,0 +1,53 @@
+import { HouseholdRole } from '../../prisma/generated/prisma/client';
+import type { PrismaService } from '../prisma/prisma.service';
+
+/** Foyer actif résolu par le SessionAuthGuard pour la requête courante. */
+export type ActiveHousehold = {
+  id: string;
+  name: string;
+  ownerId: string;
+  role: HouseholdRole;
+};
+
+export type HouseholdScopedUser = {
+  id: string;
+  household?: ActiveHousehold | null;
+};
+
+/**
+ * Identifiant sous lequel sont rangés l'inventaire, le budget et les recettes :
+ * un foyer partage les données de son propriétaire, sinon l'utilisateur
+ * travaille sur ses propres données.
+ */
+export const getScopeUserId = (user: HouseholdScopedUser): string =>
+  user.household?.ownerId ?? user.id;
+
+/**
+ * Équivalent de `getScopeUserId` hors requête HTTP (tâches planifiées) : le
+ * foyer actif est relu en base, le stock étant celui de son propriétaire.
+ */
+export const resolveScopeUserId = async (
+  prisma: Pick<PrismaService, 'user' | 'householdMember'>,
+  userId: string,
+): Promise<string> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { activeHouseholdId: true },
+  });
+
+  if (!user?.activeHouseholdId) {
+    return userId;
+  }
+
+  const membership = await prisma.householdMember.findUnique({
+    where: {
+      householdId_userId: {
+        householdId: user.activeHouseholdId,
+        userId,
+      },
+    },
+    select: { Household: { select: { ownerId: true } } },
+  });
+
+  return membership?.Household.ownerId ?? userId;
+};
@@ -0,0 +1,213 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { SessionAuthGuard } from '../auth/guards/session-auth.guard';
+import {
+  CreateHouseholdDto,
+  InviteHouseholdMemberDto,
+  SetActiveHouseholdDto,
+  UpdateHouseholdDto,
+  UpdateHouseholdMemberDto,
+} from './dto/household.dto';
+import { HouseholdService } from './household.service';
+
+interface AuthenticatedRequest extends Request {
+  user: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  };
+}
+
+@ApiTags('Households')
+@ApiBearerAuth()
+@UseGuards(SessionAuthGuard)
+@Controller('households')
+export class HouseholdController {
+  constructor(private readonly householdService: HouseholdService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "Lister les foyers et invitations en attente de l'utilisateur",
+  })
+  @ApiResponse({ status: 200, description: 'Foyers récupérés' })
+  @ApiResponse({ status: 401, description: 'Non authentifié' })
+  list(@Req() req: AuthenticatedRequest) {
+    return this.householdService.listForUser(req.user);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Créer un foyer partageant mes données' })
+  @ApiResponse({ status: 201, description: 'Foyer créé et activé' })
+  @ApiResponse({ status: 409, description: 'Vous possédez déjà un foyer' })
+  create(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateHouseholdDto,
+  ) {
+    return this.householdService.create(req.user.id, dto);
+  }
+
+  @Put('active')
+  @ApiOperation({ summary: 'Changer de foyer actif' })
+  @ApiResponse({ status: 200, description: 'Foyer actif mis à jour' })
+  @ApiResponse({ status: 404, description: 'Foyer introuvable' })
+  setActive(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: SetActiveHouseholdDto,
+  ) {
+    return this.householdService.setActiveHousehold(
+      req.user.id,
+      dto.householdId,
+    );
+  }
+
+  @Post('invitations/:token/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Accepter une invitation à rejoindre un foyer' })
+  @ApiParam({ name: 'token', description: "Jeton reçu dans l'e-mail" })
+  @ApiResponse({ status: 200, description: 'Invitation acceptée' })
+  @ApiResponse({ status: 400, description: 'Invitation invalide ou expirée' })
+  @ApiResponse({
+    status: 403,
+    description: 'Invitation destinée à une autre adresse',
+  })
+  acceptInvitation(
+    @Req() req: AuthenticatedRequest,
+    @Param('token') token: string,
+  ) {
+    return this.householdService.acceptInvitation(req.user, token);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: "Détail d'un foyer et de ses membres" })
+  @ApiParam({ name: 'id', description: 'ID du foyer' })
+  @ApiResponse({ status: 200, description: 'Foyer récupéré' })
+  @ApiResponse({ status: 404, description: 'Foyer introuvable' })
+  getHousehold(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.householdService.getHousehold(req.user.id, id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Renommer un foyer' })
+  @ApiParam({ name: 'id', description: 'ID du foyer' })
+  @ApiResponse({ status: 200, description: 'Foyer mis à jour' })
+  @ApiResponse({ status: 403, description: 'Rôle insuffisant' })
+  update(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateHouseholdDto,
+  ) {
+    return this.householdService.update(req.user.id, id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Supprimer un foyer' })
+  @ApiParam({ name: 'id', description: 'ID du foyer' })
+  @ApiResponse({ status: 200, description: 'Foyer supprimé' })
+  @ApiResponse({ status: 403, description: 'Réservé au propriétaire' })
+  delete(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.householdService.delete(req.user.id, id);
+  }
+
+  @Post(':id/invitations')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Inviter une personne par e-mail' })
+  @ApiParam({ name: 'id', description: 'ID du foyer' })
+  @ApiResponse({ status: 201, description: 'Invitation envoyée' })
+  @ApiResponse({ status: 403, description: 'Rôle insuffisant' })
+  @ApiResponse({ status: 409, description: 'Déjà membre du foyer' })
+  @ApiResponse({ status: 503, description: "L'e-mail n'a pas pu être envoyé" })
+  invite(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: InviteHouseholdMemberDto,
+  ) {
+    return this.householdService.invite(req.user, id, dto);
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  @ApiOperation({ summary: 'Annuler une invitation en attente' })
+  @ApiParam({ name: 'id', description: 'ID du foyer' })
+  @ApiParam({ name: 'invitationId', description: "ID de l'invitation" })
+  @ApiResponse({ status: 200, description: 'Invitation annulée' })
+  @ApiResponse({ status: 404, description: 'Invitation introuvable' })
+  revokeInvitation(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('invitationId', ParseUUIDPipe) invitationId: string,
+  ) {
+    return this.householdService.revokeInvitation(
+      req.user.id,
+      id,
+      invitationId,
+    );
+  }
+
+  @Patch(':id/members/:memberId')
+  @ApiOperation({ summary: "Modifier le rôle d'un membre" })
+  @ApiParam({ name: 'id', description: 'ID du foyer' })
+  @ApiParam({ name: 'memberId', description: 'ID du membre' })
+  @ApiResponse({ status: 200, description: 'Rôle mis à jour' })
+  @ApiResponse({ status: 403, description: 'Réservé au propriétaire' })
+  updateMemberRole(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('memberId', ParseUUIDPipe) memberId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateHouseholdMemberDto,
+  ) {
+    return this.householdService.updateMemberRole(
+      req.user.id,
+      id,
+      memberId,
+      dto,
+    );
+  }
+
+  @Delete(':id/members/:memberId')
+  @ApiOperation({ summary: 'Retirer un membre ou quitter le foyer' })
+  @ApiParam({ name: 'id', description: 'ID du foyer' })
+  @ApiParam({ name: 'memberId', description: 'ID du membre' })
+  @ApiResponse({ status: 200, description: 'Membre retiré' })
+  @ApiResponse({ status: 403, description: 'Rôle insuffisant' })
+  removeMember(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('memberId', ParseUUIDPipe) memberId: string,
+  ) {
+    return this.householdService.removeMember(req.user.id, id, memberId);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { HouseholdController } from './household.controller';
+import { HouseholdService } from './household.service';
+
+@Module({
+  controllers: [HouseholdController],
+  providers: [HouseholdService],
+  exports: [HouseholdService],
+})
+export class HouseholdModule {}
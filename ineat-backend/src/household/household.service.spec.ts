@@ -0,0 +1,340 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { HouseholdService } from './household.service';
+
+describe('HouseholdService', () => {
+  const tx = {
+    household: { create: jest.fn() },
+    householdMember: { upsert: jest.fn(), delete: jest.fn() },
+    householdInvitation: { update: jest.fn() },
+    user: { update: jest.fn(), updateMany: jest.fn() },
+  };
+
+  const prisma = {
+    $transaction: jest.fn(),
+    household: { findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    householdMember: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    householdInvitation: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    user: { findUnique: jest.fn(), update: jest.fn() },
+  };
+
+  const emailService = { sendHouseholdInvitation: jest.fn() };
+
+  const owner = {
+    id: 'owner-1',
+    email: 'camille@example.com',
+    firstName: 'Camille',
+    lastName: 'Durand',
+  };
+
+  const storedHousehold = {
+    id: 'household-1',
+    name: 'Maison',
+    ownerId: 'owner-1',
+    HouseholdMember: [
+      {
+        id: 'member-1',
+        userId: 'owner-1',
+        role: 'OWNER',
+        joinedAt: new Date('2026-10-19T08:00:00Z'),
+        User: owner,
+      },
+    ],
+    HouseholdInvitation: [],
+  };
+
+  let service: HouseholdService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new HouseholdService(prisma as any, emailService as any);
+    prisma.$transaction.mockImplementation((callback) => callback(tx));
+    prisma.household.findUnique.mockResolvedValue(storedHousehold);
+  });
+
+  it('creates a household with its owner as first member and activates it', async () => {
+    prisma.household.findUnique.mockResolvedValueOnce(null);
+    prisma.householdMember.findUnique.mockResolvedValue({
+      id: 'member-1',
+      role: 'OWNER',
+    });
+
+    const result = await service.create('owner-1', { name: 'Maison' });
+
+    expect(tx.household.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Maison',
+        ownerId: 'owner-1',
+        HouseholdMember: {
+          create: expect.objectContaining({ userId: 'owner-1', role: 'OWNER' }),
+        },
+      }),
+    });
+    expect(tx.user.update).toHaveBeenCalledWith({
+      where: { id: 'owner-1' },
+      data: { activeHouseholdId: expect.any(String) },
+    });
+    expect(result.data.members).toEqual([
+      expect.objectContaining({ name: 'Camille Durand', role: 'OWNER' }),
+    ]);
+  });
+
+  it('refuses a second household for the same owner', async () => {
+    prisma.household.findUnique.mockResolvedValueOnce({ id: 'household-1' });
+
+    await expect(
+      service.create('owner-1', { name: 'Chalet' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('sends an invitation email with an acceptance link', async () => {
+    prisma.householdMember.findUnique.mockResolvedValue({
+      id: 'member-1',
+      role: 'OWNER',
+    });
+    prisma.householdMember.findFirst.mockResolvedValue(null);
+    prisma.householdInvitation.findFirst.mockResolvedValue(null);
+    prisma.householdInvitation.create.mockImplementation(({ data }) => ({
+      ...data,
+      Household: { name: 'Maison' },
+    }));
+
+    const result = await service.invite(owner, 'household-1', {
+      email: 'alex@example.com',
+    });
+
+    const createdInvitation =
+      prisma.householdInvitation.create.mock.calls[0][0].data;
+    expect(createdInvitation).toEqual(
+      expect.objectContaining({
+        email: 'alex@example.com',
+        role: 'MEMBER',
+        invitedById: 'owner-1',
+      }),
+    );
+    expect(emailService.sendHouseholdInvitation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'alex@example.com',
+        householdName: 'Maison',
+        inviterName: 'Camille Durand',
+        invitationUrl: expect.stringContaining(
+          `/app/household?invitation=${createdInvitation.token}`,
+        ),
+      }),
+    );
+    expect(result.message).toBe('Invitation envoyée à alex@example.com');
+  });
+
+  it('renews a pending invitation instead of creating a duplicate', async () => {
+    prisma.householdMember.findUnique.mockResolvedValue({
+      id: 'member-1',
+      role: 'ADMIN',
+    });
+    prisma.householdMember.findFirst.mockResolvedValue(null);
+    prisma.householdInvitation.findFirst.mockResolvedValue({
+      id: 'invitation-1',
+    });
+    prisma.householdInvitation.update.mockResolvedValue({
+      id: 'invitation-1',
+      role: 'MEMBER',
+      Household: { name: 'Maison' },
+    });
+
+    await service.invite(owner, 'household-1', { email: 'alex@example.com' });
+
+    expect(prisma.householdInvitation.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'invitation-1' } }),
+    );
+    expect(prisma.householdInvitation.create).not.toHaveBeenCalled();
+  });
+
+  it('reports an unavailable email provider', async () => {
+    prisma.householdMember.findUnique.mockResolvedValue({
+      id: 'member-1',
+      role: 'OWNER',
+    });
+    prisma.householdMember.findFirst.mockResolvedValue(null);
+    prisma.householdInvitation.findFirst.mockResolvedValue(null);
+    prisma.householdInvitation.create.mockResolvedValue({
+      id: 'invitation-1',
+      role: 'MEMBER',
+      Household: { name: 'Maison' },
+    });
+    emailService.sendHouseholdInvitation.mockRejectedValueOnce(
+      new Error('provider down'),
+    );
+
+    await expect(
+      service.invite(owner, 'household-1', { email: 'alex@example.com' }),
+    ).rejects.toBeInstanceOf(ServiceUnavailableException);
+  });
+
+  it('forbids plain members from inviting', async () => {
+    prisma.householdMember.findUnique.mockResolvedValue({
+      id: 'member-2',
+      role: 'MEMBER',
+    });
+
+    await expect(
+      service.invite(owner, 'household-1', { email: 'alex@example.com' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(emailService.sendHouseholdInvitation).not.toHaveBeenCalled();
+  });
+
+  it('hides households the user does not belong to', async () => {
+    prisma.householdMember.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.getHousehold('stranger-1', 'household-1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('accepts an invitation and switches to the household', async () => {
+    prisma.householdInvitation.findUnique.mockResolvedValue({
+      id: 'invitation-1',
+      householdId: 'household-1',
+      email: 'alex@example.com',
+      role: 'ADMIN',
+      acceptedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+    prisma.householdMember.findUnique.mockResolvedValue({
+      id: 'member-2',
+      role: 'ADMIN',
+    });
+
+    await service.acceptInvitation(
+      { id: 'user-2', email: 'Alex@example.com' },
+      'token-1',
+    );
+
+    expect(tx.householdMember.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          householdId: 'household-1',
+          userId: 'user-2',
+          role: 'ADMIN',
+        }),
+      }),
+    );
+    expect(tx.householdInvitation.update).toHaveBeenCalledWith({
+      where: { id: 'invitation-1' },
+      data: { acceptedAt: expect.any(Date) },
+    });
+    expect(tx.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-2' },
+      data: { activeHouseholdId: 'household-1' },
+    });
+  });
+
+  it('rejects expired invitations and invitations sent to another address', async () => {
+    prisma.householdInvitation.findUnique.mockResolvedValueOnce({
+      id: 'invitation-1',
+      email: 'alex@example.com',
+      acceptedAt: null,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    await expect(
+      service.acceptInvitation(
+        { id: 'user-2', email: 'alex@example.com' },
+        'token-1',
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    prisma.householdInvitation.findUnique.mockResolvedValueOnce({
+      id: 'invitation-1',
+      email: 'alex@example.com',
+      acceptedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(
+      service.acceptInvitation(
+        { id: 'user-3', email: 'sam@example.com' },
+        'token-1',
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('lets admins remove plain members but not other admins', async () => {
+    prisma.householdMember.findUnique.mockResolvedValue({
+      id: 'member-2',
+      role: 'ADMIN',
+    });
+    prisma.householdMember.findFirst.mockResolvedValueOnce({
+      id: 'member-3',
+      userId: 'user-3',
+      role: 'MEMBER',
+    });
+
+    await service.removeMember('user-2', 'household-1', 'member-3');
+
+    expect(tx.householdMember.delete).toHaveBeenCalledWith({
+      where: { id: 'member-3' },
+    });
+    expect(tx.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-3', activeHouseholdId: 'household-1' },
+      data: { activeHouseholdId: null },
+    });
+
+    prisma.householdMember.findFirst.mockResolvedValueOnce({
+      id: 'member-4',
+      userId: 'user-4',
+      role: 'ADMIN',
+    });
+
+    await expect(
+      service.removeMember('user-2', 'household-1', 'member-4'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('never removes the owner', async () => {
+    prisma.householdMember.findUnique.mockResolvedValue({
+      id: 'member-1',
+      role: 'OWNER',
+    });
+    prisma.householdMember.findFirst.mockResolvedValue({
+      id: 'member-1',
+      userId: 'owner-1',
+      role: 'OWNER',
+    });
+
+    await expect(
+      service.removeMember('owner-1', 'household-1', 'member-1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('checks membership before switching the active household', async () => {
+    prisma.householdMember.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.setActiveHousehold('user-2', 'household-1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    await service.setActiveHousehold('user-2', null);
+
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-2' },
+      data: { activeHouseholdId: null },
+    });
+  });
+});
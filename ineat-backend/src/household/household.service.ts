@@ -0,0 +1,500 @@
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { HouseholdRole } from '../../prisma/generated/prisma/client';
+import { EmailService } from '../email/email.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateHouseholdDto,
+  InviteHouseholdMemberDto,
+  UpdateHouseholdDto,
+  UpdateHouseholdMemberDto,
+} from './dto/household.dto';
+
+const INVITATION_TTL_DAYS = 7;
+
+type HouseholdUser = {
+  id: string;
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+};
+
+@Injectable()
+export class HouseholdService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  /**
+   * Foyers de l'utilisateur, foyer actif et invitations en attente reçues
+   * sur son adresse e-mail.
+   */
+  async listForUser(user: HouseholdUser) {
+    const [account, memberships, invitations] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: user.id },
+        select: { activeHouseholdId: true },
+      }),
+      this.prisma.householdMember.findMany({
+        where: { userId: user.id },
+        orderBy: { joinedAt: 'asc' },
+        include: {
+          Household: {
+            include: { _count: { select: { HouseholdMember: true } } },
+          },
+        },
+      }),
+      this.prisma.householdInvitation.findMany({
+        where: {
+          email: user.email.toLowerCase(),
+          acceptedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          Household: { select: { id: true, name: true } },
+          InvitedBy: { select: { firstName: true, lastName: true } },
+        },
+      }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        activeHouseholdId: account?.activeHouseholdId ?? null,
+        households: memberships.map((membership) => ({
+          id: membership.Household.id,
+          name: membership.Household.name,
+          role: membership.role,
+          isOwner: membership.Household.ownerId === user.id,
+          memberCount: membership.Household._count.HouseholdMember,
+        })),
+        invitations: invitations.map((invitation) => ({
+          id: invitation.id,
+          token: invitation.token,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt.toISOString(),
+          household: invitation.Household,
+          invitedBy: this.formatName(invitation.InvitedBy),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Crée le foyer de l'utilisateur et l'active. Le foyer partage les données
+   * de son propriétaire : un compte ne peut donc en posséder qu'un seul.
+   */
+  async create(userId: string, dto: CreateHouseholdDto) {
+    const existingHousehold = await this.prisma.household.findUnique({
+      where: { ownerId: userId },
+      select: { id: true },
+    });
+
+    if (existingHousehold) {
+      throw new ConflictException('Vous possédez déjà un foyer');
+    }
+
+    const householdId = randomUUID();
+    await this.prisma.$transaction(async (tx: any) => {
+      await tx.household.create({
+        data: {
+          id: householdId,
+          name: dto.name,
+          ownerId: userId,
+          updatedAt: new Date(),
+          HouseholdMember: {
+            create: {
+              id: randomUUID(),
+              userId,
+              role: HouseholdRole.OWNER,
+            },
+          },
+        },
+      });
+      await tx.user.update({
+        where: { id: userId },
+        data: { activeHouseholdId: householdId },
+      });
+    });
+
+    return this.getHousehold(userId, householdId);
+  }
+
+  async getHousehold(userId: string, householdId: string) {
+    const membership = await this.findMembership(userId, householdId);
+    const canManage = this.canManageMembers(membership.role);
+    const household = await this.prisma.household.findUnique({
+      where: { id: householdId },
+      include: {
+        HouseholdMember: {
+          orderBy: { joinedAt: 'asc' },
+          include: {
+            User: {
+              select: {
+                id: true,
+                email: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+        },
+        HouseholdInvitation: canManage
+          ? {
+              where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+              orderBy: { createdAt: 'desc' },
+            }
+          : false,
+      },
+    });
+
+    if (!household) {
+      throw new NotFoundException('Foyer introuvable');
+    }
+
+    return {
+      success: true,
+      data: {
+        id: household.id,
+        name: household.name,
+        ownerId: household.ownerId,
+        role: membership.role,
+        members: household.HouseholdMember.map((member) => ({
+          id: member.id,
+          userId: member.userId,
+          email: member.User.email,
+          name: this.formatName(member.User),
+          role: member.role,
+          joinedAt: member.joinedAt.toISOString(),
+        })),
+        invitations: (household.HouseholdInvitation ?? []).map(
+          (invitation) => ({
+            id: invitation.id,
+            email: invitation.email,
+            role: invitation.role,
+            expiresAt: invitation.expiresAt.toISOString(),
+          }),
+        ),
+      },
+    };
+  }
+
+  async update(userId: string, householdId: string, dto: UpdateHouseholdDto) {
+    await this.assertRole(userId, householdId, [
+      HouseholdRole.OWNER,
+      HouseholdRole.ADMIN,
+    ]);
+    await this.prisma.household.update({
+      where: { id: householdId },
+      data: { name: dto.name, updatedAt: new Date() },
+    });
+
+    return this.getHousehold(userId, householdId);
+  }
+
+  async delete(userId: string, householdId: string) {
+    await this.assertRole(userId, householdId, [HouseholdRole.OWNER]);
+    // Les membres qui l'avaient activé reviennent sur leurs propres données
+    await this.prisma.household.delete({ where: { id: householdId } });
+
+    return { success: true, message: 'Foyer supprimé' };
+  }
+
+  async invite(
+    inviter: HouseholdUser,
+    householdId: string,
+    dto: InviteHouseholdMemberDto,
+  ) {
+    await this.assertRole(inviter.id, householdId, [
+      HouseholdRole.OWNER,
+      HouseholdRole.ADMIN,
+    ]);
+
+    const email = dto.email.toLowerCase();
+    const existingMember = await this.prisma.householdMember.findFirst({
+      where: {
+        householdId,
+        User: { email: { equals: email, mode: 'insensitive' } },
+      },
+      select: { id: true },
+    });
+
+    if (existingMember) {
+      throw new ConflictException('Cette personne fait déjà partie du foyer');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(
+      Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const pendingInvitation = await this.prisma.householdInvitation.findFirst({
+      where: { householdId, email, acceptedAt: null },
+      select: { id: true },
+    });
+    // Réinviter la même adresse renouvelle le lien plutôt que de le dupliquer
+    const invitation = pendingInvitation
+      ? await this.prisma.householdInvitation.update({
+          where: { id: pendingInvitation.id },
+          data: {
+            token,
+            expiresAt,
+            role: dto.role ?? HouseholdRole.MEMBER,
+            invitedById: inviter.id,
+          },
+          include: { Household: { select: { name: true } } },
+        })
+      : await this.prisma.householdInvitation.create({
+          data: {
+            id: randomUUID(),
+            householdId,
+            email,
+            role: dto.role ?? HouseholdRole.MEMBER,
+            token,
+            invitedById: inviter.id,
+            expiresAt,
+          },
+          include: { Household: { select: { name: true } } },
+        });
+
+    try {
+      await this.emailService.sendHouseholdInvitation({
+        to: email,
+        invitationId: `${invitation.id}/${token.slice(0, 12)}`,
+        householdName: invitation.Household.name,
+        inviterName: this.formatName(inviter),
+        invitationUrl: `${(process.env.FRONTEND_URL || 'https://ineat.store').replace(/\/$/, '')}/app/household?invitation=${token}`,
+        expiresAt,
+      });
+    } catch {
+      throw new ServiceUnavailableException(
+        "L'invitation a été créée mais l'e-mail n'a pas pu être envoyé. Réessayez plus tard.",
+      );
+    }
+
+    return {
+      success: true,
+      message: `Invitation envoyée à ${email}`,
+      data: {
+        id: invitation.id,
+        email,
+        role: invitation.role,
+        expiresAt: expiresAt.toISOString(),
+      },
+    };
+  }
+
+  async revokeInvitation(
+    userId: string,
+    householdId: string,
+    invitationId: string,
+  ) {
+    await this.assertRole(userId, householdId, [
+      HouseholdRole.OWNER,
+      HouseholdRole.ADMIN,
+    ]);
+    const deleted = await this.prisma.householdInvitation.deleteMany({
+      where: { id: invitationId, householdId, acceptedAt: null },
+    });
+
+    if (deleted.count === 0) {
+      throw new NotFoundException('Invitation introuvable');
+    }
+
+    return { success: true, message: 'Invitation annulée' };
+  }
+
+  async acceptInvitation(user: HouseholdUser, token: string) {
+    const invitation = await this.prisma.householdInvitation.findUnique({
+      where: { token },
+    });
+
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new BadRequestException('Invitation invalide ou expirée');
+    }
+
+    if (invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+      throw new ForbiddenException(
+        'Cette invitation est destinée à une autre adresse e-mail',
+      );
+    }
+
+    await this.prisma.$transaction(async (tx: any) => {
+      await tx.householdMember.upsert({
+        where: {
+          householdId_userId: {
+            householdId: invitation.householdId,
+            userId: user.id,
+          },
+        },
+        create: {
+          id: randomUUID(),
+          householdId: invitation.householdId,
+          userId: user.id,
+          role: invitation.role,
+        },
+        update: {},
+      });
+      await tx.householdInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      });
+      await tx.user.update({
+        where: { id: user.id },
+        data: { activeHouseholdId: invitation.householdId },
+      });
+    });
+
+    return this.getHousehold(user.id, invitation.householdId);
+  }
+
+  async updateMemberRole(
+    userId: string,
+    householdId: string,
+    memberId: string,
+    dto: UpdateHouseholdMemberDto,
+  ) {
+    await this.assertRole(userId, householdId, [HouseholdRole.OWNER]);
+    const member = await this.findMember(householdId, memberId);
+
+    if (member.role === HouseholdRole.OWNER) {
+      throw new BadRequestException(
+        'Le rôle du propriétaire ne peut pas être modifié',
+      );
+    }
+
+    await this.prisma.householdMember.update({
+      where: { id: member.id },
+      data: { role: dto.role },
+    });
+
+    return this.getHousehold(userId, householdId);
+  }
+
+  /**
+   * Retire un membre. Chacun peut quitter le foyer ; les administrateurs
+   * retirent les membres simples, le propriétaire retire tout le monde.
+   */
+  async removeMember(userId: string, householdId: string, memberId: string) {
+    const membership = await this.findMembership(userId, householdId);
+    const member = await this.findMember(householdId, memberId);
+
+    if (member.role === HouseholdRole.OWNER) {
+      throw new BadRequestException(
+        'Le propriétaire ne peut pas quitter son foyer, il peut le supprimer',
+      );
+    }
+
+    const isSelf = member.userId === userId;
+    const canRemove =
+      isSelf ||
+      membership.role === HouseholdRole.OWNER ||
+      (membership.role === HouseholdRole.ADMIN &&
+        member.role === HouseholdRole.MEMBER);
+
+    if (!canRemove) {
+      throw new ForbiddenException(
+        'Votre rôle dans le foyer ne permet pas de retirer ce membre',
+      );
+    }
+
+    await this.prisma.$transaction(async (tx: any) => {
+      await tx.householdMember.delete({ where: { id: member.id } });
+      await tx.user.updateMany({
+        where: { id: member.userId, activeHouseholdId: householdId },
+        data: { activeHouseholdId: null },
+      });
+    });
+
+    return {
+      success: true,
+      message: isSelf ? 'Vous avez quitté le foyer' : 'Membre retiré du foyer',
+    };
+  }
+
+  async setActiveHousehold(userId: string, householdId: string | null) {
+    if (householdId) {
+      await this.findMembership(userId, householdId);
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { activeHouseholdId: householdId },
+    });
+
+    return { success: true, data: { activeHouseholdId: householdId } };
+  }
+
+  private async findMembership(userId: string, householdId: string) {
+    const membership = await this.prisma.householdMember.findUnique({
+      where: { householdId_userId: { householdId, userId } },
+      select: { id: true, role: true },
+    });
+
+    if (!membership) {
+      throw new NotFoundException('Foyer introuvable');
+    }
+
+    return membership;
+  }
+
+  private async assertRole(
+    userId: string,
+    householdId: string,
+    roles: HouseholdRole[],
+  ) {
+    const membership = await this.findMembership(userId, householdId);
+
+    if (!roles.includes(membership.role)) {
+      throw new ForbiddenException(
+        "Votre rôle dans le foyer ne permet pas d'effectuer cette action",
+      );
+    }
+
+    return membership;
+  }
+
+  private async findMember(householdId: string, memberId: string) {
+    const member = await this.prisma.householdMember.findFirst({
+      where: { id: memberId, householdId },
+      select: { id: true, userId: true, role: true },
+    });
+
+    if (!member) {
+      throw new NotFoundException('Membre introuvable');
+    }
+
+    return member;
+  }
+
+  private canManageMembers(role: HouseholdRole) {
+    return role === HouseholdRole.OWNER || role === HouseholdRole.ADMIN;
+  }
+
+  private formatName(user: {
+    firstName?: string | null;
+    lastName?: string | null;
+    email?: string;
+  }) {
+    return (
+      [user.firstName, user.lastName]
+        .map((part) => part?.trim())
+        .filter(Boolean)
+        .join(' ') ||
+      user.email ||
+      'Un membre InEat'
+    );
+  }
+}
@@ -14,6 +14,8 @@ import {
   ParseUUIDPipe,
   ValidationPipe,
   BadRequestException,
+  Res,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -28,21 +30,72 @@ import {
   InventoryService,
   ProductCreatedWithBudgetDto,
 } from '../services/inventory.service';
-import { AddManualProductDto, QuickAddProductDto } from '../../DTOs';
+import { ProductStockLevelService } from '../services/product-stock-level.service';
+import { ProductPriceHistoryService } from '../services/product-price-history.service';
+import { InventoryTransferService } from '../services/inventory-transfer.service';
+import { InventoryLabelService } from '../services/inventory-label.service';
+import { InventoryStocktakeService } from '../services/inventory-stocktake.service';
+import { StorageLocationService } from '../services/storage-location.service';
+import { ShelfLifeOverrideService } from '../services/shelf-life-override.service';
+import { getPieceWeight } from '../services/unit-conversion.service';
 import {
+  AddManualProductDto,
+  InventoryValuationDto,
+  QuickAddProductDto,
+} from '../../DTOs';
+import {
+  ExpiryKind,
   PackageStatus,
   PreparationStatus,
 } from '../dto/add-manual-product.dto';
-import { RemoveInventoryItemsDto } from '../dto/remove-inventory-items.dto';
+import {
+  RemoveInventoryItemsDto,
+  RestoreInventoryItemsDto,
+} from '../dto/remove-inventory-items.dto';
 import { ConsumeInventoryItemDto } from '../dto/consume-inventory-item.dto';
+import { InventoryMovementQueryDto } from '../dto/inventory-movement-query.dto';
+import {
+  DiscardInventoryItemDto,
+  DiscardInventoryItemsDto,
+} from '../dto/discard-inventory-item.dto';
+import { SetProductStockLevelDto } from '../dto/product-stock-level.dto';
+import { SetProductPieceWeightDto } from '../dto/product-piece-weight.dto';
+import { ProductPriceHistoryDto } from '../dto/product-price-history.dto';
+import { InventoryLabelsQueryDto } from '../dto/inventory-label.dto';
+import { BulkQuickAddProductsDto } from '../dto/bulk-quick-add.dto';
+import {
+  CompleteStocktakeDto,
+  StocktakeQueryDto,
+} from '../dto/inventory-stocktake.dto';
+import {
+  CreateStorageLocationDto,
+  UpdateStorageLocationDto,
+} from '../dto/storage-location.dto';
+import {
+  CreateShelfLifeOverrideDto,
+  UpdateShelfLifeOverrideDto,
+} from '../dto/shelf-life-override.dto';
+import {
+  FreezeInventoryItemDto,
+  MoveInventoryItemDto,
+  SplitInventoryItemDto,
+  ThawInventoryItemDto,
+} from '../dto/inventory-lot-action.dto';
+import {
+  ImportInventoryDto,
+  InventoryExportQueryDto,
+  InventoryTransferFormat,
+} from '../dto/inventory-transfer.dto';
 import { SessionAuthGuard } from '../../auth/guards/session-auth.guard';
-import { Request } from 'express';
+import { Request, Response } from 'express';
+import {
+  getScopeUserId,
+  HouseholdScopedUser,
+} from '../../household/household-scope';
 
 interface AuthenticatedRequest extends Request {
-  user: {
-    id: string;
+  user: HouseholdScopedUser & {
     email: string;
-    // autres propriétés selon votre modèle User
   };
 }
 
@@ -51,7 +104,16 @@ interface AuthenticatedRequest extends Request {
 @UseGuards(SessionAuthGuard)
 @Controller('inventory')
 export class InventoryController {
-  constructor(private readonly inventoryService: InventoryService) {}
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly productStockLevels: ProductStockLevelService,
+    private readonly productPrices: ProductPriceHistoryService,
+    private readonly inventoryTransfer: InventoryTransferService,
+    private readonly inventoryLabels: InventoryLabelService,
+    private readonly inventoryStocktake: InventoryStocktakeService,
+    private readonly storageLocations: StorageLocationService,
+    private readonly shelfLifeOverrides: ShelfLifeOverrideService,
+  ) {}
 
   private formatProduct(product: any) {
     if (!product) return null;
@@ -62,11 +124,16 @@ export class InventoryController {
       brand: product.brand,
       barcode: product.barcode,
       unitType: product.unitType,
+      // Poids d'une pièce de l'utilisateur, quand il est chargé avec le produit
+      pieceWeight: product.ProductPieceWeight
+        ? getPieceWeight(product)
+        : undefined,
       nutriscore: product.nutriscore,
       ecoscore: product.ecoscore,
       novascore: product.novascore,
       imageUrl: product.imageUrl,
       ingredients: product.ingredients,
+      allergens: product.allergens,
       nutrients: product.nutrients,
       category: product.Category
         ? {
@@ -86,11 +153,16 @@ export class InventoryController {
       quantity: item.quantity,
       expiryDate: item.expiryDate?.toISOString() ?? null,
       expiryDateSource: item.expiryDateSource,
+      expiryKind: item.expiryKind,
       purchaseDate: item.purchaseDate.toISOString(),
       purchasePrice: item.purchasePrice,
       storageLocation: item.storageLocation,
+      thawedAt: item.thawedAt?.toISOString() ?? null,
+      frozenAt: item.frozenAt?.toISOString() ?? null,
+      stocktakeFlaggedAt: item.stocktakeFlaggedAt?.toISOString() ?? null,
       packageStatus: item.packageStatus,
       preparationStatus: item.preparationStatus,
+      recipe: item.Recipe ?? null,
       notes: item.notes,
       createdAt: item.createdAt.toISOString(),
       updatedAt: item.updatedAt.toISOString(),
@@ -99,11 +171,16 @@ export class InventoryController {
         quantity: lot.quantity,
         expiryDate: lot.expiryDate?.toISOString() ?? null,
         expiryDateSource: lot.expiryDateSource,
+        expiryKind: lot.expiryKind,
         purchaseDate: lot.purchaseDate.toISOString(),
         purchasePrice: lot.purchasePrice,
         storageLocation: lot.storageLocation,
+        thawedAt: lot.thawedAt?.toISOString() ?? null,
+        frozenAt: lot.frozenAt?.toISOString() ?? null,
+        stocktakeFlaggedAt: lot.stocktakeFlaggedAt?.toISOString() ?? null,
         packageStatus: lot.packageStatus,
         preparationStatus: lot.preparationStatus,
+        recipe: lot.recipe ?? null,
         notes: lot.notes,
         createdAt: lot.createdAt.toISOString(),
         updatedAt: lot.updatedAt.toISOString(),
@@ -218,7 +295,10 @@ export class InventoryController {
     addProductDto: AddManualProductDto,
   ) {
     const result: ProductCreatedWithBudgetDto =
-      await this.inventoryService.addManualProduct(req.user.id, addProductDto);
+      await this.inventoryService.addManualProduct(
+        getScopeUserId(req.user),
+        addProductDto,
+      );
 
     // Construire le message principal basé sur l'impact budgétaire
     let mainMessage = "Produit ajouté à l'inventaire";
@@ -240,6 +320,7 @@ export class InventoryController {
           purchaseDate: result.purchaseDate,
           expiryDate: result.expiryDate,
           expiryDateSource: result.expiryDateSource,
+          expiryKind: result.expiryKind,
           expiryDateReason: result.expiryDateReason,
           expiryDateRuleId: result.expiryDateRuleId,
           expiryDateRuleLevel: result.expiryDateRuleLevel,
@@ -253,6 +334,7 @@ export class InventoryController {
           ecoscore: result.ecoscore,
           novascore: result.novascore,
           ingredients: result.ingredients,
+          allergens: result.allergens,
           imageUrl: result.imageUrl,
           nutrients: result.nutrients,
           createdAt: result.createdAt,
@@ -360,7 +442,7 @@ export class InventoryController {
   ) {
     const result: ProductCreatedWithBudgetDto =
       await this.inventoryService.addExistingProductToInventory(
-        req.user.id,
+        getScopeUserId(req.user),
         quickAddDto,
       );
 
@@ -384,6 +466,7 @@ export class InventoryController {
           purchaseDate: result.purchaseDate,
           expiryDate: result.expiryDate,
           expiryDateSource: result.expiryDateSource,
+          expiryKind: result.expiryKind,
           expiryDateReason: result.expiryDateReason,
           expiryDateRuleId: result.expiryDateRuleId,
           expiryDateRuleLevel: result.expiryDateRuleLevel,
@@ -404,6 +487,49 @@ export class InventoryController {
     };
   }
 
+  /**
+   * Ajoute en une fois les produits d'une session de scan
+   */
+  @Post('products/quick-add/bulk')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: "Ajouter les produits d'une session de scan",
+    description:
+      "Ajoute en une seule transaction les produits scannés à la suite : produits connus (ajout rapide) et produits inconnus à créer. Rien n'est ajouté si l'un d'eux est invalide. Une dépense est créée pour chaque produit dont le prix est renseigné.",
+  })
+  @ApiBody({
+    type: BulkQuickAddProductsDto,
+    description: 'Produits de la session de scan',
+  })
+  @ApiResponse({
+    status: 201,
+    description: "Produits ajoutés à l'inventaire",
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Session vide, trop longue ou produit invalide',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Produit connu introuvable',
+  })
+  async addProductsInBulk(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    bulkDto: BulkQuickAddProductsDto,
+  ) {
+    const result = await this.inventoryService.addProductsInBulk(
+      getScopeUserId(req.user),
+      bulkDto,
+    );
+
+    return {
+      success: true,
+      data: result,
+      message: `${result.addedCount} produit(s) ajouté(s) à l'inventaire`,
+    };
+  }
+
   /**
    * Vérifie l'existence d'un produit par son code-barres
    */
@@ -570,7 +696,7 @@ export class InventoryController {
         ? Math.min(parsedLimit, 50)
         : 5;
     const items = await this.inventoryService.getRecentProducts(
-      req.user.id,
+      getScopeUserId(req.user),
       limitValue,
     );
 
@@ -602,7 +728,20 @@ export class InventoryController {
         },
         totalQuantity: {
           type: 'number',
-          description: 'Quantité totale de produits',
+          description:
+            "Nombre d'articles (pièces une à une, un par lot pesé ou mesuré)",
+        },
+        quantityTotals: {
+          type: 'object',
+          description: 'Quantités totales par dimension',
+          properties: {
+            massGrams: { type: 'number', description: 'Masse en grammes' },
+            volumeMilliliters: {
+              type: 'number',
+              description: 'Volume en millilitres',
+            },
+            pieces: { type: 'number', description: 'Nombre de pièces' },
+          },
         },
         averageItemValue: {
           type: 'number',
@@ -659,226 +798,896 @@ export class InventoryController {
             averageDaysToConsumption: { type: 'number', nullable: true },
           },
         },
+        waste: {
+          type: 'object',
+          description:
+            'Gaspillage des 6 derniers mois (valeur perdue, nombre de lots jetés)',
+          properties: {
+            since: { type: 'string', format: 'date-time' },
+            valueLost: { type: 'number' },
+            count: { type: 'number' },
+            byMonth: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  month: { type: 'string', example: '2026-10' },
+                  valueLost: { type: 'number' },
+                  count: { type: 'number' },
+                },
+              },
+            },
+            byCategory: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  categoryId: { type: 'string', nullable: true },
+                  categoryName: { type: 'string' },
+                  valueLost: { type: 'number' },
+                  count: { type: 'number' },
+                },
+              },
+            },
+            byReason: {
+              type: 'object',
+              description:
+                'Totaux par motif (EXPIRED, SPOILED, LEFTOVER, OTHER)',
+            },
+          },
+        },
       },
     },
   })
   async getInventoryStats(@Req() req: AuthenticatedRequest) {
-    return await this.inventoryService.getInventoryStats(req.user.id);
+    return await this.inventoryService.getInventoryStats(
+      getScopeUserId(req.user),
+    );
   }
 
   /**
-   * Récupère l'inventaire complet de l'utilisateur avec filtres optionnels
+   * Valorise le stock au prix d'achat
    */
-  @Get()
+  @Get('stats/valuation')
   @ApiOperation({
-    summary: "Récupérer l'inventaire",
+    summary: 'Valorisation du stock',
     description:
-      "Récupère tous les produits de l'inventaire de l'utilisateur avec possibilité de filtrer",
+      "Valeur d'achat du stock par catégorie et par lieu de stockage, valeur des lots qui expirent dans la semaine et répartition par ancienneté",
   })
-  @ApiQuery({
-    name: 'category',
-    required: false,
-    description: 'Filtrer par catégorie (slug de la catégorie)',
-    example: 'fruits-legumes',
+  @ApiResponse({
+    status: 200,
+    description: 'Valorisation calculée avec succès',
+    type: InventoryValuationDto,
+  })
+  async getInventoryValuation(@Req() req: AuthenticatedRequest) {
+    return await this.inventoryService.getInventoryValuation(
+      getScopeUserId(req.user),
+    );
+  }
+
+  /**
+   * Récupère le journal des mouvements de stock
+   */
+  @Get('movements')
+  @ApiOperation({
+    summary: 'Historique des mouvements de stock',
+    description:
+      "Liste les entrées et sorties de l'inventaire (ajout, consommation, gaspillage, cuisine d'une recette, ajustement), des plus récentes aux plus anciennes",
   })
   @ApiQuery({
-    name: 'storageLocation',
+    name: 'productId',
     required: false,
-    description: 'Filtrer par lieu de stockage',
-    example: 'refrigerateur',
+    description: 'Filtrer par produit',
   })
   @ApiQuery({
-    name: 'expiringWithinDays',
+    name: 'reason',
     required: false,
-    type: Number,
-    description: 'Filtrer les produits qui périment dans X jours',
-    example: 7,
+    enum: ['ADDED', 'CONSUMED', 'WASTED', 'COOKED', 'ADJUSTED'],
+    description: 'Filtrer par motif',
   })
   @ApiQuery({
-    name: 'page',
+    name: 'from',
     required: false,
-    type: Number,
-    description: 'Numéro de page, active une réponse paginée',
-    example: 1,
+    description: 'Date de début (ISO 8601)',
+    example: '2026-10-01',
   })
   @ApiQuery({
-    name: 'limit',
+    name: 'to',
     required: false,
-    type: Number,
-    description: "Nombre d'éléments par page (1-100)",
-    example: 20,
+    description: 'Date de fin (ISO 8601)',
+    example: '2026-10-31',
   })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'pageSize', required: false, type: Number, example: 25 })
   @ApiResponse({
     status: 200,
-    description: 'Inventaire récupéré avec succès',
-    schema: {
-      type: 'array',
-      items: {
-        type: 'object',
-        properties: {
-          id: { type: 'string', format: 'uuid' },
-          quantity: { type: 'number' },
-          expiryDate: { type: 'string', format: 'date-time', nullable: true },
-          purchaseDate: { type: 'string', format: 'date-time' },
-          purchasePrice: { type: 'number', nullable: true },
-          storageLocation: { type: 'string', nullable: true },
-          notes: { type: 'string', nullable: true },
-          product: {
-            type: 'object',
-            properties: {
-              id: { type: 'string', format: 'uuid' },
-              name: { type: 'string' },
-              brand: { type: 'string', nullable: true },
-              barcode: { type: 'string', nullable: true },
-              nutriscore: {
-                type: 'string',
-                enum: ['A', 'B', 'C', 'D', 'E'],
-                nullable: true,
-              },
-              ecoscore: {
-                type: 'string',
-                enum: ['A', 'B', 'C', 'D', 'E'],
-                nullable: true,
-              },
-              category: {
-                type: 'object',
-                properties: {
-                  id: { type: 'string', format: 'uuid' },
-                  name: { type: 'string' },
-                  slug: { type: 'string' },
-                },
-              },
-            },
-          },
-        },
-      },
-    },
+    description: 'Mouvements récupérés avec succès',
   })
-  async getUserInventory(
+  @ApiResponse({
+    status: 400,
+    description: 'Filtres invalides',
+  })
+  async getInventoryMovements(
     @Req() req: AuthenticatedRequest,
-    @Query('category') category?: string,
-    @Query('storageLocation') storageLocation?: string,
-    @Query('expiringWithinDays') expiringWithinDays?: number,
-    @Query('page') page?: number,
-    @Query('limit') limit?: number,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: InventoryMovementQueryDto,
   ) {
-    const filters = {
-      ...(category && { category }),
-      ...(storageLocation && { storageLocation }),
-      ...(expiringWithinDays && {
-        expiringWithinDays: Number(expiringWithinDays),
-      }),
-    };
-
-    const parsedPage = Number(page);
-    const parsedLimit = Number(limit);
-    const pagination =
-      Number.isFinite(parsedPage) || Number.isFinite(parsedLimit)
-        ? {
-            page: Number.isFinite(parsedPage) ? parsedPage : 1,
-            limit: Number.isFinite(parsedLimit) ? parsedLimit : 20,
-          }
-        : undefined;
-
-    const inventory = await this.inventoryService.getUserInventory(
-      req.user.id,
-      filters,
-      pagination,
+    return await this.inventoryService.getInventoryMovements(
+      getScopeUserId(req.user),
+      query,
     );
+  }
 
-    if (!Array.isArray(inventory)) {
-      return {
-        success: true,
-        data: {
-          items: inventory.items.map((item) => this.formatInventoryItem(item)),
-          pagination: inventory.pagination,
-        },
-      };
-    }
-
-    return inventory.map((item) => this.formatInventoryItem(item));
+  /**
+   * Liste les stocks minimums définis par l'utilisateur
+   */
+  @Get('stock-levels')
+  @ApiOperation({
+    summary: 'Lister les stocks minimums',
+    description:
+      'Renvoie chaque produit suivi avec son stock minimum et la quantité cumulée de ses lots',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stocks minimums récupérés avec succès',
+  })
+  async getStockLevels(@Req() req: AuthenticatedRequest) {
+    return await this.productStockLevels.listStockLevels(
+      getScopeUserId(req.user),
+    );
   }
 
   /**
-   * Met à jour un élément d'inventaire
+   * Définit le stock minimum d'un produit
    */
-  @Put(':id')
+  @Put('stock-levels/:productId')
   @ApiOperation({
-    summary: "Mettre à jour un élément d'inventaire",
+    summary: "Définir le stock minimum d'un produit",
     description:
-      "Permet de modifier les informations d'un produit dans l'inventaire",
+      'Une notification est émise quand la quantité cumulée des lots passe sous ce seuil',
   })
   @ApiParam({
-    name: 'id',
-    description: "ID de l'élément d'inventaire à modifier",
+    name: 'productId',
+    description: 'ID du produit',
     type: 'string',
     format: 'uuid',
   })
-  @ApiBody({
-    description: 'Champs à mettre à jour (tous optionnels)',
-    schema: {
-      type: 'object',
-      properties: {
-        quantity: { type: 'number', minimum: 0.01 },
-        expiryDate: { type: 'string', format: 'date', nullable: true },
-        purchaseDate: { type: 'string', format: 'date', nullable: true },
-        storageLocation: { type: 'string', nullable: true },
-        packageStatus: {
-          type: 'string',
-          enum: ['UNOPENED', 'OPENED'],
-          nullable: true,
-        },
-        preparationStatus: {
-          type: 'string',
-          enum: ['RAW', 'COOKED'],
-          nullable: true,
-        },
-        notes: { type: 'string', nullable: true },
-        purchasePrice: { type: 'number', minimum: 0, nullable: true },
-      },
-    },
-  })
-  @ApiResponse({
-    status: 200,
-    description: "Élément d'inventaire mis à jour avec succès",
+  @ApiBody({ type: SetProductStockLevelDto })
+  @ApiResponse({ status: 200, description: 'Stock minimum enregistré' })
+  @ApiResponse({ status: 400, description: 'Données invalides' })
+  @ApiResponse({ status: 404, description: 'Produit non trouvé' })
+  async setStockLevel(
+    @Req() req: AuthenticatedRequest,
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: SetProductStockLevelDto,
+  ) {
+    return await this.productStockLevels.setStockLevel(
+      getScopeUserId(req.user),
+      productId,
+      dto,
+    );
+  }
+
+  /**
+   * Retire le stock minimum d'un produit
+   */
+  @Delete('stock-levels/:productId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Retirer le stock minimum d'un produit" })
+  @ApiParam({
+    name: 'productId',
+    description: 'ID du produit',
+    type: 'string',
+    format: 'uuid',
   })
+  @ApiResponse({ status: 204, description: 'Stock minimum retiré' })
   @ApiResponse({
     status: 404,
-    description: "Élément d'inventaire non trouvé",
+    description: 'Aucun stock minimum pour ce produit',
   })
-  async updateInventoryItem(
+  async removeStockLevel(
     @Req() req: AuthenticatedRequest,
-    @Param('id', ParseUUIDPipe) inventoryItemId: string,
-    @Body()
-    updateData: {
-      quantity?: number;
-      expiryDate?: string;
-      purchaseDate?: string;
-      storageLocation?: string;
-      packageStatus?: PackageStatus;
-      preparationStatus?: PreparationStatus;
-      notes?: string;
-      purchasePrice?: number;
-    },
+    @Param('productId', ParseUUIDPipe) productId: string,
   ) {
-    const updatedItem = await this.inventoryService.updateInventoryItem(
-      req.user.id,
-      inventoryItemId,
-      updateData,
+    await this.productStockLevels.removeStockLevel(
+      getScopeUserId(req.user),
+      productId,
     );
-
-    return this.formatInventoryItem(updatedItem);
   }
 
   /**
-   * Supprime plusieurs éléments d'inventaire
+   * Définit le poids d'une pièce d'un produit
    */
-  @Delete('bulk')
-  @HttpCode(HttpStatus.OK)
+  @Put('products/:productId/piece-weight')
   @ApiOperation({
-    summary: "Supprimer plusieurs éléments d'inventaire",
+    summary: "Définir le poids d'une pièce d'un produit",
     description:
-      "Supprime définitivement plusieurs produits de l'inventaire de l'utilisateur",
+      "Permet de convertir les pièces en masse ou en volume (consommer 200 g d'un produit compté en pièces, ingrédients de recette)",
+  })
+  @ApiParam({
+    name: 'productId',
+    description: 'ID du produit',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiBody({ type: SetProductPieceWeightDto })
+  @ApiResponse({ status: 200, description: "Poids d'une pièce enregistré" })
+  @ApiResponse({ status: 400, description: 'Données invalides' })
+  @ApiResponse({
+    status: 404,
+    description: 'Produit absent de votre inventaire',
+  })
+  async setProductPieceWeight(
+    @Req() req: AuthenticatedRequest,
+    @Param('productId', ParseUUIDPipe) productId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: SetProductPieceWeightDto,
+  ) {
+    return await this.inventoryService.setProductPieceWeight(
+      getScopeUserId(req.user),
+      productId,
+      dto.pieceWeight ?? null,
+    );
+  }
+
+  /**
+   * Historique des prix d'achat d'un produit
+   */
+  @Get('products/:productId/price-history')
+  @ApiOperation({
+    summary: "Historique des prix d'un produit",
+    description:
+      "Prix payés lors des ajouts manuels et des factures validées, ramenés au kilo, au litre ou à la pièce, avec les prix minimum, maximum et habituel par enseigne. Les achats nettement plus chers que d'habitude sont signalés.",
+  })
+  @ApiParam({
+    name: 'productId',
+    description: 'ID du produit',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Historique des prix récupéré avec succès',
+    type: ProductPriceHistoryDto,
+  })
+  @ApiResponse({ status: 404, description: 'Produit non trouvé' })
+  async getProductPriceHistory(
+    @Req() req: AuthenticatedRequest,
+    @Param('productId', ParseUUIDPipe) productId: string,
+  ) {
+    return await this.productPrices.getPriceHistory(
+      getScopeUserId(req.user),
+      productId,
+    );
+  }
+
+  /**
+   * Liste les lieux de stockage de l'utilisateur
+   */
+  @Get('storage-locations')
+  @ApiOperation({
+    summary: 'Lister les lieux de stockage',
+    description:
+      'Renvoie les lieux de stockage personnalisés avec leur type de stockage et le nombre de lots rangés. Une liste par défaut est créée au premier appel.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Lieux de stockage récupérés avec succès',
+  })
+  async getStorageLocations(@Req() req: AuthenticatedRequest) {
+    return await this.storageLocations.listStorageLocations(
+      getScopeUserId(req.user),
+    );
+  }
+
+  /**
+   * Crée un lieu de stockage
+   */
+  @Post('storage-locations')
+  @ApiOperation({
+    summary: 'Créer un lieu de stockage',
+    description:
+      'Le type de stockage (réfrigérateur, congélateur, placard...) sert à estimer les dates de péremption des lots qui y sont rangés',
+  })
+  @ApiBody({ type: CreateStorageLocationDto })
+  @ApiResponse({ status: 201, description: 'Lieu de stockage créé' })
+  @ApiResponse({ status: 400, description: 'Données invalides' })
+  @ApiResponse({ status: 409, description: 'Ce lieu existe déjà' })
+  async createStorageLocation(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateStorageLocationDto,
+  ) {
+    return await this.storageLocations.createStorageLocation(
+      getScopeUserId(req.user),
+      dto,
+    );
+  }
+
+  /**
+   * Renomme un lieu de stockage ou change son type
+   */
+  @Put('storage-locations/:id')
+  @ApiOperation({
+    summary: 'Modifier un lieu de stockage',
+    description:
+      'Un renommage est reporté sur les lots rangés dans ce lieu ; un changement de type recalcule leurs dates estimées',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID du lieu de stockage',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiBody({ type: UpdateStorageLocationDto })
+  @ApiResponse({ status: 200, description: 'Lieu de stockage mis à jour' })
+  @ApiResponse({ status: 400, description: 'Données invalides' })
+  @ApiResponse({ status: 404, description: 'Lieu de stockage non trouvé' })
+  @ApiResponse({ status: 409, description: 'Ce nom est déjà utilisé' })
+  async updateStorageLocation(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) locationId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateStorageLocationDto,
+  ) {
+    return await this.storageLocations.updateStorageLocation(
+      getScopeUserId(req.user),
+      locationId,
+      dto,
+    );
+  }
+
+  /**
+   * Supprime un lieu de stockage vide
+   */
+  @Delete('storage-locations/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Supprimer un lieu de stockage' })
+  @ApiParam({
+    name: 'id',
+    description: 'ID du lieu de stockage',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({ status: 204, description: 'Lieu de stockage supprimé' })
+  @ApiResponse({ status: 404, description: 'Lieu de stockage non trouvé' })
+  @ApiResponse({
+    status: 409,
+    description: 'Des lots sont encore rangés dans ce lieu',
+  })
+  async deleteStorageLocation(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) locationId: string,
+  ) {
+    await this.storageLocations.deleteStorageLocation(
+      getScopeUserId(req.user),
+      locationId,
+    );
+  }
+
+  /**
+   * Liste les règles de conservation personnelles de l'utilisateur
+   */
+  @Get('shelf-life-rules')
+  @ApiOperation({
+    summary: 'Lister les règles de conservation personnelles',
+    description:
+      'Règles appliquées avant les règles intégrées pour estimer les dates de péremption',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Règles de conservation récupérées avec succès',
+  })
+  async getShelfLifeOverrides(@Req() req: AuthenticatedRequest) {
+    return await this.shelfLifeOverrides.listShelfLifeOverrides(
+      getScopeUserId(req.user),
+    );
+  }
+
+  /**
+   * Crée une règle de conservation personnelle
+   */
+  @Post('shelf-life-rules')
+  @ApiOperation({
+    summary: 'Créer une règle de conservation personnelle',
+    description:
+      'La règle cible un produit précis ou les produits dont le nom contient un des mots-clés',
+  })
+  @ApiBody({ type: CreateShelfLifeOverrideDto })
+  @ApiResponse({ status: 201, description: 'Règle de conservation créée' })
+  @ApiResponse({ status: 400, description: 'Données invalides' })
+  @ApiResponse({ status: 404, description: 'Produit non trouvé' })
+  async createShelfLifeOverride(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateShelfLifeOverrideDto,
+  ) {
+    return await this.shelfLifeOverrides.createShelfLifeOverride(
+      getScopeUserId(req.user),
+      dto,
+    );
+  }
+
+  /**
+   * Recalcule les dates estimées des lots avec les règles actuelles
+   */
+  @Post('shelf-life-rules/recompute')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Recalculer les dates de péremption estimées',
+    description:
+      'Applique les règles de conservation actuelles à tous les lots dont la date est estimée. Les dates saisies manuellement sont conservées.',
+  })
+  @ApiResponse({ status: 200, description: 'Dates estimées recalculées' })
+  async recomputeEstimatedExpiryDates(@Req() req: AuthenticatedRequest) {
+    return await this.inventoryService.recomputeEstimatedExpiryDates(
+      getScopeUserId(req.user),
+    );
+  }
+
+  /**
+   * Modifie une règle de conservation personnelle
+   */
+  @Put('shelf-life-rules/:id')
+  @ApiOperation({ summary: 'Modifier une règle de conservation personnelle' })
+  @ApiParam({
+    name: 'id',
+    description: 'ID de la règle de conservation',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiBody({ type: UpdateShelfLifeOverrideDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Règle de conservation mise à jour',
+  })
+  @ApiResponse({ status: 400, description: 'Données invalides' })
+  @ApiResponse({ status: 404, description: 'Règle ou produit non trouvé' })
+  async updateShelfLifeOverride(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) overrideId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateShelfLifeOverrideDto,
+  ) {
+    return await this.shelfLifeOverrides.updateShelfLifeOverride(
+      getScopeUserId(req.user),
+      overrideId,
+      dto,
+    );
+  }
+
+  /**
+   * Supprime une règle de conservation personnelle
+   */
+  @Delete('shelf-life-rules/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Supprimer une règle de conservation personnelle' })
+  @ApiParam({
+    name: 'id',
+    description: 'ID de la règle de conservation',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({ status: 204, description: 'Règle de conservation supprimée' })
+  @ApiResponse({
+    status: 404,
+    description: 'Règle de conservation non trouvée',
+  })
+  async deleteShelfLifeOverride(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) overrideId: string,
+  ) {
+    await this.shelfLifeOverrides.deleteShelfLifeOverride(
+      getScopeUserId(req.user),
+      overrideId,
+    );
+  }
+
+  /**
+   * Exporte l'inventaire en CSV ou JSON
+   */
+  @Get('export')
+  @ApiOperation({
+    summary: "Exporter l'inventaire",
+    description:
+      'Télécharge un lot par ligne : produit, marque, code-barres, catégorie, quantité, unité, dates, lieu de stockage, prix et notes',
+  })
+  @ApiQuery({
+    name: 'format',
+    required: false,
+    enum: InventoryTransferFormat,
+    description: 'Format du fichier (csv par défaut)',
+  })
+  @ApiResponse({ status: 200, description: 'Fichier exporté' })
+  @ApiResponse({ status: 400, description: 'Format invalide' })
+  async exportInventory(
+    @Req() req: AuthenticatedRequest,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: InventoryExportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const file = await this.inventoryTransfer.exportInventory(
+      getScopeUserId(req.user),
+      query.format,
+    );
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`,
+    );
+
+    return new StreamableFile(Buffer.from(file.content, 'utf-8'));
+  }
+
+  /**
+   * Génère une planche d'étiquettes PDF pour des lots
+   */
+  @Get('labels')
+  @ApiOperation({
+    summary: 'Imprimer des étiquettes de lots',
+    description:
+      "Génère une planche A4 d'étiquettes (10 par page) : nom, date de cuisson ou de congélation, date limite estimée, lieu de stockage et QR code ouvrant le lot dans l'application",
+  })
+  @ApiQuery({
+    name: 'ids',
+    required: true,
+    description:
+      'IDs des lots à étiqueter, séparés par des virgules (50 au plus)',
+  })
+  @ApiResponse({ status: 200, description: 'Planche PDF des étiquettes' })
+  @ApiResponse({ status: 400, description: 'Liste de lots invalide' })
+  @ApiResponse({ status: 404, description: 'Lot non trouvé' })
+  async printInventoryLabels(
+    @Req() req: AuthenticatedRequest,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: InventoryLabelsQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const file = await this.inventoryLabels.renderLabelSheet(
+      getScopeUserId(req.user),
+      query.ids,
+    );
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`,
+    );
+
+    return new StreamableFile(file.content);
+  }
+
+  /**
+   * Feuille d'inventaire d'un lieu de stockage
+   */
+  @Get('stocktake')
+  @ApiOperation({
+    summary: "Démarrer l'inventaire d'un lieu",
+    description:
+      'Liste les produits du lieu de stockage avec leurs lots, à confirmer, corriger ou retirer un par un',
+  })
+  @ApiQuery({
+    name: 'storageLocation',
+    required: true,
+    description: 'Lieu de stockage inventorié',
+    example: 'refrigerateur',
+  })
+  @ApiResponse({ status: 200, description: 'Produits et lots du lieu' })
+  async getStocktakeSheet(
+    @Req() req: AuthenticatedRequest,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: StocktakeQueryDto,
+  ) {
+    const items = await this.inventoryStocktake.getStocktakeSheet(
+      getScopeUserId(req.user),
+      query.storageLocation,
+    );
+
+    return {
+      success: true,
+      data: {
+        storageLocation: query.storageLocation,
+        items: items.map((item) => this.formatInventoryItem(item)),
+      },
+    };
+  }
+
+  /**
+   * Clôt l'inventaire d'un lieu de stockage
+   */
+  @Post('stocktake')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Valider l'inventaire d'un lieu",
+    description:
+      "Applique les corrections comme des mouvements d'ajustement motivés, signale « à vérifier » les lots du lieu qui n'ont pas été confirmés et renvoie le bilan de l'écart avec le stock réel",
+  })
+  @ApiBody({ type: CompleteStocktakeDto })
+  @ApiResponse({ status: 200, description: "Bilan de l'inventaire" })
+  @ApiResponse({
+    status: 400,
+    description: 'Lot vérifié deux fois, quantité ou motif manquant',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Lot introuvable dans ce lieu de stockage',
+  })
+  async completeStocktake(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    stocktakeDto: CompleteStocktakeDto,
+  ) {
+    const summary = await this.inventoryStocktake.completeStocktake(
+      getScopeUserId(req.user),
+      stocktakeDto,
+    );
+
+    return {
+      success: true,
+      data: summary,
+      message: `Inventaire terminé : ${summary.adjustedCount + summary.removedCount} correction(s), ${summary.flaggedCount} lot(s) à vérifier`,
+    };
+  }
+
+  /**
+   * Importe des lots depuis un CSV ou un JSON
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Importer des lots dans l'inventaire",
+    description:
+      "Valide chaque ligne avec les règles de l'ajout manuel (ou de l'ajout rapide si le code-barres correspond à un produit existant) et renvoie les erreurs ligne par ligne. Avec dryRun, rien n'est ajouté.",
+  })
+  @ApiBody({ type: ImportInventoryDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Aperçu ou résultat de l’import, ligne par ligne',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Fichier illisible, vide ou trop volumineux',
+  })
+  async importInventory(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: ImportInventoryDto,
+  ) {
+    const result = await this.inventoryTransfer.importInventory(
+      getScopeUserId(req.user),
+      dto,
+    );
+
+    return {
+      success: true,
+      data: result,
+      message: result.dryRun
+        ? `${result.summary.valid} ligne(s) prête(s) à importer, ${result.summary.invalid} en erreur`
+        : `${result.summary.imported} ligne(s) importée(s), ${result.summary.invalid + result.summary.failed} en erreur`,
+    };
+  }
+
+  /**
+   * Récupère l'inventaire complet de l'utilisateur avec filtres optionnels
+   */
+  @Get()
+  @ApiOperation({
+    summary: "Récupérer l'inventaire",
+    description:
+      "Récupère tous les produits de l'inventaire de l'utilisateur avec possibilité de filtrer",
+  })
+  @ApiQuery({
+    name: 'category',
+    required: false,
+    description: 'Filtrer par catégorie (slug de la catégorie)',
+    example: 'fruits-legumes',
+  })
+  @ApiQuery({
+    name: 'storageLocation',
+    required: false,
+    description: 'Filtrer par lieu de stockage',
+    example: 'refrigerateur',
+  })
+  @ApiQuery({
+    name: 'expiringWithinDays',
+    required: false,
+    type: Number,
+    description: 'Filtrer les produits qui périment dans X jours',
+    example: 7,
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Numéro de page, active une réponse paginée',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: "Nombre d'éléments par page (1-100)",
+    example: 20,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Inventaire récupéré avec succès',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          quantity: { type: 'number' },
+          expiryDate: { type: 'string', format: 'date-time', nullable: true },
+          purchaseDate: { type: 'string', format: 'date-time' },
+          purchasePrice: { type: 'number', nullable: true },
+          storageLocation: { type: 'string', nullable: true },
+          notes: { type: 'string', nullable: true },
+          product: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', format: 'uuid' },
+              name: { type: 'string' },
+              brand: { type: 'string', nullable: true },
+              barcode: { type: 'string', nullable: true },
+              nutriscore: {
+                type: 'string',
+                enum: ['A', 'B', 'C', 'D', 'E'],
+                nullable: true,
+              },
+              ecoscore: {
+                type: 'string',
+                enum: ['A', 'B', 'C', 'D', 'E'],
+                nullable: true,
+              },
+              category: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  name: { type: 'string' },
+                  slug: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async getUserInventory(
+    @Req() req: AuthenticatedRequest,
+    @Query('category') category?: string,
+    @Query('storageLocation') storageLocation?: string,
+    @Query('expiringWithinDays') expiringWithinDays?: number,
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+  ) {
+    const filters = {
+      ...(category && { category }),
+      ...(storageLocation && { storageLocation }),
+      ...(expiringWithinDays && {
+        expiringWithinDays: Number(expiringWithinDays),
+      }),
+    };
+
+    const parsedPage = Number(page);
+    const parsedLimit = Number(limit);
+    const pagination =
+      Number.isFinite(parsedPage) || Number.isFinite(parsedLimit)
+        ? {
+            page: Number.isFinite(parsedPage) ? parsedPage : 1,
+            limit: Number.isFinite(parsedLimit) ? parsedLimit : 20,
+          }
+        : undefined;
+
+    const inventory = await this.inventoryService.getUserInventory(
+      getScopeUserId(req.user),
+      filters,
+      pagination,
+    );
+
+    if (!Array.isArray(inventory)) {
+      return {
+        success: true,
+        data: {
+          items: inventory.items.map((item) => this.formatInventoryItem(item)),
+          pagination: inventory.pagination,
+        },
+      };
+    }
+
+    return inventory.map((item) => this.formatInventoryItem(item));
+  }
+
+  /**
+   * Met à jour un élément d'inventaire
+   */
+  @Put(':id')
+  @ApiOperation({
+    summary: "Mettre à jour un élément d'inventaire",
+    description:
+      "Permet de modifier les informations d'un produit dans l'inventaire",
+  })
+  @ApiParam({
+    name: 'id',
+    description: "ID de l'élément d'inventaire à modifier",
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiBody({
+    description: 'Champs à mettre à jour (tous optionnels)',
+    schema: {
+      type: 'object',
+      properties: {
+        quantity: { type: 'number', minimum: 0.01 },
+        expiryDate: { type: 'string', format: 'date', nullable: true },
+        purchaseDate: { type: 'string', format: 'date', nullable: true },
+        storageLocation: { type: 'string', nullable: true },
+        packageStatus: {
+          type: 'string',
+          enum: ['UNOPENED', 'OPENED'],
+          nullable: true,
+        },
+        preparationStatus: {
+          type: 'string',
+          enum: ['RAW', 'COOKED'],
+          nullable: true,
+        },
+        expiryKind: {
+          type: 'string',
+          enum: ['USE_BY', 'BEST_BEFORE'],
+          description: 'DLC (USE_BY) ou DDM (BEST_BEFORE)',
+        },
+        notes: { type: 'string', nullable: true },
+        purchasePrice: { type: 'number', minimum: 0, nullable: true },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Élément d'inventaire mis à jour avec succès",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Élément d'inventaire non trouvé",
+  })
+  async updateInventoryItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) inventoryItemId: string,
+    @Body()
+    updateData: {
+      quantity?: number;
+      expiryDate?: string;
+      purchaseDate?: string;
+      storageLocation?: string;
+      packageStatus?: PackageStatus;
+      preparationStatus?: PreparationStatus;
+      expiryKind?: ExpiryKind;
+      notes?: string;
+      purchasePrice?: number;
+    },
+  ) {
+    const updatedItem = await this.inventoryService.updateInventoryItem(
+      getScopeUserId(req.user),
+      inventoryItemId,
+      updateData,
+    );
+
+    return this.formatInventoryItem(updatedItem);
+  }
+
+  /**
+   * Supprime plusieurs éléments d'inventaire
+   */
+  @Delete('bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Supprimer plusieurs éléments d'inventaire",
+    description:
+      "Supprime plusieurs produits de l'inventaire de l'utilisateur. Ils restent restaurables pendant 30 jours.",
   })
   @ApiBody({
     type: RemoveInventoryItemsDto,
@@ -909,11 +1718,131 @@ export class InventoryController {
     removeItemsDto: RemoveInventoryItemsDto,
   ) {
     return await this.inventoryService.removeInventoryItems(
-      req.user.id,
+      getScopeUserId(req.user),
       removeItemsDto.ids,
     );
   }
 
+  /**
+   * Jette plusieurs lots et enregistre le gaspillage
+   */
+  @Post('bulk/discard')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Jeter plusieurs éléments d'inventaire",
+    description:
+      "Retire des lots entiers de l'inventaire en les comptabilisant comme gaspillés, avec un motif commun et la valeur d'achat perdue",
+  })
+  @ApiBody({
+    type: DiscardInventoryItemsDto,
+    description: 'Lots à jeter et motif du gaspillage',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Lots jetés avec succès',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        discardedCount: { type: 'number', example: 2 },
+        valueLost: { type: 'number', example: 4.8 },
+        message: { type: 'string', example: '2 produits jetés' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Liste de produits ou motif invalide',
+  })
+  async discardInventoryItems(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    discardDto: DiscardInventoryItemsDto,
+  ) {
+    return await this.inventoryService.discardInventoryItems(
+      getScopeUserId(req.user),
+      discardDto,
+    );
+  }
+
+  /**
+   * Restaure plusieurs lots supprimés
+   */
+  @Post('restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Restaurer plusieurs éléments d'inventaire",
+    description:
+      "Remet dans l'inventaire des lots supprimés depuis moins de 30 jours. Les lots purgés ou hors délai sont ignorés.",
+  })
+  @ApiBody({
+    type: RestoreInventoryItemsDto,
+    description: 'Liste des IDs de lots supprimés à restaurer',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Lots restaurés avec succès',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        restoredCount: { type: 'number', example: 3 },
+        message: {
+          type: 'string',
+          example: "3 produits restaurés dans l'inventaire",
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Liste de produits invalide',
+  })
+  async restoreInventoryItems(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    restoreItemsDto: RestoreInventoryItemsDto,
+  ) {
+    return await this.inventoryService.restoreInventoryItems(
+      getScopeUserId(req.user),
+      restoreItemsDto.ids,
+    );
+  }
+
+  /**
+   * Restaure un lot supprimé
+   */
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Restaurer un élément d'inventaire",
+    description:
+      "Remet dans l'inventaire un lot supprimé depuis moins de 30 jours",
+  })
+  @ApiParam({
+    name: 'id',
+    description: "ID de l'élément d'inventaire supprimé",
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Lot restauré avec succès',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Lot introuvable ou délai de restauration dépassé',
+  })
+  async restoreInventoryItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) inventoryItemId: string,
+  ) {
+    return await this.inventoryService.restoreInventoryItem(
+      getScopeUserId(req.user),
+      inventoryItemId,
+    );
+  }
+
   /**
    * Consomme une quantité d'un produit en appliquant la règle FEFO
    */
@@ -933,7 +1862,7 @@ export class InventoryController {
   })
   @ApiBody({
     type: ConsumeInventoryItemDto,
-    description: 'Quantité à consommer',
+    description: 'Quantité à consommer et son unité',
   })
   @ApiResponse({
     status: 200,
@@ -941,7 +1870,8 @@ export class InventoryController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Quantité invalide ou insuffisante',
+    description:
+      'Quantité invalide ou insuffisante, ou unité non convertible dans celle du produit',
   })
   @ApiResponse({
     status: 404,
@@ -954,10 +1884,233 @@ export class InventoryController {
     consumeDto: ConsumeInventoryItemDto,
   ) {
     return await this.inventoryService.consumeInventoryItem(
-      req.user.id,
+      getScopeUserId(req.user),
       inventoryItemId,
       consumeDto.quantityConsumed,
+      consumeDto.unit,
+      { lotOnly: consumeDto.lotOnly },
+    );
+  }
+
+  /**
+   * Jette tout ou partie d'un lot et enregistre le gaspillage
+   */
+  @Post(':id/discard')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Jeter un lot',
+    description:
+      "Retire tout ou partie d'un lot en le comptabilisant comme gaspillé. La valeur perdue est calculée au prorata du prix d'achat du lot.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: "ID du lot d'inventaire à jeter",
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiBody({
+    type: DiscardInventoryItemDto,
+    description: 'Motif, quantité et notes du gaspillage',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Lot jeté avec succès',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        productId: { type: 'string', format: 'uuid' },
+        quantityDiscarded: { type: 'number', example: 1 },
+        remainingQuantity: { type: 'number', example: 0 },
+        valueLost: { type: 'number', example: 2.4 },
+        deleted: { type: 'boolean', example: true },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Motif ou quantité invalide',
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Élément d'inventaire non trouvé",
+  })
+  async discardInventoryItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) inventoryItemId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    discardDto: DiscardInventoryItemDto,
+  ) {
+    return await this.inventoryService.discardInventoryItem(
+      getScopeUserId(req.user),
+      inventoryItemId,
+      discardDto,
+    );
+  }
+
+  /**
+   * Déplace un lot vers un autre lieu de stockage
+   */
+  @Post(':id/move')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Déplacer un lot',
+    description:
+      "Change le lieu de stockage d'un lot. Une date de péremption estimée est recalculée pour le nouveau lieu ; une date saisie est conservée.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID du lot',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiBody({ type: MoveInventoryItemDto })
+  @ApiResponse({ status: 200, description: 'Lot déplacé' })
+  @ApiResponse({ status: 400, description: 'Lieu invalide ou identique' })
+  @ApiResponse({
+    status: 404,
+    description: "Élément d'inventaire non trouvé",
+  })
+  async moveInventoryItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) inventoryItemId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    moveDto: MoveInventoryItemDto,
+  ) {
+    const item = await this.inventoryService.moveInventoryItem(
+      getScopeUserId(req.user),
+      inventoryItemId,
+      moveDto.storageLocation,
+    );
+
+    return this.formatInventoryItem(item);
+  }
+
+  /**
+   * Congèle un lot
+   */
+  @Post(':id/freeze')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Congeler un lot',
+    description:
+      'Range le lot au congélateur et recalcule sa date de péremption estimée',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID du lot',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiBody({ type: FreezeInventoryItemDto, required: false })
+  @ApiResponse({ status: 200, description: 'Lot congelé' })
+  @ApiResponse({
+    status: 400,
+    description: 'Lot déjà congelé ou destination qui n’est pas un congélateur',
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Élément d'inventaire non trouvé",
+  })
+  async freezeInventoryItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) inventoryItemId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    freezeDto: FreezeInventoryItemDto,
+  ) {
+    const item = await this.inventoryService.freezeInventoryItem(
+      getScopeUserId(req.user),
+      inventoryItemId,
+      freezeDto.storageLocation,
+    );
+
+    return this.formatInventoryItem(item);
+  }
+
+  /**
+   * Décongèle un lot
+   */
+  @Post(':id/thaw')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Décongeler un lot',
+    description:
+      'Sort le lot du congélateur (vers le réfrigérateur par défaut). Une date estimée repart de la décongélation avec la durée courte du lieu de destination.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID du lot',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiBody({ type: ThawInventoryItemDto, required: false })
+  @ApiResponse({ status: 200, description: 'Lot décongelé' })
+  @ApiResponse({
+    status: 400,
+    description: "Lot qui n'est pas au congélateur ou destination invalide",
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Élément d'inventaire non trouvé",
+  })
+  async thawInventoryItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) inventoryItemId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    thawDto: ThawInventoryItemDto,
+  ) {
+    const item = await this.inventoryService.thawInventoryItem(
+      getScopeUserId(req.user),
+      inventoryItemId,
+      thawDto.storageLocation,
+    );
+
+    return this.formatInventoryItem(item);
+  }
+
+  /**
+   * Sépare une partie d'un lot dans un nouveau lot
+   */
+  @Post(':id/split')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Séparer un lot',
+    description:
+      "Crée un nouveau lot avec une partie de la quantité, éventuellement dans un autre lieu de stockage. Le prix d'achat est réparti au prorata.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID du lot',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiBody({ type: SplitInventoryItemDto })
+  @ApiResponse({ status: 200, description: 'Lot séparé' })
+  @ApiResponse({
+    status: 400,
+    description: 'Quantité invalide (doit être inférieure à celle du lot)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: "Élément d'inventaire non trouvé",
+  })
+  async splitInventoryItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) inventoryItemId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    splitDto: SplitInventoryItemDto,
+  ) {
+    const result = await this.inventoryService.splitInventoryItem(
+      getScopeUserId(req.user),
+      inventoryItemId,
+      splitDto.quantity,
+      splitDto.storageLocation,
     );
+
+    return {
+      source: this.formatInventoryItem(result.source),
+      created: this.formatInventoryItem(result.created),
+    };
   }
 
   /**
@@ -968,7 +2121,7 @@ export class InventoryController {
   @ApiOperation({
     summary: "Supprimer un élément d'inventaire",
     description:
-      "Supprime définitivement un produit de l'inventaire de l'utilisateur",
+      "Supprime un produit de l'inventaire de l'utilisateur. Il reste restaurable pendant 30 jours.",
   })
   @ApiParam({
     name: 'id',
@@ -996,7 +2149,7 @@ export class InventoryController {
     @Param('id', ParseUUIDPipe) inventoryItemId: string,
   ) {
     return await this.inventoryService.removeInventoryItem(
-      req.user.id,
+      getScopeUserId(req.user),
       inventoryItemId,
     );
   }
@@ -1028,7 +2181,7 @@ export class InventoryController {
     @Param('id', ParseUUIDPipe) inventoryItemId: string,
   ) {
     const item = await this.inventoryService.getInventoryItemById(
-      req.user.id,
+      getScopeUserId(req.user),
       inventoryItemId,
     );
 
@@ -10,6 +10,7 @@ import {
   IsUUID,
   Matches,
   IsUrl,
+  IsArray,
 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -55,6 +56,11 @@ export enum PreparationStatus {
   COOKED = 'COOKED',
 }
 
+export enum ExpiryKind {
+  USE_BY = 'USE_BY',
+  BEST_BEFORE = 'BEST_BEFORE',
+}
+
 export class NutritionalInfoDto {
   @ApiPropertyOptional({
     description: 'Énergie pour 100g/100ml (en kcal)',
@@ -209,6 +215,18 @@ export class AddManualProductDto {
   })
   unitType: UnitType;
 
+  @ApiPropertyOptional({
+    description:
+      "Poids d'une pièce en g (ou contenance en ml), pour convertir pièces et masse ou volume",
+    example: 60,
+    minimum: 0.1,
+  })
+  @IsOptional()
+  @IsNumber({}, { message: "Le poids d'une pièce doit être un nombre valide" })
+  @Transform(({ value }) => (value ? parseFloat(value) : undefined))
+  @Min(0.1, { message: "Le poids d'une pièce doit être supérieur à 0" })
+  pieceWeight?: number;
+
   @ApiProperty({
     description: "Date d'achat du produit",
     example: '2024-01-15',
@@ -235,6 +253,18 @@ export class AddManualProductDto {
   )
   expiryDate?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Type de date : USE_BY (DLC, à consommer jusqu’au) ou BEST_BEFORE (DDM, à consommer de préférence avant). Déduit de la catégorie si absent.',
+    example: ExpiryKind.USE_BY,
+    enum: ExpiryKind,
+  })
+  @IsOptional()
+  @IsEnum(ExpiryKind, {
+    message: 'Le type de date doit être valide (USE_BY, BEST_BEFORE)',
+  })
+  expiryKind?: ExpiryKind;
+
   @ApiPropertyOptional({
     description: "Prix d'achat du produit",
     example: 3.5,
@@ -331,6 +361,19 @@ export class AddManualProductDto {
   @Transform(({ value }) => value?.trim() || null)
   ingredients?: string;
 
+  @ApiPropertyOptional({
+    description: 'Allergènes OpenFoodFacts du produit',
+    example: ['en:gluten', 'en:milk'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Les allergènes doivent être une liste' })
+  @IsString({
+    each: true,
+    message: 'Chaque allergène doit être une chaîne de caractères',
+  })
+  allergens?: string[];
+
   @ApiPropertyOptional({
     description: "URL de l'image du produit",
     example: 'https://example.com/pommes-golden.jpg',
@@ -426,6 +469,15 @@ export class ProductCreatedResponseDto {
   @IsString()
   expiryDateSource?: 'MANUAL' | 'ESTIMATED';
 
+  @ApiPropertyOptional({
+    description: 'Type de date : DLC (USE_BY) ou DDM (BEST_BEFORE)',
+    example: ExpiryKind.USE_BY,
+    enum: ExpiryKind,
+  })
+  @IsOptional()
+  @IsEnum(ExpiryKind)
+  expiryKind?: ExpiryKind;
+
   @ApiPropertyOptional({
     description: "Raison de l'estimation de la date de péremption",
     example: 'produits laitiers + refrigerateur',
@@ -445,11 +497,11 @@ export class ProductCreatedResponseDto {
   @ApiPropertyOptional({
     description: "Niveau de règle d'estimation appliqué",
     example: 'category',
-    enum: ['manual', 'product', 'category', 'storage'],
+    enum: ['manual', 'user', 'product', 'category', 'storage'],
   })
   @IsOptional()
   @IsString()
-  expiryDateRuleLevel?: 'manual' | 'product' | 'category' | 'storage';
+  expiryDateRuleLevel?: 'manual' | 'user' | 'product' | 'category' | 'storage';
 
   @ApiPropertyOptional({
     description: 'Durée ajoutée pour obtenir la date estimée',
@@ -536,6 +588,14 @@ export class ProductCreatedResponseDto {
   @IsString()
   ingredients?: string;
 
+  @ApiPropertyOptional({
+    description: 'Allergènes OpenFoodFacts du produit',
+    example: ['en:gluten', 'en:milk'],
+    type: [String],
+  })
+  @IsOptional()
+  allergens?: string[];
+
   @ApiPropertyOptional({
     description: "URL de l'image du produit",
     example: 'https://example.com/pommes-golden.jpg',
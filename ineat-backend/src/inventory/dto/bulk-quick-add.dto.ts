@@ -0,0 +1,44 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AddManualProductDto } from './add-manual-product.dto';
+import { QuickAddProductDto } from './quick-add-product.dto';
+
+export const MAX_BULK_QUICK_ADD_ITEMS = 100;
+
+/**
+ * Produits scannés pendant une session de scan, ajoutés en une seule fois
+ */
+export class BulkQuickAddProductsDto {
+  @ApiPropertyOptional({
+    description: 'Produits déjà connus (trouvés par leur code-barres)',
+    type: [QuickAddProductDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Les produits connus doivent être un tableau' })
+  @ArrayMaxSize(MAX_BULK_QUICK_ADD_ITEMS, {
+    message: `Une session ne peut pas dépasser ${MAX_BULK_QUICK_ADD_ITEMS} produits`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => QuickAddProductDto)
+  items?: QuickAddProductDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Produits inconnus à créer (informations OpenFoodFacts complétées par l’utilisateur)',
+    type: [AddManualProductDto],
+  })
+  @IsOptional()
+  @IsArray({ message: 'Les nouveaux produits doivent être un tableau' })
+  @ArrayMaxSize(MAX_BULK_QUICK_ADD_ITEMS, {
+    message: `Une session ne peut pas dépasser ${MAX_BULK_QUICK_ADD_ITEMS} produits`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => AddManualProductDto)
+  newProducts?: AddManualProductDto[];
+}
@@ -1,10 +1,11 @@
-import { IsNumber, Min } from 'class-validator';
+import { IsBoolean, IsEnum, IsNumber, IsOptional, Min } from 'class-validator';
 import { Type } from 'class-transformer';
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UnitType } from './add-manual-product.dto';
 
 export class ConsumeInventoryItemDto {
   @ApiProperty({
-    description: 'Quantité à consommer',
+    description: 'Quantité à consommer, exprimée dans `unit`',
     example: 1,
     minimum: 0.01,
   })
@@ -12,4 +13,25 @@ export class ConsumeInventoryItemDto {
   @IsNumber({}, { message: 'La quantité consommée doit être un nombre' })
   @Min(0.01, { message: 'La quantité consommée doit être supérieure à 0' })
   quantityConsumed: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Unité de la quantité consommée, convertie dans celle du produit (par défaut celle du produit)',
+    enum: UnitType,
+    example: UnitType.G,
+  })
+  @IsOptional()
+  @IsEnum(UnitType, {
+    message: "Le type d'unité doit être valide (KG, G, L, ML, UNIT)",
+  })
+  unit?: UnitType;
+
+  @ApiPropertyOptional({
+    description:
+      'Ne consommer que ce lot, sans entamer les autres lots du produit (par défaut, le lot qui périme le plus tôt est consommé en premier)',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'lotOnly doit être un booléen' })
+  lotOnly?: boolean;
 }
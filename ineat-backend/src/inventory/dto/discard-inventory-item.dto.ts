@@ -0,0 +1,86 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WasteReason } from '../../../prisma/generated/prisma/client';
+
+export class DiscardInventoryItemDto {
+  @ApiProperty({
+    description: 'Motif du gaspillage',
+    enum: WasteReason,
+    example: WasteReason.EXPIRED,
+  })
+  @IsEnum(WasteReason, { message: 'Le motif de gaspillage est invalide' })
+  reason: WasteReason;
+
+  @ApiPropertyOptional({
+    description: 'Quantité jetée (par défaut, la totalité du lot)',
+    example: 1,
+    minimum: 0.01,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'La quantité jetée doit être un nombre' })
+  @Min(0.01, { message: 'La quantité jetée doit être supérieure à 0' })
+  quantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Précisions sur le gaspillage',
+    example: 'Oublié au fond du réfrigérateur',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Les notes doivent être une chaîne de caractères' })
+  @MaxLength(500, {
+    message: 'Les notes ne peuvent pas dépasser 500 caractères',
+  })
+  notes?: string;
+}
+
+export class DiscardInventoryItemsDto {
+  @ApiProperty({
+    description: "IDs des éléments d'inventaire à jeter",
+    example: [
+      'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+      '8d9a3d8b-0c5d-4f1f-a5dd-c264e7e14b88',
+    ],
+    type: [String],
+  })
+  @IsArray({
+    message: 'La liste des produits à jeter doit être un tableau',
+  })
+  @ArrayNotEmpty({ message: 'Au moins un produit doit être sélectionné' })
+  @IsUUID('4', {
+    each: true,
+    message: 'Chaque ID de produit doit être un UUID valide',
+  })
+  ids: string[];
+
+  @ApiProperty({
+    description: 'Motif du gaspillage',
+    enum: WasteReason,
+    example: WasteReason.EXPIRED,
+  })
+  @IsEnum(WasteReason, { message: 'Le motif de gaspillage est invalide' })
+  reason: WasteReason;
+
+  @ApiPropertyOptional({
+    description: 'Précisions sur le gaspillage',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Les notes doivent être une chaîne de caractères' })
+  @MaxLength(500, {
+    message: 'Les notes ne peuvent pas dépasser 500 caractères',
+  })
+  notes?: string;
+}
@@ -8,5 +8,29 @@ export {
   Ecoscore,
   Novascore,
 } from './add-manual-product.dto';
-export { RemoveInventoryItemsDto } from './remove-inventory-items.dto';
+export {
+  RemoveInventoryItemsDto,
+  RestoreInventoryItemsDto,
+} from './remove-inventory-items.dto';
 export { ConsumeInventoryItemDto } from './consume-inventory-item.dto';
+export { InventoryMovementQueryDto } from './inventory-movement-query.dto';
+export {
+  DiscardInventoryItemDto,
+  DiscardInventoryItemsDto,
+} from './discard-inventory-item.dto';
+export { SetProductStockLevelDto } from './product-stock-level.dto';
+export { SetProductPieceWeightDto } from './product-piece-weight.dto';
+export { InventoryLabelsQueryDto } from './inventory-label.dto';
+export {
+  BulkQuickAddProductsDto,
+  MAX_BULK_QUICK_ADD_ITEMS,
+} from './bulk-quick-add.dto';
+export {
+  CreateStorageLocationDto,
+  UpdateStorageLocationDto,
+} from './storage-location.dto';
+export {
+  CreateShelfLifeOverrideDto,
+  UpdateShelfLifeOverrideDto,
+  ShelfLifeDaysDto,
+} from './shelf-life-override.dto';
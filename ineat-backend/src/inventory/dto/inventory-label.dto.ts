@@ -0,0 +1,30 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsUUID } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class InventoryLabelsQueryDto {
+  @ApiProperty({
+    description:
+      "IDs des lots d'inventaire à étiqueter, séparés par des virgules",
+    example:
+      'f47ac10b-58cc-4372-a567-0e02b2c3d479,8d9a3d8b-0c5d-4f1f-a5dd-c264e7e14b88',
+    type: String,
+  })
+  @Transform(({ value }) =>
+    (Array.isArray(value) ? value : String(value ?? '').split(','))
+      .map((id: string) => id.trim())
+      .filter(Boolean),
+  )
+  @IsArray({
+    message: 'La liste des lots à étiqueter doit être un tableau',
+  })
+  @ArrayNotEmpty({ message: 'Au moins un lot doit être sélectionné' })
+  @ArrayMaxSize(50, {
+    message: 'Au maximum 50 étiquettes peuvent être imprimées à la fois',
+  })
+  @IsUUID('4', {
+    each: true,
+    message: 'Chaque ID de lot doit être un UUID valide',
+  })
+  ids: string[];
+}
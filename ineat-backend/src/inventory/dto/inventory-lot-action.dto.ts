@@ -0,0 +1,90 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MoveInventoryItemDto {
+  @ApiProperty({
+    description: 'Nouveau lieu de stockage du lot',
+    example: 'Congélateur',
+    maxLength: 100,
+  })
+  @IsString({
+    message: 'Le lieu de stockage doit être une chaîne de caractères',
+  })
+  @IsNotEmpty({ message: 'Le lieu de stockage est obligatoire' })
+  @MaxLength(100, {
+    message: 'Le lieu de stockage ne peut pas dépasser 100 caractères',
+  })
+  @Transform(({ value }) => value?.trim())
+  storageLocation: string;
+}
+
+export class FreezeInventoryItemDto {
+  @ApiPropertyOptional({
+    description:
+      "Congélateur de destination (le premier congélateur de l'utilisateur par défaut)",
+    example: 'Congélateur',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({
+    message: 'Le lieu de stockage doit être une chaîne de caractères',
+  })
+  @MaxLength(100, {
+    message: 'Le lieu de stockage ne peut pas dépasser 100 caractères',
+  })
+  @Transform(({ value }) => value?.trim() || undefined)
+  storageLocation?: string;
+}
+
+export class ThawInventoryItemDto {
+  @ApiPropertyOptional({
+    description:
+      "Lieu de décongélation (le premier réfrigérateur de l'utilisateur par défaut)",
+    example: 'Réfrigérateur',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({
+    message: 'Le lieu de stockage doit être une chaîne de caractères',
+  })
+  @MaxLength(100, {
+    message: 'Le lieu de stockage ne peut pas dépasser 100 caractères',
+  })
+  @Transform(({ value }) => value?.trim() || undefined)
+  storageLocation?: string;
+}
+
+export class SplitInventoryItemDto {
+  @ApiProperty({
+    description: 'Quantité à placer dans le nouveau lot',
+    example: 0.5,
+    minimum: 0.01,
+  })
+  @Type(() => Number)
+  @IsNumber({}, { message: 'La quantité doit être un nombre' })
+  @Min(0.01, { message: 'La quantité doit être supérieure à 0' })
+  quantity: number;
+
+  @ApiPropertyOptional({
+    description: 'Lieu de stockage du nouveau lot (celui du lot par défaut)',
+    example: 'Congélateur',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString({
+    message: 'Le lieu de stockage doit être une chaîne de caractères',
+  })
+  @MaxLength(100, {
+    message: 'Le lieu de stockage ne peut pas dépasser 100 caractères',
+  })
+  @Transform(({ value }) => value?.trim() || undefined)
+  storageLocation?: string;
+}
@@ -0,0 +1,66 @@
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { InventoryMovementReason } from '../../../prisma/generated/prisma/client';
+
+export class InventoryMovementQueryDto {
+  @ApiPropertyOptional({ description: 'Numéro de page', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La page doit être un entier' })
+  @Min(1, { message: 'La page doit être supérieure ou égale à 1' })
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Nombre de mouvements par page (10-100)',
+    example: 25,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La taille de page doit être un entier' })
+  @Min(10, { message: 'La taille de page doit être au moins de 10' })
+  @Max(100, { message: 'La taille de page ne peut pas dépasser 100' })
+  pageSize?: number;
+
+  @ApiPropertyOptional({
+    description: 'Filtrer par produit',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: "L'ID du produit doit être un UUID valide" })
+  productId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filtrer par motif de mouvement',
+    enum: InventoryMovementReason,
+  })
+  @IsOptional()
+  @IsEnum(InventoryMovementReason, {
+    message: 'Le motif de mouvement est invalide',
+  })
+  reason?: InventoryMovementReason;
+
+  @ApiPropertyOptional({
+    description: 'Date de début (ISO 8601)',
+    example: '2026-10-01',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'La date de début doit être valide' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Date de fin (ISO 8601)',
+    example: '2026-10-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'La date de fin doit être valide' })
+  to?: string;
+}
@@ -17,6 +17,17 @@ export class ExpiryBreakdownDto {
   unknown: number;
 }
 
+export class QuantityTotalsDto {
+  @ApiProperty({ description: 'Masse totale des produits pesés, en grammes' })
+  massGrams: number;
+
+  @ApiProperty({ description: 'Volume total des liquides, en millilitres' })
+  volumeMilliliters: number;
+
+  @ApiProperty({ description: 'Nombre total de pièces' })
+  pieces: number;
+}
+
 export class CategoryBreakdownDto {
   @ApiProperty({ description: 'ID de la catégorie' })
   categoryId: string;
@@ -53,6 +64,45 @@ export class RecentActivityDto {
   averageDaysToConsumption?: number;
 }
 
+export class WasteTotalsDto {
+  @ApiProperty({ description: "Valeur d'achat perdue" })
+  valueLost: number;
+
+  @ApiProperty({ description: 'Nombre de lots jetés' })
+  count: number;
+}
+
+export class WasteMonthDto extends WasteTotalsDto {
+  @ApiProperty({ description: 'Mois (AAAA-MM)', example: '2026-10' })
+  month: string;
+}
+
+export class WasteCategoryDto extends WasteTotalsDto {
+  @ApiProperty({ description: 'ID de la catégorie', nullable: true })
+  categoryId: string | null;
+
+  @ApiProperty({ description: 'Nom de la catégorie' })
+  categoryName: string;
+}
+
+export class WasteStatsDto extends WasteTotalsDto {
+  @ApiProperty({ description: 'Début de la période analysée' })
+  since: string;
+
+  @ApiProperty({ description: 'Gaspillage par mois', type: [WasteMonthDto] })
+  byMonth: WasteMonthDto[];
+
+  @ApiProperty({ description: 'Gaspillage par catégorie', type: [WasteCategoryDto] })
+  byCategory: WasteCategoryDto[];
+
+  @ApiProperty({
+    description: 'Gaspillage par motif (EXPIRED, SPOILED, LEFTOVER, OTHER)',
+    type: 'object',
+    additionalProperties: { type: 'object', $ref: '#/components/schemas/WasteTotalsDto' }
+  })
+  byReason: Record<string, WasteTotalsDto>;
+}
+
 export class InventoryStatsDto {
   @ApiProperty({ description: "Nombre total d'éléments dans l'inventaire" })
   totalItems: number;
@@ -60,9 +110,18 @@ export class InventoryStatsDto {
   @ApiProperty({ description: "Valeur totale de l'inventaire" })
   totalValue: number;
 
-  @ApiProperty({ description: "Quantité totale de tous les produits" })
+  @ApiProperty({
+    description:
+      "Nombre d'articles : les pièces une à une, un lot pesé ou mesuré compte pour un",
+  })
   totalQuantity: number;
 
+  @ApiProperty({
+    description: 'Quantités totales par dimension',
+    type: QuantityTotalsDto,
+  })
+  quantityTotals: QuantityTotalsDto;
+
   @ApiProperty({ description: "Valeur moyenne par article" })
   averageItemValue: number;
 
@@ -81,4 +140,68 @@ export class InventoryStatsDto {
 
   @ApiProperty({ description: 'Activité récente', type: RecentActivityDto })
   recentActivity: RecentActivityDto;
-}
\ No newline at end of file
+
+  @ApiProperty({ description: 'Gaspillage des 6 derniers mois', type: WasteStatsDto })
+  waste: WasteStatsDto;
+}
+
+export class ValuationTotalsDto {
+  @ApiProperty({ description: "Valeur d'achat des lots" })
+  value: number;
+
+  @ApiProperty({ description: 'Nombre de lots valorisés' })
+  lotCount: number;
+}
+
+export class CategoryValuationDto extends ValuationTotalsDto {
+  @ApiProperty({ description: 'ID de la catégorie', nullable: true })
+  categoryId: string | null;
+
+  @ApiProperty({ description: 'Nom de la catégorie' })
+  categoryName: string;
+
+  @ApiProperty({ description: 'Part de la valeur totale (%)' })
+  percentage: number;
+}
+
+export class StorageLocationValuationDto extends ValuationTotalsDto {
+  @ApiProperty({ description: 'Lieu de stockage', example: 'refrigerateur' })
+  storageLocation: string;
+
+  @ApiProperty({ description: 'Part de la valeur totale (%)' })
+  percentage: number;
+}
+
+export class StockAgeValuationDto extends ValuationTotalsDto {
+  @ApiProperty({
+    description: "Tranche d'ancienneté depuis la date d'achat",
+    enum: ['UNDER_1_WEEK', 'ONE_TO_2_WEEKS', 'TWO_WEEKS_TO_1_MONTH', 'OVER_1_MONTH'],
+  })
+  bucket: string;
+}
+
+export class InventoryValuationDto {
+  @ApiProperty({ description: "Valeur d'achat totale du stock" })
+  totalValue: number;
+
+  @ApiProperty({ description: "Lots sans prix d'achat, exclus de la valorisation" })
+  unvaluedLotCount: number;
+
+  @ApiProperty({ description: 'Valeur par catégorie', type: [CategoryValuationDto] })
+  byCategory: CategoryValuationDto[];
+
+  @ApiProperty({ description: 'Valeur par lieu de stockage', type: [StorageLocationValuationDto] })
+  byStorageLocation: StorageLocationValuationDto[];
+
+  @ApiProperty({
+    description: 'Valeur des lots qui expirent dans les 7 prochains jours (date saisie ou estimée)',
+    type: ValuationTotalsDto,
+  })
+  valueAtRisk: ValuationTotalsDto;
+
+  @ApiProperty({ description: 'Valeur des lots déjà expirés', type: ValuationTotalsDto })
+  expiredValue: ValuationTotalsDto;
+
+  @ApiProperty({ description: 'Valeur par ancienneté des lots', type: [StockAgeValuationDto] })
+  ageDistribution: StockAgeValuationDto[];
+}
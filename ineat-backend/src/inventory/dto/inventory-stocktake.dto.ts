@@ -0,0 +1,124 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum StocktakeLotAction {
+  CONFIRM = 'CONFIRM',
+  ADJUST = 'ADJUST',
+  REMOVE = 'REMOVE',
+}
+
+export enum StocktakeReason {
+  COUNT_ERROR = 'COUNT_ERROR',
+  UNTRACKED_CONSUMPTION = 'UNTRACKED_CONSUMPTION',
+  UNTRACKED_WASTE = 'UNTRACKED_WASTE',
+  OTHER = 'OTHER',
+}
+
+export const STOCKTAKE_REASON_LABELS: Record<StocktakeReason, string> = {
+  [StocktakeReason.COUNT_ERROR]: 'Erreur de saisie',
+  [StocktakeReason.UNTRACKED_CONSUMPTION]: 'Consommé sans être noté',
+  [StocktakeReason.UNTRACKED_WASTE]: 'Jeté sans être noté',
+  [StocktakeReason.OTHER]: 'Autre',
+};
+
+export class StocktakeQueryDto {
+  @ApiProperty({
+    description: 'Lieu de stockage inventorié',
+    example: 'refrigerateur',
+  })
+  @IsString({
+    message: 'Le lieu de stockage doit être une chaîne de caractères',
+  })
+  @IsNotEmpty({ message: 'Le lieu de stockage est obligatoire' })
+  @Transform(({ value }) => value?.trim())
+  storageLocation: string;
+}
+
+export class StocktakeLotDto {
+  @ApiProperty({
+    description: 'ID du lot vérifié',
+    example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+  })
+  @IsUUID('4', { message: "L'ID du lot doit être un UUID valide" })
+  inventoryItemId: string;
+
+  @ApiProperty({
+    description:
+      'CONFIRM : le lot est conforme, ADJUST : la quantité est corrigée, REMOVE : le lot n’est plus là',
+    enum: StocktakeLotAction,
+    example: StocktakeLotAction.ADJUST,
+  })
+  @IsEnum(StocktakeLotAction, { message: "L'action sur le lot est invalide" })
+  action: StocktakeLotAction;
+
+  @ApiPropertyOptional({
+    description: 'Quantité réellement comptée (obligatoire pour ADJUST)',
+    example: 1,
+    minimum: 0.01,
+  })
+  @ValidateIf((lot) => lot.action === StocktakeLotAction.ADJUST)
+  @Type(() => Number)
+  @IsNumber({}, { message: 'La quantité comptée doit être un nombre' })
+  @Min(0.01, { message: 'La quantité comptée doit être supérieure à 0' })
+  countedQuantity?: number;
+
+  @ApiPropertyOptional({
+    description: "Motif de l'écart (obligatoire pour ADJUST et REMOVE)",
+    enum: StocktakeReason,
+    example: StocktakeReason.UNTRACKED_CONSUMPTION,
+  })
+  @ValidateIf((lot) => lot.action !== StocktakeLotAction.CONFIRM)
+  @IsEnum(StocktakeReason, { message: "Le motif de l'écart est invalide" })
+  reason?: StocktakeReason;
+}
+
+export class CompleteStocktakeDto {
+  @ApiProperty({
+    description: 'Lieu de stockage inventorié',
+    example: 'refrigerateur',
+  })
+  @IsString({
+    message: 'Le lieu de stockage doit être une chaîne de caractères',
+  })
+  @IsNotEmpty({ message: 'Le lieu de stockage est obligatoire' })
+  @Transform(({ value }) => value?.trim())
+  storageLocation: string;
+
+  @ApiProperty({
+    description:
+      'Lots vérifiés. Les lots du lieu absents de la liste sont signalés « à vérifier ».',
+    type: [StocktakeLotDto],
+  })
+  @IsArray({ message: 'Les lots vérifiés doivent être un tableau' })
+  @ArrayMaxSize(500, {
+    message: 'Un inventaire ne peut pas dépasser 500 lots',
+  })
+  @ValidateNested({ each: true })
+  @Type(() => StocktakeLotDto)
+  lots: StocktakeLotDto[];
+
+  @ApiPropertyOptional({
+    description: "Précisions ajoutées aux mouvements d'ajustement",
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Les notes doivent être une chaîne de caractères' })
+  @MaxLength(500, {
+    message: 'Les notes ne peuvent pas dépasser 500 caractères',
+  })
+  notes?: string;
+}
@@ -0,0 +1,61 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum InventoryTransferFormat {
+  CSV = 'csv',
+  JSON = 'json',
+}
+
+export class InventoryExportQueryDto {
+  @ApiPropertyOptional({
+    description: "Format du fichier d'export",
+    enum: InventoryTransferFormat,
+    default: InventoryTransferFormat.CSV,
+  })
+  @IsOptional()
+  @IsEnum(InventoryTransferFormat, {
+    message: "Le format d'export doit être csv ou json",
+  })
+  format?: InventoryTransferFormat;
+}
+
+export class ImportInventoryDto {
+  @ApiProperty({
+    description: 'Format du contenu importé',
+    enum: InventoryTransferFormat,
+    example: InventoryTransferFormat.CSV,
+  })
+  @IsEnum(InventoryTransferFormat, {
+    message: "Le format d'import doit être csv ou json",
+  })
+  format: InventoryTransferFormat;
+
+  @ApiProperty({
+    description:
+      'Contenu du fichier : CSV avec ligne d’en-tête (séparateur virgule ou point-virgule) ou tableau JSON',
+    example:
+      'product,barcode,category,quantity,unit,expiryDate,storageLocation,purchasePrice\nLait demi-écrémé,3263859672014,produits-laitiers,2,L,2026-11-02,refrigerateur,1.89',
+  })
+  @IsString({ message: 'Le contenu doit être une chaîne de caractères' })
+  @IsNotEmpty({ message: 'Le fichier est vide' })
+  @MaxLength(500000, { message: 'Le fichier ne peut pas dépasser 500 Ko' })
+  content: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Valide les lignes et renvoie l'aperçu sans rien ajouter à l'inventaire",
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean({ message: 'dryRun doit être un booléen' })
+  dryRun?: boolean;
+}
@@ -0,0 +1,20 @@
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetProductPieceWeightDto {
+  @ApiProperty({
+    description:
+      "Poids d'une pièce en g (ou contenance en ml), null pour le retirer",
+    example: 60,
+    nullable: true,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: "Le poids d'une pièce doit être un nombre" })
+  @Min(0.1, { message: "Le poids d'une pièce doit être supérieur à 0" })
+  @Max(100000, {
+    message: "Le poids d'une pièce ne peut pas dépasser 100000",
+  })
+  pieceWeight: number | null;
+}
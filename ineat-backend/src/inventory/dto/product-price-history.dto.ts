@@ -0,0 +1,107 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ProductPriceEntryDto {
+  @ApiProperty({ description: "ID de l'achat" })
+  id: string;
+
+  @ApiProperty({
+    description: 'Origine du prix',
+    enum: ['MANUAL', 'INVOICE'],
+  })
+  source: string;
+
+  @ApiProperty({
+    description: 'Enseigne de la facture, null pour une saisie manuelle',
+    nullable: true,
+    example: 'Carrefour',
+  })
+  merchantName: string | null;
+
+  @ApiProperty({ description: "Quantité achetée, dans l'unité du produit" })
+  quantity: number;
+
+  @ApiProperty({ description: "Prix payé pour l'achat" })
+  totalPrice: number;
+
+  @ApiProperty({
+    description: "Prix ramené à l'unité de référence (kg, l ou pièce)",
+  })
+  unitPrice: number;
+
+  @ApiProperty({ description: "Date d'achat" })
+  purchasedAt: Date;
+
+  @ApiProperty({
+    description:
+      'Écart en % avec le prix habituel, null tant que les achats sont trop peu nombreux',
+    nullable: true,
+  })
+  differencePercent: number | null;
+
+  @ApiProperty({
+    description: 'Achat nettement plus cher que le prix habituel',
+  })
+  isAboveUsualPrice: boolean;
+}
+
+export class PriceSummaryDto {
+  @ApiProperty({ description: "Nombre d'achats" })
+  purchaseCount: number;
+
+  @ApiProperty({ description: 'Prix unitaire le plus bas' })
+  minPrice: number;
+
+  @ApiProperty({ description: 'Prix unitaire le plus haut' })
+  maxPrice: number;
+
+  @ApiProperty({ description: 'Prix unitaire moyen' })
+  averagePrice: number;
+
+  @ApiProperty({ description: 'Prix unitaire du dernier achat' })
+  latestPrice: number;
+}
+
+export class MerchantPriceSummaryDto extends PriceSummaryDto {
+  @ApiProperty({
+    description: 'Enseigne, null pour les saisies manuelles',
+    nullable: true,
+  })
+  merchantName: string | null;
+}
+
+export class ProductPriceHistoryDto {
+  @ApiProperty({ description: 'ID du produit' })
+  productId: string;
+
+  @ApiProperty({
+    description: 'Unité de référence des prix unitaires',
+    enum: ['KG', 'L', 'UNIT'],
+  })
+  referenceUnit: string;
+
+  @ApiProperty({
+    description:
+      'Prix habituel (médiane des achats), null tant que les achats sont trop peu nombreux',
+    nullable: true,
+  })
+  usualPrice: number | null;
+
+  @ApiProperty({
+    description: 'Synthèse de tous les achats, null sans achat',
+    type: PriceSummaryDto,
+    nullable: true,
+  })
+  summary: PriceSummaryDto | null;
+
+  @ApiProperty({
+    description: 'Synthèse par enseigne',
+    type: [MerchantPriceSummaryDto],
+  })
+  byMerchant: MerchantPriceSummaryDto[];
+
+  @ApiProperty({
+    description: 'Achats du plus ancien au plus récent',
+    type: [ProductPriceEntryDto],
+  })
+  entries: ProductPriceEntryDto[];
+}
@@ -0,0 +1,17 @@
+import { IsNumber, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetProductStockLevelDto {
+  @ApiProperty({
+    description:
+      'Stock minimum du produit, tous lots confondus, exprimé dans son unité',
+    example: 2,
+    minimum: 0.01,
+  })
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Le stock minimum doit être un nombre' })
+  @Min(0.01, { message: 'Le stock minimum doit être supérieur à 0' })
+  @Max(10000, { message: 'Le stock minimum ne peut pas dépasser 10000' })
+  minimumQuantity: number;
+}
@@ -10,7 +10,11 @@ import {
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Transform, Type } from 'class-transformer';
-import { PackageStatus, PreparationStatus } from './add-manual-product.dto';
+import {
+  ExpiryKind,
+  PackageStatus,
+  PreparationStatus,
+} from './add-manual-product.dto';
 
 export class QuickAddProductDto {
   @ApiProperty({
@@ -56,6 +60,19 @@ export class QuickAddProductDto {
   )
   expiryDate?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Type de date : USE_BY (DLC) ou BEST_BEFORE (DDM). Déduit de la catégorie si absent.',
+    example: ExpiryKind.USE_BY,
+    enum: ExpiryKind,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsEnum(ExpiryKind, {
+    message: 'Le type de date doit être valide (USE_BY, BEST_BEFORE)',
+  })
+  expiryKind?: ExpiryKind;
+
   @ApiPropertyOptional({
     description: "Prix d'achat unitaire du produit",
     example: 3.99,
@@ -20,3 +20,23 @@ export class RemoveInventoryItemsDto {
   })
   ids: string[];
 }
+
+export class RestoreInventoryItemsDto {
+  @ApiProperty({
+    description: "IDs des éléments d'inventaire supprimés à restaurer",
+    example: [
+      'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+      '8d9a3d8b-0c5d-4f1f-a5dd-c264e7e14b88',
+    ],
+    type: [String],
+  })
+  @IsArray({
+    message: 'La liste des produits à restaurer doit être un tableau',
+  })
+  @ArrayNotEmpty({ message: 'Au moins un produit doit être sélectionné' })
+  @IsUUID('4', {
+    each: true,
+    message: 'Chaque ID de produit doit être un UUID valide',
+  })
+  ids: string[];
+}
@@ -0,0 +1,214 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const MAX_SHELF_LIFE_DAYS = 3650;
+
+const trimString = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+const trimKeywords = ({ value }: { value: unknown }) =>
+  Array.isArray(value)
+    ? value
+        .map((keyword) =>
+          typeof keyword === 'string' ? keyword.trim() : keyword,
+        )
+        .filter((keyword) => keyword !== '')
+    : value;
+
+/**
+ * Durées de conservation en jours par type de stockage
+ */
+export class ShelfLifeDaysDto {
+  @ApiPropertyOptional({ description: 'Au réfrigérateur', example: 10 })
+  @IsOptional()
+  @IsInt({ message: 'La durée doit être un nombre entier de jours' })
+  @Min(0, { message: 'La durée ne peut pas être négative' })
+  @Max(MAX_SHELF_LIFE_DAYS, {
+    message: `La durée ne peut pas dépasser ${MAX_SHELF_LIFE_DAYS} jours`,
+  })
+  fridge?: number;
+
+  @ApiPropertyOptional({ description: 'Au congélateur', example: 60 })
+  @IsOptional()
+  @IsInt({ message: 'La durée doit être un nombre entier de jours' })
+  @Min(0, { message: 'La durée ne peut pas être négative' })
+  @Max(MAX_SHELF_LIFE_DAYS, {
+    message: `La durée ne peut pas dépasser ${MAX_SHELF_LIFE_DAYS} jours`,
+  })
+  freezer?: number;
+
+  @ApiPropertyOptional({ description: 'Au placard' })
+  @IsOptional()
+  @IsInt({ message: 'La durée doit être un nombre entier de jours' })
+  @Min(0, { message: 'La durée ne peut pas être négative' })
+  @Max(MAX_SHELF_LIFE_DAYS, {
+    message: `La durée ne peut pas dépasser ${MAX_SHELF_LIFE_DAYS} jours`,
+  })
+  pantry?: number;
+
+  @ApiPropertyOptional({ description: 'À la cave ou au cellier' })
+  @IsOptional()
+  @IsInt({ message: 'La durée doit être un nombre entier de jours' })
+  @Min(0, { message: 'La durée ne peut pas être négative' })
+  @Max(MAX_SHELF_LIFE_DAYS, {
+    message: `La durée ne peut pas dépasser ${MAX_SHELF_LIFE_DAYS} jours`,
+  })
+  cellar?: number;
+
+  @ApiPropertyOptional({ description: 'À température ambiante', example: 2 })
+  @IsOptional()
+  @IsInt({ message: 'La durée doit être un nombre entier de jours' })
+  @Min(0, { message: 'La durée ne peut pas être négative' })
+  @Max(MAX_SHELF_LIFE_DAYS, {
+    message: `La durée ne peut pas dépasser ${MAX_SHELF_LIFE_DAYS} jours`,
+  })
+  ambient?: number;
+
+  @ApiPropertyOptional({ description: 'Ailleurs' })
+  @IsOptional()
+  @IsInt({ message: 'La durée doit être un nombre entier de jours' })
+  @Min(0, { message: 'La durée ne peut pas être négative' })
+  @Max(MAX_SHELF_LIFE_DAYS, {
+    message: `La durée ne peut pas dépasser ${MAX_SHELF_LIFE_DAYS} jours`,
+  })
+  other?: number;
+}
+
+export class CreateShelfLifeOverrideDto {
+  @ApiProperty({
+    description: 'Nom affiché de la règle',
+    example: 'Yaourt maison',
+    maxLength: 60,
+  })
+  @Transform(trimString)
+  @IsString({ message: 'Le nom doit être une chaîne de caractères' })
+  @IsNotEmpty({ message: 'Le nom de la règle est obligatoire' })
+  @MaxLength(60, { message: 'Le nom ne peut pas dépasser 60 caractères' })
+  label: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Mots-clés recherchés dans le nom du produit (au moins un mot-clé ou un produit)',
+    example: ['yaourt maison'],
+    type: [String],
+  })
+  @IsOptional()
+  @Transform(trimKeywords)
+  @IsArray({ message: 'Les mots-clés doivent être une liste' })
+  @ArrayMaxSize(10, { message: 'Une règle accepte au plus 10 mots-clés' })
+  @IsString({
+    each: true,
+    message: 'Chaque mot-clé doit être une chaîne de caractères',
+  })
+  @MaxLength(50, {
+    each: true,
+    message: 'Un mot-clé ne peut pas dépasser 50 caractères',
+  })
+  keywords?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Produit précis auquel la règle s’applique',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: "L'ID du produit doit être un UUID valide" })
+  productId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Durées de conservation par type de stockage',
+    type: ShelfLifeDaysDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ShelfLifeDaysDto)
+  daysByStorage?: ShelfLifeDaysDto;
+
+  @ApiProperty({
+    description:
+      'Durée de conservation utilisée pour les types de stockage non renseignés',
+    example: 7,
+  })
+  @Type(() => Number)
+  @IsInt({ message: 'La durée par défaut doit être un nombre entier de jours' })
+  @Min(1, { message: 'La durée par défaut doit être d’au moins 1 jour' })
+  @Max(MAX_SHELF_LIFE_DAYS, {
+    message: `La durée par défaut ne peut pas dépasser ${MAX_SHELF_LIFE_DAYS} jours`,
+  })
+  defaultDays: number;
+}
+
+export class UpdateShelfLifeOverrideDto {
+  @ApiPropertyOptional({
+    description: 'Nom affiché de la règle',
+    maxLength: 60,
+  })
+  @IsOptional()
+  @Transform(trimString)
+  @IsString({ message: 'Le nom doit être une chaîne de caractères' })
+  @IsNotEmpty({ message: 'Le nom de la règle est obligatoire' })
+  @MaxLength(60, { message: 'Le nom ne peut pas dépasser 60 caractères' })
+  label?: string;
+
+  @ApiPropertyOptional({
+    description: 'Mots-clés recherchés dans le nom du produit',
+    type: [String],
+  })
+  @IsOptional()
+  @Transform(trimKeywords)
+  @IsArray({ message: 'Les mots-clés doivent être une liste' })
+  @ArrayMaxSize(10, { message: 'Une règle accepte au plus 10 mots-clés' })
+  @IsString({
+    each: true,
+    message: 'Chaque mot-clé doit être une chaîne de caractères',
+  })
+  @MaxLength(50, {
+    each: true,
+    message: 'Un mot-clé ne peut pas dépasser 50 caractères',
+  })
+  keywords?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Produit précis auquel la règle s’applique, null pour le retirer',
+    format: 'uuid',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID('4', { message: "L'ID du produit doit être un UUID valide" })
+  productId?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Durées de conservation par type de stockage',
+    type: ShelfLifeDaysDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ShelfLifeDaysDto)
+  daysByStorage?: ShelfLifeDaysDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Durée de conservation utilisée pour les types de stockage non renseignés',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La durée par défaut doit être un nombre entier de jours' })
+  @Min(1, { message: 'La durée par défaut doit être d’au moins 1 jour' })
+  @Max(MAX_SHELF_LIFE_DAYS, {
+    message: `La durée par défaut ne peut pas dépasser ${MAX_SHELF_LIFE_DAYS} jours`,
+  })
+  defaultDays?: number;
+}
@@ -0,0 +1,61 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { STORAGE_GROUPS, StorageGroup } from '../constants/expiry-rules';
+
+const STORAGE_GROUP_MESSAGE = `Le type de stockage doit être l'un des suivants : ${STORAGE_GROUPS.join(', ')}`;
+
+export class CreateStorageLocationDto {
+  @ApiProperty({
+    description: 'Nom du lieu de stockage',
+    example: 'Congélateur du garage',
+    maxLength: 50,
+  })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @IsString({ message: 'Le nom doit être une chaîne de caractères' })
+  @IsNotEmpty({ message: 'Le nom du lieu de stockage est obligatoire' })
+  @MaxLength(50, { message: 'Le nom ne peut pas dépasser 50 caractères' })
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Type de stockage utilisé pour estimer les dates de péremption',
+    enum: STORAGE_GROUPS,
+    example: 'freezer',
+  })
+  @IsIn(STORAGE_GROUPS, { message: STORAGE_GROUP_MESSAGE })
+  storageGroup: StorageGroup;
+}
+
+export class UpdateStorageLocationDto {
+  @ApiPropertyOptional({
+    description: 'Nouveau nom du lieu, reporté sur les lots qui y sont rangés',
+    example: 'Tiroir à goûters',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @IsString({ message: 'Le nom doit être une chaîne de caractères' })
+  @IsNotEmpty({ message: 'Le nom du lieu de stockage est obligatoire' })
+  @MaxLength(50, { message: 'Le nom ne peut pas dépasser 50 caractères' })
+  name?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Type de stockage utilisé pour estimer les dates de péremption',
+    enum: STORAGE_GROUPS,
+  })
+  @IsOptional()
+  @IsIn(STORAGE_GROUPS, { message: STORAGE_GROUP_MESSAGE })
+  storageGroup?: StorageGroup;
+}
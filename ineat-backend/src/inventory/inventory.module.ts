@@ -1,24 +1,45 @@
 import { Module } from '@nestjs/common';
 import { InventoryController } from './controllers/inventory.controller';
 import { InventoryService } from './services/inventory.service';
+import { InventoryMovementService } from './services/inventory-movement.service';
+import { ProductStockLevelService } from './services/product-stock-level.service';
+import { ProductPriceHistoryService } from './services/product-price-history.service';
+import { InventoryTransferService } from './services/inventory-transfer.service';
+import { InventoryLabelService } from './services/inventory-label.service';
+import { InventoryStocktakeService } from './services/inventory-stocktake.service';
+import { StorageLocationService } from './services/storage-location.service';
+import { ShelfLifeOverrideService } from './services/shelf-life-override.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { BudgetModule } from '../budget/budget.module';
 import { NotificationModule } from '../notification/notification.module';
+import { ShoppingListModule } from '../shopping-list/shopping-list.module';
 
 @Module({
   imports: [
     PrismaModule, // Module Prisma pour l'accès à la base de données
     BudgetModule, // Module Budget pour la gestion des budgets
     NotificationModule,
+    ShoppingListModule, // Liste de courses alimentée par les ruptures de stock
   ],
   controllers: [
     InventoryController, // Controller gérant les requêtes HTTP pour l'inventaire
   ],
   providers: [
     InventoryService, // Service contenant la logique métier de l'inventaire
+    InventoryMovementService, // Journal des mouvements de stock
+    ProductStockLevelService, // Stocks minimums et alertes de stock bas
+    ProductPriceHistoryService, // Historique des prix d'achat par produit
+    InventoryTransferService, // Export et import CSV/JSON de l'inventaire
+    InventoryLabelService, // Étiquettes PDF à QR code des lots
+    InventoryStocktakeService, // Inventaire guidé d'un lieu de stockage
+    StorageLocationService, // Lieux de stockage personnalisés
+    ShelfLifeOverrideService, // Règles de conservation personnelles
   ],
   exports: [
     InventoryService, // Exporter le service pour qu'il puisse être utilisé par d'autres modules
+    InventoryMovementService,
+    ProductPriceHistoryService,
+    StorageLocationService,
   ],
 })
 export class InventoryModule {}
@@ -13,6 +13,7 @@ describe('estimateExpiryDate', () => {
     expect(result).toEqual({
       expiryDate: new Date('2026-05-06'),
       source: 'MANUAL',
+      expiryKind: 'USE_BY',
       ruleLevel: 'manual',
     });
   });
@@ -54,6 +55,51 @@ describe('estimateExpiryDate', () => {
     expect(result.durationDays).toBe(5);
   });
 
+  it('checks personal rules before the built-in rules', () => {
+    const userRules = [
+      {
+        id: 'override-bread',
+        label: 'pain de la boulangerie',
+        keywords: ['pain'],
+        daysByStorage: { pantry: 2 },
+        defaultDays: 2,
+      },
+      {
+        id: 'override-yogurt',
+        label: 'yaourt maison',
+        productId: 'product-yogurt',
+        keywords: [],
+        daysByStorage: { fridge: 10 },
+        defaultDays: 10,
+      },
+    ];
+
+    const bread = estimateExpiryDate({
+      productName: 'Pain complet',
+      storageLocation: 'placard',
+      purchaseDate: '2026-05-01',
+      userRules,
+    });
+    const yogurt = estimateExpiryDate({
+      productId: 'product-yogurt',
+      productName: 'Pot maison',
+      categorySlug: 'produits-laitiers',
+      storageLocation: 'refrigerateur',
+      packageStatus: 'OPENED',
+      purchaseDate: '2026-05-01',
+      userRules,
+    });
+
+    expect(bread.expiryDate).toEqual(new Date('2026-05-03'));
+    expect(bread.ruleLevel).toBe('user');
+    expect(bread.reason).toBe(
+      'pain de la boulangerie (règle personnelle) + placard',
+    );
+    expect(yogurt.ruleId).toBe('override-yogurt');
+    // Le plafond « ouvert » de la catégorie s'applique toujours
+    expect(yogurt.durationDays).toBe(5);
+  });
+
   it('falls back to storage rules when no product or category rule matches', () => {
     const result = estimateExpiryDate({
       productName: 'Produit mystère',
@@ -108,4 +154,40 @@ describe('estimateExpiryDate', () => {
     expect(result.durationDays).toBe(5);
     expect(result.reason).toBe('produits laitiers + refrigerateur + ouvert');
   });
+
+  it('infers a best-before date for dry goods and keeps cooked food as use-by', () => {
+    const dryGoods = {
+      productName: 'Riz basmati',
+      categorySlug: 'epicerie-salee',
+      storageLocation: 'placard',
+      purchaseDate: '2026-05-01',
+    };
+
+    expect(estimateExpiryDate(dryGoods).expiryKind).toBe('BEST_BEFORE');
+    expect(
+      estimateExpiryDate({ ...dryGoods, preparationStatus: 'COOKED' })
+        .expiryKind,
+    ).toBe('USE_BY');
+    expect(
+      estimateExpiryDate({
+        productName: 'Steak haché',
+        categorySlug: 'viandes-et-poissons',
+        storageLocation: 'refrigerateur',
+        purchaseDate: '2026-05-01',
+      }).expiryKind,
+    ).toBe('USE_BY');
+  });
+
+  it('lets the user choose the expiry kind over the category rule', () => {
+    const result = estimateExpiryDate({
+      productName: 'Jus frais pressé',
+      categorySlug: 'boissons',
+      storageLocation: 'refrigerateur',
+      purchaseDate: '2026-05-01',
+      manualExpiryDate: '2026-05-04',
+      manualExpiryKind: 'USE_BY',
+    });
+
+    expect(result.expiryKind).toBe('USE_BY');
+  });
 });
@@ -1,5 +1,6 @@
 import {
   CATEGORY_SHELF_LIFE_RULES,
+  ExpiryKind,
   PRODUCT_SHELF_LIFE_RULES,
   ShelfLifeRule,
   STORAGE_ALIASES,
@@ -11,23 +12,43 @@ export type ExpiryDateSource = 'MANUAL' | 'ESTIMATED';
 export type PackageStatus = 'UNOPENED' | 'OPENED';
 export type PreparationStatus = 'RAW' | 'COOKED';
 
+/**
+ * Règle de conservation personnelle, prioritaire sur les règles intégrées.
+ * Elle cible un produit précis ou des mots-clés du nom du produit.
+ */
+export interface UserShelfLifeRule extends ShelfLifeRule {
+  productId?: string | null;
+}
+
 export interface ExpiryEstimationInput {
+  productId?: string | null;
   productName?: string | null;
   categorySlug?: string | null;
   categoryName?: string | null;
   storageLocation?: string | null;
+  /** Type de stockage déjà résolu (lieux personnalisés de l'utilisateur) */
+  storageGroup?: StorageGroup | null;
   packageStatus?: PackageStatus | null;
   preparationStatus?: PreparationStatus | null;
   purchaseDate?: string | Date | null;
   addedAt?: string | Date | null;
   manualExpiryDate?: string | null;
+  /** Type de date choisi par l'utilisateur, prioritaire sur les règles */
+  manualExpiryKind?: ExpiryKind | null;
+  userRules?: UserShelfLifeRule[] | null;
 }
 
-export type ExpiryRuleLevel = 'manual' | 'product' | 'category' | 'storage';
+export type ExpiryRuleLevel =
+  | 'manual'
+  | 'user'
+  | 'product'
+  | 'category'
+  | 'storage';
 
 export interface ExpiryEstimationResult {
   expiryDate: Date | null;
   source: ExpiryDateSource;
+  expiryKind: ExpiryKind;
   reason?: string;
   ruleId?: string;
   ruleLevel: ExpiryRuleLevel;
@@ -44,7 +65,9 @@ const normalize = (value?: string | null): string =>
     .replace(/_/g, '-')
     .trim();
 
-const resolveStorageGroup = (storageLocation?: string | null): StorageGroup => {
+export const resolveStorageGroup = (
+  storageLocation?: string | null,
+): StorageGroup => {
   const normalized = normalize(storageLocation);
 
   for (const [group, aliases] of Object.entries(STORAGE_ALIASES)) {
@@ -66,6 +89,17 @@ const findRule = (rules: ShelfLifeRule[], text: string) => {
   );
 };
 
+const findUserRule = (
+  rules: UserShelfLifeRule[],
+  productId?: string | null,
+  productName?: string | null,
+) =>
+  (productId && rules.find((rule) => rule.productId === productId)) ||
+  findRule(
+    rules.filter((rule) => !rule.productId),
+    productName ?? '',
+  );
+
 const addDays = (date: Date, days: number): Date => {
   return new Date(
     Date.UTC(
@@ -129,21 +163,70 @@ const applyStateAdjustments = ({
   return { days: adjustedDays, labels };
 };
 
+/**
+ * Type de date d'un produit (DLC ou DDM) d'après les règles intégrées : un
+ * plat cuit se garde toujours comme une DLC
+ */
+export const inferExpiryKind = ({
+  productName,
+  categorySlug,
+  categoryName,
+  preparationStatus,
+  manualExpiryKind,
+}: Pick<
+  ExpiryEstimationInput,
+  | 'productName'
+  | 'categorySlug'
+  | 'categoryName'
+  | 'preparationStatus'
+  | 'manualExpiryKind'
+>): ExpiryKind => {
+  if (manualExpiryKind) {
+    return manualExpiryKind;
+  }
+
+  if (preparationStatus === 'COOKED') {
+    return 'USE_BY';
+  }
+
+  const rule =
+    findRule(PRODUCT_SHELF_LIFE_RULES, productName ?? '') ??
+    findRule(
+      CATEGORY_SHELF_LIFE_RULES,
+      `${categorySlug ?? ''} ${categoryName ?? ''}`,
+    );
+
+  return rule?.expiryKind ?? 'USE_BY';
+};
+
 export const estimateExpiryDate = ({
+  productId,
   productName,
   categorySlug,
   categoryName,
   storageLocation,
+  storageGroup: resolvedStorageGroup,
   packageStatus,
   preparationStatus,
   purchaseDate,
   addedAt,
   manualExpiryDate,
+  manualExpiryKind,
+  userRules,
 }: ExpiryEstimationInput): ExpiryEstimationResult => {
+  const expiryKind = inferExpiryKind({
+    productName,
+    categorySlug,
+    categoryName,
+    preparationStatus,
+    manualExpiryKind,
+  });
+
   if (manualExpiryDate) {
     return {
       expiryDate: new Date(manualExpiryDate),
       source: 'MANUAL',
+      expiryKind,
       ruleLevel: 'manual',
     };
   }
@@ -153,22 +236,27 @@ export const estimateExpiryDate = ({
     return {
       expiryDate: null,
       source: 'ESTIMATED',
+      expiryKind,
       ruleLevel: 'storage',
     };
   }
 
-  const storageGroup = resolveStorageGroup(storageLocation);
+  const storageGroup =
+    resolvedStorageGroup ?? resolveStorageGroup(storageLocation);
+  const userRule = findUserRule(userRules ?? [], productId, productName);
   const productRule = findRule(PRODUCT_SHELF_LIFE_RULES, productName ?? '');
   const categoryRule = findRule(
     CATEGORY_SHELF_LIFE_RULES,
     `${categorySlug ?? ''} ${categoryName ?? ''}`,
   );
-  const matchedRule = productRule ?? categoryRule;
-  const ruleLevel: ExpiryRuleLevel = productRule
-    ? 'product'
-    : categoryRule
-      ? 'category'
-      : 'storage';
+  const matchedRule = userRule ?? productRule ?? categoryRule;
+  const ruleLevel: ExpiryRuleLevel = userRule
+    ? 'user'
+    : productRule
+      ? 'product'
+      : categoryRule
+        ? 'category'
+        : 'storage';
   const days =
     matchedRule?.daysByStorage[storageGroup] ??
     matchedRule?.defaultDays ??
@@ -176,7 +264,8 @@ export const estimateExpiryDate = ({
   const adjusted = applyStateAdjustments({
     days,
     storageGroup,
-    ruleId: matchedRule?.id,
+    // Une règle personnelle garde les plafonds « ouvert » de sa catégorie
+    ruleId: userRule ? categoryRule?.id : matchedRule?.id,
     packageStatus,
     preparationStatus,
   });
@@ -186,13 +275,16 @@ export const estimateExpiryDate = ({
   return {
     expiryDate: addDays(referenceDate, adjusted.days),
     source: 'ESTIMATED',
+    expiryKind,
     ruleId: matchedRule?.id,
     ruleLevel,
     storageGroup,
     durationDays: adjusted.days,
     referenceDate,
-    reason: matchedRule
-      ? `${matchedRule.label} + ${storageLocation || 'stockage par défaut'}${stateReason}`
-      : `stockage ${storageLocation || 'par défaut'}${stateReason}`,
+    reason: userRule
+      ? `${userRule.label} (règle personnelle) + ${storageLocation || 'stockage par défaut'}${stateReason}`
+      : matchedRule
+        ? `${matchedRule.label} + ${storageLocation || 'stockage par défaut'}${stateReason}`
+        : `stockage ${storageLocation || 'par défaut'}${stateReason}`,
   };
 };
@@ -0,0 +1,104 @@
+import { NotFoundException } from '@nestjs/common';
+import { resolveStorageGroup } from './expiry-estimation.service';
+import {
+  buildInventoryLabelUrl,
+  InventoryLabelService,
+} from './inventory-label.service';
+
+describe('InventoryLabelService', () => {
+  const prisma = {
+    inventoryItem: { findMany: jest.fn() },
+  };
+
+  const storageLocations = {
+    getStorageGroupResolver: jest.fn(),
+  };
+
+  const leftovers = {
+    id: '5b1f8f7e-7c1a-4c53-9d0b-2a6c1f3e8d10',
+    productId: 'product-1',
+    purchaseDate: new Date('2026-10-18T18:00:00.000Z'),
+    expiryDate: new Date('2026-10-21T18:00:00.000Z'),
+    preparationStatus: 'COOKED',
+    storageLocation: 'refrigerateur',
+    frozenAt: null,
+    Product: { name: 'Lasagnes' },
+  };
+
+  const frozenSoup = {
+    id: '8d9a3d8b-0c5d-4f1f-a5dd-c264e7e14b88',
+    productId: 'product-2',
+    purchaseDate: new Date('2026-09-01T10:00:00.000Z'),
+    expiryDate: new Date('2026-12-15T10:00:00.000Z'),
+    preparationStatus: 'COOKED',
+    storageLocation: 'congelateur',
+    frozenAt: new Date('2026-09-02T10:00:00.000Z'),
+    Product: { name: 'Soupe de potiron' },
+  };
+
+  let service: InventoryLabelService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new InventoryLabelService(prisma as any, storageLocations as any);
+    storageLocations.getStorageGroupResolver.mockResolvedValue(
+      resolveStorageGroup,
+    );
+  });
+
+  it('describes each lot with its cooking or freezing date and a deep link', async () => {
+    prisma.inventoryItem.findMany.mockResolvedValue([frozenSoup, leftovers]);
+
+    const labels = await service.getLabels('user-1', [
+      leftovers.id,
+      frozenSoup.id,
+    ]);
+
+    expect(prisma.inventoryItem.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: { in: [leftovers.id, frozenSoup.id] },
+          userId: 'user-1',
+          deletedAt: null,
+        },
+      }),
+    );
+    expect(labels).toEqual([
+      {
+        inventoryItemId: leftovers.id,
+        name: 'Lasagnes',
+        dateLabel: 'Cuisiné le',
+        date: leftovers.purchaseDate,
+        expiryDate: leftovers.expiryDate,
+        storageLocation: 'refrigerateur',
+        url: buildInventoryLabelUrl(leftovers.id),
+      },
+      expect.objectContaining({
+        inventoryItemId: frozenSoup.id,
+        dateLabel: 'Congelé le',
+        date: frozenSoup.frozenAt,
+      }),
+    ]);
+    expect(labels[0].url).toMatch(
+      new RegExp(`/app/inventory/${leftovers.id}\\?lot=${leftovers.id}$`),
+    );
+  });
+
+  it("rejects lots that do not belong to the user's inventory", async () => {
+    prisma.inventoryItem.findMany.mockResolvedValue([leftovers]);
+
+    await expect(
+      service.getLabels('user-1', [leftovers.id, frozenSoup.id]),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('renders a pdf sheet of labels', async () => {
+    prisma.inventoryItem.findMany.mockResolvedValue([leftovers]);
+
+    const file = await service.renderLabelSheet('user-1', [leftovers.id]);
+
+    expect(file.contentType).toBe('application/pdf');
+    expect(file.fileName).toMatch(/^etiquettes-\d{4}-\d{2}-\d{2}\.pdf$/);
+    expect(file.content.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
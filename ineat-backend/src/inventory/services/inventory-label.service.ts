@@ -0,0 +1,207 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import PDFDocument from 'pdfkit';
+import * as QRCode from 'qrcode';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StorageLocationService } from './storage-location.service';
+
+export const MAX_LABELS_PER_SHEET = 10;
+
+export interface InventoryLabel {
+  inventoryItemId: string;
+  name: string;
+  /** « Cuisiné le », « Congelé le » ou « Ajouté le » selon l'histoire du lot */
+  dateLabel: string;
+  date: Date;
+  expiryDate: Date | null;
+  storageLocation: string | null;
+  /** Lien ouvert par le QR code : la fiche du produit, ce lot mis en avant */
+  url: string;
+}
+
+export interface InventoryLabelFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * Planche A4 de 2 × 5 étiquettes de 105 × 57 mm (format courant des
+ * planches adhésives)
+ */
+const PAGE_MARGIN_TOP = 15;
+const LABEL_WIDTH = 297.6;
+const LABEL_HEIGHT = 161.6;
+const LABEL_COLUMNS = 2;
+const LABEL_PADDING = 12;
+const QR_CODE_SIZE = 110;
+
+@Injectable()
+export class InventoryLabelService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageLocations: StorageLocationService,
+  ) {}
+
+  /**
+   * Contenu des étiquettes des lots demandés, dans l'ordre de la demande
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemIds IDs des lots à étiqueter
+   */
+  async getLabels(
+    userId: string,
+    inventoryItemIds: string[],
+  ): Promise<InventoryLabel[]> {
+    const ids = [...new Set(inventoryItemIds)];
+    const items = await this.prisma.inventoryItem.findMany({
+      where: {
+        id: { in: ids },
+        userId,
+        deletedAt: null,
+      },
+      include: {
+        Product: {
+          select: { name: true },
+        },
+      },
+    });
+
+    if (items.length !== ids.length) {
+      throw new NotFoundException("Élément d'inventaire non trouvé");
+    }
+
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const itemsById = new Map(items.map((item: any) => [item.id, item]));
+
+    return ids.map((id) => {
+      const item: any = itemsById.get(id);
+      const frozenAt =
+        resolveGroup(item.storageLocation) === 'freezer' ? item.frozenAt : null;
+
+      return {
+        inventoryItemId: item.id,
+        name: item.Product.name,
+        ...(frozenAt
+          ? { dateLabel: 'Congelé le', date: frozenAt }
+          : item.preparationStatus === 'COOKED'
+            ? { dateLabel: 'Cuisiné le', date: item.purchaseDate }
+            : { dateLabel: 'Ajouté le', date: item.purchaseDate }),
+        expiryDate: item.expiryDate ?? null,
+        storageLocation: item.storageLocation ?? null,
+        url: buildInventoryLabelUrl(item.id),
+      };
+    });
+  }
+
+  /**
+   * Génère la planche PDF des étiquettes à imprimer
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemIds IDs des lots à étiqueter
+   */
+  async renderLabelSheet(
+    userId: string,
+    inventoryItemIds: string[],
+  ): Promise<InventoryLabelFile> {
+    const labels = await this.getLabels(userId, inventoryItemIds);
+    const qrCodes = await Promise.all(
+      labels.map((label) =>
+        QRCode.toBuffer(label.url, { margin: 1, width: QR_CODE_SIZE * 2 }),
+      ),
+    );
+
+    const document = new PDFDocument({ size: 'A4', margin: 0 });
+    const chunks: Buffer[] = [];
+    const content = new Promise<Buffer>((resolve, reject) => {
+      document.on('data', (chunk: Buffer) => chunks.push(chunk));
+      document.on('end', () => resolve(Buffer.concat(chunks)));
+      document.on('error', reject);
+    });
+
+    labels.forEach((label, index) => {
+      const position = index % MAX_LABELS_PER_SHEET;
+      if (index > 0 && position === 0) {
+        document.addPage({ size: 'A4', margin: 0 });
+      }
+
+      this.drawLabel(
+        document,
+        label,
+        qrCodes[index],
+        (position % LABEL_COLUMNS) * LABEL_WIDTH,
+        PAGE_MARGIN_TOP + Math.floor(position / LABEL_COLUMNS) * LABEL_HEIGHT,
+      );
+    });
+    document.end();
+
+    return {
+      fileName: `etiquettes-${new Date().toISOString().slice(0, 10)}.pdf`,
+      contentType: 'application/pdf',
+      content: await content,
+    };
+  }
+
+  private drawLabel(
+    document: PDFKit.PDFDocument,
+    label: InventoryLabel,
+    qrCode: Buffer,
+    x: number,
+    y: number,
+  ) {
+    const textX = x + LABEL_PADDING * 2 + QR_CODE_SIZE;
+    const textWidth = LABEL_WIDTH - QR_CODE_SIZE - LABEL_PADDING * 3;
+
+    document
+      .rect(x + 4, y + 4, LABEL_WIDTH - 8, LABEL_HEIGHT - 8)
+      .dash(3, { space: 3 })
+      .strokeColor('#9ca3af')
+      .stroke()
+      .undash();
+    document.image(
+      qrCode,
+      x + LABEL_PADDING,
+      y + (LABEL_HEIGHT - QR_CODE_SIZE) / 2,
+      { width: QR_CODE_SIZE },
+    );
+
+    document
+      .fillColor('#111827')
+      .font('Helvetica-Bold')
+      .fontSize(13)
+      .text(label.name, textX, y + LABEL_PADDING * 1.5, {
+        width: textWidth,
+        height: 48,
+        ellipsis: true,
+      })
+      .moveDown(0.5)
+      .font('Helvetica')
+      .fontSize(10)
+      .text(`${label.dateLabel} ${formatLabelDate(label.date)}`, {
+        width: textWidth,
+      })
+      .font('Helvetica-Bold')
+      .text(
+        label.expiryDate
+          ? `À consommer avant le ${formatLabelDate(label.expiryDate)}`
+          : 'Date limite non renseignée',
+        { width: textWidth },
+      );
+
+    if (label.storageLocation) {
+      document
+        .font('Helvetica')
+        .fillColor('#4b5563')
+        .text(label.storageLocation, { width: textWidth });
+    }
+  }
+}
+
+/**
+ * Lien profond vers le lot dans l'application. La fiche produit se retrouve
+ * à partir de n'importe lequel de ses lots ; le scanner d'InEat reconnaît ce
+ * lien et ouvre le lot avec ses actions.
+ */
+export const buildInventoryLabelUrl = (inventoryItemId: string): string =>
+  `${(process.env.FRONTEND_URL || 'https://ineat.store').replace(/\/$/, '')}/app/inventory/${inventoryItemId}?lot=${inventoryItemId}`;
+
+const formatLabelDate = (date: Date): string =>
+  new Intl.DateTimeFormat('fr-FR', { timeZone: 'Europe/Paris' }).format(date);
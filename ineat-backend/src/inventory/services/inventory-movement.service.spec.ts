@@ -0,0 +1,189 @@
+import { InventoryMovementService } from './inventory-movement.service';
+
+describe('InventoryMovementService', () => {
+  const prisma = {
+    $transaction: jest.fn(),
+    inventoryMovement: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+  let service: InventoryMovementService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new InventoryMovementService(prisma as any);
+    prisma.$transaction.mockImplementation((operations) =>
+      Promise.all(operations),
+    );
+  });
+
+  it('records signed movements with the provided transaction client', async () => {
+    const tx = { inventoryMovement: { createMany: jest.fn() } };
+
+    await service.record(
+      [
+        {
+          userId: 'user-1',
+          productId: 'product-1',
+          inventoryItemId: 'lot-1',
+          reason: 'CONSUMED',
+          quantityDelta: -2,
+          storageLocation: 'frigo',
+        },
+        {
+          userId: 'user-1',
+          productId: 'product-1',
+          reason: 'ADJUSTED',
+          quantityDelta: 0,
+        },
+      ],
+      tx as any,
+    );
+
+    expect(prisma.inventoryMovement.createMany).not.toHaveBeenCalled();
+    expect(tx.inventoryMovement.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          id: expect.any(String),
+          userId: 'user-1',
+          productId: 'product-1',
+          inventoryItemId: 'lot-1',
+          recipeId: null,
+          reason: 'CONSUMED',
+          quantityDelta: -2,
+          storageLocation: 'frigo',
+          notes: null,
+          occurredAt: expect.any(Date),
+        }),
+      ],
+    });
+  });
+
+  it('skips the write when no movement changes the stock', async () => {
+    await service.record({
+      userId: 'user-1',
+      productId: 'product-1',
+      reason: 'ADJUSTED',
+      quantityDelta: 0,
+    });
+
+    expect(prisma.inventoryMovement.createMany).not.toHaveBeenCalled();
+  });
+
+  it('filters movements by product, reason and period for the current user', async () => {
+    prisma.inventoryMovement.findMany.mockResolvedValue([
+      {
+        id: 'movement-1',
+        reason: 'COOKED',
+        quantityDelta: -1,
+        inventoryItemId: 'lot-1',
+        storageLocation: null,
+        notes: null,
+        occurredAt: new Date('2026-10-10T18:00:00.000Z'),
+        Product: { id: 'product-1', name: 'Pâtes' },
+        Recipe: { id: 'recipe-1', name: 'Pâtes au pesto' },
+      },
+    ]);
+    prisma.inventoryMovement.count.mockResolvedValue(26);
+
+    const result = await service.list('user-1', {
+      productId: 'product-1',
+      reason: 'COOKED',
+      from: '2026-10-01',
+      to: '2026-10-31',
+      page: 2,
+      pageSize: 25,
+    });
+
+    expect(prisma.inventoryMovement.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          productId: 'product-1',
+          reason: 'COOKED',
+          occurredAt: {
+            gte: new Date('2026-10-01'),
+            lte: new Date('2026-10-31'),
+          },
+        },
+        skip: 25,
+        take: 25,
+      }),
+    );
+    expect(result.data.items[0]).toEqual(
+      expect.objectContaining({
+        id: 'movement-1',
+        occurredAt: '2026-10-10T18:00:00.000Z',
+        recipe: { id: 'recipe-1', name: 'Pâtes au pesto' },
+      }),
+    );
+    expect(result.data.pagination).toEqual({
+      page: 2,
+      pageSize: 25,
+      totalItems: 26,
+      totalPages: 2,
+    });
+  });
+
+  it('aggregates wasted movements by month, category and reason', async () => {
+    jest.useFakeTimers().setSystemTime(new Date(2026, 9, 19, 12));
+    prisma.inventoryMovement.findMany.mockResolvedValue([
+      {
+        quantityDelta: -2,
+        valueLost: 3,
+        wasteReason: 'EXPIRED',
+        occurredAt: new Date(2026, 9, 2),
+        Product: { Category: { id: 'category-1', name: 'Produits laitiers' } },
+      },
+      {
+        quantityDelta: -1,
+        valueLost: 4.5,
+        wasteReason: 'SPOILED',
+        occurredAt: new Date(2026, 7, 15),
+        Product: { Category: { id: 'category-2', name: 'Viandes' } },
+      },
+      {
+        quantityDelta: -0.5,
+        valueLost: null,
+        wasteReason: 'EXPIRED',
+        occurredAt: new Date(2026, 9, 10),
+        Product: { Category: { id: 'category-1', name: 'Produits laitiers' } },
+      },
+    ]);
+
+    try {
+      const stats = await service.getWasteStats('user-1', 3);
+
+      expect(prisma.inventoryMovement.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-1',
+            reason: 'WASTED',
+            occurredAt: { gte: new Date(2026, 7, 1) },
+          },
+        }),
+      );
+      expect(stats).toEqual(
+        expect.objectContaining({ valueLost: 7.5, count: 3 }),
+      );
+      expect(stats.byMonth).toEqual([
+        { month: '2026-08', valueLost: 4.5, count: 1 },
+        { month: '2026-09', valueLost: 0, count: 0 },
+        { month: '2026-10', valueLost: 3, count: 2 },
+      ]);
+      expect(stats.byCategory.map((entry) => entry.categoryName)).toEqual([
+        'Viandes',
+        'Produits laitiers',
+      ]);
+      expect(stats.byReason.EXPIRED).toEqual({
+        valueLost: 3,
+        count: 2,
+      });
+      expect(stats.byReason.LEFTOVER.count).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,247 @@
+import { randomUUID } from 'crypto';
+import { Injectable } from '@nestjs/common';
+import {
+  InventoryMovementReason,
+  Prisma,
+  WasteReason,
+} from '../../../prisma/generated/prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { InventoryMovementQueryDto } from '../dto/inventory-movement-query.dto';
+
+export type InventoryMovementInput = {
+  userId: string;
+  productId: string;
+  inventoryItemId?: string | null;
+  recipeId?: string | null;
+  reason: InventoryMovementReason;
+  /** Variation signée : positive pour une entrée, négative pour une sortie. */
+  quantityDelta: number;
+  storageLocation?: string | null;
+  notes?: string | null;
+  wasteReason?: WasteReason | null;
+  /** Valeur d'achat perdue, renseignée pour les mouvements WASTED. */
+  valueLost?: number | null;
+};
+
+// Les quantités jetées mêlent kg, litres et pièces : seuls la valeur perdue
+// et le nombre de lots sont additionnés
+type WasteTotals = {
+  valueLost: number;
+  count: number;
+};
+
+export type WasteStats = WasteTotals & {
+  since: string;
+  byMonth: Array<WasteTotals & { month: string }>;
+  byCategory: Array<
+    WasteTotals & { categoryId: string | null; categoryName: string }
+  >;
+  byReason: Record<WasteReason, WasteTotals>;
+};
+
+type MovementClient = Pick<PrismaService, 'inventoryMovement'>;
+
+@Injectable()
+export class InventoryMovementService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async record(
+    inputs: InventoryMovementInput | InventoryMovementInput[],
+    client: MovementClient = this.prisma,
+  ): Promise<void> {
+    const movements = (Array.isArray(inputs) ? inputs : [inputs]).filter(
+      (input) =>
+        Number.isFinite(input.quantityDelta) && input.quantityDelta !== 0,
+    );
+
+    if (movements.length === 0) {
+      return;
+    }
+
+    const occurredAt = new Date();
+    await client.inventoryMovement.createMany({
+      data: movements.map((input) => ({
+        id: randomUUID(),
+        userId: input.userId,
+        productId: input.productId,
+        inventoryItemId: input.inventoryItemId ?? null,
+        recipeId: input.recipeId ?? null,
+        reason: input.reason,
+        quantityDelta: input.quantityDelta,
+        storageLocation: input.storageLocation ?? null,
+        notes: input.notes ?? null,
+        wasteReason: input.wasteReason ?? null,
+        valueLost: input.valueLost ?? null,
+        occurredAt,
+      })),
+    });
+  }
+
+  async list(userId: string, query: InventoryMovementQueryDto) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 25;
+    const where: Prisma.InventoryMovementWhereInput = {
+      userId,
+      productId: query.productId,
+      reason: query.reason,
+      occurredAt:
+        query.from || query.to
+          ? {
+              ...(query.from ? { gte: new Date(query.from) } : {}),
+              ...(query.to ? { lte: new Date(query.to) } : {}),
+            }
+          : undefined,
+    };
+    const [items, totalItems] = await this.prisma.$transaction([
+      this.prisma.inventoryMovement.findMany({
+        where,
+        orderBy: [{ occurredAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          Product: {
+            select: {
+              id: true,
+              name: true,
+              brand: true,
+              unitType: true,
+              imageUrl: true,
+            },
+          },
+          Recipe: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      }),
+      this.prisma.inventoryMovement.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        items: items.map((item) => ({
+          id: item.id,
+          reason: item.reason,
+          quantityDelta: item.quantityDelta,
+          inventoryItemId: item.inventoryItemId,
+          storageLocation: item.storageLocation,
+          notes: item.notes,
+          wasteReason: item.wasteReason,
+          valueLost: item.valueLost,
+          occurredAt: item.occurredAt.toISOString(),
+          product: item.Product,
+          recipe: item.Recipe,
+        })),
+        pagination: {
+          page,
+          pageSize,
+          totalItems,
+          totalPages: Math.max(1, Math.ceil(totalItems / pageSize)),
+        },
+      },
+    };
+  }
+
+  /**
+   * Agrège les pertes (mouvements WASTED) par mois, catégorie et motif
+   * sur les `months` derniers mois, mois en cours inclus.
+   */
+  async getWasteStats(userId: string, months = 6): Promise<WasteStats> {
+    const now = new Date();
+    const since = new Date(now.getFullYear(), now.getMonth() - months + 1, 1);
+    const movements = await this.prisma.inventoryMovement.findMany({
+      where: {
+        userId,
+        reason: 'WASTED',
+        occurredAt: { gte: since },
+      },
+      select: {
+        valueLost: true,
+        wasteReason: true,
+        occurredAt: true,
+        Product: {
+          select: {
+            Category: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+
+    const emptyTotals = (): WasteTotals => ({
+      valueLost: 0,
+      count: 0,
+    });
+    const addTo = (
+      totals: WasteTotals,
+      movement: (typeof movements)[number],
+    ) => {
+      totals.valueLost += movement.valueLost ?? 0;
+      totals.count += 1;
+    };
+
+    const total = emptyTotals();
+    const byMonth = new Map<string, WasteTotals>();
+    for (let offset = 0; offset < months; offset += 1) {
+      const month = new Date(since.getFullYear(), since.getMonth() + offset, 1);
+      byMonth.set(this.toMonthKey(month), emptyTotals());
+    }
+    const byCategory = new Map<
+      string,
+      WasteTotals & { categoryId: string | null; categoryName: string }
+    >();
+    const byReason = Object.fromEntries(
+      Object.values(WasteReason).map((reason) => [reason, emptyTotals()]),
+    ) as Record<WasteReason, WasteTotals>;
+
+    for (const movement of movements) {
+      addTo(total, movement);
+
+      const monthTotals = byMonth.get(this.toMonthKey(movement.occurredAt));
+      if (monthTotals) {
+        addTo(monthTotals, movement);
+      }
+
+      const category = movement.Product?.Category;
+      const categoryKey = category?.id ?? 'unknown';
+      if (!byCategory.has(categoryKey)) {
+        byCategory.set(categoryKey, {
+          categoryId: category?.id ?? null,
+          categoryName: category?.name ?? 'Sans catégorie',
+          ...emptyTotals(),
+        });
+      }
+      addTo(byCategory.get(categoryKey)!, movement);
+
+      addTo(byReason[movement.wasteReason ?? WasteReason.OTHER], movement);
+    }
+
+    const round = <T extends WasteTotals>(totals: T): T => ({
+      ...totals,
+      valueLost: Math.round(totals.valueLost * 100) / 100,
+    });
+
+    return {
+      since: since.toISOString(),
+      ...round(total),
+      byMonth: [...byMonth.entries()].map(([month, totals]) =>
+        round({ month, ...totals }),
+      ),
+      byCategory: [...byCategory.values()]
+        .map(round)
+        .sort((first, second) => second.valueLost - first.valueLost),
+      byReason: Object.fromEntries(
+        Object.entries(byReason).map(([reason, totals]) => [
+          reason,
+          round(totals),
+        ]),
+      ) as Record<WasteReason, WasteTotals>,
+    };
+  }
+
+  private toMonthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,189 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  StocktakeLotAction,
+  StocktakeReason,
+} from '../dto/inventory-stocktake.dto';
+import { InventoryStocktakeService } from './inventory-stocktake.service';
+
+describe('InventoryStocktakeService', () => {
+  const tx = {
+    inventoryItem: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const prisma = {
+    $transaction: jest.fn(),
+  };
+
+  const inventoryService = {
+    getUserInventory: jest.fn(),
+    refreshInventoryNotifications: jest.fn(),
+  };
+
+  const inventoryMovements = {
+    record: jest.fn(),
+  };
+
+  const lot = (id: string, quantity: number, purchasePrice: number | null) => ({
+    id,
+    productId: `product-${id}`,
+    quantity,
+    purchasePrice,
+    storageLocation: 'refrigerateur',
+    Product: { name: `Produit ${id}`, unitType: 'UNIT' },
+  });
+
+  const yogurts = lot('a5b2c3d4-0000-4000-8000-000000000001', 4, 2);
+  const milk = lot('a5b2c3d4-0000-4000-8000-000000000002', 2, 3);
+  const butter = lot('a5b2c3d4-0000-4000-8000-000000000003', 1, 2.5);
+  const cheese = lot('a5b2c3d4-0000-4000-8000-000000000004', 1, null);
+
+  let service: InventoryStocktakeService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new InventoryStocktakeService(
+      prisma as any,
+      inventoryService as any,
+      inventoryMovements as any,
+    );
+    prisma.$transaction.mockImplementation((callback) => callback(tx));
+    tx.inventoryItem.findMany.mockResolvedValue([
+      yogurts,
+      milk,
+      butter,
+      cheese,
+    ]);
+  });
+
+  it('applies corrections as reasoned adjustments and flags lots left unchecked', async () => {
+    const summary = await service.completeStocktake('user-1', {
+      storageLocation: 'refrigerateur',
+      lots: [
+        { inventoryItemId: yogurts.id, action: StocktakeLotAction.CONFIRM },
+        {
+          inventoryItemId: milk.id,
+          action: StocktakeLotAction.ADJUST,
+          countedQuantity: 1,
+          reason: StocktakeReason.UNTRACKED_CONSUMPTION,
+        },
+        {
+          inventoryItemId: butter.id,
+          action: StocktakeLotAction.REMOVE,
+          reason: StocktakeReason.UNTRACKED_WASTE,
+        },
+      ],
+    });
+
+    expect(tx.inventoryItem.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          storageLocation: 'refrigerateur',
+          deletedAt: null,
+        },
+      }),
+    );
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith({
+      where: { id: milk.id },
+      data: expect.objectContaining({
+        quantity: 1,
+        purchasePrice: 1.5,
+        stocktakeFlaggedAt: null,
+      }),
+    });
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith({
+      where: { id: butter.id },
+      data: expect.objectContaining({
+        deletedAt: expect.any(Date),
+        stocktakeFlaggedAt: null,
+      }),
+    });
+    expect(tx.inventoryItem.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: [cheese.id] } },
+      data: { stocktakeFlaggedAt: expect.any(Date) },
+    });
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          inventoryItemId: milk.id,
+          reason: 'ADJUSTED',
+          quantityDelta: -1,
+          notes: 'Inventaire : Consommé sans être noté',
+        }),
+        expect.objectContaining({
+          inventoryItemId: butter.id,
+          reason: 'ADJUSTED',
+          quantityDelta: -1,
+          notes: 'Inventaire : Jeté sans être noté',
+        }),
+      ],
+      tx,
+    );
+    expect(inventoryService.refreshInventoryNotifications).toHaveBeenCalledWith(
+      'user-1',
+    );
+    expect(summary).toEqual(
+      expect.objectContaining({
+        lotCount: 4,
+        confirmedCount: 1,
+        adjustedCount: 1,
+        removedCount: 1,
+        flaggedCount: 1,
+        driftRate: 67,
+        valueDrift: -4,
+        flaggedLots: [expect.objectContaining({ inventoryItemId: cheese.id })],
+      }),
+    );
+  });
+
+  it('counts an adjustment matching the recorded quantity as a confirmation', async () => {
+    const summary = await service.completeStocktake('user-1', {
+      storageLocation: 'refrigerateur',
+      lots: [
+        {
+          inventoryItemId: yogurts.id,
+          action: StocktakeLotAction.ADJUST,
+          countedQuantity: 4,
+          reason: StocktakeReason.COUNT_ERROR,
+        },
+      ],
+    });
+
+    expect(tx.inventoryItem.update).not.toHaveBeenCalled();
+    expect(inventoryMovements.record).toHaveBeenCalledWith([], tx);
+    expect(summary).toEqual(
+      expect.objectContaining({ confirmedCount: 1, driftRate: 0 }),
+    );
+  });
+
+  it('rejects lots checked twice or outside the storage location', async () => {
+    await expect(
+      service.completeStocktake('user-1', {
+        storageLocation: 'refrigerateur',
+        lots: [
+          { inventoryItemId: milk.id, action: StocktakeLotAction.CONFIRM },
+          { inventoryItemId: milk.id, action: StocktakeLotAction.CONFIRM },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    await expect(
+      service.completeStocktake('user-1', {
+        storageLocation: 'refrigerateur',
+        lots: [
+          {
+            inventoryItemId: 'a5b2c3d4-0000-4000-8000-000000000099',
+            action: StocktakeLotAction.CONFIRM,
+          },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    expect(tx.inventoryItem.update).not.toHaveBeenCalled();
+    expect(inventoryMovements.record).not.toHaveBeenCalled();
+  });
+});
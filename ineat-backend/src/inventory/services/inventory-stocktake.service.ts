@@ -0,0 +1,265 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  CompleteStocktakeDto,
+  STOCKTAKE_REASON_LABELS,
+  StocktakeLotAction,
+  StocktakeReason,
+} from '../dto/inventory-stocktake.dto';
+import { InventoryService } from './inventory.service';
+import {
+  InventoryMovementInput,
+  InventoryMovementService,
+} from './inventory-movement.service';
+import { roundQuantity } from './unit-conversion.service';
+
+export interface StocktakeAdjustment {
+  inventoryItemId: string;
+  productId: string;
+  productName: string;
+  unitType: string;
+  action: StocktakeLotAction.ADJUST | StocktakeLotAction.REMOVE;
+  expectedQuantity: number;
+  countedQuantity: number;
+  quantityDelta: number;
+  /** Valeur d'achat correspondant à l'écart, au prorata du lot */
+  valueDelta: number;
+  reason: StocktakeReason;
+}
+
+export interface StocktakeFlaggedLot {
+  inventoryItemId: string;
+  productName: string;
+  quantity: number;
+  unitType: string;
+}
+
+export interface StocktakeSummary {
+  storageLocation: string;
+  completedAt: Date;
+  lotCount: number;
+  confirmedCount: number;
+  adjustedCount: number;
+  removedCount: number;
+  flaggedCount: number;
+  /** Part des lots vérifiés qui ne correspondaient pas au stock réel (%) */
+  driftRate: number;
+  /** Somme des écarts de valeur : négative quand du stock avait disparu */
+  valueDrift: number;
+  adjustments: StocktakeAdjustment[];
+  flaggedLots: StocktakeFlaggedLot[];
+}
+
+@Injectable()
+export class InventoryStocktakeService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: InventoryService,
+    private readonly inventoryMovements: InventoryMovementService,
+  ) {}
+
+  /**
+   * Feuille d'inventaire d'un lieu : les produits du lieu avec leurs lots
+   */
+  async getStocktakeSheet(userId: string, storageLocation: string) {
+    return (await this.inventoryService.getUserInventory(userId, {
+      storageLocation,
+    })) as any[];
+  }
+
+  /**
+   * Clôt l'inventaire d'un lieu : applique les corrections comme des
+   * ajustements motivés et signale les lots qui n'ont pas été confirmés
+   * @param userId ID de l'utilisateur
+   * @param stocktakeDto Lots vérifiés et corrections
+   */
+  async completeStocktake(
+    userId: string,
+    stocktakeDto: CompleteStocktakeDto,
+  ): Promise<StocktakeSummary> {
+    const checkedIds = stocktakeDto.lots.map((lot) => lot.inventoryItemId);
+    if (new Set(checkedIds).size !== checkedIds.length) {
+      throw new BadRequestException(
+        "Un lot ne peut être vérifié qu'une fois par inventaire",
+      );
+    }
+
+    // Lots relus dans la transaction : une consommation concurrente n'est
+    // pas écrasée par les quantités comptées
+    const { completedAt, items, confirmedIds, adjustments, flaggedItems } =
+      await this.prisma.$transaction(async (tx: any) => {
+        const items = await tx.inventoryItem.findMany({
+          where: {
+            userId,
+            storageLocation: stocktakeDto.storageLocation,
+            deletedAt: null,
+          },
+          include: {
+            Product: {
+              select: { name: true, unitType: true },
+            },
+          },
+        });
+        const itemsById = new Map(items.map((item: any) => [item.id, item]));
+
+        if (checkedIds.some((id) => !itemsById.has(id))) {
+          throw new NotFoundException(
+            'Lot introuvable dans ce lieu de stockage',
+          );
+        }
+
+        const completedAt = new Date();
+        const confirmedIds: string[] = [];
+        const adjustments: StocktakeAdjustment[] = [];
+        const movements: InventoryMovementInput[] = [];
+
+        for (const lot of stocktakeDto.lots) {
+          const item: any = itemsById.get(lot.inventoryItemId);
+          const countedQuantity =
+            lot.action === StocktakeLotAction.REMOVE
+              ? 0
+              : lot.action === StocktakeLotAction.ADJUST
+                ? roundQuantity(lot.countedQuantity!)
+                : item.quantity;
+
+          if (countedQuantity === item.quantity) {
+            confirmedIds.push(item.id);
+            continue;
+          }
+
+          const quantityDelta = roundQuantity(countedQuantity - item.quantity);
+          adjustments.push({
+            inventoryItemId: item.id,
+            productId: item.productId,
+            productName: item.Product.name,
+            unitType: item.Product.unitType,
+            action:
+              countedQuantity > 0
+                ? StocktakeLotAction.ADJUST
+                : StocktakeLotAction.REMOVE,
+            expectedQuantity: item.quantity,
+            countedQuantity,
+            quantityDelta,
+            valueDelta: this.calculateValueDelta(item, quantityDelta),
+            reason: lot.reason!,
+          });
+          movements.push({
+            userId,
+            productId: item.productId,
+            inventoryItemId: item.id,
+            reason: 'ADJUSTED',
+            quantityDelta,
+            storageLocation: item.storageLocation,
+            notes: [
+              `Inventaire : ${STOCKTAKE_REASON_LABELS[lot.reason!]}`,
+              stocktakeDto.notes,
+            ]
+              .filter(Boolean)
+              .join(' - '),
+          });
+        }
+
+        const checked = new Set(checkedIds);
+        const flaggedItems = items.filter((item: any) => !checked.has(item.id));
+
+        for (const adjustment of adjustments) {
+          // Un lot retiré reste restaurable, comme après une suppression
+          if (adjustment.action === StocktakeLotAction.REMOVE) {
+            await tx.inventoryItem.update({
+              where: { id: adjustment.inventoryItemId },
+              data: {
+                deletedAt: completedAt,
+                stocktakeFlaggedAt: null,
+                updatedAt: completedAt,
+              },
+            });
+            continue;
+          }
+
+          const item: any = itemsById.get(adjustment.inventoryItemId);
+          await tx.inventoryItem.update({
+            where: { id: adjustment.inventoryItemId },
+            data: {
+              quantity: adjustment.countedQuantity,
+              purchasePrice:
+                item.purchasePrice !== null && item.purchasePrice !== undefined
+                  ? Math.max(0, item.purchasePrice + adjustment.valueDelta)
+                  : item.purchasePrice,
+              stocktakeFlaggedAt: null,
+              updatedAt: completedAt,
+            },
+          });
+        }
+
+        if (confirmedIds.length > 0) {
+          await tx.inventoryItem.updateMany({
+            where: { id: { in: confirmedIds } },
+            data: { stocktakeFlaggedAt: null },
+          });
+        }
+
+        if (flaggedItems.length > 0) {
+          await tx.inventoryItem.updateMany({
+            where: { id: { in: flaggedItems.map((item: any) => item.id) } },
+            data: { stocktakeFlaggedAt: completedAt },
+          });
+        }
+
+        await this.inventoryMovements.record(movements, tx);
+
+        return { completedAt, items, confirmedIds, adjustments, flaggedItems };
+      });
+
+    await this.inventoryService.refreshInventoryNotifications(userId);
+
+    const removedCount = adjustments.filter(
+      (adjustment) => adjustment.action === StocktakeLotAction.REMOVE,
+    ).length;
+
+    return {
+      storageLocation: stocktakeDto.storageLocation,
+      completedAt,
+      lotCount: items.length,
+      confirmedCount: confirmedIds.length,
+      adjustedCount: adjustments.length - removedCount,
+      removedCount,
+      flaggedCount: flaggedItems.length,
+      driftRate:
+        checkedIds.length > 0
+          ? Math.round((adjustments.length / checkedIds.length) * 100)
+          : 0,
+      valueDrift:
+        Math.round(
+          adjustments.reduce(
+            (total, adjustment) => total + adjustment.valueDelta,
+            0,
+          ) * 100,
+        ) / 100,
+      adjustments,
+      flaggedLots: flaggedItems.map((item: any) => ({
+        inventoryItemId: item.id,
+        productName: item.Product.name,
+        quantity: item.quantity,
+        unitType: item.Product.unitType,
+      })),
+    };
+  }
+
+  private calculateValueDelta(
+    item: { quantity: number; purchasePrice?: number | null },
+    quantityDelta: number,
+  ): number {
+    if (!item.purchasePrice || item.quantity <= 0) {
+      return 0;
+    }
+
+    return (
+      Math.round(((item.purchasePrice * quantityDelta) / item.quantity) * 100) /
+      100
+    );
+  }
+}
@@ -0,0 +1,206 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { InventoryTransferFormat } from '../dto/inventory-transfer.dto';
+import {
+  InventoryTransferService,
+  parseCsv,
+} from './inventory-transfer.service';
+
+describe('InventoryTransferService', () => {
+  const prisma = {
+    inventoryItem: { findMany: jest.fn() },
+  };
+
+  const inventoryService = {
+    findProductByBarcode: jest.fn(),
+    validateProductData: jest.fn(),
+    validateQuickAddData: jest.fn(),
+    addManualProduct: jest.fn(),
+    addExistingProductToInventory: jest.fn(),
+  };
+
+  const milk = {
+    id: '5b1f8f7e-7c1a-4c53-9d0b-2a6c1f3e8d10',
+    name: 'Lait demi-écrémé',
+    barcode: '3263859672014',
+  };
+
+  let service: InventoryTransferService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new InventoryTransferService(
+      prisma as any,
+      inventoryService as any,
+    );
+    inventoryService.findProductByBarcode.mockImplementation(
+      async (barcode: string) => (barcode === milk.barcode ? milk : null),
+    );
+    inventoryService.validateProductData.mockResolvedValue(undefined);
+    inventoryService.validateQuickAddData.mockResolvedValue(undefined);
+  });
+
+  it('exports one csv line per lot and escapes separators', async () => {
+    prisma.inventoryItem.findMany.mockResolvedValue([
+      {
+        quantity: 2,
+        purchaseDate: new Date('2026-10-10T00:00:00.000Z'),
+        expiryDate: new Date('2026-10-24T00:00:00.000Z'),
+        storageLocation: 'refrigerateur',
+        purchasePrice: 1.89,
+        notes: 'Promo, lot de 2',
+        Product: {
+          name: 'Lait demi-écrémé',
+          brand: null,
+          barcode: milk.barcode,
+          unitType: 'L',
+          Category: { slug: 'produits-laitiers' },
+        },
+      },
+    ]);
+
+    const file = await service.exportInventory('user-1');
+
+    expect(file.contentType).toBe('text/csv; charset=utf-8');
+    expect(file.fileName).toMatch(/^inventaire-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(file.content.split('\n')).toEqual([
+      'product,brand,barcode,category,quantity,unit,purchaseDate,expiryDate,storageLocation,purchasePrice,notes',
+      'Lait demi-écrémé,,3263859672014,produits-laitiers,2,L,2026-10-10,2026-10-24,refrigerateur,1.89,"Promo, lot de 2"',
+      '',
+    ]);
+  });
+
+  it('neutralises spreadsheet formulas on export and restores them on import', async () => {
+    prisma.inventoryItem.findMany.mockResolvedValue([
+      {
+        quantity: 1,
+        purchaseDate: new Date('2026-10-10T00:00:00.000Z'),
+        expiryDate: null,
+        storageLocation: null,
+        purchasePrice: null,
+        notes: '-20% en caisse',
+        Product: {
+          name: '=HYPERLINK("http://example.com")',
+          brand: '@Marque',
+          barcode: null,
+          unitType: 'UNIT',
+          Category: { slug: 'epicerie' },
+        },
+      },
+    ]);
+
+    const file = await service.exportInventory('user-1');
+
+    expect(file.content.split('\n')[1]).toBe(
+      `"'=HYPERLINK(""http://example.com"")",'@Marque,,epicerie,1,UNIT,2026-10-10,,,,'-20% en caisse`,
+    );
+
+    const result = await service.importInventory('user-1', {
+      format: InventoryTransferFormat.CSV,
+      content: file.content,
+      dryRun: true,
+    });
+
+    expect(result.rows[0]).toMatchObject({
+      product: '=HYPERLINK("http://example.com")',
+      status: 'valid',
+    });
+  });
+
+  it('previews a semicolon csv without touching the inventory', async () => {
+    const content = [
+      'product;barcode;category;quantity;unit;purchaseDate;expiryDate',
+      ';3263859672014;;1,5;;2026-10-10;2026-10-20',
+      'Pâtes;;epicerie;2;;2026-10-10;',
+    ].join('\n');
+
+    const result = await service.importInventory('user-1', {
+      format: InventoryTransferFormat.CSV,
+      content,
+      dryRun: true,
+    });
+
+    expect(result.summary).toEqual({
+      total: 2,
+      valid: 1,
+      invalid: 1,
+      imported: 0,
+      failed: 0,
+    });
+    expect(result.rows[0]).toMatchObject({
+      row: 1,
+      product: 'Lait demi-écrémé',
+      action: 'add_existing',
+      status: 'valid',
+      errors: [],
+    });
+    expect(result.rows[1]).toMatchObject({
+      row: 2,
+      product: 'Pâtes',
+      action: 'create_product',
+      status: 'invalid',
+      errors: ["Le type d'unité doit être valide (KG, G, L, ML, UNIT)"],
+    });
+    expect(inventoryService.addManualProduct).not.toHaveBeenCalled();
+    expect(
+      inventoryService.addExistingProductToInventory,
+    ).not.toHaveBeenCalled();
+  });
+
+  it('imports valid json rows and reports business rule errors per row', async () => {
+    inventoryService.validateProductData.mockRejectedValueOnce(
+      new BadRequestException('La catégorie "inconnue" n\'existe pas'),
+    );
+    inventoryService.addExistingProductToInventory.mockResolvedValue({
+      id: 'item-1',
+    });
+    inventoryService.addManualProduct.mockRejectedValue(
+      new ConflictException('Un produit avec le code-barres existe déjà'),
+    );
+
+    const result = await service.importInventory('user-1', {
+      format: InventoryTransferFormat.JSON,
+      content: JSON.stringify([
+        { product: 'Mystère', category: 'inconnue', quantity: 1, unit: 'unit' },
+        { barcode: 3263859672014, quantity: 2, purchaseDate: '2026-10-10' },
+        { product: 'Riz', category: 'epicerie', quantity: 1, unit: 'KG' },
+      ]),
+    });
+
+    expect(result.rows.map((row) => row.status)).toEqual([
+      'invalid',
+      'imported',
+      'failed',
+    ]);
+    expect(result.rows[0].errors).toEqual([
+      'La catégorie "inconnue" n\'existe pas',
+    ]);
+    expect(result.rows[1].inventoryItemId).toBe('item-1');
+    expect(result.rows[2].errors).toEqual([
+      'Un produit avec le code-barres existe déjà',
+    ]);
+    expect(inventoryService.addExistingProductToInventory).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({
+        productId: milk.id,
+        quantity: 2,
+        purchaseDate: '2026-10-10',
+      }),
+    );
+  });
+
+  it('rejects a csv with unknown columns', async () => {
+    await expect(
+      service.importInventory('user-1', {
+        format: InventoryTransferFormat.CSV,
+        content: 'nom,quantite\nLait,2',
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('parses quoted cells containing separators and line breaks', () => {
+    expect(parseCsv('a,b\n"x, ""y""","ligne 1\nligne 2"\r\n')).toEqual([
+      ['a', 'b'],
+      ['x, "y"', 'ligne 1\nligne 2'],
+    ]);
+  });
+});
@@ -0,0 +1,498 @@
+import { BadRequestException, HttpException, Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AddManualProductDto, QuickAddProductDto } from '../../DTOs';
+import {
+  ImportInventoryDto,
+  InventoryTransferFormat,
+} from '../dto/inventory-transfer.dto';
+import { InventoryService } from './inventory.service';
+
+export const INVENTORY_TRANSFER_COLUMNS = [
+  'product',
+  'brand',
+  'barcode',
+  'category',
+  'quantity',
+  'unit',
+  'purchaseDate',
+  'expiryDate',
+  'storageLocation',
+  'purchasePrice',
+  'notes',
+] as const;
+
+export type InventoryTransferColumn =
+  (typeof INVENTORY_TRANSFER_COLUMNS)[number];
+
+export type InventoryTransferRow = Record<
+  InventoryTransferColumn,
+  string | number | null
+>;
+
+export const MAX_IMPORT_ROWS = 500;
+
+export interface InventoryExportFile {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+export type InventoryImportRowStatus =
+  | 'valid'
+  | 'invalid'
+  | 'imported'
+  | 'failed';
+
+export interface InventoryImportRowResult {
+  row: number;
+  product: string | null;
+  barcode: string | null;
+  action: 'add_existing' | 'create_product';
+  status: InventoryImportRowStatus;
+  errors: string[];
+  inventoryItemId?: string;
+}
+
+export interface InventoryImportResult {
+  dryRun: boolean;
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    imported: number;
+    failed: number;
+  };
+  rows: InventoryImportRowResult[];
+}
+
+type PreparedImportRow =
+  | {
+      action: 'add_existing';
+      dto: QuickAddProductDto;
+      productName: string;
+      errors: string[];
+    }
+  | {
+      action: 'create_product';
+      dto: AddManualProductDto;
+      productName: string | null;
+      errors: string[];
+    };
+
+// Un tableur évalue comme formule une cellule commençant par l'un de ces
+// caractères : le texte exporté est préfixé d'une apostrophe
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Échappe une valeur pour une cellule CSV (RFC 4180), sans formule possible
+ */
+function toCsvCell(value: string | number | null): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text =
+    typeof value === 'string' && CSV_FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Retire l'apostrophe ajoutée à l'export devant une cellule de type formule
+ */
+function fromCsvCell(cell: string): string {
+  return cell.startsWith("'") && CSV_FORMULA_PREFIX.test(cell.slice(1))
+    ? cell.slice(1)
+    : cell;
+}
+
+export function serializeInventoryCsv(rows: InventoryTransferRow[]): string {
+  const lines = [
+    INVENTORY_TRANSFER_COLUMNS.join(','),
+    ...rows.map((row) =>
+      INVENTORY_TRANSFER_COLUMNS.map((column) => toCsvCell(row[column])).join(
+        ',',
+      ),
+    ),
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Découpe un CSV en lignes de cellules. Gère les guillemets, les retours à la
+ * ligne dans une cellule et le séparateur point-virgule des tableurs français.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter =
+    firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new BadRequestException('CSV invalide : guillemet non fermé');
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+@Injectable()
+export class InventoryTransferService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * Exporte tous les lots de l'inventaire au format CSV ou JSON
+   */
+  async exportInventory(
+    userId: string,
+    format: InventoryTransferFormat = InventoryTransferFormat.CSV,
+  ): Promise<InventoryExportFile> {
+    const items = await this.prisma.inventoryItem.findMany({
+      where: { userId, deletedAt: null },
+      include: {
+        Product: {
+          include: {
+            Category: true,
+          },
+        },
+      },
+      orderBy: [{ Product: { name: 'asc' } }, { expiryDate: 'asc' }],
+    });
+
+    const rows: InventoryTransferRow[] = items.map((item: any) => ({
+      product: item.Product.name,
+      brand: item.Product.brand ?? null,
+      barcode: item.Product.barcode ?? null,
+      category: item.Product.Category?.slug ?? null,
+      quantity: item.quantity,
+      unit: item.Product.unitType,
+      purchaseDate: this.formatDate(item.purchaseDate),
+      expiryDate: this.formatDate(item.expiryDate),
+      storageLocation: item.storageLocation ?? null,
+      purchasePrice: item.purchasePrice ?? null,
+      notes: item.notes ?? null,
+    }));
+
+    const fileName = `inventaire-${this.formatDate(new Date())}.${format}`;
+
+    if (format === InventoryTransferFormat.JSON) {
+      return {
+        fileName,
+        contentType: 'application/json; charset=utf-8',
+        content: JSON.stringify(rows, null, 2),
+      };
+    }
+
+    return {
+      fileName,
+      contentType: 'text/csv; charset=utf-8',
+      content: serializeInventoryCsv(rows),
+    };
+  }
+
+  /**
+   * Importe des lots depuis un CSV ou un JSON. Chaque ligne est validée avec
+   * les règles de l'ajout manuel, ou de l'ajout rapide quand son code-barres
+   * correspond à un produit existant. En dry-run, rien n'est écrit.
+   */
+  async importInventory(
+    userId: string,
+    dto: ImportInventoryDto,
+  ): Promise<InventoryImportResult> {
+    const records = this.parseRecords(dto.format, dto.content);
+    const dryRun = dto.dryRun ?? false;
+    const rows: InventoryImportRowResult[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const prepared = await this.prepareRow(record);
+      const result: InventoryImportRowResult = {
+        row: index + 1,
+        product: prepared.productName,
+        barcode: this.readText(record.barcode),
+        action: prepared.action,
+        status: prepared.errors.length > 0 ? 'invalid' : 'valid',
+        errors: prepared.errors,
+      };
+
+      if (!dryRun && result.status === 'valid') {
+        try {
+          const created =
+            prepared.action === 'add_existing'
+              ? await this.inventoryService.addExistingProductToInventory(
+                  userId,
+                  prepared.dto,
+                )
+              : await this.inventoryService.addManualProduct(
+                  userId,
+                  prepared.dto,
+                );
+          result.status = 'imported';
+          result.inventoryItemId = created.id;
+        } catch (error) {
+          result.status = 'failed';
+          result.errors = this.getErrorMessages(error);
+        }
+      }
+
+      rows.push(result);
+    }
+
+    const count = (status: InventoryImportRowStatus) =>
+      rows.filter((row) => row.status === status).length;
+
+    return {
+      dryRun,
+      summary: {
+        total: rows.length,
+        valid: count('valid'),
+        invalid: count('invalid'),
+        imported: count('imported'),
+        failed: count('failed'),
+      },
+      rows,
+    };
+  }
+
+  private parseRecords(
+    format: InventoryTransferFormat,
+    content: string,
+  ): Partial<Record<InventoryTransferColumn, unknown>>[] {
+    const records =
+      format === InventoryTransferFormat.JSON
+        ? this.parseJsonRecords(content)
+        : this.parseCsvRecords(content);
+
+    if (records.length === 0) {
+      throw new BadRequestException('Le fichier ne contient aucune ligne');
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `Le fichier ne peut pas contenir plus de ${MAX_IMPORT_ROWS} lignes`,
+      );
+    }
+
+    return records;
+  }
+
+  private parseJsonRecords(
+    content: string,
+  ): Partial<Record<InventoryTransferColumn, unknown>>[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new BadRequestException('JSON invalide');
+    }
+
+    if (
+      !Array.isArray(parsed) ||
+      parsed.some((entry) => !entry || typeof entry !== 'object')
+    ) {
+      throw new BadRequestException(
+        'Le JSON doit être un tableau de lignes (objets)',
+      );
+    }
+
+    return parsed;
+  }
+
+  private parseCsvRecords(
+    content: string,
+  ): Partial<Record<InventoryTransferColumn, unknown>>[] {
+    const [header, ...lines] = parseCsv(content);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map((name) => name.trim());
+    const unknownColumns = columns.filter(
+      (name) =>
+        !INVENTORY_TRANSFER_COLUMNS.includes(name as InventoryTransferColumn),
+    );
+    if (unknownColumns.length > 0) {
+      throw new BadRequestException(
+        `Colonnes inconnues : ${unknownColumns.join(', ')}. Colonnes attendues : ${INVENTORY_TRANSFER_COLUMNS.join(', ')}`,
+      );
+    }
+
+    return lines.map((cells) =>
+      Object.fromEntries(
+        columns.map((column, index) => [
+          column,
+          fromCsvCell(cells[index] ?? ''),
+        ]),
+      ),
+    );
+  }
+
+  private async prepareRow(
+    record: Partial<Record<InventoryTransferColumn, unknown>>,
+  ): Promise<PreparedImportRow> {
+    const name = this.readText(record.product);
+    const barcode = this.readText(record.barcode);
+    const lotData = {
+      quantity: this.readNumber(record.quantity),
+      purchaseDate:
+        this.readText(record.purchaseDate) ?? this.formatDate(new Date()),
+      expiryDate: this.readText(record.expiryDate) ?? undefined,
+      purchasePrice: this.readNumber(record.purchasePrice),
+      storageLocation: this.readText(record.storageLocation) ?? undefined,
+      notes: this.readText(record.notes) ?? undefined,
+    };
+
+    const existingProduct = barcode
+      ? await this.inventoryService.findProductByBarcode(barcode)
+      : null;
+
+    if (existingProduct) {
+      const dto = plainToInstance(QuickAddProductDto, {
+        productId: existingProduct.id,
+        ...lotData,
+      });
+      const errors = await this.validateDto(dto, () =>
+        this.inventoryService.validateQuickAddData(dto),
+      );
+
+      return {
+        action: 'add_existing',
+        dto,
+        productName: existingProduct.name,
+        errors,
+      };
+    }
+
+    const dto = plainToInstance(AddManualProductDto, {
+      name,
+      brand: this.readText(record.brand) ?? undefined,
+      barcode: barcode ?? undefined,
+      category: this.readText(record.category),
+      unitType: this.readText(record.unit)?.toUpperCase(),
+      ...lotData,
+    });
+    const errors = await this.validateDto(dto, () =>
+      this.inventoryService.validateProductData(dto),
+    );
+
+    return { action: 'create_product', dto, productName: name, errors };
+  }
+
+  /**
+   * Applique les décorateurs class-validator du DTO puis, s'ils passent, les
+   * règles métier de l'inventaire (dates, catégorie, code-barres…)
+   */
+  private async validateDto(
+    dto: object,
+    validateBusinessRules: () => Promise<void>,
+  ): Promise<string[]> {
+    const validationErrors = await validate(dto, { whitelist: true });
+    if (validationErrors.length > 0) {
+      return this.flattenValidationErrors(validationErrors);
+    }
+
+    try {
+      await validateBusinessRules();
+      return [];
+    } catch (error) {
+      return this.getErrorMessages(error);
+    }
+  }
+
+  private flattenValidationErrors(errors: ValidationError[]): string[] {
+    return errors.flatMap((error) => [
+      ...Object.values(error.constraints ?? {}),
+      ...this.flattenValidationErrors(error.children ?? []),
+    ]);
+  }
+
+  private getErrorMessages(error: unknown): string[] {
+    if (error instanceof HttpException) {
+      const response = error.getResponse();
+      const message =
+        typeof response === 'string' ? response : (response as any).message;
+      return Array.isArray(message) ? message : [String(message)];
+    }
+
+    return ["Impossible d'ajouter cette ligne à l'inventaire"];
+  }
+
+  private readText(value: unknown): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    const text = String(value).trim();
+    return text === '' ? null : text;
+  }
+
+  /**
+   * Lit un nombre en acceptant la virgule décimale ; une valeur illisible est
+   * renvoyée telle quelle pour que le DTO produise son message d'erreur
+   */
+  private readNumber(value: unknown): number | string | undefined {
+    if (typeof value === 'number') {
+      return value;
+    }
+
+    const text = this.readText(value);
+    if (text === null) {
+      return undefined;
+    }
+
+    const parsed = Number(text.replace(',', '.'));
+    return Number.isNaN(parsed) ? text : parsed;
+  }
+
+  private formatDate(date: Date | null): string | null {
+    return date ? date.toISOString().split('T')[0] : null;
+  }
+}
@@ -1,5 +1,6 @@
 import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { InventoryService } from './inventory.service';
+import { resolveStorageGroup } from './expiry-estimation.service';
 
 describe('InventoryService', () => {
   const tx = {
@@ -17,7 +18,13 @@ describe('InventoryService', () => {
       findMany: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    productPieceWeight: {
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
     },
   };
 
@@ -49,6 +56,29 @@ describe('InventoryService', () => {
     createExpenseFromProduct: jest.fn(),
   };
 
+  const inventoryMovements = {
+    record: jest.fn(),
+    list: jest.fn(),
+    getWasteStats: jest.fn(),
+  };
+
+  const shoppingList = {
+    addOutOfStockProduct: jest.fn(),
+  };
+
+  const storageLocations = {
+    getStorageGroupResolver: jest.fn(),
+    findStorageLocationByGroup: jest.fn(),
+  };
+
+  const shelfLifeOverrides = {
+    getUserRules: jest.fn(),
+  };
+
+  const productPrices = {
+    record: jest.fn(),
+  };
+
   let service: InventoryService;
 
   const category = {
@@ -93,7 +123,17 @@ describe('InventoryService', () => {
       prisma as any,
       budgetService as any,
       expenseService as any,
+      inventoryMovements as any,
+      shoppingList as any,
+      storageLocations as any,
+      shelfLifeOverrides as any,
+      productPrices as any,
+    );
+    storageLocations.getStorageGroupResolver.mockResolvedValue(
+      resolveStorageGroup,
     );
+    shelfLifeOverrides.getUserRules.mockResolvedValue([]);
+    storageLocations.findStorageLocationByGroup.mockResolvedValue(null);
     prisma.$transaction.mockImplementation((callback) => callback(tx));
     prisma.category.findFirst.mockResolvedValue(category);
     tx.category.findFirst.mockResolvedValue(category);
@@ -174,6 +214,17 @@ describe('InventoryService', () => {
         }),
       }),
     );
+    expect(productPrices.record).toHaveBeenCalledWith(
+      {
+        userId: 'user-1',
+        productId: 'product-1',
+        source: 'MANUAL',
+        quantity: 2,
+        totalPrice: 4.5,
+        purchasedAt: new Date('2026-05-01'),
+      },
+      tx,
+    );
     expect(result).toEqual(
       expect.objectContaining({
         id: expect.any(String),
@@ -290,6 +341,15 @@ describe('InventoryService', () => {
         }),
       }),
     );
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        productId: 'product-1',
+        reason: 'ADDED',
+        quantityDelta: 1,
+      }),
+      tx,
+    );
     expect(result.name).toBe('Pommes');
   });
 
@@ -334,6 +394,72 @@ describe('InventoryService', () => {
     ).rejects.toBeInstanceOf(NotFoundException);
   });
 
+  it('adds a whole scan session in one transaction and books expenses afterwards', async () => {
+    tx.product.findUnique.mockImplementation(({ where }) =>
+      Promise.resolve(where.id === 'product-1' ? product : null),
+    );
+
+    const result = await service.addProductsInBulk('user-1', {
+      items: [
+        {
+          productId: 'product-1',
+          quantity: 2,
+          purchaseDate: '2026-05-01',
+          storageLocation: 'frigo',
+          purchasePrice: 3.2,
+        },
+      ],
+      newProducts: [
+        {
+          name: 'Pommes',
+          barcode: '3017620422003',
+          category: 'fruits',
+          quantity: 1,
+          unitType: 'KG',
+          purchaseDate: '2026-05-01',
+        },
+      ],
+    } as any);
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(tx.product.create).toHaveBeenCalledTimes(1);
+    expect(tx.inventoryItem.create).toHaveBeenCalledTimes(2);
+    expect(inventoryMovements.record).toHaveBeenCalledTimes(2);
+    expect(expenseService.createExpenseFromProduct).toHaveBeenCalledTimes(1);
+    expect(expenseService.createExpenseFromProduct).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ amount: 3.2, source: 'Session de scan' }),
+      expect.any(Object),
+    );
+    expect(result).toEqual(
+      expect.objectContaining({ addedCount: 2, expensesCreated: 0 }),
+    );
+    expect(result.items[0]).toEqual(
+      expect.objectContaining({
+        name: 'Pommes',
+        quantity: 2,
+        expiryDateSource: 'ESTIMATED',
+      }),
+    );
+  });
+
+  it('rejects an empty scan session or an invalid product before writing', async () => {
+    await expect(
+      service.addProductsInBulk('user-1', { items: [], newProducts: [] }),
+    ).rejects.toThrow('Aucun produit à ajouter');
+
+    await expect(
+      service.addProductsInBulk('user-1', {
+        items: [
+          { productId: 'product-1', quantity: 1, purchaseDate: '2026-05-01' },
+          { productId: 'product-1', quantity: 0, purchaseDate: '2026-05-01' },
+        ],
+      } as any),
+    ).rejects.toThrow('La quantité doit être supérieure à 0');
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
   it('passes inventory filters to Prisma', async () => {
     prisma.inventoryItem.findMany.mockResolvedValue([]);
 
@@ -440,11 +566,10 @@ describe('InventoryService', () => {
       },
     ]);
 
-    const result = await service.getUserInventory(
-      'user-1',
-      undefined,
-      { page: 1, limit: 1 },
-    );
+    const result = await service.getUserInventory('user-1', undefined, {
+      page: 1,
+      limit: 1,
+    });
 
     expect(result).toEqual(
       expect.objectContaining({
@@ -467,8 +592,12 @@ describe('InventoryService', () => {
   });
 
   it('updates an inventory item owned by the user', async () => {
-    prisma.inventoryItem.findFirst.mockResolvedValue({ id: 'item-1' });
-    prisma.inventoryItem.update.mockResolvedValue({
+    prisma.inventoryItem.findFirst.mockResolvedValue({
+      id: 'item-1',
+      productId: 'product-1',
+      quantity: 2,
+    });
+    tx.inventoryItem.update.mockResolvedValue({
       ...inventoryItem,
       quantity: 3,
     });
@@ -477,35 +606,46 @@ describe('InventoryService', () => {
       quantity: 3,
     });
 
-    expect(prisma.inventoryItem.update).toHaveBeenCalledWith(
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith(
       expect.objectContaining({
         where: { id: 'item-1' },
         data: { quantity: 3 },
       }),
     );
     expect(result.quantity).toBe(3);
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        productId: 'product-1',
+        inventoryItemId: 'item-1',
+        reason: 'ADJUSTED',
+        quantityDelta: 1,
+      }),
+      tx,
+    );
   });
 
   it('counts expiry stats by quantity instead of inventory lots', async () => {
     prisma.inventoryItem.count
       .mockResolvedValueOnce(2)
       .mockResolvedValueOnce(1);
-    prisma.inventoryItem.aggregate
-      .mockResolvedValueOnce({
-        _sum: { purchasePrice: 42, quantity: 21 },
-        _avg: { purchasePrice: 21 },
-      });
+    prisma.inventoryItem.aggregate.mockResolvedValueOnce({
+      _sum: { purchasePrice: 42 },
+      _avg: { purchasePrice: 21 },
+    });
     prisma.inventoryItem.findMany.mockResolvedValue([
       {
         ...inventoryItem,
         quantity: 20,
         expiryDate: new Date('2020-01-01'),
+        Product: { ...product, unitType: 'UNIT' },
       },
       {
         ...inventoryItem,
         id: 'item-2',
         quantity: 1,
         expiryDate: new Date('2099-01-01'),
+        Product: { ...product, unitType: 'UNIT' },
       },
     ]);
 
@@ -517,12 +657,53 @@ describe('InventoryService', () => {
     expect(result.expiryBreakdown.good).toBe(1);
   });
 
+  it('does not add up quantities expressed in different units', async () => {
+    prisma.inventoryItem.count
+      .mockResolvedValueOnce(3)
+      .mockResolvedValueOnce(0);
+    prisma.inventoryItem.aggregate.mockResolvedValueOnce({
+      _sum: { purchasePrice: 9 },
+      _avg: { purchasePrice: 3 },
+    });
+    prisma.inventoryItem.findMany.mockResolvedValue([
+      {
+        ...inventoryItem,
+        quantity: 1.5,
+        expiryDate: new Date('2099-01-01'),
+      },
+      {
+        ...inventoryItem,
+        id: 'item-2',
+        quantity: 500,
+        expiryDate: new Date('2099-01-01'),
+        Product: { ...product, unitType: 'G' },
+      },
+      {
+        ...inventoryItem,
+        id: 'item-3',
+        quantity: 6,
+        expiryDate: new Date('2099-01-01'),
+        Product: { ...product, unitType: 'UNIT' },
+      },
+    ]);
+
+    const result = await service.getInventoryStats('user-1');
+
+    expect(result.totalQuantity).toBe(8);
+    expect(result.expiryBreakdown.good).toBe(8);
+    expect(result.quantityTotals).toEqual({
+      massGrams: 2000,
+      volumeMilliliters: 0,
+      pieces: 6,
+    });
+  });
+
   it('uses estimated expiry dates when inventory stats have no manual expiry date', async () => {
     prisma.inventoryItem.count
       .mockResolvedValueOnce(1)
       .mockResolvedValueOnce(0);
     prisma.inventoryItem.aggregate.mockResolvedValueOnce({
-      _sum: { purchasePrice: 4.5, quantity: 20 },
+      _sum: { purchasePrice: 4.5 },
       _avg: { purchasePrice: 4.5 },
     });
     prisma.inventoryItem.findMany.mockResolvedValue([
@@ -534,6 +715,7 @@ describe('InventoryService', () => {
         purchaseDate: new Date('2020-01-01'),
         Product: {
           ...product,
+          unitType: 'UNIT',
           name: 'Lait',
           Category: {
             ...category,
@@ -551,6 +733,78 @@ describe('InventoryService', () => {
     expect(result.expiryBreakdown.unknown).toBe(0);
   });
 
+  it('values stock by category, storage location, expiry risk and age', async () => {
+    const daysFromNow = (days: number) =>
+      new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    prisma.inventoryItem.findMany.mockResolvedValue([
+      {
+        ...inventoryItem,
+        purchasePrice: 6,
+        purchaseDate: daysFromNow(-2),
+        expiryDate: daysFromNow(3),
+      },
+      {
+        ...inventoryItem,
+        id: 'item-2',
+        purchasePrice: 3,
+        purchaseDate: daysFromNow(-40),
+        expiryDate: daysFromNow(-1),
+        storageLocation: 'placard',
+        Product: { ...product, Category: null },
+      },
+      {
+        ...inventoryItem,
+        id: 'item-3',
+        purchasePrice: 1,
+        purchaseDate: daysFromNow(-10),
+        expiryDate: daysFromNow(60),
+      },
+      {
+        ...inventoryItem,
+        id: 'item-4',
+        purchasePrice: null,
+      },
+    ]);
+
+    const result = await service.getInventoryValuation('user-1');
+
+    expect(prisma.inventoryItem.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: 'user-1', deletedAt: null },
+      }),
+    );
+    expect(result.totalValue).toBe(10);
+    expect(result.unvaluedLotCount).toBe(1);
+    expect(result.byCategory).toEqual([
+      {
+        categoryId: 'category-1',
+        categoryName: 'Fruits',
+        value: 7,
+        lotCount: 2,
+        percentage: 70,
+      },
+      {
+        categoryId: null,
+        categoryName: 'Sans catégorie',
+        value: 3,
+        lotCount: 1,
+        percentage: 30,
+      },
+    ]);
+    expect(result.byStorageLocation).toEqual([
+      { storageLocation: 'frigo', value: 7, lotCount: 2, percentage: 70 },
+      { storageLocation: 'placard', value: 3, lotCount: 1, percentage: 30 },
+    ]);
+    expect(result.valueAtRisk).toEqual({ value: 6, lotCount: 1 });
+    expect(result.expiredValue).toEqual({ value: 3, lotCount: 1 });
+    expect(result.ageDistribution).toEqual([
+      { bucket: 'UNDER_1_WEEK', value: 6, lotCount: 1 },
+      { bucket: 'ONE_TO_2_WEEKS', value: 1, lotCount: 1 },
+      { bucket: 'TWO_WEEKS_TO_1_MONTH', value: 0, lotCount: 0 },
+      { bucket: 'OVER_1_MONTH', value: 3, lotCount: 1 },
+    ]);
+  });
+
   it('recalculates an estimated expiry date when product context changes', async () => {
     prisma.inventoryItem.findFirst.mockResolvedValue({
       ...inventoryItem,
@@ -567,7 +821,7 @@ describe('InventoryService', () => {
         },
       },
     });
-    prisma.inventoryItem.update.mockImplementation(({ data }) =>
+    tx.inventoryItem.update.mockImplementation(({ data }) =>
       Promise.resolve({
         ...inventoryItem,
         ...data,
@@ -579,7 +833,7 @@ describe('InventoryService', () => {
       packageStatus: 'OPENED',
     } as any);
 
-    expect(prisma.inventoryItem.update).toHaveBeenCalledWith(
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith(
       expect.objectContaining({
         data: expect.objectContaining({
           packageStatus: 'OPENED',
@@ -591,13 +845,62 @@ describe('InventoryService', () => {
     expect(result.expiryDate).toEqual(new Date('2026-05-06'));
   });
 
+  it('recomputes estimated lots with personal shelf-life rules', async () => {
+    shelfLifeOverrides.getUserRules.mockResolvedValue([
+      {
+        id: 'override-1',
+        label: 'lait cru de la ferme',
+        productId: 'product-1',
+        keywords: [],
+        daysByStorage: { fridge: 3 },
+        defaultDays: 3,
+      },
+    ]);
+    prisma.inventoryItem.findMany.mockResolvedValue([
+      {
+        ...inventoryItem,
+        id: 'item-1',
+        productId: 'product-1',
+        expiryDateSource: 'ESTIMATED',
+        expiryDate: new Date('2026-05-08'),
+        thawedAt: null,
+      },
+      {
+        ...inventoryItem,
+        id: 'item-2',
+        productId: 'product-1',
+        expiryDateSource: 'ESTIMATED',
+        expiryDate: new Date('2026-05-04'),
+        thawedAt: null,
+      },
+    ]);
+
+    const result = await service.recomputeEstimatedExpiryDates('user-1');
+
+    expect(prisma.inventoryItem.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          expiryDateSource: 'ESTIMATED',
+          deletedAt: null,
+        },
+      }),
+    );
+    expect(tx.inventoryItem.update).toHaveBeenCalledTimes(1);
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-1' },
+      data: { expiryDate: new Date('2026-05-04'), updatedAt: expect.any(Date) },
+    });
+    expect(result.data).toEqual({ updatedCount: 1 });
+  });
+
   it('keeps a manual expiry date when product context changes', async () => {
     prisma.inventoryItem.findFirst.mockResolvedValue({
       ...inventoryItem,
       expiryDateSource: 'MANUAL',
       Product: product,
     });
-    prisma.inventoryItem.update.mockImplementation(({ data }) =>
+    tx.inventoryItem.update.mockImplementation(({ data }) =>
       Promise.resolve({
         ...inventoryItem,
         ...data,
@@ -609,13 +912,184 @@ describe('InventoryService', () => {
       storageLocation: 'congelateur',
     });
 
-    expect(prisma.inventoryItem.update).toHaveBeenCalledWith(
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith(
       expect.objectContaining({
         data: {
           storageLocation: 'congelateur',
         },
       }),
     );
+    expect(inventoryMovements.record).not.toHaveBeenCalled();
+  });
+
+  describe('lot actions', () => {
+    const chicken = {
+      ...product,
+      name: 'Blanc de poulet',
+      unitType: 'G',
+      Category: {
+        ...category,
+        name: 'Viandes et poissons',
+        slug: 'viandes-et-poissons',
+      },
+    };
+    const chickenLot = {
+      ...inventoryItem,
+      productId: 'product-1',
+      quantity: 400,
+      purchasePrice: 6,
+      storageLocation: 'refrigerateur',
+      expiryDate: new Date('2026-05-04'),
+      expiryDateSource: 'ESTIMATED',
+      packageStatus: null,
+      preparationStatus: 'RAW',
+      thawedAt: null,
+      Product: chicken,
+    };
+
+    beforeEach(() => {
+      prisma.inventoryItem.update.mockImplementation(({ data }) =>
+        Promise.resolve({ ...chickenLot, ...data }),
+      );
+    });
+
+    afterEach(() => jest.useRealTimers());
+
+    it('freezes a lot and recalculates its estimated expiry for the freezer', async () => {
+      prisma.inventoryItem.findFirst.mockResolvedValue(chickenLot);
+
+      await service.freezeInventoryItem('user-1', 'item-1');
+
+      expect(prisma.inventoryItem.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'item-1' },
+          data: expect.objectContaining({
+            storageLocation: 'congelateur',
+            thawedAt: null,
+            frozenAt: expect.any(Date),
+            expiryDate: new Date('2026-08-29'),
+            expiryDateSource: 'ESTIMATED',
+          }),
+        }),
+      );
+    });
+
+    it("freezes into the user's own freezer and estimates with its storage group", async () => {
+      prisma.inventoryItem.findFirst.mockResolvedValue(chickenLot);
+      storageLocations.findStorageLocationByGroup.mockResolvedValue({
+        id: 'location-1',
+        name: 'Coffre du garage',
+        storageGroup: 'freezer',
+      });
+      storageLocations.getStorageGroupResolver.mockResolvedValue(
+        (location?: string | null) =>
+          location === 'Coffre du garage'
+            ? 'freezer'
+            : resolveStorageGroup(location),
+      );
+
+      await service.freezeInventoryItem('user-1', 'item-1');
+
+      expect(storageLocations.findStorageLocationByGroup).toHaveBeenCalledWith(
+        'user-1',
+        'freezer',
+      );
+      expect(prisma.inventoryItem.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            storageLocation: 'Coffre du garage',
+            expiryDate: new Date('2026-08-29'),
+          }),
+        }),
+      );
+    });
+
+    it('thaws a lot with the short fridge shelf life counted from today', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-06-10T12:00:00.000Z'));
+      prisma.inventoryItem.findFirst.mockResolvedValue({
+        ...chickenLot,
+        storageLocation: 'congelateur',
+        expiryDate: new Date('2026-08-29'),
+      });
+
+      await service.thawInventoryItem('user-1', 'item-1');
+
+      expect(prisma.inventoryItem.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            storageLocation: 'refrigerateur',
+            thawedAt: new Date('2026-06-10T12:00:00.000Z'),
+            expiryDate: new Date('2026-06-13'),
+          }),
+        }),
+      );
+    });
+
+    it('rejects thawing a lot that is not in the freezer', async () => {
+      prisma.inventoryItem.findFirst.mockResolvedValue(chickenLot);
+
+      await expect(
+        service.thawInventoryItem('user-1', 'item-1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.inventoryItem.update).not.toHaveBeenCalled();
+    });
+
+    it('keeps a manual expiry date when moving a lot', async () => {
+      prisma.inventoryItem.findFirst.mockResolvedValue({
+        ...chickenLot,
+        expiryDateSource: 'MANUAL',
+      });
+
+      await service.moveInventoryItem('user-1', 'item-1', 'cellier');
+
+      expect(prisma.inventoryItem.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            storageLocation: 'cellier',
+            thawedAt: null,
+            frozenAt: null,
+            updatedAt: expect.any(Date),
+          },
+        }),
+      );
+    });
+
+    it('splits part of a lot into the freezer with a prorated price', async () => {
+      prisma.inventoryItem.findFirst.mockResolvedValue(chickenLot);
+
+      const result = await service.splitInventoryItem(
+        'user-1',
+        'item-1',
+        100,
+        'congelateur',
+      );
+
+      expect(tx.inventoryItem.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'item-1' },
+          data: expect.objectContaining({ quantity: 300, purchasePrice: 4.5 }),
+        }),
+      );
+      expect(tx.inventoryItem.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            quantity: 100,
+            purchasePrice: 1.5,
+            storageLocation: 'congelateur',
+            expiryDate: new Date('2026-08-29'),
+          }),
+        }),
+      );
+      expect(result.created.quantity).toBe(100);
+    });
+
+    it('rejects splitting the whole lot', async () => {
+      prisma.inventoryItem.findFirst.mockResolvedValue(chickenLot);
+
+      await expect(
+        service.splitInventoryItem('user-1', 'item-1', 400),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
   });
 
   it('rejects update for missing inventory item', async () => {
@@ -626,9 +1100,14 @@ describe('InventoryService', () => {
     ).rejects.toBeInstanceOf(NotFoundException);
   });
 
-  it('deletes an inventory item owned by the user', async () => {
-    prisma.inventoryItem.findFirst.mockResolvedValue({ id: 'item-1' });
-    prisma.inventoryItem.delete.mockResolvedValue({ id: 'item-1' });
+  it('soft deletes an inventory item owned by the user', async () => {
+    prisma.inventoryItem.findFirst.mockResolvedValue({
+      id: 'item-1',
+      productId: 'product-1',
+      quantity: 2,
+      storageLocation: 'frigo',
+    });
+    tx.inventoryItem.update.mockResolvedValue({ id: 'item-1' });
 
     await expect(
       service.removeInventoryItem('user-1', 'item-1'),
@@ -636,13 +1115,28 @@ describe('InventoryService', () => {
       success: true,
       message: "Produit supprimé de l'inventaire",
     });
-    expect(prisma.inventoryItem.delete).toHaveBeenCalledWith({
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith({
       where: { id: 'item-1' },
+      data: { deletedAt: expect.any(Date) },
     });
+    expect(tx.inventoryItem.delete).not.toHaveBeenCalled();
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        inventoryItemId: 'item-1',
+        reason: 'ADJUSTED',
+        quantityDelta: -2,
+        storageLocation: 'frigo',
+      }),
+      tx,
+    );
   });
 
-  it('deletes multiple inventory items owned by the user', async () => {
-    prisma.inventoryItem.deleteMany.mockResolvedValue({ count: 2 });
+  it('soft deletes multiple inventory items owned by the user', async () => {
+    tx.inventoryItem.findMany.mockResolvedValue([
+      { id: 'item-1', productId: 'product-1', quantity: 2 },
+      { id: 'item-2', productId: 'product-2', quantity: 1 },
+    ]);
+    tx.inventoryItem.updateMany.mockResolvedValue({ count: 2 });
 
     await expect(
       service.removeInventoryItems('user-1', ['item-1', 'item-2', 'item-1']),
@@ -651,12 +1145,234 @@ describe('InventoryService', () => {
       deletedCount: 2,
       message: "2 produits supprimés de l'inventaire",
     });
-    expect(prisma.inventoryItem.deleteMany).toHaveBeenCalledWith({
+    expect(tx.inventoryItem.findMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: ['item-1', 'item-2'] },
+        userId: 'user-1',
+        deletedAt: null,
+      },
+    });
+    expect(tx.inventoryItem.updateMany).toHaveBeenCalledWith({
       where: {
         id: { in: ['item-1', 'item-2'] },
         userId: 'user-1',
       },
+      data: { deletedAt: expect.any(Date) },
     });
+    expect(tx.inventoryItem.deleteMany).not.toHaveBeenCalled();
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          productId: 'product-1',
+          quantityDelta: -2,
+        }),
+        expect.objectContaining({
+          productId: 'product-2',
+          quantityDelta: -1,
+        }),
+      ],
+      tx,
+    );
+  });
+
+  it('restores lots deleted within the restore window', async () => {
+    tx.inventoryItem.findMany.mockResolvedValue([
+      { id: 'item-1', productId: 'product-1', quantity: 2 },
+    ]);
+    tx.inventoryItem.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(
+      service.restoreInventoryItems('user-1', ['item-1', 'item-2']),
+    ).resolves.toEqual({
+      success: true,
+      restoredCount: 1,
+      message: "1 produit restauré dans l'inventaire",
+    });
+    const { where } = tx.inventoryItem.findMany.mock.calls[0][0];
+    expect(where).toEqual({
+      id: { in: ['item-1', 'item-2'] },
+      userId: 'user-1',
+      deletedAt: { gte: expect.any(Date) },
+    });
+    expect(Date.now() - where.deletedAt.gte.getTime()).toBeGreaterThanOrEqual(
+      30 * 24 * 60 * 60 * 1000,
+    );
+    expect(tx.inventoryItem.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['item-1'] }, userId: 'user-1' },
+      data: { deletedAt: null, updatedAt: expect.any(Date) },
+    });
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          inventoryItemId: 'item-1',
+          reason: 'ADJUSTED',
+          quantityDelta: 2,
+          notes: 'Lot restauré',
+        }),
+      ],
+      tx,
+    );
+  });
+
+  it('rejects restoring a lot past the restore window', async () => {
+    tx.inventoryItem.findMany.mockResolvedValue([]);
+    tx.inventoryItem.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.restoreInventoryItem('user-1', 'item-1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('discards part of a lot and records the prorated value lost', async () => {
+    tx.inventoryItem.findFirst.mockResolvedValue({
+      ...inventoryItem,
+      productId: 'product-1',
+      quantity: 4,
+      purchasePrice: 6,
+    });
+
+    const result = await service.discardInventoryItem('user-1', 'item-1', {
+      reason: 'SPOILED',
+      quantity: 1,
+      notes: 'Moisi',
+    });
+
+    expect(result).toEqual({
+      success: true,
+      productId: 'product-1',
+      quantityDiscarded: 1,
+      remainingQuantity: 3,
+      valueLost: 1.5,
+      deleted: false,
+    });
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-1' },
+      data: expect.objectContaining({ quantity: 3, purchasePrice: 4.5 }),
+    });
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        inventoryItemId: 'item-1',
+        reason: 'WASTED',
+        wasteReason: 'SPOILED',
+        quantityDelta: -1,
+        valueLost: 1.5,
+        notes: 'Moisi',
+      }),
+      tx,
+    );
+  });
+
+  it('discards the whole lot by default', async () => {
+    tx.inventoryItem.findFirst.mockResolvedValue({
+      ...inventoryItem,
+      productId: 'product-1',
+      purchasePrice: null,
+    });
+
+    const result = await service.discardInventoryItem('user-1', 'item-1', {
+      reason: 'EXPIRED',
+    });
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        quantityDiscarded: 2,
+        valueLost: 0,
+        deleted: true,
+      }),
+    );
+    expect(tx.inventoryItem.delete).toHaveBeenCalledWith({
+      where: { id: 'item-1' },
+    });
+  });
+
+  it('rejects discarding more than the lot holds', async () => {
+    tx.inventoryItem.findFirst.mockResolvedValue({
+      ...inventoryItem,
+      productId: 'product-1',
+    });
+
+    await expect(
+      service.discardInventoryItem('user-1', 'item-1', {
+        reason: 'OTHER',
+        quantity: 3,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(inventoryMovements.record).not.toHaveBeenCalled();
+  });
+
+  it('discards several lots with a shared waste reason', async () => {
+    tx.inventoryItem.findMany.mockResolvedValue([
+      { id: 'item-1', productId: 'product-1', quantity: 2, purchasePrice: 3 },
+      { id: 'item-2', productId: 'product-2', quantity: 1, purchasePrice: 1.8 },
+    ]);
+    tx.inventoryItem.deleteMany.mockResolvedValue({ count: 2 });
+
+    await expect(
+      service.discardInventoryItems('user-1', {
+        ids: ['item-1', 'item-2'],
+        reason: 'EXPIRED',
+      }),
+    ).resolves.toEqual({
+      success: true,
+      discardedCount: 2,
+      valueLost: 4.8,
+      message: '2 produits jetés',
+    });
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          productId: 'product-1',
+          reason: 'WASTED',
+          wasteReason: 'EXPIRED',
+          quantityDelta: -2,
+          valueLost: 3,
+        }),
+        expect.objectContaining({
+          productId: 'product-2',
+          quantityDelta: -1,
+          valueLost: 1.8,
+        }),
+      ],
+      tx,
+    );
+  });
+
+  it('values a discard after a partial consumption on the remaining price', async () => {
+    const lot = {
+      ...inventoryItem,
+      id: 'lot-1',
+      productId: 'product-1',
+      quantity: 4,
+      purchasePrice: 6,
+      expiryDate: new Date('2026-07-10'),
+    };
+    tx.inventoryItem.findFirst.mockResolvedValueOnce({
+      ...lot,
+      Product: { unitType: 'UNIT', ProductPieceWeight: [] },
+    });
+    tx.inventoryItem.findMany.mockResolvedValueOnce([lot]);
+
+    await service.consumeInventoryItem('user-1', 'lot-1', 1);
+
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith({
+      where: { id: 'lot-1' },
+      data: expect.objectContaining({ quantity: 3, purchasePrice: 4.5 }),
+    });
+
+    const { data: consumed } = tx.inventoryItem.update.mock.calls[0][0];
+    tx.inventoryItem.findFirst.mockResolvedValueOnce({ ...lot, ...consumed });
+
+    const result = await service.discardInventoryItem('user-1', 'lot-1', {
+      reason: 'EXPIRED',
+    });
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        quantityDiscarded: 3,
+        valueLost: 4.5,
+        deleted: true,
+      }),
+    );
   });
 
   it('consumes from the earliest expiring lot first', async () => {
@@ -664,6 +1380,7 @@ describe('InventoryService', () => {
       id: 'lot-late',
       productId: 'product-1',
       userId: 'user-1',
+      Product: { unitType: 'UNIT', ProductPieceWeight: [] },
     });
     tx.inventoryItem.findMany.mockResolvedValue([
       {
@@ -715,6 +1432,7 @@ describe('InventoryService', () => {
       id: 'lot-early',
       productId: 'product-1',
       userId: 'user-1',
+      Product: { unitType: 'UNIT', ProductPieceWeight: [] },
     });
     tx.inventoryItem.findMany.mockResolvedValue([
       {
@@ -760,6 +1478,100 @@ describe('InventoryService', () => {
         deleted: false,
       },
     ]);
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      [
+        expect.objectContaining({
+          inventoryItemId: 'lot-early',
+          reason: 'CONSUMED',
+          quantityDelta: -2,
+        }),
+        expect.objectContaining({
+          inventoryItemId: 'lot-late',
+          reason: 'CONSUMED',
+          quantityDelta: -2,
+        }),
+      ],
+      tx,
+    );
+    expect(shoppingList.addOutOfStockProduct).not.toHaveBeenCalled();
+  });
+
+  it('adds the product to the shopping list when its stock runs out', async () => {
+    tx.inventoryItem.findFirst.mockResolvedValue({
+      id: 'lot-1',
+      productId: 'product-1',
+      userId: 'user-1',
+      Product: { unitType: 'UNIT', ProductPieceWeight: [] },
+    });
+    tx.inventoryItem.findMany.mockResolvedValue([
+      {
+        id: 'lot-1',
+        productId: 'product-1',
+        userId: 'user-1',
+        quantity: 2,
+        expiryDate: new Date('2026-07-10'),
+        createdAt: new Date('2026-06-01'),
+      },
+    ]);
+
+    const result = await service.consumeInventoryItem('user-1', 'lot-1', 2);
+
+    expect(result.remainingQuantity).toBe(0);
+    expect(shoppingList.addOutOfStockProduct).toHaveBeenCalledWith(
+      'user-1',
+      'product-1',
+      tx,
+    );
+  });
+
+  it('refreshes low stock alerts after consuming or deleting a lot', async () => {
+    const notifications = {
+      synchronizeExpiryNotifications: jest.fn(),
+      synchronizeLowStockNotifications: jest.fn(),
+    };
+    service = new InventoryService(
+      prisma as any,
+      budgetService as any,
+      expenseService as any,
+      inventoryMovements as any,
+      shoppingList as any,
+      storageLocations as any,
+      shelfLifeOverrides as any,
+      productPrices as any,
+      notifications as any,
+    );
+    tx.inventoryItem.findFirst.mockResolvedValue({
+      id: 'lot-1',
+      productId: 'product-1',
+      userId: 'user-1',
+      Product: { unitType: 'UNIT', ProductPieceWeight: [] },
+    });
+    tx.inventoryItem.findMany.mockResolvedValue([
+      {
+        id: 'lot-1',
+        productId: 'product-1',
+        userId: 'user-1',
+        quantity: 3,
+        expiryDate: null,
+        createdAt: new Date('2026-06-01'),
+      },
+    ]);
+    prisma.inventoryItem.findFirst.mockResolvedValue({
+      id: 'lot-1',
+      productId: 'product-1',
+      quantity: 2,
+      storageLocation: 'frigo',
+    });
+
+    await service.consumeInventoryItem('user-1', 'lot-1', 1);
+    await service.removeInventoryItem('user-1', 'lot-1');
+
+    expect(
+      notifications.synchronizeLowStockNotifications,
+    ).toHaveBeenCalledTimes(2);
+    expect(notifications.synchronizeLowStockNotifications).toHaveBeenCalledWith(
+      'user-1',
+    );
   });
 
   it('consumes lots without expiry date last', async () => {
@@ -767,6 +1579,7 @@ describe('InventoryService', () => {
       id: 'lot-without-expiry',
       productId: 'product-1',
       userId: 'user-1',
+      Product: { unitType: 'UNIT', ProductPieceWeight: [] },
     });
     tx.inventoryItem.findMany.mockResolvedValue([
       {
@@ -802,6 +1615,7 @@ describe('InventoryService', () => {
       id: 'lot-1',
       productId: 'product-1',
       userId: 'user-1',
+      Product: { unitType: 'UNIT', ProductPieceWeight: [] },
     });
     tx.inventoryItem.findMany.mockResolvedValue([
       {
@@ -821,6 +1635,176 @@ describe('InventoryService', () => {
     expect(tx.inventoryItem.delete).not.toHaveBeenCalled();
   });
 
+  it('consumes only the designated lot when asked to', async () => {
+    tx.inventoryItem.findFirst.mockResolvedValue({
+      id: 'lot-late',
+      productId: 'product-1',
+      userId: 'user-1',
+      Product: { unitType: 'UNIT', ProductPieceWeight: [] },
+    });
+    tx.inventoryItem.findMany.mockResolvedValue([
+      {
+        id: 'lot-late',
+        productId: 'product-1',
+        userId: 'user-1',
+        quantity: 2,
+        expiryDate: new Date('2026-07-20'),
+        createdAt: new Date('2026-06-02'),
+      },
+      {
+        id: 'lot-early',
+        productId: 'product-1',
+        userId: 'user-1',
+        quantity: 2,
+        expiryDate: new Date('2026-07-10'),
+        createdAt: new Date('2026-06-01'),
+      },
+    ]);
+
+    const result = await service.consumeInventoryItem(
+      'user-1',
+      'lot-late',
+      1,
+      undefined,
+      { lotOnly: true },
+    );
+
+    expect(tx.inventoryItem.update).toHaveBeenCalledTimes(1);
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith({
+      where: { id: 'lot-late' },
+      data: expect.objectContaining({
+        quantity: 1,
+      }),
+    });
+    expect(result.remainingQuantity).toBe(3);
+    await expect(
+      service.consumeInventoryItem('user-1', 'lot-late', 3, undefined, {
+        lotOnly: true,
+      }),
+    ).rejects.toThrow('Quantité insuffisante dans ce lot');
+  });
+
+  it('converts the consumed quantity into the product unit', async () => {
+    tx.inventoryItem.findFirst.mockResolvedValue({
+      id: 'lot-1',
+      productId: 'product-1',
+      userId: 'user-1',
+      Product: { unitType: 'KG', ProductPieceWeight: [] },
+    });
+    tx.inventoryItem.findMany.mockResolvedValue([
+      {
+        id: 'lot-1',
+        productId: 'product-1',
+        userId: 'user-1',
+        quantity: 1,
+        expiryDate: new Date('2026-07-10'),
+        createdAt: new Date('2026-06-01'),
+      },
+    ]);
+
+    const result = await service.consumeInventoryItem(
+      'user-1',
+      'lot-1',
+      200,
+      'G',
+    );
+
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith({
+      where: { id: 'lot-1' },
+      data: expect.objectContaining({
+        quantity: 0.8,
+      }),
+    });
+    expect(result).toEqual(
+      expect.objectContaining({
+        unitType: 'KG',
+        quantityConsumed: 0.2,
+        remainingQuantity: 0.8,
+      }),
+    );
+  });
+
+  it('uses the piece weight to consume grams of a product counted in pieces', async () => {
+    tx.inventoryItem.findFirst.mockResolvedValue({
+      id: 'lot-1',
+      productId: 'product-1',
+      userId: 'user-1',
+      Product: { unitType: 'UNIT', ProductPieceWeight: [{ pieceWeight: 60 }] },
+    });
+    tx.inventoryItem.findMany.mockResolvedValue([
+      {
+        id: 'lot-1',
+        productId: 'product-1',
+        userId: 'user-1',
+        quantity: 6,
+        expiryDate: null,
+        createdAt: new Date('2026-06-01'),
+      },
+    ]);
+
+    const result = await service.consumeInventoryItem(
+      'user-1',
+      'lot-1',
+      120,
+      'G',
+    );
+
+    expect(result.quantityConsumed).toBe(2);
+    expect(result.remainingQuantity).toBe(4);
+  });
+
+  it('rejects a unit that cannot be converted for the product', async () => {
+    tx.inventoryItem.findFirst.mockResolvedValue({
+      id: 'lot-1',
+      productId: 'product-1',
+      userId: 'user-1',
+      Product: { unitType: 'UNIT', ProductPieceWeight: [] },
+    });
+
+    await expect(
+      service.consumeInventoryItem('user-1', 'lot-1', 200, 'G'),
+    ).rejects.toThrow("Renseignez le poids d'une pièce");
+    expect(tx.inventoryItem.findMany).not.toHaveBeenCalled();
+  });
+
+  it('stores the piece weight for the user without touching the shared product', async () => {
+    prisma.inventoryItem.findFirst.mockResolvedValue({ id: 'lot-1' });
+    tx.product.findUnique.mockResolvedValue({
+      id: 'product-1',
+      name: 'Oeufs',
+      unitType: 'UNIT',
+    });
+
+    const result = await service.setProductPieceWeight(
+      'user-1',
+      'product-1',
+      60,
+    );
+
+    expect(tx.productPieceWeight.upsert).toHaveBeenCalledWith({
+      where: { userId_productId: { userId: 'user-1', productId: 'product-1' } },
+      create: expect.objectContaining({
+        userId: 'user-1',
+        productId: 'product-1',
+        pieceWeight: 60,
+      }),
+      update: expect.objectContaining({ pieceWeight: 60 }),
+    });
+    expect(tx.product.update).not.toHaveBeenCalled();
+    expect(result.data).toEqual({
+      id: 'product-1',
+      name: 'Oeufs',
+      unitType: 'UNIT',
+      pieceWeight: 60,
+    });
+
+    await service.setProductPieceWeight('user-1', 'product-1', null);
+
+    expect(tx.productPieceWeight.deleteMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', productId: 'product-1' },
+    });
+  });
+
   it('increments an existing lot for duplicate manual inventory items', async () => {
     tx.inventoryItem.findFirst.mockResolvedValue({
       ...inventoryItem,
@@ -7,7 +7,14 @@ import {
   Optional,
 } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
-import { AddManualProductDto, ProductCreatedResponseDto } from '../dto';
+import {
+  AddManualProductDto,
+  BulkQuickAddProductsDto,
+  DiscardInventoryItemDto,
+  DiscardInventoryItemsDto,
+  InventoryMovementQueryDto,
+  ProductCreatedResponseDto,
+} from '../dto';
 import { QuickAddProductDto } from '../../DTOs';
 import { BudgetService } from '../../budget/services/budget.service';
 import { ExpenseService } from '../../budget/services/expense.service';
@@ -15,14 +22,43 @@ import { randomUUID } from 'crypto';
 import {
   estimateExpiryDate,
   ExpiryEstimationResult,
+  inferExpiryKind,
+  UserShelfLifeRule,
 } from './expiry-estimation.service';
+import {
+  StorageGroupResolver,
+  StorageLocationService,
+} from './storage-location.service';
+import { ShelfLifeOverrideService } from './shelf-life-override.service';
+import { ProductPriceHistoryService } from './product-price-history.service';
+import {
+  convertQuantity,
+  countArticles,
+  getPieceWeight,
+  pieceWeightOf,
+  QUANTITY_UNIT_LABELS,
+  QuantityUnit,
+  roundQuantity,
+  toBaseQuantity,
+} from './unit-conversion.service';
 import { NotificationService } from '../../notification/notification.service';
+import { ShoppingListService } from '../../shopping-list/shopping-list.service';
+import {
+  InventoryMovementInput,
+  InventoryMovementService,
+  WasteStats,
+} from './inventory-movement.service';
 
 // Types pour les statistiques d'inventaire (conformes au schéma InventoryStats)
 export interface InventoryStats {
   totalItems: number;
   totalValue: number;
   totalQuantity: number;
+  quantityTotals: {
+    massGrams: number;
+    volumeMilliliters: number;
+    pieces: number;
+  };
   averageItemValue: number;
   expiryBreakdown: {
     good: number;
@@ -50,6 +86,38 @@ export interface InventoryStats {
     itemsConsumedThisWeek: number;
     averageDaysToConsumption?: number;
   };
+  waste: WasteStats;
+}
+
+export type StockAgeBucket =
+  | 'UNDER_1_WEEK'
+  | 'ONE_TO_2_WEEKS'
+  | 'TWO_WEEKS_TO_1_MONTH'
+  | 'OVER_1_MONTH';
+
+interface ValuationTotals {
+  value: number;
+  lotCount: number;
+}
+
+export interface InventoryValuation {
+  totalValue: number;
+  /** Lots sans prix d'achat : non valorisés, mais comptés à part */
+  unvaluedLotCount: number;
+  byCategory: Array<
+    ValuationTotals & {
+      categoryId: string | null;
+      categoryName: string;
+      percentage: number;
+    }
+  >;
+  byStorageLocation: Array<
+    ValuationTotals & { storageLocation: string; percentage: number }
+  >;
+  /** Lots qui expirent dans les 7 prochains jours (date saisie ou estimée) */
+  valueAtRisk: ValuationTotals;
+  expiredValue: ValuationTotals;
+  ageDistribution: Array<ValuationTotals & { bucket: StockAgeBucket }>;
 }
 
 // Interface pour les réponses avec impact budgétaire
@@ -62,8 +130,39 @@ export interface ProductCreatedWithBudgetDto extends ProductCreatedResponseDto {
   };
 }
 
+// Résultat de l'ajout groupé d'une session de scan
+export interface BulkQuickAddResult {
+  addedCount: number;
+  expensesCreated: number;
+  items: ProductCreatedResponseDto[];
+}
+
 type ExpiryStatus = 'GOOD' | 'WARNING' | 'CRITICAL' | 'EXPIRED' | 'UNKNOWN';
 
+// Lieux utilisés pour congeler et décongeler un lot quand l'utilisateur n'a
+// ni congélateur ni réfrigérateur dans sa liste
+const DEFAULT_FREEZER_LOCATION = 'congelateur';
+const DEFAULT_THAW_LOCATION = 'refrigerateur';
+
+// Produits « fait maison » créés pour les restes d'une recette
+const HOMEMADE_BRAND = 'Fait maison';
+const HOMEMADE_CATEGORY_SLUG = 'autres';
+
+// Délai pendant lequel un lot supprimé peut être restauré avant sa purge
+export const INVENTORY_RESTORE_WINDOW_DAYS = 30;
+
+// Horizon de la valeur « à risque » et tranches d'ancienneté de la valorisation
+const VALUE_AT_RISK_DAYS = 7;
+const STOCK_AGE_BUCKETS: Array<{
+  bucket: StockAgeBucket;
+  maxDays: number | null;
+}> = [
+  { bucket: 'UNDER_1_WEEK', maxDays: 7 },
+  { bucket: 'ONE_TO_2_WEEKS', maxDays: 14 },
+  { bucket: 'TWO_WEEKS_TO_1_MONTH', maxDays: 30 },
+  { bucket: 'OVER_1_MONTH', maxDays: null },
+];
+
 export interface InventoryPaginationOptions {
   page?: number;
   limit?: number;
@@ -81,6 +180,24 @@ export interface PaginatedInventoryResult {
   };
 }
 
+// Lot retenu pour une consommation (produit consommé ou recette cuisinée)
+export interface LotForConsumption {
+  id: string;
+  productId: string;
+  quantity: number;
+  purchasePrice?: number | null;
+  expiryDate?: Date | string | null;
+  createdAt?: Date | string | null;
+  storageLocation?: string | null;
+}
+
+export interface ConsumedLot {
+  id: string;
+  quantityConsumed: number;
+  remainingQuantity: number;
+  deleted: boolean;
+}
+
 type InventoryItemInput = Pick<
   AddManualProductDto,
   | 'quantity'
@@ -89,6 +206,7 @@ type InventoryItemInput = Pick<
   | 'storageLocation'
   | 'packageStatus'
   | 'preparationStatus'
+  | 'expiryKind'
   | 'notes'
 >;
 
@@ -100,6 +218,11 @@ export class InventoryService {
     private readonly prisma: PrismaService,
     private readonly budgetService: BudgetService,
     private readonly expenseService: ExpenseService,
+    private readonly inventoryMovements: InventoryMovementService,
+    private readonly shoppingList: ShoppingListService,
+    private readonly storageLocations: StorageLocationService,
+    private readonly shelfLifeOverrides: ShelfLifeOverrideService,
+    private readonly productPrices: ProductPriceHistoryService,
     @Optional() private readonly notifications?: NotificationService,
   ) {}
 
@@ -115,30 +238,32 @@ export class InventoryService {
   ): Promise<ProductCreatedWithBudgetDto> {
     // Validation des données métier
     await this.validateProductData(addProductDto);
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const userRules = await this.shelfLifeOverrides.getUserRules(userId);
 
     // Utilisation d'une transaction pour assurer la cohérence des données
     const result = await this.prisma.$transaction(async (tx: any) => {
       // 1. Récupérer ou créer le produit
       const product = await this.findOrCreateProduct(tx, addProductDto);
 
-      const expiryEstimation = estimateExpiryDate({
-        productName: product.name ?? addProductDto.name,
-        categorySlug: product.Category?.slug ?? addProductDto.category,
-        categoryName: product.Category?.name,
-        storageLocation: addProductDto.storageLocation,
-        packageStatus: addProductDto.packageStatus,
-        preparationStatus: addProductDto.preparationStatus,
-        purchaseDate: addProductDto.purchaseDate,
-        manualExpiryDate: addProductDto.expiryDate,
-      });
+      if (addProductDto.pieceWeight) {
+        await this.savePieceWeight(
+          tx,
+          userId,
+          product.id,
+          addProductDto.pieceWeight,
+        );
+      }
 
       // 2. Créer un nouveau lot ou incrémenter un lot compatible
-      const inventoryItem = await this.upsertInventoryLot(
+      const { inventoryItem, expiryEstimation } = await this.stockProductLot(
         tx,
         userId,
-        product.id,
+        product,
         addProductDto,
-        expiryEstimation,
+        resolveGroup,
+        userRules,
       );
 
       // 4. Formater la réponse de base
@@ -167,6 +292,7 @@ export class InventoryService {
       };
     });
     await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
     return result;
   }
 
@@ -182,30 +308,23 @@ export class InventoryService {
   ): Promise<ProductCreatedWithBudgetDto> {
     // Validation des données métier
     await this.validateQuickAddData(quickAddDto);
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const userRules = await this.shelfLifeOverrides.getUserRules(userId);
 
     // Utilisation d'une transaction pour assurer la cohérence
     const result = await this.prisma.$transaction(async (tx: any) => {
       // 1. Vérifier que le produit existe
       const product = await this.findProductById(tx, quickAddDto.productId);
 
-      const expiryEstimation = estimateExpiryDate({
-        productName: product.name,
-        categorySlug: product.Category?.slug,
-        categoryName: product.Category?.name,
-        storageLocation: quickAddDto.storageLocation,
-        packageStatus: quickAddDto.packageStatus,
-        preparationStatus: quickAddDto.preparationStatus,
-        purchaseDate: quickAddDto.purchaseDate,
-        manualExpiryDate: quickAddDto.expiryDate,
-      });
-
       // 2. Créer un nouveau lot ou incrémenter un lot compatible
-      const inventoryItem = await this.upsertInventoryLot(
+      const { inventoryItem, expiryEstimation } = await this.stockProductLot(
         tx,
         userId,
-        quickAddDto.productId,
+        product,
         quickAddDto,
-        expiryEstimation,
+        resolveGroup,
+        userRules,
       );
 
       // 4. Formater la réponse de base
@@ -234,9 +353,115 @@ export class InventoryService {
       };
     });
     await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
     return result;
   }
 
+  /**
+   * Ajoute en une seule fois les produits d'une session de scan : produits
+   * connus et produits inconnus à créer sont rangés dans une même
+   * transaction, rien n'est ajouté si l'un d'eux est invalide
+   * @param userId ID de l'utilisateur connecté
+   * @param bulkDto Produits connus et nouveaux produits à ajouter
+   * @returns Les éléments d'inventaire créés ou incrémentés, dans l'ordre de la demande
+   */
+  async addProductsInBulk(
+    userId: string,
+    bulkDto: BulkQuickAddProductsDto,
+  ): Promise<BulkQuickAddResult> {
+    const quickAdds = bulkDto.items ?? [];
+    const newProducts = bulkDto.newProducts ?? [];
+    if (quickAdds.length + newProducts.length === 0) {
+      throw new BadRequestException('Aucun produit à ajouter');
+    }
+
+    for (const quickAddDto of quickAdds) {
+      await this.validateQuickAddData(quickAddDto);
+    }
+    for (const addProductDto of newProducts) {
+      await this.validateProductData(addProductDto);
+    }
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const userRules = await this.shelfLifeOverrides.getUserRules(userId);
+
+    const added = await this.prisma.$transaction(async (tx: any) => {
+      const entries: Array<{
+        item: ProductCreatedResponseDto;
+        purchasePrice?: number;
+        purchaseDate: string;
+        notes?: string;
+      }> = [];
+
+      for (const quickAddDto of quickAdds) {
+        const product = await this.findProductById(tx, quickAddDto.productId);
+        const { inventoryItem, expiryEstimation } = await this.stockProductLot(
+          tx,
+          userId,
+          product,
+          quickAddDto,
+          resolveGroup,
+          userRules,
+        );
+        entries.push({
+          item: this.formatResponse(inventoryItem, product, expiryEstimation),
+          purchasePrice: quickAddDto.purchasePrice,
+          purchaseDate: quickAddDto.purchaseDate,
+          notes: quickAddDto.notes,
+        });
+      }
+
+      for (const addProductDto of newProducts) {
+        const product = await this.findOrCreateProduct(tx, addProductDto);
+        const { inventoryItem, expiryEstimation } = await this.stockProductLot(
+          tx,
+          userId,
+          product,
+          addProductDto,
+          resolveGroup,
+          userRules,
+        );
+        entries.push({
+          item: this.formatResponse(inventoryItem, product, expiryEstimation),
+          purchasePrice: addProductDto.purchasePrice,
+          purchaseDate: addProductDto.purchaseDate,
+          notes: addProductDto.notes,
+        });
+      }
+
+      return entries;
+    });
+
+    // Les dépenses sont créées une fois l'inventaire validé, pour ne pas
+    // laisser de dépense orpheline si la transaction échoue
+    let expensesCreated = 0;
+    for (const entry of added) {
+      const budgetImpact = await this.handleBudgetImpact(
+        userId,
+        entry.purchasePrice,
+        {
+          productName: entry.item.name,
+          purchaseDate: entry.purchaseDate,
+          inventoryItemId: entry.item.id,
+          source: 'Session de scan',
+          notes: entry.notes,
+        },
+      );
+      if (budgetImpact.expenseCreated) {
+        expensesCreated++;
+      }
+    }
+
+    await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
+
+    return {
+      addedCount: added.length,
+      expensesCreated,
+      items: added.map((entry) => entry.item),
+    };
+  }
+
   /**
    * Recherche un produit par son code-barres
    * @param barcode Code-barres du produit
@@ -265,6 +490,7 @@ export class InventoryService {
     return await this.prisma.inventoryItem.findMany({
       where: {
         userId,
+        deletedAt: null,
       },
       include: {
         Product: {
@@ -297,6 +523,7 @@ export class InventoryService {
   ): Promise<any[] | PaginatedInventoryResult> {
     const where: any = {
       userId,
+      deletedAt: null,
     };
 
     // Application des filtres
@@ -337,8 +564,12 @@ export class InventoryService {
         Product: {
           include: {
             Category: true,
+            ProductPieceWeight: pieceWeightOf(userId),
           },
         },
+        Recipe: {
+          select: { id: true, name: true },
+        },
       },
       orderBy: [
         { expiryDate: 'asc' as const }, // Produits qui périment en premier
@@ -375,13 +606,18 @@ export class InventoryService {
       where: {
         id: inventoryItemId,
         userId,
+        deletedAt: null,
       },
       include: {
         Product: {
           include: {
             Category: true,
+            ProductPieceWeight: pieceWeightOf(userId),
           },
         },
+        Recipe: {
+          select: { id: true, name: true },
+        },
       },
     });
   }
@@ -404,6 +640,7 @@ export class InventoryService {
         | 'storageLocation'
         | 'packageStatus'
         | 'preparationStatus'
+        | 'expiryKind'
         | 'notes'
         | 'purchasePrice'
       >
@@ -414,6 +651,7 @@ export class InventoryService {
       where: {
         id: inventoryItemId,
         userId,
+        deletedAt: null,
       },
       include: {
         Product: {
@@ -459,6 +697,18 @@ export class InventoryService {
       updatePayload.preparationStatus = updateData.preparationStatus;
     }
 
+    // Sans choix explicite, le type de date suit l'état de préparation
+    if (updateData.expiryKind !== undefined) {
+      updatePayload.expiryKind = updateData.expiryKind;
+    } else if (updateData.preparationStatus !== undefined) {
+      updatePayload.expiryKind = inferExpiryKind({
+        productName: existingInventoryItem.Product.name,
+        categorySlug: existingInventoryItem.Product.Category?.slug,
+        categoryName: existingInventoryItem.Product.Category?.name,
+        preparationStatus: updateData.preparationStatus,
+      });
+    }
+
     if (updateData.notes !== undefined) {
       updatePayload.notes = updateData.notes;
     }
@@ -478,30 +728,1044 @@ export class InventoryService {
       existingInventoryItem.expiryDateSource === 'ESTIMATED' &&
       contextChanged
     ) {
+      const storageLocation =
+        updatePayload.storageLocation ?? existingInventoryItem.storageLocation;
+      const resolveGroup =
+        await this.storageLocations.getStorageGroupResolver(userId);
       const expiryEstimation = estimateExpiryDate({
+        productId: existingInventoryItem.productId,
         productName: existingInventoryItem.Product.name,
         categorySlug: existingInventoryItem.Product.Category?.slug,
         categoryName: existingInventoryItem.Product.Category?.name,
-        storageLocation:
-          updatePayload.storageLocation ??
-          existingInventoryItem.storageLocation,
+        storageLocation,
+        storageGroup: resolveGroup(storageLocation),
         packageStatus:
           updatePayload.packageStatus ?? existingInventoryItem.packageStatus,
         preparationStatus:
           updatePayload.preparationStatus ??
           existingInventoryItem.preparationStatus,
         purchaseDate:
-          updatePayload.purchaseDate ?? existingInventoryItem.purchaseDate,
+          updatePayload.purchaseDate ??
+          existingInventoryItem.thawedAt ??
+          existingInventoryItem.purchaseDate,
         addedAt: existingInventoryItem.createdAt,
+        userRules: await this.shelfLifeOverrides.getUserRules(userId),
       });
 
       updatePayload.expiryDate = expiryEstimation.expiryDate;
       updatePayload.expiryDateSource = expiryEstimation.source;
     }
 
-    const updatedItem = await this.prisma.inventoryItem.update({
-      where: { id: inventoryItemId },
-      data: updatePayload,
+    const updatedItem = await this.prisma.$transaction(async (tx: any) => {
+      const item = await tx.inventoryItem.update({
+        where: { id: inventoryItemId },
+        data: updatePayload,
+        include: {
+          Product: {
+            include: {
+              Category: true,
+            },
+          },
+        },
+      });
+
+      if (updatePayload.quantity !== undefined) {
+        await this.inventoryMovements.record(
+          {
+            userId,
+            productId: existingInventoryItem.productId,
+            inventoryItemId,
+            reason: 'ADJUSTED',
+            quantityDelta:
+              updatePayload.quantity - existingInventoryItem.quantity,
+            storageLocation: item.storageLocation,
+          },
+          tx,
+        );
+      }
+
+      return item;
+    });
+    await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
+    return updatedItem;
+  }
+
+  /**
+   * Supprime un élément d'inventaire. Le lot est conservé et restaurable
+   * pendant INVENTORY_RESTORE_WINDOW_DAYS jours avant sa purge définitive.
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemId ID de l'élément à supprimer
+   */
+  async removeInventoryItem(userId: string, inventoryItemId: string) {
+    const existingItem = await this.prisma.inventoryItem.findFirst({
+      where: {
+        id: inventoryItemId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!existingItem) {
+      throw new NotFoundException("Élément d'inventaire non trouvé");
+    }
+
+    await this.prisma.$transaction(async (tx: any) => {
+      await tx.inventoryItem.update({
+        where: { id: inventoryItemId },
+        data: { deletedAt: new Date() },
+      });
+      await this.inventoryMovements.record(
+        this.buildRemovalMovement(userId, existingItem),
+        tx,
+      );
+    });
+    await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
+
+    return { success: true, message: "Produit supprimé de l'inventaire" };
+  }
+
+  /**
+   * Consomme une quantité d'un produit, tous lots confondus, en commençant par
+   * la date de péremption la plus proche. La quantité peut être exprimée dans
+   * une autre unité que celle du produit (200 g d'un produit suivi en kg).
+   * Avec `lotOnly`, seul le lot désigné est entamé (lot identifié par son
+   * étiquette, par exemple).
+   */
+  async consumeInventoryItem(
+    userId: string,
+    inventoryItemId: string,
+    requestedQuantity: number,
+    unit?: QuantityUnit,
+    options: { lotOnly?: boolean } = {},
+  ) {
+    this.validatePositiveQuantity(requestedQuantity);
+
+    const result = await this.prisma.$transaction(async (tx: any) => {
+      const selectedItem = await tx.inventoryItem.findFirst({
+        where: {
+          id: inventoryItemId,
+          userId,
+          deletedAt: null,
+        },
+        include: {
+          Product: {
+            select: {
+              unitType: true,
+              ProductPieceWeight: pieceWeightOf(userId),
+            },
+          },
+        },
+      });
+
+      if (!selectedItem) {
+        throw new NotFoundException("Élément d'inventaire non trouvé");
+      }
+
+      const productUnit: QuantityUnit = selectedItem.Product.unitType;
+      const quantityConsumed = this.toProductQuantity(
+        requestedQuantity,
+        unit ?? productUnit,
+        {
+          unitType: productUnit,
+          pieceWeight: getPieceWeight(selectedItem.Product),
+        },
+      );
+
+      const lots = await tx.inventoryItem.findMany({
+        where: {
+          userId,
+          productId: selectedItem.productId,
+          deletedAt: null,
+        },
+        orderBy: [{ createdAt: 'asc' }],
+      });
+      const sortedLots = this.sortLotsByExpiry(lots);
+      const availableQuantity = sortedLots.reduce(
+        (total, lot) => total + lot.quantity,
+        0,
+      );
+      const consumableLots = options.lotOnly
+        ? sortedLots.filter((lot) => lot.id === selectedItem.id)
+        : sortedLots;
+      const consumableQuantity = consumableLots.reduce(
+        (total, lot) => total + lot.quantity,
+        0,
+      );
+
+      if (quantityConsumed > consumableQuantity) {
+        throw new BadRequestException(
+          options.lotOnly
+            ? `Quantité insuffisante dans ce lot (${roundQuantity(consumableQuantity)} ${QUANTITY_UNIT_LABELS[productUnit]} disponible)`
+            : `Quantité insuffisante dans l'inventaire (${roundQuantity(availableQuantity)} ${QUANTITY_UNIT_LABELS[productUnit]} disponible)`,
+        );
+      }
+
+      const consumedLots = await this.consumeLots(
+        tx,
+        userId,
+        consumableLots,
+        quantityConsumed,
+        { reason: 'CONSUMED' },
+      );
+
+      const remainingQuantity = roundQuantity(
+        availableQuantity - quantityConsumed,
+      );
+
+      if (remainingQuantity <= 0) {
+        await this.shoppingList.addOutOfStockProduct(
+          userId,
+          selectedItem.productId,
+          tx,
+        );
+      }
+
+      return {
+        success: true,
+        productId: selectedItem.productId,
+        unitType: productUnit,
+        quantityConsumed,
+        remainingQuantity,
+        consumedLots,
+      };
+    });
+    await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
+    return result;
+  }
+
+  /**
+   * Répartit une quantité sur des lots en commençant par la date de
+   * péremption la plus proche, sans rien modifier
+   */
+  planLotConsumption<T extends LotForConsumption>(
+    lots: T[],
+    quantity: number,
+  ): Array<{ lot: T; quantity: number }> {
+    let remainingToConsume = quantity;
+    const plan: Array<{ lot: T; quantity: number }> = [];
+
+    for (const lot of this.sortLotsByExpiry(lots)) {
+      if (remainingToConsume <= 0) {
+        break;
+      }
+
+      const consumedFromLot = Math.min(lot.quantity, remainingToConsume);
+      plan.push({ lot, quantity: roundQuantity(consumedFromLot) });
+      remainingToConsume = roundQuantity(remainingToConsume - consumedFromLot);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Retire une quantité des lots fournis (FEFO), supprime ceux qui sont
+   * vidés et journalise les mouvements. Le prix d'achat d'un lot entamé est
+   * réduit au prorata. À appeler dans une transaction.
+   */
+  async consumeLots(
+    tx: any,
+    userId: string,
+    lots: LotForConsumption[],
+    quantity: number,
+    movement: { reason: 'CONSUMED' | 'COOKED'; recipeId?: string },
+  ): Promise<ConsumedLot[]> {
+    const consumedLots: ConsumedLot[] = [];
+
+    for (const { lot, quantity: consumedFromLot } of this.planLotConsumption(
+      lots,
+      quantity,
+    )) {
+      const remainingQuantity = roundQuantity(lot.quantity - consumedFromLot);
+
+      if (remainingQuantity <= 0) {
+        await tx.inventoryItem.delete({
+          where: { id: lot.id },
+        });
+      } else {
+        await tx.inventoryItem.update({
+          where: { id: lot.id },
+          data: {
+            quantity: remainingQuantity,
+            purchasePrice:
+              lot.purchasePrice !== null && lot.purchasePrice !== undefined
+                ? Math.max(
+                    0,
+                    lot.purchasePrice -
+                      this.calculateValueLost(lot, consumedFromLot),
+                  )
+                : lot.purchasePrice,
+            updatedAt: new Date(),
+          },
+        });
+      }
+
+      consumedLots.push({
+        id: lot.id,
+        quantityConsumed: consumedFromLot,
+        remainingQuantity,
+        deleted: remainingQuantity <= 0,
+      });
+    }
+
+    await this.inventoryMovements.record(
+      consumedLots.map((consumedLot) => {
+        const lot = lots.find((candidate) => candidate.id === consumedLot.id)!;
+
+        return {
+          userId,
+          productId: lot.productId,
+          inventoryItemId: consumedLot.id,
+          recipeId: movement.recipeId,
+          reason: movement.reason,
+          quantityDelta: -consumedLot.quantityConsumed,
+          storageLocation: lot.storageLocation,
+        };
+      }),
+      tx,
+    );
+
+    return consumedLots;
+  }
+
+  /**
+   * Range les restes d'une recette cuisinée : un produit « fait maison » au
+   * nom de la recette et un lot cuit, compté en portions, dont la date de
+   * péremption suit les règles des plats cuits. À appeler dans une
+   * transaction.
+   */
+  async addRecipeLeftovers(
+    tx: any,
+    userId: string,
+    leftovers: {
+      recipeId: string;
+      recipeName: string;
+      portions: number;
+      storageLocation: string;
+    },
+  ) {
+    this.validatePositiveQuantity(leftovers.portions);
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const userRules = await this.shelfLifeOverrides.getUserRules(userId);
+    const product = await this.findOrCreateHomemadeProduct(
+      tx,
+      leftovers.recipeName,
+    );
+    const cookedAt = new Date();
+    const expiryEstimation = estimateExpiryDate({
+      productId: product.id,
+      productName: product.name,
+      categorySlug: product.Category?.slug,
+      categoryName: product.Category?.name,
+      storageLocation: leftovers.storageLocation,
+      storageGroup: resolveGroup(leftovers.storageLocation),
+      preparationStatus: 'COOKED',
+      purchaseDate: cookedAt,
+      userRules,
+    });
+
+    const inventoryItem = await tx.inventoryItem.create({
+      data: {
+        id: randomUUID(),
+        userId,
+        productId: product.id,
+        recipeId: leftovers.recipeId,
+        quantity: leftovers.portions,
+        purchaseDate: cookedAt,
+        expiryDate: expiryEstimation.expiryDate,
+        expiryDateSource: expiryEstimation.source,
+        expiryKind: expiryEstimation.expiryKind,
+        preparationStatus: 'COOKED',
+        storageLocation: leftovers.storageLocation,
+        updatedAt: cookedAt,
+      },
+    });
+    await this.inventoryMovements.record(
+      {
+        userId,
+        productId: product.id,
+        inventoryItemId: inventoryItem.id,
+        recipeId: leftovers.recipeId,
+        reason: 'ADDED',
+        quantityDelta: leftovers.portions,
+        storageLocation: inventoryItem.storageLocation,
+      },
+      tx,
+    );
+
+    return {
+      inventoryItemId: inventoryItem.id,
+      productId: product.id,
+      name: product.name,
+      quantity: inventoryItem.quantity,
+      storageLocation: inventoryItem.storageLocation,
+      expiryDate: inventoryItem.expiryDate,
+    };
+  }
+
+  /**
+   * Resynchronise les alertes de péremption et de stock bas après une
+   * modification de l'inventaire faite par un autre module (recettes...)
+   */
+  async refreshInventoryNotifications(userId: string): Promise<void> {
+    await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
+  }
+
+  /**
+   * Poids d'une pièce (g, ou ml pour un liquide) d'un produit de l'inventaire,
+   * utilisé pour convertir les pièces en masse ou en volume
+   */
+  async setProductPieceWeight(
+    userId: string,
+    productId: string,
+    pieceWeight: number | null,
+  ) {
+    const inventoryItem = await this.prisma.inventoryItem.findFirst({
+      where: { userId, productId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!inventoryItem) {
+      throw new NotFoundException('Produit absent de votre inventaire');
+    }
+
+    const product = await this.prisma.$transaction(async (tx: any) => {
+      await this.savePieceWeight(tx, userId, productId, pieceWeight);
+
+      return tx.product.findUnique({
+        where: { id: productId },
+        select: { id: true, name: true, unitType: true },
+      });
+    });
+
+    return {
+      success: true,
+      message:
+        pieceWeight === null
+          ? "Poids d'une pièce retiré"
+          : "Poids d'une pièce enregistré",
+      data: { ...product, pieceWeight },
+    };
+  }
+
+  /**
+   * Le poids d'une pièce est propre à l'utilisateur : le catalogue produit est
+   * partagé par tous et n'est jamais modifié ici
+   */
+  private async savePieceWeight(
+    tx: any,
+    userId: string,
+    productId: string,
+    pieceWeight: number | null,
+  ): Promise<void> {
+    if (pieceWeight === null) {
+      await tx.productPieceWeight.deleteMany({ where: { userId, productId } });
+      return;
+    }
+
+    await tx.productPieceWeight.upsert({
+      where: { userId_productId: { userId, productId } },
+      create: {
+        id: randomUUID(),
+        userId,
+        productId,
+        pieceWeight,
+        updatedAt: new Date(),
+      },
+      update: { pieceWeight, updatedAt: new Date() },
+    });
+  }
+
+  /**
+   * Supprime plusieurs éléments d'inventaire appartenant à l'utilisateur,
+   * restaurables pendant INVENTORY_RESTORE_WINDOW_DAYS jours
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemIds IDs des éléments à supprimer
+   */
+  async removeInventoryItems(userId: string, inventoryItemIds: string[]) {
+    const uniqueIds = [...new Set(inventoryItemIds)];
+
+    if (uniqueIds.length === 0) {
+      throw new BadRequestException('Aucun produit sélectionné');
+    }
+
+    const result = await this.prisma.$transaction(async (tx: any) => {
+      const removedItems = await tx.inventoryItem.findMany({
+        where: {
+          id: { in: uniqueIds },
+          userId,
+          deletedAt: null,
+        },
+      });
+      const deleted = await tx.inventoryItem.updateMany({
+        where: {
+          id: { in: removedItems.map((item: any) => item.id) },
+          userId,
+        },
+        data: { deletedAt: new Date() },
+      });
+      await this.inventoryMovements.record(
+        removedItems.map((item: any) =>
+          this.buildRemovalMovement(userId, item),
+        ),
+        tx,
+      );
+
+      return deleted;
+    });
+    await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
+
+    return {
+      success: true,
+      deletedCount: result.count,
+      message:
+        result.count > 1
+          ? `${result.count} produits supprimés de l'inventaire`
+          : `${result.count} produit supprimé de l'inventaire`,
+    };
+  }
+
+  /**
+   * Restaure un lot supprimé tant que le délai de restauration court
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemId ID du lot supprimé
+   */
+  async restoreInventoryItem(userId: string, inventoryItemId: string) {
+    const result = await this.restoreInventoryItems(userId, [inventoryItemId]);
+
+    if (result.restoredCount === 0) {
+      throw new NotFoundException(
+        'Élément supprimé introuvable ou délai de restauration dépassé',
+      );
+    }
+
+    return { success: true, message: "Produit restauré dans l'inventaire" };
+  }
+
+  /**
+   * Restaure plusieurs lots supprimés. Les lots purgés ou hors délai sont
+   * ignorés.
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemIds IDs des lots supprimés
+   */
+  async restoreInventoryItems(userId: string, inventoryItemIds: string[]) {
+    const uniqueIds = [...new Set(inventoryItemIds)];
+
+    if (uniqueIds.length === 0) {
+      throw new BadRequestException('Aucun produit sélectionné');
+    }
+
+    const restorableSince = new Date(
+      Date.now() - INVENTORY_RESTORE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const result = await this.prisma.$transaction(async (tx: any) => {
+      const restoredItems = await tx.inventoryItem.findMany({
+        where: {
+          id: { in: uniqueIds },
+          userId,
+          deletedAt: { gte: restorableSince },
+        },
+      });
+      const restored = await tx.inventoryItem.updateMany({
+        where: {
+          id: { in: restoredItems.map((item: any) => item.id) },
+          userId,
+        },
+        data: { deletedAt: null, updatedAt: new Date() },
+      });
+      await this.inventoryMovements.record(
+        restoredItems.map((item: any) => ({
+          ...this.buildRemovalMovement(userId, item),
+          quantityDelta: item.quantity,
+          notes: 'Lot restauré',
+        })),
+        tx,
+      );
+
+      return restored;
+    });
+    await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
+
+    return {
+      success: true,
+      restoredCount: result.count,
+      message:
+        result.count > 1
+          ? `${result.count} produits restaurés dans l'inventaire`
+          : `${result.count} produit restauré dans l'inventaire`,
+    };
+  }
+
+  /**
+   * Jette tout ou partie d'un lot et enregistre la perte associée
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemId ID du lot jeté
+   * @param discardDto Motif, quantité (lot entier par défaut) et notes
+   */
+  async discardInventoryItem(
+    userId: string,
+    inventoryItemId: string,
+    discardDto: DiscardInventoryItemDto,
+  ) {
+    const result = await this.prisma.$transaction(async (tx: any) => {
+      const lot = await tx.inventoryItem.findFirst({
+        where: {
+          id: inventoryItemId,
+          userId,
+          deletedAt: null,
+        },
+      });
+
+      if (!lot) {
+        throw new NotFoundException("Élément d'inventaire non trouvé");
+      }
+
+      const quantityDiscarded = discardDto.quantity ?? lot.quantity;
+      this.validatePositiveQuantity(quantityDiscarded);
+
+      if (quantityDiscarded > lot.quantity) {
+        throw new BadRequestException(
+          `Quantité insuffisante dans le lot (${lot.quantity} disponible)`,
+        );
+      }
+
+      const valueLost = this.calculateValueLost(lot, quantityDiscarded);
+      const remainingQuantity = lot.quantity - quantityDiscarded;
+
+      if (remainingQuantity <= 0) {
+        await tx.inventoryItem.delete({
+          where: { id: lot.id },
+        });
+      } else {
+        await tx.inventoryItem.update({
+          where: { id: lot.id },
+          data: {
+            quantity: remainingQuantity,
+            purchasePrice:
+              lot.purchasePrice !== null && lot.purchasePrice !== undefined
+                ? Math.max(0, lot.purchasePrice - valueLost)
+                : lot.purchasePrice,
+            updatedAt: new Date(),
+          },
+        });
+      }
+
+      await this.inventoryMovements.record(
+        this.buildWasteMovement(
+          userId,
+          lot,
+          quantityDiscarded,
+          valueLost,
+          discardDto,
+        ),
+        tx,
+      );
+
+      return {
+        success: true,
+        productId: lot.productId,
+        quantityDiscarded,
+        remainingQuantity,
+        valueLost,
+        deleted: remainingQuantity <= 0,
+      };
+    });
+    await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
+    return result;
+  }
+
+  /**
+   * Jette plusieurs lots entiers avec un même motif de gaspillage
+   * @param userId ID de l'utilisateur
+   * @param discardDto IDs des lots, motif et notes
+   */
+  async discardInventoryItems(
+    userId: string,
+    discardDto: DiscardInventoryItemsDto,
+  ) {
+    const uniqueIds = [...new Set(discardDto.ids)];
+
+    if (uniqueIds.length === 0) {
+      throw new BadRequestException('Aucun produit sélectionné');
+    }
+
+    const result = await this.prisma.$transaction(async (tx: any) => {
+      const discardedItems = await tx.inventoryItem.findMany({
+        where: {
+          id: { in: uniqueIds },
+          userId,
+          deletedAt: null,
+        },
+      });
+      const deleted = await tx.inventoryItem.deleteMany({
+        where: {
+          id: { in: discardedItems.map((item: any) => item.id) },
+          userId,
+        },
+      });
+      const movements = discardedItems.map((item: any) =>
+        this.buildWasteMovement(
+          userId,
+          item,
+          item.quantity,
+          this.calculateValueLost(item, item.quantity),
+          discardDto,
+        ),
+      );
+      await this.inventoryMovements.record(movements, tx);
+
+      return {
+        count: deleted.count,
+        valueLost: movements.reduce(
+          (total: number, movement: InventoryMovementInput) =>
+            total + (movement.valueLost ?? 0),
+          0,
+        ),
+      };
+    });
+    await this.refreshExpiryNotifications(userId);
+    await this.refreshLowStockNotifications(userId);
+
+    return {
+      success: true,
+      discardedCount: result.count,
+      valueLost: Math.round(result.valueLost * 100) / 100,
+      message:
+        result.count > 1
+          ? `${result.count} produits jetés`
+          : `${result.count} produit jeté`,
+    };
+  }
+
+  /**
+   * Déplace un lot vers un autre lieu de stockage
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemId ID du lot
+   * @param storageLocation Nouveau lieu de stockage
+   */
+  async moveInventoryItem(
+    userId: string,
+    inventoryItemId: string,
+    storageLocation: string,
+  ) {
+    const item = await this.findInventoryLot(userId, inventoryItemId);
+
+    if (item.storageLocation === storageLocation) {
+      throw new BadRequestException('Ce lot est déjà à cet emplacement');
+    }
+
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+
+    return await this.relocateInventoryLot(userId, item, resolveGroup, {
+      storageLocation,
+      thawedAt: this.resolveThawedAt(item, storageLocation, resolveGroup),
+      frozenAt: this.resolveFrozenAt(item, storageLocation, resolveGroup),
+    });
+  }
+
+  /**
+   * Place un lot au congélateur
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemId ID du lot
+   * @param storageLocation Congélateur de destination (le premier congélateur
+   * de l'utilisateur par défaut)
+   */
+  async freezeInventoryItem(
+    userId: string,
+    inventoryItemId: string,
+    storageLocation?: string,
+  ) {
+    const item = await this.findInventoryLot(userId, inventoryItemId);
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const defaultFreezer =
+      await this.storageLocations.findStorageLocationByGroup(userId, 'freezer');
+    const targetLocation =
+      storageLocation ?? defaultFreezer?.name ?? DEFAULT_FREEZER_LOCATION;
+
+    if (resolveGroup(item.storageLocation) === 'freezer') {
+      throw new BadRequestException('Ce lot est déjà au congélateur');
+    }
+
+    if (resolveGroup(targetLocation) !== 'freezer') {
+      throw new BadRequestException(
+        `"${targetLocation}" n'est pas un congélateur`,
+      );
+    }
+
+    return await this.relocateInventoryLot(userId, item, resolveGroup, {
+      storageLocation: targetLocation,
+      thawedAt: null,
+      frozenAt: new Date(),
+    });
+  }
+
+  /**
+   * Sort un lot du congélateur. Sa durée de conservation repart de la date de
+   * décongélation avec la règle du lieu de destination (réfrigérateur par
+   * défaut), bien plus courte qu'au congélateur.
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemId ID du lot
+   * @param storageLocation Lieu de décongélation (le premier réfrigérateur de
+   * l'utilisateur par défaut)
+   */
+  async thawInventoryItem(
+    userId: string,
+    inventoryItemId: string,
+    storageLocation?: string,
+  ) {
+    const item = await this.findInventoryLot(userId, inventoryItemId);
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const defaultFridge =
+      await this.storageLocations.findStorageLocationByGroup(userId, 'fridge');
+    const targetLocation =
+      storageLocation ?? defaultFridge?.name ?? DEFAULT_THAW_LOCATION;
+
+    if (resolveGroup(item.storageLocation) !== 'freezer') {
+      throw new BadRequestException("Ce lot n'est pas au congélateur");
+    }
+
+    if (resolveGroup(targetLocation) === 'freezer') {
+      throw new BadRequestException(
+        'Le lieu de décongélation doit être hors du congélateur',
+      );
+    }
+
+    return await this.relocateInventoryLot(userId, item, resolveGroup, {
+      storageLocation: targetLocation,
+      thawedAt: new Date(),
+      frozenAt: null,
+    });
+  }
+
+  /**
+   * Sépare une partie d'un lot dans un nouveau lot, éventuellement rangé
+   * ailleurs (ex. congeler la moitié d'une barquette)
+   * @param userId ID de l'utilisateur
+   * @param inventoryItemId ID du lot d'origine
+   * @param quantity Quantité à placer dans le nouveau lot
+   * @param storageLocation Lieu du nouveau lot (celui d'origine par défaut)
+   */
+  async splitInventoryItem(
+    userId: string,
+    inventoryItemId: string,
+    quantity: number,
+    storageLocation?: string,
+  ) {
+    this.validatePositiveQuantity(quantity);
+    const item = await this.findInventoryLot(userId, inventoryItemId);
+
+    if (quantity >= item.quantity) {
+      throw new BadRequestException(
+        `La quantité à séparer doit être inférieure à celle du lot (${item.quantity})`,
+      );
+    }
+
+    const targetLocation = storageLocation ?? item.storageLocation;
+    const locationChanged = targetLocation !== item.storageLocation;
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const thawedAt = this.resolveThawedAt(item, targetLocation, resolveGroup);
+    const frozenAt = this.resolveFrozenAt(item, targetLocation, resolveGroup);
+    const userRules = await this.shelfLifeOverrides.getUserRules(userId);
+    const splitPrice =
+      item.purchasePrice !== null && item.purchasePrice !== undefined
+        ? Math.round(((item.purchasePrice * quantity) / item.quantity) * 100) /
+          100
+        : null;
+
+    const result = await this.prisma.$transaction(async (tx: any) => {
+      const source = await tx.inventoryItem.update({
+        where: { id: item.id },
+        data: {
+          quantity: item.quantity - quantity,
+          purchasePrice:
+            splitPrice !== null ? item.purchasePrice - splitPrice : null,
+          updatedAt: new Date(),
+        },
+        include: {
+          Product: {
+            include: {
+              Category: true,
+            },
+          },
+        },
+      });
+      const created = await tx.inventoryItem.create({
+        data: {
+          id: randomUUID(),
+          userId,
+          productId: item.productId,
+          quantity,
+          purchaseDate: item.purchaseDate,
+          purchasePrice: splitPrice,
+          expiryDate: item.expiryDate,
+          expiryDateSource: item.expiryDateSource,
+          expiryKind: item.expiryKind,
+          packageStatus: item.packageStatus,
+          preparationStatus: item.preparationStatus,
+          storageLocation: targetLocation,
+          thawedAt,
+          frozenAt,
+          notes: item.notes,
+          ...(locationChanged
+            ? this.reestimateLotExpiry(
+                item,
+                targetLocation,
+                thawedAt,
+                resolveGroup,
+                userRules,
+              )
+            : {}),
+          updatedAt: new Date(),
+        },
+        include: {
+          Product: {
+            include: {
+              Category: true,
+            },
+          },
+        },
+      });
+
+      return { source, created };
+    });
+    await this.refreshExpiryNotifications(userId);
+
+    return result;
+  }
+
+  /**
+   * Recalcule les dates estimées de tous les lots de l'utilisateur, par
+   * exemple après la modification d'une règle de conservation personnelle.
+   * Les dates saisies manuellement ne sont pas modifiées.
+   * @param userId ID de l'utilisateur
+   */
+  async recomputeEstimatedExpiryDates(userId: string) {
+    const items = await this.prisma.inventoryItem.findMany({
+      where: { userId, expiryDateSource: 'ESTIMATED', deletedAt: null },
+      include: {
+        Product: {
+          include: {
+            Category: true,
+          },
+        },
+      },
+    });
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const userRules = await this.shelfLifeOverrides.getUserRules(userId);
+    const now = new Date();
+    let updatedCount = 0;
+
+    await this.prisma.$transaction(async (tx: any) => {
+      for (const item of items) {
+        const { expiryDate } = this.reestimateLotExpiry(
+          item,
+          item.storageLocation,
+          item.thawedAt,
+          resolveGroup,
+          userRules,
+        );
+
+        if (expiryDate?.getTime() === item.expiryDate?.getTime()) {
+          continue;
+        }
+
+        await tx.inventoryItem.update({
+          where: { id: item.id },
+          data: { expiryDate, updatedAt: now },
+        });
+        updatedCount += 1;
+      }
+    });
+
+    if (updatedCount > 0) {
+      await this.refreshExpiryNotifications(userId);
+    }
+
+    return {
+      success: true,
+      message: `${updatedCount} date(s) de péremption recalculée(s)`,
+      data: { updatedCount },
+    };
+  }
+
+  /**
+   * Liste les mouvements de stock de l'utilisateur
+   * @param userId ID de l'utilisateur
+   * @param query Filtres (produit, motif, période) et pagination
+   */
+  async getInventoryMovements(
+    userId: string,
+    query: InventoryMovementQueryDto,
+  ) {
+    return await this.inventoryMovements.list(userId, query);
+  }
+
+  // --- MÉTHODES PRIVÉES ---
+
+  private async findInventoryLot(userId: string, inventoryItemId: string) {
+    const item = await this.prisma.inventoryItem.findFirst({
+      where: {
+        id: inventoryItemId,
+        userId,
+        deletedAt: null,
+      },
+      include: {
+        Product: {
+          include: {
+            Category: true,
+          },
+        },
+      },
+    });
+
+    if (!item) {
+      throw new NotFoundException("Élément d'inventaire non trouvé");
+    }
+
+    return item as any;
+  }
+
+  /**
+   * Change le lieu de stockage d'un lot et recalcule sa date estimée
+   */
+  private async relocateInventoryLot(
+    userId: string,
+    item: any,
+    resolveGroup: StorageGroupResolver,
+    changes: {
+      storageLocation: string;
+      thawedAt: Date | null;
+      frozenAt: Date | null;
+    },
+  ) {
+    const userRules = await this.shelfLifeOverrides.getUserRules(userId);
+    const updatedItem = await this.prisma.inventoryItem.update({
+      where: { id: item.id },
+      data: {
+        storageLocation: changes.storageLocation,
+        thawedAt: changes.thawedAt,
+        frozenAt: changes.frozenAt,
+        ...this.reestimateLotExpiry(
+          item,
+          changes.storageLocation,
+          changes.thawedAt,
+          resolveGroup,
+          userRules,
+        ),
+        updatedAt: new Date(),
+      },
       include: {
         Product: {
           include: {
@@ -511,168 +1775,146 @@ export class InventoryService {
       },
     });
     await this.refreshExpiryNotifications(userId);
+
     return updatedItem;
   }
 
   /**
-   * Supprime un élément d'inventaire
-   * @param userId ID de l'utilisateur
-   * @param inventoryItemId ID de l'élément à supprimer
+   * Un lot qui entre au congélateur n'est plus décongelé ; un lot qui en sort
+   * est décongelé maintenant
    */
-  async removeInventoryItem(userId: string, inventoryItemId: string) {
-    const existingItem = await this.prisma.inventoryItem.findFirst({
-      where: {
-        id: inventoryItemId,
-        userId,
-      },
-    });
-
-    if (!existingItem) {
-      throw new NotFoundException("Élément d'inventaire non trouvé");
+  private resolveThawedAt(
+    item: any,
+    targetLocation: string | null,
+    resolveGroup: StorageGroupResolver,
+  ): Date | null {
+    if (resolveGroup(targetLocation) === 'freezer') {
+      return null;
     }
 
-    await this.prisma.inventoryItem.delete({
-      where: { id: inventoryItemId },
-    });
-    await this.refreshExpiryNotifications(userId);
-
-    return { success: true, message: "Produit supprimé de l'inventaire" };
+    return resolveGroup(item.storageLocation) === 'freezer'
+      ? new Date()
+      : item.thawedAt;
   }
 
-  async consumeInventoryItem(
-    userId: string,
-    inventoryItemId: string,
-    quantityConsumed: number,
-  ) {
-    this.validatePositiveQuantity(quantityConsumed);
-
-    const result = await this.prisma.$transaction(async (tx: any) => {
-      const selectedItem = await tx.inventoryItem.findFirst({
-        where: {
-          id: inventoryItemId,
-          userId,
-        },
-      });
-
-      if (!selectedItem) {
-        throw new NotFoundException("Élément d'inventaire non trouvé");
-      }
-
-      const lots = await tx.inventoryItem.findMany({
-        where: {
-          userId,
-          productId: selectedItem.productId,
-        },
-        orderBy: [{ createdAt: 'asc' }],
-      });
-      const sortedLots = [...lots].sort((first, second) => {
-        const expiryComparison = this.compareNullableDates(
-          first.expiryDate,
-          second.expiryDate,
-        );
-
-        if (expiryComparison !== 0) {
-          return expiryComparison;
-        }
-
-        return (
-          new Date(first.createdAt).getTime() -
-          new Date(second.createdAt).getTime()
-        );
-      });
-      const availableQuantity = sortedLots.reduce(
-        (total, lot) => total + lot.quantity,
-        0,
-      );
-
-      if (quantityConsumed > availableQuantity) {
-        throw new BadRequestException(
-          `Quantité insuffisante dans l'inventaire (${availableQuantity} disponible)`,
-        );
-      }
-
-      let remainingToConsume = quantityConsumed;
-      const consumedLots: Array<{
-        id: string;
-        quantityConsumed: number;
-        remainingQuantity: number;
-        deleted: boolean;
-      }> = [];
-
-      for (const lot of sortedLots) {
-        if (remainingToConsume <= 0) {
-          break;
-        }
-
-        const consumedFromLot = Math.min(lot.quantity, remainingToConsume);
-        const remainingQuantity = lot.quantity - consumedFromLot;
-
-        if (remainingQuantity <= 0) {
-          await tx.inventoryItem.delete({
-            where: { id: lot.id },
-          });
-        } else {
-          await tx.inventoryItem.update({
-            where: { id: lot.id },
-            data: {
-              quantity: remainingQuantity,
-              updatedAt: new Date(),
-            },
-          });
-        }
-
-        consumedLots.push({
-          id: lot.id,
-          quantityConsumed: consumedFromLot,
-          remainingQuantity,
-          deleted: remainingQuantity <= 0,
-        });
-        remainingToConsume -= consumedFromLot;
-      }
+  /**
+   * Un lot qui entre au congélateur est congelé maintenant ; il garde sa date
+   * de congélation d'un congélateur à l'autre et la perd en sortant
+   */
+  private resolveFrozenAt(
+    item: any,
+    targetLocation: string | null,
+    resolveGroup: StorageGroupResolver,
+  ): Date | null {
+    if (resolveGroup(targetLocation) !== 'freezer') {
+      return null;
+    }
 
-      return {
-        success: true,
-        productId: selectedItem.productId,
-        quantityConsumed,
-        remainingQuantity: availableQuantity - quantityConsumed,
-        consumedLots,
-      };
-    });
-    await this.refreshExpiryNotifications(userId);
-    return result;
+    return resolveGroup(item.storageLocation) === 'freezer'
+      ? (item.frozenAt ?? null)
+      : new Date();
   }
 
   /**
-   * Supprime plusieurs éléments d'inventaire appartenant à l'utilisateur
-   * @param userId ID de l'utilisateur
-   * @param inventoryItemIds IDs des éléments à supprimer
+   * Recalcule la date d'un lot pour un nouveau lieu de stockage. Seules les
+   * dates estimées sont recalculées : une date saisie est conservée. Un lot
+   * décongelé compte sa durée à partir de la décongélation.
    */
-  async removeInventoryItems(userId: string, inventoryItemIds: string[]) {
-    const uniqueIds = [...new Set(inventoryItemIds)];
-
-    if (uniqueIds.length === 0) {
-      throw new BadRequestException('Aucun produit sélectionné');
+  private reestimateLotExpiry(
+    item: any,
+    storageLocation: string | null,
+    thawedAt: Date | null,
+    resolveGroup: StorageGroupResolver,
+    userRules: UserShelfLifeRule[],
+  ): { expiryDate?: Date | null; expiryDateSource?: 'ESTIMATED' } {
+    if (item.expiryDateSource !== 'ESTIMATED') {
+      return {};
     }
 
-    const result = await this.prisma.inventoryItem.deleteMany({
-      where: {
-        id: { in: uniqueIds },
-        userId,
-      },
+    const expiryEstimation = estimateExpiryDate({
+      productId: item.productId,
+      productName: item.Product.name,
+      categorySlug: item.Product.Category?.slug,
+      categoryName: item.Product.Category?.name,
+      storageLocation,
+      storageGroup: resolveGroup(storageLocation),
+      packageStatus: item.packageStatus,
+      preparationStatus: item.preparationStatus,
+      purchaseDate: thawedAt ?? item.purchaseDate,
+      addedAt: item.createdAt,
+      userRules,
     });
-    await this.refreshExpiryNotifications(userId);
 
     return {
-      success: true,
-      deletedCount: result.count,
-      message:
-        result.count > 1
-          ? `${result.count} produits supprimés de l'inventaire`
-          : `${result.count} produit supprimé de l'inventaire`,
+      expiryDate: expiryEstimation.expiryDate,
+      expiryDateSource: 'ESTIMATED',
     };
   }
 
-  // --- MÉTHODES PRIVÉES ---
+  /**
+   * Construit le mouvement correspondant au retrait complet d'un lot
+   */
+  private buildRemovalMovement(
+    userId: string,
+    item: {
+      id: string;
+      productId: string;
+      quantity: number;
+      storageLocation?: string | null;
+    },
+  ): InventoryMovementInput {
+    return {
+      userId,
+      productId: item.productId,
+      inventoryItemId: item.id,
+      reason: 'ADJUSTED',
+      quantityDelta: -item.quantity,
+      storageLocation: item.storageLocation,
+      notes: 'Lot supprimé',
+    };
+  }
+
+  /**
+   * Construit le mouvement WASTED d'une quantité jetée
+   */
+  private buildWasteMovement(
+    userId: string,
+    item: {
+      id: string;
+      productId: string;
+      storageLocation?: string | null;
+    },
+    quantityDiscarded: number,
+    valueLost: number,
+    discardDto: Pick<DiscardInventoryItemDto, 'reason' | 'notes'>,
+  ): InventoryMovementInput {
+    return {
+      userId,
+      productId: item.productId,
+      inventoryItemId: item.id,
+      reason: 'WASTED',
+      quantityDelta: -quantityDiscarded,
+      storageLocation: item.storageLocation,
+      notes: discardDto.notes,
+      wasteReason: discardDto.reason,
+      valueLost,
+    };
+  }
+
+  /**
+   * Valeur perdue au prorata du prix d'achat du lot
+   */
+  private calculateValueLost(
+    item: { quantity: number; purchasePrice?: number | null },
+    quantityDiscarded: number,
+  ): number {
+    if (!item.purchasePrice || item.quantity <= 0) {
+      return 0;
+    }
+
+    const ratio = Math.min(1, quantityDiscarded / item.quantity);
+    return Math.round(item.purchasePrice * ratio * 100) / 100;
+  }
 
   private async refreshExpiryNotifications(userId: string): Promise<void> {
     try {
@@ -682,6 +1924,18 @@ export class InventoryService {
     }
   }
 
+  /**
+   * Les stocks minimums portent sur la quantité cumulée des lots : toute
+   * entrée ou sortie peut déclencher ou résoudre une alerte.
+   */
+  private async refreshLowStockNotifications(userId: string): Promise<void> {
+    try {
+      await this.notifications?.synchronizeLowStockNotifications(userId);
+    } catch (error) {
+      this.logger.error('Failed to synchronize low stock notifications', error);
+    }
+  }
+
   /**
    * Calcule le statut d'expiration d'un produit (conforme à la logique dans base.ts)
    * @param expiryDate Date de péremption (peut être null)
@@ -705,11 +1959,9 @@ export class InventoryService {
   }
 
   /**
-   * Valide les données métier du produit
+   * Valide les données métier du produit (aussi utilisé par l'import)
    */
-  private async validateProductData(
-    addProductDto: AddManualProductDto,
-  ): Promise<void> {
+  async validateProductData(addProductDto: AddManualProductDto): Promise<void> {
     this.validateInventoryDates(
       addProductDto.purchaseDate,
       addProductDto.expiryDate,
@@ -791,6 +2043,32 @@ export class InventoryService {
     }
   }
 
+  /**
+   * Exprime une quantité dans l'unité du produit, en passant par le poids
+   * d'une pièce entre pièces et masse ou volume
+   */
+  private toProductQuantity(
+    quantity: number,
+    unit: QuantityUnit,
+    product: { unitType: QuantityUnit; pieceWeight?: number | null },
+  ): number {
+    const converted = convertQuantity(
+      quantity,
+      unit,
+      product.unitType,
+      product.pieceWeight,
+    );
+
+    if (converted === null) {
+      throw new BadRequestException(
+        `Impossible de convertir des ${QUANTITY_UNIT_LABELS[unit]} en ${QUANTITY_UNIT_LABELS[product.unitType]} pour ce produit. Renseignez le poids d'une pièce.`,
+      );
+    }
+
+    this.validatePositiveQuantity(converted);
+    return converted;
+  }
+
   private validatePurchasePrice(purchasePrice?: number): void {
     if (purchasePrice === undefined || purchasePrice === null) {
       return;
@@ -816,6 +2094,43 @@ export class InventoryService {
   /**
    * Trouve un produit existant ou en crée un nouveau
    */
+  private async findOrCreateHomemadeProduct(tx: any, name: string) {
+    const existingProduct = await tx.product.findFirst({
+      where: {
+        name: { equals: name, mode: 'insensitive' },
+        brand: HOMEMADE_BRAND,
+        barcode: null,
+      },
+      include: { Category: true },
+    });
+
+    if (existingProduct) {
+      return existingProduct;
+    }
+
+    const category = await tx.category.findFirst({
+      where: { slug: HOMEMADE_CATEGORY_SLUG },
+    });
+
+    if (!category) {
+      throw new BadRequestException(
+        `La catégorie "${HOMEMADE_CATEGORY_SLUG}" n'existe pas`,
+      );
+    }
+
+    return await tx.product.create({
+      data: {
+        id: randomUUID(),
+        name,
+        brand: HOMEMADE_BRAND,
+        categoryId: category.id,
+        unitType: 'UNIT',
+        updatedAt: new Date(),
+      },
+      include: { Category: true },
+    });
+  }
+
   private async findOrCreateProduct(
     tx: any, // Type générique pour la transaction Prisma
     addProductDto: AddManualProductDto,
@@ -897,6 +2212,7 @@ export class InventoryService {
           ecoscore: addProductDto.ecoscore,
           novascore: addProductDto.novascore,
           ingredients: addProductDto.ingredients,
+          allergens: addProductDto.allergens ?? [],
           imageUrl: addProductDto.imageUrl,
           nutrients: nutritionalData,
           updatedAt: new Date(),
@@ -914,6 +2230,67 @@ export class InventoryService {
     }
   }
 
+  /**
+   * Range une quantité d'un produit dans l'inventaire : estime la date de
+   * péremption, crée ou incrémente le lot compatible et trace l'ajout
+   */
+  private async stockProductLot(
+    tx: any,
+    userId: string,
+    product: any,
+    itemData: InventoryItemInput &
+      Partial<Pick<AddManualProductDto, 'name' | 'category' | 'expiryDate'>>,
+    resolveGroup: StorageGroupResolver,
+    userRules: UserShelfLifeRule[],
+  ) {
+    const expiryEstimation = estimateExpiryDate({
+      productId: product.id,
+      productName: product.name ?? itemData.name,
+      categorySlug: product.Category?.slug ?? itemData.category,
+      categoryName: product.Category?.name,
+      storageLocation: itemData.storageLocation,
+      storageGroup: resolveGroup(itemData.storageLocation),
+      packageStatus: itemData.packageStatus,
+      preparationStatus: itemData.preparationStatus,
+      purchaseDate: itemData.purchaseDate,
+      manualExpiryDate: itemData.expiryDate,
+      manualExpiryKind: itemData.expiryKind,
+      userRules,
+    });
+
+    const inventoryItem = await this.upsertInventoryLot(
+      tx,
+      userId,
+      product.id,
+      itemData,
+      expiryEstimation,
+    );
+    await this.inventoryMovements.record(
+      {
+        userId,
+        productId: product.id,
+        inventoryItemId: inventoryItem.id,
+        reason: 'ADDED',
+        quantityDelta: itemData.quantity,
+        storageLocation: inventoryItem.storageLocation,
+      },
+      tx,
+    );
+    await this.productPrices.record(
+      {
+        userId,
+        productId: product.id,
+        source: 'MANUAL',
+        quantity: itemData.quantity,
+        totalPrice: itemData.purchasePrice,
+        purchasedAt: new Date(itemData.purchaseDate),
+      },
+      tx,
+    );
+
+    return { inventoryItem, expiryEstimation };
+  }
+
   private async upsertInventoryLot(
     tx: any,
     userId: string,
@@ -929,6 +2306,8 @@ export class InventoryService {
         packageStatus: itemData.packageStatus || null,
         preparationStatus: itemData.preparationStatus || null,
         expiryDate: expiryEstimation.expiryDate,
+        expiryKind: expiryEstimation.expiryKind,
+        deletedAt: null,
       },
       include: {
         Product: {
@@ -974,6 +2353,7 @@ export class InventoryService {
         purchaseDate: new Date(itemData.purchaseDate),
         expiryDate: expiryEstimation.expiryDate,
         expiryDateSource: expiryEstimation.source,
+        expiryKind: expiryEstimation.expiryKind,
         packageStatus: itemData.packageStatus || null,
         preparationStatus: itemData.preparationStatus || null,
         purchasePrice: itemData.purchasePrice ?? null,
@@ -1037,11 +2417,16 @@ export class InventoryService {
       quantity: item.quantity,
       expiryDate: item.expiryDate,
       expiryDateSource: item.expiryDateSource,
+      expiryKind: item.expiryKind,
       purchaseDate: item.purchaseDate,
       purchasePrice: item.purchasePrice,
       storageLocation: item.storageLocation,
+      thawedAt: item.thawedAt,
+      frozenAt: item.frozenAt,
+      stocktakeFlaggedAt: item.stocktakeFlaggedAt,
       packageStatus: item.packageStatus,
       preparationStatus: item.preparationStatus,
+      recipe: item.Recipe ?? null,
       notes: item.notes,
       createdAt: item.createdAt,
       updatedAt: item.updatedAt,
@@ -1054,6 +2439,24 @@ export class InventoryService {
     );
   }
 
+  private sortLotsByExpiry<T extends LotForConsumption>(lots: T[]): T[] {
+    return [...lots].sort((first, second) => {
+      const expiryComparison = this.compareNullableDates(
+        first.expiryDate,
+        second.expiryDate,
+      );
+
+      if (expiryComparison !== 0) {
+        return expiryComparison;
+      }
+
+      return (
+        new Date(first.createdAt ?? 0).getTime() -
+        new Date(second.createdAt ?? 0).getTime()
+      );
+    });
+  }
+
   private compareNullableDates(
     firstDate?: Date | string | null,
     secondDate?: Date | string | null,
@@ -1084,6 +2487,7 @@ export class InventoryService {
       purchaseDate: inventoryItem.purchaseDate.toISOString(),
       expiryDate: inventoryItem.expiryDate?.toISOString(),
       expiryDateSource: inventoryItem.expiryDateSource,
+      expiryKind: inventoryItem.expiryKind,
       expiryDateReason: expiryEstimation?.reason,
       expiryDateRuleId: expiryEstimation?.ruleId,
       expiryDateRuleLevel: expiryEstimation?.ruleLevel,
@@ -1097,6 +2501,7 @@ export class InventoryService {
       ecoscore: product.ecoscore,
       novascore: product.novascore,
       ingredients: product.ingredients,
+      allergens: product.allergens,
       imageUrl: product.imageUrl,
       nutrients: product.nutrients
         ? {
@@ -1184,11 +2589,9 @@ export class InventoryService {
   // ===== MÉTHODES POUR L'AJOUT RAPIDE (QuickAdd) =====
 
   /**
-   * Valide les données d'ajout rapide
+   * Valide les données d'ajout rapide (aussi utilisé par l'import)
    */
-  private async validateQuickAddData(
-    quickAddDto: QuickAddProductDto,
-  ): Promise<void> {
+  async validateQuickAddData(quickAddDto: QuickAddProductDto): Promise<void> {
     this.validateInventoryDates(
       quickAddDto.purchaseDate,
       quickAddDto.expiryDate,
@@ -1229,20 +2632,20 @@ export class InventoryService {
       inventoryItems,
       storageStats,
       itemsAddedThisWeek,
+      waste,
     ] = await Promise.all([
-      this.prisma.inventoryItem.count({ where: { userId } }),
+      this.prisma.inventoryItem.count({ where: { userId, deletedAt: null } }),
       this.prisma.inventoryItem.aggregate({
-        where: { userId },
+        where: { userId, deletedAt: null },
         _sum: {
           purchasePrice: true,
-          quantity: true,
         },
         _avg: {
           purchasePrice: true,
         },
       }),
       this.prisma.inventoryItem.findMany({
-        where: { userId },
+        where: { userId, deletedAt: null },
         include: {
           Product: {
             include: {
@@ -1253,28 +2656,25 @@ export class InventoryService {
       }),
       this.prisma.inventoryItem.groupBy({
         by: ['storageLocation'],
-        where: { userId },
+        where: { userId, deletedAt: null },
         _count: { _all: true },
       }),
       this.prisma.inventoryItem.count({
-        where: { userId, createdAt: { gte: oneWeekAgo } },
+        where: { userId, createdAt: { gte: oneWeekAgo }, deletedAt: null },
       }),
+      this.inventoryMovements.getWasteStats(userId),
     ]);
+    const resolveGroup =
+      await this.storageLocations.getStorageGroupResolver(userId);
+    const userRules = await this.shelfLifeOverrides.getUserRules(userId);
 
     const expiryBreakdown = inventoryItems.reduce(
       (breakdown, item) => {
-        const expiryDate =
-          item.expiryDate ??
-          estimateExpiryDate({
-            productName: item.Product?.name,
-            categorySlug: item.Product?.Category?.slug,
-            categoryName: item.Product?.Category?.name,
-            storageLocation: item.storageLocation,
-            packageStatus: item.packageStatus,
-            preparationStatus: item.preparationStatus,
-            purchaseDate: item.purchaseDate,
-            addedAt: item.createdAt,
-          }).expiryDate;
+        const expiryDate = this.resolveLotExpiryDate(
+          item,
+          resolveGroup,
+          userRules,
+        );
         const status = this.calculateExpiryStatus(expiryDate).toLowerCase() as
           | 'good'
           | 'warning'
@@ -1282,11 +2682,34 @@ export class InventoryService {
           | 'expired'
           | 'unknown';
 
-        breakdown[status] += item.quantity || 0;
+        breakdown[status] += countArticles(
+          item.quantity || 0,
+          item.Product?.unitType,
+        );
         return breakdown;
       },
       { good: 0, warning: 0, critical: 0, expired: 0, unknown: 0 },
     );
+    const totalQuantity = Object.values(expiryBreakdown).reduce(
+      (total, quantity) => total + quantity,
+      0,
+    );
+
+    // Les masses, volumes et pièces ne s'additionnent pas entre eux
+    const quantityTotals = { massGrams: 0, volumeMilliliters: 0, pieces: 0 };
+    for (const item of inventoryItems) {
+      const { dimension, quantity } = toBaseQuantity(
+        item.quantity || 0,
+        item.Product?.unitType ?? 'UNIT',
+      );
+      const key =
+        dimension === 'mass'
+          ? 'massGrams'
+          : dimension === 'volume'
+            ? 'volumeMilliliters'
+            : 'pieces';
+      quantityTotals[key] = roundQuantity(quantityTotals[key] + quantity);
+    }
 
     const storageBreakdown = Object.fromEntries(
       storageStats.map((stat) => {
@@ -1307,7 +2730,8 @@ export class InventoryService {
     return {
       totalItems,
       totalValue: valueStats._sum.purchasePrice || 0,
-      totalQuantity: valueStats._sum.quantity || 0,
+      totalQuantity: roundQuantity(totalQuantity),
+      quantityTotals,
       averageItemValue: valueStats._avg.purchasePrice || 0,
       expiryBreakdown: {
         good: expiryBreakdown.good,
@@ -1322,6 +2746,158 @@ export class InventoryService {
         itemsAddedThisWeek,
         itemsConsumedThisWeek: 0,
       },
+      waste,
+    };
+  }
+
+  /**
+   * Valorise le stock au prix d'achat : par catégorie, par lieu de stockage,
+   * valeur qui risque d'être perdue cette semaine et ancienneté des lots
+   */
+  async getInventoryValuation(userId: string): Promise<InventoryValuation> {
+    const [inventoryItems, resolveGroup, userRules] = await Promise.all([
+      this.prisma.inventoryItem.findMany({
+        where: { userId, deletedAt: null },
+        include: {
+          Product: {
+            include: {
+              Category: true,
+            },
+          },
+        },
+      }),
+      this.storageLocations.getStorageGroupResolver(userId),
+      this.shelfLifeOverrides.getUserRules(userId),
+    ]);
+
+    const now = new Date();
+    const riskLimit = new Date(now);
+    riskLimit.setDate(riskLimit.getDate() + VALUE_AT_RISK_DAYS);
+
+    const emptyTotals = () => ({ value: 0, lotCount: 0 });
+    const addTo = (totals: ValuationTotals, value: number) => {
+      totals.value += value;
+      totals.lotCount += 1;
+    };
+
+    const byCategory = new Map<
+      string,
+      ValuationTotals & { categoryId: string | null; categoryName: string }
+    >();
+    const byStorageLocation = new Map<string, ValuationTotals>();
+    const valueAtRisk = emptyTotals();
+    const expiredValue = emptyTotals();
+    const ageDistribution = new Map<StockAgeBucket, ValuationTotals>(
+      STOCK_AGE_BUCKETS.map(({ bucket }) => [bucket, emptyTotals()]),
+    );
+    let totalValue = 0;
+    let unvaluedLotCount = 0;
+
+    for (const item of inventoryItems) {
+      if (item.purchasePrice == null) {
+        unvaluedLotCount += 1;
+        continue;
+      }
+
+      const value = item.purchasePrice;
+      totalValue += value;
+
+      const category = item.Product?.Category;
+      const categoryKey = category?.id ?? 'none';
+      if (!byCategory.has(categoryKey)) {
+        byCategory.set(categoryKey, {
+          categoryId: category?.id ?? null,
+          categoryName: category?.name ?? 'Sans catégorie',
+          ...emptyTotals(),
+        });
+      }
+      addTo(byCategory.get(categoryKey)!, value);
+
+      const storageLocation = item.storageLocation || 'unknown';
+      if (!byStorageLocation.has(storageLocation)) {
+        byStorageLocation.set(storageLocation, emptyTotals());
+      }
+      addTo(byStorageLocation.get(storageLocation)!, value);
+
+      const expiryDate = this.resolveLotExpiryDate(
+        item,
+        resolveGroup,
+        userRules,
+      );
+      if (expiryDate && expiryDate < now) {
+        addTo(expiredValue, value);
+      } else if (expiryDate && expiryDate <= riskLimit) {
+        addTo(valueAtRisk, value);
+      }
+
+      const ageInDays = Math.floor(
+        (now.getTime() - new Date(item.purchaseDate).getTime()) /
+          (1000 * 60 * 60 * 24),
+      );
+      const { bucket } = STOCK_AGE_BUCKETS.find(
+        ({ maxDays }) => maxDays === null || ageInDays < maxDays,
+      )!;
+      addTo(ageDistribution.get(bucket)!, value);
+    }
+
+    const roundValue = (value: number) => Math.round(value * 100) / 100;
+    const share = (value: number) =>
+      totalValue > 0 ? Math.round((value / totalValue) * 100) : 0;
+    const byValueDesc = (a: ValuationTotals, b: ValuationTotals) =>
+      b.value - a.value;
+
+    return {
+      totalValue: roundValue(totalValue),
+      unvaluedLotCount,
+      byCategory: [...byCategory.values()].sort(byValueDesc).map((totals) => ({
+        ...totals,
+        value: roundValue(totals.value),
+        percentage: share(totals.value),
+      })),
+      byStorageLocation: [...byStorageLocation.entries()]
+        .map(([storageLocation, totals]) => ({ storageLocation, ...totals }))
+        .sort(byValueDesc)
+        .map((totals) => ({
+          ...totals,
+          value: roundValue(totals.value),
+          percentage: share(totals.value),
+        })),
+      valueAtRisk: { ...valueAtRisk, value: roundValue(valueAtRisk.value) },
+      expiredValue: { ...expiredValue, value: roundValue(expiredValue.value) },
+      ageDistribution: [...ageDistribution.entries()].map(
+        ([bucket, totals]) => ({
+          bucket,
+          ...totals,
+          value: roundValue(totals.value),
+        }),
+      ),
     };
   }
+
+  /**
+   * Date de péremption d'un lot : celle enregistrée, sinon l'estimation
+   * selon le produit, le lieu de stockage et les règles de l'utilisateur
+   */
+  private resolveLotExpiryDate(
+    item: any,
+    resolveGroup: StorageGroupResolver,
+    userRules: UserShelfLifeRule[],
+  ): Date | null {
+    return (
+      item.expiryDate ??
+      estimateExpiryDate({
+        productId: item.productId,
+        productName: item.Product?.name,
+        categorySlug: item.Product?.Category?.slug,
+        categoryName: item.Product?.Category?.name,
+        storageLocation: item.storageLocation,
+        storageGroup: resolveGroup(item.storageLocation),
+        packageStatus: item.packageStatus,
+        preparationStatus: item.preparationStatus,
+        purchaseDate: item.purchaseDate,
+        addedAt: item.createdAt,
+        userRules,
+      }).expiryDate
+    );
+  }
 }
@@ -0,0 +1,184 @@
+import { NotFoundException } from '@nestjs/common';
+import { ProductPriceHistoryService } from './product-price-history.service';
+
+describe('ProductPriceHistoryService', () => {
+  const prisma = {
+    product: { findUnique: jest.fn() },
+    productPriceRecord: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  const purchase = (
+    id: string,
+    merchantName: string | null,
+    quantity: number,
+    totalPrice: number,
+    purchasedAt: string,
+  ) => ({
+    id,
+    source: merchantName ? 'INVOICE' : 'MANUAL',
+    merchantName,
+    quantity,
+    totalPrice,
+    purchasedAt: new Date(purchasedAt),
+    createdAt: new Date(purchasedAt),
+  });
+
+  let service: ProductPriceHistoryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ProductPriceHistoryService(prisma as any);
+  });
+
+  it('records priced purchases and skips those without a price', async () => {
+    await service.record([
+      {
+        userId: 'user-1',
+        productId: 'product-1',
+        source: 'INVOICE',
+        invoiceItemId: 'item-1',
+        merchantName: ' Carrefour ',
+        quantity: 2,
+        totalPrice: 4.5,
+        purchasedAt: new Date('2026-05-01'),
+      },
+      {
+        userId: 'user-1',
+        productId: 'product-2',
+        source: 'MANUAL',
+        quantity: 1,
+        totalPrice: undefined,
+        purchasedAt: new Date('2026-05-01'),
+      },
+    ]);
+
+    expect(prisma.productPriceRecord.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          productId: 'product-1',
+          invoiceItemId: 'item-1',
+          merchantName: 'Carrefour',
+          quantity: 2,
+          totalPrice: 4.5,
+        }),
+      ],
+      skipDuplicates: true,
+    });
+  });
+
+  it('does not write anything when no purchase has a price', async () => {
+    await service.record({
+      userId: 'user-1',
+      productId: 'product-1',
+      source: 'MANUAL',
+      quantity: 1,
+      totalPrice: 0,
+      purchasedAt: new Date('2026-05-01'),
+    });
+
+    expect(prisma.productPriceRecord.createMany).not.toHaveBeenCalled();
+  });
+
+  it('normalizes prices per kilo and flags purchases above the usual price', async () => {
+    prisma.product.findUnique.mockResolvedValue({
+      id: 'product-1',
+      unitType: 'G',
+      ProductPieceWeight: [],
+    });
+    prisma.productPriceRecord.findMany.mockResolvedValue([
+      purchase('price-1', 'Carrefour', 250, 2.5, '2026-02-01'),
+      purchase('price-2', 'Carrefour', 500, 5, '2026-03-01'),
+      purchase('price-3', null, 250, 2.6, '2026-04-01'),
+      purchase('price-4', 'Leclerc', 250, 3.5, '2026-05-01'),
+    ]);
+
+    const { data } = await service.getPriceHistory('user-1', 'product-1');
+
+    expect(prisma.productPriceRecord.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: 'user-1', productId: 'product-1' },
+      }),
+    );
+    expect(data.referenceUnit).toBe('KG');
+    expect(data.usualPrice).toBe(10.2);
+    expect(data.summary).toEqual({
+      purchaseCount: 4,
+      minPrice: 10,
+      maxPrice: 14,
+      averagePrice: 11.1,
+      latestPrice: 14,
+    });
+    expect(data.entries.map((entry) => entry.unitPrice)).toEqual([
+      10, 10, 10.4, 14,
+    ]);
+    expect(
+      data.entries.filter((entry) => entry.isAboveUsualPrice).map((e) => e.id),
+    ).toEqual(['price-4']);
+    expect(data.entries[3].differencePercent).toBe(37);
+    expect(data.byMerchant).toEqual([
+      expect.objectContaining({
+        merchantName: 'Carrefour',
+        purchaseCount: 2,
+        latestPrice: 10,
+      }),
+      expect.objectContaining({ merchantName: null, purchaseCount: 1 }),
+      expect.objectContaining({ merchantName: 'Leclerc', purchaseCount: 1 }),
+    ]);
+  });
+
+  it('waits for enough purchases before computing a usual price', async () => {
+    prisma.product.findUnique.mockResolvedValue({
+      id: 'product-1',
+      unitType: 'UNIT',
+      ProductPieceWeight: [],
+    });
+    prisma.productPriceRecord.findMany.mockResolvedValue([
+      purchase('price-1', null, 6, 3, '2026-04-01'),
+      purchase('price-2', null, 6, 4.2, '2026-05-01'),
+    ]);
+
+    const { data } = await service.getPriceHistory('user-1', 'product-1');
+
+    expect(data.referenceUnit).toBe('UNIT');
+    expect(data.usualPrice).toBeNull();
+    expect(data.entries).toEqual([
+      expect.objectContaining({
+        unitPrice: 0.5,
+        differencePercent: null,
+        isAboveUsualPrice: false,
+      }),
+      expect.objectContaining({ unitPrice: 0.7, isAboveUsualPrice: false }),
+    ]);
+  });
+
+  it('normalizes piece prices per kilo when the piece weight is known', async () => {
+    prisma.product.findUnique.mockResolvedValue({
+      id: 'product-1',
+      unitType: 'UNIT',
+      ProductPieceWeight: [{ pieceWeight: 250 }],
+    });
+    prisma.productPriceRecord.findMany.mockResolvedValue([
+      purchase('price-1', 'Carrefour', 4, 3, '2026-04-01'),
+      purchase('price-2', 'Carrefour', 2, 2, '2026-05-01'),
+    ]);
+
+    const { data } = await service.getPriceHistory('user-1', 'product-1');
+
+    expect(data.referenceUnit).toBe('KG');
+    expect(data.entries).toEqual([
+      expect.objectContaining({ quantity: 4, unitPrice: 3 }),
+      expect.objectContaining({ quantity: 2, unitPrice: 4 }),
+    ]);
+  });
+
+  it('rejects unknown products', async () => {
+    prisma.product.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.getPriceHistory('user-1', 'product-1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ProductPriceSource } from '../../../prisma/generated/prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ProductPriceHistoryDto,
+  PriceSummaryDto,
+  ProductPriceEntryDto,
+} from '../dto/product-price-history.dto';
+import {
+  convertQuantity,
+  getPieceWeight,
+  getQuantityDimension,
+  pieceWeightOf,
+  type QuantityUnit,
+} from './unit-conversion.service';
+
+export type ProductPriceRecordInput = {
+  userId: string;
+  productId: string;
+  source: ProductPriceSource;
+  invoiceItemId?: string | null;
+  merchantName?: string | null;
+  /** Quantité achetée, dans l'unité du produit */
+  quantity: number;
+  /** Prix payé pour toute la quantité */
+  totalPrice?: number | null;
+  purchasedAt: Date;
+};
+
+/** Nombre d'achats à partir duquel un prix habituel est calculé */
+export const MIN_PURCHASES_FOR_USUAL_PRICE = 3;
+
+/** Écart au prix habituel au-delà duquel un achat est signalé (+15 %) */
+export const ABOVE_USUAL_PRICE_THRESHOLD = 0.15;
+
+type PriceClient = Pick<PrismaService, 'productPriceRecord'>;
+
+type PricedEntry = Omit<
+  ProductPriceEntryDto,
+  'differencePercent' | 'isAboveUsualPrice'
+>;
+
+const roundPrice = (price: number): number => Math.round(price * 100) / 100;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+/**
+ * Unité dans laquelle comparer les prix : au kilo ou au litre pour les
+ * produits pesés ou mesurés, au kilo pour les produits à la pièce dont le
+ * poids d'une pièce est connu, à la pièce sinon
+ */
+export const getReferenceUnit = (
+  unitType: QuantityUnit,
+  pieceWeight?: number | null,
+): QuantityUnit => {
+  switch (getQuantityDimension(unitType)) {
+    case 'mass':
+      return 'KG';
+    case 'volume':
+      return 'L';
+    default:
+      return pieceWeight && pieceWeight > 0 ? 'KG' : 'UNIT';
+  }
+};
+
+const summarize = (entries: PricedEntry[]): PriceSummaryDto => {
+  const prices = entries.map((entry) => entry.unitPrice);
+
+  return {
+    purchaseCount: entries.length,
+    minPrice: Math.min(...prices),
+    maxPrice: Math.max(...prices),
+    averagePrice: roundPrice(
+      prices.reduce((sum, price) => sum + price, 0) / prices.length,
+    ),
+    latestPrice: prices[prices.length - 1],
+  };
+};
+
+@Injectable()
+export class ProductPriceHistoryService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Enregistre les prix d'achat. Les achats sans prix ou sans quantité sont
+   * ignorés.
+   */
+  async record(
+    inputs: ProductPriceRecordInput | ProductPriceRecordInput[],
+    client: PriceClient = this.prisma,
+  ): Promise<void> {
+    const records = (Array.isArray(inputs) ? inputs : [inputs]).filter(
+      (input) =>
+        Number.isFinite(input.quantity) &&
+        input.quantity > 0 &&
+        Number.isFinite(input.totalPrice) &&
+        (input.totalPrice ?? 0) > 0,
+    );
+
+    if (records.length === 0) {
+      return;
+    }
+
+    await client.productPriceRecord.createMany({
+      data: records.map((input) => ({
+        id: randomUUID(),
+        userId: input.userId,
+        productId: input.productId,
+        source: input.source,
+        invoiceItemId: input.invoiceItemId ?? null,
+        merchantName: input.merchantName?.trim() || null,
+        quantity: input.quantity,
+        totalPrice: input.totalPrice as number,
+        purchasedAt: input.purchasedAt,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Historique des prix payés par l'utilisateur pour un produit, ramenés au
+   * kilo, au litre ou à la pièce, avec une synthèse par enseigne
+   */
+  async getPriceHistory(
+    userId: string,
+    productId: string,
+  ): Promise<{ success: true; data: ProductPriceHistoryDto }> {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: {
+        id: true,
+        unitType: true,
+        ProductPieceWeight: pieceWeightOf(userId),
+      },
+    });
+
+    if (!product) {
+      throw new NotFoundException('Produit non trouvé');
+    }
+
+    const records = await this.prisma.productPriceRecord.findMany({
+      where: { userId, productId },
+      orderBy: [{ purchasedAt: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const pieceWeight = getPieceWeight(product);
+    const referenceUnit = getReferenceUnit(product.unitType, pieceWeight);
+    const pricedEntries = records.flatMap((record): PricedEntry[] => {
+      const referenceQuantity = convertQuantity(
+        record.quantity,
+        product.unitType,
+        referenceUnit,
+        pieceWeight,
+      );
+
+      if (!referenceQuantity) {
+        return [];
+      }
+
+      return [
+        {
+          id: record.id,
+          source: record.source,
+          merchantName: record.merchantName,
+          quantity: record.quantity,
+          totalPrice: record.totalPrice,
+          unitPrice: roundPrice(record.totalPrice / referenceQuantity),
+          purchasedAt: record.purchasedAt,
+        },
+      ];
+    });
+
+    const usualPrice =
+      pricedEntries.length >= MIN_PURCHASES_FOR_USUAL_PRICE
+        ? roundPrice(median(pricedEntries.map((entry) => entry.unitPrice)))
+        : null;
+
+    const entriesByMerchant = new Map<string | null, PricedEntry[]>();
+    for (const entry of pricedEntries) {
+      entriesByMerchant.set(entry.merchantName, [
+        ...(entriesByMerchant.get(entry.merchantName) ?? []),
+        entry,
+      ]);
+    }
+
+    return {
+      success: true,
+      data: {
+        productId: product.id,
+        referenceUnit,
+        usualPrice,
+        summary: pricedEntries.length > 0 ? summarize(pricedEntries) : null,
+        byMerchant: [...entriesByMerchant.entries()]
+          .map(([merchantName, entries]) => ({
+            merchantName,
+            ...summarize(entries),
+          }))
+          .sort((a, b) => b.purchaseCount - a.purchaseCount),
+        entries: pricedEntries.map((entry) => {
+          const difference =
+            usualPrice !== null ? entry.unitPrice / usualPrice - 1 : null;
+
+          return {
+            ...entry,
+            differencePercent:
+              difference !== null ? Math.round(difference * 100) : null,
+            isAboveUsualPrice:
+              difference !== null && difference > ABOVE_USUAL_PRICE_THRESHOLD,
+          };
+        }),
+      },
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { NotFoundException } from '@nestjs/common';
+import { ProductStockLevelService } from './product-stock-level.service';
+
+describe('ProductStockLevelService', () => {
+  const prisma = {
+    product: { findUnique: jest.fn() },
+    productStockLevel: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    inventoryItem: { groupBy: jest.fn() },
+  };
+
+  const notifications = {
+    synchronizeLowStockNotifications: jest.fn(),
+  };
+
+  const milk = {
+    id: 'product-1',
+    name: 'Lait demi-écrémé',
+    brand: null,
+    unitType: 'L',
+  };
+
+  let service: ProductStockLevelService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ProductStockLevelService(prisma as any, notifications as any);
+    prisma.inventoryItem.groupBy.mockResolvedValue([]);
+  });
+
+  it('lists stock levels with the summed quantity of every lot', async () => {
+    prisma.productStockLevel.findMany.mockResolvedValue([
+      { productId: 'product-1', minimumQuantity: 2, Product: milk },
+    ]);
+    prisma.inventoryItem.groupBy.mockResolvedValue([
+      { productId: 'product-1', _sum: { quantity: 1.5 } },
+    ]);
+
+    await expect(service.listStockLevels('user-1')).resolves.toEqual({
+      success: true,
+      data: [
+        {
+          productId: 'product-1',
+          minimumQuantity: 2,
+          currentQuantity: 1.5,
+          isLow: true,
+          product: milk,
+        },
+      ],
+    });
+  });
+
+  it('upserts a stock level and refreshes low stock alerts', async () => {
+    prisma.product.findUnique.mockResolvedValue(milk);
+    prisma.productStockLevel.upsert.mockResolvedValue({ minimumQuantity: 2 });
+    prisma.inventoryItem.groupBy.mockResolvedValue([
+      { productId: 'product-1', _sum: { quantity: 4 } },
+    ]);
+
+    const result = await service.setStockLevel('user-1', 'product-1', {
+      minimumQuantity: 2,
+    });
+
+    expect(prisma.productStockLevel.upsert).toHaveBeenCalledWith({
+      where: {
+        userId_productId: { userId: 'user-1', productId: 'product-1' },
+      },
+      create: expect.objectContaining({
+        userId: 'user-1',
+        productId: 'product-1',
+        minimumQuantity: 2,
+      }),
+      update: { minimumQuantity: 2, updatedAt: expect.any(Date) },
+    });
+    expect(notifications.synchronizeLowStockNotifications).toHaveBeenCalledWith(
+      'user-1',
+    );
+    expect(result.data).toMatchObject({ currentQuantity: 4, isLow: false });
+  });
+
+  it('rejects unknown products and missing stock levels', async () => {
+    prisma.product.findUnique.mockResolvedValue(null);
+    prisma.productStockLevel.deleteMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.setStockLevel('user-1', 'product-404', { minimumQuantity: 1 }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    await expect(
+      service.removeStockLevel('user-1', 'product-1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(
+      notifications.synchronizeLowStockNotifications,
+    ).not.toHaveBeenCalled();
+  });
+});
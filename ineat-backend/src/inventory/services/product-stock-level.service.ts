@@ -0,0 +1,133 @@
+import { randomUUID } from 'crypto';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationService } from '../../notification/notification.service';
+import { SetProductStockLevelDto } from '../dto/product-stock-level.dto';
+
+@Injectable()
+export class ProductStockLevelService {
+  private readonly logger = new Logger(ProductStockLevelService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Optional() private readonly notifications?: NotificationService,
+  ) {}
+
+  /**
+   * Stocks minimums de l'utilisateur avec la quantité cumulée de tous les lots
+   * de chaque produit.
+   */
+  async listStockLevels(userId: string) {
+    const stockLevels = await this.prisma.productStockLevel.findMany({
+      where: { userId },
+      include: {
+        Product: {
+          select: { id: true, name: true, brand: true, unitType: true },
+        },
+      },
+      orderBy: { Product: { name: 'asc' } },
+    });
+    const quantityByProductId = await this.getQuantities(
+      userId,
+      stockLevels.map((level) => level.productId),
+    );
+
+    return {
+      success: true,
+      data: stockLevels.map((level) => {
+        const currentQuantity = quantityByProductId.get(level.productId) ?? 0;
+
+        return {
+          productId: level.productId,
+          minimumQuantity: level.minimumQuantity,
+          currentQuantity,
+          isLow: currentQuantity < level.minimumQuantity,
+          product: level.Product,
+        };
+      }),
+    };
+  }
+
+  async setStockLevel(
+    userId: string,
+    productId: string,
+    dto: SetProductStockLevelDto,
+  ) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, name: true, brand: true, unitType: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException('Produit non trouvé');
+    }
+
+    const now = new Date();
+    const stockLevel = await this.prisma.productStockLevel.upsert({
+      where: { userId_productId: { userId, productId } },
+      create: {
+        id: randomUUID(),
+        userId,
+        productId,
+        minimumQuantity: dto.minimumQuantity,
+        updatedAt: now,
+      },
+      update: { minimumQuantity: dto.minimumQuantity, updatedAt: now },
+    });
+    await this.refreshLowStockNotifications(userId);
+
+    const currentQuantity =
+      (await this.getQuantities(userId, [productId])).get(productId) ?? 0;
+
+    return {
+      success: true,
+      message: 'Stock minimum enregistré',
+      data: {
+        productId,
+        minimumQuantity: stockLevel.minimumQuantity,
+        currentQuantity,
+        isLow: currentQuantity < stockLevel.minimumQuantity,
+        product,
+      },
+    };
+  }
+
+  async removeStockLevel(userId: string, productId: string): Promise<void> {
+    const deleted = await this.prisma.productStockLevel.deleteMany({
+      where: { userId, productId },
+    });
+
+    if (deleted.count === 0) {
+      throw new NotFoundException('Aucun stock minimum pour ce produit');
+    }
+
+    await this.refreshLowStockNotifications(userId);
+  }
+
+  private async getQuantities(userId: string, productIds: string[]) {
+    if (productIds.length === 0) {
+      return new Map<string, number>();
+    }
+
+    const rows = await this.prisma.inventoryItem.groupBy({
+      by: ['productId'],
+      where: { userId, productId: { in: productIds }, deletedAt: null },
+      _sum: { quantity: true },
+    });
+
+    return new Map(rows.map((row) => [row.productId, row._sum.quantity ?? 0]));
+  }
+
+  private async refreshLowStockNotifications(userId: string): Promise<void> {
+    try {
+      await this.notifications?.synchronizeLowStockNotifications(userId);
+    } catch (error) {
+      this.logger.error('Failed to synchronize low stock notifications', error);
+    }
+  }
+}
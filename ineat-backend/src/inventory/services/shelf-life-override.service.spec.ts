@@ -0,0 +1,122 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ShelfLifeOverrideService } from './shelf-life-override.service';
+
+describe('ShelfLifeOverrideService', () => {
+  const prisma = {
+    shelfLifeOverride: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    product: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const yogurtOverride = {
+    id: 'override-1',
+    userId: 'user-1',
+    label: 'Yaourt maison',
+    keywords: ['yaourt maison'],
+    productId: null,
+    daysByStorage: { fridge: 10 },
+    defaultDays: 10,
+    Product: null,
+  };
+
+  let service: ShelfLifeOverrideService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ShelfLifeOverrideService(prisma as any);
+    prisma.shelfLifeOverride.create.mockImplementation(({ data }) =>
+      Promise.resolve({ ...data, Product: null }),
+    );
+    prisma.shelfLifeOverride.update.mockImplementation(({ data }) =>
+      Promise.resolve({ ...yogurtOverride, ...data }),
+    );
+  });
+
+  it('creates a keyword rule and keeps only the filled storage durations', async () => {
+    const result = await service.createShelfLifeOverride('user-1', {
+      label: 'Pain de la boulangerie',
+      keywords: ['baguette', 'pain'],
+      daysByStorage: { ambient: 2, fridge: undefined },
+      defaultDays: 2,
+    });
+
+    expect(prisma.shelfLifeOverride.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          keywords: ['baguette', 'pain'],
+          productId: null,
+          daysByStorage: { ambient: 2 },
+          defaultDays: 2,
+        }),
+      }),
+    );
+    expect(result.data).toEqual(
+      expect.objectContaining({
+        label: 'Pain de la boulangerie',
+        product: null,
+      }),
+    );
+  });
+
+  it('requires a keyword or a product', async () => {
+    await expect(
+      service.createShelfLifeOverride('user-1', {
+        label: 'Règle vide',
+        keywords: [],
+        defaultDays: 3,
+      }),
+    ).rejects.toThrow(BadRequestException);
+
+    expect(prisma.shelfLifeOverride.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a rule targeting an unknown product', async () => {
+    prisma.product.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.createShelfLifeOverride('user-1', {
+        label: 'Yaourt maison',
+        productId: '11111111-1111-4111-8111-111111111111',
+        defaultDays: 10,
+      }),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it("only updates the user's own rules", async () => {
+    prisma.shelfLifeOverride.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.updateShelfLifeOverride('user-2', 'override-1', {
+        defaultDays: 5,
+      }),
+    ).rejects.toThrow(NotFoundException);
+
+    expect(prisma.shelfLifeOverride.findFirst).toHaveBeenCalledWith({
+      where: { id: 'override-1', userId: 'user-2' },
+    });
+    expect(prisma.shelfLifeOverride.update).not.toHaveBeenCalled();
+  });
+
+  it('returns the rules in the format used by the expiry estimation', async () => {
+    prisma.shelfLifeOverride.findMany.mockResolvedValue([yogurtOverride]);
+
+    await expect(service.getUserRules('user-1')).resolves.toEqual([
+      {
+        id: 'override-1',
+        label: 'Yaourt maison',
+        keywords: ['yaourt maison'],
+        productId: null,
+        daysByStorage: { fridge: 10 },
+        defaultDays: 10,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StorageGroup } from '../constants/expiry-rules';
+import {
+  CreateShelfLifeOverrideDto,
+  UpdateShelfLifeOverrideDto,
+} from '../dto/shelf-life-override.dto';
+import { UserShelfLifeRule } from './expiry-estimation.service';
+
+const OVERRIDE_INCLUDE = {
+  Product: { select: { id: true, name: true, brand: true } },
+};
+
+@Injectable()
+export class ShelfLifeOverrideService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Règles de conservation personnelles de l'utilisateur
+   */
+  async listShelfLifeOverrides(userId: string) {
+    const overrides = await this.prisma.shelfLifeOverride.findMany({
+      where: { userId },
+      include: OVERRIDE_INCLUDE,
+      orderBy: { label: 'asc' },
+    });
+
+    return {
+      success: true,
+      data: overrides.map((override) => this.formatOverride(override)),
+    };
+  }
+
+  async createShelfLifeOverride(
+    userId: string,
+    dto: CreateShelfLifeOverrideDto,
+  ) {
+    const keywords = dto.keywords ?? [];
+    this.assertHasTarget(keywords, dto.productId);
+    if (dto.productId) {
+      await this.assertProductExists(dto.productId);
+    }
+
+    const override = await this.prisma.shelfLifeOverride.create({
+      data: {
+        id: randomUUID(),
+        userId,
+        label: dto.label,
+        keywords,
+        productId: dto.productId ?? null,
+        daysByStorage: this.cleanDaysByStorage(dto.daysByStorage),
+        defaultDays: dto.defaultDays,
+        updatedAt: new Date(),
+      },
+      include: OVERRIDE_INCLUDE,
+    });
+
+    return {
+      success: true,
+      message: 'Règle de conservation créée',
+      data: this.formatOverride(override),
+    };
+  }
+
+  async updateShelfLifeOverride(
+    userId: string,
+    overrideId: string,
+    dto: UpdateShelfLifeOverrideDto,
+  ) {
+    const existing = await this.findUserOverride(userId, overrideId);
+    const keywords = dto.keywords ?? this.toKeywords(existing.keywords);
+    const productId =
+      dto.productId !== undefined ? dto.productId : existing.productId;
+
+    this.assertHasTarget(keywords, productId);
+    if (productId && productId !== existing.productId) {
+      await this.assertProductExists(productId);
+    }
+
+    const override = await this.prisma.shelfLifeOverride.update({
+      where: { id: existing.id },
+      data: {
+        ...(dto.label !== undefined && { label: dto.label }),
+        keywords,
+        productId: productId ?? null,
+        ...(dto.daysByStorage !== undefined && {
+          daysByStorage: this.cleanDaysByStorage(dto.daysByStorage),
+        }),
+        ...(dto.defaultDays !== undefined && { defaultDays: dto.defaultDays }),
+        updatedAt: new Date(),
+      },
+      include: OVERRIDE_INCLUDE,
+    });
+
+    return {
+      success: true,
+      message: 'Règle de conservation mise à jour',
+      data: this.formatOverride(override),
+    };
+  }
+
+  async deleteShelfLifeOverride(userId: string, overrideId: string) {
+    const existing = await this.findUserOverride(userId, overrideId);
+
+    await this.prisma.shelfLifeOverride.delete({ where: { id: existing.id } });
+  }
+
+  /**
+   * Règles personnelles au format attendu par l'estimation des dates de
+   * péremption
+   */
+  async getUserRules(userId: string): Promise<UserShelfLifeRule[]> {
+    const overrides = await this.prisma.shelfLifeOverride.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return overrides.map((override) => ({
+      id: override.id,
+      label: override.label,
+      keywords: this.toKeywords(override.keywords),
+      productId: override.productId,
+      daysByStorage: this.toDaysByStorage(override.daysByStorage),
+      defaultDays: override.defaultDays,
+    }));
+  }
+
+  private async findUserOverride(userId: string, overrideId: string) {
+    const override = await this.prisma.shelfLifeOverride.findFirst({
+      where: { id: overrideId, userId },
+    });
+
+    if (!override) {
+      throw new NotFoundException('Règle de conservation non trouvée');
+    }
+
+    return override;
+  }
+
+  private assertHasTarget(keywords: string[], productId?: string | null) {
+    if (keywords.length === 0 && !productId) {
+      throw new BadRequestException(
+        'Indiquez au moins un mot-clé ou un produit pour cette règle',
+      );
+    }
+  }
+
+  private async assertProductExists(productId: string) {
+    const product = await this.prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+
+    if (!product) {
+      throw new NotFoundException('Produit non trouvé');
+    }
+  }
+
+  /**
+   * Ne conserve que les durées renseignées pour ne pas masquer la durée
+   * par défaut de la règle
+   */
+  private cleanDaysByStorage(
+    daysByStorage?: Partial<Record<StorageGroup, number>>,
+  ): Partial<Record<StorageGroup, number>> {
+    return Object.fromEntries(
+      Object.entries(daysByStorage ?? {}).filter(
+        ([, days]) => typeof days === 'number',
+      ),
+    );
+  }
+
+  private toKeywords(value: unknown): string[] {
+    return Array.isArray(value)
+      ? value.filter(
+          (keyword): keyword is string => typeof keyword === 'string',
+        )
+      : [];
+  }
+
+  private toDaysByStorage(
+    value: unknown,
+  ): Partial<Record<StorageGroup, number>> {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Partial<Record<StorageGroup, number>>)
+      : {};
+  }
+
+  private formatOverride(override: {
+    id: string;
+    label: string;
+    keywords: unknown;
+    productId: string | null;
+    daysByStorage: unknown;
+    defaultDays: number;
+    Product?: { id: string; name: string; brand: string | null } | null;
+  }) {
+    return {
+      id: override.id,
+      label: override.label,
+      keywords: this.toKeywords(override.keywords),
+      productId: override.productId,
+      product: override.Product ?? null,
+      daysByStorage: this.toDaysByStorage(override.daysByStorage),
+      defaultDays: override.defaultDays,
+    };
+  }
+}
@@ -0,0 +1,218 @@
+import { ConflictException } from '@nestjs/common';
+import { StorageLocationService } from './storage-location.service';
+
+describe('StorageLocationService', () => {
+  const tx = {
+    user: { updateMany: jest.fn() },
+    storageLocation: { update: jest.fn(), createMany: jest.fn() },
+    inventoryItem: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    invoiceItem: { updateMany: jest.fn() },
+  };
+
+  const prisma = {
+    $transaction: jest.fn(),
+    storageLocation: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+    inventoryItem: {
+      groupBy: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  const shelfLifeOverrides = {
+    getUserRules: jest.fn(),
+  };
+
+  const notifications = {
+    synchronizeExpiryNotifications: jest.fn(),
+  };
+
+  const drawer = {
+    id: 'location-1',
+    name: 'Tiroir goûters',
+    storageGroup: 'pantry',
+  };
+  const garageFreezer = {
+    id: 'location-2',
+    name: 'Congélateur garage',
+    storageGroup: 'freezer',
+  };
+
+  let service: StorageLocationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new StorageLocationService(
+      prisma as any,
+      shelfLifeOverrides as any,
+      notifications as any,
+    );
+    shelfLifeOverrides.getUserRules.mockResolvedValue([]);
+    prisma.$transaction.mockImplementation((callback) => callback(tx));
+    prisma.storageLocation.findMany.mockResolvedValue([drawer, garageFreezer]);
+    prisma.inventoryItem.count.mockResolvedValue(0);
+    tx.storageLocation.update.mockImplementation(({ data }) =>
+      Promise.resolve({ ...drawer, ...data }),
+    );
+    tx.inventoryItem.findMany.mockResolvedValue([]);
+    tx.user.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('creates the default list on first access and counts lots per location', async () => {
+    prisma.storageLocation.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { id: 'default-1', name: 'Réfrigérateur', storageGroup: 'fridge' },
+      ]);
+    prisma.inventoryItem.groupBy.mockResolvedValue([
+      { storageLocation: 'Réfrigérateur', _count: { _all: 3 } },
+    ]);
+
+    const result = await service.listStorageLocations('user-1');
+
+    expect(tx.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', storageLocationsSeededAt: null },
+      data: { storageLocationsSeededAt: expect.any(Date) },
+    });
+    expect(tx.storageLocation.createMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.arrayContaining([
+          expect.objectContaining({
+            userId: 'user-1',
+            name: 'Congélateur',
+            storageGroup: 'freezer',
+          }),
+        ]),
+        skipDuplicates: true,
+      }),
+    );
+    expect(result.data).toEqual([
+      {
+        id: 'default-1',
+        name: 'Réfrigérateur',
+        storageGroup: 'fridge',
+        itemCount: 3,
+      },
+    ]);
+  });
+
+  it('does not bring the default list back once every location is deleted', async () => {
+    prisma.storageLocation.findMany.mockResolvedValueOnce([]);
+    prisma.inventoryItem.groupBy.mockResolvedValue([]);
+    tx.user.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const result = await service.listStorageLocations('user-1');
+
+    expect(tx.storageLocation.createMany).not.toHaveBeenCalled();
+    expect(result.data).toEqual([]);
+  });
+
+  it('rejects a name already used, ignoring case', async () => {
+    await expect(
+      service.createStorageLocation('user-1', {
+        name: 'tiroir GOÛTERS',
+        storageGroup: 'ambient',
+      }),
+    ).rejects.toThrow(ConflictException);
+
+    expect(prisma.storageLocation.create).not.toHaveBeenCalled();
+  });
+
+  it('carries a rename over to lots and unvalidated invoice lines', async () => {
+    await service.updateStorageLocation('user-1', drawer.id, {
+      name: 'Tiroir des enfants',
+    });
+
+    expect(tx.inventoryItem.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', storageLocation: 'Tiroir goûters' },
+      data: {
+        storageLocation: 'Tiroir des enfants',
+        updatedAt: expect.any(Date),
+      },
+    });
+    expect(tx.invoiceItem.updateMany).toHaveBeenCalledWith({
+      where: {
+        storageLocation: 'Tiroir goûters',
+        validated: false,
+        Invoice: { userId: 'user-1' },
+      },
+      data: {
+        storageLocation: 'Tiroir des enfants',
+        updatedAt: expect.any(Date),
+      },
+    });
+    expect(tx.inventoryItem.findMany).not.toHaveBeenCalled();
+  });
+
+  it('re-estimates expiry dates when the storage group changes', async () => {
+    tx.inventoryItem.findMany.mockResolvedValue([
+      {
+        id: 'item-1',
+        packageStatus: null,
+        preparationStatus: null,
+        purchaseDate: new Date('2026-10-01T00:00:00.000Z'),
+        thawedAt: null,
+        createdAt: new Date('2026-10-01T00:00:00.000Z'),
+        Product: {
+          name: 'Steak haché',
+          Category: {
+            slug: 'viandes-et-poissons',
+            name: 'Viandes et poissons',
+          },
+        },
+      },
+    ]);
+
+    await service.updateStorageLocation('user-1', drawer.id, {
+      storageGroup: 'freezer',
+    });
+
+    expect(tx.inventoryItem.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          storageLocation: 'Tiroir goûters',
+          expiryDateSource: 'ESTIMATED',
+        },
+      }),
+    );
+    expect(tx.inventoryItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-1' },
+      data: {
+        expiryDate: new Date('2027-01-29T00:00:00.000Z'),
+        updatedAt: expect.any(Date),
+      },
+    });
+    expect(notifications.synchronizeExpiryNotifications).toHaveBeenCalledWith(
+      'user-1',
+    );
+  });
+
+  it('refuses to delete a location that still holds lots', async () => {
+    prisma.storageLocation.findFirst.mockResolvedValue(drawer);
+    prisma.inventoryItem.count.mockResolvedValue(2);
+
+    await expect(
+      service.deleteStorageLocation('user-1', drawer.id),
+    ).rejects.toThrow(ConflictException);
+
+    expect(prisma.storageLocation.delete).not.toHaveBeenCalled();
+  });
+
+  it('resolves custom locations before the built-in aliases', async () => {
+    const resolveGroup = await service.getStorageGroupResolver('user-1');
+
+    expect(resolveGroup('congélateur GARAGE')).toBe('freezer');
+    expect(resolveGroup('Tiroir goûters')).toBe('pantry');
+    expect(resolveGroup('frigo')).toBe('fridge');
+    expect(resolveGroup('Grenier')).toBe('other');
+  });
+});
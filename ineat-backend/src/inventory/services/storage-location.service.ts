@@ -0,0 +1,349 @@
+import { randomUUID } from 'crypto';
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  Optional,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationService } from '../../notification/notification.service';
+import {
+  DEFAULT_STORAGE_LOCATIONS,
+  StorageGroup,
+} from '../constants/expiry-rules';
+import {
+  CreateStorageLocationDto,
+  UpdateStorageLocationDto,
+} from '../dto/storage-location.dto';
+import {
+  estimateExpiryDate,
+  resolveStorageGroup,
+} from './expiry-estimation.service';
+import { ShelfLifeOverrideService } from './shelf-life-override.service';
+
+export interface StorageLocationRecord {
+  id: string;
+  name: string;
+  storageGroup: string;
+}
+
+export type StorageGroupResolver = (
+  storageLocation?: string | null,
+) => StorageGroup;
+
+const normalizeName = (name?: string | null): string =>
+  (name ?? '').trim().toLocaleLowerCase('fr');
+
+@Injectable()
+export class StorageLocationService {
+  private readonly logger = new Logger(StorageLocationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly shelfLifeOverrides: ShelfLifeOverrideService,
+    @Optional() private readonly notifications?: NotificationService,
+  ) {}
+
+  /**
+   * Lieux de stockage de l'utilisateur avec le nombre de lots rangés dans
+   * chacun. La liste par défaut est créée au premier accès uniquement.
+   */
+  async listStorageLocations(userId: string) {
+    const locations = await this.getUserLocations(userId);
+    const counts = await this.prisma.inventoryItem.groupBy({
+      by: ['storageLocation'],
+      where: { userId, deletedAt: null },
+      _count: { _all: true },
+    });
+    const countByName = new Map(
+      counts.map((row) => [row.storageLocation, row._count._all]),
+    );
+
+    return {
+      success: true,
+      data: locations.map((location) => ({
+        ...this.formatLocation(location),
+        itemCount: countByName.get(location.name) ?? 0,
+      })),
+    };
+  }
+
+  async createStorageLocation(userId: string, dto: CreateStorageLocationDto) {
+    const locations = await this.getUserLocations(userId);
+    this.assertNameAvailable(locations, dto.name);
+
+    const location = await this.prisma.storageLocation.create({
+      data: {
+        id: randomUUID(),
+        userId,
+        name: dto.name,
+        storageGroup: dto.storageGroup,
+        updatedAt: new Date(),
+      },
+    });
+
+    return {
+      success: true,
+      message: 'Lieu de stockage créé',
+      data: { ...this.formatLocation(location), itemCount: 0 },
+    };
+  }
+
+  /**
+   * Renomme un lieu (les lots et les lignes de facture non validées suivent)
+   * ou change son type de stockage (les dates estimées sont recalculées).
+   */
+  async updateStorageLocation(
+    userId: string,
+    locationId: string,
+    dto: UpdateStorageLocationDto,
+  ) {
+    const locations = await this.getUserLocations(userId);
+    const location = locations.find((candidate) => candidate.id === locationId);
+
+    if (!location) {
+      throw new NotFoundException('Lieu de stockage non trouvé');
+    }
+
+    const name = dto.name ?? location.name;
+    const storageGroup = dto.storageGroup ?? location.storageGroup;
+
+    if (normalizeName(name) !== normalizeName(location.name)) {
+      this.assertNameAvailable(
+        locations.filter((candidate) => candidate.id !== location.id),
+        name,
+      );
+    }
+
+    const now = new Date();
+    const updated = await this.prisma.$transaction(async (tx: any) => {
+      const updatedLocation = await tx.storageLocation.update({
+        where: { id: location.id },
+        data: { name, storageGroup, updatedAt: now },
+      });
+
+      if (name !== location.name) {
+        await tx.inventoryItem.updateMany({
+          where: { userId, storageLocation: location.name },
+          data: { storageLocation: name, updatedAt: now },
+        });
+        await tx.invoiceItem.updateMany({
+          where: {
+            storageLocation: location.name,
+            validated: false,
+            Invoice: { userId },
+          },
+          data: { storageLocation: name, updatedAt: now },
+        });
+      }
+
+      if (storageGroup !== location.storageGroup) {
+        await this.reestimateLots(tx, userId, name, storageGroup, now);
+      }
+
+      return updatedLocation;
+    });
+
+    if (storageGroup !== location.storageGroup) {
+      await this.refreshExpiryNotifications(userId);
+    }
+
+    const itemCount = await this.prisma.inventoryItem.count({
+      where: { userId, storageLocation: name, deletedAt: null },
+    });
+
+    return {
+      success: true,
+      message: 'Lieu de stockage mis à jour',
+      data: { ...this.formatLocation(updated), itemCount },
+    };
+  }
+
+  async deleteStorageLocation(userId: string, locationId: string) {
+    const location = await this.prisma.storageLocation.findFirst({
+      where: { id: locationId, userId },
+    });
+
+    if (!location) {
+      throw new NotFoundException('Lieu de stockage non trouvé');
+    }
+
+    const itemCount = await this.prisma.inventoryItem.count({
+      where: { userId, storageLocation: location.name, deletedAt: null },
+    });
+
+    if (itemCount > 0) {
+      throw new ConflictException(
+        `${itemCount} lot(s) sont encore rangés ici : déplacez-les avant de supprimer ce lieu`,
+      );
+    }
+
+    await this.prisma.storageLocation.delete({ where: { id: location.id } });
+  }
+
+  /**
+   * Retrouve un lieu de l'utilisateur par son nom, sans tenir compte de la
+   * casse
+   */
+  async findStorageLocationByName(
+    userId: string,
+    name: string,
+  ): Promise<StorageLocationRecord | null> {
+    const locations = await this.getUserLocations(userId);
+
+    return (
+      locations.find(
+        (location) => normalizeName(location.name) === normalizeName(name),
+      ) ?? null
+    );
+  }
+
+  /**
+   * Premier lieu de l'utilisateur du type demandé, utilisé par défaut pour
+   * congeler ou décongeler un lot
+   */
+  async findStorageLocationByGroup(
+    userId: string,
+    storageGroup: StorageGroup,
+  ): Promise<StorageLocationRecord | null> {
+    const locations = await this.getUserLocations(userId);
+
+    return (
+      locations.find((location) => location.storageGroup === storageGroup) ??
+      null
+    );
+  }
+
+  /**
+   * Résout le type de stockage d'un lieu : d'abord les lieux de
+   * l'utilisateur, puis les alias historiques (« frigo », « congelateur »...)
+   */
+  async getStorageGroupResolver(userId: string): Promise<StorageGroupResolver> {
+    const locations = await this.getUserLocations(userId);
+    const groupByName = new Map(
+      locations.map((location) => [
+        normalizeName(location.name),
+        location.storageGroup as StorageGroup,
+      ]),
+    );
+
+    return (storageLocation) =>
+      groupByName.get(normalizeName(storageLocation)) ??
+      resolveStorageGroup(storageLocation);
+  }
+
+  private async getUserLocations(
+    userId: string,
+  ): Promise<StorageLocationRecord[]> {
+    const locations = await this.prisma.storageLocation.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (locations.length > 0) {
+      return locations;
+    }
+
+    // La liste par défaut n'est créée qu'une fois : un utilisateur qui a
+    // supprimé tous ses lieux ne la voit pas revenir
+    const now = new Date();
+    const seeded = await this.prisma.$transaction(async (tx: any) => {
+      const { count } = await tx.user.updateMany({
+        where: { id: userId, storageLocationsSeededAt: null },
+        data: { storageLocationsSeededAt: now },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.storageLocation.createMany({
+        data: DEFAULT_STORAGE_LOCATIONS.map((location, index) => ({
+          id: randomUUID(),
+          userId,
+          name: location.name,
+          storageGroup: location.storageGroup,
+          // Conserver l'ordre de la liste par défaut
+          createdAt: new Date(now.getTime() + index),
+          updatedAt: now,
+        })),
+        skipDuplicates: true,
+      });
+      return true;
+    });
+
+    if (!seeded) {
+      return [];
+    }
+
+    return await this.prisma.storageLocation.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private assertNameAvailable(
+    locations: StorageLocationRecord[],
+    name: string,
+  ): void {
+    if (
+      locations.some(
+        (location) => normalizeName(location.name) === normalizeName(name),
+      )
+    ) {
+      throw new ConflictException(`Le lieu de stockage "${name}" existe déjà`);
+    }
+  }
+
+  private async reestimateLots(
+    tx: any,
+    userId: string,
+    storageLocation: string,
+    storageGroup: string,
+    now: Date,
+  ): Promise<void> {
+    const items = await tx.inventoryItem.findMany({
+      where: { userId, storageLocation, expiryDateSource: 'ESTIMATED' },
+      include: { Product: { include: { Category: true } } },
+    });
+    const userRules = await this.shelfLifeOverrides.getUserRules(userId);
+
+    for (const item of items) {
+      const expiryEstimation = estimateExpiryDate({
+        productId: item.productId,
+        productName: item.Product?.name,
+        categorySlug: item.Product?.Category?.slug,
+        categoryName: item.Product?.Category?.name,
+        storageLocation,
+        storageGroup: storageGroup as StorageGroup,
+        packageStatus: item.packageStatus,
+        preparationStatus: item.preparationStatus,
+        purchaseDate: item.thawedAt ?? item.purchaseDate,
+        addedAt: item.createdAt,
+        userRules,
+      });
+
+      await tx.inventoryItem.update({
+        where: { id: item.id },
+        data: { expiryDate: expiryEstimation.expiryDate, updatedAt: now },
+      });
+    }
+  }
+
+  private formatLocation(location: StorageLocationRecord) {
+    return {
+      id: location.id,
+      name: location.name,
+      storageGroup: location.storageGroup as StorageGroup,
+    };
+  }
+
+  private async refreshExpiryNotifications(userId: string): Promise<void> {
+    try {
+      await this.notifications?.synchronizeExpiryNotifications(userId);
+    } catch (error) {
+      this.logger.error('Failed to synchronize expiry notifications', error);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  convertQuantity,
+  countArticles,
+  normalizeIngredientQuantity,
+  parseQuantityUnit,
+} from './unit-conversion.service';
+
+describe('unit conversion', () => {
+  it('converts quantities within the same dimension', () => {
+    expect(convertQuantity(200, 'G', 'KG')).toBe(0.2);
+    expect(convertQuantity(1.5, 'L', 'ML')).toBe(1500);
+    expect(convertQuantity(3, 'UNIT', 'UNIT')).toBe(3);
+  });
+
+  it('uses the piece weight between pieces and mass or volume', () => {
+    expect(convertQuantity(2, 'UNIT', 'G', 60)).toBe(120);
+    expect(convertQuantity(0.3, 'KG', 'UNIT', 60)).toBe(5);
+    expect(convertQuantity(2, 'UNIT', 'L', 330)).toBe(0.66);
+  });
+
+  it('refuses conversions that need missing information', () => {
+    expect(convertQuantity(200, 'G', 'UNIT')).toBeNull();
+    expect(convertQuantity(200, 'G', 'ML', 60)).toBeNull();
+  });
+
+  it('parses free-text unit labels from recipes', () => {
+    expect(parseQuantityUnit('Grammes')).toEqual({ unit: 'G', factor: 1 });
+    expect(parseQuantityUnit('cl')).toEqual({ unit: 'ML', factor: 10 });
+    expect(parseQuantityUnit('c. à soupe')).toEqual({
+      unit: 'ML',
+      factor: 15,
+    });
+    expect(parseQuantityUnit('unités')).toEqual({ unit: 'UNIT', factor: 1 });
+    expect(parseQuantityUnit('pincée')).toBeNull();
+  });
+
+  it('normalizes ingredient quantities to an explicit unit', () => {
+    expect(normalizeIngredientQuantity({ quantity: 20, unit: 'cl' })).toEqual({
+      quantity: 200,
+      unit: 'ml',
+      unitType: 'ML',
+    });
+    expect(
+      normalizeIngredientQuantity({ quantity: 2, unit: 'gousses' }),
+    ).toEqual({ quantity: 2, unit: 'gousses', unitType: null });
+    expect(
+      normalizeIngredientQuantity({
+        quantity: 2,
+        unit: 'œufs',
+        unitType: 'UNIT',
+      }),
+    ).toEqual({ quantity: 2, unit: 'œufs', unitType: 'UNIT' });
+  });
+
+  it('counts weighed lots as a single article', () => {
+    expect(countArticles(6, 'UNIT')).toBe(6);
+    expect(countArticles(500, 'G')).toBe(1);
+    expect(countArticles(0, 'KG')).toBe(0);
+  });
+});
@@ -0,0 +1,229 @@
+export type QuantityUnit = 'KG' | 'G' | 'L' | 'ML' | 'UNIT';
+export type QuantityDimension = 'mass' | 'volume' | 'count';
+
+export interface ParsedQuantityUnit {
+  unit: QuantityUnit;
+  /** Multiplicateur pour exprimer la quantité dans `unit` (20 cl = 200 ml) */
+  factor: number;
+}
+
+/**
+ * Dimension de chaque unité et facteur vers son unité de base
+ * (gramme, millilitre ou pièce)
+ */
+const UNIT_DEFINITIONS: Record<
+  QuantityUnit,
+  { dimension: QuantityDimension; toBase: number }
+> = {
+  KG: { dimension: 'mass', toBase: 1000 },
+  G: { dimension: 'mass', toBase: 1 },
+  L: { dimension: 'volume', toBase: 1000 },
+  ML: { dimension: 'volume', toBase: 1 },
+  UNIT: { dimension: 'count', toBase: 1 },
+};
+
+export const QUANTITY_UNIT_LABELS: Record<QuantityUnit, string> = {
+  KG: 'kg',
+  G: 'g',
+  L: 'l',
+  ML: 'ml',
+  UNIT: 'pièce(s)',
+};
+
+/**
+ * Libellés libres rencontrés dans les recettes et les factures, normalisés
+ * sans accents ni points
+ */
+const UNIT_ALIASES: Record<string, ParsedQuantityUnit> = {
+  mg: { unit: 'G', factor: 0.001 },
+  g: { unit: 'G', factor: 1 },
+  gr: { unit: 'G', factor: 1 },
+  gramme: { unit: 'G', factor: 1 },
+  grammes: { unit: 'G', factor: 1 },
+  kg: { unit: 'KG', factor: 1 },
+  kilo: { unit: 'KG', factor: 1 },
+  kilos: { unit: 'KG', factor: 1 },
+  kilogramme: { unit: 'KG', factor: 1 },
+  kilogrammes: { unit: 'KG', factor: 1 },
+  ml: { unit: 'ML', factor: 1 },
+  millilitre: { unit: 'ML', factor: 1 },
+  millilitres: { unit: 'ML', factor: 1 },
+  cl: { unit: 'ML', factor: 10 },
+  centilitre: { unit: 'ML', factor: 10 },
+  centilitres: { unit: 'ML', factor: 10 },
+  dl: { unit: 'ML', factor: 100 },
+  l: { unit: 'L', factor: 1 },
+  litre: { unit: 'L', factor: 1 },
+  litres: { unit: 'L', factor: 1 },
+  'c a cafe': { unit: 'ML', factor: 5 },
+  'cuillere a cafe': { unit: 'ML', factor: 5 },
+  'cuilleres a cafe': { unit: 'ML', factor: 5 },
+  cac: { unit: 'ML', factor: 5 },
+  'c a soupe': { unit: 'ML', factor: 15 },
+  'cuillere a soupe': { unit: 'ML', factor: 15 },
+  'cuilleres a soupe': { unit: 'ML', factor: 15 },
+  cas: { unit: 'ML', factor: 15 },
+  '': { unit: 'UNIT', factor: 1 },
+  u: { unit: 'UNIT', factor: 1 },
+  unit: { unit: 'UNIT', factor: 1 },
+  unite: { unit: 'UNIT', factor: 1 },
+  unites: { unit: 'UNIT', factor: 1 },
+  piece: { unit: 'UNIT', factor: 1 },
+  pieces: { unit: 'UNIT', factor: 1 },
+  'piece(s)': { unit: 'UNIT', factor: 1 },
+  pc: { unit: 'UNIT', factor: 1 },
+  pcs: { unit: 'UNIT', factor: 1 },
+};
+
+const normalizeUnitLabel = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\./g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const isQuantityUnit = (value: unknown): value is QuantityUnit =>
+  typeof value === 'string' && value in UNIT_DEFINITIONS;
+
+export const getQuantityDimension = (unit: QuantityUnit): QuantityDimension =>
+  UNIT_DEFINITIONS[unit].dimension;
+
+/**
+ * Quantité exprimée dans l'unité de base de sa dimension (g, ml ou pièces)
+ */
+export const toBaseQuantity = (
+  quantity: number,
+  unit: QuantityUnit,
+): { dimension: QuantityDimension; quantity: number } => ({
+  dimension: UNIT_DEFINITIONS[unit].dimension,
+  quantity: roundQuantity(quantity * UNIT_DEFINITIONS[unit].toBase),
+});
+
+/**
+ * Nombre d'articles que représente un lot : les pièces sont comptées une à
+ * une, un lot pesé ou mesuré (1 kg de pâtes, 2 l de lait) compte pour un
+ */
+export const countArticles = (
+  quantity: number,
+  unit?: QuantityUnit | null,
+): number => {
+  if (!unit || unit === 'UNIT') {
+    return quantity;
+  }
+
+  return quantity > 0 ? 1 : 0;
+};
+
+/**
+ * Unité normalisée d'un libellé libre (« 20 cl », « c. à soupe »...).
+ * Renvoie null pour les libellés inconnus (« pincée », « botte »...).
+ */
+export const parseQuantityUnit = (
+  label?: string | null,
+): ParsedQuantityUnit | null => {
+  if (isQuantityUnit(label)) {
+    return { unit: label, factor: 1 };
+  }
+
+  return UNIT_ALIASES[normalizeUnitLabel(label ?? '')] ?? null;
+};
+
+/**
+ * Arrondit au millième pour éviter les résidus de calcul flottant
+ * (1 - 0,8 kg)
+ */
+export const roundQuantity = (quantity: number): number =>
+  Math.round(quantity * 1000) / 1000;
+
+/**
+ * Convertit une quantité d'une unité à une autre. Le passage entre pièces et
+ * masse ou volume utilise le poids d'une pièce du produit (en g, ou en ml
+ * pour un liquide). Renvoie null quand la conversion est impossible, par
+ * exemple de grammes vers litres.
+ */
+export const convertQuantity = (
+  quantity: number,
+  from: QuantityUnit,
+  to: QuantityUnit,
+  pieceWeight?: number | null,
+): number | null => {
+  if (from === to) {
+    return quantity;
+  }
+
+  const source = UNIT_DEFINITIONS[from];
+  const target = UNIT_DEFINITIONS[to];
+
+  if (source.dimension === target.dimension) {
+    return roundQuantity((quantity * source.toBase) / target.toBase);
+  }
+
+  if (!pieceWeight || pieceWeight <= 0) {
+    return null;
+  }
+
+  if (source.dimension === 'count') {
+    return roundQuantity((quantity * pieceWeight) / target.toBase);
+  }
+
+  if (target.dimension === 'count') {
+    return roundQuantity((quantity * source.toBase) / pieceWeight);
+  }
+
+  return null;
+};
+
+/**
+ * Quantité d'ingrédient exprimée avec une unité normalisée. Les libellés
+ * sans équivalent direct (cl, cuillères...) sont ramenés à leur unité de
+ * base pour rester cohérents avec la quantité.
+ */
+export const normalizeIngredientQuantity = (ingredient: {
+  quantity?: number | null;
+  unit?: string | null;
+  unitType?: QuantityUnit | null;
+}): {
+  quantity: number | null;
+  unit: string;
+  unitType: QuantityUnit | null;
+} => {
+  const quantity = ingredient.quantity ?? null;
+  const label = ingredient.unit?.trim() ?? '';
+
+  if (ingredient.unitType) {
+    return { quantity, unit: label, unitType: ingredient.unitType };
+  }
+
+  const parsed = parseQuantityUnit(label);
+  if (!parsed) {
+    return { quantity, unit: label, unitType: null };
+  }
+
+  if (parsed.factor === 1) {
+    return { quantity, unit: label, unitType: parsed.unit };
+  }
+
+  return {
+    quantity:
+      quantity === null ? null : roundQuantity(quantity * parsed.factor),
+    unit: QUANTITY_UNIT_LABELS[parsed.unit],
+    unitType: parsed.unit,
+  };
+};
+
+/**
+ * Le poids d'une pièce est propre à chaque utilisateur : relation à inclure
+ * sous le produit (`ProductPieceWeight: pieceWeightOf(userId)`) puis à lire
+ * avec `getPieceWeight`
+ */
+export const pieceWeightOf = (userId: string) => ({
+  where: { userId },
+  select: { pieceWeight: true },
+  take: 1,
+});
+
+export const getPieceWeight = (product: {
+  ProductPieceWeight?: Array<{ pieceWeight: number }> | null;
+}): number | null => product.ProductPieceWeight?.[0]?.pieceWeight ?? null;
@@ -2,12 +2,14 @@ import {
   BadRequestException,
   Controller,
   Body,
+  Delete,
   Get,
   HttpCode,
   HttpStatus,
   Param,
   Patch,
   Post,
+  Query,
   Req,
   UploadedFile,
   UseGuards,
@@ -21,6 +23,7 @@ import {
   ApiConsumes,
   ApiOperation,
   ApiParam,
+  ApiQuery,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
@@ -28,13 +31,20 @@ import { Request } from 'express';
 import { CapabilityGuard } from '../../auth/guards/capability.guard';
 import { SessionAuthGuard } from '../../auth/guards/session-auth.guard';
 import { RequiresCapability } from '../../auth/decorators/requires-capability.decorator';
+import {
+  getScopeUserId,
+  HouseholdScopedUser,
+} from '../../household/household-scope';
 import {
   DriveImportResponseDto,
   InvoiceItemResponseDto,
+  InvoiceListResponseDto,
   InvoiceResponseDto,
 } from '../dto/invoice-response.dto';
+import { InvoiceListQueryDto } from '../dto/invoice-query.dto';
 import { UpdateInvoiceItemDto } from '../dto/update-invoice-item.dto';
 import {
+  UnvalidateInvoiceResponseDto,
   ValidateInvoiceDto,
   ValidateInvoiceResponseDto,
 } from '../dto/validate-invoice.dto';
@@ -42,9 +52,10 @@ import { INVOICE_MAX_FILE_SIZE_BYTES } from '../services/invoice-upload.service'
 import { InvoiceService, InvoiceUser } from '../services/invoice.service';
 
 interface AuthenticatedRequest extends Request {
-  user: InvoiceUser & {
-    email: string;
-  };
+  user: InvoiceUser &
+    HouseholdScopedUser & {
+      email: string;
+    };
 }
 
 @ApiTags('Invoices')
@@ -106,13 +117,25 @@ export class InvoiceController {
     status: HttpStatus.FORBIDDEN,
     description: 'Accès Premium/Trial ou quota Drive insuffisant',
   })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'PDF déjà importé : details.duplicateOfId désigne la facture existante',
+  })
+  @ApiQuery({
+    name: 'allowDuplicate',
+    required: false,
+    description: 'Importer le PDF même s’il a déjà été importé',
+  })
   async importDriveInvoice(
     @Req() req: AuthenticatedRequest,
     @UploadedFile() file?: Express.Multer.File,
+    @Query('allowDuplicate') allowDuplicate?: string,
   ): Promise<DriveImportResponseDto> {
     const invoice = await this.invoiceService.importDriveInvoice(
       req.user,
       file as Express.Multer.File,
+      { allowDuplicate: allowDuplicate === 'true' },
     );
 
     return {
@@ -122,6 +145,30 @@ export class InvoiceController {
     };
   }
 
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Lister les factures importées',
+    description:
+      "Historique paginé des factures de l'utilisateur, filtrable par statut, étape de traitement, enseigne, date d'achat et montant.",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Factures récupérées avec succès',
+    type: InvoiceListResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Filtres invalides',
+  })
+  async listInvoices(
+    @Req() req: AuthenticatedRequest,
+    @Query(new ValidationPipe({ transform: true, whitelist: true }))
+    query: InvoiceListQueryDto,
+  ): Promise<InvoiceListResponseDto> {
+    return this.invoiceService.listInvoicesForUser(req.user.id, query);
+  }
+
   @Get(':id')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -149,6 +196,56 @@ export class InvoiceController {
     return this.invoiceService.getInvoiceForUser(req.user.id, invoiceId);
   }
 
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Supprimer une facture non validée',
+    description:
+      'Supprime la facture, ses lignes détectées et son PDF. Les factures dont des lignes ont été validées sont conservées.',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la facture' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Facture supprimée',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: "Facture en cours d'analyse ou déjà validée",
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Facture non trouvée',
+  })
+  async deleteInvoice(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') invoiceId: string,
+  ): Promise<void> {
+    await this.invoiceService.deleteInvoiceForUser(req.user.id, invoiceId);
+  }
+
+  @Post(':id/allow-duplicate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Importer quand même une facture en doublon',
+    description:
+      'Confirme une facture signalée comme doublon après analyse pour autoriser sa validation.',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la facture' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Doublon confirmé',
+    type: InvoiceResponseDto,
+  })
+  async allowDuplicateInvoice(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') invoiceId: string,
+  ): Promise<InvoiceResponseDto> {
+    return this.invoiceService.allowDuplicateInvoiceForUser(
+      req.user.id,
+      invoiceId,
+    );
+  }
+
   @Post(':id/retry')
   @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: "Relancer l'analyse interrompue d'une facture" })
@@ -206,6 +303,7 @@ export class InvoiceController {
       invoiceId,
       itemId,
       updateDto,
+      getScopeUserId(req.user),
     );
   }
 
@@ -244,6 +342,38 @@ export class InvoiceController {
       req.user.id,
       invoiceId,
       validateDto,
+      getScopeUserId(req.user),
     );
   }
+
+  @Post(':id/unvalidate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Annuler la validation d'une facture",
+    description:
+      "Retire de l'inventaire et du budget les lots et dépenses créés par la validation, sauf pour les produits déjà consommés.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID de la facture',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Validation annulée, lignes non annulables signalées',
+    type: UnvalidateInvoiceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Aucune ligne validée sur cette facture',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Facture non trouvée',
+  })
+  async unvalidateInvoice(
+    @Req() req: AuthenticatedRequest,
+    @Param('id') invoiceId: string,
+  ): Promise<UnvalidateInvoiceResponseDto> {
+    return this.invoiceService.unvalidateInvoiceForUser(req.user.id, invoiceId);
+  }
 }
@@ -0,0 +1,97 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  InvoiceProcessingStage,
+  InvoiceStatus,
+} from '../../../prisma/generated/prisma/client';
+
+export class InvoiceListQueryDto {
+  @ApiPropertyOptional({ description: 'Numéro de page', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La page doit être un entier' })
+  @Min(1, { message: 'La page doit être supérieure ou égale à 1' })
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Nombre de factures par page (10-100)',
+    example: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'La taille de page doit être un entier' })
+  @Min(10, { message: 'La taille de page doit être au moins de 10' })
+  @Max(100, { message: 'La taille de page ne peut pas dépasser 100' })
+  pageSize?: number;
+
+  @ApiPropertyOptional({
+    description: 'Filtrer par statut',
+    enum: InvoiceStatus,
+  })
+  @IsOptional()
+  @IsEnum(InvoiceStatus, { message: 'Le statut de facture est invalide' })
+  status?: InvoiceStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filtrer par étape de traitement',
+    enum: InvoiceProcessingStage,
+  })
+  @IsOptional()
+  @IsEnum(InvoiceProcessingStage, {
+    message: "L'étape de traitement est invalide",
+  })
+  processingStage?: InvoiceProcessingStage;
+
+  @ApiPropertyOptional({
+    description: "Recherche sur le nom de l'enseigne",
+    example: 'Carrefour',
+  })
+  @IsOptional()
+  @IsString({ message: "L'enseigne doit être une chaîne de caractères" })
+  @MaxLength(100, { message: "L'enseigne ne peut pas dépasser 100 caractères" })
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.trim() || undefined : value,
+  )
+  merchant?: string;
+
+  @ApiPropertyOptional({
+    description: "Date d'achat minimale (ISO 8601)",
+    example: '2026-10-01',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'La date de début doit être valide' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: "Date d'achat maximale (ISO 8601)",
+    example: '2026-10-31',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: 'La date de fin doit être valide' })
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Montant total minimum', example: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Le montant minimum doit être un nombre' })
+  @Min(0, { message: 'Le montant minimum ne peut pas être négatif' })
+  minTotal?: number;
+
+  @ApiPropertyOptional({ description: 'Montant total maximum', example: 150 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'Le montant maximum doit être un nombre' })
+  @Min(0, { message: 'Le montant maximum ne peut pas être négatif' })
+  maxTotal?: number;
+}
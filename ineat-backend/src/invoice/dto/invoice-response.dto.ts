@@ -63,6 +63,12 @@ export class InvoiceItemResponseDto {
   @ApiProperty()
   validated: boolean;
 
+  @ApiProperty({
+    description:
+      "Ligne résolue à partir des corrections précédentes de l'utilisateur",
+  })
+  resolvedFromHistory: boolean;
+
   @ApiPropertyOptional()
   productCode?: string | null;
 
@@ -111,7 +117,7 @@ export class InvoiceItemResponseDto {
   updatedAt: string;
 }
 
-export class InvoiceResponseDto {
+class InvoiceBaseResponseDto {
   @ApiProperty()
   id: string;
 
@@ -169,12 +175,24 @@ export class InvoiceResponseDto {
   @ApiPropertyOptional()
   errorMessage?: string | null;
 
+  @ApiPropertyOptional({
+    description: 'Facture déjà importée dont celle-ci semble être un doublon',
+  })
+  duplicateOfId?: string | null;
+
+  @ApiProperty({
+    description: "L'utilisateur a confirmé vouloir importer le doublon",
+  })
+  duplicateAllowed: boolean;
+
   @ApiProperty()
   createdAt: string;
 
   @ApiProperty()
   updatedAt: string;
+}
 
+export class InvoiceResponseDto extends InvoiceBaseResponseDto {
   @ApiProperty({ type: [InvoiceItemResponseDto] })
   items: InvoiceItemResponseDto[];
 }
@@ -189,3 +207,41 @@ export class DriveImportResponseDto {
   @ApiProperty()
   message: string;
 }
+
+export class InvoiceSummaryResponseDto extends InvoiceBaseResponseDto {
+  @ApiProperty({ description: 'Nombre de lignes détectées' })
+  itemCount: number;
+
+  @ApiProperty({ description: 'Nombre de lignes validées' })
+  validatedItemCount: number;
+}
+
+class InvoicePaginationResponseDto {
+  @ApiProperty()
+  page: number;
+
+  @ApiProperty()
+  pageSize: number;
+
+  @ApiProperty()
+  totalItems: number;
+
+  @ApiProperty()
+  totalPages: number;
+}
+
+class InvoiceListDataResponseDto {
+  @ApiProperty({ type: [InvoiceSummaryResponseDto] })
+  items: InvoiceSummaryResponseDto[];
+
+  @ApiProperty({ type: InvoicePaginationResponseDto })
+  pagination: InvoicePaginationResponseDto;
+}
+
+export class InvoiceListResponseDto {
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty({ type: InvoiceListDataResponseDto })
+  data: InvoiceListDataResponseDto;
+}
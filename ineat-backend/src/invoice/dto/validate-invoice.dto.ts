@@ -40,3 +40,50 @@ export class ValidateInvoiceResponseDto {
   @ApiProperty()
   message: string;
 }
+
+export class UnrevertedInvoiceItemDto {
+  @ApiProperty({ description: 'ID de la ligne de facture' })
+  invoiceItemId: string;
+
+  @ApiProperty({ description: 'Libellé détecté sur la facture' })
+  detectedName: string;
+
+  @ApiProperty({
+    description: 'Raison pour laquelle la ligne reste validée',
+    enum: [
+      'INVENTORY_ITEM_MISSING',
+      'INVENTORY_ITEM_CONSUMED',
+      'INVENTORY_ITEM_SPLIT',
+    ],
+  })
+  reason: string;
+}
+
+export class UnvalidateInvoiceResponseDto {
+  @ApiProperty()
+  success: boolean;
+
+  @ApiProperty()
+  invoiceId: string;
+
+  @ApiProperty({ description: 'Lignes repassées en attente de validation' })
+  revertedItemCount: number;
+
+  @ApiProperty({ description: "Lots retirés de l'inventaire" })
+  removedInventoryItemCount: number;
+
+  @ApiProperty({ description: 'Dépenses retirées du budget' })
+  removedExpenseCount: number;
+
+  @ApiProperty({ description: 'Montant total des dépenses retirées' })
+  removedBudgetAmount: number;
+
+  @ApiProperty({
+    description: 'Lignes restées validées car leur lot a été consommé',
+    type: [UnrevertedInvoiceItemDto],
+  })
+  unrevertedItems: UnrevertedInvoiceItemDto[];
+
+  @ApiProperty()
+  message: string;
+}
@@ -6,10 +6,14 @@ import { InvoiceProcessingStateService } from './services/invoice-processing-sta
 import { InvoiceService } from './services/invoice.service';
 import { InvoiceUploadService } from './services/invoice-upload.service';
 import { OpenFoodFactsInvoiceEnrichmentService } from './services/openfoodfacts-invoice-enrichment.service';
+import { LocalInvoiceAnalysisProvider } from './services/providers/local-invoice-analysis.provider';
+import { LocalPdfTextExtractor } from './services/providers/local-pdf-text-extractor';
 import { MockInvoiceAnalysisProvider } from './services/providers/mock-invoice-analysis.provider';
 import { OpenAIInvoiceAnalysisProvider } from './services/providers/openai-invoice-analysis.provider';
+import { InventoryModule } from '../inventory/inventory.module';
 
 @Module({
+  imports: [InventoryModule],
   controllers: [InvoiceController],
   providers: [
     InvoiceService,
@@ -20,6 +24,8 @@ import { OpenAIInvoiceAnalysisProvider } from './services/providers/openai-invoi
     OpenFoodFactsInvoiceEnrichmentService,
     MockInvoiceAnalysisProvider,
     OpenAIInvoiceAnalysisProvider,
+    LocalPdfTextExtractor,
+    LocalInvoiceAnalysisProvider,
   ],
   exports: [InvoiceService],
 })
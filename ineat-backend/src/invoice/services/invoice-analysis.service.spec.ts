@@ -1,4 +1,5 @@
 import { InvoiceAnalysisService } from './invoice-analysis.service';
+import { UnsupportedInvoiceLayoutError } from './providers/local-invoice-analysis.provider';
 
 describe('InvoiceAnalysisService', () => {
   const configService = {
@@ -12,15 +13,55 @@ describe('InvoiceAnalysisService', () => {
     providerName: 'openai',
     analyzePdf: jest.fn(),
   };
+  const localProvider = {
+    providerName: 'local',
+    analyzePdf: jest.fn(),
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
-  it("utilise OpenAI par défaut quand une clé d'API existe", async () => {
+  it("analyse d'abord localement quand une clé OpenAI permet le repli", async () => {
+    configService.get.mockImplementation((key: string) =>
+      key === 'OPENAI_API_KEY_INVOICE' ? 'test-key' : undefined,
+    );
+    localProvider.analyzePdf.mockResolvedValue({
+      provider: 'local',
+      confidence: 0.9,
+      rawData: {},
+      items: [],
+    });
+
+    const service = new InvoiceAnalysisService(
+      configService as any,
+      mockProvider as any,
+      openAIProvider as any,
+      localProvider as any,
+    );
+
+    const pdfBuffer = Buffer.from('%PDF-1.4');
+    const result = await service.analyzePdf(
+      'https://example.com/invoice.pdf',
+      pdfBuffer,
+    );
+
+    expect(localProvider.analyzePdf).toHaveBeenCalledWith(
+      'https://example.com/invoice.pdf',
+      pdfBuffer,
+    );
+    expect(result.provider).toBe('local');
+    expect(openAIProvider.analyzePdf).not.toHaveBeenCalled();
+    expect(mockProvider.analyzePdf).not.toHaveBeenCalled();
+  });
+
+  it('bascule sur OpenAI quand aucune mise en page locale ne correspond', async () => {
     configService.get.mockImplementation((key: string) =>
       key === 'OPENAI_API_KEY_INVOICE' ? 'test-key' : undefined,
     );
+    localProvider.analyzePdf.mockRejectedValue(
+      new UnsupportedInvoiceLayoutError(),
+    );
     openAIProvider.analyzePdf.mockResolvedValue({
       provider: 'openai',
       confidence: 0.8,
@@ -32,16 +73,44 @@ describe('InvoiceAnalysisService', () => {
       configService as any,
       mockProvider as any,
       openAIProvider as any,
+      localProvider as any,
     );
 
     const pdfBuffer = Buffer.from('%PDF-1.4');
-    await service.analyzePdf('https://example.com/invoice.pdf', pdfBuffer);
+    const result = await service.analyzePdf(
+      'https://example.com/invoice.pdf',
+      pdfBuffer,
+    );
 
     expect(openAIProvider.analyzePdf).toHaveBeenCalledWith(
       'https://example.com/invoice.pdf',
       pdfBuffer,
     );
-    expect(mockProvider.analyzePdf).not.toHaveBeenCalled();
+    expect(result.provider).toBe('openai');
+  });
+
+  it("n'appelle aucune IA quand l'analyse locale est configurée sans clé", async () => {
+    configService.get.mockImplementation((key: string) =>
+      key === 'INVOICE_ANALYSIS_PROVIDER' ? 'local' : undefined,
+    );
+    localProvider.analyzePdf.mockRejectedValue(
+      new UnsupportedInvoiceLayoutError(),
+    );
+
+    const service = new InvoiceAnalysisService(
+      configService as any,
+      mockProvider as any,
+      openAIProvider as any,
+      localProvider as any,
+    );
+
+    await expect(
+      service.analyzePdf(
+        'https://example.com/invoice.pdf',
+        Buffer.from('%PDF-1.4'),
+      ),
+    ).rejects.toBeInstanceOf(UnsupportedInvoiceLayoutError);
+    expect(openAIProvider.analyzePdf).not.toHaveBeenCalled();
   });
 
   it("utilise le provider mock par défaut quand aucune clé OpenAI n'est disponible", async () => {
@@ -57,6 +126,7 @@ describe('InvoiceAnalysisService', () => {
       configService as any,
       mockProvider as any,
       openAIProvider as any,
+      localProvider as any,
     );
 
     const pdfBuffer = Buffer.from('%PDF-1.4');
@@ -92,6 +162,7 @@ describe('InvoiceAnalysisService', () => {
       configService as any,
       mockProvider as any,
       openAIProvider as any,
+      localProvider as any,
     );
 
     await service.analyzePdf('https://example.com/invoice.pdf');
@@ -113,6 +184,7 @@ describe('InvoiceAnalysisService', () => {
       configService as any,
       mockProvider as any,
       openAIProvider as any,
+      localProvider as any,
     );
 
     const pdfBuffer = Buffer.from('%PDF-1.4');
@@ -131,6 +203,7 @@ describe('InvoiceAnalysisService', () => {
       configService as any,
       mockProvider as any,
       openAIProvider as any,
+      localProvider as any,
     );
 
     await expect(
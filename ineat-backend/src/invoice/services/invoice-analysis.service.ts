@@ -1,9 +1,10 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import {
   AnalyzedInvoice,
   InvoiceAnalysisProvider,
 } from './providers/invoice-analysis-provider';
+import { LocalInvoiceAnalysisProvider } from './providers/local-invoice-analysis.provider';
 import { MockInvoiceAnalysisProvider } from './providers/mock-invoice-analysis.provider';
 import { OpenAIInvoiceAnalysisProvider } from './providers/openai-invoice-analysis.provider';
 
@@ -14,16 +15,19 @@ export {
 
 @Injectable()
 export class InvoiceAnalysisService {
+  private readonly logger = new Logger(InvoiceAnalysisService.name);
   private readonly providers: Record<string, InvoiceAnalysisProvider>;
 
   constructor(
     private readonly configService: ConfigService,
     mockProvider: MockInvoiceAnalysisProvider,
     openAIProvider: OpenAIInvoiceAnalysisProvider,
+    localProvider: LocalInvoiceAnalysisProvider,
   ) {
     this.providers = {
       [mockProvider.providerName]: mockProvider,
       [openAIProvider.providerName]: openAIProvider,
+      [localProvider.providerName]: localProvider,
     };
   }
 
@@ -38,9 +42,27 @@ export class InvoiceAnalysisService {
       throw new Error(`Unsupported invoice analysis provider: ${providerName}`);
     }
 
-    return provider.analyzePdf(pdfUrl, pdfBuffer);
+    if (providerName !== 'local' || !this.hasOpenAIKey()) {
+      return provider.analyzePdf(pdfUrl, pdfBuffer);
+    }
+
+    try {
+      return await provider.analyzePdf(pdfUrl, pdfBuffer);
+    } catch (error) {
+      // Aucune mise en page connue ou PDF illisible : l'IA prend le relais
+      this.logger.warn(
+        `Local invoice analysis failed, falling back to OpenAI: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      return this.providers.openai.analyzePdf(pdfUrl, pdfBuffer);
+    }
   }
 
+  /**
+   * Sans configuration explicite, l'analyse locale sans IA est tentée dès
+   * qu'OpenAI peut servir de repli.
+   */
   private resolveProviderName(): string {
     const configuredProvider = this.configService.get<string>(
       'INVOICE_ANALYSIS_PROVIDER',
@@ -50,8 +72,10 @@ export class InvoiceAnalysisService {
       return configuredProvider.trim().toLowerCase();
     }
 
-    return this.configService.get<string>('OPENAI_API_KEY_INVOICE')
-      ? 'openai'
-      : 'mock';
+    return this.hasOpenAIKey() ? 'local' : 'mock';
+  }
+
+  private hasOpenAIKey(): boolean {
+    return Boolean(this.configService.get<string>('OPENAI_API_KEY_INVOICE'));
   }
 }
@@ -131,4 +131,25 @@ describe('InvoiceProcessingStateService', () => {
       }),
     });
   });
+
+  it('trace l’annulation d’une validation et ramène la facture à la vérification', async () => {
+    await service.revertValidation(tx as any, 'invoice-1', 2);
+
+    expect(tx.invoiceProcessingEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        invoiceId: 'invoice-1',
+        stage: InvoiceProcessingStage.VALIDATED,
+        status: InvoiceProcessingEventStatus.REVERTED,
+        attempt: 2,
+      }),
+    });
+    expect(tx.invoice.update).toHaveBeenCalledWith({
+      where: { id: 'invoice-1' },
+      data: expect.objectContaining({
+        processingStage: InvoiceProcessingStage.READY_FOR_REVIEW,
+        processingProgress: 100,
+      }),
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
 });
@@ -3,6 +3,7 @@ import { randomUUID } from 'crypto';
 import {
   InvoiceProcessingEventStatus,
   InvoiceProcessingStage,
+  Prisma,
 } from '../../../prisma/generated/prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 
@@ -130,6 +131,45 @@ export class InvoiceProcessingStateService {
     });
   }
 
+  /**
+   * Ramène une facture à la vérification après l'annulation de sa validation.
+   * Contrairement à `transition`, l'événement REVERTED est tracé quelle que
+   * soit l'étape courante, une validation partielle laissant la facture en
+   * READY_FOR_REVIEW.
+   */
+  async revertValidation(
+    tx: Prisma.TransactionClient,
+    invoiceId: string,
+    attempt: number,
+  ) {
+    const now = new Date();
+
+    await tx.invoiceProcessingEvent.create({
+      data: {
+        id: randomUUID(),
+        invoiceId,
+        stage: InvoiceProcessingStage.VALIDATED,
+        status: InvoiceProcessingEventStatus.REVERTED,
+        attempt,
+        startedAt: now,
+        completedAt: now,
+      },
+    });
+
+    return tx.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        processingStage: InvoiceProcessingStage.READY_FOR_REVIEW,
+        processingProgress:
+          STAGE_PROGRESS[InvoiceProcessingStage.READY_FOR_REVIEW],
+        stageStartedAt: now,
+        stageCompletedAt: now,
+        processingErrorCode: null,
+        updatedAt: now,
+      },
+    });
+  }
+
   private eventStatus(
     stage: InvoiceProcessingStage,
   ): InvoiceProcessingEventStatus {
@@ -9,16 +9,6 @@ export const INVOICE_CATEGORY_SLUGS = [
   'autres',
 ] as const;
 
-export const INVOICE_STORAGE_LOCATIONS = [
-  'Réfrigérateur',
-  'Congélateur',
-  'Placard',
-  'Cave',
-  'Garde-manger',
-  'Fruitier',
-  'Autre',
-] as const;
-
 const CATEGORY_ALIASES: Record<string, (typeof INVOICE_CATEGORY_SLUGS)[number]> = {
   fruit: 'fruits-et-legumes',
   fruits: 'fruits-et-legumes',
@@ -58,6 +48,7 @@ for (const slug of INVOICE_CATEGORY_SLUGS) {
   CATEGORY_ALIASES[slug.replace(/-/g, ' ')] = slug;
 }
 
+// Suggestions tirées des lieux de stockage par défaut (DEFAULT_STORAGE_LOCATIONS)
 const STORAGE_BY_CATEGORY: Partial<
   Record<(typeof INVOICE_CATEGORY_SLUGS)[number], string>
 > = {
@@ -74,6 +65,15 @@ const REFRIGERATED_PRODUCE =
 const FRUITIER_PRODUCE =
   /\b(pomme|poire|banane|orange|citron|mandarine|clementine|avocat|kiwi|mangue|peche|nectarine)s?\b/i;
 
+// Libellés de frais, totaux ou paiements à ne jamais traiter comme des produits
+export const NON_PRODUCT_LABEL_PATTERNS = [
+  /\b(total|sous[-\s]?total|montant)\b/i,
+  /\b(tva|taxe|eco[-\s]?participation)\b/i,
+  /\b(livraison|frais|service|preparation|préparation)\b/i,
+  /\b(paiement|carte|cb|visa|mastercard)\b/i,
+  /\b(remise globale|bon d'achat|avoir|coupon)\b/i,
+];
+
 export function normalizeInvoiceCategory(
   ...candidates: Array<string | null | undefined>
 ): (typeof INVOICE_CATEGORY_SLUGS)[number] | null {
@@ -113,10 +113,6 @@ export function suggestInvoiceStorageLocation({
   return STORAGE_BY_CATEGORY[normalizedCategory] ?? null;
 }
 
-export function isInvoiceStorageLocation(value: string): boolean {
-  return (INVOICE_STORAGE_LOCATIONS as readonly string[]).includes(value);
-}
-
 function normalize(value?: string | null): string {
   return (value ?? '')
     .normalize('NFD')
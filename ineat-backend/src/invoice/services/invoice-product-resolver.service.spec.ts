@@ -9,6 +9,11 @@ describe('InvoiceProductResolverService', () => {
     category: {
       findFirst: jest.fn(),
     },
+    invoiceItemMapping: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
   };
 
   let service: InvoiceProductResolverService;
@@ -22,6 +27,7 @@ describe('InvoiceProductResolverService', () => {
     });
     tx.product.findUnique.mockResolvedValue(null);
     tx.product.findMany.mockResolvedValue([]);
+    tx.invoiceItemMapping.findMany.mockResolvedValue([]);
   });
 
   it('associe automatiquement un produit par EAN', async () => {
@@ -152,4 +158,142 @@ describe('InvoiceProductResolverService', () => {
     });
     expect(result.productId).toBeUndefined();
   });
+
+  it("applique en priorité la correction apprise pour le libellé et l'enseigne", async () => {
+    tx.invoiceItemMapping.findMany.mockResolvedValue([
+      {
+        detectedNameKey: 'lait demi ecr uht 6x1l',
+        productId: 'product-9',
+        category: 'produits-laitiers',
+        storageLocation: 'Placard',
+        selectedEan: '3564700012345',
+      },
+    ]);
+
+    const [learned, unknown] = await service.resolveItems(
+      tx,
+      [
+        {
+          detectedName: 'LAIT DEMI-ÉCR. UHT 6X1L',
+          quantity: 1,
+          confidence: 0.6,
+          category: 'boissons',
+        },
+        {
+          detectedName: 'Produit inconnu',
+          quantity: 1,
+          confidence: 0.9,
+        },
+      ],
+      { userId: 'user-1', merchantName: 'Carrefour Drive' },
+    );
+
+    expect(tx.invoiceItemMapping.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        merchantKey: 'carrefour drive',
+        detectedNameKey: {
+          in: ['lait demi ecr uht 6x1l', 'produit inconnu'],
+        },
+      },
+    });
+    expect(learned).toMatchObject({
+      productId: 'product-9',
+      category: 'produits-laitiers',
+      storageLocation: 'Placard',
+      selectedEan: '3564700012345',
+      suggestedEans: ['3564700012345'],
+      resolvedFromHistory: true,
+    });
+    expect(unknown.resolvedFromHistory).toBeUndefined();
+    expect(tx.product.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("retrouve le produit par l'EAN appris quand la correction n'en fixait pas", async () => {
+    tx.invoiceItemMapping.findMany.mockResolvedValue([
+      {
+        detectedNameKey: 'lait',
+        productId: null,
+        category: null,
+        storageLocation: 'Réfrigérateur',
+        selectedEan: '3564700012345',
+      },
+    ]);
+    tx.product.findUnique.mockResolvedValue({
+      id: 'product-1',
+      barcode: '3564700012345',
+    });
+
+    const [result] = await service.resolveItems(
+      tx,
+      [{ detectedName: 'Lait', quantity: 1, confidence: 0.7 }],
+      { userId: 'user-1' },
+    );
+
+    expect(tx.invoiceItemMapping.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ merchantKey: '' }),
+      }),
+    );
+    expect(result).toMatchObject({
+      productId: 'product-1',
+      storageLocation: 'Réfrigérateur',
+      resolvedFromHistory: true,
+    });
+  });
+
+  it("mémorise la correction d'une ligne pour son libellé d'origine", async () => {
+    await service.rememberCorrection(
+      tx,
+      { userId: 'user-1', merchantName: 'Carrefour Drive' },
+      {
+        detectedName: 'LAIT DEMI ECR UHT 6X1L',
+        productId: 'product-9',
+        category: 'produits-laitiers',
+        storageLocation: 'Placard',
+        selectedEan: 'invalide',
+      },
+    );
+
+    expect(tx.invoiceItemMapping.upsert).toHaveBeenCalledWith({
+      where: {
+        userId_merchantKey_detectedNameKey: {
+          userId: 'user-1',
+          merchantKey: 'carrefour drive',
+          detectedNameKey: 'lait demi ecr uht 6x1l',
+        },
+      },
+      create: expect.objectContaining({
+        id: expect.any(String),
+        userId: 'user-1',
+        merchantKey: 'carrefour drive',
+        detectedNameKey: 'lait demi ecr uht 6x1l',
+        productId: 'product-9',
+        selectedEan: null,
+      }),
+      update: expect.objectContaining({
+        productId: 'product-9',
+        category: 'produits-laitiers',
+        storageLocation: 'Placard',
+        selectedEan: null,
+      }),
+    });
+  });
+
+  it('oublie la correspondance quand la ligne est entièrement réinitialisée', async () => {
+    await service.rememberCorrection(
+      tx,
+      { userId: 'user-1', merchantName: null },
+      { detectedName: 'Lait', productId: null, category: null },
+    );
+
+    expect(tx.invoiceItemMapping.upsert).not.toHaveBeenCalled();
+    expect(tx.invoiceItemMapping.deleteMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        merchantKey: '',
+        detectedNameKey: 'lait',
+      },
+    });
+  });
 });
@@ -1,24 +1,181 @@
 import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { AnalyzedInvoiceItem } from './invoice-analysis.service';
 
 export interface ResolvedInvoiceItem extends AnalyzedInvoiceItem {
   productId?: string | null;
+  resolvedFromHistory?: boolean;
+}
+
+export interface InvoiceItemMappingScope {
+  userId: string;
+  merchantName?: string | null;
+}
+
+export interface InvoiceItemCorrection {
+  detectedName: string;
+  productId?: string | null;
+  category?: string | null;
+  storageLocation?: string | null;
+  selectedEan?: string | null;
+}
+
+interface InvoiceItemMapping {
+  detectedNameKey: string;
+  productId: string | null;
+  category: string | null;
+  storageLocation: string | null;
+  selectedEan: string | null;
 }
 
 const AUTO_MATCH_CONFIDENCE_THRESHOLD = 0.85;
 
 @Injectable()
 export class InvoiceProductResolverService {
+  /**
+   * Les correspondances apprises des corrections de l'utilisateur (`scope`)
+   * priment sur la recherche par EAN et par nom dans le catalogue.
+   */
   async resolveItems(
     tx: any,
     items: AnalyzedInvoiceItem[],
+    scope?: InvoiceItemMappingScope,
   ): Promise<ResolvedInvoiceItem[]> {
-    return Promise.all(items.map((item) => this.resolveItem(tx, item)));
+    const mappings = scope
+      ? await this.findMappings(tx, items, scope)
+      : new Map<string, InvoiceItemMapping>();
+
+    return Promise.all(
+      items.map((item) =>
+        this.resolveItem(
+          tx,
+          item,
+          mappings.get(this.normalizeKey(item.detectedName)),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Mémorise la correction d'une ligne pour son libellé d'origine, afin de la
+   * réappliquer aux prochaines factures de la même enseigne.
+   */
+  async rememberCorrection(
+    tx: any,
+    scope: InvoiceItemMappingScope,
+    correction: InvoiceItemCorrection,
+  ): Promise<void> {
+    const detectedNameKey = this.normalizeKey(correction.detectedName);
+
+    if (!detectedNameKey) {
+      return;
+    }
+
+    const where = {
+      userId_merchantKey_detectedNameKey: {
+        userId: scope.userId,
+        merchantKey: this.normalizeKey(scope.merchantName),
+        detectedNameKey,
+      },
+    };
+    const learned = {
+      productId: correction.productId ?? null,
+      category: correction.category ?? null,
+      storageLocation: correction.storageLocation ?? null,
+      selectedEan: this.getValidBarcode(correction.selectedEan),
+    };
+
+    if (Object.values(learned).every((value) => value === null)) {
+      await tx.invoiceItemMapping.deleteMany({
+        where: where.userId_merchantKey_detectedNameKey,
+      });
+      return;
+    }
+
+    const now = new Date();
+    await tx.invoiceItemMapping.upsert({
+      where,
+      create: {
+        id: randomUUID(),
+        ...where.userId_merchantKey_detectedNameKey,
+        ...learned,
+        updatedAt: now,
+      },
+      update: {
+        ...learned,
+        updatedAt: now,
+      },
+    });
+  }
+
+  private async findMappings(
+    tx: any,
+    items: AnalyzedInvoiceItem[],
+    scope: InvoiceItemMappingScope,
+  ): Promise<Map<string, InvoiceItemMapping>> {
+    const detectedNameKeys = Array.from(
+      new Set(
+        items
+          .map((item) => this.normalizeKey(item.detectedName))
+          .filter(Boolean),
+      ),
+    );
+
+    if (detectedNameKeys.length === 0) {
+      return new Map();
+    }
+
+    const mappings: InvoiceItemMapping[] = await tx.invoiceItemMapping.findMany(
+      {
+        where: {
+          userId: scope.userId,
+          merchantKey: this.normalizeKey(scope.merchantName),
+          detectedNameKey: { in: detectedNameKeys },
+        },
+      },
+    );
+
+    return new Map(
+      mappings.map((mapping) => [mapping.detectedNameKey, mapping]),
+    );
   }
 
   private async resolveItem(
     tx: any,
     item: AnalyzedInvoiceItem,
+    mapping?: InvoiceItemMapping,
+  ): Promise<ResolvedInvoiceItem> {
+    if (!mapping) {
+      return this.resolveFromCatalog(tx, item);
+    }
+
+    const learnedItem: AnalyzedInvoiceItem = {
+      ...item,
+      category: mapping.category ?? item.category,
+      storageLocation: mapping.storageLocation ?? item.storageLocation,
+      selectedEan: mapping.selectedEan ?? item.selectedEan,
+      suggestedEans: this.mergeSuggestedEans(item.suggestedEans, [
+        mapping.selectedEan,
+      ]),
+    };
+
+    if (mapping.productId) {
+      return {
+        ...learnedItem,
+        productId: mapping.productId,
+        resolvedFromHistory: true,
+      };
+    }
+
+    return {
+      ...(await this.resolveFromCatalog(tx, learnedItem)),
+      resolvedFromHistory: true,
+    };
+  }
+
+  private async resolveFromCatalog(
+    tx: any,
+    item: AnalyzedInvoiceItem,
   ): Promise<ResolvedInvoiceItem> {
     const barcode = this.getFirstValidBarcode(
       item.selectedEan,
@@ -168,6 +325,15 @@ export class InvoiceProductResolverService {
     return null;
   }
 
+  private normalizeKey(value?: string | null): string {
+    return (value ?? '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
   private isValidBarcode(value?: string | null): value is string {
     return Boolean(value && /^\d{8,13}$/.test(value));
   }
@@ -7,6 +7,7 @@ import {
 describe('InvoiceUploadService', () => {
   const cloudinaryService = {
     uploadRawFile: jest.fn(),
+    deleteResourceFromUrl: jest.fn(),
   };
 
   let service: InvoiceUploadService;
@@ -66,4 +67,16 @@ describe('InvoiceUploadService', () => {
       ),
     ).toThrow('La facture PDF ne doit pas dépasser 5 Mo');
   });
+
+  it('supprime le PDF brut de la facture', async () => {
+    const pdfUrl =
+      'https://res.cloudinary.com/demo/raw/upload/invoices/user-1/file.pdf';
+
+    await service.deleteInvoicePdf(pdfUrl);
+
+    expect(cloudinaryService.deleteResourceFromUrl).toHaveBeenCalledWith(
+      pdfUrl,
+      'raw',
+    );
+  });
 });
@@ -39,4 +39,7 @@ export class InvoiceUploadService {
       `${randomUUID()}.pdf`,
     );
   }
+  async deleteInvoicePdf(pdfUrl: string): Promise<void> {
+    await this.cloudinaryService.deleteResourceFromUrl(pdfUrl, 'raw');
+  }
 }
@@ -1,4 +1,10 @@
-import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
 import {
   InvoiceProcessingStage,
   InvoiceStatus,
@@ -13,7 +19,9 @@ describe('InvoiceService', () => {
     invoiceItem: {
       createMany: jest.fn(),
       deleteMany: jest.fn(),
+      findMany: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       count: jest.fn(),
     },
     product: {
@@ -29,6 +37,11 @@ describe('InvoiceService', () => {
     },
     inventoryItem: {
       create: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    inventoryMovement: {
+      findMany: jest.fn(),
     },
     budget: {
       findFirst: jest.fn(),
@@ -39,6 +52,10 @@ describe('InvoiceService', () => {
       findMany: jest.fn(),
       findUnique: jest.fn(),
       create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    productPriceRecord: {
+      deleteMany: jest.fn(),
     },
   };
 
@@ -46,10 +63,10 @@ describe('InvoiceService', () => {
     invoice: {
       create: jest.fn(),
       findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
       update: jest.fn(),
-    },
-    invoiceItem: {
-      update: jest.fn(),
+      delete: jest.fn(),
     },
     category: {
       findFirst: jest.fn(),
@@ -57,11 +74,15 @@ describe('InvoiceService', () => {
     user: {
       findUnique: jest.fn(),
     },
+    householdMember: {
+      findUnique: jest.fn(),
+    },
     $transaction: jest.fn(),
   };
 
   const invoiceUploadService = {
     uploadInvoicePdf: jest.fn(),
+    deleteInvoicePdf: jest.fn(),
   };
 
   const invoiceAnalysisService = {
@@ -70,10 +91,12 @@ describe('InvoiceService', () => {
 
   const invoiceProductResolverService = {
     resolveItems: jest.fn(),
+    rememberCorrection: jest.fn(),
   };
 
   const invoiceProcessingStateService = {
     transition: jest.fn(),
+    revertValidation: jest.fn(),
   };
 
   const openFoodFactsInvoiceEnrichmentService = {
@@ -95,6 +118,30 @@ describe('InvoiceService', () => {
     ),
   };
 
+  const userStorageLocations = ['Réfrigérateur', 'Fruitier', 'Tiroir goûters'];
+  const storageLocations = {
+    findStorageLocationByName: jest.fn(
+      async (_userId: string, name: string) => {
+        const match = userStorageLocations.find(
+          (location) => location.toLowerCase() === name.toLowerCase(),
+        );
+        return match ? { id: `location-${match}`, name: match } : null;
+      },
+    ),
+  };
+
+  const productPrices = {
+    record: jest.fn(),
+  };
+
+  const inventoryMovements = {
+    record: jest.fn(),
+  };
+
+  const inventoryService = {
+    refreshInventoryNotifications: jest.fn(),
+  };
+
   let service: InvoiceService;
   let loggerSpy: jest.SpyInstance;
 
@@ -148,6 +195,7 @@ describe('InvoiceService', () => {
         invoiceId: 'invoice-1',
         productId: null,
         detectedName: 'Pommes',
+        originalDetectedName: 'Pommes',
         quantity: 2,
         unitPrice: 2.25,
         totalPrice: 4.5,
@@ -186,6 +234,10 @@ describe('InvoiceService', () => {
       usageQuotaService as any,
       queues as any,
       config as any,
+      storageLocations as any,
+      productPrices as any,
+      inventoryMovements as any,
+      inventoryService as any,
     );
     prisma.$transaction.mockImplementation((callback) => callback(tx));
     tx.invoiceItem.count.mockResolvedValue(1);
@@ -205,6 +257,9 @@ describe('InvoiceService', () => {
     tx.inventoryItem.create.mockResolvedValue({
       id: 'inventory-item-1',
     });
+    tx.inventoryItem.updateMany.mockResolvedValue({ count: 1 });
+    tx.inventoryItem.deleteMany.mockResolvedValue({ count: 1 });
+    tx.inventoryMovement.findMany.mockResolvedValue([]);
     tx.budget.findFirst.mockResolvedValue({
       id: 'budget-1',
       amount: 300,
@@ -221,8 +276,12 @@ describe('InvoiceService', () => {
       amount: 4.5,
     });
     prisma.invoice.create.mockResolvedValue(createdInvoice);
-    prisma.invoice.findFirst.mockResolvedValue(completedInvoice);
-    prisma.invoiceItem.update.mockResolvedValue({
+    // Seules les recherches par identifiant trouvent la facture : aucun
+    // doublon par défaut
+    prisma.invoice.findFirst.mockImplementation(async ({ where }) =>
+      where.fileHash || where.id?.not ? null : completedInvoice,
+    );
+    tx.invoiceItem.update.mockResolvedValue({
       ...completedInvoice.InvoiceItem[0],
       detectedName: 'Pommes bio',
       quantity: 3,
@@ -336,6 +395,7 @@ describe('InvoiceService', () => {
           externalProductStatus: 'FOUND',
         }),
       ],
+      { userId: 'user-1', merchantName: 'Drive Démo' },
     );
     expect(tx.invoiceItem.createMany).toHaveBeenCalledWith({
       data: [
@@ -370,6 +430,23 @@ describe('InvoiceService', () => {
     });
   });
 
+  it("applique les correspondances apprises du foyer actif de l'importateur", async () => {
+    prisma.user.findUnique.mockResolvedValueOnce({
+      activeHouseholdId: 'household-1',
+    });
+    prisma.householdMember.findUnique.mockResolvedValueOnce({
+      Household: { ownerId: 'household-owner' },
+    });
+
+    await service.importDriveInvoice(user, file);
+
+    expect(invoiceProductResolverService.resolveItems).toHaveBeenCalledWith(
+      tx,
+      expect.any(Array),
+      { userId: 'household-owner', merchantName: 'Drive Démo' },
+    );
+  });
+
   it('met la facture en file et répond sans appeler le provider en mode BullMQ', async () => {
     config.get.mockImplementation((key: string, fallback?: unknown) =>
       key === 'INVOICE_PROCESSING_MODE' ? 'bullmq' : fallback,
@@ -392,7 +469,7 @@ describe('InvoiceService', () => {
   });
 
   it('télécharge le PDF pour une facture en file et consomme le quota de façon idempotente', async () => {
-    prisma.invoice.findFirst.mockResolvedValue({
+    prisma.invoice.findFirst.mockResolvedValueOnce({
       ...createdInvoice,
       processingStage: InvoiceProcessingStage.QUEUED,
     });
@@ -474,6 +551,154 @@ describe('InvoiceService', () => {
     );
   });
 
+  it('refuse un PDF déjà importé sans charger ni décompter le quota', async () => {
+    prisma.invoice.findFirst.mockResolvedValueOnce({ id: 'invoice-0' });
+
+    const error = await service
+      .importDriveInvoice(user, file)
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ConflictException);
+    expect(error.getResponse()).toEqual({
+      code: 'INVOICE_DUPLICATE',
+      message: 'Cette facture a déjà été importée',
+      details: { duplicateOfId: 'invoice-0' },
+    });
+    expect(prisma.invoice.findFirst).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        fileHash: createHash('sha256').update(file.buffer).digest('hex'),
+        status: { not: InvoiceStatus.FAILED },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    expect(usageQuotaService.assertCanConsume).not.toHaveBeenCalled();
+    expect(invoiceUploadService.uploadInvoicePdf).not.toHaveBeenCalled();
+    expect(prisma.invoice.create).not.toHaveBeenCalled();
+  });
+
+  it('importe quand même un PDF en doublon sur demande, sans décompter le quota', async () => {
+    prisma.invoice.findFirst.mockResolvedValueOnce({ id: 'invoice-0' });
+    prisma.invoice.create.mockResolvedValueOnce({
+      ...createdInvoice,
+      duplicateOfId: 'invoice-0',
+      duplicateAllowed: true,
+    });
+
+    await service.importDriveInvoice(user, file, { allowDuplicate: true });
+
+    expect(prisma.invoice.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          duplicateOfId: 'invoice-0',
+          duplicateAllowed: true,
+        }),
+      }),
+    );
+    expect(usageQuotaService.assertCanConsume).not.toHaveBeenCalled();
+    expect(usageQuotaService.recordSuccessfulUsage).not.toHaveBeenCalled();
+    expect(tx.invoice.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ duplicateOfId: 'invoice-0' }),
+      }),
+    );
+  });
+
+  it("signale après analyse une facture au même numéro et n'en décompte pas le quota", async () => {
+    prisma.invoice.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'invoice-0' });
+
+    await service.importDriveInvoice(user, file);
+
+    expect(prisma.invoice.findFirst).toHaveBeenNthCalledWith(2, {
+      where: {
+        id: { not: 'invoice-1' },
+        userId: 'user-1',
+        status: { not: InvoiceStatus.FAILED },
+        merchantName: { equals: 'Drive Démo', mode: 'insensitive' },
+        OR: [{ invoiceNumber: 'INV-1' }, { orderNumber: 'ORD-1' }],
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    expect(tx.invoice.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ duplicateOfId: 'invoice-0' }),
+      }),
+    );
+    expect(usageQuotaService.recordSuccessfulUsage).not.toHaveBeenCalled();
+  });
+
+  it('compare le total et la date quand la facture ne porte aucun numéro', async () => {
+    invoiceAnalysisService.analyzePdf.mockResolvedValueOnce({
+      provider: 'mock',
+      confidence: 0.9,
+      merchantName: 'Drive Démo',
+      totalAmount: 4.5,
+      purchaseDate: new Date('2026-06-05T00:00:00.000Z'),
+      invoiceNumber: null,
+      orderNumber: null,
+      rawData: { provider: 'mock' },
+      items: [],
+    });
+
+    await service.importDriveInvoice(user, file);
+
+    expect(prisma.invoice.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [
+            {
+              totalAmount: 4.5,
+              purchaseDate: new Date('2026-06-05T00:00:00.000Z'),
+            },
+          ],
+        }),
+      }),
+    );
+    expect(usageQuotaService.recordSuccessfulUsage).toHaveBeenCalled();
+  });
+
+  it("refuse la validation d'un doublon tant que l'import n'est pas confirmé", async () => {
+    prisma.invoice.findFirst.mockResolvedValueOnce({
+      ...completedInvoice,
+      duplicateOfId: 'invoice-0',
+      duplicateAllowed: false,
+    });
+
+    await expect(
+      service.validateInvoiceForUser('user-1', 'invoice-1', {
+        invoiceItemIds: ['item-1'],
+      }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("confirme l'import d'un doublon", async () => {
+    prisma.invoice.findFirst.mockResolvedValueOnce({
+      id: 'invoice-1',
+      duplicateOfId: 'invoice-0',
+    });
+
+    await service.allowDuplicateInvoiceForUser('user-1', 'invoice-1');
+
+    expect(prisma.invoice.update).toHaveBeenCalledWith({
+      where: { id: 'invoice-1' },
+      data: expect.objectContaining({ duplicateAllowed: true }),
+    });
+
+    prisma.invoice.findFirst.mockResolvedValueOnce({
+      id: 'invoice-1',
+      duplicateOfId: null,
+    });
+
+    await expect(
+      service.allowDuplicateInvoiceForUser('user-1', 'invoice-1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
   it("récupère uniquement une facture appartenant à l'utilisateur", async () => {
     await service.getInvoiceForUser('user-1', 'invoice-1');
 
@@ -487,6 +712,135 @@ describe('InvoiceService', () => {
     );
   });
 
+  it("liste l'historique filtré des factures avec le nombre de lignes validées", async () => {
+    prisma.$transaction.mockImplementationOnce((operations) =>
+      Promise.all(operations),
+    );
+    prisma.invoice.findMany.mockResolvedValue([
+      {
+        ...completedInvoice,
+        InvoiceItem: [{ validated: true }, { validated: false }],
+      },
+    ]);
+    prisma.invoice.count.mockResolvedValue(21);
+
+    const result = await service.listInvoicesForUser('user-1', {
+      page: 2,
+      pageSize: 10,
+      status: InvoiceStatus.COMPLETED,
+      merchant: 'drive',
+      from: '2026-10-01',
+      minTotal: 5,
+    });
+
+    expect(prisma.invoice.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-1',
+          status: InvoiceStatus.COMPLETED,
+          processingStage: undefined,
+          merchantName: { contains: 'drive', mode: 'insensitive' },
+          purchaseDate: { gte: new Date('2026-10-01') },
+          totalAmount: { gte: 5 },
+        },
+        orderBy: [{ purchaseDate: 'desc' }, { id: 'desc' }],
+        skip: 10,
+        take: 10,
+      }),
+    );
+    expect(result.data.pagination).toEqual({
+      page: 2,
+      pageSize: 10,
+      totalItems: 21,
+      totalPages: 3,
+    });
+    expect(result.data.items[0]).toEqual(
+      expect.objectContaining({
+        id: 'invoice-1',
+        merchantName: 'Drive Démo',
+        itemCount: 2,
+        validatedItemCount: 1,
+      }),
+    );
+    expect(result.data.items[0]).not.toHaveProperty('items');
+  });
+
+  it('supprime une facture non validée et son PDF', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({
+      ...completedInvoice,
+      InvoiceItem: [],
+    });
+
+    await service.deleteInvoiceForUser('user-1', 'invoice-1');
+
+    expect(prisma.invoice.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'invoice-1', userId: 'user-1' },
+      }),
+    );
+    expect(invoiceUploadService.deleteInvoicePdf).toHaveBeenCalledWith(
+      completedInvoice.pdfUrl,
+    );
+    expect(prisma.invoice.delete).toHaveBeenCalledWith({
+      where: { id: 'invoice-1' },
+    });
+  });
+
+  it('supprime la facture même si son PDF ne peut pas être effacé', async () => {
+    prisma.invoice.findFirst.mockResolvedValue({
+      ...completedInvoice,
+      InvoiceItem: [],
+    });
+    invoiceUploadService.deleteInvoicePdf.mockRejectedValueOnce(
+      new Error('Cloudinary indisponible'),
+    );
+    const warnSpy = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+    await expect(
+      service.deleteInvoiceForUser('user-1', 'invoice-1'),
+    ).resolves.toBeUndefined();
+
+    expect(prisma.invoice.delete).toHaveBeenCalledWith({
+      where: { id: 'invoice-1' },
+    });
+    expect(prisma.invoice.delete.mock.invocationCallOrder[0]).toBeLessThan(
+      invoiceUploadService.deleteInvoicePdf.mock.invocationCallOrder[0],
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Cloudinary indisponible'),
+    );
+    warnSpy.mockRestore();
+  });
+
+  it('refuse de supprimer une facture validée ou en cours d’analyse', async () => {
+    prisma.invoice.findFirst
+      .mockResolvedValueOnce({
+        ...completedInvoice,
+        InvoiceItem: [{ id: 'item-1' }],
+      })
+      .mockResolvedValueOnce({
+        ...completedInvoice,
+        status: InvoiceStatus.PROCESSING,
+        InvoiceItem: [],
+      })
+      .mockResolvedValueOnce(null);
+
+    await expect(
+      service.deleteInvoiceForUser('user-1', 'invoice-1'),
+    ).rejects.toThrow(
+      'Une facture dont des lignes ont été validées ne peut pas être supprimée',
+    );
+    await expect(
+      service.deleteInvoiceForUser('user-1', 'invoice-1'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.deleteInvoiceForUser('user-2', 'invoice-1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    expect(invoiceUploadService.deleteInvoicePdf).not.toHaveBeenCalled();
+    expect(prisma.invoice.delete).not.toHaveBeenCalled();
+  });
+
   it('relance une facture en échec avec un nouvel identifiant de job', async () => {
     prisma.invoice.findFirst
       .mockResolvedValueOnce({
@@ -565,7 +919,7 @@ describe('InvoiceService', () => {
         },
       }),
     );
-    expect(prisma.invoiceItem.update).toHaveBeenCalledWith({
+    expect(tx.invoiceItem.update).toHaveBeenCalledWith({
       where: { id: 'item-1' },
       data: expect.objectContaining({
         detectedName: 'Pommes bio',
@@ -588,6 +942,30 @@ describe('InvoiceService', () => {
       quantity: 3,
       totalPrice: 6.75,
     });
+    expect(
+      invoiceProductResolverService.rememberCorrection,
+    ).toHaveBeenCalledWith(
+      tx,
+      { userId: 'user-1', merchantName: 'Drive Démo' },
+      {
+        detectedName: 'Pommes',
+        productId: null,
+        category: 'fruits-et-legumes',
+        storageLocation: 'Réfrigérateur',
+        selectedEan: null,
+      },
+    );
+  });
+
+  it("n'apprend rien d'une correction de quantité ou de prix", async () => {
+    await service.updateInvoiceItemForUser('user-1', 'invoice-1', 'item-1', {
+      quantity: 4,
+      unitPrice: 1.99,
+    });
+
+    expect(
+      invoiceProductResolverService.rememberCorrection,
+    ).not.toHaveBeenCalled();
   });
 
   it('refuse une catégorie qui ne vient pas de la liste interne', async () => {
@@ -599,21 +977,48 @@ describe('InvoiceService', () => {
       }),
     ).rejects.toThrow("La catégorie sélectionnée n'est pas valide");
 
-    expect(prisma.invoiceItem.update).not.toHaveBeenCalled();
+    expect(tx.invoiceItem.update).not.toHaveBeenCalled();
   });
 
-  it('refuse un lieu de stockage hors liste interne', async () => {
+  it("refuse un lieu de stockage absent de la liste de l'utilisateur", async () => {
     await expect(
       service.updateInvoiceItemForUser('user-1', 'invoice-1', 'item-1', {
         storageLocation: 'Garage',
       }),
     ).rejects.toThrow("Le lieu de stockage sélectionné n'est pas valide");
 
-    expect(prisma.invoiceItem.update).not.toHaveBeenCalled();
+    expect(tx.invoiceItem.update).not.toHaveBeenCalled();
+  });
+
+  it("accepte un lieu personnalisé du foyer actif sous son nom d'origine", async () => {
+    await service.updateInvoiceItemForUser(
+      'user-1',
+      'invoice-1',
+      'item-1',
+      { storageLocation: 'tiroir goûters' },
+      'household-owner',
+    );
+
+    expect(storageLocations.findStorageLocationByName).toHaveBeenCalledWith(
+      'household-owner',
+      'tiroir goûters',
+    );
+    expect(tx.invoiceItem.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ storageLocation: 'Tiroir goûters' }),
+      }),
+    );
+    expect(
+      invoiceProductResolverService.rememberCorrection,
+    ).toHaveBeenCalledWith(
+      tx,
+      { userId: 'household-owner', merchantName: 'Drive Démo' },
+      expect.anything(),
+    );
   });
 
   it('recalcule le total depuis la quantité entière et le prix unitaire', async () => {
-    prisma.invoiceItem.update.mockResolvedValueOnce({
+    tx.invoiceItem.update.mockResolvedValueOnce({
       ...completedInvoice.InvoiceItem[0],
       quantity: 4,
       unitPrice: 1.99,
@@ -631,7 +1036,7 @@ describe('InvoiceService', () => {
       },
     );
 
-    expect(prisma.invoiceItem.update).toHaveBeenCalledWith(
+    expect(tx.invoiceItem.update).toHaveBeenCalledWith(
       expect.objectContaining({
         data: expect.objectContaining({
           quantity: 4,
@@ -656,7 +1061,7 @@ describe('InvoiceService', () => {
       }),
     ).rejects.toBeInstanceOf(NotFoundException);
 
-    expect(prisma.invoiceItem.update).not.toHaveBeenCalled();
+    expect(tx.invoiceItem.update).not.toHaveBeenCalled();
   });
 
   it('refuse une ligne déjà validée', async () => {
@@ -676,7 +1081,7 @@ describe('InvoiceService', () => {
       }),
     ).rejects.toThrow('Une ligne déjà validée ne peut plus être corrigée');
 
-    expect(prisma.invoiceItem.update).not.toHaveBeenCalled();
+    expect(tx.invoiceItem.update).not.toHaveBeenCalled();
   });
 
   it('refuse un nom détecté vide', async () => {
@@ -686,7 +1091,7 @@ describe('InvoiceService', () => {
       }),
     ).rejects.toThrow('Le nom détecté est obligatoire');
 
-    expect(prisma.invoiceItem.update).not.toHaveBeenCalled();
+    expect(tx.invoiceItem.update).not.toHaveBeenCalled();
   });
 
   it("valide une ligne vers l'inventaire et le budget", async () => {
@@ -711,6 +1116,7 @@ describe('InvoiceService', () => {
         productId: 'product-1',
         quantity: 2,
         purchasePrice: 4.5,
+        invoiceItemId: 'item-1',
       }),
     });
     expect(tx.expense.create).toHaveBeenCalledWith({
@@ -723,6 +1129,29 @@ describe('InvoiceService', () => {
         invoiceItemId: 'item-1',
       }),
     });
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      {
+        userId: 'user-1',
+        productId: 'product-1',
+        inventoryItemId: 'inventory-item-1',
+        reason: 'ADDED',
+        quantityDelta: 2,
+        storageLocation: null,
+      },
+      tx,
+    );
+    expect(productPrices.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        productId: 'product-1',
+        source: 'INVOICE',
+        invoiceItemId: 'item-1',
+        merchantName: 'Drive Démo',
+        quantity: 2,
+        totalPrice: 4.5,
+      }),
+      tx,
+    );
     expect(tx.invoiceItem.update).toHaveBeenCalledWith({
       where: { id: 'item-1' },
       data: expect.objectContaining({
@@ -970,6 +1399,7 @@ describe('InvoiceService', () => {
             ecoscore: 'C',
             novascore: 'GROUP_3',
             ingredients: 'Crème entière UHT',
+            allergensTags: ['en:milk'],
             nutrients: {
               energy: 287,
               carbohydrates: 3.2,
@@ -999,6 +1429,7 @@ describe('InvoiceService', () => {
           ecoscore: 'C',
           novascore: 'GROUP_3',
           ingredients: 'Crème entière UHT',
+          allergens: ['en:milk'],
           imageUrl: 'https://images.example/creme.jpg',
           externalId: '3596710511220',
           nutrients: {
@@ -1319,4 +1750,243 @@ describe('InvoiceService', () => {
       "Une facture en échec d'analyse ne peut pas être validée",
     );
   });
+
+  describe('annulation de la validation', () => {
+    const validatedLine = (
+      id: string,
+      detectedName: string,
+      inventoryItem: {
+        id: string;
+        quantity: number;
+        purchasePrice?: number | null;
+      } | null,
+      expenseAmount: number | null = 4.5,
+    ) => ({
+      ...completedInvoice.InvoiceItem[0],
+      id,
+      detectedName,
+      validated: true,
+      InventoryItem: inventoryItem && {
+        userId: 'owner-1',
+        productId: `product-${id}`,
+        purchasePrice: 4.5,
+        storageLocation: 'Fruitier',
+        deletedAt: null,
+        ...inventoryItem,
+      },
+      Expense:
+        expenseAmount === null
+          ? null
+          : { id: `expense-${id}`, amount: expenseAmount },
+    });
+    const validatedInvoice = (lines: Array<{ id: string }>) => ({
+      ...completedInvoice,
+      status: InvoiceStatus.VALIDATED,
+      processingStage: InvoiceProcessingStage.VALIDATED,
+      InvoiceItem: lines.map((line) => ({ id: line.id })),
+    });
+
+    it('retire les lots intacts et leurs dépenses et signale les lignes consommées ou divisées', async () => {
+      const lines = [
+        validatedLine('item-1', 'Pommes', { id: 'lot-1', quantity: 2 }),
+        validatedLine('item-2', 'Yaourts', { id: 'lot-2', quantity: 2 }, 3.2),
+        validatedLine('item-3', 'Beurre', { id: 'lot-3', quantity: 1 }),
+        validatedLine('item-4', 'Pain', null),
+      ];
+      prisma.invoice.findFirst.mockResolvedValueOnce(validatedInvoice(lines));
+      tx.invoiceItem.findMany.mockResolvedValueOnce(lines);
+      tx.inventoryMovement.findMany.mockResolvedValueOnce([
+        { inventoryItemId: 'lot-2' },
+      ]);
+
+      const result = await service.unvalidateInvoiceForUser(
+        'user-1',
+        'invoice-1',
+      );
+
+      expect(tx.invoiceItem.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { invoiceId: 'invoice-1', validated: true },
+        }),
+      );
+      expect(tx.inventoryMovement.findMany).toHaveBeenCalledWith({
+        where: {
+          inventoryItemId: { in: ['lot-1', 'lot-2', 'lot-3'] },
+          reason: { in: ['CONSUMED', 'WASTED', 'COOKED'] },
+        },
+        select: { inventoryItemId: true },
+      });
+      expect(tx.inventoryItem.deleteMany).toHaveBeenCalledTimes(1);
+      expect(tx.inventoryItem.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'lot-1', quantity: 2, deletedAt: null },
+      });
+      expect(inventoryMovements.record).toHaveBeenCalledTimes(1);
+      expect(inventoryMovements.record).toHaveBeenCalledWith(
+        {
+          userId: 'owner-1',
+          productId: 'product-item-1',
+          inventoryItemId: 'lot-1',
+          reason: 'ADJUSTED',
+          quantityDelta: -2,
+          storageLocation: 'Fruitier',
+          notes: 'Validation de facture annulée',
+        },
+        tx,
+      );
+      expect(tx.expense.deleteMany).toHaveBeenCalledWith({
+        where: { invoiceItemId: { in: ['item-1'] } },
+      });
+      expect(tx.productPriceRecord.deleteMany).toHaveBeenCalledWith({
+        where: { invoiceItemId: { in: ['item-1'] } },
+      });
+      expect(tx.invoiceItem.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['item-1'] } },
+        data: expect.objectContaining({ validated: false }),
+      });
+      expect(tx.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'invoice-1' },
+        data: expect.objectContaining({ status: InvoiceStatus.COMPLETED }),
+      });
+      expect(
+        invoiceProcessingStateService.revertValidation,
+      ).toHaveBeenCalledWith(tx, 'invoice-1', 1);
+      expect(
+        inventoryService.refreshInventoryNotifications,
+      ).toHaveBeenCalledWith('owner-1');
+      expect(result).toEqual(
+        expect.objectContaining({
+          revertedItemCount: 1,
+          removedInventoryItemCount: 1,
+          removedExpenseCount: 1,
+          removedBudgetAmount: 4.5,
+          unrevertedItems: [
+            {
+              invoiceItemId: 'item-2',
+              detectedName: 'Yaourts',
+              reason: 'INVENTORY_ITEM_CONSUMED',
+            },
+            {
+              invoiceItemId: 'item-3',
+              detectedName: 'Beurre',
+              reason: 'INVENTORY_ITEM_SPLIT',
+            },
+            {
+              invoiceItemId: 'item-4',
+              detectedName: 'Pain',
+              reason: 'INVENTORY_ITEM_MISSING',
+            },
+          ],
+        }),
+      );
+    });
+
+    it('diminue seulement un lot fusionné depuis avec un ajout identique', async () => {
+      const lines = [
+        validatedLine('item-1', 'Pommes', {
+          id: 'lot-1',
+          quantity: 5,
+          purchasePrice: 11.25,
+        }),
+      ];
+      prisma.invoice.findFirst.mockResolvedValueOnce(validatedInvoice(lines));
+      tx.invoiceItem.findMany.mockResolvedValueOnce(lines);
+
+      const result = await service.unvalidateInvoiceForUser(
+        'user-1',
+        'invoice-1',
+      );
+
+      expect(tx.inventoryItem.deleteMany).not.toHaveBeenCalled();
+      expect(tx.inventoryItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'lot-1', quantity: 5, deletedAt: null },
+        data: expect.objectContaining({
+          quantity: 3,
+          purchasePrice: 6.75,
+          invoiceItemId: null,
+        }),
+      });
+      expect(inventoryMovements.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          inventoryItemId: 'lot-1',
+          reason: 'ADJUSTED',
+          quantityDelta: -2,
+        }),
+        tx,
+      );
+      expect(result).toEqual(
+        expect.objectContaining({
+          revertedItemCount: 1,
+          removedInventoryItemCount: 0,
+          unrevertedItems: [],
+        }),
+      );
+    });
+
+    it('garde validée une ligne dont le lot a changé pendant l’annulation', async () => {
+      const lines = [
+        validatedLine('item-1', 'Pommes', { id: 'lot-1', quantity: 2 }),
+      ];
+      prisma.invoice.findFirst.mockResolvedValueOnce(validatedInvoice(lines));
+      tx.invoiceItem.findMany.mockResolvedValueOnce(lines);
+      tx.inventoryItem.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await service.unvalidateInvoiceForUser(
+        'user-1',
+        'invoice-1',
+      );
+
+      expect(inventoryMovements.record).not.toHaveBeenCalled();
+      expect(tx.expense.deleteMany).not.toHaveBeenCalled();
+      expect(
+        inventoryService.refreshInventoryNotifications,
+      ).not.toHaveBeenCalled();
+      expect(result.revertedItemCount).toBe(0);
+      expect(result.unrevertedItems).toEqual([
+        {
+          invoiceItemId: 'item-1',
+          detectedName: 'Pommes',
+          reason: 'INVENTORY_ITEM_CONSUMED',
+        },
+      ]);
+    });
+
+    it('laisse la facture inchangée si aucune ligne ne peut être annulée', async () => {
+      const lines = [validatedLine('item-1', 'Pommes', null)];
+      prisma.invoice.findFirst.mockResolvedValueOnce(validatedInvoice(lines));
+      tx.invoiceItem.findMany.mockResolvedValueOnce(lines);
+
+      const result = await service.unvalidateInvoiceForUser(
+        'user-1',
+        'invoice-1',
+      );
+
+      expect(tx.inventoryMovement.findMany).not.toHaveBeenCalled();
+      expect(tx.invoiceItem.updateMany).not.toHaveBeenCalled();
+      expect(
+        invoiceProcessingStateService.revertValidation,
+      ).not.toHaveBeenCalled();
+      expect(
+        inventoryService.refreshInventoryNotifications,
+      ).not.toHaveBeenCalled();
+      expect(result.revertedItemCount).toBe(0);
+      expect(result.unrevertedItems).toHaveLength(1);
+    });
+
+    it('refuse une facture inconnue ou sans ligne validée', async () => {
+      prisma.invoice.findFirst.mockResolvedValueOnce(null);
+
+      await expect(
+        service.unvalidateInvoiceForUser('user-2', 'invoice-1'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+
+      prisma.invoice.findFirst.mockResolvedValueOnce({
+        ...completedInvoice,
+        InvoiceItem: [],
+      });
+
+      await expect(
+        service.unvalidateInvoiceForUser('user-1', 'invoice-1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
 });
@@ -1,12 +1,14 @@
 import {
   BadRequestException,
+  ConflictException,
   Injectable,
   Logger,
   NotFoundException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { randomUUID } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
 import {
+  InventoryMovementReason,
   InvoiceProcessingEventStatus,
   InvoiceProcessingStage,
   InvoiceStatus,
@@ -14,6 +16,7 @@ import {
 } from '../../../prisma/generated/prisma/client';
 import { UsageQuotaService } from '../../auth/services/usage-quota.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import { resolveScopeUserId } from '../../household/household-scope';
 import { QueueService } from '../../jobs/queue.service';
 import { QUEUE_NAMES } from '../../redis/redis.constants';
 import {
@@ -24,9 +27,17 @@ import { InvoiceProductResolverService } from './invoice-product-resolver.servic
 import { InvoiceProcessingStateService } from './invoice-processing-state.service';
 import { InvoiceUploadService } from './invoice-upload.service';
 import { OpenFoodFactsInvoiceEnrichmentService } from './openfoodfacts-invoice-enrichment.service';
-import { isInvoiceStorageLocation } from './invoice-product-classification';
+import { InventoryService } from '../../inventory/services/inventory.service';
+import { InventoryMovementService } from '../../inventory/services/inventory-movement.service';
+import { StorageLocationService } from '../../inventory/services/storage-location.service';
+import { ProductPriceHistoryService } from '../../inventory/services/product-price-history.service';
+import { inferExpiryKind } from '../../inventory/services/expiry-estimation.service';
+import { InvoiceListQueryDto } from '../dto/invoice-query.dto';
 import { UpdateInvoiceItemDto } from '../dto/update-invoice-item.dto';
-import { ValidateInvoiceDto } from '../dto/validate-invoice.dto';
+import {
+  UnrevertedInvoiceItemDto,
+  ValidateInvoiceDto,
+} from '../dto/validate-invoice.dto';
 
 export interface InvoiceUser {
   id: string;
@@ -50,6 +61,13 @@ interface InvoiceValidationContext {
 
 const INVOICE_VALIDATION_TRANSACTION_TIMEOUT_MS = 15_000;
 
+// Un lot ayant connu l'un de ces mouvements a été entamé depuis la validation
+const CONSUMPTION_MOVEMENT_REASONS: InventoryMovementReason[] = [
+  InventoryMovementReason.CONSUMED,
+  InventoryMovementReason.WASTED,
+  InventoryMovementReason.COOKED,
+];
+
 @Injectable()
 export class InvoiceService {
   private readonly logger = new Logger(InvoiceService.name);
@@ -64,10 +82,49 @@ export class InvoiceService {
     private readonly usageQuotaService: UsageQuotaService,
     private readonly queues: QueueService,
     private readonly config: ConfigService,
+    private readonly storageLocations: StorageLocationService,
+    private readonly productPrices: ProductPriceHistoryService,
+    private readonly inventoryMovements: InventoryMovementService,
+    private readonly inventoryService: InventoryService,
   ) {}
 
-  async importDriveInvoice(user: InvoiceUser, file: Express.Multer.File) {
-    await this.usageQuotaService.assertCanConsume(user, 'DRIVE_IMPORT');
+  /**
+   * Un PDF déjà importé est refusé avec un conflit pointant vers la facture
+   * existante, sauf si `allowDuplicate` est demandé : le doublon est alors
+   * importé sans décompter de quota.
+   */
+  async importDriveInvoice(
+    user: InvoiceUser,
+    file: Express.Multer.File,
+    options: { allowDuplicate?: boolean } = {},
+  ) {
+    const fileHash = file?.buffer
+      ? createHash('sha256').update(file.buffer).digest('hex')
+      : null;
+    const sameFileInvoice = fileHash
+      ? await this.prisma.invoice.findFirst({
+          where: {
+            userId: user.id,
+            fileHash,
+            status: { not: InvoiceStatus.FAILED },
+          },
+          orderBy: { createdAt: 'asc' },
+          select: { id: true },
+        })
+      : null;
+
+    if (sameFileInvoice && !options.allowDuplicate) {
+      this.logInvoiceEvent({
+        event: 'invoice_import_duplicate_rejected',
+        userId: user.id,
+        duplicateOfId: sameFileInvoice.id,
+      });
+      throw this.duplicateInvoiceConflict(sameFileInvoice.id);
+    }
+
+    if (!sameFileInvoice) {
+      await this.usageQuotaService.assertCanConsume(user, 'DRIVE_IMPORT');
+    }
 
     let pdfUrl: string;
 
@@ -96,6 +153,9 @@ export class InvoiceService {
         id: invoiceId,
         userId: user.id,
         pdfUrl,
+        fileHash,
+        duplicateOfId: sameFileInvoice?.id ?? null,
+        duplicateAllowed: Boolean(sameFileInvoice),
         status: InvoiceStatus.PROCESSING,
         processingStage: InvoiceProcessingStage.UPLOADED,
         processingProgress: 10,
@@ -166,6 +226,10 @@ export class InvoiceService {
       invoice.processingStage === InvoiceProcessingStage.READY_FOR_REVIEW ||
       invoice.processingStage === InvoiceProcessingStage.VALIDATED
     ) {
+      if (invoice.duplicateOfId) {
+        return;
+      }
+
       await this.usageQuotaService.recordSuccessfulUsage(
         user,
         'DRIVE_IMPORT',
@@ -179,7 +243,7 @@ export class InvoiceService {
   }
 
   private async processInvoiceAnalysis(
-    invoice: { id: string; pdfUrl: string },
+    invoice: { id: string; pdfUrl: string; duplicateOfId?: string | null },
     user: InvoiceUser,
     pdfBuffer?: Buffer,
     attempt = 1,
@@ -198,14 +262,25 @@ export class InvoiceService {
         analysisBuffer,
       );
       const processingTime = Date.now() - startedAt;
-
-      await this.usageQuotaService.recordSuccessfulUsage(
-        user,
-        'DRIVE_IMPORT',
-        new Date(),
-        `invoice:${invoice.id}`,
+      const duplicateOfId =
+        invoice.duplicateOfId ??
+        (await this.findDuplicateInvoiceId(invoice.id, user.id, analysis));
+
+      if (!duplicateOfId) {
+        await this.usageQuotaService.recordSuccessfulUsage(
+          user,
+          'DRIVE_IMPORT',
+          new Date(),
+          `invoice:${invoice.id}`,
+        );
+      }
+      await this.completeInvoiceAnalysis(
+        invoice.id,
+        user.id,
+        analysis,
+        processingTime,
+        duplicateOfId,
       );
-      await this.completeInvoiceAnalysis(invoice.id, analysis, processingTime);
 
       this.logInvoiceEvent({
         event: 'invoice_analysis_completed',
@@ -215,6 +290,7 @@ export class InvoiceService {
         durationMs: processingTime,
         status: InvoiceStatus.COMPLETED,
         itemCount: analysis.items.length,
+        duplicateOfId,
       });
     } catch (error) {
       await this.invoiceProcessingStateService.transition(
@@ -243,6 +319,64 @@ export class InvoiceService {
     }
   }
 
+  /**
+   * Cherche une facture déjà importée pour le même achat : même enseigne et
+   * même numéro de facture ou de commande, ou à défaut de numéro, même total
+   * à la même date.
+   */
+  private async findDuplicateInvoiceId(
+    invoiceId: string,
+    userId: string,
+    analysis: AnalyzedInvoice,
+  ): Promise<string | null> {
+    if (!analysis.merchantName) {
+      return null;
+    }
+
+    const sameReference: Prisma.InvoiceWhereInput[] = [
+      ...(analysis.invoiceNumber
+        ? [{ invoiceNumber: analysis.invoiceNumber }]
+        : []),
+      ...(analysis.orderNumber ? [{ orderNumber: analysis.orderNumber }] : []),
+    ];
+    const sameAmount: Prisma.InvoiceWhereInput[] =
+      typeof analysis.totalAmount === 'number' && analysis.purchaseDate
+        ? [
+            {
+              totalAmount: analysis.totalAmount,
+              purchaseDate: analysis.purchaseDate,
+            },
+          ]
+        : [];
+    const conditions = sameReference.length ? sameReference : sameAmount;
+
+    if (conditions.length === 0) {
+      return null;
+    }
+
+    const duplicate = await this.prisma.invoice.findFirst({
+      where: {
+        id: { not: invoiceId },
+        userId,
+        status: { not: InvoiceStatus.FAILED },
+        merchantName: { equals: analysis.merchantName, mode: 'insensitive' },
+        OR: conditions,
+      },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    return duplicate?.id ?? null;
+  }
+
+  private duplicateInvoiceConflict(duplicateOfId: string) {
+    return new ConflictException({
+      code: 'INVOICE_DUPLICATE',
+      message: 'Cette facture a déjà été importée',
+      details: { duplicateOfId },
+    });
+  }
+
   private async downloadInvoicePdf(pdfUrl: string): Promise<Buffer> {
     const response = await fetch(pdfUrl);
 
@@ -297,6 +431,159 @@ export class InvoiceService {
     return this.formatInvoice(invoice);
   }
 
+  /**
+   * Historique paginé des factures importées. Le tri suit la date d'achat
+   * quand elle est filtrée, la date d'import sinon.
+   */
+  async listInvoicesForUser(userId: string, query: InvoiceListQueryDto) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+    const filtersPurchaseDate = Boolean(query.from || query.to);
+    const where: Prisma.InvoiceWhereInput = {
+      userId,
+      status: query.status,
+      processingStage: query.processingStage,
+      merchantName: query.merchant
+        ? { contains: query.merchant, mode: 'insensitive' }
+        : undefined,
+      purchaseDate: filtersPurchaseDate
+        ? {
+            ...(query.from ? { gte: new Date(query.from) } : {}),
+            ...(query.to ? { lte: new Date(query.to) } : {}),
+          }
+        : undefined,
+      totalAmount:
+        query.minTotal !== undefined || query.maxTotal !== undefined
+          ? {
+              ...(query.minTotal !== undefined ? { gte: query.minTotal } : {}),
+              ...(query.maxTotal !== undefined ? { lte: query.maxTotal } : {}),
+            }
+          : undefined,
+    };
+
+    const [invoices, totalItems] = await this.prisma.$transaction([
+      this.prisma.invoice.findMany({
+        where,
+        orderBy: filtersPurchaseDate
+          ? [{ purchaseDate: 'desc' }, { id: 'desc' }]
+          : [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          InvoiceItem: {
+            select: { validated: true },
+          },
+        },
+      }),
+      this.prisma.invoice.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        items: invoices.map(({ InvoiceItem, ...invoice }) => ({
+          ...this.formatInvoiceSummary(invoice),
+          itemCount: InvoiceItem.length,
+          validatedItemCount: InvoiceItem.filter((item) => item.validated)
+            .length,
+        })),
+        pagination: {
+          page,
+          pageSize,
+          totalItems,
+          totalPages: Math.max(1, Math.ceil(totalItems / pageSize)),
+        },
+      },
+    };
+  }
+
+  /**
+   * Supprime une facture dont aucune ligne n'a été validée, puis son PDF.
+   * Les factures validées alimentent l'inventaire et le budget et sont
+   * conservées.
+   */
+  async deleteInvoiceForUser(userId: string, invoiceId: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      include: {
+        InvoiceItem: {
+          where: { validated: true },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!invoice) {
+      throw new NotFoundException('Facture non trouvée');
+    }
+
+    if (invoice.status === InvoiceStatus.PROCESSING) {
+      throw new BadRequestException("La facture est encore en cours d'analyse");
+    }
+
+    if (
+      invoice.status === InvoiceStatus.VALIDATED ||
+      invoice.InvoiceItem.length > 0
+    ) {
+      throw new BadRequestException(
+        'Une facture dont des lignes ont été validées ne peut pas être supprimée',
+      );
+    }
+
+    await this.prisma.invoice.delete({ where: { id: invoice.id } });
+
+    // La facture n'existe plus : un PDF resté sur Cloudinary ne bloque rien
+    try {
+      await this.invoiceUploadService.deleteInvoicePdf(invoice.pdfUrl);
+    } catch (error) {
+      this.logger.warn(
+        `Invoice PDF deletion failed for ${invoice.id}: ${error instanceof Error ? error.message : 'unknown error'}`,
+      );
+    }
+
+    this.logInvoiceEvent({
+      event: 'invoice_deleted',
+      invoiceId: invoice.id,
+      userId,
+      status: invoice.status,
+    });
+  }
+
+  /**
+   * Confirme l'import d'une facture signalée comme doublon après analyse, ce
+   * qui autorise sa validation.
+   */
+  async allowDuplicateInvoiceForUser(userId: string, invoiceId: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      select: { id: true, duplicateOfId: true },
+    });
+
+    if (!invoice) {
+      throw new NotFoundException('Facture non trouvée');
+    }
+
+    if (!invoice.duplicateOfId) {
+      throw new BadRequestException(
+        "Cette facture n'est pas signalée comme doublon",
+      );
+    }
+
+    await this.prisma.invoice.update({
+      where: { id: invoiceId },
+      data: { duplicateAllowed: true, updatedAt: new Date() },
+    });
+
+    this.logInvoiceEvent({
+      event: 'invoice_duplicate_allowed',
+      invoiceId,
+      userId,
+      duplicateOfId: invoice.duplicateOfId,
+    });
+
+    return this.getInvoiceForUser(userId, invoiceId);
+  }
+
   async retryInvoiceForUser(userId: string, invoiceId: string) {
     const invoice = await this.prisma.invoice.findFirst({
       where: { id: invoiceId, userId },
@@ -360,6 +647,7 @@ export class InvoiceService {
     invoiceId: string,
     itemId: string,
     updateDto: UpdateInvoiceItemDto,
+    scopeUserId = userId,
   ) {
     const invoice = await this.prisma.invoice.findFirst({
       where: {
@@ -459,14 +747,20 @@ export class InvoiceService {
 
     if (updateDto.storageLocation !== undefined) {
       const storageLocation = updateDto.storageLocation.trim();
+      const allowedLocation = storageLocation
+        ? await this.storageLocations.findStorageLocationByName(
+            scopeUserId,
+            storageLocation,
+          )
+        : null;
 
-      if (storageLocation && !isInvoiceStorageLocation(storageLocation)) {
+      if (storageLocation && !allowedLocation) {
         throw new BadRequestException(
           "Le lieu de stockage sélectionné n'est pas valide",
         );
       }
 
-      updateData.storageLocation = storageLocation || null;
+      updateData.storageLocation = allowedLocation?.name ?? null;
     }
 
     if (updateDto.notes !== undefined) {
@@ -477,25 +771,57 @@ export class InvoiceService {
       updateData.selectedEan = updateDto.selectedEan;
     }
 
-    const updatedItem = await this.prisma.invoiceItem.update({
-      where: { id: itemId },
-      data: updateData,
-      include: {
-        Product: {
-          include: {
-            Category: true,
+    const isResolutionCorrection = [
+      updateDto.productId,
+      updateDto.category,
+      updateDto.storageLocation,
+      updateDto.selectedEan,
+    ].some((value) => value !== undefined);
+
+    // La correction apprise suit la ligne : elle est enregistrée avec elle,
+    // pour le foyer actif
+    const updatedItem = await this.prisma.$transaction(async (tx) => {
+      const item = await tx.invoiceItem.update({
+        where: { id: itemId },
+        data: updateData,
+        include: {
+          Product: {
+            include: {
+              Category: true,
+            },
           },
         },
-      },
+      });
+
+      if (isResolutionCorrection) {
+        await this.invoiceProductResolverService.rememberCorrection(
+          tx,
+          { userId: scopeUserId, merchantName: invoice.merchantName },
+          {
+            detectedName: item.originalDetectedName,
+            productId: item.productId,
+            category: item.category,
+            storageLocation: item.storageLocation,
+            selectedEan: item.selectedEan,
+          },
+        );
+      }
+
+      return item;
     });
 
     return this.formatInvoiceItem(updatedItem);
   }
 
+  /**
+   * Les lignes validées rejoignent l'inventaire et le budget du foyer actif
+   * (`scopeUserId`), la facture restant rattachée à celui qui l'a importée.
+   */
   async validateInvoiceForUser(
     userId: string,
     invoiceId: string,
     validateDto: ValidateInvoiceDto,
+    scopeUserId = userId,
   ) {
     const uniqueItemIds = Array.from(new Set(validateDto.invoiceItemIds));
     const invoice = await this.prisma.invoice.findFirst({
@@ -531,6 +857,10 @@ export class InvoiceService {
       );
     }
 
+    if (invoice.duplicateOfId && !invoice.duplicateAllowed) {
+      throw this.duplicateInvoiceConflict(invoice.duplicateOfId);
+    }
+
     if (invoice.InvoiceItem.length !== uniqueItemIds.length) {
       throw new NotFoundException('Une ou plusieurs lignes sont introuvables');
     }
@@ -544,7 +874,7 @@ export class InvoiceService {
         const validationContext = await this.prepareInvoiceValidationContext(
           tx,
           invoice.InvoiceItem,
-          userId,
+          scopeUserId,
           purchaseDate,
         );
         const summary = {
@@ -567,7 +897,7 @@ export class InvoiceService {
             if (!existingExpense) {
               const repairedExpense = await this.createExpenseForInvoiceItem(
                 tx,
-                userId,
+                scopeUserId,
                 invoiceId,
                 item,
                 purchaseDate,
@@ -607,25 +937,54 @@ export class InvoiceService {
             continue;
           }
 
-          await tx.inventoryItem.create({
+          const inventoryItem = await tx.inventoryItem.create({
             data: {
               id: randomUUID(),
-              userId,
+              userId: scopeUserId,
               productId: product.id,
               quantity: item.quantity,
               purchaseDate,
               expiryDate: item.expiryDate,
+              expiryKind: inferExpiryKind({
+                productName: product.name,
+                categorySlug: product.Category?.slug ?? item.category,
+              }),
               purchasePrice: item.totalPrice,
               storageLocation: item.storageLocation,
               notes: item.notes,
+              invoiceItemId: item.id,
               updatedAt: now,
             },
           });
           summary.inventoryItemCount += 1;
+          await this.inventoryMovements.record(
+            {
+              userId: scopeUserId,
+              productId: product.id,
+              inventoryItemId: inventoryItem.id,
+              reason: InventoryMovementReason.ADDED,
+              quantityDelta: item.quantity,
+              storageLocation: item.storageLocation,
+            },
+            tx,
+          );
+          await this.productPrices.record(
+            {
+              userId: scopeUserId,
+              productId: product.id,
+              source: 'INVOICE',
+              invoiceItemId: item.id,
+              merchantName: invoice.merchantName,
+              quantity: item.quantity,
+              totalPrice: item.totalPrice,
+              purchasedAt: purchaseDate,
+            },
+            tx,
+          );
 
           const expense = await this.createExpenseForInvoiceItem(
             tx,
-            userId,
+            scopeUserId,
             invoiceId,
             item,
             purchaseDate,
@@ -700,6 +1059,258 @@ export class InvoiceService {
     return summary;
   }
 
+  /**
+   * Annule la validation d'une facture : les lots encore intacts et les
+   * dépenses des lignes validées sont supprimés et les lignes repassent en
+   * attente de validation. Un lot fusionné depuis avec un ajout identique est
+   * seulement diminué de la quantité de la ligne. Une ligne dont le lot a été
+   * consommé, même en partie, ou divisé depuis reste validée avec sa dépense
+   * et est signalée dans la réponse.
+   */
+  async unvalidateInvoiceForUser(userId: string, invoiceId: string) {
+    const invoice = await this.prisma.invoice.findFirst({
+      where: { id: invoiceId, userId },
+      include: {
+        InvoiceItem: {
+          where: { validated: true },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!invoice) {
+      throw new NotFoundException('Facture non trouvée');
+    }
+
+    if (invoice.InvoiceItem.length === 0) {
+      throw new BadRequestException(
+        "Aucune ligne validée n'est à annuler sur cette facture",
+      );
+    }
+
+    // Lecture des lots et suppression dans la même transaction : un lot
+    // entamé entre-temps n'est pas retiré
+    const outcome = await this.prisma.$transaction(
+      async (tx) => {
+        const items = await tx.invoiceItem.findMany({
+          where: { invoiceId, validated: true },
+          orderBy: { createdAt: 'asc' },
+          include: { Expense: true, InventoryItem: true },
+        });
+        const lotIds = items
+          .map((item) => item.InventoryItem?.id)
+          .filter((lotId): lotId is string => Boolean(lotId));
+        const consumedLotIds = new Set(
+          lotIds.length
+            ? (
+                await tx.inventoryMovement.findMany({
+                  where: {
+                    inventoryItemId: { in: lotIds },
+                    reason: { in: CONSUMPTION_MOVEMENT_REASONS },
+                  },
+                  select: { inventoryItemId: true },
+                })
+              ).map((movement) => movement.inventoryItemId)
+            : [],
+        );
+
+        const revertibleItems: typeof items = [];
+        const unrevertedItems: UnrevertedInvoiceItemDto[] = [];
+        const stockUserIds = new Set<string>();
+        let removedInventoryItemCount = 0;
+
+        for (const item of items) {
+          const lot = item.InventoryItem;
+
+          if (!lot) {
+            unrevertedItems.push({
+              invoiceItemId: item.id,
+              detectedName: item.detectedName,
+              reason: 'INVENTORY_ITEM_MISSING',
+            });
+            continue;
+          }
+
+          // Sans mouvement de consommation, un lot diminué a été divisé ou
+          // déplacé en partie
+          const consumed = consumedLotIds.has(lot.id);
+          const split = !consumed && lot.quantity < item.quantity - 1e-9;
+          const removal =
+            consumed || split
+              ? null
+              : await this.removeInvoiceLot(tx, lot, item);
+
+          if (!removal) {
+            unrevertedItems.push({
+              invoiceItemId: item.id,
+              detectedName: item.detectedName,
+              reason: split
+                ? 'INVENTORY_ITEM_SPLIT'
+                : 'INVENTORY_ITEM_CONSUMED',
+            });
+            continue;
+          }
+
+          revertibleItems.push(item);
+          stockUserIds.add(lot.userId);
+          if (removal === 'DELETED') {
+            removedInventoryItemCount += 1;
+          }
+        }
+
+        if (revertibleItems.length === 0) {
+          return {
+            revertibleItems,
+            unrevertedItems,
+            stockUserIds,
+            removedInventoryItemCount,
+          };
+        }
+
+        const itemIds = revertibleItems.map((item) => item.id);
+        await tx.expense.deleteMany({
+          where: { invoiceItemId: { in: itemIds } },
+        });
+        await tx.productPriceRecord.deleteMany({
+          where: { invoiceItemId: { in: itemIds } },
+        });
+        await tx.invoiceItem.updateMany({
+          where: { id: { in: itemIds } },
+          data: { validated: false, updatedAt: new Date() },
+        });
+        await tx.invoice.update({
+          where: { id: invoiceId },
+          data: { status: InvoiceStatus.COMPLETED, updatedAt: new Date() },
+        });
+        await this.invoiceProcessingStateService.revertValidation(
+          tx,
+          invoiceId,
+          invoice.processingAttempt,
+        );
+
+        return {
+          revertibleItems,
+          unrevertedItems,
+          stockUserIds,
+          removedInventoryItemCount,
+        };
+      },
+      {
+        timeout: INVOICE_VALIDATION_TRANSACTION_TIMEOUT_MS,
+      },
+    );
+
+    const { revertibleItems, unrevertedItems } = outcome;
+    const expenses = revertibleItems.flatMap((item) =>
+      item.Expense ? [item.Expense] : [],
+    );
+    const summary = {
+      success: true,
+      invoiceId,
+      revertedItemCount: revertibleItems.length,
+      removedInventoryItemCount: outcome.removedInventoryItemCount,
+      removedExpenseCount: expenses.length,
+      removedBudgetAmount:
+        Math.round(
+          expenses.reduce((total, expense) => total + expense.amount, 0) * 100,
+        ) / 100,
+      unrevertedItems,
+      message:
+        unrevertedItems.length === 0
+          ? 'Validation de la facture annulée'
+          : revertibleItems.length > 0
+            ? 'Validation annulée en partie : certains produits ont déjà été consommés ou divisés'
+            : 'Aucune ligne ne peut être annulée : les produits ont déjà été consommés ou divisés',
+    };
+
+    if (revertibleItems.length === 0) {
+      return summary;
+    }
+
+    for (const stockUserId of outcome.stockUserIds) {
+      await this.inventoryService.refreshInventoryNotifications(stockUserId);
+    }
+
+    this.logInvoiceEvent({
+      event: 'invoice_validation_reverted',
+      invoiceId,
+      userId,
+      revertedItemCount: summary.revertedItemCount,
+      unrevertedItemCount: unrevertedItems.length,
+    });
+
+    return summary;
+  }
+
+  /**
+   * Retire d'un lot la quantité apportée par une ligne de facture, avec son
+   * mouvement de stock. Le lot est supprimé, ou seulement diminué s'il a été
+   * fusionné depuis avec un ajout identique. Renvoie null si le lot a été
+   * modifié depuis sa lecture.
+   */
+  private async removeInvoiceLot(
+    tx: any,
+    lot: {
+      id: string;
+      userId: string;
+      productId: string;
+      quantity: number;
+      purchasePrice: number | null;
+      storageLocation: string | null;
+      deletedAt: Date | null;
+    },
+    item: { quantity: number; totalPrice: number | null },
+  ): Promise<'DELETED' | 'DECREASED' | null> {
+    const unchangedLot = {
+      id: lot.id,
+      quantity: lot.quantity,
+      deletedAt: lot.deletedAt,
+    };
+    const merged = lot.quantity - item.quantity > 1e-9;
+    const { count } = merged
+      ? await tx.inventoryItem.updateMany({
+          where: unchangedLot,
+          data: {
+            quantity: lot.quantity - item.quantity,
+            purchasePrice:
+              lot.purchasePrice !== null
+                ? Math.max(
+                    0,
+                    Math.round(
+                      (lot.purchasePrice - (item.totalPrice ?? 0)) * 100,
+                    ) / 100,
+                  )
+                : null,
+            // La ligne repasse en attente : sa future validation créera un lot
+            invoiceItemId: null,
+            updatedAt: new Date(),
+          },
+        })
+      : await tx.inventoryItem.deleteMany({ where: unchangedLot });
+
+    if (count === 0) {
+      return null;
+    }
+
+    // Un lot déjà retiré de l'inventaire a eu son mouvement de sortie
+    if (!lot.deletedAt) {
+      await this.inventoryMovements.record(
+        {
+          userId: lot.userId,
+          productId: lot.productId,
+          inventoryItemId: lot.id,
+          reason: InventoryMovementReason.ADJUSTED,
+          quantityDelta: -item.quantity,
+          storageLocation: lot.storageLocation,
+          notes: 'Validation de facture annulée',
+        },
+        tx,
+      );
+    }
+
+    return merged ? 'DECREASED' : 'DELETED';
+  }
+
   private async prepareInvoiceValidationContext(
     tx: any,
     items: any[],
@@ -793,8 +1404,10 @@ export class InvoiceService {
 
   private async completeInvoiceAnalysis(
     invoiceId: string,
+    userId: string,
     analysis: AnalyzedInvoice,
     processingTime: number,
+    duplicateOfId: string | null = null,
   ): Promise<void> {
     const now = new Date();
     await this.invoiceProcessingStateService.transition(
@@ -806,11 +1419,15 @@ export class InvoiceService {
         analysis.items,
       );
 
+    // Les correspondances apprises sont celles du foyer actif de l'importateur
+    const scopeUserId = await resolveScopeUserId(this.prisma, userId);
+
     await this.prisma.$transaction(async (tx) => {
       const resolvedItems =
         await this.invoiceProductResolverService.resolveItems(
           tx,
           enrichedItems,
+          { userId: scopeUserId, merchantName: analysis.merchantName },
         );
 
       await tx.invoice.update({
@@ -827,6 +1444,7 @@ export class InvoiceService {
           analysisConfidence: analysis.confidence,
           processingTime,
           errorMessage: null,
+          duplicateOfId,
           updatedAt: now,
         },
       });
@@ -844,6 +1462,8 @@ export class InvoiceService {
           invoiceId,
           productId: item.productId,
           detectedName: item.detectedName,
+          originalDetectedName: item.detectedName,
+          resolvedFromHistory: item.resolvedFromHistory ?? false,
           quantity: item.quantity,
           unitPrice: item.unitPrice,
           totalPrice: item.totalPrice,
@@ -974,6 +1594,7 @@ export class InvoiceService {
         ecoscore: this.normalizeScore(externalProductData?.ecoscore),
         novascore: this.normalizeNovaScore(externalProductData?.novascore),
         ingredients: this.getNonEmptyString(externalProductData?.ingredients),
+        allergens: externalProductData?.allergensTags ?? [],
         imageUrl: this.getNonEmptyString(externalProductData?.imageUrl),
         externalId:
           this.getNonEmptyString(externalProductData?.barcode) ?? barcode,
@@ -1056,6 +1677,10 @@ export class InvoiceService {
       this.getNonEmptyString(externalProductData?.barcode) ?? barcode,
     );
 
+    if (externalProductData?.allergensTags?.length) {
+      updateData.allergens = externalProductData.allergensTags;
+    }
+
     if (externalProductData?.nutrients) {
       updateData.nutrients =
         externalProductData.nutrients as Prisma.InputJsonValue;
@@ -1115,6 +1740,9 @@ export class InvoiceService {
       this.getNonEmptyString(raw.ingredients_text_fr) ??
       this.getNonEmptyString(raw.ingredients_text) ??
       this.getNonEmptyString(raw.ingredients_text_en);
+    const allergensTags = [data.allergensTags, raw.allergens_tags].find(
+      (tags): tags is string[] => Array.isArray(tags) && tags.length > 0,
+    );
     const nutrients =
       data.nutrients && typeof data.nutrients === 'object'
         ? data.nutrients
@@ -1129,6 +1757,7 @@ export class InvoiceService {
       ecoscore: this.normalizeScore(data.ecoscore ?? raw.ecoscore_grade),
       novascore: this.normalizeNovaScore(data.novascore ?? raw.nova_group),
       ingredients,
+      allergensTags,
       nutrients,
     };
 
@@ -1385,6 +2014,15 @@ export class InvoiceService {
   }
 
   private formatInvoice(invoice: any) {
+    return {
+      ...this.formatInvoiceSummary(invoice),
+      items: (invoice.InvoiceItem ?? []).map((item: any) =>
+        this.formatInvoiceItem(item),
+      ),
+    };
+  }
+
+  private formatInvoiceSummary(invoice: any) {
     return {
       id: invoice.id,
       userId: invoice.userId,
@@ -1405,11 +2043,10 @@ export class InvoiceService {
       analysisConfidence: invoice.analysisConfidence,
       processingTime: invoice.processingTime,
       errorMessage: invoice.errorMessage,
+      duplicateOfId: invoice.duplicateOfId ?? null,
+      duplicateAllowed: invoice.duplicateAllowed ?? false,
       createdAt: invoice.createdAt.toISOString(),
       updatedAt: invoice.updatedAt.toISOString(),
-      items: (invoice.InvoiceItem ?? []).map((item: any) =>
-        this.formatInvoiceItem(item),
-      ),
     };
   }
 
@@ -1424,6 +2061,7 @@ export class InvoiceService {
       totalPrice: item.totalPrice,
       confidence: item.confidence,
       validated: item.validated,
+      resolvedFromHistory: item.resolvedFromHistory ?? false,
       productCode: item.productCode,
       category: item.category,
       discount: item.discount,
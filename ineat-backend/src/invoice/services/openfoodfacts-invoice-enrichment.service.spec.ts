@@ -64,6 +64,7 @@ describe('OpenFoodFactsInvoiceEnrichmentService', () => {
           ecoscore_grade: 'd',
           nova_group: 4,
           ingredients_text_fr: 'Sucre, huile de palme, noisettes',
+          allergens_tags: ['en:milk', 'en:nuts', 'en:soybeans'],
           nutriments: {
             'energy-kcal_100g': 539,
             carbohydrates_100g: 57.5,
@@ -97,6 +98,7 @@ describe('OpenFoodFactsInvoiceEnrichmentService', () => {
     expect(lookupUrl).toContain('ecoscore_grade');
     expect(lookupUrl).toContain('nova_group');
     expect(lookupUrl).toContain('ingredients_text_fr');
+    expect(lookupUrl).toContain('allergens_tags');
     expect(lookupUrl).toContain('nutriments');
     expect(fetchMock).toHaveBeenCalledWith(
       expect.any(String),
@@ -124,6 +126,7 @@ describe('OpenFoodFactsInvoiceEnrichmentService', () => {
         ecoscore: 'D',
         novascore: 'GROUP_4',
         ingredients: 'Sucre, huile de palme, noisettes',
+        allergensTags: ['en:milk', 'en:nuts', 'en:soybeans'],
         nutrients: {
           energy: 539,
           carbohydrates: 57.5,
@@ -42,6 +42,7 @@ interface OpenFoodFactsProduct {
   ingredients_text?: string;
   ingredients_text_fr?: string;
   ingredients_text_en?: string;
+  allergens_tags?: string[];
   nutriments?: Record<string, unknown>;
   completeness?: number;
 }
@@ -80,6 +81,7 @@ const OPENFOODFACTS_FIELDS = [
   'ingredients_text',
   'ingredients_text_fr',
   'ingredients_text_en',
+  'allergens_tags',
   'nutriments',
   'completeness',
 ];
@@ -357,6 +359,7 @@ export class OpenFoodFactsInvoiceEnrichmentService {
       ingredients_text: product.ingredients_text,
       ingredients_text_fr: product.ingredients_text_fr,
       ingredients_text_en: product.ingredients_text_en,
+      allergens_tags: product.allergens_tags,
       nutriments: product.nutriments,
       completeness: product.completeness,
     });
@@ -385,6 +388,7 @@ export class OpenFoodFactsInvoiceEnrichmentService {
         product.ingredients_text ??
         product.ingredients_text_en ??
         null,
+      allergensTags: product.allergens_tags ?? [],
       nutrients: this.mapNutrients(product.nutriments),
       completeness: product.completeness ?? null,
       raw,
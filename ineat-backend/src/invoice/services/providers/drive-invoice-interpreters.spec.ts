@@ -0,0 +1,112 @@
+import { InvoiceDocumentExtraction } from './invoice-analysis-contracts';
+import {
+  LOCAL_INVOICE_VERSIONS,
+  LocalPdfTextExtractor,
+  LocalPdfTextPayload,
+} from './local-pdf-text-extractor';
+import {
+  LocalInvoiceAnalysisProvider,
+  UnsupportedInvoiceLayoutError,
+} from './local-invoice-analysis.provider';
+
+const pdfUrl = 'https://example.com/invoice.pdf';
+
+function extractionOf(
+  lines: string[],
+): InvoiceDocumentExtraction<LocalPdfTextPayload> {
+  return {
+    provider: 'local',
+    confidence: 1,
+    pages: [{ pageNumber: 1, confidence: 1, text: lines.join('\n') }],
+    payload: { lines },
+    versions: { ...LOCAL_INVOICE_VERSIONS },
+  };
+}
+
+describe('LocalInvoiceAnalysisProvider', () => {
+  const provider = new LocalInvoiceAnalysisProvider(
+    new LocalPdfTextExtractor(),
+  );
+
+  it('interprète une facture Carrefour Drive sans IA', () => {
+    const analysis = provider.interpretDocument(
+      extractionOf([
+        'Carrefour Drive',
+        'Facture N° : FAC-2026-0042  Commande N° : 98765432',
+        'Date de retrait : 05/10/2026',
+        'Désignation  EAN  Qté  P.U.  Montant',
+        'Crèmerie',
+        'Lait demi-écrémé 6x1L  3560070614202  2  1,12 €  2,24 €',
+        'Remise immédiate  -0,30 €',
+        'Bananes  1,254 kg  2,49 €',
+        'Frais de préparation  1  2,00 €  2,00 €',
+        'Total TTC : 6,43 €',
+      ]),
+      pdfUrl,
+    );
+
+    expect(analysis).toMatchObject({
+      provider: 'local',
+      merchantName: 'Carrefour Drive',
+      totalAmount: 6.43,
+      purchaseDate: new Date(Date.UTC(2026, 9, 5)),
+      invoiceNumber: 'FAC-2026-0042',
+      orderNumber: '98765432',
+    });
+    expect(analysis.items).toEqual([
+      expect.objectContaining({
+        detectedName: 'Lait demi-écrémé 6x1L',
+        quantity: 2,
+        unitPrice: 1.12,
+        totalPrice: 2.24,
+        discount: 0.3,
+        selectedEan: '3560070614202',
+        category: 'produits-laitiers',
+        confidence: 0.95,
+      }),
+      expect.objectContaining({
+        detectedName: 'Bananes',
+        quantity: 1,
+        unitPrice: 2.49,
+        totalPrice: 2.49,
+        selectedEan: null,
+      }),
+    ]);
+    expect(analysis.rawData).toMatchObject({
+      interpreter: 'carrefour-drive',
+      ignoredLines: ['Crèmerie', 'Frais de préparation  1  2,00 €  2,00 €'],
+    });
+  });
+
+  it("lit l'EAN en tête de ligne sur une facture Leclerc Drive", () => {
+    const analysis = provider.interpretDocument(
+      extractionOf([
+        'E.Leclerc Drive',
+        'EAN  Libellé  Qté  Prix  Total',
+        '3017620422003  Pâte à tartiner 400g  x2  3,49  6,98',
+        'Total TTC : 6,98',
+      ]),
+      pdfUrl,
+    );
+
+    expect(analysis.merchantName).toBe('E.Leclerc Drive');
+    expect(analysis.items).toEqual([
+      expect.objectContaining({
+        detectedName: 'Pâte à tartiner 400g',
+        quantity: 2,
+        unitPrice: 3.49,
+        totalPrice: 6.98,
+        selectedEan: '3017620422003',
+      }),
+    ]);
+  });
+
+  it("signale une mise en page qu'aucun interpréteur ne reconnaît", () => {
+    expect(() =>
+      provider.interpretDocument(
+        extractionOf(['Monoprix', 'Article  Prix', 'Pommes  2,10']),
+        pdfUrl,
+      ),
+    ).toThrow(UnsupportedInvoiceLayoutError);
+  });
+});
@@ -0,0 +1,397 @@
+import { Prisma } from '../../../../prisma/generated/prisma/client';
+import {
+  AnalyzedInvoice,
+  AnalyzedInvoiceItem,
+} from './invoice-analysis-provider';
+import {
+  InvoiceDocumentExtraction,
+  InvoiceInterpreter,
+} from './invoice-analysis-contracts';
+import { LocalPdfTextPayload } from './local-pdf-text-extractor';
+import {
+  NON_PRODUCT_LABEL_PATTERNS,
+  normalizeInvoiceCategory,
+  suggestInvoiceStorageLocation,
+} from '../invoice-product-classification';
+
+/**
+ * Mise en page d'une facture Drive : repères du tableau des articles et
+ * motifs des métadonnées. Les colonnes d'une ligne article sont reconnues
+ * par leur format (EAN, quantité, prix), quel que soit leur ordre.
+ */
+export interface DriveInvoiceLayout {
+  id: string;
+  merchantName: string;
+  merchantPattern: RegExp;
+  itemsStartPattern: RegExp;
+  itemsEndPattern: RegExp;
+  invoiceNumberPattern: RegExp;
+  orderNumberPattern: RegExp;
+  purchaseDatePattern: RegExp;
+  totalAmountPattern: RegExp;
+}
+
+const AMOUNT = '(\\d[\\d\\s]*[.,]\\d{2})';
+const DATE = '(\\d{2}[/.-]\\d{2}[/.-]\\d{4})';
+const REFERENCE = '([A-Z0-9-]*\\d[A-Z0-9-]*)';
+
+export const DRIVE_INVOICE_LAYOUTS: DriveInvoiceLayout[] = [
+  {
+    id: 'carrefour-drive',
+    merchantName: 'Carrefour Drive',
+    merchantPattern: /\bcarrefour\b/i,
+    itemsStartPattern: /^d[ée]signation\b/i,
+    itemsEndPattern: /^(sous[-\s]?total|total)\b/i,
+    invoiceNumberPattern: new RegExp(
+      `facture\\s+n[°o]\\s*:?\\s*${REFERENCE}`,
+      'i',
+    ),
+    orderNumberPattern: new RegExp(
+      `commande\\s+n[°o]\\s*:?\\s*${REFERENCE}`,
+      'i',
+    ),
+    purchaseDatePattern: new RegExp(
+      `date\\s+de\\s+(?:commande|retrait|livraison)\\s*:?\\s*${DATE}`,
+      'i',
+    ),
+    totalAmountPattern: new RegExp(
+      `total\\s+(?:ttc|à\\s+payer)\\s*:?\\s*${AMOUNT}`,
+      'i',
+    ),
+  },
+  {
+    id: 'leclerc-drive',
+    merchantName: 'E.Leclerc Drive',
+    merchantPattern: /\be\.?\s?leclerc\b|\bleclerc\s+drive\b/i,
+    itemsStartPattern: /^(ean|code)\b.*\blibell[ée]/i,
+    itemsEndPattern: /^total\b/i,
+    invoiceNumberPattern: new RegExp(
+      `n[°o]\\s*(?:de\\s+)?facture\\s*:?\\s*${REFERENCE}`,
+      'i',
+    ),
+    orderNumberPattern: new RegExp(
+      `n[°o]\\s*(?:de\\s+)?commande\\s*:?\\s*${REFERENCE}`,
+      'i',
+    ),
+    purchaseDatePattern: new RegExp(
+      `date\\s+(?:de\\s+)?(?:retrait|facture)\\s*:?\\s*${DATE}`,
+      'i',
+    ),
+    totalAmountPattern: new RegExp(
+      `total\\s+(?:ttc|pay[ée])\\s*:?\\s*${AMOUNT}`,
+      'i',
+    ),
+  },
+  {
+    id: 'auchan-drive',
+    merchantName: 'Auchan Drive',
+    merchantPattern: /\bauchan\b/i,
+    itemsStartPattern: /^(produit|article)s?\b.*\bqt[ée]/i,
+    itemsEndPattern: /^(sous[-\s]?total|total)\b/i,
+    invoiceNumberPattern: new RegExp(
+      `facture\\s+n[°o]\\s*:?\\s*${REFERENCE}`,
+      'i',
+    ),
+    orderNumberPattern: new RegExp(
+      `commande\\s+n[°o]\\s*:?\\s*${REFERENCE}`,
+      'i',
+    ),
+    purchaseDatePattern: new RegExp(
+      `(?:date\\s+de\\s+retrait|retir[ée]e?\\s+le)\\s*:?\\s*${DATE}`,
+      'i',
+    ),
+    totalAmountPattern: new RegExp(`total\\s+ttc\\s*:?\\s*${AMOUNT}`, 'i'),
+  },
+  {
+    id: 'intermarche-drive',
+    merchantName: 'Intermarché Drive',
+    merchantPattern: /\bintermarch[ée]\b/i,
+    itemsStartPattern: /^(libell[ée]|article)\b.*\b(qt[ée]|quantit[ée])/i,
+    itemsEndPattern: /^(montant\s+total|total)\b/i,
+    invoiceNumberPattern: new RegExp(
+      `facture\\s+n[°o]\\s*:?\\s*${REFERENCE}`,
+      'i',
+    ),
+    orderNumberPattern: new RegExp(
+      `commande\\s+n[°o]\\s*:?\\s*${REFERENCE}`,
+      'i',
+    ),
+    purchaseDatePattern: new RegExp(
+      `date\\s+(?:de\\s+)?(?:commande|retrait)\\s*:?\\s*${DATE}`,
+      'i',
+    ),
+    totalAmountPattern: new RegExp(
+      `(?:montant\\s+total|total\\s+ttc)\\s*:?\\s*${AMOUNT}`,
+      'i',
+    ),
+  },
+];
+
+const PRICE_TOKEN = /^-?\d{1,4}[.,]\d{2}€?$/;
+const QUANTITY_TOKEN = /^x?(\d{1,3})x?$/i;
+const WEIGHT_TOKEN = /^\d+[.,]\d{1,3}(kg)?$/i;
+const BARCODE_TOKEN = /^(\d{8}|\d{12,13})$/;
+
+interface ParsedInvoiceLine {
+  label: string;
+  ean: string | null;
+  quantity: number | null;
+  unitPrice: number | null;
+  totalPrice: number;
+}
+
+/**
+ * Interprète sans IA le texte extrait d'une facture Drive dont la mise en
+ * page est connue.
+ */
+export class RuleBasedDriveInvoiceInterpreter implements InvoiceInterpreter<LocalPdfTextPayload> {
+  constructor(readonly layout: DriveInvoiceLayout) {}
+
+  matches(extraction: InvoiceDocumentExtraction<LocalPdfTextPayload>) {
+    const { lines } = extraction.payload;
+
+    return (
+      lines.some((line) => this.layout.merchantPattern.test(line)) &&
+      lines.some((line) => this.layout.itemsStartPattern.test(line))
+    );
+  }
+
+  interpretDocument(
+    extraction: InvoiceDocumentExtraction<LocalPdfTextPayload>,
+    pdfUrl: string,
+  ): AnalyzedInvoice {
+    const { lines } = extraction.payload;
+    const text = lines.join('\n');
+    const items: AnalyzedInvoiceItem[] = [];
+    const ignoredLines: string[] = [];
+    let isInItems = false;
+    let sectionCategory: string | null = null;
+
+    for (const line of lines) {
+      if (!isInItems) {
+        // Le tableau peut reprendre sur chaque page avec son en-tête
+        isInItems = this.layout.itemsStartPattern.test(line);
+        continue;
+      }
+
+      if (this.layout.itemsEndPattern.test(line)) {
+        isInItems = false;
+        continue;
+      }
+
+      const parsedLine = parseInvoiceLine(line);
+
+      if (!parsedLine) {
+        // Les intertitres de rayon servent d'indice de catégorie
+        sectionCategory = normalizeInvoiceCategory(line) ?? sectionCategory;
+        ignoredLines.push(line);
+        continue;
+      }
+
+      const previousItem = items[items.length - 1];
+
+      if (parsedLine.totalPrice < 0 && previousItem) {
+        previousItem.discount = roundCurrency(
+          (previousItem.discount ?? 0) + Math.abs(parsedLine.totalPrice),
+        );
+        continue;
+      }
+
+      if (
+        parsedLine.totalPrice < 0 ||
+        NON_PRODUCT_LABEL_PATTERNS.some((pattern) =>
+          pattern.test(parsedLine.label),
+        )
+      ) {
+        ignoredLines.push(line);
+        continue;
+      }
+
+      items.push(toAnalyzedItem(parsedLine, sectionCategory));
+    }
+
+    if (items.length === 0) {
+      throw new Error('Invoice analysis returned no product item');
+    }
+
+    const confidence = roundConfidence(
+      items.reduce((sum, item) => sum + item.confidence, 0) / items.length,
+    );
+
+    return {
+      provider: extraction.provider,
+      confidence,
+      merchantName: this.layout.merchantName,
+      totalAmount: parseAmount(
+        matchValue(text, this.layout.totalAmountPattern),
+      ),
+      purchaseDate: parseFrenchDate(
+        matchValue(text, this.layout.purchaseDatePattern),
+      ),
+      invoiceNumber: matchValue(text, this.layout.invoiceNumberPattern),
+      orderNumber: matchValue(text, this.layout.orderNumberPattern),
+      rawData: toPrismaJson({
+        provider: extraction.provider,
+        interpreter: this.layout.id,
+        pdfUrl,
+        versions: extraction.versions,
+        pageCount: extraction.pages.length,
+        ignoredLines,
+        normalizedItemCount: items.length,
+      }),
+      items,
+    };
+  }
+}
+
+export const DRIVE_INVOICE_INTERPRETERS = DRIVE_INVOICE_LAYOUTS.map(
+  (layout) => new RuleBasedDriveInvoiceInterpreter(layout),
+);
+
+function parseInvoiceLine(line: string): ParsedInvoiceLine | null {
+  const tokens = line
+    .split(/\s+/)
+    .filter((token) => token && !['€', 'EUR'].includes(token));
+  const prices: number[] = [];
+
+  while (
+    tokens.length > 0 &&
+    prices.length < 2 &&
+    PRICE_TOKEN.test(tokens[tokens.length - 1])
+  ) {
+    prices.unshift(parseAmount(tokens.pop()));
+  }
+
+  if (prices.length === 0) {
+    return null;
+  }
+
+  if (tokens[tokens.length - 1]?.toLowerCase() === 'x') {
+    tokens.pop();
+  }
+
+  let quantity: number | null = null;
+  const isWeighed = /kg$/i.test(tokens[tokens.length - 1] ?? '');
+
+  if (isWeighed) {
+    // Article au poids : compté comme une unité au prix total de la ligne
+    if (tokens[tokens.length - 1].toLowerCase() === 'kg') tokens.pop();
+    if (WEIGHT_TOKEN.test(tokens[tokens.length - 1] ?? '')) tokens.pop();
+    quantity = 1;
+  } else {
+    const quantityMatch = QUANTITY_TOKEN.exec(tokens[tokens.length - 1] ?? '');
+
+    if (quantityMatch && tokens.length > 1) {
+      tokens.pop();
+      quantity = Math.max(1, Number(quantityMatch[1]));
+    }
+  }
+
+  let ean: string | null = null;
+
+  if (BARCODE_TOKEN.test(tokens[tokens.length - 1] ?? '')) {
+    ean = tokens.pop();
+  } else if (BARCODE_TOKEN.test(tokens[0] ?? '')) {
+    ean = tokens.shift();
+  }
+
+  const label = tokens.join(' ').trim();
+
+  if (!label || !/[a-zà-ÿ]/i.test(label)) {
+    return null;
+  }
+
+  return {
+    label,
+    ean,
+    quantity,
+    unitPrice: isWeighed
+      ? prices[prices.length - 1]
+      : prices.length === 2
+        ? prices[0]
+        : null,
+    totalPrice: prices[prices.length - 1],
+  };
+}
+
+function toAnalyzedItem(
+  line: ParsedInvoiceLine,
+  sectionCategory: string | null,
+): AnalyzedInvoiceItem {
+  const quantity = line.quantity ?? inferQuantity(line) ?? 1;
+  const unitPrice = line.unitPrice ?? roundCurrency(line.totalPrice / quantity);
+  const hasPriceMismatch =
+    Math.abs(roundCurrency(quantity * unitPrice) - line.totalPrice) > 0.01;
+  const category = normalizeInvoiceCategory(sectionCategory, line.label);
+  let confidence = 0.95;
+
+  if (!category) confidence -= 0.15;
+  if (line.unitPrice === null) confidence -= 0.1;
+  if (hasPriceMismatch) confidence -= 0.2;
+
+  return {
+    detectedName: line.label,
+    quantity,
+    unitPrice,
+    totalPrice: line.totalPrice,
+    confidence: roundConfidence(confidence),
+    productCode: line.ean,
+    selectedEan: line.ean,
+    suggestedEans: line.ean ? [line.ean] : [],
+    category,
+    storageLocation: suggestInvoiceStorageLocation({
+      category,
+      name: line.label,
+    }),
+  };
+}
+
+function inferQuantity(line: ParsedInvoiceLine): number | null {
+  if (!line.unitPrice) {
+    return null;
+  }
+
+  const ratio = line.totalPrice / line.unitPrice;
+  const roundedRatio = Math.round(ratio);
+
+  return roundedRatio >= 1 && Math.abs(ratio - roundedRatio) <= 0.05
+    ? roundedRatio
+    : null;
+}
+
+function matchValue(text: string, pattern: RegExp): string | null {
+  return pattern.exec(text)?.[1]?.trim() || null;
+}
+
+function parseAmount(value?: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const amount = Number(value.replace(/[\s€]/g, '').replace(',', '.'));
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function parseFrenchDate(value: string | null): Date | null {
+  const match = /^(\d{2})[/.-](\d{2})[/.-](\d{4})$/.exec(value ?? '');
+
+  if (!match) {
+    return null;
+  }
+
+  const [, day, month, year] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCDate() === day ? date : null;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toPrismaJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
@@ -23,6 +23,7 @@ export interface InvoiceExternalProductData {
   ecoscore?: 'A' | 'B' | 'C' | 'D' | 'E' | null;
   novascore?: 'GROUP_1' | 'GROUP_2' | 'GROUP_3' | 'GROUP_4' | null;
   ingredients?: string | null;
+  allergensTags?: string[];
   nutrients?: {
     energy?: number;
     carbohydrates?: number;
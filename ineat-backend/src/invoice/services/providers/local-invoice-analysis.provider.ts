@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AnalyzedInvoice,
+  ContractualInvoiceAnalysisProvider,
+} from './invoice-analysis-provider';
+import { InvoiceDocumentExtraction } from './invoice-analysis-contracts';
+import { DRIVE_INVOICE_INTERPRETERS } from './drive-invoice-interpreters';
+import {
+  LocalPdfTextExtractor,
+  LocalPdfTextPayload,
+} from './local-pdf-text-extractor';
+
+export class UnsupportedInvoiceLayoutError extends Error {
+  constructor() {
+    super('No local interpreter matches this invoice layout');
+    this.name = 'UnsupportedInvoiceLayoutError';
+  }
+}
+
+@Injectable()
+export class LocalInvoiceAnalysisProvider implements ContractualInvoiceAnalysisProvider<LocalPdfTextPayload> {
+  readonly providerName = 'local';
+
+  constructor(private readonly textExtractor: LocalPdfTextExtractor) {}
+
+  async analyzePdf(
+    pdfUrl: string,
+    pdfBuffer?: Buffer,
+  ): Promise<AnalyzedInvoice> {
+    const extraction = await this.extractDocument(pdfUrl, pdfBuffer);
+    return this.interpretDocument(extraction, pdfUrl);
+  }
+
+  extractDocument(
+    pdfUrl: string,
+    pdfBuffer?: Buffer,
+  ): Promise<InvoiceDocumentExtraction<LocalPdfTextPayload>> {
+    return this.textExtractor.extractDocument(pdfUrl, pdfBuffer);
+  }
+
+  interpretDocument(
+    extraction: InvoiceDocumentExtraction<LocalPdfTextPayload>,
+    pdfUrl: string,
+  ): AnalyzedInvoice {
+    const interpreter = DRIVE_INVOICE_INTERPRETERS.find((candidate) =>
+      candidate.matches(extraction),
+    );
+
+    if (!interpreter) {
+      throw new UnsupportedInvoiceLayoutError();
+    }
+
+    return interpreter.interpretDocument(extraction, pdfUrl);
+  }
+}
@@ -0,0 +1,100 @@
+import PDFDocument from 'pdfkit';
+import { LocalPdfTextExtractor } from './local-pdf-text-extractor';
+
+function renderPdf(draw: (document: PDFKit.PDFDocument) => void) {
+  const document = new PDFDocument({ size: 'A4', margin: 0 });
+  const chunks: Buffer[] = [];
+  const content = new Promise<Buffer>((resolve, reject) => {
+    document.on('data', (chunk: Buffer) => chunks.push(chunk));
+    document.on('end', () => resolve(Buffer.concat(chunks)));
+    document.on('error', reject);
+  });
+
+  draw(document);
+  document.end();
+  return content;
+}
+
+// PDF minimal avec une police composite : codes sur deux octets et CMap
+// ToUnicode, comme dans les factures générées avec des polices embarquées
+function buildCompositeFontPdf(): Buffer {
+  const cmap = [
+    'begincmap',
+    '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+    '2 beginbfchar <0001> <004C> <0002> <00E9> endbfchar',
+    '1 beginbfrange <0003> <0005> <0061> endbfrange',
+    'endcmap',
+  ].join('\n');
+  const content = [
+    'BT /F1 12 Tf 1 0 0 1 40 700 Tm <00010003> Tj ET',
+    'BT /F1 12 Tf 1 0 0 1 40 680 Tm [<0004> -500 <00020005>] TJ ET',
+  ].join('\n');
+
+  return Buffer.from(
+    [
+      '%PDF-1.4',
+      '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+      '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /Font << /F1 5 0 R >> >> >> endobj',
+      '3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R >> endobj',
+      `4 0 obj << /Length ${content.length} >>\nstream\n${content}\nendstream endobj`,
+      '5 0 obj << /Type /Font /Subtype /Type0 /BaseFont /Demo /ToUnicode 6 0 R >> endobj',
+      `6 0 obj << /Length ${cmap.length} >>\nstream\n${cmap}\nendstream endobj`,
+      'trailer << /Root 1 0 R >>',
+      '%%EOF',
+    ].join('\n'),
+    'latin1',
+  );
+}
+
+describe('LocalPdfTextExtractor', () => {
+  const extractor = new LocalPdfTextExtractor();
+
+  it('restitue les lignes dans leur ordre de lecture avec leurs colonnes', async () => {
+    const pdfBuffer = await renderPdf((document) => {
+      document.text('Carrefour Drive', 40, 40);
+      document.text('1,12 €', 400, 100);
+      document.text('Lait demi-écrémé 6x1L', 40, 100);
+      document.text('2', 320, 100);
+      document.addPage();
+      document.text('Total TTC : 2,24 €', 40, 40);
+    });
+
+    const extraction = await extractor.extractDocument(
+      'https://example.com/invoice.pdf',
+      pdfBuffer,
+    );
+
+    expect(extraction.provider).toBe('local');
+    expect(extraction.payload.lines).toEqual([
+      'Carrefour Drive',
+      'Lait demi-écrémé 6x1L  2  1,12 €',
+      'Total TTC : 2,24 €',
+    ]);
+    expect(extraction.pages).toHaveLength(2);
+    expect(extraction.pages[1]).toMatchObject({
+      pageNumber: 2,
+      text: 'Total TTC : 2,24 €',
+    });
+  });
+
+  it('décode les polices composites via leur CMap ToUnicode', async () => {
+    const extraction = await extractor.extractDocument(
+      'https://example.com/invoice.pdf',
+      buildCompositeFontPdf(),
+    );
+
+    expect(extraction.payload.lines).toEqual(['La', 'b éc']);
+  });
+
+  it('refuse un document sans texte exploitable', async () => {
+    await expect(
+      extractor.extractDocument('https://example.com/invoice.pdf'),
+    ).rejects.toThrow('PDF buffer is required');
+    await expect(
+      extractor.extractDocument(
+        'https://example.com/invoice.pdf',
+        await renderPdf(() => undefined),
+      ),
+    ).rejects.toThrow('PDF contains no extractable text');
+  });
+});
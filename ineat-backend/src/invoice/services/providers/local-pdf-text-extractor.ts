@@ -0,0 +1,692 @@
+import { Injectable } from '@nestjs/common';
+import { inflateSync } from 'zlib';
+import {
+  InvoiceDocumentExtraction,
+  InvoiceDocumentExtractor,
+} from './invoice-analysis-contracts';
+
+export interface LocalPdfTextPayload {
+  lines: string[];
+}
+
+export const LOCAL_INVOICE_VERSIONS = {
+  pipeline: 'invoice-analysis-v1',
+  model: 'none',
+  prompt: 'none',
+  schema: 'drive-invoice-text-v1',
+  normalizer: 'drive-invoice-interpreter-v1',
+} as const;
+
+/**
+ * Séparateur entre deux fragments de texte positionnés séparément sur une
+ * même ligne : les interprètes s'en servent pour distinguer les colonnes.
+ */
+export const PDF_COLUMN_SEPARATOR = '  ';
+
+const SAME_LINE_TOLERANCE = 2;
+const WORD_SPACING_THRESHOLD = -200;
+
+// Caractères de WinAnsiEncoding qui diffèrent de Latin-1
+const WIN_ANSI_OVERRIDES: Record<number, string> = {
+  0x80: '€',
+  0x85: '…',
+  0x8c: 'Œ',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x96: '–',
+  0x97: '—',
+  0x9c: 'œ',
+};
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+interface PdfObject {
+  body: string;
+  stream: Buffer | null;
+}
+
+interface PdfFont {
+  codeLength: number;
+  toUnicode: Map<number, string> | null;
+}
+
+interface PositionedText {
+  x: number;
+  y: number;
+  order: number;
+  text: string;
+}
+
+type ContentToken =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: Buffer }
+  | { type: 'name'; value: string }
+  | { type: 'array'; value: ContentToken[] }
+  | { type: 'operator'; value: string };
+
+/**
+ * Extrait localement le texte d'un PDF, ligne par ligne et sans appel
+ * externe. Seuls les flux non compressés ou compressés en FlateDecode sont
+ * lus, ce qui couvre les factures générées par les sites Drive.
+ */
+@Injectable()
+export class LocalPdfTextExtractor implements InvoiceDocumentExtractor<LocalPdfTextPayload> {
+  async extractDocument(
+    _pdfUrl: string,
+    pdfBuffer?: Buffer,
+  ): Promise<InvoiceDocumentExtraction<LocalPdfTextPayload>> {
+    if (!pdfBuffer?.length) {
+      throw new Error('PDF buffer is required for local invoice extraction');
+    }
+
+    const objects = parsePdfObjects(pdfBuffer);
+    const pages = findPages(objects).map((page, index) => {
+      const lines = extractPageLines(objects, page);
+
+      return {
+        pageNumber: index + 1,
+        confidence: lines.length > 0 ? 1 : 0,
+        text: lines.join('\n'),
+        lines,
+      };
+    });
+    const lines = pages.flatMap((page) => page.lines);
+
+    if (lines.length === 0) {
+      throw new Error('PDF contains no extractable text');
+    }
+
+    return {
+      provider: 'local',
+      confidence: 1,
+      pages: pages.map(({ pageNumber, confidence, text }) => ({
+        pageNumber,
+        confidence,
+        text,
+      })),
+      payload: { lines },
+      versions: { ...LOCAL_INVOICE_VERSIONS },
+    };
+  }
+}
+
+function parsePdfObjects(pdfBuffer: Buffer): Map<number, PdfObject> {
+  const source = pdfBuffer.toString('latin1');
+  const objects = new Map<number, PdfObject>();
+  const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = objectPattern.exec(source))) {
+    const bodyStart = match.index + match[0].length;
+    const bodyEnd = source.indexOf('endobj', bodyStart);
+
+    if (bodyEnd === -1) {
+      break;
+    }
+
+    const body = source.slice(bodyStart, bodyEnd);
+    const streamMatch = /stream\r?\n/.exec(body);
+
+    if (!streamMatch) {
+      objects.set(Number(match[1]), { body, stream: null });
+      objectPattern.lastIndex = bodyEnd;
+      continue;
+    }
+
+    const dictionary = body.slice(0, streamMatch.index);
+    const dataStart = bodyStart + streamMatch.index + streamMatch[0].length;
+    const declaredLength = /\/Length\s+(\d+)(?!\s+\d+\s+R)/.exec(dictionary);
+    const dataEnd = declaredLength
+      ? dataStart + Number(declaredLength[1])
+      : bodyStart + body.lastIndexOf('endstream');
+
+    objects.set(Number(match[1]), {
+      body: dictionary,
+      stream: decodeStream(dictionary, pdfBuffer.subarray(dataStart, dataEnd)),
+    });
+    objectPattern.lastIndex = bodyEnd;
+  }
+
+  expandObjectStreams(objects);
+  return objects;
+}
+
+function decodeStream(dictionary: string, data: Buffer): Buffer | null {
+  const filters = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(dictionary)?.[1] ?? '';
+
+  if (!filters) {
+    return data;
+  }
+
+  if (filters.replace(/[[\]\s]/g, '') !== '/FlateDecode') {
+    return null;
+  }
+
+  try {
+    return inflateSync(data);
+  } catch {
+    return null;
+  }
+}
+
+function expandObjectStreams(objects: Map<number, PdfObject>) {
+  for (const object of Array.from(objects.values())) {
+    if (!/\/Type\s*\/ObjStm\b/.test(object.body) || !object.stream) {
+      continue;
+    }
+
+    const content = object.stream.toString('latin1');
+    const count = Number(/\/N\s+(\d+)/.exec(object.body)?.[1] ?? 0);
+    const first = Number(/\/First\s+(\d+)/.exec(object.body)?.[1] ?? 0);
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+
+    for (let index = 0; index < count; index += 1) {
+      const objectNumber = header[index * 2];
+      const start = first + header[index * 2 + 1];
+      const end =
+        index + 1 < count ? first + header[index * 2 + 3] : content.length;
+
+      if (!objects.has(objectNumber)) {
+        objects.set(objectNumber, {
+          body: content.slice(start, end),
+          stream: null,
+        });
+      }
+    }
+  }
+}
+
+function findPages(objects: Map<number, PdfObject>): PdfObject[] {
+  const root = Array.from(objects.values()).find(
+    (object) =>
+      /\/Type\s*\/Pages\b/.test(object.body) &&
+      !/\/Parent\s+\d+\s+\d+\s+R/.test(object.body),
+  );
+
+  if (!root) {
+    return Array.from(objects.entries())
+      .filter(([, object]) => /\/Type\s*\/Page\b/.test(object.body))
+      .sort(([left], [right]) => left - right)
+      .map(([, object]) => object);
+  }
+
+  const pages: PdfObject[] = [];
+  const visit = (node: PdfObject, depth: number) => {
+    if (depth > 32) {
+      return;
+    }
+
+    if (!/\/Type\s*\/Pages\b/.test(node.body)) {
+      pages.push(node);
+      return;
+    }
+
+    const kids = /\/Kids\s*\[([^\]]*)\]/.exec(node.body)?.[1] ?? '';
+    for (const kid of parseReferences(kids)) {
+      const child = objects.get(kid);
+      if (child) visit(child, depth + 1);
+    }
+  };
+
+  visit(root, 0);
+  return pages;
+}
+
+function extractPageLines(
+  objects: Map<number, PdfObject>,
+  page: PdfObject,
+): string[] {
+  const contents = /\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/.exec(page.body);
+  const content = Buffer.concat(
+    parseReferences(contents?.[1] ?? '').flatMap((reference) => {
+      const stream = objects.get(reference)?.stream;
+      return stream ? [stream, Buffer.from('\n')] : [];
+    }),
+  );
+  const fonts = resolvePageFonts(objects, page);
+
+  return groupLines(readContentStream(content, fonts));
+}
+
+function resolvePageFonts(
+  objects: Map<number, PdfObject>,
+  page: PdfObject,
+): Map<string, PdfFont> {
+  let node: PdfObject | undefined = page;
+  let resources: string | null = null;
+
+  // Les ressources peuvent être héritées d'un nœud parent de l'arbre des pages
+  for (let depth = 0; node && resources === null && depth < 32; depth += 1) {
+    resources = readDictionaryEntry(objects, node.body, 'Resources');
+    const parent = /\/Parent\s+(\d+)\s+\d+\s+R/.exec(node.body);
+    node = parent ? objects.get(Number(parent[1])) : undefined;
+  }
+
+  const fontDictionary = resources
+    ? readDictionaryEntry(objects, resources, 'Font')
+    : null;
+  const fonts = new Map<string, PdfFont>();
+  const fontPattern = /\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g;
+  let match: RegExpExecArray | null;
+
+  while (fontDictionary && (match = fontPattern.exec(fontDictionary))) {
+    const font = objects.get(Number(match[2]));
+    const toUnicode = font
+      ? /\/ToUnicode\s+(\d+)\s+\d+\s+R/.exec(font.body)
+      : null;
+    const cmap = toUnicode
+      ? objects.get(Number(toUnicode[1]))?.stream?.toString('latin1')
+      : undefined;
+
+    fonts.set(match[1], parseToUnicodeCMap(cmap, font?.body ?? ''));
+  }
+
+  return fonts;
+}
+
+function readDictionaryEntry(
+  objects: Map<number, PdfObject>,
+  dictionary: string,
+  key: string,
+): string | null {
+  const reference = new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`).exec(
+    dictionary,
+  );
+
+  if (reference) {
+    return objects.get(Number(reference[1]))?.body ?? null;
+  }
+
+  const start = new RegExp(`/${key}\\s*<<`).exec(dictionary);
+
+  if (!start) {
+    return null;
+  }
+
+  let depth = 0;
+  for (let index = start.index; index < dictionary.length - 1; index += 1) {
+    const pair = dictionary.slice(index, index + 2);
+
+    if (pair === '<<') {
+      depth += 1;
+      index += 1;
+    } else if (pair === '>>') {
+      depth -= 1;
+      index += 1;
+
+      if (depth === 0) {
+        return dictionary.slice(start.index, index + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+function parseToUnicodeCMap(
+  cmap: string | undefined,
+  fontBody: string,
+): PdfFont {
+  const isCompositeFont = /\/Subtype\s*\/Type0\b/.test(fontBody);
+
+  if (!cmap) {
+    return { codeLength: isCompositeFont ? 2 : 1, toUnicode: null };
+  }
+
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  const toUnicode = new Map<number, string>();
+
+  for (const section of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of section[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g,
+    )) {
+      toUnicode.set(parseInt(entry[1], 16), decodeUtf16Hex(entry[2]));
+    }
+  }
+
+  for (const section of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of section[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g,
+    )) {
+      const low = parseInt(entry[1], 16);
+      const high = parseInt(entry[2], 16);
+
+      if (entry[3].startsWith('[')) {
+        const targets = Array.from(entry[3].matchAll(/<([0-9a-fA-F]*)>/g));
+        targets.forEach((target, offset) => {
+          toUnicode.set(low + offset, decodeUtf16Hex(target[1]));
+        });
+        continue;
+      }
+
+      const base = entry[3].slice(1, -1);
+      const prefix = base.slice(0, -4);
+      const lastUnit = parseInt(base.slice(-4) || '0', 16);
+
+      for (let code = low; code <= high && code - low < 65536; code += 1) {
+        toUnicode.set(
+          code,
+          decodeUtf16Hex(
+            prefix + (lastUnit + code - low).toString(16).padStart(4, '0'),
+          ),
+        );
+      }
+    }
+  }
+
+  return {
+    codeLength: codespace ? Math.max(1, codespace[1].length / 2) : 1,
+    toUnicode,
+  };
+}
+
+function decodeUtf16Hex(hex: string): string {
+  const units: number[] = [];
+
+  for (let index = 0; index + 4 <= hex.length; index += 4) {
+    units.push(parseInt(hex.slice(index, index + 4), 16));
+  }
+
+  return String.fromCharCode(...units);
+}
+
+function decodeText(bytes: Buffer, font?: PdfFont): string {
+  const codeLength = font?.codeLength ?? 1;
+  let text = '';
+
+  for (let index = 0; index + codeLength <= bytes.length; index += codeLength) {
+    const code = bytes.readUIntBE(index, codeLength);
+    const mapped = font?.toUnicode?.get(code);
+
+    if (mapped !== undefined) {
+      text += mapped;
+    } else if (codeLength === 1) {
+      text += WIN_ANSI_OVERRIDES[code] ?? String.fromCharCode(code);
+    }
+  }
+
+  return text;
+}
+
+function readContentStream(
+  content: Buffer,
+  fonts: Map<string, PdfFont>,
+): PositionedText[] {
+  const texts: PositionedText[] = [];
+  const graphicsStack: Matrix[] = [];
+  let ctm: Matrix = IDENTITY_MATRIX;
+  let textMatrix: Matrix = IDENTITY_MATRIX;
+  let lineMatrix: Matrix = IDENTITY_MATRIX;
+  let leading = 0;
+  let font: PdfFont | undefined;
+  let operands: ContentToken[] = [];
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+  const show = (text: string) => {
+    if (!text.trim()) return;
+    const [, , , , x, y] = multiply(textMatrix, ctm);
+    texts.push({ x, y, order: texts.length, text });
+  };
+  const numberAt = (index: number) => {
+    const operand = operands[index];
+    return operand?.type === 'number' ? operand.value : 0;
+  };
+  const matrixOperand = () => {
+    const offset = operands.length - 6;
+    return [0, 1, 2, 3, 4, 5].map((index) =>
+      numberAt(offset + index),
+    ) as Matrix;
+  };
+
+  for (const token of tokenizeContent(content)) {
+    if (token.type !== 'operator') {
+      operands.push(token);
+      continue;
+    }
+
+    const last = operands[operands.length - 1];
+
+    switch (token.value) {
+      case 'q':
+        graphicsStack.push(ctm);
+        break;
+      case 'Q':
+        ctm = graphicsStack.pop() ?? IDENTITY_MATRIX;
+        break;
+      case 'cm':
+        ctm = multiply(matrixOperand(), ctm);
+        break;
+      case 'BT':
+        textMatrix = IDENTITY_MATRIX;
+        lineMatrix = IDENTITY_MATRIX;
+        break;
+      case 'Tf':
+        font =
+          operands[0]?.type === 'name' ? fonts.get(operands[0].value) : font;
+        break;
+      case 'TL':
+        leading = numberAt(0);
+        break;
+      case 'Td':
+        moveLine(numberAt(0), numberAt(1));
+        break;
+      case 'TD':
+        leading = -numberAt(1);
+        moveLine(numberAt(0), numberAt(1));
+        break;
+      case 'Tm':
+        lineMatrix = matrixOperand();
+        textMatrix = lineMatrix;
+        break;
+      case 'T*':
+        moveLine(0, -leading);
+        break;
+      case "'":
+      case '"':
+        moveLine(0, -leading);
+        if (last?.type === 'string') show(decodeText(last.value, font));
+        break;
+      case 'Tj':
+        if (last?.type === 'string') show(decodeText(last.value, font));
+        break;
+      case 'TJ':
+        if (last?.type === 'array') {
+          show(
+            last.value
+              .map((element) => {
+                if (element.type === 'string') {
+                  return decodeText(element.value, font);
+                }
+
+                return element.type === 'number' &&
+                  element.value < WORD_SPACING_THRESHOLD
+                  ? ' '
+                  : '';
+              })
+              .join(''),
+          );
+        }
+        break;
+    }
+
+    operands = [];
+  }
+
+  return texts;
+}
+
+function groupLines(texts: PositionedText[]): string[] {
+  const lines: PositionedText[][] = [];
+  const sortedTexts = [...texts].sort(
+    (left, right) => right.y - left.y || left.order - right.order,
+  );
+
+  for (const text of sortedTexts) {
+    const line = lines[lines.length - 1];
+
+    if (line && Math.abs(line[0].y - text.y) <= SAME_LINE_TOLERANCE) {
+      line.push(text);
+    } else {
+      lines.push([text]);
+    }
+  }
+
+  return lines
+    .map((line) =>
+      line
+        .sort((left, right) => left.x - right.x || left.order - right.order)
+        .map((text) => text.text.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join(PDF_COLUMN_SEPARATOR),
+    )
+    .filter(Boolean);
+}
+
+function* tokenizeContent(content: Buffer): Generator<ContentToken> {
+  const source = content.toString('latin1');
+  const arrays: ContentToken[][] = [];
+  let index = 0;
+
+  const emit = function* (token: ContentToken): Generator<ContentToken> {
+    if (arrays.length > 0) {
+      arrays[arrays.length - 1].push(token);
+    } else {
+      yield token;
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '%') {
+      while (index < source.length && !/[\r\n]/.test(source[index])) index += 1;
+    } else if (char === '(') {
+      const [bytes, end] = readLiteralString(source, index);
+      yield* emit({ type: 'string', value: bytes });
+      index = end;
+    } else if (
+      source.startsWith('<<', index) ||
+      source.startsWith('>>', index)
+    ) {
+      index += 2;
+    } else if (char === '<') {
+      const end = source.indexOf('>', index);
+      const hex = source.slice(index + 1, end === -1 ? undefined : end);
+      const digits = hex.replace(/[^0-9a-fA-F]/g, '');
+      yield* emit({
+        type: 'string',
+        value: Buffer.from(digits.length % 2 ? `${digits}0` : digits, 'hex'),
+      });
+      index = end === -1 ? source.length : end + 1;
+    } else if (char === '[') {
+      arrays.push([]);
+      index += 1;
+    } else if (char === ']') {
+      const array = arrays.pop() ?? [];
+      yield* emit({ type: 'array', value: array });
+      index += 1;
+    } else if (char === '/') {
+      const name = /^\/[^\s/<>[\]()%]*/.exec(source.slice(index, index + 128));
+      yield* emit({ type: 'name', value: name[0].slice(1) });
+      index += name[0].length;
+    } else {
+      const word = /^[^\s/<>[\]()%]+/.exec(source.slice(index, index + 128));
+      const value = word?.[0] ?? char;
+      index += value.length;
+
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(value)) {
+        yield* emit({ type: 'number', value: Number(value) });
+      } else if (value === 'ID') {
+        // Image en ligne : ses données binaires vont jusqu'au marqueur EI
+        const end = source.slice(index).search(/\sEI(\s|$)/);
+        index = end === -1 ? source.length : index + end + 3;
+      } else {
+        yield* emit({ type: 'operator', value });
+      }
+    }
+  }
+}
+
+function readLiteralString(source: string, start: number): [Buffer, number] {
+  const bytes: number[] = [];
+  let depth = 0;
+  let index = start;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '\\') {
+      const next = source[index + 1];
+      const octal = /^[0-7]{1,3}/.exec(source.slice(index + 1, index + 4));
+      const escapes: Record<string, number> = {
+        n: 10,
+        r: 13,
+        t: 9,
+        b: 8,
+        f: 12,
+      };
+
+      if (octal) {
+        bytes.push(parseInt(octal[0], 8) & 0xff);
+        index += 1 + octal[0].length;
+        continue;
+      }
+
+      if (next === '\r' || next === '\n') {
+        index += source.startsWith('\r\n', index + 1) ? 3 : 2;
+        continue;
+      }
+
+      bytes.push(escapes[next] ?? next?.charCodeAt(0) ?? 0);
+      index += 2;
+      continue;
+    }
+
+    if (char === '(') {
+      depth += 1;
+      if (depth === 1) {
+        index += 1;
+        continue;
+      }
+    } else if (char === ')') {
+      depth -= 1;
+      if (depth === 0) {
+        return [Buffer.from(bytes), index + 1];
+      }
+    }
+
+    bytes.push(char.charCodeAt(0) & 0xff);
+    index += 1;
+  }
+
+  return [Buffer.from(bytes), index];
+}
+
+function parseReferences(value: string): number[] {
+  return Array.from(value.matchAll(/(\d+)\s+\d+\s+R/g), (match) =>
+    Number(match[1]),
+  );
+}
+
+function multiply(left: Matrix, right: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = left;
+  const [a2, b2, c2, d2, e2, f2] = right;
+
+  return [
+    a1 * a2 + b1 * c2,
+    a1 * b2 + b1 * d2,
+    c1 * a2 + d1 * c2,
+    c1 * b2 + d1 * d2,
+    e1 * a2 + f1 * c2 + e2,
+    e1 * b2 + f1 * d2 + f2,
+  ];
+}
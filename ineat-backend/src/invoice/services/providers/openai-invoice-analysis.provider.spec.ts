@@ -104,6 +104,16 @@ describe('normalizeOpenAIInvoiceAnalysis', () => {
     expect(JSON.stringify(result.rawData)).not.toContain('providerResponse');
   });
 
+  it("garde le nom d'enseigne lu par l'IA, même proche d'un Drive connu", () => {
+    const result = normalizeOpenAIInvoiceAnalysis({
+      pdfUrl: 'https://example.com/invoice.pdf',
+      model: 'gpt-5.5',
+      payload: { ...nominalPayload, merchantName: 'CARREFOUR Market' },
+    });
+
+    expect(result.merchantName).toBe('CARREFOUR Market');
+  });
+
   it('filtre les frais, remises globales et totaux', () => {
     const result = normalizeOpenAIInvoiceAnalysis({
       pdfUrl: 'https://example.com/invoice.pdf',
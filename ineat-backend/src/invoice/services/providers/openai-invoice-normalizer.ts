@@ -6,6 +6,7 @@ import {
 import { InvoiceAnalysisVersions } from './invoice-analysis-contracts';
 import {
   INVOICE_CATEGORY_SLUGS,
+  NON_PRODUCT_LABEL_PATTERNS,
   normalizeInvoiceCategory,
   suggestInvoiceStorageLocation,
 } from '../invoice-product-classification';
@@ -45,14 +46,6 @@ export interface OpenAIExtractedInvoicePayload {
 
 export const KNOWN_INVOICE_CATEGORY_SLUGS = INVOICE_CATEGORY_SLUGS;
 
-const NON_PRODUCT_LABEL_PATTERNS = [
-  /\b(total|sous[-\s]?total|montant)\b/i,
-  /\b(tva|taxe|eco[-\s]?participation)\b/i,
-  /\b(livraison|frais|service|preparation|préparation)\b/i,
-  /\b(paiement|carte|cb|visa|mastercard)\b/i,
-  /\b(remise globale|bon d'achat|avoir|coupon)\b/i,
-];
-
 export function normalizeOpenAIInvoiceAnalysis({
   payload,
   pdfUrl,
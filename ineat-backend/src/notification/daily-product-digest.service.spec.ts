@@ -2,7 +2,8 @@ import { DailyProductDigestService } from './daily-product-digest.service';
 
 describe('DailyProductDigestService', () => {
   const prisma = {
-    user: { findMany: jest.fn() },
+    user: { findMany: jest.fn(), findUnique: jest.fn() },
+    householdMember: { findUnique: jest.fn() },
     inventoryItem: { findMany: jest.fn() },
     notification: { findFirst: jest.fn() },
     emailDigestDelivery: {
@@ -17,6 +18,7 @@ describe('DailyProductDigestService', () => {
     jest.clearAllMocks();
     delete process.env.DAILY_DIGEST_HOUR;
     prisma.user.findMany.mockResolvedValue([]);
+    prisma.user.findUnique.mockResolvedValue({ activeHouseholdId: null });
     prisma.inventoryItem.findMany.mockResolvedValue([]);
     prisma.notification.findFirst.mockResolvedValue(null);
     prisma.emailDigestDelivery.findUnique.mockResolvedValue(null);
@@ -53,6 +55,87 @@ describe('DailyProductDigestService', () => {
     );
   });
 
+  it("lists the household's shared stock for a member", async () => {
+    prisma.user.findMany.mockResolvedValueOnce([
+      {
+        id: 'member-1',
+        email: 'member@example.com',
+        firstName: 'Grace',
+        preferences: { timeZone: 'Europe/Paris' },
+      },
+    ]);
+    prisma.user.findUnique.mockResolvedValueOnce({
+      activeHouseholdId: 'household-1',
+    });
+    prisma.householdMember.findUnique.mockResolvedValueOnce({
+      Household: { ownerId: 'owner-1' },
+    });
+    prisma.inventoryItem.findMany.mockResolvedValue([
+      {
+        quantity: 1,
+        expiryDate: new Date('2026-08-03T12:00:00.000Z'),
+        Product: { name: 'Yaourt' },
+      },
+    ]);
+    const service = new DailyProductDigestService(prisma as any, email as any);
+
+    await service.sendDueDigests(new Date('2026-08-03T06:10:00.000Z'));
+
+    expect(prisma.inventoryItem.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ userId: 'owner-1' }),
+      }),
+    );
+    expect(prisma.notification.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ userId: 'member-1' }),
+      }),
+    );
+    expect(email.sendDailyProductDigest).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'member-1', totalUrgentItems: 1 }),
+    );
+  });
+
+  it('does not treat a past best-before date as urgent', async () => {
+    prisma.user.findMany.mockResolvedValueOnce([
+      {
+        id: 'user-1',
+        email: 'user@example.com',
+        firstName: 'Ada',
+        preferences: { timeZone: 'Europe/Paris' },
+      },
+    ]);
+    prisma.inventoryItem.findMany.mockResolvedValue([
+      {
+        quantity: 1,
+        expiryDate: new Date('2026-07-30T12:00:00.000Z'),
+        expiryKind: 'BEST_BEFORE',
+        Product: { name: 'Pâtes' },
+      },
+      {
+        quantity: 1,
+        expiryDate: new Date('2026-08-04T12:00:00.000Z'),
+        expiryKind: 'BEST_BEFORE',
+        Product: { name: 'Biscuits' },
+      },
+    ]);
+    const service = new DailyProductDigestService(prisma as any, email as any);
+
+    await service.sendDueDigests(new Date('2026-08-03T06:10:00.000Z'));
+
+    expect(email.sendDailyProductDigest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        totalUrgentItems: 1,
+        urgentItems: [
+          expect.objectContaining({
+            name: 'Biscuits',
+            detail: 'à consommer de préférence dans 1 jour',
+          }),
+        ],
+      }),
+    );
+  });
+
   it('sends a newly occurred budget alert even without urgent items', async () => {
     prisma.user.findMany.mockResolvedValueOnce([
       {
@@ -1,10 +1,14 @@
 import { Injectable, Logger, Optional } from '@nestjs/common';
 import { randomUUID } from 'crypto';
-import { NotificationType } from '../../prisma/generated/prisma/client';
+import {
+  ExpiryKind,
+  NotificationType,
+} from '../../prisma/generated/prisma/client';
 import { EmailService } from '../email/email.service';
 import type { WeeklyProductDigestItem } from '../email/email.templates';
 import { ObservabilityService } from '../observability/observability.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { resolveScopeUserId } from '../household/household-scope';
 
 const USER_BATCH_SIZE = 100;
 const ITEM_LIMIT = 5;
@@ -151,12 +155,19 @@ export class DailyProductDigestService {
   ): Promise<[WeeklyProductDigestItem[], number, { message: string } | null]> {
     const limit = new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
     const since = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    // Stock partagé du foyer, alerte budget propre à l'utilisateur
+    const scopeUserId = await resolveScopeUserId(this.prisma, userId);
     const [candidates, budgetNotification] = await Promise.all([
       this.prisma.inventoryItem.findMany({
-        where: { userId, expiryDate: { not: null, lte: limit } },
+        where: {
+          userId: scopeUserId,
+          expiryDate: { not: null, lte: limit },
+          deletedAt: null,
+        },
         select: {
           quantity: true,
           expiryDate: true,
+          expiryKind: true,
           Product: { select: { name: true } },
         },
         orderBy: { expiryDate: 'asc' },
@@ -173,9 +184,13 @@ export class DailyProductDigestService {
         orderBy: { lastOccurredAt: 'desc' },
       }),
     ]);
-    const urgent = candidates.filter(
-      (item) => this.daysUntil(item.expiryDate, now, timeZone) <= 2,
-    );
+    // Une DDM dépassée n'est pas urgente : le produit reste à vérifier
+    const urgent = candidates.filter((item) => {
+      const days = this.daysUntil(item.expiryDate, now, timeZone);
+      return (
+        days <= 2 && (item.expiryKind !== ExpiryKind.BEST_BEFORE || days >= 0)
+      );
+    });
     return [
       urgent.slice(0, ITEM_LIMIT).map((item) => {
         const days = this.daysUntil(item.expiryDate, now, timeZone);
@@ -183,11 +198,15 @@ export class DailyProductDigestService {
           name: item.Product.name,
           quantity: item.quantity,
           detail:
-            days < 0
-              ? `périmé depuis ${Math.abs(days)} jour${Math.abs(days) > 1 ? 's' : ''}`
-              : days === 0
-                ? "expire aujourd'hui"
-                : `expire dans ${days} jour${days > 1 ? 's' : ''}`,
+            item.expiryKind === ExpiryKind.BEST_BEFORE
+              ? days === 0
+                ? "à consommer de préférence aujourd'hui"
+                : `à consommer de préférence dans ${days} jour${days > 1 ? 's' : ''}`
+              : days < 0
+                ? `périmé depuis ${Math.abs(days)} jour${Math.abs(days) > 1 ? 's' : ''}`
+                : days === 0
+                  ? "expire aujourd'hui"
+                  : `expire dans ${days} jour${days > 1 ? 's' : ''}`,
         };
       }),
       urgent.length,
@@ -160,7 +160,9 @@ export class NotificationDeliveryService {
         ? preferences?.expiry
         : delivery.Notification.type === NotificationType.BUDGET
           ? preferences?.budget
-          : preferences?.system;
+          : delivery.Notification.type === NotificationType.LOW_STOCK
+            ? preferences?.lowStock
+            : preferences?.system;
 
     if (!preferences?.emailEnabled || !typeEnabled) {
       await this.markTerminal(
@@ -327,7 +329,8 @@ export class NotificationDeliveryService {
     ).replace(/\/$/, '');
     const path = referenceType?.startsWith('budget:')
       ? '/app/budget'
-      : referenceType === 'inventory_item'
+      : referenceType === 'inventory_item' ||
+          referenceType === 'product_stock_level'
         ? '/app/inventory'
         : '/app/notifications';
     return `${baseUrl}${path}`;
@@ -7,6 +7,14 @@ describe('NotificationService', () => {
     },
     inventoryItem: {
       findMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    productStockLevel: {
+      findMany: jest.fn(),
+    },
+    householdMember: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
     },
     budget: {
       findFirst: jest.fn(),
@@ -35,6 +43,8 @@ describe('NotificationService', () => {
     prisma.user.findUnique.mockResolvedValue(null);
     prisma.notification.deleteMany.mockResolvedValue({ count: 0 });
     prisma.notificationPreferences.findUnique.mockResolvedValue(null);
+    prisma.productStockLevel.findMany.mockResolvedValue([]);
+    prisma.householdMember.findMany.mockResolvedValue([]);
     service = new NotificationService(prisma as any);
   });
 
@@ -83,6 +93,35 @@ describe('NotificationService', () => {
     });
   });
 
+  it('asks to check a product past its best-before date instead of flagging it expired', async () => {
+    prisma.inventoryItem.findMany.mockResolvedValue([
+      {
+        id: 'item-1',
+        expiryDate: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+        expiryKind: 'BEST_BEFORE',
+        Product: { name: 'Riz basmati' },
+      },
+    ]);
+    prisma.notification.findUnique.mockResolvedValue(null);
+    prisma.notification.upsert.mockImplementation(({ create }) =>
+      Promise.resolve(create),
+    );
+
+    await service.synchronizeExpiryNotifications('user-1');
+
+    expect(prisma.notification.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          type: 'EXPIRY',
+          title: 'Produit à vérifier',
+          message: expect.stringContaining(
+            'Riz basmati a dépassé sa date de durabilité minimale',
+          ),
+        }),
+      }),
+    );
+  });
+
   it('generates every expiry alert beyond the previous limit of 20', async () => {
     const items = Array.from({ length: 25 }, (_, index) => ({
       id: `item-${index}`,
@@ -464,6 +503,144 @@ describe('NotificationService', () => {
     );
   });
 
+  it('alerts when the summed quantity of a product drops below its minimum', async () => {
+    prisma.productStockLevel.findMany.mockResolvedValue([
+      {
+        productId: 'product-milk',
+        minimumQuantity: 2,
+        Product: { name: 'Lait demi-écrémé' },
+      },
+      {
+        productId: 'product-coffee',
+        minimumQuantity: 1,
+        Product: { name: 'Café moulu' },
+      },
+    ]);
+    prisma.inventoryItem.groupBy.mockResolvedValue([
+      { productId: 'product-milk', _sum: { quantity: 1.5 } },
+      { productId: 'product-coffee', _sum: { quantity: 3 } },
+    ]);
+    prisma.notification.findUnique.mockResolvedValue(null);
+    prisma.notification.upsert.mockImplementation(({ create }) =>
+      Promise.resolve(create),
+    );
+    prisma.notification.findMany.mockResolvedValue([
+      {
+        id: 'notification-eggs',
+        referenceId: 'product-eggs',
+        referenceType: 'product_stock_level',
+      },
+    ]);
+
+    await service.synchronizeLowStockNotifications('user-1');
+
+    expect(prisma.inventoryItem.groupBy).toHaveBeenCalledWith({
+      by: ['productId'],
+      where: {
+        userId: 'user-1',
+        productId: { in: ['product-milk', 'product-coffee'] },
+        deletedAt: null,
+      },
+      _sum: { quantity: true },
+    });
+    expect(prisma.notification.upsert).toHaveBeenCalledTimes(1);
+    expect(prisma.notification.upsert).toHaveBeenCalledWith({
+      where: { deduplicationKey: expect.stringMatching(/^[a-f0-9]{32}$/) },
+      create: expect.objectContaining({
+        type: 'LOW_STOCK',
+        title: 'Stock bas',
+        message: 'Il reste 1,5 Lait demi-écrémé pour un minimum de 2.',
+        referenceId: 'product-milk',
+        referenceType: 'product_stock_level',
+      }),
+      update: expect.any(Object),
+    });
+    expect(prisma.notification.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['notification-eggs'] }, userId: 'user-1' },
+      data: {
+        resolvedAt: expect.any(Date),
+        isRead: true,
+        updatedAt: expect.any(Date),
+      },
+    });
+  });
+
+  it('alerts every household member working on the shared stock', async () => {
+    prisma.user.findUnique.mockImplementation(({ where, select }) =>
+      Promise.resolve(
+        select.activeHouseholdId
+          ? {
+              activeHouseholdId:
+                where.id === 'owner-1' ? null : `household-${where.id}`,
+            }
+          : null,
+      ),
+    );
+    prisma.householdMember.findMany.mockResolvedValue([
+      {
+        userId: 'member-1',
+        householdId: 'household-member-1',
+        User: { activeHouseholdId: 'household-member-1' },
+      },
+      {
+        userId: 'member-2',
+        householdId: 'household-owner-1',
+        User: { activeHouseholdId: 'household-elsewhere' },
+      },
+    ]);
+    prisma.householdMember.findUnique.mockResolvedValue({
+      Household: { ownerId: 'owner-1' },
+    });
+    prisma.inventoryItem.findMany.mockResolvedValue([
+      {
+        id: 'item-1',
+        expiryDate: new Date(),
+        Product: { name: 'Yaourt nature' },
+      },
+    ]);
+    prisma.notification.findUnique.mockResolvedValue(null);
+    prisma.notification.upsert.mockImplementation(({ create }) =>
+      Promise.resolve(create),
+    );
+
+    await service.synchronizeExpiryNotifications('owner-1');
+
+    expect(prisma.householdMember.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: { not: 'owner-1' },
+          Household: { ownerId: 'owner-1' },
+        },
+      }),
+    );
+    expect(prisma.inventoryItem.findMany).toHaveBeenCalledTimes(2);
+    for (const [query] of prisma.inventoryItem.findMany.mock.calls) {
+      expect(query.where.userId).toBe('owner-1');
+    }
+    expect(
+      prisma.notification.upsert.mock.calls.map(
+        ([{ create }]) => create.userId,
+      ),
+    ).toEqual(['owner-1', 'member-1']);
+  });
+
+  it('skips low stock alerts when the category is disabled', async () => {
+    prisma.notificationPreferences.findUnique.mockResolvedValue({
+      inAppEnabled: true,
+      emailEnabled: false,
+      pushEnabled: false,
+      expiry: true,
+      budget: true,
+      lowStock: false,
+      system: true,
+    });
+
+    await service.synchronizeLowStockNotifications('user-1');
+
+    expect(prisma.productStockLevel.findMany).not.toHaveBeenCalled();
+    expect(prisma.notification.upsert).not.toHaveBeenCalled();
+  });
+
   it('computes calendar days in the user timezone across daylight saving time', () => {
     jest.useFakeTimers().setSystemTime(new Date('2026-03-29T22:30:00.000Z'));
 
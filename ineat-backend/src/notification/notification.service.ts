@@ -6,10 +6,12 @@ import {
 } from '@nestjs/common';
 import { createHash, randomUUID } from 'crypto';
 import {
+  ExpiryKind,
   Notification,
   NotificationType,
 } from '../../prisma/generated/prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { resolveScopeUserId } from '../household/household-scope';
 import { ObservabilityService } from '../observability/observability.service';
 import { NotificationDeliveryService } from './notification-delivery.service';
 
@@ -43,6 +45,7 @@ export type NotificationPreferences = {
   dailyDigestEnabled: boolean;
   expiry: boolean;
   budget: boolean;
+  lowStock: boolean;
   system: boolean;
 };
 
@@ -54,6 +57,7 @@ const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
   dailyDigestEnabled: false,
   expiry: true,
   budget: true,
+  lowStock: true,
   system: true,
 };
 
@@ -141,6 +145,7 @@ export class NotificationService {
         dailyDigestEnabled: true,
         expiry: true,
         budget: true,
+        lowStock: true,
         system: true,
       },
     });
@@ -189,6 +194,7 @@ export class NotificationService {
         dailyDigestEnabled: true,
         expiry: true,
         budget: true,
+        lowStock: true,
         system: true,
       },
     });
@@ -207,19 +213,33 @@ export class NotificationService {
 
   async synchronizeUser(userId: string): Promise<void> {
     await Promise.all([
-      this.synchronizeExpiryNotifications(userId),
+      this.syncExpiryNotifications(userId),
       this.synchronizeBudgetNotifications(userId),
+      this.syncLowStockNotifications(userId),
     ]);
   }
 
-  async synchronizeExpiryNotifications(userId: string): Promise<void> {
-    await this.syncExpiryNotifications(userId);
+  /**
+   * Le stock d'un foyer est rangé sous l'identifiant de son propriétaire
+   * (`scopeUserId`) : les alertes sont recalculées pour chaque membre qui
+   * travaille sur ce foyer.
+   */
+  async synchronizeExpiryNotifications(scopeUserId: string): Promise<void> {
+    for (const userId of await this.getStockRecipientIds(scopeUserId)) {
+      await this.syncExpiryNotifications(userId);
+    }
   }
 
   async synchronizeBudgetNotifications(userId: string): Promise<void> {
     await this.syncBudgetNotifications(userId);
   }
 
+  async synchronizeLowStockNotifications(scopeUserId: string): Promise<void> {
+    for (const userId of await this.getStockRecipientIds(scopeUserId)) {
+      await this.syncLowStockNotifications(userId);
+    }
+  }
+
   async markAsRead(
     userId: string,
     notificationId: string,
@@ -288,6 +308,7 @@ export class NotificationService {
       return;
     }
 
+    const scopeUserId = await resolveScopeUserId(this.prisma, userId);
     const timeZone = await this.getUserTimeZone(userId);
     const limitDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
 
@@ -300,11 +321,12 @@ export class NotificationService {
     do {
       const items = await this.prisma.inventoryItem.findMany({
         where: {
-          userId,
+          userId: scopeUserId,
           expiryDate: {
             not: null,
             lte: limitDate,
           },
+          deletedAt: null,
         },
         include: { Product: true },
         orderBy: [{ expiryDate: 'asc' }, { id: 'asc' }],
@@ -323,20 +345,15 @@ export class NotificationService {
             referenceType: 'inventory_item',
           });
           const productName = item.Product?.name ?? 'Un produit';
+          const alert =
+            item.expiryKind === ExpiryKind.BEST_BEFORE
+              ? this.describeBestBeforeAlert(productName, days)
+              : this.describeUseByAlert(productName, days);
 
           return this.createOrUpdateNotification({
             userId,
             type: NotificationType.EXPIRY,
-            title:
-              days < 0
-                ? 'Produit périmé'
-                : days <= 2
-                  ? 'Produit à consommer très vite'
-                  : 'Produit bientôt périmé',
-            message:
-              days < 0
-                ? `${productName} est périmé depuis ${Math.abs(days)} jour${Math.abs(days) > 1 ? 's' : ''}.`
-                : `${productName} expire dans ${days} jour${days > 1 ? 's' : ''}.`,
+            ...alert,
             referenceId: item.id,
             referenceType: 'inventory_item',
           });
@@ -356,6 +373,45 @@ export class NotificationService {
     );
   }
 
+  /**
+   * DLC : passé la date, le produit ne doit plus être consommé
+   */
+  private describeUseByAlert(
+    productName: string,
+    days: number,
+  ): { title: string; message: string } {
+    return {
+      title:
+        days < 0
+          ? 'Produit périmé'
+          : days <= 2
+            ? 'Produit à consommer très vite'
+            : 'Produit bientôt périmé',
+      message:
+        days < 0
+          ? `${productName} est périmé depuis ${Math.abs(days)} jour${Math.abs(days) > 1 ? 's' : ''}.`
+          : `${productName} expire dans ${days} jour${days > 1 ? 's' : ''}.`,
+    };
+  }
+
+  /**
+   * DDM : passé la date, le produit reste consommable après vérification
+   */
+  private describeBestBeforeAlert(
+    productName: string,
+    days: number,
+  ): { title: string; message: string } {
+    return days < 0
+      ? {
+          title: 'Produit à vérifier',
+          message: `${productName} a dépassé sa date de durabilité minimale depuis ${Math.abs(days)} jour${Math.abs(days) > 1 ? 's' : ''} : vérifiez son aspect et son odeur avant de le consommer.`,
+        }
+      : {
+          title: 'À consommer de préférence bientôt',
+          message: `${productName} est à consommer de préférence dans ${days} jour${days > 1 ? 's' : ''}.`,
+        };
+  }
+
   private async syncBudgetNotifications(userId: string): Promise<void> {
     if (!(await this.isInAppTypeEnabled(userId, NotificationType.BUDGET))) {
       await this.resolveMissingNotifications(
@@ -438,6 +494,77 @@ export class NotificationService {
     ]);
   }
 
+  /**
+   * Alerte quand la quantité cumulée de tous les lots d'un produit passe sous
+   * le stock minimum défini par l'utilisateur. L'alerte est résolue dès que
+   * le stock remonte ou que le seuil est retiré.
+   */
+  private async syncLowStockNotifications(userId: string): Promise<void> {
+    if (!(await this.isInAppTypeEnabled(userId, NotificationType.LOW_STOCK))) {
+      await this.resolveMissingNotifications(
+        userId,
+        NotificationType.LOW_STOCK,
+        [],
+      );
+      return;
+    }
+
+    const scopeUserId = await resolveScopeUserId(this.prisma, userId);
+    const stockLevels = await this.prisma.productStockLevel.findMany({
+      where: { userId: scopeUserId },
+      include: { Product: { select: { name: true } } },
+    });
+    const activeReferences: Array<{
+      referenceId: string;
+      referenceType: string;
+    }> = [];
+
+    if (stockLevels.length > 0) {
+      const quantities = await this.prisma.inventoryItem.groupBy({
+        by: ['productId'],
+        where: {
+          userId: scopeUserId,
+          productId: { in: stockLevels.map((level) => level.productId) },
+          deletedAt: null,
+        },
+        _sum: { quantity: true },
+      });
+      const quantityByProductId = new Map(
+        quantities.map((row) => [row.productId, row._sum.quantity ?? 0]),
+      );
+
+      for (const level of stockLevels) {
+        const quantity = quantityByProductId.get(level.productId) ?? 0;
+        if (quantity >= level.minimumQuantity) {
+          continue;
+        }
+
+        activeReferences.push({
+          referenceId: level.productId,
+          referenceType: 'product_stock_level',
+        });
+        await this.createOrUpdateNotification({
+          userId,
+          type: NotificationType.LOW_STOCK,
+          title: quantity <= 0 ? 'Produit épuisé' : 'Stock bas',
+          message: `Il reste ${this.formatQuantity(quantity)} ${level.Product.name} pour un minimum de ${this.formatQuantity(level.minimumQuantity)}.`,
+          referenceId: level.productId,
+          referenceType: 'product_stock_level',
+        });
+      }
+    }
+
+    await this.resolveMissingNotifications(
+      userId,
+      NotificationType.LOW_STOCK,
+      activeReferences,
+    );
+  }
+
+  private formatQuantity(quantity: number): string {
+    return Number(Math.max(quantity, 0).toFixed(2)).toLocaleString('fr-FR');
+  }
+
   private async createOrUpdateNotification(
     data: CreateOrUpdateNotificationInput,
   ): Promise<Notification> {
@@ -515,7 +642,9 @@ export class NotificationService {
         ? preferences.expiry
         : type === NotificationType.BUDGET
           ? preferences.budget
-          : preferences.system;
+          : type === NotificationType.LOW_STOCK
+            ? preferences.lowStock
+            : preferences.system;
 
     return (
       (preferences.inAppEnabled ||
@@ -584,6 +713,31 @@ export class NotificationService {
     return result.count;
   }
 
+  /**
+   * Utilisateurs dont le foyer actif partage le stock rangé sous
+   * `scopeUserId`, propriétaire compris s'il y travaille lui-même.
+   */
+  private async getStockRecipientIds(scopeUserId: string): Promise<string[]> {
+    const members = await this.prisma.householdMember.findMany({
+      where: {
+        userId: { not: scopeUserId },
+        Household: { ownerId: scopeUserId },
+      },
+      select: {
+        userId: true,
+        householdId: true,
+        User: { select: { activeHouseholdId: true } },
+      },
+    });
+    const recipientIds = members
+      .filter((member) => member.User.activeHouseholdId === member.householdId)
+      .map((member) => member.userId);
+
+    return (await resolveScopeUserId(this.prisma, scopeUserId)) === scopeUserId
+      ? [scopeUserId, ...recipientIds]
+      : recipientIds;
+  }
+
   private async getUserTimeZone(userId: string): Promise<string> {
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
@@ -2,7 +2,8 @@ import { WeeklyProductDigestService } from './weekly-product-digest.service';
 
 describe('WeeklyProductDigestService', () => {
   const prisma = {
-    user: { findMany: jest.fn() },
+    user: { findMany: jest.fn(), findUnique: jest.fn() },
+    householdMember: { findUnique: jest.fn() },
     inventoryItem: { findMany: jest.fn(), count: jest.fn() },
     budget: { findFirst: jest.fn() },
     emailDigestDelivery: {
@@ -16,6 +17,7 @@ describe('WeeklyProductDigestService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     prisma.user.findMany.mockResolvedValue([]);
+    prisma.user.findUnique.mockResolvedValue({ activeHouseholdId: null });
     prisma.inventoryItem.findMany.mockResolvedValue([]);
     prisma.inventoryItem.count.mockResolvedValue(0);
     prisma.budget.findFirst.mockResolvedValue(null);
@@ -80,6 +82,112 @@ describe('WeeklyProductDigestService', () => {
     );
   });
 
+  it("covers the household's shared stock and the member's own budget", async () => {
+    prisma.user.findMany.mockResolvedValueOnce([
+      {
+        id: 'member-1',
+        email: 'member@example.com',
+        firstName: 'Grace',
+        preferences: { timeZone: 'Europe/Paris' },
+        NotificationPreferences: { weeklyDigestEnabled: true },
+      },
+    ]);
+    prisma.user.findUnique.mockResolvedValueOnce({
+      activeHouseholdId: 'household-1',
+    });
+    prisma.householdMember.findUnique.mockResolvedValueOnce({
+      Household: { ownerId: 'owner-1' },
+    });
+    prisma.inventoryItem.findMany
+      .mockResolvedValueOnce([
+        {
+          quantity: 2,
+          expiryDate: new Date('2026-08-03T12:00:00.000Z'),
+          Product: { name: 'Yaourts' },
+        },
+      ])
+      .mockResolvedValueOnce([]);
+    const service = new WeeklyProductDigestService(
+      prisma as any,
+      email as any,
+    );
+
+    await service.sendDueDigests(new Date('2026-08-02T16:15:00.000Z'));
+
+    expect(prisma.inventoryItem.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ userId: 'owner-1' }),
+      }),
+    );
+    expect(prisma.inventoryItem.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ userId: 'owner-1' }),
+    });
+    expect(prisma.budget.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ userId: 'member-1' }),
+      }),
+    );
+    expect(email.sendWeeklyProductDigest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'member@example.com',
+        userId: 'member-1',
+        totals: expect.objectContaining({ expiringSoon: 1 }),
+      }),
+    );
+  });
+
+  it('lists past best-before dates as items to check rather than expired', async () => {
+    prisma.user.findMany.mockResolvedValueOnce([
+      {
+        id: 'user-1',
+        email: 'user@example.com',
+        firstName: 'Ada',
+        preferences: { timeZone: 'Europe/Paris' },
+        NotificationPreferences: { weeklyDigestEnabled: true },
+      },
+    ]);
+    prisma.inventoryItem.findMany
+      .mockResolvedValueOnce([
+        {
+          quantity: 1,
+          expiryDate: new Date('2026-07-28T12:00:00.000Z'),
+          expiryKind: 'BEST_BEFORE',
+          Product: { name: 'Riz' },
+        },
+        {
+          quantity: 1,
+          expiryDate: new Date('2026-07-31T12:00:00.000Z'),
+          expiryKind: 'USE_BY',
+          Product: { name: 'Steak haché' },
+        },
+      ])
+      .mockResolvedValueOnce([]);
+    const service = new WeeklyProductDigestService(
+      prisma as any,
+      email as any,
+    );
+
+    await service.sendDueDigests(new Date('2026-08-02T16:15:00.000Z'));
+
+    expect(email.sendWeeklyProductDigest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        expired: [
+          expect.objectContaining({
+            name: 'Steak haché',
+            detail: 'périmé depuis 2 jours',
+          }),
+        ],
+        toCheck: [
+          expect.objectContaining({
+            name: 'Riz',
+            detail: 'DDM dépassée depuis 5 jours',
+          }),
+        ],
+        totals: expect.objectContaining({ expired: 1, toCheck: 1 }),
+      }),
+    );
+  });
+
   it('does not send outside the Sunday 18:00 local window', async () => {
     prisma.user.findMany.mockResolvedValueOnce([
       {
@@ -1,9 +1,11 @@
 import { Injectable, Logger, Optional } from '@nestjs/common';
 import { randomUUID } from 'crypto';
+import { ExpiryKind } from '../../prisma/generated/prisma/client';
 import { EmailService } from '../email/email.service';
 import type { WeeklyProductDigestItem } from '../email/email.templates';
 import { ObservabilityService } from '../observability/observability.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { resolveScopeUserId } from '../household/household-scope';
 
 const USER_BATCH_SIZE = 100;
 const ITEM_LIMIT = 5;
@@ -12,9 +14,15 @@ const DEFAULT_TIME_ZONE = 'Europe/Paris';
 
 type DigestContent = {
   expired: WeeklyProductDigestItem[];
+  toCheck: WeeklyProductDigestItem[];
   expiringSoon: WeeklyProductDigestItem[];
   recentlyAdded: WeeklyProductDigestItem[];
-  totals: { expired: number; expiringSoon: number; recentlyAdded: number };
+  totals: {
+    expired: number;
+    toCheck: number;
+    expiringSoon: number;
+    recentlyAdded: number;
+  };
   budget?: { spent: number; amount: number; remaining: number; percentage: number };
 };
 
@@ -165,19 +173,30 @@ export class WeeklyProductDigestService {
   ): Promise<DigestContent> {
     const weekAgo = new Date(now.getTime() - WEEK_MS);
     const expiryLimit = new Date(now.getTime() + 8 * 24 * 60 * 60 * 1000);
+    // Stock partagé du foyer, budget propre à l'utilisateur
+    const scopeUserId = await resolveScopeUserId(this.prisma, userId);
     const [expiryCandidates, recentItems, recentCount, budget] =
       await Promise.all([
         this.prisma.inventoryItem.findMany({
-          where: { userId, expiryDate: { not: null, lte: expiryLimit } },
+          where: {
+            userId: scopeUserId,
+            expiryDate: { not: null, lte: expiryLimit },
+            deletedAt: null,
+          },
           select: {
             quantity: true,
             expiryDate: true,
+            expiryKind: true,
             Product: { select: { name: true } },
           },
           orderBy: { expiryDate: 'asc' },
         }),
         this.prisma.inventoryItem.findMany({
-          where: { userId, createdAt: { gte: weekAgo, lte: now } },
+          where: {
+            userId: scopeUserId,
+            createdAt: { gte: weekAgo, lte: now },
+            deletedAt: null,
+          },
           select: {
             quantity: true,
             createdAt: true,
@@ -187,7 +206,11 @@ export class WeeklyProductDigestService {
           take: ITEM_LIMIT,
         }),
         this.prisma.inventoryItem.count({
-          where: { userId, createdAt: { gte: weekAgo, lte: now } },
+          where: {
+            userId: scopeUserId,
+            createdAt: { gte: weekAgo, lte: now },
+            deletedAt: null,
+          },
         }),
         this.prisma.budget.findFirst({
           where: {
@@ -204,9 +227,16 @@ export class WeeklyProductDigestService {
         }),
       ]);
 
-    const expiredCandidates = expiryCandidates.filter(
+    // Une DDM dépassée n'est pas un produit périmé : il est à vérifier
+    const pastCandidates = expiryCandidates.filter(
       (item) => this.daysUntil(item.expiryDate, now, timeZone) < 0,
     );
+    const expiredCandidates = pastCandidates.filter(
+      (item) => item.expiryKind !== ExpiryKind.BEST_BEFORE,
+    );
+    const toCheckCandidates = pastCandidates.filter(
+      (item) => item.expiryKind === ExpiryKind.BEST_BEFORE,
+    );
     const expiringCandidates = expiryCandidates.filter((item) => {
       const days = this.daysUntil(item.expiryDate, now, timeZone);
       return days >= 0 && days <= 7;
@@ -217,17 +247,24 @@ export class WeeklyProductDigestService {
         name: item.Product.name,
         quantity: item.quantity,
         detail:
-          days < 0
-            ? `périmé depuis ${Math.abs(days)} jour${Math.abs(days) > 1 ? 's' : ''}`
-            : days === 0
-              ? "expire aujourd'hui"
-              : `expire dans ${days} jour${days > 1 ? 's' : ''}`,
+          item.expiryKind === ExpiryKind.BEST_BEFORE
+            ? days < 0
+              ? `DDM dépassée depuis ${Math.abs(days)} jour${Math.abs(days) > 1 ? 's' : ''}`
+              : days === 0
+                ? "à consommer de préférence aujourd'hui"
+                : `à consommer de préférence dans ${days} jour${days > 1 ? 's' : ''}`
+            : days < 0
+              ? `périmé depuis ${Math.abs(days)} jour${Math.abs(days) > 1 ? 's' : ''}`
+              : days === 0
+                ? "expire aujourd'hui"
+                : `expire dans ${days} jour${days > 1 ? 's' : ''}`,
       };
     };
     const spent = budget?.Expense.reduce((sum, expense) => sum + expense.amount, 0);
 
     return {
       expired: expiredCandidates.slice(0, ITEM_LIMIT).map(mapExpiry),
+      toCheck: toCheckCandidates.slice(0, ITEM_LIMIT).map(mapExpiry),
       expiringSoon: expiringCandidates.slice(0, ITEM_LIMIT).map(mapExpiry),
       recentlyAdded: recentItems.map((item) => ({
         name: item.Product.name,
@@ -236,6 +273,7 @@ export class WeeklyProductDigestService {
       })),
       totals: {
         expired: expiredCandidates.length,
+        toCheck: toCheckCandidates.length,
         expiringSoon: expiringCandidates.length,
         recentlyAdded: recentCount,
       },
@@ -256,6 +294,7 @@ export class WeeklyProductDigestService {
   private hasContent(content: DigestContent): boolean {
     return Boolean(
       content.totals.expired ||
+        content.totals.toCheck ||
         content.totals.expiringSoon ||
         content.totals.recentlyAdded ||
         content.budget,
@@ -144,6 +144,24 @@ export class ProductSearchResultDto {
   @IsString()
   imageUrl?: string | null;
 
+  @ApiPropertyOptional({
+    description: 'Liste des ingrédients du produit',
+    example: 'Lait entier, ferments lactiques',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  ingredients?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Allergènes OpenFoodFacts du produit',
+    example: ['en:milk'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  allergens?: string[];
+
   @ApiProperty({
     description: 'Type d\'unité du produit',
     enum: UnitType,
@@ -26,6 +26,8 @@ describe('ProductsService', () => {
         ecoscore: 'A',
         novascore: 'GROUP_1',
         imageUrl: 'https://example.com/lait.jpg',
+        ingredients: 'Lait entier',
+        allergens: ['en:milk'],
         Category: {
           id: 'category-1',
           name: 'Produits laitiers',
@@ -47,6 +49,8 @@ describe('ProductsService', () => {
       expect.objectContaining({
         id: 'product-1',
         name: 'Lait entier',
+        ingredients: 'Lait entier',
+        allergens: ['en:milk'],
         category: {
           id: 'category-1',
           name: 'Produits laitiers',
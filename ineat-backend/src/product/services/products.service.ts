@@ -122,6 +122,8 @@ export class ProductsService {
       ecoscore: product.ecoscore,
       novascore: product.novascore,
       imageUrl: product.imageUrl,
+      ingredients: product.ingredients,
+      allergens: product.allergens,
       unitType: product.unitType,
       barcode: product.barcode,
       category: {
@@ -4,12 +4,18 @@ import {
   IsBoolean,
   IsEnum,
   IsInt,
+  IsNumber,
   IsObject,
   IsOptional,
   IsString,
   Max,
+  MaxLength,
   Min,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+import { UnitType } from '../../inventory/dto/add-manual-product.dto';
+import { QuantityUnit } from '../../inventory/services/unit-conversion.service';
 
 export enum GeneratedRecipeTypeDto {
   STARTER = 'STARTER',
@@ -46,7 +52,14 @@ export class GenerateRecipesDto {
 export class RecipeIngredientPayloadDto {
   name: string;
   quantity?: number | null;
+  /** Libellé affiché de l'unité (« g », « c. à soupe »...) */
   unit?: string | null;
+  /** Unité normalisée de `quantity`, déduite de `unit` si absente */
+  @IsOptional()
+  @IsEnum(UnitType, {
+    message: "L'unité de l'ingrédient doit être KG, G, L, ML ou UNIT",
+  })
+  unitType?: QuantityUnit | null;
   source: 'INVENTORY' | 'BASIC' | 'MISSING';
   productId?: string | null;
 }
@@ -71,14 +84,57 @@ export class SaveGeneratedRecipeDto {
   recipe: GeneratedRecipePayloadDto;
 }
 
+export class CompleteRecipeItemDto {
+  @IsString()
+  inventoryItemId: string;
+
+  /** Quantité retirée du lot, dans l'unité du produit */
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.001)
+  quantity: number;
+}
+
+export class RecipeLeftoversDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  portions: number;
+
+  @IsString()
+  @MaxLength(50)
+  storageLocation: string;
+}
+
 export class CompleteRecipeDto {
   @IsBoolean()
   confirm: boolean;
 
+  /** Portions réellement cuisinées, pour ajuster les quantités proposées */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  servings?: number;
+
+  /** Quantités à retirer lot par lot (prioritaires sur inventoryItemIds) */
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CompleteRecipeItemDto)
+  items?: CompleteRecipeItemDto[];
+
   @IsOptional()
   @IsArray()
   @IsString({ each: true })
   inventoryItemIds?: string[];
+
+  /** Restes à ranger dans l'inventaire comme un lot cuit */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RecipeLeftoversDto)
+  leftovers?: RecipeLeftoversDto;
 }
 
 export class UpdateRecipeFavoriteDto {
@@ -5,8 +5,10 @@ import {
   HttpCode,
   HttpStatus,
   Param,
+  ParseIntPipe,
   Patch,
   Post,
+  Query,
   Req,
   UseGuards,
   ValidationPipe,
@@ -16,6 +18,10 @@ import { Request } from 'express';
 import { RequiresCapability } from '../auth/decorators/requires-capability.decorator';
 import { CapabilityGuard } from '../auth/guards/capability.guard';
 import { SessionAuthGuard } from '../auth/guards/session-auth.guard';
+import {
+  getScopeUserId,
+  HouseholdScopedUser,
+} from '../household/household-scope';
 import {
   CompleteRecipeDto,
   GenerateRecipesDto,
@@ -25,9 +31,7 @@ import {
 import { RecipeService } from './services/recipe.service';
 
 interface AuthenticatedRequest extends Request {
-  user: {
-    id: string;
-  };
+  user: HouseholdScopedUser;
 }
 
 @ApiTags('Recipes')
@@ -46,7 +50,11 @@ export class RecipeController {
     @Body(new ValidationPipe({ transform: true, whitelist: true }))
     dto: GenerateRecipesDto,
   ) {
-    return this.recipeService.generate(req.user.id, dto);
+    return this.recipeService.generate(
+      req.user.id,
+      dto,
+      getScopeUserId(req.user),
+    );
   }
 
   @Post()
@@ -56,17 +64,20 @@ export class RecipeController {
     @Body(new ValidationPipe({ transform: true, whitelist: true }))
     dto: SaveGeneratedRecipeDto,
   ) {
-    return this.recipeService.saveGeneratedRecipe(req.user.id, dto);
+    return this.recipeService.saveGeneratedRecipe(
+      getScopeUserId(req.user),
+      dto,
+    );
   }
 
   @Get()
   listSavedRecipes(@Req() req: AuthenticatedRequest) {
-    return this.recipeService.listSavedRecipes(req.user.id);
+    return this.recipeService.listSavedRecipes(getScopeUserId(req.user));
   }
 
   @Get(':id')
   getSavedRecipe(@Req() req: AuthenticatedRequest, @Param('id') id: string) {
-    return this.recipeService.getSavedRecipe(req.user.id, id);
+    return this.recipeService.getSavedRecipe(getScopeUserId(req.user), id);
   }
 
   @Patch(':id/favorite')
@@ -76,15 +87,24 @@ export class RecipeController {
     @Body(new ValidationPipe({ transform: true, whitelist: true }))
     dto: UpdateRecipeFavoriteDto,
   ) {
-    return this.recipeService.updateFavorite(req.user.id, id, dto.isFavorite);
+    return this.recipeService.updateFavorite(
+      getScopeUserId(req.user),
+      id,
+      dto.isFavorite,
+    );
   }
 
   @Get(':id/completion-preview')
   getCompletionPreview(
     @Req() req: AuthenticatedRequest,
     @Param('id') id: string,
+    @Query('servings', new ParseIntPipe({ optional: true })) servings?: number,
   ) {
-    return this.recipeService.getCompletionPreview(req.user.id, id);
+    return this.recipeService.getCompletionPreview(
+      getScopeUserId(req.user),
+      id,
+      servings,
+    );
   }
 
   @Post(':id/complete')
@@ -96,10 +116,15 @@ export class RecipeController {
     dto: CompleteRecipeDto,
   ) {
     return this.recipeService.completeRecipe(
-      req.user.id,
+      getScopeUserId(req.user),
       id,
       dto.confirm,
-      dto.inventoryItemIds,
+      {
+        servings: dto.servings,
+        items: dto.items,
+        inventoryItemIds: dto.inventoryItemIds,
+        leftovers: dto.leftovers,
+      },
     );
   }
 }
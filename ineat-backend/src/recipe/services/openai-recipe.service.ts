@@ -181,6 +181,7 @@ export class OpenAiRecipeService {
       'Respecte strictement les restrictions alimentaires et allergènes utilisateur.',
       'Ne donne pas de conseils, variantes, nutrition, ni matériel.',
       'Les quantités peuvent être estimées pour le nombre de personnes demandé.',
+      'Exprime les quantités en g, kg, ml, l ou en pièces et renseigne unitType (G, KG, ML, L, UNIT) en cohérence avec quantity ; unitType vaut null pour les quantités non mesurables (pincée, selon le goût).',
     ].join('\n');
   }
 
@@ -207,11 +208,15 @@ export class OpenAiRecipeService {
     const ingredient = {
       type: 'object',
       additionalProperties: false,
-      required: ['name', 'quantity', 'unit', 'source', 'productId'],
+      required: ['name', 'quantity', 'unit', 'unitType', 'source', 'productId'],
       properties: {
         name: { type: 'string' },
         quantity: { type: ['number', 'null'] },
         unit: { type: ['string', 'null'] },
+        unitType: {
+          type: ['string', 'null'],
+          enum: ['KG', 'G', 'L', 'ML', 'UNIT', null],
+        },
         source: { type: 'string', enum: ['INVENTORY', 'BASIC', 'MISSING'] },
         productId: { type: ['string', 'null'] },
       },
@@ -4,6 +4,7 @@ import {
   GeneratedRecipeTypeDto,
   RecipeGenerationModeDto,
 } from '../dto/generate-recipes.dto';
+import { InventoryService } from '../../inventory/services/inventory.service';
 import { RecipeService } from './recipe.service';
 
 const user = {
@@ -68,7 +69,14 @@ const baseGeneratedRecipe = {
 describe('RecipeService', () => {
   let prisma: {
     user: { findUnique: jest.Mock };
-    inventoryItem: { findMany: jest.Mock; deleteMany: jest.Mock };
+    inventoryItem: {
+      findMany: jest.Mock;
+      delete: jest.Mock;
+      update: jest.Mock;
+      create: jest.Mock;
+    };
+    product: { findFirst: jest.Mock; create: jest.Mock };
+    category: { findFirst: jest.Mock };
     recipe: { findFirst: jest.Mock; update: jest.Mock };
     $transaction: jest.Mock;
   };
@@ -80,6 +88,8 @@ describe('RecipeService', () => {
     generateRecipes: jest.Mock;
     generateRecipeImage: jest.Mock;
   };
+  let inventoryMovements: { record: jest.Mock };
+  let inventoryService: InventoryService;
   let service: RecipeService;
 
   beforeEach(() => {
@@ -87,8 +97,12 @@ describe('RecipeService', () => {
       user: { findUnique: jest.fn().mockResolvedValue(user) },
       inventoryItem: {
         findMany: jest.fn().mockResolvedValue(inventoryItems),
-        deleteMany: jest.fn(),
+        delete: jest.fn(),
+        update: jest.fn(),
+        create: jest.fn(async ({ data }) => data),
       },
+      product: { findFirst: jest.fn(), create: jest.fn() },
+      category: { findFirst: jest.fn() },
       recipe: {
         findFirst: jest.fn(),
         update: jest.fn(),
@@ -103,11 +117,27 @@ describe('RecipeService', () => {
       generateRecipes: jest.fn(),
       generateRecipeImage: jest.fn(),
     };
+    inventoryMovements = { record: jest.fn() };
+    inventoryService = new InventoryService(
+      prisma as any,
+      {} as any,
+      {} as any,
+      inventoryMovements as any,
+      {} as any,
+      {
+        getStorageGroupResolver: jest
+          .fn()
+          .mockResolvedValue(() => 'fridge' as const),
+      } as any,
+      { getUserRules: jest.fn().mockResolvedValue([]) } as any,
+      { record: jest.fn() } as any,
+    );
     service = new RecipeService(
       prisma as any,
       usageQuotaService as any,
       openAiRecipeService as any,
       {} as any,
+      inventoryService,
     );
   });
 
@@ -198,6 +228,32 @@ describe('RecipeService', () => {
     expect(usageQuotaService.recordSuccessfulUsage).not.toHaveBeenCalled();
   });
 
+  it('refuse une unité d’ingrédient inconnue avant l’enregistrement', async () => {
+    await expect(
+      service.saveGeneratedRecipe('user-1', {
+        recipe: {
+          clientId: 'recipe-1',
+          type: GeneratedRecipeTypeDto.MAIN,
+          name: 'Pâtes au beurre',
+          servings: 2,
+          difficulty: 'EASY',
+          ingredients: [
+            {
+              name: 'Pâtes',
+              quantity: 200,
+              unitType: 'POUND' as any,
+              source: 'INVENTORY',
+            },
+          ],
+          basicIngredients: [],
+          missingIngredients: [],
+          steps: ['Cuire les pâtes'],
+        },
+      }),
+    ).rejects.toThrow(BadRequestException);
+    expect(openAiRecipeService.generateRecipeImage).not.toHaveBeenCalled();
+  });
+
   it('marque une recette appartenant à l’utilisateur comme favorite', async () => {
     const savedRecipe = {
       id: 'recipe-saved',
@@ -247,6 +303,75 @@ describe('RecipeService', () => {
     expect(result.data.isFavorite).toBe(true);
   });
 
+  it('exprime les ingrédients dans l’unité des produits de l’inventaire', async () => {
+    prisma.recipe.findFirst.mockResolvedValue({
+      id: 'recipe-saved',
+      userId: 'user-1',
+      name: 'Pâtes aux oeufs',
+      description: null,
+      type: 'MAIN',
+      preparationTime: 10,
+      cookingTime: 10,
+      servings: 2,
+      difficulty: 'EASY',
+      imageUrl: null,
+      source: 'AI',
+      basicIngredients: [],
+      missingIngredients: [],
+      steps: ['Cuire.'],
+      instructions: 'Cuire.',
+      doneAt: null,
+      isFavorite: false,
+      createdAt: new Date('2026-08-08T12:00:00.000Z'),
+      updatedAt: new Date('2026-08-08T12:00:00.000Z'),
+      RecipeIngredient: [
+        {
+          id: 'ingredient-pasta',
+          name: 'Pâtes',
+          productId: 'product-pasta',
+          quantity: 200,
+          unit: 'g',
+          unitType: 'G',
+          source: 'INVENTORY',
+          Product: { unitType: 'KG', ProductPieceWeight: [] },
+        },
+        {
+          id: 'ingredient-eggs',
+          name: 'Oeufs',
+          productId: 'product-eggs',
+          quantity: 120,
+          unit: 'g',
+          unitType: null,
+          source: 'INVENTORY',
+          Product: {
+            unitType: 'UNIT',
+            ProductPieceWeight: [{ pieceWeight: 60 }],
+          },
+        },
+        {
+          id: 'ingredient-milk',
+          name: 'Lait',
+          productId: 'product-milk',
+          quantity: 100,
+          unit: 'g',
+          unitType: 'G',
+          source: 'INVENTORY',
+          Product: { unitType: 'L', ProductPieceWeight: [] },
+        },
+      ],
+    });
+
+    const result = await service.getSavedRecipe('user-1', 'recipe-saved');
+
+    expect(
+      result.data.ingredients.map((ingredient) => ingredient.inventoryQuantity),
+    ).toEqual([
+      { quantity: 0.2, unitType: 'KG' },
+      { quantity: 2, unitType: 'UNIT' },
+      null,
+    ]);
+  });
+
   it('refuse de modifier une recette inaccessible à l’utilisateur', async () => {
     prisma.recipe.findFirst.mockResolvedValue(null);
 
@@ -292,12 +417,16 @@ describe('RecipeService', () => {
       {
         id: 'inventory-apple',
         productId: 'product-apple',
-        Product: { name: 'Pommes' },
+        quantity: 3,
+        storageLocation: 'placard',
+        Product: { name: 'Pommes', unitType: 'UNIT' },
       },
       {
         id: 'inventory-yogurt',
         productId: 'product-yogurt',
-        Product: { name: 'Yaourt nature' },
+        quantity: 4,
+        storageLocation: 'frigo',
+        Product: { name: 'Yaourt nature', unitType: 'UNIT' },
       },
     ];
 
@@ -313,21 +442,244 @@ describe('RecipeService', () => {
       'user-1',
       'recipe-saved',
       true,
-      ['inventory-apple'],
+      { inventoryItemIds: ['inventory-apple'] },
     );
 
-    expect(prisma.inventoryItem.deleteMany).toHaveBeenCalledWith({
-      where: {
-        userId: 'user-1',
-        id: { in: ['inventory-apple'] },
-      },
+    expect(prisma.inventoryItem.delete).toHaveBeenCalledTimes(1);
+    expect(prisma.inventoryItem.delete).toHaveBeenCalledWith({
+      where: { id: 'inventory-apple' },
     });
+    expect(inventoryMovements.record).toHaveBeenCalledWith(
+      [
+        {
+          userId: 'user-1',
+          productId: 'product-apple',
+          inventoryItemId: 'inventory-apple',
+          recipeId: 'recipe-saved',
+          reason: 'COOKED',
+          quantityDelta: -3,
+          storageLocation: 'placard',
+        },
+      ],
+      prisma,
+    );
     expect(result.data.removedItems).toEqual([
       {
         inventoryItemId: 'inventory-apple',
         productId: 'product-apple',
         name: 'Pommes',
+        unitType: 'UNIT',
+        quantityConsumed: 3,
+        remainingQuantity: 0,
       },
     ]);
   });
+
+  describe('complétion avec quantités partielles', () => {
+    const pastaProduct = {
+      name: 'Pâtes',
+      unitType: 'KG',
+      ProductPieceWeight: [],
+    };
+    const pastaRecipe = {
+      id: 'recipe-pasta',
+      userId: 'user-1',
+      name: 'Pâtes au beurre',
+      description: null,
+      type: 'MAIN',
+      preparationTime: 5,
+      cookingTime: 10,
+      servings: 2,
+      difficulty: 'EASY',
+      imageUrl: null,
+      source: 'AI',
+      basicIngredients: [],
+      missingIngredients: [],
+      steps: ['Cuire.'],
+      instructions: 'Cuire.',
+      doneAt: null,
+      isFavorite: false,
+      createdAt: new Date('2026-10-01T12:00:00.000Z'),
+      updatedAt: new Date('2026-10-01T12:00:00.000Z'),
+      RecipeIngredient: [
+        {
+          id: 'ingredient-pasta',
+          name: 'Pâtes',
+          productId: 'product-pasta',
+          quantity: 200,
+          unit: 'g',
+          unitType: 'G',
+          source: 'INVENTORY',
+          Product: pastaProduct,
+        },
+      ],
+    };
+    const pastaLots = [
+      {
+        id: 'lot-soon',
+        productId: 'product-pasta',
+        quantity: 0.25,
+        expiryDate: new Date('2026-10-20T00:00:00.000Z'),
+        createdAt: new Date('2026-09-01T00:00:00.000Z'),
+        storageLocation: 'placard',
+        Product: pastaProduct,
+      },
+      {
+        id: 'lot-later',
+        productId: 'product-pasta',
+        quantity: 1,
+        expiryDate: new Date('2027-03-01T00:00:00.000Z'),
+        createdAt: new Date('2026-09-15T00:00:00.000Z'),
+        storageLocation: 'placard',
+        Product: pastaProduct,
+      },
+    ];
+
+    beforeEach(() => {
+      prisma.recipe.findFirst.mockResolvedValue(pastaRecipe);
+      prisma.inventoryItem.findMany.mockResolvedValue(pastaLots);
+      prisma.recipe.update.mockResolvedValue({
+        ...pastaRecipe,
+        doneAt: new Date('2026-10-19T20:00:00.000Z'),
+      });
+    });
+
+    it('propose les quantités par lot selon les portions cuisinées', async () => {
+      const result = await service.getCompletionPreview(
+        'user-1',
+        'recipe-pasta',
+        4,
+      );
+
+      expect(result.data.servings).toBe(4);
+      expect(
+        result.data.items.map((item) => [
+          item.inventoryItemId,
+          item.proposedQuantity,
+        ]),
+      ).toEqual([
+        ['lot-soon', 0.25],
+        ['lot-later', 0.15],
+      ]);
+    });
+
+    it('retire seulement les quantités saisies lot par lot', async () => {
+      const result = await service.completeRecipe(
+        'user-1',
+        'recipe-pasta',
+        true,
+        { items: [{ inventoryItemId: 'lot-later', quantity: 0.2 }] },
+      );
+
+      expect(prisma.inventoryItem.delete).not.toHaveBeenCalled();
+      expect(prisma.inventoryItem.update).toHaveBeenCalledWith({
+        where: { id: 'lot-later' },
+        data: { quantity: 0.8, updatedAt: expect.any(Date) },
+      });
+      expect(inventoryMovements.record).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            inventoryItemId: 'lot-later',
+            recipeId: 'recipe-pasta',
+            reason: 'COOKED',
+            quantityDelta: -0.2,
+          }),
+        ],
+        prisma,
+      );
+      expect(result.data.removedItems).toEqual([
+        expect.objectContaining({
+          inventoryItemId: 'lot-later',
+          quantityConsumed: 0.2,
+          remainingQuantity: 0.8,
+        }),
+      ]);
+    });
+
+    it('établit le plan sur les lots relus dans la transaction', async () => {
+      const txFindMany = jest.fn().mockResolvedValue(pastaLots);
+      prisma.$transaction.mockImplementationOnce(async (callback) =>
+        callback({
+          ...prisma,
+          inventoryItem: { ...prisma.inventoryItem, findMany: txFindMany },
+        }),
+      );
+
+      await service.completeRecipe('user-1', 'recipe-pasta', true, {
+        items: [{ inventoryItemId: 'lot-later', quantity: 0.2 }],
+      });
+
+      expect(txFindMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ userId: 'user-1' }),
+        }),
+      );
+      expect(prisma.inventoryItem.findMany).not.toHaveBeenCalled();
+    });
+
+    it('refuse une quantité supérieure au lot', async () => {
+      await expect(
+        service.completeRecipe('user-1', 'recipe-pasta', true, {
+          items: [{ inventoryItemId: 'lot-soon', quantity: 0.5 }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.recipe.update).not.toHaveBeenCalled();
+    });
+
+    it('range les restes comme un lot cuit lié à la recette', async () => {
+      prisma.product.findFirst.mockResolvedValue(null);
+      prisma.category.findFirst.mockResolvedValue({
+        id: 'category-other',
+        slug: 'autres',
+      });
+      prisma.product.create.mockImplementation(async ({ data }) => ({
+        ...data,
+        Category: { slug: 'autres', name: 'Autres' },
+      }));
+
+      const result = await service.completeRecipe(
+        'user-1',
+        'recipe-pasta',
+        true,
+        {
+          items: [],
+          leftovers: { portions: 2, storageLocation: 'Frigo' },
+        },
+      );
+
+      expect(prisma.product.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            name: 'Pâtes au beurre',
+            brand: 'Fait maison',
+            categoryId: 'category-other',
+            unitType: 'UNIT',
+          }),
+        }),
+      );
+      const createdLot = prisma.inventoryItem.create.mock.calls[0][0].data;
+      expect(createdLot).toEqual(
+        expect.objectContaining({
+          recipeId: 'recipe-pasta',
+          quantity: 2,
+          preparationStatus: 'COOKED',
+          storageLocation: 'Frigo',
+          expiryDateSource: 'ESTIMATED',
+        }),
+      );
+      const shelfLifeDays = Math.round(
+        (createdLot.expiryDate.getTime() -
+          Date.UTC(
+            createdLot.purchaseDate.getUTCFullYear(),
+            createdLot.purchaseDate.getUTCMonth(),
+            createdLot.purchaseDate.getUTCDate(),
+          )) /
+          86_400_000,
+      );
+      expect(shelfLifeDays).toBe(3);
+      expect(result.data.leftoversItem).toEqual(
+        expect.objectContaining({ name: 'Pâtes au beurre', quantity: 2 }),
+      );
+    });
+  });
 });
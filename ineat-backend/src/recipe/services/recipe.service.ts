@@ -4,6 +4,8 @@ import {
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import { randomUUID } from 'crypto';
 import {
   Prisma,
@@ -15,11 +17,22 @@ import {
 } from '../../../prisma/generated/prisma/client';
 import { UsageQuotaService } from '../../auth/services/usage-quota.service';
 import { CloudinaryService } from '../../cloudinary/cloudinary.service';
+import { InventoryService } from '../../inventory/services/inventory.service';
+import {
+  convertQuantity,
+  getPieceWeight,
+  isQuantityUnit,
+  normalizeIngredientQuantity,
+  pieceWeightOf,
+  roundQuantity,
+} from '../../inventory/services/unit-conversion.service';
 import { PrismaService } from '../../prisma/prisma.service';
 import {
+  CompleteRecipeDto,
   GenerateRecipesDto,
   GeneratedRecipePayloadDto,
   RecipeGenerationModeDto,
+  RecipeIngredientPayloadDto,
   SaveGeneratedRecipeDto,
 } from '../dto/generate-recipes.dto';
 import {
@@ -41,9 +54,18 @@ export class RecipeService {
     private readonly usageQuotaService: UsageQuotaService,
     private readonly openAiRecipeService: OpenAiRecipeService,
     private readonly cloudinaryService: CloudinaryService,
+    private readonly inventoryService: InventoryService,
   ) {}
 
-  async generate(userId: string, dto: GenerateRecipesDto) {
+  /**
+   * Le quota et les préférences restent ceux de l'utilisateur, l'inventaire
+   * est celui de son foyer actif.
+   */
+  async generate(
+    userId: string,
+    dto: GenerateRecipesDto,
+    scopeUserId = userId,
+  ) {
     const user = await this.getUserForRecipe(userId);
     await this.usageQuotaService.assertCanConsume(
       user,
@@ -55,7 +77,7 @@ export class RecipeService {
         ? 0
         : (dto.extraIngredientLimit ?? 1);
 
-    const inventory = await this.getInventoryIngredients(userId);
+    const inventory = await this.getInventoryIngredients(scopeUserId);
     this.validateInventoryForGeneration(dto.mode, inventory.length);
 
     const recipes = await this.openAiRecipeService.generateRecipes({
@@ -85,7 +107,7 @@ export class RecipeService {
 
   async saveGeneratedRecipe(userId: string, dto: SaveGeneratedRecipeDto) {
     const recipe = dto.recipe;
-    this.validateSavedGeneratedRecipe(recipe);
+    await this.validateSavedGeneratedRecipe(recipe);
 
     let imageUrl: string | null = null;
 
@@ -128,13 +150,12 @@ export class RecipeService {
                 ? (ingredient.productId ?? undefined)
                 : undefined,
             name: ingredient.name,
-            quantity: ingredient.quantity ?? null,
-            unit: ingredient.unit ?? '',
+            ...normalizeIngredientQuantity(ingredient),
             source: ingredient.source as RecipeIngredientSource,
           })),
         },
       },
-      include: this.recipeInclude(),
+      include: this.recipeInclude(userId),
     });
 
     return {
@@ -149,7 +170,7 @@ export class RecipeService {
   async listSavedRecipes(userId: string) {
     const recipes = await this.prisma.recipe.findMany({
       where: { userId },
-      include: this.recipeInclude(),
+      include: this.recipeInclude(userId),
       orderBy: { createdAt: 'desc' },
     });
 
@@ -181,7 +202,7 @@ export class RecipeService {
         isFavorite,
         updatedAt: new Date(),
       },
-      include: this.recipeInclude(),
+      include: this.recipeInclude(userId),
     });
 
     return {
@@ -190,72 +211,121 @@ export class RecipeService {
     };
   }
 
-  async getCompletionPreview(userId: string, recipeId: string) {
+  /**
+   * Lots de l'inventaire utilisés par la recette, avec la quantité proposée
+   * pour chacun (FEFO), ajustée au nombre de portions cuisinées
+   */
+  async getCompletionPreview(
+    userId: string,
+    recipeId: string,
+    servings?: number,
+  ) {
     const recipe = await this.findUserRecipe(userId, recipeId);
-    const removableItems = await this.getRemovableInventoryItems(userId, recipe);
+    const plan = await this.buildCompletionPlan(userId, recipe, servings);
 
     return {
       success: true,
       data: {
         recipeId,
-        items: removableItems.map((item) => ({
-          inventoryItemId: item.id,
-          productId: item.productId,
-          name: item.Product.name,
+        servings: plan.servings,
+        items: plan.items.map(({ lot, proposedQuantity }) => ({
+          inventoryItemId: lot.id,
+          productId: lot.productId,
+          name: lot.Product.name,
+          unitType: lot.Product.unitType,
+          availableQuantity: lot.quantity,
+          proposedQuantity,
+          expiryDate: lot.expiryDate?.toISOString() ?? null,
         })),
       },
     };
   }
 
+  /**
+   * Marque la recette comme faite et retire des lots les quantités
+   * utilisées : celles saisies lot par lot, sinon celles proposées. Les
+   * restes éventuels sont rangés dans l'inventaire.
+   */
   async completeRecipe(
     userId: string,
     recipeId: string,
     confirm: boolean,
-    inventoryItemIds?: string[],
+    selection: Pick<
+      CompleteRecipeDto,
+      'servings' | 'items' | 'inventoryItemIds' | 'leftovers'
+    > = {},
   ) {
     if (!confirm) {
       throw new BadRequestException('Confirmation requise');
     }
 
     const recipe = await this.findUserRecipe(userId, recipeId);
-    const candidateItems = await this.getRemovableInventoryItems(userId, recipe);
-    const selectedIds = inventoryItemIds
-      ? new Set(inventoryItemIds)
-      : new Set(candidateItems.map((item) => item.id));
-    const removableItems = candidateItems.filter((item) =>
-      selectedIds.has(item.id),
-    );
-    const removableIds = removableItems.map((item) => item.id);
 
-    const updatedRecipe = await this.prisma.$transaction(async (tx) => {
-      if (removableIds.length > 0) {
-        await tx.inventoryItem.deleteMany({
-          where: {
+    const { updatedRecipe, removedItems, leftoversItem } =
+      await this.prisma.$transaction(async (tx: any) => {
+        // Plan FEFO établi sur les lots relus dans la transaction
+        const plan = await this.buildCompletionPlan(
+          userId,
+          recipe,
+          selection.servings,
+          tx,
+        );
+        const consumptions = this.selectConsumptions(plan.items, selection);
+        const removedItems: Array<{
+          inventoryItemId: string;
+          productId: string;
+          name: string;
+          unitType: string;
+          quantityConsumed: number;
+          remainingQuantity: number;
+        }> = [];
+
+        for (const { lot, quantity } of consumptions) {
+          const [consumedLot] = await this.inventoryService.consumeLots(
+            tx,
             userId,
-            id: { in: removableIds },
+            [lot],
+            quantity,
+            { reason: 'COOKED', recipeId },
+          );
+          removedItems.push({
+            inventoryItemId: lot.id,
+            productId: lot.productId,
+            name: lot.Product.name,
+            unitType: lot.Product.unitType,
+            quantityConsumed: consumedLot.quantityConsumed,
+            remainingQuantity: consumedLot.remainingQuantity,
+          });
+        }
+
+        const leftoversItem = selection.leftovers
+          ? await this.inventoryService.addRecipeLeftovers(tx, userId, {
+              recipeId,
+              recipeName: recipe.name,
+              portions: selection.leftovers.portions,
+              storageLocation: selection.leftovers.storageLocation,
+            })
+          : null;
+
+        const updatedRecipe = await tx.recipe.update({
+          where: { id: recipeId },
+          data: {
+            doneAt: new Date(),
+            updatedAt: new Date(),
           },
+          include: this.recipeInclude(userId),
         });
-      }
 
-      return tx.recipe.update({
-        where: { id: recipeId },
-        data: {
-          doneAt: new Date(),
-          updatedAt: new Date(),
-        },
-        include: this.recipeInclude(),
+        return { updatedRecipe, removedItems, leftoversItem };
       });
-    });
+    await this.inventoryService.refreshInventoryNotifications(userId);
 
     return {
       success: true,
       data: {
         recipe: this.formatRecipe(updatedRecipe),
-        removedItems: removableItems.map((item) => ({
-          inventoryItemId: item.id,
-          productId: item.productId,
-          name: item.Product.name,
-        })),
+        removedItems,
+        leftoversItem,
       },
     };
   }
@@ -272,7 +342,7 @@ export class RecipeService {
 
   private async getInventoryIngredients(userId: string) {
     const items = await this.prisma.inventoryItem.findMany({
-      where: { userId },
+      where: { userId, deletedAt: null },
       include: {
         Product: {
           include: {
@@ -373,10 +443,24 @@ export class RecipeService {
     }
   }
 
-  private validateSavedGeneratedRecipe(recipe: GeneratedRecipePayloadDto) {
+  private async validateSavedGeneratedRecipe(
+    recipe: GeneratedRecipePayloadDto,
+  ) {
     if (!recipe.steps?.length || !recipe.ingredients?.length) {
       throw new BadRequestException('Recette incomplète');
     }
+
+    // Le ValidationPipe ne descend pas dans la recette : les décorateurs des
+    // ingrédients sont appliqués ici, avant d'atteindre Prisma
+    for (const ingredient of recipe.ingredients) {
+      const [error] = await validate(
+        plainToInstance(RecipeIngredientPayloadDto, ingredient),
+      );
+
+      if (error) {
+        throw new BadRequestException(Object.values(error.constraints ?? {}));
+      }
+    }
   }
 
   private async findUserRecipe(userId: string, recipeId: string) {
@@ -385,7 +469,7 @@ export class RecipeService {
         id: recipeId,
         userId,
       },
-      include: this.recipeInclude(),
+      include: this.recipeInclude(userId),
     });
 
     if (!recipe) {
@@ -398,6 +482,7 @@ export class RecipeService {
   private async getRemovableInventoryItems(
     userId: string,
     recipe: Awaited<ReturnType<RecipeService['findUserRecipe']>>,
+    client: Pick<PrismaService, 'inventoryItem'> = this.prisma,
   ) {
     if (recipe.doneAt) {
       throw new ForbiddenException('Cette recette a déjà été marquée comme faite');
@@ -413,14 +498,130 @@ export class RecipeService {
       return [];
     }
 
-    return this.prisma.inventoryItem.findMany({
+    return client.inventoryItem.findMany({
       where: {
         userId,
         productId: { in: [...new Set(productIds)] },
+        deletedAt: null,
       },
       include: {
         Product: true,
       },
+      orderBy: [{ expiryDate: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Quantité proposée pour chaque lot : la quantité de l'ingrédient (convertie
+   * dans l'unité du produit et ajustée aux portions) est répartie en
+   * commençant par le lot qui périme le plus tôt. Sans quantité exploitable,
+   * le lot entier est proposé.
+   */
+  private async buildCompletionPlan(
+    userId: string,
+    recipe: Awaited<ReturnType<RecipeService['findUserRecipe']>>,
+    servings = recipe.servings,
+    client: Pick<PrismaService, 'inventoryItem'> = this.prisma,
+  ) {
+    if (!Number.isInteger(servings) || servings < 1 || servings > 20) {
+      throw new BadRequestException(
+        'Le nombre de portions doit être compris entre 1 et 20',
+      );
+    }
+
+    const lots = await this.getRemovableInventoryItems(userId, recipe, client);
+    const scale = servings / (recipe.servings || servings);
+    const neededByProduct = new Map<string, number | null>();
+
+    for (const ingredient of recipe.RecipeIngredient) {
+      if (
+        ingredient.source !== RecipeIngredientSource.INVENTORY ||
+        !ingredient.productId
+      ) {
+        continue;
+      }
+
+      const inventoryQuantity = this.toInventoryQuantity(ingredient);
+      const previous = neededByProduct.get(ingredient.productId);
+      neededByProduct.set(
+        ingredient.productId,
+        inventoryQuantity && previous !== null
+          ? (previous ?? 0) + inventoryQuantity.quantity * scale
+          : null,
+      );
+    }
+
+    const proposedByLot = new Map<string, number>();
+    for (const [productId, needed] of neededByProduct) {
+      const productLots = lots.filter((lot) => lot.productId === productId);
+
+      if (needed === null) {
+        productLots.forEach((lot) => proposedByLot.set(lot.id, lot.quantity));
+        continue;
+      }
+
+      this.inventoryService
+        .planLotConsumption(productLots, roundQuantity(needed))
+        .forEach(({ lot, quantity }) => proposedByLot.set(lot.id, quantity));
+    }
+
+    return {
+      servings,
+      items: lots.map((lot) => ({
+        lot,
+        proposedQuantity: proposedByLot.get(lot.id) ?? 0,
+      })),
+    };
+  }
+
+  private selectConsumptions(
+    planItems: Awaited<
+      ReturnType<RecipeService['buildCompletionPlan']>
+    >['items'],
+    selection: Pick<CompleteRecipeDto, 'items' | 'inventoryItemIds'>,
+  ) {
+    if (!selection.items) {
+      const selectedIds = selection.inventoryItemIds
+        ? new Set(selection.inventoryItemIds)
+        : null;
+
+      return planItems
+        .filter(
+          ({ lot, proposedQuantity }) =>
+            proposedQuantity > 0 && (!selectedIds || selectedIds.has(lot.id)),
+        )
+        .map(({ lot, proposedQuantity }) => ({
+          lot,
+          quantity: proposedQuantity,
+        }));
+    }
+
+    const lotsById = new Map(planItems.map(({ lot }) => [lot.id, lot]));
+    const quantityByLot = new Map<string, number>();
+
+    for (const item of selection.items) {
+      if (!lotsById.has(item.inventoryItemId)) {
+        throw new BadRequestException(
+          "Ce lot n'est pas utilisé par la recette",
+        );
+      }
+
+      quantityByLot.set(
+        item.inventoryItemId,
+        (quantityByLot.get(item.inventoryItemId) ?? 0) + item.quantity,
+      );
+    }
+
+    return [...quantityByLot].map(([lotId, quantity]) => {
+      const lot = lotsById.get(lotId)!;
+
+      if (quantity > lot.quantity) {
+        throw new BadRequestException(
+          `Quantité insuffisante pour ${lot.Product.name} (${lot.quantity} disponible)`,
+        );
+      }
+
+      return { lot, quantity: roundQuantity(quantity) };
     });
   }
 
@@ -433,11 +634,13 @@ export class RecipeService {
     };
   }
 
-  private recipeInclude() {
+  private recipeInclude(userId: string) {
     return {
       RecipeIngredient: {
         include: {
-          Product: true,
+          Product: {
+            include: { ProductPieceWeight: pieceWeightOf(userId) },
+          },
         },
       },
     };
@@ -474,11 +677,41 @@ export class RecipeService {
         productId: ingredient.productId,
         quantity: ingredient.quantity,
         unit: ingredient.unit,
+        unitType: ingredient.unitType ?? null,
+        inventoryQuantity: this.toInventoryQuantity(ingredient),
         source: ingredient.source,
       })),
     };
   }
 
+  /**
+   * Quantité de l'ingrédient exprimée dans l'unité du produit de l'inventaire
+   * (200 g de pâtes pour un paquet suivi en kg = 0,2), null si elle ne peut
+   * pas être convertie
+   */
+  private toInventoryQuantity(ingredient: any) {
+    const product = ingredient.Product;
+    if (!product || ingredient.quantity === null) {
+      return null;
+    }
+
+    const { quantity, unitType } = normalizeIngredientQuantity(ingredient);
+    if (quantity === null || !unitType || !isQuantityUnit(product.unitType)) {
+      return null;
+    }
+
+    const converted = convertQuantity(
+      quantity,
+      unitType,
+      product.unitType,
+      getPieceWeight(product),
+    );
+
+    return converted === null
+      ? null
+      : { quantity: converted, unitType: product.unitType };
+  }
+
   private normalize(value: string): string {
     return value
       .normalize('NFD')
@@ -0,0 +1,110 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional, ApiProperty } from '@nestjs/swagger';
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+export class CreateShoppingListItemDto {
+  @ApiProperty({
+    description: "Nom de l'article",
+    example: 'Lait demi-écrémé',
+    maxLength: 120,
+  })
+  @Transform(trim)
+  @IsString({
+    message: "Le nom de l'article doit être une chaîne de caractères",
+  })
+  @IsNotEmpty({ message: "Le nom de l'article est requis" })
+  @MaxLength(120, {
+    message: "Le nom de l'article ne peut pas dépasser 120 caractères",
+  })
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Produit du catalogue associé, pour un ajout rapide au stock',
+    example: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: "L'ID du produit doit être un UUID valide" })
+  productId?: string;
+
+  @ApiPropertyOptional({ description: 'Quantité à acheter', example: 2 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'La quantité doit être un nombre' })
+  @Min(0.01, { message: 'La quantité doit être supérieure à 0' })
+  quantity?: number;
+
+  @ApiPropertyOptional({ description: 'Unité de la quantité', example: 'L' })
+  @IsOptional()
+  @Transform(trim)
+  @IsString({ message: "L'unité doit être une chaîne de caractères" })
+  @MaxLength(20, { message: "L'unité ne peut pas dépasser 20 caractères" })
+  unit?: string;
+
+  @ApiPropertyOptional({
+    description: "Précisions sur l'article",
+    example: 'Bio si possible',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString({ message: 'Les notes doivent être une chaîne de caractères' })
+  @MaxLength(500, {
+    message: 'Les notes ne peuvent pas dépasser 500 caractères',
+  })
+  notes?: string;
+}
+
+export class UpdateShoppingListItemDto {
+  @ApiPropertyOptional({
+    description: "Coche ou décoche l'article",
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'Le statut coché doit être un booléen' })
+  checked?: boolean;
+
+  @ApiPropertyOptional({ description: "Nom de l'article", maxLength: 120 })
+  @IsOptional()
+  @Transform(trim)
+  @IsString({
+    message: "Le nom de l'article doit être une chaîne de caractères",
+  })
+  @IsNotEmpty({ message: "Le nom de l'article ne peut pas être vide" })
+  @MaxLength(120, {
+    message: "Le nom de l'article ne peut pas dépasser 120 caractères",
+  })
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Quantité à acheter', example: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: 'La quantité doit être un nombre' })
+  @Min(0.01, { message: 'La quantité doit être supérieure à 0' })
+  quantity?: number;
+
+  @ApiPropertyOptional({ description: 'Unité de la quantité', example: 'L' })
+  @IsOptional()
+  @Transform(trim)
+  @IsString({ message: "L'unité doit être une chaîne de caractères" })
+  @MaxLength(20, { message: "L'unité ne peut pas dépasser 20 caractères" })
+  unit?: string;
+
+  @ApiPropertyOptional({ description: "Précisions sur l'article" })
+  @IsOptional()
+  @IsString({ message: 'Les notes doivent être une chaîne de caractères' })
+  @MaxLength(500, {
+    message: 'Les notes ne peuvent pas dépasser 500 caractères',
+  })
+  notes?: string;
+}
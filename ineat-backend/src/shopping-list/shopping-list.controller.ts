@@ -0,0 +1,126 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { SessionAuthGuard } from '../auth/guards/session-auth.guard';
+import {
+  getScopeUserId,
+  HouseholdScopedUser,
+} from '../household/household-scope';
+import {
+  CreateShoppingListItemDto,
+  UpdateShoppingListItemDto,
+} from './dto/shopping-list-item.dto';
+import { ShoppingListService } from './shopping-list.service';
+
+interface AuthenticatedRequest extends Request {
+  user: HouseholdScopedUser;
+}
+
+@ApiTags('Shopping list')
+@ApiBearerAuth()
+@UseGuards(SessionAuthGuard)
+@Controller('shopping-list')
+export class ShoppingListController {
+  constructor(private readonly shoppingListService: ShoppingListService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Récupérer la liste de courses de l'utilisateur" })
+  @ApiResponse({ status: 200, description: 'Liste de courses récupérée' })
+  @ApiResponse({ status: 401, description: 'Non authentifié' })
+  getList(@Req() req: AuthenticatedRequest) {
+    return this.shoppingListService.getList(getScopeUserId(req.user));
+  }
+
+  @Post('items')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Ajouter un article à la liste de courses' })
+  @ApiResponse({ status: 201, description: 'Article ajouté ou fusionné' })
+  @ApiResponse({ status: 400, description: 'Données invalides' })
+  @ApiResponse({ status: 404, description: 'Produit introuvable' })
+  addItem(
+    @Req() req: AuthenticatedRequest,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: CreateShoppingListItemDto,
+  ) {
+    return this.shoppingListService.addItem(getScopeUserId(req.user), dto);
+  }
+
+  @Post('recipes/:recipeId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Ajouter les ingrédients manquants d'une recette",
+  })
+  @ApiParam({ name: 'recipeId', description: 'ID de la recette enregistrée' })
+  @ApiResponse({ status: 200, description: 'Ingrédients ajoutés' })
+  @ApiResponse({ status: 404, description: 'Recette introuvable' })
+  addMissingIngredientsFromRecipe(
+    @Req() req: AuthenticatedRequest,
+    @Param('recipeId') recipeId: string,
+  ) {
+    return this.shoppingListService.addMissingIngredientsFromRecipe(
+      getScopeUserId(req.user),
+      recipeId,
+    );
+  }
+
+  @Patch('items/:id')
+  @ApiOperation({ summary: 'Modifier ou cocher un article' })
+  @ApiParam({ name: 'id', description: "ID de l'article" })
+  @ApiResponse({ status: 200, description: 'Article mis à jour' })
+  @ApiResponse({ status: 404, description: 'Article introuvable' })
+  updateItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) itemId: string,
+    @Body(new ValidationPipe({ transform: true, whitelist: true }))
+    dto: UpdateShoppingListItemDto,
+  ) {
+    return this.shoppingListService.updateItem(
+      getScopeUserId(req.user),
+      itemId,
+      dto,
+    );
+  }
+
+  // Déclarée avant items/:id pour ne pas être interprétée comme un ID
+  @Delete('items/checked')
+  @ApiOperation({ summary: 'Retirer les articles cochés' })
+  @ApiResponse({ status: 200, description: 'Articles cochés retirés' })
+  clearCheckedItems(@Req() req: AuthenticatedRequest) {
+    return this.shoppingListService.clearCheckedItems(getScopeUserId(req.user));
+  }
+
+  @Delete('items/:id')
+  @ApiOperation({ summary: 'Retirer un article de la liste de courses' })
+  @ApiParam({ name: 'id', description: "ID de l'article" })
+  @ApiResponse({ status: 200, description: 'Article retiré' })
+  @ApiResponse({ status: 404, description: 'Article introuvable' })
+  removeItem(
+    @Req() req: AuthenticatedRequest,
+    @Param('id', ParseUUIDPipe) itemId: string,
+  ) {
+    return this.shoppingListService.removeItem(
+      getScopeUserId(req.user),
+      itemId,
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ShoppingListController } from './shopping-list.controller';
+import { ShoppingListService } from './shopping-list.service';
+
+@Module({
+  controllers: [ShoppingListController],
+  providers: [ShoppingListService],
+  exports: [ShoppingListService],
+})
+export class ShoppingListModule {}
@@ -0,0 +1,244 @@
+import { NotFoundException } from '@nestjs/common';
+import { ShoppingListService } from './shopping-list.service';
+
+describe('ShoppingListService', () => {
+  const tx = {
+    shoppingList: { upsert: jest.fn() },
+    shoppingListItem: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    product: { findUnique: jest.fn() },
+  };
+
+  const prisma = {
+    $transaction: jest.fn(),
+    shoppingList: { upsert: jest.fn() },
+    shoppingListItem: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    product: { findUnique: jest.fn() },
+    recipe: { findFirst: jest.fn() },
+  };
+
+  const storedItem = (overrides: Record<string, unknown> = {}) => ({
+    id: 'item-1',
+    shoppingListId: 'list-1',
+    productId: null,
+    recipeId: null,
+    name: 'Lait',
+    quantity: 1,
+    unit: 'L',
+    notes: null,
+    source: 'MANUAL',
+    checkedAt: null,
+    createdAt: new Date('2026-10-19T08:00:00Z'),
+    Product: null,
+    Recipe: null,
+    ...overrides,
+  });
+
+  let service: ShoppingListService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ShoppingListService(prisma as any);
+    prisma.$transaction.mockImplementation((callback) => callback(tx));
+    prisma.shoppingList.upsert.mockResolvedValue({ id: 'list-1' });
+    tx.shoppingList.upsert.mockResolvedValue({ id: 'list-1' });
+  });
+
+  it('returns unchecked items first with the remaining count', async () => {
+    prisma.shoppingListItem.findMany.mockResolvedValue([
+      storedItem(),
+      storedItem({
+        id: 'item-2',
+        checkedAt: new Date('2026-10-19T09:00:00Z'),
+      }),
+    ]);
+
+    const result = await service.getList('user-1');
+
+    expect(prisma.shoppingListItem.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { shoppingListId: 'list-1' },
+        orderBy: [
+          { checkedAt: { sort: 'asc', nulls: 'first' } },
+          { createdAt: 'asc' },
+        ],
+      }),
+    );
+    expect(result.data.remainingCount).toBe(1);
+    expect(result.data.items[1]).toEqual(
+      expect.objectContaining({
+        id: 'item-2',
+        checked: true,
+        checkedAt: '2026-10-19T09:00:00.000Z',
+      }),
+    );
+  });
+
+  it('merges a manual entry into an unchecked item with the same name', async () => {
+    prisma.shoppingListItem.findFirst.mockResolvedValue(storedItem());
+    prisma.shoppingListItem.update.mockResolvedValue(
+      storedItem({ quantity: 3 }),
+    );
+
+    const result = await service.addItem('user-1', {
+      name: ' lait ',
+      quantity: 2,
+      unit: 'l',
+    });
+
+    expect(prisma.shoppingListItem.findFirst).toHaveBeenCalledWith({
+      where: {
+        shoppingListId: 'list-1',
+        checkedAt: null,
+        name: { equals: 'lait', mode: 'insensitive' },
+      },
+    });
+    expect(prisma.shoppingListItem.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'item-1' },
+        data: expect.objectContaining({ quantity: 3, unit: 'L' }),
+      }),
+    );
+    expect(prisma.shoppingListItem.create).not.toHaveBeenCalled();
+    expect(result.data.quantity).toBe(3);
+  });
+
+  it('keeps the existing quantity when units differ', async () => {
+    prisma.shoppingListItem.findFirst.mockResolvedValue(storedItem());
+    prisma.shoppingListItem.update.mockResolvedValue(storedItem());
+
+    await service.addItem('user-1', {
+      name: 'Lait',
+      quantity: 6,
+      unit: 'bouteille',
+    });
+
+    expect(prisma.shoppingListItem.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ quantity: 1 }),
+      }),
+    );
+  });
+
+  it('rejects a manual entry linked to an unknown product', async () => {
+    prisma.product.findUnique.mockResolvedValue(null);
+
+    await expect(
+      service.addItem('user-1', {
+        name: 'Lait',
+        productId: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+      }),
+    ).rejects.toThrow(NotFoundException);
+    expect(prisma.shoppingListItem.create).not.toHaveBeenCalled();
+  });
+
+  it("adds a saved recipe's missing ingredients", async () => {
+    prisma.recipe.findFirst.mockResolvedValue({
+      id: 'recipe-1',
+      missingIngredients: ['Crème fraîche'],
+      RecipeIngredient: [
+        {
+          name: 'Crème fraîche',
+          productId: null,
+          quantity: 20,
+          unit: 'cl',
+          source: 'MISSING',
+        },
+      ],
+    });
+    tx.shoppingListItem.findFirst.mockResolvedValue(null);
+    tx.shoppingListItem.create.mockImplementation(({ data }) =>
+      Promise.resolve(storedItem({ ...data, Recipe: { id: 'recipe-1' } })),
+    );
+
+    const result = await service.addMissingIngredientsFromRecipe(
+      'user-1',
+      'recipe-1',
+    );
+
+    expect(prisma.recipe.findFirst).toHaveBeenCalledWith({
+      where: { id: 'recipe-1', userId: 'user-1' },
+      include: { RecipeIngredient: { where: { source: 'MISSING' } } },
+    });
+    expect(tx.shoppingListItem.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          name: 'Crème fraîche',
+          quantity: 20,
+          unit: 'cl',
+          recipeId: 'recipe-1',
+          source: 'RECIPE',
+        }),
+      }),
+    );
+    expect(result.data.addedCount).toBe(1);
+  });
+
+  it('throws when the recipe does not belong to the user', async () => {
+    prisma.recipe.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.addMissingIngredientsFromRecipe('user-1', 'recipe-2'),
+    ).rejects.toThrow('Recette introuvable');
+  });
+
+  it('adds an out-of-stock product once', async () => {
+    tx.product.findUnique.mockResolvedValue({
+      id: 'product-1',
+      name: 'Beurre',
+    });
+    tx.shoppingListItem.findFirst.mockResolvedValueOnce(null);
+
+    await service.addOutOfStockProduct('user-1', 'product-1', tx as any);
+
+    expect(tx.shoppingListItem.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        shoppingListId: 'list-1',
+        productId: 'product-1',
+        name: 'Beurre',
+        source: 'OUT_OF_STOCK',
+      }),
+    });
+
+    tx.shoppingListItem.findFirst.mockResolvedValueOnce({ id: 'item-1' });
+    await service.addOutOfStockProduct('user-1', 'product-1', tx as any);
+
+    expect(tx.shoppingListItem.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks an item off', async () => {
+    prisma.shoppingListItem.findFirst.mockResolvedValue({ id: 'item-1' });
+    prisma.shoppingListItem.update.mockImplementation(({ data }) =>
+      Promise.resolve(storedItem({ checkedAt: data.checkedAt })),
+    );
+
+    const result = await service.updateItem('user-1', 'item-1', {
+      checked: true,
+    });
+
+    expect(prisma.shoppingListItem.findFirst).toHaveBeenCalledWith({
+      where: { id: 'item-1', ShoppingList: { userId: 'user-1' } },
+      select: { id: true },
+    });
+    expect(result.data.checked).toBe(true);
+  });
+
+  it("refuses to delete another user's item", async () => {
+    prisma.shoppingListItem.findFirst.mockResolvedValue(null);
+
+    await expect(service.removeItem('user-1', 'item-9')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(prisma.shoppingListItem.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,390 @@
+import { randomUUID } from 'crypto';
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ShoppingListItemSource } from '../../prisma/generated/prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateShoppingListItemDto,
+  UpdateShoppingListItemDto,
+} from './dto/shopping-list-item.dto';
+
+type ShoppingListClient = Pick<
+  PrismaService,
+  'shoppingList' | 'shoppingListItem' | 'product'
+>;
+
+type ShoppingListItemInput = {
+  name: string;
+  productId?: string | null;
+  recipeId?: string | null;
+  quantity?: number | null;
+  unit?: string | null;
+  notes?: string | null;
+  source: ShoppingListItemSource;
+};
+
+const ITEM_INCLUDE = {
+  Product: {
+    select: {
+      id: true,
+      name: true,
+      brand: true,
+      barcode: true,
+      imageUrl: true,
+      unitType: true,
+      nutriscore: true,
+      ecoscore: true,
+      novascore: true,
+      Category: { select: { id: true, name: true, slug: true, icon: true } },
+    },
+  },
+  Recipe: { select: { id: true, name: true } },
+} as const;
+
+@Injectable()
+export class ShoppingListService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getList(userId: string) {
+    const list = await this.ensureList(userId);
+    const items = await this.prisma.shoppingListItem.findMany({
+      where: { shoppingListId: list.id },
+      orderBy: [
+        { checkedAt: { sort: 'asc', nulls: 'first' } },
+        { createdAt: 'asc' },
+      ],
+      include: ITEM_INCLUDE,
+    });
+
+    return {
+      success: true,
+      data: {
+        id: list.id,
+        items: items.map((item) => this.formatItem(item)),
+        remainingCount: items.filter((item) => !item.checkedAt).length,
+      },
+    };
+  }
+
+  async addItem(userId: string, dto: CreateShoppingListItemDto) {
+    if (dto.productId) {
+      const product = await this.prisma.product.findUnique({
+        where: { id: dto.productId },
+        select: { id: true },
+      });
+
+      if (!product) {
+        throw new NotFoundException('Produit introuvable');
+      }
+    }
+
+    const list = await this.ensureList(userId);
+    const item = await this.mergeItem(list.id, {
+      ...dto,
+      source: ShoppingListItemSource.MANUAL,
+    });
+
+    return {
+      success: true,
+      message: 'Article ajouté à la liste de courses',
+      data: this.formatItem(item),
+    };
+  }
+
+  /**
+   * Ajoute les ingrédients manquants d'une recette enregistrée. Les articles
+   * déjà présents (même produit ou même nom) voient leur quantité cumulée.
+   */
+  async addMissingIngredientsFromRecipe(userId: string, recipeId: string) {
+    const recipe = await this.prisma.recipe.findFirst({
+      where: { id: recipeId, userId },
+      include: {
+        RecipeIngredient: {
+          where: { source: 'MISSING' },
+        },
+      },
+    });
+
+    if (!recipe) {
+      throw new NotFoundException('Recette introuvable');
+    }
+
+    const ingredients: Array<Omit<ShoppingListItemInput, 'source'>> =
+      recipe.RecipeIngredient.length > 0
+        ? recipe.RecipeIngredient.map((ingredient) => ({
+            name: ingredient.name,
+            productId: ingredient.productId,
+            quantity: ingredient.quantity,
+            unit: ingredient.unit,
+          }))
+        : this.toStringArray(recipe.missingIngredients).map((name) => ({
+            name,
+          }));
+
+    const list = await this.ensureList(userId);
+    const items = await this.prisma.$transaction(async (tx: any) => {
+      const addedItems: any[] = [];
+
+      for (const ingredient of ingredients) {
+        addedItems.push(
+          await this.mergeItem(
+            list.id,
+            {
+              ...ingredient,
+              recipeId: recipe.id,
+              source: ShoppingListItemSource.RECIPE,
+            },
+            tx,
+          ),
+        );
+      }
+
+      return addedItems;
+    });
+
+    return {
+      success: true,
+      message:
+        items.length > 0
+          ? `${items.length} ingrédient${items.length > 1 ? 's' : ''} ajouté${items.length > 1 ? 's' : ''} à la liste de courses`
+          : 'Aucun ingrédient manquant pour cette recette',
+      data: {
+        addedCount: items.length,
+        items: items.map((item) => this.formatItem(item)),
+      },
+    };
+  }
+
+  /**
+   * Inscrit un produit dont le stock vient de tomber à zéro. Appelé dans la
+   * transaction de consommation ; ne fait rien si le produit est déjà à acheter.
+   */
+  async addOutOfStockProduct(
+    userId: string,
+    productId: string,
+    client: ShoppingListClient = this.prisma,
+  ): Promise<void> {
+    const product = await client.product.findUnique({
+      where: { id: productId },
+      select: { id: true, name: true },
+    });
+
+    if (!product) {
+      return;
+    }
+
+    const list = await this.ensureList(userId, client);
+    const existingItem = await client.shoppingListItem.findFirst({
+      where: {
+        shoppingListId: list.id,
+        productId: product.id,
+        checkedAt: null,
+      },
+      select: { id: true },
+    });
+
+    if (existingItem) {
+      return;
+    }
+
+    await client.shoppingListItem.create({
+      data: {
+        id: randomUUID(),
+        shoppingListId: list.id,
+        productId: product.id,
+        name: product.name,
+        source: ShoppingListItemSource.OUT_OF_STOCK,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  async updateItem(
+    userId: string,
+    itemId: string,
+    dto: UpdateShoppingListItemDto,
+  ) {
+    await this.findUserItem(userId, itemId);
+
+    const item = await this.prisma.shoppingListItem.update({
+      where: { id: itemId },
+      data: {
+        name: dto.name,
+        quantity: dto.quantity,
+        unit: dto.unit === undefined ? undefined : dto.unit || null,
+        notes: dto.notes === undefined ? undefined : dto.notes.trim() || null,
+        checkedAt:
+          dto.checked === undefined
+            ? undefined
+            : dto.checked
+              ? new Date()
+              : null,
+        updatedAt: new Date(),
+      },
+      include: ITEM_INCLUDE,
+    });
+
+    return { success: true, data: this.formatItem(item) };
+  }
+
+  async removeItem(userId: string, itemId: string) {
+    await this.findUserItem(userId, itemId);
+    await this.prisma.shoppingListItem.delete({ where: { id: itemId } });
+
+    return { success: true, message: 'Article retiré de la liste de courses' };
+  }
+
+  async clearCheckedItems(userId: string) {
+    const deleted = await this.prisma.shoppingListItem.deleteMany({
+      where: {
+        ShoppingList: { userId },
+        checkedAt: { not: null },
+      },
+    });
+
+    return {
+      success: true,
+      deletedCount: deleted.count,
+      message: `${deleted.count} article${deleted.count > 1 ? 's' : ''} retiré${deleted.count > 1 ? 's' : ''} de la liste de courses`,
+    };
+  }
+
+  private ensureList(userId: string, client: ShoppingListClient = this.prisma) {
+    return client.shoppingList.upsert({
+      where: { userId },
+      create: { id: randomUUID(), userId, updatedAt: new Date() },
+      update: {},
+      select: { id: true },
+    });
+  }
+
+  private async findUserItem(userId: string, itemId: string) {
+    const item = await this.prisma.shoppingListItem.findFirst({
+      where: { id: itemId, ShoppingList: { userId } },
+      select: { id: true },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Article de liste de courses introuvable');
+    }
+
+    return item;
+  }
+
+  /**
+   * Fusionne avec un article non coché du même produit (ou du même nom) :
+   * les quantités s'additionnent lorsque les unités concordent.
+   */
+  private async mergeItem(
+    shoppingListId: string,
+    input: ShoppingListItemInput,
+    client: ShoppingListClient = this.prisma,
+  ) {
+    const name = input.name.trim();
+    const unit = input.unit?.trim() || null;
+    const existingItem = await client.shoppingListItem.findFirst({
+      where: {
+        shoppingListId,
+        checkedAt: null,
+        ...(input.productId
+          ? { productId: input.productId }
+          : { name: { equals: name, mode: 'insensitive' } }),
+      },
+    });
+
+    if (existingItem) {
+      return client.shoppingListItem.update({
+        where: { id: existingItem.id },
+        data: {
+          quantity: this.mergeQuantity(existingItem, {
+            quantity: input.quantity ?? null,
+            unit,
+          }),
+          unit: existingItem.unit ?? unit,
+          updatedAt: new Date(),
+        },
+        include: ITEM_INCLUDE,
+      });
+    }
+
+    return client.shoppingListItem.create({
+      data: {
+        id: randomUUID(),
+        shoppingListId,
+        productId: input.productId ?? null,
+        recipeId: input.recipeId ?? null,
+        name,
+        quantity: input.quantity ?? null,
+        unit,
+        notes: input.notes?.trim() || null,
+        source: input.source,
+        updatedAt: new Date(),
+      },
+      include: ITEM_INCLUDE,
+    });
+  }
+
+  private mergeQuantity(
+    existing: { quantity: number | null; unit: string | null },
+    added: { quantity: number | null; unit: string | null },
+  ): number | null {
+    if (added.quantity === null) {
+      return existing.quantity;
+    }
+
+    if (existing.quantity === null) {
+      return added.quantity;
+    }
+
+    // Des unités différentes ne s'additionnent pas : on garde la quantité initiale
+    return this.normalize(existing.unit ?? '') ===
+      this.normalize(added.unit ?? '')
+      ? existing.quantity + added.quantity
+      : existing.quantity;
+  }
+
+  private formatItem(item: any) {
+    return {
+      id: item.id,
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      notes: item.notes,
+      source: item.source,
+      checked: Boolean(item.checkedAt),
+      checkedAt: item.checkedAt ? item.checkedAt.toISOString() : null,
+      createdAt: item.createdAt.toISOString(),
+      product: item.Product
+        ? {
+            id: item.Product.id,
+            name: item.Product.name,
+            brand: item.Product.brand,
+            barcode: item.Product.barcode,
+            imageUrl: item.Product.imageUrl,
+            unitType: item.Product.unitType,
+            nutriscore: item.Product.nutriscore,
+            ecoscore: item.Product.ecoscore,
+            novascore: item.Product.novascore,
+            category: item.Product.Category,
+          }
+        : null,
+      recipe: item.Recipe ?? null,
+    };
+  }
+
+  private toStringArray(value: unknown): string[] {
+    return Array.isArray(value)
+      ? value.filter(
+          (entry): entry is string =>
+            typeof entry === 'string' && entry.trim().length > 0,
+        )
+      : [];
+  }
+
+  private normalize(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/\p{Diacritic}/gu, '')
+      .toLowerCase()
+      .trim();
+  }
+}
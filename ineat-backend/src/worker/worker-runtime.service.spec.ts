@@ -29,6 +29,7 @@ describe('WorkerRuntimeService', () => {
     session: { deleteMany: jest.fn() },
     account: { deleteMany: jest.fn() },
     adminAuditLog: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    inventoryItem: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
   };
   const notifications = {
     synchronizeUser: jest.fn(),
@@ -67,7 +68,7 @@ describe('WorkerRuntimeService', () => {
     await service.onModuleInit();
 
     expect(Worker).toHaveBeenCalledTimes(7);
-    expect(queues.upsertScheduler).toHaveBeenCalledTimes(7);
+    expect(queues.upsertScheduler).toHaveBeenCalledTimes(8);
     expect(queues.upsertScheduler).toHaveBeenCalledWith(
       QUEUE_NAMES.system,
       'admin-audit-retention-daily',
@@ -80,6 +81,12 @@ describe('WorkerRuntimeService', () => {
       { pattern: '0 4 * * *' },
       { name: 'anonymize-scheduled-accounts', data: {} },
     );
+    expect(queues.upsertScheduler).toHaveBeenCalledWith(
+      QUEUE_NAMES.system,
+      'deleted-inventory-purge-daily',
+      { pattern: '45 3 * * *' },
+      { name: 'purge-deleted-inventory', data: {} },
+    );
     expect(queues.upsertScheduler).toHaveBeenCalledWith(
       QUEUE_NAMES.notificationsSync,
       'notifications-hourly',
@@ -98,7 +105,7 @@ describe('WorkerRuntimeService', () => {
     await service.onModuleInit();
 
     expect(Worker).toHaveBeenCalledTimes(2);
-    expect(queues.upsertScheduler).toHaveBeenCalledTimes(2);
+    expect(queues.upsertScheduler).toHaveBeenCalledTimes(3);
     expect(queues.upsertScheduler).toHaveBeenCalledWith(
       QUEUE_NAMES.system,
       'admin-audit-retention-daily',
@@ -176,6 +183,25 @@ describe('WorkerRuntimeService', () => {
     });
   });
 
+  it('purges inventory lots deleted before the restore window', async () => {
+    prisma.inventoryItem.deleteMany.mockResolvedValue({ count: 2 });
+    const service = createService();
+
+    const result = await (service as any).processSystemJob({
+      name: 'purge-deleted-inventory',
+    });
+
+    expect(prisma.inventoryItem.deleteMany).toHaveBeenCalledWith({
+      where: { deletedAt: { lt: expect.any(Date) } },
+    });
+    const cutoff = prisma.inventoryItem.deleteMany.mock.calls[0][0].where
+      .deletedAt.lt as Date;
+    expect(Date.now() - cutoff.getTime()).toBeGreaterThanOrEqual(
+      30 * 24 * 60 * 60_000,
+    );
+    expect(result).toEqual(expect.objectContaining({ deletedCount: 2 }));
+  });
+
   it('anonymise les comptes dont le délai de suppression est échu', async () => {
     prisma.user.findMany.mockResolvedValue([{ id: 'user-to-delete' }]);
     prisma.session.deleteMany.mockResolvedValue({ count: 1 });
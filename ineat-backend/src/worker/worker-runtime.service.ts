@@ -9,6 +9,7 @@ import { ConfigService } from '@nestjs/config';
 import { type Job, Worker } from 'bullmq';
 import { QueueService } from '../jobs/queue.service';
 import { InvoiceService } from '../invoice/services/invoice.service';
+import { INVENTORY_RESTORE_WINDOW_DAYS } from '../inventory/services/inventory.service';
 import { DailyProductDigestService } from '../notification/daily-product-digest.service';
 import { NotificationDeliveryService } from '../notification/notification-delivery.service';
 import { NotificationService } from '../notification/notification.service';
@@ -160,6 +161,9 @@ export class WorkerRuntimeService
     if (job.name === 'anonymize-scheduled-accounts') {
       return this.anonymizeScheduledAccounts();
     }
+    if (job.name === 'purge-deleted-inventory') {
+      return this.purgeDeletedInventoryItems();
+    }
     throw new Error(`Unsupported system job: ${job.name}`);
   }
 
@@ -195,6 +199,19 @@ export class WorkerRuntimeService
     return { deletedCount: result.count, cutoff: cutoff.toISOString() };
   }
 
+  private async purgeDeletedInventoryItems(now = new Date()) {
+    const cutoff = new Date(
+      now.getTime() - INVENTORY_RESTORE_WINDOW_DAYS * 24 * 60 * 60_000,
+    );
+    const result = await this.prisma.inventoryItem.deleteMany({
+      where: { deletedAt: { lt: cutoff } },
+    });
+    this.logger.log(
+      `Deleted inventory purge completed: ${result.count} lots deleted before ${cutoff.toISOString()}`,
+    );
+    return { deletedCount: result.count, cutoff: cutoff.toISOString() };
+  }
+
   private async registerSystemSchedulers(): Promise<void> {
     await this.queues.upsertScheduler(
       QUEUE_NAMES.system,
@@ -208,6 +225,12 @@ export class WorkerRuntimeService
       { pattern: '0 4 * * *' },
       { name: 'anonymize-scheduled-accounts', data: {} },
     );
+    await this.queues.upsertScheduler(
+      QUEUE_NAMES.system,
+      'deleted-inventory-purge-daily',
+      { pattern: '45 3 * * *' },
+      { name: 'purge-deleted-inventory', data: {} },
+    );
   }
 
   private async anonymizeScheduledAccounts(now = new Date()) {
@@ -12,6 +12,7 @@ import {
 	CircleDollarSign,
 	Clock,
 	Info,
+	PackageMinus,
 } from 'lucide-react';
 
 import { Badge } from '@/components/ui/badge';
@@ -26,12 +27,14 @@ import type {
 const typeLabels: Record<NotificationType, string> = {
 	EXPIRY: 'Péremption',
 	BUDGET: 'Budget',
+	LOW_STOCK: 'Stock bas',
 	SYSTEM: 'Système',
 };
 
 const typeStyles: Record<NotificationType, string> = {
 	EXPIRY: 'border-orange-200 bg-orange-50 text-orange-800',
 	BUDGET: 'border-red-200 bg-red-50 text-red-800',
+	LOW_STOCK: 'border-amber-200 bg-amber-50 text-amber-800',
 	SYSTEM: 'border-blue-200 bg-blue-50 text-blue-800',
 };
 
@@ -40,7 +43,10 @@ type NotificationTarget = '/app/inventory' | '/app/budget';
 function getNotificationTarget(
 	notification: AppNotification
 ): NotificationTarget | null {
-	if (notification.referenceType === 'inventory_item') {
+	if (
+		notification.referenceType === 'inventory_item' ||
+		notification.referenceType === 'product_stock_level'
+	) {
 		return '/app/inventory';
 	}
 	if (notification.referenceType?.startsWith('budget')) {
@@ -52,6 +58,7 @@ function getNotificationTarget(
 function NotificationIcon({ type }: { type: NotificationType }) {
 	if (type === 'EXPIRY') return <AlertTriangle className='size-4' />;
 	if (type === 'BUDGET') return <CircleDollarSign className='size-4' />;
+	if (type === 'LOW_STOCK') return <PackageMinus className='size-4' />;
 	return <Info className='size-4' />;
 }
 
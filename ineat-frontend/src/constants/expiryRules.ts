@@ -6,12 +6,21 @@ export type StorageGroup =
 	| 'ambient'
 	| 'other';
 
+/**
+ * USE_BY : date limite de consommation (DLC), à ne pas dépasser.
+ * BEST_BEFORE : date de durabilité minimale (DDM), le produit reste
+ * consommable après la date si son aspect et son odeur sont normaux.
+ */
+export type ExpiryKind = 'USE_BY' | 'BEST_BEFORE';
+
 export interface ShelfLifeRule {
 	id: string;
 	label: string;
 	keywords: string[];
 	daysByStorage: Partial<Record<StorageGroup, number>>;
 	defaultDays: number;
+	/** Type de date porté par les produits de la règle (DLC par défaut) */
+	expiryKind?: ExpiryKind;
 }
 
 export const STORAGE_ALIASES: Record<StorageGroup, string[]> = {
@@ -23,6 +32,15 @@ export const STORAGE_ALIASES: Record<StorageGroup, string[]> = {
 	other: ['autre', 'other'],
 };
 
+export const STORAGE_GROUP_LABELS: Record<StorageGroup, string> = {
+	fridge: 'Réfrigéré',
+	freezer: 'Congelé',
+	pantry: 'Placard',
+	cellar: 'Cave, cellier',
+	ambient: 'Température ambiante',
+	other: 'Autre',
+};
+
 export const PRODUCT_SHELF_LIFE_RULES: ShelfLifeRule[] = [
 	{
 		id: 'pain',
@@ -30,6 +48,7 @@ export const PRODUCT_SHELF_LIFE_RULES: ShelfLifeRule[] = [
 		keywords: ['pain', 'baguette', 'brioche'],
 		daysByStorage: { ambient: 3, pantry: 5, fridge: 7, freezer: 90 },
 		defaultDays: 4,
+		expiryKind: 'BEST_BEFORE',
 	},
 	{
 		id: 'oeufs',
@@ -99,6 +118,7 @@ export const CATEGORY_SHELF_LIFE_RULES: ShelfLifeRule[] = [
 		keywords: ['surgeles', 'surgelés', 'surgele', 'surgelé'],
 		daysByStorage: { freezer: 180, fridge: 1 },
 		defaultDays: 180,
+		expiryKind: 'BEST_BEFORE',
 	},
 	{
 		id: 'conserves',
@@ -106,6 +126,7 @@ export const CATEGORY_SHELF_LIFE_RULES: ShelfLifeRule[] = [
 		keywords: ['conserve', 'bocal'],
 		daysByStorage: { pantry: 730, cellar: 730, fridge: 5 },
 		defaultDays: 730,
+		expiryKind: 'BEST_BEFORE',
 	},
 	{
 		id: 'epicerie-sucree',
@@ -121,6 +142,7 @@ export const CATEGORY_SHELF_LIFE_RULES: ShelfLifeRule[] = [
 		],
 		daysByStorage: { pantry: 730, cellar: 730, ambient: 180 },
 		defaultDays: 730,
+		expiryKind: 'BEST_BEFORE',
 	},
 	{
 		id: 'epicerie-salee',
@@ -140,6 +162,7 @@ export const CATEGORY_SHELF_LIFE_RULES: ShelfLifeRule[] = [
 		],
 		daysByStorage: { pantry: 365, cellar: 365, ambient: 180 },
 		defaultDays: 365,
+		expiryKind: 'BEST_BEFORE',
 	},
 	{
 		id: 'condiments',
@@ -147,6 +170,7 @@ export const CATEGORY_SHELF_LIFE_RULES: ShelfLifeRule[] = [
 		keywords: ['condiment', 'sauce', 'moutarde', 'ketchup', 'mayonnaise'],
 		daysByStorage: { pantry: 365, fridge: 30 },
 		defaultDays: 180,
+		expiryKind: 'BEST_BEFORE',
 	},
 	{
 		id: 'boissons',
@@ -154,6 +178,7 @@ export const CATEGORY_SHELF_LIFE_RULES: ShelfLifeRule[] = [
 		keywords: ['boissons', 'boisson', 'jus', 'soda', 'eau'],
 		daysByStorage: { pantry: 180, fridge: 7, cellar: 365 },
 		defaultDays: 180,
+		expiryKind: 'BEST_BEFORE',
 	},
 	{
 		id: 'plats-prepares',
@@ -1,4 +1,10 @@
-import type { UnitType } from '@/schemas';
+import type {
+	ExpiryKind,
+	StockAgeBucket,
+	UnitType,
+	WasteReason,
+} from '@/schemas';
+import type { StocktakeReason } from '@/services/inventoryService';
 
 // ===== OPTIONS DES TYPES D'UNITÉS =====
 
@@ -12,19 +18,36 @@ export const UNIT_TYPE_OPTIONS = [
 
 export type UnitTypeOption = typeof UNIT_TYPE_OPTIONS[number];
 
-// ===== OPTIONS DES LIEUX DE STOCKAGE =====
+// ===== OPTIONS DES MOTIFS DE GASPILLAGE =====
 
-export const STORAGE_LOCATION_OPTIONS = [
-	'Réfrigérateur',
-	'Congélateur',
-	'Placard',
-	'Cave',
-	'Garde-manger',
-	'Fruitier',
-	'Autre',
-] as const;
+export const WASTE_REASON_OPTIONS = [
+	{ value: 'EXPIRED' as const, label: 'Périmé' },
+	{ value: 'SPOILED' as const, label: 'Abîmé ou moisi' },
+	{ value: 'LEFTOVER' as const, label: 'Restes non consommés' },
+	{ value: 'OTHER' as const, label: 'Autre' },
+] as const satisfies ReadonlyArray<{ value: WasteReason; label: string }>;
+
+export const getWasteReasonLabel = (reason: WasteReason): string =>
+	WASTE_REASON_OPTIONS.find((option) => option.value === reason)?.label ??
+	reason;
+
+// ===== OPTIONS DES MOTIFS D'ÉCART D'INVENTAIRE =====
+
+export const STOCKTAKE_REASON_OPTIONS = [
+	{ value: 'UNTRACKED_CONSUMPTION' as const, label: 'Consommé sans être noté' },
+	{ value: 'UNTRACKED_WASTE' as const, label: 'Jeté sans être noté' },
+	{ value: 'COUNT_ERROR' as const, label: 'Erreur de saisie' },
+	{ value: 'OTHER' as const, label: 'Autre' },
+] as const satisfies ReadonlyArray<{ value: StocktakeReason; label: string }>;
 
-export type StorageLocationOption = typeof STORAGE_LOCATION_OPTIONS[number];
+// ===== TRANCHES D'ANCIENNETÉ DU STOCK =====
+
+export const STOCK_AGE_BUCKET_LABELS: Record<StockAgeBucket, string> = {
+	UNDER_1_WEEK: '< 1 sem.',
+	ONE_TO_2_WEEKS: '1-2 sem.',
+	TWO_WEEKS_TO_1_MONTH: '2 sem.-1 mois',
+	OVER_1_MONTH: '> 1 mois',
+};
 
 // ===== OPTIONS DES SCORES NUTRITIONNELS =====
 
@@ -61,6 +84,13 @@ export const EXPIRY_STATUS_OPTIONS = [
 	{ value: 'UNKNOWN', label: 'Date inconnue', color: 'bg-gray-500', textColor: 'text-gray-700' },
 ] as const;
 
+// ===== TYPES DE DATE DE PÉREMPTION =====
+
+export const EXPIRY_KIND_OPTIONS = [
+	{ value: 'USE_BY' as const, label: 'DLC', description: 'À consommer jusqu’au' },
+	{ value: 'BEST_BEFORE' as const, label: 'DDM', description: 'À consommer de préférence avant' },
+] as const satisfies ReadonlyArray<{ value: ExpiryKind; label: string; description: string }>;
+
 // ===== CONSTANTES NUMÉRIQUES =====
 
 export const INVENTORY_LIMITS = {
@@ -0,0 +1,38 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+
+import { ConsumeInventoryLotDialog } from './ConsumeInventoryLotDialog';
+
+describe('ConsumeInventoryLotDialog', () => {
+	it('consomme une partie du lot, tout le lot par défaut', async () => {
+		const user = userEvent.setup();
+		const onSubmit = vi.fn().mockResolvedValue(undefined);
+
+		render(
+			<ConsumeInventoryLotDialog
+				isOpen
+				onClose={vi.fn()}
+				onSubmit={onSubmit}
+				label='Lasagnes'
+				maxQuantity={3}
+				unitLabel='unité(s)'
+			/>
+		);
+
+		const quantityInput = screen.getByLabelText('Quantité consommée (unité(s))');
+		expect(quantityInput).toHaveValue(3);
+
+		await user.clear(quantityInput);
+		await user.type(quantityInput, '4');
+		expect(screen.getByRole('button', { name: 'Consommer' })).toBeDisabled();
+
+		await user.clear(quantityInput);
+		await user.type(quantityInput, '1');
+		await user.click(screen.getByRole('button', { name: 'Consommer' }));
+
+		await waitFor(() => {
+			expect(onSubmit).toHaveBeenCalledWith(1);
+		});
+	});
+});
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, UtensilsCrossed } from 'lucide-react';
+
+interface ConsumeInventoryLotDialogProps {
+	isOpen: boolean;
+	onClose: () => void;
+	onSubmit: (quantity: number) => Promise<void>;
+	isSubmitting?: boolean;
+	/** Nom du produit consommé */
+	label: string;
+	/** Quantité restante dans le lot */
+	maxQuantity: number;
+	unitLabel: string;
+}
+
+/**
+ * Modal pour consommer tout ou partie d'un lot précis (par exemple un lot
+ * ouvert depuis son étiquette), sans entamer les autres lots du produit
+ */
+export const ConsumeInventoryLotDialog: React.FC<
+	ConsumeInventoryLotDialogProps
+> = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	isSubmitting = false,
+	label,
+	maxQuantity,
+	unitLabel,
+}) => {
+	const [quantity, setQuantity] = useState<number>(maxQuantity);
+
+	// Réinitialiser la quantité à chaque ouverture
+	useEffect(() => {
+		if (isOpen) {
+			setQuantity(maxQuantity);
+		}
+	}, [isOpen, maxQuantity]);
+
+	const isQuantityInvalid = quantity <= 0 || quantity > maxQuantity;
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (isQuantityInvalid) return;
+
+		await onSubmit(quantity);
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={onClose}>
+			<DialogContent className='max-w-md'>
+				<DialogHeader>
+					<DialogTitle className='flex items-center gap-2'>
+						<UtensilsCrossed className='size-5 text-emerald-600' />
+						Consommer {label}
+					</DialogTitle>
+					<DialogDescription>
+						La quantité est retirée de ce lot uniquement.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className='space-y-4'>
+					<div>
+						<Label htmlFor='consumedQuantity'>
+							Quantité consommée ({unitLabel})
+						</Label>
+						<Input
+							id='consumedQuantity'
+							type='number'
+							min='0'
+							max={maxQuantity}
+							step='any'
+							value={quantity}
+							onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
+							className='mt-1'
+						/>
+						<p className='text-xs text-neutral-600 mt-1'>
+							{isQuantityInvalid
+								? `La quantité doit être comprise entre 0 et ${maxQuantity}`
+								: `Sur ${maxQuantity} dans ce lot`}
+						</p>
+					</div>
+
+					<DialogFooter className='gap-2'>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+							disabled={isSubmitting}
+						>
+							Annuler
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSubmitting || isQuantityInvalid}
+							className='bg-emerald-600 text-neutral-50 hover:bg-emerald-700'
+						>
+							{isSubmitting ? (
+								<>
+									<Loader2 className='size-4 mr-2 animate-spin' />
+									En cours...
+								</>
+							) : (
+								'Consommer'
+							)}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+};
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Trash2 } from 'lucide-react';
+import { DiscardInventoryItemData, WasteReason } from '@/schemas';
+import { WASTE_REASON_OPTIONS } from '@/constants/inventory';
+import { formatPrice } from '@/utils/ui-utils';
+
+interface DiscardInventoryItemDialogProps {
+	isOpen: boolean;
+	onClose: () => void;
+	onSubmit: (data: DiscardInventoryItemData) => Promise<void>;
+	isSubmitting?: boolean;
+	/** Libellé de ce qui est jeté (nom du produit ou nombre de lots) */
+	label: string;
+	/** Quantité du lot : active la saisie d'une quantité partielle */
+	maxQuantity?: number;
+	/** Prix d'achat du lot ou de la sélection, pour estimer la perte */
+	purchasePrice?: number;
+	defaultReason?: WasteReason;
+}
+
+/**
+ * Modal pour jeter un lot (ou une sélection de lots) en précisant le motif
+ */
+export const DiscardInventoryItemDialog: React.FC<
+	DiscardInventoryItemDialogProps
+> = ({
+	isOpen,
+	onClose,
+	onSubmit,
+	isSubmitting = false,
+	label,
+	maxQuantity,
+	purchasePrice,
+	defaultReason = 'EXPIRED',
+}) => {
+	const [reason, setReason] = useState<WasteReason>(defaultReason);
+	const [quantity, setQuantity] = useState<number>(maxQuantity ?? 0);
+	const [notes, setNotes] = useState<string>('');
+
+	// Réinitialiser le formulaire à chaque ouverture
+	useEffect(() => {
+		if (isOpen) {
+			setReason(defaultReason);
+			setQuantity(maxQuantity ?? 0);
+			setNotes('');
+		}
+	}, [isOpen, defaultReason, maxQuantity]);
+
+	const isPartial =
+		maxQuantity !== undefined && quantity > 0 && quantity < maxQuantity;
+	const estimatedLoss =
+		purchasePrice !== undefined && purchasePrice > 0
+			? maxQuantity
+				? (purchasePrice * Math.min(quantity, maxQuantity)) / maxQuantity
+				: purchasePrice
+			: undefined;
+	const isQuantityInvalid =
+		maxQuantity !== undefined && (quantity <= 0 || quantity > maxQuantity);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (isQuantityInvalid) return;
+
+		await onSubmit({
+			reason,
+			...(isPartial && { quantity }),
+			notes: notes.trim() || undefined,
+		});
+	};
+
+	return (
+		<Dialog open={isOpen} onOpenChange={onClose}>
+			<DialogContent className='max-w-md'>
+				<DialogHeader>
+					<DialogTitle className='flex items-center gap-2'>
+						<Trash2 className='size-5 text-red-600' />
+						Jeter {label}
+					</DialogTitle>
+					<DialogDescription>
+						Le produit sera retiré de l'inventaire et comptabilisé dans vos
+						statistiques de gaspillage.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className='space-y-4'>
+					<div>
+						<Label htmlFor='wasteReason'>Motif</Label>
+						<Select
+							value={reason}
+							onValueChange={(value) => setReason(value as WasteReason)}
+						>
+							<SelectTrigger id='wasteReason' className='mt-1'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent className='bg-neutral-100'>
+								{WASTE_REASON_OPTIONS.map((option) => (
+									<SelectItem key={option.value} value={option.value}>
+										{option.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					{maxQuantity !== undefined && (
+						<div>
+							<Label htmlFor='wasteQuantity'>Quantité jetée</Label>
+							<Input
+								id='wasteQuantity'
+								type='number'
+								min='0'
+								max={maxQuantity}
+								step='any'
+								value={quantity}
+								onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
+								className='mt-1'
+							/>
+							<p className='text-xs text-neutral-600 mt-1'>
+								{isQuantityInvalid
+									? `La quantité doit être comprise entre 0 et ${maxQuantity}`
+									: `Sur ${maxQuantity} en stock`}
+							</p>
+						</div>
+					)}
+
+					<div>
+						<Label htmlFor='wasteNotes'>Notes</Label>
+						<Textarea
+							id='wasteNotes'
+							value={notes}
+							onChange={(e) => setNotes(e.target.value)}
+							placeholder='Pourquoi ce produit a-t-il été jeté ? (optionnel)'
+							maxLength={500}
+							rows={2}
+							className='mt-1 resize-none'
+						/>
+					</div>
+
+					{estimatedLoss !== undefined && (
+						<p className='rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700'>
+							Valeur perdue estimée : {formatPrice(estimatedLoss)}
+						</p>
+					)}
+
+					<DialogFooter className='gap-2'>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+							disabled={isSubmitting}
+						>
+							Annuler
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSubmitting || isQuantityInvalid}
+							className='bg-red-600 text-neutral-50 hover:bg-red-700'
+						>
+							{isSubmitting ? (
+								<>
+									<Loader2 className='size-4 mr-2 animate-spin' />
+									En cours...
+								</>
+							) : (
+								'Jeter'
+							)}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+};
@@ -18,7 +18,11 @@ import {
 	SelectValue,
 } from '@/components/ui/select';
 import { Loader2, Package, Calendar, MapPin, FileText } from 'lucide-react';
-import { InventoryItemWithStatus, UpdateInventoryItemData } from '@/schemas';
+import {
+	ExpiryKind,
+	InventoryItemWithStatus,
+	UpdateInventoryItemData,
+} from '@/schemas';
 import { getExpirySuggestion } from '@/utils/expiryEstimation';
 import {
 	getProductStateOptions,
@@ -26,6 +30,12 @@ import {
 	PreparationStatus,
 } from '@/utils/productStateOptions';
 import { ProductStateSection } from './form/section/ProductStateSection';
+import { ExpiryKindField } from './form/section/ExpiryKindField';
+import {
+	useStorageGroupResolver,
+	useStorageLocationOptions,
+} from '@/hooks/useStorageLocations';
+import { useShelfLifeOverrides } from '@/hooks/useShelfLifeOverrides';
 
 interface EditInventoryItemModalProps {
 	item: InventoryItemWithStatus | null;
@@ -35,16 +45,6 @@ interface EditInventoryItemModalProps {
 	isSubmitting?: boolean;
 }
 
-// Lieux de stockage prédéfinis
-const STORAGE_LOCATIONS = [
-	{ value: 'refrigerateur', label: 'Réfrigérateur' },
-	{ value: 'congelateur', label: 'Congélateur' },
-	{ value: 'placard', label: 'Placard' },
-	{ value: 'cellier', label: 'Cellier' },
-	{ value: 'cave', label: 'Cave' },
-	{ value: 'autre', label: 'Autre' },
-];
-
 // Fonction pour formater une date au format yyyy-MM-dd
 const formatDate = (dateString: string | undefined): string => {
 	if (!dateString) return '';
@@ -72,12 +72,17 @@ export const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({
 	const [expiryDateSource, setExpiryDateSource] = useState<
 		'MANUAL' | 'ESTIMATED'
 	>('MANUAL');
+	const [expiryKind, setExpiryKind] = useState<ExpiryKind | ''>('');
 	const [purchaseDate, setPurchaseDate] = useState<string>('');
 	const [packageStatus, setPackageStatus] = useState<PackageStatus | ''>('');
 	const [preparationStatus, setPreparationStatus] = useState<
 		PreparationStatus | ''
 	>('');
 	const [notes, setNotes] = useState<string>('');
+	const storageLocationOptions = useStorageLocationOptions(storageLocation);
+	const { data: shelfLifeOverrides } = useShelfLifeOverrides();
+	const resolveStorageGroup = useStorageGroupResolver();
+	const storageGroup = resolveStorageGroup(storageLocation);
 
 	// Initialiser les valeurs du formulaire quand l'item change
 	useEffect(() => {
@@ -86,6 +91,7 @@ export const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({
 			setStorageLocation(item.storageLocation || '');
 			setExpiryDate(formatDate(item.expiryDate));
 			setExpiryDateSource(item.expiryDateSource || 'MANUAL');
+			setExpiryKind(item.expiryKind || '');
 			setPurchaseDate(formatDate(item.purchaseDate));
 			setPackageStatus(item.packageStatus || '');
 			setPreparationStatus(item.preparationStatus || '');
@@ -100,6 +106,7 @@ export const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({
 			setStorageLocation(item.storageLocation || '');
 			setExpiryDate(formatDate(item.expiryDate));
 			setExpiryDateSource(item.expiryDateSource || 'MANUAL');
+			setExpiryKind(item.expiryKind || '');
 			setPurchaseDate(formatDate(item.purchaseDate));
 			setPackageStatus(item.packageStatus || '');
 			setPreparationStatus(item.preparationStatus || '');
@@ -109,13 +116,16 @@ export const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({
 
 	const expirySuggestion = item
 		? getExpirySuggestion({
+				productId: item.product.id,
 				productName: item.product.name,
 				categorySlug: item.product.category?.slug,
 				categoryName: item.product.category?.name,
 				storageLocation,
+				storageGroup,
 				packageStatus: packageStatus || undefined,
 				preparationStatus: preparationStatus || undefined,
 				purchaseDate,
+				userRules: shelfLifeOverrides,
 			})
 		: null;
 
@@ -136,6 +146,7 @@ export const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({
 			categorySlug: item.product.category?.slug,
 			categoryName: item.product.category?.name,
 			storageLocation,
+			storageGroup,
 		});
 
 		const nextPackageStatus = options.showPackageStatus
@@ -151,7 +162,7 @@ export const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({
 		if (nextPreparationStatus !== preparationStatus) {
 			setPreparationStatus(nextPreparationStatus);
 		}
-	}, [item, packageStatus, preparationStatus, storageLocation]);
+	}, [item, packageStatus, preparationStatus, storageLocation, storageGroup]);
 
 	const handleExpiryDateChange = (value: string): void => {
 		setExpiryDate(value);
@@ -183,6 +194,11 @@ export const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({
 			...(expiryDateSource === 'MANUAL' && {
 				expiryDate: expiryDate || undefined,
 			}),
+			// Sans choix explicite, le serveur recalcule le type si l'état change
+			...(expiryKind &&
+				expiryKind !== item.expiryKind && {
+					expiryKind,
+				}),
 			packageStatus: packageStatus || undefined,
 			preparationStatus: preparationStatus || undefined,
 			notes: notes || undefined,
@@ -258,9 +274,9 @@ export const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({
 								<SelectValue placeholder='Sélectionner un lieu' />
 							</SelectTrigger>
 							<SelectContent className='bg-neutral-100'>
-								{STORAGE_LOCATIONS.map((location) => (
-									<SelectItem key={location.value} value={location.value}>
-										{location.label}
+								{storageLocationOptions.map((location) => (
+									<SelectItem key={location} value={location}>
+										{location}
 									</SelectItem>
 								))}
 							</SelectContent>
@@ -317,10 +333,18 @@ export const EditInventoryItemModal: React.FC<EditInventoryItemModalProps> = ({
 						categorySlug={item.product.category?.slug}
 						categoryName={item.product.category?.name}
 						storageLocation={storageLocation}
+						storageGroup={storageGroup}
 						onChange={handleProductStateChange}
 						disabled={isSubmitting}
 					/>
 
+					<ExpiryKindField
+						value={expiryKind}
+						onChange={setExpiryKind}
+						estimatedExpiryKind={expirySuggestion?.expiryKind}
+						disabled={isSubmitting}
+					/>
+
 					{/* Notes */}
 					<div>
 						<Label htmlFor='notes' className='flex items-center gap-2'>
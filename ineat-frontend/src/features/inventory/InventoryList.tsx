@@ -9,6 +9,7 @@ import {
 	CheckCircle,
 	Trash2,
 	X,
+	Printer,
 } from 'lucide-react';
 
 // ===== IMPORTS SCHÉMAS ZOD =====
@@ -23,6 +24,13 @@ import {
 	useInventoryFilters,
 } from '@/stores/inventoryStore';
 
+// ===== IMPORTS HOOKS =====
+import { useStorageLocations } from '@/hooks/useStorageLocations';
+
+// ===== IMPORTS SERVICES =====
+import { inventoryService } from '@/services/inventoryService';
+import { showRemovalUndoToast } from '@/features/inventory/removalUndoToast';
+
 // ===== IMPORTS UTILITAIRES UI =====
 import {
 	formatRelativeDate,
@@ -81,12 +89,14 @@ export function InventoryListPage() {
 	const isLoading = useInventoryLoading();
 	const error = useInventoryError();
 	const currentFilters = useInventoryFilters();
+	const { data: storageLocations = [] } = useStorageLocations();
 	const {
 		fetchInventoryItems,
 		setInventoryFilters,
 		clearInventoryFilters,
 		removeInventoryItem,
 		removeInventoryItems,
+		restoreInventoryItems,
 		clearError,
 	} = useInventoryActions();
 
@@ -148,6 +158,7 @@ export function InventoryListPage() {
 		) {
 			try {
 				await removeInventoryItem(itemId);
+				showRemovalUndoToast([itemId], restoreInventoryItems);
 			} catch (error) {
 				console.error('Erreur lors de la suppression:', error);
 			}
@@ -207,14 +218,37 @@ export function InventoryListPage() {
 			)
 		) {
 			try {
-				await removeInventoryItems([...selectedItemIds]);
+				const removedIds = [...selectedItemIds];
+				await removeInventoryItems(removedIds);
 				closeSelectionMode();
+				showRemovalUndoToast(removedIds, restoreInventoryItems);
 			} catch (error) {
 				console.error('Erreur lors de la suppression groupée:', error);
 			}
 		}
 	};
 
+	// Étiquettes de tous les lots des produits sélectionnés
+	const handlePrintSelectedLabels = () => {
+		const lotIds = items
+			.filter((item) => selectedItemIds.has(item.id))
+			.flatMap((item) =>
+				item.lots && item.lots.length > 0
+					? item.lots.map((lot) => lot.id)
+					: [item.id],
+			);
+		if (lotIds.length === 0) {
+			return;
+		}
+
+		// 50 étiquettes au plus par planche
+		window.open(
+			inventoryService.getLabelsUrl(lotIds.slice(0, 50)),
+			'_blank',
+			'noopener,noreferrer',
+		);
+	};
+
 	// ===== CALCULS DE STATISTIQUES =====
 	const stats = {
 		totalItems: items.length,
@@ -402,9 +436,9 @@ export function InventoryListPage() {
 									className='w-full px-3 py-2 border border-neutral-300 rounded-lg focus:ring-2 focus:ring-accent focus:border-accent'
 								>
 									<option value=''>Tous les lieux</option>
-									{INVENTORY_STORAGE_LOCATIONS.map((loc) => (
-										<option key={loc.value} value={loc.value}>
-											{loc.label}
+									{storageLocations.map((location) => (
+										<option key={location.id} value={location.name}>
+											{location.name}
 										</option>
 									))}
 								</select>
@@ -468,6 +502,15 @@ export function InventoryListPage() {
 								<X className='size-4' />
 								Annuler
 							</button>
+							<button
+								type='button'
+								onClick={handlePrintSelectedLabels}
+								disabled={isLoading || selectedCount === 0}
+								className='inline-flex items-center gap-2 rounded-lg border border-neutral-300 px-3 py-2 text-sm font-medium text-neutral-700 transition-colors hover:bg-neutral-100 disabled:opacity-50'
+							>
+								<Printer className='size-4' />
+								Étiquettes
+							</button>
 							<button
 								type='button'
 								onClick={handleRemoveSelectedItems}
@@ -0,0 +1,68 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+
+import { InventoryLotActionDialog } from './InventoryLotActionDialog';
+
+vi.mock('@/hooks/useStorageLocations', () => ({
+	useStorageLocations: () => ({
+		data: [
+			{ id: 'location-1', name: 'Réfrigérateur', storageGroup: 'fridge', itemCount: 2 },
+			{ id: 'location-2', name: 'Placard', storageGroup: 'pantry', itemCount: 1 },
+			{ id: 'location-3', name: 'Congélateur garage', storageGroup: 'freezer', itemCount: 0 },
+		],
+	}),
+}));
+
+describe('InventoryLotActionDialog', () => {
+	it('sépare une partie du lot au même emplacement par défaut', async () => {
+		const user = userEvent.setup();
+		const onSubmit = vi.fn().mockResolvedValue(undefined);
+
+		render(
+			<InventoryLotActionDialog
+				action='split'
+				onClose={vi.fn()}
+				onSubmit={onSubmit}
+				lotQuantity={4}
+				currentLocation='Réfrigérateur'
+				unitLabel='unité(s)'
+			/>
+		);
+
+		const quantityInput = screen.getByLabelText('Quantité à séparer');
+		expect(quantityInput).toHaveValue(2);
+
+		await user.clear(quantityInput);
+		await user.type(quantityInput, '4');
+		expect(screen.getByRole('button', { name: 'Séparer' })).toBeDisabled();
+
+		await user.clear(quantityInput);
+		await user.type(quantityInput, '1');
+		await user.click(screen.getByRole('button', { name: 'Séparer' }));
+
+		await waitFor(() => {
+			expect(onSubmit).toHaveBeenCalledWith({
+				storageLocation: 'Réfrigérateur',
+				quantity: 1,
+			});
+		});
+	});
+
+	it('demande un emplacement avant de déplacer le lot', () => {
+		render(
+			<InventoryLotActionDialog
+				action='move'
+				onClose={vi.fn()}
+				onSubmit={vi.fn()}
+				lotQuantity={1}
+				currentLocation='Placard'
+				unitLabel='kg'
+			/>
+		);
+
+		expect(screen.getByText('Déplacer le lot')).toBeInTheDocument();
+		expect(screen.queryByLabelText('Quantité à séparer')).not.toBeInTheDocument();
+		expect(screen.getByRole('button', { name: 'Déplacer' })).toBeDisabled();
+	});
+});
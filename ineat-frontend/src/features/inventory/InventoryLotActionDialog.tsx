@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useStorageLocations } from '@/hooks/useStorageLocations';
+
+export type InventoryLotAction = 'move' | 'split';
+
+interface InventoryLotActionDialogProps {
+	action: InventoryLotAction | null;
+	onClose: () => void;
+	onSubmit: (data: {
+		storageLocation: string;
+		quantity?: number;
+	}) => Promise<void>;
+	isSubmitting?: boolean;
+	/** Quantité et lieu actuels du lot */
+	lotQuantity: number;
+	currentLocation?: string | null;
+	unitLabel: string;
+}
+
+/**
+ * Modal pour déplacer un lot ou en séparer une partie. La date de péremption
+ * estimée est recalculée côté serveur pour le nouveau lieu.
+ */
+export const InventoryLotActionDialog: React.FC<
+	InventoryLotActionDialogProps
+> = ({
+	action,
+	onClose,
+	onSubmit,
+	isSubmitting = false,
+	lotQuantity,
+	currentLocation,
+	unitLabel,
+}) => {
+	const { data: storageLocations = [] } = useStorageLocations();
+	const [storageLocation, setStorageLocation] = useState<string>('');
+	const [quantity, setQuantity] = useState<number>(0);
+
+	// Réinitialiser le formulaire à chaque ouverture
+	useEffect(() => {
+		if (action) {
+			setStorageLocation(action === 'split' ? currentLocation ?? '' : '');
+			setQuantity(Math.round((lotQuantity / 2) * 100) / 100);
+		}
+	}, [action, currentLocation, lotQuantity]);
+
+	const isSplit = action === 'split';
+	const isQuantityInvalid = isSplit && (quantity <= 0 || quantity >= lotQuantity);
+	const isLocationInvalid =
+		!storageLocation || (!isSplit && storageLocation === currentLocation);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (isQuantityInvalid || isLocationInvalid) return;
+
+		await onSubmit({
+			storageLocation,
+			...(isSplit && { quantity }),
+		});
+	};
+
+	return (
+		<Dialog open={action !== null} onOpenChange={onClose}>
+			<DialogContent className='max-w-md'>
+				<DialogHeader>
+					<DialogTitle>
+						{isSplit ? 'Séparer le lot' : 'Déplacer le lot'}
+					</DialogTitle>
+					<DialogDescription>
+						{isSplit
+							? 'Une partie du lot passe dans un nouveau lot, rangé où vous voulez.'
+							: 'La date de péremption estimée sera recalculée pour le nouvel emplacement.'}
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className='space-y-4'>
+					{isSplit && (
+						<div>
+							<Label htmlFor='splitQuantity'>Quantité à séparer</Label>
+							<Input
+								id='splitQuantity'
+								type='number'
+								min='0'
+								max={lotQuantity}
+								step='any'
+								value={quantity}
+								onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
+								className='mt-1'
+							/>
+							<p className='text-xs text-neutral-600 mt-1'>
+								{isQuantityInvalid
+									? `La quantité doit être comprise entre 0 et ${lotQuantity} ${unitLabel} (exclus)`
+									: `Sur ${lotQuantity} ${unitLabel} dans ce lot`}
+							</p>
+						</div>
+					)}
+
+					<div>
+						<Label htmlFor='lotStorageLocation'>
+							{isSplit ? 'Ranger le nouveau lot' : 'Nouvel emplacement'}
+						</Label>
+						<Select value={storageLocation} onValueChange={setStorageLocation}>
+							<SelectTrigger id='lotStorageLocation' className='mt-1'>
+								<SelectValue placeholder='Choisir un emplacement' />
+							</SelectTrigger>
+							<SelectContent className='bg-neutral-100'>
+								{storageLocations.map((location) => (
+									<SelectItem key={location.id} value={location.name}>
+										{location.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					<DialogFooter className='gap-2'>
+						<Button
+							type='button'
+							variant='outline'
+							onClick={onClose}
+							disabled={isSubmitting}
+						>
+							Annuler
+						</Button>
+						<Button
+							type='submit'
+							disabled={isSubmitting || isQuantityInvalid || isLocationInvalid}
+						>
+							{isSubmitting ? (
+								<>
+									<Loader2 className='size-4 mr-2 animate-spin' />
+									En cours...
+								</>
+							) : isSplit ? (
+								'Séparer'
+							) : (
+								'Déplacer'
+							)}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+};
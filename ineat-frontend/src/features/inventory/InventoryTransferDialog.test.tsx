@@ -0,0 +1,115 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { InventoryTransferDialog } from './InventoryTransferDialog';
+import { inventoryService } from '@/services/inventoryService';
+
+vi.mock('sonner', () => ({
+	toast: {
+		error: vi.fn(),
+		success: vi.fn(),
+	},
+}));
+
+vi.mock('@/services/inventoryService', () => ({
+	inventoryService: {
+		getExportUrl: (format: string) =>
+			`http://api.test/inventory/export?format=${format}`,
+		importInventory: vi.fn(),
+	},
+}));
+
+const csv = [
+	'product,barcode,category,quantity,unit',
+	'Lait,3263859672014,,2,',
+	'Pâtes,,epicerie,1,',
+].join('\n');
+
+const preview = {
+	dryRun: true,
+	summary: { total: 2, valid: 1, invalid: 1, imported: 0, failed: 0 },
+	rows: [
+		{
+			row: 1,
+			product: 'Lait',
+			barcode: '3263859672014',
+			action: 'add_existing',
+			status: 'valid',
+			errors: [],
+		},
+		{
+			row: 2,
+			product: 'Pâtes',
+			barcode: null,
+			action: 'create_product',
+			status: 'invalid',
+			errors: ["Le type d'unité doit être valide (KG, G, L, ML, UNIT)"],
+		},
+	],
+};
+
+describe('InventoryTransferDialog', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("propose l'export CSV et JSON", () => {
+		render(
+			<InventoryTransferDialog isOpen onClose={vi.fn()} onImported={vi.fn()} />
+		);
+
+		expect(screen.getByRole('link', { name: 'CSV' })).toHaveAttribute(
+			'href',
+			'http://api.test/inventory/export?format=csv'
+		);
+		expect(screen.getByRole('link', { name: 'JSON' })).toHaveAttribute(
+			'href',
+			'http://api.test/inventory/export?format=json'
+		);
+	});
+
+	it('prévisualise le fichier puis importe les lignes valides', async () => {
+		const user = userEvent.setup();
+		const onImported = vi.fn();
+		const onClose = vi.fn();
+		(inventoryService.importInventory as ReturnType<typeof vi.fn>)
+			.mockResolvedValueOnce(preview)
+			.mockResolvedValueOnce({
+				...preview,
+				dryRun: false,
+				summary: { ...preview.summary, valid: 0, imported: 1 },
+			});
+
+		render(
+			<InventoryTransferDialog
+				isOpen
+				onClose={onClose}
+				onImported={onImported}
+			/>
+		);
+
+		await user.upload(
+			screen.getByLabelText('Importer un fichier'),
+			new File([csv], 'inventaire.csv', { type: 'text/csv' })
+		);
+
+		expect(await screen.findByText(/Ligne 2 \(Pâtes\)/)).toBeInTheDocument();
+		expect(inventoryService.importInventory).toHaveBeenCalledWith({
+			format: 'csv',
+			content: csv,
+			dryRun: true,
+		});
+
+		await user.click(screen.getByRole('button', { name: /Importer 1 ligne/ }));
+
+		await waitFor(() => {
+			expect(inventoryService.importInventory).toHaveBeenLastCalledWith({
+				format: 'csv',
+				content: csv,
+			});
+			expect(onImported).toHaveBeenCalled();
+			expect(onClose).toHaveBeenCalled();
+		});
+	});
+});
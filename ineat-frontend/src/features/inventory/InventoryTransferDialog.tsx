@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Download, FileUp, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+	inventoryService,
+	type InventoryImportResult,
+	type InventoryTransferFormat,
+} from '@/services/inventoryService';
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+
+interface InventoryTransferDialogProps {
+	isOpen: boolean;
+	onClose: () => void;
+	/** Appelé après un import pour recharger l'inventaire */
+	onImported: () => void;
+}
+
+interface SelectedFile {
+	name: string;
+	format: InventoryTransferFormat;
+	content: string;
+}
+
+const getFileFormat = (fileName: string): InventoryTransferFormat =>
+	fileName.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+
+/**
+ * Modal d'export de l'inventaire et d'import de lots depuis un fichier
+ * CSV ou JSON, avec un aperçu ligne par ligne avant l'ajout
+ */
+export const InventoryTransferDialog: React.FC<InventoryTransferDialogProps> = ({
+	isOpen,
+	onClose,
+	onImported,
+}) => {
+	const [file, setFile] = useState<SelectedFile | null>(null);
+	const [preview, setPreview] = useState<InventoryImportResult | null>(null);
+	const [isChecking, setIsChecking] = useState(false);
+	const [isImporting, setIsImporting] = useState(false);
+
+	// Réinitialiser l'import à chaque ouverture
+	useEffect(() => {
+		if (isOpen) {
+			setFile(null);
+			setPreview(null);
+		}
+	}, [isOpen]);
+
+	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const selected = e.target.files?.[0];
+		if (!selected) return;
+
+		const nextFile = {
+			name: selected.name,
+			format: getFileFormat(selected.name),
+			content: await selected.text(),
+		};
+		setFile(nextFile);
+		setPreview(null);
+		setIsChecking(true);
+
+		try {
+			setPreview(
+				await inventoryService.importInventory({
+					format: nextFile.format,
+					content: nextFile.content,
+					dryRun: true,
+				})
+			);
+		} catch (error) {
+			toast.error('Fichier illisible', {
+				description: getUserFacingErrorMessage(
+					error,
+					'Impossible de lire ce fichier.'
+				),
+			});
+		} finally {
+			setIsChecking(false);
+		}
+	};
+
+	const handleImport = async () => {
+		if (!file) return;
+
+		setIsImporting(true);
+		try {
+			const result = await inventoryService.importInventory({
+				format: file.format,
+				content: file.content,
+			});
+			const rejected = result.summary.invalid + result.summary.failed;
+
+			toast.success(`${result.summary.imported} lot(s) importé(s)`, {
+				description:
+					rejected > 0 ? `${rejected} ligne(s) ignorée(s)` : undefined,
+			});
+			onImported();
+			onClose();
+		} catch (error) {
+			toast.error("Échec de l'import", {
+				description: getUserFacingErrorMessage(
+					error,
+					"Impossible d'importer ce fichier."
+				),
+			});
+		} finally {
+			setIsImporting(false);
+		}
+	};
+
+	const rowsWithErrors = preview?.rows.filter((row) => row.errors.length > 0);
+
+	return (
+		<Dialog open={isOpen} onOpenChange={onClose}>
+			<DialogContent className='max-w-lg'>
+				<DialogHeader>
+					<DialogTitle>Exporter ou importer</DialogTitle>
+					<DialogDescription>
+						Un lot par ligne : produit, marque, code-barres, catégorie,
+						quantité, unité, dates, lieu de stockage, prix et notes.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className='space-y-5'>
+					<div>
+						<p className='text-sm font-medium text-gray-900 mb-2'>
+							Exporter mon inventaire
+						</p>
+						<div className='flex gap-2'>
+							{(['csv', 'json'] as const).map((format) => (
+								<a
+									key={format}
+									href={inventoryService.getExportUrl(format)}
+									download
+									className='flex items-center gap-2 rounded-xl border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 transition-colors'
+								>
+									<Download className='size-4' />
+									{format.toUpperCase()}
+								</a>
+							))}
+						</div>
+					</div>
+
+					<div>
+						<Label htmlFor='inventoryImportFile'>Importer un fichier</Label>
+						<input
+							id='inventoryImportFile'
+							type='file'
+							accept='.csv,.json,text/csv,application/json'
+							onChange={handleFileChange}
+							className='mt-1 block w-full text-sm text-gray-700 file:mr-3 file:rounded-lg file:border-0 file:bg-gray-100 file:px-3 file:py-2 file:text-sm file:font-medium'
+						/>
+						<p className='text-xs text-neutral-600 mt-1'>
+							Les produits sont retrouvés par code-barres ; sinon le nom, la
+							catégorie et l'unité sont requis.
+						</p>
+					</div>
+
+					{isChecking && (
+						<p className='flex items-center gap-2 text-sm text-gray-600'>
+							<Loader2 className='size-4 animate-spin' />
+							Vérification du fichier...
+						</p>
+					)}
+
+					{preview && (
+						<div className='space-y-2'>
+							<p className='text-sm text-gray-900'>
+								{preview.summary.valid} ligne(s) prête(s) à importer sur{' '}
+								{preview.summary.total}
+							</p>
+							{rowsWithErrors && rowsWithErrors.length > 0 && (
+								<ul className='max-h-48 overflow-y-auto space-y-1 rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700'>
+									{rowsWithErrors.map((row) => (
+										<li key={row.row} className='flex gap-2'>
+											<AlertTriangle className='size-4 mt-0.5 shrink-0' />
+											<span>
+												Ligne {row.row}
+												{row.product ? ` (${row.product})` : ''} :{' '}
+												{row.errors.join(', ')}
+											</span>
+										</li>
+									))}
+								</ul>
+							)}
+						</div>
+					)}
+				</div>
+
+				<DialogFooter className='gap-2'>
+					<Button
+						type='button'
+						variant='outline'
+						onClick={onClose}
+						disabled={isImporting}
+					>
+						Fermer
+					</Button>
+					<Button
+						type='button'
+						onClick={handleImport}
+						disabled={
+							!preview || preview.summary.valid === 0 || isImporting
+						}
+					>
+						{isImporting ? (
+							<>
+								<Loader2 className='size-4 mr-2 animate-spin' />
+								Import...
+							</>
+						) : (
+							<>
+								<FileUp className='size-4 mr-2' />
+								Importer
+								{preview ? ` ${preview.summary.valid} ligne(s)` : ''}
+							</>
+						)}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+};
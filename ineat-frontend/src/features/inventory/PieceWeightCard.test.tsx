@@ -0,0 +1,90 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PieceWeightCard } from './PieceWeightCard';
+import { inventoryService } from '@/services/inventoryService';
+
+vi.mock('sonner', () => ({
+	toast: {
+		error: vi.fn(),
+		success: vi.fn(),
+	},
+}));
+
+vi.mock('@/services/inventoryService', () => ({
+	inventoryService: {
+		setProductPieceWeight: vi.fn(),
+	},
+}));
+
+function renderPieceWeightCard(pieceWeight: number | null, onSaved = vi.fn()) {
+	const queryClient = new QueryClient({
+		defaultOptions: {
+			queries: { retry: false },
+			mutations: { retry: false },
+		},
+	});
+
+	render(
+		<QueryClientProvider client={queryClient}>
+			<PieceWeightCard
+				productId='product-1'
+				pieceWeight={pieceWeight}
+				onSaved={onSaved}
+			/>
+		</QueryClientProvider>
+	);
+
+	return onSaved;
+}
+
+describe('PieceWeightCard', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('enregistre le poids d’une pièce du produit', async () => {
+		const user = userEvent.setup();
+		vi.mocked(inventoryService.setProductPieceWeight).mockResolvedValue({
+			id: 'product-1',
+			name: 'Œufs',
+			unitType: 'UNIT',
+			pieceWeight: 60,
+		});
+		const onSaved = renderPieceWeightCard(null);
+
+		await user.type(screen.getByLabelText('Poids d’une pièce'), '60');
+		await user.click(screen.getByRole('button', { name: 'Enregistrer' }));
+
+		await waitFor(() => {
+			expect(inventoryService.setProductPieceWeight).toHaveBeenCalledWith(
+				'product-1',
+				60
+			);
+			expect(onSaved).toHaveBeenCalled();
+		});
+	});
+
+	it('retire le poids d’une pièce existant', async () => {
+		const user = userEvent.setup();
+		vi.mocked(inventoryService.setProductPieceWeight).mockResolvedValue({
+			id: 'product-1',
+			name: 'Œufs',
+			unitType: 'UNIT',
+			pieceWeight: null,
+		});
+		renderPieceWeightCard(60);
+
+		expect(screen.getByLabelText('Poids d’une pièce')).toHaveValue(60);
+		await user.click(screen.getByRole('button', { name: 'Retirer' }));
+
+		await waitFor(() => {
+			expect(inventoryService.setProductPieceWeight).toHaveBeenCalledWith(
+				'product-1',
+				null
+			);
+		});
+	});
+});
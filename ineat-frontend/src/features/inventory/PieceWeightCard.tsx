@@ -0,0 +1,105 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Scale } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { inventoryService } from '@/services/inventoryService';
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+
+interface PieceWeightCardProps {
+	productId: string;
+	pieceWeight?: number | null;
+	onSaved?: () => void;
+}
+
+/**
+ * Poids d'une pièce d'un produit compté à l'unité : il permet de consommer
+ * ou de cuisiner en grammes un produit suivi en pièces (et inversement).
+ */
+export const PieceWeightCard: FC<PieceWeightCardProps> = ({
+	productId,
+	pieceWeight,
+	onSaved,
+}) => {
+	const [draft, setDraft] = useState<string | null>(null);
+	const value = draft ?? (pieceWeight ? String(pieceWeight) : '');
+
+	const saveMutation = useMutation({
+		mutationFn: (nextPieceWeight: number | null) =>
+			inventoryService.setProductPieceWeight(productId, nextPieceWeight),
+		onSuccess: (saved) => {
+			setDraft(null);
+			onSaved?.();
+			toast.success(
+				saved.pieceWeight
+					? 'Poids d’une pièce enregistré'
+					: 'Poids d’une pièce retiré'
+			);
+		},
+		onError: (error) =>
+			toast.error('Action impossible', {
+				description: getUserFacingErrorMessage(
+					error,
+					'Impossible d’enregistrer le poids d’une pièce.'
+				),
+			}),
+	});
+
+	const handleSubmit = (event: FormEvent) => {
+		event.preventDefault();
+		const nextPieceWeight = parseFloat(value.replace(',', '.'));
+		if (!(nextPieceWeight > 0)) return;
+		saveMutation.mutate(nextPieceWeight);
+	};
+
+	return (
+		<Card className='relative overflow-hidden border-0 bg-gradient-to-br from-white to-emerald-50/50 shadow-xl'>
+			<CardContent className='p-6'>
+				<div className='flex items-center gap-3 mb-4'>
+					<div className='p-2 rounded-xl bg-emerald-50 border border-emerald-200'>
+						<Scale className='size-5 text-emerald-600' />
+					</div>
+					<div>
+						<h3 className='font-bold text-gray-900'>Poids d’une pièce</h3>
+						<p className='text-sm text-gray-600'>
+							Pour convertir les grammes des recettes en pièces
+						</p>
+					</div>
+				</div>
+
+				<form onSubmit={handleSubmit} className='flex flex-wrap items-center gap-2'>
+					<Input
+						aria-label='Poids d’une pièce'
+						type='number'
+						min='0.1'
+						step='any'
+						placeholder='Ex. 60'
+						value={value}
+						onChange={(event) => setDraft(event.target.value)}
+						className='w-28'
+					/>
+					<span className='text-sm text-gray-600'>g ou mL</span>
+					<Button
+						type='submit'
+						size='sm'
+						disabled={saveMutation.isPending || !(parseFloat(value) > 0)}>
+						Enregistrer
+					</Button>
+					{pieceWeight ? (
+						<Button
+							type='button'
+							variant='ghost'
+							size='sm'
+							disabled={saveMutation.isPending}
+							onClick={() => saveMutation.mutate(null)}>
+							Retirer
+						</Button>
+					) : null}
+				</form>
+			</CardContent>
+		</Card>
+	);
+};
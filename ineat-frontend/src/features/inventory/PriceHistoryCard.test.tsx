@@ -0,0 +1,123 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PriceHistoryCard } from './PriceHistoryCard';
+import {
+	inventoryService,
+	type ProductPriceHistory,
+} from '@/services/inventoryService';
+
+vi.mock('@/services/inventoryService', () => ({
+	inventoryService: {
+		getProductPriceHistory: vi.fn(),
+	},
+}));
+
+const entry = (
+	id: string,
+	merchantName: string | null,
+	unitPrice: number,
+	isAboveUsualPrice = false,
+	differencePercent: number | null = 0
+) => ({
+	id,
+	source: merchantName ? ('INVOICE' as const) : ('MANUAL' as const),
+	merchantName,
+	quantity: 0.25,
+	totalPrice: unitPrice / 4,
+	unitPrice,
+	purchasedAt: '2026-05-01T00:00:00.000Z',
+	differencePercent,
+	isAboveUsualPrice,
+});
+
+const history: ProductPriceHistory = {
+	productId: 'product-1',
+	referenceUnit: 'KG',
+	usualPrice: 10.2,
+	summary: {
+		purchaseCount: 3,
+		minPrice: 10,
+		maxPrice: 14,
+		averagePrice: 11.47,
+		latestPrice: 14,
+	},
+	byMerchant: [
+		{
+			merchantName: 'Carrefour',
+			purchaseCount: 2,
+			minPrice: 10,
+			maxPrice: 10.4,
+			averagePrice: 10.2,
+			latestPrice: 10.4,
+		},
+		{
+			merchantName: null,
+			purchaseCount: 1,
+			minPrice: 14,
+			maxPrice: 14,
+			averagePrice: 14,
+			latestPrice: 14,
+		},
+	],
+	entries: [
+		entry('price-1', 'Carrefour', 10, false, -2),
+		entry('price-2', 'Carrefour', 10.4, false, 2),
+		entry('price-3', null, 14, true, 37),
+	],
+};
+
+function renderPriceHistoryCard() {
+	const queryClient = new QueryClient({
+		defaultOptions: { queries: { retry: false } },
+	});
+
+	return render(
+		<QueryClientProvider client={queryClient}>
+			<PriceHistoryCard productId='product-1' />
+		</QueryClientProvider>
+	);
+}
+
+describe('PriceHistoryCard', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('affiche les prix au kilo par enseigne et signale un achat trop cher', async () => {
+		vi.mocked(inventoryService.getProductPriceHistory).mockResolvedValue(
+			history
+		);
+
+		renderPriceHistoryCard();
+
+		expect(await screen.findByText('Historique des prix')).toBeInTheDocument();
+		expect(
+			screen.getByText('Dernier achat 37% plus cher que d\'habitude')
+		).toBeInTheDocument();
+		expect(screen.getByText('Carrefour')).toBeInTheDocument();
+		expect(screen.getAllByText('Saisie manuelle')).not.toHaveLength(0);
+		expect(screen.getAllByTestId('price-history-bar')).toHaveLength(3);
+		expect(screen.getByText(/habituellement 10,20\s€\/kg/)).toBeInTheDocument();
+	});
+
+	it("ne s'affiche pas sans achat valorisé", async () => {
+		vi.mocked(inventoryService.getProductPriceHistory).mockResolvedValue({
+			...history,
+			usualPrice: null,
+			summary: null,
+			byMerchant: [],
+			entries: [],
+		});
+
+		const { container } = renderPriceHistoryCard();
+
+		await vi.waitFor(() =>
+			expect(inventoryService.getProductPriceHistory).toHaveBeenCalledWith(
+				'product-1'
+			)
+		);
+		expect(container).toBeEmptyDOMElement();
+	});
+});
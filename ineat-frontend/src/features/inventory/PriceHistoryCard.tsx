@@ -0,0 +1,168 @@
+import type { FC } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Store, TrendingUp } from 'lucide-react';
+
+import { Card, CardContent } from '@/components/ui/card';
+import {
+	inventoryService,
+	type ProductPriceHistory,
+} from '@/services/inventoryService';
+import { formatDate, formatPrice } from '@/utils/ui-utils';
+
+// Achats affichés dans le graphique, du plus ancien au plus récent
+const MAX_CHART_ENTRIES = 12;
+
+const REFERENCE_UNIT_LABELS: Record<
+	ProductPriceHistory['referenceUnit'],
+	string
+> = {
+	KG: '/kg',
+	L: '/l',
+	UNIT: '/pièce',
+};
+
+interface PriceHistoryCardProps {
+	productId: string;
+}
+
+/**
+ * Historique des prix payés pour un produit, ramenés au kilo, au litre ou à
+ * la pièce : graphique des derniers achats, prix min/max/dernier et détail
+ * par enseigne. Les achats nettement plus chers que d'habitude ressortent.
+ */
+export const PriceHistoryCard: FC<PriceHistoryCardProps> = ({ productId }) => {
+	const { data: history } = useQuery({
+		queryKey: ['inventory', 'price-history', productId],
+		queryFn: () => inventoryService.getProductPriceHistory(productId),
+	});
+
+	if (!history?.summary) {
+		return null;
+	}
+
+	const unitLabel = REFERENCE_UNIT_LABELS[history.referenceUnit];
+	const chartEntries = history.entries.slice(-MAX_CHART_ENTRIES);
+	const highestPrice = Math.max(
+		...chartEntries.map((entry) => entry.unitPrice),
+		history.usualPrice ?? 0,
+	);
+	const latestEntry = history.entries[history.entries.length - 1];
+	const expensiveEntries = history.entries
+		.filter((entry) => entry.isAboveUsualPrice)
+		.slice(-3)
+		.reverse();
+
+	return (
+		<Card className='relative overflow-hidden border-0 bg-gradient-to-br from-white to-emerald-50/50 shadow-xl'>
+			<CardContent className='p-6 space-y-5'>
+				<div className='flex items-center gap-3'>
+					<div className='p-2 rounded-xl bg-emerald-50 border border-emerald-200'>
+						<TrendingUp className='size-5 text-emerald-600' />
+					</div>
+					<div>
+						<h3 className='font-bold text-gray-900'>Historique des prix</h3>
+						<p className='text-sm text-gray-600'>
+							{history.summary.purchaseCount} achat
+							{history.summary.purchaseCount > 1 ? 's' : ''} suivi
+							{history.summary.purchaseCount > 1 ? 's' : ''}
+							{history.usualPrice !== null &&
+								` · habituellement ${formatPrice(history.usualPrice)}${unitLabel}`}
+						</p>
+					</div>
+				</div>
+
+				{latestEntry?.isAboveUsualPrice && (
+					<p className='rounded-lg bg-orange-100 px-3 py-2 text-sm font-medium text-orange-800'>
+						Dernier achat {latestEntry.differencePercent}% plus cher que
+						d'habitude
+					</p>
+				)}
+
+				<div className='grid grid-cols-3 gap-3'>
+					{[
+						{ label: 'Minimum', value: history.summary.minPrice },
+						{ label: 'Maximum', value: history.summary.maxPrice },
+						{ label: 'Dernier', value: history.summary.latestPrice },
+					].map((stat) => (
+						<div key={stat.label} className='rounded-xl bg-emerald-50 px-3 py-2'>
+							<p className='text-lg font-bold text-emerald-700'>
+								{formatPrice(stat.value)}
+								<span className='text-xs font-medium'>{unitLabel}</span>
+							</p>
+							<p className='text-xs text-emerald-700/80'>{stat.label}</p>
+						</div>
+					))}
+				</div>
+
+				<div
+					className='relative flex h-24 items-end gap-1.5'
+					aria-label='Prix des derniers achats'
+				>
+					{history.usualPrice !== null && highestPrice > 0 && (
+						<div
+							className='absolute inset-x-0 border-t border-dashed border-gray-400'
+							style={{ bottom: `${(history.usualPrice / highestPrice) * 100}%` }}
+							title={`Prix habituel : ${formatPrice(history.usualPrice)}${unitLabel}`}
+						/>
+					)}
+					{chartEntries.map((entry) => (
+						<div
+							key={entry.id}
+							data-testid='price-history-bar'
+							className={`flex-1 rounded-t-md ${
+								entry.isAboveUsualPrice ? 'bg-orange-400' : 'bg-emerald-400/80'
+							}`}
+							style={{
+								height: `${highestPrice > 0 ? Math.max((entry.unitPrice / highestPrice) * 100, 4) : 0}%`,
+							}}
+							title={`${formatDate(entry.purchasedAt)} · ${entry.merchantName ?? 'Saisie manuelle'} : ${formatPrice(entry.unitPrice)}${unitLabel}`}
+						/>
+					))}
+				</div>
+
+				{expensiveEntries.length > 0 && (
+					<div className='space-y-1'>
+						<p className='text-sm font-medium text-gray-700'>
+							Achats plus chers que d'habitude
+						</p>
+						{expensiveEntries.map((entry) => (
+							<p key={entry.id} className='text-xs text-orange-700'>
+								{formatDate(entry.purchasedAt)} ·{' '}
+								{entry.merchantName ?? 'Saisie manuelle'} :{' '}
+								{formatPrice(entry.unitPrice)}
+								{unitLabel} (+{entry.differencePercent}%)
+							</p>
+						))}
+					</div>
+				)}
+
+				{history.byMerchant.length > 0 && (
+					<div className='space-y-2'>
+						<p className='text-sm font-medium text-gray-700'>Par enseigne</p>
+						{history.byMerchant.map((merchant) => (
+							<div
+								key={merchant.merchantName ?? 'manual'}
+								className='flex items-center justify-between text-sm'
+							>
+								<span className='flex items-center gap-2 text-gray-600'>
+									<Store className='size-3.5' />
+									{merchant.merchantName ?? 'Saisie manuelle'}
+								</span>
+								<span className='text-gray-900'>
+									<span className='font-semibold'>
+										{formatPrice(merchant.latestPrice)}
+										{unitLabel}
+									</span>{' '}
+									<span className='text-xs text-gray-500'>
+										({formatPrice(merchant.minPrice)} –{' '}
+										{formatPrice(merchant.maxPrice)})
+									</span>
+								</span>
+							</div>
+						))}
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
@@ -0,0 +1,98 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { StockLevelCard } from './StockLevelCard';
+import { inventoryService } from '@/services/inventoryService';
+
+vi.mock('sonner', () => ({
+	toast: {
+		error: vi.fn(),
+		success: vi.fn(),
+	},
+}));
+
+vi.mock('@/services/inventoryService', () => ({
+	inventoryService: {
+		getStockLevels: vi.fn(),
+		setStockLevel: vi.fn(),
+		removeStockLevel: vi.fn(),
+	},
+}));
+
+const stockLevel = {
+	productId: 'product-1',
+	minimumQuantity: 2,
+	currentQuantity: 1,
+	isLow: true,
+	product: { id: 'product-1', name: 'Lait', brand: null, unitType: 'L' },
+};
+
+function renderStockLevelCard(currentQuantity = 1) {
+	const queryClient = new QueryClient({
+		defaultOptions: {
+			queries: { retry: false },
+			mutations: { retry: false },
+		},
+	});
+
+	return render(
+		<QueryClientProvider client={queryClient}>
+			<StockLevelCard
+				productId='product-1'
+				productName='Lait'
+				unitType='L'
+				currentQuantity={currentQuantity}
+			/>
+		</QueryClientProvider>
+	);
+}
+
+describe('StockLevelCard', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(inventoryService.getStockLevels as ReturnType<typeof vi.fn>).mockResolvedValue(
+			[]
+		);
+	});
+
+	it('enregistre un stock minimum pour le produit', async () => {
+		const user = userEvent.setup();
+		(inventoryService.setStockLevel as ReturnType<typeof vi.fn>).mockResolvedValue(
+			stockLevel
+		);
+
+		renderStockLevelCard();
+
+		await user.type(screen.getByLabelText('Stock minimum'), '2');
+		await user.click(screen.getByRole('button', { name: 'Enregistrer' }));
+
+		await waitFor(() => {
+			expect(inventoryService.setStockLevel).toHaveBeenCalledWith('product-1', 2);
+		});
+	});
+
+	it('signale un stock bas et permet de retirer le seuil', async () => {
+		const user = userEvent.setup();
+		(inventoryService.getStockLevels as ReturnType<typeof vi.fn>).mockResolvedValue(
+			[stockLevel]
+		);
+		(
+			inventoryService.removeStockLevel as ReturnType<typeof vi.fn>
+		).mockResolvedValue(undefined);
+
+		renderStockLevelCard();
+
+		expect(
+			await screen.findByText('Stock bas : pensez à en racheter')
+		).toBeInTheDocument();
+		expect(screen.getByLabelText('Stock minimum')).toHaveValue(2);
+
+		await user.click(screen.getByRole('button', { name: 'Retirer' }));
+
+		await waitFor(() => {
+			expect(inventoryService.removeStockLevel).toHaveBeenCalledWith('product-1');
+		});
+	});
+});
@@ -0,0 +1,155 @@
+import { useState, type FC, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BellRing, PackageMinus } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { inventoryService } from '@/services/inventoryService';
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+
+const STOCK_LEVELS_QUERY_KEY = ['inventory', 'stock-levels'];
+
+const UNIT_LABELS: Record<string, string> = {
+	KG: 'kg',
+	G: 'g',
+	L: 'L',
+	ML: 'mL',
+	UNIT: 'unité(s)',
+};
+
+interface StockLevelCardProps {
+	productId: string;
+	productName: string;
+	unitType: string;
+	currentQuantity: number;
+}
+
+/**
+ * Stock minimum d'un produit : sous ce seuil (tous lots confondus), une
+ * notification « Stock bas » est émise.
+ */
+export const StockLevelCard: FC<StockLevelCardProps> = ({
+	productId,
+	productName,
+	unitType,
+	currentQuantity,
+}) => {
+	const queryClient = useQueryClient();
+	const [draft, setDraft] = useState<string | null>(null);
+
+	const { data: stockLevels = [] } = useQuery({
+		queryKey: STOCK_LEVELS_QUERY_KEY,
+		queryFn: inventoryService.getStockLevels,
+	});
+	const stockLevel = stockLevels.find((level) => level.productId === productId);
+	const value = draft ?? (stockLevel ? String(stockLevel.minimumQuantity) : '');
+	const unitLabel = UNIT_LABELS[unitType] ?? unitType.toLowerCase();
+
+	const onSettled = () => {
+		setDraft(null);
+		queryClient.invalidateQueries({ queryKey: STOCK_LEVELS_QUERY_KEY });
+		queryClient.invalidateQueries({ queryKey: ['notifications'] });
+	};
+
+	const saveMutation = useMutation({
+		mutationFn: (minimumQuantity: number) =>
+			inventoryService.setStockLevel(productId, minimumQuantity),
+		onSuccess: (saved) => {
+			onSettled();
+			toast.success(
+				saved.isLow
+					? `${productName} est déjà sous son stock minimum`
+					: 'Stock minimum enregistré'
+			);
+		},
+		onError: (error) =>
+			toast.error('Action impossible', {
+				description: getUserFacingErrorMessage(
+					error,
+					'Impossible d’enregistrer le stock minimum.'
+				),
+			}),
+	});
+
+	const removeMutation = useMutation({
+		mutationFn: () => inventoryService.removeStockLevel(productId),
+		onSuccess: () => {
+			onSettled();
+			toast.success('Stock minimum retiré');
+		},
+		onError: (error) =>
+			toast.error('Action impossible', {
+				description: getUserFacingErrorMessage(
+					error,
+					'Impossible de retirer le stock minimum.'
+				),
+			}),
+	});
+
+	const handleSubmit = (event: FormEvent) => {
+		event.preventDefault();
+		const minimumQuantity = parseFloat(value.replace(',', '.'));
+		if (!(minimumQuantity > 0)) return;
+		saveMutation.mutate(minimumQuantity);
+	};
+
+	const isLow = stockLevel ? currentQuantity < stockLevel.minimumQuantity : false;
+	const isPending = saveMutation.isPending || removeMutation.isPending;
+
+	return (
+		<Card className='relative overflow-hidden border-0 bg-gradient-to-br from-white to-amber-50/50 shadow-xl'>
+			<CardContent className='p-6'>
+				<div className='flex items-center gap-3 mb-4'>
+					<div className='p-2 rounded-xl bg-amber-50 border border-amber-200'>
+						<PackageMinus className='size-5 text-amber-600' />
+					</div>
+					<div>
+						<h3 className='font-bold text-gray-900'>Stock minimum</h3>
+						<p className='text-sm text-gray-600'>
+							Soyez alerté quand il en reste moins que ce seuil
+						</p>
+					</div>
+				</div>
+
+				{isLow && (
+					<p className='mb-3 flex items-center gap-2 rounded-lg bg-amber-100 px-3 py-2 text-sm font-medium text-amber-800'>
+						<BellRing className='size-4' />
+						Stock bas : pensez à en racheter
+					</p>
+				)}
+
+				<form onSubmit={handleSubmit} className='flex flex-wrap items-center gap-2'>
+					<Input
+						aria-label='Stock minimum'
+						type='number'
+						min='0.01'
+						step='any'
+						placeholder='Ex. 2'
+						value={value}
+						onChange={(event) => setDraft(event.target.value)}
+						className='w-28'
+					/>
+					<span className='text-sm text-gray-600'>{unitLabel}</span>
+					<Button
+						type='submit'
+						size='sm'
+						disabled={isPending || !(parseFloat(value) > 0)}>
+						Enregistrer
+					</Button>
+					{stockLevel && (
+						<Button
+							type='button'
+							variant='ghost'
+							size='sm'
+							disabled={isPending}
+							onClick={() => removeMutation.mutate()}>
+							Retirer
+						</Button>
+					)}
+				</form>
+			</CardContent>
+		</Card>
+	);
+};
@@ -0,0 +1,65 @@
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+
+import { StockValuationWidget } from './StockValuationWidget';
+
+const valuation = {
+	totalValue: 42.5,
+	unvaluedLotCount: 2,
+	byCategory: [
+		{
+			categoryId: 'category-1',
+			categoryName: 'Crèmerie',
+			value: 30,
+			lotCount: 3,
+			percentage: 71,
+		},
+		{
+			categoryId: null,
+			categoryName: 'Sans catégorie',
+			value: 12.5,
+			lotCount: 1,
+			percentage: 29,
+		},
+	],
+	byStorageLocation: [
+		{
+			storageLocation: 'Réfrigérateur',
+			value: 42.5,
+			lotCount: 4,
+			percentage: 100,
+		},
+	],
+	valueAtRisk: { value: 8, lotCount: 1 },
+	expiredValue: { value: 0, lotCount: 0 },
+	ageDistribution: [
+		{ bucket: 'UNDER_1_WEEK' as const, value: 30, lotCount: 3 },
+		{ bucket: 'ONE_TO_2_WEEKS' as const, value: 0, lotCount: 0 },
+		{ bucket: 'TWO_WEEKS_TO_1_MONTH' as const, value: 12.5, lotCount: 1 },
+		{ bucket: 'OVER_1_MONTH' as const, value: 0, lotCount: 0 },
+	],
+};
+
+describe('StockValuationWidget', () => {
+	it('affiche la valeur du stock, la valeur à risque et les répartitions', () => {
+		render(<StockValuationWidget valuation={valuation} />);
+
+		expect(screen.getByText('à risque cette semaine')).toBeInTheDocument();
+		expect(screen.getByText('Crèmerie')).toBeInTheDocument();
+		expect(screen.getByText('Réfrigérateur')).toBeInTheDocument();
+		expect(screen.getByText('2 sem.-1 mois')).toBeInTheDocument();
+		expect(
+			screen.getByText("2 lots sans prix d'achat non comptés")
+		).toBeInTheDocument();
+	});
+
+	it('invite à renseigner les prix quand rien n’est valorisé', () => {
+		render(
+			<StockValuationWidget
+				valuation={{ ...valuation, totalValue: 0, byCategory: [] }}
+			/>
+		);
+
+		expect(screen.getByText('Aucun stock valorisé')).toBeInTheDocument();
+	});
+});
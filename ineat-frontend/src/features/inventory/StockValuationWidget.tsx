@@ -0,0 +1,176 @@
+import type { FC } from 'react';
+import { PackageOpen, Wallet } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import type { InventoryValuation } from '@/schemas';
+import { STOCK_AGE_BUCKET_LABELS } from '@/constants/inventory';
+import { formatPrice } from '@/utils/ui-utils';
+
+interface StockValuationWidgetProps {
+	valuation?: InventoryValuation;
+}
+
+const formatStorageLocation = (storageLocation: string): string =>
+	storageLocation === 'unknown' ? 'Non précisé' : storageLocation;
+
+export const StockValuationWidget: FC<StockValuationWidgetProps> = ({
+	valuation,
+}) => {
+	const topCategories = (valuation?.byCategory ?? []).slice(0, 3);
+	const storageLocations = valuation?.byStorageLocation ?? [];
+	const ageDistribution = valuation?.ageDistribution ?? [];
+	const highestAgeValue = Math.max(
+		...ageDistribution.map((entry) => entry.value),
+		0,
+	);
+
+	return (
+		<Card className='relative overflow-hidden border-0 bg-gradient-to-br from-white to-sky-50/50 shadow-xl hover:shadow-2xl transition-all duration-300'>
+			{/* Effet de brillance en arrière-plan */}
+			<div className='absolute top-0 right-0 w-32 h-32 bg-gradient-to-br from-sky-100/30 to-indigo-100/30 rounded-full blur-3xl -translate-y-16 translate-x-16' />
+
+			<CardHeader className='pb-4'>
+				<CardTitle className='flex items-center gap-3 text-gray-800'>
+					<div className='p-2 rounded-xl bg-sky-50 border border-sky-200'>
+						<Wallet className='size-5 text-sky-600' />
+					</div>
+					<div className='flex-1'>
+						<h3 className='font-semibold'>Valeur du stock</h3>
+						<p className='text-sm font-normal text-gray-600 mt-0.5'>
+							Au prix d'achat des produits en stock
+						</p>
+					</div>
+				</CardTitle>
+			</CardHeader>
+
+			<CardContent>
+				{valuation && valuation.totalValue > 0 ? (
+					<div className='space-y-5'>
+						<div className='grid grid-cols-2 gap-3'>
+							<div className='rounded-xl bg-sky-50 px-4 py-3'>
+								<p className='text-xl font-bold text-sky-700'>
+									{formatPrice(valuation.totalValue)}
+								</p>
+								<p className='text-xs text-sky-700/80'>en stock</p>
+							</div>
+							<div className='rounded-xl bg-orange-50 px-4 py-3'>
+								<p className='text-xl font-bold text-orange-700'>
+									{formatPrice(valuation.valueAtRisk.value)}
+								</p>
+								<p className='text-xs text-orange-700/80'>
+									à risque cette semaine
+								</p>
+							</div>
+						</div>
+
+						{valuation.expiredValue.lotCount > 0 && (
+							<p className='text-xs text-red-700'>
+								Dont {formatPrice(valuation.expiredValue.value)} déjà périmés (
+								{valuation.expiredValue.lotCount} lot
+								{valuation.expiredValue.lotCount > 1 ? 's' : ''})
+							</p>
+						)}
+
+						{topCategories.length > 0 && (
+							<div className='space-y-2'>
+								<p className='text-sm font-medium text-gray-700'>
+									Par catégorie
+								</p>
+								{topCategories.map((category) => (
+									<div key={category.categoryId ?? 'unknown'} className='space-y-1'>
+										<div className='flex items-center justify-between text-sm'>
+											<span className='text-gray-600'>{category.categoryName}</span>
+											<span className='font-semibold text-gray-900'>
+												{formatPrice(category.value)}
+											</span>
+										</div>
+										<div className='h-1.5 rounded-full bg-gray-100'>
+											<div
+												className='h-full rounded-full bg-sky-400/80'
+												style={{ width: `${category.percentage}%` }}
+											/>
+										</div>
+									</div>
+								))}
+							</div>
+						)}
+
+						{storageLocations.length > 0 && (
+							<div className='space-y-2'>
+								<p className='text-sm font-medium text-gray-700'>
+									Par lieu de stockage
+								</p>
+								{storageLocations.map((location) => (
+									<div
+										key={location.storageLocation}
+										className='flex items-center justify-between text-sm'
+									>
+										<span className='text-gray-600'>
+											{formatStorageLocation(location.storageLocation)}
+										</span>
+										<span className='font-semibold text-gray-900'>
+											{formatPrice(location.value)}
+										</span>
+									</div>
+								))}
+							</div>
+						)}
+
+						<div className='space-y-2'>
+							<p className='text-sm font-medium text-gray-700'>
+								Ancienneté des achats
+							</p>
+							<div
+								className='flex h-20 items-end gap-2'
+								aria-label='Valeur du stock par ancienneté'
+							>
+								{ageDistribution.map((entry) => (
+									<div
+										key={entry.bucket}
+										className='flex flex-1 flex-col items-center gap-1'
+										title={`${STOCK_AGE_BUCKET_LABELS[entry.bucket]} : ${formatPrice(entry.value)}`}
+									>
+										<div
+											className='w-full rounded-t-md bg-indigo-400/80'
+											style={{
+												height: `${
+													highestAgeValue > 0
+														? Math.max(
+																(entry.value / highestAgeValue) * 48,
+																entry.lotCount > 0 ? 4 : 0,
+															)
+														: 0
+												}px`,
+											}}
+										/>
+										<span className='text-xs text-gray-500'>
+											{STOCK_AGE_BUCKET_LABELS[entry.bucket]}
+										</span>
+									</div>
+								))}
+							</div>
+						</div>
+
+						{valuation.unvaluedLotCount > 0 && (
+							<p className='text-xs text-gray-500'>
+								{valuation.unvaluedLotCount} lot
+								{valuation.unvaluedLotCount > 1 ? 's' : ''} sans prix d'achat non
+								compté{valuation.unvaluedLotCount > 1 ? 's' : ''}
+							</p>
+						)}
+					</div>
+				) : (
+					<div className='text-center py-8'>
+						<div className='size-16 mx-auto mb-4 bg-gradient-to-br from-sky-50 to-indigo-100 rounded-2xl flex items-center justify-center'>
+							<PackageOpen className='size-8 text-sky-600' />
+						</div>
+						<p className='text-gray-700 font-medium'>Aucun stock valorisé</p>
+						<p className='text-sm text-gray-500'>
+							Renseignez le prix d'achat de vos produits pour suivre la valeur
+							de votre stock
+						</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
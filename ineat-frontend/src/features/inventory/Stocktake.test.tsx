@@ -0,0 +1,170 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { Stocktake } from './Stocktake';
+import { inventoryService } from '@/services/inventoryService';
+
+vi.mock('sonner', () => ({
+	toast: {
+		error: vi.fn(),
+		success: vi.fn(),
+	},
+}));
+
+vi.mock('@/services/inventoryService', () => ({
+	inventoryService: {
+		getStorageLocations: vi.fn(),
+		getStocktakeSheet: vi.fn(),
+		completeStocktake: vi.fn(),
+	},
+}));
+
+const product = (id: string, name: string) => ({
+	id,
+	name,
+	unitType: 'UNIT',
+	category: { id: 'category-1', name: 'Crèmerie', slug: 'cremerie' },
+});
+
+const lot = (id: string, quantity: number) => ({
+	id,
+	quantity,
+	purchaseDate: '2026-10-12T00:00:00.000Z',
+	storageLocation: 'Réfrigérateur',
+	createdAt: '2026-10-12T00:00:00.000Z',
+	updatedAt: '2026-10-12T00:00:00.000Z',
+});
+
+const sheet = [
+	{
+		...lot('lot-yaourts', 4),
+		userId: 'user-1',
+		product: product('product-1', 'Yaourts'),
+		lots: [lot('lot-yaourts', 4)],
+	},
+	{
+		...lot('lot-lait', 2),
+		userId: 'user-1',
+		product: product('product-2', 'Lait'),
+		lots: [lot('lot-lait', 2)],
+	},
+	{
+		...lot('lot-beurre', 1),
+		userId: 'user-1',
+		product: product('product-3', 'Beurre'),
+		lots: [lot('lot-beurre', 1)],
+	},
+];
+
+function renderStocktake() {
+	const queryClient = new QueryClient({
+		defaultOptions: {
+			queries: { retry: false },
+			mutations: { retry: false },
+		},
+	});
+
+	return render(
+		<QueryClientProvider client={queryClient}>
+			<Stocktake storageLocation='Réfrigérateur' />
+		</QueryClientProvider>
+	);
+}
+
+describe('Stocktake', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(inventoryService.getStorageLocations).mockResolvedValue([]);
+		vi.mocked(inventoryService.getStocktakeSheet).mockResolvedValue(
+			sheet as never
+		);
+	});
+
+	it('envoie les lots vérifiés et affiche le bilan des écarts', async () => {
+		const user = userEvent.setup();
+		vi.mocked(inventoryService.completeStocktake).mockResolvedValue({
+			storageLocation: 'Réfrigérateur',
+			completedAt: '2026-10-19T10:00:00.000Z',
+			lotCount: 3,
+			confirmedCount: 1,
+			adjustedCount: 1,
+			removedCount: 0,
+			flaggedCount: 1,
+			driftRate: 50,
+			valueDrift: -1.5,
+			adjustments: [
+				{
+					inventoryItemId: 'lot-lait',
+					productId: 'product-2',
+					productName: 'Lait',
+					unitType: 'UNIT',
+					action: 'ADJUST',
+					expectedQuantity: 2,
+					countedQuantity: 1,
+					quantityDelta: -1,
+					valueDelta: -1.5,
+					reason: 'UNTRACKED_CONSUMPTION',
+				},
+			],
+			flaggedLots: [
+				{
+					inventoryItemId: 'lot-beurre',
+					productName: 'Beurre',
+					quantity: 1,
+					unitType: 'UNIT',
+				},
+			],
+		});
+		renderStocktake();
+
+		await user.click(
+			await screen.findByRole('button', { name: 'Yaourts conforme' })
+		);
+		await user.click(screen.getByRole('button', { name: 'Corriger Lait' }));
+		const countedQuantity = screen.getByLabelText(
+			'Quantité comptée pour Lait'
+		);
+		await user.clear(countedQuantity);
+		await user.type(countedQuantity, '1');
+
+		expect(
+			screen.getByText(/1 lot non vérifié sera signalé/)
+		).toBeInTheDocument();
+		await user.click(
+			screen.getByRole('button', { name: "Valider l'inventaire" })
+		);
+
+		await waitFor(() =>
+			expect(inventoryService.completeStocktake).toHaveBeenCalledWith({
+				storageLocation: 'Réfrigérateur',
+				lots: [
+					{ inventoryItemId: 'lot-yaourts', action: 'CONFIRM' },
+					{
+						inventoryItemId: 'lot-lait',
+						action: 'ADJUST',
+						countedQuantity: 1,
+						reason: 'UNTRACKED_CONSUMPTION',
+					},
+				],
+			})
+		);
+		expect(await screen.findByText('50 % des lots')).toBeInTheDocument();
+		expect(screen.getByText('1 lot à vérifier')).toBeInTheDocument();
+	});
+
+	it('bloque la validation tant qu’une quantité comptée est invalide', async () => {
+		const user = userEvent.setup();
+		renderStocktake();
+
+		await user.click(
+			await screen.findByRole('button', { name: 'Corriger Lait' })
+		);
+		await user.clear(screen.getByLabelText('Quantité comptée pour Lait'));
+
+		expect(
+			screen.getByRole('button', { name: "Valider l'inventaire" })
+		).toBeDisabled();
+	});
+});
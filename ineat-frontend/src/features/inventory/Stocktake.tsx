@@ -0,0 +1,444 @@
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+	AlertTriangle,
+	CheckCircle2,
+	ClipboardCheck,
+	Loader2,
+	PackageX,
+	Pencil,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { STOCKTAKE_REASON_OPTIONS } from '@/constants/inventory';
+import { useStorageLocations } from '@/hooks/useStorageLocations';
+import type { InventoryItem } from '@/schemas';
+import {
+	inventoryService,
+	type StocktakeLotAction,
+	type StocktakeLotInput,
+	type StocktakeReason,
+	type StocktakeSummary,
+} from '@/services/inventoryService';
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+import { formatPrice, formatQuantity } from '@/utils/ui-utils';
+
+interface StocktakeSheetLot {
+	id: string;
+	productName: string;
+	unitType: string;
+	quantity: number;
+	expiryDate?: string;
+}
+
+interface StocktakeDecision {
+	action: StocktakeLotAction;
+	countedQuantity: string;
+	reason: StocktakeReason;
+}
+
+const DEFAULT_REASON: StocktakeReason = 'UNTRACKED_CONSUMPTION';
+
+const REASON_LABELS = Object.fromEntries(
+	STOCKTAKE_REASON_OPTIONS.map((option) => [option.value, option.label])
+) as Record<StocktakeReason, string>;
+
+/**
+ * Aplatit la feuille d'inventaire en lots : un produit sans détail de lots
+ * est lui-même l'unique lot
+ */
+const listStocktakeLots = (items: InventoryItem[]): StocktakeSheetLot[] =>
+	items.flatMap((item) => {
+		const lots = item.lots?.length ? item.lots : [item];
+		return lots.map((lot) => ({
+			id: lot.id,
+			productName: item.product.name,
+			unitType: item.product.unitType,
+			quantity: lot.quantity,
+			expiryDate: lot.expiryDate,
+		}));
+	});
+
+const toStocktakeLotInput = (
+	inventoryItemId: string,
+	decision: StocktakeDecision
+): StocktakeLotInput | null => {
+	if (decision.action === 'CONFIRM') {
+		return { inventoryItemId, action: 'CONFIRM' };
+	}
+	if (decision.action === 'REMOVE') {
+		return { inventoryItemId, action: 'REMOVE', reason: decision.reason };
+	}
+
+	const countedQuantity = Number(decision.countedQuantity.replace(',', '.'));
+	if (!Number.isFinite(countedQuantity) || countedQuantity <= 0) return null;
+
+	return {
+		inventoryItemId,
+		action: 'ADJUST',
+		countedQuantity,
+		reason: decision.reason,
+	};
+};
+
+interface StocktakeProps {
+	storageLocation?: string;
+	onComplete?: () => void;
+}
+
+/**
+ * Inventaire guidé d'un lieu de stockage : chaque lot est confirmé, corrigé
+ * ou déclaré absent. Les lots laissés de côté sont signalés « à vérifier ».
+ */
+export const Stocktake: React.FC<StocktakeProps> = ({
+	storageLocation: initialStorageLocation,
+	onComplete,
+}) => {
+	const queryClient = useQueryClient();
+	const [storageLocation, setStorageLocation] = useState(
+		initialStorageLocation
+	);
+	const [decisions, setDecisions] = useState<
+		Record<string, StocktakeDecision>
+	>({});
+	const [summary, setSummary] = useState<StocktakeSummary | null>(null);
+
+	const { data: storageLocations = [] } = useStorageLocations();
+	const { data: items = [], isLoading } = useQuery({
+		queryKey: ['inventory', 'stocktake', storageLocation],
+		queryFn: () => inventoryService.getStocktakeSheet(storageLocation!),
+		enabled: Boolean(storageLocation),
+	});
+	const lots = useMemo(() => listStocktakeLots(items), [items]);
+
+	const lotInputs = lots.flatMap((lot) => {
+		const decision = decisions[lot.id];
+		return decision ? [toStocktakeLotInput(lot.id, decision)] : [];
+	});
+	const hasInvalidQuantity = lotInputs.some((input) => input === null);
+	const uncheckedCount = lots.length - lotInputs.length;
+
+	const completeMutation = useMutation({
+		mutationFn: () =>
+			inventoryService.completeStocktake({
+				storageLocation: storageLocation!,
+				lots: lotInputs.filter(
+					(input): input is StocktakeLotInput => input !== null
+				),
+			}),
+		onSuccess: (result) => {
+			setSummary(result);
+			queryClient.invalidateQueries({ queryKey: ['inventory'] });
+		},
+		onError: (error) =>
+			toast.error("Erreur lors de la validation de l'inventaire", {
+				description: getUserFacingErrorMessage(
+					error,
+					"Impossible d'enregistrer l'inventaire."
+				),
+			}),
+	});
+
+	const setDecision = (lot: StocktakeSheetLot, action: StocktakeLotAction) => {
+		setDecisions((previous) => {
+			const current = previous[lot.id];
+			if (current?.action === action) {
+				const next = { ...previous };
+				delete next[lot.id];
+				return next;
+			}
+			return {
+				...previous,
+				[lot.id]: {
+					action,
+					countedQuantity: current?.countedQuantity ?? String(lot.quantity),
+					reason: current?.reason ?? DEFAULT_REASON,
+				},
+			};
+		});
+	};
+
+	const updateDecision = (
+		lotId: string,
+		changes: Partial<StocktakeDecision>
+	) => {
+		setDecisions((previous) => ({
+			...previous,
+			[lotId]: { ...previous[lotId], ...changes },
+		}));
+	};
+
+	const changeStorageLocation = (value: string) => {
+		setStorageLocation(value);
+		setDecisions({});
+	};
+
+	if (summary) {
+		return (
+			<div className='space-y-4'>
+				<div className='rounded-xl border border-gray-200 bg-white p-4 shadow-sm'>
+					<div className='flex items-center gap-2'>
+						<CheckCircle2 className='size-5 text-success-50' />
+						<h2 className='font-semibold text-gray-900'>
+							Inventaire de « {summary.storageLocation} » terminé
+						</h2>
+					</div>
+					<dl className='mt-4 grid grid-cols-2 gap-3 text-sm'>
+						<div>
+							<dt className='text-gray-500'>Écart constaté</dt>
+							<dd className='text-lg font-semibold text-gray-900'>
+								{summary.driftRate} % des lots
+							</dd>
+						</div>
+						<div>
+							<dt className='text-gray-500'>Valeur de l'écart</dt>
+							<dd className='text-lg font-semibold text-gray-900'>
+								{formatPrice(summary.valueDrift)}
+							</dd>
+						</div>
+						<div>
+							<dt className='text-gray-500'>Conformes</dt>
+							<dd className='font-medium'>{summary.confirmedCount}</dd>
+						</div>
+						<div>
+							<dt className='text-gray-500'>Corrigés / retirés</dt>
+							<dd className='font-medium'>
+								{summary.adjustedCount} / {summary.removedCount}
+							</dd>
+						</div>
+					</dl>
+				</div>
+
+				{summary.adjustments.length > 0 && (
+					<section className='rounded-xl border border-gray-200 bg-white p-4 shadow-sm'>
+						<h3 className='mb-2 font-medium text-gray-900'>Corrections</h3>
+						<ul className='space-y-2 text-sm'>
+							{summary.adjustments.map((adjustment) => (
+								<li
+									key={adjustment.inventoryItemId}
+									className='flex justify-between gap-2'>
+									<span className='text-gray-900'>
+										{adjustment.productName}
+										<span className='block text-xs text-gray-500'>
+											{REASON_LABELS[adjustment.reason]}
+										</span>
+									</span>
+									<span className='shrink-0 text-gray-700'>
+										{formatQuantity(
+											adjustment.expectedQuantity,
+											adjustment.unitType
+										)}{' '}
+										→{' '}
+										{formatQuantity(
+											adjustment.countedQuantity,
+											adjustment.unitType
+										)}
+									</span>
+								</li>
+							))}
+						</ul>
+					</section>
+				)}
+
+				{summary.flaggedLots.length > 0 && (
+					<section className='rounded-xl border border-amber-200 bg-amber-50 p-4'>
+						<h3 className='mb-2 flex items-center gap-2 font-medium text-amber-800'>
+							<AlertTriangle className='size-4' />
+							{summary.flaggedCount} lot{summary.flaggedCount > 1 ? 's' : ''}{' '}
+							à vérifier
+						</h3>
+						<ul className='space-y-1 text-sm text-amber-800'>
+							{summary.flaggedLots.map((lot) => (
+								<li key={lot.inventoryItemId}>
+									{lot.productName} ·{' '}
+									{formatQuantity(lot.quantity, lot.unitType)}
+								</li>
+							))}
+						</ul>
+					</section>
+				)}
+
+				<Button className='w-full' onClick={onComplete}>
+					Retour à l'inventaire
+				</Button>
+			</div>
+		);
+	}
+
+	return (
+		<div className='space-y-4'>
+			<div className='space-y-2'>
+				<Label htmlFor='stocktake-location'>Lieu à inventorier</Label>
+				<Select
+					value={storageLocation ?? ''}
+					onValueChange={changeStorageLocation}>
+					<SelectTrigger id='stocktake-location' className='w-full'>
+						<SelectValue placeholder='Choisir un lieu' />
+					</SelectTrigger>
+					<SelectContent>
+						{storageLocations.map((location) => (
+							<SelectItem key={location.id} value={location.name}>
+								{location.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			{storageLocation && isLoading && (
+				<div className='flex justify-center py-8'>
+					<Loader2 className='size-6 animate-spin text-gray-400' />
+				</div>
+			)}
+
+			{storageLocation && !isLoading && lots.length === 0 && (
+				<p className='text-sm text-gray-600'>
+					Aucun produit enregistré dans ce lieu.
+				</p>
+			)}
+
+			{lots.length > 0 && (
+				<>
+					<p className='text-sm text-gray-600'>
+						{lotInputs.length} / {lots.length} lot{lots.length > 1 ? 's' : ''}{' '}
+						vérifié{lotInputs.length > 1 ? 's' : ''}
+					</p>
+
+					<ul className='space-y-3'>
+						{lots.map((lot) => {
+							const decision = decisions[lot.id];
+
+							return (
+								<li
+									key={lot.id}
+									className='rounded-xl border border-gray-200 bg-white p-4 shadow-sm space-y-3'>
+									<div>
+										<p className='font-medium text-gray-900'>
+											{lot.productName}
+										</p>
+										<p className='text-xs text-gray-500'>
+											{formatQuantity(lot.quantity, lot.unitType)}
+											{lot.expiryDate &&
+												` · expire le ${new Date(lot.expiryDate).toLocaleDateString('fr-FR')}`}
+										</p>
+									</div>
+
+									<div className='grid grid-cols-3 gap-2'>
+										<Button
+											type='button'
+											size='sm'
+											variant={
+												decision?.action === 'CONFIRM' ? 'primary' : 'outline'
+											}
+											aria-pressed={decision?.action === 'CONFIRM'}
+											aria-label={`${lot.productName} conforme`}
+											onClick={() => setDecision(lot, 'CONFIRM')}>
+											<CheckCircle2 className='size-4 mr-1' />
+											Conforme
+										</Button>
+										<Button
+											type='button'
+											size='sm'
+											variant={
+												decision?.action === 'ADJUST' ? 'primary' : 'outline'
+											}
+											aria-pressed={decision?.action === 'ADJUST'}
+											aria-label={`Corriger ${lot.productName}`}
+											onClick={() => setDecision(lot, 'ADJUST')}>
+											<Pencil className='size-4 mr-1' />
+											Corriger
+										</Button>
+										<Button
+											type='button'
+											size='sm'
+											variant={
+												decision?.action === 'REMOVE' ? 'primary' : 'outline'
+											}
+											aria-pressed={decision?.action === 'REMOVE'}
+											aria-label={`${lot.productName} absent`}
+											onClick={() => setDecision(lot, 'REMOVE')}>
+											<PackageX className='size-4 mr-1' />
+											Absent
+										</Button>
+									</div>
+
+									{decision && decision.action !== 'CONFIRM' && (
+										<div className='grid grid-cols-2 gap-2'>
+											{decision.action === 'ADJUST' && (
+												<Input
+													aria-label={`Quantité comptée pour ${lot.productName}`}
+													inputMode='decimal'
+													value={decision.countedQuantity}
+													onChange={(event) =>
+														updateDecision(lot.id, {
+															countedQuantity: event.target.value,
+														})
+													}
+												/>
+											)}
+											<Select
+												value={decision.reason}
+												onValueChange={(value) =>
+													updateDecision(lot.id, {
+														reason: value as StocktakeReason,
+													})
+												}>
+												<SelectTrigger
+													aria-label={`Motif de l'écart pour ${lot.productName}`}
+													className={
+														decision.action === 'REMOVE'
+															? 'col-span-2 w-full'
+															: 'w-full'
+													}>
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													{STOCKTAKE_REASON_OPTIONS.map((option) => (
+														<SelectItem key={option.value} value={option.value}>
+															{option.label}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+										</div>
+									)}
+								</li>
+							);
+						})}
+					</ul>
+
+					{uncheckedCount > 0 && (
+						<p className='text-sm text-amber-700'>
+							{uncheckedCount} lot{uncheckedCount > 1 ? 's' : ''} non vérifié
+							{uncheckedCount > 1 ? 's' : ''} {uncheckedCount > 1 ? 'seront' : 'sera'}{' '}
+							signalé{uncheckedCount > 1 ? 's' : ''} « à vérifier ».
+						</p>
+					)}
+
+					<Button
+						className='w-full'
+						disabled={hasInvalidQuantity || completeMutation.isPending}
+						onClick={() => completeMutation.mutate()}>
+						{completeMutation.isPending ? (
+							<Loader2 className='size-4 mr-2 animate-spin' />
+						) : (
+							<ClipboardCheck className='size-4 mr-2' />
+						)}
+						Valider l'inventaire
+					</Button>
+				</>
+			)}
+		</div>
+	);
+};
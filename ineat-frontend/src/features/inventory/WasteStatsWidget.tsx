@@ -0,0 +1,145 @@
+import type { FC } from 'react';
+import { Recycle, Sprout } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import type { WasteStats } from '@/schemas';
+import {
+	WASTE_REASON_OPTIONS,
+	getWasteReasonLabel,
+} from '@/constants/inventory';
+import { formatPrice } from '@/utils/ui-utils';
+
+interface WasteStatsWidgetProps {
+	waste?: WasteStats;
+}
+
+const formatMonth = (month: string): string => {
+	const [year, monthIndex] = month.split('-').map(Number);
+	return new Date(year, monthIndex - 1, 1).toLocaleDateString('fr-FR', {
+		month: 'short',
+	});
+};
+
+export const WasteStatsWidget: FC<WasteStatsWidgetProps> = ({ waste }) => {
+	const months = waste?.byMonth ?? [];
+	const currentMonth = months[months.length - 1];
+	const highestMonthlyLoss = Math.max(
+		...months.map((month) => month.valueLost),
+		0,
+	);
+	const topCategories = (waste?.byCategory ?? []).slice(0, 3);
+	const topReason = WASTE_REASON_OPTIONS.map((option) => ({
+		reason: option.value,
+		count: waste?.byReason[option.value]?.count ?? 0,
+	}))
+		.filter((entry) => entry.count > 0)
+		.sort((first, second) => second.count - first.count)[0];
+
+	return (
+		<Card className='relative overflow-hidden border-0 bg-gradient-to-br from-white to-amber-50/50 shadow-xl hover:shadow-2xl transition-all duration-300'>
+			{/* Effet de brillance en arrière-plan */}
+			<div className='absolute top-0 right-0 w-32 h-32 bg-gradient-to-br from-amber-100/30 to-red-100/30 rounded-full blur-3xl -translate-y-16 translate-x-16' />
+
+			<CardHeader className='pb-4'>
+				<CardTitle className='flex items-center gap-3 text-gray-800'>
+					<div className='p-2 rounded-xl bg-amber-50 border border-amber-200'>
+						<Recycle className='size-5 text-amber-600' />
+					</div>
+					<div className='flex-1'>
+						<h3 className='font-semibold'>Gaspillage</h3>
+						<p className='text-sm font-normal text-gray-600 mt-0.5'>
+							Produits jetés sur les {months.length || 6} derniers mois
+						</p>
+					</div>
+				</CardTitle>
+			</CardHeader>
+
+			<CardContent>
+				{waste && waste.count > 0 ? (
+					<div className='space-y-5'>
+						<div className='grid grid-cols-2 gap-3'>
+							<div className='rounded-xl bg-red-50 px-4 py-3'>
+								<p className='text-xl font-bold text-red-700'>
+									{formatPrice(waste.valueLost)}
+								</p>
+								<p className='text-xs text-red-700/80'>
+									perdus ({waste.count} lot{waste.count > 1 ? 's' : ''})
+								</p>
+							</div>
+							<div className='rounded-xl bg-amber-50 px-4 py-3'>
+								<p className='text-xl font-bold text-amber-700'>
+									{formatPrice(currentMonth?.valueLost ?? 0)}
+								</p>
+								<p className='text-xs text-amber-700/80'>ce mois-ci</p>
+							</div>
+						</div>
+
+						<div
+							className='flex h-24 items-end gap-2'
+							aria-label='Valeur perdue par mois'
+						>
+							{months.map((month) => (
+								<div
+									key={month.month}
+									className='flex flex-1 flex-col items-center gap-1'
+									title={`${formatMonth(month.month)} : ${formatPrice(month.valueLost)}`}
+								>
+									<div
+										className='w-full rounded-t-md bg-amber-400/80'
+										style={{
+											height: `${
+												highestMonthlyLoss > 0
+													? Math.max(
+															(month.valueLost / highestMonthlyLoss) * 64,
+															month.count > 0 ? 4 : 0,
+														)
+													: 0
+											}px`,
+										}}
+									/>
+									<span className='text-xs text-gray-500'>
+										{formatMonth(month.month)}
+									</span>
+								</div>
+							))}
+						</div>
+
+						{topCategories.length > 0 && (
+							<div className='space-y-2'>
+								<p className='text-sm font-medium text-gray-700'>
+									Catégories les plus gaspillées
+								</p>
+								{topCategories.map((category) => (
+									<div
+										key={category.categoryId ?? 'unknown'}
+										className='flex items-center justify-between text-sm'
+									>
+										<span className='text-gray-600'>{category.categoryName}</span>
+										<span className='font-semibold text-gray-900'>
+											{formatPrice(category.valueLost)}
+										</span>
+									</div>
+								))}
+							</div>
+						)}
+
+						{topReason && (
+							<p className='text-xs text-gray-500'>
+								Motif principal : {getWasteReasonLabel(topReason.reason)}
+							</p>
+						)}
+					</div>
+				) : (
+					<div className='text-center py-8'>
+						<div className='size-16 mx-auto mb-4 bg-gradient-to-br from-emerald-50 to-green-100 rounded-2xl flex items-center justify-center'>
+							<Sprout className='size-8 text-emerald-600' />
+						</div>
+						<p className='text-gray-700 font-medium'>Aucun produit jeté</p>
+						<p className='text-sm text-gray-500'>
+							Les produits jetés depuis l'inventaire apparaîtront ici
+						</p>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
@@ -14,7 +14,10 @@ import { ProductContentSection } from './section/ProductContentSection';
 import { ProductDatesSection } from './section/ProductDatesSection';
 import { ProductExtraSection } from './section/ProductExtraSection';
 import { ProductStateSection } from './section/ProductStateSection';
+import { DietaryConflictAlert } from '@/features/product/DietaryConflictAlert';
 import { getExpirySuggestion } from '@/utils/expiryEstimation';
+import { useStorageGroupResolver } from '@/hooks/useStorageLocations';
+import { useShelfLifeOverrides } from '@/hooks/useShelfLifeOverrides';
 
 interface AddManualProductFormProps {
 	categories: Category[];
@@ -53,14 +56,19 @@ export const AddManualProductForm: React.FC<AddManualProductFormProps> = ({
 	const selectedCategory = categories.find(
 		(category) => category.slug === formData.category,
 	);
+	const { data: shelfLifeOverrides } = useShelfLifeOverrides();
+	const resolveStorageGroup = useStorageGroupResolver();
+	const storageGroup = resolveStorageGroup(formData.storageLocation);
 	const expirySuggestion = getExpirySuggestion({
 		productName: formData.name,
 		categorySlug: formData.category,
 		categoryName: selectedCategory?.name,
 		storageLocation: formData.storageLocation,
+		storageGroup,
 		packageStatus: formData.packageStatus || undefined,
 		preparationStatus: formData.preparationStatus || undefined,
 		purchaseDate: formData.purchaseDate,
+		userRules: shelfLifeOverrides,
 	});
 
 	return (
@@ -175,9 +183,11 @@ export const AddManualProductForm: React.FC<AddManualProductFormProps> = ({
 							purchaseDate: formData.purchaseDate,
 							expiryDate: formData.expiryDate,
 							expiryDateSource: formData.expiryDateSource,
+							expiryKind: formData.expiryKind,
 						}}
 						estimatedExpiryDate={expirySuggestion?.date}
 						estimatedExpiryReason={expirySuggestion?.reason}
+						estimatedExpiryKind={expirySuggestion?.expiryKind}
 						onChange={handleInputChange}
 						disabled={isSubmitting}
 						errors={{
@@ -211,10 +221,19 @@ export const AddManualProductForm: React.FC<AddManualProductFormProps> = ({
 						categorySlug={formData.category}
 						categoryName={selectedCategory?.name}
 						storageLocation={formData.storageLocation}
+						storageGroup={storageGroup}
 						onChange={handleInputChange}
 						disabled={isSubmitting}
 					/>
 
+					<DietaryConflictAlert
+						product={{
+							name: formData.name,
+							categorySlug: formData.category,
+							ingredients: formData.ingredients,
+						}}
+					/>
+
 					{/* Boutons d'action */}
 					<div className='flex gap-3 pt-4'>
 						<Button
@@ -21,6 +21,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { z } from 'zod';
+import { useStorageLocationOptions } from '@/hooks/useStorageLocations';
+import { DietaryConflictAlert } from '@/features/product/DietaryConflictAlert';
 
 interface AddOFFProductFormProps {
 	categories: Category[];
@@ -53,16 +55,6 @@ const UNIT_TYPE_OPTIONS = [
 	{ value: 'ML', label: 'Millilitre(s)' },
 ] as const;
 
-const STORAGE_LOCATION_OPTIONS = [
-	'Réfrigérateur',
-	'Congélateur',
-	'Placard',
-	'Cave',
-	'Garde-manger',
-	'Fruitier',
-	'Autre',
-];
-
 export const AddOFFProductForm: React.FC<AddOFFProductFormProps> = ({
 	categories,
 	onSubmit,
@@ -82,6 +74,9 @@ export const AddOFFProductForm: React.FC<AddOFFProductFormProps> = ({
 	});
 
 	const [errors, setErrors] = useState<Record<string, string>>({});
+	const storageLocationOptions = useStorageLocationOptions(
+		formData.storageLocation
+	);
 
 	// Transformation des données vers le schéma complet
 	const transformToInventoryData = (formData: FormData): AddInventoryItemData => {
@@ -106,6 +101,9 @@ export const AddOFFProductForm: React.FC<AddOFFProductFormProps> = ({
 			barcode: enrichedProduct.barcode || undefined,
 			imageUrl: enrichedProduct.imageUrl || undefined,
 			ingredients: enrichedProduct.ingredients || undefined,
+			...(enrichedProduct.allergens.length > 0 && {
+				allergens: enrichedProduct.allergens,
+			}),
 			nutriscore: enrichedProduct.nutriscore || undefined,
 			ecoscore: enrichedProduct.ecoscore || undefined,
 			novascore: enrichedProduct.novascore || undefined,
@@ -249,6 +247,15 @@ export const AddOFFProductForm: React.FC<AddOFFProductFormProps> = ({
 					</AlertDescription>
 				</Alert>
 
+				<DietaryConflictAlert
+					product={{
+						name: enrichedProduct.name,
+						categorySlug: formData.category,
+						ingredients: enrichedProduct.ingredients,
+						allergens: enrichedProduct.allergens,
+					}}
+				/>
+
 				<form onSubmit={handleSubmit} className='space-y-6'>
 					{/* Informations produit (lecture seule) */}
 					<div className='space-y-4'>
@@ -479,7 +486,7 @@ export const AddOFFProductForm: React.FC<AddOFFProductFormProps> = ({
 										<SelectValue placeholder='Sélectionnez un lieu' />
 									</SelectTrigger>
 									<SelectContent className='bg-white border border-neutral-200 rounded-xl shadow-sm'>
-										{STORAGE_LOCATION_OPTIONS.map((location) => (
+										{storageLocationOptions.map((location) => (
 											<SelectItem
 												key={location}
 												value={location}
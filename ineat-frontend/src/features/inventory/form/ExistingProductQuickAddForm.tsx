@@ -31,6 +31,7 @@ import {
 } from '@/services/inventoryService';
 import { OpenFoodFactsMapping } from '@/schemas/openfoodfact-mapping';
 import ScoreBadge from '@/components/common/ScoreBadge';
+import { DietaryConflictAlert } from '@/features/product/DietaryConflictAlert';
 import { getExpirySuggestion } from '@/utils/expiryEstimation';
 import {
 	getProductStateOptions,
@@ -38,6 +39,14 @@ import {
 	type PreparationStatus,
 } from '@/utils/productStateOptions';
 import { ProductStateSection } from './section/ProductStateSection';
+import { ExpiryKindField } from './section/ExpiryKindField';
+import type { ExpiryKind } from '@/schemas';
+import {
+	findStorageLocationByGroup,
+	useStorageGroupResolver,
+	useStorageLocations,
+} from '@/hooks/useStorageLocations';
+import { useShelfLifeOverrides } from '@/hooks/useShelfLifeOverrides';
 
 interface ExistingProductQuickAddFormProps {
 	product: ProductSearchResult;
@@ -48,16 +57,6 @@ interface ExistingProductQuickAddFormProps {
 	enrichedData?: OpenFoodFactsMapping | null;
 }
 
-// Lieux de stockage prédéfinis
-const STORAGE_LOCATIONS = [
-	{ value: 'refrigerateur', label: 'Réfrigérateur' },
-	{ value: 'congelateur', label: 'Congélateur' },
-	{ value: 'placard', label: 'Placard' },
-	{ value: 'cellier', label: 'Cellier' },
-	{ value: 'cave', label: 'Cave' },
-	{ value: 'autre', label: 'Autre' },
-];
-
 const formatDate = (date: Date): string => {
 	const year = date.getFullYear();
 	const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -78,8 +77,12 @@ export const ExistingProductQuickAddForm: React.FC<
 	const [expiryDateSource, setExpiryDateSource] = useState<
 		'MANUAL' | 'ESTIMATED'
 	>('ESTIMATED');
+	const [expiryKind, setExpiryKind] = useState<ExpiryKind | ''>('');
 	const [purchasePrice, setPurchasePrice] = useState('');
-	const [storageLocation, setStorageLocation] = useState('placard');
+	const { data: storageLocations = [] } = useStorageLocations();
+	const { data: shelfLifeOverrides } = useShelfLifeOverrides();
+	const resolveStorageGroup = useStorageGroupResolver();
+	const [storageLocation, setStorageLocation] = useState('');
 	const [packageStatus, setPackageStatus] = useState<PackageStatus | ''>('');
 	const [preparationStatus, setPreparationStatus] = useState<
 		PreparationStatus | ''
@@ -87,16 +90,29 @@ export const ExistingProductQuickAddForm: React.FC<
 	const [notes, setNotes] = useState('');
 	const [errors, setErrors] = useState<Record<string, string>>({});
 
+	const storageGroup = resolveStorageGroup(storageLocation);
 	const expirySuggestion = getExpirySuggestion({
+		productId: product.id,
 		productName: product.name,
 		categorySlug: product.category?.slug,
 		categoryName: product.category?.name,
 		storageLocation,
+		storageGroup,
 		packageStatus: packageStatus || undefined,
 		preparationStatus: preparationStatus || undefined,
 		purchaseDate,
+		userRules: shelfLifeOverrides,
 	});
 
+	// Ranger par défaut dans le premier placard de l'utilisateur
+	useEffect(() => {
+		if (storageLocation || storageLocations.length === 0) return;
+		setStorageLocation(
+			findStorageLocationByGroup(storageLocations, 'pantry') ??
+				storageLocations[0].name,
+		);
+	}, [storageLocation, storageLocations]);
+
 	// NOUVEAU - Pré-remplir les notes avec les données enrichies
 	useEffect(() => {
 		if (enrichedData) {
@@ -157,6 +173,7 @@ export const ExistingProductQuickAddForm: React.FC<
 			categorySlug: product.category?.slug,
 			categoryName: product.category?.name,
 			storageLocation,
+			storageGroup,
 		});
 
 		const nextPackageStatus = options.showPackageStatus
@@ -179,6 +196,7 @@ export const ExistingProductQuickAddForm: React.FC<
 		product.category?.slug,
 		product.name,
 		storageLocation,
+		storageGroup,
 	]);
 
 	useEffect(() => {
@@ -234,6 +252,7 @@ export const ExistingProductQuickAddForm: React.FC<
 			purchaseDate,
 			expiryDate:
 				expiryDateSource === 'MANUAL' && expiryDate ? expiryDate : undefined,
+			expiryKind: expiryKind || undefined,
 			purchasePrice: purchasePrice ? parseFloat(purchasePrice) : undefined,
 			storageLocation: storageLocation || undefined,
 			packageStatus: packageStatus || undefined,
@@ -391,6 +410,17 @@ export const ExistingProductQuickAddForm: React.FC<
 				)}
 			</Card>
 
+			<DietaryConflictAlert
+				product={{
+					name: product.name,
+					categorySlug: product.category?.slug,
+					ingredients: product.ingredients || enrichedData?.ingredients,
+					allergens: product.allergens?.length
+						? product.allergens
+						: enrichedData?.allergens,
+				}}
+			/>
+
 			{/* Formulaire d'ajout rapide */}
 			<div className='space-y-4'>
 				<div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
@@ -436,9 +466,9 @@ export const ExistingProductQuickAddForm: React.FC<
 								<SelectValue />
 							</SelectTrigger>
 							<SelectContent>
-								{STORAGE_LOCATIONS.map((location) => (
-									<SelectItem key={location.value} value={location.value}>
-										{location.label}
+								{storageLocations.map((location) => (
+									<SelectItem key={location.id} value={location.name}>
+										{location.name}
 									</SelectItem>
 								))}
 							</SelectContent>
@@ -546,10 +576,18 @@ export const ExistingProductQuickAddForm: React.FC<
 					categorySlug={product.category?.slug}
 					categoryName={product.category?.name}
 					storageLocation={storageLocation}
+					storageGroup={storageGroup}
 					onChange={handleProductStateChange}
 					disabled={isSubmitting}
 				/>
 
+				<ExpiryKindField
+					value={expiryKind}
+					onChange={setExpiryKind}
+					estimatedExpiryKind={expirySuggestion?.expiryKind}
+					disabled={isSubmitting}
+				/>
+
 				{/* Notes avec données enrichies pré-remplies */}
 				<div className='space-y-2'>
 					<Label htmlFor='notes' className='flex items-center gap-2'>
@@ -24,6 +24,7 @@ import {
 import { useCategories } from '@/hooks/useCategories';
 import { ProductSearchResult } from '@/services/inventoryService';
 import ScoreBadge from '@/components/common/ScoreBadge';
+import { DietaryConflictAlert } from '@/features/product/DietaryConflictAlert';
 import { getExpirySuggestion } from '@/utils/expiryEstimation';
 import {
 	getProductStateOptions,
@@ -31,12 +32,21 @@ import {
 	type PreparationStatus,
 } from '@/utils/productStateOptions';
 import { ProductStateSection } from './section/ProductStateSection';
+import { ExpiryKindField } from './section/ExpiryKindField';
+import type { ExpiryKind } from '@/schemas';
+import {
+	findStorageLocationByGroup,
+	useStorageGroupResolver,
+	useStorageLocations,
+} from '@/hooks/useStorageLocations';
+import { useShelfLifeOverrides } from '@/hooks/useShelfLifeOverrides';
 
 // NOUVEAU: Type spécifique pour le QuickAddForm avec category
 export interface QuickAddFormDataWithCategory {
 	quantity: number;
 	category: string; // Obligatoire pour créer un nouveau produit
 	expiryDate?: string;
+	expiryKind?: ExpiryKind;
 	purchaseDate: string;
 	purchasePrice?: number;
 	storageLocation?: string;
@@ -52,16 +62,6 @@ interface QuickAddFormProps {
 	isSubmitting?: boolean;
 }
 
-// Lieux de stockage prédéfinis
-const STORAGE_LOCATIONS = [
-	{ value: 'refrigerateur', label: 'Réfrigérateur' },
-	{ value: 'congelateur', label: 'Congélateur' },
-	{ value: 'placard', label: 'Placard' },
-	{ value: 'cellier', label: 'Cellier' },
-	{ value: 'cave', label: 'Cave' },
-	{ value: 'autre', label: 'Autre' },
-];
-
 // Fonction pour formater une date au format yyyy-MM-dd
 const formatDate = (date: Date): string => {
 	const year = date.getFullYear();
@@ -88,8 +88,12 @@ export const QuickAddForm: React.FC<QuickAddFormProps> = ({
 	const [expiryDateSource, setExpiryDateSource] = useState<
 		'MANUAL' | 'ESTIMATED'
 	>('ESTIMATED');
+	const [expiryKind, setExpiryKind] = useState<ExpiryKind | ''>('');
 	const [purchasePrice, setPurchasePrice] = useState('');
-	const [storageLocation, setStorageLocation] = useState('placard');
+	const { data: storageLocations = [] } = useStorageLocations();
+	const { data: shelfLifeOverrides } = useShelfLifeOverrides();
+	const resolveStorageGroup = useStorageGroupResolver();
+	const [storageLocation, setStorageLocation] = useState('');
 	const [packageStatus, setPackageStatus] = useState<PackageStatus | ''>('');
 	const [preparationStatus, setPreparationStatus] = useState<
 		PreparationStatus | ''
@@ -98,14 +102,18 @@ export const QuickAddForm: React.FC<QuickAddFormProps> = ({
 	const [errors, setErrors] = useState<Record<string, string>>({});
 
 	const selectedCategory = categories.find((cat) => cat.slug === category);
+	const storageGroup = resolveStorageGroup(storageLocation);
 	const expirySuggestion = getExpirySuggestion({
+		productId: product.id,
 		productName: product.name,
 		categorySlug: category,
 		categoryName: selectedCategory?.name,
 		storageLocation,
+		storageGroup,
 		packageStatus: packageStatus || undefined,
 		preparationStatus: preparationStatus || undefined,
 		purchaseDate,
+		userRules: shelfLifeOverrides,
 	});
 
 	// ✅ Fonction mémorisée avec useCallback
@@ -133,6 +141,15 @@ export const QuickAddForm: React.FC<QuickAddFormProps> = ({
 		[categories],
 	); // ✅ Dépendance correcte
 
+	// Ranger par défaut dans le premier placard de l'utilisateur
+	useEffect(() => {
+		if (storageLocation || storageLocations.length === 0) return;
+		setStorageLocation(
+			findStorageLocationByGroup(storageLocations, 'pantry') ??
+				storageLocations[0].name,
+		);
+	}, [storageLocation, storageLocations]);
+
 	useEffect(() => {
 		// Pré-sélectionner une catégorie basée sur celle du produit
 		if (categories.length > 0 && product.category?.name) {
@@ -147,6 +164,7 @@ export const QuickAddForm: React.FC<QuickAddFormProps> = ({
 			categorySlug: category,
 			categoryName: selectedCategory?.name,
 			storageLocation,
+			storageGroup,
 		});
 
 		const nextPackageStatus = options.showPackageStatus
@@ -169,6 +187,7 @@ export const QuickAddForm: React.FC<QuickAddFormProps> = ({
 		product.name,
 		selectedCategory?.name,
 		storageLocation,
+		storageGroup,
 	]);
 
 	useEffect(() => {
@@ -229,6 +248,7 @@ export const QuickAddForm: React.FC<QuickAddFormProps> = ({
 			purchaseDate,
 			expiryDate:
 				expiryDateSource === 'MANUAL' && expiryDate ? expiryDate : undefined,
+			expiryKind: expiryKind || undefined,
 			purchasePrice: purchasePrice ? parseFloat(purchasePrice) : undefined,
 			storageLocation: storageLocation || undefined,
 			packageStatus: packageStatus || undefined,
@@ -331,6 +351,15 @@ export const QuickAddForm: React.FC<QuickAddFormProps> = ({
 				</div>
 			</Card>
 
+			<DietaryConflictAlert
+				product={{
+					name: product.name,
+					categorySlug: category || product.category?.slug,
+					ingredients: product.ingredients,
+					allergens: product.allergens,
+				}}
+			/>
+
 			{/* Formulaire d'ajout rapide */}
 			<div className='space-y-4'>
 				<div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
@@ -421,9 +450,9 @@ export const QuickAddForm: React.FC<QuickAddFormProps> = ({
 								<SelectValue />
 							</SelectTrigger>
 							<SelectContent>
-								{STORAGE_LOCATIONS.map((location) => (
-									<SelectItem key={location.value} value={location.value}>
-										{location.label}
+								{storageLocations.map((location) => (
+									<SelectItem key={location.id} value={location.name}>
+										{location.name}
 									</SelectItem>
 								))}
 							</SelectContent>
@@ -531,10 +560,18 @@ export const QuickAddForm: React.FC<QuickAddFormProps> = ({
 					categorySlug={category}
 					categoryName={selectedCategory?.name}
 					storageLocation={storageLocation}
+					storageGroup={storageGroup}
 					onChange={handleProductStateChange}
 					disabled={isSubmitting}
 				/>
 
+				<ExpiryKindField
+					value={expiryKind}
+					onChange={setExpiryKind}
+					estimatedExpiryKind={expirySuggestion?.expiryKind}
+					disabled={isSubmitting}
+				/>
+
 				{/* Notes */}
 				<div className='space-y-2'>
 					<Label htmlFor='notes'>Notes</Label>
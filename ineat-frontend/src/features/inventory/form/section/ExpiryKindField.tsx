@@ -0,0 +1,60 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { EXPIRY_KIND_OPTIONS } from '@/constants/inventory';
+import type { ExpiryKind } from '@/schemas';
+import { cn } from '@/lib/utils';
+
+interface ExpiryKindFieldProps {
+	// Vide : type déduit du produit (estimatedExpiryKind)
+	value: ExpiryKind | '';
+	onChange: (value: ExpiryKind) => void;
+	estimatedExpiryKind?: ExpiryKind;
+	disabled?: boolean;
+	className?: string;
+}
+
+export const ExpiryKindField: React.FC<ExpiryKindFieldProps> = ({
+	value,
+	onChange,
+	estimatedExpiryKind = 'USE_BY',
+	disabled = false,
+	className = '',
+}) => {
+	const selectedExpiryKind = value || estimatedExpiryKind;
+
+	return (
+		<div className={cn('space-y-2', className)}>
+			<Label className='text-sm text-neutral-300'>Type de date</Label>
+			<div className='flex flex-wrap gap-2'>
+				{EXPIRY_KIND_OPTIONS.map((option) => (
+					<Button
+						key={option.value}
+						type='button'
+						variant={
+							selectedExpiryKind === option.value ? 'primary' : 'secondary'
+						}
+						size='sm'
+						className={cn(
+							'h-8 rounded-full px-3 text-xs',
+							selectedExpiryKind === option.value
+								? 'bg-success-50 text-neutral-50 hover:bg-success-50/90'
+								: 'border-neutral-200 text-neutral-300 hover:bg-neutral-100',
+						)}
+						aria-pressed={selectedExpiryKind === option.value}
+						disabled={disabled}
+						onClick={() => onChange(option.value)}
+					>
+						{option.label} · {option.description}
+					</Button>
+				))}
+			</div>
+			{!value && (
+				<p className='text-xs text-neutral-200'>
+					Déduit du type de produit, modifiable si l’emballage indique
+					l’inverse.
+				</p>
+			)}
+		</div>
+	);
+};
@@ -2,11 +2,15 @@ import React from 'react';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
+import type { ExpiryKind } from '@/schemas';
+import { ExpiryKindField } from './ExpiryKindField';
 
 export interface ProductDatesData {
 	purchaseDate: string;
 	expiryDate: string;
 	expiryDateSource?: 'MANUAL' | 'ESTIMATED';
+	// Vide : type déduit de la catégorie (estimatedExpiryKind)
+	expiryKind?: ExpiryKind | '';
 }
 
 interface ProductDatesSectionProps {
@@ -14,6 +18,7 @@ interface ProductDatesSectionProps {
 	onChange: (field: keyof ProductDatesData, value: string) => void;
 	estimatedExpiryDate?: string | null;
 	estimatedExpiryReason?: string | null;
+	estimatedExpiryKind?: ExpiryKind;
 	disabled?: boolean;
 	readonly?: boolean;
 	showTitle?: boolean;
@@ -26,6 +31,7 @@ export const ProductDatesSection: React.FC<ProductDatesSectionProps> = ({
 	onChange,
 	estimatedExpiryDate,
 	estimatedExpiryReason,
+	estimatedExpiryKind,
 	disabled = false,
 	readonly = false,
 	showTitle = true,
@@ -146,6 +152,16 @@ export const ProductDatesSection: React.FC<ProductDatesSectionProps> = ({
 							</div>
 						</div>
 
+						{/* Type de date : DLC ou DDM */}
+						{values.expiryKind !== undefined && (
+							<ExpiryKindField
+								value={values.expiryKind}
+								onChange={(kind) => handleFieldChange('expiryKind', kind)}
+								estimatedExpiryKind={estimatedExpiryKind}
+								disabled={isFieldDisabled}
+							/>
+						)}
+
 						{/* Erreur de validation croisée des dates */}
 						{datesValidationError && (
 							<div className='mt-2'>
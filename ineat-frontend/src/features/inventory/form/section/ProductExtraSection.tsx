@@ -10,6 +10,7 @@ import {
 	SelectValue,
 } from '@/components/ui/select';
 import { Euro } from 'lucide-react';
+import { useStorageLocationOptions } from '@/hooks/useStorageLocations';
 
 export interface ProductExtrasData {
 	purchasePrice: string;
@@ -24,20 +25,11 @@ interface ProductExtrasSectionProps {
 	readonly?: boolean;
 	showTitle?: boolean;
 	errors?: Partial<Record<keyof ProductExtrasData, string>>;
+	/** Par défaut, les lieux de stockage de l'utilisateur */
 	storageLocationOptions?: string[];
 	className?: string;
 }
 
-const DEFAULT_STORAGE_LOCATION_OPTIONS = [
-	'Réfrigérateur',
-	'Congélateur',
-	'Placard',
-	'Cave',
-	'Garde-manger',
-	'Fruitier',
-	'Autre',
-];
-
 export const ProductExtraSection: React.FC<ProductExtrasSectionProps> = ({
 	values,
 	onChange,
@@ -45,9 +37,13 @@ export const ProductExtraSection: React.FC<ProductExtrasSectionProps> = ({
 	readonly = false,
 	showTitle = true,
 	errors = {},
-	storageLocationOptions = DEFAULT_STORAGE_LOCATION_OPTIONS,
+	storageLocationOptions,
 	className = '',
 }) => {
+	const userStorageLocationOptions = useStorageLocationOptions(
+		values.storageLocation
+	);
+	const locationOptions = storageLocationOptions ?? userStorageLocationOptions;
 	const isFieldDisabled = disabled || readonly;
 
 	const handleFieldChange = (
@@ -164,7 +160,7 @@ export const ProductExtraSection: React.FC<ProductExtrasSectionProps> = ({
 								<SelectValue placeholder='Sélectionnez un lieu' />
 							</SelectTrigger>
 							<SelectContent className='bg-neutral-50 border border-neutral-200 rounded-xl shadow-sm'>
-								{storageLocationOptions.map((location) => (
+								{locationOptions.map((location) => (
 									<SelectItem
 										key={location}
 										value={location}
@@ -6,6 +6,7 @@ import {
 	type PackageStatus,
 	type PreparationStatus,
 } from '@/utils/productStateOptions';
+import type { StorageGroup } from '@/constants/expiryRules';
 import { cn } from '@/lib/utils';
 
 export interface ProductStateData {
@@ -20,6 +21,7 @@ interface ProductStateSectionProps {
 	categorySlug?: string;
 	categoryName?: string;
 	storageLocation?: string;
+	storageGroup?: StorageGroup;
 	disabled?: boolean;
 	className?: string;
 }
@@ -39,6 +41,7 @@ export const ProductStateSection: React.FC<ProductStateSectionProps> = ({
 	categorySlug,
 	categoryName,
 	storageLocation,
+	storageGroup,
 	disabled = false,
 	className = '',
 }) => {
@@ -47,6 +50,7 @@ export const ProductStateSection: React.FC<ProductStateSectionProps> = ({
 		categorySlug,
 		categoryName,
 		storageLocation,
+		storageGroup,
 	});
 
 	if (!options.showPackageStatus && !options.showPreparationStatus) {
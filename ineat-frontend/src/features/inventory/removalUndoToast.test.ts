@@ -0,0 +1,55 @@
+import { toast } from 'sonner';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { showRemovalUndoToast } from './removalUndoToast';
+
+vi.mock('sonner', () => ({
+	toast: {
+		error: vi.fn(),
+		success: vi.fn(),
+	},
+}));
+
+const clickUndo = () => {
+	const [, options] = vi.mocked(toast.success).mock.calls[0];
+	const action = options?.action as { onClick: () => void };
+	action.onClick();
+};
+
+describe('showRemovalUndoToast', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('restaure les lots supprimés quand on clique sur Annuler', async () => {
+		const restore = vi.fn().mockResolvedValue(undefined);
+
+		showRemovalUndoToast(['lot-1', 'lot-2'], restore);
+
+		expect(toast.success).toHaveBeenCalledWith(
+			"2 produits supprimés de l'inventaire",
+			expect.objectContaining({
+				action: expect.objectContaining({ label: 'Annuler' }),
+			})
+		);
+		clickUndo();
+
+		expect(restore).toHaveBeenCalledWith(['lot-1', 'lot-2']);
+		await vi.waitFor(() =>
+			expect(toast.success).toHaveBeenLastCalledWith('2 produits restaurés')
+		);
+	});
+
+	it('signale une restauration impossible', async () => {
+		const restore = vi
+			.fn()
+			.mockRejectedValue(new Error('Délai de restauration dépassé'));
+
+		showRemovalUndoToast(['lot-1'], restore);
+		clickUndo();
+
+		await vi.waitFor(() =>
+			expect(toast.error).toHaveBeenCalledWith('Délai de restauration dépassé')
+		);
+	});
+});
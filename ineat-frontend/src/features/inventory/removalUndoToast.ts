@@ -0,0 +1,48 @@
+import { toast } from 'sonner';
+
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+
+// Le bouton « Annuler » reste visible un peu plus longtemps qu'un toast
+// classique pour laisser le temps de réagir à une suppression par erreur
+const UNDO_TOAST_DURATION_MS = 8000;
+
+/**
+ * Confirme la suppression de lots en proposant de l'annuler. Les lots restent
+ * restaurables côté serveur pendant 30 jours.
+ */
+export const showRemovalUndoToast = (
+	inventoryItemIds: string[],
+	restoreInventoryItems: (ids: string[]) => Promise<void>
+) => {
+	const count = inventoryItemIds.length;
+
+	toast.success(
+		count > 1
+			? `${count} produits supprimés de l'inventaire`
+			: "Produit supprimé de l'inventaire",
+		{
+			duration: UNDO_TOAST_DURATION_MS,
+			action: {
+				label: 'Annuler',
+				onClick: () => {
+					restoreInventoryItems(inventoryItemIds)
+						.then(() =>
+							toast.success(
+								count > 1
+									? `${count} produits restaurés`
+									: 'Produit restauré'
+							)
+						)
+						.catch((error: unknown) =>
+							toast.error(
+								getUserFacingErrorMessage(
+									error,
+									'Impossible de restaurer les produits.'
+								)
+							)
+						);
+				},
+			},
+		}
+	);
+};
@@ -43,6 +43,19 @@ describe('invoiceReview', () => {
 		expect(requiresInvoiceItemCorrection(items[1])).toBe(true);
 	});
 
+	it("fait confiance aux lignes résolues depuis l'historique", () => {
+		const learned = item({
+			confidence: 0.4,
+			externalProductStatus: 'NOT_FOUND',
+			resolvedFromHistory: true
+		});
+
+		expect(requiresInvoiceItemCorrection(learned)).toBe(false);
+		expect(
+			requiresInvoiceItemCorrection({ ...learned, totalPrice: null, unitPrice: null })
+		).toBe(true);
+	});
+
 	it('calcule la somme des lignes et l’écart avec la facture', () => {
 		expect(
 			getInvoiceTotals(
@@ -14,14 +14,17 @@ export const getInvoiceItemTotal = (item: {
 	return null;
 };
 
+// Une ligne résolue depuis l'historique reprend une correction déjà faite par
+// l'utilisateur : seules ses valeurs de la facture restent à contrôler.
 export const requiresInvoiceItemCorrection = (item: InvoiceItem): boolean =>
 	!item.detectedName.trim() ||
 	item.quantity <= 0 ||
 	getInvoiceItemTotal(item) === null ||
-	item.confidence < RELIABLE_INVOICE_CONFIDENCE ||
-	['ERROR', 'NOT_FOUND', 'INCOMPLETE'].includes(
-		item.externalProductStatus ?? ''
-	);
+	(!item.resolvedFromHistory &&
+		(item.confidence < RELIABLE_INVOICE_CONFIDENCE ||
+			['ERROR', 'NOT_FOUND', 'INCOMPLETE'].includes(
+				item.externalProductStatus ?? ''
+			)));
 
 export const sortInvoiceItemsForReview = (
 	items: InvoiceItem[]
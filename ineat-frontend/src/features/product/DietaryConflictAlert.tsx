@@ -0,0 +1,70 @@
+import type { FC } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useAuthStore } from '@/stores/authStore';
+import {
+	getDietaryConflicts,
+	type DietaryProductInput,
+} from '@/utils/dietaryConflicts';
+import { cn } from '@/lib/utils';
+
+interface DietaryConflictAlertProps {
+	product: DietaryProductInput;
+	// 'badge' : pastille compacte pour les cartes d'inventaire
+	variant?: 'alert' | 'badge';
+	className?: string;
+}
+
+export const DietaryConflictAlert: FC<DietaryConflictAlertProps> = ({
+	product,
+	variant = 'alert',
+	className = '',
+}) => {
+	const preferences = useAuthStore((state) => state.user?.preferences);
+	const conflicts = getDietaryConflicts(product, preferences);
+
+	if (conflicts.length === 0) {
+		return null;
+	}
+
+	const allergenLabels = conflicts
+		.filter((conflict) => conflict.type === 'allergen')
+		.map((conflict) => conflict.label);
+	const dietLabels = conflicts
+		.filter((conflict) => conflict.type === 'diet')
+		.map((conflict) => conflict.label);
+
+	if (variant === 'badge') {
+		return (
+			<span
+				className={cn(
+					'inline-flex items-center gap-1 rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700',
+					className,
+				)}
+				title={conflicts.map((conflict) => conflict.label).join(', ')}
+			>
+				<AlertTriangle className='size-3' />
+				{allergenLabels.length > 0 ? 'Allergène' : 'Régime'} :{' '}
+				{conflicts.map((conflict) => conflict.label).join(', ')}
+			</span>
+		);
+	}
+
+	return (
+		<Alert
+			variant='warning'
+			icon={<AlertTriangle className='text-warning-50' />}
+			className={className}
+		>
+			<AlertTitle>Attention à vos restrictions alimentaires</AlertTitle>
+			<AlertDescription>
+				{allergenLabels.length > 0 && (
+					<p>Contient : {allergenLabels.join(', ')}</p>
+				)}
+				{dietLabels.length > 0 && (
+					<p>Incompatible avec : {dietLabels.join(', ')}</p>
+				)}
+			</AlertDescription>
+		</Alert>
+	);
+};
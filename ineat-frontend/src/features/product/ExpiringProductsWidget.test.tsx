@@ -0,0 +1,74 @@
+import type { ReactNode } from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { ExpiringProductsWidget } from './ExpiringProductsWidget';
+import type { InventoryItem } from '@/schemas';
+
+vi.mock('@tanstack/react-router', () => ({
+	Link: ({ children }: { children: ReactNode }) => <a>{children}</a>,
+}));
+
+const daysFromNow = (days: number): string => {
+	const date = new Date();
+	date.setDate(date.getDate() + days);
+	return date.toISOString();
+};
+
+const inventoryItem = (
+	id: string,
+	name: string,
+	expiryKind: 'USE_BY' | 'BEST_BEFORE',
+	expiryDate: string
+) =>
+	({
+		id,
+		userId: 'user-1',
+		quantity: 1,
+		expiryDate,
+		expiryKind,
+		purchaseDate: daysFromNow(-30),
+		createdAt: daysFromNow(-30),
+		updatedAt: daysFromNow(-30),
+		product: {
+			id: `product-${id}`,
+			name,
+			unitType: 'UNIT',
+			category: { id: 'category-1', name: 'Épicerie', slug: 'epicerie' },
+		},
+	}) as InventoryItem;
+
+describe('ExpiringProductsWidget', () => {
+	it('présente une DDM dépassée comme à vérifier plutôt que périmée', () => {
+		render(
+			<ExpiringProductsWidget
+				products={[
+					inventoryItem('item-1', 'Biscuits', 'BEST_BEFORE', daysFromNow(-3)),
+				]}
+			/>
+		);
+
+		expect(
+			screen.getByText('À vérifier avant de consommer')
+		).toBeInTheDocument();
+		expect(screen.getAllByText('À vérifier')).not.toHaveLength(0);
+		expect(screen.queryByText('Expiré')).not.toBeInTheDocument();
+		expect(
+			screen.queryByText('Action immédiate requise')
+		).not.toBeInTheDocument();
+	});
+
+	it('garde une DLC dépassée comme urgence', () => {
+		render(
+			<ExpiringProductsWidget
+				products={[
+					inventoryItem('item-1', 'Biscuits', 'BEST_BEFORE', daysFromNow(-3)),
+					inventoryItem('item-2', 'Poulet', 'USE_BY', daysFromNow(-1)),
+				]}
+			/>
+		);
+
+		expect(screen.getByText('Action immédiate requise')).toBeInTheDocument();
+		expect(screen.getAllByText('Expiré')).not.toHaveLength(0);
+	});
+});
@@ -31,13 +31,25 @@ export const ExpiringProductsWidget: FC<ExpiringProductsWidgetProps> = ({
 		})
 	);
 
+	// Une DDM dépassée invite à vérifier le produit, pas à le jeter
+	const isPastBestBefore = (item: InventoryItemWithStatus) =>
+		item.expiryStatus === 'EXPIRED' && item.expiryKind === 'BEST_BEFORE';
+	const toCheckCount = productsWithStatus.filter(isPastBestBefore).length;
+
 	// Calculer le niveau d'urgence global
 	const getUrgencyLevel = () => {
-		if (productsWithStatus.some((p) => p.expiryStatus === 'EXPIRED'))
+		if (
+			productsWithStatus.some(
+				(p) => p.expiryStatus === 'EXPIRED' && !isPastBestBefore(p)
+			)
+		)
 			return 'critical';
 		if (productsWithStatus.some((p) => p.expiryStatus === 'CRITICAL'))
 			return 'high';
-		if (productsWithStatus.some((p) => p.expiryStatus === 'WARNING'))
+		if (
+			toCheckCount > 0 ||
+			productsWithStatus.some((p) => p.expiryStatus === 'WARNING')
+		)
 			return 'medium';
 		return 'low';
 	};
@@ -105,6 +117,8 @@ export const ExpiringProductsWidget: FC<ExpiringProductsWidgetProps> = ({
 	const getStatusMessage = () => {
 		if (urgencyLevel === 'critical') return 'Action immédiate requise';
 		if (urgencyLevel === 'high') return 'Attention requise';
+		if (urgencyLevel === 'medium' && toCheckCount > 0)
+			return 'À vérifier avant de consommer';
 		if (urgencyLevel === 'medium') return 'Surveillance recommandée';
 		return 'Tous vos produits sont frais !';
 	};
@@ -135,6 +149,13 @@ export const ExpiringProductsWidget: FC<ExpiringProductsWidgetProps> = ({
 			<CardContent>
 				{productsWithStatus.length > 0 ? (
 					<div className='space-y-3'>
+						{toCheckCount > 0 && (
+							<p className='text-xs text-amber-700'>
+								{toCheckCount} produit{toCheckCount > 1 ? 's' : ''} à date de
+								durabilité minimale dépassée : vérifiez l'aspect et l'odeur
+								avant de consommer.
+							</p>
+						)}
 						{productsWithStatus.map((item, index) => (
 							<div
 								key={item.id}
@@ -12,6 +12,7 @@ import {
 	StickyNote,
 } from 'lucide-react';
 import ScoreBadge from '../../components/common/ScoreBadge';
+import { DietaryConflictAlert } from './DietaryConflictAlert';
 
 interface ProductCardProps {
 	item: InventoryItemWithStatus;
@@ -207,6 +208,17 @@ const ProductCard: React.FC<ProductCardProps> = ({
 									</span>
 								</div>
 							)}
+
+							{/* ===== RESTRICTIONS ALIMENTAIRES ===== */}
+							<DietaryConflictAlert
+								variant='badge'
+								product={{
+									name: item.product.name,
+									categorySlug: item.product.category?.slug,
+									ingredients: item.product.ingredients,
+									allergens: item.product.allergens,
+								}}
+							/>
 						</div>
 
 						{/* Flèche d'action */}
@@ -10,6 +10,7 @@ import {
 	AlertTriangle,
 	CheckCircle2,
 	Clock,
+	Eye,
 } from 'lucide-react';
 import ScoreBadge from '@/components/common/ScoreBadge';
 
@@ -102,7 +103,20 @@ const ProductItem: FC<ProductItemProps> = ({
 		}
 	};
 
-	const expiryColors = getExpiryColors(item.expiryStatus);
+	// DDM dépassée : le produit reste consommable après vérification
+	const isPastBestBefore =
+		item.expiryStatus === 'EXPIRED' && item.expiryKind === 'BEST_BEFORE';
+	const expiryColors = isPastBestBefore
+		? {
+				bg: 'bg-gradient-to-r from-amber-400 to-amber-500',
+				text: 'text-neutral-50',
+				border: 'border-amber-200',
+				icon: <Eye className='size-3 sm:size-4' />,
+			}
+		: getExpiryColors(item.expiryStatus);
+	const expiryLabel = isPastBestBefore
+		? 'À vérifier'
+		: formatRelativeDate(item.expiryDate);
 
 	return (
 		<Link
@@ -165,7 +179,7 @@ const ProductItem: FC<ProductItemProps> = ({
 										>
 											{expiryColors.icon}
 											<span className='truncate'>
-												{formatRelativeDate(item.expiryDate)}
+												{expiryLabel}
 											</span>
 										</div>
 										{item.expiryDateSource === 'ESTIMATED' && (
@@ -306,7 +320,7 @@ const ProductItem: FC<ProductItemProps> = ({
 								`}
 							>
 								{expiryColors.icon}
-								<span>{formatRelativeDate(item.expiryDate)}</span>
+								<span>{expiryLabel}</span>
 							</div>
 
 							{/* Flèche d'action */}
@@ -21,6 +21,10 @@ import { OpenFoodFactsMapping } from '@/schemas/openfoodfact-mapping';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+	parseInventoryLabelLink,
+	type InventoryLabelLink,
+} from '@/utils/inventoryLabels';
 
 type ScannerState =
 	| 'initializing'
@@ -32,6 +36,8 @@ type ScannerState =
 interface BarcodeScannerProps {
 	onProductFound: (product: OpenFoodFactsMapping) => void;
 	onProductNotFound: (barcode: string) => void;
+	/** QR code d'une étiquette de lot InEat : ouvre le lot au lieu de chercher un produit */
+	onInventoryLabelScanned?: (link: InventoryLabelLink) => void;
 	onError?: (error: string) => void;
 	onClose?: () => void;
 	autoStart?: boolean;
@@ -41,6 +47,7 @@ interface BarcodeScannerProps {
 export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
 	onProductFound,
 	onProductNotFound,
+	onInventoryLabelScanned,
 	onError,
 	onClose,
 	autoStart = true,
@@ -122,6 +129,16 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
 
 				// Arrêter le scan
 				stopScanning();
+
+				// Étiquette de lot : pas de recherche OpenFoodFacts
+				const labelLink = onInventoryLabelScanned
+					? parseInventoryLabelLink(barcode)
+					: null;
+				if (labelLink) {
+					onInventoryLabelScanned?.(labelLink);
+					return;
+				}
+
 				setScannedBarcode(barcode);
 				setState('searching');
 
@@ -135,7 +152,7 @@ export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
 				// Les erreurs NotFoundException sont normales (pas de code-barre détecté)
 			}
 		},
-		[stopScanning, searchByBarcode, onError]
+		[stopScanning, searchByBarcode, onInventoryLabelScanned, onError]
 	);
 
 	/**
@@ -16,6 +16,7 @@ import type { Product } from '@/schemas/product';
 import type { OpenFoodFactsMapping } from '@/schemas/openfoodfact-mapping';
 import type { AddInventoryItemData } from '@/schemas';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from '@tanstack/react-router';
 import { toast } from 'sonner';
 import {
 	inventoryService,
@@ -32,6 +33,7 @@ import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { AddOFFProductForm } from '../inventory/form/AddOFFProductForm';
 import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+import type { InventoryLabelLink } from '@/utils/inventoryLabels';
 
 type FlowStep = 'scan' | 'form' | 'not-found' | 'success';
 
@@ -65,6 +67,7 @@ export const ProductScanFlow: React.FC<ProductScanFlowProps> = ({
 	className = '',
 }) => {
 	const queryClient = useQueryClient();
+	const navigate = useNavigate();
 
 	// États locaux simplifiés
 	const [currentStep, setCurrentStep] = useState<FlowStep>(defaultStep);
@@ -310,6 +313,21 @@ export const ProductScanFlow: React.FC<ProductScanFlowProps> = ({
 		setCurrentStep('not-found');
 	}, []);
 
+	/**
+	 * Gestionnaire quand l'étiquette d'un lot est scannée : ouvre le lot sur sa
+	 * fiche, prêt à être consommé ou jeté
+	 */
+	const handleInventoryLabelScanned = useCallback(
+		(link: InventoryLabelLink): void => {
+			navigate({
+				to: '/app/inventory/$productId',
+				params: { productId: link.productId },
+				search: { lot: link.lotId },
+			});
+		},
+		[navigate]
+	);
+
 	/**
 	 * Gestionnaire d'erreur de scan
 	 */
@@ -378,6 +396,7 @@ export const ProductScanFlow: React.FC<ProductScanFlowProps> = ({
 					<BarcodeScanner
 						onProductFound={handleProductFound}
 						onProductNotFound={handleProductNotFound}
+						onInventoryLabelScanned={handleInventoryLabelScanned}
 						onError={handleScanError}
 						onClose={onCancel}
 					/>
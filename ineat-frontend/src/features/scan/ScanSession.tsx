@@ -0,0 +1,495 @@
+import type React from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { BrowserMultiFormatReader } from '@zxing/library';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+	ArrowLeft,
+	Barcode,
+	CheckCircle2,
+	ListChecks,
+	Loader2,
+	Plus,
+	Trash2,
+	X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import {
+	findStorageLocationByGroup,
+	useStorageGroupResolver,
+	useStorageLocations,
+} from '@/hooks/useStorageLocations';
+import { useShelfLifeOverrides } from '@/hooks/useShelfLifeOverrides';
+import { OFF_UTILS } from '@/schemas/openfoodfact';
+import { inventoryService } from '@/services/inventoryService';
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+import { getExpirySuggestion } from '@/utils/expiryEstimation';
+import {
+	addScanToSession,
+	buildBulkQuickAddPayload,
+	isScanSessionEntryReady,
+	resolveScannedBarcode,
+	type ScanSessionEntry,
+} from './scanSession';
+
+type SessionPhase = 'scan' | 'review';
+
+// Un code-barres qui reste devant la caméra n'est compté qu'une fois : il
+// faut le sortir du champ pendant ce délai pour le scanner à nouveau
+const DUPLICATE_SCAN_DELAY_MS = 2000;
+
+const STATUS_LABELS: Record<ScanSessionEntry['status'], string> = {
+	resolving: 'Recherche…',
+	known: 'Produit connu',
+	openfoodfacts: 'OpenFoodFacts',
+	unknown: 'Produit inconnu',
+};
+
+const formatDate = (date: Date): string => {
+	const year = date.getFullYear();
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${year}-${month}-${day}`;
+};
+
+interface ScanSessionProps {
+	onComplete?: () => void;
+	onCancel?: () => void;
+}
+
+/**
+ * Session de scan pour ranger les courses : les codes-barres sont scannés à
+ * la suite et mis en file avec une quantité, un lieu et une date de
+ * péremption estimée par défaut, puis ajoutés ensemble après relecture.
+ */
+export const ScanSession: React.FC<ScanSessionProps> = ({
+	onComplete,
+	onCancel,
+}) => {
+	const queryClient = useQueryClient();
+	const videoRef = useRef<HTMLVideoElement>(null);
+	const lastScanRef = useRef<{ barcode: string; at: number } | null>(null);
+	const requestedBarcodesRef = useRef(new Set<string>());
+
+	const [phase, setPhase] = useState<SessionPhase>('scan');
+	const [entries, setEntries] = useState<ScanSessionEntry[]>([]);
+	const [cameraError, setCameraError] = useState<string | null>(null);
+	const [manualBarcode, setManualBarcode] = useState('');
+	const purchaseDate = useMemo(() => formatDate(new Date()), []);
+
+	const { data: categories = [] } = useQuery({
+		queryKey: ['categories'],
+		queryFn: inventoryService.getCategories,
+		staleTime: 1000 * 60 * 60, // 1 heure
+	});
+	const { data: storageLocations = [] } = useStorageLocations();
+	const { data: shelfLifeOverrides } = useShelfLifeOverrides();
+	const resolveStorageGroup = useStorageGroupResolver();
+	const defaultStorageLocation =
+		findStorageLocationByGroup(storageLocations, 'pantry') ??
+		storageLocations[0]?.name;
+
+	const updateEntry = useCallback(
+		(barcode: string, changes: Partial<ScanSessionEntry>) => {
+			setEntries((previous) =>
+				previous.map((entry) =>
+					entry.barcode === barcode ? { ...entry, ...changes } : entry
+				)
+			);
+		},
+		[]
+	);
+
+	const removeEntry = useCallback((barcode: string) => {
+		requestedBarcodesRef.current.delete(barcode);
+		setEntries((previous) =>
+			previous.filter((entry) => entry.barcode !== barcode)
+		);
+	}, []);
+
+	/**
+	 * Met le code-barres en file et lance sa résolution au premier scan
+	 */
+	const handleBarcode = useCallback(
+		(barcode: string) => {
+			if ('vibrate' in navigator) {
+				navigator.vibrate(100);
+			}
+
+			setEntries((previous) =>
+				addScanToSession(previous, barcode, defaultStorageLocation)
+			);
+			if (requestedBarcodesRef.current.has(barcode)) return;
+			requestedBarcodesRef.current.add(barcode);
+
+			resolveScannedBarcode(barcode)
+				.then((resolution) => updateEntry(barcode, resolution))
+				.catch((error: unknown) => {
+					console.error('Erreur résolution code-barres:', error);
+					updateEntry(barcode, { status: 'unknown' });
+				});
+		},
+		[defaultStorageLocation, updateEntry]
+	);
+
+	const handleBarcodeRef = useRef(handleBarcode);
+	useEffect(() => {
+		handleBarcodeRef.current = handleBarcode;
+	}, [handleBarcode]);
+
+	// Caméra active pendant toute la phase de scan
+	useEffect(() => {
+		if (phase !== 'scan' || !videoRef.current) return;
+
+		const codeReader = new BrowserMultiFormatReader();
+		let stopped = false;
+
+		codeReader
+			.decodeFromConstraints(
+				{ video: { facingMode: 'environment' } },
+				videoRef.current,
+				(result) => {
+					if (!result) return;
+
+					const barcode = result.getText().trim();
+					const now = Date.now();
+					const lastScan = lastScanRef.current;
+					lastScanRef.current = { barcode, at: now };
+					if (
+						lastScan?.barcode === barcode &&
+						now - lastScan.at < DUPLICATE_SCAN_DELAY_MS
+					) {
+						return;
+					}
+					if (OFF_UTILS.isValidBarcode(barcode)) {
+						handleBarcodeRef.current(barcode);
+					}
+				}
+			)
+			.catch((error: unknown) => {
+				if (stopped) return;
+				console.error('Erreur démarrage scanner:', error);
+				setCameraError(
+					'Caméra indisponible. Vous pouvez saisir les codes-barres à la main.'
+				);
+			});
+
+		return () => {
+			stopped = true;
+			codeReader.reset();
+		};
+	}, [phase]);
+
+	const handleManualSubmit = (event: React.FormEvent) => {
+		event.preventDefault();
+		const barcode = manualBarcode.trim();
+		if (!OFF_UTILS.isValidBarcode(barcode)) {
+			toast.error('Code-barres invalide', {
+				description: 'Le code-barres doit contenir entre 8 et 13 chiffres.',
+			});
+			return;
+		}
+
+		handleBarcode(barcode);
+		setManualBarcode('');
+	};
+
+	const addMutation = useMutation({
+		mutationFn: () =>
+			inventoryService.bulkQuickAdd(
+				buildBulkQuickAddPayload(
+					entries.map((entry) => ({
+						...entry,
+						storageLocation: entry.storageLocation ?? defaultStorageLocation,
+					})),
+					purchaseDate
+				)
+			),
+		onSuccess: (result) => {
+			toast.success(
+				`${result.addedCount} produit${result.addedCount > 1 ? 's' : ''} ajouté${result.addedCount > 1 ? 's' : ''} à l'inventaire`
+			);
+			queryClient.invalidateQueries({ queryKey: ['inventory'] });
+			onComplete?.();
+		},
+		onError: (error) =>
+			toast.error("Erreur lors de l'ajout", {
+				description: getUserFacingErrorMessage(
+					error,
+					"Impossible d'ajouter les produits scannés."
+				),
+			}),
+	});
+
+	const readyCount = entries.filter(isScanSessionEntryReady).length;
+	const pendingCount = entries.length - readyCount;
+	const totalScans = entries.reduce((total, entry) => total + entry.quantity, 0);
+
+	if (phase === 'scan') {
+		return (
+			<div className='relative min-h-dvh bg-black text-neutral-50'>
+				<video
+					ref={videoRef}
+					className='absolute inset-0 size-full object-cover'
+					playsInline
+					muted
+				/>
+				<div className='absolute inset-x-0 top-0 h-40 bg-linear-to-b from-black/70 to-transparent' />
+				<div className='absolute inset-x-0 bottom-0 h-96 bg-linear-to-t from-black/85 via-black/60 to-transparent' />
+
+				<header className='relative z-10 flex items-center justify-between px-4 pt-5'>
+					<div className='rounded-lg border border-neutral-50/15 bg-neutral-50/12 px-4 py-3 shadow-lg backdrop-blur-md'>
+						<div className='flex items-center gap-2'>
+							<Barcode className='size-5 text-primary-100' />
+							<p className='font-semibold'>Session de scan</p>
+						</div>
+						<p className='mt-1 text-xs text-neutral-50/70'>
+							{totalScans} article{totalScans > 1 ? 's' : ''} scanné
+							{totalScans > 1 ? 's' : ''}
+						</p>
+					</div>
+					{onCancel && (
+						<Button
+							onClick={onCancel}
+							variant='ghost'
+							size='icon'
+							className='rounded-full border border-neutral-50/15 bg-neutral-50/12 text-neutral-50 hover:bg-neutral-50/20 hover:text-neutral-50'
+							aria-label='Quitter la session de scan'>
+							<X className='size-5' />
+						</Button>
+					)}
+				</header>
+
+				<div className='absolute inset-x-0 bottom-0 z-10 space-y-3 px-4 pb-6'>
+					{cameraError && (
+						<p className='rounded-lg bg-black/60 px-3 py-2 text-sm'>
+							{cameraError}
+						</p>
+					)}
+
+					{entries.length > 0 && (
+						<ul className='max-h-48 space-y-1 overflow-y-auto'>
+							{[...entries].reverse().map((entry) => (
+								<li
+									key={entry.barcode}
+									className='flex items-center justify-between rounded-lg bg-neutral-50/12 px-3 py-2 text-sm backdrop-blur-md'>
+									<span className='truncate'>
+										{entry.name || entry.barcode}
+									</span>
+									<span className='ml-2 flex shrink-0 items-center gap-2 text-neutral-50/70'>
+										{entry.status === 'resolving' ? (
+											<Loader2 className='size-4 animate-spin' />
+										) : (
+											STATUS_LABELS[entry.status]
+										)}
+										<strong className='text-neutral-50'>
+											×{entry.quantity}
+										</strong>
+									</span>
+								</li>
+							))}
+						</ul>
+					)}
+
+					<form onSubmit={handleManualSubmit} className='flex gap-2'>
+						<Input
+							aria-label='Code-barres'
+							inputMode='numeric'
+							placeholder='Saisir un code-barres'
+							value={manualBarcode}
+							onChange={(event) => setManualBarcode(event.target.value)}
+							className='bg-neutral-50 text-neutral-900'
+						/>
+						<Button type='submit' variant='secondary' aria-label='Ajouter'>
+							<Plus className='size-4' />
+						</Button>
+					</form>
+
+					<Button
+						className='w-full'
+						disabled={entries.length === 0}
+						onClick={() => setPhase('review')}>
+						<ListChecks className='size-4 mr-2' />
+						Terminer et vérifier ({entries.length})
+					</Button>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className='min-h-dvh bg-neutral-50'>
+			<div className='mx-auto max-w-md px-4 py-6 space-y-4'>
+				<div className='flex items-center gap-3'>
+					<Button
+						variant='ghost'
+						size='icon'
+						onClick={() => setPhase('scan')}
+						aria-label='Reprendre le scan'>
+						<ArrowLeft className='size-5' />
+					</Button>
+					<div>
+						<h1 className="text-xl font-semibold text-gray-900 font-['Fredoka']">
+							Vérifier la session
+						</h1>
+						<p className='text-sm text-gray-600'>
+							Achetés le {new Date(purchaseDate).toLocaleDateString('fr-FR')}
+						</p>
+					</div>
+				</div>
+
+				{entries.length === 0 && (
+					<p className='text-sm text-gray-600'>Aucun produit scanné.</p>
+				)}
+
+				<ul className='space-y-3'>
+					{entries.map((entry) => {
+						const storageLocation =
+							entry.storageLocation ?? defaultStorageLocation ?? '';
+						const expirySuggestion = getExpirySuggestion({
+							productId: entry.product?.id,
+							productName: entry.name,
+							categorySlug: entry.category,
+							categoryName: entry.product?.category?.name,
+							storageLocation,
+							storageGroup: resolveStorageGroup(storageLocation),
+							purchaseDate,
+							userRules: shelfLifeOverrides,
+						});
+						const isNewProduct =
+							entry.status === 'openfoodfacts' || entry.status === 'unknown';
+
+						return (
+							<li
+								key={entry.barcode}
+								className='rounded-xl border border-gray-200 bg-white p-4 shadow-sm space-y-3'>
+								<div className='flex items-start justify-between gap-2'>
+									<div className='min-w-0'>
+										{isNewProduct ? (
+											<Input
+												aria-label={`Nom du produit ${entry.barcode}`}
+												placeholder='Nom du produit'
+												value={entry.name ?? ''}
+												onChange={(event) =>
+													updateEntry(entry.barcode, { name: event.target.value })
+												}
+											/>
+										) : (
+											<p className='font-medium text-gray-900 truncate'>
+												{entry.name || entry.barcode}
+											</p>
+										)}
+										<p className='mt-1 text-xs text-gray-500'>
+											{entry.barcode} · {STATUS_LABELS[entry.status]}
+										</p>
+									</div>
+									<Button
+										variant='ghost'
+										size='icon'
+										onClick={() => removeEntry(entry.barcode)}
+										aria-label={`Retirer ${entry.name || entry.barcode}`}>
+										<Trash2 className='size-4 text-error-500' />
+									</Button>
+								</div>
+
+								{isNewProduct && (
+									<Select
+										value={entry.category ?? ''}
+										onValueChange={(category) =>
+											updateEntry(entry.barcode, { category })
+										}>
+										<SelectTrigger aria-label={`Catégorie ${entry.barcode}`}>
+											<SelectValue placeholder='Choisir une catégorie' />
+										</SelectTrigger>
+										<SelectContent>
+											{categories.map((category) => (
+												<SelectItem key={category.id} value={category.slug}>
+													{category.name}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								)}
+
+								<div className='grid grid-cols-2 gap-2'>
+									<div>
+										<Label htmlFor={`quantity-${entry.barcode}`}>Quantité</Label>
+										<Input
+											id={`quantity-${entry.barcode}`}
+											type='number'
+											min='0'
+											step='any'
+											value={entry.quantity}
+											onChange={(event) =>
+												updateEntry(entry.barcode, {
+													quantity: parseFloat(event.target.value) || 0,
+												})
+											}
+										/>
+									</div>
+									<div>
+										<Label>Lieu</Label>
+										<Select
+											value={storageLocation}
+											onValueChange={(value) =>
+												updateEntry(entry.barcode, { storageLocation: value })
+											}>
+											<SelectTrigger aria-label={`Lieu ${entry.barcode}`}>
+												<SelectValue placeholder='Lieu de stockage' />
+											</SelectTrigger>
+											<SelectContent>
+												{storageLocations.map((location) => (
+													<SelectItem key={location.id} value={location.name}>
+														{location.name}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+								</div>
+
+								{expirySuggestion && entry.status !== 'resolving' && (
+									<p className='text-xs text-gray-600'>
+										Péremption estimée au{' '}
+										{new Date(expirySuggestion.date).toLocaleDateString('fr-FR')}{' '}
+										({expirySuggestion.reason})
+									</p>
+								)}
+							</li>
+						);
+					})}
+				</ul>
+
+				{pendingCount > 0 && (
+					<p className='text-sm text-amber-700'>
+						{pendingCount > 1
+							? `${pendingCount} produits à compléter (nom et catégorie) ne seront pas ajoutés.`
+							: '1 produit à compléter (nom et catégorie) ne sera pas ajouté.'}
+					</p>
+				)}
+
+				<Button
+					className='w-full'
+					disabled={readyCount === 0 || addMutation.isPending}
+					onClick={() => addMutation.mutate()}>
+					{addMutation.isPending ? (
+						<Loader2 className='size-4 mr-2 animate-spin' />
+					) : (
+						<CheckCircle2 className='size-4 mr-2' />
+					)}
+					Ajouter {readyCount} produit{readyCount > 1 ? 's' : ''}
+				</Button>
+			</div>
+		</div>
+	);
+};
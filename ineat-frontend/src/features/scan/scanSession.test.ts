@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+	addScanToSession,
+	buildBulkQuickAddPayload,
+	resolveScannedBarcode,
+	type ScanSessionEntry,
+} from './scanSession';
+import { inventoryService } from '@/services/inventoryService';
+import { openFoodFactsService } from '@/services/openFoodFactsServices';
+
+vi.mock('@/services/inventoryService', () => ({
+	inventoryService: {
+		checkBarcode: vi.fn(),
+	},
+}));
+
+vi.mock('@/services/openFoodFactsServices', () => ({
+	openFoodFactsService: {
+		getEnrichedProductByBarcode: vi.fn(),
+	},
+}));
+
+const knownProduct = {
+	id: 'product-1',
+	name: 'Lait demi-écrémé',
+	unitType: 'L' as const,
+	category: {
+		id: 'category-1',
+		name: 'Produits laitiers',
+		slug: 'produits-laitiers',
+	},
+};
+
+describe('scan session', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('counts a repeated scan instead of queuing the product twice', () => {
+		const once = addScanToSession([], '3263859672014', 'Placard');
+		const twice = addScanToSession(once, '3263859672014', 'Placard');
+
+		expect(twice).toEqual([
+			{
+				barcode: '3263859672014',
+				status: 'resolving',
+				quantity: 2,
+				storageLocation: 'Placard',
+			},
+		]);
+	});
+
+	it('resolves known products before asking OpenFoodFacts', async () => {
+		vi.mocked(inventoryService.checkBarcode).mockResolvedValue({
+			exists: true,
+			product: knownProduct,
+		});
+
+		await expect(resolveScannedBarcode('3263859672014')).resolves.toEqual(
+			expect.objectContaining({
+				status: 'known',
+				category: 'produits-laitiers',
+			}),
+		);
+		expect(
+			openFoodFactsService.getEnrichedProductByBarcode,
+		).not.toHaveBeenCalled();
+
+		vi.mocked(inventoryService.checkBarcode).mockResolvedValue({
+			exists: false,
+			product: null,
+		});
+		vi.mocked(
+			openFoodFactsService.getEnrichedProductByBarcode,
+		).mockResolvedValue(null);
+
+		await expect(resolveScannedBarcode('3017620422003')).resolves.toEqual({
+			status: 'unknown',
+		});
+	});
+
+	it('splits the session into quick adds and new products, skipping incomplete ones', () => {
+		const entries: ScanSessionEntry[] = [
+			{
+				barcode: '3263859672014',
+				status: 'known',
+				quantity: 2,
+				storageLocation: 'Réfrigérateur',
+				name: knownProduct.name,
+				product: knownProduct,
+			},
+			{
+				barcode: '3017620422003',
+				status: 'unknown',
+				quantity: 1,
+				name: 'Pâte à tartiner',
+				category: 'epicerie-sucree',
+			},
+			{ barcode: '3560070976478', status: 'unknown', quantity: 1 },
+		];
+
+		expect(buildBulkQuickAddPayload(entries, '2026-10-19')).toEqual({
+			items: [
+				{
+					productId: 'product-1',
+					quantity: 2,
+					purchaseDate: '2026-10-19',
+					storageLocation: 'Réfrigérateur',
+				},
+			],
+			newProducts: [
+				expect.objectContaining({
+					name: 'Pâte à tartiner',
+					barcode: '3017620422003',
+					category: 'epicerie-sucree',
+					quantity: 1,
+					unitType: 'UNIT',
+				}),
+			],
+		});
+	});
+});
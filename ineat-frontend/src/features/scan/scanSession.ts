@@ -0,0 +1,152 @@
+import type { AddInventoryItemData } from '@/schemas';
+import type { OpenFoodFactsMapping } from '@/schemas/openfoodfact-mapping';
+import {
+	inventoryService,
+	type BulkQuickAddData,
+	type ProductSearchResult,
+} from '@/services/inventoryService';
+import { openFoodFactsService } from '@/services/openFoodFactsServices';
+
+/**
+ * - resolving : recherche en cours
+ * - known : produit déjà connu d'InEat, ajout rapide
+ * - openfoodfacts : produit trouvé sur OpenFoodFacts, à créer
+ * - unknown : code-barres introuvable, nom et catégorie à saisir
+ */
+export type ScanSessionEntryStatus =
+	| 'resolving'
+	| 'known'
+	| 'openfoodfacts'
+	| 'unknown';
+
+export interface ScanSessionEntry {
+	barcode: string;
+	status: ScanSessionEntryStatus;
+	quantity: number;
+	storageLocation?: string;
+	/** Nom affiché, modifiable pour un produit à créer */
+	name?: string;
+	/** Slug de catégorie, obligatoire pour créer un produit */
+	category?: string;
+	product?: ProductSearchResult;
+	offProduct?: OpenFoodFactsMapping;
+}
+
+export type ScanResolution = Pick<
+	ScanSessionEntry,
+	'status' | 'name' | 'category' | 'product' | 'offProduct'
+>;
+
+/**
+ * Ajoute un code-barres scanné à la session : un produit déjà dans la file
+ * voit sa quantité augmenter d'une unité au lieu d'être ajouté deux fois
+ */
+export const addScanToSession = (
+	entries: ScanSessionEntry[],
+	barcode: string,
+	storageLocation?: string
+): ScanSessionEntry[] => {
+	if (entries.some((entry) => entry.barcode === barcode)) {
+		return entries.map((entry) =>
+			entry.barcode === barcode
+				? { ...entry, quantity: entry.quantity + 1 }
+				: entry
+		);
+	}
+
+	return [
+		...entries,
+		{ barcode, status: 'resolving', quantity: 1, storageLocation },
+	];
+};
+
+/**
+ * Résout un code-barres : produit connu d'InEat d'abord, OpenFoodFacts sinon
+ */
+export const resolveScannedBarcode = async (
+	barcode: string
+): Promise<ScanResolution> => {
+	const { exists, product } = await inventoryService.checkBarcode(barcode);
+	if (exists && product) {
+		return {
+			status: 'known',
+			name: product.name,
+			category: product.category?.slug,
+			product,
+		};
+	}
+
+	const offProduct =
+		await openFoodFactsService.getEnrichedProductByBarcode(barcode);
+	if (offProduct) {
+		return { status: 'openfoodfacts', name: offProduct.name, offProduct };
+	}
+
+	return { status: 'unknown' };
+};
+
+/**
+ * Un produit connu est prêt tel quel ; un produit à créer doit avoir un nom
+ * et une catégorie
+ */
+export const isScanSessionEntryReady = (entry: ScanSessionEntry): boolean => {
+	if (entry.quantity <= 0) return false;
+	if (entry.status === 'known') return Boolean(entry.product);
+	if (entry.status === 'resolving') return false;
+	return Boolean(entry.name?.trim() && entry.category);
+};
+
+/**
+ * Construit la requête d'ajout groupé. La date de péremption est laissée
+ * au serveur, qui l'estime avec les mêmes règles que l'aperçu.
+ */
+export const buildBulkQuickAddPayload = (
+	entries: ScanSessionEntry[],
+	purchaseDate: string
+): BulkQuickAddData => {
+	const readyEntries = entries.filter(isScanSessionEntryReady);
+
+	return {
+		items: readyEntries
+			.filter((entry) => entry.status === 'known')
+			.map((entry) => ({
+				productId: entry.product!.id,
+				quantity: entry.quantity,
+				purchaseDate,
+				storageLocation: entry.storageLocation || undefined,
+			})),
+		newProducts: readyEntries
+			.filter((entry) => entry.status !== 'known')
+			.map((entry): AddInventoryItemData => {
+				const offProduct = entry.offProduct;
+
+				return {
+					name: entry.name!.trim(),
+					brand: offProduct?.brand || undefined,
+					barcode: entry.barcode,
+					category: entry.category!,
+					nutriscore: offProduct?.nutriscore,
+					ecoscore: offProduct?.ecoscore,
+					novascore: offProduct?.novascore,
+					nutrients: offProduct?.nutrients
+						? {
+								energy: offProduct.nutrients.energy,
+								proteins: offProduct.nutrients.proteins,
+								carbohydrates: offProduct.nutrients.carbohydrates,
+								fats: offProduct.nutrients.fats,
+								sugars: offProduct.nutrients.sugars,
+								fiber: offProduct.nutrients.fiber,
+								salt: offProduct.nutrients.salt,
+								saturatedFats: offProduct.nutrients.saturatedFats,
+							}
+						: undefined,
+					imageUrl: offProduct?.imageUrl,
+					ingredients: offProduct?.ingredients,
+					quantity: entry.quantity,
+					unitType: 'UNIT',
+					purchaseDate,
+					storageLocation: entry.storageLocation || undefined,
+				};
+			}),
+	};
+};
@@ -5,6 +5,7 @@ import { z } from 'zod';
 import {
 	AddInventoryItemSchema,
 	type AddInventoryItemData,
+	type ExpiryKind,
 	type UnitType,
 	type Category,
 } from '@/schemas';
@@ -14,6 +15,8 @@ import {
 	type PackageStatus,
 	type PreparationStatus,
 } from '@/utils/productStateOptions';
+import { useStorageGroupResolver } from '@/hooks/useStorageLocations';
+import { useShelfLifeOverrides } from '@/hooks/useShelfLifeOverrides';
 
 // Type de formulaire basé sur le schéma Zod mais avec des chaînes pour l'interface
 export type FormData = {
@@ -29,6 +32,7 @@ export type FormData = {
 	barcode: string;
 	expiryDate: string;
 	expiryDateSource: 'MANUAL' | 'ESTIMATED';
+	expiryKind: ExpiryKind | '';
 	packageStatus: PackageStatus | '';
 	preparationStatus: PreparationStatus | '';
 	purchasePrice: string;
@@ -106,6 +110,7 @@ export const useProductForm = (
 			// Champs optionnels
 			expiryDate: '',
 			expiryDateSource: 'ESTIMATED',
+			expiryKind: '',
 			packageStatus: '',
 			preparationStatus: '',
 			purchasePrice: '',
@@ -181,6 +186,7 @@ export const useProductForm = (
 					formData.expiryDateSource === 'MANUAL' && {
 						expiryDate: formData.expiryDate,
 					}),
+				...(formData.expiryKind && { expiryKind: formData.expiryKind }),
 				...(formData.purchasePrice &&
 					!isNaN(Number(formData.purchasePrice)) && {
 						purchasePrice: Number(formData.purchasePrice),
@@ -279,6 +285,10 @@ export const useProductForm = (
 		[errors],
 	);
 
+	const { data: shelfLifeOverrides } = useShelfLifeOverrides();
+	const resolveStorageGroup = useStorageGroupResolver();
+	const storageGroup = resolveStorageGroup(formData.storageLocation);
+
 	useEffect(() => {
 		const selectedCategory = categories.find(
 			(category) => category.slug === formData.category,
@@ -288,9 +298,11 @@ export const useProductForm = (
 			categorySlug: formData.category,
 			categoryName: selectedCategory?.name,
 			storageLocation: formData.storageLocation,
+			storageGroup,
 			packageStatus: formData.packageStatus || undefined,
 			preparationStatus: formData.preparationStatus || undefined,
 			purchaseDate: formData.purchaseDate,
+			userRules: shelfLifeOverrides,
 		});
 
 		if (!suggestion) return;
@@ -313,6 +325,8 @@ export const useProductForm = (
 		formData.preparationStatus,
 		formData.purchaseDate,
 		formData.storageLocation,
+		storageGroup,
+		shelfLifeOverrides,
 	]);
 
 	useEffect(() => {
@@ -324,6 +338,7 @@ export const useProductForm = (
 			categorySlug: formData.category,
 			categoryName: selectedCategory?.name,
 			storageLocation: formData.storageLocation,
+			storageGroup,
 		});
 
 		setFormData((prev) => {
@@ -347,7 +362,13 @@ export const useProductForm = (
 				preparationStatus,
 			};
 		});
-	}, [categories, formData.category, formData.name, formData.storageLocation]);
+	}, [
+		categories,
+		formData.category,
+		formData.name,
+		formData.storageLocation,
+		storageGroup,
+	]);
 
 	// Soumission du formulaire avec validation Zod
 	const handleSubmit = useCallback(
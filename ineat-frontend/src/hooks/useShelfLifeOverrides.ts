@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+
+// ===== IMPORTS SERVICES =====
+import {
+	inventoryService,
+	type ShelfLifeOverride,
+} from '@/services/inventoryService';
+
+export const SHELF_LIFE_OVERRIDES_QUERY_KEY = [
+	'inventory',
+	'shelf-life-rules',
+] as const;
+
+/**
+ * Hook pour récupérer les règles de conservation personnelles de
+ * l'utilisateur, utilisées en priorité pour estimer les dates de péremption
+ *
+ * @returns Query object avec les règles personnelles
+ */
+export function useShelfLifeOverrides() {
+	return useQuery<ShelfLifeOverride[], Error>({
+		queryKey: SHELF_LIFE_OVERRIDES_QUERY_KEY,
+		queryFn: () => inventoryService.getShelfLifeOverrides(),
+		staleTime: 5 * 60 * 1000,
+		gcTime: 10 * 60 * 1000,
+	});
+}
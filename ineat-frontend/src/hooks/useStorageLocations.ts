@@ -0,0 +1,76 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+
+// ===== IMPORTS SERVICES =====
+import {
+	inventoryService,
+	type StorageLocation,
+} from '@/services/inventoryService';
+import { resolveStorageGroup } from '@/utils/expiryEstimation';
+import type { StorageGroup } from '@/constants/expiryRules';
+
+export const STORAGE_LOCATIONS_QUERY_KEY = [
+	'inventory',
+	'storage-locations',
+] as const;
+
+/**
+ * Premier lieu de l'utilisateur du type demandé, utilisé pour pré-remplir
+ * les formulaires d'ajout
+ */
+export const findStorageLocationByGroup = (
+	storageLocations: StorageLocation[] | undefined,
+	storageGroup: StorageGroup
+): string | undefined =>
+	storageLocations?.find((location) => location.storageGroup === storageGroup)
+		?.name;
+
+/**
+ * Hook pour récupérer les lieux de stockage de l'utilisateur
+ *
+ * @returns Query object avec les lieux de stockage
+ */
+export function useStorageLocations() {
+	return useQuery<StorageLocation[], Error>({
+		queryKey: STORAGE_LOCATIONS_QUERY_KEY,
+		queryFn: () => inventoryService.getStorageLocations(),
+		staleTime: 5 * 60 * 1000,
+		gcTime: 10 * 60 * 1000,
+	});
+}
+
+/**
+ * Hook utilitaire pour résoudre le type de stockage d'un lieu en tenant
+ * compte des lieux personnalisés de l'utilisateur
+ *
+ * @returns Fonction de résolution (lieu -> type de stockage)
+ */
+export function useStorageGroupResolver() {
+	const { data: storageLocations } = useStorageLocations();
+
+	return useCallback(
+		(storageLocation?: string | null): StorageGroup =>
+			resolveStorageGroup(storageLocation ?? undefined, storageLocations),
+		[storageLocations]
+	);
+}
+
+/**
+ * Hook utilitaire pour alimenter les listes de sélection de lieu. Un lieu
+ * historique qui n'existe plus dans la liste est conservé pour ne pas vider
+ * le champ d'un lot existant.
+ *
+ * @param currentLocation - Lieu actuellement sélectionné
+ * @returns Noms des lieux de stockage sélectionnables
+ */
+export function useStorageLocationOptions(currentLocation?: string | null) {
+	const { data: storageLocations = [] } = useStorageLocations();
+
+	return useMemo(() => {
+		const names = storageLocations.map((location) => location.name);
+		if (currentLocation && !names.includes(currentLocation)) {
+			names.push(currentLocation);
+		}
+		return names;
+	}, [storageLocations, currentLocation]);
+}
@@ -3,6 +3,7 @@ export class ApiRequestError extends Error {
 	code?: string;
 	requestId?: string;
 	rawMessage?: string;
+	details?: Record<string, unknown>;
 
 	constructor(
 		message: string,
@@ -11,6 +12,7 @@ export class ApiRequestError extends Error {
 			code?: string;
 			requestId?: string;
 			rawMessage?: string;
+			details?: Record<string, unknown>;
 		} = {}
 	) {
 		super(message);
@@ -19,10 +21,11 @@ export class ApiRequestError extends Error {
 		this.code = options.code;
 		this.requestId = options.requestId;
 		this.rawMessage = options.rawMessage;
+		this.details = options.details;
 	}
 }
 
-const API_URL = (import.meta.env.VITE_API_URL || 'http://localhost:3000').replace(
+export const API_URL = (import.meta.env.VITE_API_URL || 'http://localhost:3000').replace(
 	/\/$/,
 	''
 );
@@ -38,6 +41,7 @@ interface ApiErrorResponse {
 	code?: string;
 	message?: string | string[];
 	requestId?: string;
+	details?: Record<string, unknown>;
 }
 
 const SENSITIVE_ERROR_PATTERNS = [
@@ -205,6 +209,7 @@ export const apiClient = {
 					code: errorData?.code,
 					requestId,
 					rawMessage,
+					details: errorData?.details,
 				});
 			}
 
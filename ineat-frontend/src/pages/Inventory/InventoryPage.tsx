@@ -9,12 +9,22 @@ import {
 	Grid3X3,
 	List,
 	Trash2,
+	Recycle,
+	ShoppingCart,
+	ArrowDownUp,
+	ClipboardCheck,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Link } from '@tanstack/react-router';
 import { useAuthStore } from '@/stores/authStore';
-import type { StorageLocationFilter } from '@/schemas';
+import type {
+	DiscardInventoryItemData,
+	StorageLocationFilter,
+} from '@/schemas';
 import ProductCard from '@/features/product/ProductCard';
+import { DiscardInventoryItemDialog } from '@/features/inventory/DiscardInventoryItemDialog';
+import { InventoryTransferDialog } from '@/features/inventory/InventoryTransferDialog';
+import { showRemovalUndoToast } from '@/features/inventory/removalUndoToast';
 import CategoryFilter from '@/components/common/CategoryFilter';
 import {
 	useInventoryItems,
@@ -23,20 +33,32 @@ import {
 	useInventoryActions,
 } from '@/stores/inventoryStore';
 import { useCategories } from '@/hooks/useCategories';
+import {
+	useStorageGroupResolver,
+	useStorageLocations,
+} from '@/hooks/useStorageLocations';
+import type { StorageGroup } from '@/constants/expiryRules';
 import { getInitials } from '@/utils/ui-utils';
 
-const CATEGORY_TO_STORAGE_MAPPING: Record<StorageLocationFilter, string[]> = {
+// Types de stockage couverts par chaque onglet, les lieux personnalisés
+// de l'utilisateur sont rattachés à leur type
+const CATEGORY_TO_STORAGE_GROUPS: Record<
+	StorageLocationFilter,
+	StorageGroup[]
+> = {
 	ALL: [],
-	FRESH: ['refrigerator', 'fridge', 'frigo', 'réfrigérateur'],
-	FREEZER: ['freezer', 'congélateur', 'congelateur'],
-	PANTRY: ['pantry', 'placard', 'cupboard', 'épicerie', 'epicerie', 'other'],
-} as const;
+	FRESH: ['fridge'],
+	FREEZER: ['freezer'],
+	PANTRY: ['pantry', 'cellar', 'ambient', 'other'],
+};
 
 const InventoryPage: React.FC = () => {
 	const [searchQuery, setSearchQuery] = useState('');
 	const [activeStorageCategory, setActiveStorageCategory] =
 		useState<StorageLocationFilter>('ALL');
 	const [selectedCategoryId, setSelectedCategoryId] = useState<string>('');
+	const [selectedStorageLocation, setSelectedStorageLocation] =
+		useState<string>('');
 	const [showFilters, setShowFilters] = useState(false);
 	const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
 	const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -44,11 +66,20 @@ const InventoryPage: React.FC = () => {
 		() => new Set()
 	);
 
+	const [isDiscardDialogOpen, setIsDiscardDialogOpen] = useState(false);
+	const [isDiscarding, setIsDiscarding] = useState(false);
+	const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
+
 	const items = useInventoryItems(); // Items déjà enrichis avec expiryStatus par le store
 	const isLoading = useInventoryLoading();
 	const error = useInventoryError();
-	const { fetchInventoryItems, removeInventoryItems, clearError } =
-		useInventoryActions();
+	const {
+		fetchInventoryItems,
+		removeInventoryItems,
+		restoreInventoryItems,
+		discardInventoryItems,
+		clearError,
+	} = useInventoryActions();
 	const { user } = useAuthStore();
 	const inventoryLimit = user?.capabilities.inventoryLimit ?? 50;
 	const hasReachedInventoryLimit = items.length >= inventoryLimit;
@@ -60,6 +91,8 @@ const InventoryPage: React.FC = () => {
 		isLoading: categoriesLoading,
 		error: categoriesError,
 	} = useCategories();
+	const { data: storageLocations = [] } = useStorageLocations();
+	const resolveStorageGroup = useStorageGroupResolver();
 
 	useEffect(() => {
 		fetchInventoryItems();
@@ -102,19 +135,16 @@ const InventoryPage: React.FC = () => {
 					.toLowerCase()
 					.includes(searchQuery.toLowerCase()));
 
-		let matchesStorageCategory = true;
-		if (activeStorageCategory !== 'ALL') {
-			if (item.storageLocation) {
-				const storageLocations =
-					CATEGORY_TO_STORAGE_MAPPING[activeStorageCategory];
-				matchesStorageCategory = storageLocations.some((location) =>
-					item.storageLocation?.toLowerCase().includes(location)
-				);
-			} else {
-				// Si pas de lieu de stockage défini, considérer comme placard
-				matchesStorageCategory = activeStorageCategory === 'PANTRY';
-			}
-		}
+		// Sans lieu de stockage défini, le produit est considéré comme au placard
+		const matchesStorageCategory =
+			activeStorageCategory === 'ALL' ||
+			CATEGORY_TO_STORAGE_GROUPS[activeStorageCategory].includes(
+				resolveStorageGroup(item.storageLocation)
+			);
+
+		const matchesStorageLocation =
+			!selectedStorageLocation ||
+			item.storageLocation === selectedStorageLocation;
 
 		// ===== FILTRE PAR CATÉGORIE DE PRODUIT =====
 		const matchesProductCategory =
@@ -122,7 +152,10 @@ const InventoryPage: React.FC = () => {
 			item.product.category.id === selectedCategoryId;
 
 		return (
-			matchesSearch && matchesStorageCategory && matchesProductCategory
+			matchesSearch &&
+			matchesStorageCategory &&
+			matchesStorageLocation &&
+			matchesProductCategory
 		);
 	});
 
@@ -148,6 +181,7 @@ const InventoryPage: React.FC = () => {
 		setSearchQuery('');
 		setActiveStorageCategory('ALL');
 		setSelectedCategoryId('');
+		setSelectedStorageLocation('');
 		setShowFilters(false);
 	};
 
@@ -204,16 +238,48 @@ const InventoryPage: React.FC = () => {
 			)
 		) {
 			try {
-				await removeInventoryItems([...selectedItemIds]);
+				const removedIds = [...selectedItemIds];
+				await removeInventoryItems(removedIds);
 				closeSelectionMode();
+				showRemovalUndoToast(removedIds, restoreInventoryItems);
 			} catch {
 				toast.error('Erreur lors de la suppression des produits');
 			}
 		}
 	};
 
+	const handleDiscardSelectedItems = async (
+		data: DiscardInventoryItemData
+	) => {
+		setIsDiscarding(true);
+		try {
+			await discardInventoryItems([...selectedItemIds], {
+				reason: data.reason,
+				notes: data.notes,
+			});
+			toast.success(
+				`${selectedCount} produit${selectedCount > 1 ? 's' : ''} jeté${
+					selectedCount > 1 ? 's' : ''
+				}`
+			);
+			setIsDiscardDialogOpen(false);
+			closeSelectionMode();
+		} catch {
+			toast.error('Erreur lors de la mise au rebut des produits');
+		} finally {
+			setIsDiscarding(false);
+		}
+	};
+
+	const selectedPurchasePrice = items
+		.filter((item) => selectedItemIds.has(item.id))
+		.reduce((total, item) => total + (item.purchasePrice ?? 0), 0);
+
 	const hasActiveFilters =
-		searchQuery || activeStorageCategory !== 'ALL' || selectedCategoryId;
+		searchQuery ||
+		activeStorageCategory !== 'ALL' ||
+		selectedCategoryId ||
+		selectedStorageLocation;
 
 	const getSelectedCategoryName = () => {
 		if (!selectedCategoryId) return null;
@@ -257,6 +323,25 @@ const InventoryPage: React.FC = () => {
 							{' '}sur {inventoryLimit}
 						</p>
 					</div>
+					<button
+						type='button'
+						onClick={() => setIsTransferDialogOpen(true)}
+						aria-label='Exporter ou importer'
+						className='flex items-center justify-center size-10 rounded-xl border border-gray-200 bg-white text-gray-700 shadow-sm hover:bg-gray-50 transition-colors'>
+						<ArrowDownUp className='size-5' />
+					</button>
+					<Link
+						to='/app/inventory/stocktake'
+						aria-label='Faire l’inventaire'
+						className='flex items-center justify-center size-10 rounded-xl border border-gray-200 bg-white text-gray-700 shadow-sm hover:bg-gray-50 transition-colors'>
+						<ClipboardCheck className='size-5' />
+					</Link>
+					<Link
+						to='/app/shopping-list'
+						aria-label='Liste de courses'
+						className='flex items-center justify-center size-10 rounded-xl border border-gray-200 bg-white text-gray-700 shadow-sm hover:bg-gray-50 transition-colors'>
+						<ShoppingCart className='size-5' />
+					</Link>
 					<Link
 						to={
 							hasReachedInventoryLimit
@@ -327,7 +412,8 @@ const InventoryPage: React.FC = () => {
 							<span className='bg-neutral-50/20 text-xs px-2 py-0.5 rounded-full font-semibold'>
 								{(searchQuery ? 1 : 0) +
 									(activeStorageCategory !== 'ALL' ? 1 : 0) +
-									(selectedCategoryId ? 1 : 0)}
+									(selectedCategoryId ? 1 : 0) +
+									(selectedStorageLocation ? 1 : 0)}
 							</span>
 						)}
 					</button>
@@ -426,6 +512,28 @@ const InventoryPage: React.FC = () => {
 								)}
 							</div>
 
+							<div>
+								<label
+									htmlFor='storageLocationFilter'
+									className='block text-sm font-semibold text-gray-700 mb-2'>
+									Lieu de stockage
+								</label>
+								<select
+									id='storageLocationFilter'
+									value={selectedStorageLocation}
+									onChange={(e) =>
+										setSelectedStorageLocation(e.target.value)
+									}
+									className='w-full px-4 py-2.5 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all duration-300'>
+									<option value=''>Tous les lieux</option>
+									{storageLocations.map((location) => (
+										<option key={location.id} value={location.name}>
+											{location.name}
+										</option>
+									))}
+								</select>
+							</div>
+
 							<div className='flex justify-between pt-5 border-t border-gray-200'>
 								<button
 									onClick={clearAllFilters}
@@ -470,6 +578,17 @@ const InventoryPage: React.FC = () => {
 								</button>
 							</div>
 						)}
+
+						{selectedStorageLocation && (
+							<div className='flex items-center gap-2 bg-blue-100 text-blue-800 px-3 py-1.5 rounded-xl text-sm font-medium'>
+								<span>Lieu: {selectedStorageLocation}</span>
+								<button
+									onClick={() => setSelectedStorageLocation('')}
+									className='hover:bg-blue-200 rounded-full p-0.5 transition-colors'>
+									<X className='size-3' />
+								</button>
+							</div>
+						)}
 					</div>
 				</div>
 			)}
@@ -495,6 +614,14 @@ const InventoryPage: React.FC = () => {
 									<X className='size-4' />
 									Annuler
 								</button>
+								<button
+									type='button'
+									onClick={() => setIsDiscardDialogOpen(true)}
+									disabled={isLoading || selectedCount === 0}
+									className='inline-flex items-center gap-2 rounded-xl border border-red-200 px-4 py-2 text-sm font-semibold text-red-600 transition-colors hover:bg-red-50 disabled:opacity-50'>
+									<Recycle className='size-4' />
+									Jeter
+								</button>
 								<button
 									type='button'
 									onClick={handleRemoveSelectedItems}
@@ -590,6 +717,21 @@ const InventoryPage: React.FC = () => {
 					)}
 				</div>
 			</div>
+
+			<DiscardInventoryItemDialog
+				isOpen={isDiscardDialogOpen}
+				onClose={() => setIsDiscardDialogOpen(false)}
+				onSubmit={handleDiscardSelectedItems}
+				isSubmitting={isDiscarding}
+				label={`${selectedCount} produit${selectedCount > 1 ? 's' : ''}`}
+				purchasePrice={selectedPurchasePrice}
+			/>
+
+			<InventoryTransferDialog
+				isOpen={isTransferDialogOpen}
+				onClose={() => setIsTransferDialogOpen(false)}
+				onImported={fetchInventoryItems}
+			/>
 		</div>
 	);
 };
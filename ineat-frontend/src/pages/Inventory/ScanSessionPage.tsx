@@ -0,0 +1,30 @@
+import type { FC } from 'react';
+import { useEffect } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { ScanSession } from '@/features/scan/ScanSession';
+import { useNavigationStore } from '@/stores/navigationStore';
+
+const ScanSessionPage: FC = () => {
+	const navigate = useNavigate();
+	const { hideNavigation, showNavigation } = useNavigationStore();
+
+	// Masquer la navigation au montage et la remettre au démontage
+	useEffect(() => {
+		hideNavigation();
+
+		return () => {
+			showNavigation();
+		};
+	}, [hideNavigation, showNavigation]);
+
+	return (
+		<div className='fixed inset-0 z-[100] overflow-y-auto bg-black'>
+			<ScanSession
+				onComplete={() => navigate({ to: '/app/inventory' })}
+				onCancel={() => navigate({ to: '/app/inventory/add' })}
+			/>
+		</div>
+	);
+};
+
+export default ScanSessionPage;
@@ -0,0 +1,39 @@
+import type { FC } from 'react';
+import { Link, useNavigate, useSearch } from '@tanstack/react-router';
+import { ArrowLeft, ClipboardCheck } from 'lucide-react';
+
+import { Stocktake } from '@/features/inventory/Stocktake';
+
+const StocktakePage: FC = () => {
+	const navigate = useNavigate();
+	const { location } = useSearch({ from: '/app/inventory/stocktake' });
+
+	return (
+		<div className='mx-auto max-w-md space-y-6 p-4'>
+			<header className='flex items-center gap-3'>
+				<Link
+					to='/app/inventory'
+					aria-label="Retour à l'inventaire"
+					className='flex items-center justify-center size-10 rounded-xl border border-gray-200 bg-white text-gray-700 shadow-sm hover:bg-gray-50 transition-colors'>
+					<ArrowLeft className='size-5' />
+				</Link>
+				<div>
+					<h1 className='flex items-center gap-2 text-2xl font-semibold text-neutral-900'>
+						<ClipboardCheck className='size-6 text-success-50' />
+						Faire l'inventaire
+					</h1>
+					<p className='mt-1 text-sm text-neutral-600'>
+						Vérifiez le contenu réel d'un lieu de stockage
+					</p>
+				</div>
+			</header>
+
+			<Stocktake
+				storageLocation={location}
+				onComplete={() => navigate({ to: '/app/inventory' })}
+			/>
+		</div>
+	);
+};
+
+export default StocktakePage;
@@ -25,6 +25,7 @@ vi.mock("@/services/inventoryService", () => ({
   inventoryService: {
     getInventory: vi.fn(),
     getInventoryStats: vi.fn(),
+    getInventoryValuation: vi.fn(),
     getRecentProducts: vi.fn(),
   },
 }));
@@ -33,6 +34,24 @@ vi.mock("@/features/inventory/InventoryWidget", () => ({
   InventoryWidget: () => <section data-testid="inventory-widget" />,
 }));
 
+vi.mock("@/features/inventory/WasteStatsWidget", () => ({
+  WasteStatsWidget: ({ waste }: { waste?: { valueLost: number } }) => (
+    <section data-testid="waste-stats-widget">{waste?.valueLost ?? "-"}</section>
+  ),
+}));
+
+vi.mock("@/features/inventory/StockValuationWidget", () => ({
+  StockValuationWidget: ({
+    valuation,
+  }: {
+    valuation?: { totalValue: number };
+  }) => (
+    <section data-testid="stock-valuation-widget">
+      {valuation?.totalValue ?? "-"}
+    </section>
+  ),
+}));
+
 vi.mock("@/features/score/ScoreWidget", () => ({
   default: ({ inventory }: { inventory: unknown[] }) => (
     <section data-testid="score-widget">{inventory.length}</section>
@@ -77,6 +96,9 @@ describe("DashboardPage", () => {
     (useAuthStore as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
       user: { firstName: "Camille" },
     });
+    (
+      inventoryService.getInventoryValuation as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ totalValue: 0 });
   });
 
   it.each([
@@ -199,6 +221,77 @@ describe("DashboardPage", () => {
     });
   });
 
+  it("met en avant le gaspillage pour l’objectif anti-gaspillage", async () => {
+    (useAuthStore as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      user: { firstName: "Camille", primaryGoal: "REDUCE_WASTE" },
+    });
+    (inventoryService.getInventory as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([]);
+    (
+      inventoryService.getInventoryStats as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({
+      totalQuantity: 0,
+      expiryBreakdown: {
+        good: 0,
+        warning: 0,
+        critical: 0,
+        expired: 0,
+        unknown: 0,
+      },
+      waste: { valueLost: 12.4 },
+    });
+    (
+      inventoryService.getRecentProducts as ReturnType<typeof vi.fn>
+    ).mockResolvedValue([]);
+
+    renderDashboard();
+
+    const wasteWidget = await screen.findByTestId("waste-stats-widget");
+    expect(wasteWidget).toHaveTextContent("12.4");
+    expect(wasteWidget.previousElementSibling).toBe(
+      screen.getByTestId("expiring-products-widget"),
+    );
+  });
+
+  it("place la valeur du stock juste après le budget pour l’objectif économies", async () => {
+    (useAuthStore as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+      user: { firstName: "Camille", primaryGoal: "SAVE_MONEY" },
+    });
+    (inventoryService.getInventory as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([]);
+    (
+      inventoryService.getInventoryStats as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({
+      totalQuantity: 0,
+      expiryBreakdown: {
+        good: 0,
+        warning: 0,
+        critical: 0,
+        expired: 0,
+        unknown: 0,
+      },
+    });
+    (
+      inventoryService.getInventoryValuation as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ totalValue: 84.5 });
+    (
+      inventoryService.getRecentProducts as ReturnType<typeof vi.fn>
+    ).mockResolvedValue([]);
+
+    renderDashboard();
+
+    await waitFor(() =>
+      expect(screen.getByTestId("stock-valuation-widget")).toHaveTextContent(
+        "84.5",
+      ),
+    );
+    expect(
+      screen.getByTestId("stock-valuation-widget").previousElementSibling,
+    ).toBe(screen.getByTestId("budget-widget"));
+  });
+
   it("affiche un état d’erreur lorsque le dashboard ne peut pas charger", async () => {
     (
       inventoryService.getInventory as ReturnType<typeof vi.fn>
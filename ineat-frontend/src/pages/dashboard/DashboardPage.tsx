@@ -4,6 +4,8 @@ import { Link, useNavigate } from "@tanstack/react-router";
 import { ArrowRight, PackagePlus, ScanLine, TriangleAlert } from "lucide-react";
 
 import { InventoryWidget } from "@/features/inventory/InventoryWidget";
+import { WasteStatsWidget } from "@/features/inventory/WasteStatsWidget";
+import { StockValuationWidget } from "@/features/inventory/StockValuationWidget";
 import ScoreWidget from "@/features/score/ScoreWidget";
 import { BudgetWidget } from "@/features/budget/BudgetWidget";
 import { RecentProductsWidget } from "@/features/product/RecentProductsWidget";
@@ -84,6 +86,13 @@ const Dashboard: FC = () => {
     staleTime: 2 * 60 * 1000,
   });
 
+  // Valorisation du stock : secondaire, elle ne bloque pas le tableau de bord
+  const { data: inventoryValuation } = useQuery({
+    queryKey: ["inventoryValuation"],
+    queryFn: () => inventoryService.getInventoryValuation(),
+    staleTime: 2 * 60 * 1000,
+  });
+
   // Récupération des produits récents (5 derniers)
   const {
     data: recentProducts = [],
@@ -186,10 +195,18 @@ const Dashboard: FC = () => {
   const expiringWidget = (
     <ExpiringProductsWidget key="expiring" products={expiringProducts} />
   );
+  const wasteWidget = (
+    <WasteStatsWidget key="waste" waste={inventoryStats?.waste} />
+  );
+  const valuationWidget = (
+    <StockValuationWidget key="valuation" valuation={inventoryValuation} />
+  );
 
   const widgetsByGoal: Record<PrimaryGoal, ReactNode[]> = {
     REDUCE_WASTE: [
       expiringWidget,
+      wasteWidget,
+      valuationWidget,
       inventoryWidget,
       recentWidget,
       scoreWidget,
@@ -197,8 +214,10 @@ const Dashboard: FC = () => {
     ],
     SAVE_MONEY: [
       budgetWidget,
+      valuationWidget,
       inventoryWidget,
       expiringWidget,
+      wasteWidget,
       recentWidget,
       scoreWidget,
     ],
@@ -208,6 +227,8 @@ const Dashboard: FC = () => {
       expiringWidget,
       recentWidget,
       budgetWidget,
+      wasteWidget,
+      valuationWidget,
     ],
     FIND_MEAL_IDEAS: [
       inventoryWidget,
@@ -215,6 +236,8 @@ const Dashboard: FC = () => {
       recentWidget,
       scoreWidget,
       budgetWidget,
+      wasteWidget,
+      valuationWidget,
     ],
   };
   const dashboardWidgets = user?.primaryGoal
@@ -223,8 +246,10 @@ const Dashboard: FC = () => {
         inventoryWidget,
         scoreWidget,
         budgetWidget,
+        valuationWidget,
         recentWidget,
         expiringWidget,
+        wasteWidget,
       ];
 
   // ===== GESTION DES ÉTATS =====
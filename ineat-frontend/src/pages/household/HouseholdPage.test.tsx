@@ -0,0 +1,173 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HouseholdPage } from './HouseholdPage';
+import { HouseholdDetail, householdService } from '@/services/householdService';
+
+const navigate = vi.fn();
+
+vi.mock('@tanstack/react-router', () => ({
+	useNavigate: () => navigate,
+}));
+
+vi.mock('sonner', () => ({
+	toast: {
+		error: vi.fn(),
+		success: vi.fn(),
+	},
+}));
+
+vi.mock('@/stores/authStore', () => ({
+	useAuthStore: (selector: (state: unknown) => unknown) =>
+		selector({ user: { id: 'user-1' } }),
+}));
+
+vi.mock('@/services/householdService', async (importOriginal) => ({
+	...(await importOriginal<typeof import('@/services/householdService')>()),
+	householdService: {
+		getHouseholds: vi.fn(),
+		getHousehold: vi.fn(),
+		createHousehold: vi.fn(),
+		setActiveHousehold: vi.fn(),
+		acceptInvitation: vi.fn(),
+		inviteMember: vi.fn(),
+		revokeInvitation: vi.fn(),
+		updateMemberRole: vi.fn(),
+		removeMember: vi.fn(),
+		deleteHousehold: vi.fn(),
+	},
+}));
+
+const household: HouseholdDetail = {
+	id: 'household-1',
+	name: 'Maison',
+	ownerId: 'user-1',
+	role: 'OWNER',
+	members: [
+		{
+			id: 'member-1',
+			userId: 'user-1',
+			email: 'camille@example.com',
+			name: 'Camille Durand',
+			role: 'OWNER',
+			joinedAt: '2026-10-19T08:00:00.000Z',
+		},
+		{
+			id: 'member-2',
+			userId: 'user-2',
+			email: 'alex@example.com',
+			name: 'Alex Martin',
+			role: 'MEMBER',
+			joinedAt: '2026-10-19T09:00:00.000Z',
+		},
+	],
+	invitations: [],
+};
+
+function renderHouseholdPage(invitationToken?: string) {
+	const queryClient = new QueryClient({
+		defaultOptions: {
+			queries: { retry: false },
+			mutations: { retry: false },
+		},
+	});
+
+	return render(
+		<QueryClientProvider client={queryClient}>
+			<HouseholdPage invitationToken={invitationToken} />
+		</QueryClientProvider>
+	);
+}
+
+describe('HouseholdPage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(householdService.getHouseholds as ReturnType<typeof vi.fn>).mockResolvedValue({
+			activeHouseholdId: 'household-1',
+			households: [
+				{
+					id: 'household-1',
+					name: 'Maison',
+					role: 'OWNER',
+					isOwner: true,
+					memberCount: 2,
+				},
+			],
+			invitations: [],
+		});
+		(householdService.getHousehold as ReturnType<typeof vi.fn>).mockResolvedValue(
+			household
+		);
+	});
+
+	it('affiche les membres du foyer actif', async () => {
+		renderHouseholdPage();
+
+		expect(await screen.findByText('Alex Martin')).toBeInTheDocument();
+		expect(screen.getByText('Membres de « Maison »')).toBeInTheDocument();
+		expect(screen.queryByText('Créer mon foyer')).not.toBeInTheDocument();
+	});
+
+	it('invite une personne par e-mail', async () => {
+		const user = userEvent.setup();
+		(householdService.inviteMember as ReturnType<typeof vi.fn>).mockResolvedValue({
+			success: true,
+			message: 'Invitation envoyée à sam@example.com',
+		});
+
+		renderHouseholdPage();
+
+		await user.type(
+			await screen.findByLabelText('Adresse e-mail à inviter'),
+			'sam@example.com'
+		);
+		await user.click(screen.getByRole('button', { name: 'Inviter' }));
+
+		await waitFor(() => {
+			expect(householdService.inviteMember).toHaveBeenCalledWith('household-1', {
+				email: 'sam@example.com',
+				role: 'MEMBER',
+			});
+		});
+	});
+
+	it("change le rôle d'un membre", async () => {
+		const user = userEvent.setup();
+		(householdService.updateMemberRole as ReturnType<typeof vi.fn>).mockResolvedValue(
+			household
+		);
+
+		renderHouseholdPage();
+
+		await user.selectOptions(
+			await screen.findByLabelText('Rôle de Alex Martin'),
+			'ADMIN'
+		);
+
+		expect(householdService.updateMemberRole).toHaveBeenCalledWith(
+			'household-1',
+			'member-2',
+			'ADMIN'
+		);
+	});
+
+	it("accepte l'invitation reçue par lien", async () => {
+		const user = userEvent.setup();
+		(householdService.acceptInvitation as ReturnType<typeof vi.fn>).mockResolvedValue(
+			household
+		);
+
+		renderHouseholdPage('token-1');
+
+		await user.click(
+			await screen.findByRole('button', { name: 'Rejoindre le foyer' })
+		);
+
+		await waitFor(() => {
+			expect(householdService.acceptInvitation).toHaveBeenCalledWith('token-1');
+		});
+		expect(navigate).toHaveBeenCalledWith({ to: '/app/household', search: {} });
+	});
+});
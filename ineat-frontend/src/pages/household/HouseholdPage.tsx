@@ -0,0 +1,462 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from '@tanstack/react-router';
+import { Check, Home, LogOut, Mail, Trash2, UserPlus, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	AssignableHouseholdRole,
+	HOUSEHOLD_ROLE_LABELS,
+	HouseholdDetail,
+	householdService,
+} from '@/services/householdService';
+import { useAuthStore } from '@/stores/authStore';
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+
+const HOUSEHOLDS_QUERY_KEY = ['households'];
+
+const formatDate = (value: string) =>
+	new Intl.DateTimeFormat('fr-FR', { dateStyle: 'long' }).format(
+		new Date(value)
+	);
+
+export function HouseholdPage({
+	invitationToken,
+}: {
+	invitationToken?: string;
+}) {
+	const queryClient = useQueryClient();
+	const navigate = useNavigate();
+	const [householdName, setHouseholdName] = useState('');
+
+	const { data: overview, isLoading, isError } = useQuery({
+		queryKey: HOUSEHOLDS_QUERY_KEY,
+		queryFn: householdService.getHouseholds,
+	});
+
+	const activeHouseholdId = overview?.activeHouseholdId ?? null;
+
+	const { data: household } = useQuery({
+		queryKey: [...HOUSEHOLDS_QUERY_KEY, activeHouseholdId],
+		queryFn: () => householdService.getHousehold(activeHouseholdId as string),
+		enabled: Boolean(activeHouseholdId),
+	});
+
+	// Changer de foyer change les données affichées partout dans l'application
+	const refreshAll = () => queryClient.invalidateQueries();
+	const showError = (error: Error, fallback: string) =>
+		toast.error('Action impossible', {
+			description: getUserFacingErrorMessage(error, fallback),
+		});
+
+	const createMutation = useMutation({
+		mutationFn: householdService.createHousehold,
+		onSuccess: (created) => {
+			setHouseholdName('');
+			refreshAll();
+			toast.success(`Foyer « ${created.name} » créé`);
+		},
+		onError: (error) => showError(error, 'Impossible de créer le foyer.'),
+	});
+
+	const acceptMutation = useMutation({
+		mutationFn: householdService.acceptInvitation,
+		onSuccess: (joined) => {
+			refreshAll();
+			toast.success(`Vous avez rejoint « ${joined.name} »`);
+			if (invitationToken) {
+				navigate({ to: '/app/household', search: {} });
+			}
+		},
+		onError: (error) =>
+			showError(error, 'Impossible d’accepter cette invitation.'),
+	});
+
+	const setActiveMutation = useMutation({
+		mutationFn: householdService.setActiveHousehold,
+		onSuccess: refreshAll,
+		onError: (error) => showError(error, 'Impossible de changer de foyer.'),
+	});
+
+	const handleCreate = (event: FormEvent) => {
+		event.preventDefault();
+		const name = householdName.trim();
+		if (!name) return;
+		createMutation.mutate(name);
+	};
+
+	const households = overview?.households ?? [];
+	const ownsHousehold = households.some((entry) => entry.isOwner);
+
+	return (
+		<div className='mx-auto max-w-3xl space-y-6 p-4'>
+			<header>
+				<h1 className='flex items-center gap-2 text-2xl font-semibold text-neutral-900'>
+					<Home className='size-6 text-success-50' />
+					Mon foyer
+				</h1>
+				<p className='mt-1 text-sm text-neutral-600'>
+					Partagez l’inventaire, le budget, les recettes et la liste de
+					courses avec les personnes qui vivent avec vous.
+				</p>
+			</header>
+
+			{invitationToken && (
+				<section className='flex flex-col gap-3 rounded-lg border border-success-50/40 bg-success-50/10 p-4 sm:flex-row sm:items-center sm:justify-between'>
+					<p className='text-sm text-neutral-800'>
+						Vous avez été invité·e à rejoindre un foyer.
+					</p>
+					<Button
+						disabled={acceptMutation.isPending}
+						onClick={() => acceptMutation.mutate(invitationToken)}>
+						<Check className='size-4' />
+						Rejoindre le foyer
+					</Button>
+				</section>
+			)}
+
+			{isLoading ? (
+				<div className='flex min-h-40 items-center justify-center'>
+					<div className='size-8 animate-spin rounded-full border-2 border-success-50 border-t-transparent' />
+				</div>
+			) : isError ? (
+				<div className='rounded-lg border border-neutral-200 bg-neutral-50 p-6 text-sm text-neutral-600'>
+					Impossible de charger vos foyers.
+				</div>
+			) : (
+				<>
+					{(overview?.invitations.length ?? 0) > 0 && (
+						<section className='space-y-2'>
+							<h2 className='text-lg font-semibold text-neutral-900'>
+								Invitations reçues
+							</h2>
+							<ul className='space-y-2'>
+								{overview?.invitations.map((invitation) => (
+									<li
+										key={invitation.id}
+										className='flex items-center justify-between gap-3 rounded-lg border border-neutral-200 bg-neutral-50 px-3 py-2'>
+										<div className='min-w-0'>
+											<p className='truncate text-sm font-medium text-neutral-900'>
+												{invitation.household.name}
+											</p>
+											<p className='text-xs text-neutral-600'>
+												{invitation.invitedBy} · expire le{' '}
+												{formatDate(invitation.expiresAt)}
+											</p>
+										</div>
+										<Button
+											size='sm'
+											disabled={acceptMutation.isPending}
+											onClick={() => acceptMutation.mutate(invitation.token)}>
+											Accepter
+										</Button>
+									</li>
+								))}
+							</ul>
+						</section>
+					)}
+
+					<section className='space-y-2'>
+						<h2 className='text-lg font-semibold text-neutral-900'>
+							Données affichées
+						</h2>
+						<ul className='space-y-2'>
+							<li className='flex items-center justify-between gap-3 rounded-lg border border-neutral-200 bg-neutral-50 px-3 py-2'>
+								<span className='text-sm font-medium text-neutral-900'>
+									Mes données personnelles
+								</span>
+								{activeHouseholdId === null ? (
+									<Badge variant='secondary'>Actif</Badge>
+								) : (
+									<Button
+										size='sm'
+										variant='outline'
+										disabled={setActiveMutation.isPending}
+										onClick={() => setActiveMutation.mutate(null)}>
+										Activer
+									</Button>
+								)}
+							</li>
+							{households.map((entry) => (
+								<li
+									key={entry.id}
+									className='flex items-center justify-between gap-3 rounded-lg border border-neutral-200 bg-neutral-50 px-3 py-2'>
+									<div className='min-w-0'>
+										<p className='truncate text-sm font-medium text-neutral-900'>
+											{entry.name}
+										</p>
+										<p className='text-xs text-neutral-600'>
+											{HOUSEHOLD_ROLE_LABELS[entry.role]} · {entry.memberCount}{' '}
+											membre{entry.memberCount > 1 ? 's' : ''}
+										</p>
+									</div>
+									{activeHouseholdId === entry.id ? (
+										<Badge variant='secondary'>Actif</Badge>
+									) : (
+										<Button
+											size='sm'
+											variant='outline'
+											aria-label={`Activer ${entry.name}`}
+											disabled={setActiveMutation.isPending}
+											onClick={() => setActiveMutation.mutate(entry.id)}>
+											Activer
+										</Button>
+									)}
+								</li>
+							))}
+						</ul>
+					</section>
+
+					{!ownsHousehold && (
+						<form
+							onSubmit={handleCreate}
+							className='flex flex-col gap-2 rounded-lg border border-neutral-200 bg-neutral-50 p-4 shadow-sm sm:flex-row'>
+							<Input
+								aria-label='Nom du foyer'
+								placeholder='Nom du foyer, ex. Maison'
+								value={householdName}
+								onChange={(event) => setHouseholdName(event.target.value)}
+								maxLength={60}
+								className='flex-1'
+							/>
+							<Button
+								type='submit'
+								disabled={!householdName.trim() || createMutation.isPending}>
+								<Home className='size-4' />
+								Créer mon foyer
+							</Button>
+						</form>
+					)}
+
+					{household && (
+						<HouseholdMembersSection
+							household={household}
+							onChanged={refreshAll}
+							showError={showError}
+						/>
+					)}
+				</>
+			)}
+		</div>
+	);
+}
+
+function HouseholdMembersSection({
+	household,
+	onChanged,
+	showError,
+}: {
+	household: HouseholdDetail;
+	onChanged: () => void;
+	showError: (error: Error, fallback: string) => void;
+}) {
+	const currentUserId = useAuthStore((state) => state.user?.id);
+	const [email, setEmail] = useState('');
+	const [role, setRole] = useState<AssignableHouseholdRole>('MEMBER');
+	const isOwner = household.role === 'OWNER';
+	const canManage = isOwner || household.role === 'ADMIN';
+
+	const inviteMutation = useMutation({
+		mutationFn: (input: { email: string; role: AssignableHouseholdRole }) =>
+			householdService.inviteMember(household.id, input),
+		onSuccess: (response) => {
+			setEmail('');
+			onChanged();
+			toast.success(response.message ?? 'Invitation envoyée');
+		},
+		onError: (error) => showError(error, 'Impossible d’envoyer l’invitation.'),
+	});
+
+	const revokeMutation = useMutation({
+		mutationFn: (invitationId: string) =>
+			householdService.revokeInvitation(household.id, invitationId),
+		onSuccess: onChanged,
+		onError: (error) => showError(error, 'Impossible d’annuler l’invitation.'),
+	});
+
+	const roleMutation = useMutation({
+		mutationFn: ({
+			memberId,
+			role,
+		}: {
+			memberId: string;
+			role: AssignableHouseholdRole;
+		}) => householdService.updateMemberRole(household.id, memberId, role),
+		onSuccess: onChanged,
+		onError: (error) => showError(error, 'Impossible de modifier ce rôle.'),
+	});
+
+	const removeMutation = useMutation({
+		mutationFn: (memberId: string) =>
+			householdService.removeMember(household.id, memberId),
+		onSuccess: onChanged,
+		onError: (error) => showError(error, 'Impossible de retirer ce membre.'),
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: () => householdService.deleteHousehold(household.id),
+		onSuccess: () => {
+			onChanged();
+			toast.success('Foyer supprimé');
+		},
+		onError: (error) => showError(error, 'Impossible de supprimer le foyer.'),
+	});
+
+	const handleInvite = (event: FormEvent) => {
+		event.preventDefault();
+		const trimmedEmail = email.trim();
+		if (!trimmedEmail) return;
+		inviteMutation.mutate({ email: trimmedEmail, role });
+	};
+
+	const canRemove = (member: HouseholdDetail['members'][number]) =>
+		member.role !== 'OWNER' &&
+		member.userId !== currentUserId &&
+		(isOwner || (household.role === 'ADMIN' && member.role === 'MEMBER'));
+
+	const currentMember = household.members.find(
+		(member) => member.userId === currentUserId
+	);
+
+	return (
+		<section className='space-y-4'>
+			<div className='flex items-center justify-between gap-3'>
+				<h2 className='text-lg font-semibold text-neutral-900'>
+					Membres de « {household.name} »
+				</h2>
+				{isOwner ? (
+					<Button
+						variant='outline'
+						size='sm'
+						disabled={deleteMutation.isPending}
+						onClick={() => deleteMutation.mutate()}>
+						<Trash2 className='size-4' />
+						Supprimer le foyer
+					</Button>
+				) : (
+					currentMember && (
+						<Button
+							variant='outline'
+							size='sm'
+							disabled={removeMutation.isPending}
+							onClick={() => removeMutation.mutate(currentMember.id)}>
+							<LogOut className='size-4' />
+							Quitter le foyer
+						</Button>
+					)
+				)}
+			</div>
+
+			<ul className='space-y-2'>
+				{household.members.map((member) => (
+					<li
+						key={member.id}
+						className='flex items-center gap-3 rounded-lg border border-neutral-200 bg-neutral-50 px-3 py-2'>
+						<div className='min-w-0 flex-1'>
+							<p className='truncate text-sm font-medium text-neutral-900'>
+								{member.name}
+							</p>
+							<p className='truncate text-xs text-neutral-600'>
+								{member.email}
+							</p>
+						</div>
+						{isOwner && member.role !== 'OWNER' ? (
+							<select
+								aria-label={`Rôle de ${member.name}`}
+								value={member.role}
+								disabled={roleMutation.isPending}
+								onChange={(event) =>
+									roleMutation.mutate({
+										memberId: member.id,
+										role: event.target.value as AssignableHouseholdRole,
+									})
+								}
+								className='rounded-md border border-neutral-200 bg-neutral-50 px-2 py-1 text-sm'>
+								<option value='ADMIN'>{HOUSEHOLD_ROLE_LABELS.ADMIN}</option>
+								<option value='MEMBER'>{HOUSEHOLD_ROLE_LABELS.MEMBER}</option>
+							</select>
+						) : (
+							<Badge variant='outline'>{HOUSEHOLD_ROLE_LABELS[member.role]}</Badge>
+						)}
+						{canRemove(member) && (
+							<button
+								type='button'
+								aria-label={`Retirer ${member.name}`}
+								disabled={removeMutation.isPending}
+								onClick={() => removeMutation.mutate(member.id)}
+								className='shrink-0 rounded-full p-1 text-neutral-500 transition-colors hover:bg-red-50 hover:text-red-600'>
+								<X className='size-4' />
+							</button>
+						)}
+					</li>
+				))}
+			</ul>
+
+			{canManage && (
+				<>
+					<form
+						onSubmit={handleInvite}
+						className='flex flex-col gap-2 rounded-lg border border-neutral-200 bg-neutral-50 p-4 shadow-sm sm:flex-row'>
+						<Input
+							type='email'
+							aria-label='Adresse e-mail à inviter'
+							placeholder='adresse@exemple.fr'
+							value={email}
+							onChange={(event) => setEmail(event.target.value)}
+							className='flex-1'
+						/>
+						<select
+							aria-label='Rôle de la personne invitée'
+							value={role}
+							onChange={(event) =>
+								setRole(event.target.value as AssignableHouseholdRole)
+							}
+							className='rounded-md border border-neutral-200 bg-neutral-50 px-2 text-sm'>
+							<option value='MEMBER'>{HOUSEHOLD_ROLE_LABELS.MEMBER}</option>
+							<option value='ADMIN'>{HOUSEHOLD_ROLE_LABELS.ADMIN}</option>
+						</select>
+						<Button
+							type='submit'
+							disabled={!email.trim() || inviteMutation.isPending}>
+							<UserPlus className='size-4' />
+							Inviter
+						</Button>
+					</form>
+
+					{household.invitations.length > 0 && (
+						<ul className='space-y-2'>
+							{household.invitations.map((invitation) => (
+								<li
+									key={invitation.id}
+									className='flex items-center gap-3 rounded-lg border border-dashed border-neutral-300 px-3 py-2'>
+									<Mail className='size-4 shrink-0 text-neutral-500' />
+									<div className='min-w-0 flex-1'>
+										<p className='truncate text-sm text-neutral-900'>
+											{invitation.email}
+										</p>
+										<p className='text-xs text-neutral-600'>
+											{HOUSEHOLD_ROLE_LABELS[invitation.role]} · expire le{' '}
+											{formatDate(invitation.expiresAt)}
+										</p>
+									</div>
+									<button
+										type='button'
+										aria-label={`Annuler l’invitation de ${invitation.email}`}
+										disabled={revokeMutation.isPending}
+										onClick={() => revokeMutation.mutate(invitation.id)}
+										className='shrink-0 rounded-full p-1 text-neutral-500 transition-colors hover:bg-red-50 hover:text-red-600'>
+										<X className='size-4' />
+									</button>
+								</li>
+							))}
+						</ul>
+					)}
+				</>
+			)}
+		</section>
+	);
+}
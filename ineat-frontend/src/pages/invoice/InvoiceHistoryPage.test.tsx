@@ -0,0 +1,186 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import {
+	fireEvent,
+	render,
+	screen,
+	waitFor,
+	within,
+} from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { toast } from 'sonner';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import InvoiceHistoryPage from './InvoiceHistoryPage';
+import {
+	invoiceService,
+	type InvoiceListPage,
+	type InvoiceSummary,
+} from '@/services/invoiceService';
+
+vi.mock('@tanstack/react-router', () => ({
+	Link: ({ children, to }: { children: ReactNode; to: string }) => (
+		<a href={to}>{children}</a>
+	),
+}));
+
+vi.mock('sonner', () => ({
+	toast: { success: vi.fn(), warning: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('@/services/invoiceService', () => ({
+	invoiceService: {
+		listInvoices: vi.fn(),
+		deleteInvoice: vi.fn(),
+		unvalidateInvoice: vi.fn(),
+	},
+}));
+
+const summary = (
+	id: string,
+	merchantName: string,
+	overrides: Partial<InvoiceSummary> = {}
+): InvoiceSummary => ({
+	id,
+	userId: 'user-1',
+	pdfUrl: `https://res.cloudinary.com/demo/raw/upload/${id}.pdf`,
+	status: 'COMPLETED',
+	processingStage: 'READY_FOR_REVIEW',
+	merchantName,
+	totalAmount: 42.5,
+	purchaseDate: '2026-10-05T00:00:00.000Z',
+	createdAt: '2026-10-05T10:00:00.000Z',
+	updatedAt: '2026-10-05T10:00:00.000Z',
+	itemCount: 8,
+	validatedItemCount: 0,
+	...overrides,
+});
+
+const page: InvoiceListPage = {
+	items: [
+		summary('invoice-1', 'Carrefour'),
+		summary('invoice-2', 'Leclerc', {
+			status: 'VALIDATED',
+			processingStage: 'VALIDATED',
+			validatedItemCount: 8,
+		}),
+	],
+	pagination: { page: 1, pageSize: 20, totalItems: 2, totalPages: 1 },
+};
+
+function renderInvoiceHistoryPage() {
+	const queryClient = new QueryClient({
+		defaultOptions: { queries: { retry: false } },
+	});
+
+	return render(
+		<QueryClientProvider client={queryClient}>
+			<InvoiceHistoryPage />
+		</QueryClientProvider>
+	);
+}
+
+describe('InvoiceHistoryPage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(invoiceService.listInvoices).mockResolvedValue(page);
+		vi.mocked(invoiceService.deleteInvoice).mockResolvedValue();
+	});
+
+	it('filtre les factures par enseigne et par statut', async () => {
+		renderInvoiceHistoryPage();
+
+		expect(await screen.findByText('Carrefour')).toBeInTheDocument();
+		expect(
+			screen.getByText('À vérifier', { selector: 'div' })
+		).toBeInTheDocument();
+		expect(screen.getByText(/8\/8 lignes validées/)).toBeInTheDocument();
+
+		fireEvent.change(screen.getByPlaceholderText('Enseigne'), {
+			target: { value: ' Leclerc ' },
+		});
+		fireEvent.change(screen.getByLabelText('Statut'), {
+			target: { value: 'VALIDATED' },
+		});
+		fireEvent.click(screen.getByRole('button', { name: 'Rechercher' }));
+
+		await waitFor(() =>
+			expect(invoiceService.listInvoices).toHaveBeenLastCalledWith(
+				expect.objectContaining({
+					page: 1,
+					merchant: 'Leclerc',
+					status: 'VALIDATED',
+				})
+			)
+		);
+	});
+
+	it('supprime une facture non validée après confirmation', async () => {
+		renderInvoiceHistoryPage();
+
+		await screen.findByText('Carrefour');
+		expect(
+			screen.queryByRole('button', { name: 'Supprimer la facture Leclerc' })
+		).not.toBeInTheDocument();
+
+		fireEvent.click(
+			screen.getByRole('button', { name: 'Supprimer la facture Carrefour' })
+		);
+		fireEvent.click(await screen.findByRole('button', { name: 'Supprimer' }));
+
+		await waitFor(() =>
+			expect(invoiceService.deleteInvoice).toHaveBeenCalledWith('invoice-1')
+		);
+	});
+
+	it('annule la validation et signale les produits déjà consommés ou divisés', async () => {
+		vi.mocked(invoiceService.unvalidateInvoice).mockResolvedValue({
+			success: true,
+			invoiceId: 'invoice-2',
+			revertedItemCount: 7,
+			removedInventoryItemCount: 7,
+			removedExpenseCount: 7,
+			removedBudgetAmount: 38.2,
+			unrevertedItems: [
+				{
+					invoiceItemId: 'item-8',
+					detectedName: 'Yaourts nature',
+					reason: 'INVENTORY_ITEM_CONSUMED',
+				},
+				{
+					invoiceItemId: 'item-9',
+					detectedName: 'Beurre doux',
+					reason: 'INVENTORY_ITEM_SPLIT',
+				},
+			],
+			message:
+				'Validation annulée en partie : certains produits ont déjà été consommés ou divisés',
+		});
+
+		renderInvoiceHistoryPage();
+
+		await screen.findByText('Leclerc');
+		fireEvent.click(
+			screen.getByRole('button', { name: 'Annuler la validation' })
+		);
+		fireEvent.click(
+			within(await screen.findByRole('alertdialog')).getByRole('button', {
+				name: 'Annuler la validation',
+			})
+		);
+
+		await waitFor(() =>
+			expect(invoiceService.unvalidateInvoice).toHaveBeenCalledWith(
+				'invoice-2'
+			)
+		);
+		expect(toast.success).toHaveBeenCalledWith(
+			'Validation annulée en partie : certains produits ont déjà été consommés ou divisés'
+		);
+		expect(toast.warning).toHaveBeenCalledWith(
+			expect.stringMatching(/^Déjà consommés.*Yaourts nature$/)
+		);
+		expect(toast.warning).toHaveBeenCalledWith(
+			expect.stringMatching(/^Divisés ou déplacés.*Beurre doux$/)
+		);
+	});
+});
@@ -0,0 +1,446 @@
+import { useState, type FC } from 'react';
+import { Link } from '@tanstack/react-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+	ArrowLeft,
+	ChevronLeft,
+	ChevronRight,
+	FileText,
+	RotateCcw,
+	Search,
+	Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+	invoiceService,
+	type InvoiceListFilters,
+	type InvoiceStatus,
+	type InvoiceSummary,
+} from '@/services/invoiceService';
+import { formatDate, formatPrice } from '@/utils/ui-utils';
+
+const PAGE_SIZE = 20;
+
+const STATUS_LABELS: Record<
+	InvoiceStatus,
+	{ label: string; variant: 'secondary' | 'warning' | 'error' | 'success' }
+> = {
+	PROCESSING: { label: 'En cours d’analyse', variant: 'secondary' },
+	COMPLETED: { label: 'À vérifier', variant: 'warning' },
+	FAILED: { label: 'En échec', variant: 'error' },
+	VALIDATED: { label: 'Validée', variant: 'success' },
+};
+
+const parseAmount = (value: string): number | undefined => {
+	const amount = Number(value.replace(',', '.'));
+	return value.trim() && Number.isFinite(amount) ? amount : undefined;
+};
+
+/**
+ * Une facture n'est supprimable que tant qu'elle n'a alimenté ni
+ * l'inventaire ni le budget, et qu'aucune analyse n'est en cours.
+ */
+const canDeleteInvoice = (invoice: InvoiceSummary): boolean =>
+	invoice.status !== 'PROCESSING' &&
+	invoice.status !== 'VALIDATED' &&
+	invoice.validatedItemCount === 0;
+
+const InvoiceHistoryPage: FC = () => {
+	const queryClient = useQueryClient();
+	const [filters, setFilters] = useState<InvoiceListFilters>({
+		page: 1,
+		pageSize: PAGE_SIZE,
+	});
+	const [draft, setDraft] = useState({
+		merchant: '',
+		status: '',
+		from: '',
+		to: '',
+		minTotal: '',
+		maxTotal: '',
+	});
+	const [invoiceToDelete, setInvoiceToDelete] =
+		useState<InvoiceSummary | null>(null);
+	const [invoiceToUnvalidate, setInvoiceToUnvalidate] =
+		useState<InvoiceSummary | null>(null);
+
+	const invoicesQuery = useQuery({
+		queryKey: ['invoices', 'history', filters],
+		queryFn: () => invoiceService.listInvoices(filters),
+		placeholderData: (previous) => previous,
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: (invoiceId: string) => invoiceService.deleteInvoice(invoiceId),
+		onSuccess: () => {
+			toast.success('Facture supprimée');
+			setInvoiceToDelete(null);
+			queryClient.invalidateQueries({ queryKey: ['invoices', 'history'] });
+		},
+		onError: (error: Error) => {
+			toast.error(error.message || 'Impossible de supprimer la facture');
+		},
+	});
+
+	const unvalidateMutation = useMutation({
+		mutationFn: (invoiceId: string) =>
+			invoiceService.unvalidateInvoice(invoiceId),
+		onSuccess: (result) => {
+			if (result.revertedItemCount > 0) {
+				toast.success(result.message);
+			}
+			const splitItems = result.unrevertedItems.filter(
+				(item) => item.reason === 'INVENTORY_ITEM_SPLIT'
+			);
+			const consumedItems = result.unrevertedItems.filter(
+				(item) => item.reason !== 'INVENTORY_ITEM_SPLIT'
+			);
+			if (consumedItems.length > 0) {
+				toast.warning(
+					`Déjà consommés, conservés dans l’inventaire et le budget : ${consumedItems
+						.map((item) => item.detectedName)
+						.join(', ')}`
+				);
+			}
+			if (splitItems.length > 0) {
+				toast.warning(
+					`Divisés ou déplacés depuis, conservés dans l’inventaire et le budget : ${splitItems
+						.map((item) => item.detectedName)
+						.join(', ')}`
+				);
+			}
+			setInvoiceToUnvalidate(null);
+			queryClient.invalidateQueries({ queryKey: ['invoices', 'history'] });
+			queryClient.invalidateQueries({ queryKey: ['inventory'] });
+		},
+		onError: (error: Error) => {
+			toast.error(
+				error.message || 'Impossible d’annuler la validation de la facture'
+			);
+		},
+	});
+
+	const applyFilters = () =>
+		setFilters({
+			page: 1,
+			pageSize: PAGE_SIZE,
+			merchant: draft.merchant.trim() || undefined,
+			status: (draft.status || undefined) as InvoiceStatus | undefined,
+			from: draft.from || undefined,
+			to: draft.to || undefined,
+			minTotal: parseAmount(draft.minTotal),
+			maxTotal: parseAmount(draft.maxTotal),
+		});
+
+	const resetFilters = () => {
+		setDraft({
+			merchant: '',
+			status: '',
+			from: '',
+			to: '',
+			minTotal: '',
+			maxTotal: '',
+		});
+		setFilters({ page: 1, pageSize: PAGE_SIZE });
+	};
+
+	const data = invoicesQuery.data;
+	const invoices = data?.items ?? [];
+
+	return (
+		<div className='mx-auto max-w-4xl space-y-6 p-4'>
+			<header className='flex items-center gap-3'>
+				<Link
+					to='/app/inventory/add/drive'
+					aria-label='Retour à l’import Drive'
+					className='flex items-center justify-center size-10 rounded-xl border border-gray-200 bg-white text-gray-700 shadow-sm hover:bg-gray-50 transition-colors'>
+					<ArrowLeft className='size-5' />
+				</Link>
+				<div>
+					<h1 className='flex items-center gap-2 text-2xl font-semibold text-neutral-900'>
+						<FileText className='size-6 text-success-50' />
+						Mes factures Drive
+					</h1>
+					<p className='mt-1 text-sm text-neutral-600'>
+						Retrouvez les factures importées et reprenez leur vérification
+					</p>
+				</div>
+			</header>
+
+			<Card>
+				<CardContent className='grid gap-3 p-4 md:grid-cols-3'>
+					<label className='relative md:col-span-2'>
+						<span className='sr-only'>Enseigne</span>
+						<Search className='pointer-events-none absolute left-3 top-3 size-4 text-neutral-400' />
+						<Input
+							className='pl-9'
+							value={draft.merchant}
+							onChange={(event) =>
+								setDraft((current) => ({
+									...current,
+									merchant: event.target.value,
+								}))
+							}
+							placeholder='Enseigne'
+						/>
+					</label>
+					<select
+						aria-label='Statut'
+						className='h-9 w-full rounded-md border bg-white px-3 text-sm'
+						value={draft.status}
+						onChange={(event) =>
+							setDraft((current) => ({
+								...current,
+								status: event.target.value,
+							}))
+						}>
+						<option value=''>Tous les statuts</option>
+						{Object.entries(STATUS_LABELS).map(([status, { label }]) => (
+							<option key={status} value={status}>
+								{label}
+							</option>
+						))}
+					</select>
+					<label className='space-y-1 text-xs text-neutral-600'>
+						Achetée à partir du
+						<Input
+							type='date'
+							value={draft.from}
+							onChange={(event) =>
+								setDraft((current) => ({ ...current, from: event.target.value }))
+							}
+						/>
+					</label>
+					<label className='space-y-1 text-xs text-neutral-600'>
+						Jusqu’au
+						<Input
+							type='date'
+							value={draft.to}
+							onChange={(event) =>
+								setDraft((current) => ({ ...current, to: event.target.value }))
+							}
+						/>
+					</label>
+					<div className='grid grid-cols-2 gap-2'>
+						<label className='space-y-1 text-xs text-neutral-600'>
+							Total min (€)
+							<Input
+								inputMode='decimal'
+								value={draft.minTotal}
+								onChange={(event) =>
+									setDraft((current) => ({
+										...current,
+										minTotal: event.target.value,
+									}))
+								}
+							/>
+						</label>
+						<label className='space-y-1 text-xs text-neutral-600'>
+							Total max (€)
+							<Input
+								inputMode='decimal'
+								value={draft.maxTotal}
+								onChange={(event) =>
+									setDraft((current) => ({
+										...current,
+										maxTotal: event.target.value,
+									}))
+								}
+							/>
+						</label>
+					</div>
+					<div className='flex gap-2 md:col-span-3'>
+						<Button onClick={applyFilters}>Rechercher</Button>
+						<Button variant='outline' onClick={resetFilters}>
+							Réinitialiser
+						</Button>
+					</div>
+				</CardContent>
+			</Card>
+
+			{invoicesQuery.isLoading ? (
+				<p className='text-sm text-neutral-600'>Chargement…</p>
+			) : invoicesQuery.isError ? (
+				<div className='space-y-3 text-sm text-error-700'>
+					<p>Impossible de charger vos factures.</p>
+					<Button
+						variant='outline'
+						size='sm'
+						onClick={() => invoicesQuery.refetch()}>
+						Réessayer
+					</Button>
+				</div>
+			) : invoices.length === 0 ? (
+				<p className='text-sm text-neutral-600'>Aucune facture trouvée.</p>
+			) : (
+				<ul className='space-y-3'>
+					{invoices.map((invoice) => {
+						const status = STATUS_LABELS[invoice.status];
+
+						return (
+							<li key={invoice.id}>
+								<Card>
+									<CardContent className='flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between'>
+										<div className='min-w-0 space-y-1'>
+											<div className='flex flex-wrap items-center gap-2'>
+												<p className='truncate font-semibold text-neutral-900'>
+													{invoice.merchantName ?? 'Enseigne inconnue'}
+												</p>
+												<Badge variant={status.variant}>{status.label}</Badge>
+											</div>
+											<p className='text-sm text-neutral-600'>
+												{invoice.purchaseDate
+													? formatDate(invoice.purchaseDate)
+													: `Importée le ${formatDate(invoice.createdAt)}`}
+												{typeof invoice.totalAmount === 'number' &&
+													` · ${formatPrice(invoice.totalAmount)}`}
+												{` · ${invoice.validatedItemCount}/${invoice.itemCount} ligne${
+													invoice.itemCount > 1 ? 's' : ''
+												} validée${invoice.validatedItemCount > 1 ? 's' : ''}`}
+											</p>
+										</div>
+										<div className='flex shrink-0 gap-2'>
+											<Button asChild variant='outline' size='sm'>
+												<Link
+													to='/app/inventory/add/drive'
+													search={{ invoiceId: invoice.id }}>
+													Ouvrir
+												</Link>
+											</Button>
+											{invoice.validatedItemCount > 0 && (
+												<Button
+													variant='outline'
+													size='sm'
+													onClick={() => setInvoiceToUnvalidate(invoice)}>
+													<RotateCcw className='size-4' />
+													Annuler la validation
+												</Button>
+											)}
+											{canDeleteInvoice(invoice) && (
+												<Button
+													variant='outline'
+													size='sm'
+													aria-label={`Supprimer la facture ${invoice.merchantName ?? ''}`.trim()}
+													onClick={() => setInvoiceToDelete(invoice)}>
+													<Trash2 className='size-4' />
+												</Button>
+											)}
+										</div>
+									</CardContent>
+								</Card>
+							</li>
+						);
+					})}
+				</ul>
+			)}
+
+			{data && data.pagination.totalPages > 1 && (
+				<div className='flex items-center justify-between'>
+					<p className='text-sm text-neutral-600'>
+						{data.pagination.totalItems} facture(s) · page{' '}
+						{data.pagination.page}/{data.pagination.totalPages}
+					</p>
+					<div className='flex gap-2'>
+						<Button
+							variant='outline'
+							size='sm'
+							disabled={data.pagination.page <= 1}
+							onClick={() =>
+								setFilters((current) => ({
+									...current,
+									page: data.pagination.page - 1,
+								}))
+							}>
+							<ChevronLeft className='size-4' /> Précédent
+						</Button>
+						<Button
+							variant='outline'
+							size='sm'
+							disabled={data.pagination.page >= data.pagination.totalPages}
+							onClick={() =>
+								setFilters((current) => ({
+									...current,
+									page: data.pagination.page + 1,
+								}))
+							}>
+							Suivant <ChevronRight className='size-4' />
+						</Button>
+					</div>
+				</div>
+			)}
+
+			<AlertDialog
+				open={invoiceToDelete !== null}
+				onOpenChange={(open) => !open && setInvoiceToDelete(null)}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Supprimer cette facture ?</AlertDialogTitle>
+						<AlertDialogDescription>
+							La facture et son PDF seront définitivement supprimés. Aucun
+							produit n’a encore été ajouté à votre inventaire depuis cette
+							facture.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Annuler</AlertDialogCancel>
+						<AlertDialogAction
+							disabled={deleteMutation.isPending}
+							onClick={(event) => {
+								event.preventDefault();
+								if (invoiceToDelete) {
+									deleteMutation.mutate(invoiceToDelete.id);
+								}
+							}}>
+							Supprimer
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+
+			<AlertDialog
+				open={invoiceToUnvalidate !== null}
+				onOpenChange={(open) => !open && setInvoiceToUnvalidate(null)}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Annuler la validation ?</AlertDialogTitle>
+						<AlertDialogDescription>
+							Les produits ajoutés depuis cette facture seront retirés de votre
+							inventaire et les dépenses de votre budget. Les produits déjà
+							consommés, même en partie, sont conservés.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Retour</AlertDialogCancel>
+						<AlertDialogAction
+							disabled={unvalidateMutation.isPending}
+							onClick={(event) => {
+								event.preventDefault();
+								if (invoiceToUnvalidate) {
+									unvalidateMutation.mutate(invoiceToUnvalidate.id);
+								}
+							}}>
+							Annuler la validation
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+};
+
+export default InvoiceHistoryPage;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link, useNavigate } from '@tanstack/react-router';
-import { Scan, Car, ShoppingCart, ArrowLeft } from 'lucide-react';
+import { Scan, ScanLine, Car, ShoppingCart, ArrowLeft } from 'lucide-react';
 import AddMethodCard from '@/components/common/AddMethodCard';
 import { useAuthStore } from '@/stores/authStore';
 
@@ -83,6 +83,14 @@ const AddProductPage: React.FC = () => {
 						/>
 					</div>
 
+					{/* Session de scan (plusieurs produits à la suite) */}
+					<AddMethodCard
+						icon={<ScanLine className='size-6 text-blue-600' />}
+						title='Session de scan'
+						description='Scanner les courses à la suite puis tout vérifier et ajouter en une fois.'
+						to='/app/inventory/add/scan-session'
+					/>
+
 					{/* Importer une facture Drive */}
 					<AddMethodCard
 						icon={<Car className='size-6 text-blue-600' />}
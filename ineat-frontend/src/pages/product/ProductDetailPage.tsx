@@ -1,5 +1,10 @@
 import { useEffect, useState, type FC } from 'react';
-import { useNavigate, useParams } from '@tanstack/react-router';
+import {
+	Link,
+	useNavigate,
+	useParams,
+	useSearch,
+} from '@tanstack/react-router';
 import {
 	ArrowLeft,
 	Package,
@@ -12,6 +17,15 @@ import {
 	CheckCircle2,
 	Clock,
 	Heart,
+	Snowflake,
+	Sun,
+	MoveRight,
+	Split,
+	ChefHat,
+	Printer,
+	UtensilsCrossed,
+	ScanLine,
+	ClipboardCheck,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import {
@@ -26,24 +40,66 @@ import {
 } from '@/utils/dateHelpers';
 import { NutritionInfoCard } from '@/features/product/NutritionInfoCard';
 import { IngredientsCard } from '@/features/product/IngredientsCard';
+import { DietaryConflictAlert } from '@/features/product/DietaryConflictAlert';
 import { EditInventoryItemModal } from '@/features/inventory/EditInventoryItemModal';
+import { DiscardInventoryItemDialog } from '@/features/inventory/DiscardInventoryItemDialog';
+import { ConsumeInventoryLotDialog } from '@/features/inventory/ConsumeInventoryLotDialog';
+import { PieceWeightCard } from '@/features/inventory/PieceWeightCard';
+import { StockLevelCard } from '@/features/inventory/StockLevelCard';
+import { PriceHistoryCard } from '@/features/inventory/PriceHistoryCard';
+import { showRemovalUndoToast } from '@/features/inventory/removalUndoToast';
+import {
+	InventoryLotActionDialog,
+	type InventoryLotAction,
+} from '@/features/inventory/InventoryLotActionDialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { UpdateInventoryItemData } from '@/schemas';
+import {
+	DiscardInventoryItemData,
+	InventoryLot,
+	UpdateInventoryItemData,
+} from '@/schemas';
 import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+import { useStorageGroupResolver } from '@/hooks/useStorageLocations';
+import { inventoryService } from '@/services/inventoryService';
 
 const ProductDetailPage: FC = () => {
 	const { productId } = useParams({ from: '/app/inventory/$productId' });
+	const { lot: highlightedLotId } = useSearch({
+		from: '/app/inventory/$productId',
+	});
 	const navigate = useNavigate();
 	const items = useInventoryItems();
 	const isLoading = useInventoryLoading();
-	const { fetchInventoryItems, removeInventoryItem, updateInventoryItem } =
-		useInventoryActions();
+	const resolveStorageGroup = useStorageGroupResolver();
+	const {
+		fetchInventoryItems,
+		removeInventoryItem,
+		restoreInventoryItems,
+		updateInventoryItem,
+		discardInventoryItem,
+		consumeInventoryItem,
+	} = useInventoryActions();
 
 	// État pour le modal de modification
 	const [isEditModalOpen, setIsEditModalOpen] = useState<boolean>(false);
 	const [isUpdating, setIsUpdating] = useState<boolean>(false);
 
+	// Lot en cours de mise au rebut
+	const [lotToDiscard, setLotToDiscard] = useState<InventoryLot | null>(null);
+	const [isDiscarding, setIsDiscarding] = useState<boolean>(false);
+
+	// Lot en cours de consommation
+	const [lotToConsume, setLotToConsume] = useState<InventoryLot | null>(null);
+	const [isConsuming, setIsConsuming] = useState<boolean>(false);
+
+	// Lot en cours de déplacement ou de séparation
+	const [lotAction, setLotAction] = useState<{
+		action: InventoryLotAction;
+		lot: InventoryLot;
+	} | null>(null);
+	const [pendingLotId, setPendingLotId] = useState<string | null>(null);
+
 	// Charger les données au montage du composant si elles ne sont pas déjà chargées
 	useEffect(() => {
 		if (items.length === 0 && !isLoading) {
@@ -51,8 +107,23 @@ const ProductDetailPage: FC = () => {
 		}
 	}, [fetchInventoryItems, items.length, isLoading]);
 
-	// Trouver l'élément correspondant au productId
-	const inventoryItem = items.find((item) => item.id === productId);
+	// Amener à l'écran le lot ouvert depuis son étiquette
+	const hasInventoryItems = items.length > 0;
+	useEffect(() => {
+		if (highlightedLotId && hasInventoryItems) {
+			document
+				.getElementById(`lot-${highlightedLotId}`)
+				?.scrollIntoView?.({ behavior: 'smooth', block: 'center' });
+		}
+	}, [highlightedLotId, hasInventoryItems]);
+
+	// Trouver l'élément correspondant au productId (le lot principal peut
+	// changer après un déplacement ou une congélation)
+	const inventoryItem = items.find(
+		(item) =>
+			item.id === productId ||
+			item.lots?.some((lot) => lot.id === productId),
+	);
 
 	// Calculer le statut d'expiration
 	const expiryStatus = inventoryItem?.expiryDate
@@ -239,7 +310,7 @@ const ProductDetailPage: FC = () => {
 		) {
 			try {
 				await removeInventoryItem(inventoryItem.id);
-				toast.success("Produit supprimé de l'inventaire");
+				showRemovalUndoToast([inventoryItem.id], restoreInventoryItems);
 				navigate({ to: '/app/inventory' });
 			} catch (error) {
 				toast.error(
@@ -252,6 +323,119 @@ const ProductDetailPage: FC = () => {
 		}
 	};
 
+	// Jeter tout ou partie d'un lot
+	const handleDiscardLot = async (
+		data: DiscardInventoryItemData,
+	): Promise<void> => {
+		if (!inventoryItem || !lotToDiscard) return;
+
+		const remainingQuantity =
+			inventoryItem.quantity - (data.quantity ?? lotToDiscard.quantity);
+		setIsDiscarding(true);
+
+		try {
+			await discardInventoryItem(lotToDiscard.id, data);
+			toast.success('Produit jeté et comptabilisé dans votre gaspillage');
+			setLotToDiscard(null);
+			if (remainingQuantity <= 0) {
+				navigate({ to: '/app/inventory' });
+			}
+		} catch (error) {
+			toast.error(
+				getUserFacingErrorMessage(
+					error,
+					'Impossible de jeter le produit. Veuillez réessayer.',
+				),
+			);
+		} finally {
+			setIsDiscarding(false);
+		}
+	};
+
+	// Consommer tout ou partie d'un lot précis
+	const handleConsumeLot = async (quantity: number): Promise<void> => {
+		if (!inventoryItem || !lotToConsume) return;
+
+		const remainingQuantity = inventoryItem.quantity - quantity;
+		setIsConsuming(true);
+
+		try {
+			await consumeInventoryItem(lotToConsume.id, {
+				quantityConsumed: quantity,
+				lotOnly: true,
+			});
+			toast.success('Produit consommé');
+			setLotToConsume(null);
+			if (remainingQuantity <= 0) {
+				navigate({ to: '/app/inventory' });
+			}
+		} catch (error) {
+			toast.error(
+				getUserFacingErrorMessage(
+					error,
+					'Impossible de consommer le produit. Veuillez réessayer.',
+				),
+			);
+		} finally {
+			setIsConsuming(false);
+		}
+	};
+
+	// Ouvre la planche d'étiquettes du lot pour l'imprimer
+	const handlePrintLabel = (lotId: string): void => {
+		window.open(
+			inventoryService.getLabelsUrl([lotId]),
+			'_blank',
+			'noopener,noreferrer',
+		);
+	};
+
+	// Congeler, décongeler, déplacer ou séparer un lot puis recharger
+	// l'inventaire pour afficher les nouvelles dates
+	const runLotAction = async (
+		lotId: string,
+		request: () => Promise<unknown>,
+		successMessage: string,
+	): Promise<void> => {
+		setPendingLotId(lotId);
+
+		try {
+			await request();
+			await fetchInventoryItems();
+			toast.success(successMessage);
+			setLotAction(null);
+		} catch (error) {
+			toast.error(
+				getUserFacingErrorMessage(
+					error,
+					'Impossible de modifier ce lot. Veuillez réessayer.',
+				),
+			);
+		} finally {
+			setPendingLotId(null);
+		}
+	};
+
+	const handleLotActionSubmit = async (data: {
+		storageLocation: string;
+		quantity?: number;
+	}): Promise<void> => {
+		if (!lotAction) return;
+
+		const { action, lot } = lotAction;
+		await runLotAction(
+			lot.id,
+			() =>
+				action === 'split' && data.quantity !== undefined
+					? inventoryService.splitInventoryItem(lot.id, {
+							quantity: data.quantity,
+							storageLocation: data.storageLocation,
+						})
+					: inventoryService.moveInventoryItem(lot.id, data.storageLocation),
+			action === 'split' ? 'Lot séparé' : 'Lot déplacé',
+		);
+	};
+
 	// S'il n'y a pas d'élément trouvé et qu'on n'est pas en train de charger
 	if (!inventoryItem && !isLoading) {
 		return (
@@ -322,6 +506,7 @@ const ProductDetailPage: FC = () => {
 						storageLocation: inventoryItem.storageLocation,
 						packageStatus: inventoryItem.packageStatus,
 						preparationStatus: inventoryItem.preparationStatus,
+						recipe: inventoryItem.recipe,
 						notes: inventoryItem.notes,
 						createdAt: inventoryItem.createdAt,
 						updatedAt: inventoryItem.updatedAt,
@@ -555,6 +740,16 @@ const ProductDetailPage: FC = () => {
 					</Card>
 				</div>
 
+				{/* ===== RESTRICTIONS ALIMENTAIRES ===== */}
+				<DietaryConflictAlert
+					product={{
+						name: inventoryItem.product.name,
+						categorySlug: inventoryItem.product.category?.slug,
+						ingredients: inventoryItem.product.ingredients,
+						allergens: inventoryItem.product.allergens,
+					}}
+				/>
+
 				{/* ===== INFORMATIONS NUTRITIONNELLES ===== */}
 				{inventoryItem.product.nutrients && (
 					<NutritionInfoCard
@@ -568,6 +763,26 @@ const ProductDetailPage: FC = () => {
 					<IngredientsCard ingredients={inventoryItem.product.ingredients} />
 				)}
 
+				{/* ===== STOCK MINIMUM ===== */}
+				<StockLevelCard
+					productId={inventoryItem.product.id}
+					productName={inventoryItem.product.name}
+					unitType={inventoryItem.product.unitType}
+					currentQuantity={inventoryItem.quantity}
+				/>
+
+				{/* ===== HISTORIQUE DES PRIX ===== */}
+				<PriceHistoryCard productId={inventoryItem.product.id} />
+
+				{/* ===== POIDS D'UNE PIÈCE ===== */}
+				{inventoryItem.product.unitType === 'UNIT' && (
+					<PieceWeightCard
+						productId={inventoryItem.product.id}
+						pieceWeight={inventoryItem.product.pieceWeight}
+						onSaved={fetchInventoryItems}
+					/>
+				)}
+
 				{/* ===== INFORMATIONS D'ACHAT ===== */}
 				<Card className='relative overflow-hidden border-0 bg-gradient-to-br from-white to-blue-50/50 shadow-xl'>
 					<div className='absolute top-0 right-0 w-32 h-32 bg-gradient-to-br from-blue-100/30 to-indigo-100/30 rounded-full blur-3xl -translate-y-16 translate-x-16' />
@@ -612,8 +827,19 @@ const ProductDetailPage: FC = () => {
 								{purchaseLots.map((lot, index) => (
 									<div
 										key={lot.id}
-										className='rounded-xl border border-gray-200 bg-white p-4 shadow-sm'
+										id={`lot-${lot.id}`}
+										className={`rounded-xl border bg-white p-4 shadow-sm ${
+											lot.id === highlightedLotId
+												? 'border-emerald-300 ring-2 ring-emerald-400'
+												: 'border-gray-200'
+										}`}
 									>
+										{lot.id === highlightedLotId && (
+											<p className='mb-3 inline-flex items-center gap-1.5 rounded-full bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-700'>
+												<ScanLine className='size-3.5' />
+												Lot scanné
+											</p>
+										)}
 										<div className='mb-3 flex items-center justify-between gap-3'>
 											<div>
 												<p className='font-semibold text-gray-900'>
@@ -625,10 +851,119 @@ const ProductDetailPage: FC = () => {
 														inventoryItem.product.unitType,
 													)}
 												</p>
+												{lot.recipe && (
+													<Link
+														to='/app/recipes/$recipeId'
+														params={{ recipeId: lot.recipe.id }}
+														search={{ filter: 'all' }}
+														className='mt-1 inline-flex items-center gap-1 text-xs font-medium text-emerald-700 hover:underline'
+													>
+														<ChefHat className='size-3.5' />
+														Restes de « {lot.recipe.name} »
+													</Link>
+												)}
+												{lot.stocktakeFlaggedAt && (
+													<p className='mt-1 inline-flex items-center gap-1 text-xs font-medium text-amber-700'>
+														<ClipboardCheck className='size-3.5' />
+														À vérifier (non confirmé à l’inventaire du{' '}
+														{new Date(lot.stocktakeFlaggedAt).toLocaleDateString('fr-FR')})
+													</p>
+												)}
 											</div>
-											<span className='rounded-full bg-green-50 px-3 py-1 text-sm font-bold text-green-700'>
-												{formatPurchasePrice(lot.purchasePrice)}
-											</span>
+											<div className='flex items-center gap-2'>
+												<span className='rounded-full bg-green-50 px-3 py-1 text-sm font-bold text-green-700'>
+													{formatPurchasePrice(lot.purchasePrice)}
+												</span>
+												<Button
+													type='button'
+													variant='outline'
+													size='sm'
+													onClick={() => setLotToConsume(lot)}
+													className='border-emerald-200 text-emerald-700 hover:bg-emerald-50'
+												>
+													<UtensilsCrossed className='size-4' />
+													Consommer
+												</Button>
+												<Button
+													type='button'
+													variant='outline'
+													size='sm'
+													onClick={() => setLotToDiscard(lot)}
+													className='border-red-200 text-red-600 hover:bg-red-50'
+												>
+													<Trash2 className='size-4' />
+													Jeter
+												</Button>
+											</div>
+										</div>
+
+										<div className='mb-3 flex flex-wrap gap-2'>
+											{resolveStorageGroup(lot.storageLocation) === 'freezer' ? (
+												<Button
+													type='button'
+													variant='outline'
+													size='sm'
+													disabled={pendingLotId === lot.id}
+													onClick={() =>
+														runLotAction(
+															lot.id,
+															() => inventoryService.thawInventoryItem(lot.id),
+															'Lot décongelé : à consommer rapidement',
+														)
+													}
+												>
+													<Sun className='size-4' />
+													Décongeler
+												</Button>
+											) : (
+												<Button
+													type='button'
+													variant='outline'
+													size='sm'
+													disabled={pendingLotId === lot.id}
+													onClick={() =>
+														runLotAction(
+															lot.id,
+															() => inventoryService.freezeInventoryItem(lot.id),
+															'Lot congelé',
+														)
+													}
+												>
+													<Snowflake className='size-4' />
+													Congeler
+												</Button>
+											)}
+											<Button
+												type='button'
+												variant='outline'
+												size='sm'
+												disabled={pendingLotId === lot.id}
+												onClick={() => setLotAction({ action: 'move', lot })}
+											>
+												<MoveRight className='size-4' />
+												Déplacer
+											</Button>
+											{lot.quantity > 0 && (
+												<Button
+													type='button'
+													variant='outline'
+													size='sm'
+													disabled={pendingLotId === lot.id}
+													onClick={() => setLotAction({ action: 'split', lot })}
+												>
+													<Split className='size-4' />
+													Séparer
+												</Button>
+											)}
+											<Button
+												type='button'
+												variant='outline'
+												size='sm'
+												onClick={() => handlePrintLabel(lot.id)}
+											>
+												<Printer className='size-4' />
+												Étiquette
+											</Button>
 										</div>
 
 										<div className='grid gap-3 sm:grid-cols-2'>
@@ -727,6 +1062,51 @@ const ProductDetailPage: FC = () => {
 				onSubmit={handleUpdateProduct}
 				isSubmitting={isUpdating}
 			/>
+
+			{/* ===== MODAL DE DÉPLACEMENT / SÉPARATION ===== */}
+			<InventoryLotActionDialog
+				action={lotAction?.action ?? null}
+				onClose={() => setLotAction(null)}
+				onSubmit={handleLotActionSubmit}
+				isSubmitting={pendingLotId !== null}
+				lotQuantity={lotAction?.lot.quantity ?? 0}
+				currentLocation={lotAction?.lot.storageLocation}
+				unitLabel={formatUnit(0, inventoryItem.product.unitType).replace(
+					/^0 /,
+					'',
+				)}
+			/>
+
+			{/* ===== MODAL DE CONSOMMATION ===== */}
+			<ConsumeInventoryLotDialog
+				isOpen={lotToConsume !== null}
+				onClose={() => setLotToConsume(null)}
+				onSubmit={handleConsumeLot}
+				isSubmitting={isConsuming}
+				label={inventoryItem.product.name}
+				maxQuantity={lotToConsume?.quantity ?? 0}
+				unitLabel={formatUnit(0, inventoryItem.product.unitType).replace(
+					/^0 /,
+					'',
+				)}
+			/>
+
+			{/* ===== MODAL DE MISE AU REBUT ===== */}
+			<DiscardInventoryItemDialog
+				isOpen={lotToDiscard !== null}
+				onClose={() => setLotToDiscard(null)}
+				onSubmit={handleDiscardLot}
+				isSubmitting={isDiscarding}
+				label={inventoryItem.product.name}
+				maxQuantity={lotToDiscard?.quantity}
+				purchasePrice={lotToDiscard?.purchasePrice}
+				defaultReason={
+					lotToDiscard?.expiryDate &&
+					calculateExpiryStatus(lotToDiscard.expiryDate) === 'EXPIRED'
+						? 'EXPIRED'
+						: 'SPOILED'
+				}
+			/>
 		</div>
 	);
 };
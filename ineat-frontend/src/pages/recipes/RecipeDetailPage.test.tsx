@@ -10,6 +10,7 @@ import {
 	recipeService,
 	SavedRecipe,
 } from '@/services/recipeService';
+import { shoppingListService } from '@/services/shoppingListService';
 import { useAuthStore } from '@/stores/authStore';
 
 const mockSearch = vi.hoisted((): { filter: string } => ({ filter: 'all' }));
@@ -45,6 +46,21 @@ vi.mock('@/services/recipeService', () => ({
 	},
 }));
 
+vi.mock('@/services/inventoryService', () => ({
+	inventoryService: {
+		getStorageLocations: vi.fn().mockResolvedValue([
+			{ id: 'location-1', name: 'Placard', storageGroup: 'pantry', itemCount: 0 },
+			{ id: 'location-2', name: 'Frigo', storageGroup: 'fridge', itemCount: 0 },
+		]),
+	},
+}));
+
+vi.mock('@/services/shoppingListService', () => ({
+	shoppingListService: {
+		addMissingIngredientsFromRecipe: vi.fn(),
+	},
+}));
+
 const recipe: SavedRecipe = {
 	id: 'recipe-1',
 	name: 'Riz aux petits pois',
@@ -95,16 +111,25 @@ const recipe: SavedRecipe = {
 
 const completionPreview: CompletionPreview = {
 	recipeId: 'recipe-1',
+	servings: 2,
 	items: [
 		{
 			inventoryItemId: 'inventory-1',
 			productId: 'product-1',
 			name: 'Riz',
+			unitType: 'KG',
+			availableQuantity: 1,
+			proposedQuantity: 0.2,
+			expiryDate: null,
 		},
 		{
 			inventoryItemId: 'inventory-2',
 			productId: 'product-2',
 			name: 'Petits pois',
+			unitType: 'G',
+			availableQuantity: 500,
+			proposedQuantity: 150,
+			expiryDate: null,
 		},
 	],
 };
@@ -152,7 +177,8 @@ describe('RecipeDetailPage', () => {
 				...recipe,
 				doneAt: '2026-06-23T09:00:00.000Z',
 			},
-			removedItems: completionPreview.items,
+			removedItems: [],
+			leftoversItem: null,
 		});
 	});
 
@@ -173,7 +199,8 @@ describe('RecipeDetailPage', () => {
 		).toBeInTheDocument();
 		await waitFor(() => {
 			expect(recipeService.getCompletionPreview).toHaveBeenCalledWith(
-				'recipe-1'
+				'recipe-1',
+				undefined
 			);
 		});
 		expect(screen.getAllByText('Riz').length).toBeGreaterThan(0);
@@ -193,9 +220,10 @@ describe('RecipeDetailPage', () => {
 		await user.click(screen.getByRole('button', { name: /confirmer/i }));
 
 		await waitFor(() => {
-			expect(recipeService.completeRecipe).toHaveBeenCalledWith('recipe-1', [
-				'inventory-1',
-			]);
+			expect(recipeService.completeRecipe).toHaveBeenCalledWith('recipe-1', {
+				servings: 2,
+				items: [{ inventoryItemId: 'inventory-1', quantity: 0.2 }],
+			});
 		});
 		await waitFor(() => {
 			expect(
@@ -209,6 +237,92 @@ describe('RecipeDetailPage', () => {
 		).not.toBeInTheDocument();
 	});
 
+	it('retire les quantités ajustées pour les portions cuisinées', async () => {
+		const user = userEvent.setup();
+		(
+			recipeService.getCompletionPreview as ReturnType<typeof vi.fn>
+		).mockImplementation(async (_recipeId: string, servings?: number) =>
+			servings === 4
+				? {
+						...completionPreview,
+						servings: 4,
+						items: completionPreview.items.map((item) => ({
+							...item,
+							proposedQuantity: item.proposedQuantity * 2,
+						})),
+					}
+				: completionPreview
+		);
+
+		renderRecipeDetail();
+
+		await user.click(
+			await screen.findByRole('button', { name: /marquer comme fait/i })
+		);
+		const servingsInput = await screen.findByLabelText('Portions cuisinées');
+		await user.clear(servingsInput);
+		await user.type(servingsInput, '4');
+
+		await waitFor(() => {
+			expect(recipeService.getCompletionPreview).toHaveBeenCalledWith(
+				'recipe-1',
+				4
+			);
+		});
+		const riceInput = await screen.findByLabelText(
+			'Quantité de Riz à retirer'
+		);
+		await waitFor(() => {
+			expect(riceInput).toHaveValue(0.4);
+		});
+		await user.clear(riceInput);
+		await user.type(riceInput, '0.3');
+		await user.click(screen.getByRole('button', { name: /confirmer/i }));
+
+		await waitFor(() => {
+			expect(recipeService.completeRecipe).toHaveBeenCalledWith('recipe-1', {
+				servings: 4,
+				items: [
+					{ inventoryItemId: 'inventory-1', quantity: 0.3 },
+					{ inventoryItemId: 'inventory-2', quantity: 300 },
+				],
+			});
+		});
+	});
+
+	it('range les restes dans l’emplacement choisi', async () => {
+		const user = userEvent.setup();
+
+		renderRecipeDetail();
+
+		await user.click(
+			await screen.findByRole('button', { name: /marquer comme fait/i })
+		);
+		await user.click(
+			await screen.findByRole('checkbox', {
+				name: 'Ranger les restes dans l’inventaire',
+			})
+		);
+		const portionsInput = screen.getByLabelText('Portions restantes');
+		await user.clear(portionsInput);
+		await user.type(portionsInput, '3');
+		await waitFor(() => {
+			expect(screen.getByLabelText('Emplacement des restes')).toHaveTextContent(
+				'Frigo'
+			);
+		});
+		await user.click(screen.getByRole('button', { name: /confirmer/i }));
+
+		await waitFor(() => {
+			expect(recipeService.completeRecipe).toHaveBeenCalledWith(
+				'recipe-1',
+				expect.objectContaining({
+					leftovers: { portions: 3, storageLocation: 'Frigo' },
+				})
+			);
+		});
+	});
+
 	it('affiche un accès premium si les recettes ne sont pas disponibles', () => {
 		(useAuthStore as unknown as ReturnType<typeof vi.fn>).mockImplementation(
 			(selector: (state: unknown) => unknown) =>
@@ -252,4 +366,80 @@ describe('RecipeDetailPage', () => {
 			screen.getByRole('button', { name: 'Retirer des favoris' })
 		).toHaveAttribute('aria-pressed', 'true');
 	});
+
+	it('ajoute les ingrédients manquants à la liste de courses', async () => {
+		const user = userEvent.setup();
+		(recipeService.getSavedRecipe as ReturnType<typeof vi.fn>).mockReset();
+		(recipeService.getSavedRecipe as ReturnType<typeof vi.fn>).mockResolvedValue({
+			...recipe,
+			missingIngredients: ['Crème fraîche'],
+			ingredients: [
+				...recipe.ingredients,
+				{
+					id: 'ingredient-4',
+					name: 'Crème fraîche',
+					productId: null,
+					quantity: 20,
+					unit: 'cl',
+					source: 'MISSING',
+				},
+			],
+		});
+		(
+			shoppingListService.addMissingIngredientsFromRecipe as ReturnType<
+				typeof vi.fn
+			>
+		).mockResolvedValue({
+			success: true,
+			message: '1 ingrédient ajouté à la liste de courses',
+			data: { addedCount: 1, items: [] },
+		});
+
+		renderRecipeDetail();
+
+		await user.click(
+			await screen.findByRole('button', {
+				name: /ajouter les manquants aux courses/i,
+			})
+		);
+
+		await waitFor(() => {
+			expect(
+				shoppingListService.addMissingIngredientsFromRecipe
+			).toHaveBeenCalledWith('recipe-1');
+		});
+	});
+
+	it('masque l’ajout aux courses sans ingrédient manquant', async () => {
+		renderRecipeDetail();
+
+		expect(await screen.findByText('Riz aux petits pois')).toBeInTheDocument();
+		expect(
+			screen.queryByRole('button', { name: /ajouter les manquants/i })
+		).not.toBeInTheDocument();
+	});
+
+	it('indique la quantité convertie dans l’unité du produit en stock', async () => {
+		(recipeService.getSavedRecipe as ReturnType<typeof vi.fn>)
+			.mockReset()
+			.mockResolvedValue({
+				...recipe,
+				ingredients: [
+					{
+						...recipe.ingredients[0],
+						unitType: 'G',
+						inventoryQuantity: { quantity: 0.2, unitType: 'KG' },
+					},
+					{
+						...recipe.ingredients[1],
+						unitType: 'G',
+						inventoryQuantity: { quantity: 150, unitType: 'G' },
+					},
+				],
+			});
+		renderRecipeDetail();
+
+		expect(await screen.findByText('(soit 0.2 kg)')).toBeInTheDocument();
+		expect(screen.queryByText('(soit 150 g)')).not.toBeInTheDocument();
+	});
 });
@@ -7,6 +7,7 @@ import {
 	CheckCircle2,
 	Clock,
 	ImageOff,
+	ListPlus,
 	ShoppingBasket,
 	Users,
 	X,
@@ -25,15 +26,30 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
 import { FavoriteRecipeButton } from '@/components/recipes/FavoriteRecipeButton';
 import { useRecipeFavoriteMutation } from '@/hooks/useRecipeFavoriteMutation';
 import {
+	findStorageLocationByGroup,
+	useStorageLocations,
+} from '@/hooks/useStorageLocations';
+import {
+	CompleteRecipeInput,
 	CompletionPreview,
 	recipeService,
 	SavedRecipe,
 } from '@/services/recipeService';
+import { shoppingListService } from '@/services/shoppingListService';
 import { useAuthStore } from '@/stores/authStore';
 import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+import { formatDate, formatQuantity } from '@/utils/ui-utils';
 import { RecipeFilter } from './recipeFilters';
 
 type RecipeDetailPageProps = {
@@ -54,6 +70,13 @@ export function RecipeDetailPage({ recipeId }: RecipeDetailPageProps) {
 	const canUseRecipes = Boolean(user?.capabilities.canUseRecipes);
 	const [completionPreview, setCompletionPreview] =
 		useState<CompletionPreview | null>(null);
+	const [completionQuantities, setCompletionQuantities] = useState<
+		Record<string, string>
+	>({});
+	const [servingsDraft, setServingsDraft] = useState('');
+	const [keepLeftovers, setKeepLeftovers] = useState(false);
+	const [leftoverPortions, setLeftoverPortions] = useState('1');
+	const [leftoversLocation, setLeftoversLocation] = useState('');
 	const [isConfirmOpen, setIsConfirmOpen] = useState(false);
 
 	const {
@@ -66,11 +89,36 @@ export function RecipeDetailPage({ recipeId }: RecipeDetailPageProps) {
 		enabled: canUseRecipes,
 	});
 	const favoriteMutation = useRecipeFavoriteMutation();
+	const { data: storageLocations = [] } = useStorageLocations();
+	const selectedLeftoversLocation =
+		leftoversLocation ||
+		findStorageLocationByGroup(storageLocations, 'fridge') ||
+		'';
+	const leftoverPortionsCount = parseInt(leftoverPortions, 10);
+	const isLeftoversInvalid =
+		keepLeftovers &&
+		(!(leftoverPortionsCount >= 1 && leftoverPortionsCount <= 50) ||
+			!selectedLeftoversLocation);
 
 	const previewMutation = useMutation({
-		mutationFn: recipeService.getCompletionPreview,
+		mutationFn: ({
+			recipeId,
+			servings,
+		}: {
+			recipeId: string;
+			servings?: number;
+		}) => recipeService.getCompletionPreview(recipeId, servings),
 		onSuccess: (preview) => {
 			setCompletionPreview(preview);
+			setCompletionQuantities(
+				Object.fromEntries(
+					preview.items.map((item) => [
+						item.inventoryItemId,
+						String(item.proposedQuantity),
+					])
+				)
+			);
+			setServingsDraft(String(preview.servings));
 			setIsConfirmOpen(true);
 		},
 		onError: (error) => {
@@ -86,21 +134,27 @@ export function RecipeDetailPage({ recipeId }: RecipeDetailPageProps) {
 	const completeMutation = useMutation({
 		mutationFn: ({
 			recipeId,
-			inventoryItemIds,
+			input,
 		}: {
 			recipeId: string;
-			inventoryItemIds: string[];
-		}) => recipeService.completeRecipe(recipeId, inventoryItemIds),
+			input: CompleteRecipeInput;
+		}) => recipeService.completeRecipe(recipeId, input),
 		onSuccess: (data) => {
 			queryClient.setQueryData(['recipes', 'saved', recipeId], data.recipe);
 			queryClient.invalidateQueries({ queryKey: ['recipes', 'saved'] });
 			queryClient.invalidateQueries({ queryKey: ['inventory'] });
 			setIsConfirmOpen(false);
 			toast.success('Recette marquée comme faite', {
-				description:
+				description: [
 					data.removedItems.length > 0
-						? `${data.removedItems.length} produit(s) retiré(s) de l’inventaire.`
+						? `${data.removedItems.length} lot(s) mis à jour dans l’inventaire.`
 						: 'Aucun produit à retirer.',
+					data.leftoversItem
+						? `${data.leftoversItem.quantity} portion(s) de restes rangée(s).`
+						: null,
+				]
+					.filter(Boolean)
+					.join(' '),
 			});
 		},
 		onError: (error) => {
@@ -113,6 +167,24 @@ export function RecipeDetailPage({ recipeId }: RecipeDetailPageProps) {
 		},
 	});
 
+	const shoppingListMutation = useMutation({
+		mutationFn: shoppingListService.addMissingIngredientsFromRecipe,
+		onSuccess: (response) => {
+			queryClient.invalidateQueries({ queryKey: ['shopping-list'] });
+			toast.success('Liste de courses mise à jour', {
+				description: response.message,
+			});
+		},
+		onError: (error) => {
+			toast.error('Action impossible', {
+				description: getUserFacingErrorMessage(
+					error,
+					'Impossible de mettre à jour la liste de courses.'
+				),
+			});
+		},
+	});
+
 	if (!canUseRecipes) {
 		return (
 			<div className='mx-auto max-w-3xl p-4'>
@@ -225,10 +297,22 @@ export function RecipeDetailPage({ recipeId }: RecipeDetailPageProps) {
 
 				<aside className='space-y-4'>
 					<IngredientList recipe={recipe} />
+					{recipe.ingredients.some(
+						(ingredient) => ingredient.source === 'MISSING'
+					) && (
+						<Button
+							variant='outline'
+							className='w-full'
+							disabled={shoppingListMutation.isPending}
+							onClick={() => shoppingListMutation.mutate(recipe.id)}>
+							<ListPlus className='size-4' />
+							Ajouter les manquants aux courses
+						</Button>
+					)}
 					<Button
 						className='w-full'
 						disabled={Boolean(recipe.doneAt) || previewMutation.isPending}
-						onClick={() => previewMutation.mutate(recipe.id)}>
+						onClick={() => previewMutation.mutate({ recipeId: recipe.id })}>
 						<CheckCircle2 className='size-4' />
 						{recipe.doneAt ? 'Déjà fait' : 'Marquer comme fait'}
 					</Button>
@@ -240,17 +324,62 @@ export function RecipeDetailPage({ recipeId }: RecipeDetailPageProps) {
 					<AlertDialogHeader>
 						<AlertDialogTitle>Marquer la recette comme faite ?</AlertDialogTitle>
 						<AlertDialogDescription>
-							Les produits suivants seront retirés de l’inventaire. Les basiques
-							et ingrédients manquants ne seront pas modifiés.
+							Ajustez les quantités utilisées : elles seront retirées des lots
+							de l’inventaire. Les basiques et ingrédients manquants ne seront
+							pas modifiés.
 						</AlertDialogDescription>
 					</AlertDialogHeader>
+					<label className='flex items-center justify-between gap-3 text-sm text-neutral-700'>
+						Portions cuisinées
+						<Input
+							type='number'
+							min='1'
+							max='20'
+							step='1'
+							value={servingsDraft}
+							onChange={(event) => {
+								setServingsDraft(event.target.value);
+								const servings = parseInt(event.target.value, 10);
+								if (servings >= 1 && servings <= 20) {
+									previewMutation.mutate({ recipeId: recipe.id, servings });
+								}
+							}}
+							className='w-20'
+						/>
+					</label>
 					{completionPreview?.items.length ? (
 						<ul className='space-y-2 text-sm text-neutral-700'>
 							{completionPreview.items.map((item) => (
 								<li
 									key={item.inventoryItemId}
 									className='flex items-center justify-between gap-3 rounded-md bg-neutral-100 px-3 py-2'>
-									<span>{item.name}</span>
+									<span className='min-w-0'>
+										<span className='block'>{item.name}</span>
+										{item.expiryDate && (
+											<span className='block text-xs text-neutral-500'>
+												Expire le {formatDate(item.expiryDate)}
+											</span>
+										)}
+									</span>
+									<span className='ml-auto flex shrink-0 items-center gap-2'>
+										<Input
+											type='number'
+											min='0'
+											step='any'
+											aria-label={`Quantité de ${item.name} à retirer`}
+											value={completionQuantities[item.inventoryItemId] ?? ''}
+											onChange={(event) =>
+												setCompletionQuantities((quantities) => ({
+													...quantities,
+													[item.inventoryItemId]: event.target.value,
+												}))
+											}
+											className='h-8 w-20'
+										/>
+										<span className='text-xs text-neutral-500'>
+											/ {formatQuantity(item.availableQuantity, item.unitType)}
+										</span>
+									</span>
 									<button
 										type='button'
 										className='shrink-0 rounded-full p-1 text-red-600 transition-colors hover:bg-red-50 hover:text-red-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500 focus-visible:ring-offset-2'
@@ -279,17 +408,74 @@ export function RecipeDetailPage({ recipeId }: RecipeDetailPageProps) {
 							Aucun produit de l’inventaire ne sera retiré.
 						</p>
 					)}
+					<div className='space-y-2 rounded-md border border-neutral-200 p-3 text-sm text-neutral-700'>
+						<label className='flex items-center gap-2'>
+							<input
+								type='checkbox'
+								checked={keepLeftovers}
+								onChange={(event) => setKeepLeftovers(event.target.checked)}
+								className='size-4 rounded border-neutral-300'
+							/>
+							Ranger les restes dans l’inventaire
+						</label>
+						{keepLeftovers && (
+							<div className='flex flex-wrap items-center gap-2'>
+								<Input
+									type='number'
+									min='1'
+									max='50'
+									step='1'
+									aria-label='Portions restantes'
+									value={leftoverPortions}
+									onChange={(event) => setLeftoverPortions(event.target.value)}
+									className='h-8 w-20'
+								/>
+								<span>portion(s) dans</span>
+								<Select
+									value={selectedLeftoversLocation}
+									onValueChange={setLeftoversLocation}>
+									<SelectTrigger
+										aria-label='Emplacement des restes'
+										className='h-8 w-40'>
+										<SelectValue placeholder='Choisir un emplacement' />
+									</SelectTrigger>
+									<SelectContent className='bg-neutral-100'>
+										{storageLocations.map((location) => (
+											<SelectItem key={location.id} value={location.name}>
+												{location.name}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+						)}
+					</div>
 					<AlertDialogFooter>
 						<AlertDialogCancel>Annuler</AlertDialogCancel>
 						<AlertDialogAction
-							disabled={completeMutation.isPending}
+							disabled={completeMutation.isPending || isLeftoversInvalid}
 							onClick={() =>
 								completeMutation.mutate({
 									recipeId: recipe.id,
-									inventoryItemIds:
-										completionPreview?.items.map(
-											(item) => item.inventoryItemId
-										) ?? [],
+									input: {
+										servings: completionPreview?.servings ?? recipe.servings,
+										items: (completionPreview?.items ?? [])
+											.map((item) => ({
+												inventoryItemId: item.inventoryItemId,
+												quantity: parseFloat(
+													(
+														completionQuantities[item.inventoryItemId] ?? ''
+													).replace(',', '.')
+												),
+											}))
+											.filter((item) => item.quantity > 0),
+										...(keepLeftovers && {
+											leftovers: {
+												portions: leftoverPortionsCount,
+												storageLocation: selectedLeftoversLocation,
+											},
+										}),
+									},
 								})
 							}>
 							Confirmer
@@ -373,6 +559,18 @@ function IngredientGroup({
 						{ingredient.name}
 						{ingredient.quantity ? ` · ${ingredient.quantity}` : ''}
 						{ingredient.unit ? ` ${ingredient.unit}` : ''}
+						{ingredient.inventoryQuantity &&
+						ingredient.inventoryQuantity.unitType !== ingredient.unitType ? (
+							<span className='text-neutral-500'>
+								{' '}
+								(soit{' '}
+								{formatQuantity(
+									ingredient.inventoryQuantity.quantity,
+									ingredient.inventoryQuantity.unitType
+								)}
+								)
+							</span>
+						) : null}
 					</li>
 				))}
 			</ul>
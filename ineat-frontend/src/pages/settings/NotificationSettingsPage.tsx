@@ -1,5 +1,12 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { Bell, CircleDollarSign, Mail, Package, Smartphone } from 'lucide-react';
+import {
+	Bell,
+	CircleDollarSign,
+	Mail,
+	Package,
+	PackageMinus,
+	Smartphone,
+} from 'lucide-react';
 import { toast } from 'sonner';
 import type { ReactNode } from 'react';
 
@@ -169,6 +176,14 @@ export default function NotificationSettingsPage() {
 						onCheckedChange={(checked) => update('budget', checked)}
 						icon={<CircleDollarSign className='size-5' />}
 					/>
+					<PreferenceRow
+						title='Stock bas'
+						description='Produits passés sous leur stock minimum.'
+						checked={preferences.lowStock}
+						disabled={!preferences.inAppEnabled || mutation.isPending}
+						onCheckedChange={(checked) => update('lowStock', checked)}
+						icon={<PackageMinus className='size-5' />}
+					/>
 				</CardContent>
 			</Card>
 		</div>
@@ -11,6 +11,9 @@ import {
 	Utensils,
 	Eye,
 	PanelTop,
+	Home,
+	MapPin,
+	CalendarClock,
 } from 'lucide-react';
 import { User as UserType } from '@/schemas';
 
@@ -43,6 +46,24 @@ const SettingsPage = () => {
 			icon: Utensils,
 			description: 'Allergies, régimes alimentaires',
 		},
+		{
+			title: 'Mon foyer',
+			href: '/app/household',
+			icon: Home,
+			description: 'Membres, invitations, données partagées',
+		},
+		{
+			title: 'Lieux de stockage',
+			href: '/app/settings/storage-locations',
+			icon: MapPin,
+			description: 'Frigos, congélateurs, placards',
+		},
+		{
+			title: 'Règles de conservation',
+			href: '/app/settings/shelf-life-rules',
+			icon: CalendarClock,
+			description: 'Durées de conservation personnalisées',
+		},
 		{
 			title: "Préférences d'affichage",
 			href: '/app/settings/preferences',
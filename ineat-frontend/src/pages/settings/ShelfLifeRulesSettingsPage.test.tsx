@@ -0,0 +1,116 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import ShelfLifeRulesSettingsPage from './ShelfLifeRulesSettingsPage';
+import { inventoryService } from '@/services/inventoryService';
+import type { ShelfLifeOverride } from '@/services/inventoryService';
+
+vi.mock('sonner', () => ({
+	toast: {
+		error: vi.fn(),
+		success: vi.fn(),
+	},
+}));
+
+vi.mock('@/services/inventoryService', () => ({
+	inventoryService: {
+		getInventory: vi.fn(),
+		getShelfLifeOverrides: vi.fn(),
+		createShelfLifeOverride: vi.fn(),
+		updateShelfLifeOverride: vi.fn(),
+		deleteShelfLifeOverride: vi.fn(),
+		recomputeEstimatedExpiryDates: vi.fn(),
+	},
+}));
+
+const yogurtRule: ShelfLifeOverride = {
+	id: 'override-1',
+	label: 'Yaourt maison',
+	keywords: ['yaourt maison'],
+	productId: null,
+	product: null,
+	daysByStorage: { fridge: 10 },
+	defaultDays: 10,
+};
+
+function renderPage() {
+	const queryClient = new QueryClient({
+		defaultOptions: {
+			queries: { retry: false },
+			mutations: { retry: false },
+		},
+	});
+
+	return render(
+		<QueryClientProvider client={queryClient}>
+			<ShelfLifeRulesSettingsPage />
+		</QueryClientProvider>
+	);
+}
+
+describe('ShelfLifeRulesSettingsPage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(inventoryService.getInventory).mockResolvedValue([]);
+		vi.mocked(inventoryService.getShelfLifeOverrides).mockResolvedValue([
+			yogurtRule,
+		]);
+	});
+
+	it('ajoute une règle par mots-clés avec ses durées par type de stockage', async () => {
+		const user = userEvent.setup();
+		vi.mocked(inventoryService.createShelfLifeOverride).mockResolvedValue({
+			...yogurtRule,
+			id: 'override-2',
+			label: 'Pain de la boulangerie',
+		});
+		renderPage();
+
+		await screen.findByText('Yaourt maison');
+		expect(
+			screen.getByText('Réfrigéré : 10 j · Sinon : 10 j')
+		).toBeInTheDocument();
+
+		await user.type(
+			screen.getByLabelText('Nom de la règle'),
+			'Pain de la boulangerie'
+		);
+		await user.type(
+			screen.getByLabelText('Mots-clés (séparés par des virgules)'),
+			'baguette, pain'
+		);
+		await user.type(screen.getByLabelText('Durée par défaut (jours)'), '2');
+		await user.type(screen.getByLabelText('Placard'), '3');
+		await user.click(screen.getByRole('button', { name: 'Ajouter la règle' }));
+
+		await waitFor(() => {
+			expect(inventoryService.createShelfLifeOverride).toHaveBeenCalledWith({
+				label: 'Pain de la boulangerie',
+				keywords: ['baguette', 'pain'],
+				productId: null,
+				defaultDays: 2,
+				daysByStorage: { pantry: 3 },
+			});
+		});
+	});
+
+	it('recalcule les dates estimées des lots existants', async () => {
+		const user = userEvent.setup();
+		vi.mocked(
+			inventoryService.recomputeEstimatedExpiryDates
+		).mockResolvedValue({ updatedCount: 2 });
+		renderPage();
+
+		await user.click(
+			await screen.findByRole('button', {
+				name: 'Recalculer les lots existants',
+			})
+		);
+
+		await waitFor(() => {
+			expect(inventoryService.recomputeEstimatedExpiryDates).toHaveBeenCalled();
+		});
+	});
+});
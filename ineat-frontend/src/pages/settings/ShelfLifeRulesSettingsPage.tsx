@@ -0,0 +1,464 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock, Pencil, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import {
+	STORAGE_GROUP_LABELS,
+	type StorageGroup,
+} from '@/constants/expiryRules';
+import { inventoryKeys, useInventory } from '@/hooks/useInventory';
+import {
+	SHELF_LIFE_OVERRIDES_QUERY_KEY,
+	useShelfLifeOverrides,
+} from '@/hooks/useShelfLifeOverrides';
+import { inventoryService } from '@/services/inventoryService';
+import type {
+	ShelfLifeOverride,
+	ShelfLifeOverrideInput,
+} from '@/services/inventoryService';
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+
+const STORAGE_GROUPS = Object.keys(STORAGE_GROUP_LABELS) as StorageGroup[];
+const NO_PRODUCT = 'none';
+
+interface RuleDraft {
+	label: string;
+	keywords: string;
+	productId: string;
+	defaultDays: string;
+	daysByStorage: Partial<Record<StorageGroup, string>>;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+	label: '',
+	keywords: '',
+	productId: NO_PRODUCT,
+	defaultDays: '',
+	daysByStorage: {},
+};
+
+const toDraft = (rule: ShelfLifeOverride): RuleDraft => ({
+	label: rule.label,
+	keywords: rule.keywords.join(', '),
+	productId: rule.productId ?? NO_PRODUCT,
+	defaultDays: String(rule.defaultDays),
+	daysByStorage: Object.fromEntries(
+		Object.entries(rule.daysByStorage).map(([group, days]) => [
+			group,
+			String(days),
+		])
+	),
+});
+
+const toInput = (draft: RuleDraft): ShelfLifeOverrideInput => ({
+	label: draft.label.trim(),
+	keywords: draft.keywords
+		.split(',')
+		.map((keyword) => keyword.trim())
+		.filter(Boolean),
+	productId: draft.productId === NO_PRODUCT ? null : draft.productId,
+	defaultDays: Number(draft.defaultDays),
+	daysByStorage: Object.fromEntries(
+		Object.entries(draft.daysByStorage)
+			.filter(([, days]) => days !== undefined && days !== '')
+			.map(([group, days]) => [group, Number(days)])
+	),
+});
+
+const describeDurations = (rule: ShelfLifeOverride): string => {
+	const durations = STORAGE_GROUPS.filter(
+		(group) => rule.daysByStorage[group] !== undefined
+	).map(
+		(group) => `${STORAGE_GROUP_LABELS[group]} : ${rule.daysByStorage[group]} j`
+	);
+
+	return [...durations, `Sinon : ${rule.defaultDays} j`].join(' · ');
+};
+
+function ShelfLifeRuleForm({
+	idPrefix,
+	initialDraft,
+	productOptions,
+	submitLabel,
+	disabled,
+	onSubmit,
+	onCancel,
+}: {
+	idPrefix: string;
+	initialDraft: RuleDraft;
+	productOptions: { id: string; name: string }[];
+	submitLabel: string;
+	disabled: boolean;
+	onSubmit: (input: ShelfLifeOverrideInput) => void;
+	onCancel?: () => void;
+}) {
+	const [draft, setDraft] = useState<RuleDraft>(initialDraft);
+	const input = toInput(draft);
+	const canSubmit =
+		input.label !== '' &&
+		Number.isInteger(input.defaultDays) &&
+		input.defaultDays > 0 &&
+		((input.keywords?.length ?? 0) > 0 || input.productId !== null);
+
+	return (
+		<form
+			className='space-y-4'
+			onSubmit={(e) => {
+				e.preventDefault();
+				if (!canSubmit) return;
+				onSubmit(input);
+			}}
+		>
+			<div className='grid gap-4 sm:grid-cols-2'>
+				<div className='space-y-1'>
+					<Label htmlFor={`${idPrefix}-label`}>Nom de la règle</Label>
+					<Input
+						id={`${idPrefix}-label`}
+						value={draft.label}
+						onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+						placeholder='Ex. Yaourt maison'
+						maxLength={60}
+					/>
+				</div>
+				<div className='space-y-1'>
+					<Label htmlFor={`${idPrefix}-default-days`}>
+						Durée par défaut (jours)
+					</Label>
+					<Input
+						id={`${idPrefix}-default-days`}
+						type='number'
+						min={1}
+						value={draft.defaultDays}
+						onChange={(e) =>
+							setDraft({ ...draft, defaultDays: e.target.value })
+						}
+					/>
+				</div>
+				<div className='space-y-1'>
+					<Label htmlFor={`${idPrefix}-keywords`}>
+						Mots-clés (séparés par des virgules)
+					</Label>
+					<Input
+						id={`${idPrefix}-keywords`}
+						value={draft.keywords}
+						onChange={(e) => setDraft({ ...draft, keywords: e.target.value })}
+						placeholder='Ex. yaourt maison, yaourt nature'
+					/>
+				</div>
+				<div className='space-y-1'>
+					<Label htmlFor={`${idPrefix}-product`}>Produit précis</Label>
+					<Select
+						value={draft.productId}
+						onValueChange={(productId) => setDraft({ ...draft, productId })}
+					>
+						<SelectTrigger id={`${idPrefix}-product`} className='w-full'>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent className='bg-neutral-100'>
+							<SelectItem value={NO_PRODUCT}>
+								Aucun (mots-clés seuls)
+							</SelectItem>
+							{productOptions.map((product) => (
+								<SelectItem key={product.id} value={product.id}>
+									{product.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			</div>
+
+			<fieldset className='space-y-2'>
+				<legend className='text-sm font-medium text-neutral-900'>
+					Durée selon le type de stockage (facultatif)
+				</legend>
+				<div className='grid grid-cols-2 gap-3 sm:grid-cols-3'>
+					{STORAGE_GROUPS.map((group) => (
+						<div key={group} className='space-y-1'>
+							<Label htmlFor={`${idPrefix}-days-${group}`}>
+								{STORAGE_GROUP_LABELS[group]}
+							</Label>
+							<Input
+								id={`${idPrefix}-days-${group}`}
+								type='number'
+								min={0}
+								value={draft.daysByStorage[group] ?? ''}
+								onChange={(e) =>
+									setDraft({
+										...draft,
+										daysByStorage: {
+											...draft.daysByStorage,
+											[group]: e.target.value,
+										},
+									})
+								}
+							/>
+						</div>
+					))}
+				</div>
+			</fieldset>
+
+			<div className='flex justify-end gap-2'>
+				{onCancel && (
+					<Button type='button' variant='ghost' onClick={onCancel}>
+						Annuler
+					</Button>
+				)}
+				<Button type='submit' disabled={disabled || !canSubmit}>
+					{submitLabel}
+				</Button>
+			</div>
+		</form>
+	);
+}
+
+export default function ShelfLifeRulesSettingsPage() {
+	const queryClient = useQueryClient();
+	const { data: rules = [], isLoading, isError } = useShelfLifeOverrides();
+	const { data: inventoryItems = [] } = useInventory();
+	const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+	const [createFormKey, setCreateFormKey] = useState(0);
+
+	const productOptions = useMemo(() => {
+		const products = new Map<string, string>();
+		for (const item of inventoryItems) {
+			products.set(item.product.id, item.product.name);
+		}
+		return [...products.entries()]
+			.map(([id, name]) => ({ id, name }))
+			.sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+	}, [inventoryItems]);
+
+	const refresh = () =>
+		queryClient.invalidateQueries({
+			queryKey: SHELF_LIFE_OVERRIDES_QUERY_KEY,
+		});
+
+	const createMutation = useMutation({
+		mutationFn: (data: ShelfLifeOverrideInput) =>
+			inventoryService.createShelfLifeOverride(data),
+		onSuccess: (rule) => {
+			setCreateFormKey((key) => key + 1);
+			refresh();
+			toast.success(`Règle « ${rule.label} » ajoutée`);
+		},
+		onError: (error) =>
+			toast.error(
+				getUserFacingErrorMessage(error, "Impossible d'ajouter cette règle")
+			),
+	});
+	const updateMutation = useMutation({
+		mutationFn: ({
+			id,
+			changes,
+		}: {
+			id: string;
+			changes: ShelfLifeOverrideInput;
+		}) => inventoryService.updateShelfLifeOverride(id, changes),
+		onSuccess: () => {
+			setEditingRuleId(null);
+			refresh();
+			toast.success('Règle de conservation mise à jour');
+		},
+		onError: (error) =>
+			toast.error(
+				getUserFacingErrorMessage(error, 'Impossible de modifier cette règle')
+			),
+	});
+	const deleteMutation = useMutation({
+		mutationFn: (id: string) => inventoryService.deleteShelfLifeOverride(id),
+		onSuccess: () => {
+			refresh();
+			toast.success('Règle de conservation supprimée');
+		},
+		onError: (error) =>
+			toast.error(
+				getUserFacingErrorMessage(error, 'Impossible de supprimer cette règle')
+			),
+	});
+	const recomputeMutation = useMutation({
+		mutationFn: () => inventoryService.recomputeEstimatedExpiryDates(),
+		onSuccess: ({ updatedCount }) => {
+			queryClient.invalidateQueries({ queryKey: inventoryKeys.all });
+			toast.success(
+				updatedCount > 0
+					? `${updatedCount} date(s) de péremption recalculée(s)`
+					: 'Toutes les dates estimées sont déjà à jour'
+			);
+		},
+		onError: (error) =>
+			toast.error(
+				getUserFacingErrorMessage(
+					error,
+					'Impossible de recalculer les dates de péremption'
+				)
+			),
+	});
+
+	const isMutating =
+		createMutation.isPending ||
+		updateMutation.isPending ||
+		deleteMutation.isPending ||
+		recomputeMutation.isPending;
+
+	if (isLoading) {
+		return (
+			<div className='p-8 text-center'>
+				Chargement des règles de conservation…
+			</div>
+		);
+	}
+
+	if (isError) {
+		return (
+			<div className='p-8 text-center text-error-700'>
+				Impossible de charger vos règles de conservation.
+			</div>
+		);
+	}
+
+	return (
+		<div className='mx-auto max-w-3xl space-y-6 p-4 pb-16'>
+			<header>
+				<h1 className='text-2xl font-semibold text-neutral-900'>
+					Règles de conservation
+				</h1>
+				<p className='mt-1 text-sm text-neutral-600'>
+					Vos durées de conservation passent avant les règles intégrées pour
+					estimer les dates de péremption.
+				</p>
+			</header>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Ajouter une règle</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<ShelfLifeRuleForm
+						key={createFormKey}
+						idPrefix='new-shelf-life-rule'
+						initialDraft={EMPTY_DRAFT}
+						productOptions={productOptions}
+						submitLabel='Ajouter la règle'
+						disabled={isMutating}
+						onSubmit={(input) => createMutation.mutate(input)}
+					/>
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Mes règles</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{rules.length === 0 && (
+						<p className='text-sm text-neutral-600'>
+							Aucune règle personnelle pour le moment.
+						</p>
+					)}
+					{rules.map((rule) =>
+						editingRuleId === rule.id ? (
+							<div
+								key={rule.id}
+								className='border-b border-neutral-100 py-4 last:border-0'
+							>
+								<ShelfLifeRuleForm
+									idPrefix={`shelf-life-rule-${rule.id}`}
+									initialDraft={toDraft(rule)}
+									productOptions={
+										rule.product &&
+										!productOptions.some(({ id }) => id === rule.product?.id)
+											? [...productOptions, rule.product]
+											: productOptions
+									}
+									submitLabel='Enregistrer'
+									disabled={isMutating}
+									onSubmit={(changes) =>
+										updateMutation.mutate({ id: rule.id, changes })
+									}
+									onCancel={() => setEditingRuleId(null)}
+								/>
+							</div>
+						) : (
+							<div
+								key={rule.id}
+								className='flex items-start justify-between gap-3 border-b border-neutral-100 py-4 last:border-0'
+							>
+								<div className='flex min-w-0 gap-3'>
+									<CalendarClock className='mt-0.5 size-5 shrink-0 text-success-600' />
+									<div className='min-w-0'>
+										<p className='font-medium text-neutral-900'>{rule.label}</p>
+										<p className='text-sm text-neutral-600'>
+											{rule.product
+												? `Produit : ${rule.product.name}`
+												: `Mots-clés : ${rule.keywords.join(', ')}`}
+										</p>
+										<p className='text-sm text-neutral-600'>
+											{describeDurations(rule)}
+										</p>
+									</div>
+								</div>
+								<div className='flex items-center gap-2'>
+									<Button
+										type='button'
+										variant='ghost'
+										size='sm'
+										aria-label={`Modifier ${rule.label}`}
+										onClick={() => setEditingRuleId(rule.id)}
+										disabled={isMutating}
+									>
+										<Pencil className='size-4' />
+									</Button>
+									<Button
+										type='button'
+										variant='ghost'
+										size='sm'
+										aria-label={`Supprimer ${rule.label}`}
+										onClick={() => deleteMutation.mutate(rule.id)}
+										disabled={isMutating}
+									>
+										<Trash2 className='size-4 text-error-100' />
+									</Button>
+								</div>
+							</div>
+						)
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Lots déjà en stock</CardTitle>
+				</CardHeader>
+				<CardContent className='flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between'>
+					<p className='text-sm text-neutral-600'>
+						Les nouvelles règles s'appliquent aux prochains ajouts. Recalculez
+						les dates estimées de vos lots actuels pour en profiter tout de
+						suite ; les dates saisies à la main ne changent pas.
+					</p>
+					<Button
+						type='button'
+						variant='outline'
+						onClick={() => recomputeMutation.mutate()}
+						disabled={isMutating}
+					>
+						<RefreshCw className='size-4 mr-2' />
+						Recalculer les lots existants
+					</Button>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
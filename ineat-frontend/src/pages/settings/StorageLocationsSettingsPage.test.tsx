@@ -0,0 +1,104 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import StorageLocationsSettingsPage from './StorageLocationsSettingsPage';
+import { inventoryService } from '@/services/inventoryService';
+
+vi.mock('sonner', () => ({
+	toast: {
+		error: vi.fn(),
+		success: vi.fn(),
+	},
+}));
+
+vi.mock('@/services/inventoryService', () => ({
+	inventoryService: {
+		getStorageLocations: vi.fn(),
+		createStorageLocation: vi.fn(),
+		updateStorageLocation: vi.fn(),
+		deleteStorageLocation: vi.fn(),
+	},
+}));
+
+const storageLocations = [
+	{ id: 'location-1', name: 'Réfrigérateur', storageGroup: 'fridge', itemCount: 3 },
+	{ id: 'location-2', name: 'Cave', storageGroup: 'cellar', itemCount: 0 },
+] as const;
+
+function renderPage() {
+	const queryClient = new QueryClient({
+		defaultOptions: {
+			queries: { retry: false },
+			mutations: { retry: false },
+		},
+	});
+
+	return render(
+		<QueryClientProvider client={queryClient}>
+			<StorageLocationsSettingsPage />
+		</QueryClientProvider>
+	);
+}
+
+describe('StorageLocationsSettingsPage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(inventoryService.getStorageLocations).mockResolvedValue([
+			...storageLocations,
+		]);
+	});
+
+	it('ajoute un lieu avec le type de stockage choisi', async () => {
+		const user = userEvent.setup();
+		vi.mocked(inventoryService.createStorageLocation).mockResolvedValue({
+			id: 'location-3',
+			name: 'Tiroir goûters',
+			storageGroup: 'pantry',
+			itemCount: 0,
+		});
+		renderPage();
+
+		await screen.findByText('Réfrigérateur');
+		await user.type(screen.getByLabelText('Nom du lieu'), 'Tiroir goûters');
+		await user.click(screen.getByRole('button', { name: 'Ajouter' }));
+
+		await waitFor(() => {
+			expect(inventoryService.createStorageLocation).toHaveBeenCalledWith({
+				name: 'Tiroir goûters',
+				storageGroup: 'pantry',
+			});
+		});
+	});
+
+	it('renomme un lieu et empêche de supprimer un lieu encore utilisé', async () => {
+		const user = userEvent.setup();
+		vi.mocked(inventoryService.updateStorageLocation).mockResolvedValue({
+			...storageLocations[1],
+			name: 'Cellier',
+		});
+		renderPage();
+
+		await screen.findByText('3 lot(s) rangé(s) ici');
+		expect(
+			screen.getByRole('button', { name: 'Supprimer Réfrigérateur' })
+		).toBeDisabled();
+		expect(
+			screen.getByRole('button', { name: 'Supprimer Cave' })
+		).toBeEnabled();
+
+		await user.click(screen.getByRole('button', { name: 'Renommer Cave' }));
+		const nameInput = screen.getByLabelText('Nouveau nom pour Cave');
+		await user.clear(nameInput);
+		await user.type(nameInput, 'Cellier');
+		await user.click(screen.getByRole('button', { name: 'Enregistrer le nom' }));
+
+		await waitFor(() => {
+			expect(inventoryService.updateStorageLocation).toHaveBeenCalledWith(
+				'location-2',
+				{ name: 'Cellier' }
+			);
+		});
+	});
+});
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, MapPin, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import {
+	STORAGE_GROUP_LABELS,
+	type StorageGroup,
+} from '@/constants/expiryRules';
+import {
+	STORAGE_LOCATIONS_QUERY_KEY,
+	useStorageLocations,
+} from '@/hooks/useStorageLocations';
+import { inventoryService } from '@/services/inventoryService';
+import type {
+	StorageLocation,
+	StorageLocationInput,
+} from '@/services/inventoryService';
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+
+const STORAGE_GROUP_OPTIONS = Object.entries(STORAGE_GROUP_LABELS) as [
+	StorageGroup,
+	string,
+][];
+
+function StorageGroupSelect({
+	id,
+	value,
+	onChange,
+	disabled = false,
+}: {
+	id: string;
+	value: StorageGroup;
+	onChange: (value: StorageGroup) => void;
+	disabled?: boolean;
+}) {
+	return (
+		<Select
+			value={value}
+			onValueChange={(next) => onChange(next as StorageGroup)}
+			disabled={disabled}
+		>
+			<SelectTrigger id={id} className='w-full sm:w-48'>
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent className='bg-neutral-100'>
+				{STORAGE_GROUP_OPTIONS.map(([group, label]) => (
+					<SelectItem key={group} value={group}>
+						{label}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
+
+function StorageLocationRow({
+	location,
+	disabled,
+	onUpdate,
+	onDelete,
+}: {
+	location: StorageLocation;
+	disabled: boolean;
+	onUpdate: (changes: Partial<StorageLocationInput>) => void;
+	onDelete: () => void;
+}) {
+	const [draftName, setDraftName] = useState<string | null>(null);
+	const isEditing = draftName !== null;
+
+	const submitRename = () => {
+		const name = draftName?.trim();
+		if (name && name !== location.name) {
+			onUpdate({ name });
+		}
+		setDraftName(null);
+	};
+
+	return (
+		<div className='flex flex-col gap-3 border-b border-neutral-100 py-4 last:border-0 sm:flex-row sm:items-center sm:justify-between'>
+			<div className='flex min-w-0 flex-1 items-center gap-3'>
+				<MapPin className='size-5 shrink-0 text-success-600' />
+				{isEditing ? (
+					<form
+						className='flex flex-1 items-center gap-2'
+						onSubmit={(e) => {
+							e.preventDefault();
+							submitRename();
+						}}
+					>
+						<Input
+							value={draftName}
+							onChange={(e) => setDraftName(e.target.value)}
+							maxLength={50}
+							aria-label={`Nouveau nom pour ${location.name}`}
+							autoFocus
+						/>
+						<Button
+							type='submit'
+							variant='ghost'
+							size='sm'
+							aria-label='Enregistrer le nom'
+						>
+							<Check className='size-4' />
+						</Button>
+						<Button
+							type='button'
+							variant='ghost'
+							size='sm'
+							aria-label='Annuler le renommage'
+							onClick={() => setDraftName(null)}
+						>
+							<X className='size-4' />
+						</Button>
+					</form>
+				) : (
+					<div className='min-w-0'>
+						<p className='font-medium text-neutral-900'>{location.name}</p>
+						<p className='text-sm text-neutral-600'>
+							{location.itemCount > 0
+								? `${location.itemCount} lot(s) rangé(s) ici`
+								: 'Aucun lot rangé ici'}
+						</p>
+					</div>
+				)}
+			</div>
+
+			<div className='flex items-center gap-2'>
+				<StorageGroupSelect
+					id={`storage-group-${location.id}`}
+					value={location.storageGroup}
+					onChange={(storageGroup) => onUpdate({ storageGroup })}
+					disabled={disabled}
+				/>
+				{!isEditing && (
+					<Button
+						type='button'
+						variant='ghost'
+						size='sm'
+						aria-label={`Renommer ${location.name}`}
+						onClick={() => setDraftName(location.name)}
+						disabled={disabled}
+					>
+						<Pencil className='size-4' />
+					</Button>
+				)}
+				<Button
+					type='button'
+					variant='ghost'
+					size='sm'
+					aria-label={`Supprimer ${location.name}`}
+					title={
+						location.itemCount > 0
+							? 'Déplacez les lots rangés ici avant de supprimer ce lieu'
+							: undefined
+					}
+					onClick={onDelete}
+					disabled={disabled || location.itemCount > 0}
+				>
+					<Trash2 className='size-4 text-error-100' />
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+export default function StorageLocationsSettingsPage() {
+	const queryClient = useQueryClient();
+	const { data: storageLocations = [], isLoading, isError } =
+		useStorageLocations();
+	const [newName, setNewName] = useState('');
+	const [newGroup, setNewGroup] = useState<StorageGroup>('pantry');
+
+	const refresh = () =>
+		queryClient.invalidateQueries({ queryKey: STORAGE_LOCATIONS_QUERY_KEY });
+
+	const createMutation = useMutation({
+		mutationFn: (data: StorageLocationInput) =>
+			inventoryService.createStorageLocation(data),
+		onSuccess: (location) => {
+			setNewName('');
+			refresh();
+			toast.success(`« ${location.name} » ajouté à vos lieux de stockage`);
+		},
+		onError: (error) =>
+			toast.error(
+				getUserFacingErrorMessage(error, "Impossible d'ajouter ce lieu")
+			),
+	});
+	const updateMutation = useMutation({
+		mutationFn: ({
+			id,
+			changes,
+		}: {
+			id: string;
+			changes: Partial<StorageLocationInput>;
+		}) => inventoryService.updateStorageLocation(id, changes),
+		onSuccess: (_location, { changes }) => {
+			refresh();
+			toast.success(
+				changes.storageGroup
+					? 'Type de stockage mis à jour, dates estimées recalculées'
+					: 'Lieu de stockage renommé'
+			);
+		},
+		onError: (error) =>
+			toast.error(
+				getUserFacingErrorMessage(error, 'Impossible de modifier ce lieu')
+			),
+	});
+	const deleteMutation = useMutation({
+		mutationFn: (id: string) => inventoryService.deleteStorageLocation(id),
+		onSuccess: () => {
+			refresh();
+			toast.success('Lieu de stockage supprimé');
+		},
+		onError: (error) =>
+			toast.error(
+				getUserFacingErrorMessage(error, 'Impossible de supprimer ce lieu')
+			),
+	});
+
+	const isMutating =
+		createMutation.isPending ||
+		updateMutation.isPending ||
+		deleteMutation.isPending;
+
+	if (isLoading) {
+		return (
+			<div className='p-8 text-center'>Chargement des lieux de stockage…</div>
+		);
+	}
+
+	if (isError) {
+		return (
+			<div className='p-8 text-center text-error-700'>
+				Impossible de charger vos lieux de stockage.
+			</div>
+		);
+	}
+
+	return (
+		<div className='mx-auto max-w-3xl space-y-6 p-4 pb-16'>
+			<header>
+				<h1 className='text-2xl font-semibold text-neutral-900'>
+					Lieux de stockage
+				</h1>
+				<p className='mt-1 text-sm text-neutral-600'>
+					Nommez vos frigos, congélateurs et placards. Leur type sert à
+					estimer les dates de péremption.
+				</p>
+			</header>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Ajouter un lieu</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<form
+						className='flex flex-col gap-3 sm:flex-row'
+						onSubmit={(e) => {
+							e.preventDefault();
+							if (!newName.trim()) return;
+							createMutation.mutate({
+								name: newName.trim(),
+								storageGroup: newGroup,
+							});
+						}}
+					>
+						<Input
+							value={newName}
+							onChange={(e) => setNewName(e.target.value)}
+							placeholder='Ex. Congélateur du garage'
+							maxLength={50}
+							aria-label='Nom du lieu'
+						/>
+						<StorageGroupSelect
+							id='new-storage-group'
+							value={newGroup}
+							onChange={setNewGroup}
+							disabled={isMutating}
+						/>
+						<Button type='submit' disabled={isMutating || !newName.trim()}>
+							<Plus className='size-4 mr-2' />
+							Ajouter
+						</Button>
+					</form>
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Mes lieux</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{storageLocations.map((location) => (
+						<StorageLocationRow
+							key={location.id}
+							location={location}
+							disabled={isMutating}
+							onUpdate={(changes) =>
+								updateMutation.mutate({ id: location.id, changes })
+							}
+							onDelete={() => deleteMutation.mutate(location.id)}
+						/>
+					))}
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
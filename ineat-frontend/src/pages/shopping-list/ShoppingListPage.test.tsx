@@ -0,0 +1,157 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { ReactNode } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ShoppingListPage } from './ShoppingListPage';
+import {
+	ShoppingList,
+	shoppingListService,
+} from '@/services/shoppingListService';
+import { toast } from 'sonner';
+
+vi.mock('@tanstack/react-router', () => ({
+	useNavigate: () => vi.fn(),
+	Link: ({ children, to }: { children: ReactNode; to: string }) => (
+		<a href={to}>{children}</a>
+	),
+}));
+
+vi.mock('sonner', () => ({
+	toast: {
+		error: vi.fn(),
+		success: vi.fn(),
+	},
+}));
+
+vi.mock('@/features/inventory/form/ExistingProductQuickAddForm', () => ({
+	ExistingProductQuickAddForm: ({ product }: { product: { name: string } }) => (
+		<div>Ajout rapide de {product.name}</div>
+	),
+}));
+
+vi.mock('@/services/shoppingListService', async (importOriginal) => ({
+	...(await importOriginal<
+		typeof import('@/services/shoppingListService')
+	>()),
+	shoppingListService: {
+		getShoppingList: vi.fn(),
+		addItem: vi.fn(),
+		updateItem: vi.fn(),
+		removeItem: vi.fn(),
+		clearCheckedItems: vi.fn(),
+	},
+}));
+
+const butter: ShoppingList['items'][number] = {
+	id: 'item-1',
+	name: 'Beurre doux',
+	quantity: null,
+	unit: null,
+	source: 'OUT_OF_STOCK',
+	checked: false,
+	checkedAt: null,
+	createdAt: '2026-10-19T08:00:00.000Z',
+	product: {
+		id: 'product-1',
+		name: 'Beurre doux',
+		unitType: 'G',
+		category: { id: 'category-1', name: 'Crèmerie', slug: 'cremerie' },
+	},
+	recipe: null,
+};
+
+const cream: ShoppingList['items'][number] = {
+	id: 'item-2',
+	name: 'Crème fraîche',
+	quantity: 20,
+	unit: 'cl',
+	source: 'RECIPE',
+	checked: false,
+	checkedAt: null,
+	createdAt: '2026-10-19T08:05:00.000Z',
+	product: null,
+	recipe: { id: 'recipe-1', name: 'Tarte aux poireaux' },
+};
+
+function renderShoppingList() {
+	const queryClient = new QueryClient({
+		defaultOptions: {
+			queries: { retry: false },
+			mutations: { retry: false },
+		},
+	});
+
+	return render(
+		<QueryClientProvider client={queryClient}>
+			<ShoppingListPage />
+		</QueryClientProvider>
+	);
+}
+
+describe('ShoppingListPage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(
+			shoppingListService.getShoppingList as ReturnType<typeof vi.fn>
+		).mockResolvedValue({
+			id: 'list-1',
+			items: [butter, cream],
+			remainingCount: 2,
+		});
+	});
+
+	it('affiche les articles et leur provenance', async () => {
+		renderShoppingList();
+
+		expect(await screen.findByText('Beurre doux')).toBeInTheDocument();
+		expect(screen.getByText('Crème fraîche · 20 cl')).toBeInTheDocument();
+		expect(screen.getByText('Épuisé')).toBeInTheDocument();
+		expect(screen.getByText('Tarte aux poireaux')).toBeInTheDocument();
+		expect(screen.getByText('2 articles à acheter')).toBeInTheDocument();
+	});
+
+	it("propose l'ajout rapide à l'inventaire quand un produit est coché", async () => {
+		const user = userEvent.setup();
+		(shoppingListService.updateItem as ReturnType<typeof vi.fn>).mockResolvedValue(
+			{ ...butter, checked: true }
+		);
+
+		renderShoppingList();
+
+		await user.click(
+			await screen.findByRole('button', { name: 'Cocher Beurre doux' })
+		);
+
+		expect(shoppingListService.updateItem).toHaveBeenCalledWith('item-1', {
+			checked: true,
+		});
+		expect(
+			await screen.findByText('Ajout rapide de Beurre doux')
+		).toBeInTheDocument();
+	});
+
+	it("renvoie vers l'ajout manuel pour un article sans produit", async () => {
+		const user = userEvent.setup();
+		(shoppingListService.updateItem as ReturnType<typeof vi.fn>).mockResolvedValue(
+			{ ...cream, checked: true }
+		);
+
+		renderShoppingList();
+
+		await user.click(
+			await screen.findByRole('button', { name: 'Cocher Crème fraîche' })
+		);
+
+		await waitFor(() => {
+			expect(toast.success).toHaveBeenCalledWith(
+				'Crème fraîche acheté',
+				expect.objectContaining({
+					action: expect.objectContaining({ label: 'Ajouter au stock' }),
+				})
+			);
+		});
+		expect(screen.queryByText(/Ajout rapide de/)).not.toBeInTheDocument();
+	});
+});
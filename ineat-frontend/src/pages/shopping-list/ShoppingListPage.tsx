@@ -0,0 +1,343 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate } from '@tanstack/react-router';
+import {
+	CheckCircle2,
+	ChefHat,
+	Circle,
+	ListChecks,
+	PackageX,
+	Plus,
+	ShoppingCart,
+	Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ExistingProductQuickAddForm } from '@/features/inventory/form/ExistingProductQuickAddForm';
+import {
+	inventoryService,
+	QuickAddFormData,
+} from '@/services/inventoryService';
+import {
+	ShoppingListItem,
+	shoppingListService,
+	toProductSearchResult,
+	UpdateShoppingListItemInput,
+} from '@/services/shoppingListService';
+import { getUserFacingErrorMessage } from '@/utils/errorMessages';
+
+const SHOPPING_LIST_QUERY_KEY = ['shopping-list'];
+
+export function ShoppingListPage() {
+	const queryClient = useQueryClient();
+	const navigate = useNavigate();
+	const [name, setName] = useState('');
+	const [quantity, setQuantity] = useState('');
+	const [unit, setUnit] = useState('');
+	const [quickAddItem, setQuickAddItem] = useState<ShoppingListItem | null>(
+		null
+	);
+
+	const { data: shoppingList, isLoading, isError } = useQuery({
+		queryKey: SHOPPING_LIST_QUERY_KEY,
+		queryFn: shoppingListService.getShoppingList,
+	});
+
+	const refreshList = () =>
+		queryClient.invalidateQueries({ queryKey: SHOPPING_LIST_QUERY_KEY });
+	const showError = (error: Error, fallback: string) =>
+		toast.error('Action impossible', {
+			description: getUserFacingErrorMessage(error, fallback),
+		});
+
+	const addMutation = useMutation({
+		mutationFn: shoppingListService.addItem,
+		onSuccess: () => {
+			setName('');
+			setQuantity('');
+			setUnit('');
+			refreshList();
+		},
+		onError: (error) =>
+			showError(error, 'Impossible d’ajouter cet article.'),
+	});
+
+	const updateMutation = useMutation({
+		mutationFn: ({
+			itemId,
+			input,
+		}: {
+			itemId: string;
+			input: UpdateShoppingListItemInput;
+		}) => shoppingListService.updateItem(itemId, input),
+		onSuccess: (item) => {
+			refreshList();
+
+			if (!item.checked) return;
+
+			// Un article coché est proposé à l'ajout dans l'inventaire
+			if (item.product) {
+				setQuickAddItem(item);
+			} else {
+				toast.success(`${item.name} acheté`, {
+					action: {
+						label: 'Ajouter au stock',
+						onClick: () => navigate({ to: '/app/inventory/add' }),
+					},
+				});
+			}
+		},
+		onError: (error) =>
+			showError(error, 'Impossible de mettre à jour cet article.'),
+	});
+
+	const removeMutation = useMutation({
+		mutationFn: shoppingListService.removeItem,
+		onSuccess: refreshList,
+		onError: (error) =>
+			showError(error, 'Impossible de retirer cet article.'),
+	});
+
+	const clearCheckedMutation = useMutation({
+		mutationFn: shoppingListService.clearCheckedItems,
+		onSuccess: (response) => {
+			refreshList();
+			toast.success(response.message);
+		},
+		onError: (error) =>
+			showError(error, 'Impossible de vider les articles cochés.'),
+	});
+
+	const quickAddMutation = useMutation({
+		mutationFn: inventoryService.addExistingProductToInventory,
+		onSuccess: (result) => {
+			queryClient.invalidateQueries({ queryKey: ['inventory'] });
+			setQuickAddItem(null);
+			toast.success(result.message);
+		},
+		onError: (error) =>
+			showError(error, 'Impossible d’ajouter le produit à l’inventaire.'),
+	});
+
+	const handleSubmit = (event: FormEvent) => {
+		event.preventDefault();
+		const trimmedName = name.trim();
+		if (!trimmedName) return;
+
+		const parsedQuantity = parseFloat(quantity);
+		addMutation.mutate({
+			name: trimmedName,
+			...(parsedQuantity > 0 && { quantity: parsedQuantity }),
+			...(unit.trim() && { unit: unit.trim() }),
+		});
+	};
+
+	const handleQuickAdd = async (data: QuickAddFormData) => {
+		await quickAddMutation.mutateAsync(data);
+	};
+
+	const items = shoppingList?.items ?? [];
+	const checkedCount = items.length - (shoppingList?.remainingCount ?? 0);
+
+	return (
+		<div className='mx-auto max-w-3xl space-y-6 p-4'>
+			<header className='flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between'>
+				<div>
+					<h1 className='flex items-center gap-2 text-2xl font-semibold text-neutral-900'>
+						<ShoppingCart className='size-6 text-success-50' />
+						Liste de courses
+					</h1>
+					<p className='mt-1 text-sm text-neutral-600'>
+						{shoppingList?.remainingCount
+							? `${shoppingList.remainingCount} article${shoppingList.remainingCount > 1 ? 's' : ''} à acheter`
+							: 'Tout est acheté'}
+					</p>
+				</div>
+				{checkedCount > 0 && (
+					<Button
+						variant='outline'
+						disabled={clearCheckedMutation.isPending}
+						onClick={() => clearCheckedMutation.mutate()}>
+						<ListChecks className='size-4' />
+						Retirer les articles cochés
+					</Button>
+				)}
+			</header>
+
+			<form
+				onSubmit={handleSubmit}
+				className='flex flex-col gap-2 rounded-lg border border-neutral-200 bg-neutral-50 p-4 shadow-sm sm:flex-row'>
+				<Input
+					aria-label='Article'
+					placeholder='Ajouter un article…'
+					value={name}
+					onChange={(event) => setName(event.target.value)}
+					maxLength={120}
+					className='flex-1'
+				/>
+				<div className='flex gap-2'>
+					<Input
+						aria-label='Quantité'
+						type='number'
+						min='0'
+						step='any'
+						placeholder='Qté'
+						value={quantity}
+						onChange={(event) => setQuantity(event.target.value)}
+						className='w-20'
+					/>
+					<Input
+						aria-label='Unité'
+						placeholder='Unité'
+						value={unit}
+						onChange={(event) => setUnit(event.target.value)}
+						maxLength={20}
+						className='w-24'
+					/>
+					<Button
+						type='submit'
+						disabled={!name.trim() || addMutation.isPending}>
+						<Plus className='size-4' />
+						Ajouter
+					</Button>
+				</div>
+			</form>
+
+			{isLoading ? (
+				<div className='flex min-h-40 items-center justify-center'>
+					<div className='size-8 animate-spin rounded-full border-2 border-success-50 border-t-transparent' />
+				</div>
+			) : isError ? (
+				<div className='rounded-lg border border-neutral-200 bg-neutral-50 p-6 text-sm text-neutral-600'>
+					Impossible de charger la liste de courses.
+				</div>
+			) : items.length === 0 ? (
+				<div className='rounded-lg border border-dashed border-neutral-300 p-8 text-center'>
+					<p className='font-medium text-neutral-800'>Votre liste est vide</p>
+					<p className='mt-1 text-sm text-neutral-600'>
+						Ajoutez des articles, ou les ingrédients manquants depuis une{' '}
+						<Link to='/app/recipes' className='text-success-50 underline'>
+							recette
+						</Link>
+						. Les produits épuisés s’ajoutent automatiquement.
+					</p>
+				</div>
+			) : (
+				<ul className='space-y-2'>
+					{items.map((item) => (
+						<ShoppingListRow
+							key={item.id}
+							item={item}
+							disabled={updateMutation.isPending || removeMutation.isPending}
+							onToggle={() =>
+								updateMutation.mutate({
+									itemId: item.id,
+									input: { checked: !item.checked },
+								})
+							}
+							onRemove={() => removeMutation.mutate(item.id)}
+						/>
+					))}
+				</ul>
+			)}
+
+			<Dialog
+				open={Boolean(quickAddItem)}
+				onOpenChange={(open) => !open && setQuickAddItem(null)}>
+				<DialogContent className='max-h-[90vh] max-w-2xl overflow-y-auto'>
+					<DialogHeader>
+						<DialogTitle>Ajouter à l’inventaire</DialogTitle>
+						<DialogDescription>
+							{quickAddItem?.name} est coché : ajoutez-le à votre stock.
+						</DialogDescription>
+					</DialogHeader>
+					{quickAddItem?.product && (
+						<ExistingProductQuickAddForm
+							product={toProductSearchResult(quickAddItem.product)}
+							onSubmit={handleQuickAdd}
+							onCancel={() => setQuickAddItem(null)}
+							isSubmitting={quickAddMutation.isPending}
+						/>
+					)}
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
+
+function ShoppingListRow({
+	item,
+	disabled,
+	onToggle,
+	onRemove,
+}: {
+	item: ShoppingListItem;
+	disabled: boolean;
+	onToggle: () => void;
+	onRemove: () => void;
+}) {
+	return (
+		<li className='flex items-center gap-3 rounded-lg border border-neutral-200 bg-neutral-50 px-3 py-2 shadow-sm'>
+			<button
+				type='button'
+				aria-pressed={item.checked}
+				aria-label={
+					item.checked ? `Décocher ${item.name}` : `Cocher ${item.name}`
+				}
+				disabled={disabled}
+				onClick={onToggle}
+				className='shrink-0 rounded-full text-success-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-success-50'>
+				{item.checked ? (
+					<CheckCircle2 className='size-6' />
+				) : (
+					<Circle className='size-6 text-neutral-400' />
+				)}
+			</button>
+			<div className='min-w-0 flex-1'>
+				<p
+					className={
+						item.checked
+							? 'truncate text-sm text-neutral-500 line-through'
+							: 'truncate text-sm font-medium text-neutral-900'
+					}>
+					{item.name}
+					{item.quantity ? ` · ${item.quantity}` : ''}
+					{item.unit ? ` ${item.unit}` : ''}
+				</p>
+				<div className='mt-1 flex flex-wrap gap-1'>
+					{item.source === 'RECIPE' && item.recipe && (
+						<Badge variant='secondary' className='gap-1'>
+							<ChefHat className='size-3' />
+							{item.recipe.name}
+						</Badge>
+					)}
+					{item.source === 'OUT_OF_STOCK' && (
+						<Badge variant='outline' className='gap-1'>
+							<PackageX className='size-3' />
+							Épuisé
+						</Badge>
+					)}
+				</div>
+			</div>
+			<button
+				type='button'
+				aria-label={`Retirer ${item.name}`}
+				disabled={disabled}
+				onClick={onRemove}
+				className='shrink-0 rounded-full p-1 text-neutral-500 transition-colors hover:bg-red-50 hover:text-red-600'>
+				<Trash2 className='size-4' />
+			</button>
+		</li>
+	);
+}
@@ -22,11 +22,13 @@ import { Route as AuthLoginRouteImport } from './routes/_auth/login'
 import { Route as AuthForgotPasswordRouteImport } from './routes/_auth/forgot-password'
 import { Route as AppAdminRouteRouteImport } from './routes/app/admin/route'
 import { Route as AppSubscriptionIndexRouteImport } from './routes/app/subscription/index'
+import { Route as AppShoppingListIndexRouteImport } from './routes/app/shopping-list/index'
 import { Route as AppSettingsIndexRouteImport } from './routes/app/settings/index'
 import { Route as AppRecipesIndexRouteImport } from './routes/app/recipes/index'
 import { Route as AppProfileIndexRouteImport } from './routes/app/profile/index'
 import { Route as AppNotificationsIndexRouteImport } from './routes/app/notifications/index'
 import { Route as AppInventoryIndexRouteImport } from './routes/app/inventory/index'
+import { Route as AppHouseholdIndexRouteImport } from './routes/app/household/index'
 import { Route as AppHelpIndexRouteImport } from './routes/app/help/index'
 import { Route as AppBudgetIndexRouteImport } from './routes/app/budget/index'
 import { Route as AppAdminIndexRouteImport } from './routes/app/admin/index'
@@ -34,7 +36,11 @@ import { Route as AppSubscriptionSuccessRouteImport } from './routes/app/subscri
 import { Route as AppSettingsSubscriptionRouteImport } from './routes/app/settings/subscription'
 import { Route as AppRecipesSuggestionsRouteImport } from './routes/app/recipes/suggestions'
 import { Route as AppRecipesRecipeIdRouteImport } from './routes/app/recipes/$recipeId'
+import { Route as AppInventoryStocktakeRouteImport } from './routes/app/inventory/stocktake'
+import { Route as AppInventoryInvoicesRouteImport } from './routes/app/inventory/invoices'
 import { Route as AppInventoryProductIdRouteImport } from './routes/app/inventory/$productId'
+import { Route as AppSettingsStorageLocationsIndexRouteImport } from './routes/app/settings/storage-locations/index'
+import { Route as AppSettingsShelfLifeRulesIndexRouteImport } from './routes/app/settings/shelf-life-rules/index'
 import { Route as AppSettingsSecurityIndexRouteImport } from './routes/app/settings/security/index'
 import { Route as AppSettingsPersonalInfoIndexRouteImport } from './routes/app/settings/personal-info/index'
 import { Route as AppSettingsNotificationsIndexRouteImport } from './routes/app/settings/notifications/index'
@@ -45,6 +51,7 @@ import { Route as AppAdminSubscriptionsIndexRouteImport } from './routes/app/adm
 import { Route as AppAdminOperationsIndexRouteImport } from './routes/app/admin/operations/index'
 import { Route as AppAdminAuditIndexRouteImport } from './routes/app/admin/audit/index'
 import { Route as AppInventoryAddSearchRouteImport } from './routes/app/inventory/add/search'
+import { Route as AppInventoryAddScanSessionRouteImport } from './routes/app/inventory/add/scan-session'
 import { Route as AppInventoryAddScanRouteImport } from './routes/app/inventory/add/scan'
 import { Route as AppInventoryAddManualRouteImport } from './routes/app/inventory/add/manual'
 import { Route as AppInventoryAddDriveRouteImport } from './routes/app/inventory/add/drive'
@@ -114,6 +121,11 @@ const AppSubscriptionIndexRoute = AppSubscriptionIndexRouteImport.update({
   path: '/subscription/',
   getParentRoute: () => AppRouteRoute,
 } as any)
+const AppShoppingListIndexRoute = AppShoppingListIndexRouteImport.update({
+  id: '/shopping-list/',
+  path: '/shopping-list/',
+  getParentRoute: () => AppRouteRoute,
+} as any)
 const AppSettingsIndexRoute = AppSettingsIndexRouteImport.update({
   id: '/settings/',
   path: '/settings/',
@@ -139,6 +151,11 @@ const AppInventoryIndexRoute = AppInventoryIndexRouteImport.update({
   path: '/inventory/',
   getParentRoute: () => AppRouteRoute,
 } as any)
+const AppHouseholdIndexRoute = AppHouseholdIndexRouteImport.update({
+  id: '/household/',
+  path: '/household/',
+  getParentRoute: () => AppRouteRoute,
+} as any)
 const AppHelpIndexRoute = AppHelpIndexRouteImport.update({
   id: '/help/',
   path: '/help/',
@@ -174,11 +191,33 @@ const AppRecipesRecipeIdRoute = AppRecipesRecipeIdRouteImport.update({
   path: '/recipes/$recipeId',
   getParentRoute: () => AppRouteRoute,
 } as any)
+const AppInventoryStocktakeRoute = AppInventoryStocktakeRouteImport.update({
+  id: '/inventory/stocktake',
+  path: '/inventory/stocktake',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppInventoryInvoicesRoute = AppInventoryInvoicesRouteImport.update({
+  id: '/inventory/invoices',
+  path: '/inventory/invoices',
+  getParentRoute: () => AppRouteRoute,
+} as any)
 const AppInventoryProductIdRoute = AppInventoryProductIdRouteImport.update({
   id: '/inventory/$productId',
   path: '/inventory/$productId',
   getParentRoute: () => AppRouteRoute,
 } as any)
+const AppSettingsStorageLocationsIndexRoute =
+  AppSettingsStorageLocationsIndexRouteImport.update({
+    id: '/settings/storage-locations/',
+    path: '/settings/storage-locations/',
+    getParentRoute: () => AppRouteRoute,
+  } as any)
+const AppSettingsShelfLifeRulesIndexRoute =
+  AppSettingsShelfLifeRulesIndexRouteImport.update({
+    id: '/settings/shelf-life-rules/',
+    path: '/settings/shelf-life-rules/',
+    getParentRoute: () => AppRouteRoute,
+  } as any)
 const AppSettingsSecurityIndexRoute =
   AppSettingsSecurityIndexRouteImport.update({
     id: '/settings/security/',
@@ -234,6 +273,12 @@ const AppInventoryAddSearchRoute = AppInventoryAddSearchRouteImport.update({
   path: '/inventory/add/search',
   getParentRoute: () => AppRouteRoute,
 } as any)
+const AppInventoryAddScanSessionRoute =
+  AppInventoryAddScanSessionRouteImport.update({
+    id: '/inventory/add/scan-session',
+    path: '/inventory/add/scan-session',
+    getParentRoute: () => AppRouteRoute,
+  } as any)
 const AppInventoryAddScanRoute = AppInventoryAddScanRouteImport.update({
   id: '/inventory/add/scan',
   path: '/inventory/add/scan',
@@ -268,6 +313,8 @@ export interface FileRoutesByFullPath {
   '/app/onboarding': typeof AppOnboardingRoute
   '/app/': typeof AppIndexRoute
   '/app/inventory/$productId': typeof AppInventoryProductIdRoute
+  '/app/inventory/invoices': typeof AppInventoryInvoicesRoute
+  '/app/inventory/stocktake': typeof AppInventoryStocktakeRoute
   '/app/recipes/$recipeId': typeof AppRecipesRecipeIdRoute
   '/app/recipes/suggestions': typeof AppRecipesSuggestionsRoute
   '/app/settings/subscription': typeof AppSettingsSubscriptionRoute
@@ -275,16 +322,19 @@ export interface FileRoutesByFullPath {
   '/app/admin/': typeof AppAdminIndexRoute
   '/app/budget': typeof AppBudgetIndexRoute
   '/app/help': typeof AppHelpIndexRoute
+  '/app/household': typeof AppHouseholdIndexRoute
   '/app/inventory': typeof AppInventoryIndexRoute
   '/app/notifications': typeof AppNotificationsIndexRoute
   '/app/profile': typeof AppProfileIndexRoute
   '/app/recipes': typeof AppRecipesIndexRoute
   '/app/settings': typeof AppSettingsIndexRoute
+  '/app/shopping-list': typeof AppShoppingListIndexRoute
   '/app/subscription': typeof AppSubscriptionIndexRoute
   '/app/admin/users/$userId': typeof AppAdminUsersUserIdRoute
   '/app/inventory/add/drive': typeof AppInventoryAddDriveRoute
   '/app/inventory/add/manual': typeof AppInventoryAddManualRoute
   '/app/inventory/add/scan': typeof AppInventoryAddScanRoute
+  '/app/inventory/add/scan-session': typeof AppInventoryAddScanSessionRoute
   '/app/inventory/add/search': typeof AppInventoryAddSearchRoute
   '/app/admin/audit': typeof AppAdminAuditIndexRoute
   '/app/admin/operations': typeof AppAdminOperationsIndexRoute
@@ -295,6 +345,8 @@ export interface FileRoutesByFullPath {
   '/app/settings/notifications': typeof AppSettingsNotificationsIndexRoute
   '/app/settings/personal-info': typeof AppSettingsPersonalInfoIndexRoute
   '/app/settings/security': typeof AppSettingsSecurityIndexRoute
+  '/app/settings/shelf-life-rules': typeof AppSettingsShelfLifeRulesIndexRoute
+  '/app/settings/storage-locations': typeof AppSettingsStorageLocationsIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
@@ -307,6 +359,8 @@ export interface FileRoutesByTo {
   '/app/onboarding': typeof AppOnboardingRoute
   '/app': typeof AppIndexRoute
   '/app/inventory/$productId': typeof AppInventoryProductIdRoute
+  '/app/inventory/invoices': typeof AppInventoryInvoicesRoute
+  '/app/inventory/stocktake': typeof AppInventoryStocktakeRoute
   '/app/recipes/$recipeId': typeof AppRecipesRecipeIdRoute
   '/app/recipes/suggestions': typeof AppRecipesSuggestionsRoute
   '/app/settings/subscription': typeof AppSettingsSubscriptionRoute
@@ -314,16 +368,19 @@ export interface FileRoutesByTo {
   '/app/admin': typeof AppAdminIndexRoute
   '/app/budget': typeof AppBudgetIndexRoute
   '/app/help': typeof AppHelpIndexRoute
+  '/app/household': typeof AppHouseholdIndexRoute
   '/app/inventory': typeof AppInventoryIndexRoute
   '/app/notifications': typeof AppNotificationsIndexRoute
   '/app/profile': typeof AppProfileIndexRoute
   '/app/recipes': typeof AppRecipesIndexRoute
   '/app/settings': typeof AppSettingsIndexRoute
+  '/app/shopping-list': typeof AppShoppingListIndexRoute
   '/app/subscription': typeof AppSubscriptionIndexRoute
   '/app/admin/users/$userId': typeof AppAdminUsersUserIdRoute
   '/app/inventory/add/drive': typeof AppInventoryAddDriveRoute
   '/app/inventory/add/manual': typeof AppInventoryAddManualRoute
   '/app/inventory/add/scan': typeof AppInventoryAddScanRoute
+  '/app/inventory/add/scan-session': typeof AppInventoryAddScanSessionRoute
   '/app/inventory/add/search': typeof AppInventoryAddSearchRoute
   '/app/admin/audit': typeof AppAdminAuditIndexRoute
   '/app/admin/operations': typeof AppAdminOperationsIndexRoute
@@ -334,6 +391,8 @@ export interface FileRoutesByTo {
   '/app/settings/notifications': typeof AppSettingsNotificationsIndexRoute
   '/app/settings/personal-info': typeof AppSettingsPersonalInfoIndexRoute
   '/app/settings/security': typeof AppSettingsSecurityIndexRoute
+  '/app/settings/shelf-life-rules': typeof AppSettingsShelfLifeRulesIndexRoute
+  '/app/settings/storage-locations': typeof AppSettingsStorageLocationsIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -350,6 +409,8 @@ export interface FileRoutesById {
   '/app/onboarding': typeof AppOnboardingRoute
   '/app/': typeof AppIndexRoute
   '/app/inventory/$productId': typeof AppInventoryProductIdRoute
+  '/app/inventory/invoices': typeof AppInventoryInvoicesRoute
+  '/app/inventory/stocktake': typeof AppInventoryStocktakeRoute
   '/app/recipes/$recipeId': typeof AppRecipesRecipeIdRoute
   '/app/recipes/suggestions': typeof AppRecipesSuggestionsRoute
   '/app/settings/subscription': typeof AppSettingsSubscriptionRoute
@@ -357,16 +418,19 @@ export interface FileRoutesById {
   '/app/admin/': typeof AppAdminIndexRoute
   '/app/budget/': typeof AppBudgetIndexRoute
   '/app/help/': typeof AppHelpIndexRoute
+  '/app/household/': typeof AppHouseholdIndexRoute
   '/app/inventory/': typeof AppInventoryIndexRoute
   '/app/notifications/': typeof AppNotificationsIndexRoute
   '/app/profile/': typeof AppProfileIndexRoute
   '/app/recipes/': typeof AppRecipesIndexRoute
   '/app/settings/': typeof AppSettingsIndexRoute
+  '/app/shopping-list/': typeof AppShoppingListIndexRoute
   '/app/subscription/': typeof AppSubscriptionIndexRoute
   '/app/admin/users/$userId': typeof AppAdminUsersUserIdRoute
   '/app/inventory/add/drive': typeof AppInventoryAddDriveRoute
   '/app/inventory/add/manual': typeof AppInventoryAddManualRoute
   '/app/inventory/add/scan': typeof AppInventoryAddScanRoute
+  '/app/inventory/add/scan-session': typeof AppInventoryAddScanSessionRoute
   '/app/inventory/add/search': typeof AppInventoryAddSearchRoute
   '/app/admin/audit/': typeof AppAdminAuditIndexRoute
   '/app/admin/operations/': typeof AppAdminOperationsIndexRoute
@@ -377,6 +441,8 @@ export interface FileRoutesById {
   '/app/settings/notifications/': typeof AppSettingsNotificationsIndexRoute
   '/app/settings/personal-info/': typeof AppSettingsPersonalInfoIndexRoute
   '/app/settings/security/': typeof AppSettingsSecurityIndexRoute
+  '/app/settings/shelf-life-rules/': typeof AppSettingsShelfLifeRulesIndexRoute
+  '/app/settings/storage-locations/': typeof AppSettingsStorageLocationsIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -393,6 +459,8 @@ export interface FileRouteTypes {
     | '/app/onboarding'
     | '/app/'
     | '/app/inventory/$productId'
+    | '/app/inventory/invoices'
+    | '/app/inventory/stocktake'
     | '/app/recipes/$recipeId'
     | '/app/recipes/suggestions'
     | '/app/settings/subscription'
@@ -400,16 +468,19 @@ export interface FileRouteTypes {
     | '/app/admin/'
     | '/app/budget'
     | '/app/help'
+    | '/app/household'
     | '/app/inventory'
     | '/app/notifications'
     | '/app/profile'
     | '/app/recipes'
     | '/app/settings'
+    | '/app/shopping-list'
     | '/app/subscription'
     | '/app/admin/users/$userId'
     | '/app/inventory/add/drive'
     | '/app/inventory/add/manual'
     | '/app/inventory/add/scan'
+    | '/app/inventory/add/scan-session'
     | '/app/inventory/add/search'
     | '/app/admin/audit'
     | '/app/admin/operations'
@@ -420,6 +491,8 @@ export interface FileRouteTypes {
     | '/app/settings/notifications'
     | '/app/settings/personal-info'
     | '/app/settings/security'
+    | '/app/settings/shelf-life-rules'
+    | '/app/settings/storage-locations'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
@@ -432,6 +505,8 @@ export interface FileRouteTypes {
     | '/app/onboarding'
     | '/app'
     | '/app/inventory/$productId'
+    | '/app/inventory/invoices'
+    | '/app/inventory/stocktake'
     | '/app/recipes/$recipeId'
     | '/app/recipes/suggestions'
     | '/app/settings/subscription'
@@ -439,16 +514,19 @@ export interface FileRouteTypes {
     | '/app/admin'
     | '/app/budget'
     | '/app/help'
+    | '/app/household'
     | '/app/inventory'
     | '/app/notifications'
     | '/app/profile'
     | '/app/recipes'
     | '/app/settings'
+    | '/app/shopping-list'
     | '/app/subscription'
     | '/app/admin/users/$userId'
     | '/app/inventory/add/drive'
     | '/app/inventory/add/manual'
     | '/app/inventory/add/scan'
+    | '/app/inventory/add/scan-session'
     | '/app/inventory/add/search'
     | '/app/admin/audit'
     | '/app/admin/operations'
@@ -459,6 +537,8 @@ export interface FileRouteTypes {
     | '/app/settings/notifications'
     | '/app/settings/personal-info'
     | '/app/settings/security'
+    | '/app/settings/shelf-life-rules'
+    | '/app/settings/storage-locations'
   id:
     | '__root__'
     | '/'
@@ -474,6 +554,8 @@ export interface FileRouteTypes {
     | '/app/onboarding'
     | '/app/'
     | '/app/inventory/$productId'
+    | '/app/inventory/invoices'
+    | '/app/inventory/stocktake'
     | '/app/recipes/$recipeId'
     | '/app/recipes/suggestions'
     | '/app/settings/subscription'
@@ -481,16 +563,19 @@ export interface FileRouteTypes {
     | '/app/admin/'
     | '/app/budget/'
     | '/app/help/'
+    | '/app/household/'
     | '/app/inventory/'
     | '/app/notifications/'
     | '/app/profile/'
     | '/app/recipes/'
     | '/app/settings/'
+    | '/app/shopping-list/'
     | '/app/subscription/'
     | '/app/admin/users/$userId'
     | '/app/inventory/add/drive'
     | '/app/inventory/add/manual'
     | '/app/inventory/add/scan'
+    | '/app/inventory/add/scan-session'
     | '/app/inventory/add/search'
     | '/app/admin/audit/'
     | '/app/admin/operations/'
@@ -501,6 +586,8 @@ export interface FileRouteTypes {
     | '/app/settings/notifications/'
     | '/app/settings/personal-info/'
     | '/app/settings/security/'
+    | '/app/settings/shelf-life-rules/'
+    | '/app/settings/storage-locations/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -602,6 +689,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppSubscriptionIndexRouteImport
       parentRoute: typeof AppRouteRoute
     }
+    '/app/shopping-list/': {
+      id: '/app/shopping-list/'
+      path: '/shopping-list'
+      fullPath: '/app/shopping-list'
+      preLoaderRoute: typeof AppShoppingListIndexRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
     '/app/settings/': {
       id: '/app/settings/'
       path: '/settings'
@@ -637,6 +731,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppInventoryIndexRouteImport
       parentRoute: typeof AppRouteRoute
     }
+    '/app/household/': {
+      id: '/app/household/'
+      path: '/household'
+      fullPath: '/app/household'
+      preLoaderRoute: typeof AppHouseholdIndexRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
     '/app/help/': {
       id: '/app/help/'
       path: '/help'
@@ -686,6 +787,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppRecipesRecipeIdRouteImport
       parentRoute: typeof AppRouteRoute
     }
+    '/app/inventory/stocktake': {
+      id: '/app/inventory/stocktake'
+      path: '/inventory/stocktake'
+      fullPath: '/app/inventory/stocktake'
+      preLoaderRoute: typeof AppInventoryStocktakeRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/inventory/invoices': {
+      id: '/app/inventory/invoices'
+      path: '/inventory/invoices'
+      fullPath: '/app/inventory/invoices'
+      preLoaderRoute: typeof AppInventoryInvoicesRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
     '/app/inventory/$productId': {
       id: '/app/inventory/$productId'
       path: '/inventory/$productId'
@@ -693,6 +808,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppInventoryProductIdRouteImport
       parentRoute: typeof AppRouteRoute
     }
+    '/app/settings/storage-locations/': {
+      id: '/app/settings/storage-locations/'
+      path: '/settings/storage-locations'
+      fullPath: '/app/settings/storage-locations'
+      preLoaderRoute: typeof AppSettingsStorageLocationsIndexRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/settings/shelf-life-rules/': {
+      id: '/app/settings/shelf-life-rules/'
+      path: '/settings/shelf-life-rules'
+      fullPath: '/app/settings/shelf-life-rules'
+      preLoaderRoute: typeof AppSettingsShelfLifeRulesIndexRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
     '/app/settings/security/': {
       id: '/app/settings/security/'
       path: '/settings/security'
@@ -763,6 +892,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppInventoryAddSearchRouteImport
       parentRoute: typeof AppRouteRoute
     }
+    '/app/inventory/add/scan-session': {
+      id: '/app/inventory/add/scan-session'
+      path: '/inventory/add/scan-session'
+      fullPath: '/app/inventory/add/scan-session'
+      preLoaderRoute: typeof AppInventoryAddScanSessionRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
     '/app/inventory/add/scan': {
       id: '/app/inventory/add/scan'
       path: '/inventory/add/scan'
@@ -843,27 +979,34 @@ interface AppRouteRouteChildren {
   AppOnboardingRoute: typeof AppOnboardingRoute
   AppIndexRoute: typeof AppIndexRoute
   AppInventoryProductIdRoute: typeof AppInventoryProductIdRoute
+  AppInventoryInvoicesRoute: typeof AppInventoryInvoicesRoute
+  AppInventoryStocktakeRoute: typeof AppInventoryStocktakeRoute
   AppRecipesRecipeIdRoute: typeof AppRecipesRecipeIdRoute
   AppRecipesSuggestionsRoute: typeof AppRecipesSuggestionsRoute
   AppSettingsSubscriptionRoute: typeof AppSettingsSubscriptionRoute
   AppSubscriptionSuccessRoute: typeof AppSubscriptionSuccessRoute
   AppBudgetIndexRoute: typeof AppBudgetIndexRoute
   AppHelpIndexRoute: typeof AppHelpIndexRoute
+  AppHouseholdIndexRoute: typeof AppHouseholdIndexRoute
   AppInventoryIndexRoute: typeof AppInventoryIndexRoute
   AppNotificationsIndexRoute: typeof AppNotificationsIndexRoute
   AppProfileIndexRoute: typeof AppProfileIndexRoute
   AppRecipesIndexRoute: typeof AppRecipesIndexRoute
   AppSettingsIndexRoute: typeof AppSettingsIndexRoute
+  AppShoppingListIndexRoute: typeof AppShoppingListIndexRoute
   AppSubscriptionIndexRoute: typeof AppSubscriptionIndexRoute
   AppInventoryAddDriveRoute: typeof AppInventoryAddDriveRoute
   AppInventoryAddManualRoute: typeof AppInventoryAddManualRoute
   AppInventoryAddScanRoute: typeof AppInventoryAddScanRoute
+  AppInventoryAddScanSessionRoute: typeof AppInventoryAddScanSessionRoute
   AppInventoryAddSearchRoute: typeof AppInventoryAddSearchRoute
   AppInventoryAddIndexRoute: typeof AppInventoryAddIndexRoute
   AppSettingsDietRestrictionsIndexRoute: typeof AppSettingsDietRestrictionsIndexRoute
   AppSettingsNotificationsIndexRoute: typeof AppSettingsNotificationsIndexRoute
   AppSettingsPersonalInfoIndexRoute: typeof AppSettingsPersonalInfoIndexRoute
   AppSettingsSecurityIndexRoute: typeof AppSettingsSecurityIndexRoute
+  AppSettingsShelfLifeRulesIndexRoute: typeof AppSettingsShelfLifeRulesIndexRoute
+  AppSettingsStorageLocationsIndexRoute: typeof AppSettingsStorageLocationsIndexRoute
 }
 
 const AppRouteRouteChildren: AppRouteRouteChildren = {
@@ -871,27 +1014,34 @@ const AppRouteRouteChildren: AppRouteRouteChildren = {
   AppOnboardingRoute: AppOnboardingRoute,
   AppIndexRoute: AppIndexRoute,
   AppInventoryProductIdRoute: AppInventoryProductIdRoute,
+  AppInventoryInvoicesRoute: AppInventoryInvoicesRoute,
+  AppInventoryStocktakeRoute: AppInventoryStocktakeRoute,
   AppRecipesRecipeIdRoute: AppRecipesRecipeIdRoute,
   AppRecipesSuggestionsRoute: AppRecipesSuggestionsRoute,
   AppSettingsSubscriptionRoute: AppSettingsSubscriptionRoute,
   AppSubscriptionSuccessRoute: AppSubscriptionSuccessRoute,
   AppBudgetIndexRoute: AppBudgetIndexRoute,
   AppHelpIndexRoute: AppHelpIndexRoute,
+  AppHouseholdIndexRoute: AppHouseholdIndexRoute,
   AppInventoryIndexRoute: AppInventoryIndexRoute,
   AppNotificationsIndexRoute: AppNotificationsIndexRoute,
   AppProfileIndexRoute: AppProfileIndexRoute,
   AppRecipesIndexRoute: AppRecipesIndexRoute,
   AppSettingsIndexRoute: AppSettingsIndexRoute,
+  AppShoppingListIndexRoute: AppShoppingListIndexRoute,
   AppSubscriptionIndexRoute: AppSubscriptionIndexRoute,
   AppInventoryAddDriveRoute: AppInventoryAddDriveRoute,
   AppInventoryAddManualRoute: AppInventoryAddManualRoute,
   AppInventoryAddScanRoute: AppInventoryAddScanRoute,
+  AppInventoryAddScanSessionRoute: AppInventoryAddScanSessionRoute,
   AppInventoryAddSearchRoute: AppInventoryAddSearchRoute,
   AppInventoryAddIndexRoute: AppInventoryAddIndexRoute,
   AppSettingsDietRestrictionsIndexRoute: AppSettingsDietRestrictionsIndexRoute,
   AppSettingsNotificationsIndexRoute: AppSettingsNotificationsIndexRoute,
   AppSettingsPersonalInfoIndexRoute: AppSettingsPersonalInfoIndexRoute,
   AppSettingsSecurityIndexRoute: AppSettingsSecurityIndexRoute,
+  AppSettingsShelfLifeRulesIndexRoute: AppSettingsShelfLifeRulesIndexRoute,
+  AppSettingsStorageLocationsIndexRoute: AppSettingsStorageLocationsIndexRoute,
 }
 
 const AppRouteRouteWithChildren = AppRouteRoute._addFileChildren(
@@ -0,0 +1,15 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { z } from 'zod';
+import { HouseholdPage } from '@/pages/household/HouseholdPage';
+
+export const Route = createFileRoute('/app/household/')({
+	component: RouteComponent,
+	validateSearch: z.object({
+		invitation: z.string().optional(),
+	}),
+});
+
+function RouteComponent() {
+	const { invitation } = Route.useSearch();
+	return <HouseholdPage invitationToken={invitation} />;
+}
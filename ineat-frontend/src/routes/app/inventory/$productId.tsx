@@ -1,10 +1,13 @@
 import { createFileRoute } from '@tanstack/react-router';
+import { z } from 'zod';
 import ProductDetailPage from '@/pages/product/ProductDetailPage';
 
 
 // Définition de la route avec le paramètre productId
 export const Route = createFileRoute('/app/inventory/$productId')({
 	component: ProductDetailPage,
+	// Lot mis en avant, par exemple à l'ouverture depuis son étiquette
+	validateSearch: z.object({ lot: z.string().optional() }),
 });
 
 
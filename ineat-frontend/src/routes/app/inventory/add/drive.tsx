@@ -10,6 +10,7 @@ import {
 	ChevronDown,
 	ChefHat,
 	FileText,
+	History,
 	Loader2,
 	Package,
 	Save,
@@ -31,6 +32,7 @@ import {
 	SelectValue
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { ApiRequestError } from '@/lib/api-client';
 import {
 	invoiceService,
 	type Invoice,
@@ -41,7 +43,7 @@ import {
 import { inventoryService } from '@/services/inventoryService';
 import { useAuthStore } from '@/stores/authStore';
 import { useInventoryActions } from '@/stores/inventoryStore';
-import { STORAGE_LOCATION_OPTIONS } from '@/constants/inventory';
+import { useStorageLocations } from '@/hooks/useStorageLocations';
 import {
 	getInvoiceTotals,
 	getReliableInvoiceItemIds,
@@ -123,10 +125,11 @@ const normalizeDraftQuantity = (value: unknown): number => {
 		: 1;
 };
 
-const normalizeStorageSelectValue = (value?: string | null): string =>
-	value && (STORAGE_LOCATION_OPTIONS as readonly string[]).includes(value)
-		? value
-		: NO_STORAGE_VALUE;
+const normalizeStorageSelectValue = (
+	value: string | null | undefined,
+	storageLocationNames: string[]
+): string =>
+	value && storageLocationNames.includes(value) ? value : NO_STORAGE_VALUE;
 
 const createDraft = (item: InvoiceItem): InvoiceItemDraft => ({
 	detectedName: item.detectedName,
@@ -205,6 +208,10 @@ function DriveInvoiceImportPage() {
 	const [pendingInvoiceFile, setPendingInvoiceFile] = useState<File | null>(
 		null
 	);
+	const [duplicateImport, setDuplicateImport] = useState<{
+		file: File;
+		duplicateOfId?: string;
+	} | null>(null);
 	const [isCookingSequenceComplete, setIsCookingSequenceComplete] =
 		useState(true);
 	const cookingSequenceTimer = useRef<ReturnType<typeof setTimeout> | null>(
@@ -291,6 +298,11 @@ function DriveInvoiceImportPage() {
 		queryFn: inventoryService.getCategories,
 		staleTime: 1000 * 60 * 60
 	});
+	const { data: storageLocations = [] } = useStorageLocations();
+	const storageLocationNames = useMemo(
+		() => storageLocations.map((location) => location.name),
+		[storageLocations]
+	);
 
 	const hasDriveAccess = Boolean(user?.capabilities.canImportDrive);
 	const driveImportsRemaining = user?.capabilities.driveImportsRemaining ?? 0;
@@ -325,9 +337,18 @@ function DriveInvoiceImportPage() {
 	const hasUnsavedChanges = Object.values(saveStates).some(
 		(state) => state === 'idle' || state === 'saving' || state === 'error'
 	);
+	const isUnconfirmedDuplicate = Boolean(
+		invoice?.duplicateOfId && !invoice.duplicateAllowed
+	);
 
 	const importMutation = useMutation({
-		mutationFn: invoiceService.importDriveInvoice,
+		mutationFn: ({
+			file,
+			allowDuplicate
+		}: {
+			file: File;
+			allowDuplicate?: boolean;
+		}) => invoiceService.importDriveInvoice(file, { allowDuplicate }),
 		onSuccess: (importedInvoice) => {
 			setInvoice(importedInvoice);
 			setExpandedItemId(null);
@@ -340,17 +361,46 @@ function DriveInvoiceImportPage() {
 			toast.success('Facture reçue, analyse lancée');
 			void getProfile().catch(() => undefined);
 		},
-		onError: (error: Error) => {
+		onError: (error: Error, variables) => {
 			if (cookingSequenceTimer.current) {
 				clearTimeout(cookingSequenceTimer.current);
 			}
 			setIsCookingSequenceComplete(true);
 			setStep('upload');
+
+			if (
+				error instanceof ApiRequestError &&
+				error.code === 'INVOICE_DUPLICATE'
+			) {
+				const duplicateOfId = error.details?.duplicateOfId;
+				setDuplicateImport({
+					file: variables.file,
+					duplicateOfId:
+						typeof duplicateOfId === 'string' ? duplicateOfId : undefined
+				});
+				return;
+			}
+
 			setLocalError(error.message);
 			toast.error(error.message);
 		}
 	});
 
+	const allowDuplicateMutation = useMutation({
+		mutationFn: () => {
+			if (!invoice) {
+				throw new Error('Facture introuvable');
+			}
+			return invoiceService.allowDuplicate(invoice.id);
+		},
+		onSuccess: (allowedInvoice) => {
+			setInvoice(allowedInvoice);
+			queryClient.setQueryData(['invoice', allowedInvoice.id], allowedInvoice);
+			toast.success('Import confirmé');
+		},
+		onError: (error: Error) => toast.error(error.message)
+	});
+
 	const updateItemMutation = useMutation({
 		mutationFn: ({
 			itemId,
@@ -463,6 +513,7 @@ function DriveInvoiceImportPage() {
 	const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
 		const file = event.target.files?.[0];
 		setLocalError(null);
+		setDuplicateImport(null);
 
 		if (!file) {
 			return;
@@ -472,11 +523,7 @@ function DriveInvoiceImportPage() {
 		event.target.value = '';
 	};
 
-	const handleConfirmFileAnalysis = () => {
-		if (!pendingInvoiceFile) {
-			return;
-		}
-
+	const startFileAnalysis = (file: File, allowDuplicate = false) => {
 		setStep('processing');
 		setIsCookingSequenceComplete(false);
 		if (cookingSequenceTimer.current) {
@@ -486,10 +533,39 @@ function DriveInvoiceImportPage() {
 			setIsCookingSequenceComplete(true);
 			cookingSequenceTimer.current = null;
 		}, MINIMUM_COOKING_DURATION_MS);
-		importMutation.mutate(pendingInvoiceFile);
+		importMutation.mutate({ file, allowDuplicate });
+	};
+
+	const handleConfirmFileAnalysis = () => {
+		if (!pendingInvoiceFile) {
+			return;
+		}
+
+		startFileAnalysis(pendingInvoiceFile);
 		setPendingInvoiceFile(null);
 	};
 
+	const handleForceDuplicateImport = () => {
+		if (!duplicateImport) {
+			return;
+		}
+
+		startFileAnalysis(duplicateImport.file, true);
+		setDuplicateImport(null);
+	};
+
+	const handleOpenExistingInvoice = () => {
+		if (!duplicateImport?.duplicateOfId) {
+			return;
+		}
+
+		void navigate({
+			to: '/app/inventory/add/drive',
+			search: { invoiceId: duplicateImport.duplicateOfId }
+		});
+		setDuplicateImport(null);
+	};
+
 	const handleCancelFileAnalysis = () => {
 		setPendingInvoiceFile(null);
 		setLocalError(null);
@@ -661,6 +737,12 @@ function DriveInvoiceImportPage() {
 							{driveImportsRemaining > 1 ? 's' : ''}
 						</p>
 					</div>
+					<Link to="/app/inventory/invoices">
+						<Button variant="outline" size="sm">
+							<History className="size-4" />
+							Mes factures
+						</Button>
+					</Link>
 					<Badge variant={canImportDrive ? 'default' : 'secondary'}>
 						{canImportDrive ? 'Premium actif' : 'Indisponible'}
 					</Badge>
@@ -755,6 +837,35 @@ function DriveInvoiceImportPage() {
 								</label>
 							)}
 
+							{duplicateImport && (
+								<Alert variant="warning" icon={<AlertTriangle />}>
+									<AlertDescription className="space-y-3">
+										<p>
+											Cette facture a déjà été importée. L’importer à nouveau
+											ajouterait ses produits et dépenses en double.
+										</p>
+										<div className="flex flex-col gap-2 sm:flex-row">
+											{duplicateImport.duplicateOfId && (
+												<Button
+													type="button"
+													variant="outline"
+													onClick={handleOpenExistingInvoice}
+												>
+													Voir la facture existante
+												</Button>
+											)}
+											<Button
+												type="button"
+												variant="outline"
+												onClick={handleForceDuplicateImport}
+											>
+												Importer quand même
+											</Button>
+										</div>
+									</AlertDescription>
+								</Alert>
+							)}
+
 							{localError && (
 								<Alert variant="error">
 									<AlertDescription>{localError}</AlertDescription>
@@ -778,6 +889,35 @@ function DriveInvoiceImportPage() {
 
 				{step === 'review' && invoice && (
 					<div className="space-y-4">
+						{isUnconfirmedDuplicate && (
+							<Alert variant="warning" icon={<AlertTriangle />}>
+								<AlertDescription className="space-y-3">
+									<p>
+										Cette facture semble déjà importée (même enseigne et même
+										numéro, ou même total à la même date). Confirmez l’import
+										pour pouvoir valider ses lignes.
+									</p>
+									<div className="flex flex-col gap-2 sm:flex-row">
+										<Button variant="outline" asChild>
+											<Link
+												to="/app/inventory/add/drive"
+												search={{ invoiceId: invoice.duplicateOfId! }}
+											>
+												Voir la facture existante
+											</Link>
+										</Button>
+										<Button
+											variant="outline"
+											onClick={() => allowDuplicateMutation.mutate()}
+											disabled={allowDuplicateMutation.isPending}
+										>
+											Importer quand même
+										</Button>
+									</div>
+								</AlertDescription>
+							</Alert>
+						)}
+
 						<Card className="border-neutral-200 bg-neutral-50">
 							<CardContent className="grid gap-4 p-4 sm:grid-cols-2 lg:grid-cols-5">
 								<div>
@@ -842,7 +982,8 @@ function DriveInvoiceImportPage() {
 										disabled={
 											reliableItemIds.length === 0 ||
 											validateMutation.isPending ||
-											hasUnsavedChanges
+											hasUnsavedChanges ||
+											isUnconfirmedDuplicate
 										}
 									>
 										Valider les {reliableItemIds.length} fiables
@@ -852,7 +993,8 @@ function DriveInvoiceImportPage() {
 										disabled={
 											selectedItems.length === 0 ||
 											validateMutation.isPending ||
-											hasUnsavedChanges
+											hasUnsavedChanges ||
+											isUnconfirmedDuplicate
 										}
 									>
 										{validateMutation.isPending ? (
@@ -938,6 +1080,15 @@ function DriveInvoiceImportPage() {
 																)}
 																{reviewStatus.label}
 															</Badge>
+															{item.resolvedFromHistory && (
+																<Badge
+																	variant="secondary"
+																	className="ml-2 mt-2 w-fit"
+																>
+																	<History className="mr-1 size-3" />
+																	Résolu depuis votre historique
+																</Badge>
+															)}
 															<p className="mt-2 text-xs text-neutral-200">
 																Confiance {Math.round(item.confidence * 100)} %
 																{needsCorrection ? ' · correction requise' : ' · fiable'}
@@ -1209,7 +1360,8 @@ function DriveInvoiceImportPage() {
 																</label>
 																<Select
 																	value={normalizeStorageSelectValue(
-																		draft.storageLocation
+																		draft.storageLocation,
+																		storageLocationNames
 																	)}
 																	onValueChange={(value) =>
 																		updateDraft(
@@ -1227,7 +1379,7 @@ function DriveInvoiceImportPage() {
 																		<SelectItem value={NO_STORAGE_VALUE}>
 																			Non renseigné
 																		</SelectItem>
-																		{STORAGE_LOCATION_OPTIONS.map(
+																		{storageLocationNames.map(
 																			(location) => (
 																				<SelectItem
 																					key={location}
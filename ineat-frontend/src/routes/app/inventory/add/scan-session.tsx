@@ -0,0 +1,6 @@
+import { createFileRoute } from '@tanstack/react-router'
+import ScanSessionPage from '@/pages/Inventory/ScanSessionPage'
+
+export const Route = createFileRoute('/app/inventory/add/scan-session')({
+  component: ScanSessionPage,
+})
@@ -0,0 +1,7 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+import InvoiceHistoryPage from '@/pages/invoice/InvoiceHistoryPage';
+
+export const Route = createFileRoute('/app/inventory/invoices')({
+	component: InvoiceHistoryPage,
+});
@@ -0,0 +1,11 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { z } from 'zod';
+
+import StocktakePage from '@/pages/Inventory/StocktakePage';
+
+export const Route = createFileRoute('/app/inventory/stocktake')({
+	component: StocktakePage,
+	validateSearch: z.object({
+		location: z.string().optional(),
+	}),
+});
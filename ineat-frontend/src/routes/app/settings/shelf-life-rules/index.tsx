@@ -0,0 +1,7 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+import ShelfLifeRulesSettingsPage from '@/pages/settings/ShelfLifeRulesSettingsPage';
+
+export const Route = createFileRoute('/app/settings/shelf-life-rules/')({
+	component: ShelfLifeRulesSettingsPage,
+});
@@ -0,0 +1,7 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+import StorageLocationsSettingsPage from '@/pages/settings/StorageLocationsSettingsPage';
+
+export const Route = createFileRoute('/app/settings/storage-locations/')({
+	component: StorageLocationsSettingsPage,
+});
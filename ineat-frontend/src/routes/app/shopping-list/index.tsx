@@ -0,0 +1,6 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { ShoppingListPage } from '@/pages/shopping-list/ShoppingListPage';
+
+export const Route = createFileRoute('/app/shopping-list/')({
+	component: ShoppingListPage,
+});
@@ -69,7 +69,12 @@ export const RecipeDifficultySchema = z.enum(['EASY', 'MEDIUM', 'HARD']);
 export type RecipeDifficulty = z.infer<typeof RecipeDifficultySchema>;
 
 // Types de notifications
-export const NotificationTypeSchema = z.enum(['EXPIRY', 'BUDGET', 'SYSTEM']);
+export const NotificationTypeSchema = z.enum([
+	'EXPIRY',
+	'BUDGET',
+	'LOW_STOCK',
+	'SYSTEM',
+]);
 export type NotificationType = z.infer<typeof NotificationTypeSchema>;
 
 // Types de régimes alimentaires
@@ -238,6 +238,9 @@ export {
 	InventoryItemWithStatusSchema,
 	type InventoryItem,
 	type InventoryItemWithStatus,
+	type InventoryLot,
+	ExpiryKindSchema,
+	type ExpiryKind,
 
 	// Ajout à l'inventaire
 	AddInventoryItemSchema,
@@ -257,9 +260,29 @@ export {
 	type InventoryFilters,
 	type StorageLocationFilter,
 
+	// Gaspillage
+	WasteReasonSchema,
+	DiscardInventoryItemSchema,
+	WasteStatsSchema,
+	type WasteReason,
+	type DiscardInventoryItemData,
+	type WasteStats,
+
 	// Statistiques
 	InventoryStatsSchema,
 	type InventoryStats,
+	InventoryValuationSchema,
+	StockAgeBucketSchema,
+	type InventoryValuation,
+	type StockAgeBucket,
+
+	// Journal des mouvements
+	InventoryMovementReasonSchema,
+	InventoryMovementSchema,
+	InventoryMovementFiltersSchema,
+	type InventoryMovementReason,
+	type InventoryMovement,
+	type InventoryMovementFilters,
 
 	// Réponses API classiques
 	InventoryItemResponseSchema,
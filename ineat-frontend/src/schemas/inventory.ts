@@ -6,6 +6,7 @@ import {
 	PriceSchema,
 	MediumTextSchema,
 	ExpiryStatusSchema,
+	UnitTypeSchema,
 	calculateExpiryStatus,
 } from './base';
 import {
@@ -22,6 +23,9 @@ import { getBudgetNotificationType } from './budget';
 
 export const PackageStatusSchema = z.enum(['UNOPENED', 'OPENED']);
 export const PreparationStatusSchema = z.enum(['RAW', 'COOKED']);
+// DLC (à consommer jusqu'au) ou DDM (à consommer de préférence avant)
+export const ExpiryKindSchema = z.enum(['USE_BY', 'BEST_BEFORE']);
+export type ExpiryKind = z.infer<typeof ExpiryKindSchema>;
 
 const nullableOptional = <T extends z.ZodTypeAny>(schema: T) =>
 	schema.nullable().optional().transform((value) => value ?? undefined);
@@ -33,11 +37,12 @@ export const InventoryItemSchema = z
 		product: ProductSchema,
 		quantity: QuantitySchema,
 		expiryDate: nullableOptional(z.string().datetime()),
+		expiryKind: ExpiryKindSchema.optional(),
 		expiryDateSource: z.enum(['MANUAL', 'ESTIMATED']).optional(),
 		expiryDateReason: z.string().optional(),
 		expiryDateRuleId: z.string().optional(),
 		expiryDateRuleLevel: z
-			.enum(['manual', 'product', 'category', 'storage'])
+			.enum(['manual', 'user', 'product', 'category', 'storage'])
 			.optional(),
 		expiryDateDurationDays: z.number().optional(),
 		purchaseDate: z.string().datetime(),
@@ -47,8 +52,14 @@ export const InventoryItemSchema = z
 				.string()
 				.max(50, 'Le lieu de stockage ne peut pas dépasser 50 caractères'),
 		),
+		thawedAt: nullableOptional(z.string().datetime()),
+		frozenAt: nullableOptional(z.string().datetime()),
+		// Lot non confirmé lors du dernier inventaire de son lieu
+		stocktakeFlaggedAt: nullableOptional(z.string().datetime()),
 		packageStatus: nullableOptional(PackageStatusSchema),
 		preparationStatus: nullableOptional(PreparationStatusSchema),
+		// Recette dont le lot est issu (restes)
+		recipe: nullableOptional(z.object({ id: UuidSchema, name: z.string() })),
 		notes: nullableOptional(MediumTextSchema),
 	})
 	.merge(TimestampsSchema);
@@ -133,6 +144,7 @@ export const AddInventoryItemSchema = z
 				'La liste des ingrédients ne peut pas dépasser 2000 caractères',
 			)
 			.optional(),
+		allergens: z.array(z.string()).optional(),
 
 		// Informations d'inventaire (existantes)
 		quantity: QuantitySchema,
@@ -144,6 +156,7 @@ export const AddInventoryItemSchema = z
 			return parsed <= now;
 		}, "La date d'achat ne peut pas être dans le futur"),
 		expiryDate: DateInputSchema.optional(),
+		expiryKind: ExpiryKindSchema.optional(),
 		purchasePrice: PriceSchema.optional(),
 		storageLocation: z
 			.string()
@@ -183,6 +196,7 @@ export const AddExistingProductToInventorySchema = z
 			return parsed <= now;
 		}, "La date d'achat ne peut pas être dans le futur"),
 		expiryDate: DateInputSchema.optional(),
+		expiryKind: ExpiryKindSchema.optional(),
 		purchasePrice: PriceSchema.optional(),
 		storageLocation: z
 			.string()
@@ -216,6 +230,7 @@ export type AddExistingProductToInventoryData = z.infer<
 export const UpdateInventoryItemSchema = z.object({
 	quantity: QuantitySchema.optional(),
 	expiryDate: DateInputSchema.optional(),
+	expiryKind: ExpiryKindSchema.optional(),
 	purchaseDate: DateInputSchema.refine((date) => {
 		const parsed = new Date(date);
 		const now = new Date();
@@ -237,6 +252,10 @@ export type UpdateInventoryItemData = z.infer<typeof UpdateInventoryItemSchema>;
 // Consommation d'un produit
 export const ConsumeInventoryItemSchema = z.object({
 	quantityConsumed: QuantitySchema,
+	// Unité de la quantité consommée, convertie dans celle du produit
+	unit: UnitTypeSchema.optional(),
+	// Entamer uniquement ce lot plutôt que celui qui périme le plus tôt
+	lotOnly: z.boolean().optional(),
 	notes: z
 		.string()
 		.max(200, 'Les notes ne peuvent pas dépasser 200 caractères')
@@ -276,6 +295,49 @@ export const InventoryFiltersSchema = z.object({
 });
 export type InventoryFilters = z.infer<typeof InventoryFiltersSchema>;
 
+// ===== SCHÉMAS DE GASPILLAGE =====
+
+export const WasteReasonSchema = z.enum([
+	'EXPIRED',
+	'SPOILED',
+	'LEFTOVER',
+	'OTHER',
+]);
+export type WasteReason = z.infer<typeof WasteReasonSchema>;
+
+export const DiscardInventoryItemSchema = z.object({
+	reason: WasteReasonSchema,
+	quantity: z
+		.number()
+		.positive('La quantité jetée doit être supérieure à 0')
+		.optional(),
+	notes: z
+		.string()
+		.max(500, 'Les notes ne peuvent pas dépasser 500 caractères')
+		.optional(),
+});
+export type DiscardInventoryItemData = z.infer<
+	typeof DiscardInventoryItemSchema
+>;
+
+const WasteTotalsSchema = z.object({
+	valueLost: z.number().min(0),
+	count: z.number().int().min(0),
+});
+
+export const WasteStatsSchema = WasteTotalsSchema.extend({
+	since: z.string().datetime(),
+	byMonth: z.array(WasteTotalsSchema.extend({ month: z.string() })),
+	byCategory: z.array(
+		WasteTotalsSchema.extend({
+			categoryId: z.string().nullable(),
+			categoryName: z.string(),
+		}),
+	),
+	byReason: z.record(WasteReasonSchema, WasteTotalsSchema),
+});
+export type WasteStats = z.infer<typeof WasteStatsSchema>;
+
 // ===== SCHÉMAS DE STATISTIQUES =====
 
 export const InventoryStatsSchema = z.object({
@@ -284,6 +346,15 @@ export const InventoryStatsSchema = z.object({
 	totalQuantity: z.number().min(0),
 	averageItemValue: z.number().min(0),
 
+	// Quantités cumulées par dimension (g, ml et pièces)
+	quantityTotals: z
+		.object({
+			massGrams: z.number().min(0),
+			volumeMilliliters: z.number().min(0),
+			pieces: z.number().min(0),
+		})
+		.optional(),
+
 	// Répartition par statut d'expiration
 	expiryBreakdown: z.object({
 		good: z.number().int().min(0),
@@ -319,9 +390,102 @@ export const InventoryStatsSchema = z.object({
 		itemsConsumedThisWeek: z.number().int().min(0),
 		averageDaysToConsumption: z.number().min(0).optional(),
 	}),
+
+	// Gaspillage des derniers mois
+	waste: WasteStatsSchema.optional(),
 });
 export type InventoryStats = z.infer<typeof InventoryStatsSchema>;
 
+const ValuationTotalsSchema = z.object({
+	value: z.number().min(0),
+	lotCount: z.number().int().min(0),
+});
+
+export const StockAgeBucketSchema = z.enum([
+	'UNDER_1_WEEK',
+	'ONE_TO_2_WEEKS',
+	'TWO_WEEKS_TO_1_MONTH',
+	'OVER_1_MONTH',
+]);
+export type StockAgeBucket = z.infer<typeof StockAgeBucketSchema>;
+
+export const InventoryValuationSchema = z.object({
+	totalValue: z.number().min(0),
+	// Lots sans prix d'achat, exclus de la valorisation
+	unvaluedLotCount: z.number().int().min(0),
+	byCategory: z.array(
+		ValuationTotalsSchema.extend({
+			categoryId: z.string().nullable(),
+			categoryName: z.string(),
+			percentage: z.number().min(0).max(100),
+		}),
+	),
+	byStorageLocation: z.array(
+		ValuationTotalsSchema.extend({
+			storageLocation: z.string(),
+			percentage: z.number().min(0).max(100),
+		}),
+	),
+	// Lots qui expirent dans les 7 prochains jours
+	valueAtRisk: ValuationTotalsSchema,
+	expiredValue: ValuationTotalsSchema,
+	ageDistribution: z.array(
+		ValuationTotalsSchema.extend({ bucket: StockAgeBucketSchema }),
+	),
+});
+export type InventoryValuation = z.infer<typeof InventoryValuationSchema>;
+
+// ===== SCHÉMAS DU JOURNAL DES MOUVEMENTS =====
+
+export const InventoryMovementReasonSchema = z.enum([
+	'ADDED',
+	'CONSUMED',
+	'WASTED',
+	'COOKED',
+	'ADJUSTED',
+]);
+export type InventoryMovementReason = z.infer<
+	typeof InventoryMovementReasonSchema
+>;
+
+export const InventoryMovementSchema = z.object({
+	id: UuidSchema,
+	reason: InventoryMovementReasonSchema,
+	quantityDelta: z.number(),
+	inventoryItemId: z.string().nullable(),
+	storageLocation: z.string().nullable(),
+	notes: z.string().nullable(),
+	wasteReason: WasteReasonSchema.nullable(),
+	valueLost: z.number().nullable(),
+	occurredAt: z.string().datetime(),
+	product: z.object({
+		id: UuidSchema,
+		name: z.string(),
+		brand: z.string().nullable(),
+		unitType: z.string(),
+		imageUrl: z.string().nullable(),
+	}),
+	recipe: z
+		.object({
+			id: UuidSchema,
+			name: z.string(),
+		})
+		.nullable(),
+});
+export type InventoryMovement = z.infer<typeof InventoryMovementSchema>;
+
+export const InventoryMovementFiltersSchema = z.object({
+	productId: UuidSchema.optional(),
+	reason: InventoryMovementReasonSchema.optional(),
+	from: z.string().optional(),
+	to: z.string().optional(),
+	page: z.coerce.number().int().min(1).optional(),
+	pageSize: z.coerce.number().int().min(10).max(100).optional(),
+});
+export type InventoryMovementFilters = z.infer<
+	typeof InventoryMovementFiltersSchema
+>;
+
 // ===== SCHÉMAS DE RÉPONSES API CLASSIQUES =====
 
 export const InventoryItemResponseSchema = ApiSuccessResponseSchema(
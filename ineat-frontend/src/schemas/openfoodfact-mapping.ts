@@ -96,6 +96,8 @@ export interface OpenFoodFactsMapping {
 
 	// Contenu
 	ingredients: string | undefined;
+	// Tags allergènes OpenFoodFacts (« en:gluten », « en:milk »...)
+	allergens: string[];
 
 	// Informations qualité
 	quality: DataQualityInfo;
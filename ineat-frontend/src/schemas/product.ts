@@ -104,12 +104,16 @@ export const ProductSchema = z
 		),
 		category: CategorySchema,
 		unitType: UnitTypeSchema,
+		// Poids (g) ou volume (ml) d'une pièce, pour convertir les quantités
+		pieceWeight: nullableOptional(z.number().positive()),
 		nutriscore: nullableOptional(NutriScoreSchema),
 		ecoscore: nullableOptional(EcoscoreSchema),
 		novascore: nullableOptional(NovascoreSchema),
 		imageUrl: nullableOptional(z.string().url("URL d'image invalide")),
 		externalId: nullableOptional(z.string()), // ID OpenFoodFacts
 		ingredients: nullableOptional(z.string()),
+		// Tags allergènes OpenFoodFacts (« en:gluten », « en:milk »...)
+		allergens: z.array(z.string()).optional(),
 		nutrients: nullableOptional(NutritionalInfoSchema),
 	})
 	.merge(TimestampsSchema);
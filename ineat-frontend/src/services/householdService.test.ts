@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { http, HttpResponse } from 'msw';
+
+import { householdService } from './householdService';
+import { server } from '@/test/mocks/server';
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+describe('householdService', () => {
+	it('récupère les foyers et invitations reçues', async () => {
+		server.use(
+			http.get(`${API_URL}/households`, () =>
+				HttpResponse.json({
+					success: true,
+					data: {
+						activeHouseholdId: 'household-1',
+						households: [
+							{
+								id: 'household-1',
+								name: 'Maison',
+								role: 'OWNER',
+								isOwner: true,
+								memberCount: 2,
+							},
+						],
+						invitations: [],
+					},
+				})
+			)
+		);
+
+		const result = await householdService.getHouseholds();
+
+		expect(result.activeHouseholdId).toBe('household-1');
+		expect(result.households[0]).toMatchObject({ name: 'Maison' });
+	});
+
+	it('change de foyer actif avant de cibler un foyer précis', async () => {
+		let requestBody: unknown;
+
+		server.use(
+			http.put(`${API_URL}/households/active`, async ({ request }) => {
+				requestBody = await request.json();
+				return HttpResponse.json({
+					success: true,
+					data: { activeHouseholdId: null },
+				});
+			})
+		);
+
+		const result = await householdService.setActiveHousehold(null);
+
+		expect(requestBody).toEqual({ householdId: null });
+		expect(result.activeHouseholdId).toBeNull();
+	});
+
+	it('invite un membre par e-mail', async () => {
+		let requestBody: unknown;
+
+		server.use(
+			http.post(
+				`${API_URL}/households/household-1/invitations`,
+				async ({ request }) => {
+					requestBody = await request.json();
+					return HttpResponse.json({
+						success: true,
+						message: 'Invitation envoyée à alex@example.com',
+						data: {
+							id: 'invitation-1',
+							email: 'alex@example.com',
+							role: 'ADMIN',
+							expiresAt: '2026-10-26T08:00:00.000Z',
+						},
+					});
+				}
+			)
+		);
+
+		const result = await householdService.inviteMember('household-1', {
+			email: 'alex@example.com',
+			role: 'ADMIN',
+		});
+
+		expect(requestBody).toEqual({ email: 'alex@example.com', role: 'ADMIN' });
+		expect(result.message).toBe('Invitation envoyée à alex@example.com');
+	});
+
+	it('accepte une invitation à partir de son jeton', async () => {
+		server.use(
+			http.post(`${API_URL}/households/invitations/token-1/accept`, () =>
+				HttpResponse.json({
+					success: true,
+					data: {
+						id: 'household-1',
+						name: 'Maison',
+						ownerId: 'user-1',
+						role: 'MEMBER',
+						members: [],
+						invitations: [],
+					},
+				})
+			)
+		);
+
+		const result = await householdService.acceptInvitation('token-1');
+
+		expect(result).toMatchObject({ id: 'household-1', role: 'MEMBER' });
+	});
+});
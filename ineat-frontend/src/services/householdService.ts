@@ -0,0 +1,154 @@
+import { apiClient } from '@/lib/api-client';
+
+export type HouseholdRole = 'OWNER' | 'ADMIN' | 'MEMBER';
+
+export type HouseholdSummary = {
+	id: string;
+	name: string;
+	role: HouseholdRole;
+	isOwner: boolean;
+	memberCount: number;
+};
+
+export type ReceivedHouseholdInvitation = {
+	id: string;
+	token: string;
+	role: HouseholdRole;
+	expiresAt: string;
+	household: { id: string; name: string };
+	invitedBy: string;
+};
+
+export type HouseholdOverview = {
+	activeHouseholdId: string | null;
+	households: HouseholdSummary[];
+	invitations: ReceivedHouseholdInvitation[];
+};
+
+export type HouseholdMember = {
+	id: string;
+	userId: string;
+	email: string;
+	name: string;
+	role: HouseholdRole;
+	joinedAt: string;
+};
+
+export type PendingHouseholdInvitation = {
+	id: string;
+	email: string;
+	role: HouseholdRole;
+	expiresAt: string;
+};
+
+export type HouseholdDetail = {
+	id: string;
+	name: string;
+	ownerId: string;
+	role: HouseholdRole;
+	members: HouseholdMember[];
+	invitations: PendingHouseholdInvitation[];
+};
+
+export type AssignableHouseholdRole = Exclude<HouseholdRole, 'OWNER'>;
+
+type ApiSuccess<T> = {
+	success: boolean;
+	message?: string;
+	data: T;
+};
+
+export const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, string> = {
+	OWNER: 'Propriétaire',
+	ADMIN: 'Administrateur',
+	MEMBER: 'Membre',
+};
+
+export const householdService = {
+	async getHouseholds() {
+		const response =
+			await apiClient.get<ApiSuccess<HouseholdOverview>>('/households');
+
+		return response.data;
+	},
+
+	async getHousehold(householdId: string) {
+		const response = await apiClient.get<ApiSuccess<HouseholdDetail>>(
+			`/households/${householdId}`
+		);
+
+		return response.data;
+	},
+
+	async createHousehold(name: string) {
+		const response = await apiClient.post<ApiSuccess<HouseholdDetail>>(
+			'/households',
+			{ name }
+		);
+
+		return response.data;
+	},
+
+	async renameHousehold(householdId: string, name: string) {
+		const response = await apiClient.patch<ApiSuccess<HouseholdDetail>>(
+			`/households/${householdId}`,
+			{ name }
+		);
+
+		return response.data;
+	},
+
+	async deleteHousehold(householdId: string) {
+		await apiClient.delete(`/households/${householdId}`);
+	},
+
+	async setActiveHousehold(householdId: string | null) {
+		const response = await apiClient.put<
+			ApiSuccess<{ activeHouseholdId: string | null }>
+		>('/households/active', { householdId });
+
+		return response.data;
+	},
+
+	async inviteMember(
+		householdId: string,
+		input: { email: string; role?: AssignableHouseholdRole }
+	) {
+		const response = await apiClient.post<
+			ApiSuccess<PendingHouseholdInvitation>
+		>(`/households/${householdId}/invitations`, input);
+
+		return response;
+	},
+
+	async revokeInvitation(householdId: string, invitationId: string) {
+		await apiClient.delete(
+			`/households/${householdId}/invitations/${invitationId}`
+		);
+	},
+
+	async acceptInvitation(token: string) {
+		const response = await apiClient.post<ApiSuccess<HouseholdDetail>>(
+			`/households/invitations/${token}/accept`
+		);
+
+		return response.data;
+	},
+
+	async updateMemberRole(
+		householdId: string,
+		memberId: string,
+		role: AssignableHouseholdRole
+	) {
+		const response = await apiClient.patch<ApiSuccess<HouseholdDetail>>(
+			`/households/${householdId}/members/${memberId}`,
+			{ role }
+		);
+
+		return response.data;
+	},
+
+	async removeMember(householdId: string, memberId: string) {
+		await apiClient.delete(`/households/${householdId}/members/${memberId}`);
+	},
+};
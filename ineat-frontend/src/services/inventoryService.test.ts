@@ -159,6 +159,109 @@ describe('inventoryService', () => {
 		});
 	});
 
+	it('récupère le journal des mouvements filtré', async () => {
+		const requestedUrls: string[] = [];
+
+		server.use(
+			http.get(`${API_URL}/inventory/movements`, ({ request }) => {
+				requestedUrls.push(request.url);
+				return HttpResponse.json({
+					success: true,
+					data: {
+						items: [
+							{
+								id: '55555555-5555-4555-8555-555555555555',
+								reason: 'CONSUMED',
+								quantityDelta: -1,
+								inventoryItemId: inventoryItem.id,
+								storageLocation: 'Réfrigérateur',
+								notes: null,
+								wasteReason: null,
+								valueLost: null,
+								occurredAt: '2026-05-22T08:00:00.000Z',
+								product: {
+									id: inventoryItem.product.id,
+									name: inventoryItem.product.name,
+									brand: inventoryItem.product.brand,
+									unitType: 'UNIT',
+									imageUrl: null,
+								},
+								recipe: null,
+							},
+						],
+						pagination: {
+							page: 1,
+							pageSize: 25,
+							totalItems: 1,
+							totalPages: 1,
+						},
+					},
+				});
+			}),
+		);
+
+		const result = await inventoryService.getInventoryMovements({
+			productId: inventoryItem.product.id,
+			reason: 'CONSUMED',
+			from: '2026-05-01',
+		});
+
+		const requestedSearchParams = new URL(requestedUrls[0]).searchParams;
+		expect(result.items[0].quantityDelta).toBe(-1);
+		expect(result.pagination.totalItems).toBe(1);
+		expect(requestedSearchParams.get('productId')).toBe(
+			inventoryItem.product.id,
+		);
+		expect(requestedSearchParams.get('reason')).toBe('CONSUMED');
+		expect(requestedSearchParams.get('from')).toBe('2026-05-01');
+		expect(requestedSearchParams.has('to')).toBe(false);
+	});
+
+	it('jette un lot ou une sélection avec le motif de gaspillage', async () => {
+		const requests: Array<{ url: string; body: unknown }> = [];
+
+		server.use(
+			http.post(`${API_URL}/inventory/bulk/discard`, async ({ request }) => {
+				requests.push({ url: request.url, body: await request.json() });
+				return HttpResponse.json({
+					success: true,
+					discardedCount: 2,
+					valueLost: 4.8,
+					message: '2 produits jetés',
+				});
+			}),
+			http.post(`${API_URL}/inventory/:id/discard`, async ({ request }) => {
+				requests.push({ url: request.url, body: await request.json() });
+				return HttpResponse.json({
+					success: true,
+					productId: inventoryItem.product.id,
+					quantityDiscarded: 1,
+					remainingQuantity: 1,
+					valueLost: 1.75,
+					deleted: false,
+				});
+			}),
+		);
+
+		const single = await inventoryService.discardInventoryItem(
+			inventoryItem.id,
+			{ reason: 'SPOILED', quantity: 1 },
+		);
+		const bulk = await inventoryService.discardInventoryItems(
+			[inventoryItem.id, '66666666-6666-4666-8666-666666666666'],
+			{ reason: 'EXPIRED' },
+		);
+
+		expect(single.valueLost).toBe(1.75);
+		expect(bulk.discardedCount).toBe(2);
+		expect(requests[0].url).toContain(`/inventory/${inventoryItem.id}/discard`);
+		expect(requests[0].body).toEqual({ reason: 'SPOILED', quantity: 1 });
+		expect(requests[1].body).toEqual({
+			ids: [inventoryItem.id, '66666666-6666-4666-8666-666666666666'],
+			reason: 'EXPIRED',
+		});
+	});
+
 	it('remonte les états de validation client', async () => {
 		await expect(
 			inventoryService.addManualProduct({
@@ -1,20 +1,28 @@
-import { apiClient } from '@/lib/api-client';
+import { API_URL, apiClient } from '@/lib/api-client';
 import {
 	AddInventoryItemData,
 	InventoryFilters,
 	InventoryStats,
+	InventoryValuation,
 	InventoryItem,
 	Category,
 	Product,
 	UpdateInventoryItemData,
 	ConsumeInventoryItemData,
+	DiscardInventoryItemData,
+	WasteReason,
 	AddProductResponse,
+	ApiSuccessResponse,
+	InventoryMovement,
+	InventoryMovementFilters,
 	hasBudgetImpact,
+	type ExpiryKind,
 } from '@/schemas';
 import type {
 	PackageStatus,
 	PreparationStatus,
 } from '@/utils/productStateOptions';
+import type { StorageGroup } from '@/constants/expiryRules';
 
 // Types spécifiques au service
 export interface ProductSearchResult {
@@ -42,6 +50,7 @@ export interface ProductSearchResult {
 
 	// Contenu
 	ingredients?: string;
+	allergens?: string[];
 
 	category: {
 		id: string;
@@ -57,6 +66,7 @@ export interface QuickAddFormData {
 	productId: string;
 	quantity: number;
 	expiryDate?: string;
+	expiryKind?: ExpiryKind;
 	purchaseDate: string;
 	purchasePrice?: number;
 	storageLocation?: string;
@@ -70,6 +80,7 @@ export interface QuickAddFormDataWithCategory {
 	quantity: number;
 	category: string; // Obligatoire pour créer un nouveau produit
 	expiryDate?: string;
+	expiryKind?: ExpiryKind;
 	purchaseDate: string;
 	purchasePrice?: number;
 	storageLocation?: string;
@@ -149,6 +160,188 @@ interface UnknownApiResponse {
 	name?: string;
 }
 
+export interface InventoryMovementsPage {
+	items: InventoryMovement[];
+	pagination: {
+		page: number;
+		pageSize: number;
+		totalItems: number;
+		totalPages: number;
+	};
+}
+
+export interface ProductStockLevel {
+	productId: string;
+	minimumQuantity: number;
+	currentQuantity: number;
+	isLow: boolean;
+	product: {
+		id: string;
+		name: string;
+		brand?: string | null;
+		unitType: Product['unitType'];
+	};
+}
+
+export interface ProductPriceSummary {
+	purchaseCount: number;
+	minPrice: number;
+	maxPrice: number;
+	averagePrice: number;
+	latestPrice: number;
+}
+
+export interface ProductPriceEntry {
+	id: string;
+	source: 'MANUAL' | 'INVOICE';
+	merchantName: string | null;
+	quantity: number;
+	totalPrice: number;
+	// Prix au kilo, au litre ou à la pièce (referenceUnit)
+	unitPrice: number;
+	purchasedAt: string;
+	differencePercent: number | null;
+	isAboveUsualPrice: boolean;
+}
+
+export interface ProductPriceHistory {
+	productId: string;
+	referenceUnit: 'KG' | 'L' | 'UNIT';
+	usualPrice: number | null;
+	summary: ProductPriceSummary | null;
+	byMerchant: Array<ProductPriceSummary & { merchantName: string | null }>;
+	entries: ProductPriceEntry[];
+}
+
+export interface StorageLocation {
+	id: string;
+	name: string;
+	storageGroup: StorageGroup;
+	itemCount: number;
+}
+
+export type StorageLocationInput = Pick<
+	StorageLocation,
+	'name' | 'storageGroup'
+>;
+
+export interface ShelfLifeOverride {
+	id: string;
+	label: string;
+	keywords: string[];
+	productId: string | null;
+	product: { id: string; name: string; brand: string | null } | null;
+	daysByStorage: Partial<Record<StorageGroup, number>>;
+	defaultDays: number;
+}
+
+export interface ShelfLifeOverrideInput {
+	label: string;
+	keywords?: string[];
+	productId?: string | null;
+	daysByStorage?: Partial<Record<StorageGroup, number>>;
+	defaultDays: number;
+}
+
+export type InventoryTransferFormat = 'csv' | 'json';
+
+export type InventoryImportRowStatus =
+	| 'valid'
+	| 'invalid'
+	| 'imported'
+	| 'failed';
+
+export interface InventoryImportRow {
+	row: number;
+	product: string | null;
+	barcode: string | null;
+	action: 'add_existing' | 'create_product';
+	status: InventoryImportRowStatus;
+	errors: string[];
+	inventoryItemId?: string;
+}
+
+export interface InventoryImportResult {
+	dryRun: boolean;
+	summary: {
+		total: number;
+		valid: number;
+		invalid: number;
+		imported: number;
+		failed: number;
+	};
+	rows: InventoryImportRow[];
+}
+
+export interface BarcodeCheckResult {
+	exists: boolean;
+	product: ProductSearchResult | null;
+}
+
+/** Produits d'une session de scan, ajoutés en une seule fois */
+export interface BulkQuickAddData {
+	items?: QuickAddFormData[];
+	newProducts?: AddInventoryItemData[];
+}
+
+export interface BulkQuickAddResult {
+	addedCount: number;
+	expensesCreated: number;
+	items: Array<{
+		id: string;
+		name: string;
+		quantity: number;
+		expiryDate?: string;
+		storageLocation?: string | null;
+	}>;
+}
+
+export type StocktakeLotAction = 'CONFIRM' | 'ADJUST' | 'REMOVE';
+
+export type StocktakeReason =
+	| 'COUNT_ERROR'
+	| 'UNTRACKED_CONSUMPTION'
+	| 'UNTRACKED_WASTE'
+	| 'OTHER';
+
+export interface StocktakeLotInput {
+	inventoryItemId: string;
+	action: StocktakeLotAction;
+	countedQuantity?: number;
+	reason?: StocktakeReason;
+}
+
+export interface StocktakeSummary {
+	storageLocation: string;
+	completedAt: string;
+	lotCount: number;
+	confirmedCount: number;
+	adjustedCount: number;
+	removedCount: number;
+	flaggedCount: number;
+	/** Part des lots vérifiés qui ne correspondaient pas au stock réel (%) */
+	driftRate: number;
+	valueDrift: number;
+	adjustments: Array<{
+		inventoryItemId: string;
+		productId: string;
+		productName: string;
+		unitType: Product['unitType'];
+		action: Exclude<StocktakeLotAction, 'CONFIRM'>;
+		expectedQuantity: number;
+		countedQuantity: number;
+		quantityDelta: number;
+		valueDelta: number;
+		reason: StocktakeReason;
+	}>;
+	flaggedLots: Array<{
+		inventoryItemId: string;
+		productName: string;
+		quantity: number;
+		unitType: Product['unitType'];
+	}>;
+}
+
 interface PaginatedInventoryResponse {
 	data?: {
 		items?: InventoryItem[];
@@ -408,6 +601,26 @@ export const inventoryService = {
 		}
 	},
 
+	/**
+	 * Cherche un produit déjà connu par son code-barres
+	 */
+	async checkBarcode(barcode: string): Promise<BarcodeCheckResult> {
+		return await apiClient.get<BarcodeCheckResult>(
+			`/inventory/barcode/${encodeURIComponent(barcode)}`,
+		);
+	},
+
+	/**
+	 * Ajoute en une seule transaction les produits d'une session de scan
+	 * (produits connus et nouveaux produits OpenFoodFacts)
+	 */
+	async bulkQuickAdd(data: BulkQuickAddData): Promise<BulkQuickAddResult> {
+		const response = await apiClient.post<
+			ApiSuccessResponse<BulkQuickAddResult>
+		>('/inventory/products/quick-add/bulk', data);
+		return response.data;
+	},
+
 	/**
 	 * Met à jour un élément d'inventaire
 	 */
@@ -432,6 +645,7 @@ export const inventoryService = {
 		productId: string;
 		quantityConsumed: number;
 		remainingQuantity: number;
+		unitType: Product['unitType'];
 		consumedLots: Array<{
 			id: string;
 			quantityConsumed: number;
@@ -463,6 +677,106 @@ export const inventoryService = {
 		});
 	},
 
+	/**
+	 * Restaure un lot supprimé depuis moins de 30 jours
+	 */
+	async restoreInventoryItem(inventoryItemId: string): Promise<{
+		success: boolean;
+		message: string;
+	}> {
+		return await apiClient.post(`/inventory/${inventoryItemId}/restore`);
+	},
+
+	/**
+	 * Restaure plusieurs lots supprimés. Les lots hors délai sont ignorés.
+	 */
+	async restoreInventoryItems(inventoryItemIds: string[]): Promise<{
+		success: boolean;
+		restoredCount: number;
+		message: string;
+	}> {
+		return await apiClient.post('/inventory/restore', {
+			ids: inventoryItemIds,
+		});
+	},
+
+	/**
+	 * Jette tout ou partie d'un lot en enregistrant le motif et la valeur perdue
+	 */
+	async discardInventoryItem(
+		inventoryItemId: string,
+		data: DiscardInventoryItemData,
+	): Promise<{
+		success: boolean;
+		productId: string;
+		quantityDiscarded: number;
+		remainingQuantity: number;
+		valueLost: number;
+		deleted: boolean;
+	}> {
+		return await apiClient.post(`/inventory/${inventoryItemId}/discard`, data);
+	},
+
+	/**
+	 * Déplace un lot ; une date de péremption estimée est recalculée pour le
+	 * nouveau lieu de stockage
+	 */
+	async moveInventoryItem(
+		inventoryItemId: string,
+		storageLocation: string,
+	): Promise<InventoryItem> {
+		return await apiClient.post<InventoryItem>(
+			`/inventory/${inventoryItemId}/move`,
+			{ storageLocation },
+		);
+	},
+
+	async freezeInventoryItem(inventoryItemId: string): Promise<InventoryItem> {
+		return await apiClient.post<InventoryItem>(
+			`/inventory/${inventoryItemId}/freeze`,
+			{},
+		);
+	},
+
+	/**
+	 * Sort un lot du congélateur : sa conservation repart de la décongélation
+	 */
+	async thawInventoryItem(inventoryItemId: string): Promise<InventoryItem> {
+		return await apiClient.post<InventoryItem>(
+			`/inventory/${inventoryItemId}/thaw`,
+			{},
+		);
+	},
+
+	/**
+	 * Sépare une partie d'un lot dans un nouveau lot, éventuellement rangé
+	 * ailleurs
+	 */
+	async splitInventoryItem(
+		inventoryItemId: string,
+		data: { quantity: number; storageLocation?: string },
+	): Promise<{ source: InventoryItem; created: InventoryItem }> {
+		return await apiClient.post(`/inventory/${inventoryItemId}/split`, data);
+	},
+
+	/**
+	 * Jette plusieurs lots entiers avec un même motif
+	 */
+	async discardInventoryItems(
+		inventoryItemIds: string[],
+		data: { reason: WasteReason; notes?: string },
+	): Promise<{
+		success: boolean;
+		discardedCount: number;
+		valueLost: number;
+		message: string;
+	}> {
+		return await apiClient.post('/inventory/bulk/discard', {
+			ids: inventoryItemIds,
+			...data,
+		});
+	},
+
 	/**
 	 * Recherche des produits dans la base de données
 	 * ENRICHI - Les résultats incluent maintenant les nouveaux champs nutritionnels
@@ -537,6 +851,235 @@ export const inventoryService = {
 		return await apiClient.get<InventoryStats>('/inventory/stats');
 	},
 
+	/**
+	 * Récupère la valorisation du stock au prix d'achat
+	 */
+	async getInventoryValuation(): Promise<InventoryValuation> {
+		return await apiClient.get<InventoryValuation>(
+			'/inventory/stats/valuation'
+		);
+	},
+
+	/**
+	 * Récupère le journal des mouvements de stock (ajouts, consommations,
+	 * pertes, recettes, ajustements) avec filtres optionnels
+	 */
+	async getInventoryMovements(
+		filters: InventoryMovementFilters = {},
+	): Promise<InventoryMovementsPage> {
+		const searchParams = new URLSearchParams();
+		Object.entries(filters).forEach(([key, value]) => {
+			if (value !== undefined && value !== '') {
+				searchParams.set(key, String(value));
+			}
+		});
+
+		const queryString = searchParams.toString();
+		const response = await apiClient.get<
+			ApiSuccessResponse<InventoryMovementsPage>
+		>(`/inventory/movements${queryString ? `?${queryString}` : ''}`);
+		return response.data;
+	},
+
+	/**
+	 * Récupère les stocks minimums définis par l'utilisateur, avec la quantité
+	 * cumulée de tous les lots de chaque produit
+	 */
+	async getStockLevels(): Promise<ProductStockLevel[]> {
+		const response = await apiClient.get<
+			ApiSuccessResponse<ProductStockLevel[]>
+		>('/inventory/stock-levels');
+		return response.data;
+	},
+
+	/**
+	 * Définit le stock minimum d'un produit : une alerte est émise quand la
+	 * quantité cumulée de ses lots passe sous ce seuil
+	 */
+	async setStockLevel(
+		productId: string,
+		minimumQuantity: number,
+	): Promise<ProductStockLevel> {
+		const response = await apiClient.put<
+			ApiSuccessResponse<ProductStockLevel>
+		>(`/inventory/stock-levels/${productId}`, { minimumQuantity });
+		return response.data;
+	},
+
+	async removeStockLevel(productId: string): Promise<void> {
+		await apiClient.delete(`/inventory/stock-levels/${productId}`);
+	},
+
+	/**
+	 * Renseigne le poids (ou volume) d'une pièce d'un produit, utilisé pour
+	 * convertir les quantités entre pièces et g/ml. `null` l'efface.
+	 */
+	async setProductPieceWeight(
+		productId: string,
+		pieceWeight: number | null,
+	): Promise<Pick<Product, 'id' | 'name' | 'unitType' | 'pieceWeight'>> {
+		const response = await apiClient.put<
+			ApiSuccessResponse<
+				Pick<Product, 'id' | 'name' | 'unitType' | 'pieceWeight'>
+			>
+		>(`/inventory/products/${productId}/piece-weight`, { pieceWeight });
+		return response.data;
+	},
+
+	/**
+	 * Historique des prix payés pour un produit (ajouts manuels et factures
+	 * validées), ramenés au kilo, au litre ou à la pièce
+	 */
+	async getProductPriceHistory(
+		productId: string,
+	): Promise<ProductPriceHistory> {
+		const response = await apiClient.get<
+			ApiSuccessResponse<ProductPriceHistory>
+		>(`/inventory/products/${productId}/price-history`);
+		return response.data;
+	},
+
+	/**
+	 * Lieux de stockage de l'utilisateur (une liste par défaut est créée au
+	 * premier appel)
+	 */
+	async getStorageLocations(): Promise<StorageLocation[]> {
+		const response = await apiClient.get<
+			ApiSuccessResponse<StorageLocation[]>
+		>('/inventory/storage-locations');
+		return response.data;
+	},
+
+	async createStorageLocation(
+		data: StorageLocationInput,
+	): Promise<StorageLocation> {
+		const response = await apiClient.post<
+			ApiSuccessResponse<StorageLocation>
+		>('/inventory/storage-locations', data);
+		return response.data;
+	},
+
+	/**
+	 * Renomme un lieu (ses lots suivent) ou change son type de stockage (leurs
+	 * dates estimées sont recalculées)
+	 */
+	async updateStorageLocation(
+		locationId: string,
+		data: Partial<StorageLocationInput>,
+	): Promise<StorageLocation> {
+		const response = await apiClient.put<
+			ApiSuccessResponse<StorageLocation>
+		>(`/inventory/storage-locations/${locationId}`, data);
+		return response.data;
+	},
+
+	async deleteStorageLocation(locationId: string): Promise<void> {
+		await apiClient.delete(`/inventory/storage-locations/${locationId}`);
+	},
+
+	/**
+	 * Règles de conservation personnelles, prioritaires sur les règles
+	 * intégrées pour estimer les dates de péremption
+	 */
+	async getShelfLifeOverrides(): Promise<ShelfLifeOverride[]> {
+		const response = await apiClient.get<
+			ApiSuccessResponse<ShelfLifeOverride[]>
+		>('/inventory/shelf-life-rules');
+		return response.data;
+	},
+
+	async createShelfLifeOverride(
+		data: ShelfLifeOverrideInput,
+	): Promise<ShelfLifeOverride> {
+		const response = await apiClient.post<
+			ApiSuccessResponse<ShelfLifeOverride>
+		>('/inventory/shelf-life-rules', data);
+		return response.data;
+	},
+
+	async updateShelfLifeOverride(
+		overrideId: string,
+		data: Partial<ShelfLifeOverrideInput>,
+	): Promise<ShelfLifeOverride> {
+		const response = await apiClient.put<
+			ApiSuccessResponse<ShelfLifeOverride>
+		>(`/inventory/shelf-life-rules/${overrideId}`, data);
+		return response.data;
+	},
+
+	async deleteShelfLifeOverride(overrideId: string): Promise<void> {
+		await apiClient.delete(`/inventory/shelf-life-rules/${overrideId}`);
+	},
+
+	/**
+	 * Recalcule les dates estimées des lots existants avec les règles
+	 * actuelles. Les dates saisies manuellement ne changent pas.
+	 */
+	async recomputeEstimatedExpiryDates(): Promise<{ updatedCount: number }> {
+		const response = await apiClient.post<
+			ApiSuccessResponse<{ updatedCount: number }>
+		>('/inventory/shelf-life-rules/recompute');
+		return response.data;
+	},
+
+	/**
+	 * URL de téléchargement de l'export de l'inventaire (un lot par ligne).
+	 * Le navigateur envoie le cookie de session avec le lien.
+	 */
+	getExportUrl(format: InventoryTransferFormat = 'csv'): string {
+		return `${API_URL}/inventory/export?format=${format}`;
+	},
+
+	/**
+	 * URL de la planche PDF d'étiquettes à QR code des lots, ouverte dans le
+	 * navigateur pour l'imprimer (50 lots au plus)
+	 */
+	getLabelsUrl(inventoryItemIds: string[]): string {
+		return `${API_URL}/inventory/labels?ids=${inventoryItemIds.join(',')}`;
+	},
+
+	/**
+	 * Importe des lots depuis le contenu d'un fichier CSV ou JSON.
+	 * Avec dryRun, le serveur valide les lignes sans rien ajouter.
+	 */
+	async importInventory(data: {
+		format: InventoryTransferFormat;
+		content: string;
+		dryRun?: boolean;
+	}): Promise<InventoryImportResult> {
+		const response = await apiClient.post<
+			ApiSuccessResponse<InventoryImportResult>
+		>('/inventory/import', data);
+		return response.data;
+	},
+
+	/**
+	 * Produits d'un lieu de stockage avec leurs lots, à inventorier
+	 */
+	async getStocktakeSheet(storageLocation: string): Promise<InventoryItem[]> {
+		const response = await apiClient.get<
+			ApiSuccessResponse<{ storageLocation: string; items: InventoryItem[] }>
+		>(
+			`/inventory/stocktake?storageLocation=${encodeURIComponent(storageLocation)}`,
+		);
+		return response.data.items;
+	},
+
+	/**
+	 * Valide l'inventaire d'un lieu : les corrections deviennent des
+	 * ajustements et les lots non vérifiés sont signalés
+	 */
+	async completeStocktake(data: {
+		storageLocation: string;
+		lots: StocktakeLotInput[];
+		notes?: string;
+	}): Promise<StocktakeSummary> {
+		const response = await apiClient.post<
+			ApiSuccessResponse<StocktakeSummary>
+		>('/inventory/stocktake', data);
+		return response.data;
+	},
+
 	/**
 	 * Récupère les produits récemment ajoutés à l'inventaire
 	 * @param limit Nombre de produits à récupérer (défaut: 5)
@@ -6,6 +6,7 @@ import {
 	INVOICE_UPLOAD_TIMEOUT_MS,
 	invoiceService,
 } from './invoiceService';
+import { ApiRequestError } from '@/lib/api-client';
 import { server } from '@/test/mocks/server';
 
 const API_URL = import.meta.env.VITE_API_URL;
@@ -76,6 +77,87 @@ describe('invoiceService', () => {
 		timeoutSpy.mockRestore();
 	});
 
+	it("expose l'identifiant de la facture existante quand le PDF est un doublon", async () => {
+		let allowDuplicate: string | null = null;
+
+		server.use(
+			http.post(`${API_URL}/invoices/drive-import`, ({ request }) => {
+				allowDuplicate = new URL(request.url).searchParams.get(
+					'allowDuplicate'
+				);
+
+				return HttpResponse.json(
+					{
+						success: false,
+						code: 'INVOICE_DUPLICATE',
+						message: 'Cette facture a déjà été importée',
+						details: { duplicateOfId: invoice.id },
+					},
+					{ status: 409 }
+				);
+			})
+		);
+
+		const file = new File(['%PDF-1.4'], 'facture.pdf', {
+			type: 'application/pdf',
+		});
+		const error = await invoiceService
+			.importDriveInvoice(file)
+			.catch((caught: unknown) => caught);
+
+		expect(error).toBeInstanceOf(ApiRequestError);
+		expect(error).toMatchObject({
+			status: 409,
+			code: 'INVOICE_DUPLICATE',
+			details: { duplicateOfId: invoice.id },
+		});
+		expect(allowDuplicate).toBeNull();
+	});
+
+	it('importe quand même un doublon sur demande', async () => {
+		let allowDuplicate: string | null = null;
+
+		server.use(
+			http.post(`${API_URL}/invoices/drive-import`, ({ request }) => {
+				allowDuplicate = new URL(request.url).searchParams.get(
+					'allowDuplicate'
+				);
+
+				return HttpResponse.json({
+					success: true,
+					data: { ...invoice, duplicateOfId: invoice.id, duplicateAllowed: true },
+					message: 'Facture importée',
+				});
+			})
+		);
+
+		const file = new File(['%PDF-1.4'], 'facture.pdf', {
+			type: 'application/pdf',
+		});
+		const result = await invoiceService.importDriveInvoice(file, {
+			allowDuplicate: true,
+		});
+
+		expect(allowDuplicate).toBe('true');
+		expect(result.duplicateAllowed).toBe(true);
+	});
+
+	it("confirme l'import d'une facture signalée comme doublon", async () => {
+		server.use(
+			http.post(`${API_URL}/invoices/${invoice.id}/allow-duplicate`, () =>
+				HttpResponse.json({
+					...invoice,
+					duplicateOfId: '44444444-4444-4444-8444-444444444444',
+					duplicateAllowed: true,
+				})
+			)
+		);
+
+		const result = await invoiceService.allowDuplicate(invoice.id);
+
+		expect(result.duplicateAllowed).toBe(true);
+	});
+
 	it("relance l'analyse d'une facture interrompue", async () => {
 		server.use(
 			http.post(`${API_URL}/invoices/${invoice.id}/retry`, () =>
@@ -92,6 +174,60 @@ describe('invoiceService', () => {
 		expect(result.processingStage).toBe('QUEUED');
 	});
 
+	it("liste l'historique des factures avec les filtres renseignés", async () => {
+		let requestUrl = '';
+
+		server.use(
+			http.get(`${API_URL}/invoices`, ({ request }) => {
+				requestUrl = request.url;
+
+				return HttpResponse.json({
+					success: true,
+					data: {
+						items: [
+							{
+								...invoice,
+								items: undefined,
+								itemCount: 1,
+								validatedItemCount: 0,
+							},
+						],
+						pagination: { page: 1, pageSize: 20, totalItems: 1, totalPages: 1 },
+					},
+				});
+			})
+		);
+
+		const result = await invoiceService.listInvoices({
+			page: 1,
+			merchant: 'drive',
+			status: undefined,
+			minTotal: 10,
+		});
+
+		const searchParams = new URL(requestUrl).searchParams;
+		expect(searchParams.get('merchant')).toBe('drive');
+		expect(searchParams.get('minTotal')).toBe('10');
+		expect(searchParams.has('status')).toBe(false);
+		expect(result.items[0].itemCount).toBe(1);
+		expect(result.pagination.totalItems).toBe(1);
+	});
+
+	it('supprime une facture', async () => {
+		let deleted = false;
+
+		server.use(
+			http.delete(`${API_URL}/invoices/${invoice.id}`, () => {
+				deleted = true;
+				return new HttpResponse(null, { status: 204 });
+			})
+		);
+
+		await invoiceService.deleteInvoice(invoice.id);
+
+		expect(deleted).toBe(true);
+	});
+
 	it('refuse côté client les fichiers non PDF', async () => {
 		const file = new File(['png'], 'facture.png', { type: 'image/png' });
 
@@ -196,4 +332,26 @@ describe('invoiceService', () => {
 		expect(result.validatedItemCount).toBe(1);
 		expect(result.totalBudgetAmount).toBe(5);
 	});
+
+	it("annule la validation d'une facture", async () => {
+		server.use(
+			http.post(`${API_URL}/invoices/${invoice.id}/unvalidate`, () =>
+				HttpResponse.json({
+					success: true,
+					invoiceId: invoice.id,
+					revertedItemCount: 1,
+					removedInventoryItemCount: 1,
+					removedExpenseCount: 1,
+					removedBudgetAmount: 5,
+					unrevertedItems: [],
+					message: 'Validation de la facture annulée',
+				})
+			)
+		);
+
+		const result = await invoiceService.unvalidateInvoice(invoice.id);
+
+		expect(result.revertedItemCount).toBe(1);
+		expect(result.unrevertedItems).toEqual([]);
+	});
 });
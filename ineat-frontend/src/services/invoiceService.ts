@@ -1,4 +1,5 @@
 import { apiClient } from '@/lib/api-client';
+import type { ApiSuccessResponse } from '@/schemas';
 
 export const INVOICE_MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024;
 export const INVOICE_UPLOAD_TIMEOUT_MS = 90_000;
@@ -25,6 +26,7 @@ export interface InvoiceItem {
 	totalPrice?: number | null;
 	confidence: number;
 	validated: boolean;
+	resolvedFromHistory?: boolean;
 	productCode?: string | null;
 	category?: string | null;
 	discount?: number | null;
@@ -103,11 +105,40 @@ export interface Invoice {
 	analysisConfidence?: number | null;
 	processingTime?: number | null;
 	errorMessage?: string | null;
+	duplicateOfId?: string | null;
+	duplicateAllowed?: boolean;
 	createdAt: string;
 	updatedAt: string;
 	items: InvoiceItem[];
 }
 
+export interface InvoiceSummary extends Omit<Invoice, 'items'> {
+	itemCount: number;
+	validatedItemCount: number;
+}
+
+export interface InvoiceListFilters {
+	page?: number;
+	pageSize?: number;
+	status?: InvoiceStatus;
+	processingStage?: InvoiceProcessingStage;
+	merchant?: string;
+	from?: string;
+	to?: string;
+	minTotal?: number;
+	maxTotal?: number;
+}
+
+export interface InvoiceListPage {
+	items: InvoiceSummary[];
+	pagination: {
+		page: number;
+		pageSize: number;
+		totalItems: number;
+		totalPages: number;
+	};
+}
+
 export interface DriveImportResponse {
 	success: boolean;
 	data: Invoice;
@@ -138,6 +169,24 @@ export interface ValidateInvoiceResponse {
 	message: string;
 }
 
+export interface UnvalidateInvoiceResponse {
+	success: boolean;
+	invoiceId: string;
+	revertedItemCount: number;
+	removedInventoryItemCount: number;
+	removedExpenseCount: number;
+	removedBudgetAmount: number;
+	unrevertedItems: Array<{
+		invoiceItemId: string;
+		detectedName: string;
+		reason:
+			| 'INVENTORY_ITEM_MISSING'
+			| 'INVENTORY_ITEM_CONSUMED'
+			| 'INVENTORY_ITEM_SPLIT';
+	}>;
+	message: string;
+}
+
 const validatePdf = (file: File): void => {
 	if (file.type !== 'application/pdf') {
 		throw new Error('Seules les factures PDF sont acceptées');
@@ -153,14 +202,17 @@ const validatePdf = (file: File): void => {
 };
 
 export const invoiceService = {
-	async importDriveInvoice(file: File): Promise<Invoice> {
+	async importDriveInvoice(
+		file: File,
+		options: { allowDuplicate?: boolean } = {}
+	): Promise<Invoice> {
 		validatePdf(file);
 
 		const formData = new FormData();
 		formData.append('file', file);
 
 		const response = await apiClient.fetch<DriveImportResponse>(
-			'/invoices/drive-import',
+			`/invoices/drive-import${options.allowDuplicate ? '?allowDuplicate=true' : ''}`,
 			{
 				method: 'POST',
 				body: formData,
@@ -171,10 +223,38 @@ export const invoiceService = {
 		return response.data;
 	},
 
+	async listInvoices(
+		filters: InvoiceListFilters = {}
+	): Promise<InvoiceListPage> {
+		const searchParams = new URLSearchParams();
+		Object.entries(filters).forEach(([key, value]) => {
+			if (value !== undefined && value !== '') {
+				searchParams.set(key, String(value));
+			}
+		});
+
+		const queryString = searchParams.toString();
+		const response = await apiClient.get<ApiSuccessResponse<InvoiceListPage>>(
+			`/invoices${queryString ? `?${queryString}` : ''}`
+		);
+		return response.data;
+	},
+
 	async getInvoice(invoiceId: string): Promise<Invoice> {
 		return apiClient.get<Invoice>(`/invoices/${invoiceId}`);
 	},
 
+	async deleteInvoice(invoiceId: string): Promise<void> {
+		await apiClient.delete<void>(`/invoices/${invoiceId}`);
+	},
+
+	async allowDuplicate(invoiceId: string): Promise<Invoice> {
+		return apiClient.post<Invoice>(
+			`/invoices/${invoiceId}/allow-duplicate`,
+			{}
+		);
+	},
+
 	async retryInvoice(invoiceId: string): Promise<Invoice> {
 		return apiClient.post<Invoice>(`/invoices/${invoiceId}/retry`, {});
 	},
@@ -199,4 +279,13 @@ export const invoiceService = {
 			{ invoiceItemIds }
 		);
 	},
+
+	async unvalidateInvoice(
+		invoiceId: string
+	): Promise<UnvalidateInvoiceResponse> {
+		return apiClient.post<UnvalidateInvoiceResponse>(
+			`/invoices/${invoiceId}/unvalidate`,
+			{}
+		);
+	},
 };
@@ -107,6 +107,7 @@ describe('notificationService', () => {
 			dailyDigestEnabled: false,
 			expiry: true,
 			budget: true,
+			lowStock: true,
 			system: true,
 		};
 		server.use(
@@ -1,6 +1,6 @@
 import { apiClient } from '@/lib/api-client';
 
-export type NotificationType = 'EXPIRY' | 'BUDGET' | 'SYSTEM';
+export type NotificationType = 'EXPIRY' | 'BUDGET' | 'LOW_STOCK' | 'SYSTEM';
 
 export type AppNotification = {
 	id: string;
@@ -38,6 +38,7 @@ export type NotificationPreferences = {
 	dailyDigestEnabled: boolean;
 	expiry: boolean;
 	budget: boolean;
+	lowStock: boolean;
 	system: boolean;
 };
 
@@ -245,6 +245,7 @@ export class OpenFoodFactsService {
 			nutrients: nutrients || undefined,
 			imageUrl: imageUrl || undefined,
 			ingredients: ingredients || undefined,
+			allergens: offProduct.allergens_tags ?? [],
 			quality,
 			mappedAt: new Date(),
 			sourceLanguage: config.preferredLanguage,
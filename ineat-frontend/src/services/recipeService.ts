@@ -4,11 +4,13 @@ export type RecipeType = 'STARTER' | 'MAIN' | 'DESSERT';
 export type RecipeGenerationMode = 'STRICT' | 'FLEXIBLE';
 export type RecipeDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
 export type RecipeIngredientSource = 'INVENTORY' | 'BASIC' | 'MISSING';
+export type RecipeQuantityUnit = 'KG' | 'G' | 'L' | 'ML' | 'UNIT';
 
 export type GeneratedRecipeIngredient = {
 	name: string;
 	quantity?: number | null;
 	unit?: string | null;
+	unitType?: RecipeQuantityUnit | null;
 	source: RecipeIngredientSource;
 	productId?: string | null;
 };
@@ -54,6 +56,12 @@ export type SavedRecipe = {
 		productId?: string | null;
 		quantity?: number | null;
 		unit: string;
+		unitType?: RecipeQuantityUnit | null;
+		// Quantité convertie dans l'unité du produit de l'inventaire
+		inventoryQuantity?: {
+			quantity: number;
+			unitType: RecipeQuantityUnit;
+		} | null;
 		source: RecipeIngredientSource;
 	}>;
 };
@@ -73,13 +81,44 @@ export type GenerateRecipesInput = {
 
 export type CompletionPreview = {
 	recipeId: string;
+	servings: number;
+	// Lots utilisés, avec la quantité proposée (premier périmé, premier retiré)
 	items: Array<{
 		inventoryItemId: string;
 		productId: string;
 		name: string;
+		unitType: RecipeQuantityUnit;
+		availableQuantity: number;
+		proposedQuantity: number;
+		expiryDate?: string | null;
 	}>;
 };
 
+export type CompleteRecipeInput = {
+	servings: number;
+	items: Array<{ inventoryItemId: string; quantity: number }>;
+	// Restes rangés dans l'inventaire comme un lot cuit
+	leftovers?: { portions: number; storageLocation: string };
+};
+
+export type CompletedRecipeItem = {
+	inventoryItemId: string;
+	productId: string;
+	name: string;
+	unitType: RecipeQuantityUnit;
+	quantityConsumed: number;
+	remainingQuantity: number;
+};
+
+export type RecipeLeftoversItem = {
+	inventoryItemId: string;
+	productId: string;
+	name: string;
+	quantity: number;
+	storageLocation: string | null;
+	expiryDate: string | null;
+};
+
 export const recipeService = {
 	async generateRecipes(input: GenerateRecipesInput) {
 		const response = await apiClient.post<
@@ -131,21 +170,25 @@ export const recipeService = {
 		return response.data;
 	},
 
-	async getCompletionPreview(recipeId: string) {
+	async getCompletionPreview(recipeId: string, servings?: number) {
+		const params = servings
+			? `?${new URLSearchParams({ servings: String(servings) }).toString()}`
+			: '';
 		const response = await apiClient.get<ApiSuccess<CompletionPreview>>(
-			`/recipes/${recipeId}/completion-preview`
+			`/recipes/${recipeId}/completion-preview${params}`
 		);
 
 		return response.data;
 	},
 
-	async completeRecipe(recipeId: string, inventoryItemIds: string[]) {
+	async completeRecipe(recipeId: string, input: CompleteRecipeInput) {
 		const response = await apiClient.post<
 			ApiSuccess<{
 				recipe: SavedRecipe;
-				removedItems: CompletionPreview['items'];
+				removedItems: CompletedRecipeItem[];
+				leftoversItem: RecipeLeftoversItem | null;
 			}>
-		>(`/recipes/${recipeId}/complete`, { confirm: true, inventoryItemIds });
+		>(`/recipes/${recipeId}/complete`, { confirm: true, ...input });
 
 		return response.data;
 	},
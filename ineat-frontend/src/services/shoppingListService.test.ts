@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { http, HttpResponse } from 'msw';
+
+import {
+	shoppingListService,
+	toProductSearchResult,
+} from './shoppingListService';
+import { server } from '@/test/mocks/server';
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+const item = {
+	id: 'item-1',
+	name: 'Beurre',
+	quantity: null,
+	unit: null,
+	source: 'OUT_OF_STOCK',
+	checked: false,
+	checkedAt: null,
+	createdAt: '2026-10-19T08:00:00.000Z',
+	product: {
+		id: 'product-1',
+		name: 'Beurre doux',
+		brand: null,
+		barcode: '3228021170039',
+		imageUrl: null,
+		unitType: 'G',
+		nutriscore: 'E',
+		ecoscore: null,
+		novascore: null,
+		category: { id: 'category-1', name: 'Crèmerie', slug: 'cremerie' },
+	},
+	recipe: null,
+};
+
+describe('shoppingListService', () => {
+	it('récupère la liste de courses', async () => {
+		server.use(
+			http.get(`${API_URL}/shopping-list`, () =>
+				HttpResponse.json({
+					success: true,
+					data: { id: 'list-1', items: [item], remainingCount: 1 },
+				})
+			)
+		);
+
+		const result = await shoppingListService.getShoppingList();
+
+		expect(result.remainingCount).toBe(1);
+		expect(result.items[0]).toMatchObject({ id: 'item-1', checked: false });
+	});
+
+	it("ajoute les ingrédients manquants d'une recette", async () => {
+		server.use(
+			http.post(`${API_URL}/shopping-list/recipes/recipe-1`, () =>
+				HttpResponse.json({
+					success: true,
+					message: '1 ingrédient ajouté à la liste de courses',
+					data: { addedCount: 1, items: [item] },
+				})
+			)
+		);
+
+		const result =
+			await shoppingListService.addMissingIngredientsFromRecipe('recipe-1');
+
+		expect(result.message).toBe('1 ingrédient ajouté à la liste de courses');
+		expect(result.data.addedCount).toBe(1);
+	});
+
+	it('coche un article via PATCH', async () => {
+		let requestBody: unknown;
+
+		server.use(
+			http.patch(
+				`${API_URL}/shopping-list/items/item-1`,
+				async ({ request }) => {
+					requestBody = await request.json();
+					return HttpResponse.json({
+						success: true,
+						data: { ...item, checked: true },
+					});
+				}
+			)
+		);
+
+		const result = await shoppingListService.updateItem('item-1', {
+			checked: true,
+		});
+
+		expect(requestBody).toEqual({ checked: true });
+		expect(result.checked).toBe(true);
+	});
+
+	it('vide les articles cochés avant de cibler un article précis', async () => {
+		server.use(
+			http.delete(`${API_URL}/shopping-list/items/checked`, () =>
+				HttpResponse.json({
+					success: true,
+					deletedCount: 2,
+					message: '2 articles retirés de la liste de courses',
+				})
+			),
+			http.delete(`${API_URL}/shopping-list/items/:id`, () =>
+				HttpResponse.json({ success: false }, { status: 500 })
+			)
+		);
+
+		const result = await shoppingListService.clearCheckedItems();
+
+		expect(result.deletedCount).toBe(2);
+	});
+
+	it("convertit le produit d'un article pour l'ajout rapide", () => {
+		expect(toProductSearchResult(item.product as never)).toEqual({
+			id: 'product-1',
+			name: 'Beurre doux',
+			brand: undefined,
+			barcode: '3228021170039',
+			imageUrl: undefined,
+			unitType: 'G',
+			nutriscore: 'E',
+			ecoscore: undefined,
+			novascore: undefined,
+			category: { id: 'category-1', name: 'Crèmerie', slug: 'cremerie' },
+		});
+	});
+});
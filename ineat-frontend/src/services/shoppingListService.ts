@@ -0,0 +1,126 @@
+import { apiClient } from '@/lib/api-client';
+import type { ProductSearchResult } from '@/services/inventoryService';
+
+export type ShoppingListItemSource = 'MANUAL' | 'RECIPE' | 'OUT_OF_STOCK';
+
+export type ShoppingListItem = {
+	id: string;
+	name: string;
+	quantity?: number | null;
+	unit?: string | null;
+	notes?: string | null;
+	source: ShoppingListItemSource;
+	checked: boolean;
+	checkedAt?: string | null;
+	createdAt: string;
+	product?: {
+		id: string;
+		name: string;
+		brand?: string | null;
+		barcode?: string | null;
+		imageUrl?: string | null;
+		unitType: ProductSearchResult['unitType'];
+		nutriscore?: ProductSearchResult['nutriscore'] | null;
+		ecoscore?: ProductSearchResult['ecoscore'] | null;
+		novascore?: ProductSearchResult['novascore'] | null;
+		category: ProductSearchResult['category'];
+	} | null;
+	recipe?: {
+		id: string;
+		name: string;
+	} | null;
+};
+
+export type ShoppingList = {
+	id: string;
+	items: ShoppingListItem[];
+	remainingCount: number;
+};
+
+export type CreateShoppingListItemInput = {
+	name: string;
+	productId?: string;
+	quantity?: number;
+	unit?: string;
+	notes?: string;
+};
+
+export type UpdateShoppingListItemInput = Partial<
+	Omit<CreateShoppingListItemInput, 'productId'>
+> & {
+	checked?: boolean;
+};
+
+type ApiSuccess<T> = {
+	success: boolean;
+	message?: string;
+	data: T;
+};
+
+export const shoppingListService = {
+	async getShoppingList() {
+		const response =
+			await apiClient.get<ApiSuccess<ShoppingList>>('/shopping-list');
+
+		return response.data;
+	},
+
+	async addItem(input: CreateShoppingListItemInput) {
+		const response = await apiClient.post<ApiSuccess<ShoppingListItem>>(
+			'/shopping-list/items',
+			input
+		);
+
+		return response.data;
+	},
+
+	async addMissingIngredientsFromRecipe(recipeId: string) {
+		const response = await apiClient.post<
+			ApiSuccess<{ addedCount: number; items: ShoppingListItem[] }>
+		>(`/shopping-list/recipes/${recipeId}`);
+
+		return response;
+	},
+
+	async updateItem(itemId: string, input: UpdateShoppingListItemInput) {
+		const response = await apiClient.patch<ApiSuccess<ShoppingListItem>>(
+			`/shopping-list/items/${itemId}`,
+			input
+		);
+
+		return response.data;
+	},
+
+	async removeItem(itemId: string) {
+		await apiClient.delete(`/shopping-list/items/${itemId}`);
+	},
+
+	async clearCheckedItems() {
+		const response = await apiClient.delete<{
+			success: boolean;
+			deletedCount: number;
+			message: string;
+		}>('/shopping-list/items/checked');
+
+		return response;
+	},
+};
+
+/**
+ * Convertit le produit d'un article en résultat de recherche, pour réutiliser
+ * le formulaire d'ajout rapide à l'inventaire.
+ */
+export const toProductSearchResult = (
+	product: NonNullable<ShoppingListItem['product']>
+): ProductSearchResult => ({
+	id: product.id,
+	name: product.name,
+	brand: product.brand ?? undefined,
+	barcode: product.barcode ?? undefined,
+	imageUrl: product.imageUrl ?? undefined,
+	unitType: product.unitType,
+	nutriscore: product.nutriscore ?? undefined,
+	ecoscore: product.ecoscore ?? undefined,
+	novascore: product.novascore ?? undefined,
+	category: product.category,
+});
@@ -11,6 +11,7 @@ import {
 	InventoryItemWithStatus,
 	UpdateInventoryItemData,
 	ConsumeInventoryItemData,
+	DiscardInventoryItemData,
 	validateSchema,
 	AddInventoryItemSchema,
 	InventoryFiltersSchema,
@@ -83,6 +84,15 @@ interface InventoryDataState {
 	) => Promise<void>;
 	removeInventoryItem: (id: string) => Promise<void>;
 	removeInventoryItems: (ids: string[]) => Promise<void>;
+	restoreInventoryItems: (ids: string[]) => Promise<void>;
+	discardInventoryItem: (
+		id: string,
+		data: DiscardInventoryItemData
+	) => Promise<void>;
+	discardInventoryItems: (
+		ids: string[],
+		data: Omit<DiscardInventoryItemData, 'quantity'>
+	) => Promise<void>;
 	clearError: () => void;
 }
 
@@ -120,6 +130,9 @@ type InventoryActions = Pick<
 	| 'consumeInventoryItem'
 	| 'removeInventoryItem'
 	| 'removeInventoryItems'
+	| 'restoreInventoryItems'
+	| 'discardInventoryItem'
+	| 'discardInventoryItems'
 	| 'clearError'
 >;
 
@@ -533,6 +546,94 @@ export const useInventoryStore = create<InventoryState>()(
 					}
 				},
 
+				/**
+				 * Restaure des items supprimés et recharge l'inventaire
+				 */
+				restoreInventoryItems: async (ids) => {
+					const uniqueIds = [...new Set(ids)];
+
+					if (uniqueIds.length === 0) {
+						return;
+					}
+
+					set({ isLoading: true, error: null });
+					try {
+						await inventoryService.restoreInventoryItems(uniqueIds);
+						await get().fetchInventoryItems();
+					} catch (error) {
+						const errorMessage = getUserFacingErrorMessage(
+							error,
+							'Impossible de restaurer les produits. Veuillez réessayer.'
+						);
+
+						set({
+							error: errorMessage,
+							isLoading: false,
+						});
+						throw new Error(errorMessage);
+					}
+				},
+
+				/**
+				 * Jette tout ou partie d'un lot et recharge l'inventaire
+				 */
+				discardInventoryItem: async (id, data) => {
+					if (!id || typeof id !== 'string') {
+						throw new Error("ID d'item invalide");
+					}
+
+					set({ isLoading: true, error: null });
+					try {
+						await inventoryService.discardInventoryItem(id, data);
+						await get().fetchInventoryItems();
+					} catch (error) {
+						const errorMessage = getUserFacingErrorMessage(
+							error,
+							'Impossible de jeter le produit. Veuillez réessayer.'
+						);
+
+						set({
+							error: errorMessage,
+							isLoading: false,
+						});
+						throw new Error(errorMessage);
+					}
+				},
+
+				/**
+				 * Jette plusieurs lots entiers
+				 */
+				discardInventoryItems: async (ids, data) => {
+					const uniqueIds = [...new Set(ids)];
+
+					if (uniqueIds.length === 0) {
+						return;
+					}
+
+					set({ isLoading: true, error: null });
+					try {
+						await inventoryService.discardInventoryItems(uniqueIds, data);
+
+						set((state) => ({
+							items: state.items.filter(
+								(item) => !uniqueIds.includes(item.id)
+							),
+							isLoading: false,
+						}));
+					} catch (error) {
+						const errorMessage = getUserFacingErrorMessage(
+							error,
+							'Impossible de jeter les produits. Veuillez réessayer.'
+						);
+
+						set({
+							error: errorMessage,
+							isLoading: false,
+						});
+						throw new Error(errorMessage);
+					}
+				},
+
 				/**
 				 * Efface l'erreur actuelle
 				 */
@@ -674,6 +775,9 @@ export const useInventoryActions = () => {
 			consumeInventoryItem: store.consumeInventoryItem,
 			removeInventoryItem: store.removeInventoryItem,
 			removeInventoryItems: store.removeInventoryItems,
+			restoreInventoryItems: store.restoreInventoryItems,
+			discardInventoryItem: store.discardInventoryItem,
+			discardInventoryItems: store.discardInventoryItems,
 			clearError: store.clearError,
 		});
 		actionsInitialized = true;
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import { getDietaryConflicts } from './dietaryConflicts';
+
+describe('getDietaryConflicts', () => {
+	it('flags allergens from OpenFoodFacts tags', () => {
+		expect(
+			getDietaryConflicts(
+				{ name: 'Biscuits', allergens: ['en:gluten', 'en:milk'] },
+				{ allergens: ['gluten', 'peanuts'], diets: [] },
+			),
+		).toEqual([{ id: 'gluten', label: 'Gluten', type: 'allergen' }]);
+	});
+
+	it('falls back to the ingredients text when tags are missing', () => {
+		expect(
+			getDietaryConflicts(
+				{
+					name: 'Pesto',
+					ingredients: 'Basilic, huile, PIGNONS, noix de cajou, fromage',
+				},
+				{ allergens: ['nuts', 'lactose'], diets: ['vegan'] },
+			).map((conflict) => conflict.id),
+		).toEqual(['nuts', 'lactose', 'vegan']);
+	});
+
+	it('ignores look-alike ingredients', () => {
+		expect(
+			getDietaryConflicts(
+				{
+					name: 'Galettes de sarrasin',
+					ingredients: 'farine de blé noir, lait de coco, noix de coco',
+				},
+				{ allergens: ['gluten', 'lactose', 'nuts'], diets: ['dairy-free'] },
+			),
+		).toEqual([]);
+	});
+
+	it('flags meat for vegetarians from the category or the name', () => {
+		expect(
+			getDietaryConflicts(
+				{ name: 'Filet mignon', categorySlug: 'viandes-et-poissons' },
+				{ allergens: [], diets: ['vegetarian'] },
+			),
+		).toEqual([{ id: 'vegetarian', label: 'Végétarien', type: 'diet' }]);
+
+		expect(
+			getDietaryConflicts(
+				{ name: 'Jambon blanc', categorySlug: 'charcuterie' },
+				{ allergens: [], diets: ['no-pork', 'pescatarian'] },
+			).map((conflict) => conflict.id),
+		).toEqual(['no-pork', 'pescatarian']);
+	});
+
+	it('returns nothing without restrictions', () => {
+		expect(
+			getDietaryConflicts({ name: 'Lait demi-écrémé' }, undefined),
+		).toEqual([]);
+	});
+});
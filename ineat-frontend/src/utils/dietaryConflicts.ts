@@ -0,0 +1,261 @@
+import { getDietaryLabel } from '@/constants/dietary';
+
+export interface DietaryProductInput {
+	name?: string | null;
+	categorySlug?: string | null;
+	ingredients?: string | null;
+	/** Tags allergènes OpenFoodFacts (« en:gluten », « en:milk »...) */
+	allergens?: string[] | null;
+}
+
+export interface DietaryRestrictions {
+	allergens?: string[];
+	diets?: string[];
+}
+
+export interface DietaryConflict {
+	/** Identifiant COMMON_ALLERGENS ou COMMON_DIETS */
+	id: string;
+	label: string;
+	type: 'allergen' | 'diet';
+}
+
+interface ConflictRule {
+	allergenTags?: string[];
+	keywords?: string[];
+	/** Expressions qui ressemblent à un mot-clé sans être concernées */
+	excludes?: string[];
+	categorySlugs?: string[];
+}
+
+const normalize = (value?: string | null): string =>
+	(value ?? '')
+		.toLowerCase()
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(/œ/g, 'oe')
+		.replace(/['’]/g, ' ')
+		.trim();
+
+const GLUTEN_RULE: ConflictRule = {
+	allergenTags: ['en:gluten'],
+	keywords: [
+		'gluten',
+		'ble',
+		'froment',
+		'orge',
+		'seigle',
+		'avoine',
+		'epeautre',
+		'kamut',
+	],
+	excludes: ['sans gluten', 'ble noir'],
+};
+
+const DAIRY_RULE: ConflictRule = {
+	allergenTags: ['en:milk'],
+	keywords: [
+		'lait',
+		'lactose',
+		'lactoserum',
+		'beurre',
+		'creme',
+		'fromage',
+		'yaourt',
+		'caseine',
+	],
+	excludes: [
+		'sans lactose',
+		'lait de coco',
+		'lait d amande',
+		'lait de soja',
+		'lait d avoine',
+		'beurre de cacahuete',
+		'creme de marrons',
+	],
+};
+
+const EGG_RULE: ConflictRule = {
+	allergenTags: ['en:eggs'],
+	keywords: ['oeuf'],
+};
+
+const FISH_KEYWORDS = [
+	'poisson',
+	'saumon',
+	'thon',
+	'cabillaud',
+	'anchois',
+	'sardine',
+	'truite',
+	'colin',
+	'merlu',
+];
+
+const SEAFOOD_KEYWORDS = [
+	'crevette',
+	'crabe',
+	'homard',
+	'langoustine',
+	'crustace',
+	'moule',
+	'huitre',
+	'calamar',
+	'poulpe',
+	'encornet',
+];
+
+const PORK_KEYWORDS = [
+	'porc',
+	'jambon',
+	'lardon',
+	'bacon',
+	'saucisson',
+	'chorizo',
+	'rillettes',
+	'saindoux',
+];
+
+const MEAT_KEYWORDS = [
+	...PORK_KEYWORDS,
+	'viande',
+	'boeuf',
+	'veau',
+	'agneau',
+	'poulet',
+	'dinde',
+	'canard',
+	'saucisse',
+	'gelatine',
+];
+
+const ALLERGEN_RULES: Record<string, ConflictRule> = {
+	gluten: GLUTEN_RULE,
+	lactose: DAIRY_RULE,
+	eggs: EGG_RULE,
+	nuts: {
+		allergenTags: ['en:nuts'],
+		keywords: [
+			'fruits a coque',
+			'noisette',
+			'amande',
+			'noix',
+			'pistache',
+			'cajou',
+			'macadamia',
+		],
+		excludes: ['noix de coco', 'noix de muscade'],
+	},
+	peanuts: {
+		allergenTags: ['en:peanuts'],
+		keywords: ['arachide', 'cacahuete'],
+	},
+	soy: { allergenTags: ['en:soybeans'], keywords: ['soja'] },
+	fish: { allergenTags: ['en:fish'], keywords: FISH_KEYWORDS },
+	shellfish: {
+		allergenTags: ['en:crustaceans'],
+		keywords: ['crevette', 'crabe', 'homard', 'langoustine', 'crustace'],
+	},
+	molluscs: {
+		allergenTags: ['en:molluscs'],
+		keywords: [
+			'moule',
+			'huitre',
+			'calamar',
+			'poulpe',
+			'encornet',
+			'mollusque',
+		],
+	},
+	celery: { allergenTags: ['en:celery'], keywords: ['celeri'] },
+	mustard: { allergenTags: ['en:mustard'], keywords: ['moutarde'] },
+	sesame: { allergenTags: ['en:sesame-seeds'], keywords: ['sesame'] },
+	sulphites: {
+		allergenTags: ['en:sulphur-dioxide-and-sulphites'],
+		keywords: [
+			'sulfite',
+			'anhydride sulfureux',
+			'e220',
+			'e221',
+			'e223',
+			'e224',
+		],
+	},
+	lupin: { allergenTags: ['en:lupin'], keywords: ['lupin'] },
+};
+
+const VEGETARIAN_RULE: ConflictRule = {
+	allergenTags: ['en:fish', 'en:crustaceans', 'en:molluscs'],
+	keywords: [...MEAT_KEYWORDS, ...FISH_KEYWORDS, ...SEAFOOD_KEYWORDS],
+	categorySlugs: ['viandes-et-poissons'],
+};
+
+const DIET_RULES: Record<string, ConflictRule[]> = {
+	vegetarian: [VEGETARIAN_RULE],
+	vegan: [VEGETARIAN_RULE, DAIRY_RULE, EGG_RULE, { keywords: ['miel'] }],
+	pescatarian: [{ keywords: MEAT_KEYWORDS }],
+	'no-pork': [{ keywords: PORK_KEYWORDS }],
+	'dairy-free': [DAIRY_RULE],
+	'gluten-free': [GLUTEN_RULE],
+};
+
+const matchesKeyword = (text: string, keyword: string): boolean =>
+	new RegExp(`\\b${normalize(keyword)}[sx]?\\b`).test(text);
+
+const matchesRule = (
+	rule: ConflictRule,
+	text: string,
+	allergenTags: string[],
+	categorySlug: string,
+): boolean => {
+	if (rule.allergenTags?.some((tag) => allergenTags.includes(tag))) {
+		return true;
+	}
+
+	if (rule.categorySlugs?.includes(categorySlug)) {
+		return true;
+	}
+
+	const cleanedText = (rule.excludes ?? []).reduce(
+		(current, exclude) => current.split(normalize(exclude)).join(' '),
+		text,
+	);
+
+	return (rule.keywords ?? []).some((keyword) =>
+		matchesKeyword(cleanedText, keyword),
+	);
+};
+
+/**
+ * Confronte un produit aux allergènes et régimes de l'utilisateur, à partir
+ * des tags OpenFoodFacts puis du texte des ingrédients et du nom
+ */
+export const getDietaryConflicts = (
+	product: DietaryProductInput,
+	restrictions?: DietaryRestrictions | null,
+): DietaryConflict[] => {
+	const text = normalize(`${product.name ?? ''} ${product.ingredients ?? ''}`);
+	const allergenTags = product.allergens ?? [];
+	const categorySlug = product.categorySlug ?? '';
+
+	const allergenConflicts = (restrictions?.allergens ?? [])
+		.filter((id) => {
+			const rule = ALLERGEN_RULES[id];
+			return rule && matchesRule(rule, text, allergenTags, categorySlug);
+		})
+		.map((id) => ({
+			id,
+			label: getDietaryLabel(id),
+			type: 'allergen' as const,
+		}));
+
+	const dietConflicts = (restrictions?.diets ?? [])
+		.filter((id) =>
+			(DIET_RULES[id] ?? []).some((rule) =>
+				matchesRule(rule, text, allergenTags, categorySlug),
+			),
+		)
+		.map((id) => ({ id, label: getDietaryLabel(id), type: 'diet' as const }));
+
+	return [...allergenConflicts, ...dietConflicts];
+};
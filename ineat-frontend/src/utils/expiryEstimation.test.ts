@@ -14,6 +14,7 @@ describe('getExpirySuggestion', () => {
 		expect(suggestion).toEqual({
 			date: '2026-05-15',
 			reason: 'produits laitiers + refrigerateur',
+			expiryKind: 'USE_BY',
 		});
 	});
 
@@ -28,6 +29,7 @@ describe('getExpirySuggestion', () => {
 		expect(suggestion).toEqual({
 			date: '2026-05-06',
 			reason: 'pain + placard',
+			expiryKind: 'BEST_BEFORE',
 		});
 	});
 
@@ -42,6 +44,7 @@ describe('getExpirySuggestion', () => {
 		expect(suggestion).toEqual({
 			date: '2026-10-28',
 			reason: 'stockage congelateur',
+			expiryKind: 'USE_BY',
 		});
 	});
 
@@ -57,6 +60,7 @@ describe('getExpirySuggestion', () => {
 		expect(suggestion).toEqual({
 			date: '2026-05-04',
 			reason: 'épicerie salée + refrigerateur + cuit',
+			expiryKind: 'USE_BY',
 		});
 	});
 
@@ -72,6 +76,31 @@ describe('getExpirySuggestion', () => {
 		expect(suggestion).toEqual({
 			date: '2026-05-06',
 			reason: 'produits laitiers + refrigerateur + ouvert',
+			expiryKind: 'USE_BY',
+		});
+	});
+
+	it('checks personal rules before the built-in rules', () => {
+		const suggestion = getExpirySuggestion({
+			productName: 'Pain complet',
+			categorySlug: 'epicerie-salee',
+			storageLocation: 'placard',
+			purchaseDate: '2026-05-01',
+			userRules: [
+				{
+					id: 'override-1',
+					label: 'Pain de la boulangerie',
+					keywords: ['pain'],
+					daysByStorage: { pantry: 2 },
+					defaultDays: 2,
+				},
+			],
+		});
+
+		expect(suggestion).toEqual({
+			date: '2026-05-03',
+			reason: 'Pain de la boulangerie (règle personnelle) + placard',
+			expiryKind: 'BEST_BEFORE',
 		});
 	});
 });
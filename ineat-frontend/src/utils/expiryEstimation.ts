@@ -1,5 +1,6 @@
 import {
 	CATEGORY_SHELF_LIFE_RULES,
+	type ExpiryKind,
 	PRODUCT_SHELF_LIFE_RULES,
 	type ShelfLifeRule,
 	STORAGE_ALIASES,
@@ -11,19 +12,31 @@ import type {
 	PreparationStatus,
 } from '@/utils/productStateOptions';
 
+/** Règle de conservation personnelle, liée à un produit ou à des mots-clés */
+export interface UserShelfLifeRule extends ShelfLifeRule {
+	productId?: string | null;
+}
+
 export interface ExpirySuggestionInput {
+	productId?: string;
 	productName?: string;
 	categorySlug?: string;
 	categoryName?: string;
 	storageLocation?: string;
+	/** Type de stockage déjà résolu (lieux personnalisés de l'utilisateur) */
+	storageGroup?: StorageGroup;
 	packageStatus?: PackageStatus;
 	preparationStatus?: PreparationStatus;
 	purchaseDate: string;
+	/** Règles personnelles, prioritaires sur les règles intégrées */
+	userRules?: UserShelfLifeRule[];
 }
 
 export interface ExpirySuggestion {
 	date: string;
 	reason: string;
+	/** DLC ou DDM, déduit des règles intégrées (un plat cuit reste une DLC) */
+	expiryKind: ExpiryKind;
 }
 
 const normalize = (value?: string): string =>
@@ -47,8 +60,22 @@ const addDays = (date: Date, days: number): Date => {
 	return result;
 };
 
-const resolveStorageGroup = (storageLocation?: string): StorageGroup => {
+/**
+ * Type de stockage d'un lieu : d'abord les lieux de l'utilisateur, puis les
+ * alias historiques (« frigo », « congelateur »...)
+ */
+export const resolveStorageGroup = (
+	storageLocation?: string,
+	userLocations: ReadonlyArray<{ name: string; storageGroup: StorageGroup }> = [],
+): StorageGroup => {
 	const normalized = normalize(storageLocation);
+	const userLocation = userLocations.find(
+		(location) => normalize(location.name) === normalized,
+	);
+
+	if (userLocation) {
+		return userLocation.storageGroup;
+	}
 
 	for (const [group, aliases] of Object.entries(STORAGE_ALIASES)) {
 		if (aliases.some((alias) => normalized.includes(normalize(alias)))) {
@@ -69,6 +96,17 @@ const findRule = (rules: ShelfLifeRule[], text: string) => {
 	);
 };
 
+const findUserRule = (
+	rules: UserShelfLifeRule[],
+	productId?: string,
+	productName?: string,
+) =>
+	(productId && rules.find((rule) => rule.productId === productId)) ||
+	findRule(
+		rules.filter((rule) => !rule.productId),
+		productName ?? '',
+	);
+
 const COOKED_DURATION_DAYS: Record<StorageGroup, number> = {
 	fridge: 3,
 	freezer: 60,
@@ -123,26 +161,31 @@ const applyStateAdjustments = ({
 };
 
 export const getExpirySuggestion = ({
+	productId,
 	productName,
 	categorySlug,
 	categoryName,
 	storageLocation,
+	storageGroup: resolvedStorageGroup,
 	packageStatus,
 	preparationStatus,
 	purchaseDate,
+	userRules,
 }: ExpirySuggestionInput): ExpirySuggestion | null => {
 	if (!purchaseDate) return null;
 
 	const referenceDate = new Date(purchaseDate);
 	if (Number.isNaN(referenceDate.getTime())) return null;
 
-	const storageGroup = resolveStorageGroup(storageLocation);
+	const storageGroup =
+		resolvedStorageGroup ?? resolveStorageGroup(storageLocation);
+	const userRule = findUserRule(userRules ?? [], productId, productName);
 	const productRule = findRule(PRODUCT_SHELF_LIFE_RULES, productName ?? '');
 	const categoryRule = findRule(
 		CATEGORY_SHELF_LIFE_RULES,
 		`${categorySlug ?? ''} ${categoryName ?? ''}`,
 	);
-	const matchedRule = productRule ?? categoryRule;
+	const matchedRule = userRule ?? productRule ?? categoryRule;
 	const days =
 		matchedRule?.daysByStorage[storageGroup] ??
 		matchedRule?.defaultDays ??
@@ -150,7 +193,8 @@ export const getExpirySuggestion = ({
 	const adjusted = applyStateAdjustments({
 		days,
 		storageGroup,
-		ruleId: matchedRule?.id,
+		// Une règle personnelle garde les plafonds « ouvert » de sa catégorie
+		ruleId: userRule ? categoryRule?.id : matchedRule?.id,
 		packageStatus,
 		preparationStatus,
 	});
@@ -159,8 +203,14 @@ export const getExpirySuggestion = ({
 
 	return {
 		date: formatDate(addDays(referenceDate, adjusted.days)),
-		reason: matchedRule
-			? `${matchedRule.label} + ${storageLocation || 'stockage par défaut'}${stateReason}`
-			: `stockage ${storageLocation || 'par défaut'}${stateReason}`,
+		expiryKind:
+			preparationStatus === 'COOKED'
+				? 'USE_BY'
+				: ((productRule ?? categoryRule)?.expiryKind ?? 'USE_BY'),
+		reason: userRule
+			? `${userRule.label} (règle personnelle) + ${storageLocation || 'stockage par défaut'}${stateReason}`
+			: matchedRule
+				? `${matchedRule.label} + ${storageLocation || 'stockage par défaut'}${stateReason}`
+				: `stockage ${storageLocation || 'par défaut'}${stateReason}`,
 	};
 };
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseInventoryLabelLink } from './inventoryLabels';
+
+describe('parseInventoryLabelLink', () => {
+	it('reads the lot encoded in a label QR code', () => {
+		expect(
+			parseInventoryLabelLink(
+				'https://ineat.store/app/inventory/5b1f8f7e-7c1a-4c53-9d0b-2a6c1f3e8d10?lot=5b1f8f7e-7c1a-4c53-9d0b-2a6c1f3e8d10',
+			),
+		).toEqual({
+			productId: '5b1f8f7e-7c1a-4c53-9d0b-2a6c1f3e8d10',
+			lotId: '5b1f8f7e-7c1a-4c53-9d0b-2a6c1f3e8d10',
+		});
+	});
+
+	it('ignores barcodes and other links', () => {
+		expect(parseInventoryLabelLink('3263859672014')).toBeNull();
+		expect(
+			parseInventoryLabelLink('https://ineat.store/app/recipes'),
+		).toBeNull();
+	});
+});
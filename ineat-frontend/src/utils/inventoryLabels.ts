@@ -0,0 +1,32 @@
+export interface InventoryLabelLink {
+	/** Paramètre de la fiche produit (n'importe quel lot du produit) */
+	productId: string;
+	/** Lot à mettre en avant sur la fiche */
+	lotId?: string;
+}
+
+const INVENTORY_LABEL_PATH = /^\/app\/inventory\/([0-9a-f-]{36})\/?$/i;
+
+/**
+ * Reconnaît le lien encodé dans le QR code d'une étiquette de lot
+ * (`https://…/app/inventory/<id>?lot=<id>`). Renvoie null pour un code-barres
+ * ou tout autre contenu.
+ */
+export const parseInventoryLabelLink = (
+	text: string,
+): InventoryLabelLink | null => {
+	let url: URL;
+	try {
+		url = new URL(text.trim());
+	} catch {
+		return null;
+	}
+
+	const match = INVENTORY_LABEL_PATH.exec(url.pathname);
+	if (!match) {
+		return null;
+	}
+
+	const lotId = url.searchParams.get('lot') ?? undefined;
+	return { productId: match[1], ...(lotId && { lotId }) };
+};
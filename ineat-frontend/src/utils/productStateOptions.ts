@@ -8,6 +8,8 @@ export interface ProductStateInput {
 	categorySlug?: string;
 	categoryName?: string;
 	storageLocation?: string;
+	/** Type de stockage déjà résolu (lieux personnalisés de l'utilisateur) */
+	storageGroup?: StorageGroup;
 }
 
 export interface ProductStateOptions {
@@ -45,8 +47,10 @@ export const getProductStateOptions = ({
 	categorySlug,
 	categoryName,
 	storageLocation,
+	storageGroup: resolvedStorageGroup,
 }: ProductStateInput): ProductStateOptions => {
-	const storageGroup = resolveStorageGroup(storageLocation);
+	const storageGroup =
+		resolvedStorageGroup ?? resolveStorageGroup(storageLocation);
 	const text = normalize(
 		`${productName ?? ''} ${categorySlug ?? ''} ${categoryName ?? ''}`,
 	);